@@ -0,0 +1,5 @@
+export * from './base58Address';
+export * from './bech32';
+export * from './cashAddress';
+export * from './lockingBytecode';
+export * from './segwitAddress';
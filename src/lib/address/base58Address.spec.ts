@@ -0,0 +1,152 @@
+// tslint:disable:no-expression-statement no-magic-numbers no-unsafe-any
+import test from 'ava';
+import { Base58DecodingError } from '../bin/bin';
+import { instantiateRipemd160, instantiateSha256 } from '../crypto/crypto';
+import { hexToBin } from '../utils';
+import {
+  Base58AddressError,
+  Base58AddressFormatVersion,
+  base58AddressToLockingBytecode,
+  decodeBase58Address,
+  encodeBase58Address,
+  encodeBase58AddressFormat,
+  lockingBytecodeToBase58Address
+} from './base58Address';
+import { AddressType, derivePublicKeyHash } from './lockingBytecode';
+
+const sha256Promise = instantiateSha256();
+const ripemd160Promise = instantiateRipemd160();
+
+const publicKeyHash = hexToBin('15d16c84669ab46059313bf0747e781f1d13936d');
+const lockingBytecode = hexToBin(
+  '76a91415d16c84669ab46059313bf0747e781f1d13936d88ac'
+);
+
+test('encodeBase58Address: from a public key', async t => {
+  const sha256 = await sha256Promise;
+  const ripemd160 = await ripemd160Promise;
+  const publicKey = hexToBin(
+    '0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798'
+  );
+  const hash = derivePublicKeyHash({ ripemd160, sha256 }, publicKey);
+  t.deepEqual(hash, hexToBin('751e76e8199196d454941c45d1b3a323f1433bd6'));
+  t.deepEqual(
+    encodeBase58Address(sha256, AddressType.p2pkh, hash),
+    '1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMH'
+  );
+});
+
+test('encodeBase58Address', async t => {
+  const sha256 = await sha256Promise;
+  t.deepEqual(
+    encodeBase58Address(sha256, AddressType.p2pkh, publicKeyHash, 'testnet'),
+    'mhWKN7Kd1PJJHfhk5b8KZVkhbEsseqRLEC'
+  );
+  t.deepEqual(
+    encodeBase58Address(sha256, AddressType.p2pkh, publicKeyHash, 'regtest'),
+    'mhWKN7Kd1PJJHfhk5b8KZVkhbEsseqRLEC'
+  );
+  t.deepEqual(
+    encodeBase58Address(
+      sha256,
+      AddressType.p2sh,
+      hexToBin('b472a266d0bd89c13706a4132ccfb16f7c3b9fcb')
+    ),
+    '3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy'
+  );
+  t.deepEqual(
+    encodeBase58Address(sha256, AddressType.p2sh, publicKeyHash, 'testnet'),
+    '2MuEb4Lf7MigmoWZ7AFSQn9ta67n46rvMPo'
+  );
+  t.deepEqual(
+    encodeBase58Address(sha256, AddressType.p2pkh, new Uint8Array(19)),
+    Base58AddressError.incorrectLength
+  );
+});
+
+test('encodeBase58AddressFormat', async t => {
+  const sha256 = await sha256Promise;
+  t.deepEqual(
+    encodeBase58AddressFormat(
+      sha256,
+      Base58AddressFormatVersion.p2pkh,
+      publicKeyHash
+    ),
+    '12zN54EeCMs3WZE8N29wjaYNjFHAjbd8Tk'
+  );
+});
+
+test('decodeBase58Address', async t => {
+  const sha256 = await sha256Promise;
+  t.deepEqual(
+    decodeBase58Address(sha256, '12zN54EeCMs3WZE8N29wjaYNjFHAjbd8Tk'),
+    {
+      network: 'mainnet',
+      payload: publicKeyHash,
+      type: AddressType.p2pkh
+    }
+  );
+  t.deepEqual(
+    decodeBase58Address(sha256, '2MuEb4Lf7MigmoWZ7AFSQn9ta67n46rvMPo'),
+    {
+      network: 'testnet',
+      payload: publicKeyHash,
+      type: AddressType.p2sh
+    }
+  );
+  t.deepEqual(
+    decodeBase58Address(sha256, '12zN54EeCMs3WZE8N29wjaYNjFHAjbd8Tj'),
+    Base58DecodingError.invalidChecksum
+  );
+  t.deepEqual(
+    decodeBase58Address(
+      sha256,
+      encodeBase58AddressFormat(sha256, 0x80, publicKeyHash)
+    ),
+    Base58AddressError.unknownAddressVersion
+  );
+  t.deepEqual(
+    decodeBase58Address(
+      sha256,
+      encodeBase58AddressFormat(
+        sha256,
+        Base58AddressFormatVersion.p2pkh,
+        new Uint8Array(21)
+      )
+    ),
+    Base58AddressError.incorrectLength
+  );
+});
+
+test('lockingBytecodeToBase58Address <-> base58AddressToLockingBytecode', async t => {
+  const sha256 = await sha256Promise;
+  t.deepEqual(
+    lockingBytecodeToBase58Address(sha256, lockingBytecode),
+    '12zN54EeCMs3WZE8N29wjaYNjFHAjbd8Tk'
+  );
+  t.deepEqual(
+    base58AddressToLockingBytecode(
+      sha256,
+      '12zN54EeCMs3WZE8N29wjaYNjFHAjbd8Tk'
+    ),
+    { bytecode: lockingBytecode, network: 'mainnet' }
+  );
+  t.deepEqual(
+    base58AddressToLockingBytecode(
+      sha256,
+      '3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy'
+    ),
+    {
+      bytecode: hexToBin('a914b472a266d0bd89c13706a4132ccfb16f7c3b9fcb87'),
+      network: 'mainnet'
+    }
+  );
+  t.deepEqual(
+    lockingBytecodeToBase58Address(sha256, hexToBin('6a')),
+    Base58AddressError.unsupportedLockingBytecode
+  );
+  t.deepEqual(
+    base58AddressToLockingBytecode(sha256, '0'),
+    Base58DecodingError.unknownCharacter
+  );
+});
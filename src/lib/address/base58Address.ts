@@ -0,0 +1,215 @@
+import {
+  base58CheckToBin,
+  Base58DecodingError,
+  binToBase58Check
+} from '../bin/bin';
+import { Sha256 } from '../crypto/crypto';
+import { flattenBinArray } from '../utils';
+import {
+  addressContentsToLockingBytecode,
+  AddressType,
+  lockingBytecodeToAddressContents
+} from './lockingBytecode';
+
+/**
+ * The version bytes used by legacy (Base58Check) addresses. Regtest addresses
+ * use the same version bytes as testnet addresses.
+ */
+export enum Base58AddressFormatVersion {
+  /**
+   * A mainnet P2PKH address (`1...`).
+   */
+  p2pkh = 0x00,
+  /**
+   * A mainnet P2SH address (`3...`).
+   */
+  p2sh = 0x05,
+  /**
+   * A testnet or regtest P2PKH address (`m...` or `n...`).
+   */
+  p2pkhTestnet = 0x6f,
+  /**
+   * A testnet or regtest P2SH address (`2...`).
+   */
+  p2shTestnet = 0xc4
+}
+
+/**
+ * The networks for which legacy addresses can be encoded.
+ */
+export type Base58AddressNetwork = 'mainnet' | 'testnet' | 'regtest';
+
+/**
+ * The address types which can be encoded as legacy addresses.
+ */
+export type Base58AddressType = AddressType.p2pkh | AddressType.p2sh;
+
+/**
+ * The reasons for which encoding or decoding a legacy address may fail.
+ */
+export enum Base58AddressError {
+  incorrectLength = 'Legacy address payloads must be 20 bytes.',
+  unknownAddressVersion = 'Legacy address uses an unknown version byte.',
+  unsupportedLockingBytecode = 'Locking bytecode cannot be represented by a legacy address (only P2PKH and P2SH are supported).'
+}
+
+/**
+ * The result of decoding a legacy address.
+ */
+export interface DecodedBase58Address {
+  /**
+   * The network of the address. (Regtest addresses are indistinguishable from
+   * testnet addresses, so they are decoded as `testnet`.)
+   */
+  readonly network: 'mainnet' | 'testnet';
+  /**
+   * The 20-byte hash encoded by the address.
+   */
+  readonly payload: Uint8Array;
+  /**
+   * The type of the address.
+   */
+  readonly type: Base58AddressType;
+}
+
+const payloadLength = 20;
+
+const isTestnet = (network: Base58AddressNetwork) => network !== 'mainnet';
+
+const getBase58AddressFormatVersion = (
+  type: Base58AddressType,
+  network: Base58AddressNetwork
+) =>
+  type === AddressType.p2pkh
+    ? isTestnet(network)
+      ? Base58AddressFormatVersion.p2pkhTestnet
+      : Base58AddressFormatVersion.p2pkh
+    : isTestnet(network)
+    ? Base58AddressFormatVersion.p2shTestnet
+    : Base58AddressFormatVersion.p2sh;
+
+const decodeBase58AddressFormatVersion = (
+  version: number
+): Pick<DecodedBase58Address, 'network' | 'type'> | undefined =>
+  version === Base58AddressFormatVersion.p2pkh
+    ? { network: 'mainnet', type: AddressType.p2pkh }
+    : version === Base58AddressFormatVersion.p2sh
+    ? { network: 'mainnet', type: AddressType.p2sh }
+    : version === Base58AddressFormatVersion.p2pkhTestnet
+    ? { network: 'testnet', type: AddressType.p2pkh }
+    : version === Base58AddressFormatVersion.p2shTestnet
+    ? { network: 'testnet', type: AddressType.p2sh }
+    : undefined;
+
+/**
+ * Encode a payload using the Base58Check address format: a version byte
+ * followed by the payload, encoded as a Base58Check string.
+ *
+ * @param sha256 an implementation of sha256
+ * @param version the version byte (see `Base58AddressFormatVersion`)
+ * @param payload the payload to encode
+ */
+export const encodeBase58AddressFormat = (
+  sha256: Sha256,
+  version: number,
+  payload: Uint8Array
+) =>
+  binToBase58Check(sha256, flattenBinArray([Uint8Array.of(version), payload]));
+
+/**
+ * Encode a 20-byte hash as a legacy (Base58Check) address.
+ *
+ * For P2PKH addresses, the hash is the `derivePublicKeyHash` of a public key;
+ * for P2SH addresses, it is the `deriveScriptHash` of a redeem script.
+ *
+ * @param sha256 an implementation of sha256
+ * @param type the type of address to encode
+ * @param hash the 20-byte hash to encode
+ * @param network the network for which to encode the address (default:
+ * `mainnet`)
+ */
+export const encodeBase58Address = (
+  sha256: Sha256,
+  type: Base58AddressType,
+  hash: Uint8Array,
+  network: Base58AddressNetwork = 'mainnet'
+) =>
+  hash.length === payloadLength
+    ? encodeBase58AddressFormat(
+        sha256,
+        getBase58AddressFormatVersion(type, network),
+        hash
+      )
+    : Base58AddressError.incorrectLength;
+
+const interpretBase58Address = (
+  bin: Uint8Array
+): DecodedBase58Address | Base58AddressError => {
+  const decodedVersion = decodeBase58AddressFormatVersion(bin[0]);
+  const payload = bin.slice(1);
+  return decodedVersion === undefined
+    ? Base58AddressError.unknownAddressVersion
+    : payload.length === payloadLength
+    ? { ...decodedVersion, payload }
+    : Base58AddressError.incorrectLength;
+};
+
+/**
+ * Decode a legacy (Base58Check) address, returning its network, type, and
+ * 20-byte payload.
+ *
+ * @param sha256 an implementation of sha256
+ * @param address the legacy address to decode
+ */
+export const decodeBase58Address = (
+  sha256: Sha256,
+  address: string
+): DecodedBase58Address | Base58AddressError | Base58DecodingError => {
+  const bin = base58CheckToBin(sha256, address);
+  return typeof bin === 'string' ? bin : interpretBase58Address(bin);
+};
+
+/**
+ * Encode a P2PKH or P2SH locking bytecode as a legacy (Base58Check) address.
+ *
+ * @param sha256 an implementation of sha256
+ * @param lockingBytecode the locking bytecode to encode
+ * @param network the network for which to encode the address (default:
+ * `mainnet`)
+ */
+export const lockingBytecodeToBase58Address = (
+  sha256: Sha256,
+  lockingBytecode: Uint8Array,
+  network: Base58AddressNetwork = 'mainnet'
+) => {
+  const contents = lockingBytecodeToAddressContents(lockingBytecode);
+  return contents.type === AddressType.unknown
+    ? Base58AddressError.unsupportedLockingBytecode
+    : encodeBase58Address(sha256, contents.type, contents.payload, network);
+};
+
+const decodedBase58AddressToLockingBytecode = (
+  decoded: DecodedBase58Address
+) => {
+  const bytecode = addressContentsToLockingBytecode(decoded);
+  return typeof bytecode === 'string'
+    ? bytecode
+    : { bytecode, network: decoded.network };
+};
+
+/**
+ * Decode a legacy (Base58Check) address into the locking bytecode it
+ * represents.
+ *
+ * @param sha256 an implementation of sha256
+ * @param address the legacy address to decode
+ */
+export const base58AddressToLockingBytecode = (
+  sha256: Sha256,
+  address: string
+) => {
+  const decoded = decodeBase58Address(sha256, address);
+  return typeof decoded === 'string'
+    ? decoded
+    : decodedBase58AddressToLockingBytecode(decoded);
+};
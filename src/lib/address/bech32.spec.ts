@@ -0,0 +1,110 @@
+// tslint:disable:no-expression-statement no-magic-numbers no-unsafe-any
+import test from 'ava';
+import * as fc from 'fast-check';
+import {
+  Bech32DecodingError,
+  Bech32Encoding,
+  decodeBech32,
+  DecodedBech32,
+  encodeBech32,
+  regroupBits
+} from './bech32';
+
+const validBech32: ReadonlyArray<string> = [
+  'A12UEL5L',
+  'a12uel5l',
+  'an83characterlonghumanreadablepartthatcontainsthenumber1andtheexcludedcharactersbio1tt5tgs',
+  'abcdef1qpzry9x8gf2tvdw0s3jn54khce6mua7lmqqqxw',
+  '11qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqc8247j',
+  'split1checkupstagehandshakeupstreamerranterredcaperred2y9e3w',
+  '?1ezyfcl'
+];
+
+const validBech32m: ReadonlyArray<string> = [
+  'A1LQFN3A',
+  'a1lqfn3a',
+  'an83characterlonghumanreadablepartthatcontainsthetheexcludedcharactersbioandnumber11sg7hg6',
+  'abcdef1l7aum6echk45nj3s0wdvt2fg8x9yrzpqzd3ryx',
+  '11llllllllllllllllllllllllllllllllllllllllllllllllllllllllllllllllllllllllllllllllllludsr8',
+  'split1checkupstagehandshakeupstreamerranterredcaperredlc445v',
+  '?1v759aa'
+];
+
+test('decodeBech32 <-> encodeBech32: BIP173 and BIP350 vectors', t => {
+  const check = (vectors: ReadonlyArray<string>, encoding: Bech32Encoding) =>
+    vectors.map(vector => {
+      const decoded = decodeBech32(vector) as DecodedBech32;
+      t.deepEqual(decoded.encoding, encoding);
+      t.deepEqual(
+        encodeBech32(decoded.humanReadablePart, decoded.words, encoding),
+        vector.toLowerCase()
+      );
+    });
+  check(validBech32, Bech32Encoding.bech32);
+  check(validBech32m, Bech32Encoding.bech32m);
+});
+
+test('decodeBech32: invalid strings', t => {
+  t.deepEqual(
+    decodeBech32('\x201nwldj5'),
+    Bech32DecodingError.invalidHumanReadablePart
+  );
+  t.deepEqual(
+    decodeBech32('\x7f1axkwrx'),
+    Bech32DecodingError.invalidHumanReadablePart
+  );
+  t.deepEqual(
+    decodeBech32('\x801eym55h'),
+    Bech32DecodingError.invalidHumanReadablePart
+  );
+  t.deepEqual(
+    decodeBech32(
+      'an84characterslonghumanreadablepartthatcontainsthenumber1andtheexcludedcharactersbio1569pvx'
+    ),
+    Bech32DecodingError.tooLong
+  );
+  t.deepEqual(
+    decodeBech32('pzry9x0s0muk'),
+    Bech32DecodingError.missingSeparator
+  );
+  t.deepEqual(
+    decodeBech32('1pzry9x0s0muk'),
+    Bech32DecodingError.invalidHumanReadablePart
+  );
+  t.deepEqual(decodeBech32('x1b4n0q5v'), Bech32DecodingError.invalidCharacters);
+  t.deepEqual(decodeBech32('li1dgmt3'), Bech32DecodingError.missingSeparator);
+  t.deepEqual(
+    decodeBech32('de1lg7wt\xff'),
+    Bech32DecodingError.invalidCharacters
+  );
+  t.deepEqual(decodeBech32('A1G7SGD8'), Bech32DecodingError.invalidChecksum);
+  t.deepEqual(
+    decodeBech32('10a06t8'),
+    Bech32DecodingError.invalidHumanReadablePart
+  );
+  t.deepEqual(decodeBech32('a12UEL5L'), Bech32DecodingError.mixedCase);
+});
+
+test('regroupBits', t => {
+  t.deepEqual(regroupBits([255], 8, 5, true), [31, 28]);
+  t.deepEqual(regroupBits([31, 28], 5, 8, false), [255]);
+  t.deepEqual(regroupBits([31, 29], 5, 8, false), undefined);
+  t.deepEqual(regroupBits([31, 28, 0], 5, 8, false), undefined);
+});
+
+test('regroupBits: 8-bit <-> 5-bit', t => {
+  const inverse = fc.property(fc.array(fc.integer(0, 255), 0, 100), bytes =>
+    t.deepEqual(
+      regroupBits(
+        regroupBits(bytes, 8, 5, true) as ReadonlyArray<number>,
+        5,
+        8,
+        false
+      ),
+      bytes
+    )
+  );
+  t.notThrows(() => {
+    fc.assert(inverse);
+  });
+});
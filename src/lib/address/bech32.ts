@@ -0,0 +1,291 @@
+/**
+ * The checksum constants of the Bech32 encodings: `bech32` (BIP173) and
+ * `bech32m` (BIP350).
+ */
+export enum Bech32Encoding {
+  bech32 = 0x01,
+  bech32m = 0x2bc830a3
+}
+
+/**
+ * The reasons for which decoding a Bech32 string may fail.
+ */
+export enum Bech32DecodingError {
+  invalidCharacters = 'Bech32 string contains characters which are not in the Bech32 character set.',
+  invalidChecksum = 'Bech32 string has an invalid checksum.',
+  invalidHumanReadablePart = 'Bech32 string has an invalid human-readable part (it must contain 1 to 83 US-ASCII characters in the range 33 to 126).',
+  missingSeparator = 'Bech32 string is missing a separator ("1") followed by at least 6 characters.',
+  mixedCase = 'Bech32 string uses both uppercase and lowercase characters.',
+  tooLong = 'Bech32 string exceeds the maximum length (90 characters).'
+}
+
+/**
+ * The contents of a decoded Bech32 string.
+ */
+export interface DecodedBech32 {
+  /**
+   * The encoding (checksum constant) with which the string was encoded.
+   */
+  readonly encoding: Bech32Encoding;
+  /**
+   * The human-readable part of the string (e.g. `bc`).
+   */
+  readonly humanReadablePart: string;
+  /**
+   * The data part of the string (excluding the checksum) as 5-bit words.
+   */
+  readonly words: ReadonlyArray<number>;
+}
+
+/**
+ * The character set used by Bech32 encodings (and by CashAddress).
+ */
+export const bech32CharacterSet = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+const separator = '1';
+const checksumLength = 6;
+const wordBits = 5;
+
+// tslint:disable:no-magic-numbers
+const wordMask = 0x1f;
+const maximumLength = 90;
+const maximumHumanReadablePartLength = 83;
+const minimumHumanReadableCharacter = 33;
+const maximumHumanReadableCharacter = 126;
+const generators: ReadonlyArray<number> = [
+  0x3b6a57b2,
+  0x26508e6d,
+  0x1ea119fa,
+  0x3d4233dd,
+  0x2a1462b3
+];
+// tslint:enable:no-magic-numbers
+
+const finalizeRegroupedBits = (
+  result: ReadonlyArray<number>,
+  remainder: number,
+  remainingBits: number,
+  fromBits: number,
+  pad: boolean
+) =>
+  pad
+    ? remainingBits > 0
+      ? [...result, remainder]
+      : result
+    : remainingBits >= fromBits || remainder !== 0
+    ? undefined
+    : result;
+
+/**
+ * Regroup an array of `fromBits`-bit integers into an array of `toBits`-bit
+ * integers, e.g. to convert bytes (8-bit) into Bech32 words (5-bit) and back.
+ *
+ * If `pad` is `true`, any remaining bits are padded with zeros to form a final
+ * integer. Otherwise, any remaining bits must be fewer than `fromBits` and
+ * equal to zero, or `undefined` is returned.
+ *
+ * @param values the array of integers to regroup
+ * @param fromBits the bit length of each integer in `values`
+ * @param toBits the bit length of each integer in the result
+ * @param pad whether or not to pad any remaining bits
+ */
+export const regroupBits = (
+  values: ReadonlyArray<number>,
+  fromBits: number,
+  toBits: number,
+  pad: boolean
+): ReadonlyArray<number> | undefined => {
+  // tslint:disable:no-let no-expression-statement no-bitwise readonly-array
+  const maximum = (1 << toBits) - 1;
+  const result: number[] = [];
+  let accumulator = 0;
+  let bits = 0;
+  for (const value of values) {
+    accumulator =
+      ((accumulator << fromBits) | value) &
+      ((1 << (fromBits + toBits - 1)) - 1);
+    bits += fromBits;
+    while (bits >= toBits) {
+      bits -= toBits;
+      result.push((accumulator >> bits) & maximum);
+    }
+  }
+  const remainder = (accumulator << (toBits - bits)) & maximum;
+  // tslint:enable:no-let no-expression-statement no-bitwise readonly-array
+  return finalizeRegroupedBits(result, remainder, bits, fromBits, pad);
+};
+
+/**
+ * Compute the Bech32 checksum polynomial modulo of an array of 5-bit words.
+ *
+ * @param words the array of 5-bit words (the expanded human-readable part
+ * followed by the data part)
+ */
+export const bech32PolynomialModulo = (words: ReadonlyArray<number>) =>
+  words.reduce((checksum, word) => {
+    // tslint:disable:no-bitwise no-magic-numbers
+    const top = checksum >>> 25;
+    return generators.reduce(
+      (result, generator, bit) =>
+        ((top >>> bit) & 1) === 1 ? (result ^ generator) >>> 0 : result,
+      (((checksum & 0x1ffffff) << 5) ^ word) >>> 0
+    );
+    // tslint:enable:no-bitwise no-magic-numbers
+  }, 1);
+
+/**
+ * Expand a human-readable part into the 5-bit words used in the Bech32
+ * checksum: the high bits of each character, a `0`, then the low bits of each
+ * character.
+ *
+ * @param humanReadablePart the human-readable part to expand (e.g. `bc`)
+ */
+export const expandHumanReadablePart = (humanReadablePart: string) => {
+  const codes = [...humanReadablePart].map(character =>
+    character.charCodeAt(0)
+  );
+  return [
+    // tslint:disable:no-bitwise no-magic-numbers
+    ...codes.map(code => code >>> 5),
+    0,
+    ...codes.map(code => code & wordMask)
+    // tslint:enable:no-bitwise no-magic-numbers
+  ];
+};
+
+const createChecksum = (
+  humanReadablePart: string,
+  words: ReadonlyArray<number>,
+  encoding: Bech32Encoding
+) => {
+  const modulo =
+    // tslint:disable-next-line:no-bitwise
+    (bech32PolynomialModulo([
+      ...expandHumanReadablePart(humanReadablePart),
+      ...words,
+      ...new Array<number>(checksumLength).fill(0)
+    ]) ^
+      encoding) >>>
+    0;
+  return Array.from(
+    { length: checksumLength },
+    (_, index) =>
+      // tslint:disable-next-line:no-bitwise
+      (modulo >>> ((checksumLength - 1 - index) * wordBits)) & wordMask
+  );
+};
+
+/**
+ * Encode an array of 5-bit words as a Bech32 string.
+ *
+ * Note, this method does not validate the human-readable part or the length
+ * of the result.
+ *
+ * @param humanReadablePart the lowercase human-readable part (e.g. `bc`)
+ * @param words the data part as 5-bit words (see `regroupBits`)
+ * @param encoding the encoding to use (default: `Bech32Encoding.bech32`)
+ */
+export const encodeBech32 = (
+  humanReadablePart: string,
+  words: ReadonlyArray<number>,
+  encoding: Bech32Encoding = Bech32Encoding.bech32
+) =>
+  `${humanReadablePart}${separator}${[
+    ...words,
+    ...createChecksum(humanReadablePart, words, encoding)
+  ]
+    .map(word => bech32CharacterSet[word])
+    .join('')}`;
+
+const isMixedCase = (text: string) =>
+  text !== text.toLowerCase() && text !== text.toUpperCase();
+
+const isValidHumanReadablePart = (humanReadablePart: string) =>
+  humanReadablePart.length > 0 &&
+  humanReadablePart.length <= maximumHumanReadablePartLength &&
+  [...humanReadablePart].every(character => {
+    const code = character.charCodeAt(0);
+    return (
+      code >= minimumHumanReadableCharacter &&
+      code <= maximumHumanReadableCharacter
+    );
+  });
+
+const getEncoding = (
+  humanReadablePart: string,
+  words: ReadonlyArray<number>
+) => {
+  const modulo = bech32PolynomialModulo([
+    ...expandHumanReadablePart(humanReadablePart),
+    ...words
+  ]);
+  return modulo === Bech32Encoding.bech32
+    ? Bech32Encoding.bech32
+    : modulo === Bech32Encoding.bech32m
+    ? Bech32Encoding.bech32m
+    : undefined;
+};
+
+const decodeDataPart = (
+  humanReadablePart: string,
+  dataPart: string
+): DecodedBech32 | Bech32DecodingError => {
+  const words = [...dataPart].map(character =>
+    bech32CharacterSet.indexOf(character)
+  );
+  const encoding =
+    words.indexOf(-1) === -1
+      ? getEncoding(humanReadablePart, words)
+      : undefined;
+  return words.indexOf(-1) !== -1
+    ? Bech32DecodingError.invalidCharacters
+    : encoding === undefined
+    ? Bech32DecodingError.invalidChecksum
+    : {
+        encoding,
+        humanReadablePart,
+        words: words.slice(0, -checksumLength)
+      };
+};
+
+const splitBech32 = (text: string) => {
+  const separatorIndex = text.lastIndexOf(separator);
+  return {
+    dataPart: text.slice(separatorIndex + 1),
+    humanReadablePart: text.slice(0, Math.max(separatorIndex, 0)),
+    separatorIndex
+  };
+};
+
+const validateBech32Parts = (
+  separatorIndex: number,
+  humanReadablePart: string,
+  dataPart: string
+) =>
+  separatorIndex === -1 || dataPart.length < checksumLength
+    ? Bech32DecodingError.missingSeparator
+    : isValidHumanReadablePart(humanReadablePart)
+    ? undefined
+    : Bech32DecodingError.invalidHumanReadablePart;
+
+/**
+ * Decode a Bech32 or Bech32m string, verifying its checksum. The
+ * human-readable part of the result is lowercase.
+ *
+ * @param text the Bech32 string to decode
+ */
+export const decodeBech32 = (
+  text: string
+): DecodedBech32 | Bech32DecodingError => {
+  const { dataPart, humanReadablePart, separatorIndex } = splitBech32(
+    text.toLowerCase()
+  );
+  const error = isMixedCase(text)
+    ? Bech32DecodingError.mixedCase
+    : text.length > maximumLength
+    ? Bech32DecodingError.tooLong
+    : validateBech32Parts(separatorIndex, humanReadablePart, dataPart);
+  return error === undefined
+    ? decodeDataPart(humanReadablePart, dataPart)
+    : error;
+};
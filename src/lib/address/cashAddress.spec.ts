@@ -0,0 +1,269 @@
+// tslint:disable:no-expression-statement no-magic-numbers no-unsafe-any
+import test from 'ava';
+import * as fc from 'fast-check';
+import { hexToBin } from '../utils';
+import {
+  CashAddressDecodingError,
+  CashAddressEncodingError,
+  CashAddressNetworkPrefix,
+  cashAddressPolynomialModulo,
+  cashAddressToLockingBytecode,
+  CashAddressType,
+  decodeCashAddress,
+  decodeCashAddressFormat,
+  decodeCashAddressFormatWithoutPrefix,
+  encodeCashAddress,
+  encodeCashAddressFormat,
+  lockingBytecodeToCashAddress,
+  maskCashAddressPrefix
+} from './cashAddress';
+import { LockingBytecodeEncodingError } from './lockingBytecode';
+
+const maxUint8Number = 255;
+const fcUint8Array = (minLength: number, maxLength: number) =>
+  fc
+    .array(fc.integer(0, maxUint8Number), minLength, maxLength)
+    .map(a => Uint8Array.from(a));
+
+const hash = hexToBin('f5bf48b397dae70be82b3cca4793f8eb2b6cdac9');
+
+test('cashAddressPolynomialModulo', t => {
+  const isValid = (address: string) => {
+    const [prefix, payload] = address.split(':');
+    return (
+      cashAddressPolynomialModulo([
+        ...maskCashAddressPrefix(prefix),
+        0,
+        ...[...payload].map(character =>
+          'qpzry9x8gf2tvdw0s3jn54khce6mua7l'.indexOf(character)
+        )
+      ]) === 0
+    );
+  };
+  t.true(isValid('prefix:x64nx6hz'));
+  t.true(isValid('p:gpf8m4h7'));
+  t.true(isValid('bitcoincash:qpzry9x8gf2tvdw0s3jn54khce6mua7lcw20ayyn'));
+  t.true(isValid('bchtest:testnetaddress4d6njnut'));
+  t.true(
+    isValid('bchreg:555555555555555555555555555555555555555555555udxmlmrz')
+  );
+  t.false(isValid('prefix:x64nx6ha'));
+});
+
+test('encodeCashAddress', t => {
+  t.deepEqual(
+    encodeCashAddress(
+      CashAddressNetworkPrefix.mainnet,
+      CashAddressType.p2pkh,
+      hash
+    ),
+    'bitcoincash:qr6m7j9njldwwzlg9v7v53unlr4jkmx6eylep8ekg2'
+  );
+  t.deepEqual(
+    encodeCashAddress(
+      CashAddressNetworkPrefix.testnet,
+      CashAddressType.p2sh,
+      hash
+    ),
+    'bchtest:pr6m7j9njldwwzlg9v7v53unlr4jkmx6eyvwc0uz5t'
+  );
+  t.deepEqual(
+    encodeCashAddress('pref', CashAddressType.p2sh, hash),
+    'pref:pr6m7j9njldwwzlg9v7v53unlr4jkmx6ey65nvtks5'
+  );
+  t.deepEqual(
+    encodeCashAddress('prefix', 15, hash),
+    'prefix:0r6m7j9njldwwzlg9v7v53unlr4jkmx6ey3qnjwsrf'
+  );
+  t.deepEqual(
+    encodeCashAddress('Bitcoincash', CashAddressType.p2pkh, hash),
+    CashAddressEncodingError.invalidPrefix
+  );
+  t.deepEqual(
+    encodeCashAddress(CashAddressNetworkPrefix.mainnet, 16, hash),
+    CashAddressEncodingError.unsupportedType
+  );
+  t.deepEqual(
+    encodeCashAddress(
+      CashAddressNetworkPrefix.mainnet,
+      CashAddressType.p2pkh,
+      new Uint8Array(21)
+    ),
+    CashAddressEncodingError.unsupportedHashLength
+  );
+});
+
+test('decodeCashAddress', t => {
+  t.deepEqual(
+    decodeCashAddress('bitcoincash:qr6m7j9njldwwzlg9v7v53unlr4jkmx6eylep8ekg2'),
+    {
+      hash,
+      prefix: CashAddressNetworkPrefix.mainnet,
+      type: CashAddressType.p2pkh
+    }
+  );
+  t.deepEqual(
+    decodeCashAddress('BCHTEST:PR6M7J9NJLDWWZLG9V7V53UNLR4JKMX6EYVWC0UZ5T'),
+    {
+      hash,
+      prefix: CashAddressNetworkPrefix.testnet,
+      type: CashAddressType.p2sh
+    }
+  );
+  t.deepEqual(
+    decodeCashAddress('bitcoincash:qr6m7j9njldwwzlg9v7v53unlr4jkmx6eylep8ekg3'),
+    CashAddressDecodingError.invalidChecksum
+  );
+  t.deepEqual(
+    decodeCashAddress('bitcoincash:qr6m7j9njldwwzlg9v7v53unlr4jkmx6eylep8ekgb'),
+    CashAddressDecodingError.invalidCharacters
+  );
+  t.deepEqual(
+    decodeCashAddress('bitcoincash:Qr6m7j9njldwwzlg9v7v53unlr4jkmx6eylep8ekg2'),
+    CashAddressDecodingError.mixedCase
+  );
+  t.deepEqual(
+    decodeCashAddress('qr6m7j9njldwwzlg9v7v53unlr4jkmx6eylep8ekg2'),
+    CashAddressDecodingError.missingPrefix
+  );
+  t.deepEqual(
+    decodeCashAddress(encodeCashAddressFormat('bitcoincash', 0x80, hash)),
+    CashAddressDecodingError.reservedBit
+  );
+  t.deepEqual(
+    decodeCashAddress(encodeCashAddressFormat('bitcoincash', 0x01, hash)),
+    CashAddressDecodingError.hashLengthMismatch
+  );
+  t.deepEqual(
+    decodeCashAddress('prefix:x64nx6hz'),
+    CashAddressDecodingError.missingVersionByte
+  );
+});
+
+test('decodeCashAddressFormat', t => {
+  t.deepEqual(
+    decodeCashAddressFormat(
+      'prefix:0r6m7j9njldwwzlg9v7v53unlr4jkmx6ey3qnjwsrf'
+    ),
+    { hash, prefix: 'prefix', version: 0x78 }
+  );
+});
+
+test('encodeCashAddress <-> decodeCashAddress', t => {
+  const inverse = fc.property(
+    fc
+      .constantFrom(20, 24, 28, 32, 40, 48, 56, 64)
+      .chain(length => fcUint8Array(length, length)),
+    fc.integer(0, 15),
+    (input, type) =>
+      t.deepEqual(
+        decodeCashAddress(encodeCashAddress('bchtest', type, input)),
+        { hash: input, prefix: 'bchtest', type }
+      )
+  );
+  t.notThrows(() => {
+    fc.assert(inverse);
+  });
+});
+
+test('decodeCashAddressFormatWithoutPrefix', t => {
+  t.deepEqual(
+    decodeCashAddressFormatWithoutPrefix(
+      'qr6m7j9njldwwzlg9v7v53unlr4jkmx6eylep8ekg2'
+    ),
+    {
+      hash,
+      prefix: CashAddressNetworkPrefix.mainnet,
+      type: CashAddressType.p2pkh
+    }
+  );
+  t.deepEqual(
+    decodeCashAddressFormatWithoutPrefix(
+      'PR6M7J9NJLDWWZLG9V7V53UNLR4JKMX6EYVWC0UZ5T'
+    ),
+    {
+      hash,
+      prefix: CashAddressNetworkPrefix.testnet,
+      type: CashAddressType.p2sh
+    }
+  );
+  t.deepEqual(
+    decodeCashAddressFormatWithoutPrefix(
+      'bchtest:pr6m7j9njldwwzlg9v7v53unlr4jkmx6eyvwc0uz5t'
+    ),
+    {
+      hash,
+      prefix: CashAddressNetworkPrefix.testnet,
+      type: CashAddressType.p2sh
+    }
+  );
+  t.deepEqual(
+    decodeCashAddressFormatWithoutPrefix(
+      'pr6m7j9njldwwzlg9v7v53unlr4jkmx6ey65nvtks5'
+    ),
+    CashAddressDecodingError.invalidChecksum
+  );
+  t.deepEqual(
+    decodeCashAddressFormatWithoutPrefix(
+      'pr6m7j9njldwwzlg9v7v53unlr4jkmx6ey65nvtks5',
+      ['pref']
+    ),
+    { hash, prefix: 'pref', type: CashAddressType.p2sh }
+  );
+  t.deepEqual(
+    decodeCashAddressFormatWithoutPrefix(
+      'pref:pr6m7j9njldwwzlg9v7v53unlr4jkmx6ey65nvtks5'
+    ),
+    CashAddressDecodingError.unknownPrefix
+  );
+  t.deepEqual(
+    decodeCashAddressFormatWithoutPrefix(
+      'Pr6m7j9njldwwzlg9v7v53unlr4jkmx6eyvwc0uz5t'
+    ),
+    CashAddressDecodingError.mixedCase
+  );
+});
+
+test('lockingBytecodeToCashAddress <-> cashAddressToLockingBytecode', t => {
+  const lockingBytecode = hexToBin(
+    '76a91476a04053bda0a88bda5177b86a15c3b29f55987388ac'
+  );
+  const address = lockingBytecodeToCashAddress(lockingBytecode);
+  t.deepEqual(
+    address,
+    'bitcoincash:qpm2qsznhks23z7629mms6s4cwef74vcwvy22gdx6a'
+  );
+  t.deepEqual(cashAddressToLockingBytecode(address), {
+    bytecode: lockingBytecode,
+    prefix: CashAddressNetworkPrefix.mainnet
+  });
+  t.deepEqual(
+    cashAddressToLockingBytecode(
+      'bchtest:pr6m7j9njldwwzlg9v7v53unlr4jkmx6eyvwc0uz5t'
+    ),
+    {
+      bytecode: hexToBin('a914f5bf48b397dae70be82b3cca4793f8eb2b6cdac987'),
+      prefix: CashAddressNetworkPrefix.testnet
+    }
+  );
+  t.deepEqual(
+    lockingBytecodeToCashAddress(hexToBin('6a'), 'bchtest'),
+    CashAddressEncodingError.unsupportedLockingBytecode
+  );
+  t.deepEqual(
+    cashAddressToLockingBytecode(
+      'prefix:0r6m7j9njldwwzlg9v7v53unlr4jkmx6ey3qnjwsrf'
+    ),
+    CashAddressDecodingError.unsupportedType
+  );
+  t.deepEqual(
+    cashAddressToLockingBytecode(
+      encodeCashAddress(
+        CashAddressNetworkPrefix.mainnet,
+        CashAddressType.p2sh,
+        new Uint8Array(32)
+      )
+    ),
+    LockingBytecodeEncodingError.invalidPayloadLength
+  );
+});
@@ -0,0 +1,403 @@
+import { bech32CharacterSet, regroupBits } from './bech32';
+import {
+  addressContentsToLockingBytecode,
+  AddressType,
+  lockingBytecodeToAddressContents
+} from './lockingBytecode';
+
+/**
+ * The standard CashAddress prefixes of each Bitcoin Cash network.
+ */
+export enum CashAddressNetworkPrefix {
+  mainnet = 'bitcoincash',
+  testnet = 'bchtest',
+  regtest = 'bchreg'
+}
+
+/**
+ * The address types which can be encoded in a CashAddress version byte.
+ */
+export enum CashAddressType {
+  /**
+   * Pay to Public Key Hash (P2PKH)
+   */
+  p2pkh = 0,
+  /**
+   * Pay to Script Hash (P2SH)
+   */
+  p2sh = 1
+}
+
+/**
+ * The reasons for which encoding a CashAddress may fail.
+ */
+export enum CashAddressEncodingError {
+  invalidPrefix = 'CashAddress prefixes must contain only lowercase letters and numbers.',
+  unsupportedHashLength = 'CashAddress hashes must be 20, 24, 28, 32, 40, 48, 56, or 64 bytes.',
+  unsupportedLockingBytecode = 'Locking bytecode cannot be represented by a CashAddress (only P2PKH and P2SH are supported).',
+  unsupportedType = 'CashAddress types must be integers from 0 to 15.'
+}
+
+/**
+ * The reasons for which decoding a CashAddress may fail.
+ */
+export enum CashAddressDecodingError {
+  hashLengthMismatch = 'The hash length of this CashAddress does not match the length specified by its version byte.',
+  improperPadding = 'This CashAddress has improper padding.',
+  invalidCharacters = 'This CashAddress contains characters which are not in the CashAddress character set.',
+  invalidChecksum = 'This CashAddress has an invalid checksum.',
+  missingVersionByte = 'This CashAddress has no version byte.',
+  missingPrefix = 'This CashAddress is missing a prefix (e.g. "bitcoincash:").',
+  mixedCase = 'This CashAddress uses both uppercase and lowercase characters.',
+  reservedBit = 'This CashAddress has a version byte with the reserved bit set.',
+  unknownPrefix = 'This CashAddress does not use any of the expected prefixes.',
+  unsupportedType = 'This CashAddress uses a type which cannot be represented as locking bytecode (only P2PKH and P2SH are supported).'
+}
+
+/**
+ * The contents of a decoded CashAddress.
+ */
+export interface DecodedCashAddress {
+  /**
+   * The hash encoded by the address.
+   */
+  readonly hash: Uint8Array;
+  /**
+   * The prefix of the address (e.g. `bitcoincash`).
+   */
+  readonly prefix: string;
+  /**
+   * The type of the address (from the address's version byte).
+   */
+  readonly type: number;
+}
+
+const separator = ':';
+const checksumWords = 8;
+const wordBits = 5;
+const byteBits = 8;
+
+// tslint:disable:no-magic-numbers
+const hashLengths: ReadonlyArray<number> = [20, 24, 28, 32, 40, 48, 56, 64];
+const maximumType = 15;
+const typeBitShift = 3;
+const sizeBits = 0x07;
+const reservedBit = 0x80;
+/**
+ * The generators of the CashAddress BCH code, each split into its high 8 bits
+ * and low 32 bits (JavaScript bitwise operations are limited to 32 bits).
+ */
+const generatorsHigh: ReadonlyArray<number> = [0x98, 0x79, 0xf3, 0xae, 0x1e];
+const generatorsLow: ReadonlyArray<number> = [
+  0xf2bc8e61,
+  0xb76d99e2,
+  0x3e5fb3c4,
+  0x2eabe2a8,
+  0x4f43e470
+];
+const uint32Base = 0x100000000;
+const wordBase = 32;
+// tslint:enable:no-magic-numbers
+
+/**
+ * Compute the CashAddress checksum polynomial modulo of an array of 5-bit
+ * words (the 40-bit result is returned as a number).
+ *
+ * A valid CashAddress (including its checksum) has a polynomial modulo of
+ * `0`.
+ *
+ * @param words the array of 5-bit words (the masked prefix, a separator word
+ * of `0`, and the payload)
+ */
+export const cashAddressPolynomialModulo = (words: ReadonlyArray<number>) => {
+  // tslint:disable:no-let no-expression-statement no-bitwise no-magic-numbers
+  let high = 0;
+  let low = 1;
+  for (const word of words) {
+    const top = high >>> 3;
+    high = ((high & 0x07) << 5) | (low >>> 27);
+    low = ((low << 5) ^ word) >>> 0;
+    for (let bit = 0; bit < generatorsHigh.length; bit += 1) {
+      const applies = ((top >> bit) & 1) === 1;
+      high = applies ? high ^ generatorsHigh[bit] : high;
+      low = applies ? (low ^ generatorsLow[bit]) >>> 0 : low;
+    }
+  }
+  return high * uint32Base + ((low ^ 1) >>> 0);
+  // tslint:enable:no-let no-expression-statement no-bitwise no-magic-numbers
+};
+
+/**
+ * Convert a CashAddress prefix into the array of 5-bit words used in its
+ * checksum (the lower 5 bits of each character).
+ *
+ * @param prefix the CashAddress prefix (e.g. `bitcoincash`)
+ */
+export const maskCashAddressPrefix = (prefix: string) =>
+  // tslint:disable-next-line:no-bitwise no-magic-numbers
+  [...prefix].map(character => character.charCodeAt(0) & 0x1f);
+
+const checksumToWords = (checksum: number) =>
+  Array.from(
+    { length: checksumWords },
+    (_, index) =>
+      Math.floor(checksum / Math.pow(wordBase, checksumWords - 1 - index)) %
+      wordBase
+  );
+
+const isValidPrefix = (prefix: string) => /^[a-z0-9]+$/.test(prefix);
+
+const isValidType = (type: number) =>
+  Number.isInteger(type) && type >= 0 && type <= maximumType;
+
+/**
+ * Encode a hash as a CashAddress-like string using the provided prefix and
+ * version byte. Most applications should use `encodeCashAddress`.
+ *
+ * @param prefix the prefix to use (must contain only lowercase letters and
+ * numbers)
+ * @param version the version byte
+ * @param hash the hash to encode
+ */
+export const encodeCashAddressFormat = (
+  prefix: string,
+  version: number,
+  hash: Uint8Array
+) => {
+  const payload = regroupBits(
+    [version, ...hash],
+    byteBits,
+    wordBits,
+    true
+  ) as ReadonlyArray<number>;
+  const checksum = cashAddressPolynomialModulo([
+    ...maskCashAddressPrefix(prefix),
+    0,
+    ...payload,
+    ...new Array<number>(checksumWords).fill(0)
+  ]);
+  return `${prefix}${separator}${[...payload, ...checksumToWords(checksum)]
+    .map(word => bech32CharacterSet[word])
+    .join('')}`;
+};
+
+const encodeVersionByte = (type: number, hashLength: number) =>
+  // tslint:disable-next-line:no-bitwise
+  (type << typeBitShift) | hashLengths.indexOf(hashLength);
+
+/**
+ * Encode a hash as a CashAddress.
+ *
+ * @param prefix the network prefix to use (see `CashAddressNetworkPrefix`)
+ * @param type the address type (see `CashAddressType`)
+ * @param hash the hash to encode (20 bytes for standard P2PKH and P2SH
+ * addresses)
+ */
+export const encodeCashAddress = (
+  prefix: string,
+  type: number,
+  hash: Uint8Array
+) =>
+  !isValidPrefix(prefix)
+    ? CashAddressEncodingError.invalidPrefix
+    : !isValidType(type)
+    ? CashAddressEncodingError.unsupportedType
+    : hashLengths.indexOf(hash.length) === -1
+    ? CashAddressEncodingError.unsupportedHashLength
+    : encodeCashAddressFormat(
+        prefix,
+        encodeVersionByte(type, hash.length),
+        hash
+      );
+
+const isMixedCase = (address: string) =>
+  address !== address.toLowerCase() && address !== address.toUpperCase();
+
+const decodeWords = (payload: string) => {
+  const words = [...payload].map(character =>
+    bech32CharacterSet.indexOf(character)
+  );
+  return words.indexOf(-1) === -1 ? words : undefined;
+};
+
+const decodeBytes = (words: ReadonlyArray<number>) => {
+  const bytes = regroupBits(
+    words.slice(0, -checksumWords),
+    wordBits,
+    byteBits,
+    false
+  );
+  return bytes === undefined
+    ? CashAddressDecodingError.improperPadding
+    : bytes.length === 0
+    ? CashAddressDecodingError.missingVersionByte
+    : bytes;
+};
+
+const decodePayload = (prefix: string, payload: string) => {
+  const words = decodeWords(payload);
+  return words === undefined
+    ? CashAddressDecodingError.invalidCharacters
+    : cashAddressPolynomialModulo([
+        ...maskCashAddressPrefix(prefix),
+        0,
+        ...words
+      ]) !== 0
+    ? CashAddressDecodingError.invalidChecksum
+    : decodeBytes(words);
+};
+
+/**
+ * Decode a CashAddress-like string, verifying its checksum and returning its
+ * prefix, version byte, and hash. Most applications should use
+ * `decodeCashAddress`.
+ *
+ * @param address the CashAddress-like string to decode (including its
+ * prefix)
+ */
+export const decodeCashAddressFormat = (address: string) => {
+  const lowercase = address.toLowerCase();
+  const separatorIndex = lowercase.lastIndexOf(separator);
+  const prefix = lowercase.slice(0, separatorIndex);
+  const bytes = isMixedCase(address)
+    ? CashAddressDecodingError.mixedCase
+    : separatorIndex === -1
+    ? CashAddressDecodingError.missingPrefix
+    : decodePayload(prefix, lowercase.slice(separatorIndex + 1));
+  return typeof bytes === 'string'
+    ? bytes
+    : {
+        hash: Uint8Array.from(bytes.slice(1)),
+        prefix,
+        version: bytes[0]
+      };
+};
+
+const decodeVersionByte = (version: number, hash: Uint8Array) =>
+  // tslint:disable-next-line:no-bitwise
+  (version & reservedBit) !== 0
+    ? CashAddressDecodingError.reservedBit
+    : // tslint:disable-next-line:no-bitwise
+    hashLengths[version & sizeBits] !== hash.length
+    ? CashAddressDecodingError.hashLengthMismatch
+    : // tslint:disable-next-line:no-bitwise
+      version >>> typeBitShift;
+
+/**
+ * Decode a CashAddress, returning its prefix, type, and hash.
+ *
+ * @param address the CashAddress to decode (including its prefix, e.g.
+ * `bitcoincash:`)
+ */
+export const decodeCashAddress = (
+  address: string
+): DecodedCashAddress | CashAddressDecodingError => {
+  const decoded = decodeCashAddressFormat(address);
+  const type =
+    typeof decoded === 'string'
+      ? decoded
+      : decodeVersionByte(decoded.version, decoded.hash);
+  return typeof decoded === 'string'
+    ? decoded
+    : typeof type === 'string'
+    ? type
+    : { hash: decoded.hash, prefix: decoded.prefix, type };
+};
+
+const selectDecodedCashAddress = (
+  results: ReadonlyArray<DecodedCashAddress | CashAddressDecodingError>,
+  possiblePrefixes: ReadonlyArray<string>
+) => {
+  const decoded = results.find(
+    (result): result is DecodedCashAddress => typeof result !== 'string'
+  );
+  return decoded === undefined
+    ? results.length === 0
+      ? CashAddressDecodingError.unknownPrefix
+      : results[0]
+    : possiblePrefixes.indexOf(decoded.prefix) === -1
+    ? CashAddressDecodingError.unknownPrefix
+    : decoded;
+};
+
+/**
+ * Attempt to decode a CashAddress which may be missing its prefix (e.g.
+ * `qr6m7j9njldwwzlg9v7v53unlr4jkmx6eylep8ekg2`) by trying each of
+ * `possiblePrefixes`. The first prefix with a valid checksum is used.
+ *
+ * Addresses which include a prefix are decoded normally, but must use one of
+ * `possiblePrefixes`.
+ *
+ * @param address the CashAddress to decode
+ * @param possiblePrefixes the prefixes to try, in order (default: the
+ * prefixes of `CashAddressNetworkPrefix`)
+ */
+export const decodeCashAddressFormatWithoutPrefix = (
+  address: string,
+  possiblePrefixes: ReadonlyArray<string> = [
+    CashAddressNetworkPrefix.mainnet,
+    CashAddressNetworkPrefix.testnet,
+    CashAddressNetworkPrefix.regtest
+  ]
+): DecodedCashAddress | CashAddressDecodingError => {
+  const lowercase = address.toLowerCase();
+  const results = lowercase.includes(separator)
+    ? [decodeCashAddress(lowercase)]
+    : possiblePrefixes.map(prefix =>
+        decodeCashAddress(`${prefix}${separator}${lowercase}`)
+      );
+  return isMixedCase(address)
+    ? CashAddressDecodingError.mixedCase
+    : selectDecodedCashAddress(results, possiblePrefixes);
+};
+
+/**
+ * Encode a P2PKH or P2SH locking bytecode as a CashAddress.
+ *
+ * @param lockingBytecode the locking bytecode to encode
+ * @param prefix the network prefix to use (default:
+ * `CashAddressNetworkPrefix.mainnet`)
+ */
+export const lockingBytecodeToCashAddress = (
+  lockingBytecode: Uint8Array,
+  prefix: string = CashAddressNetworkPrefix.mainnet
+) => {
+  const contents = lockingBytecodeToAddressContents(lockingBytecode);
+  return contents.type === AddressType.p2pkh
+    ? encodeCashAddress(prefix, CashAddressType.p2pkh, contents.payload)
+    : contents.type === AddressType.p2sh
+    ? encodeCashAddress(prefix, CashAddressType.p2sh, contents.payload)
+    : CashAddressEncodingError.unsupportedLockingBytecode;
+};
+
+const cashAddressTypeToAddressType = (type: number) =>
+  type === CashAddressType.p2pkh
+    ? AddressType.p2pkh
+    : type === CashAddressType.p2sh
+    ? AddressType.p2sh
+    : undefined;
+
+const decodedCashAddressToLockingBytecode = ({
+  hash,
+  prefix,
+  type
+}: DecodedCashAddress) => {
+  const addressType = cashAddressTypeToAddressType(type);
+  const bytecode =
+    addressType === undefined
+      ? CashAddressDecodingError.unsupportedType
+      : addressContentsToLockingBytecode({ payload: hash, type: addressType });
+  return typeof bytecode === 'string' ? bytecode : { bytecode, prefix };
+};
+
+/**
+ * Decode a CashAddress into the P2PKH or P2SH locking bytecode it represents.
+ *
+ * @param address the CashAddress to decode (including its prefix)
+ */
+export const cashAddressToLockingBytecode = (address: string) => {
+  const decoded = decodeCashAddress(address);
+  return typeof decoded === 'string'
+    ? decoded
+    : decodedCashAddressToLockingBytecode(decoded);
+};
@@ -0,0 +1,112 @@
+// tslint:disable:no-expression-statement no-magic-numbers no-unsafe-any
+import test from 'ava';
+import * as fc from 'fast-check';
+import { instantiateRipemd160, instantiateSha256 } from '../crypto/crypto';
+import { hexToBin } from '../utils';
+import {
+  addressContentsToLockingBytecode,
+  AddressType,
+  deriveScriptHash,
+  isPayToPublicKeyHash,
+  LockingBytecodeEncodingError,
+  lockingBytecodeToAddressContents
+} from './lockingBytecode';
+
+const sha256Promise = instantiateSha256();
+const ripemd160Promise = instantiateRipemd160();
+
+const maxUint8Number = 255;
+const fcUint8Array = (minLength: number, maxLength: number) =>
+  fc
+    .array(fc.integer(0, maxUint8Number), minLength, maxLength)
+    .map(a => Uint8Array.from(a));
+
+test('isPayToPublicKeyHash', t => {
+  t.true(
+    isPayToPublicKeyHash(
+      hexToBin('76a91415d16c84669ab46059313bf0747e781f1d13936d88ac')
+    )
+  );
+  t.false(
+    isPayToPublicKeyHash(
+      hexToBin('76a91415d16c84669ab46059313bf0747e781f1d13936d88ad')
+    )
+  );
+  t.false(
+    isPayToPublicKeyHash(
+      hexToBin('a914b472a266d0bd89c13706a4132ccfb16f7c3b9fcb87')
+    )
+  );
+});
+
+test('lockingBytecodeToAddressContents', t => {
+  t.deepEqual(
+    lockingBytecodeToAddressContents(
+      hexToBin('76a91415d16c84669ab46059313bf0747e781f1d13936d88ac')
+    ),
+    {
+      payload: hexToBin('15d16c84669ab46059313bf0747e781f1d13936d'),
+      type: AddressType.p2pkh
+    }
+  );
+  t.deepEqual(
+    lockingBytecodeToAddressContents(
+      hexToBin('a914b472a266d0bd89c13706a4132ccfb16f7c3b9fcb87')
+    ),
+    {
+      payload: hexToBin('b472a266d0bd89c13706a4132ccfb16f7c3b9fcb'),
+      type: AddressType.p2sh
+    }
+  );
+  t.deepEqual(lockingBytecodeToAddressContents(hexToBin('6a0100')), {
+    payload: hexToBin('6a0100'),
+    type: AddressType.unknown
+  });
+});
+
+test('lockingBytecodeToAddressContents <-> addressContentsToLockingBytecode', t => {
+  const inverse = fc.property(fcUint8Array(0, 30), lockingBytecode =>
+    t.deepEqual(
+      addressContentsToLockingBytecode(
+        lockingBytecodeToAddressContents(lockingBytecode)
+      ),
+      lockingBytecode
+    )
+  );
+  t.notThrows(() => {
+    fc.assert(inverse);
+  });
+});
+
+test('addressContentsToLockingBytecode: rejects invalid payload lengths', t => {
+  t.deepEqual(
+    addressContentsToLockingBytecode({
+      payload: hexToBin('15d16c84669ab46059313bf0747e781f1d1393'),
+      type: AddressType.p2pkh
+    }),
+    LockingBytecodeEncodingError.invalidPayloadLength
+  );
+  t.deepEqual(
+    addressContentsToLockingBytecode({
+      payload: hexToBin('b472a266d0bd89c13706a4132ccfb16f7c3b9fcb00'),
+      type: AddressType.p2sh
+    }),
+    LockingBytecodeEncodingError.invalidPayloadLength
+  );
+  t.deepEqual(
+    addressContentsToLockingBytecode({
+      payload: new Uint8Array(32),
+      type: AddressType.p2sh
+    }),
+    LockingBytecodeEncodingError.invalidPayloadLength
+  );
+});
+
+test('deriveScriptHash', async t => {
+  const sha256 = await sha256Promise;
+  const ripemd160 = await ripemd160Promise;
+  t.deepEqual(
+    deriveScriptHash({ ripemd160, sha256 }, hexToBin('51')),
+    hexToBin('da1745e9b549bd0bfa1a569971c77eba30cd5a4b')
+  );
+});
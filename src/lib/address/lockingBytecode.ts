@@ -0,0 +1,159 @@
+import { hash160, Hash160Dependencies } from '../crypto/crypto';
+import { isPayToScriptHash, Opcodes } from '../script/script';
+import { flattenBinArray } from '../utils';
+
+/**
+ * The types of locking bytecode which can be represented by an address.
+ */
+export enum AddressType {
+  /**
+   * Pay to Public Key Hash (P2PKH): `OP_DUP OP_HASH160 OP_PUSHBYTES_20
+   * <20-byte hash> OP_EQUALVERIFY OP_CHECKSIG`
+   */
+  p2pkh = 'P2PKH',
+  /**
+   * Pay to Script Hash (P2SH): `OP_HASH160 OP_PUSHBYTES_20 <20-byte hash>
+   * OP_EQUAL`
+   */
+  p2sh = 'P2SH',
+  /**
+   * Any other locking bytecode (the payload is the full locking bytecode).
+   */
+  unknown = 'unknown'
+}
+
+/**
+ * The contents of an address: the type of locking bytecode and the payload
+ * (usually a hash) from which the locking bytecode can be reconstructed.
+ */
+export interface AddressContents {
+  /**
+   * The payload of the address (for `AddressType.unknown`, the full locking
+   * bytecode).
+   */
+  readonly payload: Uint8Array;
+  /**
+   * The type of locking bytecode represented by the address.
+   */
+  readonly type: AddressType;
+}
+
+/**
+ * The cryptographic implementations required to derive the hashes used in
+ * addresses.
+ */
+export type AddressHashDependencies = Hash160Dependencies;
+
+/**
+ * Derive the 20-byte hash (`ripemd160(sha256(publicKey))`) of a public key, as
+ * used in P2PKH addresses.
+ *
+ * @param dependencies implementations of ripemd160 and sha256
+ * @param publicKey the compressed or uncompressed public key to hash
+ */
+export const derivePublicKeyHash: (
+  dependencies: AddressHashDependencies,
+  publicKey: Uint8Array
+) => Uint8Array = hash160;
+
+/**
+ * Derive the 20-byte hash (`ripemd160(sha256(redeemBytecode))`) of a redeem
+ * script, as used in P2SH addresses.
+ *
+ * @param dependencies implementations of ripemd160 and sha256
+ * @param redeemBytecode the bytecode of the redeem script to hash
+ */
+export const deriveScriptHash: (
+  dependencies: AddressHashDependencies,
+  redeemBytecode: Uint8Array
+) => Uint8Array = hash160;
+
+// tslint:disable:no-magic-numbers
+const endsWithEqualVerifyCheckSig = (lockingBytecode: Uint8Array) =>
+  lockingBytecode[23] === Opcodes.OP_EQUALVERIFY &&
+  lockingBytecode[24] === Opcodes.OP_CHECKSIG;
+
+/**
+ * Returns true if `lockingBytecode` is a P2PKH locking bytecode.
+ *
+ * @param lockingBytecode the locking bytecode to check
+ */
+export const isPayToPublicKeyHash = (lockingBytecode: Uint8Array) =>
+  lockingBytecode.length === 25 &&
+  lockingBytecode[0] === Opcodes.OP_DUP &&
+  lockingBytecode[1] === Opcodes.OP_HASH160 &&
+  lockingBytecode[2] === Opcodes.OP_PUSHBYTES_20 &&
+  endsWithEqualVerifyCheckSig(lockingBytecode);
+
+const payToPublicKeyHashPayloadStart = 3;
+const payToScriptHashPayloadStart = 2;
+const hash160Length = 20;
+// tslint:enable:no-magic-numbers
+
+/**
+ * Get the `AddressContents` of a locking bytecode. Locking bytecode which
+ * doesn't match a known template has the type `AddressType.unknown`.
+ *
+ * @param lockingBytecode the locking bytecode to inspect
+ */
+export const lockingBytecodeToAddressContents = (
+  lockingBytecode: Uint8Array
+): AddressContents =>
+  isPayToPublicKeyHash(lockingBytecode)
+    ? {
+        payload: lockingBytecode.slice(
+          payToPublicKeyHashPayloadStart,
+          payToPublicKeyHashPayloadStart + hash160Length
+        ),
+        type: AddressType.p2pkh
+      }
+    : isPayToScriptHash(lockingBytecode)
+    ? {
+        payload: lockingBytecode.slice(
+          payToScriptHashPayloadStart,
+          payToScriptHashPayloadStart + hash160Length
+        ),
+        type: AddressType.p2sh
+      }
+    : { payload: lockingBytecode.slice(), type: AddressType.unknown };
+
+/**
+ * The reasons for which creating locking bytecode from an `AddressContents`
+ * may fail.
+ */
+export enum LockingBytecodeEncodingError {
+  invalidPayloadLength = 'P2PKH and P2SH address payloads must be 20 bytes.'
+}
+
+/**
+ * Create the locking bytecode represented by an `AddressContents`. (This is
+ * the inverse of `lockingBytecodeToAddressContents`.)
+ *
+ * P2PKH and P2SH payloads must be exactly 20 bytes, otherwise
+ * `LockingBytecodeEncodingError.invalidPayloadLength` is returned.
+ *
+ * @param addressContents the contents of the address
+ */
+export const addressContentsToLockingBytecode = ({
+  payload,
+  type
+}: AddressContents): Uint8Array | LockingBytecodeEncodingError =>
+  type === AddressType.unknown
+    ? payload.slice()
+    : payload.length !== hash160Length
+    ? LockingBytecodeEncodingError.invalidPayloadLength
+    : type === AddressType.p2pkh
+    ? flattenBinArray([
+        Uint8Array.of(
+          Opcodes.OP_DUP,
+          Opcodes.OP_HASH160,
+          Opcodes.OP_PUSHBYTES_20
+        ),
+        payload,
+        Uint8Array.of(Opcodes.OP_EQUALVERIFY, Opcodes.OP_CHECKSIG)
+      ])
+    : flattenBinArray([
+        Uint8Array.of(Opcodes.OP_HASH160, Opcodes.OP_PUSHBYTES_20),
+        payload,
+        Uint8Array.of(Opcodes.OP_EQUAL)
+      ]);
@@ -0,0 +1,183 @@
+// tslint:disable:no-expression-statement no-magic-numbers no-unsafe-any
+import test from 'ava';
+import { hexToBin } from '../utils';
+import { Bech32DecodingError } from './bech32';
+import {
+  decodeSegwitAddress,
+  encodeSegwitAddress,
+  lockingBytecodeToSegwitAddress,
+  SegwitAddressError,
+  SegwitAddressNetworkPrefix,
+  segwitAddressToLockingBytecode
+} from './segwitAddress';
+
+const validAddresses: ReadonlyArray<[string, string]> = [
+  [
+    'BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4',
+    '0014751e76e8199196d454941c45d1b3a323f1433bd6'
+  ],
+  [
+    'tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7',
+    '00201863143c14c5166804bd19203356da136c985678cd4d27a1b8c6329604903262'
+  ],
+  [
+    'bc1pw508d6qejxtdg4y5r3zarvary0c5xw7kw508d6qejxtdg4y5r3zarvary0c5xw7kt5nd6y',
+    '5128751e76e8199196d454941c45d1b3a323f1433bd6751e76e8199196d454941c45d1b3a323f1433bd6'
+  ],
+  ['BC1SW50QGDZ25J', '6002751e'],
+  [
+    'bc1zw508d6qejxtdg4y5r3zarvaryvaxxpcs',
+    '5210751e76e8199196d454941c45d1b3a323'
+  ],
+  [
+    'tb1qqqqqp399et2xygdj5xreqhjjvcmzhxw4aywxecjdzew6hylgvsesrxh6hy',
+    '0020000000c4a5cad46221b2a187905e5266362b99d5e91c6ce24d165dab93e86433'
+  ],
+  [
+    'tb1pqqqqp399et2xygdj5xreqhjjvcmzhxw4aywxecjdzew6hylgvsesf3hn0c',
+    '5120000000c4a5cad46221b2a187905e5266362b99d5e91c6ce24d165dab93e86433'
+  ],
+  [
+    'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0',
+    '512079be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798'
+  ]
+];
+
+test('segwitAddressToLockingBytecode <-> lockingBytecodeToSegwitAddress', t => {
+  validAddresses.map(([address, lockingBytecode]) => {
+    const result = segwitAddressToLockingBytecode(address);
+    t.deepEqual(
+      typeof result === 'string' ? result : result.bytecode,
+      hexToBin(lockingBytecode)
+    );
+    t.deepEqual(
+      lockingBytecodeToSegwitAddress(
+        hexToBin(lockingBytecode),
+        address.slice(0, 2).toLowerCase()
+      ),
+      address.toLowerCase()
+    );
+  });
+  t.deepEqual(
+    lockingBytecodeToSegwitAddress(
+      hexToBin('76a91415d16c84669ab46059313bf0747e781f1d13936d88ac')
+    ),
+    SegwitAddressError.unsupportedLockingBytecode
+  );
+});
+
+test('encodeSegwitAddress', t => {
+  const program = hexToBin('751e76e8199196d454941c45d1b3a323f1433bd6');
+  t.deepEqual(
+    encodeSegwitAddress(SegwitAddressNetworkPrefix.mainnet, 0, program),
+    'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4'
+  );
+  t.deepEqual(
+    encodeSegwitAddress(SegwitAddressNetworkPrefix.regtest, 0, program),
+    'bcrt1qw508d6qejxtdg4y5r3zarvary0c5xw7kygt080'
+  );
+  t.deepEqual(
+    encodeSegwitAddress(SegwitAddressNetworkPrefix.mainnet, 17, program),
+    SegwitAddressError.invalidVersion
+  );
+  t.deepEqual(
+    encodeSegwitAddress(
+      SegwitAddressNetworkPrefix.mainnet,
+      0,
+      program.slice(1)
+    ),
+    SegwitAddressError.invalidProgramLength
+  );
+  t.deepEqual(
+    encodeSegwitAddress(
+      SegwitAddressNetworkPrefix.mainnet,
+      1,
+      new Uint8Array(41)
+    ),
+    SegwitAddressError.invalidProgramLength
+  );
+});
+
+test('decodeSegwitAddress', t => {
+  t.deepEqual(
+    decodeSegwitAddress(
+      'BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4',
+      SegwitAddressNetworkPrefix.mainnet
+    ),
+    {
+      humanReadablePart: 'bc',
+      program: hexToBin('751e76e8199196d454941c45d1b3a323f1433bd6'),
+      version: 0
+    }
+  );
+});
+
+test('decodeSegwitAddress: BIP350 invalid addresses', t => {
+  t.deepEqual(
+    decodeSegwitAddress(
+      'tc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq5zuyut',
+      SegwitAddressNetworkPrefix.testnet
+    ),
+    SegwitAddressError.unexpectedPrefix
+  );
+  [
+    'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqh2y7hd',
+    'tb1z0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqglt7rf',
+    'BC1S0XLXVLHEMJA6C4DQV22UAPCTQUPFHLXM9H8Z3K2E72Q4K9HCZ7VQ54WELL',
+    'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kemeawh',
+    'tb1q0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq24jc47'
+  ].map(address =>
+    t.deepEqual(
+      decodeSegwitAddress(address),
+      SegwitAddressError.incorrectEncoding
+    )
+  );
+  t.deepEqual(
+    decodeSegwitAddress(
+      'bc1p38j9r5y49hruaue7wxjce0updqjuyyx0kh56v8s25huc6995vvpql3jow4'
+    ),
+    Bech32DecodingError.invalidCharacters
+  );
+  t.deepEqual(
+    decodeSegwitAddress(
+      'BC130XLXVLHEMJA6C4DQV22UAPCTQUPFHLXM9H8Z3K2E72Q4K9HCZ7VQ7ZWS8R'
+    ),
+    SegwitAddressError.invalidVersion
+  );
+  t.deepEqual(
+    decodeSegwitAddress('bc1pw5dgrnzv'),
+    SegwitAddressError.invalidProgramLength
+  );
+  t.deepEqual(
+    decodeSegwitAddress(
+      'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7v8n0nx0muaewav253zgeav'
+    ),
+    SegwitAddressError.invalidProgramLength
+  );
+  t.deepEqual(
+    decodeSegwitAddress('BC1QR508D6QEJXTDG4Y5R3ZARVARYV98GJ9P'),
+    SegwitAddressError.invalidProgramLength
+  );
+  t.deepEqual(
+    decodeSegwitAddress(
+      'tb1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq47Zagq'
+    ),
+    Bech32DecodingError.mixedCase
+  );
+  t.deepEqual(
+    decodeSegwitAddress(
+      'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7v07qwwzcrf'
+    ),
+    SegwitAddressError.improperPadding
+  );
+  t.deepEqual(
+    decodeSegwitAddress(
+      'tb1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vpggkg4j'
+    ),
+    SegwitAddressError.improperPadding
+  );
+  t.deepEqual(
+    decodeSegwitAddress('bc1gmk9yu'),
+    SegwitAddressError.missingVersion
+  );
+});
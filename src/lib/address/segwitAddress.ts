@@ -0,0 +1,201 @@
+import { Opcodes, parseWitnessProgram } from '../script/script';
+import { flattenBinArray } from '../utils';
+import {
+  Bech32DecodingError,
+  Bech32Encoding,
+  decodeBech32,
+  DecodedBech32,
+  encodeBech32,
+  regroupBits
+} from './bech32';
+
+/**
+ * The standard human-readable parts of segwit addresses on each Bitcoin
+ * network.
+ */
+export enum SegwitAddressNetworkPrefix {
+  mainnet = 'bc',
+  testnet = 'tb',
+  regtest = 'bcrt'
+}
+
+/**
+ * The reasons for which encoding or decoding a segwit address may fail.
+ */
+export enum SegwitAddressError {
+  improperPadding = 'Segwit address has improper padding.',
+  incorrectEncoding = 'Segwit address uses the wrong encoding for its witness version (version 0 must use Bech32, later versions must use Bech32m).',
+  invalidProgramLength = 'Segwit address has an invalid witness program length (version 0 programs must be 20 or 32 bytes, other programs must be 2 to 40 bytes).',
+  invalidVersion = 'Segwit address has an invalid witness version (must be 0 to 16).',
+  missingVersion = 'Segwit address has no witness version.',
+  unexpectedPrefix = 'Segwit address does not use the expected human-readable part.',
+  unsupportedLockingBytecode = 'Locking bytecode cannot be represented by a segwit address (only witness programs are supported).'
+}
+
+/**
+ * The contents of a decoded segwit address.
+ */
+export interface DecodedSegwitAddress {
+  /**
+   * The human-readable part of the address (e.g. `bc`).
+   */
+  readonly humanReadablePart: string;
+  /**
+   * The witness program (2 to 40 bytes).
+   */
+  readonly program: Uint8Array;
+  /**
+   * The witness version (0 to 16).
+   */
+  readonly version: number;
+}
+
+// tslint:disable:no-magic-numbers
+const maximumVersion = 16;
+const minimumProgramLength = 2;
+const maximumProgramLength = 40;
+const version0ProgramLengths: ReadonlyArray<number> = [20, 32];
+// tslint:enable:no-magic-numbers
+const byteBits = 8;
+const wordBits = 5;
+
+const isValidProgramLength = (version: number, programLength: number) =>
+  version === 0
+    ? version0ProgramLengths.indexOf(programLength) !== -1
+    : programLength >= minimumProgramLength &&
+      programLength <= maximumProgramLength;
+
+const getWitnessVersionEncoding = (version: number) =>
+  version === 0 ? Bech32Encoding.bech32 : Bech32Encoding.bech32m;
+
+const validateWitnessProgram = (version: number, program: Uint8Array) =>
+  !Number.isInteger(version) || version < 0 || version > maximumVersion
+    ? SegwitAddressError.invalidVersion
+    : isValidProgramLength(version, program.length)
+    ? undefined
+    : SegwitAddressError.invalidProgramLength;
+
+/**
+ * Encode a witness program as a segwit address. Version 0 programs are encoded
+ * using Bech32 (BIP173), later versions are encoded using Bech32m (BIP350).
+ *
+ * @param humanReadablePart the human-readable part to use (see
+ * `SegwitAddressNetworkPrefix`)
+ * @param version the witness version (0 to 16)
+ * @param program the witness program (for version 0, a 20-byte public key hash
+ * or 32-byte script hash)
+ */
+export const encodeSegwitAddress = (
+  humanReadablePart: string,
+  version: number,
+  program: Uint8Array
+) => {
+  const error = validateWitnessProgram(version, program);
+  return error === undefined
+    ? encodeBech32(
+        humanReadablePart,
+        [
+          version,
+          ...(regroupBits(
+            Array.from(program),
+            byteBits,
+            wordBits,
+            true
+          ) as ReadonlyArray<number>)
+        ],
+        getWitnessVersionEncoding(version)
+      )
+    : error;
+};
+
+const decodeWitnessProgram = ({
+  encoding,
+  humanReadablePart,
+  words
+}: DecodedBech32): DecodedSegwitAddress | SegwitAddressError => {
+  const version = words[0];
+  const program = regroupBits(words.slice(1), wordBits, byteBits, false);
+  const error =
+    program === undefined
+      ? SegwitAddressError.improperPadding
+      : validateWitnessProgram(version, Uint8Array.from(program));
+  return error !== undefined
+    ? error
+    : encoding !== getWitnessVersionEncoding(version)
+    ? SegwitAddressError.incorrectEncoding
+    : {
+        humanReadablePart,
+        program: Uint8Array.from(program as ReadonlyArray<number>),
+        version
+      };
+};
+
+/**
+ * Decode a segwit address, returning its human-readable part, witness version,
+ * and witness program.
+ *
+ * @param address the segwit address to decode
+ * @param expectedPrefix if provided, the human-readable part which the
+ * address must use (see `SegwitAddressNetworkPrefix`)
+ */
+export const decodeSegwitAddress = (
+  address: string,
+  expectedPrefix?: string
+): DecodedSegwitAddress | SegwitAddressError | Bech32DecodingError => {
+  const decoded = decodeBech32(address);
+  return typeof decoded === 'string'
+    ? decoded
+    : expectedPrefix !== undefined &&
+      decoded.humanReadablePart !== expectedPrefix
+    ? SegwitAddressError.unexpectedPrefix
+    : decoded.words.length === 0
+    ? SegwitAddressError.missingVersion
+    : decodeWitnessProgram(decoded);
+};
+
+const encodeWitnessVersion = (version: number) =>
+  version === 0 ? Opcodes.OP_0 : Opcodes.OP_1 + version - 1;
+
+/**
+ * Encode a segwit address from a witness program locking bytecode: a version
+ * push (`OP_0` through `OP_16`) followed by a single push of the program.
+ *
+ * @param lockingBytecode the locking bytecode to encode
+ * @param humanReadablePart the human-readable part to use (default:
+ * `SegwitAddressNetworkPrefix.mainnet`)
+ */
+export const lockingBytecodeToSegwitAddress = (
+  lockingBytecode: Uint8Array,
+  humanReadablePart: string = SegwitAddressNetworkPrefix.mainnet
+) => {
+  const witnessProgram = parseWitnessProgram(lockingBytecode);
+  return witnessProgram === undefined
+    ? SegwitAddressError.unsupportedLockingBytecode
+    : encodeSegwitAddress(
+        humanReadablePart,
+        witnessProgram.version,
+        witnessProgram.program
+      );
+};
+
+/**
+ * Decode a segwit address into the witness program locking bytecode it
+ * represents.
+ *
+ * @param address the segwit address to decode
+ */
+export const segwitAddressToLockingBytecode = (address: string) => {
+  const decoded = decodeSegwitAddress(address);
+  return typeof decoded === 'string'
+    ? decoded
+    : {
+        bytecode: flattenBinArray([
+          Uint8Array.of(
+            encodeWitnessVersion(decoded.version),
+            decoded.program.length
+          ),
+          decoded.program
+        ]),
+        humanReadablePart: decoded.humanReadablePart
+      };
+};
@@ -0,0 +1,88 @@
+// tslint:disable:no-expression-statement no-magic-numbers no-unsafe-any
+import test from 'ava';
+import * as fc from 'fast-check';
+import { instantiateSha256 } from '../crypto/crypto';
+import { hexToBin } from '../utils';
+import {
+  base58CheckToBin,
+  Base58DecodingError,
+  base58ToBin,
+  binToBase58,
+  binToBase58Check
+} from './base58';
+
+const sha256Promise = instantiateSha256();
+
+const maxUint8Number = 255;
+const fcUint8Array = (minLength: number, maxLength: number) =>
+  fc
+    .array(fc.integer(0, maxUint8Number), minLength, maxLength)
+    .map(a => Uint8Array.from(a));
+
+test('binToBase58', t => {
+  t.deepEqual(binToBase58(new Uint8Array([])), '');
+  t.deepEqual(binToBase58(new Uint8Array([0, 0, 40, 127])), '1145k');
+  t.deepEqual(
+    binToBase58(new Uint8Array([...'hello world'].map(c => c.charCodeAt(0)))),
+    'StV1DL6CwTryKyV'
+  );
+  t.deepEqual(binToBase58(new Uint8Array([0, 0, 0])), '111');
+});
+
+test('base58ToBin', t => {
+  t.deepEqual(base58ToBin(''), new Uint8Array([]));
+  t.deepEqual(base58ToBin('1145k'), new Uint8Array([0, 0, 40, 127]));
+  t.deepEqual(base58ToBin('111'), new Uint8Array([0, 0, 0]));
+  t.deepEqual(base58ToBin('0OIl'), Base58DecodingError.unknownCharacter);
+  t.deepEqual(base58ToBin('StV1DL6C+'), Base58DecodingError.unknownCharacter);
+});
+
+test('base58ToBin <-> binToBase58', t => {
+  const inverse = fc.property(fcUint8Array(0, 100), input =>
+    t.deepEqual(base58ToBin(binToBase58(input)), input)
+  );
+  t.notThrows(() => {
+    fc.assert(inverse);
+  });
+});
+
+test('binToBase58Check', async t => {
+  const sha256 = await sha256Promise;
+  t.deepEqual(
+    binToBase58Check(
+      sha256,
+      hexToBin('00010966776006953d5567439e5e39f86a0d273bee')
+    ),
+    '16UwLL9Risc3QfPqBUvKofHmBQ7wMtjvM'
+  );
+});
+
+test('base58CheckToBin', async t => {
+  const sha256 = await sha256Promise;
+  t.deepEqual(
+    base58CheckToBin(sha256, '16UwLL9Risc3QfPqBUvKofHmBQ7wMtjvM'),
+    hexToBin('00010966776006953d5567439e5e39f86a0d273bee')
+  );
+  t.deepEqual(
+    base58CheckToBin(sha256, '16UwLL9Risc3QfPqBUvKofHmBQ7wMtjvN'),
+    Base58DecodingError.invalidChecksum
+  );
+  t.deepEqual(base58CheckToBin(sha256, '111'), Base58DecodingError.tooShort);
+  t.deepEqual(
+    base58CheckToBin(sha256, '16UwLL9Risc3QfPqBUvKofHmBQ7wMtjv0'),
+    Base58DecodingError.unknownCharacter
+  );
+});
+
+test('base58CheckToBin <-> binToBase58Check', async t => {
+  const sha256 = await sha256Promise;
+  const inverse = fc.property(fcUint8Array(0, 100), input =>
+    t.deepEqual(
+      base58CheckToBin(sha256, binToBase58Check(sha256, input)),
+      input
+    )
+  );
+  t.notThrows(() => {
+    fc.assert(inverse);
+  });
+});
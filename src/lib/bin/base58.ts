@@ -0,0 +1,145 @@
+import { hash256, Sha256 } from '../crypto/crypto';
+import { flattenBinArray } from '../utils';
+
+/**
+ * The reasons for which decoding a Base58 or Base58Check string may fail.
+ */
+export enum Base58DecodingError {
+  invalidChecksum = 'Base58Check checksum does not match the payload.',
+  tooShort = 'Base58Check string is too short to contain a checksum (4 bytes).',
+  unknownCharacter = 'Base58 string contains a character which is not in the Base58 alphabet.'
+}
+
+const base58Alphabet =
+  '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const base58 = 58;
+const byteBase = 256;
+const leadingZeroCharacter = base58Alphabet[0];
+
+/**
+ * Re-encode an array of big-endian digits from one base to another.
+ *
+ * @param digits the big-endian digits to convert
+ * @param fromBase the base of `digits`
+ * @param toBase the base of the result
+ */
+const convertBase = (
+  digits: ReadonlyArray<number>,
+  fromBase: number,
+  toBase: number
+): ReadonlyArray<number> => {
+  // tslint:disable:no-let no-expression-statement no-object-mutation readonly-array
+  const littleEndian: number[] = [];
+  for (const digit of digits) {
+    let carry = digit;
+    for (let position = 0; position < littleEndian.length; position += 1) {
+      carry += littleEndian[position] * fromBase;
+      littleEndian[position] = carry % toBase;
+      carry = Math.floor(carry / toBase);
+    }
+    while (carry > 0) {
+      littleEndian.push(carry % toBase);
+      carry = Math.floor(carry / toBase);
+    }
+  }
+  // tslint:enable:no-let no-expression-statement no-object-mutation readonly-array
+  return littleEndian.reverse();
+};
+
+const countLeadingZeros = (values: ReadonlyArray<number>) => {
+  const index = values.findIndex(value => value !== 0);
+  return index === -1 ? values.length : index;
+};
+
+/**
+ * Encode a Uint8Array as a Base58 string (using the Bitcoin alphabet). Each
+ * leading zero byte is encoded as a leading `1`.
+ *
+ * E.g.: `binToBase58(new Uint8Array([0, 0, 40, 127]))` => `'1145k'`
+ *
+ * @param bin the Uint8Array to encode
+ */
+export const binToBase58 = (bin: Uint8Array) => {
+  const bytes = Array.from(bin);
+  const leadingZeros = countLeadingZeros(bytes);
+  return (
+    leadingZeroCharacter.repeat(leadingZeros) +
+    convertBase(bytes.slice(leadingZeros), byteBase, base58)
+      .map(digit => base58Alphabet[digit])
+      .join('')
+  );
+};
+
+/**
+ * Decode a Base58 string (using the Bitcoin alphabet) into a Uint8Array. Each
+ * leading `1` is decoded as a leading zero byte.
+ *
+ * Returns `Base58DecodingError.unknownCharacter` if the string contains a
+ * character which is not in the alphabet.
+ *
+ * @param base58Text the Base58 string to decode
+ */
+export const base58ToBin = (
+  base58Text: string
+): Uint8Array | Base58DecodingError.unknownCharacter => {
+  const digits = [...base58Text].map(character =>
+    base58Alphabet.indexOf(character)
+  );
+  const leadingZeros = countLeadingZeros(digits);
+  return digits.indexOf(-1) !== -1
+    ? Base58DecodingError.unknownCharacter
+    : Uint8Array.from([
+        ...new Uint8Array(leadingZeros),
+        ...convertBase(digits.slice(leadingZeros), base58, byteBase)
+      ]);
+};
+
+const checksumLength = 4;
+
+const base58Checksum = (sha256: Sha256, payload: Uint8Array) =>
+  hash256(sha256, payload).slice(0, checksumLength);
+
+/**
+ * Encode a payload as a Base58Check string: the Base58 encoding of the payload
+ * followed by a 4-byte checksum (the first 4 bytes of the double-sha256 hash of
+ * the payload).
+ *
+ * Most Base58Check formats (e.g. legacy addresses and WIF private keys) begin
+ * the payload with a version byte.
+ *
+ * @param sha256 an implementation of sha256
+ * @param payload the payload to encode
+ */
+export const binToBase58Check = (sha256: Sha256, payload: Uint8Array) =>
+  binToBase58(flattenBinArray([payload, base58Checksum(sha256, payload)]));
+
+const verifyBase58Checksum = (sha256: Sha256, bin: Uint8Array) => {
+  const payload = bin.slice(0, -checksumLength);
+  const checksum = bin.slice(-checksumLength);
+  return base58Checksum(sha256, payload).every(
+    (byte, index) => byte === checksum[index]
+  )
+    ? payload
+    : Base58DecodingError.invalidChecksum;
+};
+
+/**
+ * Decode a Base58Check string, verifying and removing its 4-byte checksum.
+ *
+ * Returns the payload, or a `Base58DecodingError` if the string contains an
+ * unknown character, is too short, or has an invalid checksum.
+ *
+ * @param sha256 an implementation of sha256
+ * @param base58CheckText the Base58Check string to decode
+ */
+export const base58CheckToBin = (
+  sha256: Sha256,
+  base58CheckText: string
+): Uint8Array | Base58DecodingError => {
+  const bin = base58ToBin(base58CheckText);
+  return typeof bin === 'string'
+    ? bin
+    : bin.length < checksumLength
+    ? Base58DecodingError.tooShort
+    : verifyBase58Checksum(sha256, bin);
+};
@@ -1,6 +1,13 @@
 // tslint:disable:no-expression-statement no-magic-numbers
 import test from 'ava';
-import { decodeBase64String } from './base64';
+import * as fc from 'fast-check';
+import {
+  Base64Alphabet,
+  Base64DecodingError,
+  base64ToBin,
+  binToBase64,
+  decodeBase64String
+} from './base64';
 
 test('decodeBase64String works as expected', t => {
   const abc = new Uint8Array([97, 98, 99]).buffer;
@@ -9,4 +16,74 @@ test('decodeBase64String works as expected', t => {
   t.deepEqual(decodeBase64String('YWJj'), abc);
   t.deepEqual(decodeBase64String('YWJjZA=='), abcd);
   t.deepEqual(decodeBase64String('YWJjZGU='), abcde);
+  t.throws(() => decodeBase64String('YWJjZA'));
+});
+
+test('binToBase64', t => {
+  t.deepEqual(binToBase64(new Uint8Array([])), '');
+  t.deepEqual(binToBase64(new Uint8Array([97, 98, 99])), 'YWJj');
+  t.deepEqual(binToBase64(new Uint8Array([97, 98, 99, 100])), 'YWJjZA==');
+  t.deepEqual(binToBase64(new Uint8Array([97, 98, 99, 100, 101])), 'YWJjZGU=');
+  t.deepEqual(binToBase64(new Uint8Array([0xfb, 0xff])), '+/8=');
+  t.deepEqual(
+    binToBase64(new Uint8Array([0xfb, 0xff]), Base64Alphabet.urlSafe),
+    '-_8='
+  );
+});
+
+test('base64ToBin', t => {
+  t.deepEqual(base64ToBin(''), new Uint8Array([]));
+  t.deepEqual(base64ToBin('YWJj'), new Uint8Array([97, 98, 99]));
+  t.deepEqual(base64ToBin('YWJjZA=='), new Uint8Array([97, 98, 99, 100]));
+  t.deepEqual(base64ToBin('YWJjZGU='), new Uint8Array([97, 98, 99, 100, 101]));
+  t.deepEqual(base64ToBin('+/8='), new Uint8Array([0xfb, 0xff]));
+  t.deepEqual(
+    base64ToBin('-_8=', Base64Alphabet.urlSafe),
+    new Uint8Array([0xfb, 0xff])
+  );
+});
+
+test('base64ToBin: errors', t => {
+  t.deepEqual(base64ToBin('YWJjZA'), Base64DecodingError.invalidLength);
+  t.deepEqual(base64ToBin('YWJjZ'), Base64DecodingError.invalidLength);
+  t.deepEqual(base64ToBin('YQ==='), Base64DecodingError.invalidLength);
+  t.deepEqual(base64ToBin('Y==='), Base64DecodingError.invalidPadding);
+  t.deepEqual(base64ToBin('YR=='), Base64DecodingError.invalidPadding);
+  t.deepEqual(base64ToBin('YWI='), new Uint8Array([97, 98]));
+  t.deepEqual(base64ToBin('YWJ='), Base64DecodingError.invalidPadding);
+  t.deepEqual(base64ToBin('YW=j'), Base64DecodingError.invalidCharacter);
+  t.deepEqual(base64ToBin('YW j'), Base64DecodingError.invalidCharacter);
+  t.deepEqual(base64ToBin('YWJé'), Base64DecodingError.invalidCharacter);
+  t.deepEqual(base64ToBin('-_8='), Base64DecodingError.invalidCharacter);
+  t.deepEqual(
+    base64ToBin('+/8=', Base64Alphabet.urlSafe),
+    Base64DecodingError.invalidCharacter
+  );
+});
+
+const fcUint8Array = (minLength: number, maxLength: number) =>
+  fc
+    .array(fc.integer(0, 255), minLength, maxLength)
+    .map(a => Uint8Array.from(a));
+
+test('binToBase64: equivalent to Node.js Buffer', t => {
+  const equivalentToNode = fc.property(fcUint8Array(0, 100), bytes => {
+    t.deepEqual(binToBase64(bytes), Buffer.from(bytes).toString('base64'));
+  });
+  t.notThrows(() => {
+    fc.assert(equivalentToNode);
+  });
+});
+
+test('binToBase64 <-> base64ToBin', t => {
+  const inverse = fc.property(
+    fcUint8Array(0, 100),
+    fc.constantFrom(Base64Alphabet.standard, Base64Alphabet.urlSafe),
+    (bytes, alphabet) => {
+      t.deepEqual(base64ToBin(binToBase64(bytes, alphabet), alphabet), bytes);
+    }
+  );
+  t.notThrows(() => {
+    fc.assert(inverse);
+  });
 });
@@ -1,38 +1,151 @@
-export const decodeBase64String = (base64Text: string) => {
-  // base64 decode derived from: https://github.com/niklasvh/base64-arraybuffer
-  // prettier-ignore
-  const chars =
-  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
-  // tslint:disable:no-magic-numbers
-  const lookup = new Uint8Array(123);
-  // tslint:disable-next-line:no-let
-  for (let i = 0; i < chars.length; i++) {
-    // tslint:disable-next-line:no-object-mutation no-expression-statement
-    lookup[chars.charCodeAt(i)] = i;
+/**
+ * The alphabets supported by the base64 encoding methods (RFC 4648).
+ */
+export enum Base64Alphabet {
+  /**
+   * The standard base64 alphabet (using `+` and `/`).
+   */
+  standard = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/',
+  /**
+   * The URL and filename safe base64 alphabet (using `-` and `_`).
+   */
+  urlSafe = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_'
+}
+
+/**
+ * The reasons for which decoding a base64 string may fail.
+ */
+export enum Base64DecodingError {
+  invalidCharacter = 'Base64 string contains a character which is not in the base64 alphabet.',
+  invalidLength = 'Base64 string length must be a multiple of 4 (including padding).',
+  invalidPadding = 'Base64 string has invalid padding (only 1 or 2 trailing "=" characters are allowed, and any unused bits must be zero).'
+}
+
+const base64Padding = '=';
+// tslint:disable:no-magic-numbers
+const base64GroupLength = 4;
+const maximumPaddingLength = 2;
+const bitsPerCharacter = 6;
+const bitsPerByte = 8;
+const asciiRange = 128;
+const invalidValue = 0xff;
+// tslint:enable:no-magic-numbers
+
+const createLookup = (alphabet: Base64Alphabet) =>
+  [...alphabet].reduce((lookup, character, index) => {
+    // tslint:disable-next-line:no-expression-statement no-object-mutation
+    lookup[character.charCodeAt(0)] = index;
+    return lookup;
+  }, new Uint8Array(asciiRange).fill(invalidValue));
+
+const standardLookup = createLookup(Base64Alphabet.standard);
+const urlSafeLookup = createLookup(Base64Alphabet.urlSafe);
+
+const countPadding = (base64Text: string) =>
+  base64Text.length - base64Text.replace(/=+$/, '').length;
+
+const lookupValue = (lookup: Uint8Array, code: number) =>
+  code < asciiRange ? lookup[code] : invalidValue;
+
+const decodeBase64Characters = (
+  characters: string,
+  lookup: Uint8Array
+): Uint8Array | Base64DecodingError => {
+  // tslint:disable:no-let no-expression-statement no-object-mutation no-if-statement no-bitwise
+  const bytes = new Uint8Array(
+    Math.floor((characters.length * bitsPerCharacter) / bitsPerByte)
+  );
+  let accumulator = 0;
+  let bits = 0;
+  let byteIndex = 0;
+  for (let i = 0; i < characters.length; i += 1) {
+    const value = lookupValue(lookup, characters.charCodeAt(i));
+    if (value === invalidValue) {
+      return Base64DecodingError.invalidCharacter;
+    }
+    accumulator = (accumulator << bitsPerCharacter) | value;
+    bits += bitsPerCharacter;
+    if (bits >= bitsPerByte) {
+      bits -= bitsPerByte;
+      bytes[byteIndex] = accumulator >> bits;
+      byteIndex += 1;
+      accumulator &= (1 << bits) - 1;
+    }
+  }
+  return accumulator === 0 ? bytes : Base64DecodingError.invalidPadding;
+  // tslint:enable:no-let no-expression-statement no-object-mutation no-if-statement no-bitwise
+};
+
+/**
+ * Decode a base64 string into a Uint8Array, verifying that the string uses
+ * only characters from `alphabet`, is correctly padded, and has a length which
+ * is a multiple of 4.
+ *
+ * E.g.: `base64ToBin('YWJjZA==')` => `new Uint8Array([97, 98, 99, 100])`
+ *
+ * @param base64Text the base64 string to decode
+ * @param alphabet the alphabet to use (default: `Base64Alphabet.standard`)
+ */
+export const base64ToBin = (
+  base64Text: string,
+  alphabet: Base64Alphabet = Base64Alphabet.standard
+) => {
+  const paddingLength = countPadding(base64Text);
+  return base64Text.length % base64GroupLength !== 0
+    ? Base64DecodingError.invalidLength
+    : paddingLength > maximumPaddingLength
+    ? Base64DecodingError.invalidPadding
+    : decodeBase64Characters(
+        base64Text.slice(0, base64Text.length - paddingLength),
+        alphabet === Base64Alphabet.urlSafe ? urlSafeLookup : standardLookup
+      );
+};
+
+/**
+ * Encode a Uint8Array as a padded base64 string.
+ *
+ * E.g.: `binToBase64(new Uint8Array([97, 98, 99, 100]))` => `'YWJjZA=='`
+ *
+ * @param bytes the Uint8Array to encode
+ * @param alphabet the alphabet to use (default: `Base64Alphabet.standard`)
+ */
+export const binToBase64 = (
+  bytes: Uint8Array,
+  alphabet: Base64Alphabet = Base64Alphabet.standard
+) => {
+  // tslint:disable:no-let no-expression-statement no-bitwise no-magic-numbers
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    // bytes beyond the end of the array are `undefined` (treated as `0`)
+    const triplet = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    result +=
+      alphabet[(triplet >> 18) & 63] +
+      alphabet[(triplet >> 12) & 63] +
+      alphabet[(triplet >> 6) & 63] +
+      alphabet[triplet & 63];
   }
-  const bufferLengthEstimate = base64Text.length * 0.75;
-  const stringLength = base64Text.length;
-  const bufferLength =
-    base64Text[base64Text.length - 1] === '='
-      ? base64Text[base64Text.length - 2] === '='
-        ? bufferLengthEstimate - 2
-        : bufferLengthEstimate - 1
-      : bufferLengthEstimate;
-  const buffer = new ArrayBuffer(bufferLength);
-  const bytes = new Uint8Array(buffer);
-  // tslint:disable-next-line:no-let
-  let p = 0;
-  // tslint:disable-next-line:no-let
-  for (let i = 0; i < stringLength; i += 4) {
-    const encoded1 = lookup[base64Text.charCodeAt(i)];
-    const encoded2 = lookup[base64Text.charCodeAt(i + 1)];
-    const encoded3 = lookup[base64Text.charCodeAt(i + 2)];
-    const encoded4 = lookup[base64Text.charCodeAt(i + 3)];
-    // tslint:disable:no-bitwise no-expression-statement no-object-mutation
-    bytes[p++] = (encoded1 << 2) | (encoded2 >> 4);
-    bytes[p++] = ((encoded2 & 15) << 4) | (encoded3 >> 2);
-    bytes[p++] = ((encoded3 & 3) << 6) | (encoded4 & 63);
-    // tslint:enable:no-bitwise no-expression-statement no-object-mutation no-magic-numbers
+  const paddingLength = (3 - (bytes.length % 3)) % 3;
+  // tslint:enable:no-let no-expression-statement no-bitwise no-magic-numbers
+  return `${result.slice(
+    0,
+    result.length - paddingLength
+  )}${base64Padding.repeat(paddingLength)}`;
+};
+
+/**
+ * Decode a trusted base64 string (e.g. an embedded WebAssembly binary) into an
+ * ArrayBuffer.
+ *
+ * Throws if the string is not valid base64. To decode untrusted input, use
+ * `base64ToBin`.
+ *
+ * @param base64Text the base64 string to decode
+ */
+export const decodeBase64String = (base64Text: string) => {
+  const bin = base64ToBin(base64Text);
+  // tslint:disable-next-line:no-if-statement
+  if (typeof bin === 'string') {
+    throw new Error(bin);
   }
-  return buffer;
+  return bin.buffer;
 };
@@ -1,3 +1,4 @@
+export * from './base58';
 export * from './base64';
 export * from './hashes';
 export * from './ripemd160/ripemd160.base64';
@@ -3,4 +3,4 @@
  */
 // prettier-ignore
 export const secp256k1Base64Bytes =
-  'AGFzbQEAAAABXg5gAn9/AGAGf39/f39/AX9gAX8AYAABf2AAAGADf39/AX9gAX8Bf2AEf39/fwF/YAV/f39/fwF/YAN/f38AYAd/f39/f39/AX9gAn9/AX9gBH9/f38AYAV/f39/fwAC5wEMA2VudgZtZW1vcnkCAYACgAIDZW52BXRhYmxlAXABBgYDZW52CXRhYmxlQmFzZQN/AANlbnYORFlOQU1JQ1RPUF9QVFIDfwADZW52CFNUQUNLVE9QA38AA2VudgVhYm9ydAACA2Vudg1lbmxhcmdlTWVtb3J5AAMDZW52DmdldFRvdGFsTWVtb3J5AAMDZW52F2Fib3J0T25DYW5ub3RHcm93TWVtb3J5AAMDZW52C19fX3NldEVyck5vAAIDZW52Bl9hYm9ydAAEA2VudhZfZW1zY3JpcHRlbl9tZW1jcHlfYmlnAAUDREMAAAYJBQAJCQwGAAAGCwAGAAIJDQIJAAACCQAABQkJBQALBQAABQAKBwEFBgMHAQcHCQsFBQUFBQsBAQcFBQUHBQcIBgsCfwEjAQt/ASMCCwe+BhkRX19fZXJybm9fbG9jYXRpb24AMwVfZnJlZQAYB19tYWxsb2MAExlfc2VjcDI1NmsxX2NvbnRleHRfY3JlYXRlADIcX3NlY3AyNTZrMV9jb250ZXh0X3JhbmRvbWl6ZQA5H19zZWNwMjU2azFfZWNfcHJpdmtleV90d2Vha19hZGQAPR9fc2VjcDI1NmsxX2VjX3ByaXZrZXlfdHdlYWtfbXVsADsbX3NlY3AyNTZrMV9lY19wdWJrZXlfY3JlYXRlAD4aX3NlY3AyNTZrMV9lY19wdWJrZXlfcGFyc2UALx5fc2VjcDI1NmsxX2VjX3B1YmtleV9zZXJpYWxpemUASR5fc2VjcDI1NmsxX2VjX3B1YmtleV90d2Vha19hZGQAPB5fc2VjcDI1NmsxX2VjX3B1YmtleV90d2Vha19tdWwAOhtfc2VjcDI1NmsxX2VjX3NlY2tleV92ZXJpZnkAPxhfc2VjcDI1NmsxX2VjZHNhX3JlY292ZXIANDRfc2VjcDI1NmsxX2VjZHNhX3JlY292ZXJhYmxlX3NpZ25hdHVyZV9wYXJzZV9jb21wYWN0ADc4X3NlY3AyNTZrMV9lY2RzYV9yZWNvdmVyYWJsZV9zaWduYXR1cmVfc2VyaWFsaXplX2NvbXBhY3QANhVfc2VjcDI1NmsxX2VjZHNhX3NpZ24AQCFfc2VjcDI1NmsxX2VjZHNhX3NpZ25fcmVjb3ZlcmFibGUANSNfc2VjcDI1NmsxX2VjZHNhX3NpZ25hdHVyZV9tYWxsZWF0ZQBEJF9zZWNwMjU2azFfZWNkc2Ffc2lnbmF0dXJlX25vcm1hbGl6ZQBDKF9zZWNwMjU2azFfZWNkc2Ffc2lnbmF0dXJlX3BhcnNlX2NvbXBhY3QARyRfc2VjcDI1NmsxX2VjZHNhX3NpZ25hdHVyZV9wYXJzZV9kZXIASCxfc2VjcDI1NmsxX2VjZHNhX3NpZ25hdHVyZV9zZXJpYWxpemVfY29tcGFjdABFKF9zZWNwMjU2azFfZWNkc2Ffc2lnbmF0dXJlX3NlcmlhbGl6ZV9kZXIARhdfc2VjcDI1NmsxX2VjZHNhX3ZlcmlmeQBCCQwBACMACwYwQSIhISIK+bUGQ80HAgh/FX4gASgCBCICQQF0rSITIAEoAiAiA60iC34gASgCACIEQQF0rSIPIAEoAiStIgp+fCABKAIIIgVBAXStIhYgASgCHCIGrSIRfnwgASgCDCIHQQF0rSIYIAEoAhgiCK0iFH58IAEoAhAiCUEBdK0iECABKAIUIgGtIhd+fCEaIBYgC34gEyAKfnwgGCARfnwgECAUfnwgFyAXfnwgGkIaiHwiDEL///8fgyINQpD6AH4gBK0iDiAOfnwhGyANQgqGIAKtIg0gD358IBtCGoh8IBggC34gFiAKfnwgECARfnwgAUEBdK0iDiAUfnwgDEIaiHwiGUL///8fgyISQpD6AH58IRwgBa0iDCAPfiANIA1+fCASQgqGfCAUIBR+IBggCn58IBAgC358IA4gEX58IBlCGoh8IhVC////H4MiEkKQ+gB+fCAcQhqIfCEZIAAgB60iDSAPfiAMIBN+fCASQgqGfCAQIAp+IAhBAXStIhIgEX58IA4gC358IBVCGoh8IhVC////H4MiHUKQ+gB+fCAZQhqIfCIep0H///8fcTYCDCAAIA0gE34gDCAMfnwgCa0iECAPfnwgHUIKhnwgEiALfiARIBF+fCAOIAp+fCAVQhqIfCIOQv///x+DIgxCkPoAfnwgHkIaiHwiFadB////H3E2AhAgACAQIBN+IA0gFn58IBcgD358IAxCCoZ8IBIgCn4gBkEBdK0iDCALfnwgDkIaiHwiDkL///8fgyISQpD6AH58IBVCGoh8IhWnQf///x9xNgIUIAAgFCAPfiANIA1+fCAQIBZ+fCAXIBN+fCASQgqGfCAMIAp+IAsgC358IA5CGoh8Ig1C////H4MiDkKQ+gB+fCAVQhqIfCIMp0H///8fcTYCGCAAIBQgE34gESAPfnwgECAYfnwgFyAWfnwgDkIKhnwgDUIaiCADQQF0rSAKfnwiDUL///8fgyIOQpD6AH58IAxCGoh8IgynQf///x9xNgIcIAAgESATfiALIA9+fCAUIBZ+fCAQIBB+fCAXIBh+fCAOQgqGfCANQhqIIAogCn58IgpC////H4MiC0KQ+gB+fCAMQhqIfCIPp0H///8fcTYCICAAIApCGogiCkKQ+gB+IBpC////H4N8IAtCCoZ8IA9CGoh8IgunQf///wFxNgIkIAAgC0IWiCAKQg6GfCIKQtEHfiAbQv///x+DfCILp0H///8fcTYCACAAIApCBoYgHEL///8fg3wgC0IaiHwiCqdB////H3E2AgQgACAKQhqIIBlC////H4N8PgIIC+MUAiF/DH4jBCEPIwRBQGskBCAPIAEoAgCtIiUgJX4iJj4CACABQQRqIhcoAgCtIiQgJX4iI0IgiCEpICOnIgNBAXQiBCAmQiCIp2oiAiAESSEFIA8gAjYCBCABQQhqIhwoAgCtIicgJX4iI0IgiCEoIAQgA0kgKUIBhqciBnIgBWoiBCAjpyIDQQF0IghqIgIgCEkhCSAFIARFcSAGICmnSWogCCADSSAoQgGGpyIFciAJaiIOaiIIIAIgJCAkfiIjpyIDaiICIANJICNCIIinaiIGaiEKIA8gAjYCCCABQQxqIh0oAgCtIiYgJX4iI0IgiCElIAogI6ciBEEBdCILaiICIAtJIQwgJyAkfiIjQiCIISQgAiAjpyIDQQF0IgdqIgIgB0khDSAPIAI2AgwgAUEQaiIeKAIArSIpIAEoAgCtIid+IiNCIIghKyAJIA5FcSAFICinSWogCCAOSWogCiAGSWogCyAESSAlQgGGpyILciAMaiIJaiIFIAcgA0kgJEIBhqciCHIgDWoiCmoiBiAjpyIEQQF0IgdqIgIgB0khFSAmIBcoAgCtIiZ+IiNCIIghKCACICOnIgNBAXQiDmoiAiAOSSEQIAggJKdJIAsgJadJaiAMIAlFcWogBSAJSWogDSAKRXFqIAYgCklqIAcgBEkgK0IBhqciCnIgFWoiEWoiByAOIANJIChCAYanIgtyIBBqIhJqIgUgAiAcKAIArSIlICV+IiOnIgNqIgIgA0kgI0IgiKdqIghqIQwgDyACNgIQIAFBFGoiGCgCAK0gJ34iI0IgiCEkIAwgI6ciBkEBdCIOaiICIA5JIRYgKSAmfiIjQiCIIScgAiAjpyIEQQF0Ig1qIgIgDUkhEyAdKAIArSAlfiIjQiCIISYgAiAjpyIDQQF0IglqIgIgCUkhFCAPIAI2AhQgAUEYaiIfKAIArSABKAIArX4iI0IgiCEsIAsgKKdJIAogK6dJaiAVIBFFcWogECASRXFqIAcgEUlqIAUgEklqIAwgCElqIA4gBkkgJEIBhqciDnIgFmoiEGoiCiANIARJICdCAYanIgdyIBNqIhFqIgsgCSADSSAmQgGGpyIFciAUaiISaiIIICOnIgZBAXQiCWoiAiAJSSEhIBgoAgCtIBcoAgCtfiIjQiCIIS0gAiAjpyIEQQF0IgxqIgIgDEkhGSAeKAIArSAcKAIArX4iI0IgiCEoIAIgI6ciA0EBdCINaiICIA1JIRogByAnp0kgDiAkp0lqIAUgJqdJaiAWIBBFcWogCiAQSWogEyARRXFqIAsgEUlqIBQgEkVxaiAIIBJJaiAJIAZJICxCAYanIglyICFqIhtqIg4gDCAESSAtQgGGpyIKciAZaiITaiIHIA0gA0kgKEIBhqciC3IgGmoiFGoiBSACIB0oAgCtIiMgI34iI6ciA2oiAiADSSAjQiCIp2oiCGohECAPIAI2AhggAUEcaiIgKAIArSABKAIArX4iI0IgiCEqIBAgI6ciBkEBdCIRaiIBIBFJISIgHygCAK0gFygCAK0iKX4iI0IgiCErIAEgI6ciBEEBdCISaiIBIBJJIRcgGCgCAK0gHCgCAK0iJ34iI0IgiCElIAEgI6ciA0EBdCIMaiIBIAxJIRUgHigCAK0gHSgCAK0iJn4iI0IgiCEkIAEgI6ciAkEBdCINaiIBIA1JIRYgDyABNgIcICAoAgCtICl+IiNCIIghLiAKIC2nSSAJICynSWogCyAop0lqICEgG0VxaiAZIBNFcWogGiAURXFqIA4gG0lqIAcgE0lqIAUgFElqIBAgCElqIBEgBkkgKkIBhqciCXIgImoiE2oiDiASIARJICtCAYanIgpyIBdqIhRqIgcgDCADSSAlQgGGpyILciAVaiIQaiIFIA0gAkkgJEIBhqciCHIgFmoiEWoiBiAjpyIEQQF0IhJqIgEgEkkhGSAfKAIArSAnfiIjQiCIISwgASAjpyIDQQF0IgxqIgEgDEkhGiAYKAIArSAmfiIjQiCIISggASAjpyICQQF0Ig1qIgEgDUkhGyAKICunSSAJICqnSWogCyAlp0lqIAggJKdJaiAiIBNFcWogDiATSWogFyAURXFqIAcgFElqIBUgEEVxaiAFIBBJaiAWIBFFcWogBiARSWogEiAESSAuQgGGpyIOciAZaiIVaiIKIAwgA0kgLEIBhqciB3IgGmoiFmoiCyANIAJJIChCAYanIgVyIBtqIhBqIgggASAeKAIArSIkICR+IiOnIgJqIgEgAkkgI0IgiKdqIgZqIREgDyABNgIgICAoAgCtIikgHCgCAK1+IiNCIIghLSARICOnIgRBAXQiDGoiASAMSSETIB8oAgCtIicgHSgCAK0iJn4iI0IgiCEqIAEgI6ciA0EBdCINaiIBIA1JIRQgGCgCAK0iJSAkfiIjQiCIISQgASAjpyICQQF0IglqIgEgCUkhEiAPIAE2AiQgKSAmfiIjQiCIISsgByAsp0kgDiAup0lqIAUgKKdJaiAZIBVFcWogGiAWRXFqIBsgEEVxaiAKIBVJaiALIBZJaiAIIBBJaiARIAZJaiAMIARJIC1CAYanIgdyIBNqIgxqIgsgDSADSSAqQgGGpyIFciAUaiINaiIIIAkgAkkgJEIBhqciBnIgEmoiCWoiBCAjpyIDQQF0Ig5qIgEgDkkhECAnIB4oAgCtIiZ+IiNCIIghKCABICOnIgJBAXQiCmoiASAKSSERIAUgKqdJIAcgLadJaiAGICSnSWogEyAMRXFqIAsgDElqIBQgDUVxaiAIIA1JaiASIAlFcWogBCAJSWogDiADSSArQgGGpyILciAQaiISaiIFIAogAkkgKEIBhqciCHIgEWoiDGoiBiABICUgJX4iI6ciAmoiASACSSAjQiCIp2oiBGohDSAPIAE2AiggICgCAK0iJyAmfiIjQiCIISUgDSAjpyIDQQF0IgdqIgEgB0khCSAfKAIArSIqIBgoAgCtIiZ+IiNCIIghJCABICOnIgJBAXQiCmoiASAKSSEOIA8gATYCLCAnICZ+IiNCIIghKSAIICinSSALICunSWogECASRXFqIBEgDEVxaiAFIBJJaiAGIAxJaiANIARJaiAHIANJICVCAYanIghyIAlqIgdqIgYgCiACSSAkQgGGpyIEciAOaiILaiIDICOnIgJBAXQiBWoiASAFSSEKIAQgJKdJIAggJadJaiAJIAdFcWogBiAHSWogDiALRXFqIAMgC0lqIAUgAkkgKUIBhqciBnIgCmoiB2oiBCABICogKn4iI6ciAmoiASACSSAjQiCIp2oiA2ohCyAPIAE2AjAgICgCAK0iJyAqfiIjQiCIISYgCyAjpyICQQF0IgVqIgEgBUkhCCAPIAE2AjQgDyAKIAdFcSAGICmnSWogBCAHSWogCyADSWogBSACSSAmQgGGpyIEciAIaiIGaiIDICcgJ34iI6ciAmoiATYCOCAPIAQgJqdJICNCIIinaiAIIAZFcWogAyAGSWogASACSWo2AjwgACAPECcgDyQECysAIABB/wFxQRh0IABBCHVB/wFxQRB0ciAAQRB1Qf8BcUEIdHIgAEEYdnILzwkBG34gAigCIK0iAyABKAIErSIEfiACKAIkrSIGIAEoAgCtIgh+fCACKAIcrSIJIAEoAgitIgp+fCACKAIYrSILIAEoAgytIgx+fCACKAIUrSINIAEoAhCtIg5+fCACKAIQrSIPIAEoAhStIhB+fCACKAIMrSIRIAEoAhitIhJ+fCACKAIIrSITIAEoAhytIhR+fCACKAIErSIVIAEoAiCtIhZ+fCACKAIArSIXIAEoAiStIhh+fCEcIAogA34gBCAGfnwgDCAJfnwgDiALfnwgECANfnwgEiAPfnwgFCARfnwgFiATfnwgGCAVfnwgHEIaiHwiG0L///8fgyIaQpD6AH4gFyAIfnwhHSAXIAR+IBUgCH58IBpCCoZ8IB1CGoh8IAwgA34gCiAGfnwgDiAJfnwgECALfnwgEiANfnwgFCAPfnwgFiARfnwgGCATfnwgG0IaiHwiGkL///8fgyIFQpD6AH58IRsgFSAEfiATIAh+fCAXIAp+fCAFQgqGfCAOIAN+IAwgBn58IBAgCX58IBIgC358IBQgDX58IBYgD358IBggEX58IBpCGoh8IgVC////H4MiB0KQ+gB+fCAbQhqIfCEaIAAgEyAEfiARIAh+fCAVIAp+fCAXIAx+fCAHQgqGfCAQIAN+IA4gBn58IBIgCX58IBQgC358IBYgDX58IBggD358IAVCGoh8IgVC////H4MiB0KQ+gB+fCAaQhqIfCIZp0H///8fcTYCDCAAIBEgBH4gDyAIfnwgEyAKfnwgFSAMfnwgFyAOfnwgB0IKhnwgEiADfiAQIAZ+fCAUIAl+fCAWIAt+fCAYIA1+fCAFQhqIfCIFQv///x+DIgdCkPoAfnwgGUIaiHwiGadB////H3E2AhAgACAPIAR+IA0gCH58IBEgCn58IBMgDH58IBUgDn58IBcgEH58IAdCCoZ8IBQgA34gEiAGfnwgFiAJfnwgGCALfnwgBUIaiHwiBUL///8fgyIHQpD6AH58IBlCGoh8IhmnQf///x9xNgIUIAAgDSAEfiALIAh+fCAPIAp+fCARIAx+fCATIA5+fCAVIBB+fCAXIBJ+fCAHQgqGfCAWIAN+IBQgBn58IBggCX58IAVCGoh8IgVC////H4MiB0KQ+gB+fCAZQhqIfCIZp0H///8fcTYCGCAAIAsgBH4gCSAIfnwgDSAKfnwgDyAMfnwgESAOfnwgEyAQfnwgFSASfnwgFyAUfnwgB0IKhnwgGCADfiAWIAZ+fCAFQhqIfCIFQv///x+DIgdCkPoAfnwgGUIaiHwiGadB////H3E2AhwgACAJIAR+IAMgCH58IAsgCn58IA0gDH58IA8gDn58IBEgEH58IBMgEn58IBUgFH58IBcgFn58IAdCCoZ8IAVCGoggGCAGfnwiA0L///8fgyIEQpD6AH58IBlCGoh8IganQf///x9xNgIgIAAgA0IaiCIDQpD6AH4gHEL///8fg3wgBEIKhnwgBkIaiHwiBKdB////AXE2AiQgACAEQhaIIANCDoZ8IgNC0Qd+IB1C////H4N8IgSnQf///x9xNgIAIAAgA0IGhiAbQv///x+DfCAEQhqIfCIDp0H///8fcTYCBCAAIANCGoggGkL///8fg3w+AggLwwMBA38gAkGAwABOBEAgACABIAIQBg8LIAAhBCAAIAJqIQMgAEEDcSABQQNxRgRAA0AgAEEDcQRAIAJFBEAgBA8LIAAgASwAADoAACAAQQFqIQAgAUEBaiEBIAJBAWshAgwBCwsgA0F8cSICQUBqIQUDQCAAIAVMBEAgACABKAIANgIAIAAgASgCBDYCBCAAIAEoAgg2AgggACABKAIMNgIMIAAgASgCEDYCECAAIAEoAhQ2AhQgACABKAIYNgIYIAAgASgCHDYCHCAAIAEoAiA2AiAgACABKAIkNgIkIAAgASgCKDYCKCAAIAEoAiw2AiwgACABKAIwNgIwIAAgASgCNDYCNCAAIAEoAjg2AjggACABKAI8NgI8IABBQGshACABQUBrIQEMAQsLA0AgACACSARAIAAgASgCADYCACAAQQRqIQAgAUEEaiEBDAELCwUgA0EEayECA0AgACACSARAIAAgASwAADoAACAAIAEsAAE6AAEgACABLAACOgACIAAgASwAAzoAAyAAQQRqIQAgAUEEaiEBDAELCwsDQCAAIANIBEAgACABLAAAOgAAIABBAWohACABQQFqIQEMAQsLIAQLv1YBJH8gACgCACEdIABBBGoiHigCACEJIABBCGoiHygCACEFIABBDGoiICgCACEPIABBHGoiISgCAEGY36iUBGogAEEQaiIiKAIAIgJBBnYgAkEadHIgAkELdiACQRV0cnMgAkEZdiACQQd0cnNqIABBGGoiIygCACIGIABBFGoiJCgCACIKcyACcSAGc2ogASgCABAJIhdqIgcgD2ohDyAGQZGJ3YkHaiABKAIEEAkiFWogDyAKIAJzcSAKc2ogD0EGdiAPQRp0ciAPQQt2IA9BFXRycyAPQRl2IA9BB3Ryc2oiEiAFaiEGIApBz/eDrntqIAEoAggQCSIYaiAGIA8gAnNxIAJzaiAGQQZ2IAZBGnRyIAZBC3YgBkEVdHJzIAZBGXYgBkEHdHJzaiIUIAlqIQogAkGlt9fNfmogASgCDBAJIhZqIAogBiAPc3EgD3NqIApBBnYgCkEadHIgCkELdiAKQRV0cnMgCkEZdiAKQQd0cnNqIgIgHWohAyAdQQJ2IB1BHnRyIB1BDXYgHUETdHJzIB1BFnYgHUEKdHJzIAUgCSAdcnEgCSAdcXJqIAdqIgVBAnYgBUEedHIgBUENdiAFQRN0cnMgBUEWdiAFQQp0cnMgBSAdciAJcSAFIB1xcmogEmoiCUECdiAJQR50ciAJQQ12IAlBE3RycyAJQRZ2IAlBCnRycyAJIAVyIB1xIAkgBXFyaiAUaiIHQQJ2IAdBHnRyIAdBDXYgB0ETdHJzIAdBFnYgB0EKdHJzIAcgCXIgBXEgByAJcXJqIAJqIQIgD0HbhNvKA2ogASgCEBAJIhlqIAMgCiAGc3EgBnNqIANBBnYgA0EadHIgA0ELdiADQRV0cnMgA0EZdiADQQd0cnNqIhIgBWohDyABKAIUEAkiEEHxo8TPBWogBmogDyADIApzcSAKc2ogD0EGdiAPQRp0ciAPQQt2IA9BFXRycyAPQRl2IA9BB3Ryc2oiFCAJaiEGIAEoAhgQCSIIQaSF/pF5aiAKaiAGIA8gA3NxIANzaiAGQQZ2IAZBGnRyIAZBC3YgBkEVdHJzIAZBGXYgBkEHdHJzaiITIAdqIQogASgCHBAJIgtB1b3x2HpqIANqIAogBiAPc3EgD3NqIApBBnYgCkEadHIgCkELdiAKQRV0cnMgCkEZdiAKQQd0cnNqIgQgAmohAyACQQJ2IAJBHnRyIAJBDXYgAkETdHJzIAJBFnYgAkEKdHJzIAIgB3IgCXEgAiAHcXJqIBJqIgVBAnYgBUEedHIgBUENdiAFQRN0cnMgBUEWdiAFQQp0cnMgBSACciAHcSAFIAJxcmogFGoiCUECdiAJQR50ciAJQQ12IAlBE3RycyAJQRZ2IAlBCnRycyAJIAVyIAJxIAkgBXFyaiATaiIHQQJ2IAdBHnRyIAdBDXYgB0ETdHJzIAdBFnYgB0EKdHJzIAcgCXIgBXEgByAJcXJqIARqIQIgASgCIBAJIg5BmNWewH1qIA9qIAMgCiAGc3EgBnNqIANBBnYgA0EadHIgA0ELdiADQRV0cnMgA0EZdiADQQd0cnNqIhIgBWohDyABKAIkEAkiDEGBto2UAWogBmogDyADIApzcSAKc2ogD0EGdiAPQRp0ciAPQQt2IA9BFXRycyAPQRl2IA9BB3Ryc2oiFCAJaiEGIAEoAigQCSINQb6LxqECaiAKaiAGIA8gA3NxIANzaiAGQQZ2IAZBGnRyIAZBC3YgBkEVdHJzIAZBGXYgBkEHdHJzaiITIAdqIQogASgCLBAJIhFBw/uxqAVqIANqIAogBiAPc3EgD3NqIApBBnYgCkEadHIgCkELdiAKQRV0cnMgCkEZdiAKQQd0cnNqIgQgAmohAyACQQJ2IAJBHnRyIAJBDXYgAkETdHJzIAJBFnYgAkEKdHJzIAIgB3IgCXEgAiAHcXJqIBJqIgVBAnYgBUEedHIgBUENdiAFQRN0cnMgBUEWdiAFQQp0cnMgBSACciAHcSAFIAJxcmogFGoiCUECdiAJQR50ciAJQQ12IAlBE3RycyAJQRZ2IAlBCnRycyAJIAVyIAJxIAkgBXFyaiATaiIHQQJ2IAdBHnRyIAdBDXYgB0ETdHJzIAdBFnYgB0EKdHJzIAcgCXIgBXEgByAJcXJqIARqIQIgASgCMBAJIhpB9Lr5lQdqIA9qIAMgCiAGc3EgBnNqIANBBnYgA0EadHIgA0ELdiADQRV0cnMgA0EZdiADQQd0cnNqIgQgBWohBSABKAI0EAkiG0H+4/qGeGogBmogBSADIApzcSAKc2ogBUEGdiAFQRp0ciAFQQt2IAVBFXRycyAFQRl2IAVBB3Ryc2oiBiAJaiESIAEoAjgQCSIPQaeN8N55aiAKaiASIAUgA3NxIANzaiASQQZ2IBJBGnRyIBJBC3YgEkEVdHJzIBJBGXYgEkEHdHJzaiIKIAdqIRQgASgCPBAJIgFB9OLvjHxqIANqIBQgEiAFc3EgBXNqIBRBBnYgFEEadHIgFEELdiAUQRV0cnMgFEEZdiAUQQd0cnNqIhwgAmohEyACQQJ2IAJBHnRyIAJBDXYgAkETdHJzIAJBFnYgAkEKdHJzIAIgB3IgCXEgAiAHcXJqIARqIgNBAnYgA0EedHIgA0ENdiADQRN0cnMgA0EWdiADQQp0cnMgAyACciAHcSADIAJxcmogBmoiCUECdiAJQR50ciAJQQ12IAlBE3RycyAJQRZ2IAlBCnRycyAJIANyIAJxIAkgA3FyaiAKaiIHQQJ2IAdBHnRyIAdBDXYgB0ETdHJzIAdBFnYgB0EKdHJzIAcgCXIgA3EgByAJcXJqIBxqIQIgGEESdiAYQQ50ciAYQQN2cyAYQQd2IBhBGXRycyAVaiANaiABQRN2IAFBDXRyIAFBCnZzIAFBEXYgAUEPdHJzaiIGQYaP+f1+aiASaiAVQRJ2IBVBDnRyIBVBA3ZzIBVBB3YgFUEZdHJzIBdqIAxqIA9BE3YgD0ENdHIgD0EKdnMgD0ERdiAPQQ90cnNqIgpBwdPtpH5qIAVqIBMgFCASc3EgEnNqIBNBBnYgE0EadHIgE0ELdiATQRV0cnMgE0EZdiATQQd0cnNqIhUgA2oiFyATIBRzcSAUc2ogF0EGdiAXQRp0ciAXQQt2IBdBFXRycyAXQRl2IBdBB3Ryc2oiBCAJaiESIBlBEnYgGUEOdHIgGUEDdnMgGUEHdiAZQRl0cnMgFmogGmogBkETdiAGQQ10ciAGQQp2cyAGQRF2IAZBD3Ryc2oiA0HMw7KgAmogE2ogFkESdiAWQQ50ciAWQQN2cyAWQQd2IBZBGXRycyAYaiARaiAKQRN2IApBDXRyIApBCnZzIApBEXYgCkEPdHJzaiIFQca7hv4AaiAUaiASIBcgE3NxIBNzaiASQQZ2IBJBGnRyIBJBC3YgEkEVdHJzIBJBGXYgEkEHdHJzaiIYIAdqIhYgEiAXc3EgF3NqIBZBBnYgFkEadHIgFkELdiAWQRV0cnMgFkEZdiAWQQd0cnNqIhwgAmohEyACQQJ2IAJBHnRyIAJBDXYgAkETdHJzIAJBFnYgAkEKdHJzIAIgB3IgCXEgAiAHcXJqIBVqIhRBAnYgFEEedHIgFEENdiAUQRN0cnMgFEEWdiAUQQp0cnMgFCACciAHcSAUIAJxcmogBGoiFUECdiAVQR50ciAVQQ12IBVBE3RycyAVQRZ2IBVBCnRycyAVIBRyIAJxIBUgFHFyaiAYaiIYQQJ2IBhBHnRyIBhBDXYgGEETdHJzIBhBFnYgGEEKdHJzIBggFXIgFHEgGCAVcXJqIBxqIQIgCEESdiAIQQ50ciAIQQN2cyAIQQd2IAhBGXRycyAQaiAPaiADQRN2IANBDXRyIANBCnZzIANBEXYgA0EPdHJzaiIJQaqJ0tMEaiASaiAQQRJ2IBBBDnRyIBBBA3ZzIBBBB3YgEEEZdHJzIBlqIBtqIAVBE3YgBUENdHIgBUEKdnMgBUERdiAFQQ90cnNqIgdB79ik7wJqIBdqIBMgFiASc3EgEnNqIBNBBnYgE0EadHIgE0ELdiATQRV0cnMgE0EZdiATQQd0cnNqIhkgFGoiBCATIBZzcSAWc2ogBEEGdiAEQRp0ciAEQQt2IARBFXRycyAEQRl2IARBB3Ryc2oiECAVaiEXIA5BEnYgDkEOdHIgDkEDdnMgDkEHdiAOQRl0cnMgC2ogCmogCUETdiAJQQ10ciAJQQp2cyAJQRF2IAlBD3Ryc2oiEkHakea3B2ogE2ogC0ESdiALQQ50ciALQQN2cyALQQd2IAtBGXRycyAIaiABaiAHQRN2IAdBDXRyIAdBCnZzIAdBEXYgB0EPdHJzaiIUQdzTwuUFaiAWaiAXIAQgE3NxIBNzaiAXQQZ2IBdBGnRyIBdBC3YgF0EVdHJzIBdBGXYgF0EHdHJzaiITIBhqIgsgFyAEc3EgBHNqIAtBBnYgC0EadHIgC0ELdiALQRV0cnMgC0EZdiALQQd0cnNqIhwgAmohFiACQQJ2IAJBHnRyIAJBDXYgAkETdHJzIAJBFnYgAkEKdHJzIAIgGHIgFXEgAiAYcXJqIBlqIhlBAnYgGUEedHIgGUENdiAZQRN0cnMgGUEWdiAZQQp0cnMgGSACciAYcSAZIAJxcmogEGoiEEECdiAQQR50ciAQQQ12IBBBE3RycyAQQRZ2IBBBCnRycyAQIBlyIAJxIBAgGXFyaiATaiIIQQJ2IAhBHnRyIAhBDXYgCEETdHJzIAhBFnYgCEEKdHJzIAggEHIgGXEgCCAQcXJqIBxqIQIgDUESdiANQQ50ciANQQN2cyANQQd2IA1BGXRycyAMaiAFaiASQRN2IBJBDXRyIBJBCnZzIBJBEXYgEkEPdHJzaiITQe2Mx8F6aiAXaiAMQRJ2IAxBDnRyIAxBA3ZzIAxBB3YgDEEZdHJzIA5qIAZqIBRBE3YgFEENdHIgFEEKdnMgFEERdiAUQQ90cnNqIhVB0qL5wXlqIARqIBYgCyAXc3EgF3NqIBZBBnYgFkEadHIgFkELdiAWQRV0cnMgFkEZdiAWQQd0cnNqIgwgGWoiDiAWIAtzcSALc2ogDkEGdiAOQRp0ciAOQQt2IA5BFXRycyAOQRl2IA5BB3Ryc2oiGSAQaiEEIBpBEnYgGkEOdHIgGkEDdnMgGkEHdiAaQRl0cnMgEWogB2ogE0ETdiATQQ10ciATQQp2cyATQRF2IBNBD3Ryc2oiGEHH/+X6e2ogFmogEUESdiARQQ50ciARQQN2cyARQQd2IBFBGXRycyANaiADaiAVQRN2IBVBDXRyIBVBCnZzIBVBEXYgFUEPdHJzaiIXQcjPjIB7aiALaiAEIA4gFnNxIBZzaiAEQQZ2IARBGnRyIARBC3YgBEEVdHJzIARBGXYgBEEHdHJzaiIWIAhqIg0gBCAOc3EgDnNqIA1BBnYgDUEadHIgDUELdiANQRV0cnMgDUEZdiANQQd0cnNqIhEgAmohCyACQQJ2IAJBHnRyIAJBDXYgAkETdHJzIAJBFnYgAkEKdHJzIAIgCHIgEHEgAiAIcXJqIAxqIhBBAnYgEEEedHIgEEENdiAQQRN0cnMgEEEWdiAQQQp0cnMgECACciAIcSAQIAJxcmogGWoiCEECdiAIQR50ciAIQQ12IAhBE3RycyAIQRZ2IAhBCnRycyAIIBByIAJxIAggEHFyaiAWaiIMQQJ2IAxBHnRyIAxBDXYgDEETdHJzIAxBFnYgDEEKdHJzIAwgCHIgEHEgDCAIcXJqIBFqIQIgD0ESdiAPQQ50ciAPQQN2cyAPQQd2IA9BGXRycyAbaiAUaiAYQRN2IBhBDXRyIBhBCnZzIBhBEXYgGEEPdHJzaiIWQceinq19aiAEaiAbQRJ2IBtBDnRyIBtBA3ZzIBtBB3YgG0EZdHJzIBpqIAlqIBdBE3YgF0ENdHIgF0EKdnMgF0ERdiAXQQ90cnNqIhlB85eAt3xqIA5qIAsgDSAEc3EgBHNqIAtBBnYgC0EadHIgC0ELdiALQRV0cnMgC0EZdiALQQd0cnNqIg4gEGoiESALIA1zcSANc2ogEUEGdiARQRp0ciARQQt2IBFBFXRycyARQRl2IBFBB3Ryc2oiGiAIaiEEIApBEnYgCkEOdHIgCkEDdnMgCkEHdiAKQRl0cnMgAWogFWogFkETdiAWQQ10ciAWQQp2cyAWQRF2IBZBD3Ryc2oiEEHn0qShAWogC2ogAUESdiABQQ50ciABQQN2cyABQQd2IAFBGXRycyAPaiASaiAZQRN2IBlBDXRyIBlBCnZzIBlBEXYgGUEPdHJzaiIBQdHGqTZqIA1qIAQgESALc3EgC3NqIARBBnYgBEEadHIgBEELdiAEQRV0cnMgBEEZdiAEQQd0cnNqIg8gDGoiDSAEIBFzcSARc2ogDUEGdiANQRp0ciANQQt2IA1BFXRycyANQRl2IA1BB3Ryc2oiGyACaiELIAJBAnYgAkEedHIgAkENdiACQRN0cnMgAkEWdiACQQp0cnMgAiAMciAIcSACIAxxcmogDmoiCEECdiAIQR50ciAIQQ12IAhBE3RycyAIQRZ2IAhBCnRycyAIIAJyIAxxIAggAnFyaiAaaiIMQQJ2IAxBHnRyIAxBDXYgDEETdHJzIAxBFnYgDEEKdHJzIAwgCHIgAnEgDCAIcXJqIA9qIg5BAnYgDkEedHIgDkENdiAOQRN0cnMgDkEWdiAOQQp0cnMgDiAMciAIcSAOIAxxcmogG2ohAiAFQRJ2IAVBDnRyIAVBA3ZzIAVBB3YgBUEZdHJzIAZqIBdqIBBBE3YgEEENdHIgEEEKdnMgEEERdiAQQQ90cnNqIg9BuMLs8AJqIARqIAZBEnYgBkEOdHIgBkEDdnMgBkEHdiAGQRl0cnMgCmogE2ogAUETdiABQQ10ciABQQp2cyABQRF2IAFBD3Ryc2oiBkGFldy9AmogEWogCyANIARzcSAEc2ogC0EGdiALQRp0ciALQQt2IAtBFXRycyALQRl2IAtBB3Ryc2oiGiAIaiIRIAsgDXNxIA1zaiARQQZ2IBFBGnRyIBFBC3YgEUEVdHJzIBFBGXYgEUEHdHJzaiIbIAxqIQggB0ESdiAHQQ50ciAHQQN2cyAHQQd2IAdBGXRycyADaiAZaiAPQRN2IA9BDXRyIA9BCnZzIA9BEXYgD0EPdHJzaiIKQZOa4JkFaiALaiADQRJ2IANBDnRyIANBA3ZzIANBB3YgA0EZdHJzIAVqIBhqIAZBE3YgBkENdHIgBkEKdnMgBkERdiAGQQ90cnNqIgNB/Nux6QRqIA1qIAggESALc3EgC3NqIAhBBnYgCEEadHIgCEELdiAIQRV0cnMgCEEZdiAIQQd0cnNqIgUgDmoiDSAIIBFzcSARc2ogDUEGdiANQRp0ciANQQt2IA1BFXRycyANQRl2IA1BB3Ryc2oiHCACaiEEIAJBAnYgAkEedHIgAkENdiACQRN0cnMgAkEWdiACQQp0cnMgAiAOciAMcSACIA5xcmogGmoiC0ECdiALQR50ciALQQ12IAtBE3RycyALQRZ2IAtBCnRycyALIAJyIA5xIAsgAnFyaiAbaiIMQQJ2IAxBHnRyIAxBDXYgDEETdHJzIAxBFnYgDEEKdHJzIAwgC3IgAnEgDCALcXJqIAVqIg5BAnYgDkEedHIgDkENdiAOQRN0cnMgDkEWdiAOQQp0cnMgDiAMciALcSAOIAxxcmogHGohAiAUQRJ2IBRBDnRyIBRBA3ZzIBRBB3YgFEEZdHJzIAlqIAFqIApBE3YgCkENdHIgCkEKdnMgCkERdiAKQQ90cnNqIgVBu5WoswdqIAhqIAlBEnYgCUEOdHIgCUEDdnMgCUEHdiAJQRl0cnMgB2ogFmogA0ETdiADQQ10ciADQQp2cyADQRF2IANBD3Ryc2oiCUHU5qmoBmogEWogBCANIAhzcSAIc2ogBEEGdiAEQRp0ciAEQQt2IARBFXRycyAEQRl2IARBB3Ryc2oiGiALaiIRIAQgDXNxIA1zaiARQQZ2IBFBGnRyIBFBC3YgEUEVdHJzIBFBGXYgEUEHdHJzaiIbIAxqIQggFUESdiAVQQ50ciAVQQN2cyAVQQd2IBVBGXRycyASaiAGaiAFQRN2IAVBDXRyIAVBCnZzIAVBEXYgBUEPdHJzaiIHQYXZyJN5aiAEaiASQRJ2IBJBDnRyIBJBA3ZzIBJBB3YgEkEZdHJzIBRqIBBqIAlBE3YgCUENdHIgCUEKdnMgCUERdiAJQQ90cnNqIhJBrpKLjnhqIA1qIAggESAEc3EgBHNqIAhBBnYgCEEadHIgCEELdiAIQRV0cnMgCEEZdiAIQQd0cnNqIhQgDmoiDSAIIBFzcSARc2ogDUEGdiANQRp0ciANQQt2IA1BFXRycyANQRl2IA1BB3Ryc2oiHCACaiEEIAJBAnYgAkEedHIgAkENdiACQRN0cnMgAkEWdiACQQp0cnMgAiAOciAMcSACIA5xcmogGmoiC0ECdiALQR50ciALQQ12IAtBE3RycyALQRZ2IAtBCnRycyALIAJyIA5xIAsgAnFyaiAbaiIMQQJ2IAxBHnRyIAxBDXYgDEETdHJzIAxBFnYgDEEKdHJzIAwgC3IgAnEgDCALcXJqIBRqIg5BAnYgDkEedHIgDkENdiAOQRN0cnMgDkEWdiAOQQp0cnMgDiAMciALcSAOIAxxcmogHGohAiAXQRJ2IBdBDnRyIBdBA3ZzIBdBB3YgF0EZdHJzIBNqIANqIAdBE3YgB0ENdHIgB0EKdnMgB0ERdiAHQQ90cnNqIhRBy8zpwHpqIAhqIBNBEnYgE0EOdHIgE0EDdnMgE0EHdiATQRl0cnMgFWogD2ogEkETdiASQQ10ciASQQp2cyASQRF2IBJBD3Ryc2oiE0Gh0f+VemogEWogBCANIAhzcSAIc2ogBEEGdiAEQRp0ciAEQQt2IARBFXRycyAEQRl2IARBB3Ryc2oiGiALaiIRIAQgDXNxIA1zaiARQQZ2IBFBGnRyIBFBC3YgEUEVdHJzIBFBGXYgEUEHdHJzaiIbIAxqIQggGUESdiAZQQ50ciAZQQN2cyAZQQd2IBlBGXRycyAYaiAJaiAUQRN2IBRBDXRyIBRBCnZzIBRBEXYgFEEPdHJzaiIVQaOjsbt8aiAEaiAYQRJ2IBhBDnRyIBhBA3ZzIBhBB3YgGEEZdHJzIBdqIApqIBNBE3YgE0ENdHIgE0EKdnMgE0ERdiATQQ90cnNqIhhB8JauknxqIA1qIAggESAEc3EgBHNqIAhBBnYgCEEadHIgCEELdiAIQRV0cnMgCEEZdiAIQQd0cnNqIhcgDmoiDSAIIBFzcSARc2ogDUEGdiANQRp0ciANQQt2IA1BFXRycyANQRl2IA1BB3Ryc2oiHCACaiEEIAJBAnYgAkEedHIgAkENdiACQRN0cnMgAkEWdiACQQp0cnMgAiAOciAMcSACIA5xcmogGmoiC0ECdiALQR50ciALQQ12IAtBE3RycyALQRZ2IAtBCnRycyALIAJyIA5xIAsgAnFyaiAbaiIMQQJ2IAxBHnRyIAxBDXYgDEETdHJzIAxBFnYgDEEKdHJzIAwgC3IgAnEgDCALcXJqIBdqIg5BAnYgDkEedHIgDkENdiAOQRN0cnMgDkEWdiAOQQp0cnMgDiAMciALcSAOIAxxcmogHGohAiABQRJ2IAFBDnRyIAFBA3ZzIAFBB3YgAUEZdHJzIBZqIBJqIBVBE3YgFUENdHIgFUEKdnMgFUERdiAVQQ90cnNqIhdBpIzktH1qIAhqIBZBEnYgFkEOdHIgFkEDdnMgFkEHdiAWQRl0cnMgGWogBWogGEETdiAYQQ10ciAYQQp2cyAYQRF2IBhBD3Ryc2oiFkGZ0MuMfWogEWogBCANIAhzcSAIc2ogBEEGdiAEQRp0ciAEQQt2IARBFXRycyAEQRl2IARBB3Ryc2oiGiALaiIRIAQgDXNxIA1zaiARQQZ2IBFBGnRyIBFBC3YgEUEVdHJzIBFBGXYgEUEHdHJzaiILIAxqIQggBkESdiAGQQ50ciAGQQN2cyAGQQd2IAZBGXRycyAQaiATaiAXQRN2IBdBDXRyIBdBCnZzIBdBEXYgF0EPdHJzaiIZQfDAqoMBaiAEaiAQQRJ2IBBBDnRyIBBBA3ZzIBBBB3YgEEEZdHJzIAFqIAdqIBZBE3YgFkENdHIgFkEKdnMgFkERdiAWQQ90cnNqIgFBheu4oH9qIA1qIAggESAEc3EgBHNqIAhBBnYgCEEadHIgCEELdiAIQRV0cnMgCEEZdiAIQQd0cnNqIhsgDmoiDSAIIBFzcSARc2ogDUEGdiANQRp0ciANQQt2IA1BFXRycyANQRl2IA1BB3Ryc2oiHCACaiEQIAJBAnYgAkEedHIgAkENdiACQRN0cnMgAkEWdiACQQp0cnMgAiAOciAMcSACIA5xcmogGmoiBEECdiAEQR50ciAEQQ12IARBE3RycyAEQRZ2IARBCnRycyAEIAJyIA5xIAQgAnFyaiALaiILQQJ2IAtBHnRyIAtBDXYgC0ETdHJzIAtBFnYgC0EKdHJzIAsgBHIgAnEgCyAEcXJqIBtqIgxBAnYgDEEedHIgDEENdiAMQRN0cnMgDEEWdiAMQQp0cnMgDCALciAEcSAMIAtxcmogHGohAiADQRJ2IANBDnRyIANBA3ZzIANBB3YgA0EZdHJzIA9qIBhqIBlBE3YgGUENdHIgGUEKdnMgGUERdiAZQQ90cnNqIhpBiNjd8QFqIAhqIA9BEnYgD0EOdHIgD0EDdnMgD0EHdiAPQRl0cnMgBmogFGogAUETdiABQQ10ciABQQp2cyABQRF2IAFBD3Ryc2oiD0GWgpPNAWogEWogECANIAhzcSAIc2ogEEEGdiAQQRp0ciAQQQt2IBBBFXRycyAQQRl2IBBBB3Ryc2oiCCAEaiIEIBAgDXNxIA1zaiAEQQZ2IARBGnRyIARBC3YgBEEVdHJzIARBGXYgBEEHdHJzaiIcIAtqIQYgCUESdiAJQQ50ciAJQQN2cyAJQQd2IAlBGXRycyAKaiAWaiAaQRN2IBpBDXRyIBpBCnZzIBpBEXYgGkEPdHJzaiIRQbX5wqUDaiAQaiAKQRJ2IApBDnRyIApBA3ZzIApBB3YgCkEZdHJzIANqIBVqIA9BE3YgD0ENdHIgD0EKdnMgD0ERdiAPQQ90cnNqIhtBzO6hugJqIA1qIAYgBCAQc3EgEHNqIAZBBnYgBkEadHIgBkELdiAGQRV0cnMgBkEZdiAGQQd0cnNqIg0gDGoiDiAGIARzcSAEc2ogDkEGdiAOQRp0ciAOQQt2IA5BFXRycyAOQRl2IA5BB3Ryc2oiJSACaiEKIAJBAnYgAkEedHIgAkENdiACQRN0cnMgAkEWdiACQQp0cnMgAiAMciALcSACIAxxcmogCGoiA0ECdiADQR50ciADQQ12IANBE3RycyADQRZ2IANBCnRycyADIAJyIAxxIAMgAnFyaiAcaiIQQQJ2IBBBHnRyIBBBDXYgEEETdHJzIBBBFnYgEEEKdHJzIBAgA3IgAnEgECADcXJqIA1qIghBAnYgCEEedHIgCEENdiAIQRN0cnMgCEEWdiAIQQp0cnMgCCAQciADcSAIIBBxcmogJWohAiASQRJ2IBJBDnRyIBJBA3ZzIBJBB3YgEkEZdHJzIAVqIAFqIBFBE3YgEUENdHIgEUEKdnMgEUERdiARQQ90cnNqIgtBytTi9gRqIAZqIAVBEnYgBUEOdHIgBUEDdnMgBUEHdiAFQRl0cnMgCWogF2ogG0ETdiAbQQ10ciAbQQp2cyAbQRF2IBtBD3Ryc2oiDEGzmfDIA2ogBGogCiAOIAZzcSAGc2ogCkEGdiAKQRp0ciAKQQt2IApBFXRycyAKQRl2IApBB3Ryc2oiBSADaiIEIAogDnNxIA5zaiAEQQZ2IARBGnRyIARBC3YgBEEVdHJzIARBGXYgBEEHdHJzaiIJIBBqIQYgE0ESdiATQQ50ciATQQN2cyATQQd2IBNBGXRycyAHaiAPaiALQRN2IAtBDXRyIAtBCnZzIAtBEXYgC0EPdHJzaiINQfPfucEGaiAKaiAHQRJ2IAdBDnRyIAdBA3ZzIAdBB3YgB0EZdHJzIBJqIBlqIAxBE3YgDEENdHIgDEEKdnMgDEERdiAMQQ90cnNqIhxBz5Tz3AVqIA5qIAYgBCAKc3EgCnNqIAZBBnYgBkEadHIgBkELdiAGQRV0cnMgBkEZdiAGQQd0cnNqIhIgCGoiByAGIARzcSAEc2ogB0EGdiAHQRp0ciAHQQt2IAdBFXRycyAHQRl2IAdBB3Ryc2oiDiACaiEKIAJBAnYgAkEedHIgAkENdiACQRN0cnMgAkEWdiACQQp0cnMgAiAIciAQcSACIAhxcmogBWoiA0ECdiADQR50ciADQQ12IANBE3RycyADQRZ2IANBCnRycyADIAJyIAhxIAMgAnFyaiAJaiIFQQJ2IAVBHnRyIAVBDXYgBUETdHJzIAVBFnYgBUEKdHJzIAUgA3IgAnEgBSADcXJqIBJqIglBAnYgCUEedHIgCUENdiAJQRN0cnMgCUEWdiAJQQp0cnMgCSAFciADcSAJIAVxcmogDmohAiAYQRJ2IBhBDnRyIBhBA3ZzIBhBB3YgGEEZdHJzIBRqIBtqIA1BE3YgDUENdHIgDUEKdnMgDUERdiANQQ90cnNqIhBB78aVxQdqIAZqIBRBEnYgFEEOdHIgFEEDdnMgFEEHdiAUQRl0cnMgE2ogGmogHEETdiAcQQ10ciAcQQp2cyAcQRF2IBxBD3Ryc2oiFEHuhb6kB2ogBGogCiAHIAZzcSAGc2ogCkEGdiAKQRp0ciAKQQt2IApBFXRycyAKQRl2IApBB3Ryc2oiCCADaiISIAogB3NxIAdzaiASQQZ2IBJBGnRyIBJBC3YgEkEVdHJzIBJBGXYgEkEHdHJzaiIEIAVqIQYgFkESdiAWQQ50ciAWQQN2cyAWQQd2IBZBGXRycyAVaiAMaiAQQRN2IBBBDXRyIBBBCnZzIBBBEXYgEEEPdHJzaiITQYiEnOZ4aiAKaiAVQRJ2IBVBDnRyIBVBA3ZzIBVBB3YgFUEZdHJzIBhqIBFqIBRBE3YgFEENdHIgFEEKdnMgFEERdiAUQQ90cnNqIhVBlPChpnhqIAdqIAYgEiAKc3EgCnNqIAZBBnYgBkEadHIgBkELdiAGQRV0cnMgBkEZdiAGQQd0cnNqIhggCWoiByAGIBJzcSASc2ogB0EGdiAHQRp0ciAHQQt2IAdBFXRycyAHQRl2IAdBB3Ryc2oiECACaiEKIAJBAnYgAkEedHIgAkENdiACQRN0cnMgAkEWdiACQQp0cnMgAiAJciAFcSACIAlxcmogCGoiA0ECdiADQR50ciADQQ12IANBE3RycyADQRZ2IANBCnRycyADIAJyIAlxIAMgAnFyaiAEaiIFQQJ2IAVBHnRyIAVBDXYgBUETdHJzIAVBFnYgBUEKdHJzIAUgA3IgAnEgBSADcXJqIBhqIglBAnYgCUEedHIgCUENdiAJQRN0cnMgCUEWdiAJQQp0cnMgCSAFciADcSAJIAVxcmogEGohAiABQRJ2IAFBDnRyIAFBA3ZzIAFBB3YgAUEZdHJzIBdqIBxqIBNBE3YgE0ENdHIgE0EKdnMgE0ERdiATQQ90cnNqIhNB69nBonpqIAZqIBdBEnYgF0EOdHIgF0EDdnMgF0EHdiAXQRl0cnMgFmogC2ogFUETdiAVQQ10ciAVQQp2cyAVQRF2IBVBD3Ryc2oiFUH6//uFeWogEmogCiAHIAZzcSAGc2ogCkEGdiAKQRp0ciAKQQt2IApBFXRycyAKQRl2IApBB3Ryc2oiEiADaiIGIAogB3NxIAdzaiAGQQZ2IAZBGnRyIAZBC3YgBkEVdHJzIAZBGXYgBkEHdHJzaiIYIAVqIQMgAUH3x+b3e2ogGUESdiAZQQ50ciAZQQN2cyAZQQd2IBlBGXRyc2ogDWogFUETdiAVQQ10ciAVQQp2cyAVQRF2IBVBD3Ryc2ogB2ogAyAGIApzcSAKc2ogA0EGdiADQRp0ciADQQt2IANBFXRycyADQRl2IANBB3Ryc2oiFSAJaiEHIAAgAkECdiACQR50ciACQQ12IAJBE3RycyACQRZ2IAJBCnRycyACIAlyIAVxIAIgCXFyaiASaiIAQQJ2IABBHnRyIABBDXYgAEETdHJzIABBFnYgAEEKdHJzIAAgAnIgCXEgACACcXJqIBhqIgFBAnYgAUEedHIgAUENdiABQRN0cnMgAUEWdiABQQp0cnMgASAAciACcSABIABxcmogFWoiBSABciAAcSAFIAFxciAdaiAFQQJ2IAVBHnRyIAVBDXYgBUETdHJzIAVBFnYgBUEKdHJzaiAZQfLxxbN8aiAPQRJ2IA9BDnRyIA9BA3ZzIA9BB3YgD0EZdHJzaiAUaiATQRN2IBNBDXRyIBNBCnZzIBNBEXYgE0EPdHJzaiAKaiAHIAMgBnNxIAZzaiAHQQZ2IAdBGnRyIAdBC3YgB0EVdHJzIAdBGXYgB0EHdHJzaiIdajYCACAeIAUgHigCAGo2AgAgHyABIB8oAgBqNgIAICAgACAgKAIAajYCACAiIAIgIigCAGogHWo2AgAgJCAHICQoAgBqNgIAICMgAyAjKAIAajYCACAhIAYgISgCAGo2AgAL3hYCHn8JfiMEIQsjBEFAayQEIAsgAigCAK0iIyABKAIArSInfiIhPgIAIAJBBGoiGCgCAK0iJiAnfiIipyIGICFCIIinaiIFICMgAUEEaiIZKAIArSIlfiIhpyIEaiIDIARJICFCIIinaiEHIAsgAzYCBCAFIAZJICJCIIinaiAHaiIFIAJBCGoiESgCAK0iJCAnfiIhpyIEaiIDIARJICFCIIinaiIJIAUgB0lqIgcgAyAmICV+IiGnIgRqIgMgBEkgIUIgiKdqIgZqIgUgAyAjIAFBCGoiGigCAK0iIn4iIaciA2oiBCADSSAhQiCIp2oiA2ohCCALIAQ2AgggBSAGSSAHIAlJaiAIIANJaiAIIAJBDGoiEigCAK0iIyAnfiIhpyIEaiIDIARJICFCIIinaiIIaiIJIAMgJCAlfiIhpyIEaiIDIARJICFCIIinaiIHaiIGIAMgJiAifiIhpyIEaiIDIARJICFCIIinaiIFaiEKIAMgAigCAK0iKSABQQxqIhsoAgCtIiJ+IiGnIgNqIgQgA0kgIUIgiKdqIgMgCmohDCALIAQ2AgwgBiAHSSAJIAhJaiAKIAVJaiAMIANJaiAMIAJBEGoiEygCAK0iKCABKAIArSInfiIhpyIEaiIDIARJICFCIIinaiIMaiIIIAMgIyAZKAIArSImfiIhpyIEaiIDIARJICFCIIinaiIJaiIHIAMgESgCAK0iJSAaKAIArSIjfiIhpyIEaiIDIARJICFCIIinaiIGaiENIAMgGCgCAK0iJCAifiIhpyIEaiIDIARJICFCIIinaiIFIA1qIQ4gAyApIAFBEGoiHCgCAK0iIn4iIaciA2oiBCADSSAhQiCIp2oiAyAOaiEKIAsgBDYCECAHIAlJIAggDElqIA0gBklqIA4gBUlqIAogA0lqIAogAkEUaiIUKAIArSAnfiIhpyIEaiIDIARJICFCIIinaiIKaiIMIAMgKCAmfiIhpyIEaiIDIARJICFCIIinaiIIaiIJIAMgEigCAK0gI34iIaciBGoiAyAESSAhQiCIp2oiB2ohDyADICUgGygCAK0iI34iIaciBGoiAyAESSAhQiCIp2oiBiAPaiEQIAMgJCAifiIhpyIEaiIDIARJICFCIIinaiIFIBBqIQ0gAyACKAIArSABQRRqIh0oAgCtIiJ+IiGnIgNqIgQgA0kgIUIgiKdqIgMgDWohDiALIAQ2AhQgCSAISSAMIApJaiAPIAdJaiAQIAZJaiANIAVJaiAOIANJaiAOIAJBGGoiFSgCAK0gASgCAK1+IiGnIgRqIgMgBEkgIUIgiKdqIg5qIgogAyAUKAIArSAZKAIArX4iIaciBGoiAyAESSAhQiCIp2oiDGoiCCADIBMoAgCtIBooAgCtfiIhpyIEaiIDIARJICFCIIinaiIJaiEWIAMgEigCAK0gI34iIaciBGoiAyAESSAhQiCIp2oiByAWaiEXIAMgESgCAK0gHCgCAK1+IiGnIgRqIgMgBEkgIUIgiKdqIgYgF2ohDyADIBgoAgCtICJ+IiGnIgRqIgMgBEkgIUIgiKdqIgUgD2ohECADIAIoAgCtIAFBGGoiHigCAK1+IiGnIgNqIgQgA0kgIUIgiKdqIgMgEGohDSALIAQ2AhggCCAMSSAKIA5JaiAWIAlJaiAXIAdJaiAPIAZJaiAQIAVJaiANIANJaiANIAJBHGoiHygCAK0gASgCAK1+IiGnIgRqIgMgBEkgIUIgiKdqIg5qIgogAyAVKAIArSAZKAIArX4iIaciBGoiAyAESSAhQiCIp2oiDGoiCCADIBQoAgCtIBooAgCtfiIhpyIEaiIDIARJICFCIIinaiIJaiEWIAMgEygCAK0gGygCAK1+IiGnIgRqIgMgBEkgIUIgiKdqIgcgFmohFyADIBIoAgCtIBwoAgCtfiIhpyIEaiIDIARJICFCIIinaiIGIBdqIQ8gAyARKAIArSAdKAIArX4iIaciBGoiAyAESSAhQiCIp2oiBSAPaiEQIAMgGCgCAK0gHigCAK1+IiGnIgNqIgQgA0kgIUIgiKdqIgMgEGohDSAEIAIoAgCtIAFBHGoiICgCAK1+IiGnIgFqIgIgAUkgIUIgiKdqIgEgDWohBCALIAI2AhwgCCAMSSAKIA5JaiAWIAlJaiAXIAdJaiAPIAZJaiAQIAVJaiANIANJaiAEIAFJaiAEIB8oAgCtIBkoAgCtfiIhpyICaiIBIAJJICFCIIinaiIMaiIIIAEgFSgCAK0gGigCAK0iI34iIaciAmoiASACSSAhQiCIp2oiCWoiByABIBQoAgCtIBsoAgCtIiJ+IiGnIgJqIgEgAkkgIUIgiKdqIgZqIQ8gASATKAIArSAcKAIArSIlfiIhpyICaiIBIAJJICFCIIinaiIFIA9qIRAgASASKAIArSAdKAIArSIkfiIhpyICaiIBIAJJICFCIIinaiIEIBBqIQ0gASARKAIArSAeKAIArSIofiIhpyICaiIBIAJJICFCIIinaiIDIA1qIQ4gASAYKAIArSAgKAIArSInfiIhpyIBaiICIAFJICFCIIinaiIBIA5qIQogCyACNgIgIAcgCUkgCCAMSWogDyAGSWogECAFSWogDSAESWogDiADSWogCiABSWogCiAfKAIArSImICN+IiGnIgJqIgEgAkkgIUIgiKdqIghqIgkgASAVKAIArSIjICJ+IiGnIgJqIgEgAkkgIUIgiKdqIgdqIgYgASAUKAIArSIiICV+IiGnIgJqIgEgAkkgIUIgiKdqIgVqIQ0gASATKAIArSIlICR+IiGnIgJqIgEgAkkgIUIgiKdqIgQgDWohDiABIBIoAgCtIiQgKH4iIaciAmoiASACSSAhQiCIp2oiAyAOaiEKIAEgESgCAK0gJ34iIaciAWoiAiABSSAhQiCIp2oiASAKaiEMIAsgAjYCJCAGIAdJIAkgCElqIA0gBUlqIA4gBElqIAogA0lqIAwgAUlqIAwgJiAbKAIArX4iIaciAmoiASACSSAhQiCIp2oiCWoiByABICMgHCgCAK0iI34iIaciAmoiASACSSAhQiCIp2oiBmoiBSABICIgHSgCAK0iIn4iIaciAmoiASACSSAhQiCIp2oiBGohCiABICUgHigCAK0iJn4iIaciAmoiASACSSAhQiCIp2oiAyAKaiEMIAEgJCAgKAIArSIlfiIhpyIBaiICIAFJICFCIIinaiIBIAxqIQggCyACNgIoIAUgBkkgByAJSWogCiAESWogDCADSWogCCABSWogCCAfKAIArSIkICN+IiGnIgJqIgEgAkkgIUIgiKdqIgdqIgYgASAVKAIArSIjICJ+IiGnIgJqIgEgAkkgIUIgiKdqIgVqIgQgASAUKAIArSIiICZ+IiGnIgJqIgEgAkkgIUIgiKdqIgNqIQggASATKAIArSAlfiIhpyIBaiICIAFJICFCIIinaiIBIAhqIQkgCyACNgIsIAQgBUkgBiAHSWogCCADSWogCSABSWogCSAkIB0oAgCtfiIhpyICaiIBIAJJICFCIIinaiIGaiIFIAEgIyAeKAIArSIjfiIhpyICaiIBIAJJICFCIIinaiIEaiIDIAEgIiAgKAIArSIkfiIhpyIBaiICIAFJICFCIIinaiIBaiEHIAsgAjYCMCADIARJIAUgBklqIAcgAUlqIAcgHygCAK0iIiAjfiIhpyICaiIBIAJJICFCIIinaiIFaiIEIAEgFSgCAK0gJH4iIaciAmoiASACSSAhQiCIp2oiA2ohBiALIAE2AjQgCyAGICIgJH4iIaciAmoiATYCOCALIAQgBUkgIUIgiKdqIAYgA0lqIAEgAklqNgI8IAAgCxAnIAskBAvMBQILfwF+IAAgAS0AHkEIdCABLQAfciABLQAdQRB0ciABLQAcQRh0cjYCACAAQQRqIgYgAS0AGkEIdCABLQAbciABLQAZQRB0ciABLQAYQRh0cjYCACAAQQhqIgcgAS0AFkEIdCABLQAXciABLQAVQRB0ciABLQAUQRh0cjYCACAAQQxqIgggAS0AEkEIdCABLQATciABLQARQRB0ciABLQAQQRh0ciIENgIAIABBEGoiCSABLQAOQQh0IAEtAA9yIAEtAA1BEHRyIAEtAAxBGHRyIgM2AgAgAEEUaiIKIAEtAApBCHQgAS0AC3IgAS0ACUEQdHIgAS0ACEEYdHIiBTYCACAAQRhqIgsgAS0ABkEIdCABLQAHciABLQAFQRB0ciABLQAEQRh0ciINNgIAIABBHGoiDCABLQACQQh0IAEtAANyIAEtAAFBEHRyIAEtAABBGHRyIgE2AgAgAEEAIANBfkkgBUF/RyABIA1xQX9HcnIiAUEBcyADQX9GcSIDQQFzIARB5rm71XtJcSABciIFQQFzIARB5rm71XtLcSADciIEQQFzIAcoAgAiAUG7wKL6eklxIAVyIgNBAXMgAUG7wKL6ektxIARyIgVBAXMgBigCACIEQYy9yf57SXEgA3JBf3MiAyAEQYy9yf57S3EgBXIgAyAAKAIAIgVBwILZgX1LcXIiA2siAEG//ab+AnGtIAWtfCIOPgIAIAYgAEHzwraBBHGtIAStfCAOQiCIfCIOPgIAIAcgAEHEv92FBXGtIAGtfCAOQiCIfCIOPgIAIAggAEGZxsSqBHGtIAgoAgCtfCAOQiCIfCIOPgIAIAkgA60gCSgCAK18IA5CIIh8Ig4+AgAgCiAOQiCIIAooAgCtfCIOPgIAIAsgDkIgiCALKAIArXwiDj4CACAMIA5CIIggDCgCAK18PgIAIAJFBEAPCyACIAM2AgALoRcBJ38jBCEEIwRBwANqJAQgAigCUCEGIAEoAngEQCAAIAY2AnggACACKQIANwIAIAAgAikCCDcCCCAAIAIpAhA3AhAgACACKQIYNwIYIAAgAikCIDcCICAAQShqIgMgAkEoaiIBKQIANwIAIAMgASkCCDcCCCADIAEpAhA3AhAgAyABKQIYNwIYIAMgASkCIDcCICAAQQE2AlAgAEHUAGoiAEIANwIAIABCADcCCCAAQgA3AhAgAEIANwIYIABBADYCICAEJAQPCyAGBEAgAwRAIANBATYCACADQQRqIgJCADcCACACQgA3AgggAkIANwIQIAJCADcCGCACQQA2AiALIAAgASkCADcCACAAIAEpAgg3AgggACABKQIQNwIQIAAgASkCGDcCGCAAIAEpAiA3AiAgACABKQIoNwIoIAAgASkCMDcCMCAAIAEpAjg3AjggAEFAayABQUBrKQIANwIAIAAgASkCSDcCSCAAIAEpAlA3AlAgACABKQJYNwJYIAAgASkCYDcCYCAAIAEpAmg3AmggACABKQJwNwJwIAAgASgCeDYCeCAEJAQPCyAEQfgAaiEMIARB0ABqISQgBEEoaiEKIABB+ABqIilBADYCACAEQZADaiIlIAFB0ABqIiYQByAEQegCaiIIIAEpAgA3AgAgCCABKQIINwIIIAggASkCEDcCECAIIAEpAhg3AhggCCABKQIgNwIgIAhBJGoiHSgCACITQRZ2IgZB0QdsIAgoAgBqIRsgBkEGdCAIQQRqIhcoAgBqIBtBGnZqIhhBGnYgCEEIaiIZKAIAaiIaQRp2IAhBDGoiBSgCAGoiB0EadiAIQRBqIg0oAgBqIhRBGnYgCEEUaiIVKAIAaiIOQRp2IAhBGGoiDygCAGoiEEEadiAIQRxqIhEoAgBqIhJBGnYgCEEgaiIGKAIAaiEcIAggG0H///8fcSIqNgIAIBcgGEH///8fcSILNgIAIBkgGkH///8fcSIeNgIAIAUgB0H///8fcSIfNgIAIA0gFEH///8fcSIgNgIAIBUgDkH///8fcSIhNgIAIA8gEEH///8fcSIiNgIAIBEgEkH///8fcSIjNgIAIAYgHEH///8fcSIbNgIAIB0gHEEadiATQf///wFxaiIcNgIAIARBwAJqIhYgAiAlEAogBEGYAmoiCSABQShqIgYpAgA3AgAgCSAGKQIINwIIIAkgBikCEDcCECAJIAYpAhg3AhggCSAGKQIgNwIgIAlBJGoiJygCACIdQRZ2IgZB0QdsIAkoAgBqIQ0gBkEGdCAJQQRqIhMoAgBqIA1BGnZqIhRBGnYgCUEIaiIXKAIAaiIVQRp2IAlBDGoiGCgCAGoiDkEadiAJQRBqIhkoAgBqIg9BGnYgCUEUaiIaKAIAaiIQQRp2IAlBGGoiBSgCAGoiEUEadiAJQRxqIgcoAgBqIhJBGnYgCUEgaiIGKAIAaiEoIAkgDUH///8fcSINNgIAIBMgFEH///8fcSIUNgIAIBcgFUH///8fcSIVNgIAIBggDkH///8fcSIONgIAIBkgD0H///8fcSIPNgIAIBogEEH///8fcSIQNgIAIAUgEUH///8fcSIRNgIAIAcgEkH///8fcSISNgIAIAYgKEH///8fcSIGNgIAICcgKEEadiAdQf///wFxajYCACAEQfABaiIHIAJBKGogJRAKIAcgByAmEAogBEHIAWoiBUG84f//ACAqayAWKAIAajYCACAFQfz9//8AIAtrIBYoAgRqNgIEIAVB/P///wAgHmsgFigCCGo2AgggBUH8////ACAfayAWKAIMajYCDCAFQfz///8AICBrIBYoAhBqNgIQIAVB/P///wAgIWsgFigCFGo2AhQgBUH8////ACAiayAWKAIYajYCGCAFQfz///8AICNrIBYoAhxqNgIcIAVB/P///wAgG2sgFigCIGo2AiAgBUH8//8HIBxrIBYoAiRqNgIkQfz//wcgJygCAGshAiAEQaABaiILQbzh//8AIA1rIAcoAgBqNgIAIAtB/P3//wAgFGsgBygCBGo2AgQgC0H8////ACAVayAHKAIIajYCCCALQfz///8AIA5rIAcoAgxqNgIMIAtB/P///wAgD2sgBygCEGo2AhAgC0H8////ACAQayAHKAIUajYCFCALQfz///8AIBFrIAcoAhhqNgIYIAtB/P///wAgEmsgBygCHGo2AhwgC0H8////ACAGayAHKAIgajYCICALIAIgBygCJGo2AiQgBRAWRQRAIAwgCxAHICQgBRAHIAogBSAkEAogAwRAIAMgBSkCADcCACADIAUpAgg3AgggAyAFKQIQNwIQIAMgBSkCGDcCGCADIAUpAiA3AiALIABB0ABqICYgBRAKIAQgCCAkEAogACAEKQIANwIAIAAgBCkCCDcCCCAAIAQpAhA3AhAgACAEKQIYNwIYIAAgBCkCIDcCIEH4+///ASAAQQRqIhMoAgBBAXQgCkEEaiIeKAIAamshDkH4////ASAAQQhqIhcoAgBBAXQgCkEIaiIfKAIAamshD0H4////ASAAQQxqIhgoAgBBAXQgCkEMaiIgKAIAamshEEH4////ASAAQRBqIhkoAgBBAXQgCkEQaiIhKAIAamshEUH4////ASAAQRRqIhooAgBBAXQgCkEUaiIiKAIAamshEkH4////ASAAQRhqIgUoAgBBAXQgCkEYaiIjKAIAamshBkH4////ASAAQRxqIgcoAgBBAXQgCkEcaiIbKAIAamshA0H4////ASAAQSBqIg0oAgBBAXQgCkEgaiIcKAIAamshAkH4//8PIABBJGoiFCgCAEEBdCAKQSRqIh0oAgBqayEBIABB+ML//wEgACgCAEEBdCAKKAIAamsgDCgCAGoiFTYCACATIA4gDCgCBGoiDjYCACAXIA8gDCgCCGoiDzYCACAYIBAgDCgCDGoiEDYCACAZIBEgDCgCEGoiETYCACAaIBIgDCgCFGoiEjYCACAFIAYgDCgCGGoiBjYCACAHIAMgDCgCHGoiAzYCACANIAIgDCgCIGoiAjYCACAUIAEgDCgCJGoiATYCACAAQShqIhNBtKT//wIgFWsgBCgCAGo2AgAgAEEsaiIXQfT5//8CIA5rIAQoAgRqNgIAIABBMGoiGEH0////AiAPayAEKAIIajYCACAAQTRqIhlB9P///wIgEGsgBCgCDGo2AgAgAEE4aiIaQfT///8CIBFrIAQoAhBqNgIAIABBPGoiBUH0////AiASayAEKAIUajYCACAAQUBrIgdB9P///wIgBmsgBCgCGGo2AgAgAEHEAGoiDUH0////AiADayAEKAIcajYCACAAQcgAaiIUQfT///8CIAJrIAQoAiBqNgIAIABBzABqIhVB9P//FyABayAEKAIkajYCACATIBMgCxAKIAogCiAJEAogCkG84f//ACAKKAIAayIONgIAIB5B/P3//wAgHigCAGsiDzYCACAfQfz///8AIB8oAgBrIhA2AgAgIEH8////ACAgKAIAayIRNgIAICFB/P///wAgISgCAGsiEjYCACAiQfz///8AICIoAgBrIgY2AgAgI0H8////ACAjKAIAayIDNgIAIBtB/P///wAgGygCAGsiAjYCACAcQfz///8AIBwoAgBrIgE2AgAgHUH8//8HIB0oAgBrIgA2AgAgEyATKAIAIA5qNgIAIBcgFygCACAPajYCACAYIBgoAgAgEGo2AgAgGSAZKAIAIBFqNgIAIBogGigCACASajYCACAFIAUoAgAgBmo2AgAgByAHKAIAIANqNgIAIA0gDSgCACACajYCACAUIBQoAgAgAWo2AgAgFSAVKAIAIABqNgIAIAQkBA8LIAsQFgRAIAAgASADEBkgBCQEDwsgAwRAIANCADcCACADQgA3AgggA0IANwIQIANCADcCGCADQgA3AiALIClBATYCACAEJAQLUQEBfyAAQQBKIwMoAgAiASAAaiIAIAFIcSAAQQBIcgRAEAMaQQwQBEF/DwsjAyAANgIAIAAQAkoEQBABRQRAIwMgATYCAEEMEARBfw8LCyABC+oSAUB/IwQhAiMEQUBrJAQgAiABKQAANwAAIAIgASkACDcACCACIAEpABA3ABAgAiABKQAYNwAYIAJBIGoiA0IANwAAIANCADcACCADQgA3ABAgA0IANwAYIABB5ABqIgFB58yn0AY2AgAgAEGF3Z7bezYCaCAAQfLmu+MDNgJsIABBuuq/qno2AnAgAEH/pLmIBTYCdCAAQYzRldh5NgJ4IABBq7OP/AE2AnwgAEGZmoPfBTYCgAEgAEEANgLEASACIAIsAABB3ABzOgAAIAJBAWoiBCAELAAAQdwAczoAACACQQJqIgUgBSwAAEHcAHM6AAAgAkEDaiIGIAYsAABB3ABzOgAAIAJBBGoiByAHLAAAQdwAczoAACACQQVqIgggCCwAAEHcAHM6AAAgAkEGaiIJIAksAABB3ABzOgAAIAJBB2oiCiAKLAAAQdwAczoAACACQQhqIgsgCywAAEHcAHM6AAAgAkEJaiIMIAwsAABB3ABzOgAAIAJBCmoiDSANLAAAQdwAczoAACACQQtqIg4gDiwAAEHcAHM6AAAgAkEMaiIPIA8sAABB3ABzOgAAIAJBDWoiECAQLAAAQdwAczoAACACQQ5qIhEgESwAAEHcAHM6AAAgAkEPaiISIBIsAABB3ABzOgAAIAJBEGoiEyATLAAAQdwAczoAACACQRFqIhQgFCwAAEHcAHM6AAAgAkESaiIVIBUsAABB3ABzOgAAIAJBE2oiFiAWLAAAQdwAczoAACACQRRqIhcgFywAAEHcAHM6AAAgAkEVaiIYIBgsAABB3ABzOgAAIAJBFmoiGSAZLAAAQdwAczoAACACQRdqIhogGiwAAEHcAHM6AAAgAkEYaiIbIBssAABB3ABzOgAAIAJBGWoiHCAcLAAAQdwAczoAACACQRpqIh0gHSwAAEHcAHM6AAAgAkEbaiIeIB4sAABB3ABzOgAAIAJBHGoiHyAfLAAAQdwAczoAACACQR1qIiAgICwAAEHcAHM6AAAgAkEeaiIhICEsAABB3ABzOgAAIAJBH2oiIiAiLAAAQdwAczoAACADIAMsAABB3ABzOgAAIAJBIWoiIyAjLAAAQdwAczoAACACQSJqIiQgJCwAAEHcAHM6AAAgAkEjaiIlICUsAABB3ABzOgAAIAJBJGoiJiAmLAAAQdwAczoAACACQSVqIicgJywAAEHcAHM6AAAgAkEmaiIoICgsAABB3ABzOgAAIAJBJ2oiKSApLAAAQdwAczoAACACQShqIiogKiwAAEHcAHM6AAAgAkEpaiIrICssAABB3ABzOgAAIAJBKmoiLCAsLAAAQdwAczoAACACQStqIi0gLSwAAEHcAHM6AAAgAkEsaiIuIC4sAABB3ABzOgAAIAJBLWoiLyAvLAAAQdwAczoAACACQS5qIjAgMCwAAEHcAHM6AAAgAkEvaiIxIDEsAABB3ABzOgAAIAJBMGoiMiAyLAAAQdwAczoAACACQTFqIjMgMywAAEHcAHM6AAAgAkEyaiI0IDQsAABB3ABzOgAAIAJBM2oiNSA1LAAAQdwAczoAACACQTRqIjYgNiwAAEHcAHM6AAAgAkE1aiI3IDcsAABB3ABzOgAAIAJBNmoiOCA4LAAAQdwAczoAACACQTdqIjkgOSwAAEHcAHM6AAAgAkE4aiI6IDosAABB3ABzOgAAIAJBOWoiOyA7LAAAQdwAczoAACACQTpqIjwgPCwAAEHcAHM6AAAgAkE7aiI9ID0sAABB3ABzOgAAIAJBPGoiPiA+LAAAQdwAczoAACACQT1qIj8gPywAAEHcAHM6AAAgAkE+aiJAIEAsAABB3ABzOgAAIAJBP2oiQSBBLAAAQdwAczoAACABIAJBwAAQJCAAQefMp9AGNgIAIABBhd2e23s2AgQgAEHy5rvjAzYCCCAAQbrqv6p6NgIMIABB/6S5iAU2AhAgAEGM0ZXYeTYCFCAAQauzj/wBNgIYIABBmZqD3wU2AhwgAEEANgJgIAIgAiwAAEHqAHM6AAAgBCAELAAAQeoAczoAACAFIAUsAABB6gBzOgAAIAYgBiwAAEHqAHM6AAAgByAHLAAAQeoAczoAACAIIAgsAABB6gBzOgAAIAkgCSwAAEHqAHM6AAAgCiAKLAAAQeoAczoAACALIAssAABB6gBzOgAAIAwgDCwAAEHqAHM6AAAgDSANLAAAQeoAczoAACAOIA4sAABB6gBzOgAAIA8gDywAAEHqAHM6AAAgECAQLAAAQeoAczoAACARIBEsAABB6gBzOgAAIBIgEiwAAEHqAHM6AAAgEyATLAAAQeoAczoAACAUIBQsAABB6gBzOgAAIBUgFSwAAEHqAHM6AAAgFiAWLAAAQeoAczoAACAXIBcsAABB6gBzOgAAIBggGCwAAEHqAHM6AAAgGSAZLAAAQeoAczoAACAaIBosAABB6gBzOgAAIBsgGywAAEHqAHM6AAAgHCAcLAAAQeoAczoAACAdIB0sAABB6gBzOgAAIB4gHiwAAEHqAHM6AAAgHyAfLAAAQeoAczoAACAgICAsAABB6gBzOgAAICEgISwAAEHqAHM6AAAgIiAiLAAAQeoAczoAACADIAMsAABB6gBzOgAAICMgIywAAEHqAHM6AAAgJCAkLAAAQeoAczoAACAlICUsAABB6gBzOgAAICYgJiwAAEHqAHM6AAAgJyAnLAAAQeoAczoAACAoICgsAABB6gBzOgAAICkgKSwAAEHqAHM6AAAgKiAqLAAAQeoAczoAACArICssAABB6gBzOgAAICwgLCwAAEHqAHM6AAAgLSAtLAAAQeoAczoAACAuIC4sAABB6gBzOgAAIC8gLywAAEHqAHM6AAAgMCAwLAAAQeoAczoAACAxIDEsAABB6gBzOgAAIDIgMiwAAEHqAHM6AAAgMyAzLAAAQeoAczoAACA0IDQsAABB6gBzOgAAIDUgNSwAAEHqAHM6AAAgNiA2LAAAQeoAczoAACA3IDcsAABB6gBzOgAAIDggOCwAAEHqAHM6AAAgOSA5LAAAQeoAczoAACA6IDosAABB6gBzOgAAIDsgOywAAEHqAHM6AAAgPCA8LAAAQeoAczoAACA9ID0sAABB6gBzOgAAID4gPiwAAEHqAHM6AAAgPyA/LAAAQeoAczoAACBAIEAsAABB6gBzOgAAIEEgQSwAAEHqAHM6AAAgACACQcAAECQgAiQEC68DAQF/IAAgAUEcaiICKAIAQRh2OgAAIAAgAigCAEEQdjoAASAAIAIoAgBBCHY6AAIgACACKAIAOgADIAAgAUEYaiICKAIAQRh2OgAEIAAgAigCAEEQdjoABSAAIAIoAgBBCHY6AAYgACACKAIAOgAHIAAgAUEUaiICKAIAQRh2OgAIIAAgAigCAEEQdjoACSAAIAIoAgBBCHY6AAogACACKAIAOgALIAAgAUEQaiICKAIAQRh2OgAMIAAgAigCAEEQdjoADSAAIAIoAgBBCHY6AA4gACACKAIAOgAPIAAgAUEMaiICKAIAQRh2OgAQIAAgAigCAEEQdjoAESAAIAIoAgBBCHY6ABIgACACKAIAOgATIAAgAUEIaiICKAIAQRh2OgAUIAAgAigCAEEQdjoAFSAAIAIoAgBBCHY6ABYgACACKAIAOgAXIAAgAUEEaiICKAIAQRh2OgAYIAAgAigCAEEQdjoAGSAAIAIoAgBBCHY6ABogACACKAIAOgAbIAAgASgCAEEYdjoAHCAAIAEoAgBBEHY6AB0gACABKAIAQQh2OgAeIAAgASgCADoAHwvMNwEMfyMEIQEjBEEQaiQEIAEhCgJAIABB9QFJBEAgAEELakF4cSECQciNBCgCACIGIABBC0kEf0EQIgIFIAILQQN2IgB2IgFBA3EEQCABQQFxQQFzIABqIgBBA3RB8I0EaiIBQQhqIgUoAgAiAkEIaiIEKAIAIgMgAUYEQEHIjQQgBkEBIAB0QX9zcTYCAAUgAyABNgIMIAUgAzYCAAsgAiAAQQN0IgBBA3I2AgQgAiAAakEEaiIAIAAoAgBBAXI2AgAgCiQEIAQPCyACQdCNBCgCACIISwRAIAEEQCABIAB0QQIgAHQiAEEAIABrcnEiAEEAIABrcUF/aiIBQQx2QRBxIQAgASAAdiIBQQV2QQhxIgMgAHIgASADdiIAQQJ2QQRxIgFyIAAgAXYiAEEBdkECcSIBciAAIAF2IgBBAXZBAXEiAXIgACABdmoiA0EDdEHwjQRqIgBBCGoiBCgCACIBQQhqIgcoAgAiBSAARgRAQciNBCAGQQEgA3RBf3NxIgA2AgAFIAUgADYCDCAEIAU2AgAgBiEACyABIAJBA3I2AgQgASACaiIEIANBA3QiAyACayIFQQFyNgIEIAEgA2ogBTYCACAIBEBB3I0EKAIAIQMgCEEDdiICQQN0QfCNBGohASAAQQEgAnQiAnEEfyABQQhqIgIoAgAFQciNBCAAIAJyNgIAIAFBCGohAiABCyEAIAIgAzYCACAAIAM2AgwgAyAANgIIIAMgATYCDAtB0I0EIAU2AgBB3I0EIAQ2AgAgCiQEIAcPC0HMjQQoAgAiDARAIAxBACAMa3FBf2oiAUEMdkEQcSEAIAEgAHYiAUEFdkEIcSIDIAByIAEgA3YiAEECdkEEcSIBciAAIAF2IgBBAXZBAnEiAXIgACABdiIAQQF2QQFxIgFyIAAgAXZqQQJ0QfiPBGooAgAiAygCBEF4cSACayEBIANBEGogAygCEEVBAnRqKAIAIgAEQANAIAAoAgRBeHEgAmsiBSABSSIEBEAgBSEBCyAEBEAgACEDCyAAQRBqIAAoAhBFQQJ0aigCACIADQAgASEFCwUgASEFCyADIAJqIgsgA0sEQCADKAIYIQkCQCADKAIMIgAgA0YEQCADQRRqIgEoAgAiAEUEQCADQRBqIgEoAgAiAEUEQEEAIQAMAwsLA0AgAEEUaiIEKAIAIgcEQCAHIQAgBCEBDAELIABBEGoiBCgCACIHBEAgByEAIAQhAQwBCwsgAUEANgIABSADKAIIIgEgADYCDCAAIAE2AggLCwJAIAkEQCADIAMoAhwiAUECdEH4jwRqIgQoAgBGBEAgBCAANgIAIABFBEBBzI0EIAxBASABdEF/c3E2AgAMAwsFIAlBEGogCSgCECADR0ECdGogADYCACAARQ0CCyAAIAk2AhggAygCECIBBEAgACABNgIQIAEgADYCGAsgAygCFCIBBEAgACABNgIUIAEgADYCGAsLCyAFQRBJBEAgAyAFIAJqIgBBA3I2AgQgAyAAakEEaiIAIAAoAgBBAXI2AgAFIAMgAkEDcjYCBCALIAVBAXI2AgQgCyAFaiAFNgIAIAgEQEHcjQQoAgAhBCAIQQN2IgFBA3RB8I0EaiEAIAZBASABdCIBcQR/IABBCGoiAigCAAVByI0EIAYgAXI2AgAgAEEIaiECIAALIQEgAiAENgIAIAEgBDYCDCAEIAE2AgggBCAANgIMC0HQjQQgBTYCAEHcjQQgCzYCAAsgCiQEIANBCGoPBSACIQALBSACIQALBSACIQALBSAAQb9/SwRAQX8hAAUgAEELaiIAQXhxIQNBzI0EKAIAIgUEQCAAQQh2IgAEfyADQf///wdLBH9BHwUgA0EOIAAgAEGA/j9qQRB2QQhxIgB0IgFBgOAfakEQdkEEcSICIAByIAEgAnQiAEGAgA9qQRB2QQJxIgFyayAAIAF0QQ92aiIAQQdqdkEBcSAAQQF0cgsFQQALIQhBACADayECAkACQCAIQQJ0QfiPBGooAgAiAARAQRkgCEEBdmshBEEAIQEgAyAIQR9GBH9BAAUgBAt0IQdBACEEA0AgACgCBEF4cSADayIGIAJJBEAgBgRAIAAhASAGIQIFQQAhAiAAIQEMBAsLIAAoAhQiBkUgBiAAQRBqIAdBH3ZBAnRqKAIAIgBGckUEQCAGIQQLIAcgAEUiBkEBc3QhByAGRQ0ACwVBACEBCyAEIAFyBH8gBAUgBUECIAh0IgBBACAAa3JxIgBFBEAgAyEADAcLIABBACAAa3FBf2oiBEEMdkEQcSEAQQAhASAEIAB2IgRBBXZBCHEiByAAciAEIAd2IgBBAnZBBHEiBHIgACAEdiIAQQF2QQJxIgRyIAAgBHYiAEEBdkEBcSIEciAAIAR2akECdEH4jwRqKAIACyIADQAgASEEDAELA0AgACgCBEF4cSADayIEIAJJIgcEQCAEIQILIAcEQCAAIQELIABBEGogACgCEEVBAnRqKAIAIgANACABIQQLCyAEBEAgAkHQjQQoAgAgA2tJBEAgBCADaiIIIARNBEAgCiQEQQAPCyAEKAIYIQkCQCAEKAIMIgAgBEYEQCAEQRRqIgEoAgAiAEUEQCAEQRBqIgEoAgAiAEUEQEEAIQAMAwsLA0AgAEEUaiIHKAIAIgYEQCAGIQAgByEBDAELIABBEGoiBygCACIGBEAgBiEAIAchAQwBCwsgAUEANgIABSAEKAIIIgEgADYCDCAAIAE2AggLCwJAIAkEfyAEIAQoAhwiAUECdEH4jwRqIgcoAgBGBEAgByAANgIAIABFBEBBzI0EIAVBASABdEF/c3EiADYCAAwDCwUgCUEQaiAJKAIQIARHQQJ0aiAANgIAIABFBEAgBSEADAMLCyAAIAk2AhggBCgCECIBBEAgACABNgIQIAEgADYCGAsgBCgCFCIBBH8gACABNgIUIAEgADYCGCAFBSAFCwUgBQshAAsCQCACQRBJBEAgBCACIANqIgBBA3I2AgQgBCAAakEEaiIAIAAoAgBBAXI2AgAFIAQgA0EDcjYCBCAIIAJBAXI2AgQgCCACaiACNgIAIAJBA3YhASACQYACSQRAIAFBA3RB8I0EaiEAQciNBCgCACICQQEgAXQiAXEEfyAAQQhqIgIoAgAFQciNBCACIAFyNgIAIABBCGohAiAACyEBIAIgCDYCACABIAg2AgwgCCABNgIIIAggADYCDAwCCyACQQh2IgEEfyACQf///wdLBH9BHwUgAkEOIAEgAUGA/j9qQRB2QQhxIgF0IgNBgOAfakEQdkEEcSIFIAFyIAMgBXQiAUGAgA9qQRB2QQJxIgNyayABIAN0QQ92aiIBQQdqdkEBcSABQQF0cgsFQQALIgFBAnRB+I8EaiEDIAggATYCHCAIQRBqIgVBADYCBCAFQQA2AgAgAEEBIAF0IgVxRQRAQcyNBCAAIAVyNgIAIAMgCDYCACAIIAM2AhggCCAINgIMIAggCDYCCAwCCyADKAIAIQBBGSABQQF2ayEDIAIgAUEfRgR/QQAFIAMLdCEBAkADQCAAKAIEQXhxIAJGDQEgAUEBdCEDIABBEGogAUEfdkECdGoiASgCACIFBEAgAyEBIAUhAAwBCwsgASAINgIAIAggADYCGCAIIAg2AgwgCCAINgIIDAILIABBCGoiASgCACICIAg2AgwgASAINgIAIAggAjYCCCAIIAA2AgwgCEEANgIYCwsgCiQEIARBCGoPBSADIQALBSADIQALBSADIQALCwsLQdCNBCgCACICIABPBEBB3I0EKAIAIQEgAiAAayIDQQ9LBEBB3I0EIAEgAGoiBTYCAEHQjQQgAzYCACAFIANBAXI2AgQgASACaiADNgIAIAEgAEEDcjYCBAVB0I0EQQA2AgBB3I0EQQA2AgAgASACQQNyNgIEIAEgAmpBBGoiACAAKAIAQQFyNgIACyAKJAQgAUEIag8LQdSNBCgCACICIABLBEBB1I0EIAIgAGsiAjYCAEHgjQRB4I0EKAIAIgEgAGoiAzYCACADIAJBAXI2AgQgASAAQQNyNgIEIAokBCABQQhqDwtBoJEEKAIABH9BqJEEKAIABUGokQRBgCA2AgBBpJEEQYAgNgIAQayRBEF/NgIAQbCRBEF/NgIAQbSRBEEANgIAQYSRBEEANgIAQaCRBCAKQXBxQdiq1aoFczYCAEGAIAsiASAAQS9qIgRqIgdBACABayIGcSIFIABNBEAgCiQEQQAPC0GAkQQoAgAiAQRAQfiQBCgCACIDIAVqIgggA00gCCABS3IEQCAKJARBAA8LCyAAQTBqIQgCQAJAQYSRBCgCAEEEcQRAQQAhAgUCQAJAAkBB4I0EKAIAIgFFDQBBiJEEIQMDQAJAIAMoAgAiCSABTQRAIAkgA0EEaiIJKAIAaiABSw0BCyADKAIIIgMNAQwCCwsgByACayAGcSICQf////8HSQRAIAIQECIBIAMoAgAgCSgCAGpGBEAgAUF/Rw0GBQwDCwVBACECCwwCC0EAEBAiAUF/RgRAQQAhAgVBpJEEKAIAIgJBf2oiAyABakEAIAJrcSABayECIAMgAXEEfyACBUEACyAFaiICQfiQBCgCACIHaiEDIAIgAEsgAkH/////B0lxBEBBgJEEKAIAIgYEQCADIAdNIAMgBktyBEBBACECDAULCyACEBAiAyABRg0FIAMhAQwCBUEAIQILCwwBCyAIIAJLIAJB/////wdJIAFBf0dxcUUEQCABQX9GBEBBACECDAIFDAQLAAsgBCACa0GokQQoAgAiA2pBACADa3EiA0H/////B08NAkEAIAJrIQQgAxAQQX9GBEAgBBAQGkEAIQIFIAMgAmohAgwDCwtBhJEEQYSRBCgCAEEEcjYCAAsgBUH/////B0kEQCAFEBAiAUEAEBAiA0kgAUF/RyADQX9HcXEhBSADIAFrIgMgAEEoaksiBARAIAMhAgsgAUF/RiAEQQFzciAFQQFzckUNAQsMAQtB+JAEQfiQBCgCACACaiIDNgIAIANB/JAEKAIASwRAQfyQBCADNgIACwJAQeCNBCgCACIEBEBBiJEEIQMCQAJAA0AgASADKAIAIgUgA0EEaiIHKAIAIgZqRg0BIAMoAggiAw0ACwwBCyADKAIMQQhxRQRAIAEgBEsgBSAETXEEQCAHIAYgAmo2AgBB1I0EKAIAIAJqIQJBACAEQQhqIgNrQQdxIQFB4I0EIAQgA0EHcQR/IAEFQQAiAQtqIgM2AgBB1I0EIAIgAWsiATYCACADIAFBAXI2AgQgBCACakEoNgIEQeSNBEGwkQQoAgA2AgAMBAsLCyABQdiNBCgCAEkEQEHYjQQgATYCAAsgASACaiEFQYiRBCEDAkACQANAIAMoAgAgBUYNASADKAIIIgMNAEGIkQQhAwsMAQsgAygCDEEIcQRAQYiRBCEDBSADIAE2AgAgA0EEaiIDIAMoAgAgAmo2AgBBACABQQhqIgJrQQdxIQNBACAFQQhqIgdrQQdxIQkgASACQQdxBH8gAwVBAAtqIgggAGohBiAFIAdBB3EEfyAJBUEAC2oiBSAIayAAayEHIAggAEEDcjYCBAJAIAQgBUYEQEHUjQRB1I0EKAIAIAdqIgA2AgBB4I0EIAY2AgAgBiAAQQFyNgIEBUHcjQQoAgAgBUYEQEHQjQRB0I0EKAIAIAdqIgA2AgBB3I0EIAY2AgAgBiAAQQFyNgIEIAYgAGogADYCAAwCCyAFKAIEIgBBA3FBAUYEfyAAQXhxIQkgAEEDdiECAkAgAEGAAkkEQCAFKAIMIgAgBSgCCCIBRgRAQciNBEHIjQQoAgBBASACdEF/c3E2AgAFIAEgADYCDCAAIAE2AggLBSAFKAIYIQQCQCAFKAIMIgAgBUYEQCAFQRBqIgFBBGoiAigCACIABEAgAiEBBSABKAIAIgBFBEBBACEADAMLCwNAIABBFGoiAigCACIDBEAgAyEAIAIhAQwBCyAAQRBqIgIoAgAiAwRAIAMhACACIQEMAQsLIAFBADYCAAUgBSgCCCIBIAA2AgwgACABNgIICwsgBEUNAQJAIAUoAhwiAUECdEH4jwRqIgIoAgAgBUYEQCACIAA2AgAgAA0BQcyNBEHMjQQoAgBBASABdEF/c3E2AgAMAwUgBEEQaiAEKAIQIAVHQQJ0aiAANgIAIABFDQMLCyAAIAQ2AhggBUEQaiICKAIAIgEEQCAAIAE2AhAgASAANgIYCyACKAIEIgFFDQEgACABNgIUIAEgADYCGAsLIAUgCWohACAJIAdqBSAFIQAgBwshBSAAQQRqIgAgACgCAEF+cTYCACAGIAVBAXI2AgQgBiAFaiAFNgIAIAVBA3YhASAFQYACSQRAIAFBA3RB8I0EaiEAQciNBCgCACICQQEgAXQiAXEEfyAAQQhqIgIoAgAFQciNBCACIAFyNgIAIABBCGohAiAACyEBIAIgBjYCACABIAY2AgwgBiABNgIIIAYgADYCDAwCCwJ/IAVBCHYiAAR/QR8gBUH///8HSw0BGiAFQQ4gACAAQYD+P2pBEHZBCHEiAHQiAUGA4B9qQRB2QQRxIgIgAHIgASACdCIAQYCAD2pBEHZBAnEiAXJrIAAgAXRBD3ZqIgBBB2p2QQFxIABBAXRyBUEACwsiAUECdEH4jwRqIQAgBiABNgIcIAZBEGoiAkEANgIEIAJBADYCAEHMjQQoAgAiAkEBIAF0IgNxRQRAQcyNBCACIANyNgIAIAAgBjYCACAGIAA2AhggBiAGNgIMIAYgBjYCCAwCCyAAKAIAIQBBGSABQQF2ayECIAUgAUEfRgR/QQAFIAILdCEBAkADQCAAKAIEQXhxIAVGDQEgAUEBdCECIABBEGogAUEfdkECdGoiASgCACIDBEAgAiEBIAMhAAwBCwsgASAGNgIAIAYgADYCGCAGIAY2AgwgBiAGNgIIDAILIABBCGoiASgCACICIAY2AgwgASAGNgIAIAYgAjYCCCAGIAA2AgwgBkEANgIYCwsgCiQEIAhBCGoPCwsDQAJAIAMoAgAiBSAETQRAIAUgAygCBGoiCCAESw0BCyADKAIIIQMMAQsLQQAgCEFRaiIDQQhqIgVrQQdxIQcgAyAFQQdxBH8gBwVBAAtqIgMgBEEQaiIMSQR/IAQiAwUgAwtBCGohBiADQRhqIQUgAkFYaiEJQQAgAUEIaiILa0EHcSEHQeCNBCABIAtBB3EEfyAHBUEAIgcLaiILNgIAQdSNBCAJIAdrIgc2AgAgCyAHQQFyNgIEIAEgCWpBKDYCBEHkjQRBsJEEKAIANgIAIANBBGoiB0EbNgIAIAZBiJEEKQIANwIAIAZBkJEEKQIANwIIQYiRBCABNgIAQYyRBCACNgIAQZSRBEEANgIAQZCRBCAGNgIAIAUhAQNAIAFBBGoiAkEHNgIAIAFBCGogCEkEQCACIQEMAQsLIAMgBEcEQCAHIAcoAgBBfnE2AgAgBCADIARrIgdBAXI2AgQgAyAHNgIAIAdBA3YhAiAHQYACSQRAIAJBA3RB8I0EaiEBQciNBCgCACIDQQEgAnQiAnEEfyABQQhqIgMoAgAFQciNBCADIAJyNgIAIAFBCGohAyABCyECIAMgBDYCACACIAQ2AgwgBCACNgIIIAQgATYCDAwDCyAHQQh2IgEEfyAHQf///wdLBH9BHwUgB0EOIAEgAUGA/j9qQRB2QQhxIgF0IgJBgOAfakEQdkEEcSIDIAFyIAIgA3QiAUGAgA9qQRB2QQJxIgJyayABIAJ0QQ92aiIBQQdqdkEBcSABQQF0cgsFQQALIgJBAnRB+I8EaiEBIAQgAjYCHCAEQQA2AhQgDEEANgIAQcyNBCgCACIDQQEgAnQiBXFFBEBBzI0EIAMgBXI2AgAgASAENgIAIAQgATYCGCAEIAQ2AgwgBCAENgIIDAMLIAEoAgAhAUEZIAJBAXZrIQMgByACQR9GBH9BAAUgAwt0IQICQANAIAEoAgRBeHEgB0YNASACQQF0IQMgAUEQaiACQR92QQJ0aiICKAIAIgUEQCADIQIgBSEBDAELCyACIAQ2AgAgBCABNgIYIAQgBDYCDCAEIAQ2AggMAwsgAUEIaiICKAIAIgMgBDYCDCACIAQ2AgAgBCADNgIIIAQgATYCDCAEQQA2AhgLBUHYjQQoAgAiA0UgASADSXIEQEHYjQQgATYCAAtBiJEEIAE2AgBBjJEEIAI2AgBBlJEEQQA2AgBB7I0EQaCRBCgCADYCAEHojQRBfzYCAEH8jQRB8I0ENgIAQfiNBEHwjQQ2AgBBhI4EQfiNBDYCAEGAjgRB+I0ENgIAQYyOBEGAjgQ2AgBBiI4EQYCOBDYCAEGUjgRBiI4ENgIAQZCOBEGIjgQ2AgBBnI4EQZCOBDYCAEGYjgRBkI4ENgIAQaSOBEGYjgQ2AgBBoI4EQZiOBDYCAEGsjgRBoI4ENgIAQaiOBEGgjgQ2AgBBtI4EQaiOBDYCAEGwjgRBqI4ENgIAQbyOBEGwjgQ2AgBBuI4EQbCOBDYCAEHEjgRBuI4ENgIAQcCOBEG4jgQ2AgBBzI4EQcCOBDYCAEHIjgRBwI4ENgIAQdSOBEHIjgQ2AgBB0I4EQciOBDYCAEHcjgRB0I4ENgIAQdiOBEHQjgQ2AgBB5I4EQdiOBDYCAEHgjgRB2I4ENgIAQeyOBEHgjgQ2AgBB6I4EQeCOBDYCAEH0jgRB6I4ENgIAQfCOBEHojgQ2AgBB/I4EQfCOBDYCAEH4jgRB8I4ENgIAQYSPBEH4jgQ2AgBBgI8EQfiOBDYCAEGMjwRBgI8ENgIAQYiPBEGAjwQ2AgBBlI8EQYiPBDYCAEGQjwRBiI8ENgIAQZyPBEGQjwQ2AgBBmI8EQZCPBDYCAEGkjwRBmI8ENgIAQaCPBEGYjwQ2AgBBrI8EQaCPBDYCAEGojwRBoI8ENgIAQbSPBEGojwQ2AgBBsI8EQaiPBDYCAEG8jwRBsI8ENgIAQbiPBEGwjwQ2AgBBxI8EQbiPBDYCAEHAjwRBuI8ENgIAQcyPBEHAjwQ2AgBByI8EQcCPBDYCAEHUjwRByI8ENgIAQdCPBEHIjwQ2AgBB3I8EQdCPBDYCAEHYjwRB0I8ENgIAQeSPBEHYjwQ2AgBB4I8EQdiPBDYCAEHsjwRB4I8ENgIAQeiPBEHgjwQ2AgBB9I8EQeiPBDYCAEHwjwRB6I8ENgIAIAJBWGohA0EAIAFBCGoiBWtBB3EhAkHgjQQgASAFQQdxBH8gAgVBACICC2oiBTYCAEHUjQQgAyACayICNgIAIAUgAkEBcjYCBCABIANqQSg2AgRB5I0EQbCRBCgCADYCAAsLQdSNBCgCACIBIABLBEBB1I0EIAEgAGsiAjYCAEHgjQRB4I0EKAIAIgEgAGoiAzYCACADIAJBAXI2AgQgASAAQQNyNgIEIAokBCABQQhqDwsLQbiRBEEMNgIAIAokBEEAC6wEAQl/IAAgAS0AHkEIdCABLQAfciABLQAdQRB0ciABQRxqIgIsAABBA3FBGHRyNgIAIABBBGoiBCABLQAbQQZ0IAItAABBAnZyIAEtABpBDnRyIAFBGWoiAiwAAEEPcUEWdHI2AgAgAEEIaiIFIAEtABhBBHQgAi0AAEEEdnIgAS0AF0EMdHIgAUEWaiICLAAAQT9xQRR0cjYCACAAQQxqIgYgAS0AFUECdCACLQAAQQZ2ciABLQAUQQp0ciABLQATQRJ0cjYCACAAQRBqIgIgAS0AEUEIdCABLQASciABLQAQQRB0ciABQQ9qIgMsAABBA3FBGHRyNgIAIAAgAS0ADkEGdCADLQAAQQJ2ciABLQANQQ50ciABQQxqIgMsAABBD3FBFnRyIgc2AhQgACABLQALQQR0IAMtAABBBHZyIAEtAApBDHRyIAFBCWoiAywAAEE/cUEUdHIiCDYCGCAAIAEtAAhBAnQgAy0AAEEGdnIgAS0AB0EKdHIgAS0ABkESdHIiAzYCHCAAIAEtAARBCHQgAS0ABXIgAS0AA0EQdHIgAUECaiIJLAAAQQNxQRh0ciIKNgIgIAAgAS0AAUEGdCAJLQAAQQJ2ciABLQAAQQ50ciIBNgIkIAFB////AUYEQCADIApxIAhxIAdxIAIoAgBxIAYoAgBxIAUoAgBxQf///x9GBEAgBCgCAEFAayAAKAIAQdEHakEadmpB////H0sEQEEADwsLC0EBC8kNAQp/IwQhBCMEQeADaiQEIARB0ABqIQMgBEEoaiEIIARBuANqIgsgARAHIAsgCyABEAogBEGQA2oiCiALEAcgCiAKIAEQCiAEQegCaiIGIAopAgA3AgAgBiAKKQIINwIIIAYgCikCEDcCECAGIAopAhg3AhggBiAKKQIgNwIgIAYgBhAHIAYgBhAHIAYgBhAHIAYgBiAKEAogBEHAAmoiAiAGKQIANwIAIAIgBikCCDcCCCACIAYpAhA3AhAgAiAGKQIYNwIYIAIgBikCIDcCICACIAIQByACIAIQByACIAIQByACIAIgChAKIARBmAJqIgYgAikCADcCACAGIAIpAgg3AgggBiACKQIQNwIQIAYgAikCGDcCGCAGIAIpAiA3AiAgBiAGEAcgBiAGEAcgBiAGIAsQCiAEQfABaiIHIAYpAgA3AgAgByAGKQIINwIIIAcgBikCEDcCECAHIAYpAhg3AhggByAGKQIgNwIgIAcgBxAHIAcgBxAHIAcgBxAHIAcgBxAHIAcgBxAHIAcgBxAHIAcgBxAHIAcgBxAHIAcgBxAHIAcgBxAHIAcgBxAHIAcgByAGEAogBEHIAWoiBSAHKQIANwIAIAUgBykCCDcCCCAFIAcpAhA3AhAgBSAHKQIYNwIYIAUgBykCIDcCICAFIAUQByAFIAUQByAFIAUQByAFIAUQByAFIAUQByAFIAUQByAFIAUQByAFIAUQByAFIAUQByAFIAUQByAFIAUQByAFIAUQByAFIAUQByAFIAUQByAFIAUQByAFIAUQByAFIAUQByAFIAUQByAFIAUQByAFIAUQByAFIAUQByAFIAUQByAFIAUgBxAKIARBoAFqIgIgBSkCADcCACACIAUpAgg3AgggAiAFKQIQNwIQIAIgBSkCGDcCGCACIAUpAiA3AiAgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACEAcgAiACIAUQCiAEQfgAaiIJIAIpAgA3AgAgCSACKQIINwIIIAkgAikCEDcCECAJIAIpAhg3AhggCSACKQIgNwIgQQAhBgNAIAkgCRAHIAZBAWoiBkHYAEcNAAsgCSAJIAIQCiADIAkpAgA3AgAgAyAJKQIINwIIIAMgCSkCEDcCECADIAkpAhg3AhggAyAJKQIgNwIgIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAyAFEAogCCADKQIANwIAIAggAykCCDcCCCAIIAMpAhA3AhAgCCADKQIYNwIYIAggAykCIDcCICAIIAgQByAIIAgQByAIIAgQByAIIAggChAKIAQgCCkCADcCACAEIAgpAgg3AgggBCAIKQIQNwIQIAQgCCkCGDcCGCAEIAgpAiA3AiAgBCAEEAcgBCAEEAcgBCAEEAcgBCAEEAcgBCAEEAcgBCAEEAcgBCAEEAcgBCAEEAcgBCAEEAcgBCAEEAcgBCAEEAcgBCAEEAcgBCAEEAcgBCAEEAcgBCAEEAcgBCAEEAcgBCAEEAcgBCAEEAcgBCAEEAcgBCAEEAcgBCAEEAcgBCAEEAcgBCAEEAcgBCAEIAcQCiAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQgARAKIAQgBBAHIAQgBBAHIAQgBBAHIAQgBCALEAogBCAEEAcgBCAEEAcgACABIAQQCiAEJAQLsAIBCn8gACgCJCIBQRZ2IgJB0QdsIAAoAgBqIgNB////H3EiBEHQB3MhBSAEQQBHIAVB////H0dxBEBBAA8LIANBGnYgAkEGdHIgACgCBGoiAkEadiAAKAIIaiIDQRp2IAAoAgxqIgZBGnYgACgCEGoiB0EadiAAKAIUaiIIQRp2IAAoAhhqIglBGnYgACgCHGoiCkEadiAAKAIgaiIAQRp2IAFB////AXFqIQEgAkHAAHMgBXEgA3EgBnEgB3EgCHEgCXEgCnEgAHEgAUGAgIAec3FB////H0YEf0EBBSACQf///x9xIARyIANB////H3FyIAZB////H3FyIAdB////H3FyIAhB////H3FyIAlB////H3FyIApB////H3FyIABB////H3FyIAFyRQtBAXEL6AMBA38jBCEDIwRB0ABqJAQgA0EoaiICIAEpAgA3AgAgAiABKQIINwIIIAIgASkCEDcCECACIAEpAhg3AhggAiABKQIgNwIgIAIQGyADIAFBKGoiASkCADcCACADIAEpAgg3AgggAyABKQIQNwIQIAMgASkCGDcCGCADIAEpAiA3AiAgAxAbIAAgAigCBCIBQRp0IAIoAgByNgIAIAAgAigCCCIEQRR0IAFBBnZyNgIEIAAgAigCDCIBQQ50IARBDHZyNgIIIAAgAigCECIEQQh0IAFBEnZyNgIMIAAgAigCFEECdCAEQRh2ciACKAIYIgFBHHRyNgIQIAAgAigCHCIEQRZ0IAFBBHZyNgIUIAAgAigCICIBQRB0IARBCnZyNgIYIAAgAigCJEEKdCABQRB2cjYCHCAAIAMoAgQiAUEadCADKAIAcjYCICAAIAMoAggiAkEUdCABQQZ2cjYCJCAAIAMoAgwiAUEOdCACQQx2cjYCKCAAIAMoAhAiAkEIdCABQRJ2cjYCLCAAIAMoAhRBAnQgAkEYdnIgAygCGCIBQRx0cjYCMCAAIAMoAhwiAkEWdCABQQR2cjYCNCAAIAMoAiAiAUEQdCACQQp2cjYCOCAAIAMoAiRBCnQgAUEQdnI2AjwgAyQEC/ANAQh/IABFBEAPC0HYjQQoAgAhAiAAQXhqIgQgAEF8aigCACIAQXhxIgFqIQYCfyAAQQFxBH8gBCIABSAEKAIAIQMgAEEDcUUEQA8LIAQgA2siACACSQRADwsgAyABaiEBQdyNBCgCACAARgRAIAAgBkEEaiICKAIAIgRBA3FBA0cNAhpB0I0EIAE2AgAgAiAEQX5xNgIAIAAgAUEBcjYCBCAAIAFqIAE2AgAPCyADQQN2IQQgA0GAAkkEQCAAKAIMIgMgACgCCCICRgRAQciNBEHIjQQoAgBBASAEdEF/c3E2AgAgAAwDBSACIAM2AgwgAyACNgIIIAAMAwsACyAAKAIYIQcCQCAAKAIMIgQgAEYEQCAAQRBqIgNBBGoiAigCACIERQRAIAMoAgAiBARAIAMhAgVBACEEDAMLCwNAIARBFGoiBSgCACIDBEAgAyEEIAUhAgwBCyAEQRBqIgUoAgAiAwRAIAMhBCAFIQIMAQsLIAJBADYCAAUgACgCCCICIAQ2AgwgBCACNgIICwsgBwR/IAAoAhwiA0ECdEH4jwRqIgIoAgAgAEYEQCACIAQ2AgAgBEUEQEHMjQRBzI0EKAIAQQEgA3RBf3NxNgIAIAAMBAsFIAdBEGogBygCECAAR0ECdGogBDYCACAAIARFDQMaCyAEIAc2AhggAEEQaiICKAIAIgMEQCAEIAM2AhAgAyAENgIYCyACKAIEIgIEfyAEIAI2AhQgAiAENgIYIAAFIAALBSAACwsLIgQgBk8EQA8LIAZBBGoiAigCACIDQQFxRQRADwsgA0ECcQRAIAIgA0F+cTYCACAAIAFBAXI2AgQgBCABaiABNgIAIAEhBAVB4I0EKAIAIAZGBEBB1I0EQdSNBCgCACABaiIBNgIAQeCNBCAANgIAIAAgAUEBcjYCBCAAQdyNBCgCAEcEQA8LQdyNBEEANgIAQdCNBEEANgIADwtB3I0EKAIAIAZGBEBB0I0EQdCNBCgCACABaiIBNgIAQdyNBCAENgIAIAAgAUEBcjYCBCAEIAFqIAE2AgAPCyADQXhxIAFqIQcgA0EDdiEBAkAgA0GAAkkEQCAGKAIMIgMgBigCCCICRgRAQciNBEHIjQQoAgBBASABdEF/c3E2AgAFIAIgAzYCDCADIAI2AggLBSAGKAIYIQgCQCAGKAIMIgEgBkYEQCAGQRBqIgNBBGoiAigCACIBRQRAIAMoAgAiAQRAIAMhAgVBACEBDAMLCwNAIAFBFGoiBSgCACIDBEAgAyEBIAUhAgwBCyABQRBqIgUoAgAiAwRAIAMhASAFIQIMAQsLIAJBADYCAAUgBigCCCICIAE2AgwgASACNgIICwsgCARAIAYoAhwiA0ECdEH4jwRqIgIoAgAgBkYEQCACIAE2AgAgAUUEQEHMjQRBzI0EKAIAQQEgA3RBf3NxNgIADAQLBSAIQRBqIAgoAhAgBkdBAnRqIAE2AgAgAUUNAwsgASAINgIYIAZBEGoiAigCACIDBEAgASADNgIQIAMgATYCGAsgAigCBCICBEAgASACNgIUIAIgATYCGAsLCwsgACAHQQFyNgIEIAQgB2ogBzYCACAAQdyNBCgCAEYEQEHQjQQgBzYCAA8FIAchBAsLIARBA3YhASAEQYACSQRAIAFBA3RB8I0EaiECQciNBCgCACIEQQEgAXQiAXEEfyACQQhqIgEoAgAFQciNBCAEIAFyNgIAIAJBCGohASACCyEEIAEgADYCACAEIAA2AgwgACAENgIIIAAgAjYCDA8LIARBCHYiAQR/IARB////B0sEf0EfBSAEQQ4gASABQYD+P2pBEHZBCHEiA3QiAkGA4B9qQRB2QQRxIgEgA3IgAiABdCICQYCAD2pBEHZBAnEiAXJrIAIgAXRBD3ZqIgFBB2p2QQFxIAFBAXRyCwVBAAsiBUECdEH4jwRqIQMgACAFNgIcIABBADYCFCAAQQA2AhACQEHMjQQoAgAiAkEBIAV0IgFxBEAgAygCACEBQRkgBUEBdmshAiAEIAVBH0YEf0EABSACC3QhBQJAA0AgASgCBEF4cSAERg0BIAVBAXQhAyABQRBqIAVBH3ZBAnRqIgUoAgAiAgRAIAMhBSACIQEMAQsLIAUgADYCACAAIAE2AhggACAANgIMIAAgADYCCAwCCyABQQhqIgIoAgAiBCAANgIMIAIgADYCACAAIAQ2AgggACABNgIMIABBADYCGAVBzI0EIAIgAXI2AgAgAyAANgIAIAAgAzYCGCAAIAA2AgwgACAANgIICwtB6I0EQeiNBCgCAEF/aiIANgIAIAAEQA8FQZCRBCEACwNAIAAoAgAiAUEIaiEAIAENAAtB6I0EQX82AgALzhIBMH8jBCEEIwRBoAFqJAQgBEH4AGohBSAEQdAAaiEHIARBKGohAyAAIAEoAngiBjYCeCACQQBHIQggBgRAIAhFBEAgBCQEDwsgAkEBNgIAIAJBBGoiAEIANwIAIABCADcCCCAAQgA3AhAgAEIANwIYIABBADYCICAEJAQFIAFBKGohBiAIBEAgAiAGKQIANwIAIAIgBikCCDcCCCACIAYpAhA3AhAgAiAGKQIYNwIYIAIgBikCIDcCICACQSRqIgooAgAiC0EWdiIJQdEHbCACKAIAaiEIIAlBBnQgAkEEaiIMKAIAaiAIQRp2aiINQRp2IAJBCGoiDigCAGoiEkEadiACQQxqIhMoAgBqIhRBGnYgAkEQaiIVKAIAaiIWQRp2IAJBFGoiFygCAGoiGEEadiACQRhqIhkoAgBqIhpBGnYgAkEcaiIPKAIAaiIQQRp2IAJBIGoiESgCAGohCSACIAhBAXRB/v//P3E2AgAgDCANQQF0Qf7//z9xNgIAIA4gEkEBdEH+//8/cTYCACATIBRBAXRB/v//P3E2AgAgFSAWQQF0Qf7//z9xNgIAIBcgGEEBdEH+//8/cTYCACAZIBpBAXRB/v//P3E2AgAgDyAQQQF0Qf7//z9xNgIAIBEgCUEBdEH+//8/cTYCACAKIAlBGnYgC0H///8BcWpBAXQ2AgALIABB0ABqIgIgAUHQAGogBhAKIAIgAigCAEEBdDYCACAAQdQAaiICIAIoAgBBAXQ2AgAgAEHYAGoiAiACKAIAQQF0NgIAIABB3ABqIgIgAigCAEEBdDYCACAAQeAAaiICIAIoAgBBAXQ2AgAgAEHkAGoiAiACKAIAQQF0NgIAIABB6ABqIgIgAigCAEEBdDYCACAAQewAaiICIAIoAgBBAXQ2AgAgAEHwAGoiAiACKAIAQQF0NgIAIABB9ABqIgIgAigCAEEBdDYCACAFIAEQByAFIAUoAgBBA2w2AgAgBUEEaiICIAIoAgBBA2w2AgAgBUEIaiICIAIoAgBBA2w2AgAgBUEMaiICIAIoAgBBA2w2AgAgBUEQaiICIAIoAgBBA2w2AgAgBUEUaiICIAIoAgBBA2w2AgAgBUEYaiICIAIoAgBBA2w2AgAgBUEcaiICIAIoAgBBA2w2AgAgBUEgaiICIAIoAgBBA2w2AgAgBUEkaiICIAIoAgBBA2w2AgAgByAFEAcgAyAGEAcgAyADKAIAQQF0NgIAIANBBGoiAiACKAIAQQF0NgIAIANBCGoiBiAGKAIAQQF0NgIAIANBDGoiCCAIKAIAQQF0NgIAIANBEGoiCSAJKAIAQQF0NgIAIANBFGoiCiAKKAIAQQF0NgIAIANBGGoiCyALKAIAQQF0NgIAIANBHGoiDCAMKAIAQQF0NgIAIANBIGoiDSANKAIAQQF0NgIAIANBJGoiDiAOKAIAQQF0NgIAIAQgAxAHIAQgBCgCAEEBdDYCACAEQQRqIhIgEigCAEEBdDYCACAEQQhqIhMgEygCAEEBdDYCACAEQQxqIhQgFCgCAEEBdDYCACAEQRBqIhUgFSgCAEEBdDYCACAEQRRqIhYgFigCAEEBdDYCACAEQRhqIhcgFygCAEEBdDYCACAEQRxqIhggGCgCAEEBdDYCACAEQSBqIhkgGSgCAEEBdDYCACAEQSRqIhogGigCAEEBdDYCACADIAMgARAKIAAgAykCADcCACAAIAMpAgg3AgggACADKQIQNwIQIAAgAykCGDcCGCAAIAMpAiA3AiBB9vr/vwIgAEEEaiIBKAIAQQJ0ayEPQfb//78CIABBCGoiECgCAEECdGshEUH2//+/AiAAQQxqIhsoAgBBAnRrIRxB9v//vwIgAEEQaiIdKAIAQQJ0ayEeQfb//78CIABBFGoiHygCAEECdGshIEH2//+/AiAAQRhqIiEoAgBBAnRrISJB9v//vwIgAEEcaiIjKAIAQQJ0ayEkQfb//78CIABBIGoiJSgCAEECdGshJkH2//8TIABBJGoiJygCAEECdGshKCAAQdaz/78CIAAoAgBBAnRrIAcoAgAiKWo2AgAgASAPIAdBBGoiDygCACIBajYCACAQIBEgB0EIaiIQKAIAIhFqNgIAIBsgHCAHQQxqIhsoAgAiHGo2AgAgHSAeIAdBEGoiHSgCACIeajYCACAfICAgB0EUaiIfKAIAIiBqNgIAICEgIiAHQRhqIiEoAgAiImo2AgAgIyAkIAdBHGoiIygCACIkajYCACAlICYgB0EgaiIlKAIAIiZqNgIAICcgKCAHQSRqIicoAgAiKGo2AgAgAigCAEEGbCEqIAYoAgBBBmwhKyAIKAIAQQZsISwgCSgCAEEGbCEtIAooAgBBBmwhLiALKAIAQQZsIS8gDCgCAEEGbCEwIA0oAgBBBmwhMSAOKAIAQQZsITIgAyADKAIAQQZsQbzh//8AIClrajYCACACICpB/P3//wAgAWtqNgIAIAYgK0H8////ACARa2o2AgAgCCAsQfz///8AIBxrajYCACAJIC1B/P///wAgHmtqNgIAIAogLkH8////ACAga2o2AgAgCyAvQfz///8AICJrajYCACAMIDBB/P///wAgJGtqNgIAIA0gMUH8////ACAma2o2AgAgDiAyQfz//wcgKGtqNgIAIABBKGoiASAFIAMQCiAHQZrS/78BIAQoAgBrIgI2AgAgD0H6/P+/ASASKAIAayIDNgIAIBBB+v//vwEgEygCAGsiBTYCACAbQfr//78BIBQoAgBrIgc2AgAgHUH6//+/ASAVKAIAayIGNgIAIB9B+v//vwEgFigCAGsiCDYCACAhQfr//78BIBcoAgBrIgk2AgAgI0H6//+/ASAYKAIAayIKNgIAICVB+v//vwEgGSgCAGsiCzYCACAnQfr//wsgGigCAGsiDDYCACABIAEoAgAgAmo2AgAgAEEsaiIBIAEoAgAgA2o2AgAgAEEwaiIBIAEoAgAgBWo2AgAgAEE0aiIBIAEoAgAgB2o2AgAgAEE4aiIBIAEoAgAgBmo2AgAgAEE8aiIBIAEoAgAgCGo2AgAgAEFAayIBIAEoAgAgCWo2AgAgAEHEAGoiASABKAIAIApqNgIAIABByABqIgEgASgCACALajYCACAAQcwAaiIAIAAoAgAgDGo2AgAgBCQECwutLwGfAX8jBCEMIwRBsCZqJAQgDEGAJmohDSAMQdglaiEQIAxB2CRqIQYgDEGEJGohESAMQbAjaiELIAxByB9qIRwgDEHIF2ohSSAMQegPaiEFIAxBqA1qIQogDEGICGohDgJ/AkAgAygCBCADKAIAciADKAIIciADKAIMciADKAIQciADKAIUciADKAIYciADKAIcckUNACACKAJ4DQAgDEGECGoiCUEANgIAIAxBgAhqIAwgA0EFECYiAzYCACAGIAIgCSgCACITQfwAbGoiD0EAEBkgCyAGKQIANwIAIAsgBikCCDcCCCALIAYpAhA3AhAgCyAGKQIYNwIYIAsgBikCIDcCICALQShqIgkgBkEoaiIIKQIANwIAIAkgCCkCCDcCCCAJIAgpAhA3AhAgCSAIKQIYNwIYIAkgCCkCIDcCICALQQA2AlAgDSAGQdAAaiIJEAcgECANIAkQCiARIA8gDRAKIBFBKGoiCCACIBNB/ABsakEoaiAQEAogESACIBNB/ABsaigCeDYCUCAFIBEpAgA3AgAgBSARKQIINwIIIAUgESkCEDcCECAFIBEpAhg3AhggBSARKQIgNwIgIAVBKGoiDyAIKQIANwIAIA8gCCkCCDcCCCAPIAgpAhA3AhAgDyAIKQIYNwIYIA8gCCkCIDcCICAFQdAAaiIIIAIgE0H8AGxqQdAAaiICKQIANwIAIAggAikCCDcCCCAIIAIpAhA3AhAgCCACKQIYNwIYIAggAikCIDcCICAFQfgAaiITQQA2AgAgCiAJKQIANwIAIAogCSkCCDcCCCAKIAkpAhA3AhAgCiAJKQIYNwIYIAogCSkCIDcCICAFQfwAaiICIAUgCyAKQShqIhQQDyAFQfgBaiIIIAIgCyAKQdAAaiIbEA8gBUH0AmoiAiAIIAsgCkH4AGoiBxAPIAVB8ANqIgggAiALIApBoAFqIh4QDyAFQewEaiICIAggCyAKQcgBaiIfEA8gBUHoBWoiICACIAsgCkHwAWoiIRAPIAVB5AZqIgggICALIApBmAJqIgoQDyAFQbQHaiICIAIgCRAKIA5BzARqIgkgCCkCADcCACAJIAgpAgg3AgggCSAIKQIQNwIQIAkgCCkCGDcCGCAJIAgpAiA3AiAgDkH0BGoiCSAFQYwHaiIIKQIANwIAIAkgCCkCCDcCCCAJIAgpAhA3AhAgCSAIKQIYNwIYIAkgCCkCIDcCICAcIAIpAgA3AgAgHCACKQIINwIIIBwgAikCEDcCECAcIAIpAhg3AhggHCACKQIgNwIgIA5BADYCnAUgBiAKKQIANwIAIAYgCikCCDcCCCAGIAopAhA3AhAgBiAKKQIYNwIYIAYgCikCIDcCICANIAYQByAQIA0gBhAKIA5B+ANqIAVB6AVqIA0QCiAOQaAEaiAFQZAGaiAQEAogDiAFKALgBjYCyAQgBiAGICEQCiANIAYQByAQIA0gBhAKIA5BpANqIAVB7ARqIA0QCiAOQcwDaiAFQZQFaiAQEAogDiAFKALkBTYC9AMgBiAGIB8QCiANIAYQByAQIA0gBhAKIA5B0AJqIAVB8ANqIA0QCiAOQfgCaiAFQZgEaiAQEAogDiAFKALoBDYCoAMgBiAGIB4QCiANIAYQByAQIA0gBhAKIA5B/AFqIAVB9AJqIA0QCiAOQaQCaiAFQZwDaiAQEAogDiAFKALsAzYCzAIgBiAGIAcQCiANIAYQByAQIA0gBhAKIA5BqAFqIAVB+AFqIA0QCiAOQdABaiAFQaACaiAQEAogDiAFKALwAjYC+AEgBiAGIBsQCiANIAYQByAQIA0gBhAKIA5B1ABqIAVB/ABqIA0QCiAOQfwAaiAFQaQBaiAQEAogDiAFKAL0ATYCpAEgBiAGIBQQCiANIAYQByAQIA0gBhAKIA4gBSANEAogDkEoaiAPIBAQCiAOIBMoAgA2AlBBASFKIANBAEoEfyADBUEACwwBCyAcQQE2AgAgHEEEaiICQgA3AgAgAkIANwIIIAJCADcCECACQgA3AhggAkEANgIgQQEhS0EACyECIAQEQCBJIARBEBAmIgMhTCADIAJKBEAgAyECCwsgAUH4AGoiHkEBNgIAIAFCADcCACABQgA3AgggAUIANwIQIAFCADcCGCABQgA3AiAgAUIANwIoIAFCADcCMCABQgA3AjggAUFAa0IANwIAIAFCADcCSCABQgA3AlAgAUIANwJYIAFCADcCYCABQgA3AmggAUIANwJwIAJBAEwEQCAMJAQPCyAMQeghaiEyIAxB8CBqITMgDEHIIGohTSAMQfAfaiIFQdAAaiFqIAFB0ABqIR8gBkEEaiFOIAZBCGohTyAGQQxqIVAgBkEQaiFRIAZBFGohUiAGQRhqIVMgBkEcaiFUIAZBIGohVSAGQSRqIVYgAUEoaiEUIAtBBGohVyALQQhqIVggC0EMaiFZIAtBEGohWiALQRRqIVsgC0EYaiFcIAtBHGohXSALQSBqIV4gC0EkaiFfIAVBKGohYCAMQeAiaiIIQQRqIWsgCEEIaiFsIAhBDGohbSAIQRBqIW4gCEEUaiFvIAhBGGohcCAIQRxqIXEgCEEgaiFyIAhBJGohcyARQQRqIXQgEUEIaiF1IBFBDGohdiARQRBqIXcgEUEUaiF4IBFBGGoheSARQRxqIXogEUEgaiF7IBFBJGohfCAMQbgiaiIPQQRqIX0gD0EIaiF+IA9BDGohfyAPQRBqIYABIA9BFGohgQEgD0EYaiGCASAPQRxqIYMBIA9BIGohhAEgD0EkaiGFASAMQYgjaiITQQRqIYYBIBNBCGohhwEgE0EMaiGIASATQRBqIYkBIBNBFGohigEgE0EYaiGLASATQRxqIYwBIBNBIGohjQEgE0EkaiGOASABQQRqIWEgAUEIaiFiIAFBDGohYyABQRBqIWQgAUEUaiFlIAFBGGohZiABQRxqIWcgAUEgaiFoIAFBJGohaSAMQcAhaiIJQQRqITQgCUEIaiE1IAlBDGohNiAJQRBqITcgCUEUaiE4IAlBGGohOSAJQRxqITogCUEgaiE7IAlBJGohPCAMQZAiaiIbQQRqIY8BIBtBCGohkAEgG0EMaiGRASAbQRBqIZIBIBtBFGohkwEgG0EYaiGUASAbQRxqIZUBIBtBIGohlgEgG0EkaiGXASABQSxqIT0gAUEwaiE+IAFBNGohPyABQThqIUAgAUE8aiFBIAFBQGshQiABQcQAaiFDIAFByABqIUQgAUHMAGohRSAMQZghaiIKQQRqIZgBIApBCGohmQEgCkEMaiGaASAKQRBqIZsBIApBFGohnAEgCkEYaiGdASAKQRxqIZ4BIApBIGohnwEgCkEkaiGgASABQdAAaiGhASABQdQAaiEgIAVBKGohISAFQSxqISkgBUEwaiEqIAVBNGohKyAFQThqISwgBUE8aiEtIAVBQGshLiAFQcQAaiEvIAVByABqITAgBUHMAGohMSAMQYAIaigCACGiAQNAIAJBf2ohBCABIAFBABAZIEsgAiCiAUpyRQRAQQAhAwNAIAwgA0GICGxqIARBAnRqKAIAIgcEQCAOIANBA3RB1ABsaiESIAdBAEoEQCAFIBIgB0F/akECbUHUAGxqIgcpAgA3AgAgBSAHKQIINwIIIAUgBykCEDcCECAFIAcpAhg3AhggBSAHKQIgNwIgIAUgBykCKDcCKCAFIAcpAjA3AjAgBSAHKQI4NwI4IAVBQGsgB0FAaykCADcCACAFIAcpAkg3AkggBSAHKAJQNgJQBSAFIBIgB0F/c0ECbUHUAGxqIgcpAgA3AgAgBSAHKQIINwIIIAUgBykCEDcCECAFIAcpAhg3AhggBSAHKQIgNwIgIAUgBykCKDcCKCAFIAcpAjA3AjAgBSAHKQI4NwI4IAVBQGsgB0FAaykCADcCACAFIAcpAkg3AkggBSAHKAJQNgJQIDEoAgAiFUEWdiISQdEHbCAhKAIAaiEHIBJBBnQgKSgCAGogB0EadmoiFkEadiAqKAIAaiIXQRp2ICsoAgBqIhhBGnYgLCgCAGoiGUEadiAtKAIAaiIaQRp2IC4oAgBqIh1BGnYgLygCAGoiIkEadiAwKAIAaiESICFBvOH//wAgB0H///8fcWs2AgAgKUH8/f//ACAWQf///x9xazYCACAqQfz///8AIBdB////H3FrNgIAICtB/P///wAgGEH///8fcWs2AgAgLEH8////ACAZQf///x9xazYCACAtQfz///8AIBpB////H3FrNgIAIC5B/P///wAgHUH///8fcWs2AgAgL0H8////ACAiQf///x9xazYCACAwQfz///8AIBJB////H3FrNgIAIDFB/P//ByAVQf///wFxayASQRp2azYCAAsgASABIAVBABAPCyADQQFqIgMgSkcNAAsLIAIgTEwEQCBJIARBAnRqKAIAIgMEQCAAKAIAIQcgA0EASgRAIAUgByADQX9qQQJtQQZ0ahArBSAFIAcgA0F/c0ECbUEGdGoQKyAxKAIAIhJBFnYiB0HRB2wgISgCAGohAyAHQQZ0ICkoAgBqIANBGnZqIhVBGnYgKigCAGoiFkEadiArKAIAaiIXQRp2ICwoAgBqIhhBGnYgLSgCAGoiGUEadiAuKAIAaiIaQRp2IC8oAgBqIh1BGnYgMCgCAGohByAhQbzh//8AIANB////H3FrNgIAIClB/P3//wAgFUH///8fcWs2AgAgKkH8////ACAWQf///x9xazYCACArQfz///8AIBdB////H3FrNgIAICxB/P///wAgGEH///8fcWs2AgAgLUH8////ACAZQf///x9xazYCACAuQfz///8AIBpB////H3FrNgIAIC9B/P///wAgHUH///8fcWs2AgAgMEH8////ACAHQf///x9xazYCACAxQfz//wcgEkH///8BcWsgB0Eadms2AgALAkAgaigCAEUEQCAeKAIABEAgHkEANgIAIDMgHBAHIE0gMyAcEAogASAFIDMQCiAUIGAgTRAKIKEBQQE2AgAgIEIANwIAICBCADcCCCAgQgA3AhAgIEIANwIYICBBADYCIAwCCyAeQQA2AgAgDSAfIBwQCiAQIA0QByAGIAEpAgA3AgAgBiABKQIINwIIIAYgASkCEDcCECAGIAEpAhg3AhggBiABKQIgNwIgIFYoAgAiEkEWdiIHQdEHbCAGKAIAaiEDIAdBBnQgTigCAGogA0EadmoiFUEadiBPKAIAaiIWQRp2IFAoAgBqIhdBGnYgUSgCAGoiGEEadiBSKAIAaiIZQRp2IFMoAgBqIhpBGnYgVCgCAGoiHUEadiBVKAIAaiEHIAYgA0H///8fcSIiNgIAIE4gFUH///8fcSIVNgIAIE8gFkH///8fcSIWNgIAIFAgF0H///8fcSIXNgIAIFEgGEH///8fcSIYNgIAIFIgGUH///8fcSIZNgIAIFMgGkH///8fcSIaNgIAIFQgHUH///8fcSIdNgIAIFUgB0H///8fcSJGNgIAIFYgB0EadiASQf///wFxaiISNgIAIBEgBSAQEAogCyAUKQIANwIAIAsgFCkCCDcCCCALIBQpAhA3AhAgCyAUKQIYNwIYIAsgFCkCIDcCICBfKAIAIkdBFnYiB0HRB2wgCygCAGohAyAHQQZ0IFcoAgBqIANBGnZqIiNBGnYgWCgCAGoiJEEadiBZKAIAaiIlQRp2IFooAgBqIiZBGnYgWygCAGoiJ0EadiBcKAIAaiIoQRp2IF0oAgBqIkhBGnYgXigCAGohByALIANB////H3EiAzYCACBXICNB////H3EiIzYCACBYICRB////H3EiJDYCACBZICVB////H3EiJTYCACBaICZB////H3EiJjYCACBbICdB////H3EiJzYCACBcIChB////H3EiKDYCACBdIEhB////H3EiSDYCACBeIAdB////H3EiowE2AgAgXyAHQRp2IEdB////AXFqIgc2AgAgEyBgIBAQCiATIBMgDRAKIAhBvOH//wAgImsgESgCAGo2AgAga0H8/f//ACAVayB0KAIAajYCACBsQfz///8AIBZrIHUoAgBqNgIAIG1B/P///wAgF2sgdigCAGo2AgAgbkH8////ACAYayB3KAIAajYCACBvQfz///8AIBlrIHgoAgBqNgIAIHBB/P///wAgGmsgeSgCAGo2AgAgcUH8////ACAdayB6KAIAajYCACByQfz///8AIEZrIHsoAgBqNgIAIHNB/P//ByASayB8KAIAajYCACAPQbzh//8AIANrIBMoAgBqNgIAIH1B/P3//wAgI2sghgEoAgBqNgIAIH5B/P///wAgJGsghwEoAgBqNgIAIH9B/P///wAgJWsgiAEoAgBqNgIAIIABQfz///8AICZrIIkBKAIAajYCACCBAUH8////ACAnayCKASgCAGo2AgAgggFB/P///wAgKGsgiwEoAgBqNgIAIIMBQfz///8AIEhrIIwBKAIAajYCACCEAUH8////ACCjAWsgjQEoAgBqNgIAIIUBQfz//wcgB2sgjgEoAgBqNgIAIAgQFkUEQCAbIA8QByAyIAgQByAJIAggMhAKIB8gHyAIEAogCiAGIDIQCiABIAopAgA3AgAgASAKKQIINwIIIAEgCikCEDcCECABIAopAhg3AhggASAKKQIgNwIgIDQoAgAhAyA1KAIAIQcgNigCACESIDcoAgAhFSA4KAIAIRYgOSgCACEXIDooAgAhGCA7KAIAIRkgPCgCACEaIGEoAgBBfmwhHSBiKAIAQX5sISIgYygCAEF+bCFGIGQoAgBBfmwhRyBlKAIAQX5sISMgZigCAEF+bCEkIGcoAgBBfmwhJSBoKAIAQX5sISYgaSgCAEF+bCEnIAEgASgCAEF+bEH4wv//AWogCSgCAGsgGygCAGoiKDYCACBhIB1B+Pv//wFqIANrII8BKAIAaiIDNgIAIGIgIkH4////AWogB2sgkAEoAgBqIgc2AgAgYyBGQfj///8BaiASayCRASgCAGoiEjYCACBkIEdB+P///wFqIBVrIJIBKAIAaiIVNgIAIGUgI0H4////AWogFmsgkwEoAgBqIhY2AgAgZiAkQfj///8BaiAXayCUASgCAGoiFzYCACBnICVB+P///wFqIBhrIJUBKAIAaiIYNgIAIGggJkH4////AWogGWsglgEoAgBqIhk2AgAgaSAnQfj//w9qIBprIJcBKAIAaiIaNgIAIBRBtKT//wIgKGsgCigCAGo2AgAgPUH0+f//AiADayCYASgCAGo2AgAgPkH0////AiAHayCZASgCAGo2AgAgP0H0////AiASayCaASgCAGo2AgAgQEH0////AiAVayCbASgCAGo2AgAgQUH0////AiAWayCcASgCAGo2AgAgQkH0////AiAXayCdASgCAGo2AgAgQ0H0////AiAYayCeASgCAGo2AgAgREH0////AiAZayCfASgCAGo2AgAgRUH0//8XIBprIKABKAIAajYCACAUIBQgDxAKIAkgCSALEAogCUG84f//ACAJKAIAayIDNgIAIDRB/P3//wAgNCgCAGsiBzYCACA1Qfz///8AIDUoAgBrIhI2AgAgNkH8////ACA2KAIAayIVNgIAIDdB/P///wAgNygCAGsiFjYCACA4Qfz///8AIDgoAgBrIhc2AgAgOUH8////ACA5KAIAayIYNgIAIDpB/P///wAgOigCAGsiGTYCACA7Qfz///8AIDsoAgBrIho2AgAgPEH8//8HIDwoAgBrIh02AgAgFCAUKAIAIANqNgIAID0gPSgCACAHajYCACA+ID4oAgAgEmo2AgAgPyA/KAIAIBVqNgIAIEAgQCgCACAWajYCACBBIEEoAgAgF2o2AgAgQiBCKAIAIBhqNgIAIEMgQygCACAZajYCACBEIEQoAgAgGmo2AgAgRSBFKAIAIB1qNgIADAILIA8QFgRAIAEgAUEAEBkFIB5BATYCAAsLCwsLIAJBAUoEQCAEIQIMAQsLIB4oAgAEQCAMJAQPCyAfIB8gHBAKIAwkBAuOBAEUfyAAQSRqIgwoAgAiBUEWdiIBQdEHbCAAKAIAaiECQQAgAUEGdCAAQQRqIg0oAgBqIAJBGnZqIgNBGnYgAEEIaiIOKAIAaiIBQRp2IABBDGoiDygCAGoiBkEadiAAQRBqIhAoAgBqIgdBGnYgAEEUaiIRKAIAaiIIQRp2IABBGGoiEigCAGoiBEEadiAAQRxqIhMoAgBqIglBGnYgAEEgaiIUKAIAaiILQRp2IAVB////AXFqIgVBFnYgA0H///8fcSIDQUBrIAJB////H3EiAkHRB2pBGnZqQf///x9LIAYgAXEgB3EgCHEgBEH///8fcSIEcSAJcSALcUH///8fRiAFQf///wFGcXFyIgprQdEHcSACaiECIApBBnQgA2ogAkEadmoiA0EadiABQf///x9xaiIKQRp2IAZB////H3FqIgZBGnYgB0H///8fcWoiB0EadiAIQf///x9xaiIIQRp2IARqIgRBGnYgCUH///8fcWoiCUEadiALQf///x9xaiEBIAAgAkH///8fcTYCACANIANB////H3E2AgAgDiAKQf///x9xNgIAIA8gBkH///8fcTYCACAQIAdB////H3E2AgAgESAIQf///x9xNgIAIBIgBEH///8fcTYCACATIAlB////H3E2AgAgFCABQf///x9xNgIAIAwgAUEadiAFakH///8BcTYCAAvmBAIKfwN+IAAgAigCAK0gASgCAK18Ig0+AgAgAEEEaiIFIA1CIIggASgCBK18IAIoAgStfCINPgIAIABBCGoiBiACKAIIrSABKAIIrXwgDUIgiHwiDaciAzYCACAAQQxqIgcgAigCDK0gASgCDK18IA1CIIh8Ig2nIgQ2AgAgAEEQaiIIIAIoAhCtIAEoAhCtfCANQiCIfCINpyIJNgIAIABBFGoiCiACKAIUrSABKAIUrXwgDUIgiHwiDT4CACAAQRhqIgsgAigCGK0gASgCGK18IA1CIIh8Ig4+AgAgAEEcaiIMIAIoAhytIAEoAhytfCAOQiCIfCIPPgIAIAAgD0IgiCAJQX5JIA0gDiAPg4OnQX9HciIBQQFzIAlBf0ZxIgJBAXMgBEHmubvVe0lxIAFyIgFBAXMgBEHmubvVe0txIAJyIgJBAXMgA0G7wKL6eklxIAFyIgRBAXMgA0G7wKL6ektxIAJyIgJBAXMgBSgCACIBQYy9yf57SXEgBHJBf3MiAyABQYy9yf57S3EgAnIgAyAAKAIAIgJBwILZgX1LcXKtfCINpyIAQb/9pv4CbK0gAq18Ig4+AgAgBSAAQfPCtoEEbK0gAa18IA5CIIh8Ig4+AgAgBiAAQcS/3YUFbK0gBigCAK18IA5CIIh8Ig4+AgAgByAAQZnGxKoEbK0gBygCAK18IA5CIIh8Ig4+AgAgCCANQv////8PgyAIKAIArXwgDkIgiHwiDT4CACAKIA1CIIggCigCAK18Ig0+AgAgCyANQiCIIAsoAgCtfCINPgIAIAwgDUIgiCAMKAIArXw+AgALyTUBMH8jBCECIwRB8AFqJAQgAkHoAWohCSACQcgBaiEIIAIhByAAQUBrIjEoAgAEfyAHIABBIGoiGRARIAdB4ABqIhAoAgAiAkE/cSEFIBAgAkEgajYCACAHQSBqIQoCQAJAIAVBIGpBP0sEQCAKIAVqIABBwAAgBWsiAhALGiAAIAJqIQQgByAKEAxBICACayIDQT9LBH8gAEHkAGogBUGgf2oiDUFAcSIOQRxyIAVraiEFIAMhAiAEIQMDQCAKIAMpAAA3AAAgCiADKQAINwAIIAogAykAEDcAECAKIAMpABg3ABggCiADKQAgNwAgIAogAykAKDcAKCAKIAMpADA3ADAgCiADKQA4NwA4IANBQGshAyAHIAoQDCACQUBqIgJBP0sNAAsgDSAOayEDIAUFIAQLIQIgAwRAQQAhBAwCCwUgACECIAUhBEEgIQMMAQsMAQsgCiAEaiACIAMQCxoLIBAoAgAiAkE/cSEDIBAgAkEBajYCACAHQSBqIQIgA0E/RgRAIAJBADoAPyAHIAIQDAUgAiADakEAOgAACyAJIBAoAgAiAkEddkEYdDYCACAJIAJBC3RBgID8B3EgAkEbdHIgAkEFdkGA/gNxciACQRV2Qf8BcXI2AgQgECACQTcgAmtBP3FBAWoiA2o2AgAgB0EgaiEFAkACQCACQT9xIgIgA2pBP0sEQCAFIAJqQYaNBEHAACACayIEEAsaIARBho0EaiECIAcgBRAMIAMgBGsiA0E/SwRAA0AgBSACKQAANwAAIAUgAikACDcACCAFIAIpABA3ABAgBSACKQAYNwAYIAUgAikAIDcAICAFIAIpACg3ACggBSACKQAwNwAwIAUgAikAODcAOCACQUBrIQIgByAFEAwgA0FAaiIDQT9LDQALCyADBEAgAiEEQQAhAgwCCwVBho0EIQQMAQsMAQsgBSACaiAEIAMQCxoLIBAoAgAiAkE/cSEEIBAgAkEIajYCACAHQSBqIQUCQAJAIARBCGpBP0sEQCAFIARqIAlBwAAgBGsiAxALGiAJIANqIQIgByAFEAxBCCADayIDQT9LBEADQCAFIAIpAAA3AAAgBSACKQAINwAIIAUgAikAEDcAECAFIAIpABg3ABggBSACKQAgNwAgIAUgAikAKDcAKCAFIAIpADA3ADAgBSACKQA4NwA4IAJBQGshAiAHIAUQDCADQUBqIgNBP0sNAAsLIAMEQEEAIQQMAgsFIAkhAkEIIQMMAQsMAQsgBSAEaiACIAMQCxoLIAcoAgAQCSESIAdBADYCACAHQQRqIh4oAgAQCSEKIB5BADYCACAHQQhqIh8oAgAQCSENIB9BADYCACAHQQxqIiAoAgAQCSEOICBBADYCACAHQRBqIiEoAgAQCSEFICFBADYCACAHQRRqIiMoAgAQCSEEICNBADYCACAHQRhqIhMoAgAQCSEDIBNBADYCACAHQRxqIh0oAgAQCSECIB1BADYCACAIIBI2AgAgCEEEaiIrIAo2AgAgCEEIaiIsIA02AgAgCEEMaiItIA42AgAgCEEQaiIuIAU2AgAgCEEUaiIvIAQ2AgAgCEEYaiIwIAM2AgAgCEEcaiIqIAI2AgAgB0HkAGohDyAHQcQBaiIRKAIAIgJBP3EhBCARIAJBIGo2AgAgB0GEAWohBgJAAkAgBEEgakE/SwRAIAYgBGogCEHAACAEayIFEAsaIAggBWohAyAPIAYQDEEgIAVrIgJBP0sEfyAEQaB/aiIEQQZ2QQF0IQ4gBUFAaiEFA0AgBiADKQAANwAAIAYgAykACDcACCAGIAMpABA3ABAgBiADKQAYNwAYIAYgAykAIDcAICAGIAMpACg3ACggBiADKQAwNwAwIAYgAykAODcAOCADQUBrIQMgDyAGEAwgAkFAaiICQT9LDQALIARBP3EhBCAIIA5BBGpBBXRqIAVqBSACIQQgAwshAiAEBEBBACEDDAILBSAIIQIgBCEDQSAhBAwBCwwBCyAGIANqIAIgBBALGgsgCSARKAIAIgJBHXZBGHQ2AgAgCSACQQt0QYCA/AdxIAJBG3RyIAJBBXZBgP4DcXIgAkEVdkH/AXFyNgIEIBEgAkE3IAJrQT9xQQFqIgNqNgIAAkACQCACQT9xIgIgA2pBP0sEQCAGIAJqQYaNBEHAACACayIEEAsaIARBho0EaiECIA8gBhAMIAMgBGsiA0E/SwRAA0AgBiACKQAANwAAIAYgAikACDcACCAGIAIpABA3ABAgBiACKQAYNwAYIAYgAikAIDcAICAGIAIpACg3ACggBiACKQAwNwAwIAYgAikAODcAOCACQUBrIQIgDyAGEAwgA0FAaiIDQT9LDQALCyADBEAgAiEEQQAhAgwCCwVBho0EIQQMAQsMAQsgBiACaiAEIAMQCxoLIBEoAgAiAkE/cSEEIBEgAkEIajYCAAJAAkAgBEEIakE/SwRAIAYgBGogCUHAACAEayIDEAsaIAkgA2ohAiAPIAYQDEEIIANrIgNBP0sEQANAIAYgAikAADcAACAGIAIpAAg3AAggBiACKQAQNwAQIAYgAikAGDcAGCAGIAIpACA3ACAgBiACKQAoNwAoIAYgAikAMDcAMCAGIAIpADg3ADggAkFAayECIA8gBhAMIANBQGoiA0E/Sw0ACwsgAwRAQQAhBAwCCwUgCSECQQghAwwBCwwBCyAGIARqIAIgAxALGgsgDygCABAJIRIgD0EANgIAIAdB6ABqIhcoAgAQCSEKIBdBADYCACAHQewAaiIaKAIAEAkhDSAaQQA2AgAgB0HwAGoiGygCABAJIQ4gG0EANgIAIAdB9ABqIhwoAgAQCSEFIBxBADYCACAHQfgAaiIUKAIAEAkhBCAUQQA2AgAgB0H8AGoiFigCABAJIQMgFkEANgIAIAdBgAFqIhgoAgAQCSECIBhBADYCACAAIBI2ACAgACAKNgAkIAAgDTYAKCAAIA42ACwgACAFNgAwIAAgBDYANCAAIAM2ADggACACNgA8IAcgGRARIBAoAgAiAkE/cSEFIBAgAkEgajYCACAHQSBqIQoCQAJAIAVBIGpBP0sEQCAKIAVqIABBwAAgBWsiAhALGiAAIAJqIQQgByAKEAxBICACayIDQT9LBH8gAEHkAGogBUGgf2oiDUFAcSIOQRxyIAVraiEFIAMhAiAEIQMDQCAKIAMpAAA3AAAgCiADKQAINwAIIAogAykAEDcAECAKIAMpABg3ABggCiADKQAgNwAgIAogAykAKDcAKCAKIAMpADA3ADAgCiADKQA4NwA4IANBQGshAyAHIAoQDCACQUBqIgJBP0sNAAsgDSAOayEDIAUFIAQLIQIgAwRAQQAhBAwCCwUgACECIAUhBEEgIQMMAQsMAQsgCiAEaiACIAMQCxoLIAkgECgCACICQR12QRh0NgIAIAkgAkELdEGAgPwHcSACQRt0ciACQQV2QYD+A3FyIAJBFXZB/wFxcjYCBCAQIAJBNyACa0E/cUEBaiIDajYCACAHQSBqIQUCQAJAIAJBP3EiAiADakE/SwRAIAUgAmpBho0EQcAAIAJrIgQQCxogBEGGjQRqIQIgByAFEAwgAyAEayIDQT9LBEADQCAFIAIpAAA3AAAgBSACKQAINwAIIAUgAikAEDcAECAFIAIpABg3ABggBSACKQAgNwAgIAUgAikAKDcAKCAFIAIpADA3ADAgBSACKQA4NwA4IAJBQGshAiAHIAUQDCADQUBqIgNBP0sNAAsLIAMEQCACIQRBACECDAILBUGGjQQhBAwBCwwBCyAFIAJqIAQgAxALGgsgECgCACICQT9xIQQgECACQQhqNgIAIAdBIGohBQJAAkAgBEEIakE/SwRAIAUgBGogCUHAACAEayIDEAsaIAkgA2ohAiAHIAUQDEEIIANrIgNBP0sEQANAIAUgAikAADcAACAFIAIpAAg3AAggBSACKQAQNwAQIAUgAikAGDcAGCAFIAIpACA3ACAgBSACKQAoNwAoIAUgAikAMDcAMCAFIAIpADg3ADggAkFAayECIAcgBRAMIANBQGoiA0E/Sw0ACwsgAwRAQQAhBAwCCwUgCSECQQghAwwBCwwBCyAFIARqIAIgAxALGgsgBygCABAJIRIgB0EANgIAIB4oAgAQCSEKIB5BADYCACAfKAIAEAkhDSAfQQA2AgAgICgCABAJIQ4gIEEANgIAICEoAgAQCSEFICFBADYCACAjKAIAEAkhBCAjQQA2AgAgEygCABAJIQMgE0EANgIAIB0oAgAQCSECIB1BADYCACAIIBI2AgAgKyAKNgIAICwgDTYCACAtIA42AgAgLiAFNgIAIC8gBDYCACAwIAM2AgAgKiACNgIAIBEoAgAiAkE/cSEEIBEgAkEgajYCAAJAAkAgBEEgakE/SwRAIAYgBGogCEHAACAEayIFEAsaIAggBWohAyAPIAYQDEEgIAVrIgJBP0sEfyAEQaB/aiIEQQZ2QQF0IQ4gBUFAaiEFA0AgBiADKQAANwAAIAYgAykACDcACCAGIAMpABA3ABAgBiADKQAYNwAYIAYgAykAIDcAICAGIAMpACg3ACggBiADKQAwNwAwIAYgAykAODcAOCADQUBrIQMgDyAGEAwgAkFAaiICQT9LDQALIARBP3EhBCAIIA5BBGpBBXRqIAVqBSACIQQgAwshAiAEBEBBACEDDAILBSAIIQIgBCEDQSAhBAwBCwwBCyAGIANqIAIgBBALGgsgCSARKAIAIgJBHXZBGHQ2AgAgCSACQQt0QYCA/AdxIAJBG3RyIAJBBXZBgP4DcXIgAkEVdkH/AXFyNgIEIBEgAkE3IAJrQT9xQQFqIgNqNgIAAkACQCACQT9xIgIgA2pBP0sEQCAGIAJqQYaNBEHAACACayIEEAsaIARBho0EaiECIA8gBhAMIAMgBGsiA0E/SwRAA0AgBiACKQAANwAAIAYgAikACDcACCAGIAIpABA3ABAgBiACKQAYNwAYIAYgAikAIDcAICAGIAIpACg3ACggBiACKQAwNwAwIAYgAikAODcAOCACQUBrIQIgDyAGEAwgA0FAaiIDQT9LDQALCyADBEAgAiEEQQAhAgwCCwVBho0EIQQMAQsMAQsgBiACaiAEIAMQCxoLIBEoAgAiAkE/cSEEIBEgAkEIajYCAAJAAkAgBEEIakE/SwRAIAYgBGogCUHAACAEayIDEAsaIAkgA2ohAiAPIAYQDEEIIANrIgNBP0sEQANAIAYgAikAADcAACAGIAIpAAg3AAggBiACKQAQNwAQIAYgAikAGDcAGCAGIAIpACA3ACAgBiACKQAoNwAoIAYgAikAMDcAMCAGIAIpADg3ADggAkFAayECIA8gBhAMIANBQGoiA0E/Sw0ACwsgAwRAQQAhBAwCCwUgCSECQQghAwwBCwwBCyAGIARqIAIgAxALGgsgDygCABAJIRIgD0EANgIAIBcoAgAQCSEKIBdBADYCACAaKAIAEAkhDSAaQQA2AgAgGygCABAJIQ4gG0EANgIAIBwoAgAQCSEFIBxBADYCACAUKAIAEAkhBCAUQQA2AgAgFigCABAJIQMgFkEANgIAIBgoAgAQCSECIAAgEjYAACAAQQRqIhYgCjYAACAAQQhqIhggDTYAACAAQQxqIhIgDjYAACAAQRBqIgogBTYAACAAQRRqIg0gBDYAACAAQRhqIgUgAzYAACAAQRxqIgQgAjYAACAZIRQgACIDIQ4gBCEaIBYhGyAYIRwgEiEWIAohGCANIRIgBSEKIAgiAgUgAEEgaiEUIAAiAyEOIAhBHGohKiAAQRxqIRogCEEEaiErIABBBGohGyAIQQhqISwgAEEIaiEcIAhBDGohLSAAQQxqIRYgCEEQaiEuIABBEGohGCAIQRRqIS8gAEEUaiESIAhBGGohMCAAQRhqIQogCCICCyEZIAdBIGohCyAJQQRqIR0gB0EEaiEGIAdBCGohDyAHQQxqIRAgB0EQaiERIAdBFGohHiAHQRhqIR8gB0EcaiEgIAdBxAFqISIgB0GEAWohDCAHQeQAaiEVIAlBBGohIyAHQegAaiEkIAdB7ABqISUgB0HwAGohJiAHQfQAaiEnIAdB+ABqISggB0H8AGohKSAHQYABaiEhIABBgAFqIRcgByAUEBEgB0HgAGoiEygCACIEQT9xIQ0gEyAEQSBqNgIAAkACQCANQSBqQT9LBEAgCyANaiADQcAAIA1rIgQQCxogACAEaiEFIAcgCxAMQSAgBGsiBEE/SwR/IBcgDUGgf2oiF0FAcSIUIA1raiENIAQhACAFIQQDQCALIAQpAAA3AAAgCyAEKQAINwAIIAsgBCkAEDcAECALIAQpABg3ABggCyAEKQAgNwAgIAsgBCkAKDcAKCALIAQpADA3ADAgCyAEKQA4NwA4IARBQGshBCAHIAsQDCAAQUBqIgBBP0sNAAsgFyAUayEEIA0FIAULIQAgBARAQQAhBQwCCwUgDSEFQSAhBAwBCwwBCyALIAVqIAAgBBALGgsgCSATKAIAIgBBHXZBGHQ2AgAgHSAAQQt0QYCA/AdxIABBG3RyIABBBXZBgP4DcXIgAEEVdkH/AXFyNgIAIBMgAEE3IABrQT9xQQFqIgRqNgIAAkACQCAAQT9xIgAgBGpBP0sEQCALIABqQYaNBEHAACAAayIFEAsaIAVBho0EaiEAIAcgCxAMIAQgBWsiBEE/SwRAA0AgCyAAKQAANwAAIAsgACkACDcACCALIAApABA3ABAgCyAAKQAYNwAYIAsgACkAIDcAICALIAApACg3ACggCyAAKQAwNwAwIAsgACkAODcAOCAAQUBrIQAgByALEAwgBEFAaiIEQT9LDQALCyAEBEAgACEFQQAhAAwCCwVBho0EIQUMAQsMAQsgCyAAaiAFIAQQCxoLIBMoAgAiAEE/cSEFIBMgAEEIajYCAAJAAkAgBUEIakE/SwRAIAsgBWogCUHAACAFayIEEAsaIAkgBGohACAHIAsQDEEIIARrIgRBP0sEQANAIAsgACkAADcAACALIAApAAg3AAggCyAAKQAQNwAQIAsgACkAGDcAGCALIAApACA3ACAgCyAAKQAoNwAoIAsgACkAMDcAMCALIAApADg3ADggAEFAayEAIAcgCxAMIARBQGoiBEE/Sw0ACwsgBARAQQAhBQwCCwUgCSEAQQghBAwBCwwBCyALIAVqIAAgBBALGgsgBygCABAJIRMgB0EANgIAIAYoAgAQCSEdIAZBADYCACAPKAIAEAkhFyAPQQA2AgAgECgCABAJIRQgEEEANgIAIBEoAgAQCSENIBFBADYCACAeKAIAEAkhBSAeQQA2AgAgHygCABAJIQQgH0EANgIAICAoAgAQCSEAICBBADYCACAZIBM2AgAgKyAdNgIAICwgFzYCACAtIBQ2AgAgLiANNgIAIC8gBTYCACAwIAQ2AgAgKiAANgIAICIoAgAiAEE/cSEEICIgAEEgajYCAAJAAkAgBEEgakE/SwRAIAwgBGogAkHAACAEayIAEAsaIAggAGohAiAVIAwQDEEgIABrIgBBP0sEfyAIQYABaiAEQaB/aiIFQUBxIgggBGtqIQQDQCAMIAIpAAA3AAAgDCACKQAINwAIIAwgAikAEDcAECAMIAIpABg3ABggDCACKQAgNwAgIAwgAikAKDcAKCAMIAIpADA3ADAgDCACKQA4NwA4IAJBQGshAiAVIAwQDCAAQUBqIgBBP0sNAAsgBSAIayEIIAQFIAAhCCACCyEAIAgEQEEAIQIMAgsFIAIhACAEIQJBICEIDAELDAELIAwgAmogACAIEAsaCyAJICIoAgAiAEEddkEYdDYCACAjIABBC3RBgID8B3EgAEEbdHIgAEEFdkGA/gNxciAAQRV2Qf8BcXI2AgAgIiAAQTcgAGtBP3FBAWoiAmo2AgACQAJAIABBP3EiACACakE/SwRAIAwgAGpBho0EQcAAIABrIggQCxogCEGGjQRqIQAgFSAMEAwgAiAIayICQT9LBEADQCAMIAApAAA3AAAgDCAAKQAINwAIIAwgACkAEDcAECAMIAApABg3ABggDCAAKQAgNwAgIAwgACkAKDcAKCAMIAApADA3ADAgDCAAKQA4NwA4IABBQGshACAVIAwQDCACQUBqIgJBP0sNAAsLIAIEQCAAIQhBACEADAILBUGGjQQhCAwBCwwBCyAMIABqIAggAhALGgsgIigCACIAQT9xIQIgIiAAQQhqNgIAIAJBCGpBP0sEQCAMIAJqIAlBwAAgAmsiAhALGiAJIAJqIQAgFSAMEAxBCCACayIJQT9LBEADQCAMIAApAAA3AAAgDCAAKQAINwAIIAwgACkAEDcAECAMIAApABg3ABggDCAAKQAgNwAgIAwgACkAKDcAKCAMIAApADA3ADAgDCAAKQA4NwA4IABBQGshACAVIAwQDCAJQUBqIglBP0sNAAsLIAkEQEEAIQIFIBUoAgAQCSENIBVBADYCACAkKAIAEAkhGSAkQQA2AgAgJSgCABAJIQUgJUEANgIAICYoAgAQCSEEICZBADYCACAnKAIAEAkhCCAnQQA2AgAgKCgCABAJIQIgKEEANgIAICkoAgAQCSEJIClBADYCACAhKAIAEAkhACAOIA02AAAgGyAZNgAAIBwgBTYAACAWIAQ2AAAgGCAINgAAIBIgAjYAACAKIAk2AAAgGiAANgAAIAEgAykAADcAACABIAMpAAg3AAggASADKQAQNwAQIAEgAykAGDcAGCAxQQE2AgAgByQEDwsFIAkhAEEIIQkLIAwgAmogACAJEAsaIBUoAgAQCSENIBVBADYCACAkKAIAEAkhGSAkQQA2AgAgJSgCABAJIQUgJUEANgIAICYoAgAQCSEEICZBADYCACAnKAIAEAkhCCAnQQA2AgAgKCgCABAJIQIgKEEANgIAICkoAgAQCSEJIClBADYCACAhKAIAEAkhACAOIA02AAAgGyAZNgAAIBwgBTYAACAWIAQ2AAAgGCAINgAAIBIgAjYAACAKIAk2AAAgGiAANgAAIAEgAykAADcAACABIAMpAAg3AAggASADKQAQNwAQIAEgAykAGDcAGCAxQQE2AgAgByQEC/YOAQt/IwQhBCMEQcADaiQEIARBgAFqIgIgARAIIARBoANqIgwgAiABEA0gBEHgAGoiCSACIAwQDSAEQYADaiIGIAkgAhANIARBQGsiCyAGIAIQDSAEQSBqIgogCyACEA0gBCAKIAIQDSAEQeACaiIHIAQQCCAHIAcQCCAHIAcgChANIARBwAJqIgggBxAIIAggCBAIIAggCCAMEA0gBEGgAmoiBSAIEAggBSAFEAggBSAFEAggBSAFEAggBSAFEAggBSAFEAggBSAFIAcQDSAEQYACaiIDIAUQCCADIAMQCCADIAMQCCADIAMQCCADIAMQCCADIAMQCCADIAMQCCADIAMQCCADIAMQCCADIAMQCCADIAMQCCADIAMQCCADIAMQCCADIAMQCCADIAMgBRANIARB4AFqIgIgAxAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAiADEA0gBEHAAWoiAyACEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADEAggAyADIAIQDSAEQaABaiICIAMQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIgBRANIAIgAhAIIAIgAhAIIAIgAhAIIAIgAiAJEA0gAiACEAggAiACEAggAiACEAggAiACEAggAiACIAYQDSACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIgCRANIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAiAKEA0gAiACEAggAiACEAggAiACEAggAiACEAggAiACIAoQDSACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIgBhANIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAiAGEA0gAiACEAggAiACEAggAiACEAggAiACEAggAiACEAggAiACEAggAiACIAQQDSACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIgCRANIAIgAhAIIAIgAhAIIAIgAhAIIAIgAiAGEA0gAiACEAggAiACEAggAiACEAggAiACEAggAiACEAggAiACIAsQDSACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIgCRANIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAiAGEA0gAiACEAggAiACEAggAiACEAggAiACEAggAiACIAYQDSACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIgCBANIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAiALEA0gAiACEAggAiACEAggAiACEAggAiACEAggAiACEAggAiACEAggAiACIAoQDSACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIgBBANIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAiAMEA0gAiACEAggAiACEAggAiACEAggAiACEAggAiACEAggAiACEAggAiACIAQQDSACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIgBBANIAIgAhAIIAIgAhAIIAIgAhAIIAIgAhAIIAIgAiALEA0gAiACEAggAiACEAggAiACEAggAiACEAggAiACEAggAiACEAggAiACIAEQDSACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCACIAIQCCAAIAIgBxANIAQkBAvuBAEbfyAAQSRqIgsoAgAiAkEWdiIBQdEHbCAAKAIAaiEEIAFBBnQgAEEEaiIMKAIAaiAEQRp2aiIFQRp2IABBCGoiDSgCAGoiBkH///8fcSEHIAZBGnYgAEEMaiIOKAIAaiIIQRp2IABBEGoiDygCAGohASAIQf///x9xIQkgAUH///8fcSEKIAFBGnYgAEEUaiIQKAIAaiIRQRp2IABBGGoiEigCAGohEyARQf///x9xIRQgE0EadiAAQRxqIhUoAgBqIhZBGnYgAEEgaiIXKAIAaiEDIBZB////H3EhGCADQf///x9xIRkgA0EadiACQf///wFxaiICQRZ2IAVB////H3EiBUFAayAEQf///x9xIgRB0QdqIhpBGnYiG2pB////H0sgCCAGcSABcSARcSATQf///x9xIgFxIBZxIANxQf///x9GIAJB////AUZxcXIiA0UEQCAAIAQ2AgAgDCAFNgIAIA0gBzYCACAOIAk2AgAgDyAKNgIAIBAgFDYCACASIAE2AgAgFSAYNgIAIBcgGTYCACALIAI2AgAPCyAbIAVqIANBBnRqIgNBGnYgB2oiBEEadiAJaiIGQRp2IApqIgdBGnYgFGoiCEEadiABaiIBQRp2IBhqIglBGnYgGWoiCkEadiACakH///8BcSECIAAgGkH///8fcTYCACAMIANB////H3E2AgAgDSAEQf///x9xNgIAIA4gBkH///8fcTYCACAPIAdB////H3E2AgAgECAIQf///x9xNgIAIBIgAUH///8fcTYCACAVIAlB////H3E2AgAgFyAKQf///x9xNgIAIAsgAjYCAAuUCgErfyMEIQojBEGAAWokBCABIABBJGoiBikCADcCACABIAYpAgg3AgggASAGKQIQNwIQIAEgBikCGDcCGCABIAYpAiA3AiAgASAGKQIoNwIoIAEgBikCMDcCMCABIAYpAjg3AjggAUFAayAGQUBrKQIANwIAIAEgBikCSDcCSCABIAYpAlA3AlAgASAGKQJYNwJYIAEgBikCYDcCYCABIAYpAmg3AmggASAGKQJwNwJwIAEgBigCeDYCeCAKIgsgAiAAQQRqEBwgC0EgaiIEQdAAaiIZQQA2AgAgBEEEaiEaIARBCGohGyAEQQxqIRwgBEEQaiEdIARBFGohHiAEQRhqIR8gBEEcaiEgIARBIGohISAEQSRqISIgBEEoaiEjIARBLGohJCAEQTBqISUgBEE0aiEmIARBOGohJyAEQTxqISggBEFAayEpIARBxABqISogBEHIAGohKyAEQcwAaiEsQQAhBkEAIQJBACEKA0AgCyAFQQN2Qf///z9xQQJ0aigCACAFQQJ0QRxxdkEPcSEtIAAoAgAhCEEAIQcDQCAIIAVBCnRqIAdBBnRqKAIAIQMgByAtRiIJBEAgAyEGCyAIIAVBCnRqIAdBBnRqKAIEIQMgCQRAIAMhGAsgCCAFQQp0aiAHQQZ0aigCCCEDIAkEQCADIQwLIAggBUEKdGogB0EGdGooAgwhAyAJBEAgAyENCyAIIAVBCnRqIAdBBnRqKAIQIQMgCQRAIAMhAgsgCCAFQQp0aiAHQQZ0aigCFCEDIAkEQCADIQ4LIAggBUEKdGogB0EGdGooAhghAyAJBEAgAyEPCyAIIAVBCnRqIAdBBnRqKAIcIQMgCQRAIAMhEAsgCCAFQQp0aiAHQQZ0aigCICEDIAkEQCADIRELIAggBUEKdGogB0EGdGooAiQhAyAJBEAgAyESCyAIIAVBCnRqIAdBBnRqKAIoIQMgCQRAIAMhEwsgCCAFQQp0aiAHQQZ0aigCLCEDIAkEQCADIRQLIAggBUEKdGogB0EGdGooAjAhAyAJBEAgAyEKCyAIIAVBCnRqIAdBBnRqKAI0IQMgCQRAIAMhFQsgCCAFQQp0aiAHQQZ0aigCOCEDIAkEQCADIRYLIAggBUEKdGogB0EGdGooAjwhAyAJBEAgAyEXCyAHQQFqIgdBEEcNAAsgBCAGQf///x9xNgIAIBogGEEGdEHA//8fcSAGQRp2cjYCACAbIAxBDHRBgOD/H3EgGEEUdnI2AgAgHCANQRJ0QYCA8B9xIAxBDnZyNgIAIB0gAkEYdEGAgIAYcSANQQh2cjYCACAeIAJBAnZB////H3E2AgAgHyAOQQR0QfD//x9xIAJBHHZyNgIAICAgD0EKdEGA+P8fcSAOQRZ2cjYCACAhIBBBEHRBgID8H3EgD0EQdnI2AgAgIiAQQQp2NgIAICMgEUH///8fcTYCACAkIBJBBnRBwP//H3EgEUEadnI2AgAgJSATQQx0QYDg/x9xIBJBFHZyNgIAICYgFEESdEGAgPAfcSATQQ52cjYCACAnIApBGHRBgICAGHEgFEEIdnI2AgAgKCAKQQJ2Qf///x9xNgIAICkgFUEEdEHw//8fcSAKQRx2cjYCACAqIBZBCnRBgPj/H3EgFUEWdnI2AgAgKyAXQRB0QYCA/B9xIBZBEHZyNgIAICwgF0EKdjYCACAZQQA2AgAgASABIAQQOCAFQQFqIgVBwABHDQALIAskBAsEABAFCwYAQQEQAAuYAgEEfyAAIAJqIQQgAUH/AXEhASACQcMATgRAA0AgAEEDcQRAIAAgAToAACAAQQFqIQAMAQsLIARBfHEiBUFAaiEGIAEgAUEIdHIgAUEQdHIgAUEYdHIhAwNAIAAgBkwEQCAAIAM2AgAgACADNgIEIAAgAzYCCCAAIAM2AgwgACADNgIQIAAgAzYCFCAAIAM2AhggACADNgIcIAAgAzYCICAAIAM2AiQgACADNgIoIAAgAzYCLCAAIAM2AjAgACADNgI0IAAgAzYCOCAAIAM2AjwgAEFAayEADAELCwNAIAAgBUgEQCAAIAM2AgAgAEEEaiEADAELCwsDQCAAIARIBEAgACABOgAAIABBAWohAAwBCwsgBCACawvnAQEDfyAAQeAAaiIDKAIAIgVBP3EhBCADIAUgAmo2AgAgBCACakE/SwRAIABBIGoiAyAEaiABQcAAIARrIgQQCxogASAEaiEBIAAgAxAMIAIgBGsiAkE/SwRAA0AgAyABKQAANwAAIAMgASkACDcACCADIAEpABA3ABAgAyABKQAYNwAYIAMgASkAIDcAICADIAEpACg3ACggAyABKQAwNwAwIAMgASkAODcAOCABQUBrIQEgACADEAwgAkFAaiICQT9LDQBBACEECwVBACEECwsgAkUEQA8LIABBIGogBGogASACEAsaC4BIATN/IwQhCSMEQfABaiQEIABCgYKEiJCgwIABNwIAIABCgYKEiJCgwIABNwIIIABCgYKEiJCgwIABNwIQIABCgYKEiJCgwIABNwIYIABBIGoiGUIANwIAIBlCADcCCCAZQgA3AhAgGUIANwIYIAkiCCAZEBEgCEHgAGoiDSgCACIJQT9xIQQgDSAJQSBqNgIAIAhBIGohCwJAAkAgBEEgakE/SwRAIAsgBGogAEHAACAEayIJEAsaIAAgCWohAyAIIAsQDEEgIAlrIgpBP0sEfyAAQeQAaiAEQaB/aiIGQUBxIgdBHHIgBGtqIQQgCiEJIAMhCgNAIAsgCikAADcAACALIAopAAg3AAggCyAKKQAQNwAQIAsgCikAGDcAGCALIAopACA3ACAgCyAKKQAoNwAoIAsgCikAMDcAMCALIAopADg3ADggCkFAayEKIAggCxAMIAlBQGoiCUE/Sw0ACyAGIAdrIQogBAUgAwshCSAKBEBBACEDDAILBSAAIQkgBCEDQSAhCgwBCwwBCyALIANqIAkgChALGgsgDSgCACIJQT9xIQogDSAJQQFqNgIAIAhBIGohCSAKQT9GBEAgCUEAOgA/IAggCRAMBSAJIApqQQA6AAALIA0oAgAiCUE/cSEDIA0gCSACajYCACADIAJqIgRBP0sEQCAIQSBqIgYgA2ogAUHAACADayIJEAsaIAEgCWohCiAIIAYQDCACIAlrIglBP0sEfyAEQYB/aiIHQUBxIgRBgAFqIANrIQMDQCAGIAopAAA3AAAgBiAKKQAINwAIIAYgCikAEDcAECAGIAopABg3ABggBiAKKQAgNwAgIAYgCikAKDcAKCAGIAopADA3ADAgBiAKKQA4NwA4IApBQGshCiAIIAYQDCAJQUBqIglBP0sNAAsgASADaiEKIAcgBGshCUEABUEACyEDBSABIQogAiEJCyAJBEAgCEEgaiADaiAKIAkQCxoLIAhByAFqIQogCEHoAWoiCSANKAIAIgNBHXZBGHQ2AgAgCSADQQt0QYCA/AdxIANBG3RyIANBBXZBgP4DcXIgA0EVdkH/AXFyNgIEIA0gA0E3IANrQT9xQQFqIgRqNgIAIAhBIGohBgJAAkAgA0E/cSIDIARqQT9LBEAgBiADakGGjQRBwAAgA2siBxALGiAHQYaNBGohAyAIIAYQDCAEIAdrIgRBP0sEQANAIAYgAykAADcAACAGIAMpAAg3AAggBiADKQAQNwAQIAYgAykAGDcAGCAGIAMpACA3ACAgBiADKQAoNwAoIAYgAykAMDcAMCAGIAMpADg3ADggA0FAayEDIAggBhAMIARBQGoiBEE/Sw0ACwsgBARAIAMhB0EAIQMMAgsFQYaNBCEHDAELDAELIAYgA2ogByAEEAsaCyANKAIAIgNBP3EhByANIANBCGo2AgAgCEEgaiEGAkACQCAHQQhqQT9LBEAgBiAHaiAJQcAAIAdrIgQQCxogCSAEaiEDIAggBhAMQQggBGsiBEE/SwRAA0AgBiADKQAANwAAIAYgAykACDcACCAGIAMpABA3ABAgBiADKQAYNwAYIAYgAykAIDcAICAGIAMpACg3ACggBiADKQAwNwAwIAYgAykAODcAOCADQUBrIQMgCCAGEAwgBEFAaiIEQT9LDQALCyAEBEBBACEHDAILBSAJIQNBCCEEDAELDAELIAYgB2ogAyAEEAsaCyAIKAIAEAkhEiAIQQA2AgAgCEEEaiIaKAIAEAkhDiAaQQA2AgAgCEEIaiIbKAIAEAkhECAbQQA2AgAgCEEMaiIcKAIAEAkhCyAcQQA2AgAgCEEQaiIdKAIAEAkhBiAdQQA2AgAgCEEUaiIeKAIAEAkhByAeQQA2AgAgCEEYaiIfKAIAEAkhBCAfQQA2AgAgCEEcaiIgKAIAEAkhAyAgQQA2AgAgCiASNgIAIApBBGoiIiAONgIAIApBCGoiIyAQNgIAIApBDGoiJCALNgIAIApBEGoiJSAGNgIAIApBFGoiJiAHNgIAIApBGGoiJyAENgIAIApBHGoiKCADNgIAIAhB5ABqIQwgCEHEAWoiDygCACIDQT9xIQcgDyADQSBqNgIAIAhBhAFqIQUCQAJAIAdBIGpBP0sEQCAFIAdqIApBwAAgB2siBhALGiAKIAZqIQQgDCAFEAxBICAGayIDQT9LBH8gB0Ggf2oiB0EGdkEBdCELIAZBQGohBgNAIAUgBCkAADcAACAFIAQpAAg3AAggBSAEKQAQNwAQIAUgBCkAGDcAGCAFIAQpACA3ACAgBSAEKQAoNwAoIAUgBCkAMDcAMCAFIAQpADg3ADggBEFAayEEIAwgBRAMIANBQGoiA0E/Sw0ACyAHQT9xIQcgCiALQQRqQQV0aiAGagUgAyEHIAQLIQMgBwRAQQAhBAwCCwUgCiEDIAchBEEgIQcMAQsMAQsgBSAEaiADIAcQCxoLIAkgDygCACIDQR12QRh0NgIAIAkgA0ELdEGAgPwHcSADQRt0ciADQQV2QYD+A3FyIANBFXZB/wFxcjYCBCAPIANBNyADa0E/cUEBaiIEajYCAAJAAkAgA0E/cSIDIARqQT9LBEAgBSADakGGjQRBwAAgA2siBxALGiAHQYaNBGohAyAMIAUQDCAEIAdrIgRBP0sEQANAIAUgAykAADcAACAFIAMpAAg3AAggBSADKQAQNwAQIAUgAykAGDcAGCAFIAMpACA3ACAgBSADKQAoNwAoIAUgAykAMDcAMCAFIAMpADg3ADggA0FAayEDIAwgBRAMIARBQGoiBEE/Sw0ACwsgBARAIAMhB0EAIQMMAgsFQYaNBCEHDAELDAELIAUgA2ogByAEEAsaCyAPKAIAIgNBP3EhByAPIANBCGo2AgACQAJAIAdBCGpBP0sEQCAFIAdqIAlBwAAgB2siBBALGiAJIARqIQMgDCAFEAxBCCAEayIEQT9LBEADQCAFIAMpAAA3AAAgBSADKQAINwAIIAUgAykAEDcAECAFIAMpABg3ABggBSADKQAgNwAgIAUgAykAKDcAKCAFIAMpADA3ADAgBSADKQA4NwA4IANBQGshAyAMIAUQDCAEQUBqIgRBP0sNAAsLIAQEQEEAIQcMAgsFIAkhA0EIIQQMAQsMAQsgBSAHaiADIAQQCxoLIAwoAgAQCSESIAxBADYCACAIQegAaiITKAIAEAkhDiATQQA2AgAgCEHsAGoiFCgCABAJIRAgFEEANgIAIAhB8ABqIhUoAgAQCSELIBVBADYCACAIQfQAaiIWKAIAEAkhBiAWQQA2AgAgCEH4AGoiFygCABAJIQcgF0EANgIAIAhB/ABqIhgoAgAQCSEEIBhBADYCACAIQYABaiIhKAIAEAkhAyAhQQA2AgAgAEEgaiIuIBI2AAAgAEEkaiIvIA42AAAgAEEoaiIwIBA2AAAgAEEsaiIxIAs2AAAgAEEwaiIyIAY2AAAgAEE0aiIzIAc2AAAgAEE4aiI0IAQ2AAAgAEE8aiI1IAM2AAAgCCAZEBEgDSgCACIDQT9xIQYgDSADQSBqNgIAIAhBIGohDgJAAkAgBkEgakE/SwRAIA4gBmogAEHAACAGayIDEAsaIAAgA2ohByAIIA4QDEEgIANrIgRBP0sEfyAAQeQAaiAGQaB/aiIQQUBxIgtBHHIgBmtqIQYgBCEDIAchBANAIA4gBCkAADcAACAOIAQpAAg3AAggDiAEKQAQNwAQIA4gBCkAGDcAGCAOIAQpACA3ACAgDiAEKQAoNwAoIA4gBCkAMDcAMCAOIAQpADg3ADggBEFAayEEIAggDhAMIANBQGoiA0E/Sw0ACyAQIAtrIQQgBgUgBwshAyAEBEBBACEHDAILBSAAIQMgBiEHQSAhBAwBCwwBCyAOIAdqIAMgBBALGgsgCSANKAIAIgNBHXZBGHQ2AgAgCSADQQt0QYCA/AdxIANBG3RyIANBBXZBgP4DcXIgA0EVdkH/AXFyNgIEIA0gA0E3IANrQT9xQQFqIgRqNgIAIAhBIGohBgJAAkAgA0E/cSIDIARqQT9LBEAgBiADakGGjQRBwAAgA2siBxALGiAHQYaNBGohAyAIIAYQDCAEIAdrIgRBP0sEQANAIAYgAykAADcAACAGIAMpAAg3AAggBiADKQAQNwAQIAYgAykAGDcAGCAGIAMpACA3ACAgBiADKQAoNwAoIAYgAykAMDcAMCAGIAMpADg3ADggA0FAayEDIAggBhAMIARBQGoiBEE/Sw0ACwsgBARAIAMhB0EAIQMMAgsFQYaNBCEHDAELDAELIAYgA2ogByAEEAsaCyANKAIAIgNBP3EhByANIANBCGo2AgAgCEEgaiEGAkACQCAHQQhqQT9LBEAgBiAHaiAJQcAAIAdrIgQQCxogCSAEaiEDIAggBhAMQQggBGsiBEE/SwRAA0AgBiADKQAANwAAIAYgAykACDcACCAGIAMpABA3ABAgBiADKQAYNwAYIAYgAykAIDcAICAGIAMpACg3ACggBiADKQAwNwAwIAYgAykAODcAOCADQUBrIQMgCCAGEAwgBEFAaiIEQT9LDQALCyAEBEBBACEHDAILBSAJIQNBCCEEDAELDAELIAYgB2ogAyAEEAsaCyAIKAIAEAkhEiAIQQA2AgAgGigCABAJIQ4gGkEANgIAIBsoAgAQCSEQIBtBADYCACAcKAIAEAkhCyAcQQA2AgAgHSgCABAJIQYgHUEANgIAIB4oAgAQCSEHIB5BADYCACAfKAIAEAkhBCAfQQA2AgAgICgCABAJIQMgIEEANgIAIAogEjYCACAiIA42AgAgIyAQNgIAICQgCzYCACAlIAY2AgAgJiAHNgIAICcgBDYCACAoIAM2AgAgDygCACIDQT9xIQcgDyADQSBqNgIAAkACQCAHQSBqQT9LBEAgBSAHaiAKQcAAIAdrIgYQCxogCiAGaiEEIAwgBRAMQSAgBmsiA0E/SwR/IAdBoH9qIgdBBnZBAXQhCyAGQUBqIQYDQCAFIAQpAAA3AAAgBSAEKQAINwAIIAUgBCkAEDcAECAFIAQpABg3ABggBSAEKQAgNwAgIAUgBCkAKDcAKCAFIAQpADA3ADAgBSAEKQA4NwA4IARBQGshBCAMIAUQDCADQUBqIgNBP0sNAAsgB0E/cSEHIAogC0EEakEFdGogBmoFIAMhByAECyEDIAcEQEEAIQQMAgsFIAohAyAHIQRBICEHDAELDAELIAUgBGogAyAHEAsaCyAJIA8oAgAiA0EddkEYdDYCACAJIANBC3RBgID8B3EgA0EbdHIgA0EFdkGA/gNxciADQRV2Qf8BcXI2AgQgDyADQTcgA2tBP3FBAWoiBGo2AgACQAJAIANBP3EiAyAEakE/SwRAIAUgA2pBho0EQcAAIANrIgcQCxogB0GGjQRqIQMgDCAFEAwgBCAHayIEQT9LBEADQCAFIAMpAAA3AAAgBSADKQAINwAIIAUgAykAEDcAECAFIAMpABg3ABggBSADKQAgNwAgIAUgAykAKDcAKCAFIAMpADA3ADAgBSADKQA4NwA4IANBQGshAyAMIAUQDCAEQUBqIgRBP0sNAAsLIAQEQCADIQdBACEDDAILBUGGjQQhBwwBCwwBCyAFIANqIAcgBBALGgsgDygCACIDQT9xIQcgDyADQQhqNgIAAkACQCAHQQhqQT9LBEAgBSAHaiAJQcAAIAdrIgQQCxogCSAEaiEDIAwgBRAMQQggBGsiBEE/SwRAA0AgBSADKQAANwAAIAUgAykACDcACCAFIAMpABA3ABAgBSADKQAYNwAYIAUgAykAIDcAICAFIAMpACg3ACggBSADKQAwNwAwIAUgAykAODcAOCADQUBrIQMgDCAFEAwgBEFAaiIEQT9LDQALCyAEBEBBACEHDAILBSAJIQNBCCEEDAELDAELIAUgB2ogAyAEEAsaCyAMKAIAEAkhEiAMQQA2AgAgEygCABAJIQ4gE0EANgIAIBQoAgAQCSEQIBRBADYCACAVKAIAEAkhCyAVQQA2AgAgFigCABAJIQYgFkEANgIAIBcoAgAQCSEHIBdBADYCACAYKAIAEAkhBCAYQQA2AgAgISgCABAJIQMgIUEANgIAIAAgEjYAACAAQQRqIikgDjYAACAAQQhqIiogEDYAACAAQQxqIisgCzYAACAAQRBqIiwgBjYAACAAQRRqIi0gBzYAACAAQRhqIhIgBDYAACAAQRxqIg4gAzYAACAIIBkQESANKAIAIgNBP3EhBiANIANBIGo2AgAgCEEgaiERAkACQCAGQSBqQT9LBEAgESAGaiAAQcAAIAZrIgMQCxogACADaiEHIAggERAMQSAgA2siBEE/SwR/IABB5ABqIAZBoH9qIhBBQHEiC0EcciAGa2ohBiAEIQMgByEEA0AgESAEKQAANwAAIBEgBCkACDcACCARIAQpABA3ABAgESAEKQAYNwAYIBEgBCkAIDcAICARIAQpACg3ACggESAEKQAwNwAwIBEgBCkAODcAOCAEQUBrIQQgCCAREAwgA0FAaiIDQT9LDQALIBAgC2shBCAGBSAHCyEDIAQEQEEAIQcMAgsFIAAhAyAGIQdBICEEDAELDAELIBEgB2ogAyAEEAsaCyANKAIAIgNBP3EhBCANIANBAWo2AgAgCEEgaiEDIARBP0YEQCADQQE6AD8gCCADEAwFIAMgBGpBAToAAAsgDSgCACIDQT9xIQQgDSADIAJqNgIAIAQgAmoiB0E/SwR/IAhBIGoiCyAEaiABQcAAIARrIgYQCxogASAGaiEDIAggCxAMIAIgBmsiAkE/SwR/IAdBgH9qIgZBQHEiB0GAAWogBGshBANAIAsgAykAADcAACALIAMpAAg3AAggCyADKQAQNwAQIAsgAykAGDcAGCALIAMpACA3ACAgCyADKQAoNwAoIAsgAykAMDcAMCALIAMpADg3ADggA0FAayEDIAggCxAMIAJBQGoiAkE/Sw0ACyABIARqIQEgBiAHayECQQAFIAMhAUEACwUgBAshAyACBEAgCEEgaiADaiABIAIQCxoLIAkgDSgCACIBQR12QRh0NgIAIAkgAUELdEGAgPwHcSABQRt0ciABQQV2QYD+A3FyIAFBFXZB/wFxcjYCBCANIAFBNyABa0E/cUEBaiICajYCACAIQSBqIQQCQAJAIAFBP3EiASACakE/SwRAIAQgAWpBho0EQcAAIAFrIgMQCxogA0GGjQRqIQEgCCAEEAwgAiADayICQT9LBEADQCAEIAEpAAA3AAAgBCABKQAINwAIIAQgASkAEDcAECAEIAEpABg3ABggBCABKQAgNwAgIAQgASkAKDcAKCAEIAEpADA3ADAgBCABKQA4NwA4IAFBQGshASAIIAQQDCACQUBqIgJBP0sNAAsLIAIEQCABIQNBACEBDAILBUGGjQQhAwwBCwwBCyAEIAFqIAMgAhALGgsgDSgCACIBQT9xIQMgDSABQQhqNgIAIAhBIGohBAJAAkAgA0EIakE/SwRAIAQgA2ogCUHAACADayICEAsaIAkgAmohASAIIAQQDEEIIAJrIgJBP0sEQANAIAQgASkAADcAACAEIAEpAAg3AAggBCABKQAQNwAQIAQgASkAGDcAGCAEIAEpACA3ACAgBCABKQAoNwAoIAQgASkAMDcAMCAEIAEpADg3ADggAUFAayEBIAggBBAMIAJBQGoiAkE/Sw0ACwsgAgRAQQAhAwwCCwUgCSEBQQghAgwBCwwBCyAEIANqIAEgAhALGgsgCCgCABAJIRAgCEEANgIAIBooAgAQCSELIBpBADYCACAbKAIAEAkhBiAbQQA2AgAgHCgCABAJIQcgHEEANgIAIB0oAgAQCSEEIB1BADYCACAeKAIAEAkhAyAeQQA2AgAgHygCABAJIQIgH0EANgIAICAoAgAQCSEBICBBADYCACAKIBA2AgAgIiALNgIAICMgBjYCACAkIAc2AgAgJSAENgIAICYgAzYCACAnIAI2AgAgKCABNgIAIA8oAgAiAUE/cSEDIA8gAUEgajYCAAJAAkAgA0EgakE/SwRAIAUgA2ogCkHAACADayIEEAsaIAogBGohAiAMIAUQDEEgIARrIgFBP0sEfyADQaB/aiIDQQZ2QQF0IQcgBEFAaiEEA0AgBSACKQAANwAAIAUgAikACDcACCAFIAIpABA3ABAgBSACKQAYNwAYIAUgAikAIDcAICAFIAIpACg3ACggBSACKQAwNwAwIAUgAikAODcAOCACQUBrIQIgDCAFEAwgAUFAaiIBQT9LDQALIANBP3EhAyAKIAdBBGpBBXRqIARqBSABIQMgAgshASADBEBBACECDAILBSAKIQEgAyECQSAhAwwBCwwBCyAFIAJqIAEgAxALGgsgCSAPKAIAIgFBHXZBGHQ2AgAgCSABQQt0QYCA/AdxIAFBG3RyIAFBBXZBgP4DcXIgAUEVdkH/AXFyNgIEIA8gAUE3IAFrQT9xQQFqIgJqNgIAAkACQCABQT9xIgEgAmpBP0sEQCAFIAFqQYaNBEHAACABayIDEAsaIANBho0EaiEBIAwgBRAMIAIgA2siAkE/SwRAA0AgBSABKQAANwAAIAUgASkACDcACCAFIAEpABA3ABAgBSABKQAYNwAYIAUgASkAIDcAICAFIAEpACg3ACggBSABKQAwNwAwIAUgASkAODcAOCABQUBrIQEgDCAFEAwgAkFAaiICQT9LDQALCyACBEAgASEDQQAhAQwCCwVBho0EIQMMAQsMAQsgBSABaiADIAIQCxoLIA8oAgAiAUE/cSEDIA8gAUEIajYCAAJAAkAgA0EIakE/SwRAIAUgA2ogCUHAACADayICEAsaIAkgAmohASAMIAUQDEEIIAJrIgJBP0sEQANAIAUgASkAADcAACAFIAEpAAg3AAggBSABKQAQNwAQIAUgASkAGDcAGCAFIAEpACA3ACAgBSABKQAoNwAoIAUgASkAMDcAMCAFIAEpADg3ADggAUFAayEBIAwgBRAMIAJBQGoiAkE/Sw0ACwsgAgRAQQAhAwwCCwUgCSEBQQghAgwBCwwBCyAFIANqIAEgAhALGgsgDCgCABAJIRAgDEEANgIAIBMoAgAQCSELIBNBADYCACAUKAIAEAkhBiAUQQA2AgAgFSgCABAJIQcgFUEANgIAIBYoAgAQCSEEIBZBADYCACAXKAIAEAkhAyAXQQA2AgAgGCgCABAJIQIgGEEANgIAICEoAgAQCSEBICFBADYCACAuIBA2AAAgLyALNgAAIDAgBjYAACAxIAc2AAAgMiAENgAAIDMgAzYAACA0IAI2AAAgNSABNgAAIAggGRARIA0oAgAiAUE/cSEEIA0gAUEgajYCACAIQSBqIQsCQAJAIARBIGpBP0sEQCALIARqIABBwAAgBGsiARALGiAAIAFqIQMgCCALEAxBICABayICQT9LBH8gAEHkAGogBEGgf2oiBkFAcSIHQRxyIARraiEEIAIhASADIQIDQCALIAIpAAA3AAAgCyACKQAINwAIIAsgAikAEDcAECALIAIpABg3ABggCyACKQAgNwAgIAsgAikAKDcAKCALIAIpADA3ADAgCyACKQA4NwA4IAJBQGshAiAIIAsQDCABQUBqIgFBP0sNAAsgBiAHayECIAQFIAMLIQEgAgRAQQAhAwwCCwUgACEBIAQhA0EgIQIMAQsMAQsgCyADaiABIAIQCxoLIAkgDSgCACIBQR12QRh0NgIAIAkgAUELdEGAgPwHcSABQRt0ciABQQV2QYD+A3FyIAFBFXZB/wFxcjYCBCANIAFBNyABa0E/cUEBaiICajYCACAIQSBqIQQCQAJAIAFBP3EiASACakE/SwRAIAQgAWpBho0EQcAAIAFrIgMQCxogA0GGjQRqIQEgCCAEEAwgAiADayICQT9LBEADQCAEIAEpAAA3AAAgBCABKQAINwAIIAQgASkAEDcAECAEIAEpABg3ABggBCABKQAgNwAgIAQgASkAKDcAKCAEIAEpADA3ADAgBCABKQA4NwA4IAFBQGshASAIIAQQDCACQUBqIgJBP0sNAAsLIAIEQCABIQNBACEBDAILBUGGjQQhAwwBCwwBCyAEIAFqIAMgAhALGgsgDSgCACIBQT9xIQMgDSABQQhqNgIAIAhBIGohBAJAAkAgA0EIakE/SwRAIAQgA2ogCUHAACADayICEAsaIAkgAmohASAIIAQQDEEIIAJrIgJBP0sEQANAIAQgASkAADcAACAEIAEpAAg3AAggBCABKQAQNwAQIAQgASkAGDcAGCAEIAEpACA3ACAgBCABKQAoNwAoIAQgASkAMDcAMCAEIAEpADg3ADggAUFAayEBIAggBBAMIAJBQGoiAkE/Sw0ACwsgAgRAQQAhAwwCCwUgCSEBQQghAgwBCwwBCyAEIANqIAEgAhALGgsgCCgCABAJIRAgCEEANgIAIBooAgAQCSELIBpBADYCACAbKAIAEAkhBiAbQQA2AgAgHCgCABAJIQcgHEEANgIAIB0oAgAQCSEEIB1BADYCACAeKAIAEAkhAyAeQQA2AgAgHygCABAJIQIgH0EANgIAICAoAgAQCSEBICBBADYCACAKIBA2AgAgIiALNgIAICMgBjYCACAkIAc2AgAgJSAENgIAICYgAzYCACAnIAI2AgAgKCABNgIAIA8oAgAiAUE/cSEDIA8gAUEgajYCAAJAAkAgA0EgakE/SwRAIAUgA2ogCkHAACADayIGEAsaIAogBmohAiAMIAUQDEEgIAZrIgFBP0sEfyADQaB/aiIHQQZ2QQF0IQQgBkFAaiEDA0AgBSACKQAANwAAIAUgAikACDcACCAFIAIpABA3ABAgBSACKQAYNwAYIAUgAikAIDcAICAFIAIpACg3ACggBSACKQAwNwAwIAUgAikAODcAOCACQUBrIQIgDCAFEAwgAUFAaiIBQT9LDQALIAdBP3EhASAKIARBBGpBBXRqIANqBSACCyEKIAEEQEEAIQIMAgsFIAMhAkEgIQEMAQsMAQsgBSACaiAKIAEQCxoLIAkgDygCACIBQR12QRh0NgIAIAkgAUELdEGAgPwHcSABQRt0ciABQQV2QYD+A3FyIAFBFXZB/wFxcjYCBCAPIAFBNyABa0E/cUEBaiICajYCAAJAAkAgAUE/cSIBIAJqQT9LBEAgBSABakGGjQRBwAAgAWsiChALGiAKQYaNBGohASAMIAUQDCACIAprIgJBP0sEQANAIAUgASkAADcAACAFIAEpAAg3AAggBSABKQAQNwAQIAUgASkAGDcAGCAFIAEpACA3ACAgBSABKQAoNwAoIAUgASkAMDcAMCAFIAEpADg3ADggAUFAayEBIAwgBRAMIAJBQGoiAkE/Sw0ACwsgAgRAIAEhCkEAIQEMAgsFQYaNBCEKDAELDAELIAUgAWogCiACEAsaCyAPKAIAIgFBP3EhAiAPIAFBCGo2AgACQCACQQhqQT9LBEAgBSACaiAJQcAAIAJrIgIQCxogCSACaiEBIAwgBRAMQQggAmsiAkE/SwRAA0AgBSABKQAANwAAIAUgASkACDcACCAFIAEpABA3ABAgBSABKQAYNwAYIAUgASkAIDcAICAFIAEpACg3ACggBSABKQAwNwAwIAUgASkAODcAOCABQUBrIQEgDCAFEAwgAkFAaiICQT9LDQALCyACBEBBACEJDAILIAwoAgAQCSEGIAxBADYCACATKAIAEAkhByATQQA2AgAgFCgCABAJIQQgFEEANgIAIBUoAgAQCSEDIBVBADYCACAWKAIAEAkhCiAWQQA2AgAgFygCABAJIQkgF0EANgIAIBgoAgAQCSECIBhBADYCACAhKAIAEAkhASAAIAY2AAAgKSAHNgAAICogBDYAACArIAM2AAAgLCAKNgAAIC0gCTYAACASIAI2AAAgDiABNgAAIABBQGtBADYCACAIJAQPBSAJIQEgAiEJQQghAgsLIAUgCWogASACEAsaIAwoAgAQCSEGIAxBADYCACATKAIAEAkhByATQQA2AgAgFCgCABAJIQQgFEEANgIAIBUoAgAQCSEDIBVBADYCACAWKAIAEAkhCiAWQQA2AgAgFygCABAJIQkgF0EANgIAIBgoAgAQCSECIBhBADYCACAhKAIAEAkhASAAIAY2AAAgKSAHNgAAICogBDYAACArIAM2AAAgLCAKNgAAIC0gCTYAACASIAI2AAAgDiABNgAAIABBQGtBADYCACAIJAQL5QQCDn8CfiMEIQMjBEEgaiQEIAMgASkCADcCACADIAEpAgg3AgggAyABKQIQNwIQIAMgASkCGDcCGCAAQQBBgAgQIxogA0EcaiIGKAIAIgFBf0oEf0EBBSADIAMoAgAiBEF/c61CwoLZgQ18IhEgBCABciADQQRqIgQoAgAiBXIgA0EIaiIIKAIAIgdyIANBDGoiCSgCACIKciADQRBqIgsoAgAiDHIgA0EUaiINKAIAIg5yIANBGGoiDygCACIQckEAR0EfdEEfda0iEoM+AgAgBCARQiCIQoy9yf4LhCAFQX9zrXwiESASgz4CACAIIAdBf3OtQrvAovoKfCARQiCIfCIRIBKDPgIAIAkgCkF/c61C5rm71Qt8IBFCIIh8IhEgEoM+AgAgCyAMQX9zrUL+////D3wgEUIgiHwiESASgz4CACANIA5Bf3OtQv////8PfCARQiCIfCIRIBKDPgIAIA8gEEF/c61C/////w98IBFCIIh8IhEgEoM+AgAgBiABQX9zrUL/////D3wgEUIgiHwgEoM+AgBBfwshCCACQX9qIQlBfyEBQQAhBkEAIQQDQCADIARBBXYiB0ECdGooAgAgBEEfcSIKdiIFQQFxIAZGBEBBASEFBSAEQX9qQYACIARrIgEgAkgEfyABBSACIgELakEFdiAHRwRAIAMgB0EBakECdGooAgBBICAKa3QgBXIhBQsgBUEBIAF0QX9qcSAGaiIFIAl2QQFxIQYgACAEQQJ0aiAFIAYgAnRrIAhsNgIAIAEhBSAEIQELIAUgBGoiBEGAAkgNAAsgAyQEIAFBAWoL0RcCGX8IfiABKAIAIAEoAiAiAq0iG0K//ab+An4iHKciA2ohGSABKAIEIhYgHEIgiKdqIBkgA0lqIgggASgCJCIDrSIcQr/9pv4CfiIfpyIFaiIGIBtC88K2gQR+Ih6nIgtqIgwgC0kgHkIgiKdqIQsgCCAWSSAfQiCIp2ogBiAFSWogC2oiBSABKAIIIgZqIgcgASgCKCIWrSIfQr/9pv4CfiIepyIQaiIEIBxC88K2gQR+Ih2nIghqIg8gCEkgHUIgiKdqIQggBSALSSAeQiCIp2ogByAGSWogBCAQSWogCGoiByAPIBtCxL/dhQV+Ih6nIgtqIgUgC0kgHkIgiKdqIhBqIgQgASgCDCIPaiITIAEoAiwiC60iHkK//ab+An4iHaciEWoiCSAfQvPCtoEEfiIgpyIGaiINIAZJICBCIIinaiEGIAcgCEkgHUIgiKdqIAQgEElqIBMgD0lqIAkgEUlqIAZqIgQgDSAcQsS/3YUFfiIdpyIIaiIHIAhJIB1CIIinaiIPaiITIAcgG0KZxsSqBH4iG6ciB2oiCCAHSSAbQiCIp2oiEWoiCSABKAIQIg1qIhIgASgCMCIHrSIbQr/9pv4CfiIdpyIKaiIOIB5C88K2gQR+IiCnIhBqIhQgEEkgIEIgiKdqIRAgBCAGSSAdQiCIp2ogEyAPSWogCSARSWogEiANSWogDiAKSWogEGoiDyAUIB9CxL/dhQV+Ih2nIgZqIgQgBkkgHUIgiKdqIhNqIhEgBCAcQpnGxKoEfiIcpyIGaiIEIAZJIBxCIIinaiIJaiINIAQgAmoiBiACSSISaiIKIAEoAhQiDmoiFCABKAI0IgStIhxCv/2m/gJ+Ih2nIhVqIhcgG0LzwraBBH4iIKciAmoiGCACSSAgQiCIp2ohAiAPIBBJIB1CIIinaiARIBNJaiANIAlJaiAKIBJJaiAUIA5JaiAXIBVJaiACaiITIBggHkLEv92FBX4iHaciEGoiDyAQSSAdQiCIp2oiEWoiCSAPIB9CmcbEqgR+Ih+nIhBqIg8gEEkgH0IgiKdqIg1qIhIgDyADaiIQIANJIgpqIg4gASgCGCIUaiIVIAEoAjgiD60iH0K//ab+An4iHaciF2oiGCAcQvPCtoEEfiIgpyIDaiIaIANJICBCIIinaiEDIBMgAkkgHUIgiKdqIAkgEUlqIBIgDUlqIA4gCklqIBUgFElqIBggF0lqIANqIgIgGiAbQsS/3YUFfiIdpyITaiIRIBNJIB1CIIinaiIJaiINIBEgHkKZxsSqBH4iHqciE2oiESATSSAeQiCIp2oiEmoiCiARIBZqIhMgFkkiEWoiDiABKAIcIhRqIhUgASgCPCIWrSIeQr/9pv4CfiIdpyIXaiIYIB9C88K2gQR+IiCnIgFqIhogAUkgIEIgiKdqIQEgAiADSSAdQiCIp2ogDSAJSWogCiASSWogDiARSWogFSAUSWogGCAXSWogAWoiAiAaIBxCxL/dhQV+Ih2nIgNqIhEgA0kgHUIgiKdqIglqIg0gESAbQpnGxKoEfiIbpyIDaiIRIANJIBtCIIinaiISaiIKIBEgC2oiESALSSILaiIOIB5C88K2gQR+IhunIgNqIhQgA0kgG0IgiKdqIQMgDSAJSSACIAFJaiAKIBJJaiAOIAtJaiADaiILIBQgH0LEv92FBX4iG6ciAWoiAiABSSAbQiCIp2oiCWoiDSACIBxCmcbEqgR+IhunIgFqIgIgAUkgG0IgiKdqIhJqIgogAiAHaiICIAdJIgdqIg4gHkLEv92FBX4iG6ciAWoiFCABSSAbQiCIp2ohASANIAlJIAsgA0lqIAogEklqIA4gB0lqIAFqIgsgFCAfQpnGxKoEfiIbpyIDaiIHIANJIBtCIIinaiIJaiINIAcgBGoiAyAESSIEaiISIB5CmcbEqgR+IhunIgdqIgogB0kgG0IgiKdqIQcgDSAJSSALIAFJaiASIARJaiAHaiIJIAogD2oiCyAPSSIPaiINIBZqIQEgGSACrSIbQr/9pv4CfiIcpyIEaiEZIAwgHEIgiKdqIBkgBElqIhIgA60iHEK//ab+An4iH6ciCmoiDiAbQvPCtoEEfiIepyIEaiIUIARJIB5CIIinaiEEIB9CIIinIBIgDElqIA4gCklqIARqIhIgBWoiCiALrSIfQr/9pv4CfiIepyIOaiIVIBxC88K2gQR+Ih2nIgxqIhcgDEkgHUIgiKdqIQwgEiAESSAeQiCIp2ogCiAFSWogFSAOSWogDGoiBCAXIBtCxL/dhQV+Ih6nIgVqIhIgBUkgHkIgiKdqIgpqIg4gCGoiFSABrSIeQr/9pv4CfiIdpyIXaiIYIB9C88K2gQR+IiCnIgVqIhogBUkgIEIgiKdqIQUgBCAMSSAdQiCIp2ogDiAKSWogFSAISWogGCAXSWogBWoiCCAaIBxCxL/dhQV+Ih2nIgxqIgQgDEkgHUIgiKdqIgpqIg4gBCAbQpnGxKoEfiIbpyIMaiIEIAxJIBtCIIinaiIVaiIXIAZqIhggDSAPSSAJIAdJaiABIBZJaiIWrSIbQr/9pv4CfiIdpyIHaiIPIB5C88K2gQR+IiCnIgxqIgkgDEkgIEIgiKdqIQwgCCAFSSAdQiCIp2ogDiAKSWogFyAVSWogGCAGSWogDyAHSWogDGoiCCAJIB9CxL/dhQV+Ih2nIgVqIgYgBUkgHUIgiKdqIgVqIgcgBiAcQpnGxKoEfiIcpyIGaiIPIAZJIBxCIIinaiIGaiIJIA8gAmoiDyACSSINaiIKIBBqIg4gG0LzwraBBH4iHKciAmoiFSACSSAcQiCIp2ohAiAHIAVJIAggDElqIAkgBklqIAogDUlqIA4gEElqIAJqIgwgFSAeQsS/3YUFfiIcpyIIaiIFIAhJIBxCIIinaiIIaiIGIAUgH0KZxsSqBH4iHKciBWoiByAFSSAcQiCIp2oiBWoiECAHIANqIgcgA0kiCWoiDSATaiIKIBtCxL/dhQV+IhynIgNqIg4gA0kgHEIgiKdqIQMgBiAISSAMIAJJaiAQIAVJaiANIAlJaiAKIBNJaiADaiIMIA4gHkKZxsSqBH4iHKciAmoiCCACSSAcQiCIp2oiBWoiBiAIIAtqIgggC0kiC2oiECARaiITIBtCmcbEqgR+IhunIglqIg0gAWohAiAAIBYgG0IgiKdqIAwgA0lqIAYgBUlqIBAgC0lqIBMgEUlqIA0gCUlqIAIgAUlqrSIbQr/9pv4CfiAZrXwiHKciBTYCACAAQQRqIgYgG0LzwraBBH4gFK18IBxCIIh8Ih+nIgE2AgAgAEEIaiIQIBtCxL/dhQV+IBKtfCAfQiCIfCIepyIDNgIAIABBDGoiEyAbQpnGxKoEfiAErXwgHkIgiHwiHaciCzYCACAAQRBqIgQgGyAPrXwgHUIgiHwiG6ciGTYCACAAQRRqIgwgG0IgiCAHrXwiID4CACAAQRhqIhYgIEIgiCAIrXwiIT4CACAAQRxqIgggIUIgiCACrXwiIj4CACAAIBxC/////w+DICJCIIggGUF+SSAgICEgIoODp0F/R3IiAEEBcyAZQX9GcSICQQFzIAtB5rm71XtJcSAAciIAQQFzIAtB5rm71XtLcSACciICQQFzIANBu8Ci+npJcSAAciIAQQFzIANBu8Ci+npLcSACciICQQFzIAFBjL3J/ntJcSAAckF/cyIAIAFBjL3J/ntLcSACciAAIAVBwILZgX1LcXKtfCIcpyIAQb/9pv4CbK18IiA+AgAgBiAfQv////8PgyAAQfPCtoEEbK18ICBCIIh8Ih8+AgAgECAeQv////8PgyAAQcS/3YUFbK18IB9CIIh8Ih8+AgAgEyAdQv////8PgyAAQZnGxKoEbK18IB9CIIh8Ih8+AgAgBCAcQv////8PgyAbQv////8Pg3wgH0IgiHwiGz4CACAMIBtCIIggDCgCAK18Ihs+AgAgFiAbQiCIIBYoAgCtfCIbPgIAIAggG0IgiCAIKAIArXw+AgAL2AMBE38jBCECIwRB0ABqJAQgAiABQdAAahAHIAIgAiAAEAogASgCJCIGQRZ2IgBB0QdsIAEoAgBqIQQgAEEGdCABKAIEaiAEQRp2aiIHQRp2IAEoAghqIghBGnYgASgCDGoiCUEadiABKAIQaiIKQRp2IAEoAhRqIgtBGnYgASgCGGoiDEEadiABKAIcaiINQRp2IAEoAiBqIQVB/P3//wAgAigCBGshDkH8////ACACKAIIayEPQfz///8AIAIoAgxrIRBB/P///wAgAigCEGshEUH8////ACACKAIUayESQfz///8AIAIoAhhrIRNB/P///wAgAigCHGshFEH8////ACACKAIgayEBIAIoAiQhACACQShqIgNBvOH//wAgAigCAGsgBEH///8fcWo2AgAgAyAOIAdB////H3FqNgIEIAMgDyAIQf///x9xajYCCCADIBAgCUH///8fcWo2AgwgAyARIApB////H3FqNgIQIAMgEiALQf///x9xajYCFCADIBMgDEH///8fcWo2AhggAyAUIA1B////H3FqNgIcIAMgASAFQf///x9xajYCICADIAZB////AXFB/P//B2ogAGsgBUEadmo2AiQgAxAWIQAgAiQEIAALzgQBBn8jBCEDIwRBMGokBCADIgZBADYCACAGQQhqIgdCADcAACAHQgA3AAggB0IANwAQIAdCADcAGAJ/IAEoAgAiBCACRgR/QQAFIAQsAABBAkYEfyABIARBAWoiAzYCACADIAJJBH8gASAEQQJqIgQ2AgAgAywAACIFQf8BcSEDIAVBf0YEf0EABSADQYABcQRAQQAgBUGAf0YNBRpBACADQf8AcSIFIAIgBGsiCEoNBRpBACAFQX9qQQNLIAQsAAAiA0VyDQUaQQAgBSADQf8BcSIDaiAISw0FGgNAAkAgASAEQQFqIgQ2AgAgBUEBTA0AQQAgA0EIdCAELQAAciIDIAVBf2oiBWogAiAEa0sNBxoMAQsLQQAgA0GAAUkNBRoLIANBAUggBCADaiACS3IEf0EABQJAIANBAUoiAiAELAAAIgVFcQRAIAQsAAFBf0oEQEEADAgFQQAhBQsFIAIgBUF/RnEEQEEAIAQsAAFBAEgNCBoFIAVBAE4EQEEAIQUMAwsLIAZBATYCAEEBIQULCyADIQIgBCEDAkACQAJAAkADQCADLAAADQEgAkF/aiEEIAEgA0EBaiIDNgIAIAJBAUoEQCAEIQIMAQUgBCECDAMLAAsACyACQSBKBEAgBkEBNgIADAILCyAFDQAgB0EgaiACayADIAIQCxogACAHIAYQDiAGKAIADQAMAQsgAEIANwIAIABCADcCCCAAQgA3AhAgAEIANwIYCyABIAEoAgAgAmo2AgBBAQsLBUEACwVBAAsLCyEAIAYkBCAAC5wEAQJ/IAAgAUEkaiIDKAIAQQ52OgAAIAAgAygCAEEGdjoAASAAIAFBIGoiAigCAEEYdkEDcSADKAIAQQJ0cjoAAiAAIAIoAgBBEHY6AAMgACACKAIAQQh2OgAEIAAgAigCADoABSAAIAFBHGoiAigCAEESdjoABiAAIAIoAgBBCnY6AAcgACACKAIAQQJ2OgAIIAAgAUEYaiIDKAIAQRR2QT9xIAIoAgBBBnRyOgAJIAAgAygCAEEMdjoACiAAIAMoAgBBBHY6AAsgACABQRRqIgIoAgBBFnZBD3EgAygCAEEEdHI6AAwgACACKAIAQQ52OgANIAAgAigCAEEGdjoADiAAIAFBEGoiAygCAEEYdkEDcSACKAIAQQJ0cjoADyAAIAMoAgBBEHY6ABAgACADKAIAQQh2OgARIAAgAygCADoAEiAAIAFBDGoiAigCAEESdjoAEyAAIAIoAgBBCnY6ABQgACACKAIAQQJ2OgAVIAAgAUEIaiIDKAIAQRR2QT9xIAIoAgBBBnRyOgAWIAAgAygCAEEMdjoAFyAAIAMoAgBBBHY6ABggACABQQRqIgIoAgBBFnZBD3EgAygCAEEEdHI6ABkgACACKAIAQQ52OgAaIAAgAigCAEEGdjoAGyAAIAEoAgBBGHZBA3EgAigCAEECdHI6ABwgACABKAIAQRB2OgAdIAAgASgCAEEIdjoAHiAAIAEoAgA6AB8LwQQBA38gACABKAIAQf///x9xNgIAIAAgAUEEaiICKAIAQQZ0QcD//x9xIAEoAgBBGnZyNgIEIAAgAUEIaiIDKAIAQQx0QYDg/x9xIAIoAgBBFHZyNgIIIAAgAUEMaiIEKAIAQRJ0QYCA8B9xIAMoAgBBDnZyNgIMIAAgAUEQaiICKAIAQRh0QYCAgBhxIAQoAgBBCHZyNgIQIAAgAigCAEECdkH///8fcTYCFCAAIAFBFGoiAygCAEEEdEHw//8fcSACKAIAQRx2cjYCGCAAIAFBGGoiAigCAEEKdEGA+P8fcSADKAIAQRZ2cjYCHCAAIAFBHGoiAygCAEEQdEGAgPwfcSACKAIAQRB2cjYCICAAIAMoAgBBCnY2AiQgACABQSBqIgIoAgBB////H3E2AiggACABQSRqIgMoAgBBBnRBwP//H3EgAigCAEEadnI2AiwgACABQShqIgIoAgBBDHRBgOD/H3EgAygCAEEUdnI2AjAgACABQSxqIgMoAgBBEnRBgIDwH3EgAigCAEEOdnI2AjQgACABQTBqIgIoAgBBGHRBgICAGHEgAygCAEEIdnI2AjggACACKAIAQQJ2Qf///x9xNgI8IABBQGsgAUE0aiIDKAIAQQR0QfD//x9xIAIoAgBBHHZyNgIAIAAgAUE4aiICKAIAQQp0QYD4/x9xIAMoAgBBFnZyNgJEIAAgAUE8aiIBKAIAQRB0QYCA/B9xIAIoAgBBEHZyNgJIIAAgASgCAEEKdjYCTCAAQQA2AlALhRQBE38jBCEIIwRB4ARqJAQgCEHIAWohBCAIQaABaiEJIAhB+ABqIQUgACABKQIANwIAIAAgASkCCDcCCCAAIAEpAhA3AhAgACABKQIYNwIYIAAgASkCIDcCICAIQdAAaiIGIAEQByAIQShqIgMgASAGEAogAEEANgJQIAggAygCAEEHajYCACAIQQRqIg0gAygCBDYCACAIQQhqIg8gAygCCDYCACAIQQxqIhAgAygCDDYCACAIQRBqIhEgAygCEDYCACAIQRRqIhIgAygCFDYCACAIQRhqIhMgAygCGDYCACAIQRxqIhQgAygCHDYCACAIQSBqIhUgAygCIDYCACAIQSRqIg4gAygCJDYCACAIQbAEaiIMIAgQByAMIAwgCBAKIAhBiARqIgsgDBAHIAsgCyAIEAogCEHgA2oiASALKQIANwIAIAEgCykCCDcCCCABIAspAhA3AhAgASALKQIYNwIYIAEgCykCIDcCICABIAEQByABIAEQByABIAEQByABIAEgCxAKIAhBuANqIgMgASkCADcCACADIAEpAgg3AgggAyABKQIQNwIQIAMgASkCGDcCGCADIAEpAiA3AiAgAyADEAcgAyADEAcgAyADEAcgAyADIAsQCiAIQZADaiIBIAMpAgA3AgAgASADKQIINwIIIAEgAykCEDcCECABIAMpAhg3AhggASADKQIgNwIgIAEgARAHIAEgARAHIAEgASAMEAogCEHoAmoiByABKQIANwIAIAcgASkCCDcCCCAHIAEpAhA3AhAgByABKQIYNwIYIAcgASkCIDcCICAHIAcQByAHIAcQByAHIAcQByAHIAcQByAHIAcQByAHIAcQByAHIAcQByAHIAcQByAHIAcQByAHIAcQByAHIAcQByAHIAcgARAKIAhBwAJqIgYgBykCADcCACAGIAcpAgg3AgggBiAHKQIQNwIQIAYgBykCGDcCGCAGIAcpAiA3AiAgBiAGEAcgBiAGEAcgBiAGEAcgBiAGEAcgBiAGEAcgBiAGEAcgBiAGEAcgBiAGEAcgBiAGEAcgBiAGEAcgBiAGEAcgBiAGEAcgBiAGEAcgBiAGEAcgBiAGEAcgBiAGEAcgBiAGEAcgBiAGEAcgBiAGEAcgBiAGEAcgBiAGEAcgBiAGEAcgBiAGIAcQCiAIQZgCaiIDIAYpAgA3AgAgAyAGKQIINwIIIAMgBikCEDcCECADIAYpAhg3AhggAyAGKQIgNwIgIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAxAHIAMgAyAGEAogCEHwAWoiCiADKQIANwIAIAogAykCCDcCCCAKIAMpAhA3AhAgCiADKQIYNwIYIAogAykCIDcCIEEAIQEDQCAKIAoQByABQQFqIgFB2ABHDQALIAogCiADEAogBCAKKQIANwIAIAQgCikCCDcCCCAEIAopAhA3AhAgBCAKKQIYNwIYIAQgCikCIDcCICAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQQByAEIAQgBhAKIAkgBCkCADcCACAJIAQpAgg3AgggCSAEKQIQNwIQIAkgBCkCGDcCGCAJIAQpAiA3AiAgCSAJEAcgCSAJEAcgCSAJEAcgCSAJIAsQCiAFIAkpAgA3AgAgBSAJKQIINwIIIAUgCSkCEDcCECAFIAkpAhg3AhggBSAJKQIgNwIgIAUgBRAHIAUgBRAHIAUgBRAHIAUgBRAHIAUgBRAHIAUgBRAHIAUgBRAHIAUgBRAHIAUgBRAHIAUgBRAHIAUgBRAHIAUgBRAHIAUgBRAHIAUgBRAHIAUgBRAHIAUgBRAHIAUgBRAHIAUgBRAHIAUgBRAHIAUgBRAHIAUgBRAHIAUgBRAHIAUgBRAHIAUgBSAHEAogBSAFEAcgBSAFEAcgBSAFEAcgBSAFEAcgBSAFEAcgBSAFEAcgBSAFIAwQCiAFIAUQByAAQShqIgEgBRAHIAUgARAHQbzh//8AIAUoAgBrIAgoAgBqIA4oAgBB/P//ByAFKAIka2oiDkEWdiIDQdEHbGohBEH8////ACAFKAIgayAVKAIAakH8////ACAFKAIcayAUKAIAakH8////ACAFKAIYayATKAIAakH8////ACAFKAIUayASKAIAakH8////ACAFKAIQayARKAIAakH8////ACAFKAIMayAQKAIAakH8////ACAFKAIIayAPKAIAakH8/f//ACAFKAIEayANKAIAaiADQQZ0aiAEQRp2aiIDQRp2aiIFQRp2aiIGQRp2aiIHQRp2aiIJQRp2aiIKQRp2aiILQRp2aiIMQRp2IA5B////AXFqIQ0gAyAEciAFciAGciAHciAJciAKciALciAMckH///8fcSANcgR/IANBwABzIARB0AdzcSAFcSAGcSAHcSAJcSAKcSALcSAMcSANQYCAgB5zcUH///8fRwVBAAsEQCAIJARBAA8LIAEQHyABKAIAIgRBAXEgAkYEQCAIJARBAQ8LIAFBvOH//wAgBGs2AgAgAEEsaiIBQfz9//8AIAEoAgBrNgIAIABBMGoiAUH8////ACABKAIAazYCACAAQTRqIgFB/P///wAgASgCAGs2AgAgAEE4aiIBQfz///8AIAEoAgBrNgIAIABBPGoiAUH8////ACABKAIAazYCACAAQUBrIgFB/P///wAgASgCAGs2AgAgAEHEAGoiAUH8////ACABKAIAazYCACAAQcgAaiIBQfz///8AIAEoAgBrNgIAIABBzABqIgBB/P//ByAAKAIAazYCACAIJARBAQvVCwIRfwJ+IwQhBiMEQaADaiQEIAZBuAJqIgJCADcAACACQgA3AAggAkIANwAQIAJCADcAGCACQgA3ACAgAkIANwAoIAJCADcAMCACQgA3ADggAUUEQCAAQQA2ApwBIABBJGoiA0GQiAQpAgA3AgAgA0GYiAQpAgA3AgggA0GgiAQpAgA3AhAgA0GoiAQpAgA3AhggA0GwiAQpAgA3AiAgAEEBNgJ0IABB+ABqIgNCADcCACADQgA3AgggA0IANwIQIANCADcCGCADQQA2AiAgAEGEuLznADYCTCAAQf61r/AANgJQIABBuMz59QA2AlQgAEHny/X2ADYCWCAAQcjQi/gANgJcIABB0vvu4wA2AmAgAEG8gMHtADYCZCAAQYbVuecANgJoIABB2bKj7AA2AmwgAEHG4rcHNgJwIABBATYCBCAAQQhqIgNCADcCACADQgA3AgggA0IANwIQIANBADYCGAsgBkH4AmoiBSAAQQRqIg4QEiACIAUpAAA3AAAgAiAFKQAINwAIIAIgBSkAEDcAECACIAUpABg3ABggAUEARyIHBEAgAkEgaiIDIAEpAAA3AAAgAyABKQAINwAIIAMgASkAEDcAECADIAEpABg3ABgLIAZBkAJqIQggBkHwAWohBCAGQfAAaiEDIAZByABqIQEgBkEEaiIPIAIgBwR/QcAABUEgCxAlIAJCADcAACACQgA3AAggAkIANwAQIAJCADcAGCACQgA3ACAgAkIANwAoIAJCADcAMCACQgA3ADggAUEEaiECIAFBCGohByABQQxqIQkgAUEQaiEKIAFBFGohCyABQRhqIQwgAUEcaiENIAFBIGohECABQSRqIREDQCAPIAUQHSAGIAEgBRAURSACKAIAIAEoAgByIAcoAgByIAkoAgByIAooAgByIAsoAgByIAwoAgByIA0oAgByIBAoAgByIBEoAgByRXIiEjYCACASDQALIAggARAHIABBJGoiAiACIAgQCiAAQcwAaiIHIAcgCBAKIAcgByABEAogAEH0AGoiCCAIIAEQCiABQgA3AgAgAUIANwIIIAFCADcCECABQgA3AhggAUIANwIgIARBBGohASAEQQhqIQggBEEMaiEHIARBEGohCSAEQRRqIQogBEEYaiELIARBHGohDANAIA8gBRAdIAQgBSAGEA4gBiAGKAIAIAEoAgAgBCgCAHIgCCgCAHIgBygCAHIgCSgCAHIgCigCAHIgCygCAHIgDCgCAHJFciINNgIAIA0NAAsgBUIANwAAIAVCADcACCAFQgA3ABAgBUIANwAYIAAgAyAEECAgBCAEKAIAIgBBf3OtQsKC2YENfCITIAEoAgAiBSAAciAIKAIAIgByIAcoAgAiD3IgCSgCACINciAKKAIAIhByIAsoAgAiEXIgDCgCACISckEAR0EfdEEfda0iFIM+AgAgASATQiCIQoy9yf4LhCAFQX9zrXwiEyAUgz4CACAIIABBf3OtQrvAovoKfCATQiCIfCITIBSDPgIAIAcgD0F/c61C5rm71Qt8IBNCIIh8IhMgFIM+AgAgCSANQX9zrUL+////D3wgE0IgiHwiEyAUgz4CACAKIBBBf3OtQv////8PfCATQiCIfCITIBSDPgIAIAsgEUF/c61C/////w98IBNCIIh8IhMgFIM+AgAgDCASQX9zrUL/////D3wgE0IgiHwgFIM+AgAgDiAEKQIANwIAIA4gBCkCCDcCCCAOIAQpAhA3AhAgDiAEKQIYNwIYIAIgAykCADcCACACIAMpAgg3AgggAiADKQIQNwIQIAIgAykCGDcCGCACIAMpAiA3AiAgAiADKQIoNwIoIAIgAykCMDcCMCACIAMpAjg3AjggAkFAayADQUBrKQIANwIAIAIgAykCSDcCSCACIAMpAlA3AlAgAiADKQJYNwJYIAIgAykCYDcCYCACIAMpAmg3AmggAiADKQJwNwJwIAIgAygCeDYCeCAGJAQL9gsCDn8BfiMEIQwjBEHwAmokBCAMQQA2AgAgACAMQfwAaiIIIAUQICAMQShqIgcgCCgCeDYCUCAIQdAAaiILIAsQFSAMQaACaiIAIAsQByAMQfgBaiIJIAsgABAKIAggCCAAEAogCEEoaiIAIAAgCRAKIAtBATYCACAIQdQAaiILQgA3AgAgC0IANwIIIAtCADcCECALQgA3AhggC0EANgIgIAcgCCkCADcCACAHIAgpAgg3AgggByAIKQIQNwIQIAcgCCkCGDcCGCAHIAgpAiA3AiAgB0EoaiILIAApAgA3AgAgCyAAKQIINwIIIAsgACkCEDcCECALIAApAhg3AhggCyAAKQIgNwIgIAcQGyALEBsgDEHIAmoiACAHKAIkIgpBDnY6AAAgACAKQQZ2OgABIAAgBygCICIJQRh2QQNxIApBAnRyOgACIAAgCUEQdjoAAyAAIAlBCHY6AAQgACAJOgAFIAAgBygCHCIJQRJ2OgAGIAAgCUEKdjoAByAAIAlBAnY6AAggACAHKAIYIgpBFHZBP3EgCUEGdHI6AAkgACAKQQx2OgAKIAAgCkEEdjoACyAAIAcoAhQiCUEWdkEPcSAKQQR0cjoADCAAIAlBDnY6AA0gACAJQQZ2OgAOIAAgBygCECIKQRh2QQNxIAlBAnRyOgAPIAAgCkEQdjoAECAAIApBCHY6ABEgACAKOgASIAAgBygCDCIJQRJ2OgATIAAgCUEKdjoAFCAAIAlBAnY6ABUgACAHKAIIIgpBFHZBP3EgCUEGdHI6ABYgACAKQQx2OgAXIAAgCkEEdjoAGCAAIAcoAgQiCUEWdkEPcSAKQQR0cjoAGSAAIAlBDnY6ABogACAJQQZ2OgAbIAAgBygCACIKQRh2QQNxIAlBAnRyOgAcIAAgCkEQdjoAHSAAIApBCHY6AB4gACAKOgAfIAEgACAMEA4gBkEARyIKBEAgBiAMKAIABH9BAgVBAAsgCygCAEEBcXI2AgALIAxBCGoiACABIAMQDSAAIAAgBBAcIAIgBRAeIAIgAiAAEA0gAEIANwIAIABCADcCCCAAQgA3AhAgAEIANwIYIAhCADcCACAIQgA3AgggCEIANwIQIAhCADcCGCAIQgA3AiAgCEIANwIoIAhCADcCMCAIQgA3AjggCEFAa0IANwIAIAhCADcCSCAIQgA3AlAgCEIANwJYIAhCADcCYCAIQgA3AmggCEIANwJwIAhBADYCeCAHQgA3AgAgB0IANwIIIAdCADcCECAHQgA3AhggB0IANwIgIAdCADcCKCAHQgA3AjAgB0IANwI4IAdBQGtCADcCACAHQgA3AkggB0EANgJQIAJBBGoiDigCACIAIAIoAgAiAXIgAkEIaiIPKAIAIgNyIAJBDGoiECgCACIEciACQRBqIhEoAgAiCHIgAkEUaiISKAIAIgtyIAJBGGoiEygCACIJciACQRxqIhQoAgAiBXJFBEAgDCQEQQAPCyAJQX9HIAVBH3YiDUF/cyIHcSAFQf////8HSXIgByALQX9HcXIgByAIQX9HcXIgByAEQfPc3eoFSXFyIgdBAXMgBEHz3N3qBUtxIA1yIg1BAXMgA0GdoJG9BUlxIAdyIgdBAXMgA0GdoJG9BUtxIA1yIg1BAXMgAEHG3qT/fUlxIAdyQX9zIgcgAEHG3qT/fUtxIA1yIAcgAUGgwezABktxckUEQCAMJARBAQ8LIAJBwYLZgX0gAWs2AgAgDiABQX9zrULCgtmBDXxCIIhCjL3J/guEIABBf3OtfCIVPgIAIA8gA0F/c61Cu8Ci+gp8IBVCIIh8IhU+AgAgECAEQX9zrULmubvVC3wgFUIgiHwiFT4CACARIAhBf3OtQv7///8PfCAVQiCIfCIVPgIAIBIgC0F/c61C/////w98IBVCIIh8IhU+AgAgEyAJQX9zrUL/////D3wgFUIgiHwiFT4CACAUIAVBf3OtQv////8PfCAVQiCIfD4CACAKRQRAIAwkBEEBDwsgBiAGKAIAQQFzNgIAIAwkBEEBC4gJARN/IwQhBCMEQcACaiQEIAFFBEBB8ogEIAAoAqgBIAAoAqQBQQNxQQJqEQAAIAQkBEEADwsgAUIANwAAIAFCADcACCABQgA3ABAgAUIANwAYIAFCADcAICABQgA3ACggAUIANwAwIAFCADcAOCACRQRAQYGJBCAAKAKoASAAKAKkAUEDcUECahEAACAEJARBAA8LIARB+AFqIQUgBEHQAWohBiAEQagBaiEAIARBgAFqIQggBEHYAGohBwJAAkACQAJAIANBIWsOIQACAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAQILIAIsAABB/gFxQQJHBEAgBCQEQQAPCyAFIAJBAWoQFAR/IAQgBSACLAAAQQNGECxBAEcFQQALIQAMAgsCQAJAAkAgAiwAAEEEaw4EAAEAAAELDAELIAQkBEEADwsCfyAIIAJBAWoQFAR/IAcgAkEhahAUBH8gBEEANgJQIAQgCCkCADcCACAEIAgpAgg3AgggBCAIKQIQNwIQIAQgCCkCGDcCGCAEIAgpAiA3AiAgBEEoaiIDIAcpAgA3AgAgAyAHKQIINwIIIAMgBykCEDcCECADIAcpAhg3AhggAyAHKQIgNwIgIAIsAAAiAkH+AXFBBkYEQEEAIAJBB0YgBygCAEEBcUEAR3MNAxoLIAYgAxAHIAAgBBAHIAAgACAEEAogACgCAEEHaiAAKAIkIgNBFnYiB0HRB2xqIQIgB0EGdCAAKAIEaiACQRp2aiIHQRp2IAAoAghqIghBGnYgACgCDGoiCUEadiAAKAIQaiIKQRp2IAAoAhRqIgtBGnYgACgCGGoiDEEadiAAKAIcaiINQRp2IAAoAiBqIQAgBigCBCEOIAYoAgghDyAGKAIMIRAgBigCECERIAYoAhQhEiAGKAIYIRMgBigCHCEUQfz///8AIAYoAiBrIRUgBigCJCEWIAVBvOH//wAgBigCAGsgAkH///8fcWo2AgAgBUH8/f//ACAOayAHQf///x9xajYCBCAFQfz///8AIA9rIAhB////H3FqNgIIIAVB/P///wAgEGsgCUH///8fcWo2AgwgBUH8////ACARayAKQf///x9xajYCECAFQfz///8AIBJrIAtB////H3FqNgIUIAVB/P///wAgE2sgDEH///8fcWo2AhggBUH8////ACAUayANQf///x9xajYCHCAFIBUgAEH///8fcWo2AiAgBSADQf///wFxQfz//wdqIBZrIABBGnZqNgIkIAUQFgVBAAsFQQALCyEADAELIAQkBEEADwsgAEUEQCAEJARBAA8LIAUgBBAXIAEgBSkAADcAACABIAUpAAg3AAggASAFKQAQNwAQIAEgBSkAGDcAGCABIAUpACA3ACAgASAFKQAoNwAoIAEgBSkAMDcAMCABIAUpADg3ADggBEIANwIAIARCADcCCCAEQgA3AhAgBEIANwIYIARCADcCICAEQgA3AiggBEIANwIwIARCADcCOCAEQUBrQgA3AgAgBEIANwJIIARBADYCUCAEJARBAQsIAEEAEABBAAtdAQF/IAEgAEggACABIAJqSHEEQCABIAJqIQEgACIDIAJqIQADQCACQQBKBEAgAkEBayECIABBAWsiACABQQFrIgEsAAA6AAAMAQsLIAMhAAUgACABIAIQCxoLIAAL/AkCDX8BfiMEIQIjBEHwA2okBEG0ARATIgVFBEAQBQsgBUGICCkDACIONwKkASAFQawBaiIDQYAIKQMANwIAIABB/wFxQQFHBEBB5IgEIA5CIIinIA6nQQNxQQJqEQAAIAUQGCACJARBAA8LIAVBADYCACAFQQRqIgFBADYCACAAQYAEcQRAIAFBkAg2AgAgAUEAEC0LIABBgAJxRQRAIAIkBCAFDwsgAkHIA2ohCCACQaADaiEMIAJBpAJqIQQgAkHQAWohACACQfwAaiEJIAUoAgBFBEAgAkEANgJ4IAJBkIgEKQIANwIAIAJBmIgEKQIANwIIIAJBoIgEKQIANwIQIAJBqIgEKQIANwIYIAJBsIgEKQIANwIgIAJBKGoiBkG4iAQpAgA3AgAgBkHAiAQpAgA3AgggBkHIiAQpAgA3AhAgBkHQiAQpAgA3AhggBkHYiAQpAgA3AiAgAkEBNgJQIAJB1ABqIgFCADcCACABQgA3AgggAUIANwIQIAFCADcCGCABQQA2AiBBgIDAABATIg1FBEBB2owEIAUoArABIAMoAgBBA3FBAmoRAAALIAUgDTYCAEGAgPwAEBMiAUUEQEHajAQgBSgCsAEgAygCAEEDcUECahEAAAtBgIDUABATIgpFBEBB2owEIAUoArABIAMoAgBBA3FBAmoRAAALQYCAKBATIgtFBEBB2owEIAUoArABIAMoAgBBA3FBAmoRAAALIAQgAkEAEBkgCSAEKQIANwIAIAkgBCkCCDcCCCAJIAQpAhA3AhAgCSAEKQIYNwIYIAkgBCkCIDcCICAJQShqIgMgBEEoaiIHKQIANwIAIAMgBykCCDcCCCADIAcpAhA3AhAgAyAHKQIYNwIYIAMgBykCIDcCICAJQQA2AlAgCCAEQdAAaiIDEAcgDCAIIAMQCiAAIAIgCBAKIABBKGoiByAGIAwQCiAAQQA2AlAgASAAKQIANwIAIAEgACkCCDcCCCABIAApAhA3AhAgASAAKQIYNwIYIAEgACkCIDcCICABQShqIgAgBykCADcCACAAIAcpAgg3AgggACAHKQIQNwIQIAAgBykCGDcCGCAAIAcpAiA3AiAgAUHQAGoiACACQdAAaiIGKQIANwIAIAAgBikCCDcCCCAAIAYpAhA3AhAgACAGKQIYNwIYIAAgBikCIDcCICABQQA2AnggCyADKQIANwIAIAsgAykCCDcCCCALIAMpAhA3AhAgCyADKQIYNwIYIAsgAykCIDcCIEEBIQADQCABIABB/ABsaiABIABBf2pB/ABsaiAJIAsgAEEobGoQDyAAQQFqIgBBgIABRw0ACyABQdT/+wBqIgAgACADEAogBCAAEBUgCCAEEAcgDCAIIAQQCiAKQaz/0wBqIAFBhP/7AGogCBAKIApB1P/TAGogAUGs//sAaiAMEAogCkH8/9MAaiABQfz/+wBqKAIANgIAQf//ACEAA0AgBCAEIAsgAEEobGoQCiAIIAQQByAMIAggBBAKIAogAEF/aiIAQdQAbGogASAAQfwAbGogCBAKIAogAEHUAGxqQShqIAEgAEH8AGxqQShqIAwQCiAKIABB1ABsaiABIABB/ABsaigCeDYCUCAADQALQQAhAANAIA0gAEEGdGogCiAAQdQAbGoQFyAAQQFqIgBBgIABRw0ACyAKEBggARAYIAsQGAsgAiQEIAULBgBBuJEEC7cQAhZ/An4jBCEFIwRBkAZqJAQgACgCAEUEQEGGiwQgACgCqAEgACgCpAFBA3FBAmoRAAAgBSQEQQAPCyADRQRAQbqLBCAAKAKoASAAKAKkAUEDcUECahEAACAFJARBAA8LIAJFBEBBhIwEIAAoAqgBIAAoAqQBQQNxQQJqEQAAIAUkBEEADwsgAUUEQEHyiAQgACgCqAEgACgCpAFBA3FBAmoRAAAgBSQEQQAPCyAFQbAFaiEIIAVBiAVqIRggBUHwBWohBCAFQeAEaiEGIAVBjARqIQ0gBUGQA2ohDiAFQfACaiEWIAVB0AJqIQwgBUGwAmohGSAFQbQBaiEJIAVB4ABqIQ8gBUFAayIHIAIpAAA3AAAgByACKQAINwAIIAcgAikAEDcAECAHIAIpABg3ABggBUEgaiIKIAJBIGoiCykAADcAACAKIAspAAg3AAggCiALKQAQNwAQIAogCykAGDcAGCACQUBrLQAAIRUgBSADQQAQDgJAIAcoAgQiAiAHKAIAciAHKAIIIgNyIAcoAgwiC3IgBygCECIQciAHKAIUIhFyIAcoAhgiEnIgBygCHCITcgRAIAooAgQgCigCAHIgCigCCHIgCigCDHIgCigCEHIgCigCFHIgCigCGHIgCigCHHJFDQEgBCATQRh2OgAAIAQgE0EQdjoAASAEIBNBCHY6AAIgBCATOgADIAQgEkEYdjoABCAEIBJBEHY6AAUgBCASQQh2OgAGIAQgEjoAByAEIBFBGHY6AAggBCARQRB2OgAJIAQgEUEIdjoACiAEIBE6AAsgBCAQQRh2OgAMIAQgEEEQdjoADSAEIBBBCHY6AA4gBCAQOgAPIAQgC0EYdjoAECAEIAtBEHY6ABEgBCALQQh2OgASIAQgCzoAEyAEIANBGHY6ABQgBCADQRB2OgAVIAQgA0EIdjoAFiAEIAM6ABcgBCACQRh2OgAYIAQgAkEQdjoAGSAEIAJBCHY6ABogBCACOgAbIAQgBygCACICQRh2OgAcIAQgAkEQdjoAHSAEIAJBCHY6AB4gBCACOgAfIAYgBBAUGiAVQQJxBEAgBkEkaiIEKAIADQIgBkEgaiILKAIADQIgBkEcaiIQKAIADQIgBkEYaiIRKAIADQIgBkEUaiISKAIADQIgBkEQaiITKAIAIgNBo6KVCksNAiAGQQxqIhcoAgAhAgJAIANBo6KVCkYEQCACQd2FlQNLDQQgAkHdhZUDRgRAIAYoAggiAkGCiPEPSw0FIAJBgojxD0cEQEHdhZUDIQIMAwsgBigCBCICQYu5oRtLDQUgAkGLuaEbRwRAQd2FlQMhAgwDCyAGKAIAQe31ph5NBEBB3YWVAyECDAMLDAULCwsgBiAGKAIAQcGC2QFqNgIAIAZBBGoiFCAUKAIAQbTG3gRqNgIAIAZBCGoiFCAUKAIAQf33jhBqNgIAIBcgAkGi+uocajYCACATIANB3N3qFWo2AgAgEkH///8fNgIAIBFB////HzYCACAQQf///x82AgAgC0H///8fNgIAIARB////ATYCAAsgDSAGIBVBAXEQLEUNASAOIA0oAlA2AnggDiANKQIANwIAIA4gDSkCCDcCCCAOIA0pAhA3AhAgDiANKQIYNwIYIA4gDSkCIDcCICAOQShqIgIgDUEoaiIDKQIANwIAIAIgAykCCDcCCCACIAMpAhA3AhAgAiADKQIYNwIYIAIgAykCIDcCICAOQQE2AlAgDkHUAGoiAkIANwIAIAJCADcCCCACQgA3AhAgAkIANwIYIAJBADYCICAWIAcQHiAMIBYgBRANIAwgDCgCACICQX9zrULCgtmBDXwiGiAMQQRqIgMoAgAiBCACciAMQQhqIgIoAgAiBnIgDEEMaiIHKAIAIg1yIAxBEGoiCygCACIQciAMQRRqIhEoAgAiEnIgDEEYaiITKAIAIhVyIAxBHGoiFygCACIUckEAR0EfdEEfda0iG4M+AgAgAyAaQiCIQoy9yf4LhCAEQX9zrXwiGiAbgz4CACACIAZBf3OtQrvAovoKfCAaQiCIfCIaIBuDPgIAIAcgDUF/c61C5rm71Qt8IBpCIIh8IhogG4M+AgAgCyAQQX9zrUL+////D3wgGkIgiHwiGiAbgz4CACARIBJBf3OtQv////8PfCAaQiCIfCIaIBuDPgIAIBMgFUF/c61C/////w98IBpCIIh8IhogG4M+AgAgFyAUQX9zrUL/////D3wgGkIgiHwgG4M+AgAgGSAWIAoQDSAAIAkgDiAZIAwQGiAPIAlB+ABqIgMoAgAiADYCUCAARQRAIAlB0ABqIgIgAhAVIAggAhAHIBggAiAIEAogCSAJIAgQCiAJQShqIgAgACAYEAogAkEBNgIAIAlB1ABqIgJCADcCACACQgA3AgggAkIANwIQIAJCADcCGCACQQA2AiAgDyAJKQIANwIAIA8gCSkCCDcCCCAPIAkpAhA3AhAgDyAJKQIYNwIYIA8gCSkCIDcCICAPQShqIgIgACkCADcCACACIAApAgg3AgggAiAAKQIQNwIQIAIgACkCGDcCGCACIAApAiA3AiAgAygCACEACyAARQRAIAggDxAXIAEgCCkAADcAACABIAgpAAg3AAggASAIKQAQNwAQIAEgCCkAGDcAGCABIAgpACA3ACAgASAIKQAoNwAoIAEgCCkAMDcAMCABIAgpADg3ADggBSQEQQEPCwsLIAFCADcAACABQgA3AAggAUIANwAQIAFCADcAGCABQgA3ACAgAUIANwAoIAFCADcAMCABQgA3ADggBSQEQQALnwYBEX8jBCEGIwRB0AFqJAQgBkEANgIAIABBBGoiDygCAEUEQEHIiwQgACgCqAEgACgCpAFBA3FBAmoRAAAgBiQEQQAPCyACRQRAQbqLBCAAKAKoASAAKAKkAUEDcUECahEAACAGJARBAA8LIAFFBEBBhIwEIAAoAqgBIAAoAqQBQQNxQQJqEQAAIAYkBEEADwsgA0UEQEGWjAQgACgCqAEgACgCpAFBA3FBAmoRAAAgBiQEQQAPCyAGQYgBaiEKIAZB6ABqIQsgBkHIAGohByAGQShqIQggBkEIaiEJIAZBBGohDSAGQagBaiEMIAQEfyAEBUEBCyEOIAcgAyAGEA4gBigCAEUEQCAHKAIEIAcoAgByIAcoAghyIAcoAgxyIAcoAhByIAcoAhRyIAcoAhhyIAcoAhxyBEAgCSACQQAQDgJAIAwgAiADQQAgBUEAIA5BAXERAQAiAARAIAhBBGohECAIQQhqIREgCEEMaiESIAhBEGohEyAIQRRqIRQgCEEYaiEVIAhBHGohFkEAIQQDQCAIIAwgBhAOIAYoAgAgECgCACAIKAIAciARKAIAciASKAIAciATKAIAciAUKAIAciAVKAIAciAWKAIAckVyRQRAIA8gCiALIAcgCSAIIA0QLg0DCyAMIAIgA0EAIAUgBEEBaiIEIA5BAXERAQAiAA0AQQAhAAsFQQAhAAsLIAlCADcCACAJQgA3AgggCUIANwIQIAlCADcCGCAIQgA3AgAgCEIANwIIIAhCADcCECAIQgA3AhggB0IANwIAIAdCADcCCCAHQgA3AhAgB0IANwIYIAAEQCANKAIAIQMgASAKKQAANwAAIAEgCikACDcACCABIAopABA3ABAgASAKKQAYNwAYIAFBIGoiAiALKQAANwAAIAIgCykACDcACCACIAspABA3ABAgAiALKQAYNwAYIAFBQGsgAzoAACAGJAQgAA8LCwsgAUIANwAAIAFCADcACCABQgA3ABAgAUIANwAYIAFCADcAICABQgA3ACggAUIANwAwIAFCADcAOCABQUBrQQA6AAAgBiQEQQAL/gEBAn8jBCEEIwRBQGskBCABRQRAQdiKBCAAKAKoASAAKAKkAUEDcUECahEAACAEJARBAA8LIANFBEBBvIoEIAAoAqgBIAAoAqQBQQNxQQJqEQAAIAQkBEEADwsgBEEgaiEFIAIEfyAFIAMpAAA3AAAgBSADKQAINwAIIAUgAykAEDcAECAFIAMpABg3ABggBCADQSBqIgApAAA3AAAgBCAAKQAINwAIIAQgACkAEDcAECAEIAApABg3ABggAiADQUBrLQAANgIAIAEgBRASIAFBIGogBBASIAQkBEEBBUHMjAQgACgCqAEgACgCpAFBA3FBAmoRAAAgBCQEQQALC+8CAQN/IwQhBCMEQdAAaiQEIARBADYCACABRQRAQbyKBCAAKAKoASAAKAKkAUEDcUECahEAACAEJARBAA8LIAJFBEBByIoEIAAoAqgBIAAoAqQBQQNxQQJqEQAAIAQkBEEADwsgA0EDSwRAQbOMBCAAKAKoASAAKAKkAUEDcUECahEAACAEJARBAA8LIARBKGoiBSACIAQQDiAEKAIAIQAgBEEIaiIGIAJBIGogBBAOIAQoAgAgAHJFIgAhAiAABH8gASAFKQAANwAAIAEgBSkACDcACCABIAUpABA3ABAgASAFKQAYNwAYIAFBIGoiACAGKQAANwAAIAAgBikACDcACCAAIAYpABA3ABAgACAGKQAYNwAYIAFBQGsgAzoAACAEJAQgAgUgAUIANwAAIAFCADcACCABQgA3ABAgAUIANwAYIAFCADcAICABQgA3ACggAUIANwAwIAFCADcAOCABQUBrQQA6AAAgBCQEIAILC5QqAV9/IwQhByMEQcADaiQEIAdBoAFqIQggB0H4AGohCiABQfgAaiFAIAdBkANqIgYgAUHQAGoiPRAHIAdB6AJqIgMgASkCADcCACADIAEpAgg3AgggAyABKQIQNwIQIAMgASkCGDcCGCADIAEpAiA3AiAgA0EkaiIlKAIAIhRBFnYiBEHRB2wgAygCAGohBSAEQQZ0IANBBGoiJigCAGogBUEadmoiFUEadiADQQhqIicoAgBqIhZBGnYgA0EMaiIcKAIAaiIXQRp2IANBEGoiHSgCAGoiGEEadiADQRRqIjEoAgBqIg5BGnYgA0EYaiIyKAIAaiIgQRp2IANBHGoiMygCAGoiIUEadiADQSBqIjQoAgBqIQQgAyAFQf///x9xNgIAICYgFUH///8fcTYCACAnIBZB////H3E2AgAgHCAXQf///x9xNgIAIB0gGEH///8fcTYCACAxIA5B////H3E2AgAgMiAgQf///x9xNgIAIDMgIUH///8fcTYCACA0IARB////H3E2AgAgJSAEQRp2IBRB////AXFqNgIAIAdBwAJqIgQgAiAGEAogASgCTCIZQRZ2IgVB0QdsIAEoAihqIRogBUEGdCABKAIsaiAaQRp2aiIoQRp2IAEoAjBqIilBGnYgASgCNGoiKkEadiABKAI4aiIrQRp2IAEoAjxqIixBGnYgAUFAaygCAGoiLUEadiABKAJEaiIiQRp2IAEoAkhqIR4gB0GYAmoiBSACQShqIlggBhAKIAUgBSA9EAogB0HwAWoiASADKQIANwIAIAEgAykCCDcCCCABIAMpAhA3AhAgASADKQIYNwIYIAEgAykCIDcCICABIAEoAgAgBCgCACIGajYCACABQQRqIhQgFCgCACAEKAIEIjVqNgIAIAFBCGoiFSAVKAIAIAQoAggiNmo2AgAgAUEMaiIWIBYoAgAgBCgCDCI3ajYCACABQRBqIhcgFygCACAEKAIQIglqNgIAIAFBFGoiGCAYKAIAIAQoAhQiEGo2AgAgAUEYaiIOIA4oAgAgBCgCGCILajYCACABQRxqIiAgICgCACAEKAIcIhFqNgIAIAFBIGoiISAhKAIAIAQoAiAiD2o2AgAgAUEkaiIuIC4oAgAgBCgCJCIjajYCACAFKAIAIBpB////H3EiQ2ohOCAFKAIEIChB////H3EiRGohKCAFKAIIIClB////H3EiRWohKSAFKAIMICpB////H3EiRmohKiAFKAIQICtB////H3EiR2ohKyAFKAIUICxB////H3EiSGohLCAFKAIYIC1B////H3EiSWohLSAFKAIcICJB////H3EiSmohIiAFKAIgIB5B////H3EiS2ohLyAFKAIkIB5BGnYgGUH///8BcWoiTGohGiAHQdAAaiIEIAEQByAHQShqIgVBvOH//wAgBms2AgAgBUEEaiI+Qfz9//8AIDVrNgIAIAVBCGoiNUH8////ACA2azYCACAFQQxqIjZB/P///wAgN2s2AgAgBUEQaiI3Qfz///8AIAlrNgIAIAVBFGoiCUH8////ACAQazYCACAFQRhqIhBB/P///wAgC2s2AgAgBUEcaiILQfz///8AIBFrNgIAIAVBIGoiEUH8////ACAPazYCACAFQSRqIg9B/P//ByAjazYCACAHQcgBaiIGIAMgBRAKIAQgBCgCACAGKAIAajYCACAEQQRqIiMoAgAgBigCBGohDCAjIAw2AgAgBEEIaiIwKAIAIAYoAghqIQ0gMCANNgIAIARBDGoiOSgCACAGKAIMaiESIDkgEjYCACAEQRBqIjooAgAgBigCEGohEyA6IBM2AgAgBEEUaiI7KAIAIAYoAhRqIR8gOyAfNgIAIARBGGoiPygCACAGKAIYaiEbID8gGzYCACAEQRxqIkEoAgAgBigCHGohJCBBICQ2AgAgBEEgaiJCKAIAIAYoAiBqITwgQiA8NgIAIARBJGoiTigCACAGKAIkaiEGIE4gBjYCACAaQRZ2IhlB0QdsIDhqIR4gGUEGdCAoaiAeQRp2aiJPQRp2IClqIlBBGnYgKmoiUUEadiAraiJSQRp2ICxqIlNBGnYgLWoiVEEadiAiaiJVQRp2IC9qIlZBGnYgGkH///8BcWohVyAGQRZ2Ik1B0QdsIAQoAgBqIRkgTUEGdCAMaiAZQRp2aiIMQRp2IA1qIg1BGnYgEmoiEkEadiATaiITQRp2IB9qIh9BGnYgG2oiG0EadiAkaiIkQRp2IDxqIjxBGnYgBkH///8BcWohBiAHQQRqIU0gB0EIaiFZIAdBDGohWiAHQRBqIVsgB0EUaiFcIAdBGGohXSAHQRxqIV4gB0EgaiFfIAdBJGohYCBDQQF0IUMgREEBdCFEIEVBAXQhRSBGQQF0IUYgR0EBdCFHIEhBAXQhSCBJQQF0IUkgSkEBdCFKIEtBAXQhSyBMQQF0IUwgBSgCACADKAIAaiFhID4oAgAgJigCAGohJiA1KAIAICcoAgBqIScgNigCACAcKAIAaiEcIDcoAgAgHSgCAGohHSAJKAIAIDEoAgBqITEgECgCACAyKAIAaiEyIAsoAgAgMygCAGohMyARKAIAIDQoAgBqITQgDygCACAlKAIAaiElIAQoAgAhBCAHIE8gHnIgUHIgUXIgUnIgU3IgVHIgVXIgVnJB////H3EgV3IEfyBPQcAAcyAeQdAHc3EgUHEgUXEgUnEgU3EgVHEgVXEgVnEgV0GAgIAec3FB////H0YFQQELIAwgGXIgDXIgEnIgE3IgH3IgG3IgJHIgPHJB////H3EgBnIEfyAMQcAAcyAZQdAHc3EgDXEgEnEgE3EgH3EgG3EgJHEgPHEgBkGAgIAec3FB////H0YFQQELcSIDBH8gQwUgBAs2AgAgIygCACEEIE0gAwR/IEQFIAQLNgIAIDAoAgAhBCBZIAMEfyBFBSAECzYCACA5KAIAIQQgWiADBH8gRgUgBAs2AgAgOigCACEEIFsgAwR/IEcFIAQLNgIAIDsoAgAhBCBcIAMEfyBIBSAECzYCACA/KAIAIQQgXSADBH8gSQUgBAs2AgAgQSgCACEEIF4gAwR/IEoFIAQLNgIAIEIoAgAhBCBfIAMEfyBLBSAECzYCACBOKAIAIQQgYCADBH8gTAUgBAs2AgAgBSADBH8gYQUgOAs2AgAgPiADBH8gJgUgKAs2AgAgNSADBH8gJwUgKQs2AgAgNiADBH8gHAUgKgs2AgAgNyADBH8gHQUgKws2AgAgCSADBH8gMQUgLAs2AgAgECADBH8gMgUgLQs2AgAgCyADBH8gMwUgIgs2AgAgESADBH8gNAUgLws2AgAgDyADBH8gJQUgGgs2AgAgCCAFEAcgCiAIIAEQCiAIIAgQByAIKAIAIQQgCCADBH8gOAUgBAs2AgAgCEEEaiIeKAIAIQQgHiADBH8gKAUgBAs2AgAgCEEIaiIZKAIAIQQgGSADBH8gKQUgBAs2AgAgCEEMaiIlKAIAIQQgJSADBH8gKgUgBAs2AgAgCEEQaiImKAIAIQQgJiADBH8gKwUgBAs2AgAgCEEUaiInKAIAIQQgJyADBH8gLAUgBAs2AgAgCEEYaiIcKAIAIQQgHCADBH8gLQUgBAs2AgAgCEEcaiIdKAIAIQQgHSADBH8gIgUgBAs2AgAgCEEgaiIiKAIAIQQgIiADBH8gLwUgBAs2AgAgCEEkaiIvKAIAIQQgLyADBH8gGgUgBAs2AgAgASAHEAcgAEHQAGoiBCA9IAUQCiAAQfQAaiIFKAIAIgNBFnYiGkHRB2wgBCgCACIJaiEGIBpBBnQgAEHUAGoiGigCACIQaiAGQRp2aiI9QRp2IABB2ABqIjgoAgAiC2oiMUEadiAAQdwAaiIoKAIAIhFqIjJBGnYgAEHgAGoiKSgCACIPaiIzQRp2IABB5ABqIiooAgAiI2oiNEEadiAAQegAaiIrKAIAIgxqIj5BGnYgAEHsAGoiLCgCACIwaiI1QRp2IABB8ABqIi0oAgAiDWoiNkEadiADQf///wFxaiE3QQEgQCgCAGshQSAEIAlBAXQ2AgAgGiAQQQF0NgIAIDggC0EBdDYCACAoIBFBAXQ2AgAgKSAPQQF0NgIAICogI0EBdDYCACArIAxBAXQ2AgAgLCAwQQF0NgIAIC0gDUEBdDYCACAFIANBAXQ2AgAgCkG84f//ACAKKAIAayIkNgIAQfz9//8AIApBBGoiAygCAGshCSADIAk2AgBB/P///wAgCkEIaiIQKAIAayELIBAgCzYCAEH8////ACAKQQxqIhEoAgBrIQ8gESAPNgIAQfz///8AIApBEGoiIygCAGshDCAjIAw2AgBB/P///wAgCkEUaiIwKAIAayENIDAgDTYCAEH8////ACAKQRhqIjkoAgBrIRIgOSASNgIAQfz///8AIApBHGoiOigCAGshEyA6IBM2AgBB/P///wAgCkEgaiI7KAIAayEfIDsgHzYCAEH8//8HIApBJGoiPygCAGshGyA/IBs2AgAgLigCACAbaiJCQRZ2IjxB0QdsIAEoAgAgJGpqIRsgPEEGdCAUKAIAIAlqaiAbQRp2aiIkQRp2IBUoAgAgC2pqIgtBGnYgFigCACAPamoiD0EadiAXKAIAIAxqaiIMQRp2IBgoAgAgDWpqIg1BGnYgDigCACASamoiEkEadiAgKAIAIBNqaiITQRp2ICEoAgAgH2pqIQkgASAbQf///x9xIh82AgAgFCAkQf///x9xIhs2AgAgFSALQf///x9xIgs2AgAgFiAPQf///x9xIg82AgAgFyAMQf///x9xIgw2AgAgGCANQf///x9xIg02AgAgDiASQf///x9xIhI2AgAgICATQf///x9xIhM2AgAgISAJQf///x9xIiQ2AgAgLiAJQRp2IEJB////AXFqIgk2AgAgACABKQIANwIAIAAgASkCCDcCCCAAIAEpAhA3AhAgACABKQIYNwIYIAAgASkCIDcCICABIB9BAXQgCigCAGo2AgAgFCAbQQF0IAMoAgBqNgIAIBUgC0EBdCAQKAIAajYCACAWIA9BAXQgESgCAGo2AgAgFyAMQQF0ICMoAgBqNgIAIBggDUEBdCAwKAIAajYCACAOIBJBAXQgOSgCAGo2AgAgICATQQF0IDooAgBqNgIAICEgJEEBdCA7KAIAajYCACAuIAlBAXQgPygCAGo2AgAgASABIAcQCiABIAEoAgAgCCgCAGoiATYCACAUIBQoAgAgHigCAGoiAzYCACAVIBUoAgAgGSgCAGoiCDYCACAWIBYoAgAgJSgCAGoiCjYCACAXIBcoAgAgJigCAGoiFDYCACAYIBgoAgAgJygCAGoiFTYCACAOIA4oAgAgHCgCAGoiFjYCACAgICAoAgAgHSgCAGoiFzYCACAhICEoAgAgIigCAGoiGDYCACAuIC4oAgAgLygCAGoiDjYCAEH4//8PIA5rIg9BFnYiDkHRB2xB+ML//wEgAWtqIQEgDkEGdEH4+///ASADa2ogAUEadmoiHEEadkH4////ASAIa2oiHUEadkH4////ASAKa2oiCUEadkH4////ASAUa2oiEEEadkH4////ASAVa2oiC0EadkH4////ASAWa2oiEUEadkH4////ASAXa2oiI0EadkH4////ASAYa2ohAyAAIAAoAgBBAnQiDDYCACAAQQRqIggoAgBBAnQhCiAIIAo2AgAgAEEIaiIUKAIAQQJ0IRUgFCAVNgIAIABBDGoiFigCAEECdCEXIBYgFzYCACAAQRBqIhgoAgBBAnQhDiAYIA42AgAgAEEUaiIgKAIAQQJ0ISEgICAhNgIAIABBGGoiLigCAEECdCEiIC4gIjYCACAAQRxqIi8oAgBBAnQhHiAvIB42AgAgAEEgaiIZKAIAQQJ0ISUgGSAlNgIAIABBJGoiJigCAEECdCEnICYgJzYCACAAQShqIjAgAUECdEH8////AHEiDTYCACAAQSxqIjkgHEECdEH8////AHEiEjYCACAAQTBqIjogHUECdEH8////AHEiEzYCACAAQTRqIjsgCUECdEH8////AHEiHzYCACAAQThqIhwgEEECdEH8////AHE2AgAgAEE8aiIdIAtBAnRB/P///wBxNgIAIABBQGsiCSARQQJ0Qfz///8AcTYCACAAQcQAaiIQICNBAnRB/P///wBxNgIAIABByABqIgsgA0ECdEH8////AHE2AgAgAEHMAGoiESADQRp2IA9B////AXFqQQJ0NgIAIEAoAgAiA0F/aiEBIAAgAigCAEEAIANrIgNxIAwgAXFyNgIAIAggAigCBCADcSAKIAFxcjYCACAUIAIoAgggA3EgFSABcXI2AgAgFiACKAIMIANxIBcgAXFyNgIAIBggAigCECADcSAOIAFxcjYCACAgIAIoAhQgA3EgISABcXI2AgAgLiACKAIYIANxICIgAXFyNgIAIC8gAigCHCADcSAeIAFxcjYCACAZIAIoAiAgA3EgJSABcXI2AgAgJiACKAIkIANxICcgAXFyNgIAIEAoAgAiA0F/aiEBIDAgWCgCAEEAIANrIgNxIA0gAXFyNgIAIDkgAigCLCADcSASIAFxcjYCACA6IAIoAjAgA3EgEyABcXI2AgAgOyACKAI0IANxIB8gAXFyNgIAIBwgAigCOCADcSAcKAIAIAFxcjYCACAdIAIoAjwgA3EgHSgCACABcXI2AgAgCSACQUBrKAIAIANxIAkoAgAgAXFyNgIAIBAgAigCRCADcSAQKAIAIAFxcjYCACALIAIoAkggA3EgCygCACABcXI2AgAgESACKAJMIANxIBEoAgAgAXFyNgIAIAQgBCgCACBAKAIAIgJBf2oiAXEgAkEBcXI2AgAgGiAaKAIAIAFxNgIAIDggOCgCACABcTYCACAoICgoAgAgAXE2AgAgKSApKAIAIAFxNgIAICogKigCACABcTYCACArICsoAgAgAXE2AgAgLCAsKAIAIAFxNgIAIC0gLSgCACABcTYCACAFIAUoAgAgAXE2AgAgACA9IAZyIDFyIDJyIDNyIDRyID5yIDVyIDZyQf///x9xIDdyBH8gPUHAAHMgBkHQB3NxIDFxIDJxIDNxIDRxID5xIDVxIDZxIDdBgICAHnNxQf///x9GBUEBCwR/IEEFQQALNgJ4IAckBAs1AQF/IABBBGoiAigCAAR/IAIgARAtQQEFQciLBCAAKAKoASAAKAKkAUEDcUECahEAAEEACwv1CwETfyMEIQQjBEGAA2okBCAEQQA2AgAgACgCAEUEQEGGiwQgACgCqAEgACgCpAFBA3FBAmoRAAAgBCQEQQAPCyABRQRAQfKIBCAAKAKoASAAKAKkAUEDcUECahEAACAEJARBAA8LIAJFBEBBpYwEIAAoAqgBIAAoAqQBQQNxQQJqEQAAIAQkBEEADwsgBEEIaiIKIAIgBBAOIAQoAgAEQCABQgA3AAAgAUIANwAIIAFCADcAECABQgA3ABggAUIANwAgIAFCADcAKCABQgA3ADAgAUIANwA4IAQkBEEADwsgASgABCEFIAEoAAghByABKAAMIQggASgAECEDIAEoABQhCSABKAAYIQsgASgAHCEMIAEoACAhDSABKAAkIQ8gASgAKCEQIAEoACwhESABKAAwIQYgASgANCESIAEoADghEyABKAA8IRQgBEEoaiICIAEoAAAiDkH///8fcTYCACACIAVBBnRBwP//H3EgDkEadnIiDjYCBCACIAdBDHRBgOD/H3EgBUEUdnIiBTYCCCACIAhBEnRBgIDwH3EgB0EOdnIiBzYCDCACIANBGHRBgICAGHEgCEEIdnIiCDYCECACIANBAnZB////H3EiFTYCFCACIAlBBHRB8P//H3EgA0EcdnIiAzYCGCACIAtBCnRBgPj/H3EgCUEWdnIiCTYCHCACIAxBEHRBgID8H3EgC0EQdnIiCzYCICACIAxBCnYiDDYCJCACIA1B////H3E2AiggAiAPQQZ0QcD//x9xIA1BGnZyNgIsIAIgEEEMdEGA4P8fcSAPQRR2cjYCMCACIBFBEnRBgIDwH3EgEEEOdnI2AjQgAiAGQRh0QYCAgBhxIBFBCHZyNgI4IAIgBkECdkH///8fcTYCPCACQUBrIBJBBHRB8P//H3EgBkEcdnI2AgAgAiATQQp0QYD4/x9xIBJBFnZyNgJEIAIgFEEQdEGAgPwfcSATQRB2cjYCSCACIBRBCnY2AkwgAkHQAGoiDUEANgIAIA4gAigCAHIgBXIgB3IgCHIgFXIgA3IgCXIgC3IgDHJFBEBB6IwEIAAoAqgBIAAoAqQBQQNxQQJqEQAAIAFCADcAACABQgA3AAggAUIANwAQIAFCADcAGCABQgA3ACAgAUIANwAoIAFCADcAMCABQgA3ADggBCQEQQAPCyAEQcACaiEGIARBmAJqIQsgBEH4AWohCSAEQfwAaiEDIAFCADcAACABQgA3AAggAUIANwAQIAFCADcAGCABQgA3ACAgAUIANwAoIAFCADcAMCABQgA3ADggCigCBCAKKAIAciAKKAIIciAKKAIMciAKKAIQciAKKAIUciAKKAIYciAKKAIccgR/IAlCADcCACAJQgA3AgggCUIANwIQIAlCADcCGCADQfgAaiIMQQA2AgAgAyACKQIANwIAIAMgAikCCDcCCCADIAIpAhA3AhAgAyACKQIYNwIYIAMgAikCIDcCICADQShqIgUgAkEoaiIHKQIANwIAIAUgBykCCDcCCCAFIAcpAhA3AhAgBSAHKQIYNwIYIAUgBykCIDcCICADQQE2AlAgA0HUAGoiCEIANwIAIAhCADcCCCAIQgA3AhAgCEIANwIYIAhBADYCICAAIAMgAyAKIAkQGiANIAwoAgA2AgAgA0HQAGoiACAAEBUgBiAAEAcgCyAAIAYQCiADIAMgBhAKIAUgBSALEAogAEEBNgIAIAhCADcCACAIQgA3AgggCEIANwIQIAhCADcCGCAIQQA2AiAgAiADKQIANwIAIAIgAykCCDcCCCACIAMpAhA3AhAgAiADKQIYNwIYIAIgAykCIDcCICAHIAUpAgA3AgAgByAFKQIINwIIIAcgBSkCEDcCECAHIAUpAhg3AhggByAFKQIgNwIgIAYgAhAXIAEgBikAADcAACABIAYpAAg3AAggASAGKQAQNwAQIAEgBikAGDcAGCABIAYpACA3ACAgASAGKQAoNwAoIAEgBikAMDcAMCABIAYpADg3ADggBCQEQQEFIAQkBEEACwvhAgEBfyMEIQMjBEHQAGokBCADQQA2AgAgAUUEQEGWjAQgACgCqAEgACgCpAFBA3FBAmoRAAAgAyQEQQAPCyACRQRAQaWMBCAAKAKoASAAKAKkAUEDcUECahEAACADJARBAA8LIANBKGoiACACIAMQDiADQQhqIgIgAUEAEA4gAygCAAR/IAFCADcAACABQgA3AAggAUIANwAQIAFCADcAGEEABSAAKAIEIAAoAgByIAAoAghyIAAoAgxyIAAoAhByIAAoAhRyIAAoAhhyIAAoAhxyBH8gAiACIAAQDSABQgA3AAAgAUIANwAIIAFCADcAECABQgA3ABggASACEBJBAQUgAUIANwAAIAFCADcACCABQgA3ABAgAUIANwAYQQALCyEBIAJCADcCACACQgA3AgggAkIANwIQIAJCADcCGCAAQgA3AgAgAEIANwIIIABCADcCECAAQgA3AhggAyQEIAEL0AsBE38jBCEEIwRBkANqJAQgBEEANgIAIAAoAgBFBEBBhosEIAAoAqgBIAAoAqQBQQNxQQJqEQAAIAQkBEEADwsgAUUEQEHyiAQgACgCqAEgACgCpAFBA3FBAmoRAAAgBCQEQQAPCyACRQRAQaWMBCAAKAKoASAAKAKkAUEDcUECahEAACAEJARBAA8LIARBCGoiFCACIAQQDiAEKAIABEAgAUIANwAAIAFCADcACCABQgA3ABAgAUIANwAYIAFCADcAICABQgA3ACggAUIANwAwIAFCADcAOCAEJARBAA8LIAEoAAQhBSABKAAIIQcgASgADCEIIAEoABAhAyABKAAUIQkgASgAGCEKIAEoABwhCyABKAAgIQwgASgAJCENIAEoACghDyABKAAsIRAgASgAMCEGIAEoADQhESABKAA4IRIgASgAPCETIARBKGoiAiABKAAAIg5B////H3E2AgAgAiAFQQZ0QcD//x9xIA5BGnZyIg42AgQgAiAHQQx0QYDg/x9xIAVBFHZyIgU2AgggAiAIQRJ0QYCA8B9xIAdBDnZyIgc2AgwgAiADQRh0QYCAgBhxIAhBCHZyIgg2AhAgAiADQQJ2Qf///x9xIhU2AhQgAiAJQQR0QfD//x9xIANBHHZyIgM2AhggAiAKQQp0QYD4/x9xIAlBFnZyIgk2AhwgAiALQRB0QYCA/B9xIApBEHZyIgo2AiAgAiALQQp2Igs2AiQgAiAMQf///x9xNgIoIAIgDUEGdEHA//8fcSAMQRp2cjYCLCACIA9BDHRBgOD/H3EgDUEUdnI2AjAgAiAQQRJ0QYCA8B9xIA9BDnZyNgI0IAIgBkEYdEGAgIAYcSAQQQh2cjYCOCACIAZBAnZB////H3E2AjwgAkFAayARQQR0QfD//x9xIAZBHHZyNgIAIAIgEkEKdEGA+P8fcSARQRZ2cjYCRCACIBNBEHRBgID8H3EgEkEQdnI2AkggAiATQQp2NgJMIAJB0ABqIgxBADYCACAOIAIoAgByIAVyIAdyIAhyIBVyIANyIAlyIApyIAtyRQRAQeiMBCAAKAKoASAAKAKkAUEDcUECahEAACABQgA3AAAgAUIANwAIIAFCADcAECABQgA3ABggAUIANwAgIAFCADcAKCABQgA3ADAgAUIANwA4IAQkBEEADwsgBEHIAmohBiAEQaACaiEKIAFCADcAACABQgA3AAggAUIANwAQIAFCADcAGCABQgA3ACAgAUIANwAoIAFCADcAMCABQgA3ADggBEGgAWoiA0H4AGoiDUEANgIAIAMgAikCADcCACADIAIpAgg3AgggAyACKQIQNwIQIAMgAikCGDcCGCADIAIpAiA3AiAgA0EoaiIFIAJBKGoiBykCADcCACAFIAcpAgg3AgggBSAHKQIQNwIQIAUgBykCGDcCGCAFIAcpAiA3AiAgA0EBNgJQIANB1ABqIghCADcCACAIQgA3AgggCEIANwIQIAhCADcCGCAIQQA2AiAgBEGAAWoiC0EBNgIAIAtBBGoiCUIANwIAIAlCADcCCCAJQgA3AhAgCUEANgIYIAAgAyADIAsgFBAaIA0oAgAEfyAEJARBAAUgDEEANgIAIANB0ABqIgAgABAVIAYgABAHIAogACAGEAogAyADIAYQCiAFIAUgChAKIABBATYCACAIQgA3AgAgCEIANwIIIAhCADcCECAIQgA3AhggCEEANgIgIAIgAykCADcCACACIAMpAgg3AgggAiADKQIQNwIQIAIgAykCGDcCGCACIAMpAiA3AiAgByAFKQIANwIAIAcgBSkCCDcCCCAHIAUpAhA3AhAgByAFKQIYNwIYIAcgBSkCIDcCICAGIAIQFyABIAYpAAA3AAAgASAGKQAINwAIIAEgBikAEDcAECABIAYpABg3ABggASAGKQAgNwAgIAEgBikAKDcAKCABIAYpADA3ADAgASAGKQA4NwA4IAQkBEEBCwvJAgEDfyMEIQMjBEHQAGokBCADQQA2AgAgAUUEQEGWjAQgACgCqAEgACgCpAFBA3FBAmoRAAAgAyQEQQAPCyACRQRAQaWMBCAAKAKoASAAKAKkAUEDcUECahEAACADJARBAA8LIANBKGoiBCACIAMQDiADQQhqIgIgAUEAEA4gAygCAARAIAFCADcAACABQgA3AAggAUIANwAQIAFCADcAGEEAIQAFIAIgAiAEEBwgAigCBCACKAIAciACKAIIciACKAIMciACKAIQciACKAIUciACKAIYciACKAIcckEARyIFIQAgAUIANwAAIAFCADcACCABQgA3ABAgAUIANwAYIAUEQCABIAIQEgsLIAJCADcCACACQgA3AgggAkIANwIQIAJCADcCGCAEQgA3AgAgBEIANwIIIARCADcCECAEQgA3AhggAyQEIAAL/AQBB38jBCEFIwRB4AJqJAQgAUUEQEHyiAQgACgCqAEgACgCpAFBA3FBAmoRAAAgBSQEQQAPCyABQgA3AAAgAUIANwAIIAFCADcAECABQgA3ABggAUIANwAgIAFCADcAKCABQgA3ADAgAUIANwA4IABBBGoiBigCAEUEQEHIiwQgACgCqAEgACgCpAFBA3FBAmoRAAAgBSQEQQAPCyACRQRAQZaMBCAAKAKoASAAKAKkAUEDcUECahEAACAFJARBAA8LIAVBoAJqIQQgBUH4AWohCCAFQfwAaiEDIAVBKGohByAFQQhqIgAgAiAFEA4gBSgCACAAKAIEIAAoAgByIAAoAghyIAAoAgxyIAAoAhByIAAoAhRyIAAoAhhyIAAoAhxyRXJFIgkEQCAGIAMgABAgIAcgAygCeDYCUCADQdAAaiIGIAYQFSAEIAYQByAIIAYgBBAKIAMgAyAEEAogA0EoaiICIAIgCBAKIAZBATYCACADQdQAaiIGQgA3AgAgBkIANwIIIAZCADcCECAGQgA3AhggBkEANgIgIAcgAykCADcCACAHIAMpAgg3AgggByADKQIQNwIQIAcgAykCGDcCGCAHIAMpAiA3AiAgB0EoaiIDIAIpAgA3AgAgAyACKQIINwIIIAMgAikCEDcCECADIAIpAhg3AhggAyACKQIgNwIgIAQgBxAXIAEgBCkAADcAACABIAQpAAg3AAggASAEKQAQNwAQIAEgBCkAGDcAGCABIAQpACA3ACAgASAEKQAoNwAoIAEgBCkAMDcAMCABIAQpADg3ADgLIABCADcCACAAQgA3AgggAEIANwIQIABCADcCGCAFJAQgCQujAQEBfyMEIQIjBEEwaiQEIAFFBEBBlowEIAAoAqgBIAAoAqQBQQNxQQJqEQAAIAIkBEEADwsgAkEIaiIAIAEgAhAOIAIoAgAEf0EABSAAKAIEIAAoAgByIAAoAghyIAAoAgxyIAAoAhByIAAoAhRyIAAoAhhyIAAoAhxyQQBHCyEBIABCADcCACAAQgA3AgggAEIANwIQIABCADcCGCACJAQgAQv+BQEQfyMEIQYjBEHQAWokBCAGQQA2AgAgAEEEaiIOKAIARQRAQciLBCAAKAKoASAAKAKkAUEDcUECahEAACAGJARBAA8LIAJFBEBBuosEIAAoAqgBIAAoAqQBQQNxQQJqEQAAIAYkBEEADwsgAUUEQEGEjAQgACgCqAEgACgCpAFBA3FBAmoRAAAgBiQEQQAPCyADRQRAQZaMBCAAKAKoASAAKAKkAUEDcUECahEAACAGJARBAA8LIAZBiAFqIQogBkHoAGohCyAGQcgAaiEHIAZBKGohCCAGQQhqIQkgBkGoAWohDCAEBH8gBAVBAQshDSAHIAMgBhAOIAYoAgBFBEAgBygCBCAHKAIAciAHKAIIciAHKAIMciAHKAIQciAHKAIUciAHKAIYciAHKAIccgRAIAkgAkEAEA4CQCAMIAIgA0EAIAVBACANQQFxEQEAIgAEQCAIQQRqIQ8gCEEIaiEQIAhBDGohESAIQRBqIRIgCEEUaiETIAhBGGohFCAIQRxqIRVBACEEA0AgCCAMIAYQDiAGKAIARQRAIA8oAgAgCCgCAHIgECgCAHIgESgCAHIgEigCAHIgEygCAHIgFCgCAHIgFSgCAHIEQCAOIAogCyAHIAkgCEEAEC4NBAsLIAwgAiADQQAgBSAEQQFqIgQgDUEBcREBACIADQBBACEACwVBACEACwsgCUIANwIAIAlCADcCCCAJQgA3AhAgCUIANwIYIAhCADcCACAIQgA3AgggCEIANwIQIAhCADcCGCAHQgA3AgAgB0IANwIIIAdCADcCECAHQgA3AhggAARAIAEgCikAADcAACABIAopAAg3AAggASAKKQAQNwAQIAEgCikAGDcAGCABQSBqIgEgCykAADcAACABIAspAAg3AAggASALKQAQNwAQIAEgCykAGDcAGCAGJAQgAA8LCwsgAUIANwAAIAFCADcACCABQgA3ABAgAUIANwAYIAFCADcAICABQgA3ACggAUIANwAwIAFCADcAOCAGJARBAAvXAgECfyMEIQcjBEHAAWokBCAHQcgAaiIGIAIpAAA3AAAgBiACKQAINwAIIAYgAikAEDcAECAGIAIpABg3ABggBkEgaiICIAEpAAA3AAAgAiABKQAINwAIIAIgASkAEDcAECACIAEpABg3ABggBAR/IAZBQGsiASAEKQAANwAAIAEgBCkACDcACCABIAQpABA3ABAgASAEKQAYNwAYQeAABUHAAAshASADBEAgBiABaiICIAMpAAA3AAAgAiADKQAINwAIIAFBEHIhAQsgByAGIAEQJSAGQgA3AAAgBkIANwAIIAZCADcAECAGQgA3ABggBkIANwAgIAZCADcAKCAGQgA3ADAgBkIANwA4IAZBQGtCADcAACAGQgA3AEggBkIANwBQIAZCADcAWCAGQgA3AGAgBkIANwBoQQAhAQNAIAcgABAdIAFBAWoiASAFTQ0ACyAHJARBAQvdEAEpfyMEIQUjBEGABGokBCAAKAIARQRAQYaLBCAAKAKoASAAKAKkAUEDcUECahEAACAFJARBAA8LIAJFBEBBuosEIAAoAqgBIAAoAqQBQQNxQQJqEQAAIAUkBEEADwsgAUUEQEG8igQgACgCqAEgACgCpAFBA3FBAmoRAAAgBSQEQQAPCyADRQRAQfKIBCAAKAKoASAAKAKkAUEDcUECahEAACAFJARBAA8LIAUgAkEAEA4gBUFAayIGIAEpAAA3AAAgBiABKQAINwAIIAYgASkAEDcAECAGIAEpABg3ABggBUEgaiIEIAFBIGoiASkAADcAACAEIAEpAAg3AAggBCABKQAQNwAQIAQgASkAGDcAGCAEQRhqIhsoAgBBf0cgBEEcaiIcKAIAIgJBH3YiB0F/cyIBcSACQf////8HSXIgBEEUaiIdKAIAQX9HIAFxciAEQRBqIh4oAgBBf0cgAXFyIARBDGoiHygCACICQfPc3eoFSSABcXIiAUEBcyACQfPc3eoFS3EgB3IiAkEBcyAEQQhqIiAoAgAiB0GdoJG9BUlxIAFyIgFBAXMgB0GdoJG9BUtxIAJyIgJBAXMgBEEEaiIhKAIAIgdBxt6k/31JcSABckF/cyIBIAdBxt6k/31LcSACciABIAQoAgBBoMHswAZLcXIEQCAFJARBAA8LIAMoACAhCiADKAAkIQsgAygAKCEMIAMoACwhCCADKAAwIQkgAygANCENIAMoADghDiADKAA8IQ8gAygAACIBQf///x9xIREgAygABCICQQZ0QcD//x9xIAFBGnZyIRIgAygACCIBQQx0QYDg/x9xIAJBFHZyIRMgAygADCICQRJ0QYCA8B9xIAFBDnZyIRQgAygAECIBQRh0QYCAgBhxIAJBCHZyIRUgAygAFCICQQR0QfD//x9xIAFBHHZyIRYgAygAGCIHQQp0QYD4/x9xIAJBFnZyIRcgAygAHCICQRB0QYCA/B9xIAdBEHZyIRggEiARciATciAUciABQQJ2Qf///x9xIiJyIBVyIBZyIAJBCnYiI3IgF3IgGHJFBEBB6IwEIAAoAqgBIAAoAqQBQQNxQQJqEQAAIAUkBEEADwsgBUHgA2ohASAFQcADaiEQIAVBoANqIRkgBUGAA2ohGiAFQdgCaiEDIAVB3AFqIQIgBUHgAGohByAKQf///x9xISQgC0EGdEHA//8fcSAKQRp2ciElIAxBDHRBgOD/H3EgC0EUdnIhJiAIQRJ0QYCA8B9xIAxBDnZyIScgCUEYdEGAgIAYcSAIQQh2ciEoIAlBAnZB////H3EhKSANQQR0QfD//x9xIAlBHHZyISogDkEKdEGA+P8fcSANQRZ2ciErIA9BEHRBgID8H3EgDkEQdnIhLCAPQQp2IQ8CfyAGKAIEIgkgBigCAHIgBigCCCIKciAGKAIMIgtyIAYoAhAiDHIgBigCFCIIciAGKAIYIg1yIAYoAhwiDnIEfyAhKAIAIAQoAgByICAoAgByIB8oAgByIB4oAgByIB0oAgByIBsoAgByIBwoAgByBH8gECAEEB4gGSAQIAUQDSAaIBAgBhANIAJBADYCeCACIBE2AgAgAiASNgIEIAIgEzYCCCACIBQ2AgwgAiAVNgIQIAIgIjYCFCACIBY2AhggAiAXNgIcIAIgGDYCICACICM2AiQgAiAkNgIoIAIgJTYCLCACICY2AjAgAiAnNgI0IAIgKDYCOCACICk2AjwgAkFAayAqNgIAIAIgKzYCRCACICw2AkggAiAPNgJMIAJBATYCUCACQdQAaiIEQgA3AgAgBEIANwIIIARCADcCECAEQgA3AhggBEEANgIgIAAgByACIBogGRAaIAcoAngEf0EABSABIA5BGHY6AAAgASAOQRB2OgABIAEgDkEIdjoAAiABIA46AAMgASANQRh2OgAEIAEgDUEQdjoABSABIA1BCHY6AAYgASANOgAHIAEgCEEYdjoACCABIAhBEHY6AAkgASAIQQh2OgAKIAEgCDoACyABIAxBGHY6AAwgASAMQRB2OgANIAEgDEEIdjoADiABIAw6AA8gASALQRh2OgAQIAEgC0EQdjoAESABIAtBCHY6ABIgASALOgATIAEgCkEYdjoAFCABIApBEHY6ABUgASAKQQh2OgAWIAEgCjoAFyABIAlBGHY6ABggASAJQRB2OgAZIAEgCUEIdjoAGiABIAk6ABsgASAGKAIAIgBBGHY6ABwgASAAQRB2OgAdIAEgAEEIdjoAHiABIAA6AB8gAyABEBQaIAMgBxAoBH9BAQUgA0EkaiICKAIABH9BAAUgA0EgaiIGKAIABH9BAAUgA0EcaiIEKAIABH9BAAUgA0EYaiIJKAIABH9BAAUgA0EUaiIKKAIABH9BAAUgA0EQaiILKAIAIgFBo6KVCksEf0EABSADQQxqIgwoAgAhAAJAIAFBo6KVCkYEQEEAIABB3YWVA0sNDBogAEHdhZUDRw0BQQAgAygCCCIAQYKI8Q9LDQwaIABBgojxD0cEQEHdhZUDIQAMAgtBACADKAIEIgBBi7mhG0sNDBogAEGLuaEbRwRAQd2FlQMhAAwCC0EAIAMoAgBB7fWmHksNDBpB3YWVAyEACwsgAyADKAIAQcGC2QFqNgIAIANBBGoiCCAIKAIAQbTG3gRqNgIAIANBCGoiCCAIKAIAQf33jhBqNgIAIAwgAEGi+uocajYCACALIAFB3N3qFWo2AgAgCkH///8fNgIAIAlB////HzYCACAEQf///x82AgAgBkH///8fNgIAIAJB////ATYCACADIAcQKEEARwsLCwsLCwsLBUEACwVBAAsLIQAgBSQEIAALmAUCCX8HfiMEIQQjBEEgaiQEIAJFBEBB6YoEIAAoAqgBIAAoAqQBQQNxQQJqEQAAIAQkBEEADwsgBCIAIAIpAAA3AAAgACACKQAINwAIIAAgAikAEDcAECAAIAIpABg3ABggAigAOCIIQX9HIAIoADwiBEEfdiIFQX9zIgNxIARB/////wdJciADIAIoADQiCUF/R3FyIAMgAigAMCIKQX9HcXIgAyACKAAsIgNB89zd6gVJcXIiBkEBcyADQfPc3eoFS3EgBXIiB0EBcyACKAAoIgVBnaCRvQVJcSAGciILQQFzIAVBnaCRvQVLcSAHciIHQQFzIAIoACQiBkHG3qT/fUlxIAtyQX9zIgsgBkHG3qT/fUtxIAdyIAsgAigAICICQaDB7MAGS3FyIQcgAUUEQCAAJAQgBw8LIAcEQCAIQX9zrUL/////D3wgCUF/c61C/////w98IApBf3OtQv7///8PfCADQX9zrULmubvVC3wgBUF/c61Cu8Ci+gp8IAZBf3OtQoy9yf4LfCACQX9zrULCgtmBDXwiDEIgiHwiDkIgiHwiD0IgiHwiEEIgiHwiEUIgiHwiEkIgiHwhDSAMIAYgAnIgBXIgA3IgCnIgCXIgCHIgBHJBAEdBH3RBH3WtIgyDpyECIA8gDIOnIQUgECAMg6chAyARIAyDpyEKIBIgDIOnIQkgDSAMg6chCCAEQX9zrUL/////D3wgDUIgiHwgDIOnIQQgDiAMg6chBgsgASAAKQAANwAAIAEgACkACDcACCABIAApABA3ABAgASAAKQAYNwAYIAEgAjYAICABIAY2ACQgASAFNgAoIAEgAzYALCABIAo2ADAgASAJNgA0IAEgCDYAOCABIAQ2ADwgACQEIAcLgwMCBn8IfiACRQRAQemKBCAAKAKoASAAKAKkAUEDcUECahEAAEEADwsgAQR/IAIoACAiAEF/c61CwoLZgQ18IQogAigAJCIDIAByIAIoACgiAHIgAigALCIEciACKAAwIgVyIAIoADQiBnIgAigAOCIHciACKAA8IghyQQBHQR90QR91rSEJIAdBf3OtQv////8PfCAGQX9zrUL/////D3wgBUF/c61C/v///w98IARBf3OtQua5u9ULfCAAQX9zrUK7wKL6CnwgA0F/c61CjL3J/gt8IApCIIh8IgxCIIh8Ig1CIIh8Ig5CIIh8Ig9CIIh8IhBCIIh8IQsgASACQSAQMRogASAKIAmDPgAgIAEgDCAJgz4AJCABIA0gCYM+ACggASAOIAmDPgAsIAEgDyAJgz4AMCABIBAgCYM+ADQgASALIAmDPgA4IAEgCEF/c61C/////w98IAtCIIh8IAmDPgA8QQEFQfeKBCAAKAKoASAAKAKkAUEDcUECahEAAEEACwvLAQECfyMEIQMjBEFAayQEIAFFBEBB2IoEIAAoAqgBIAAoAqQBQQNxQQJqEQAAIAMkBEEADwsgA0EgaiEEIAIEfyAEIAIpAAA3AAAgBCACKQAINwAIIAQgAikAEDcAECAEIAIpABg3ABggAyACQSBqIgApAAA3AAAgAyAAKQAINwAIIAMgACkAEDcAECADIAApABg3ABggASAEEBIgAUEgaiADEBIgAyQEQQEFQbyKBCAAKAKoASAAKAKkAUEDcUECahEAACADJARBAAsLlBsBXH8jBCEQIwRB0ABqJAQgAUUEQEHliQQgACgCqAEgACgCpAFBA3FBAmoRAAAgECQEQQAPCyACRQRAQY+JBCAAKAKoASAAKAKkAUEDcUECahEAACAQJARBAA8LIANFBEBBvIoEIAAoAqgBIAAoAqQBQQNxQQJqEQAAIBAkBEEADwsgAygAACEFIAMoAAQhBiADKAAIIQcgAygADCEIIAMoABAhCSADKAAUIQogAygAGCELIAMoABwhDCADKAAgIREgAygAJCEPIAMoACghEiADKAAsIRMgAygAMCEUIAMoADQhFSADKAA4IRYgAygAPCENIBBBIWoiAEIANwAAIABCADcACCAAQgA3ABAgAEIANwAYIABBADoAICAQIgNCADcAACADQgA3AAggA0IANwAQIANCADcAGCADQQA6ACAgAEEBaiIEIAxBGHY6AAAgAEECaiIXIAxBEHY6AAAgAEEDaiIYIAxBCHY6AAAgAEEEaiIZIAw6AAAgAEEFaiIMIAtBGHY6AAAgAEEGaiIaIAtBEHY6AAAgAEEHaiIbIAtBCHY6AAAgAEEIaiIcIAs6AAAgAEEJaiILIApBGHY6AAAgAEEKaiIdIApBEHY6AAAgAEELaiIeIApBCHY6AAAgAEEMaiIfIAo6AAAgAEENaiIKIAlBGHY6AAAgAEEOaiIgIAlBEHY6AAAgAEEPaiIhIAlBCHY6AAAgAEEQaiIiIAk6AAAgAEERaiIJIAhBGHY6AAAgAEESaiIjIAhBEHY6AAAgAEETaiIkIAhBCHY6AAAgAEEUaiIlIAg6AAAgAEEVaiIIIAdBGHY6AAAgAEEWaiImIAdBEHY6AAAgAEEXaiInIAdBCHY6AAAgAEEYaiIoIAc6AAAgAEEZaiIHIAZBGHY6AAAgAEEaaiIpIAZBEHY6AAAgAEEbaiIqIAZBCHY6AAAgAEEcaiIrIAY6AAAgAEEdaiIGIAVBGHY6AAAgAEEeaiIsIAVBEHY6AAAgAEEfaiItIAVBCHY6AAAgAEEgaiIOIAU6AAAgA0EBaiIFIA1BGHY6AAAgA0ECaiIuIA1BEHY6AAAgA0EDaiIvIA1BCHY6AAAgA0EEaiIwIA06AAAgA0EFaiINIBZBGHY6AAAgA0EGaiIxIBZBEHY6AAAgA0EHaiJLIBZBCHZB/wFxIjI6AAAgA0EIaiJMIBZB/wFxIjM6AAAgA0EJaiIWIBVBGHYiNDoAACADQQpqIk0gFUEQdkH/AXEiNToAACADQQtqIk4gFUEIdkH/AXEiNjoAACADQQxqIk8gFUH/AXEiNzoAACADQQ1qIhUgFEEYdiI4OgAAIANBDmoiUCAUQRB2Qf8BcSI5OgAAIANBD2oiUSAUQQh2Qf8BcSI6OgAAIANBEGoiUiAUQf8BcSI7OgAAIANBEWoiFCATQRh2Ijw6AAAgA0ESaiJTIBNBEHZB/wFxIj06AAAgA0ETaiJUIBNBCHZB/wFxIj46AAAgA0EUaiJVIBNB/wFxIj86AAAgA0EVaiITIBJBGHYiQDoAACADQRZqIlYgEkEQdkH/AXEiQToAACADQRdqIlcgEkEIdkH/AXEiQjoAACADQRhqIlggEkH/AXEiQzoAACADQRlqIhIgD0EYdiJEOgAAIANBGmoiWSAPQRB2Qf8BcSJFOgAAIANBG2oiWiAPQQh2Qf8BcSJGOgAAIANBHGoiWyAPQf8BcSJHOgAAIANBHWoiXCARQRh2Ikg6AAAgA0EeaiJdIBFBEHZB/wFxIkk6AAAgA0EfaiIPIBFBCHZB/wFxIko6AAAgA0EgaiJeIBFB/wFxIhE6AAAgAigCAAJ/IAAsAAAEf0EhBSAELAAAIl9Bf0oEfyBfBH8gBCEAQSAFIBcsAAAiAEF/SgR/IAAEfyAXIQBBHwUgGCwAACIAQX9KBH8gAAR/IBghAEEeBSAZLAAAIgBBf0oEfyAABH8gGSEAQR0FIAwsAAAiAEF/SgR/IAAEfyAMIQBBHAUgGiwAACIAQX9KBH8gAAR/IBohAEEbBSAbLAAAIgBBf0oEfyAABH8gGyEAQRoFIBwsAAAiAEF/SgR/IAAEQCAcIQBBGQwRCyALLAAAIgBBf0wEQCAcIQBBGQwRCyAABEAgCyEAQRgMEQsgHSwAACIAQX9MBEAgCyEAQRgMEQsgAARAIB0hAEEXDBELIB4sAAAiAEF/TARAIB0hAEEXDBELIAAEQCAeIQBBFgwRCyAfLAAAIgBBf0wEQCAeIQBBFgwRCyAABEAgHyEAQRUMEQsgCiwAACIAQX9MBEAgHyEAQRUMEQsgAARAIAohAEEUDBELICAsAAAiAEF/TARAIAohAEEUDBELIAAEQCAgIQBBEwwRCyAhLAAAIgBBf0wEQCAgIQBBEwwRCyAABEAgISEAQRIMEQsgIiwAACIAQX9MBEAgISEAQRIMEQsgAARAICIhAEERDBELIAksAAAiAEF/TARAICIhAEERDBELIAAEQCAJIQBBEAwRCyAjLAAAIgBBf0wEQCAJIQBBEAwRCyAABEAgIyEAQQ8MEQsgJCwAACIAQX9MBEAgIyEAQQ8MEQsgAARAICQhAEEODBELICUsAAAiAEF/TARAICQhAEEODBELIAAEQCAlIQBBDQwRCyAILAAAIgBBf0wEQCAlIQBBDQwRCyAABEAgCCEAQQwMEQsgJiwAACIAQX9MBEAgCCEAQQwMEQsgAARAICYhAEELDBELICcsAAAiAEF/TARAICYhAEELDBELIAAEQCAnIQBBCgwRCyAoLAAAIgBBf0wEQCAnIQBBCgwRCyAABEAgKCEAQQkMEQsgBywAACIAQX9MBEAgKCEAQQkMEQsgAARAIAchAEEIDBELICksAAAiAEF/TARAIAchAEEIDBELIAAEQCApIQBBBwwRCyAqLAAAIgBBf0wEQCApIQBBBwwRCyAABEAgKiEAQQYMEQsgKywAACIAQX9MBEAgKiEAQQYMEQsgAARAICshAEEFDBELIAYsAAAiAEF/TARAICshAEEFDBELIAAEQCAGIQBBBAwRCyAsLAAAIgBBf0wEQCAGIQBBBAwRCyAABEAgLCEAQQMMEQsgLSwAACIAQX9MBEAgLCEAQQMMEQsgAARAIC0hAEECDBELIA4sAABBf0oiBAR/IA4FIC0LIQAgBAR/QQEFQQILBSAbIQBBGgsLBSAaIQBBGwsLBSAMIQBBHAsLBSAZIQBBHQsLBSAYIQBBHgsLBSAXIQBBHwsLBSAEIQBBIAsLBUEhCwsLIg5BBmoCfyADLAAABH9BIQUgBSwAACIEQX9KBH8gBAR/IAUhA0EgBSAuLAAAIgNBf0oEfyADBH8gLiEDQR8FIC8sAAAiA0F/SgR/IAMEfyAvIQNBHgUgMCwAACIDQX9KBH8gAwR/IDAhA0EdBSANLAAAIgNBf0oEfyADBH8gDSEDQRwFIDEsAAAiA0F/SgR/IANFIDJBGHRBGHVBf0pxBH8gMkUgM0EYdEEYdUF/SnEEfyAzRSA0QRh0QRh1QX9KcQR/IDRFIDVBGHRBGHVBf0pxRQRAIBYhA0EYDBALIDVFIDZBGHRBGHVBf0pxRQRAIE0hA0EXDBALIDZFIDdBGHRBGHVBf0pxRQRAIE4hA0EWDBALIDdFIDhBGHRBGHVBf0pxRQRAIE8hA0EVDBALIDhFIDlBGHRBGHVBf0pxRQRAIBUhA0EUDBALIDlFIDpBGHRBGHVBf0pxRQRAIFAhA0ETDBALIDpFIDtBGHRBGHVBf0pxRQRAIFEhA0ESDBALIDtFIDxBGHRBGHVBf0pxRQRAIFIhA0ERDBALIDxFID1BGHRBGHVBf0pxRQRAIBQhA0EQDBALID1FID5BGHRBGHVBf0pxRQRAIFMhA0EPDBALID5FID9BGHRBGHVBf0pxRQRAIFQhA0EODBALID9FIEBBGHRBGHVBf0pxRQRAIFUhA0ENDBALIEBFIEFBGHRBGHVBf0pxRQRAIBMhA0EMDBALIEFFIEJBGHRBGHVBf0pxRQRAIFYhA0ELDBALIEJFIENBGHRBGHVBf0pxRQRAIFchA0EKDBALIENFIERBGHRBGHVBf0pxRQRAIFghA0EJDBALIERFIEVBGHRBGHVBf0pxRQRAIBIhA0EIDBALIEVFIEZBGHRBGHVBf0pxRQRAIFkhA0EHDBALIEZFIEdBGHRBGHVBf0pxRQRAIFohA0EGDBALIEdFIEhBGHRBGHVBf0pxRQRAIFshA0EFDBALIEhFIElBGHRBGHVBf0pxRQRAIFwhA0EEDBALIElFIEpBGHRBGHVBf0pxRQRAIF0hA0EDDBALIEoEQCAPIQNBAgwQCyARQRh0QRh1QX9KIgQEfyBeBSAPCyEDIAQEf0EBBUECCwUgTCEDQRkLBSBLIQNBGgsFIDEhA0EbCwUgDSEDQRwLCwUgMCEDQR0LCwUgLyEDQR4LCwUgLiEDQR8LCwUgBSEDQSALCwVBIQsLCyIEaiIXSSEYIAIgFzYCACAYBH9BAAUgAUEwOgAAIAEgBCAOQQRqIgJqOgABIAFBAjoAAiABIA46AAMgAUEEaiAAIA4QCxogASACakECOgAAIAEgDkEFamogBDoAACABIA5qQQZqIAMgBBALGkEBCyEAIBAkBCAAC7MCAQN/IwQhAyMEQdAAaiQEIANBADYCACABRQRAQbyKBCAAKAKoASAAKAKkAUEDcUECahEAACADJARBAA8LIAJFBEBByIoEIAAoAqgBIAAoAqQBQQNxQQJqEQAAIAMkBEEADwsgA0EoaiIEIAIgAxAOIAMoAgAhACADQQhqIgUgAkEgaiADEA4gAygCACAAckUiACECIAAEfyABIAQpAAA3AAAgASAEKQAINwAIIAEgBCkAEDcAECABIAQpABg3ABggAUEgaiIAIAUpAAA3AAAgACAFKQAINwAIIAAgBSkAEDcAECAAIAUpABg3ABggAyQEIAIFIAFCADcAACABQgA3AAggAUIANwAQIAFCADcAGCABQgA3ACAgAUIANwAoIAFCADcAMCABQgA3ADggAyQEIAILC44EAQV/IwQhBCMEQdAAaiQEIAFFBEBBvIoEIAAoAqgBIAAoAqQBQQNxQQJqEQAAIAQkBEEADwsgAkUEQEGBiQQgACgCqAEgACgCpAFBA3FBAmoRAAAgBCQEQQAPCyAEQSBqIQcgBEFAayIFIAI2AgAgAiADaiEGAkAgAwRAIAUgAkEBaiIANgIAIANBAUogAiwAAEEwRnEEQCAFIAJBAmoiAjYCACAALAAAIgNB/wFxIQAgA0F/RwRAIABBgAFxBEAgA0GAf0YNBCAAQf8AcSIDIAYgAmsiCEoNBCADQX9qQQNLIAIsAAAiAEVyDQQgAyAAQf8BcSIAaiAISw0EA0ACQCAFIAJBAWoiAjYCACADQQFMDQAgAEEIdCACLQAAciIAIANBf2oiA2ogBiACa00NAQwGCwsgAEGAAUkgAEEASHINBAsgAiAAaiAGRgRAIAcgBSAGECkEQCAEIAUgBhApBEAgBSgCACAGRgRAIAEgBykAADcAACABIAcpAAg3AAggASAHKQAQNwAQIAEgBykAGDcAGCABQSBqIgAgBCkAADcAACAAIAQpAAg3AAggACAEKQAQNwAQIAAgBCkAGDcAGCAEJARBAQ8LCwsLCwsLCyABQgA3AAAgAUIANwAIIAFCADcAECABQgA3ABggAUIANwAgIAFCADcAKCABQgA3ADAgAUIANwA4IAQkBEEAC5gHARN/IwQhBSMEQeAAaiQEIAJFBEBBj4kEIAAoAqgBIAAoAqQBQQNxQQJqEQAAIAUkBEEADwsgAigCACIGIARBgAJxIhRBA3ZBIHNBIWpJBEBBoYkEIAAoAqgBIAAoAqQBQQNxQQJqEQAAIAUkBEEADwsgAkEANgIAIAFFBEBB5YkEIAAoAqgBIAAoAqQBQQNxQQJqEQAAIAUkBEEADwsgAUEAIAYQIxogA0UEQEHyiAQgACgCqAEgACgCpAFBA3FBAmoRAAAgBSQEQQAPCyAEQf8BcUECRwRAQfSJBCAAKAKoASAAKAKkAUEDcUECahEAACAFJARBAA8LIAMoAAQhByADKAAIIQggAygADCEJIAMoABAhCiADKAAUIQYgAygAGCEEIAMoABwhDCADKAAgIQ0gAygAJCEOIAMoACghDyADKAAsIRAgAygAMCELIAMoADQhESADKAA4IRIgAygAPCETIAUgAygAACIDQf///x9xNgIAIAUgB0EGdEHA//8fcSADQRp2ciIVNgIEIAUgCEEMdEGA4P8fcSAHQRR2ciIWNgIIIAUgCUESdEGAgPAfcSAIQQ52ciIXNgIMIAUgCkEYdEGAgIAYcSAJQQh2ciIHNgIQIAUgCkECdkH///8fcSIINgIUIAUgBkEEdEHw//8fcSAKQRx2ciIJNgIYIAUgBEEKdEGA+P8fcSAGQRZ2ciIGNgIcIAUgDEEQdEGAgPwfcSAEQRB2ciIENgIgIAUgDEEKdiIDNgIkIAUgDUH///8fcTYCKCAFIA5BBnRBwP//H3EgDUEadnI2AiwgBSAPQQx0QYDg/x9xIA5BFHZyNgIwIAUgEEESdEGAgPAfcSAPQQ52cjYCNCAFIAtBGHRBgICAGHEgEEEIdnI2AjggBSALQQJ2Qf///x9xNgI8IAVBQGsgEUEEdEHw//8fcSALQRx2cjYCACAFIBJBCnRBgPj/H3EgEUEWdnI2AkQgBSATQRB0QYCA/B9xIBJBEHZyNgJIIAUgE0EKdjYCTCAFQQA2AlAgFSAFKAIAciAWciAXciAHciAIciAJciAGciAEciADckUEQEHojAQgACgCqAEgACgCpAFBA3FBAmoRAAAgBSQEQQAPCyAFEB8gBUEoaiIAEB8gAUEBaiAFECogAiAUBH8gASAAKAIAQQFxQQJyOgAAQSEFIAFBBDoAACABQSFqIAAQKkHBAAsiADYCACAFJARBAQsLkIUEAQBBgAgLh4UEAQAAAAAAAAACAAAAAAAAALVLBLpI5c770GzeCB97gVZSRrUhwFrrmuw+7W5z0546SpfHRQwBQtLBDmCOmBd1q2lpT564Y8bfI8DJvShZzHtY76tQT3w/YBGXeEr4hOZc/EpPpwE8E05XKMvDdXZN5Ev7Gx6cS1e1oyBTshvSZIwgbgAKbNhqGeIsLv4vtrwlcEeN7pskUDNwYmlJsWBLkR6lzdaRJQjnbxYYgaSY2mrrOuyjGh3fAAcMTQgA390chbotEdq8p6B3eITzrd80wkNXP3oqVWHt0ZU6ny35hk9+yulMleoQuftNJmPoSqkAIwgEN84Xce0PbFUZz3pVQWcE2AYUM+cVj9DSavH3U3/PoiJuxQ6dIDWvLoWB36UUe6io4bfjUcN0Nj3SUMeStsugIEicIaj5R4yzVDkalruiDjSzL+ONg5+4LSUXT4yxCRxCraxLjl82pEMX3icdRb4K9hvxdbNHVVvngEHHH2mdLbVptpECGtY/XUcD9y6/X5UlgXDz62xAMsDznf21jtwRFDkzL8TQ1yiZegSwRbLLqJyuL7WWEXMk2KcUXztwXFiID1F56u9dgT+OPWflvXwTpG0b82FNwHbySapO1151SFAvh0W8K2Wz7Hz+tEc3TEQoOR67G+Wh7UHSR+y4KcubGdSn1hzrAmuTd1+pk2tUvC4GJCPX97/4YoU4MmmIEHnBTi/I/ix5tJkOkWR/a8RWxSHC7r0yyRYZ6K0HSkTPGOsI4Tj1s41wBlMVnTtxWjf577ZRwXcAUq3uL0wILiGRX+GnpOjDph6ROSjPXw5Y/rQgflJg9dztbCKLYd3g/KOGPFhYIJe4khPfZR4MZqoRvq++Xpobv7t3M1ehY6AN87anME4M+ioE2WlSBp4VmbauvLgLuvLyYIMuGkaZm/1UQSWVmYttUCORgpukNpB2zUF9YFVPPQNTtDwE/uc/SwT//VROqc623+Vsm+y+tbGM0k6YUwbCG8jZ2amjTVDPln95Atdreknf5jl5lcz3lP75D+S5IM3JM4GFHg3Uy/t2Q0j22RkL+UGWR8YLn4ID5fBg1QBjrarmvB6sCuzdoa5fDjS8Y2WdRzhvXpKAj0xeJjy/NmdzXgiD/LH1LzPBYjWyciHkZCt6V5Hz7RRLMR1X0vEixUFuJCy46wxT3IqpMm8Gifue9pj+orfFpAfezuUZJN6BiyllfYWT3T1WcwfbWLG8UaQRUDzo67+iwFMhLftCiQV4MtGNQQ/WBHapUF1TkN6iT2M3KhioJXazmlks1r2S72MExOHZrhS+OHqN7Mu0J5emGfKtDK/Qy5ELx1KIQr3i9SkIsndEZ4nLkxA+IULZd9c/MkrdAA2UuBC52DgGPw2Y/w3qIHrREFeBT2VNc+xlCcPWJsufwAerefTBzi8vN7iy980c62KEGyWQzAwHGNGjkkPAohik7uQzfcP7J2TeVR2Jp7RVZy8GXZvGANLZTYMPBCJg3EMjRsc6GkhbFDSuk35pGwJM+vY+lAgM5xodQMPKb41Z/JHqYZ4x0+26SrgomR81S+DlXdRCEuhmCNOBiHblikNlfT+vyUXlDM1zqhS0+dhYWoDPazDDT/wf14+tR+T8TpGefHQnKCNv68P6XMqimRfGVfRz5HIK/7BlEkKUMhFE64feT/vANqbFrG4t8NGIpdnbSNAl80pw145ghAucl37rKeqRvbHKAeOx4xbZwV0lbSCa1IAnZYRIgIijEdjmG5iHnDJOAAXd8G6tM3eZKHtjs871w8raf3apX+8haSTJC28feZc4XfwJo3OyNujAl17tahiKcEMMkSaWk0gXpOG1AnNJxwnnC3LbYa3v61Ki3ECJ/V4w9p1uU8EmgGYRfz9kXiPE1X9fEsaLhcU2Hr7XsOHgSTTLjGsmBSLwwbj1eC05AFlhai9Fj1vuzJe7y8Mzqu8+joySO3xznuoT5twwPCb48mFSJelTInkyPn20ULrpKhs6GS02/WfpX4C9GZBc71JEIe+CXg6TZqRVtF2W8znBQ/Sobe1kBfBlNBqwB0xTsVAV9gijrcUbb701K6Npj82Tc+fZarnM0JHiprTAPOJsUg+QFAL7oPf+J6im1CVnNU8kiS+ZmNjCU3YgvBvPqChAFmgOt1+13ayfsKwb+WkaHJEaPF2b+EY6q9ZXbCPuluM1sn6lRtL0VdOELxu3A7MD28h7gcG5t/K95Br4BcZUdtE4mVQQn0JbngUGvhZ2tuwGmgmxxNk3MH2yIhtfkizZNjEmMHMa4SzM2MXpRqMAT1xIY6zNfZd39c59t0VuKPnQrTbimWf6DE8FMNk/SpS3b1qQs1rHwGF41lCcgrcFaJj240OqPqrwB+6KdjyOzQreUNeQdjReZnKhdAUqzI3FDvyKeHGmVJyeepLC0zPDEYd0YIuz+b6HhCMXXefVlD5keZcDpnaPkprTbhcxsg1/AmTsCXYX29Xzwo5uoa7riQaKC1twdD2xTyCuzOE62jJC/pwlBZQ/HXfc0mI19bKJo86iXQdEcdkeFi7g+4oo8grueT3PC8wIg7XvmEMlU+u8nIWVg9IxCIrzIWbB4ld5UnpdaG5wNj/vgCD1p+ZVa127GtbUsAsIycLIY6IBPiUx+I1wG8T5d2wPyrnAs2ylmXOZa1R7JTycd1ikJTnGkn41W0nnJkzljnBXL4JtH61s3k7Cef5Z7tOx6YrYNR7z54swSnKOdfyuNFF5j2thhrE5MipMcohREdhT83TeE8/NC9J6car5pIEZh7mZwnLrNadPGWABSYtBGN6R6Wo/kUsCTckbMGb72ol8zIcnc1EAly3dCuXyhPNAGgHofmUmX1ZAdK3gny3OHk8OputT5d7M5UGQW5QVbufOWxYilqvziF/mjY6e4Q62u/Hl67O3mla9kNjRhOLnujs4j/6OK2+4Kt+MrPPb3k00U61mIiGHUaVGzA/Yt2WSDg5gohW/7wrHslwuPzCS+F4BlD/nNlr6zk2FtGM4/pegkA/QHd+VuQ927KSVldRegfrhrlu2Kbo6RKK3wafvXPmPdTjP9Oil0t5yaCr0kgeRG2DBQU0ZUsBBbnpZPP/fv5S8Qyf9qxYjfpJJrIA21ehxVMmVKGhJmb7cpq4ZgNmXKBJXbMujAFbv4Pt7o8P+Zz1VPe9r3S6TfiOebMPt2QWxDMPfrIpaE/sd4z2SFN1b6d1RTc4geHTJdyQTD0dzx0dye8H/QGs1IvtgYOFxPxGykTqEiHN+sisopKdhM6P0VHAuaG83UnFjmFWRnEujssH7T01EDO/p3Eo323HCE2EGPx1k6CK/HM2Hc7OWiqyhQMuprvNp0lvFcvdxLHXj8wdMGnFQYjseHvKKE8H1mpdCdYJDuCZpEYcBVSqlzyuY2mpFPCSTKBtYHwIXFyZ2MnSnA6amp1OZz3z2HkQ+Z0wcFKfccGt/9BCmxHEJDjByECIavNJ53AwiFbPe2IKFru+YuKhYdwNXWVq7MHCJIlwsZ74o2Tz6VdsgVhhEZ40gsKiNk4TR3rVThco9Lk7wa740uIkp5weEbvXBfSKAkub3MreZrfmPCwD6mD0QGGFkKs12P/MBds/vBdfk5vZfiilXkdB4XMjvw/r7emW9ke9VN9aZYYe+UR2NpbYDRJYZzgGWWCBQ18+TBVL0fn4G2ckKsfXqzH69SDr/2uF6UbCuBt/Fe9YLLQ8hUpSnrRmu2GjQBwJnVpSKJTZzZ0QR7BRYqbMXljNzuPHM6o9z/M6ThhEmahr3wfmXYgBDWl6z5NcpJokOMpToqwOEyJjOEXd+uX3kj1UPHJKuO+OvxjAzU9ODc3dPKYna0djl/U7LVDjmIXbCIJprmrUW6vhyFgu+4YEoprBD7btDu4J3Ier+IMCeqFR0f5V19umf7OhJ9gVPBClDluSa3trP1T9IpboiUmwoYLHGYXTaGIVdJStM5t2LdgU13+w2w/K766zKxRxo5Y8VtjQCCKnB3PNe0OoGGh9yhjqGQqVA1w1ErrC3x8SFsRUKc9B7HJGta4FuHmZj56DsslSRleXcXACPLL2PN/6cGQvTqb7oSK228fljseKDcBRn1ZyDJ0D6c7pElSsHlCJwHwWnVqEVf1/1bJ11MIZWf3EXc0U7B8vbEplezOz3B0dO4Ff6LEQKh3YECoVkzG9lRlWhYsCgssxoLlc3vPXQyzu5fIOh+96mkdKsX3zNesLKDxbSeXysaIZWeH/3VgGO6KcjRYQDFJv3UCr9StEyqDcXK49szljXHHMf07G+ZXbEpMJlAVCEW/tJZTRAmxl1EtXTgaIA7DXV1fv8uFfrOV7ykgx6fazVnEAoE/Qpbdq22pYVivh1AMvUyGE1wfBBdKA19gjxLKmZVs5ma/TkEdK+DU/9Bs4heRF9NPM0tA/HtAm3WRKuVBrTZmwaTgDLpK/GgR6FDHaEto6vZ60J9Ip84gMtvk1SdK6PQ7YdqcHJLyqUt25yDp3DlK+jYsYn9ckduiD0HF+LLm/+OpIkwcI3TNGu56ccA3Td8GnOKuwIPx+A/5AFQvHlzZIIGRV/0Z7+VG/ADX9OfbaJeuBsYZ68QPPmnQf1oTDPryjhG+Ua/t575mOoRiI5LkbCwL22QGkzpDOFtSWa7CbMt2XLVOrbe/+05kHpBR00qTkfnSbQifPFbeTyZ6+WCZgTQcdmvop98gAcs55MZDGfRPBa/5aTkbeehLUG0hd3ozerC2N3yvUSoZuLpYTbeEzccnhETHetEKqb12aJhFS3t/Pfj7wGTGXXbPhW2qrPcizzekGKY2RUGm/PvlXxEVHKy21pFz9FZj4knRgfHTWKTesAK0lp8a1lknZ9DGqrV7k5uJEhBSux1p6FceBj5PM6Rhgf5X8NHiOXAj9Dl0JHR7XkS020c15zmrd+9QGHufijxFLard53+SbmV69bOfJTW9UmXs5ZOAezQK4Sv0BZAeHHX6vyT8Jd/dy1NhS/MRrOAoVdzxr0kf294TyZyjevWDNiW9v7YjcKhoGKPUn4MWspalW+dMPsVtjGlaP7TDoQEpMQGG/QZY/iBJY9HiMbD0YhqDerABADoWNJAr+1/QI732SWixMic6KD70+J2necgJRT2sTECiIyUPeZLa3J+p0s/UN46dMv0GkyvMTNhgpDaB9Ih/38CE6EzD8DSfgvUZsDxDAQjKKkuM2GpCLSAn57efGx/AssqSJ0ZpDtXW+kJR1m2fJ1i6IbKEp+fS1NrqLHeGuaeEHJzWfHIpZyOJqht23ujYpDqs8hmBtD5ADEil+N4H2gyH9xCPXiDnKwg4+9FO1QT8Nykd4uZQ53SyWU87Q3TKFD4kQ4fEfh+YtA5V/ROgl4a/uhAfFLuwFE6SlSkRf3qEK9jHhRMI/40iW+jMWE+f4eraAloz/P2TVCt95WiJOSNFPe8U02HnD4MPB+5Rxl1mtG3+T+Zfyol/zfGs4Ad9h7tAgIOsUC/BdDkucbjDCzF8x7Twbax7SNHuUq4TnjMaojFUSo9zPjOdnhjF72DH5ZDP2klTETks+8+rhVRezOIZ6Vi6K4pCwkv1SMSX/eh55XfXqIo1YFO/lS3ft/NOot8C0D0EKnbZLpRGXRYE+JCXpkahS2rRus1PV1mk+F2YbyPj2FAWrN3HuX6Z3i/rpJVI6CUMknaZ83Yc+OI2pJ45Eg8qVTWHFKfgRwohIW9PhXglutUuzbUmK0h9daumr5XhuNqQ8i7txnVyMMj76+9d/L3PeD0x6emUM0ETZtbADoLZRiKEJ2TVCNCBZLGxNDp7Gl6cAvXR3BnYY9fbOjsNOvYFBvU0C7wnfK49xWQTQ2eWSZkvj3wBrZ/2VDA7ZTSsNv9Vvg6eCeMNW9sQ801wfbg3AbGnZ6XMdDaTuEUNk8XfQr/+kci2MHirVFnhDQLzg9wPqxgi8i9+spXGw8mHh6mTJBnnNbTrx60QDQSrnSyp3+ejnqNCCNfe+1k3EYrfRfieFhLFG3avhpaWlaEKYcQaN7qCSBLskJxe7H1cLuENZdhVIabeIdgk4SqIO6snaHNzHAPVvT3OZC6U+33xI+bLS4HyeErTEn63Vinq2312o5qHS3hdoK1MubkmqCWbdBzXnHHpv1CjH+8/R1u7ubrO2LuUkOYwCxnEqCHTaHZhJy01DGNZ9VTUrQwdsgNxQ7eT2fwOqaHLQuM98gogGFCH7XPrpqU+geY5mBf9VEYyzNVWV4yGCK9D9+kk8qkCHwjxP/E7vC99wRejcxm9OpPqBG4PNVMO5EEfdGYH7bjynBlWJLlkf1eaPnhRNsNsQ691kyQd20v4G7NAQm+xDxfSMZX5iPMeL6P7f7sy+4F0dkKKan4ryTOUj3IMPnvBLcaU7zDvaeodjv4UIdfEw53jUnkmT/n9LnERxbQwq3ZvIKO5JgPMcllqrMgX4o4hFX1Re8hFHd1mkmVB+V8osizMK9AaCU781na2AnX9sRdcValdAyIJVxcwfWLlUKA7lW9KsE0cXJPI7f7N/CY1gt1hy0m39Kr+hPcDqu5rbmVukLNCXnF4/zw3ScVdGLlv+znQYoJLQP3gGldO5ZAH/kUFfdyLqxVMtB7CLymyzKh7SUSQcfND7LK3X4DzgM/mCyhcYAz36vAmW6xeO05gyIq5Za86fTyUp7Qn9OoXOGM8lyU0GLiWIrITfHn+0rQQnt8/xHfbKCkgx97uR580BW+IOeX2a7ramIamLSlusbMO7vTWKrci/j/Q02m+2WcxhiRKNp34XJA32yX4xm1MUlNcSG1E1GR0zrc1HeWNf10rEODErfQAFIW8hhpNzp3xPL8yZrD/psQLjcG8EhVC+wyNDRQKR2RrnMdKdlmeYsheaHbaulg1ZMaxnwnEj+b5HSg0ZKMN+ba7dn1jZiwGwl6SGwX66WNmDTdEubsjd+YhJ90f5B4pN01VBV5Bi2No1cazZo52SOwhQxPsobCz5PtwMmE682/MBbuRgKNut9cV3HaeWkMAE0dBI3zx+AkJ/ck1u2iteigZ+6bxOEFNXY4yyDDqcIZeDbAZv8kocgDUNGoEjANHSAZpPhCuFsBWh+xYV8LutAkZfehTfDRgLgvu35UdIGW0QGqgR73CJQy7iggj+MUuuG+oUlBUHE3mNsGRUlcSbMVWRlc1JzS4a9tPCw2/o4Z2fvDz/WrLrdfKqKSfg1nr/TS/e+iBh3j/BU14bAvA4rCkNNKgGUNP0ZRrzUvG2R6TmaFCv3xU3SDSrFOaRK/emWe1idoS58/HCCRmCgtVi2cyFT1lBBkUXafxzUglRPqpeXXLy9NPVqlPHlM8aKYXZp4lC95n2vFXBTOZYcLs1t3DeA8HHpLuwveSQWD8g7Sfb0gmajlNLQB8YYlaO27UDS1W2aLtIPXOQ7OGAm5nJ59nXkFqUovv+GbXKI8mPHfVlon2/xOidzGLZmVDFNwBuFx5FAhRATrFkAFqgs9i12S53WwZ9EKmXUGW+bjw1fTQopfgZcys4qTS8bBWxXvWR2g1qFG+L3KT6//RgPaUTcUbc/xGX504A9kBZKuaIucoQL2U07dZ4fzO/JkrPEj1IJ6Hzu0+7q92aEPf1qhwcRPBCvNfgiWS6/Z0olbiQMthZol7/JsjbW/MMfO0XkO54Mwcd95o5mJzC2GcFChtjwNDRgb824DaBTZGOgLFoB1sQkp3YICLITaj8SQfYPeziK5Us1/p3Vsr1APjC+F/LeFoYxTBHe8qg06ku4D/HCTLr1ADs+B9TpjNBMuPtGePxm0nLunK27KSdZnF4o2vfRhBl9dAAkY6j9L9cLQWKDUkMj1b0yrKhxIcYutIFFvJvMZjvmnEaZKbzilXh/QfiejPe+NWk5AB9uQAdaGqaCQVkh1aVfF4oFb4LvEF4atJMOt8bt7WeQivUG6B5Y4VxkcYdULvHIQgk888JmaJGbgSMM44ulq1uVA/k0mdzOn42a6iflJNakwwDRC1+Ux0vtKAf7Zl3S2WnR+ovHODYT8RCBBIZejDiLx6w2DGPD4BhpWtt7iPliidoGiSqbHa2Cwe53Xb/iAfZ0fNG2iFcZ7qCTO+Zh0dvmrHen+hdN02u60s2SBpcc8ZHP5l/9ZGDQ76ZTvDOwED6yKLImk+B5rVZkl0weMMMSV/f+Os43QXAECKVF61O3zOKwOxcaRxnwKviDxmt25U9RXeDw+C+YbprsJyuu3EI/vKQQ5Ojswa+Rcx3b4WjYWGvicrgTmru6wSb4qcGG8/xCwNqkicWEQYRXey7/3i4ycNmaXC14BusA8tNCZVUT469WIIvDG1L1r8uXLXZkkrNcQGWluydVgC01o5PufGiejrylwyvMgGPBQFK4WQdLi6+Bqw0EaRd4Sez6G9U3M7kDTPT+pxmn1YpSAoTHJhnGYwseFo3k+qqY/U+zQGm/LiwpAyNPyo59um+zcs5XSryh9wdEDdBPum3hvyY2Wqwo2WSA+0EWU2qjVHszBhhT98wydeDe6+KrpBf4UsUQhmQ0MQ+ctjy/xz56Xw09e6vI+GZlsTqadHeM/HFc7RyjWjk3nqcEibnrFhwb+9zeoM60f2Cnr34A0GWxRPzSA7l7cB04o5mhZ3BshxJU5ZypUldPP48C+dpR1k3buoGbBU03gSYD6bfX4Kc0BPEZKuOWp257bTSnD1wr/cTFbcwdHEaa4kRaJ0WK+CsN26gTZ08XYBYevef90LrX3jzmHMWYCRsN+GvCTwkR/omStFqILAhBC4UylxqMfwYpO2HQqF6zXk+ZRrRpd9dGGye9KB6yje4gjrjYt9CIKCYiTugl+E4eY6T+JWQciziRkY6D5XV0VM8FmYvO15sP3TQzS91GVKtE1mGvQL4OYKWalObnSQcYSuD6PaTM9K3GmL2v3nC4eCVIhtUvisAWb2Z04n1EUqmatz+WUx7Aex8NKAARfurUt4KX2xjfvH3N+Szhg1mQtMT04ATGizHzkwNpcXZh4hmqpcMboBGoFJx1HL+vI1+b61owA3ebQNRH14rWqWjFL9+VwoI2W97wn8KP9uM+RXLNbk7XSqdWLisXDGxnjdIeP+X26FuD8BrL4AT94J6BAK/B30Zo/Hj91DX3KOUwZqgrDzI0F7mu6U+MxIO85N94N4/v0cEHUMSXCwCl4iXSJ6nhrOd6JseS+f7am6p8QR6DJsZsFStQuS7/GqkDn9BcNNYbPSJjFDJkGbrYxx5UT4J2RWQ4BuiPteGZGt7e1N7aARu0dsviVVI8xHRGSMi+jqdsIww1v++3pLtVIWG4Y/ZvLNl/Pq1LnGFIHHxD2PNjr1f1Ly7Z0TSNsJTmAkWCc974EwdPr+W4CEJe/i+hYurf4u/LHqor1FPXQ4hhqF5kEfuFTaNGpX5OJB2YCAeEVd5a9HhppFbjHNjcoe8Seyr6D3domv8+cACpaXL0dGWyXMIOZT1mtaW+bjt037/UWLtHYJCXL1g5JADpfRL0dFmZFuMO1rYoTuwHCx184NO8RRO14FLioxQNJoiUPazvWfx6z2toiCpck9v4OuX4kGmVsWXXr7ZyZ4EhGr1GdBPwEpG8ZHhbtj1hnmyN4ykcW2gdhatYf73t3GcWSdEkHtfkdApLW8aH6vFlYw/eDlkodDz3Naz/Wr38hQD6TnmO0xnB6waKbq8duezSs74yjZl0r1Lhtmc26g+bzbGxETmSmToYsGxrTYDYB4QdtA0AQyYylaHMbxyTxntojG9l5ESg5HxllPZV3QBufndM912OAuFs4b2eJ7bnudrWTJTr+oP+FNvKgwFghREit6LDNa/+5m4UquUzPi5Xv4ZHNAsOtiZSEDsllm2rPUP2QynihnZ9iiNzVRMNcNsMYTj55JwOZcs7QGvUSZUNfSWxGx92s+4L9roAqv6Tca5JMnKaKzTAIaAUUR+ieWb4QmCs7AjjG6sW90qhVU/vDaTGZ0rp/i1bdjRdKKA7ze8VPp3fP3V16mKtWnxFcXllvNnQ8b996YIljdwPPCtiaAWrsHVxE0zG07k4aDCaDYlaearwwsxnf5Jzi0QyL6oIxCDlIqCXCsphV9zYVJAFEb+fRx/mrAJsaRS5d2YxFDOlnBWwV36hE1YJo/hH8yY2KoPtzgjyV05vmvQMO9hIVIadqUOyAkeOHBUk/sIx/ihOsg3kJng2iiZ8uLtr5kQ5Ncg1CRVfoEKXUGzPkmPGLyTAnSl4bL+y9loSGVmENIS334tYSDojgonmVvfDcKoRmEX2FBqSw8EmE0qPPpZHckar5xUE1CoWP2y6dUyKhdqlvtpH2Qlxb8V1PHeaLwQMnBT26Eh8U/Cl1BtKQA23LlsA8OBaze3r1gblV3bV4L5Mm2BPwPdw6lD6lBBu733A0rmb0toDcSvCi2eAxyBtF4NctdNcIN58bOyq78ExAe5QmuCZxvqmvYlvoYl2+noXP4F9YhGR7M9emD+P/82lMe1IuYY8AhyIQr26kE42C8v5NBRTgIIRQbd/6z44qp4xqHH8Zqw10/bL8n/qBki6PfOoOi4thfhJWxijMFpzF+ErJkaIx0BMsbzdFTbFh7oHLdvv8cyqIP0kEvqb/hD5eVNcqvzEiFUM/RUT7TDKOmAmL0igoDL7FryE8xHBeHMFUOGW+rnFCuaJf9ixe6QRkJQSTapl1K8osHesQGEM8vCZe6u7Jr6I2xq9Tt0Xk5FlpW2YkKnC+/v9fW7uIoUK6Xea75ES1ibh/BSS6fWv9We6ZyAWogJbXu0oi27awiKxOzLA6Z4nUBEBBEJLIxrEzo6yslFSTdrzWNrvWvnqCu+R4ABN2HbYdCMQd25rCY6cbB+tve7xVJqaZ/lpgpl54DpvUkN2Hf4bwH1j2EaH9GwdArp6EXDBMltLa+AF536jzkQWlpPWlK0VpkMrZtb/VNET01CCZ0R+b+kvl7Nub4nFwuagbz6LkthC+DcAeN5zuqXUnluHtLYTtffyQIXxA2cYIvrV1/JQ3nXyIXvx8wBeD6ipHyEIa0JGfGab3GZcn6AqKaa5S7wHa7fZTQUDFrN6QNkpn73OCbwRb3KVZLnsYqg5kgQOXbD3pQDiJ+w9F9/6YiBEuCeRyx5WUzH5j/0VwKlQDzO/SBLs2JQJ9evuQ5DNH/vzg11az4x0DVOc9fuulJEIH5PFHM2f6vmM/nF8PebTpP6kyHfYUC6D4suloRsLTrI9A2wfwAfU29LXtz89iAoqCDf9Dfjo0C6K7CFRVTeitg2L0xNVVhai/H1zGVVw4WqOYda89SZ5On9q2zlmHdKW/e4YcrohnSkvt7kYJyWhIA2ov1OxWr+6IRhccUYOz01k1xWY1j5CLjeubc+vxBXJZzQJ95ACVBGjcLV7c/yTgMBIJi+vKNJCi/j+YzVeNI6SojMukagw2VE5sWKUZXQfWClnciHuEUw1mgMzsVysyy0WZ6lhhrr+ldO7HlwB5RrGaOnsxVW0MYNGXJrr0lgc+3B6rXZ/k4L13auAOAvL1rKdeO19N/xujQV/DoeGYmyIhoB+uTC4iLMWRJP2umnmr5l8j/B0XXlSkOeTNlHOpQrQZqmAQZYLNLwvGoiE3KmEptsbYkl64/2FeG2N0EEz1W/tTt2r3Oqk5oDLA7GANok+VWgac9FLJAmZYx1N7FnrK0OJ1Kbmnbd2bzlCqWrbQtMrJVbFG5SXtkLP4Tr07HzeNMiRx2B+IQpk/gZyjO6e4diPvhcTs85PzAawV6Hi/zIWF3BIdWHTqx/vsHYrFXnPRk3GpBoQQpSfWz7sL6hroM7GE2vP2yXjMQihs8lE1VDLyYLN9XOzQ7OVucnG3HoXH3/Sj5tceBmsGZAW+xybqLPBwnzqKqCGABm9cXfFteunKuoeZBLVHGSinHJM+U/jhj/2oUY6BsBuT4psvpupse6yx0nov+8wHPZGDI/VTUUWp0BP6E4Tdbb1T4OlQDiE8jNijPwPwRS4dJmRprClUK3DlHz6VUhkC1SnQAPUY+mvKlk9lWplL9VbVexX+rpszPC2smqgG/ekviKCHU4mEuLyYqp2td8OHTiKQ/x9XwsNm5883Prv/Vo+1war/MSJfl/FLxI2gVgWzRQ69YRkOfK3SaTmGT66j/wUMhH3iTy0eKs0z770aM4BuhtzeypOd5BzkyYxFT/f8Jhp6zTsBD25Cj4jRmcOslilvHRYqArOnhiu92gRykx/NN2Mh2C9bUPzn3wk6h/CGNr0R9Q1OBxKQUDCvhsIlJEzMKFxHpvYIAL/aj7lF9etpvYfol3fBp/ISNxcJMKn+lWPE/r1KlTMvWpJIdPX/hdG6DQoRYKskugg0KCJ9Voo9gQ4JoeKnaYWbBq9DSnHI7mWo20dwPCIdDCLgmOIF8p3lOVgBw06EbmBZ1s3HxNJb2bSleXIlmUxnJ2dCI4wkOEnSCo1LIHdErxLoCNcE68j2KnyLKj6Se6/llPHPlctmn+Tf5VwXO6EBsuA5Gtjg/obi6NtAkcN0s0hvsFfVZZqeK7jyOrM/52yjtBbUbgowvN9J2OXVb4ce6UIiAfOkn+/WgC9+0e7qNDHMv+yQiLRNCY5BlIe6O+VUvJ6/zvhcjVf82VcL227/f8ZGIgjWLRJjvoMDfcVYXF5Q2UgzyvHiayI4fArm0bcLkEW23ci64zc92GvZjtJE3r4HtZ0YuDn+20P2xS0zYMGjtuLOnlbkiWbS1IGj2WSQm67iJiNYSS6xl+M09ernohmvdyb2FP1XzrlOQxYxpcDNqfNLB/BZaZw3LjSx/EgDlGsRRxTMm27OYSuMV6pieTRu3Trxd7x5qKeQiX+m2WQJuH3APseU1Dih7a6dMfEPrt7c+wNGfYPk9dUG9jFr/8SDwxt2wqct+UzEKmBKSJ2vspkJOanlQ6e6SSDZLjDIC+222jTzTTs9RdMGXAh3m3tc0i1XHzhMQNKzhhWy/EDmByhdLWQtt/jNx53xB3Dq11+SS7g26vt2wWdPpS7JebCeI+ferd3IUt8u4I8acAsJxqzXDzPRrBzcc31uk+q0ZCbhnrmu377OF8KyEQHQLZKc2G4Afj7BrX7RVmqEqRnwFZySqeIZnjOGDsgrggjQDEP7A0F7j6eYNt/G+j2rJtSJlL2nIBHgRjw1K+GTONGOSO9waPRr6LLgRSMlGRqd/v4Cg13Cy8eN3G27E8SPeAxxipt4lHFBV3XD/muz3w5xZYEhEN57qfdWEpchItCmFjiNzyWqOl9Q7uLnYriqQLeLtYLs6+w8VmlyhF0d5wUaHgxh+W1wri9glZQas6dQpe5kiPMeCDvFDr3n886wiVCleTDq8Si30BmTer5XKntznZRCMVhp1jydiYbJ8D6UJ+RKz88A7n66MGODzLqOkBpeGdQYGOx3y/E/ekFIBkHFmJtK1Uttm4pT4eJU0ki5WurTFa0x/Zo7xfOwwB9lcQuF35+Q2gmxTkjR1TSYKtotGFR+9Wtccgw/ZQ1zLB/juPeoVsLwDKqAtSR8gflBBiNfUEYwT7fNMovBKqyrqO00gzLPGNl6kb/e5eA5+BW6QUyu0Wvfvsq5UagExtkRVXtJGr5yaOEghkOrVBgne0DSf+VDM1dwRdmkplWa0FN43QzR+io2zx6Ia3Ox5zXFE2EeErrgsivhXdDZJMNDvjGsBZMRVIwbW7V8GOy69w9rz3/CozoqJmmUUc9OmGMY6D26SrRlRTyMFS8ETXdokvGpXIBmVZZMi1WLxZ4sdOyaRQvnUv0hY7dbrypatv+U6jpFz/5e9ngm0LnSf+PVnQPxXMATCF1oKy6j8AxrItXnQMmmJ5nRif8XZ7/rtCp4RD0dyAy+Xkcx0meo3Lh0+yUi0d10jbvPpiXHB2017xKcp5+3e8Gbq8WQvlshI1AaG+rdT6UDfiuyG6NXUELra4+lyRdA9y+ST/bLd2guC/qiy5YjST1YB1tyvhgUfwI4R63exHKajh4UI2G2qsNVP3MYNy+NbHosBGLTnxsGX550El5V3l8GFZuEiUHHLI2kWYDXkGD5Sxtp3/1xkgjrEFZhs1CT6SA8XHxK25d4/HqKvKM5UkIpZRt63Inqn0aNgo0bloL0HzlAlbNCKBCuM57+5DlA2jJg/zyZjdI0J5kQljIVCZlx5j7FJUZJvwGiIECVic34YbaGJ0+7v8MxCmn5sUhWVKA6cK22wetLc8FvJmUqLEAImsKC94gYybyAVuL7fuSoBKZGYOi0lBrmGgz2O8/NzMIM+PCgLaIEApOk+zX6tFtbqsIZGKMrT8J5HZoYKy1zdetOmzw0vuJzLR0+3urXikSUWxDcWvg22Z2Z5J0rR95fVEo9A2Z4UGuvv9yuiJeLRbspjcg0ZPQfdyaesjYsDKcD+Dcg8XrWgJCmMHYgRNqHj0ZzAjtiIOu8rtBhnv9EH+f9A452Vh/lh5DTUuakVg1yapVbXEjjVuinipl8IEgnamoG/aA4ies3fBkxMktE/qZscRK127qfbSylgLnannrVj4C37gcIBLfnoKciYZIWJVPY/bNFh9lvOPaeG5ywqbbXFPhSnV8nMa/OD1wQDr9nppq1lUTZq/JMC3VzksktxOaeGbv1xZuSnGbuL4Au863cwlbAO8h7WERsm12uEFttAK8QyHqDxaFO+xXPfCvOc6I7ctXLV7iaUUTeZbm1n0TyxLLfatebB9tDrDC/Vp+s7ZXU9Tl0bivaGw1otNFicq8hAtc6D60ibm/pYp/+I3egFgPx3gwZw/FGGJ0fnq5v5KkCBbjIcAITzbZLnaZwhOYXrP347mTyo3olctywEX6EFLM9qobqvW7HmjE7+Vzp6M37KZRl234IONGUJJ14VwLn5WurNC0tc5Kl+TsxQz1Q0kxDLbeArtgP2UINCknX9px39Q1PERmW89EllH+Uh6f5fO6JyBZ3xYGjS6+bSiziPLKF1nL1qcSVI0ar3Imu9SH8Aoa74fZ2WyrWsG5exd+IuhEzSeVBoh6zAUdEnXt6anOXpHsuywfGfuSUhEuFQImm0vbxStCtTcIPyr+atGl5Mkl94CiEEyx9pYE7NF18pLwlyqCZqjfFv9yPifdMF7To9OPap32ZO3H5WoEMcEYRPASCkBnMApLcAkqYrS8vD60diYLDPegPo3f0R4kU7+3HZpS71xx0H2bxrmmR8aPju1UesWV1B4uW0UFBXSV0opj44au2EdPiK3AQPFcHvdJXuKWKh7Oj5qGwho0X3TT16Ra0dgQmfU3CSaCV6iNhzgNIasH5quPRGGTtdSbmLqiA5/3kGLHONenOo5kpiTLuZ7m/7/v1/HcfQFCq6Z88g2RkS//udd8bOqrv+tWsKOlGmB1+WVMe5We55E0iA2xkZbpmYf0dE+GkYRM48N7/jX1Uxb8i+CpyiRAlTEwmS95t7XOWaEmvhWuaKr2QGMSWbF2OlpDe31rN10UZ1tZzuKtbK+he/OGJHNvDs4XhfvnI4k/ybfm+15+5NdKcmxxrVSLDKiO+35Il6Z/XwbaHEhFitb0YQT02hw3IjVuSl+pivsrun3tNEc86PdUsS79gGy62d7ft+9CWIw3Q2GyVWiJtLHvxDZd8V0aQQFBkZK4Na5+ZCW1QSZinIGaiv1EBuIwq9Y1fJgVs9I2L1O3A3g+reXj6i06R0pBf2uBiTPMw1vwLixRTYqGdKKiemenuRXASX9DPqmw6X357NGGlA/+TTR9P0pk7YhKSskKpXbIziYSH4YegseO8UXxql4L7gsjJozxFF4LtyWmHXbc0Ah+D5PD0Ks+epomIsw41rd4FzO/uHbUahWmeGiTQpNzWBrUWRW76z+zADA253nED5JVj0HkYTBIamC1HiIht0EIQkOvU3LfjrI1JBP/SXq2qvuU+7dhFUaT6DkQNGCKElkNfPoxtPnq/Rp2wweZcLPeTtadSxMVkehUwNr9AUQ1+wm6YQyy+X4twoJTpaPtQulM1j62X0uYbGwm0opzr+l4OnuZ9CMRaWDkJfqufqkg+SKrfbdSALIRlBtvgVRSI/Kd8QqnqTcMK7gOmVVaoJgb9CfWSeDrEkYIZ7WgEVc2yhBeHZsvXochvcY5mKH0xp9AOmXyWz6p/sXpVWVQNoU35zY7VJKxbhN8aqFVnTlObQAhUB/xwCayPAlYg/X9gBYqGtxe48k5ol5jUz5hB7cFcwXvOvQCzc61pU6nuZ3lBFJxfMKQnrwo/qwUWk+VcWsxs6LPALSY1i3Pi+XogSKRzQErpx1LInu8GNa2JzeZhMfVisqryGUaOt0VN+TshUcLMWWNQyzLkJ3evqct/EayqtEuPkUVGNLQ21APuSBBwQsVta92i8JTtO7zp5FxAlqgEyc5qlJU3h1wo9P5hT9qVahEzs2rQ0Rr7SoyNjcKcauU9Q8IqhJfoS2DOX0jca/Rk7b9Ee/n2TdgnRrEn/4zYD73+Ip06IqdA2wb5ADpfe2ZB0ORs2BalYkxfhjpJvU6dgB4bHKtVYDQ4aCGgozz1Vr/6qxhmy27mEV9fZkWLs1QO3Mj60SIwM+LcNxfu7sCZPr1QVnhnY8Il42LwDuc0Q1HbXCx2jbf7v1H/VUKJ5iQKyW03AxSzcaQouvjDAeDTu8Jr8wtkoTw79JBQueK3mm3BV5pyLowH6SylM0iOBpWAQSjoDyTJCqBAnDbjsaabRVMye36C/4Kb1RjaE51sEwCxJQxYey0Q07IECWYvNJSZkVTUiB4e0IARG4wjqv2bKU9Dms6GiCZ8QtT8S2+zbAqCWyOiVogG2dJh9SJn2ijYd87VC3cC35Pzb9Kmi7lgXspwzCT4Sijdhat5rusWFqKDMy2YE2zncGi+oAjUAVh/+lEJYSJl7K5LX7Fs3theZGh2gUXH4rXCigHbnEmEim6LQlg01BEt/GlHb6+BTrmy9jgW2YcC6VEEd/Xgero95P8pScgPMc4ySFRQftKR2r+d3gk2OieKARKqYoiDYvbINxR0mYZ17eD05+viTNkXM5jQb4VsY77a8dGemJocC8BCM+4ByUUziYGtOtquLx74K0mOEGKjxiOT9VnMB86KpDxkHYceh1L2gdXc6Bph7FFtqFo9MOfoq7MqvifayouLnaZSBhk9hkkQntEYrKuXDYibp1LYpiX6MWX/eDj4dYvWKmGad6SJxTF3iDf8pS4G0VOTbAlzspHvEjNn5/ndBWUMz+5Ks86fENE4YdA7KhLKgHHKOGFPhSIL7fCanrV+UEGXJjMjLNfHvkSh+Y873ntaV3Hm4B4IDoVMuMECcWSpQVd4zQL4Yr/yF0nW0pyKIPLntKINBIne4G/UkzebhGiGTFomzpY+Klx9JZwi0hjdAqqtM6arjsEGq2DzTF/tzwptycG4XU2A7GAGbgaHVEBLn1SBBijL+gChSxBcsVKKojdCD+7rKcUeMUzL9TP0vTcR2p1yPnmMxJtIFR084G5pPgy1kPqMORmgVkusZiWO/N3vJv72dvzam3aeAw1PRd1uGKsbqRBgvG4GoRlT3Aya8lmOZY44r2JPeN79kUs7Cbpm2F+ao3kxJ5ds9pYZGWSf8hU64WvBj6ChlvTrLU5c3Q3CDTmZR8ZBquq0OWD+6tQi27o35WYvXT0ZB7042Yjf4tbQ4C/e9fKWrXfQc3SHYy62EbbmeeQxaXvc3jee3afXe9g2SHDCTi7cXoUhIYM3uBCNFO9buleHB5cXWTljTsgoVnr3NpyAKTROdeTgqEwk88mXRzW6wmq2LBaq6SrUUriF8u23cCMfVIPYU/7LTSXekXig+KLCqFrQgY8Lfca6tjJj54zku1mq4f4btbViE1G9x7xM6fF+XEWEV9a/VFV6Pr+VpvmBLUw3pRnykymqbL8OhAKPtghYgvFVFiOvdzYBst5CHNKvWbSS2MIZZNZWZPf0bHjeOUSkpBJxWgXAHKHWvBRWoMdSmWkHj3useclhWxSzlHqjQZRTSdhaa6bw+WQkbB3u1nOXwGol5dpqAQQmtoy35SxUCTu8MZP8aakY9qeY66SKLletXvPBhmpO3gmg1L/LB5umUN0ZDHh2F7pTx4ySHZusOXTxbI4yJ7jqgJB/TyfiVa7zkHUDEaK38wmZb5FnnoS1iq3VIwhAUUnOG0ovJzduRJtHVsv8sJA/KkbTUeO1jJAEfGeKoLgBc8iXZV8bUa0tbdsy87Rv4ENDGOgBgeH19OdjOUZCNyryaTZXEL1WniG0g9WDd01VOO+yi+4azPNMKLQgpFar9jNOWlIfgK0Rhfid+zevrjfZvo9z/munJ/ZV44emAI/WDaxsMI6LzkmH18OU/BsPCmK/MuvalRGNj5ZQ4smTzuKaTvU/FuHg1J//K1o55Gk0OBf6/mJZZa1xBXF3jM9s9oD0iedCWafgBjV921I/79vy+EDWtI6nJpyNyMsumkxhob4AQhs6ev1jiDFBTQoymkSAplckAez0cvfncsSgkvD68fQMPcHH3AN036lO7qfOHIyu4m48CPH2EYvCtDGNhx1DA+WUtVqdxhjBOi2knciTh7h2RcggflBvKMIFGtbNKpmUt9ZHpDDvP9p3HSrtcIWw5++OP3I2Cn+BOPpiVBx6BFoCFQx6qSei/JiZZNCiIVTAEQO+MOgjjMvyrOx19o21Xo5Uc3BbnJEnupb9LTLpHizBWXMjfHdmUrOSOcfO5KO+bwRNHJVgmFiCQxe7eU3wlgZB7a0io763TQ6ge5v59S+sZ0h+JV2y7B+3RP9jlEff+cPCtT7yRRAJV9TEaZ2qPD7v0DXjKXy9d+XmFcjTKWEPn/21hEQmd3lIqGuayNFXSpkSJzi1VHnKpr07oXqu09oiCczU8k81gucv7/bov9PZHDuqIrwchHz6s0ZyOdEDK+EgGmU2S4R5yK9re0UsBPSZDpcQmNkZqMVWkQrn5UxaAz2XsnQn7eQGSzJwar88GH6E+fYEZSM/hQscd+BRGaKVVDXt/eL+DKfreBGf4Wo8GrhTTJLlmnc6aWAcIS9T70CnVI1PrIl4Fo/t8QR7MHX5eV0PnqV5Z8maZ5ANdyTQ373JoK586uVW0EYcwCkP2A0/ZfHjL7sDci2NmSJiF7CurczS2eb6iOywzHh0BNv7b1rPgSGV+xNyypOJwveZMRJv3sdgVBVCDoAa9bbKlDi0J9knE8vYxtAmmJiISHVHDWs0f/cLD73V8ewIKBtUkAhpPvgo8DlfhI3t7XPZpqnQ2BLPcpU/6obqktYA/teu9e5S1E8INjPj9zDjZ3L3uhHClveFwLtZCjxmyi8EbgB2JvtmflnhoG9GcdRLpFjXvE6wN17xwKF+il/pDeXfNF5LnNDIh2nbvwY3MOQcvx2mNe3Eph5/rTZ0WzqmG0wH66YXS7duvUceX7yAiCoJNC1mUPoGEGtAE/jH2Smx/srq3zi4bpU3EPbxHDEVt/7DoR4UfLni2QVvg3++UHiDwt82X3yUW2qJYLkc5DCkAIhrcetOdsGEsYWrLaOoPVPDiKmFdgPvhdhiB5IumpPEGtkWZ8kuryGK+KgL8TYw9AGniByozJLFQatXv7Wspkmmc6IRUzY6BUU+3PglG1HEBYxhqJcciy+3a5yypRbkYpN7d61YRqusuGE88JFjNOj9Ot49nhg4H5hNAjwtbNHJNqy70Is9uGWCTfoCStTxZ7baTi21O+/TixVOaWuxUGA9s1052ngodpShqNNkAdz69UZCz5/+inqL6ju8Pyf8cFJoc6gFhLMZmtrAEVKcYxSpsnhvwxuo8tToK4Bqru9zrG3ZEQ4Q+aKvk5r7obaUt9rRHxpsFjBn+zVGtWB/EfkgbcXuxYvAp+rNVdsomeLFDdlgmIF0XNUfC8nKS40+MLU+BCKo8+sHuwsM05tWt2URa1erDJFNa4UZRAFM1i+bDlDECloDqwkyc8EMX4vnyWBW7SqFAZF4gDBSFXGwXux7+mhFxwgDSOuSItOBoaroGtJqz1580OARJimlGxdXFBGrh5ooXdGNbPDiXQyTnmnQnS4fkNE/ou3Wbr/J4QJKpRds0erEmaFlzL39R/QIlTMYUr/PpXAPlqMbdvtmOJybL6a2g9UzR1Xcxzwgp/MXEay0YNqqYdbYVx0h9ktgKnR6Qy5trE1WoZzeiyf7Ozf3qZYDYvM6Yx15jYHAbjb3mF5qs714+6yscPfKNT9w0174IHhl8uYgB6p+W6oR2alWuZZKuKYx5KjmX9WtIKrtW9JBmFqGgj0jDkiDiGTyiPbEBujgfhF0qKXEPPYOI1d8VnTw/vryKmFd502dE1P3HdbldGdnQNtEmnGHqr6Wilm3nAmaNva0E95XbSK3JQxipyBhQ8EZPGLc4T1S0nGcSZSooRiS9J74zfdU0q9SDIjj9Q+ihapZb+SMqMMBGTP9jh9FxT3j4/Pe00ncqUnFpp0b+0HwW7zppICkhHVulR3hmTe80SiKptTv6UEez1MUsNnDyu5iO0Rr5SumSTLti8vjI9m5KBFxXbJrnZx13OVI/n4VV726qV9MVFXOqTros4F3J5c/k011ThhZeZnzLD0yHHwfmxsu9Q0o0JApETwt8Q3F4fLj73hQ1042jNSZfd8A0KJQMa76bD6iy0/Cznvh4n3mWEZNQLpN/Mx4fWhFjlBqxx2kb1t8o6yD/DD0yYFl7fnvREw/ReF2mU1QBzp999yAvGcDhuruUzgLd1WMXMYX2tR2iqO2tIIE4uq+rWc5vRrCuP0pztRHmiUHKt7kOqT4Iun4n0sDUk0KfSyxCr96Eu4NXXJnH2MeAVSxx/bz8gf1pKgfK0X0RoBNukMGQ0PKE0SIfymh8revCNuCtKMqqclJ1XTrBqysy2wv/3I7BcK8gnnmO/oC8P0k4oMgIqOUwJPR2L4UcSIyNeDHce87A/8z5PQjDpHeqJMQJ48TeTHbs1VsCaIWNGHrYdrNXGSgD692jGy+bnFLNbD04oS1Q74YUnWwSW+O76FSh70DWt0w3dLl1WC7aAZ4HEluSH7PQPVy/BYL6fjq9T4cNk9bSo4WKTZ/OU9r6hksmrMsnDV2lpbsQONzCcpAFTisWmTdOVOd31Ay2HDmu8YCps/gzT9WyNmwrp6ixtTYbjlZg7MOM5wVFCGLvST4dAZfxGPkB3LjKDMRO6dmeXsggeCPUbThYyOJhVHcc0HuukzGJQ3BvwSPM2cwwRCoI+UD7HPsuvhKMxqpdGRQEVZxYHe2gd9x0figNLdrxRv4r5Q5IvICXnvHwDLco3IxjDa6aWQepLL8U5NEzJahsuRPXk5OJQaqQk369VTjg1gADWZnqabIG8tbQyJ0gOHSUH/gX6l2Hejn7fC9VYcZPSs3iOw0sMFYFLwJCw2wczIa3OrrStpa4kBl3zx+3r26D9EC1XmQSEOZeaM3qoeBXoC56k5f61kG80qIlwjwj8uQ06QKjjKR216QZ9BRIO6axyyrM7JMKcJRvkHmAZSKKjBMRdhyrkagkhh5d9MxAfuy9lnljIcbzgDmtCGYS8InEnRuIBhce9fgOVx9OW4+ZnY7gDZgtHsVQ7hqxMvJPq6fgJNRiVDpHcJg8PGhrzw5l/udebgFoH9cRYAWhqHR+ZSPosQX80cC7ZOB1JXVfkESz6vnz2ujIsvtjfnq6xhHOjWGyYvIf/wZLXUPnNn5q5s0n0ZO1kBRrcHcUkHefo5+yyhBYaoudJoyzkqL1x6hBAwUns+nTwmmkwYOjErZ4A/IidyseIQtAwx5P9AHwAaiTUT+ZLeS3s0glIROCPoRfkTROoZNwfygGhXh4p0MUs82MWxBEnCdAb+t8wRmakZobt7IlxOf9wjbzeF2arMymYZto7nTOCJOeSSJdnlj4y+cUrPPvNoGemVbt6iRR+mqo0J7jteD5HRRtiNA6bEg8SgIoZba1DlMrbD4O2WrJunsjV96AzjUzSxPjEI0J+2ZuSjnN395LVjgBm/UJDmQKPZxUwyLtl62t0fhJPhBhUVUQHs9i8/l4ZQQCWni+cdeM8lZxCwYOuWjAm3C2ZG/GPm3477IF14uE1txPsuCLkh7PCHz0xik3rn1uMrJspqinx6t+29pgn53VXaZw9YOiMItVCXFj6u/FYbnMjIKsrxAXAb56Tm2rJhoyBwL3KR1T1z6MPp2LEYP9U8GEw+JRZsLMVESzF1+VJUJO0McZmjfX+ltAKlNwxAWQOpZyprweHHbfXeaYBJDrxsQHoqXw8kZ9EpToGBp7tL5l0+O2lKx8ENgemIFSqL8h0BOjeO7+LXpk8NcQezs79TWQYnwS20mcn8PsumtGhnX8LRkLzAGiPkFpnDrjFJmzZMOUih4irKUPZXFY2I5J2CeLp9NA9DmE3iNZcCm5TS0x8SrLgMQ/ylcjHryK1qyODEGUF62lIM/wNem6oQBxmS5VHODorH7xVv6OvzdgWDG8PTermntfKQyeoDgXAPjV+0fkqLj4KxoN7Nn7B2JdfEIVp4qRBheMHBdS4d0AJzRTvyLgXSz7fWDdJ+SmggVB005VKrFca1cayXpyp4XlLhtDRFzsn0hQaGeTDV8huCVe7Zaw6H6O7lyP0ytd6yGcSdzj022rIzHAUJpuB4gxNgojB8NJwCHhVZsOmDhk1IUGGvlZeHmsfdWQG+V8f2FCzIWZKzMdyen9eUVO5eOlerDtji0oPllhQgyzChec2+boLZqRNA+ievyNSOwhAuuNgJmlCvn3K1HwLLyDsEsQ9oiVbVnKd4z8U1vQQoSXpItLqgr/MDhasZ8LMuxKd2Wr6KDgsvzREvBgEjFEpZX++mfxn/C4S+FUpyl2ItpOPfKdDfTNOjNivrvw1ITvMN0Rc4nOhlfMGe1XgdLfDz5Wzao94xDNlW4SWxX0Ibh8oTsvE3tT0qKpqKihrszMgu33fOwoxCEGINyxIqLpjWciAr9+BrQ6oaUWtU/K8LEL4muI0RiFnj5lfJlkS1wmot5NqVa3yEWXEl9JQdExs0HIN6eR1YCVeMq8NOFwQCZkwthVdHJMFl0+kskoEH1XIJdNW12e5OFlwbhFa47bq/7of5UXrFdC37HEQ/ThFjahDc0pVP32Nxuds13e5WJrQ6q8zXBLPV70p16iEXIGJ2tElCltsywKKg5+os6A1dkYq+BcI4sKcsHfvhy2x3d946AEeFzesBibiB4DP1CBSCKwIPEuMtIq+1zwXshy6nniTtdxHRQ3Ln0+gv9HR+JsS/ZtaxrKzqhsri8IC0LqRPBF5tP1bJfoaFyo+SeCl2WJOR41vFOgv9tRrZxf02f/va+szqPkex8maAt1dYmRa5nzuF+JYzp2+sJh8Q2n1UrpEDqSymqgEZg1Fe4h1jUAaKDN9ST3Ca6sY/QkHwkUSbcs486tx+dVwWicTvB6eSLPp0bwel3Qn4uPdjbUHJW2Jr0JBaHMCUhGFsfGXn8n3ci4PGhe2El4Fel2HmVzwIaEag7xe8nWXX53U+o3DmQxibnZ453wu91SZm05A1M40D4e58/EDRRXQfSudzXt+bLbQvVWgeKwZoLYbENDY5IRAQyVBIiFoKmL4RE4Qadb+hgB08hatcC/NkrIoiE224Fy7XX+NcQjXCra+6FqQm+QcN6zPA28w5Hh1yeFPERyFJeEPf1mqU1UJoba/yRPBC+YHzFnhPdIgxIUX83D2frzQBokq+7O8CobHjt3TkaFLvrb9Nri7p9kYEexHlRt4+2rWUkcovBNlPPPIQhCAkSUgMRW7WpZoiwXy75JvXhChDRxX8+EQVpbkLyvz+frF/KKBXEKoLotZ1O2awMK4F0enSLhHBmWPORoAB7ojuaiBd1lP7cxm71YvE4uT+rq2lcwJPB9Q2/6+X/5StXxVEDfsubUNveALxvR8bsWztxD6SzXQUzoog9gEVkjsRErG1zTVWiziyPqDIYh52e3wLvMqpI2bhDysxrgXzux4/1ifgmiPQblV4CApqO83bOobm0xUdwogGvEzWfXBxRMx0a+4CctD9QW1hJHij1bP4UwtpJ57KcH46IjzPH3YxwEPL1Xf7EmyVqcliQfuDuY7r//BUpk1l4SPd2pHTdg06omMTf/h/AypyfJ5qU1ggWUPngk/8KSI6AAqDHDGd/OBmwvjBL79dG6ok+Mx6DBbs9FVGjlwz+Llaa/Y5bgWfDOoqgdzgcUYAbKvz1/h2E4alev1woW2W8n01/OtkXcD/y7cs5ARfNbN0GdWM5JHEziInPLOrI8JZlRpRiyzJpEvqG6TnupimF0/gpBiKLoO6iHGrttPjF2dNY9Qm9Na2TUqrGlaVafky9opMlQqtUtcwhcQJp6DybxqXpE2modCak5wUUcdfOs9Vsczi5SKivJLbyz71ZR1t4w5w/l8pNHaa8ox8L56hRpRif/oIJs4yRnT5pfjJiaw41PWCriaNVPIUQM/FBhYG1Xz/CrZgQ6wU1SjrgSgirjGDC1mxKE5Yfu+GufOmT9Vq540lqX749HSGKTRCO2VxZK0ZjfrtbRWkuVrKJKQQlT9bFFdsGO88WUoABV4PrbTHyuJ3CwnNd+xRPDOYgecu2iiRCeW3My6UCj6gtWBooChdoavoSFJXEiUgLHwZapE4vEdKQdSvy73m3iI9mjw6WQaqmc/fojq9ciU3ZErlPlCCrJzgCamyrbmRBTsjXz+QEFO1WyImJrSFJkAklF3+NwMfc4lSdk4r7C1im8pVEhJzE6LxpMl6mXhS8z9Ri39MYki59cmsFO/ElDcGAHrZCzny1K5gh/1ul/nXF8HqyKivWtjG0/xpoooG6vI3GyKqB1NMaSmsrHTuZKI5fotB2srUGKW8zn2P34dtYa+aXNeTjZsVM5F12nclEC/pkhX+hrFEO/KSMzvEoueNj9ACF8aLVDeuRdWKK/2hpefklLKWSuwIu4qAu5wDjI96ij5kUxqm+lWNvCkKEJIvIiZji7Zh8dKheenOzgl4eb2xWyejGxMHFwIXSqrifZfl/9uqImeKIBxOUgO2/+J9Ai/ZNxDVHrdA5hUM8MZpz2ucctNgVTGWD463GgQc5zUhPngd1rbuDmuyCLLAwWREl+IKUZJDZZGkf61yH3hMrUrHq4RHbeiJ1YpzmlWtBWEm50+KhyTow1NCeWJ3q1zjZX0VfhQCd2u9I0QjBFUv8Ek7o+Tik6RJNQZdI7PRyEI05CAzxazjWyqzkjbnbkNtB62Fssthn2Zd/+kYWYeYzoBdPHsOG6w4zsJhrF+vr7zFED5awAIDyRRPFqraDycE3XGRYc4CqjqhHlDdHrbfn12grEgt1KQZMZIvlzL7EqilWUzSe2ZhhcAZuiAClQmyUj2epRhNw6YR1WxN0aOd3CIs63TuNnYlJuzj97VeSV9hoNbbCE+16pI6m4ukHuZmN82ZDxYDeVDTAqOiBBpioGQfo8faN5Hkl131IzqGW/yjhrpNX8T9OomsHSi2uexb1yJlnPBPPa+Z7iqF+tLGd3BC84tc8OvIV6f5EjRYTeTkqpIIhnfgi7wA4duIx3xoaWzjCbKHq5H2PeON0UvHfOBH2oir3O9yYV9iuIitsk8WsRGK3KmsZT0ynBpQdwbkvVxCl1RhqJbMFfTYlVAEx5CrwXWNFkJjA9O38oMIkiUj8P8lDOY6lTZuWVFNuY4hCh0kgDDZEHrgZtLrlTqUXPhCJcKviFxdK3u/bsNrT0g/0+0HOOSc2sPcSIFqg248wJH47ISmw+lrM7iabg3jCEr2GMtx3ZaX+WIaWYrePKluc5TOxQ2/k3urrVwhTzLkNOZ9lVBby+wQhWj/zuFkB1Cm2eOTyTCdx6n4dfW8IyCsqA1rWMkf5kRt1DfhF9dZspia00l1qhYCIjCZ5/0OWHa9JOWalmYaaJXs7pwoTLhrddiwRFhLRAO3bTMdjfxTDrV0q/0je0hz28RkiH+bzWUVfNXD9sqpGuPZrkenuc5LcQ5D7wgYtekWJjs4BMsj92Vn6GBnQCvvO6CyF3TwR1xw8kpRpR6qqr205tB6kuziVkpBueyC+A20UKyhRcRInXCYZD+0fcg47w5frwRx3188efz92mGaw9mXPBDKurBqTcBJNMWwc4X1l4Go8DkBbsGlGKdeJiObvV+Y+KiwAbbndzY/zwZ5Z37vLUzHWXwyVpLG8fh7mwx4KaUn6I1V5/pk0yaDjN+7iQplAIl/dXawiV+3PwCUTgnvmw4xPFSOIZAwu2NI3q00BhfUDfevozod3VcBC6uK0SytS3fk7vZz1StUObXN6eQIt8jAmrp8ZLVm7s5oPzfaP5W5+Uh9amg6fWhzkCE+YvHKSHkbm9TPTgdCu6LHbKlnMXcpcKBHsHMXPhc6U+IJ7JXye9Ocq1kx+Du531s+pe0z1oZRMFboQnriMU4jezch3a/+9t1g4mGrNS7abfeKTMULoajjTsJ5wHxDsJudDaQnqNDXbg3v6gBdvLYLN6vW7SjahfzIYQBMuNJlOGk+bV3O5d0zIni3F848B4AxETqzrzIlokBIXsAdTQfmX4MVu+0I8WKMalXmmOe816CHdfLKJwk3JNnnig3f+zEGIPY9cXcBEuQD4rm3bMYOSbhzwGPiLJUDCp446URcQBJnqsRrHveyJRz4RxZp0O58M2MTxeGwYRor2Omn655jt1OW1HmeVbSXfPelGTsS4RazJe9NDDk/hBIiZjtV5ncTFUHxRQepuQiQGsoXzI9vNT62Mqz2iCY/bTE9STMVd7lASvvkRTX9lD7p8XhE9clZpJaDoj5ebsI0ylw4AqYLBG2d1K2jHy1JKn6OZt2HtcSIJ02cfQI5O/nXgnZ2LlG0+bUC9mmUnMNdAb2qBMIJxOlSIUKjzcP1cydqVi1oM6d2e1AGwMBFMNcbhA/IWXgSs/t2TfRf097nALO3BjQsdxpeBcPQzViW0RDhQNWYj5GzFnMtOnfsKWJHm43swgf0ufL3rEXxDsa3xjx45RMeVqfjteFvRRDNWR8CklPi5q2maQLK1nYe9K98JnX9z0XLFSWsM7kZZmow2N4f3kwJvtInOPgpWkiJtUaezFGiURANss/pa4MsDgSFjmKM1Ifn4UgODHMlQzQCsNmaxBRiQC/xTcEZauwCJC//oRNHthlH6a4NePezNsVv2g4ibFIfvljWJyVYeROiAQcjzZEGni9hBxCMMFPtN+q2jJfpgtmNqpnyxJAYbb5tq8loAujuOBWi7xGMKLqvIz6fmBq8y/euH8Xzr4Hw8a0GSvstL90adjSh0xcVfqlft/TKk57ugKS/EvN2ORBc1QgZ0ySUsrPIUGkulDWycsKhEMOroJ4TrLzoW52Ks9RKYomXjlzUvFeOSLX56WjiXF7knTc+GFhTKHe1AsHZ+a7IG0DdQ6N/r43b6sjk8V+0teiNXJYMvg8nm2UcCQeTHAL9qJMrNl/Duei5dPyb7m6PHgUvB6vyXitnjw20jYEKDnex/akfbVAu+kktZblBj1Kx0dsPjGgMMBCLz6akR8y6LH1c92/VBZeYGyCEQygYcIkk5EOGnd/FVgjJLNd9lfzbLm+JEX8/xYAgVvafT4wKjhAB9yJ65w4YvGsRGAX0q3joEM71+LAfRrvp5KEQN0rdmPoghlPMm8AZIIg7rou0vpoINIYSdo9oVir9dV7TfcuNxBW8SGcDN7E2ZEk/tKymLDE7KXuASvjeQBW61KjoBiLMNIYAese0HUDRWYmIyFdyH+JZ8BVh1goQ4Mgopta2XcQ4QQJBuP7XV5dpAkEVDJNEVAC0iihIzxBC0t3L/HPLmKLXBdH5apTNztNXtcAbtvR4GE/ZvpMb4J/Qp5N8yjpZ5Nj/ZPZwB0ceQ5VemDIZAIXI06cikFIFA8inatdBQLJ6N4t8lGppFUppUmnQnXRhmqAqF2X9NQ/roXRqQXjqBfkyp2Kl8F2J3GbRAnaXLPK7O4JwRBRU48ZbwVt8j2WDy18fYcfgfLQ2DJjzrwL5bnP/7rEBqqpAAp42/xtJDf0RjBu31zVSSM3mXCWkE6FrwXVaNL8efG5W5fJ5lbqQo65RvzdoxbUbCxMnk4mN+m/gmSmLihJxqrn+lBVIPJn5IR15nUV/FyHZr9un+ZDoNydY1aWcphg5CBU7N9dQAt1v6egezK0yW/UDJ24P04A+zD++j4CTorcOR44Ae3ZUbdUcb/JZj0icAvGOy6J4GH2sjYc7TUCPMyzmHip51t186FDrIjSBeRTgMdYCRvnobKTmragOaZpIJYmvRvzOHJ8QIDbwYorbxyQ2rHppSerPrFyf7yuDjR/tOoUXqSU23iBxcVV7L+vmU4Q5d7cpm9XXoIiaszIxXIMXTVL9Lw1b1cRRNfBE5dTnM5X6O48iWkHc2KB0w7VXkKnLFlh7q+y8oUsX65xfnD6t2cJJQhdLxCDHx9Pz1cZK6+lQ7YOajPvVd3NtTrkT7lQyZ/DPMOAnaDCyM5WwI1/Cyp6HlnZQH06lcRXadIltTYP5pFzCn8omZBGwdKRJLoCHR2lQqAdvcB1xEno4lmjwQaVeNAHZJLhMWqQz9MgHyMg7WcwLdsszSjWmp9DjgLirCPdDHhaWdGoju7fCLVU9UY1e7X+xNrCv408zLFwIJftQNyPCOC8BHqP7xuUlr9/rXLkhjspO4goCSQ0rT1L1AcLVkCxbdML12Na7b6JMcYmseab2oPkFjWWoqCeZ95boDhmX6CbgX/Fbirx+sExFXSO9kbDgY623RJ7yW2xOAtcX0vmd2UHySZhj9yOusfdrr3dKJ9H2/n5puIhR7uRGq7/N+gYXT7j12kOg2AjbnqN5aI3be/68YE6jlh72dqowMea3UxVy6OH60qJmSHXdai1Ksuo/2qtDgwKmDpaahmR/uqnwRMbBridbQwsoyvxLkYol75gphawbXXVim0J5GC+rHmzuKlw2Hz1xkqqlQ8ojmmSf+nf4H7lwiAE97ouxSeK0aQEigi0uR7H+YRo3bhDNZoSZm16EtzKAbfdq95diyWLhBCf8JoKQMbQJhqrZqYOuIUW7dknWGNrfPdyDXhL4MUXdPEvR0OnqUhzNraGpK2QMFAAdBHQVsU3K426NmJFqWB+CqlD54U2sOH1Ich0r2Pe+rpbpqXaHoOhpAeNgYRBJ+vXBkHHkGy1VzEnP2Z/ukNlH2kvl0vFQ2T3LZQ2vpS+j3kKrq1CLrm0tYOrQ5J67k3tlx1EebyuqN7IZTAiZPMm4EMB83V4+UMWJ+F9UtTNGmSv41W7M6PmKcF7u9i0YqhXocyefjR2FowsF3oRKpypgm28h9S2yGnJ+aqSAHTKPqrVWRm4I+sAHAEgMWJ5QaxMKFHsvAZbhFJ0dPA5bzUb2LicKF0Fjf0tkr+XRUPTII7spZ52ogi4qFVPv4MF0PYGHz8zQXsuyKhUjFlNMYh7RZe2asYBvmLkg7fpcO7dR3OkDybVApZcWBundz6BGtz4OL0f+2xuAxCkpJjTymlGPDtn3hw/bQxM3jYbp8zLnWjtlzADT8ICpTgNJs212obbsfLk2RZ9WFd+pDenZI+RorsOMo1qIBV/fe+M/epqlQ0W8rP55N9Er3ti50vp0/mK9Qk0YOQa4+sSUo8FUrw8j5KCq8WWLuAsQ85FyDkd2MIMCPuARR7HYCv5HvvRRW30arUrb0pbK/IRD4GI8t2neXfbhSuo2M6l/Xo6+ONxqno6StVFL9yOLduuKj5oG7E/Ji/MNT9NC7dnSH3L8OnY/Tb2m9rfsrB+TXOipnpvgtxG2f0MA3FgEdM1/msxvffmT+RPVt4rAj6yP34GUpyBvJJn+UuH4oGSgD9HgLVIibMVXJJjGKb6JrzozOD7Y6bAzCxEWL5a5u+75RK9DPmqm3g0ILpEt4eOXk1dHVkSgtN+CAMS9DOeUDs9JpQ1vZNO4fNIs4QmUpNxySBJT7FzL69gNRGX4/sW9XGwd0Ver4st3c8GxDNq3dZG0D7SaknLx1kmV5FagVGFVK4ojCRkqFvQ0bxFSWkSZV4kxePONyZwS99vWuS5/aPiU4xkuQpiP+Q8qyq2x7xaZfKhQhLAWH5fj7jmT9SXPKQd3ZN2Y2F0okDEtOPWK2SnyOfklrRe8MFlvoMgeFlPBVfpxv7QeGdkjVHLrnLGT7qpZ0eCB1BqIlZwZMrQpZAiRnX5uxdRIDBU68iH14TcPAkHqLuWbm6gXfY5XhfUY1rz3tNNB8jQcDSkvE+ecJVflwTYxqUfm+U98D4gC2n8VzIIUmWVKISpRU9OZPAsWg6ITseayIuen5rguX/WAF+CyWvpAzBNbx8o8pM8CsQ2xa9v9Lwvzt/oQ0uUlNB9QC9YT1b7dCf8SFZRyRc9GpCjecnxmdanHtf1JR1eyQ36Vu/O5E3QlI4sDzp4/xuwgJzNHPtcWhD2hDiOQlf8ByfU+dWCVfe7sECLMnup+MmcR1JU/Sbvlel7hOtgOQ51/9i8VpOLd2gEFgMyrYhUryYWC4R/y1kYyO4jt7rMv5R16B2AwkkxB1SlGOHIiKzdrf11CIVXI7WAFc9gw67e+q//3fzJGu/Dwiaial50OJaA6oLFWpFEW6vRckVHuwzpFOmkIqa9apsPa+R+7/NqeN7ROSV/Bz5yHkhL5sSxZL3ctGb4DFYOnYaNFkuWtlN282ptgg6M5GQi4wOJJ0moCphGV5HRin9vB8UgEt+yPxnK64OmV9X6ocjvDLYd8bo6s90sd9GyKKmEiFGy3bi63gTGgPaC8/FkgOOW2IYA2RSss59MMv/oIbgC1xqeu1b/uVcT1BdBeSrfBmmIAk9yARqQnpWayS8sZ+XnFUzlJJ9s5oFs7iW3eP7LSvHpQ/DUNCFX0VW6f2q5W0fRmXrsxp5B2n44yFefCOduPtIXnNJyEwkHMuNSikulFfeSEN343XXE/raitw1J3UtpVrhoLFr45bfV4Kp1ecHK9x7Ou4tR7TX+EYAfpBEQq23C+cZ4ggQi3LfxZdVb4tQX7BhzCo315Ap+MUEeCyZ8keX8YyAcrC8b/MBAZhc5rnDcJLUZbk5cQrpw/t7wX64XNgXo0m4lekiQak4bo4Xvdua7lb8a8ytwF7SF5KkuPIWJ0ZSgWnl5AoO3+hEN3NRqkqrGBBqdqaM5wN5hm74PiExUTYMblQJaAuCh7nwJEjo/xcuOhkIxI8Tmod09kzrO3PWgAZvD5oaLqtfHXjZDROAfACMbq6buCi247qgmdB2OEBvvu83H/9Ce/FXzeIaKRK7j/l0OvNIDqmHQu3Og2qpmeL4mzD4LaTZYeEn2+t+r1uGiwgSpmpdpaOs5J9NxXpuCv+ie2eMSmM8OeO4GI5zh1uTGidWuNpSX9pSM7GzpBPjd0mxrqQ3itJ43MZmrEVigKLL44eZzI1o2FAlWF0UFh5ZSW3KQs3cvzf6q1rz5t4QWT9p3o/MJjL481ndOabnXzEM0DrJH/0bczfR4rkgYodoqrQ+hXwh9oh7vhugHZ3tCqtGC47v2x0bOIJdQsk6w3xa+ooM8oPdTE1A4UXXBCEsfn1um0R7cHcl1090Q0zPQ91i530NKGfH1Czx5dfokvMYlMyeuwuAYLGED22Plo7A32YeLeVnybQj9B3HcmL8QWtXBJu0ChvtjpNAW6HDsHn47GKHoQVCYUlRDaecQtts16N+qpsJgQkP9a5ZumqSh2/FMeLPu5vVaYXDPUp1Gx4kVCv61hh0z8Y+Pw7QwLkrhMzaEHdcedOWflb58AXlD2kCFtuFOHP5mmKUbCobZbDoZQ0fSso7aY6NaxypcKFkPg/wjoQTVe/BaBougEwkezL1oWHIW0jf49Akb8o33eYOJ5ec9beSJd7DrkKVutfsjl3rbC1kDUO6ZWMUv5UZLotmHk+PmKMgTKbs8tbwmfctm+uJS/d39ZRrZq0JN6G/bhLTYPXM2b9ZDPHdMvlX74QmYErWEmXOBPEb10vwWwvzyO9BNL3CxL17xEQDQ33zHK+8q9g91wzdzaNIIHugtsDCD9EIGEZ3uxc4jzXNN4o7/1/MpwuFfzbb7vdzX+FPBt5dJE/8vnuurVLVY3mBGKWul+03lEuokhic5GyMXnEPUR1+tE0E5qgCJpXc97w7rxYxQ/GelrsHDkAg9lTtJTf+D43z+sXmNPKZhHaiN0jJff4Z/JAeNBhgWoSzrzceW9MvJYdjlPzj6gBg/Pe0PF3Du2ZiEX8fAF915g364vO9Ce0gY8ADZnfIvGqmdDzMtjL2fgMsT6XQDOgmOaNVF9rw5ocl3fwXb9LaaKWTvyzBVmgToYAbW+VqT0te9IPo6i1NK+iMBytk7aEMe+ozaFFu2minQviUjqxlxWYwCoKFhDwOtVbgJpjnmroY4XifC4es+YFXnfPiZilFd0wwNSxbJLdswhqAAwNiQBOxmfO1R9OssY+yZjbyPirNX/b2r0Z/Pd+z/VGX3Qxo1ccCFy/VazddR9kTG3mf5L72O+yTXBE3K8ATWD9Z9FJaOKVEybE99jJ0Pvf46FFxA6MZ/wbTFCp+GDROf1PpwDtRbWdtxa5c6MdKnGP4k51Iqk0mvA/7WL7LZEyNLjQ/JEgcFmQQZKW3H+f+tqKQmU4TGI+afmbZ1eUrZD3u9imPc5hCE1oB+LbOlK2Zwl4SI6KOEMas8u1uGrBeyxbo1F7aoNP+TVLnqj+nlHLkN0ssQXxBmKCTjrggD1P+C3CV+2Jb8ns3V9BjAfMnNPqX7G3b7RylTYyy++nkqZKK/7d813ROCFAsIt+K6c6sAVMhTV/9Wk+BRmjEp8d/BAShiNk58e8AUcekLW3UR3GQts+HFvaL8Ke4zP8Dxi1JWDxb0GS5ErSvtz6Ua6gx3jbZYXC9Mrj0t5r82OW31m744dlNIXXrrNxSOfTPauD7BpYZevH23eWPmFTeYa8B9Ox0BujkRIUWm0FJVWrnNDGHhH8gUXG3yY9vhpmkAbwm4asjEnlAtsUd8bqP4M9LKQSL4zbm2FH5vrOecVPgqiA3Xdd0ylgzstGmbI97ayi9uKC6AIPpUZuIhQtJp4w07QnMoopK6o3DjTXR6Ep5YWPpK8iZBpvK+p+5DwzD10tRHfoRpgm1u0vnPx0VCamhJqjnUBN+PH2dXX0Cwj9kXAl6ZJJ7mBQ28jd0YB1EKlb+2aG0NfJAyFnxzh3sLgzB8qe/0b3MelJJ2/3BXDQr4b7Ru+3dyEpxnUP0Z8MDlWoI+8d3XCTlTAGNvkqSpcLGX3HLGbb6tiYM8e/GHXysEzKJYHwQx0dQJTw69RDw4Wym0W97nKw0BvL0XTdhifIOizi3pMRK++gJfmrRelDjm8sUMArW3mzW99GSTZbjgvh6eOvOv9hhvvuwrAl3vM5PocDDplxA1s20jXvqPHaZuHHPMSQMA0Sm7BoyM12/JixhrhrQOUHU/7BP1zcPBXWamltA50b4yeHXC+yCTrabtGD77+QZE9SfBmEnstkZjllIZ9J0RdLOaeW1Zj9gxBw3kavHy9jDZkKYNUvNQkubNLsBs58Jdh8DJa0d57+FvQVhDbQekpmQM5qqBA9o9r/PVUFZWhLiFGuAJnajGz4M+otWqgHASl9EP1IA5qHae6jWBqS06VhV87hosK6qe8BgGzfBADhnlPlAUfvygvOrsiHsPzrvi9z6b0FjJRSL8/n8W7AWRE6aTCWFGIHlqLukjzYKUpxZILJFipNqRDuUJpT/lacleDs4tVfiUXrc7sKY9WmAdxr0s6LL4cpSjyMfAT19Dj70Rnjuj99fVwzcU/qVYj65RJOndwutEuuLZKGjEM89YQmxOQpuEJD5ERcVG3rVnW8eIGcyp7ZCENGPnh6bdZj3Hf1YhdcGY+kGOtZPr+9zI1Rbly/vpSRTS7f/ZTOct8x98amN6NtvP5k1P+2LUw6eSetdwujEbpHrrg5EUB8l+cJ1vPS5FgM8XWldDY1XNF8R9ktxs3H3+n79UFh+802BTceSUrfUhitNDa9jLfVhDkkJutLBzD4+QF0kApmHoftdxH6DOJySR7NwT5cteh36r2fdJg/jwBIRj2L1cnKLZuCAH6E193tYIb6tJyemHAItP/MxDXSDdQYb43zG8R1aU+ZSUPmF+vxmat+l1yKAps3TFgb3DjPTFOluNJsZAGb4I0JRq8OwkLoxuIzfNnuolNCKb1rJjtNGTPKtozQcg+ocPIWtipRyy63UYyVzjLF7P6HgoQTEkJg6vy0qtdyYmpj6ZC8qmVEyxrjt5/6SDCMuCL6ilt2QqZLdX6GMtFYm5bA19MR8vJbULKvJ7mp3CrUXutW+EEoh2h3oP8pm6PV4JrkvOJW2p8DTvHKjIr+iRVwsb28XdaVwcLrmu/9kS4RhVylSTGco0fYGsRyL3W0d3ZC8JAvyyC7RMvN1MbgkY6ZSyINN8EIN6mfEe354BPniDxTgxACCPGnR/QGe+sodojZD9LD223xmE3DdtZ09OQhKiAejqH/DbKOTmkt2DKEgQMNuhsXZ7xsVmjLvILQxurHFjylprl7LwGJ3UeDElH5qjiZf+0wKkwklOkBJaqCp1mfbGxuNOfpD/GqJGeqXMtsmI2sKd8+DO0gJzfaqUVkeKGfzvMeNOY2q7f4jy++Ng4rQdSxhmAmb18p3fP6oUiNAy8zmi3K02W6P8JUkrRng2Kb+l9eQ1r8l49MP/bDJ1IFPFN4a6Vrg8CW9TXmroq2ZbHcrUWpPrVmStm0t9PxxOpII4WvzLKYjicWUeVhtgD9ctDe+B0CseJS1L6xvlAMDlTj2r+o9mMkJES6xJJ5/ERbQbdYArnqAegc4gUDXtJJlVQ9lgomx08MjRUNupVU2RhR8lgYaDGuCTwAxTMWny5DCHHhs/gonkod2AYZFIyL3ALqPsk6fTzB9sgcumUypvkQGTA2VbOofMPF2kMXjhGN1E2qk5aBWz60AlDMMxnFykrAEndpBSmTTaZKAKRV8dpDqLEw/u2+XBlUbFmnfPyxG6UXVSFiLDdoaUdFpj77GpjQUE89/jsW2zYEPdws0YAyeNOCL4/S0gp3RAhAna5GalyessYStP/30tNyxdxjg87JAQjE+WzyjcAD7RVnFEPLlC2hPMsPLB6z1HXVAm9YA2GH7t02OmcZcTchcb16XsNjfvBTLWL7/tgMLCJFpjCjohhzPCFTIXu83poLCPVC+55/h6ZZiF5tZM+XDSg00O7pq26lESPnXeaUXYAj34+m2C0xspHy9FJ3+/WZ5jHQdgXmfhbHAQyxSPjDIMzKhrOIgmkSNG/qFyvvImGtFSQZtGEoB1WoEul3h7OHiQAmjg6RDiWnSztBQUdyJA6wVNTeQ/InNciPcAGo5raqJta5C96rdk5EvjxXhPYrd7gxZ9dxIG268tD3ZAJFA2gf4EZ4iZBMU0X19z8OIl4FQI06kMl2hTWy6Wa7tRqqOilBiNyerqaPgk4uDz3ALVbvpGoxlqOdyBwzpOgpq7NweyY+cNSC5q620GZ3Pj/3Ee983N7bKA6nueJ5rZ3VwQjOnzfUZiCMVvzXmw7x5cy+l4IItg5r5MJ1fNjtJ3wLx1vArz7TtKABKv57nKc/wsCObuRRbJ377oM24qlVOFMbVMEabBHxhyhpUAoifbQ5j/NX/hyv8NmVuse1G7guG/vxntD85f+XpCe5UxsiOj12Vfj2+tmVkKEIi8vfJh08gyIw5Yl1E+jro8CZsBpc7E8GO8eU8cP0un/uTYPrDe1Z8kFRli9g1yN/+eoMMzbCrAFXxsguiZ5VBbeDqk+hPpp3PYbA4LkSzycmmqbdi6xN7gnbZdJUT+jwJODz1CL64jAi4AiPwlmIJOSDaqZFFsAy0h/Jj1pSdNizsMejUIzuQEt9QSLQWpv2AdjjvqAmO3jVVn6cbVNGKOFNN+6xjG43DeFuu+4zNTkEJYceJLjm97inkqEmr11J7SwdRpIdKzc9O1cCO3YgAon6LlOMDFSMZka5mGeg8pn7l9XqZ5Vaj7sVtcSAuroOnbA0Ddhc1q1XkUo+AvWXxPGNZvMiq8ZFm13lqTRuT4dTnR164EUsgKrBCNJ4LVPZerTrprYJAt9FUwLrSfvgv924OnsHEvptrHhRnfAwdhxgHdZGw6aCpNiz1Z/5f6EE3ClOw4sT/JL4wgWFyv3roN0P3ahoG85MnrXw0q4LpzKD97eRh2Qnn4CKT2Y0KPKKs6kIcO6//7yeFImsdU5pXiGMydXgx4HzlE6KIC5KNsQRC/7teQGTqWTjD7MTNn7X6e5XxTaQkoFd9W76hv1bTXviVK2GOFK/6pUeJfsiBIVsL3UZc+oTCzlEgDcW3N6sz0ebS5HUNIvxLxgZEGnlYAXDHneraEkO8KafCuZcm53YM6edRXVrd6aHODMp4x+w7mhI4hPHwS0bTTpqq3RR2mWCm7FiPS3xcpYuL8eWKlpiT3+eI4Jbz34wA7ALK6/vZ5pz0PlAiqnGjNkM/pp4RxcqNhUfC9k9CwZgavnFekkcM4fKWtZ3Y7h6VKa61CN4qe/XUMozhU7NiNC6AeLLCypHoxCWPBSp7ORwX7W+7Nb47kmiMzUFNI7dW4YSDbqNOXLmpwOHaDo7Im6YCXFQmV6nUy+9mGGqhP36B+yAe9nrxRwJ8lsh/BQ78/T5bVlmuvxi0SDvnzCsLglqhFfizqOMUBWJoXtFaQF+XryUP9ZBKcivkAkvsg0KSR82yuRcnYtU8+I/LJTkAszg+BW/YZNrrS9sbp6akVGcNmxQLgb56io3w+N46h4ZT0XZ+ufi+Lz2sXf1CVLDCsDOIRGum1/C/IcgIsILtSW5dfStRKHnAPjzWqoh0OEq4hLUivIWETzrEFmGriy5TfzYWITNDE8jhLfTwkqmWmcvIy18fCIjz/vHZztj4nw9YEkPnKOlMHPcLURDWLi6zPCHNqn36zYvrgBHi13pWX+xlA6AEh3d3niRYubtfm3ANSdufhBSrxvT0kVeZyWRb9tvSPELlKWI49IT6sU6T0WgPmnOJwcebNbRmDXgc4Fhtx4RlSskfQ3NPEFfx3W8GsAT6BSgp5y8no1owRGJKtK5e713u9ing7w52l4T5Kt28jHy0ZUN6bP58gKtaMGW1UY5uwYjfDYbmBGBheS0dedoGcvcAXqLFSZg3MkBoPb61cJkSMdqUZQiy35mhHp0YC/Ao7yKTV1Q8fT2JhLHWPGFuIlh4EjsfXgANOLbbZRBNhaiYEYlrUmEHw/d90OqT+ZuGBxcX9IUqUplAl4xbIkjNdgjKHRgEf9suAdZcUDxnmAS2ZX/7KQ79hd0YUqwMncaZv0SKjL/6dVwGVtUOsYBn5tcjatx1xocJn/e0Mrxm4/BHDAd+H7j04dBqDbErbAq7uychKQpSZThKFS5CJcM+R5pXIyLYo+Q+PKFlXEMM2AS64ffK3QGoemh3UBi2JGDvyaQW8KnpbEy+P4Rca1LkU37UBXHYa7gIcfzckoaL7yQDidF7SfUYczlhtaaEoWbbZuQ6bH1fGOR3wNgnbC/V8DDIy9cBnP3C6557oaQC02yq3u8CH2TgPRMjro/mSPSBxoSx8Z7kDcue5ugNuHdVddFDcH04FUIlVLEMyQ4byfSMwVNSbX64OxP+TgFhCz20xO9OsLGfWZ0x9XDt4Wwwv6Z/sOxmNcbC7PEwXhg7fNPdXgrPf5tP49tOF5Tuoe/938npF2lF7sqh3TvD1TjU/pIGmPB4Kh6xCvBJAvxFP2iK5MRTYZ2mNCxlACSQz9jQw8vJZWIG5hPtqUKbK1Cu2SVeN/pFeZF6DY9j7hSoWflJmQLUrjV+rSKdJUUpsAl1suDzmrtoSV2SAc42Zk+uqPRb8iyfFNgH4q8KEKmcBrM/PAuHCWc3yvc8P6JowqZzVRty52ogHus9oUT8L6pWeO/0MhfjvPL/3n0fNscUnsbNCD+u0iuFkwqwL5tLfvtJFfJ2jMWNBAwJ9hYovGcHyJIUb6AFUaGOFun6u0/El1O32IPRBG6EYijZCnmkVgBtZdVxyM0G4Uaq0NzRwzAlemWfrw5nkBADA9P9/EKvl3PWCyYWpaM46usqjKmkeloOjsMQHjH72PaBA/cpLTQBtx/glsQY7UOJ2+T8XtZf0O8NM0iXPRfj9vokXDQdm6bTFtvYCKKGKoBRMwV4wMpPGicg7UcbSaLyoGFFYR/k+LRsIbv4IQoTg0yi5MEkgSz8lIQDBHXx08znoqg0bPLod3x65NFzxvi5WbhXa+eYOM6vKYMtuknkUOmDwIWa1kGbZv3EK+TCmdujQiTLfMPNOls/ly9RTgefcCAfPIiYvnaNqXE+HMuU+GjQ78PtysoYXTm1LmSFROkmf33KTewWL9Uznyv2/ZDYurxAdd5PLWpAa36PyKSqAo1WodIIuO5ic/iJ8A89UauXlp7pusZ6uCzO35EjDmWzApJfSXQPZjFf3sZQmv2unubjtSs+OwlZglfbFGfKrt+TUQzHVf/Z7PjgA8ytL0cjVciwxtBG1AdyidF3IPa7neNPyPErvpPACprnamoQ4gTJ47d8U9OgQOTZuOpxvbkzfrbOBUUqaQLgrX0lmzYNO2STJgMqHsap0twyVPl5u1ygXtbZWuR6oFAzzYgOBgAcCDuo6Nnz6vUQme2ECjVGNXD7ZjO6zmHfUlutkEs9zfl0ggY+OIxmUmNwPtMCNZ+LT/Nsr3E3qo9+reGAIrc05WELABv/N0HpZ44NhWPB4DEQ/1fQb/kWzNxD0JQXTA1mnBbySnZTczQw6PVtSdfSejaEpax7n9KS5H/za4voosZOJwciSLJtabPMO/rU6XVgekir0hgh4Res+uN4r9C5Q+QGFbkifao5pZ9c8qenNkFfLb8tcf14vUf8+pBrGomhJy4ykYA9us8FvH9zcz/gvF3SpKLvR+d7I2OIl7MQP82F5cFlnID5qFR0rKOTlLOgsfY4/r/Cp3/o5KtjGF3Lfk5PYsI9SKgwvVoleDVdRSUxFiA/qw4iVkJD5JL2P8WGFNgbap8qm+tfaGz0dGpaUKGaGx/aFNOlybG8GcFgMAkecVBWSqapVURlA6nVVHYHbG/x8q68AKxZ/wIlbfBRL9j21YsGSINEbk9RJMc8Zu/Qkc+f8IxA8123XjM8llW4oZkQ5pkSHdNwxXLTKHi27fIyOVclut7imdTeL7nugXbDH1ut6WZ2Ld/cs86WhHsPRhgMOsu3Ec+gXWd8qvuplQDq1BYyVp8F5TkPSU3NU5cg+Y9nyaj11M8E0yHFoCHfiYPcAPW5AcpkRI/LBEwjmUC8Njkun9guIBF2GXatEi2lIw/uBKa54tGKA5vj9nQSlOTbP0AbhSQuIIBfSGJrXxPKYajArEVJkU3HmvgMzl84ACB45xFV/18/B3VHGb2iqGWdJdIt49kAoDFwJWaMsbrPESjzgq8etEn9D8mp2fHxa29I9OxpOiDKGC+5rPAM+hQH8Wgn3sbWPCX30XJfr7G3EfsYDZSPMbe/tm6vH+ce5lrPTlhEAdzHVmZnBoTOEXhozOWmOZcYoJUEBFGjsLq6AEPnzFOEBtXvaT/CnWuM3CqlrusLMTdGWqhzKyq79vyTggTB8dm2PWrIuohHLonDX+RsAicKDqVIh/95IW7RRph+C8hb/9pPeuUBCNZ8s3f6OU44pCBGgWn+E/TivKe4l5+MwITdqYcKHvrpZl0V4QJX9RbIuoB8iEN8gCdhyXYpWAF+BOWAUOO8SC9TUNcZHuq7NEuTrDEyY/fwH1pKnxwKE/85cEVbmObNhQkgA3WX/XBm//TS1yB66kcMzhfJAbvMkR2A0HcGSeJACk5jpU7fY8ESTvrDOCp4UHyWUAlVW4XYczNZGWTor0vCVpphVMTUtX2hh2fFrUNIn4w39sLmD5HQmNRJR9BaOcpLTei0PEHGJ/JPZ1xOjCXljGUmQlKmN23Q5sAiUNNu0ptdPAbL/DMzVYr7oGlMdKET4wSIrDbQ80v8m4ik/T+M+pXFiN5NT5QuFBMpBqLgCvXbCILu3S4kAzWjOxe8S9ZnD4g/ZorMoNIO5hB52zK8vz43cWH0RNo8IOhmXrp1Q6vrC5H2gk/QT1t/lmZVFL6PudSax9T6Y8SgG5moB24O76LYYl1jcs1ZkC6TfGaYG1TVZNGrzxNxDkf2BtMl+2IDpoxHvmVa+bKC6ltrSt95kcc3dDnAGngeYwmucfbaoIMFrPo7O4EQs7L5FFpwWCQWGViZLuIoxplK9DSAs2KTWmNM/I523LawfrpkkJBszZU/UAuczp5XS2TOWa+2kLAJHLQ2IoMuCcXjZgPBCSHAZ7aqQeuLApHYS8yi4962zAu+Dneyi86RGhLUdnUXubRzGiDTR9bDg9/89kMdmems35bQyLHIQyd+sHtslHihp+AYg9CbpsxTqycMc6VmczGypjey34ycITHjmQmH5kuZ0AswYJuLfPjRc0dcU7CT4p0DJhpHEFeYtVCNitLdxJrOMvo1x03XxU908lsl7kyCjOomjVz/XPe/BCV1N5//TSNtjQEKuKxCW43UrCaQbcd6SNTfYR53m8ByQj8E3iWSBHb6lgDiR5H/3SX0agLKeu9t52wzcUVuajw5/OclttBrxqGjOaXujNjU8w2XbYQB5UiLP+SEDz7LwpJ9ZpX34q/SmXugJtDzevZKExahGAfI3vCMp5VomjZTGFoJ3t7cuuA7/hKQBU0RPkF1X00aGYQE2sPJFlm6jtgwN6DREJBttV1VS88jDzYoOztHwSWhNRIIX8HTxf2RyoHargtTKQ1cvQ5vncMImBEwE7Ll6cArRp8qUx+vb1R/ph3pbWua7ScxwP0DvgI+C8u/ki2tmZz7Hg++YqXwTo/ECij7LwrkHh96VRwrpzUFdTyBEWHLzYqxwOGt5/+xFD6L2z3vWVRlsyLnN3VFR4fzGK7tiELJ9WWHeUIN5FYOQhObWoFi7ujVyImRna/Ysh8s7zgIS5gXgI+PcTCxWDT88nCxvEWuatRHHV4ttY4MjPXqlMDo39Q4RD9w5cmoTPYjbWLfSir5ZwJ9uxKbE707w3tZy2WtRlfmVFvU+e8ISWfmqWrSb5u9iou4SJHkaAC892GDecuBDE/J2E8LuVs6DDQJhGYsvqssFiSMxM/L3cqUxlx7IdS23mhaSC2ds4yfjbJFaZ+iR8hcu4ql2E8NZQvlfYcyGOmk+v0y/SCmrHjw6XYspCx0YgXbyM75y/jY9FIJjyVqEMDudlBdAIjaASTbbHPW4XRZIGX2ujFI9MB1ei1cMQWYIhdrjSUA0nXegfpCP19I8W9UzeXDaREEzn1JHGNKjdGJfKU3B91F+FBndl6ddf5wmiU+lVykNW0p/t2WanEW/Iq1tWUJHVRRj2llR+0Kw3EHdhPsQfgnK3kvmYn3ohi7fa4IJjAuM7MspKt1DVJRzPuOcT6yTP8QaIisB0T0IEXlC3bPptYfiuLVyQwIusEkYP/ofl32ircZketRiJwA8RN+XQrJB21N3LX6JwrldhHsprXrIUYhghnE62qL/O3ZiXZ9jw5i+vZxfEFdHmgAxIpAlQP0MPtRc3/3T0PhZxbHFMCeAJgqdvjSc1wsDReyEr+N3DvuYjMEROD7tsYdzvejBFxteoGBKaEugFvxXsrdOzOSTX8GfW0E3OlRqSmpoeG/U6UjozP1D8fx3YVjT2G6HpE/yTYiJZqhw74vly1weISemIvUMbm781XKzvUv8WmYUl4FGsXkfFJ/smzEXFwYnqywxIHP2U2YbtO9F6E8ToNYIZVe9Cqi2HalpkuHIspqijZnxpHX1R/KNewNtH7uJELJ1vH1KNWARV168qwvjkVUIo2fIvB9vUHHBmCZjqPlJwmT3Hm3QkDuev/pr4XeEIyFDElKYe+bPpvaiSmxOhuKeYAh8kl9XvAYO/gpGIxq8o96tZZ4eDc2uQCCx+M3knzLbMkbYXXQNMYXEy3u3e1+WweATnQwvaZW9RAeK4HPCg1sLbmC1dU3yugFFIWJOGWYdIEMA0ZaNrluU9HQN7VQWN0LSBYcQSrosJ2rY7yCoWMWBG5Rp0Rktls2SW7vItgI5us7nu3MIQJz48LJvuzXhhIyORTNZW8eEN4aDFjlKvrlNSUW6/jXiw83pTesPOIh0c+RQN0NCpjS4uLSEOOTQXTWNOmNSfNVxKGIPoFSsrYsmvj1JWCyMVvtTrF5vxDwBjVlMsxz+B+7hlIlK+OHLIrTfVF+bj8GsDYBtarWeuZwcVyswTzm/fOGGbvMOLJtpB4L06PwfByp2gf4GkFLowL9gOfayX0y4Aa0i+0+C+A0V3rYkM6t0leVHeKcElvo5nPeGR2Gtzh05YCsXaQI0UnTbEyLsfcBRfnF1rnAYGGGJrTZuawhXCR4c2azVEXM++FcTbINRhLZsTQxm+smXMKxjwwbae9zCSCz6WDZ5g3mlC8u3HuKaDuS3YUGCi8bn6iei6t4flVS/W6bDFbCcCBvQNgVN34pRuitEaJ78C38YP5zuFDBnbw+jb0lNW6Wsxv7yib0DoizawBeXvvffdWmZJ7793098/aKbpCWySF5dMxLYZW0E40K7rmd3S28+e3vT/0ov6ZqxnBYi2IxYdEqt8FQ031X17zGalzDx+h4mL7+in9peqU75Mkhbw30QG5uYRSVO4AxY1wxIa5inyflusjPiWcTBh/4Y05Cw28xKEJhhxkDpnIYHocUi10NrBNNRT6Dg9TWJS8wzXT1xmyuvDdICKsx28r6u68QF73l1x7WF+aZDtxlwb4plbCp70Zz/ONjwsjvDcNlgcFuAiqwSNu3D8iGuq665LONvku44/XUnddzAy+2L+6BFGout9XgT5nWBZzY8a2bKL2nUGRHhDVRi10QTylK7ArjL4zvX5C19NVyoL4N2eSWGiv3CAbFiRTtbyEn8ulr8CwCFt0d5ME12+YslJDB9WMwFVyGbDRlsS6cZfMsmvvYzoGOFUiry2t+Ayn4QTLXgpgB/lTnq7vXZhGr2CrauYTChf/i3Nw2Wlo2HqYzlEI0Rm2jp/8qnhgYpQW0sXDKwmDWA0/ypXzlmrcbLGKb3fDSpRp/AzsXxxKjslgm/evdb5gys9uk67CNFOH4ZL5pJcGC6YWelrFbJs6ofOfdUJ2icaMRSvvKDwyDOTUW7WcctviM23VY/LbxlZzI4zSg7msJH3oJK/k4uKuy30UH2dMSS0wEvBETFcIes0WHUwPsrGXV+UBmLid0mdJqNCIS16KYEBKaBcvdfJXM25BQ/O6WXkseq0Gqm4fKaaIxdJAxejkn9KFmrv0jxrtYE4vnThTMfblHO+6jW64jQZvj9lYU9tTcpXz9bq+4x/zM6/bLWa88ibBeHzJrOTKQIKrjayV4p67YZ0rd/LNBa64VtG8t9VZ6gDC5d6yDYFPAgjeGbPhP61fWuNeO4dY+jqjm2J5X+3aGNVd7GoxEkKhEvG+vIKS87n35aNNgje+i1CquxglFA2TqVC7SpMK7jJjVVjHYFb+OLdnQt3jWePzcS82ODjmpsgnY9+5q+yu9eB7roQNjpoOTdTV8HuyaxaNGAdoGd2aeeofDGdaIEi7VmpJp613dAywXrwupwYeMtvZqv8mEmlN3raCjzVpsGW/8S2IP6X+QMHrs9jSOBBPr3gYQ6U79e6j2XK6df7/idBUSPiXjrprYSowM7rlwSJPYlVRyOC7MQjMAnCxw5myDBcMQg6/vA0zqVS6Hfslt+Rq1UwY87oFRW5y/w+fxETCcpTT0012nrCByETM2flkJsyo9pqR0u/EQ33ZEC2UalbjqgFTydXWvVS+clpzzvxajnPRFnbelxk/jh8MAqD2cCnSoMqZknT+KihaCJBsIRTDOmtaLP6NRocEdDqDoxhD/JUEh7+DmJq+vNCuuQfJ2oxerVphCMS9Iy84DIWKcsWVQ/zqt7N7oMmoIiqeDxhwHy/XM5hEy9CtbNWcTSUem4DjYCBqFnlO8eGKf9KxHzpwscKdizMUMuQFz/n12nnUgE3upIfTOjqDYq7wF+Fb+hCXhEOxTxufAin09H2Ub76rwIfiNMpsUEsvDllKbVR1x3PK5LqxWQSpoanm8yOhlu1QbeTs+AfMvHeNlA2VVrOW5nEYdcT2xnvUwXsEACuc5YYgZjDzO8JNkC9KPBWrBnnGV0H7GH2nn16GJgm5diiyTAy35mc8uCDaoQrNuSCwPhY2FLsTNVR6gm6DMjwvY9LIRLHdldJdmZHkp3katcWc/6uXlOpf18wQWBk3BQHE1n7g045gDd/EbRufIoK6GDa1A+IEPqssQ2cJFpce77gmNz0wAvhzDgLz2cb8G0YCmgedRcJgE47t1U4zJCYL97MuGZIe99nRXlkD4kbeRWt7QS18kcPR+s0lyLhW6/7mEC3QDlUVyqXDpEqMr/2ChL6ndXe7Hznd9Kb/V6eqewKbVmR4KoyA2lP7hWm/8IPP7Ia0oC0lZLrrDi3xOOoo9MN6dTijk4Ci1oGZwvfbpqfJMU+t6JMUBA8iuiwDxch2zF8mQz0w3yjdHybP1cZm7Sb7PKgWAb2F8ULZTy9++/BHzzDqiwXH4Kn6dI8DaA+1SqQYeDhGLbX2rDbc7C4lflknbQtSOgEZeNJPxXHL9KvvUPncaBeveQmZ6szFfms9phlCIXUGkRoyzzHAph32TEWhFDwQmoq2998fb4DKPlwc3aDlYBv5RkQsGo8o9fjcrnZ7YEdqTDjhrWKYllZH9PN/9QCE5962ixmw96nH0IyWhiw0p1h3FzqizLRPz0RDjjUEtWRf41RhfuYJx/zwV6rZAH+0uCENXFq2GH+PCxvIdboRqBUzWH8WfCz0hVRtc5rqU/nS1NBhjo4n1E5Gb2KJIVlIkeuOm9pf3BaPlX7zV0lH1J6mNUZKbzpFJ34LUp9M7LvkQMrDmqWpVroVAOAfFZtNJo3hPC+FHrtzILnvfYgK98PdOCC9d552GrSX9ho+Cb+NWOcvXh3aKKJ1qZmaMAlHBYQlHWHtmDMCiizIievWWDNTEC2pSzj90OrB+GO3uPE3jBK4VRjhKme9pdiQKGvURm92uwPMOz/Iy6kJYZqsXL8uYuI7rLqCMWeKJAqUOMBXR5bCdMy1bpTD8ADDSZhntk+KaHhAnWiqlcOqdwEd6Bc5/aXDpGLWR85Q1IiFIk91kzXx4MHCVv3NoNhW99DJZpt5n/g5sWQ2c4XEUycCI3neZYh2urJ35/H8xJUiANSf4ICJ/elEiTs3seapXu6KXS2Y4EfuJAA92jtqvmLPCIEe/8Rl779e0Q0akOiZHsBVgGPoGlnbyJGdU9RqwOqDME60wEuNnggCY5J6vFjd3o+wBIriObhKc83yahg7/JhLKF3vfUOOlasJiT5iGsYay1Gq0CWB7tpCPNe2AgJ3Ny0ICerfgzHxKDa3EttoKbQffZda3ZpY1zFZc43gd6N5JaXU6Go4k2mJdN5tGteA1JzGvK8bHTkagvfxsSRaBK17lKPqeYObhcPFhunYQGpbEyQ7PYGEXIWcf8GL+cW+0ThaLbHYU5ZctXaXdI991RJi6xHyy0p9EIiCa/DQB5D5L34pcwzYEGS6TfNYIfugKbL0fPkHs4rpJoqTMgflEmtRh0kI1wjXPbhZrOhS9ug9j5gXjL/49BUejkZvCalTgKgF/Pa5X6VcUODrADKsA2opIouo3MN+6O3JnpI7P/FlWhH7XCN7+dFy9qd6qa4Y1sY4DMwTqiBmbTQwHvnrM45dHTVMWFK7tsgDgFmw1B0D3f7V7RqHRI0q2xtgqENr+LLaR/gBr7s7IdKu3GL5RhDksEvrLu6N8dR0Zs68TWq7l0MbnqKUcPg5I/s7KH0VGxUaFPb6Gjs6Glrut8HOUuDsnix/ZKePkKv1OZE97fdx1laB+dHyU8DbyObbPpr3kTy8XBWWFlKsTsMFO3wywdjSoJgrY3g31RrAXG9PvLsLYLPezMNvW0t8CxOuX6zmMaIa8XF/Xg7S6cu+Vw1HSy3fSB4qHVvXS6x1hLgY2e6EPfYZKeSzEneyoDNRzaYSkTmXlpZiKlCs5HhkESAguFgeMauw0KbXnWPeonEPqtXPZRUQN22g4cWxtvjMpZNSeiXkPjRGIMrDtyXvd+LpWJ9n6bscNxDMWYBCxVbh3eghXk2PgI5lO1eiwNOE8xchW5WfyrZ/TqJzfyE+S3LZWgTtG9+QEiVGGGzh9bi+6P+4RlbgXvu5p0gJUj2aya3Z3vKR7UYko+gWSgDoW91keUui1VEcyBAcIaQw/Torm/auHjDCw/uSTbKc+PBjUZo2z4slPOJs+X0d6fkfoOA2b1ROI4kkfRX3OZIkomlLIRoD3sLBikdUaKcKuJfBLgssnuN5XBejnEiR9rctiEbtFSFiMdR7KOgzBT0D0D5mnxs69/Wenv50S5ko6U5VA678B5N5vFPMpQdWCUbRllofhoTAIvO22iUn+aankaxWxdlK3b1/hCYMVsc8oK6rrxY+CAQfJUAXsrcj+gxOglHv2wQ54JeLu7lQ0s9JypdTp1+wmtkerGLkVkbmVkDjXoVAjbpKQxb19ef/UMz+/U6byV4as59eBtyWCw58UqBckhD4KoodrKiLmIgHiXbAshWPM2B3sZykt7TKwS2LzZALqmaY0tzrNKGkmnAe0Gk7SH0ZmNxwTEDWdt4JCSJ4tEInrdg4wdIk+8CP+IkQ6gznRlcGXDXwrJYWEd/aA52L36n51AmPPj3tvd+qZlg1u9w2Gt5X96F/zvVdvdJz7ayHNa/CcgY2nOL/N8ivmDJxHrFB+lirv4G3x9cIAzsElH0mxAcEAxb/gxLpJqB/03SyQoNopuzsAGFXZBy9m+Sa/Lt39dumyMZqzSnOdYRuWWQGV+ngNLX/gAEmHDrn5rhiw6sZXmIEGhHgcAqNja3QE2xyxsP/ErIDePLAdSO0jgA8mB7M2Y74GC1fZeZpVrKImAwZuDIwf2FNu7pJYLv95/NZVAR/tzjyA5B71qf7B25+0urrCSGud/f54FTH9IT2yCA68tEF3/u6TzQRd/9pB8uO+NAzMHO6P2bSclyN7vR66B+Evym/sBbAREMzi+tBXmg7UpzE99eEhDPPb6TICWleQl4fdax5p0syoRuhUmCvcxAOTkM7dpU+AiMgC4Em8qFts9yaJ32Tb0ri8LYKMzuawlmJjNdg9LI+bJj27uvfLX9WU6czK5VfAKuOB0ybVGAPGrFqIJIiTNV44mYjRMU3PvOd6qoMLzhEmeM2gH8JZVVY2A0Yy9lsm8P7C9BltAtbxPboMBC1fjsPr+4ICuUU4aV0NqT1miG1/BjPGIh2u8TpFdiOwa399x8oK21BD8/EVwaM9ZHktlCKGT8hjatR+vJ/atycLo4hW5fxFNUd+jIAuZ7prM1Ma8RILDHIzXWZef8y3ld5BBgo1uGjG7uW9pPpP6CL5eIf5i+DkwTDb9N13BWCNx7nWnDrEB+miNdCiQi+iB8cLe4xpjhqfs2gw8+BXuKavUIcVzQKnghS6cOjeWuX6Dg0oWI2pOGeXlX03V4wyG848JqBAdrx3CO5Pv3OFZ73WRi8D81+OvLrnxvX+f4MLUsnAwyk/r1VuGuDfhbhJRKXDSKRnCb7nqLNZTb8j73NcZlBlDXowm0hTpNYjHo+GMY0rxtji5h/GNVmen9xc1nJ2oVOqzb8yXTwD8WEGy8OsSQ3c7LBmR+SpQSXn+icp9qIIZw9QX/5aKImNB7jUj+gtgWLw/NJua8PpbshZ3grV7whb1TGKU2BoxoA6f1JhWYTTkrkIHKj30lYYh3bx5f7KP4RcOBV0yvIZwSeDi7hYzQA6E5EstGyzXptbYMoRf8HR6/xCCTVzWiz/lcpKliNj1MZUk4WU3y2URLOSfsohJ6UUhp8gE/NvefbLvPsn0f7LdltriJcxHEiTORjtIQ23iKmv+LTY6MCyPWgn+sBlzyIibc7KSFXzBe/oJ04tHXRsOshonm5hrfYiMW7Slwl28H6JAfGzzaLrDDyibka2b+uX44qO2wHpqs54PaoIXU8b7ki9jvvwlnqnCgzqzjgGAZgRP1B+4+2o49jKBfQiPdlA5172D5/9j+nRz8k8jaJBXx2ziVfz5xXt6Ipf5ov1A3csBfWKh8bvtljj4WyPNMSxb1MLgDEyvnjXt1tiZQ8Q0hwdWIRPHyf2toFxIIO0h2WTHE1t3XDfodRbLTJIAgfaO/LqQMbY01Xb7Be8Mxjv3AHFrsRNGr25OoFFiC/CUnoN9oghvbKCKWx9tCX2W52CRN4idUPS23munMpbmED2oimN8ZFd0sh5zj1W/7NoEQ0E5ZVI/iBaLh2+05z1xHoZ8vPZe5bS0WrZqWBxLoOUIhcFXEcLyEcmLyTmoHQHnoK/3lbH1d8q2cZV3WQdLNjVfQtwGeh6oczNLhNbDlOGDwIwhI/h6rOaotCcHfQqyqt/Yk2YZTubkhOXNoNqsxNmwBUbCIempfOb1OdU1ispR6OBTjty+AkvWeQw5tG0TbzlwWa62p6YCDBKKV2OJD7BEqikAIEFwnOloPaObHxT05OZwLRnpC/gYINGfotKCQ0ne66foIe4mbp7y0UTrscvS2o+ekCOW5SSt+7oZu58BIUbemyZXLaXU2Ti7kOT+j74lAT3fERidaK4LviAgYOgh+Gc316GLIgUtZTgE0r23el+sK/OY1bWzHhJcVBAuuIaQ53uIE1bUoxoVJuhsZxCyOcVoVOZr+RvObY0PEMrYrGJV2pEoqWb+c8w3OS1TmL/jpxGZj2Us7eLvRAu153we2RXSOZiXuOeYjb6g4m6SpKv6gqd5fgtzy6F0TxbFrna59V6Naggr8kUWY/k0JJVrAE8AZ3CPfKXyhoVxuXN8MjABbMb0zlSKWSMjGyfH7PJSPMLYE+cfjVXpGogwdQLvZyCyrayp2CyY9Y4PcW2+EqGmhBSCq3acLwVmAGO+clnjEvv9vLxM5GdA/vyWMYh5sIrBnNg0XeE4GBq8NC+nzGhP9QfJ8nal7emlHqk/nYAOF+IZp2GhV6HQN/x1iY6CpX8K0+mulqjswJdL0HD9NlYZ1P9asXCCV0Y1CwYtrxT1vEsWi4DfuhM/x3eSWSujBapuY/KTfwOxy5zOtAsF0GfAaZa+7Yuw/lx/XSQvPGuY8JblncIDYp4wXmMfy+auk0wYzZCflpFLhR8UUZMS/9hHbV0HNmJDoOikuPSDkNOqKsW/Uua8RnuhGbWETyd4wjWSa99pCX5H9SZy/li2S16jEjqeIRZqiwiDVIw+U0KoGw2yzzOLQ5EvJKGPK7C27gVCcyYtXv6tYifzOA+vkO12LMa6CGbbbbKfXNEF4hlmGIy+YBclgX5xQTHMQlbJbfuLhNgp93tkKj/JuM+4cPSwSrphRF8dXls21okt1SPclUnvl8yuDj0gKIZB+gtyTEr2f46lE10grXMofOVUyJbQtafKMZEBtMk6zrn5aab1GIdG3Clzkv1Zw7BBpO+HaX058WsdMu6TkwgOmZ8VDK78dmcATDB5xrWUEIxbh1Tb/S9++gWFL17Jy1ZIiVrpUVlpokeJ1A2HzjJ5zleXZOoZWHIsnxSjWlZ7k+E8d170/UyJw2Ufiv/sXfVtXbZC+eUJJL0eKwMe9ijyUJmteKdXHx/Mo7fb9OuNl6e3LjtISOskNmiuaB/p2loxlrrPU6Abu90STd1Bm78Y3WwZYkXe69rfpYVjVzQB4zORmYly1yqlLW12yOaEY0ZkbLT/kenOHGdmjzJsmoGHTD9bPw1Y0Ja+rSfOIFgtYq8Vgt5jw+pbHgnaEuetvjLE5stIv8GRJHeb1J4DiBEitMEKVX6fSkeHQ9Qtml/HpCTBb+PeLQER+vSkD3+Iq2CHRc15vGP3Y2+w+x84FzcqD1xc/NfzGyO4upWtX4FuXp8uOdLtuNqs4XHO1rE1YmAxvTWEoI3ev3kVJCR1EokSb2l3GgYWI4m4eXbTimAHmN1ZhU6jFMYBZU56Xln5FISIJ8oMdwp9RxTRP6VNt6wfmsB7DMEuyIU01sjSho3S/xRKVGn1Tbn8pS9ch1Vi5IR5YY2hV6rZwqtKkotfDUafOqXwxxnfUzwuOshYoLNMMzVPS98fBo0NoHe6CwZo17TceMN8rW8irTszGlehCfsqo+n5lqOI/2TEgSmXRdFlQR+XTQ6bsimGsl9KF7Li6ENf/V7DIEngiLWXqaihb7v+JljY8d4wa6feBTwVBVPRbC8gQoGt2FRrV8SZqmkPDL3tpkrKCCdd8CUJVZOB1fQGVARQFjVdbFSDKAZKuLtKtJUmrWCkrcQs00C8dsmiYiOU7vsIRKfyqJAiHj2qcyqfIv6fnGCk9a5Lby1mjhUgGcs41dxmvxwfdFyKL1sHWK82DugmXcieo68kLISD6fOwD/dC1mx87JzB1jVM9EelZ9fUz9YSwPosbO4qQSSwFuxUoRzatM3IdKwhEDENfc1Ps/pdzQtW16W0XIWLF8K3rG2ixt7xPM0Do6t9tUp+QJWgtOgx/SOSxJmA2fU5+sFlU9tv7UwgUaDJoH1d1Qku42prUQbMm8gSjlcdk69MmsbTzbnTpMCVhtxO1ejacGBBsh+txF9PzIVwNJqYo0EGRF1AaVSVdcC2kNjrNOyaFv3IknTb76BvP1dKixJWy+M0BxnsYPdzkfeczWX1F/xNEfdc5l4v/H1fDYro3b6MN0btKTXh3CvEU2RkZ5dL4E3XrS1O711l/RvkebbY1DuwxweZxY4jakCZbs+E9FYE/I+qNFnPVjzZ6ZlSlRt5zpOy82xNPnrRYFWr4roHWT4eKoEje6fkrejbZrpJitKBLwY9KxBnLEt5PPV0yvv/zXVzgU3t7g4PGmWP3oWYdOuzMI4rmQtC0NIqLYgHIn0fFgp9F0a/AlNnMP/ZBIyc5c1UuirU4civzzNzexkiE5Ipdam33bp5hEcxNqneyGOSNpQ4GlM4o9Dct/bkDbO8ZcVOM65Fb+XyKSRWBaKhP5BGd/YKSJ+K1cD5DSob3W7hgN+CfMutI/B9YUKPvZIXv6lzTBOQ8i0sGraD5ikOLzRLsdCmrxPkPrqAvJcO0tu6Q5mWor8FDFySjDclpRbuZ63FE2tt5Q0CslO8AGgikhWllOH+xdS3aZJnCLj4tZIADaa/EHG4nIYMFwnMyUlJIAg7cK3q3IkJVndZKnODTyWpwzIiwIfpjFK6eRuollnffJPJTEtPsuIol1f2/2wA1qYJHDK6/fglf4OTvTQIJ4FZlJmLkkrVpAcN78ASAxPxwvGZ9FBG4PFsDxP4pP0stGkbbfdcqrAXYAcuzjT6iqI2rXTyW7mDb1I1JDTfiyQxgfaoGQX0IZ/BATGohcjeRDkck6ETZIRI1LhqXF7Vxji0l1ZPXTFuJJl2iQ7oWGqkh3geRqteBCS7xY5qtk0Mo2bGR3AyG8FiA0kZwOoLUIdac7sDP+a16paVK8qTPRD+1HZBK3T2qmtXNH90dxNCAprbaYO4FtXHckSUUldr5SIFSdErWc0oESgnKPfjUshjo4ePxz/ueB9TYQT8qOLcd84f8Tyn+ysHmPJH22ApLzZv4SbtapTKTKtednsuYW66OvUINthmtmTmO4dePoanC8v0biTpH7ewJATAq/wDs5Xz3b1uUxPPizQ9zKl+JTPYty+eDGNzlfAqAMywnnkEUxV58FcaE4aElmZJrkrwcUQ/NH+ea/5wIeiks4PeJR+pX/QHXqAXsmrHKo098NtHwTHJQzRUW/XrHYCUTURpzlsbg2+FL2zhvnIeI+Mr8YBmCmeIamu+XhocNcauKTj+6XLY3Po13AFzfP9+MY5ee7kLjzOssAU2hnD8uQZlI12wzwJ+fyu8eVffD7Un1dE23PC40Dad+tZou4R9VfZQIawXh0k3bz0WP8pLDy/nRSlfjC0mQcQOrG04Morqk0oWs5yh6qEvAqIe0EcODbK9QmFqDMEdVXjZYoqV2f6t/PKB85JWPCrBAPGpiKSpVloXQRr85awOnPAoXCbM9GQRFFB37yUIElTjWupHSKYSEiuXLuz/eIeyRdxEFo2S4mBsEXVICPB2x7OIwPSfGFy+HGQa+JqFfwUK2CWyezN7QeaFG4Cvg+AZGrJ/9Ggw44TS0SF0n7xT0Z5IpcXoXNaR7bUfC7Vb383c80y2RRhslbV5puXR3HXRlTcFHBKZX+lUSf5WCR9whOfHoey4ZeyMP3smbBI8U4Pq+205iXJhTyYrG4fptNthwAK0fJ8HbGdwNUmqefgzoyjIGxOWLoL/P73d3ewcgW1vtTM6zzYClYUmZG47iP4+i17PJ5AuuqGIUAzrbiWHCm83TZZxEJ/Tchxws404kzQ4bRPbaA1PTojcxUbKaGJeG5/iVqEEY2EUAdkrnaTj9h90ndIXLa/56j9eo7Lhyka4RDE+5Fs59WKxlldbml8e1d68XARZHNptBjoYgkhlJVphT7hB+BX6sANfzOkB2dzUhQmLhg/k2VH+CVnPoXMePTMpI/1DwxCxZJtbbJ+B/AfZeNGJM/6r3ZJ/6/sL1JE/3sGrlJoUPQRQE8JAXhOeQn2ID7pNoXM6ga9fnSCvylREJCs0sQu84iClPYPfRhclBs++ZEJY5StQl7Ny0mVDw+rZmb94/vXG+WaWpRgCZn3g0X9y8u4THQyyGU/oYV5CbRuR6GO3h2Aynxuq9kTBQW9s82O6DTNxfTgfPfB/TkrPGtNYuYsmyU6u3/kvbiehlojjxBhjb+6pPV7PVrh4RHlakQS3kcD/6JsI/YwqmKxLawnN/ODQzhNH+S/iLIC/gScfQnlVkLWcXK9aSAjQXwZ0v5b7AKFA7FLHUy+ims4096xVe/G5A9X+knqkKlYjFwX7F1rc/WH2IA27ZrSs3bMYomy2NDbhhpoUXq/jsQ2E5GWpYqQnyTzmVSKWS6iSrfNZbqL7Lu74IA49vSLVzppKLvQEI9gPiXFIEL9OUx7IGlLz9kDhuu+5mKM6LCkMoKfQGSnmncCY+uMORrlgrXW1+8RJn+qGiamU5JMslu742IuRsmp7k0jEeCkN4caJxuVdJPYw/nmk1NTQGbku0+ma2T+sxWVDLxGWVKsVEJF/G91NEc+C9y0EPFSiGw+yi6zTCRo3joLSfkU7njAxxYQAWoTpx4N9whJUFJsGECyMCnfIss1IOXWm1ShYEQWL/9HkJfwl+IjVBkR+2NKoH2XgI3idt0eWt9L1MShWCzOZR3VVNKAsMsEkgWzQKmCQpknpPridUIu1aEbttHOxc2Wv3XzrYRBdOmrFYXUHVhwnyUbBIWtScpG270qoMgOtHZzNVeKrSuW9e5QEOfTGFFc1gVo4B9qkKORon0JWB3u56DMW32PfGsDzp49eiygB1lMoY5zTPjH691YVsd1vge8NAKFoRVGFmlptk1RtbJjYCYg96Is9+/0HFoQpTo69ERyRCYbjo8mLRgyu12yQQgPgkl9ihad1H+qGz34HplFUxAtBMZy0x3rAy6UGYIQFiEhMN+7dMq2JPT4PiNUeY6JG/JyH/LNJoWdm7/DkMmxKpU2bRxdj9RREONxFuDCVn3nd1JS/oNeU9cvGkXt/3mKc8qL3fPDyBmSYSAtX8+SKqbfyT/zcEpRGQaaf+XHowgxwIvRhL0704QK16E8wgycZXTVQHGSP3RcKzcjf09NzOiItum5scd3WfdahR0uNCFQTYYkMVMdkYAcKmogNmUsCXmbcHln6G2FvIuxZj4REzQ1tGGtQb5dvFNsrygaIBymv563uJZMH7dSH3Ep+YuROFHvP/w6obqGF3FZcdb96aLZ9yFiSXlQfE3eDVtQvGyyngv0G9ahBeoGsP1iGz0YoZicbSB1diLRCjS2GtEyoy7y6CxXtxcW+jLgzUCkQiNwnJB6CyeD5beDqz1UXLtiPtq7lmBjtq+zjppqjTwNivYI6rZJL0I8/K6EsyfO4QoO8ipftS12MTFki+s+sUTOLAuR5XHBKdR3rfST7hIRF1fJG3wugQwNxEPizw7y0sqXw4b+VY9PDCNtnfkGsSUGpWsonQI5G6JB9KswFkhv0PoJdr9aCwvdLWvoRMORB0oDQrFP/VA37RIQffz9a1/72kPzmLfNu/S+1BJGYMgOrud+eBLyCj2DacoLaYTezywrCzFbj17hXBdn161iGdzA1ANfEZD2Rz2cvYDKwtoSS7HTQBkmSJhkn4UCs6wZb3MrvGmnuplGLBKs4SqDwdDv5WcmxcdwDMO5F1+gGxeiT495mO1pEX2KeLkZzbOhom8MR7VtD/K+Khqlpz1MY8/Em71qQx60TOlBKQKREyRChedrGH2/B/HJ3Qux+4NcAwyX8o2omv4PXhEmuoAGUHleTcPQphe/zVKoJcCGAm3/HPNPOpcRwL/0979YhVHwhcveUOwjZ4c7ufHPqwIgCZem+sSg87ia3SUEO6rdUnluUOhBalQIveTfshsr8KdCbGbbgcWGohSeY7jA2f4Vw670bP00xnA3Y9dfvcbbDRK6eiCuaGSq6WwG2QZvlRiJpnGafJgJGOQ27zO1UayYymfvvPDC8k6Qk0pXMCZ1oMO2Wq9JDYZDuN1j/35ILRQozBZYmmMf/eGxL6zc4ZlQz6tRk2leWNu9Pxf1HFWaSGJ3orxClrcuJsD0uSzqiX0lVZ910hDXsNPZUC9eQexOd2a7XUd7K/36Rd5pn2I4jFm0dLxaPmHViqhZNyXK+Xdzl7cDxXKpY0oKz3eHUKNUYP8S5z/2dewAnRlTHIIb08ROKR3faFS6Bgont7fNvSfH4jc9cWbOiukThPb+jljVtmtQpX3ji5Lg6BMO99kheQ3NGe9LEbN0m9balj8jaiH0QzOcP0fAZhbr1ozscF1XGH5FHGOJFIpwUPERY7Cun235NPeU2JJzX4EC94cC3QAZUY9lwNjRctZWEH+KEG4i2UeFO4qeCV95OooWABJUpdgj7ldcOFzYHwjZKiD5MtfD37nbs8J2kT57Ta8e+GN3OWHvJkIFhJHLWGHyuIdI/i+t7gArZuDW334OcZlKJUiCcs5nwpK3AGR1DthjT9Tgkkg7r+ui2AlMdB7j0yBLGbQD5c+MjiMR+A82e2l9iDVNs2ojEHzC4J/dhX/+hoe9aHcqYKj9DaP8Ag1kEK82BzehGUFAFW/jhHrIk9HQy5Oatsqv+rIGVIYKbyTsCPaw5YGBFLsZMF0ibHO5fHoymvCYUUiTizsdOxV/5HhYd96XkGI2cjAvHPSE8NC+0rCxXB5nSqGASCvSaQ1mMQwVk1mdVdysZasxK/wDYwwgxsZk1bRmnxO47oRugd2mn73kcXKgSpQADqZ43juwtWIRgYk6QxvMTqyEw5JdmRk442nNZra4zThgQiQx6Y06wRYPtDt3rYQM88jtJNehAwZeLiTYuw8KrbTMqpF8SkoLWy9+RuGjvfDWgo3OCJJr1/NGvaE3imGOXlT6LiDHt01engfEf37lUOhMiWMlkkwURjYiDxVdbFDhpJ7RaCG/n+F6vrv/DAInUD9nGpfi3+etvmZLaGF7BY5i46Xj7QCXP9npfpuLjuKEKblIS3DpFkmI3HC1w5e44ewza1VjY/bkVjBU8OTXSTPxpsg390aTb6eA8pj8bBHTrP67JZEkxWo1Ss+F5FZuYGb6OYIrF3NJwua1+mW/n2K7ma+++RyQAWtzk9KWUXcCamsJ3atBY1UYhyMm8dRTuYmGPb0ebmSFt7yv5LwxtC9YPWOyXI+EYzNDWMwP1KyXqLp3opZzLOtELfkpZVJdOzuS6wYbOA/Byc/GOD4t5PyLkkSfTZIL45RAcLDdTOp1qPjDLNP40ns7pbOGM9sRGfT2d+kOFfEDBzLCyCu7dlU9bKDZt6miJcW//kriwbOXwSPWyYFvyGO+KgZtOcqow/zuHGKXGDn94wJHriBA2lAh00LbAKYhEyPBN/zZld+ehqaNjbwd9/p2nLKaG08KMyldTviJJNmQnFw10KXd8rOOWso8KABNtzEzwD9qWRix0V6/CbWVCtQpoky7rfGmVVEZKb19iWw7/oCMmoRpSapzkpk6C8E0mc1ui7hrIx8RzyE4x3nBLQpFmTxealuP9E2ZliqaMB8VqQ7w+Zr1YbRl7SO5YSMeSTrGtbFhSFxTdlGMBKLnsiU+ho9sD0t/MVzallDJ2SJC3bMf5kVaT6kqq01eeoDcf/5YiGetDCXR0Eiw+uWw62T1csPjRn7XHFsnL78hm37SJlRnbSTqE5aiNCHwhLfjTYepZ3c0lFuy4BBh9SkZMSn4y66FECXh1s5Q7xNDoxET+82Ij0eTo/PnxC17R2hNmOyU3Oa/jzwIsnjm+8EXZs/weDcmJG3XQN48A3tmVQmwf8atFT/a4ISx28VFo6NKwSdC2WvTfJnE0UfN+JdZ9bMWpE/3LaWB1QvAWZJVvyrQPzA35zs8t3JP/dSdmlhkNn5MxB/ZEOZqG8PCM8IZc9oE8+r99nBf5Ms7xlRiMME0JXT4wNIl1KqoLJUVDQYkCKV503JEisCGyGC0iA5DrijGuK/RrWSnhQS88TlGuy4g2o260CW+ftRuuM3pDIhwwD7cEyLf5JA+f5jhXAcKsat2I95MXO4oknVf4IqUYNrtybcGfButhLsf/DYrS9fideS1t1FXRn61ZhKesQAF4GZ8g/mzjdoiC0aJUNdKp62u3HrIqF189Bm352LC33x36Yc/Y+AbWUOWm/2cTu7gK6X9YQVJx1K/rfTqYWa+x1ZpJ9W7aZTkQLSHgyM/9L6xr7s9JdFStBct/jF/fibpMkGAKCDEga44TlQvjQAfu/XHqfLdaqzfkYKWSDm6p/zJSOnzbRMTMrOt1jorB5DYnDXI/AvhM6N2yExd+Z9rNoSRwehVUgwsc3RADsXSIlfXFC5f2vxF1KnHpMpstNZA6bzVNqmTDWhcB8ieISKvIAfmNiKSVph1uxm2cG+xpYz5JI4EJS/ClsVkOKhI4rSQfdHJikQJEoKAz+lDrSFpGTES3n088QQh+7KcbS8Nt0qYuy56RjhE1Ighub0/QTG0cX9wltSLYeloeLQU1ZVNrIPuk6gyVDiOx1Edf+UroijTbBKeo/3gCCR7Pv6h4q7UKHY6pevBGCq+wvC0/H6u0pic6YfxHQfjTgl4bmIBJO8+kW7VBA5wg1zUQVwfM8Kk0xZ80JDPJw3K2+nEvNjjy3JwoOeYMh9/E6Tnm/v4eEUME1IjoIn8/3WnnR3y0FNuDzu47xSxAAR60pvglfuS7/uc6MtIoIuv2StYSVroKwfwYksUe1dm3AZQ8bqc82CHhQ3T8xsorIeT9NyckGrAojKwf9P1yS5kGkaF/0wiG7MAoe0lQyTX7AxjUkm7HDP+xqhmakImBjBzsL7PP1CmJWVNnRDmI8dwwKYO1d3Tu+duI/s7u6+8ndqzNiGq24quXpIt1u+CZKyXKWeS9iSdYk0wyhZffEtmDdcDuKaPXEGHWE2gBBGcR5D/O9xhTBLeC5AjEt1mOA960hGG3do04cGcf8jN8vIlZGzfWIe8BZQJZY/S9dlS4VuzVpmeXFt/it5R79NoFxI56DEcQB5mMiL5ouN5f0y3QeU35HCYIvIfbygM7qL6nKvbN78sgtkAc1ELO6tGSXzc0s1KtP/HZ39P66gKH/7lu1lqdj63+HM6GYCKnA/bJPoEsZ7gfzBiL2oX8orat+jBscTMCNrK6wYtdeK1ImZSdIlsw7qP7aIYED3ssspbKNzl/tU2ygcpBMtH0jlzyRkjJAGdSgOp9cK394MnHWo5mAYWhDwyBEBGLd1yDIkASP3wdCk6vk2QtaQ8zb8g0xnU+MC/PT4VnVM+Ep1FVb6zU1TprU5bHOkutd0ltPMPnhvkkNVaPfr64MYfeqfhS+zk0kzJPbo78Ru7nSkSOSqtXKs+KH3B2oms2zFip915Hldx2iaWQv55+JSDSE8n2TcwMgQgFRQPpYtqDv4RP/mpOsMM2HsOwz8W4w6f44q12Y7YX9+opYOueQlT1tzG6vAHrKQFiCtuEH7MaDDEUFSXnnZaJoABIfN30xvtnnwUNUfVONqd9lf3Sd9o4kyd5umKrUG/Dv4p2zKZzeF33cO8+REY+TySekbjfAXsBxazXLEZY1ESoFf5g8GVAADXu48vLeDcklzAHD/Ig2S8nxS7ELL/PzmWIm6gASgiJQRzrA5X3FUvIQdjsD26I1tUof+2gMNwoAI02TbJdSytM0Xf3P2loeTiOfp63/FPmcghQnpPCxP8I6u0N1PonG2Z+gb+nFs6ju9nSKiFXmJU6mAftJ8WevCoGCXog1Mv/ueforDnehgGhBuiznrq7yGXpuohg05jb+q0WeEmbE/P0gKnzXuBk2VHut+wwoHlLJ8bS9rwWJtsDN/2KNdzFIgk8Sw23QovlyBYt0E64D2g+C9pQ4vB/5WZ2s3F6al9A2jv4XbJHtYBQzAj/eOUrD0uU2ZnAZkOL4G8UC4uBNdUsyDvRGZe4lFgTrCFLqUR3tAduW8PScYV7hdn/1eMK20gSiGXOrVyS5NOUBrp32yBwagD2J9c0ESuUO/N80kl7trl4Gj4UE3AH2Wn4mcdWqebCRlqi02T0QCABdMuLfZ1gPdXeYtStsx6EFqAGjQiMekYuN0VMIaB9xAcpQg1mdPEvWh2Q5ies+mGQu8DDynS6jUKXszaswFgkm0M48filEnnNjo0lw7j58kX/OSAnG3qnU1EIN+yRbdpy3QMJF9RWeUL/5sRccN4frLjCBd07RJhGiWdgvjUBWGZnMOs5q9A1J0fq32lzf0W5SahyafppzzqcTa94Hj7a7MEL192BIsxhY6aO8mtz8zjma/qiE70dF5h+oUbihXZZKlVSXhFDn2hMBIAzomLqNE/eOyfifWx9KPsv2zovZgADYWmR5UneYoLZhYj23ireLLaijs/Z5cRz8liNfbEXk10r4LxFZUn+aO1G/5qk4Uw9BOgb5DIFc8D76U1CNEZKeMAbROWCoLaDxhPrqMp1K5OQyQsjWJyglGMmb/HGjcNv05pU1jQw9M8qU2/Qlm7ZI8nFzgqvsZD8O7CvLaM6IfsHsoD4/7HSLfa2G0AuMUAI1VWWY3Holgi3yI181qHR93s+Uut+FAoD3NpG7swaTsOmywHuJ0t2WfZcCwjR456CNWuXukx8ZhHyZpJq2gmNnSxuYmilfD82uh/cT32IPdZtXKz4ClDH2ugJIw+nqxi/MiSRIOFspG9Q0eRrBXXoFZ/GGt/MQLBmOUIYSFvzr4e6lJNUbkNvZTJLaGYe8alZ0U90oSDdee8y0AwV5AwZ6aA05Uys/RSsDoI408UDzwcleBjiPQGDnmy+f+JBdqVdlI9d+QbWiZd1Y7kvAt8KRvBsKY4s2VpLDLZL+uTt6Yr46iTrM3z/8/mxyNbRbpXXRJ2uzzV+lVlkeQ5trt7JNyT8zPpRyTmY9zLb8ZkIzaA05vka8hK3krf/6f620pCLl3RlQMpNhuvpIp6Icxv9Oe2C1G7k3hGuodW3yh1m4afF9QL8kahGyKBfv4fqIF6TjrKLj7o7xHtfq9UbEG8F1OElQpFWZa6iAybq4uet+O0aq4EH//XvQdwjqbcXzAqo0ZK23U4vgnZWiIK6qd4mYvWsLsNGoF2bmyO0vB7Hsxf6/mDgSItCHaSlGiTv9y2qeuLjdBN9yi8Y0QNxzmU6LnkM6OUQH1OYSdbwMJFQbykNHPbVKRAoZW/cHvK06QFde4vjNtcbEQOsGcMWqgBBHJ3JX6cX+Th6M5WFfIMOwoBzKWg4RuhUr6TzIfGwZcJZPccDVs0II6RuUqw3DaiRixDlpPYk7o2rhbYPyDUVXKoX9oDUglsJrKM3jGhhFYYYeS9m4NrBWLSRbTZMMl7O9yTzHFFNj8/orTyAsYRK5gUQGtR+H19qp64OJcMVkOKfputR+50U9JQkirZso1hZhphM0V2Z0P6D+/FzOvHr4Q3PNmBi4watUpGs5PUYLDf4XdZVkcnKMIP003K+SRoOnNQX6ef5hK3YQIVXZtdZatDyTXKW0XiuxCoonfLZXPqX85dfqQHxcuQ4zvfHN9h/h3Eq+f23I2KtxE6YVFFHZyFYdd3vdmhuBpQVe4X/AG5Oqacjn77o5rLmHKfutBDAsVH37OLHIL0e1IlPRFQ5pBiMZXu3hsvmdR6tKL+5KHxSLf/Mh1gnTv67aS2I5aEOWKimEfUoRC03q+xaOLAkjcibdQxq4li64c5OB5s4K1zmcWafOFjjJVaIl78YLjPpOkAmNVkTkQYtGFcG1mCCUnBAk+io5wGzFk+iQremMm5lPHnRtsK07ALs4yv1HqPgB4hRm7vROLnm0LSo+i1Z86v/hpeXZbtCni5NRJx3ZQExaIO0+2EnkzMthlbM0c6+tP0MQ0lz36aws+v/gRd7buT08SPJpboJVn3HaM+QM6iAkHsAC4693bSW5QRU0m8yGCwIjH47LNcsAUkH2lsLx7Mf8KZZFBWmFiSu3u2OM5q6bJGCeixPcJVaUniYZ6gs3uyx4Ahz59g4pucFaqPYEhdgmwLjehjMrVVOBu6f1luV3BHYk0D+62OOw+5PcI/RGdMvNgxnGcK9yuWni6Bk6nN8kZ+y/0nUTnYxIUYPwHfM3adIWB3cCNhLyPZeBMJZ2+xX2DaEoBCs+oZkxnt5005COvFmnnElGTtP//mhJ+e3RqKxuDIGAeXIJX44o2zYL7qRH8704eMyRhPWyNilZow5YtnVIYtSWqmjrmEUMVQfap4UuVQNmU/5FS2VY0huNmZHLrh0LnnJWIFtZ70P74IXO/3NzQTHZ1+elASUFTuBHpYGNIZ/gdFkrtGg7T62trmYAgtP5N0X2dgYMa7iQRgU8KDoQnrw+6A/483xX95SoiHTmTom24Ce4wuSgUjGa/s7oA20KKM2tc38XyoB4mFHx4cq55/SVi7MdlxKSQWBnnD5BTNLl0sLdk+ikRSRMzOfQza90dZoHOyhI3Z1Qj+asus6dgOI98ythAHRAMckRo0QZafv7kZGSDQcqBBJEr3zE0E3bOWiPpCsN2SOBLL8Nx4zPtlku4keeaSlUEAai4U/Zm99Qu5muavBTHqL26BmEt+ihSQdGW8VEV4kFsGrF6EEGW8oFi5TBiB2IlvHhTbwuxbt7SYraxv/roS9R+iCIWcyAWD5reuroo4bg/pu9tJqewfZUS0Gh5ujJSpCi6VYvJA7gyKx/7qaXkGOWm26ywWA+f76lWZr2eGhzNJ4ekbQhdRWFGgREgxktrfjd2dSoL4c0ljANImf224+SdmsQrNtn+b/ifZiPOyflbjrLI//zAGkj9NxdCSMYfeqHAzQEkx5TDch8pxNHRrFJILgFDNj1srdl+XyBM7GT5vWIXJjYrax4E/Fs9o7g6cZ5dhO2zEwmHewuAuID2z6NOv3A1bURZ2qJ4lithrvtimt3Z40b8+K9Cz/GopjhtwaDjUOyAwXxm3aWugEknir8VMXW96RM1NN37xs23+hVcqs5DixlWSbvvlHuQOQYfLPwj/2hqxj3xo4Uv/g/X0UUKNZQf8rV1quVNPrXGSuwt6wx2XBCu8ot4kCpWaVdxUVgBdU+BFzNQhfHsaCLF7PBXxA0YojZttA8yTmknB7YOj8y5JzEAEBVGmSILRbPiBdQd8lxQyGG9ZAYKhzT97vcTv35y27bZBq0McD3zdQtXjEt9U/8RMdcMBPX/DJ89GvIexvZMYo06ctZEx6Q+z6YIhkrT0oK9LjhuPcrAH+rAbKsoydzrO+UCk0qhkZkCupWaEYgQv9bzg7ber2u2NdoEZ3EFsgBQ9FtYTCGbA40vAHNXRX/+kl2aen67JZuZDAOzPNX4tvAy6R9IVynf5wgE/Ejntzm22p0QOlk133gPOaXJ/9ODD4nC46FHcTb6CnwsZIxevyK1sigwUTilxp4t4DLWVTAlvENUGqwsxUIZWj+672Zz6HOCjK3P0o5hok/ZRc1EDk5Ka/Pz1D1D5TGRQJqobbNINoVljXmiOzmDctqL+InUveZKzSADnac6lik0K1Na7NdS0zmRMyUo4KGRTM1kV8AGQ3CJlL5neYvsTgXdIvz6XYJ4Z91tBnebuIE+exCstI7cp9B2EI6DhgVpcmkFqSeGHErMluDdxK5qPXlQrGEbiwTNhHQDQqoU+U7sw5hn3cx/I9V0kx2znBziYAKYcE7qOAmxAo9HkYNn9eafK/WGGA7bMrDJ3V81iOrVUivE28mJv2IYa69RpG9Iji59MYJS1WCdq/GffqJmkAnfTKM0NV013swJZmeyGMtqFbhUaEzJzQuCt1ZqiPiYDoIL/8jbrPf+yYjtvUaf3K4OQQ5RMRa7hhnskvxDFbCS0MZ4xsiuPBXIvu8MYcrVxfhjVROfBzkJd2jP3Mg+JvnDmFK+wO+rydPfsAf10i8gAsinkl8+ZviPMZvl92bYPHJEgkhD8NNBHDLd6UYVfxwzIZlJg1yi+47Wr/WpZhPRwUPc7HlbxwSBxWLhxlyZttQkf0otPEMKSm9tbswSx6rkQxUDRjBS3yNm5jiBWIE9aYPEgHOIqFNS4Kns7FhRE91NgOsqR9fe6cC1IeJbCjSOBswKCaxOtLVUuTH4371Ldsjx/l4/JstzTruHfcn/d+7YcTWaNvO3LbqOzhQRlKs9NGXY52zncoa+tXIdeOe9d6ZSll8KG4oV50/kcB0f04A5gJtjU0inWB2WDmir5UJYFZE+aNk0m9bvuUd/cFlzJoef6chYffQnbrb/LjeyzuOgu4M9jNwr5n2q/PtlhjaMsnheLA6BuMpYNOGrS706nn1S3Ttsi/xl+l7eMZDokYKfi1iXjj8u4TF5WLgnCRxEhalcJalDgKCy1LWqzSW+Xk3wwxen5NUaWfNHwVOFXnq+k+MFFPGTXwPh/U975UompSC7yzPzArB9NvAt6Iu5Bm/d21ZWxGdmXy1/SZ+AAqlV+t/v3Kd30c4psYiwvSvQh47VIaYv8WqWhpytrpQW+WgvzjOIRaddNgNq4mn9oJ43VMNWpQf+7hL+5RuRMqzW7ewZWtBmKzb+A2zq9u5QhXBk+KWTAmSpQ3XKZkHxzFixoD/f5SKP2jGoe9yt6OHmJ2K3ZaVJsM8qqWobqhZE7HP1qjc1XwNNFMLneqgm835dfZ0NbcOLLUUfDXqtenrrchsmA80tz3YatDuTUqCiW0B+oaP9LIJvw+thXNpzC7p4OdhFYi+Hj7N/qdwAjZeh5BUsZJhsynAewRyLl3JblRW7kDAS8jUe4PD+DxBnfx/FfE9QmrsVLlTEX2RTonUvBVO+yzRirpR1Zo0J3OeFqk7XY56tEuXlKxZpHSMu5xWoZvFgL+QJ6+wiiHnGaAszn25zT28tK7J7Z5p8Tu5sy2dn70vHUQp5PGOv4Ck2a+X2XYKoKQXSvM1bw5HIHrUEjKJjlw5DSsT2JCpThBZKdmkgPteB47evO3+Z6xq4lHIyd3mtfR5zfkC+1LQL39+Rrw2Hu+ilzkUQZKINolI5bWNBFeANq4ui464JtsRTZMTEc6k/4kKi/SlGzvlg9dg3fdLQatZQUMtetD29DH9EpqDaVQ+lYpEgHbOnh8by+BBkGKaJQi4967HPMCtnQV0bQFpeeVmaQ6ytWAtkK+cVwALbSVVSBJR+7ON6RHUQwk+Mn2eaN/lDWXWmKriJhJ9lciBAmhzs1M0ODJfyUMrtZRVliIxVsrrbB55q4vktCpTb1dCVeJihSFoJIdwfK9JJhuTHfuBDcMX9WswmwVCKNWxnHdLasTUAsgvUaScexzn8BZUikORE6hf0dCMeLGRzoClNqqf2kbS5iTB+XoE3dim6cOcTxX7GtKOLI5Sp/Yu67tDmY8lRXiGL/yFCo7WC3HO2EySA2gontp9/fWrGLS/L2Sf/k1+HjFKy3lTBcPhsuxWY3apbvToz0o2yHh0JF4Ew2UcUMTncwgQcGBSJMRe8t0UxkvU0KvWpYPXR89ASlQy1y/FJBmgzw9Sytg9MMyMPkwJijdI07H3x9G7nVR+Q0U7kc64ValaxsPU+scjEvxtpnx+jGpDLLmKq2J4oScWODynCWXUTY+nHUxPBvgky2kRdYI4XAqoHhbdoBFqqtcPk62vmQfem+scP75PVTp69ajT1l9EemwSXn1ZQfCK6J558CsrEyOniXsxvFT2oGdgcIjBnLOuaucIYa1Im7dh0hlCdthW8ps7AdinwFdvf+oZcnIZqvZ1bZgjBw7ZOpDQ0WYe3UkQyOYhcKBPrgKR6CLE/vmsudHG+U/x3jVf7KIXqrdrPGcO+TWfpzG55cTfpBizQWMTly7cstjUZGFzjP+YS1zOpXrlvHe3TYLbeO5r1Vu6Bq+fDWhRbKbs//aJ4pJVeiQFjS1QuNk4WAbxeiAMiftrdK+XeiZSJcI1y0Xy6mAdtmy3o/UEPA9YZlv05moZJXm7hXinVYUuIszzohAZAy+H0ojdIahp0jqdERoB3tm04qo5mL2fDBUL2CXjvIeXMpChZENpz8LTKLredOcnXsvSF8P6fk4ITUoVIccAAZ8bB2G0q0jDCpT3+9WweDOnsFNQbcXUaql8Hoi6bjdxSavmMuwlSkM1Li5YP5t5bOX0AWvUnmWzv9XYrNYjnIieHUDYZaObxSOmu0V/hmXcuJYnLo1e9ApiU0PRAHTpQGPL6agQMNNkW3o9dNjIn5Hh/E3yymoz1/GGNVe3j5XgznQZ2rrIXetIaLmVijCOn7KHCvNnt04m19zlU6ojwtrwXf59arMSA1VOUMNFNOXls/0Fli8aWrTvS+ufa8WLhSci6+anUq8hdBhcdVoVO8DrbwpKS8wsOpavtYuZ1GslePbE6Y+WPKgdKvqanQA4BFRCqyflT8TXegLMQoL+0JWiVkNt6Gp1p4c5w555dcRABX576m0GugtZt4CclCrmKROwoKeR+vXRBlYYD+UwrBkQ/RbuVgdQEFEh4DA9USSdQ6XlUnHkizqybDoWI2OAOEiYOQQZTYNOxEqzOYUnFEtheaspW7RY6gnOFrE/89nEHnHSNTkGSpRQZSQGn0NTWUMtaAeph0G0pzawXyMJPEF9xCF/OnDtPx6pWFto2XyzZsd7J4ia3xWJnh5TdYpVzwM1C61r+9Q5y3hYfuB8sLVfBkHVoANiixWLdFK6ksBKIYza/oMEsgWMHM9tj+9c1ru5gso/Y7g41vfeCfuCJUj9qUnTxzCuYUeh7gjaHsw0u2Eb2qpxKJeDo94NA6gKvfRtnW3HVhSKup4R5c3gskwhr4CA2ZaPgImZHD5C0n23O/c5pPoT8IDj0yd4mJrMY6DJYwqjviXSdLLbAOTsEjHwf0HTbu8sUL8uMkUhZ+KnrBCX9xWZK421DgpPDnq7syh2DS8RQuUcROg6kOU08c/910koN8VtjdqVVKbEbD2Ybdf6I62h65xq4krgBzGPyxPFG/Geag7j0Culrn8HuUlLESjvP9KirkD+9DQhYQ8GEjyE3Ci8uwDXya9QvCoTq9uwuNhMWtq1KG0AE1HWc77i/kcZITio74roAHXuHg0luiH92DtGhu0asQXjNa1xR3zZ1AZ8cLbnubXEM9AeoE504gDz9iCoxAOOANQ6KxpcWErewQr0PdMHdLl8Spn90TfjYlB5IZbtsPYcWnUxTwZIn7hhsbTG+FrFKB7ni0ezBdoyRjrpSzb5bBwhAcXincu8qlSK1ZaLZUs5+QHw3cVyAk1/9+hh6lWGkc63GxiPcFrILcAxYNGP1vNbcICf3dEh7f5EcEDZQnKR4qlgL2urqLF1gezB5BVwIjMjr9/EUR8p8CIELkIfnKAtE53FKwVOtmgaGFk9Ng03FNbhndPVDrAyrlEO1ewbZZqOukQz7w9NSmNTNy06TEcULLHzkI++Ysdg9Z9gluwCVQav407/0ygwo/0QNCBtISAIdkB0IONGjLxJRmrqp5BfyxodILSR1SiR99cKg2U3tNfEQbwCJO9Fxe1UBPhqkYZTCtcEZSFrijOQ2QlcQxypKPyxe//gQYx17AVZPBrkOh/AuwvN9kg9vTwHXyFD/uVX+xrsJON3n3BneZ6y//NQEfJFs7UZ2g4hILxsFfsP7fKCxLs6w9kCUebLIPlv1OVvrAW0xqnWokG8wtn2mthMjkO1/7WlvtFza+krc+3QweaITYaUhBrlcOUvSu2KNnYseOe9yW0Gfk8IISFlzWMLHp6D46C2upNgD9fKzFRtOkJgyPDEZCfkoVrcyZ9119EBTK6qjwNxGBOl1J4dhorByhWQ1Sf+sNJFMqYD2O8j+TEdvrlhHU+Sfg5hKvkBhoQolJWG1pymCkaoKoVb2dnACX+EcID7j9aSbbWmFk1jbF+S62ha9pubv/bHPBRk4ZIxPOX2iIpnz9hlHEy12WXnzqSfLtO8WX07+oQ78z/hePg7rRvPS+lewILt8Ca9yR0GIcKxVS8AI+2VliIPwWmqnbf97RB3DAOl9IDJGCAorx3+RW1EaDldvf5R1blaJSM+QR6eKF/zdetwuv4nGD0zvmWgQny8ZXzDuJ6yuWsJxul6oQbUQgKJbUrnk4npOqk7rwj2v020a2mdfdfhwOjzB5/AHC2LXYVl2mBQhxjWUPueMXHswAhULNliJVzKQqjdGx1UgqxaZjcoRoabR3WwN+ggldMhzJhMj26+y6EGHltUNxIsz05GXwl2FTJR5Y+FWnjYva+SBuc9UtkUzVoPXFPsNQNyhO2GrwVv9qQ1/OvytawXIxHmMW0bW6iyNxBWbnfQ3mypmK/9eDvHf7PZIJtzRjIy2MMijQHfN7bFxVaAqUk7NeHSijKgnnQcjP7Ytg/xlg17Gonc7T7tJZ+42MtqUtL1P30PKwCDxCDq//aSjx99xg3KWkdby1QKQHeBNE+x/jeoqlTywMaPfR0yr3Mz7zIUZ95+xxAQods+tsYjZrQuEnqREm4J+g5Fejz4lk3Nuct6Qi/swwLhXNigI3ItDR2qQoI22gwcwmf6QMGRKmk5y4pxNHOETq4mwplGTc2SLR68WXwytPyVNalJFJDjUV5N8xwF4yL2s3SOpF0fvqDR+onMe1wCaZ7j4r9fuZurCyvS5ccjfzFbm3NBXkUptpU/W3olg6cCsk/v8gm6FppnxPM+WryTigIUu/5+XtKM8nWhT/aTTBRMWUAGGAJ8FXLjcyLPQ06dBZRt3vgGMkkGBm9D1jcE/eoQdCN4MwDGq0wtCYsfXv5peNMYqwA3udRh2bR5SN8LqlBetOV09O1pKuKOv4Osw7d5Ggc+y/kaJnDOxj8npXpMpkDAI1I7ZnLLgYBuKRtrZp8z0uSEWXi+nnZDKkRCBHXfGjuP1o5pE8lO5LhmlK8SJLIJYKptBC4th6yI7pLHZKavygv5Ta4rhS98nLD3QFgvW111xrcv8jCBxSldHhE5Y92JVSf5re7keZim/kb1FgQS2oY17yi5kU7PdpaMvBlFFdTis4lGtWVmZ0qB/tXEfclZWKx5n9itZaAoVGxnlV+D/rTOlKY8XEB7FL1Yv895u4kRxptfzPLdDOrts19CLd9fKmCg9zmmUE9UZ53HYbvayCB9M8og4JSrSzmCz1n3jowRBs+Tj4MUZYCzRf6hPE44yVn6hx198UelUScQmiP+oYLWBqjFNccbTL/qpTtWcAdBKPEyQv3d8/CDaHjBI6NLnaiG+K1gNysAu9sizTu4difHiz8rRAyGSo3WYcBB2HNnGDJfEWi2ZcpKrFIGBwHM0IZmT1JdkT8emuG/l6utD7k9UUIMQmG2V3j3fk4LwOV//MERJ2FjbzE5TL9Y37D5VfIMQi6MdlcgdVNF+1SpbDjIo/S/hcfqTFzQXnZd8HSbEOVDvb9hazjNEWZ9StxZoUdG2jIvQHK8ZBmRHwkiMhiEGzoqiX4j764JVCV9y6OBb32wUeKuNFcqYYdIP9Za+01tNGvjbe7clAPiiMRstgqdyb1AGYWAWMDnOydON5aRQPDzTq8892UyS/z5nj9iRMGK/jQKqMkpfxyaSGcoXuaJMEqPYnGWGVOqECt7FilSadnQ/mJwQZUZvRvJlttm3x3lfXg7cg50RT1ekOzot4xFhkKygVpcWhmWh5k64rMF0JE+rkBTYFk4MXFiB29SLvVyw7cOm30AxdXp37F5dOC8hZTcyY5YhFRTzP6fWXsWB42U4Xkfh8K5Bwjk3d+L5Jia7Vw60htOWeowxfUiAFlKjzXj4akO6yxr46ON2Z6v4O/wm7vU/NcBFvgjbwiKhLjC6unjI44DH1iK+3r9oQs8vb3glT+y+L4mPGa5qh5XzOzhoBGd0QhDGI1zsR4q/6+xEMj5VU0jmlIWclLmvy65WQ5svqQlsj71DgLkFvJCVTOIPPX8AyBjRBjWywn4ZIIRRXX22bLmu4sN9Ii4Axhc0rhV8sItTbuWCsjGBxtUTYGFMeYJwHBJnDZYU7FmMp8IokrnCnOut2UN6DQVmVFlzNREBdppyes1LWRCk1XkoVy9tGZJs6dDvUB6VJ0ikywXZ16az4qfkS26Gdg89TsjoJ97WqerEJ9hI7/QAHoREbg/M5bhNRezMh/S2qplsIdWREollVJIhbQW2VJbCHikEUn3Un2G4dpeFZRRHjwFueiXEYPzvPh1fVa5sOWuYbimepMWp5WjySL3OqNdM1qhhQMYNSSMRJDIROULxpvpgQYWczUSvF4xDu6uZS1W5Ide/SR+gPkFLBCS6FX5mUkVuVihggfuoDuwnvztIA3pilzLeC4znjw6aZnlQmKAA4NGmgpQA0HjkBsoP7MdTmZGzsSiduN3/8hWdB11hi085BYSEHfT7do/W6RCSugNUcCGPm0v9ptgHWQIhTJ0gZBRgExSt1TWT+zjyJQ7VX7viFzNcapTWSCz49petFV5SiegzS0Dzp7+83Y30OBafNtB882dR91nXSyeScRzW8c/r9FMeGZDUNMM8QednilkxmZYzdN6djyQy7qDrA5Z0HueOMxH+jHADniAbSbg3f7wKoiGmfGWXvaO5tHFoE2Tg8zpJ85+EWws9+n+MzUGt6l/MvDjCQZblxr5zN0Udo2+A6VtG11MlOsT9mR1qOPaOVfZljWfW2z0LH824FBub59p/igcQLZA9Cm/kr0cJ6EA3okM1U35zAjXHhrhAc89Cq6rOG1hovYmuNdG4Szq4F2heDlG4IQzF/tGgUVGaw9NI2WjNBDLJfqPE86pStz1WYn3DqFKtVDYEY8usLqw7Av9ZvLoOBIcKWnsgtxXr80ZrzPOtbv2YjEDojJDktbyMGfwlyWVway/9ITd+a1LSniFoTMwvgEE1nxw050dh4vvdDLGXrWj14HVN8Hm1h/UoeHyF7U3id76blfx7FNrIHDJZlF4Fjsuqgmw3k6mk6p0CUwuiTTYoIK9xUoDH6LaXbDuHz/bS/TDdH26O6q+SgRaHTLtH0vRHFREmvmJnScsBNwxt7vVj5wXCWNt9XeLre3ANAl2w793b26dtfen24N43h5G7RDSjPJEZ7+zE+uOfupX2uH6VChmVOHNILMapOvE4KiiK9u2pZjKVt+YbiNbby4L3dQ1HfNeeNGn7yavVWGcdvoCE9QSqsl+7IUQ14NpZMG5fBI+47PqFnlivoNUJAC9gpEGBy6TCHJ+SD0KeccwIL6nO+rAQgMsmfWeqCC6o/AfMSFNBfYpy2R1kulHuLaLKW9eBfXz/KEQplmLnkcCEoAj8fY9g7MBs9CrmdKXQQ7nsJamI98+leqYj8QMLUCKMTlPXbhYWVDxXKLZr86wI847mvI62oj45oTI6v8P0yEsoUW24rnEZ/PlBSB0vgZCwZ0oeax5QyzaHhLDaVQA9HKP+RkqSyJvDoJ23pHPQgt83p7EJ0QKKVz2ZBbOxleeqBjSgPBrxTgi17ZzwUGjHNJJzmWzBM8EwwJArNKJifVgi49gBsRdSztyXwTUMWXSdd01eedEGk5NbiMUGZbRFCodXAL3mXDMabsKJjprDCPRKmE1ry8blbufJbpGjoPSswppLIKCj7BENJZiD27pN4fQI322HWiN6x7ZyLxOmxjodJgChOkMFLiPxONdYpQGN8qBMRje1vRuLgTLipE0wL84/eZ5mUajM0eB/+XhAH+OQQ94obg5opvlCkCMHZZWG9CzGA4GSz6aZg/xXE4+dUFWth1Me5UM3QAYU1pgjyTHmIWInD/jBhDvCWHZxdazd9XaV8zonlIx6sjfleoK40u7C/qEtNMy2+b5/RdkFeDLRR728Fd3CIenAqulbnmxUj4hV9cpgUp+nIRUHBpEHLeI6A1LIqBJLzkLoV2znzR0ApO5tPE+/aNVepmjPGNmcJm85ITM70hKhXyqhMW/SQhoEs9rPJqzc/xEhgarQcwaIiRRZCoQmG/TmOoWr7gkSewj9pdw6S4jmEOLG3t7dOCxBxCnWaKlljqG4Hcnmd/OK3VA4A3QG9MZ170B6dtCnAmZA5FTJYhPaHYF090zPt6JWHAhPEG8TkHAde/I1q7wf8tyL5j5W7BaZ4atL1il1RIftAhaEkK6VBcaumOeyL98C0WGd8wC+dCuqS5DMY3g3ekawS7nxlowoW/xGake4UQOnwl9NnXkx+4ZYoBsDVaeBUzG6X4CGOQjlnReYKAMr+b0Q5SanOsiVRzTM53GkgsrzMAsMEnhD7vO7aVj0r4fMf8aRvCFDj8UBn9oSNTb/YWUmnqgXIS2i9NIOQQZl83NM4UthfxvIFBtZpJ/+ilqmvlXXL4CN/o7J0MHFmBP0fwtSrTZHTAnJ0a/PT8nL7B161c63pSovT8gY/vWHIIBE5OVNb5qrwKzVDgxO9TcoCZdlgLDgKX+CEaUNPOABNqgxVnkCQMq0A6pFn9mG6Gw7Tgpf3uTeyQCSUB73i6TPnviQCXR+T6u0jzwyMX3YaPlq2ATzN7ruQZJVuEFyf7PxgtXxfXeNb25W85FDDKbOTtQd5cmqdTlYf6CRTD3ASj3v1XkLvD5+LWDYtg12PzEIZeuMkCiOGj6HmLj5OyIaat9vQb7tqEiuX8jj22+LpDKzdhl0VDQ9mY3GRqfAJXALETHXMYnHYWd1rFahuDg7+04i47f/uiW6pVx/VmE6z2igKec5F01VPiVMVJGXg/VIWNTpgRJ8mN5PJ6FcR+hMkbJ+OpDAj/61rCGkSsx6EJBqRQAQZT1ruOff0fxgLuwQqvwpCQnM50cgraUBtpD9WA2bawnIueYj7WnA4/gtbZqeiMqv52xMN4/FjnbqC17VzcgmgTexm0/T1VYsZJgHWoYOMhDbMvvMi9EJiMn67XKhvlUbVZH9AFdQYqifpxF8IwKTTrwgB6SPbkWG7rQp4Pkz2NiEKpO2xswFk8Iwus3+arZhF/40tKUCnqohODqASXACe9KyTxrNoaRHeCLLmQYfnqGGY6aGHjG/IQqETdiPfVJy9L+2e4sz/YxJ+x5gosSiZSoQVQxlVKGmfZUOvJlutJrDmv8/kQPGkxSMrvtDfziIevKO3AlBp/iOzLbWs+iNMadA8leZOm2yIltHqw9fGqJ/20xdN2zjmdOgWrr6bORGkGuAmfxFVGTvbUzf7ihxBLM6vO6pm4tXbkMkUtidauhCfeiTBshrsHHyCJcnWC811tTd897UkaM7NRozLXt6L7maWd5AEuL0BMPUrKnZRGdP522CwlPj/Sxl4G17q94PYaKoejnXwaSqi/jNBVpWzKKEUQVNFmmGtnw+NYnoAG5diN0jiZgEyAgNbXA+iu5TutyWwynizjkITQ2wY3tfhs9O68vASeI8PPifmpz5u9xvEWZpqh6TpaFEsAZpRvVtOALOTb6CBQuZSZRJptaVLFH8d0/Wu5cIbEvXtT28TL+7qOggJRu2bmnKtYFPw4TgFC4djXhLmMRgxI8Z89GEafvJlvbURDvFzjgM584R1cGnCPSuTAGCKJCSC9+Uv69TJfpDVTm3ip0i88/GgS1V60DY5rfoU5/B+v98mkdKbwLLCzo0jF24bL1/WkVoE7WWnE/78IK/bVpnjL+nb/fhTXMwXEn95/5kMBd+DpG5a1fnL7L7AodzHEPeXDUIi3NXTN5Ro5dmJr6ZqnchUDFFgS710y73OS+miBIQhEmlGKDI1HxFlcqJ9fbj/cSSxBtLETkRyxnkJFSAaFT7RVqHIGF5JZmC+KazqMSSXew63LaGCzrXprX90qc/dTrqvwuCYmutuz8MvsHStDYoZkWAxEQg+IcDAsQrhyN4ciSSbNal/y8WWKcmZHNTD2p8c95YbxMSIL5hVn5b3BHJ2+JYvzH5zEhk0ui/eJNxEPfE3QqqKY9x/9y5P/h3/EO09ho/0CgCAzedIvsTHO4QaMd/S113aPlFtjFzN79Eaeu6eYa+fhMd6rT8gh+G2kUEC6YW/Upd+1WLNR/XdodAUKZ5/s2gUUu7aMgx46ZSX9OzcEQnWuEX63B8CD4JH2oK12F6nd51Ruwp6wZ6Pk6aymwER1up1B1y7EVxgN7LgZyl9a4wGGtRPTjni14ttHFLBlPRv5AEsiLHIuotdKbJpanWzWOUSPUYv2UljZuWRuh+d1DFW1VRRCtHN852p6n+HVuwRJFaeIcjfcPFoZgnpGMcuKeIibHyg20sAsUoBoAfWytqkAIyviMWiFSwbrz5diBs3RxjctVVXxPV53QL3bKtt8mpFiyP+WLYOghqJCT5WMmIJ018DCs+2lmcCg6sf/CThxeTbb/bughZ2yV3NfCpXBJWg6EO4DLUOfN5MARGs1G9Hn1Baf5OVOvY/0Hsowl8OjJyG3559631La1b9f2lpzddnMa/b75fPTX+EU0uzt46pe7LHB+9FovHDgCkmM9eN2oWhOSfaoDbXXa2v3B65lmSIFd6CRadXSfZ1Wp+SnhIsCI5moov3Qu14fFcRJASpyx5CsXVjpz5GNn04GRA4PF2F3IX3298hTLWgRZEmOCgID7lEnmQos1Gklsexy2zvey/unYzFPiTYijTCd2+k3dv34mqBut5KGBP9iiwhBN/EeDfUyxjsOeU+c5Jg3Yws7nnTRKOhRrzv1z/wwz+JvUSZxW8tN5fg/qcsGAjTPaX5eS2R9aY8ojyNNJFv9MAi0+KVAxroU6+2Pudt2Gb2KkBAKfkTVH7O5bG9ErW0JMxvE0xHs2OUlAEIRlHkRzNdiGh4qH2rHdUbFhg31LT2xSkutltHvbzuYpjg6zPYgrDBbTQtGhvSd0uNj/tEk4OHyTI/ed0vOY1LB0ktgQNfT84gY0nVM+CeMgRBuUd9mX5CQJxyOk/TUesS093xXO8ghBtW7/BNBk5heHnPsN9qq8jIboxGtwqTGUod5gObPmnKjJ+INyGeV5fk2F5Hh/GmYEEwIJn3hwlm3+bdg82Djd8f87TZYv6Hp6iRSIqzWjUjrrSRQUWQreFb+4+aFqjUlrABG1L0xrVVN1aYDI4xfR3xAa4oTQBr/rQDpW3eKdZXYh64+Fyj47zm8ComLakGA5dSBEfZIrzwkmussXtUgT/+YU27CH3aGDPtjdvaAEKdeVJKywlx9WolEY83ECQVD4uZAKKEmJNzoERUfHIDoGUzDIhGTWEiWQIHzdEGyFvBPpLRw439h4fa73cPf/bwHIAUQhQ0c7fZMluyQWmYim7nU8W3QktlErx4nbUGnSMVsdMc9DzVacXs8dzH71Hn2hULHDGzyX0gG70XkfYpt8baU6t0PmUoIufRuuA3qCaDdSq4QgaLLQDwSzlExvRfriyBrKFHeDTMqoin31g7z1fmqLH1gJkFmcR+xENizBAkJ43coHtwm15O6yWyxm0G+9MVtLEiV1dOW3PMxcH0Oj+88WbbnDrhZxolyQdHHoy2hRxtvDJoAKj7VEEjqz3MdI8FRphGfPaBJs2iZ97wzvlDhgnNvLuz5KOJJb6CRWILpkJOu6//AS3mZxC04QXKl+RszZ09xEuFqMQuMZ2Wb7k3fXGTQmQXjPI1KoCLBUd7Qb2BURU8rUHF+10iIMekyvHIN+dDOR9OCw0hv0o0+MtmqZfCnBFo2ZI7XjvKeTDum2nnrFe2jUJteFlIZGIYRjfLS5DEZKEfzMETEVqYh9jWGOGQJK6jI8mk8uzulkTYxhq57USjAkMNgUMqOd38AdDPwNJJCy9MSTp5Bcb/datXoBpKRaGstzh4mlQIwfukVbMJQx0Yk6gutRT5IO6vM5s5D1x6xB91wvCkBGrEM0O+qKyRT2WbfTquj7jF9fSTPAHNPMCF9L6Qo1/LESelfFM8IOCS3TMv15VZifKLOu/TQMHlPWyLvq/7nKSXcLfBGlttW/RkSui100rv/mqFtFJc6xEgW7GDSV1d+R0AFCDwny5ypC1/5qwl7StLbK0ifYpXG5FFgzTPDtZQHgeeDoRzAicmybSEcs+BOKfzwKpEFODTvmiGx7xxU/utudwX35om1sYtLRrPnhTH/PH8DJ7KkLkbqac8Q1BiG15CiB5uFCISSnXaMzzWgEdcTkKxoWSvxwF1rcozsoLPKln0/FXj3VsjR+2BYQZ/RncreS+sH2bE+CoVtq6m+xrx5ZfMiefYIWfaZ4E5g1UHCTWMFTanq5HPLipvwmnvl8ZRgVC0KUGftNp7BDrcAwHF1iC0BgoTPiGoVqysZ5LhblPxXryrRlgw0CpHKC5ig3F2AvujTuGQKk6z3MoJFtdQFxvbeN0mqtUelDhCHYkg3eMFVP2CuPXVFaGcHw+GULwqttWdRlmqP9NiSse6s9/ON+UcMNFa5KIrIR0YiBHaumVWz+qM3sPIbkfaS/ZGI72Vhsj/XlaI8Dr1Ek2TQfjBD19GJBWpaYYIbcWs6G9+PsSZfY+iAbTmisty7UkZPaua0vx9ujy7NNwdDkChm3xlnjLCCRPfeGiLM8q4e9WtxfPr+qK2IsGzWMNbFK8Lf0m3eF0MrNuHimMm8Z7y3YVyGNeyUnqSLgBsUhqKZthMJWolr7+oeoWKKzVqJXhWqaKe52x8uQTT9/QaFOQRxD1cibgmOMf+mLqom2cP8E3gG0mMXSZmIrdLKH+QEhJb57+4IJQE2Exs+lqRjLBrttDIghu9jM0D/lNKSRNMoFtt+bRvOdxYTbh5Jq7Lat17r0T7Q2rHSNBQqDQ2zONC+pgTJ8WUdDRJKQD2NxrAvn3pFXpXB1JksgS0CtQnjVn2Mxex096vjcYcIuIZedGj/5n7bf+NgGNlOKQFOiVFKRMJ4mXdc51CMQG1THd3nCW8C5FdokTh1cGMxpd87MA9mVq+eumxhxqQ/++EJ16O77jojknRYoJ+FZBSFn4JL5L/cAQORW+ArgbXnLAhzzwQPcMOwH4NPRNfPOcNN4RsBgLtvJN1NteREIYI9Pd4YrQ0ZWjSD2scxor4rFYRzny1LEZwqMk5vfgaG2ZU+5fmeXT++jTwu1y8fcEeKuJaHeWfjVLj03PQwOV/JKZaM7rxqoHRio+mMVl5Ut+yZk46ChaLALD63hthAraCaFYINoZFvtrKlH9UjjAjIrGDOTGtEpnTAMflh8izoBs37z5j448IparsRZ1BMPdjBCwdxpAD3j8bXLuUDLDrUav4lLxxE+mUhFgU2nVnsJU2BTR1X8p6zkLGvrNlDeVFwCzV8Nt/MQvBaoYTxJwXGDarAQeA/0d1Y+bcZLgHuW35RRuXSgc+tKZ+vJ9uaa1mS4JPH7h4Fh93awxw2Puh9VtHuQYo9UaYtJ7yUDxHkJUBQsd5nl69D2ws4/jEi3O6iCxthGEf3MlVKEL4mvl8tLyZY7FaP/0OvAXOv3Gj4NBPVVWz/g7yrpNqDwdEudgVM38zmYBuIvkrjq7OAqGT+/lJFIvsQqtRZ3FIrfoA/6cKmhGkF25ictJpmvQ5lkvG7m+DIHdjMcgFQ35pE3KO+lfZ8xvrXflCWCAAUpYxHUXWxEgD+3Nkd993NCqozs2ou+bUyStu1P9gzudOf00+2VLhiJWgDbr/XijZBF6noXLDZY+T18FKAMyu7wdf81f7zYUb5zx+tnzGmx2flAfS620nOyFAAcyG65sTLfp/H1deZ2LBxLN8E6en5BzBADE7LEqfCYhf2RRVqdd3wqBCTGoQK1Xe4ip3v2e+jikEN3//pKFfF38vL7d4wgbh9WfAVLwQ83QjyrZsn36AqJuqIxl9yiObgTBlojj2H6gCKEIPApy09MoQr8SaxaijGKhLVYp4WYObYihsvv4Q897RF2bsOgEi2QtEresdje0CKN6Id/O+GJM2VLbqhlixTFT4Mk9XQavx7gR+EezcS06KTRQF4J/QtxupeZnw+KIOMwkfquaQ9Ib0+xX7OFJHaH5GvIMb1nr1p77aknx/WFMh0HdiGnfowahQrkcDjJHbBMPV31G3HO/QrsDWh92oa8wJHYss+lfQl9VngjfxyBvVEQ2Cm+cF3tu64KVfgGe74xwY+Ph2w6flYZHeqrNM6MScyk6t3lqZsiG403XSPOoXfezeAp+UV1i6IHPWAm2EscDA3cAbJiRRzwbvEOaPRg8hkuCQXu+N+ZvQbvntpDC71uH2d5ZmKXuIDDfYmLINjuW9Ydj8b3i2g1cXomLOEb10Z0/ccH8+2pn49DJErakkm/odzKZUkjgndqOq0Bt6c2UL43lJLmIJrkqlUrb6Me1YOfOvqXlV4c4c9MlVJWZEPTvX6tJc47AFIc5LNnsJo+BMwVQzrh97sSLTVBFqw3TfR1NX+L+dvPm47kGd4X/cD4mQO8yAc1t6qwa6XPVhkPDI/eDBSX0FYPuQrviLYN9eszDN8HAF9sEbmfilmQ3nG6pgy0MR8u1n2jBZ1PHILJsdvVFRM7F0tkexgSWvJ78Qixs1Dlh9iPwV8XycLv0ELlcz7kAnzrsVT+8h1fDFxTP9gxBzs+LXuKWEdGefDdAnY2PgOcjKTYKD5gUqcZ93gMEzYHNxwzZF1Kg3b5RKxBb2mOa+Q3TmN/+C3nO4KkWuqL8bzOTSGfY6PcymeVVqNvLBlZdC1oSwbK+w+SPjJOK/YmdiAT7WsR0/kP8bgJ/DdHEXEzXNGGf6wmsl83X3VGAFjaLF5DjY8g70xEExWKfSGw4lDfh6F7590IkDcL+iej+1Z8xsjhl6HbsyrRlcxgbx+sQNHH5rxofEX6Ri0LbaMLRYWf43tcKM8GEJcO+iyWPSZNN4NEvTRZkahG2jBZaH1CxX2SngHPjFlqFIwRmgkoKmh7D99vlJr4rXtd1hdEIpCWJZvLSDf6kiQhVBCIHqYMWg13W1NWXMphVu5H3XcL9wZ/+fxcGE+tptY8zeagNndSSapncKfegUwyBQaY9FofhzHfBSgbWrxJ8hU4ucRAJL/sxHrnROpmSt+lKX/E4Y4xLZL4Yh2UNEj8GJI9SC7Sm55QJDkAp7xteO+/o3+OVL3Yd5OIkZAgUkVf7U8nEbF7u980DAEclZcR2un6jJKcK+Z9a2oiPd/4NkPzPuo9fQDl0hc+6On/reOb9qQ4mXHVBn0gsDDbYavXyXOVBzY0Nyupkm1lfGlpBR2PUnchxiixSOnyitYUVJPdNn/T+6jWZpe19ueFEbxvlmQrTl4aXuMYda7XxD0hpnqL03Pmn/+pZ0lJfSs7lczYh7Vn1191IJOdNn39Fp0H4kw4fmjbesQFTs/j+AcvifghOyN05YYmxoD2qIkbkIrSbLhu/g50hyqVoKkG53H/jRBx3dSmnfTvRkQ1nvjbVy+JSHFuyVA9+pengi/L54Xwd3C6Se4OMSaL64fKLAUDun3+LqI3MCVjSnz2NP+we3vD/tGGYl2cpXIrg6IOQYdy6XcSy8wlCLO95O/l8stRgcRd5lqZNAZ3oz0vfx+HdI0AEtSS22PIDC/41LoWLcI0HtT4cYTE4bAelb/njIVDZwoRD+2OtqXWtJpjYaaMNUlDWjzYHLd2LyO508o0SzAYtrSRGvCtlqMa83RpfDBGE+zwRYY8mDEX1FA1uHTkB6fxzKG2f2/E4UL61X2w1hg96hVKRb3wzSU4K/dZHS9pYAkS57RnUhSgfQJpfb7u8FHgdRd5UtIPA6qiC5hwpqDtwndBVLDxHTQJDaERcVTLXsBO3A5aLdeD/CViAkwiZ/PzVYig/x0YYNCR5rx83E0M7IWMi2VFUAkxDCF8VECtm3m4V9RLARszS2/By5o757au5xwjHCfFjJp4Zlzoq+osTy+U35kYeHSpUNvBjKEPc08HeXuazfZyAz91cjxSWWfudxZjlDMGf+Wq2jQur61KjQrQ64GjQpt89tqEGbGFKr6/pbsot/fFT9kP9lRFawnLhOEVcm4J53dDljHNzHyWvmGjOsIUuI1+VT5tdCHekJozVuXawTyRSv0gdnYQNLHl/NeFbjQsmec1gcPSlQATptDWvzQnyNYP9h1UtGG37PMEIlXvvclOxI8xvQWX2tIGDoOHHqZqmaOw8IzrWrpL2AsLii0smNjQLF6FDTi0M75H6p++lU+CJKHxYGSMl9jhUPtl5xtSiwGL1gsxRhq1pdsIx9bUweXXz2W8nEpdv8D0elc7WrmQun598zGQju5jGyq2YoLo0tGoBNB2kZmdU8dBXZywGddmU2ASko2rZVFavexin0+PuK8A00qZtKrV6UphkG0w5cR00wbG0zLnHmXF9Kwp/RiRVJ5tyGiA6h3GohI5YkVr1L9NL8zmN8TdR7Kk39G2mIS5AmYNOGgWQWRlEZpEllYnCKH02JAkjuqLsDOPCNgDw8EmHO+Gfd3NLRgob5dcxDwavqs5fMLgS0cUE9Y/IXqvf6GvfaonvglvbDMPmL0eQrIcshFJbUZryjZAz3PmCU+WzAwWfCZ5SEL2DOeX35LyAXJczETXUvTwF3UN3rW50P2LbGJwPNbwuxFEhP2rzHFFQ+veAoO034xphnK+TaTOjRBSpQCyhagdGH6XHdGwfpZE/zbQmxWP/sHbFi7i+SxK3EI7wEq6Ex3qwGJfwX54+kRsZB2WUlDtoZeCjo2dee9I8fr2/qacCGYtWVd+zbTv4rpuhGTHI79djOL9ycaaW1V9uHSqug2PkAQysYHyl5ZmW3ffd4YWYMBylCQFY7fMvSiWyAuF9iAFoAkbRm2caw1BEOmhN5WexjV8QHUVW4p1R3iY6l6gtWPw0Hx1TcfbJnNVvce4jbTgn3092GaYKlFPx1u9VThG+QjstsaK3pl+fE+GOG+w8klv+QmxZPYKHayZRWmtyVhGPLteihZq5/WkPZNQ2AoLeF9WvfZca59jXoObZSHA/XEnr+oL/vyvy4mooTv98sXT2ZYDmw8h5XIdIHU2Ve11eCt4Dkc326R9sdVManlVQbASr6G7ZBE3LVdC8/l7Oy23lvQrPOEd5fKZvREh51YJPJE7owRen9rcSRS0gZsfuCdYR5H1slw75uSjmLGxE76t2j2Rpwnu9Mabg3ZvbEqSsok/fAHekbfzR4Q0xJsBvWXZvbr++ojfKeXtG2I+fBbCutkz19Utp2PXVSOoiMzcJ4HjXDc02vKM4tLvehVB5BxiLCWnBFxNkAeg8uGVgNJTE9t5ZUITCTDcciUAi9MkQHg+PoSXwgdlA7M01inyfllSy3/AgaeEqhripJHRqYCa0KwJM5fg/ftdR1xGaYPwdxhRyzv65B+jL9PxpJss1WSUGcbvGZ6h5suRRocQGeJ0kbs36HnY0wvw8fwbWwjjKRhEjZjmayz31cPnhsdAcANVNUEsCQ70j2yTtUUp3NQQ5cYgkUAtLa+D7mGqEAEhXhxf9P7in0tKaFpo2PjlKu9Q/8xGwadX8G68SNu49FVyACYecNOhxFWO2P7j9oW7XbIb8OyMS0GBnYu6LqLcXN+fdPtuJvL1i9uPi6B7oa7Bvzb0AIFr3Eu1o1liA/O2SiutHPOsEQfQmNnZl4u/UXMV2hIbWQ8mnBTiLK5FLWW8fk6vY3BSyB7HVBMUsO5D8joTeWtHltwgDI+ImazZMvIPdIKyzQO/SmX1yyaH0FIhlyvyQBRzQHE1xlSLsStsoTjAkXUGqhqm9PHKGvDc+cjslgg9W5H3xlm1uCJB/9l/maQwteiB1Bsq+mN4vqfNAS/F/mWeRKWaNNmoTz7CapErbpJ+FHprNa72iWFqbgmff7pIcJT9Rdp34lEwS4LHqGROK0490dzfMY2A59ADY+2TRjwzM/h8BcVaQ/Iwo3xYyMS+c0c5TofIiHjIzdUq9ukYpDpmDLIlo869nRF80noae8i/dBO5AdA3O3s/YUFn4PDgViv/GRU6WoZoJ+0sXM4U2u20oW9RlRGkC9gMZm/P2rdYFCsfL5sTcwkevkynHGpeUmLkPRiqSj7IUC6bBpRp1wYgaoBtq6INACWWhErLuKsgKgpotLAjfWq4gUbWp0T7TC01eB+nCAP2ZrDcweG/1/lQOP2ZGZbUDE2V4ptKSZOlxX//JAbEqy0oTAnZDgOsEmTWoUWEewFZfvhf9ORj/QFte0YVfcb0gChAtUm+49HTaq3o0PxXiyC6EJIKrbm5R2OaYgALbNPhBTJQ2PpxZWNmyvqWsSyXsB9UrZ8N5SZQI2cFNdaDEF1XTke/wu/uDR2CcGm8v4eOBCrizgr2sDZTmKl4RlyngEqwgrs4fM+EATH4QStmV7lXx5QakKtIhuyUmFXVMXHJK6Fr5EBkTTMhTi6Ad4xKu2R8hHGXsIJez9qIAuNPEr/UrcWeMmJqMVHgrTbfP+U7GnR6IusjzuQPzLlq1XmHLb7JhDPilL+8WDNsJttijA7kfLaXMVOf/Cwpdc1heGBnQxENl43iMRruHSvj0MweDlZj197LPs9xaZzAAZZGc78Af4izNPVhT5x/iYee0ycsF4r7FuSWF65/AlAIi24fuZGvDcSznHTSDaiWeEKvL4JdVlyrWaqWxn0dzeYczVI2sOHFmlHp4WFhRgyGrZBfevyfMCMfnzczu27CqDPIpDHVZ8XMU4pKjTxJc+pYEaJYAe0gWD7NIm4VzigMl9eOlJHjXgf15GsRUuvgRzTwbbHpXvfUyrAbeOrdCagXP/Mtm+3571hRBRKlQpNeEbDaibDKIsFXAnkDswyxFJmwPMwAFxzxhwkqXDBLtco9o1jquR1eu6lQU/uuKQiRvBy1oJOty345w6aLrO5wS3faE7n1mHYPcBumjp5pq4Kjb8IY9Hb8y5ZFGqDq4KhxPWnftDrEwuPRpLL5j7/oF87a3q8G2yhW5A7GA+kzefPJresdGWUBrK9ehs43/ZzzEOJcDqWALNtOCVf2q6klZLOKAcG4uioMXB/gg6mFw+XEX2TCp8Qkpk4sjSf2Smmw/ObxlO0hPOBVNE28t4vZlURq8iyBMw7kqGSWjPRKcp88Rwpxju5njJmDfUx7W8j+LwmjH4XENj+3if7PVSiDbnYlMuayytp1mH4Wl7/PUWrSa/q/503XwSYMc8LX7I7ocw0uLPsklESQGm8wUziRLfGm1hRjOdZo+9CE0wYbtefj537T5Z/1XCSC4gXsdK9MNuaih9b4NBKyz5xw6T2gqUWIHYcrmjocWTNVCddyG7yhVIdINf8iGZpVJkPzzlOh23wBh6fJFSwr1kaaXijQlgqGn7x2suucFGp0fCqqjJir2UiELDWVMtmUDLpcT9HYjRxWQSDJvhnG2VOd4zncwwRMmTHQ2asXeTX6ZeByZIdOdSS32ADtqzqjfIHGVngYsoBpUywUZSQfJzDnIV3cStFXD8SZrqjTZSfMDc8ofJ6iP5uJuhxBVcNuLDllhTUNUxKyMUl3NPt0N9aEjZDVV8Z+5Kh5Z9MzrATlS8T1oE32Sg3Fba1ncZYH/OM6OKJrwVxPTlUPNYl0PK8ljcZsfvIl5HQ5JsFE8273V64RbxsblT82vwAUeQI20XjbyBh7moYBe0jJvdv5/e6+EZ+uanLnqtig+gYCLcyr95jAEAwzyvGHytIBNL16qJlYM8bqRKJwU+Q0hrr3VUTGKVDc5mb3dDaqL39edbZIiSc0elMQIZ4VikIby8e2fgKlY6r87NLJWN4jaId68kpP4PYRRCq8SoBDrOgcO4Ao+qEnKcS+E+bXHx6PTeIpb42CRGghWrG87DWI8aBCTOA+nL+dzKhP/tOm+/XwOWBc/IFHSKmw7Ew0JlU6QHYca0OW8z18FqOvhI+DXPaxHKcQOZBq5lXl1vrIBd3uL1bSB6B6OlaO+MYHy9m+P1bQ2YuXGWXHkinoV0H4boAOY6Hc9zRHlkZQuKN7W7rACMz2496z6OK62W753VnhnnkxztaH1GNfOViyYttZvUwAazy/I9VECobCazjsoaEYgUlFdo16/WCUF4+nGtAWz0KBhy7F9TiMmV+aor/lE7/V2OrVzuxArKXVpLTWhHehHKQhdouG941zhknwO/BRCwkspxAmUiBJ4ZgO3hXVR5Me4ccuQSYHwnzbXMz4CPoNDEqLntjrQQctGndDKBky+ZQDQwWhEfuSak4sojDkQzgcyUYvL7n5xse+qGYWJKlcxntSNDGOFBLroJY5AoUci+TDdAtsQNjgO8Cz9a0KNUsvEh8qbr/a0wOm9Iw9uUL+kNZePtVA/fR6E0k7uC30wgBID7ty7ScML+U66kBlgUHzwcc57YCXKpigKkG9wXxcGW4ZQsJNyoYnVSZPp2GaNnzibuCl1L5SoOd88/FHEy1Zpr8JSKjLk60+QHtREy2q22dSu3unnJdhqsWutwwGTFRekWaye/+dRrL9TvJ5+YKLT7BZZxzR7sk7pZTjy+tQoWsyB5yIxvpynXwB9dKd2W9ZBMnYiPBU/3HaDRXTBvXkfpksmmzll+DVXF44fxaM5gPpIUj/xKd7erEucYsI6uG1gUz2tqdJ4kAEYPiwC/SnsYFJX15Eso0Fml0qLPZJKyx7biiZD0ouPJn/O3nbVE+/vwHRixDLecCVIapIIFBcXfwxsQQJZozl4hfh7tevytHdAvwFuToSj08vcsm1LHj7NvyJppL7rYLYieFi185ZZ8419A5j68v6JqETt2XASJIhwsWLFlIy+nNPlp9FQ+jCv/O9aBXtct2tfCCLvFqmMsf9Y2YiFyMOUsQ7DHAqUSHbkLPTjnPDusVVsMTnmZby8qaMrVQ7cF7KtUxuE+zn6r6hf7QfKHYNVeM/J/9kSRdNAP37sBBhxS0OZWcBIpouPE3Rh9fGRYz5574gsscquBYOJxKte3TuZiRj0EqGARKRpssEHSFL6CkAuHgfNQFNx0QMOc25n7U1br+p3QEzVRF1tLAMXUO/C2N+XFb1aeYPTctIYD8t0MvRvGwz17ZKTbdJhjKhN6paZdZ5Pk775nKyAr7B/LSIjuhu8HnAeIF6M2S80oc54L5S6duv5xqwkUqLVVKAAfakLFVRx4xwsHBC0nW/n4ekaeG2BjrZfatAE9Ydhu6aYka/ppeN5q+m8pcpFo1McjS0+MifYILU1Au5X6+txIj3aX7DmTJxUhVoh4J+xvDAKaqWoWgxw9BvK6L+3Y8iEoqACpJiVFyprwW4A67njkePA6NyOJWpiLVki6UrnsOSr10Dgh/AR8xMf1tafDYU00QNA2ASHQhKqu/zArkhUHApeYDh2t6h6iew1GHn6yiZusPGrPYz4+FoIC6c3y0DG9paFGDApKuQuvla3mDBtsWoYJD+NZF/k25bRR9Ja0udiTazXpbJ6BGAAS+2C+beSm989+JH9MuTH5vxzRd7DvLfwbQTdP7ypNmUDKinG5gHf13BB6reLiIzK31dXd2Mea1HlWl4kDP4EXFWp5IF90u3q2WaA1ROHj1IHnvezvgJhqzlekn7Wh99iY6vtO7peZFKIzj1M6o3HEd6CGFwiJbjmM3yrlfriD5E4L1t/bdriSeItUsWynRHbuWqix1Hdw1zi2lLXuDiSbdiu9DaaYc604HFvTkaQSngt9x+J7zsM7bbhaseRfIU7gjeBPVljPpL5BZiroDyGKj0vHQoqhj6fF8uRJugJvPZrfsSvIB04a+mRzd6MLIZgnwtpxzAZj48atqr6aY8vb99iq3KQtb/zg5a1VmNRl9qJySMFoz3nJ7QskvnJP3MwSFpNKWbr6cGkCvMDNv9Bjs7RrcjMED4UICfRMQY6yLrbsrCu0y7lRmTt66FG45DpYZMyhhdqbNTDTH+FlCNU2qwm33fSJkfFES99o4YBdLSuYZqbK5VWBIliQC+a9MBYSBpdE+W3bnAFSaXNi0az5k9i3bJTRfUBQ9fkzpRAD9jofHdquSeFYKzibVwwkkazRqCXgweqFBsFGg4cmfjSv2OY3Ky1qTTEJZjVdOkijayd5r2QTH/7Xc/5w/13SZ+rfXpJVqotIbyJyjACMB16eqcwK9N6z4eMpcRzEvjzSOXKgEECY6AP8CF6Spy4wWIbW4mTauE6Y7WwovgGlemk7bjMya+8ex/dFoxdBkq6zi79EdXD0OW1/6xbT5v5rZiFgfkuyhTgcfR+88QKYa8pfqmz2xnE4BrmCXVlbaJPO3773LoVpo55pZuSkVIsq7E3xyyG3HCdoV+cIQ9+s5Q28aSH4dYQOI+CPVPeLv30wrZxMordJA0Gje9wZ3i1ak3bJ1tI9j5EDWG4fEebwZZD7L/+sKhEc4q8FcYD8DYefRx0DFt/MbNTQLUjTJ68hOEoWGySuvEPZ6O9o0luw1g5Oqac6YU6Fw0JcesIQH/04wTpD7lhgy5DtE1FKi+hkYhy2nuHHQdOLamU+JFlW6OOVVkJ3wJTXn2QIQ3vEkOUTX8nzMKZJCFXLkg22YaFjTE9utLcNay4ARTKJ2XGPAlsSB6Kynl5VEIEQ0E7YAdXs+3QaCzqetNsyk200vqYkjV/UQL1PhiWVJxMwGYS1ABWGeHjw+BqKnO9NSyK3HSyCz5UQ2qoxcbuK/4wFoH4TpAjzQO0cBussHOvV1pEzxzh6jDmV/gGTe4m+4YBOE1AQN7dv0FqE0AS2G1XMJwDGy9GyXFEVCGBPUXPkfsdMx7bzSp3685SpqZaj+T/YbyDApGxKV43d3MBJQPcrjGznXVJuxuseLheXjt8yMHO+GbQMCkxVAaqY0vP44UuLpUTdVRzk9aGi2LzLhWd1i+2ynX+OZNSJfL5/aJaY+209YC9izF51qOjUL/U+y68q6/5P99ocE24xKYgya4gTFjRaHrZxSDU+lPC0AsxH8iK8WoSlJ4evU2nfdrDTvSCAwAunPYcaQPu67wVECUMUBMiqvM0EIiz0AFCin2VQAB/PwZPwBEOKvqlVTt2NHnkjmk9O9qMJek0+xlTURVCuwq5hcOyos2r4HHUc2onDEsrMh9zUEEFJqjR8pTCV7L6A5R9lAV8gjtT7bjn3LexLFJz4xlSm3UDnyPZzOf74q3UZicWIjA5DkwmHKcbm7cP+uQiF9K6oE/Z18+5ujS7dJxPA2TPQy6/plNSX2s74hkLK7QfHCJFFQlNbbK0FlPIXY9/aCoogeli51WDXvj4ADmZpJZySkqoPBniK9L6h21jSY+vhkU2vXIsS0k4pFYHvRpzYxrHksQMK6pb1Ppz0QyvkhHltXsAVu+VBYRpecEGtz1l2fSNiIPPTW2T9YeOO2Po1pFOq7qCN0fzRgbqFf3FCNrSi8f3qDim7AZeC5X75w9f93e8STlVdGH5H9XmUrrFlwnEYUMX8UeuZCoj3ZNgvvp8amXqUyk57xHXWZp9Uxa9fq7bgsXGdYJuhuS1Ph2/cOiNvGc8Xc3ADNMxBBHYUynjyCr+fWmn97NQ9Rycv6PlXsoIA8xmeC5SNm+qirdtB8TgVoDCthGVHT112Vmo8OHX09hzhNXzujaEIGidrUgD5Bzd97bVobNVe9ua6FFTvzzhfv5Ey4hor/DvZU+T+wfKtYwpJPfjMnH5gLNAQEve1qf3lHYsUjvpQHPZqke/nvGpQ1CwEQfEKTryolOHzzxMwn61Ro7/Do8vGP/Iuf5dtvYNQDvBySB6eCm+l22nosYifxe2rr02ARf6uzTvaH5NT1Mv754s7g4+YbpSxop/G+eiZM+KSbRc8spkhJ1L4fDe7b7bfKJHElGM0P8YstVgymaodggsTvOjayQBXt47SpMFoAIrI6hltcw1TwXWwuIdOCPC4vxZz6iVMDx23xXMj//7NSmXBKB9PXkCYDqQ+G8moKklHM47tsbfJVrCs4uEls2orQeY6eUlDZ8QGFUk7DDECdGp4hnBagDzgC0Ms0J9iKphdv3CYVkV0OaXJLsaZ3wjgUaPiO/KRpY4WPc8GTvuhF5aldo7WJ1vW9W9fyN5M92q+v92zZ1U7ktSg/Xg3kM6hxxfqLDtrRIqfIZUWAMRC3yFOCNUJGvZ3gXRFgjIy0eBgw60+l4FPcRgrG2ctdT2C4UcwX1+IreE+vZaAPqGwRZArqcLaM8HNNggQda6LI/l7osyB4JG8SQGbbWa7sA/I/y1Y6rWx9Kuib8fAbWubueoK9P7kz8pQIt2QWm9QqzJbZxUX7MkS3AMXer0DIFOF7mg0vNUt+STR1K4GEhZQS1D3CMdjuao6SwPes8qehIEb/4O9Ui4BMMynOK6hGdzJRKoV6Ow57qP1Qif5YbeTLzFNrPG+59e+0RyZyt6AOomaeQdbuSWh9g4UH3MGGsRM6AzuAjmW92AtjRnPcV8gPLg3ItfLnHaOPH1RZd6pc8ZDJBd1CF6cRZgFNQNbLBRc1Xa4hOBC/eSi0dwdQ0rKqwDr9yYYyAIyf21jP5wbryii5lQdtVa3i1s65V4ZFxTHP/ydhJ9N0Fz5e83VO2DrlBfRhUV+EckomY8fu6xKfjCOFe+lo86FwWkotDycsJHS3x01qN24Ftq0raMwfyzI1W90OBRiOdLpWtULOEcZsz/nEWEifAKbD9WOdXqEvAyOb0u+dHfev91n/wIR1KxuPnTfNXb7C0dmv5ZcrZ5ZxnupgpC5/ppILctwV77ysl3DMHNElKt+lYniWB5+cwgj+7yCqzHkWnFtPl0Cwnbhhl5qjQME879dFUMjshGccJx7WULbGFBANBSp+EX8xH5VdWCY2fkxY5jdNlZF8vDHLE5NQqgtmbn/0CufxmF1ttlLOz5MYOruR20XRfH5Y1hk8wBA+jpCoYz4iiND6dIFwuQBw9gUPKXvF8VLPKRTsmOEQ2hyH8kmbd77v8iqenJzqkhvu8lN39zL1LUvOxFjXI0IOpiUi5EefDB5B2KSBaYP4WbyDCsB9Ru16kYX3bTjbrsHkdyNJYkr6Y0+4fra1Pqzg/LM1RMhpLgv7j/oK0ZxdEFTvN0nm5oLkFi/FHDgXbkSD3JcKHJW4ZuGooTPT4CopMiUDmCjAJAUbLcnD91RXCpoDZGmZehCVZGCCqt0it/72J/4vtaO9jjszemVGONH4B+qruGR69RrLdmz9ZFtMN06h6JWus+80Ys6axiw+iK1yv+2bd22espB/RAVKy7Il44I0k5EejU2MN8d5VQPKvStlSLSYl4emLlkw7gkFsGn0XH6i3IKE4SuCXnlpjYMZzLj775w7GsQ96+vqtagXzXq9puu7rTddr2XS0A70xvmhM14+FXw9uxIv3ro0GStQl2ji5txY2bsKTfvypSh249KukNbF/Tm27hAbbFQ0KkOb2UBbgsuBjb1X7MbjjLnq2U+sUWieEYOvKFnYrpDxhxJPpzIRDZcO2NxFwu3dNYNMt8v2PSeP4Yrx9XpGYF/gCxVagAJ+VjQI4t2wD/JsCA8HCoQNcKQYCVrHuAtz5fgKZbx4AuNQQA/4j9AHEmUEBFZoiAbQX/QAqQoQDwL9PAnaVEQOjJncCtg4SAAAAAABJbnZhbGlkIGZsYWdzAHB1YmtleSAhPSBOVUxMAGlucHV0ICE9IE5VTEwAb3V0cHV0bGVuICE9IE5VTEwAKm91dHB1dGxlbiA+PSAoKGZsYWdzICYgU0VDUDI1NksxX0ZMQUdTX0JJVF9DT01QUkVTU0lPTikgPyAzMyA6IDY1KQBvdXRwdXQgIT0gTlVMTAAoZmxhZ3MgJiBTRUNQMjU2SzFfRkxBR1NfVFlQRV9NQVNLKSA9PSBTRUNQMjU2SzFfRkxBR1NfVFlQRV9DT01QUkVTU0lPTgBzaWcgIT0gTlVMTABpbnB1dDY0ICE9IE5VTEwAb3V0cHV0NjQgIT0gTlVMTABzaWdpbiAhPSBOVUxMAHNpZ291dCAhPSBOVUxMAHNlY3AyNTZrMV9lY211bHRfY29udGV4dF9pc19idWlsdCgmY3R4LT5lY211bHRfY3R4KQBtc2czMiAhPSBOVUxMAHNlY3AyNTZrMV9lY211bHRfZ2VuX2NvbnRleHRfaXNfYnVpbHQoJmN0eC0+ZWNtdWx0X2dlbl9jdHgpAHNpZ25hdHVyZSAhPSBOVUxMAHNlY2tleSAhPSBOVUxMAHR3ZWFrICE9IE5VTEwAcmVjaWQgPj0gMCAmJiByZWNpZCA8PSAzAHJlY2lkICE9IE5VTEwAT3V0IG9mIG1lbW9yeQAhc2VjcDI1NmsxX2ZlX2lzX3plcm8oJmdlLT54KQCA';
+  'AGFzbQEAAAABaQ9gAn9/AGAGf39/f39/AX9gBH9/f38Bf2AAAGACf38Bf2ADf39/AGADf39/AX9gBH9/f38AYAF/AX9gBX9/f39/AX9gBX9/f39/AGAIf39/f39/f38Bf2ABfwBgBX9+fn5+AGADf35+AAISAQNlbnYGbWVtb3J5AgGAAoACA40BiwEDBAUEBgcFAAUAAAAACAIACQIAAgYGBQIGAAYGAgAFCgQIAQUAAQsFAAAEBgQEBAYGBgYGBgQCBQIBBQQFCgICAQIGBAYCAgYGAgYBAQcFAgYHAgcBBwAAAAMICAgGDAwNDgMDCAgMAgkCBgIGBgYCAQQGBAQGBgYGBAIBAgIBAgYGAgIGBgYBAgIBBAUBcAEGBgYJAX8BQYCAwAILB9YJJxhzZWNwMjU2azFfY29udGV4dF9jcmVhdGUAZAZtYWxsb2MAZQRmcmVlAGYZc2VjcDI1NmsxX2VjX3B1YmtleV9wYXJzZQBnHXNlY3AyNTZrMV9lY19wdWJrZXlfc2VyaWFsaXplAGgjc2VjcDI1NmsxX2VjZHNhX3NpZ25hdHVyZV9wYXJzZV9kZXIAaSdzZWNwMjU2azFfZWNkc2Ffc2lnbmF0dXJlX3BhcnNlX2NvbXBhY3QAaidzZWNwMjU2azFfZWNkc2Ffc2lnbmF0dXJlX3NlcmlhbGl6ZV9kZXIAaytzZWNwMjU2azFfZWNkc2Ffc2lnbmF0dXJlX3NlcmlhbGl6ZV9jb21wYWN0AGwjc2VjcDI1NmsxX2VjZHNhX3NpZ25hdHVyZV9ub3JtYWxpemUAbSJzZWNwMjU2azFfZWNkc2Ffc2lnbmF0dXJlX21hbGxlYXRlAG4Wc2VjcDI1NmsxX2VjZHNhX3ZlcmlmeQBvFHNlY3AyNTZrMV9lY2RzYV9zaWduAHAac2VjcDI1NmsxX2VjX3NlY2tleV92ZXJpZnkAcRpzZWNwMjU2azFfZWNfcHVia2V5X2NyZWF0ZQByG3NlY3AyNTZrMV9lY19wcml2a2V5X25lZ2F0ZQBzGnNlY3AyNTZrMV9lY19wdWJrZXlfbmVnYXRlAHQec2VjcDI1NmsxX2VjX3ByaXZrZXlfdHdlYWtfYWRkAHUdc2VjcDI1NmsxX2VjX3B1YmtleV90d2Vha19hZGQAdh5zZWNwMjU2azFfZWNfcHJpdmtleV90d2Vha19tdWwAdx1zZWNwMjU2azFfZWNfcHVia2V5X3R3ZWFrX211bAB4G3NlY3AyNTZrMV9jb250ZXh0X3JhbmRvbWl6ZQB5G3NlY3AyNTZrMV9lY19wdWJrZXlfY29tYmluZQB6DnNlY3AyNTZrMV9lY2RoAHszc2VjcDI1NmsxX2VjZHNhX3JlY292ZXJhYmxlX3NpZ25hdHVyZV9wYXJzZV9jb21wYWN0AHw3c2VjcDI1NmsxX2VjZHNhX3JlY292ZXJhYmxlX3NpZ25hdHVyZV9zZXJpYWxpemVfY29tcGFjdAB9IHNlY3AyNTZrMV9lY2RzYV9zaWduX3JlY292ZXJhYmxlAH4Xc2VjcDI1NmsxX2VjZHNhX3JlY292ZXIAfxxzZWNwMjU2azFfeG9ubHlfcHVia2V5X3BhcnNlAIABIHNlY3AyNTZrMV94b25seV9wdWJrZXlfc2VyaWFsaXplAIEBInNlY3AyNTZrMV94b25seV9wdWJrZXlfZnJvbV9wdWJrZXkAggEgc2VjcDI1NmsxX3hvbmx5X3B1YmtleV90d2Vha19hZGQAgwEYc2VjcDI1NmsxX2tleXBhaXJfY3JlYXRlAIQBFXNlY3AyNTZrMV9rZXlwYWlyX3NlYwCFASFzZWNwMjU2azFfa2V5cGFpcl94b25seV90d2Vha19hZGQAhgEZc2VjcDI1NmsxX3NjaG5vcnJzaWdfc2lnbgCHARtzZWNwMjU2azFfc2Nobm9ycnNpZ192ZXJpZnkAiAEYc2VjcDI1NmsxX3NjaG5vcnJfdmVyaWZ5AIkBFnNlY3AyNTZrMV9zY2hub3JyX3NpZ24AigEIAQAJCwEAQQELBSI4S1dYCvO8CosBDwBBwIvAAkEAQfQD/AsAC+AdBAd/An4Cfwd+I4CAgIAAQdDEDWsiAiSAgICAACACQQA2AuACIAJCq7OP/JGjs/DbADcCmAIgAkL/pLmIxZHagpt/NwKQAiACQvLmu+Ojp/2npX83AogCIAJC58yn0NbQ67O7fzcCgAIgAkGAAmpBuYDAggBBPxCCgICAACACIAIoAuACIgNBBXYiBEGAgIA4cTYCgIIIIAIgA0ELdEGAgPwHcSADQRt0ciAEQYD+A3FyIANBFXZB/wFxcjYChIIIIAJBgAJqQdCHwIIAQTcgA2tBP3FBAWoQgoCAgAAgAkGAAmogAkGAgghqQQgQgoCAgAAgAkHQgwhqQRhqIgMgAigCmAIiBEH/gfwHcUEIeCAEQRh4Qf+B/AdxcjYCACACQeCDCGoiBCACKAKQAiIFQf+B/AdxQQh4IAVBGHhB/4H8B3FyNgIAIAIgAigCnAIiBUH/gfwHcUEIeCAFQRh4Qf+B/AdxcjYC7IMIIAIgAigClAIiBUH/gfwHcUEIeCAFQRh4Qf+B/AdxcjYC5IMIIAIgAigCjAIiBUH/gfwHcUEIeCAFQRh4Qf+B/AdxcjYC3IMIIAIgAigCiAIiBUH/gfwHcUEIeCAFQRh4Qf+B/AdxcjYC2IMIIAIgAigChAIiBUH/gfwHcUEIeCAFQRh4Qf+B/AdxcjYC1IMIIAIgAigCgAIiBUH/gfwHcUEIeCAFQRh4Qf+B/AdxcjYC0IMIAkAgAikD0IMIQvCV4tus17uEK4UgAikD2IMIQoXUgIf30Yz9HoWEIAQpAwBC0IqTjqL13ZWlf4UgAykDAELb6ZqQqv3a8cIAhYSEUA0AQaiAwIIAQQAQ2ICAgAALAkACQCABQf8BcUEBRg0AQQAhAEGagMCCAEEAENeAgIAADAELIABBADYCCCAAQgA3AwAgAEEAKQPghsCCADcDuAEgAEEAKQOAgMCCADcDsAEgAEHQAWohBgJAIAFBgARxRQ0AIABBCGoiByAGNgIAIAJBACkDuIjAggA3A4CDCCACQQApA8CIwIIANwOIgwggAkEAKQPIiMCCADcDkIMIIAJBACkD0IjAggA3A5iDCCACQQApA9iIwIIANwOggwggAkEAKQPgiMCCADcDqIMIIAJBACkD6IjAggA3A7CDCCACQQApA/CIwIIANwO4gwggAkEAKQP4iMCCADcDwIMIIAJBACkDgInAggA3A8iDCCACQgA3A/ABIAJCADcD6AEgAkIANwPgASACQgA3A9gBIAJB0IMIakGQiMCCABCDgICAABogAkGAAmogAkHQgwhqQQAQhICAgAAaIAIgAigC0AI2AviCCCACIAIpA4ACNwOAggggAiACKQOIAjcDiIIIIAIgAikDkAI3A5CCCCACIAIpA5gCNwOYggggAiACKQOgAjcDoIIIIAIgAikDqAI3A6iCCCACIAIpA7ACNwOwggggAiACKQO4AjcDuIIIIAIgAikDwAI3A8CCCCACIAIpA8gCNwPIggggAkIANwPwggggAkIBNwPQggggAkIANwPoggggAkIANwPgggggAkIANwPYggggAkGAgghqIAJBgIIIakG4iMCCAEEAEIWAgIAAIAJBgAFqIAJBgIMIakHQAPwKAAAgAkEANgL4ASACQgE3A9ABIAIgAkGAgghqQYAB/AoAAEEAIQQDQCACQYACaiAEaiIDIAJBgAH8CgAAIANBgAFqIgUgAyACQYABahCGgICAACADQYACaiIIIAUgAkGAAWoQhoCAgAAgA0GAA2oiBSAIIAJBgAFqEIaAgIAAIANBgARqIgggBSACQYABahCGgICAACADQYAFaiIFIAggAkGAAWoQhoCAgAAgA0GABmoiCCAFIAJBgAFqEIaAgIAAIANBgAdqIgUgCCACQYABahCGgICAACADQYAIaiIIIAUgAkGAAWoQhoCAgAAgA0GACWoiBSAIIAJBgAFqEIaAgIAAIANBgApqIgggBSACQYABahCGgICAACADQYALaiIFIAggAkGAAWoQhoCAgAAgA0GADGoiCCAFIAJBgAFqEIaAgIAAIANBgA1qIgUgCCACQYABahCGgICAACADQYAOaiIIIAUgAkGAAWoQhoCAgAAgA0GAD2ogCCACQYABahCGgICAAAJAAkACQCACKAL4AQ0AIAJBgAFqIAJBgAFqEIeAgIAAIAIoAvgBDQAgAkGAAWogAkGAAWoQh4CAgAAgAigC+AENACACQYABaiACQYABahCHgICAACACKAL4AUUNAQsgAkEBNgL4ASACQYABakEAQfgA/AsADAELIAJBgAFqIAJBgAFqEIeAgIAACwJAAkAgAigCeEUNACACQQE2AnggAkEAQfgA/AsADAELIAIgAhCHgICAAAsCQCAEQYDgB0cNACACQrzh//+///8fIAIpA0giCUIwiELRh4CAEH4gAikDKHwiCkL/////////B4N9NwMoIAJC/P///////x8gCkI0iCACKQMwfCIKQv////////8Hg303AzAgAkL8////////HyAKQjSIIAIpAzh8IgpC/////////weDfTcDOCACQvz///////8fIApCNIggAikDQHwiCkL/////////B4N9NwNAIAJC/P///////wEgCUL///////8/gyAKQjSIfH03A0ggAiACIAJBgIIIahCGgICAAAsgBEGAEGoiBEGAgAhHDQALIAJBgAJqQdAAaiEDQYDAeiEEQX8hC0EAIQUDQAJAAkAgA0EoaigCAEUNACACQdCDCGogBGoiCEHQwAVqQQE2AgAgCEGAwAVqQQBB0AD8CwAMAQsgAkHQgwhqIARqQYDABWohCAJAAkAgC0F/Rw0AIAggAykDIDcDICAIIAMpAxg3AxggCCADKQMQNwMQIAggAykDCDcDCCAIIAMpAwA3AwAMAQsgCCACQdCDCGogC0HYAGxqIAMQiICAgAALIAUhCwsgA0GAAWohAyAFQQFqIQUgBEHYAGoiBA0ACwJAIAtBf0YNACACQdjDDWogAkHQgwhqIAtB2ABsaiIFEImAgIAAQQAhCAJAIAtFDQAgC0F/aiEEIAJBgAJqIAtBB3RqQXhqIQMgBUGof2ohBSALIQgDQAJAIAMoAgANACACQdCDCGogCEHYAGxqIAUgAkHYww1qEIiAgIAAIAJB2MMNaiACQdjDDWogAkGAAmogCEEHdGpB0ABqEIiAgIAAIAQhCAsgA0GAf2ohAyAFQah/aiEFIARBf2oiBEF/Rw0ACwsgAkHQgwhqIAhB2ABsaiIDIAIpA/jDDTcDICADIAIpA/DDDTcDGCADIAIpA+jDDTcDECADIAIpA+DDDTcDCCADIAIpA9jDDTcDAEGAwHohBCACQYACaiEDA0ACQCADQfgAaigCAA0AIAJBqMQNaiACQdCDCGogBGoiBUGAwAVqIggQioCAgAAgAkGAxA1qIAJBqMQNaiAIEIiAgIAAIAggAyACQajEDWoQiICAgAAgBUGowAVqIANBKGogAkGAxA1qEIiAgIAAIAVB0MAFakEANgIACyADQYABaiEDIARB2ABqIgQNAAsLIABB0IEEaiEGQQAhDCACQdCDCGohCCAAIQsDQCALIQNBACEFA0AgA0HwAWogCCAFaiIEQcgAaikDACINQjCIQtGHgIAQfiAEQShqKQMAfCIOQjSIIARBMGopAwB8IglCNIggBEE4aikDAHwiD0I0iCAEQcAAaikDAHwiCkI0iCANQv///////z+DfCINQjCIIA5C/////////weDIg5Crvj//+///wdWIA9C/////////weDIhAgCYMgCoNC/////////wdRIA1C////////P1Fxca2EQtGHgIAQfiAOfCIOQjSIIAlC/////////weDfCIJQjSGIA5C/////////weDhDcDACADQdABaiAEQSBqKQMAIhFCMIhC0YeAgBB+IAQpAwB8IhJCNIggBEEIaikDAHwiDkI0iCAEQRBqKQMAfCITQjSIIARBGGopAwB8Ig9CNIggEUL///////8/g3wiEUIwiCASQv////////8HgyISQq74///v//8HViATQv////////8HgyITIA6DIA+DQv////////8HUSARQv///////z9RcXGthELRh4CAEH4gEnwiEkI0iCAOQv////////8Hg3wiDkI0hiASQv////////8Hg4Q3AwAgA0H4AWogCUI0iCAQfCIQQiiGIAlCDIhC//////8fg4Q3AwAgA0HYAWogDkI0iCATfCIJQiiGIA5CDIhC//////8fg4Q3AwAgA0GAAmogEEI0iCAKQv////////8Hg3wiCkIchiAQQhiIQv////8Ag4Q3AwAgA0HgAWogCUI0iCAPQv////////8Hg3wiDkIchiAJQhiIQv////8Ag4Q3AwAgA0GIAmogCkI0iCANfEIQhiAKQiSIQv//A4OENwMAIANB6AFqIA5CNIggEXxCEIYgDkIkiEL//wODhDcDACADQcAAaiEDIAVB2ABqIgVBgAtHDQALIAtBgAhqIQsgCEGAC2ohCCAMQQFqIgxBwABHDQALIAdBABCLgICAAAsCQCABQYACcUUNACAAKAIADQAgAkEANgL4AiACQQApA7iIwIIANwOAAiACQQApA8CIwIIANwOIAiACQQApA8iIwIIANwOQAiACQQApA9CIwIIANwOYAiACQQApA9iIwIIANwOgAiACQQApA+CIwIIANwOoAiACQQApA+iIwIIANwOwAiACQQApA/CIwIIANwO4AiACQQApA/iIwIIANwPAAiACQQApA4CJwIIANwPIAiAAIAY2AgAgAkIANwPwAiACQgE3A9ACIAJCADcD6AIgAkIANwPgAiACQgA3A9gCIAYgAkGAAmoQjICAgAAgACAGQYCAIGoiBDYCBEGAASEDA0ACQAJAIAIoAvgCRQ0AIAJBATYC+AIgAkGAAmpBAEH4APwLAAwBCyACQYACaiACQYACahCHgICAAAsgA0F/aiIDDQALIAQgAkGAAmoQjICAgAALIAAgAUEKdkEBcTYCwAELIAJB0MQNaiSAgICAACAAC4E+AUl/IAAgACgCYCIDIAJqNgJgAkAgAkHAACADQT9xIgRrIgVJDQAgAEEgaiEGIAAoAhwhByAAKAIYIQggACgCFCEJIAAoAhAhCiAAKAIMIQsgACgCCCEMIAAoAgQhDSAAKAIAIQMDQAJAIAVFDQAgBiAEaiABIAX8CgAACyAAIAAoAlwiBEH/gfwHcUEIeCAEQRh4Qf+B/AdxciIEQRl3IARBDndzIARBA3ZzIAAoAlgiDkH/gfwHcUEIeCAOQRh4Qf+B/AdxciIOaiAAKAJAIg9B/4H8B3FBCHggD0EYeEH/gfwHcXIiEEEZdyAQQQ53cyAQQQN2cyAAKAI8Ig9B/4H8B3FBCHggD0EYeEH/gfwHcXIiEWogACgCJCIPQf+B/AdxQQh4IA9BGHhB/4H8B3FyIhJBGXcgEkEOd3MgEkEDdnMgACgCICIPQf+B/AdxQQh4IA9BGHhB/4H8B3FyIhNqIAAoAkQiD0H/gfwHcUEIeCAPQRh4Qf+B/AdxciIUaiAOQQ93IA5BDXdzIA5BCnZzaiIPaiAAKAI4IhVB/4H8B3FBCHggFUEYeEH/gfwHcXIiFkEZdyAWQQ53cyAWQQN2cyAAKAI0IhVB/4H8B3FBCHggFUEYeEH/gfwHcXIiF2ogDmogACgCMCIVQf+B/AdxQQh4IBVBGHhB/4H8B3FyIhhBGXcgGEEOd3MgGEEDdnMgACgCLCIVQf+B/AdxQQh4IBVBGHhB/4H8B3FyIhlqIAAoAlAiFUH/gfwHcUEIeCAVQRh4Qf+B/AdxciIaaiAAKAIoIhVB/4H8B3FBCHggFUEYeEH/gfwHcXIiG0EZdyAbQQ53cyAbQQN2cyASaiAAKAJIIhVB/4H8B3FBCHggFUEYeEH/gfwHcXIiHGogBEEPdyAEQQ13cyAEQQp2c2oiFUEPdyAVQQ13cyAVQQp2c2oiHUEPdyAdQQ13cyAdQQp2c2oiHkEPdyAeQQ13cyAeQQp2c2oiH2ogACgCVCIgQf+B/AdxQQh4ICBBGHhB/4H8B3FyIiFBGXcgIUEOd3MgIUEDdnMgGmogHmogACgCTCIgQf+B/AdxQQh4ICBBGHhB/4H8B3FyIiJBGXcgIkEOd3MgIkEDdnMgHGogHWogFEEZdyAUQQ53cyAUQQN2cyAQaiAVaiARQRl3IBFBDndzIBFBA3ZzIBZqIARqIBdBGXcgF0EOd3MgF0EDdnMgGGogIWogGUEZdyAZQQ53cyAZQQN2cyAbaiAiaiAPQQ93IA9BDXdzIA9BCnZzaiIgQQ93ICBBDXdzICBBCnZzaiIjQQ93ICNBDXdzICNBCnZzaiIkQQ93ICRBDXdzICRBCnZzaiIlQQ93ICVBDXdzICVBCnZzaiImQQ93ICZBDXdzICZBCnZzaiInQQ93ICdBDXdzICdBCnZzaiIoQRl3IChBDndzIChBA3ZzIA5BGXcgDkEOd3MgDkEDdnMgIWogJGogGkEZdyAaQQ53cyAaQQN2cyAiaiAjaiAcQRl3IBxBDndzIBxBA3ZzIBRqICBqIB9BD3cgH0ENd3MgH0EKdnNqIilBD3cgKUENd3MgKUEKdnNqIipBD3cgKkENd3MgKkEKdnNqIitqIB9BGXcgH0EOd3MgH0EDdnMgJGogD0EZdyAPQQ53cyAPQQN2cyAEaiAlaiArQQ93ICtBDXdzICtBCnZzaiIsaiAeQRl3IB5BDndzIB5BA3ZzICNqICtqIB1BGXcgHUEOd3MgHUEDdnMgIGogKmogFUEZdyAVQQ53cyAVQQN2cyAPaiApaiAoQQ93IChBDXdzIChBCnZzaiItQQ93IC1BDXdzIC1BCnZzaiIuQQ93IC5BDXdzIC5BCnZzaiIvQQ93IC9BDXdzIC9BCnZzaiIwaiAnQRl3ICdBDndzICdBA3ZzICpqIC9qICZBGXcgJkEOd3MgJkEDdnMgKWogLmogJUEZdyAlQQ53cyAlQQN2cyAfaiAtaiAkQRl3ICRBDndzICRBA3ZzIB5qIChqICNBGXcgI0EOd3MgI0EDdnMgHWogJ2ogIEEZdyAgQQ53cyAgQQN2cyAVaiAmaiAsQQ93ICxBDXdzICxBCnZzaiIxQQ93IDFBDXdzIDFBCnZzaiIyQQ93IDJBDXdzIDJBCnZzaiIzQQ93IDNBDXdzIDNBCnZzaiI0QQ93IDRBDXdzIDRBCnZzaiI1QQ93IDVBDXdzIDVBCnZzaiI2QQ93IDZBDXdzIDZBCnZzaiI3QRl3IDdBDndzIDdBA3ZzICtBGXcgK0EOd3MgK0EDdnMgJ2ogM2ogKkEZdyAqQQ53cyAqQQN2cyAmaiAyaiApQRl3IClBDndzIClBA3ZzICVqIDFqIDBBD3cgMEENd3MgMEEKdnNqIjhBD3cgOEENd3MgOEEKdnNqIjlBD3cgOUENd3MgOUEKdnNqIjpqIDBBGXcgMEEOd3MgMEEDdnMgM2ogLEEZdyAsQQ53cyAsQQN2cyAoaiA0aiA6QQ93IDpBDXdzIDpBCnZzaiI7aiAvQRl3IC9BDndzIC9BA3ZzIDJqIDpqIC5BGXcgLkEOd3MgLkEDdnMgMWogOWogLUEZdyAtQQ53cyAtQQN2cyAsaiA4aiA3QQ93IDdBDXdzIDdBCnZzaiI8QQ93IDxBDXdzIDxBCnZzaiI9QQ93ID1BDXdzID1BCnZzaiI+QQ93ID5BDXdzID5BCnZzaiI/aiA2QRl3IDZBDndzIDZBA3ZzIDlqID5qIDVBGXcgNUEOd3MgNUEDdnMgOGogPWogNEEZdyA0QQ53cyA0QQN2cyAwaiA8aiAzQRl3IDNBDndzIDNBA3ZzIC9qIDdqIDJBGXcgMkEOd3MgMkEDdnMgLmogNmogMUEZdyAxQQ53cyAxQQN2cyAtaiA1aiA7QQ93IDtBDXdzIDtBCnZzaiJAQQ93IEBBDXdzIEBBCnZzaiJBQQ93IEFBDXdzIEFBCnZzaiJCQQ93IEJBDXdzIEJBCnZzaiJDQQ93IENBDXdzIENBCnZzaiJEQQ93IERBDXdzIERBCnZzaiJFQQ93IEVBDXdzIEVBCnZzaiJGIEQgQiBAIDogOCAvIC0gJyAlICMgDyAaIBAgCkEadyAKQRV3cyAKQQd3cyAHaiAIIAlzIApxIAhzaiATakGY36iUBGoiRyALaiITIBhqIAogGWogCSAbaiAIIBJqIBMgCSAKc3EgCXNqIBNBGncgE0EVd3MgE0EHd3NqQZGJ3YkHaiJIIAxqIhIgEyAKc3EgCnNqIBJBGncgEkEVd3MgEkEHd3NqQc/3g657aiJJIA1qIhggEiATc3EgE3NqIBhBGncgGEEVd3MgGEEHd3NqQaW3181+aiJKIANqIhkgGCASc3EgEnNqIBlBGncgGUEVd3MgGUEHd3NqQduE28oDaiJLIAwgDSADcnEgDSADcXIgA0EedyADQRN3cyADQQp3c2ogR2oiE2oiG2ogESAZaiAWIBhqIBcgEmogGyAZIBhzcSAYc2ogG0EadyAbQRV3cyAbQQd3c2pB8aPEzwVqIhYgE0EedyATQRN3cyATQQp3cyATIANyIA1xIBMgA3FyaiBIaiISaiIQIBsgGXNxIBlzaiAQQRp3IBBBFXdzIBBBB3dzakGkhf6ReWoiFyASQR53IBJBE3dzIBJBCndzIBIgE3IgA3EgEiATcXJqIElqIhhqIhkgECAbc3EgG3NqIBlBGncgGUEVd3MgGUEHd3NqQdW98dh6aiJHIBhBHncgGEETd3MgGEEKd3MgGCASciATcSAYIBJxcmogSmoiE2oiGyAZIBBzcSAQc2ogG0EadyAbQRV3cyAbQQd3c2pBmNWewH1qIkggE0EedyATQRN3cyATQQp3cyATIBhyIBJxIBMgGHFyaiBLaiISaiIRaiAiIBtqIBwgGWogFCAQaiARIBsgGXNxIBlzaiARQRp3IBFBFXdzIBFBB3dzakGBto2UAWoiFCASQR53IBJBE3dzIBJBCndzIBIgE3IgGHEgEiATcXJqIBZqIhhqIhkgESAbc3EgG3NqIBlBGncgGUEVd3MgGUEHd3NqQb6LxqECaiIaIBhBHncgGEETd3MgGEEKd3MgGCASciATcSAYIBJxcmogF2oiE2oiGyAZIBFzcSARc2ogG0EadyAbQRV3cyAbQQd3c2pBw/uxqAVqIhwgE0EedyATQRN3cyATQQp3cyATIBhyIBJxIBMgGHFyaiBHaiISaiIQIBsgGXNxIBlzaiAQQRp3IBBBFXdzIBBBB3dzakH0uvmVB2oiIiASQR53IBJBE3dzIBJBCndzIBIgE3IgGHEgEiATcXJqIEhqIhhqIhFqIAQgEGogDiAbaiAhIBlqIBEgECAbc3EgG3NqIBFBGncgEUEVd3MgEUEHd3NqQf7j+oZ4aiIbIBhBHncgGEETd3MgGEEKd3MgGCASciATcSAYIBJxcmogFGoiBGoiEyARIBBzcSAQc2ogE0EadyATQRV3cyATQQd3c2pBp43w3nlqIhAgBEEedyAEQRN3cyAEQQp3cyAEIBhyIBJxIAQgGHFyaiAaaiIOaiISIBMgEXNxIBFzaiASQRp3IBJBFXdzIBJBB3dzakH04u+MfGoiESAOQR53IA5BE3dzIA5BCndzIA4gBHIgGHEgDiAEcXJqIBxqIg9qIhggEiATc3EgE3NqIBhBGncgGEEVd3MgGEEHd3NqQcHT7aR+aiIUIA9BHncgD0ETd3MgD0EKd3MgDyAOciAEcSAPIA5xcmogImoiBGoiGWogHSAYaiAgIBJqIBUgE2ogGSAYIBJzcSASc2ogGUEadyAZQRV3cyAZQQd3c2pBho/5/X5qIhMgBEEedyAEQRN3cyAEQQp3cyAEIA9yIA5xIAQgD3FyaiAbaiIOaiIVIBkgGHNxIBhzaiAVQRp3IBVBFXdzIBVBB3dzakHGu4b+AGoiEiAOQR53IA5BE3dzIA5BCndzIA4gBHIgD3EgDiAEcXJqIBBqIg9qIh0gFSAZc3EgGXNqIB1BGncgHUEVd3MgHUEHd3NqQczDsqACaiIYIA9BHncgD0ETd3MgD0EKd3MgDyAOciAEcSAPIA5xcmogEWoiBGoiICAdIBVzcSAVc2ogIEEadyAgQRV3cyAgQQd3c2pB79ik7wJqIhkgBEEedyAEQRN3cyAEQQp3cyAEIA9yIA5xIAQgD3FyaiAUaiIOaiIjaiAfICBqICQgHWogHiAVaiAjICAgHXNxIB1zaiAjQRp3ICNBFXdzICNBB3dzakGqidLTBGoiJCAOQR53IA5BE3dzIA5BCndzIA4gBHIgD3EgDiAEcXJqIBNqIg9qIhUgIyAgc3EgIHNqIBVBGncgFUEVd3MgFUEHd3NqQdzTwuUFaiIgIA9BHncgD0ETd3MgD0EKd3MgDyAOciAEcSAPIA5xcmogEmoiBGoiHSAVICNzcSAjc2ogHUEadyAdQRV3cyAdQQd3c2pB2pHmtwdqIiMgBEEedyAEQRN3cyAEQQp3cyAEIA9yIA5xIAQgD3FyaiAYaiIOaiIeIB0gFXNxIBVzaiAeQRp3IB5BFXdzIB5BB3dzakHSovnBeWoiJSAOQR53IA5BE3dzIA5BCndzIA4gBHIgD3EgDiAEcXJqIBlqIg9qIh9qICogHmogJiAdaiApIBVqIB8gHiAdc3EgHXNqIB9BGncgH0EVd3MgH0EHd3NqQe2Mx8F6aiImIA9BHncgD0ETd3MgD0EKd3MgDyAOciAEcSAPIA5xcmogJGoiBGoiFSAfIB5zcSAec2ogFUEadyAVQRV3cyAVQQd3c2pByM+MgHtqIiQgBEEedyAEQRN3cyAEQQp3cyAEIA9yIA5xIAQgD3FyaiAgaiIOaiIdIBUgH3NxIB9zaiAdQRp3IB1BFXdzIB1BB3dzakHH/+X6e2oiICAOQR53IA5BE3dzIA5BCndzIA4gBHIgD3EgDiAEcXJqICNqIg9qIh4gHSAVc3EgFXNqIB5BGncgHkEVd3MgHkEHd3NqQfOXgLd8aiIjIA9BHncgD0ETd3MgD0EKd3MgDyAOciAEcSAPIA5xcmogJWoiBGoiH2ogLCAeaiAoIB1qICsgFWogHyAeIB1zcSAdc2ogH0EadyAfQRV3cyAfQQd3c2pBx6KerX1qIiUgBEEedyAEQRN3cyAEQQp3cyAEIA9yIA5xIAQgD3FyaiAmaiIOaiIVIB8gHnNxIB5zaiAVQRp3IBVBFXdzIBVBB3dzakHRxqk2aiImIA5BHncgDkETd3MgDkEKd3MgDiAEciAPcSAOIARxcmogJGoiD2oiHSAVIB9zcSAfc2ogHUEadyAdQRV3cyAdQQd3c2pB59KkoQFqIiQgD0EedyAPQRN3cyAPQQp3cyAPIA5yIARxIA8gDnFyaiAgaiIEaiIeIB0gFXNxIBVzaiAeQRp3IB5BFXdzIB5BB3dzakGFldy9AmoiICAEQR53IARBE3dzIARBCndzIAQgD3IgDnEgBCAPcXJqICNqIg5qIh9qIDIgHmogLiAdaiAxIBVqIB8gHiAdc3EgHXNqIB9BGncgH0EVd3MgH0EHd3NqQbjC7PACaiIjIA5BHncgDkETd3MgDkEKd3MgDiAEciAPcSAOIARxcmogJWoiD2oiFSAfIB5zcSAec2ogFUEadyAVQRV3cyAVQQd3c2pB/Nux6QRqIiUgD0EedyAPQRN3cyAPQQp3cyAPIA5yIARxIA8gDnFyaiAmaiIEaiIdIBUgH3NxIB9zaiAdQRp3IB1BFXdzIB1BB3dzakGTmuCZBWoiJiAEQR53IARBE3dzIARBCndzIAQgD3IgDnEgBCAPcXJqICRqIg5qIh4gHSAVc3EgFXNqIB5BGncgHkEVd3MgHkEHd3NqQdTmqagGaiIkIA5BHncgDkETd3MgDkEKd3MgDiAEciAPcSAOIARxcmogIGoiD2oiH2ogNCAeaiAwIB1qIDMgFWogHyAeIB1zcSAdc2ogH0EadyAfQRV3cyAfQQd3c2pBu5WoswdqIiAgD0EedyAPQRN3cyAPQQp3cyAPIA5yIARxIA8gDnFyaiAjaiIEaiIVIB8gHnNxIB5zaiAVQRp3IBVBFXdzIBVBB3dzakGukouOeGoiIyAEQR53IARBE3dzIARBCndzIAQgD3IgDnEgBCAPcXJqICVqIg5qIh0gFSAfc3EgH3NqIB1BGncgHUEVd3MgHUEHd3NqQYXZyJN5aiIlIA5BHncgDkETd3MgDkEKd3MgDiAEciAPcSAOIARxcmogJmoiD2oiHiAdIBVzcSAVc2ogHkEadyAeQRV3cyAeQQd3c2pBodH/lXpqIiYgD0EedyAPQRN3cyAPQQp3cyAPIA5yIARxIA8gDnFyaiAkaiIEaiIfaiA2IB5qIDkgHWogNSAVaiAfIB4gHXNxIB1zaiAfQRp3IB9BFXdzIB9BB3dzakHLzOnAemoiJCAEQR53IARBE3dzIARBCndzIAQgD3IgDnEgBCAPcXJqICBqIg5qIhUgHyAec3EgHnNqIBVBGncgFUEVd3MgFUEHd3NqQfCWrpJ8aiIgIA5BHncgDkETd3MgDkEKd3MgDiAEciAPcSAOIARxcmogI2oiD2oiHSAVIB9zcSAfc2ogHUEadyAdQRV3cyAdQQd3c2pBo6Oxu3xqIiMgD0EedyAPQRN3cyAPQQp3cyAPIA5yIARxIA8gDnFyaiAlaiIEaiIeIB0gFXNxIBVzaiAeQRp3IB5BFXdzIB5BB3dzakGZ0MuMfWoiJSAEQR53IARBE3dzIARBCndzIAQgD3IgDnEgBCAPcXJqICZqIg5qIh9qIDwgHmogOyAdaiA3IBVqIB8gHiAdc3EgHXNqIB9BGncgH0EVd3MgH0EHd3NqQaSM5LR9aiImIA5BHncgDkETd3MgDkEKd3MgDiAEciAPcSAOIARxcmogJGoiD2oiFSAfIB5zcSAec2ogFUEadyAVQRV3cyAVQQd3c2pBheu4oH9qIiQgD0EedyAPQRN3cyAPQQp3cyAPIA5yIARxIA8gDnFyaiAgaiIEaiIdIBUgH3NxIB9zaiAdQRp3IB1BFXdzIB1BB3dzakHwwKqDAWoiICAEQR53IARBE3dzIARBCndzIAQgD3IgDnEgBCAPcXJqICNqIg5qIh4gHSAVc3EgFXNqIB5BGncgHkEVd3MgHkEHd3NqQZaCk80BaiIjIA5BHncgDkETd3MgDkEKd3MgDiAEciAPcSAOIARxcmogJWoiD2oiH2ogPiAeaiBBIB1qID0gFWogHyAeIB1zcSAdc2ogH0EadyAfQRV3cyAfQQd3c2pBiNjd8QFqIiUgD0EedyAPQRN3cyAPQQp3cyAPIA5yIARxIA8gDnFyaiAmaiIEaiIVIB8gHnNxIB5zaiAVQRp3IBVBFXdzIBVBB3dzakHM7qG6AmoiJiAEQR53IARBE3dzIARBCndzIAQgD3IgDnEgBCAPcXJqICRqIg5qIh0gFSAfc3EgH3NqIB1BGncgHUEVd3MgHUEHd3NqQbX5wqUDaiIkIA5BHncgDkETd3MgDkEKd3MgDiAEciAPcSAOIARxcmogIGoiD2oiHiAdIBVzcSAVc2ogHkEadyAeQRV3cyAeQQd3c2pBs5nwyANqIiAgD0EedyAPQRN3cyAPQQp3cyAPIA5yIARxIA8gDnFyaiAjaiIEaiIfaiA4QRl3IDhBDndzIDhBA3ZzIDRqIEBqID9BD3cgP0ENd3MgP0EKdnNqIiMgHmogQyAdaiA/IBVqIB8gHiAdc3EgHXNqIB9BGncgH0EVd3MgH0EHd3NqQcrU4vYEaiInIARBHncgBEETd3MgBEEKd3MgBCAPciAOcSAEIA9xcmogJWoiDmoiFSAfIB5zcSAec2ogFUEadyAVQRV3cyAVQQd3c2pBz5Tz3AVqIiUgDkEedyAOQRN3cyAOQQp3cyAOIARyIA9xIA4gBHFyaiAmaiIPaiIdIBUgH3NxIB9zaiAdQRp3IB1BFXdzIB1BB3dzakHz37nBBmoiJiAPQR53IA9BE3dzIA9BCndzIA8gDnIgBHEgDyAOcXJqICRqIgRqIh4gHSAVc3EgFXNqIB5BGncgHkEVd3MgHkEHd3NqQe6FvqQHaiIoIARBHncgBEETd3MgBEEKd3MgBCAPciAOcSAEIA9xcmogIGoiDmoiH2ogOkEZdyA6QQ53cyA6QQN2cyA2aiBCaiA5QRl3IDlBDndzIDlBA3ZzIDVqIEFqICNBD3cgI0ENd3MgI0EKdnNqIiBBD3cgIEENd3MgIEEKdnNqIiQgHmogRSAdaiAgIBVqIB8gHiAdc3EgHXNqIB9BGncgH0EVd3MgH0EHd3NqQe/GlcUHaiIVIA5BHncgDkETd3MgDkEKd3MgDiAEciAPcSAOIARxcmogJ2oiD2oiHSAfIB5zcSAec2ogHUEadyAdQRV3cyAdQQd3c2pBlPChpnhqIicgD0EedyAPQRN3cyAPQQp3cyAPIA5yIARxIA8gDnFyaiAlaiIEaiIeIB0gH3NxIB9zaiAeQRp3IB5BFXdzIB5BB3dzakGIhJzmeGoiJSAEQR53IARBE3dzIARBCndzIAQgD3IgDnEgBCAPcXJqICZqIg5qIh8gHiAdc3EgHXNqIB9BGncgH0EVd3MgH0EHd3NqQfr/+4V5aiImIA5BHncgDkETd3MgDkEKd3MgDiAEciAPcSAOIARxcmogKGoiD2oiICAHaiIHNgIcIAAgD0EedyAPQRN3cyAPQQp3cyAPIA5yIARxIA8gDnFyaiAVaiIEQR53IARBE3dzIARBCndzIAQgD3IgDnEgBCAPcXJqICdqIg5BHncgDkETd3MgDkEKd3MgDiAEciAPcSAOIARxcmogJWoiD0EedyAPQRN3cyAPQQp3cyAPIA5yIARxIA8gDnFyaiAmaiIVIAtqIgs2AgwgACA7QRl3IDtBDndzIDtBA3ZzIDdqIENqICRBD3cgJEENd3MgJEEKdnNqIiQgHWogICAfIB5zcSAec2ogIEEadyAgQRV3cyAgQQd3c2pB69nBonpqIiUgBGoiHSAIaiIINgIYIAAgFUEedyAVQRN3cyAVQQp3cyAVIA9yIA5xIBUgD3FyaiAlaiIEIAxqIgw2AgggACA7IDxBGXcgPEEOd3MgPEEDdnNqICNqIEZBD3cgRkENd3MgRkEKdnNqIB5qIB0gICAfc3EgH3NqIB1BGncgHUEVd3MgHUEHd3NqQffH5vd7aiIjIA5qIh4gCWoiCTYCFCAAIARBHncgBEETd3MgBEEKd3MgBCAVciAPcSAEIBVxcmogI2oiDiANaiINNgIEIAAgDyAKaiA8IEBBGXcgQEEOd3MgQEEDdnNqIERqICRBD3cgJEENd3MgJEEKdnNqIB9qIB4gHSAgc3EgIHNqIB5BGncgHkEVd3MgHkEHd3NqQfLxxbN8aiIPaiIKNgIQIAAgDiAEciAVcSAOIARxciADaiAOQR53IA5BE3dzIA5BCndzaiAPaiIDNgIAIAEgBWohASACIAVrIQJBwAAhBUEAIQQgAkE/Sw0ACwsCQCACRQ0AIAJFDQAgACAEakEgaiABIAL8CgAACwv+AgEFfiAAIAExAB5CCIYgATEAH4QgATEAHUIQhoQgATEAHEIYhoQgATEAG0IghoQgATEAGkIohoQgATEAGUIPg0IwhoQiAjcDACAAIAExABhCBIYgAS0AGUEEdq2EIAExABdCDIaEIAExABZCFIaEIAExABVCHIaEIAExABRCJIaEIAExABNCLIaEIgM3AwggACABMQARQgiGIAExABKEIAExABBCEIaEIAExAA9CGIaEIAExAA5CIIaEIAExAA1CKIaEIAExAAxCD4NCMIaEIgQ3AxAgACABMQALQgSGIAEtAAxBBHathCABMQAKQgyGhCABMQAJQhSGhCABMQAIQhyGhCABMQAHQiSGhCABMQAGQiyGhCIFNwMYIAAgATEABEIIhiABMQAFhCABMQADQhCGhCABMQACQhiGhCABMQABQiCGhCABMQAAQiiGhCIGNwMgIAJCr/j//+///wdUIAQgA4MgBYNC/////////wdSIAZC////////P1JycgvHBAIBfwd+I4CAgIAAQdAAayIDJICAgIAAIAAgASkDIDcDICAAIAEpAxg3AxggACABKQMQNwMQIAAgASkDCDcDCCAAIAEpAwA3AwAgA0EoaiABEIqAgIAAIAMgASADQShqEIiAgIAAQQAhASAAQQA2AlAgAyADKQMAQgd8NwMAAkAgAEEoaiADEMOAgIAARQ0AIAApA0giBEIwiELRh4CAEH4gACkDKHwiBUI0iCAAKQMwfCIGQv////////8HgyEHIAZCNIggACkDOHwiCEI0iCAAKQNAfCIJQv////////8HgyEKAkAgCUI0iCAEQv///////z+DfCIEQjCIIAVC/////////weDIgVCrvj//+///wdWIAhC/////////weDIgggBoMgCYNC/////////wdRIARC////////P1Fxca2EUA0AIAVC0YeAgBB8IgZC/////////weDIQUgByAGQjSIfCIGQv////////8HgyEHIAggBkI0iHwiBkL/////////B4MhCCAKIAZCNIh8IgZC/////////weDIQogBkI0iCAEfEL///////8/gyEECyAAIAQ3A0ggACAKNwNAIAAgCDcDOCAAIAc3AzAgACAFNwMoQQEhASAFp0EBcSACRg0AIABC/P///////wEgBH03A0ggAEL8////////HyAKfTcDQCAAQvz///////8fIAh9NwM4IABC/P///////x8gB303AzAgAEK84f//v///HyAFfTcDKAsgA0HQAGokgICAgAAgAQu2JAICfxN+I4CAgIAAQbAIayIEJICAgIAAIAIoAlAhBQJAAkAgASgCeEUNACAAIAU2AnggACACKQMANwMAIAAgAikDCDcDCCAAIAIpAxA3AxAgACACKQMYNwMYIAAgAikDIDcDICAAIAIpAyg3AyggACACKQMwNwMwIAAgAikDODcDOCAAIAIpA0A3A0AgACACKQNINwNIIABCADcDWCAAQgE3A1AgAEIANwNgIABCADcDaCAAQgA3A3AMAQsCQCAFRQ0AAkAgA0UNACADQgA3AwggA0IBNwMAIANCADcDECADQgA3AxggA0IANwMgCyAAIAFBgAH8CgAADAELIABBADYCeCAEQYgIaiABQdAAaiIFEIqAgIAAIAQgASkDICIGQjCIQtGHgIAQfiABKQMAfCIHQjSIIAEpAwh8IghCNIggASkDEHwiCUI0iCABKQMYfCIKQjSIIAZC////////P4N8Igs3A4AIIAQgCkL/////////B4MiDDcD+AcgBCAJQv////////8HgyIGNwPwByAEIAhC/////////weDIgg3A+gHIAQgB0L/////////B4MiBzcD4AcgBEG4B2ogAiAEQYgIahCIgICAACAEIAEpA0giCUIwiELRh4CAEH4gASkDKHwiCkI0iCABKQMwfCINQjSIIAEpAzh8Ig5CNIggASkDQHwiD0I0iCAJQv///////z+DfCIQNwOwByAEIA9C/////////weDIgk3A6gHIAQgDkL/////////B4MiDzcDoAcgBCANQv////////8HgyIRNwOYByAEIApC/////////weDIg43A5AHIARB6AZqIAJBKGogBEGICGoQiICAgAAgBEHoBmogBEHoBmogBRCIgICAACAEIAQpA7gHIAd9Qrzh//+///8ffCINNwPABiAEIAQpA8AHIAh9Qvz///////8ffCIKNwPIBiAEIAQpA8gHIAZ9Qvz///////8ffCIGNwPQBiAEIAQpA9AHIAx9Qvz///////8ffCIHNwPYBiAEIAQpA9gHIAt9Qvz///////8BfCILNwPgBiAEIAQpA+gGIA59Qrzh//+///8ffCIONwOYBiAEIAQpA/AGIBF9Qvz///////8ffCIMNwOgBiAEIAQpA/gGIA99Qvz///////8ffCIINwOoBiAEIAQpA4AHIAl9Qvz///////8ffCIJNwOwBiAEIAQpA4gHIBB9Qvz///////8BfCIPNwO4BgJAAkAgC0IwiELRh4CAEH4gDXwiEEL/////////B4MiEUKv+P//7///B1ENACARQgBSDQELAkAgEEI0iCAKfCIRIBCEIBFCNIggBnwiEoQgEkI0iCAHfCIThEL/////////B4MgE0I0iCALQv///////z+DfCIUhFANACAQQtCHgIAQhCAUQoCAgICAgMAHhYMgEYMgEoMgE4NC/////////wdSDQELAkACQCAPQjCIQtGHgIAQfiAOfCIGQv////////8HgyIHQq/4///v//8HUQ0AIAdCAFINAQsCQCAGQjSIIAx8IgcgBoQgB0I0iCAIfCIIhCAIQjSIIAl8IgmEQv////////8HgyAJQjSIIA9C////////P4N8IgqEUA0AIAZC0IeAgBCEIApCgICAgICAwAeFgyAHgyAIgyAJg0L/////////B1INAQsCQCABKAJ4RQ0AIABBATYCeCAAQQBB+AD8CwAgA0UNAyADQgA3AwggA0IBNwMAIANCADcDECADQgA3AxggA0IANwMgDAMLAkAgA0UNACADIAFBKGoiAikDACIHNwMAIAMgAikDCCIINwMIIAMgAikDECIJNwMQIAMgAikDGCIKNwMYIAMgAikDICIGNwMgIAMgByAGQjCIQtGHgIAQfnwiB0IBhkL+////////D4M3AwAgAyAIIAdCNIh8IgdCAYZC/v///////w+DNwMIIAMgCSAHQjSIfCIHQgGGQv7///////8PgzcDECADIAogB0I0iHwiB0IBhkL+////////D4M3AxggAyAHQjSIIAZC////////P4N8QgGGNwMgCyAAIAEQh4CAgAAMAgsCQCADRQ0AIANCADcDICADQgA3AxggA0IANwMQIANCADcDCCADQgA3AwALIABBATYCeCAAQQBB+AD8CwAMAQsgBEGABWogCUIAIA5CAYYiEEIAEOCAgIAAIARBsARqIAhCACAMQgGGIhFCABDggICAACAEQfADaiAPQgAgD0IAEOCAgIAAIARB0ANqIAQpA/ADIhJC/f///////weDQgBCkPqAgIACQgAQ4ICAgAAgBEHAA2ogD0IBhiIPQgAgDkIAEOCAgIAAIARB4ARqIAlCACARQgAQ4ICAgAAgBEGgBGogCEIAIAhCABDggICAACAEQeADaiASQjSIIAQpA/gDIhFCDIaEIBFCNIhCkPqAgIACQgAQ4ICAgAAgBEGQBWogDkIAIA5CABDggICAACAEQbADaiAPQgAgDEIAEOCAgIAAIARBgARqIAlCACAIQgGGQgAQ4ICAgAAgBEGgA2ogBCkDsAMiFSAEKQOABHwiESAEKQPgBCIWIAQpA6AEfCISIAQpA8ADfCITIAQpA+ADfCIUIAQpA4AFIhcgBCkDsAR8Ig4gBCkD0AN8IhhCNIggBCkDiAUgBCkDuAR8IA4gF1StfCAEKQPYA3wgGCAOVK18IhdCDIaEfCIOQjSIIAQpA+gEIAQpA6gEfCASIBZUrXwgBCkDyAN8IBMgElStfCAEKQPoA3wgFCATVK18IBdCNIh8IA4gFFStfCIUQgyGhHwiEkIEhkLw/////////wCDIA5CMIhCD4OEQgBC0YeAgBBCABDggICAACAEQdAEaiAMQgAgEEIAEOCAgIAAIARBkANqIA9CACAIQgAQ4ICAgAAgBEHwBGogCUIAIAlCABDggICAACAEQYADaiAEKQOQAyIWIAQpA/AEfCITIBJCNIggBCkDuAMgBCkDiAR8IBEgFVStfCAUQjSIfCASIBFUrXwiEkIMhoR8IhFC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgBEGQBGogCEIAIBBCABDggICAACAEQcAEaiAMQgAgDEIAEOCAgIAAIARB8AJqIA9CACAJQgAQ4ICAgAAgBEHgAmogEUI0iCAEKQOYAyAEKQP4BHwgEyAWVK18IBJCNIh8IBEgE1StfCIJQgyGhCIMIAQpA/ACfCIIQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIARB0AJqIAhCNIggCUI0iCAEKQP4AnwgCCAMVK18IghCDIaEIAhCNIhCkPqAgIACQgAQ4ICAgAAgBEGwAmogB0IAIA1CAYYiDEIAEOCAgIAAIARB4AFqIAZCACAKQgGGIglCABDggICAACAEQaABaiALQgAgC0IAEOCAgIAAIARBgAFqIAQpA6ABIg9C/f///////weDQgBCkPqAgIACQgAQ4ICAgAAgBEHwAGogC0IBhiIIQgAgDUIAEOCAgIAAIARBkAJqIAdCACAJQgAQ4ICAgAAgBEHQAWogBkIAIAZCABDggICAACAEQZABaiAPQjSIIAQpA6gBIglCDIaEIAlCNIhCkPqAgIACQgAQ4ICAgAAgBEHAAmogDUIAIA1CABDggICAACAEQeAAaiAIQgAgCkIAEOCAgIAAIARBsAFqIAdCACAGQgGGQgAQ4ICAgAAgBEHQAGogBCkDYCISIAQpA7ABfCINIAQpA5ACIhMgBCkD0AF8IgsgBCkDcHwiDyAEKQOQAXwiECAEKQOwAiIUIAQpA+ABfCIJIAQpA4ABfCIRQjSIIAQpA7gCIAQpA+gBfCAJIBRUrXwgBCkDiAF8IBEgCVStfCIUQgyGhHwiCUI0iCAEKQOYAiAEKQPYAXwgCyATVK18IAQpA3h8IA8gC1StfCAEKQOYAXwgECAPVK18IBRCNIh8IAkgEFStfCITQgyGhHwiC0IEhkLw/////////wCDIAlCMIhCD4OEQgBC0YeAgBBCABDggICAACAEIAQpA1AiFCAEKQPAAnwiD0L/////////B4M3A/AFIARBgAJqIApCACAMQgAQ4ICAgAAgBEHAAGogCEIAIAZCABDggICAACAEQaACaiAHQgAgB0IAEOCAgIAAIARBMGogBCkDQCIVIAQpA6ACfCIQIAtCNIggBCkDaCAEKQO4AXwgDSASVK18IBNCNIh8IAsgDVStfCISQgyGhHwiDUL/////////B4NCAEKQ+oCAgAJCABDggICAACAEIAQpAzAiEyAEKQOAAnwiCyAPQjSIIAQpA1ggBCkDyAJ8IA8gFFStfCIUQgyGhHwiD0L/////////B4M3A/gFIARBwAFqIAZCACAMQgAQ4ICAgAAgBEHwAWogCkIAIApCABDggICAACAEQSBqIAhCACAHQgAQ4ICAgAAgBEEQaiANQjSIIAQpA0ggBCkDqAJ8IBAgFVStfCASQjSIfCANIBBUrXwiDUIMhoQiDCAEKQMgfCIGQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAQgBCkDwAEiECAEKQPwAXwiByAEKQMQfCIIIA9CNIggBCkDOCAEKQOIAnwgCyATVK18IBRCNIh8IA8gC1StfCILQgyGhHwiCkL/////////B4M3A4AGIAQgBkI0iCANQjSIIAQpAyh8IAYgDFStfCIGQgyGhCAGQjSIQpD6gICAAkIAEOCAgIAAIAQgBCkDACINIBFC/v///////weDfCIGIApCNIggBCkDyAEgBCkD+AF8IAcgEFStfCAEKQMYfCAIIAdUrXwgC0I0iHwgCiAIVK18IghCDIaEfCIHQv////////8HgzcDiAYgBCAHQjSIIAQpAwggBiANVK18IAhCNIh8IAcgBlStfEIMhoQgCUL///////8/g3w3A5AGIAQpA9ACIgsgGEL+////////B4N8IgYgBCkDkAQiDCAEKQPABHwiByAEKQPgAnwiCCAEKQOAAyIPIAQpA9AEfCIJIAQpA6ADIg0gBCkDkAV8IgpCNIggBCkDqAMgBCkDmAV8IAogDVStfCIQQgyGhHwiDUI0iCAEKQOIAyAEKQPYBHwgCSAPVK18IBBCNIh8IA0gCVStfCIPQgyGhHwiCUI0iCAEKQOYBCAEKQPIBHwgByAMVK18IAQpA+gCfCAIIAdUrXwgD0I0iHwgCSAIVK18IghCDIaEfCIHQjSIIAQpA9gCIAYgC1StfCAIQjSIfCAHIAZUrXxCDIaEIA5C////////P4N8IQYgB0L/////////B4MhByAJQv////////8HgyEIIA1C/////////weDIQkgCkL/////////B4MhCiAEQcgFaiAEQcAGaiAEQfAFahCIgICAAAJAIANFDQAgAyAEKQPgBjcDICADIAQpA9gGNwMYIAMgBCkD0AY3AxAgAyAEKQPIBjcDCCADIAQpA8AGNwMACyAAQdAAaiAFIARBwAZqEIiAgIAAIARBoAVqIARB4AdqIARB8AVqEIiAgIAAIAAgCiAEKQPIBSAEKQOgBSINQgGGfH0iCkL4wv////7/P3w3AwAgACAJIAQpA9AFIAQpA6gFIgtCAYZ8fSIJQvj///////8/fDcDCCAAIAggBCkD2AUgBCkDsAVCAYZ8fSIIQvj///////8/fDcDECAAIAYgBCkD6AUgBCkDwAVCAYZ8fSIGQvj///////8DfDcDICAAIAcgBCkD4AUgBCkDuAVCAYZ8fSIHQvj///////8/fDcDGCAAIA0gCn1CvOH//7///x98NwMoIAAgCyAJfUL8////////H3w3AzAgACAEKQOwBSAIfUL8////////H3w3AzggACAEKQO4BSAHfUL8////////H3w3A0AgACAEKQPABSAGfUL8////////AXw3A0ggAEEoaiICIAIgBEGYBmoQiICAgAAgBEHIBWogBEHIBWogBEGQB2oQiICAgAAgACAAKQMoIAQpA8gFfUK84f//v///H3w3AyggACAAKQMwIAQpA9AFfUL8////////H3w3AzAgACAAKQM4IAQpA9gFfUL8////////H3w3AzggACAAKQNAIAQpA+AFfUL8////////H3w3A0AgACAAKQNIIAQpA+gFfUL8////////AXw3A0gLIARBsAhqJICAgIAAC+geAgN/E34jgICAgABB4AhrIgMkgICAgAACQAJAIAEoAnhFDQAgACACQYAB/AoAAAwBCwJAIAIoAnhFDQAgACABQYAB/AoAAAwBCyAAQQA2AnggA0G4CGogAkHQAGoiBBCKgICAACADQZAIaiABQdAAaiIFEIqAgIAAIANB6AdqIAEgA0G4CGoQiICAgAAgA0HAB2ogAiADQZAIahCIgICAACADQZgHaiABQShqIANBuAhqEIiAgIAAIANBmAdqIANBmAdqIAQQiICAgAAgA0HwBmogAkEoaiADQZAIahCIgICAACADQfAGaiADQfAGaiAFEIiAgIAAIAMgAykDwAcgAykD6Ad9Qrzh//+///8ffCIGNwPIBiADIAMpA8gHIAMpA/AHfUL8////////H3wiBzcD0AYgAyADKQPQByADKQP4B31C/P///////x98Igg3A9gGIAMgAykD2AcgAykDgAh9Qvz///////8ffCIJNwPgBiADIAMpA+AHIAMpA4gIfUL8////////AXwiCjcD6AYgAykDuAchCyADKQOwByEMIAMpA6gHIQ0gAykDoAchDiADIAMpA/AGIAMpA5gHfUK84f//v///H3wiDzcDoAYgAyADKQP4BiAOfUL8////////H3wiDjcDqAYgAyADKQOAByANfUL8////////H3wiDTcDsAYgAyADKQOIByAMfUL8////////H3wiDDcDuAYgAyADKQOQByALfUL8////////AXwiCzcDwAYCQAJAIApCMIhC0YeAgBB+IAZ8IhBC/////////weDIhFCr/j//+///wdRDQAgEUIAUg0BCwJAIBBCNIggB3wiESAQhCARQjSIIAh8IhKEIBJCNIggCXwiE4RC/////////weDIBNCNIggCkL///////8/g3wiFIRQDQAgEELQh4CAEIQgFEKAgICAgIDAB4WDIBGDIBKDIBODQv////////8HUg0BCwJAAkAgC0IwiELRh4CAEH4gD3wiCEL/////////B4MiCUKv+P//7///B1ENACAJQgBSDQELAkAgCEI0iCAOfCIJIAiEIAlCNIggDXwiDYQgDUI0iCAMfCIMhEL/////////B4MgDEI0iCALQv///////z+DfCIHhFANACAIQtCHgIAQhCAHQoCAgICAgMAHhYMgCYMgDYMgDINC/////////wdSDQELAkAgASgCeEUNACAAQQE2AnggAEEAQfgA/AsADAMLIAAgARCHgICAAAwCCyAAQQE2AnggAEEAQfgA/AsADAELIANBgAVqIAxCACAPQgGGIhBCABDggICAACADQbAEaiANQgAgDkIBhiIRQgAQ4ICAgAAgA0HwA2ogC0IAIAtCABDggICAACADQdADaiADKQPwAyISQv3///////8Hg0IAQpD6gICAAkIAEOCAgIAAIANBwANqIAtCAYYiC0IAIA9CABDggICAACADQeAEaiAMQgAgEUIAEOCAgIAAIANBoARqIA1CACANQgAQ4ICAgAAgA0HgA2ogEkI0iCADKQP4AyIRQgyGhCARQjSIQpD6gICAAkIAEOCAgIAAIANBkAVqIA9CACAPQgAQ4ICAgAAgA0GwA2ogC0IAIA5CABDggICAACADQYAEaiAMQgAgDUIBhkIAEOCAgIAAIANBoANqIAMpA7ADIhUgAykDgAR8IhEgAykD4AQiFiADKQOgBHwiEiADKQPAA3wiEyADKQPgA3wiFCADKQOABSIXIAMpA7AEfCIPIAMpA9ADfCIYQjSIIAMpA4gFIAMpA7gEfCAPIBdUrXwgAykD2AN8IBggD1StfCIXQgyGhHwiD0I0iCADKQPoBCADKQOoBHwgEiAWVK18IAMpA8gDfCATIBJUrXwgAykD6AN8IBQgE1StfCAXQjSIfCAPIBRUrXwiFEIMhoR8IhJCBIZC8P////////8AgyAPQjCIQg+DhEIAQtGHgIAQQgAQ4ICAgAAgA0HQBGogDkIAIBBCABDggICAACADQZADaiALQgAgDUIAEOCAgIAAIANB8ARqIAxCACAMQgAQ4ICAgAAgA0GAA2ogAykDkAMiFiADKQPwBHwiEyASQjSIIAMpA7gDIAMpA4gEfCARIBVUrXwgFEI0iHwgEiARVK18IhJCDIaEfCIRQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIANBkARqIA1CACAQQgAQ4ICAgAAgA0HABGogDkIAIA5CABDggICAACADQfACaiALQgAgDEIAEOCAgIAAIANB4AJqIBFCNIggAykDmAMgAykD+AR8IBMgFlStfCASQjSIfCARIBNUrXwiDEIMhoQiDiADKQPwAnwiDUL/////////B4NCAEKQ+oCAgAJCABDggICAACADQdACaiANQjSIIAxCNIggAykD+AJ8IA0gDlStfCINQgyGhCANQjSIQpD6gICAAkIAEOCAgIAAIANBsAJqIAlCACAGQgGGIg5CABDggICAACADQeABaiAIQgAgB0IBhiIMQgAQ4ICAgAAgA0GgAWogCkIAIApCABDggICAACADQYABaiADKQOgASILQv3///////8Hg0IAQpD6gICAAkIAEOCAgIAAIANB8ABqIApCAYYiDUIAIAZCABDggICAACADQZACaiAJQgAgDEIAEOCAgIAAIANB0AFqIAhCACAIQgAQ4ICAgAAgA0GQAWogC0I0iCADKQOoASIMQgyGhCAMQjSIQpD6gICAAkIAEOCAgIAAIANBwAJqIAZCACAGQgAQ4ICAgAAgA0HgAGogDUIAIAdCABDggICAACADQbABaiAJQgAgCEIBhkIAEOCAgIAAIANB0ABqIAMpA2AiEiADKQOwAXwiBiADKQOQAiITIAMpA9ABfCIKIAMpA3B8IgsgAykDkAF8IhAgAykDsAIiFCADKQPgAXwiDCADKQOAAXwiEUI0iCADKQO4AiADKQPoAXwgDCAUVK18IAMpA4gBfCARIAxUrXwiFEIMhoR8IgxCNIggAykDmAIgAykD2AF8IAogE1StfCADKQN4fCALIApUrXwgAykDmAF8IBAgC1StfCAUQjSIfCAMIBBUrXwiE0IMhoR8IgpCBIZC8P////////8AgyAMQjCIQg+DhEIAQtGHgIAQQgAQ4ICAgAAgAyADKQNQIhQgAykDwAJ8IgtC/////////weDNwP4BSADQYACaiAHQgAgDkIAEOCAgIAAIANBwABqIA1CACAIQgAQ4ICAgAAgA0GgAmogCUIAIAlCABDggICAACADQTBqIAMpA0AiFSADKQOgAnwiECAKQjSIIAMpA2ggAykDuAF8IAYgElStfCATQjSIfCAKIAZUrXwiEkIMhoR8IgZC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAyADKQMwIhMgAykDgAJ8IgogC0I0iCADKQNYIAMpA8gCfCALIBRUrXwiFEIMhoR8IgtC/////////weDNwOABiADQcABaiAIQgAgDkIAEOCAgIAAIANB8AFqIAdCACAHQgAQ4ICAgAAgA0EgaiANQgAgCUIAEOCAgIAAIANBEGogBkI0iCADKQNIIAMpA6gCfCAQIBVUrXwgEkI0iHwgBiAQVK18IgZCDIaEIg4gAykDIHwiCEL/////////B4NCAEKQ+oCAgAJCABDggICAACADIAMpA8ABIhAgAykD8AF8IgkgAykDEHwiDSALQjSIIAMpAzggAykDiAJ8IAogE1StfCAUQjSIfCALIApUrXwiCkIMhoR8IgdC/////////weDNwOIBiADIAhCNIggBkI0iCADKQMofCAIIA5UrXwiCEIMhoQgCEI0iEKQ+oCAgAJCABDggICAACADIAMpAwAiBiARQv7///////8Hg3wiCCAHQjSIIAMpA8gBIAMpA/gBfCAJIBBUrXwgAykDGHwgDSAJVK18IApCNIh8IAcgDVStfCINQgyGhHwiCUL/////////B4M3A5AGIAMgCUI0iCADKQMIIAggBlStfCANQjSIfCAJIAhUrXxCDIaEIAxC////////P4N8NwOYBiADQdAFaiADQcgGaiADQfgFahCIgICAACADQcgGaiADQcgGaiAEEIiAgIAAIABB0ABqIAUgA0HIBmoQiICAgAAgAykDkAUhCSADKQOgAyEIIANBqAVqIANB6AdqIANB+AVqEIiAgIAAIAAgCCAJfCIJQv////////8HgyADKQPQBSADKQOoBSIHQgGGfH0iBkL4wv////7/P3w3AwAgACADKQOAAyIKIAMpA9AEfCINIAlCNIggAykDqAMgAykDmAV8IAkgCFStfCIOQgyGhHwiCEL/////////B4MgAykD2AUgAykDsAUiC0IBhnx9IhBC+P///////z98NwMIIAAgAykDkAQiESADKQPABHwiCSADKQPgAnwiDCAIQjSIIAMpA4gDIAMpA9gEfCANIApUrXwgDkI0iHwgCCANVK18IgpCDIaEfCIIQv////////8HgyADKQPgBSADKQO4BUIBhnx9Ig5C+P///////z98NwMQIAAgAykD0AIiEiAYQv7///////8Hg3wiDSAIQjSIIAMpA5gEIAMpA8gEfCAJIBFUrXwgAykD6AJ8IAwgCVStfCAKQjSIfCAIIAxUrXwiCUIMhoR8IghCNIggAykD2AIgDSASVK18IAlCNIh8IAggDVStfEIMhoQgD0L///////8/g3wgAykD8AUgAykDyAVCAYZ8fSIJQvj///////8DfDcDICAAIAhC/////////weDIAMpA+gFIAMpA8AFQgGGfH0iCEL4////////P3w3AxggACAHIAZ9Qrzh//+///8ffDcDKCAAIAsgEH1C/P///////x98NwMwIAAgAykDuAUgDn1C/P///////x98NwM4IAAgAykDwAUgCH1C/P///////x98NwNAIAAgAykDyAUgCX1C/P///////wF8NwNIIABBKGoiASABIANBoAZqEIiAgIAAIANB0AVqIANB0AVqIANBmAdqEIiAgIAAIAAgACkDKCADKQPQBX1CvOH//7///x98NwMoIAAgACkDMCADKQPYBX1C/P///////x98NwMwIAAgACkDOCADKQPgBX1C/P///////x98NwM4IAAgACkDQCADKQPoBX1C/P///////x98NwNAIAAgACkDSCADKQPwBX1C/P///////wF8NwNICyADQeAIaiSAgICAAAvRGAICfxF+I4CAgIAAQfAFayICJICAgIAAIAAgASgCeDYCeCAAQdAAaiABQdAAaiABQShqIgMQiICAgAAgACAAKQNQQgGGNwNQIAAgACkDWEIBhjcDWCAAIAApA2BCAYY3A2AgACAAKQNoQgGGNwNoIAAgACkDcEIBhjcDcCACQcgFaiABEIqAgIAAIAIgAikDyAUiBEIDfiIFNwPIBSACIAIpA9AFIgZCA34iBzcD0AUgAiACKQPYBSIIQgN+Igk3A9gFIAIgAikD4AVCA34iCjcD4AUgAiACKQPoBSILQgN+Igw3A+gFIAJBwARqIApCACAEQgZ+IgRCABDggICAACACQdADaiAJQgAgBkIGfiIGQgAQ4ICAgAAgAkHwBGogDEIAIAxCABDggICAACACQeAEaiACKQPwBCINQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAJBgAVqIAtCBn4iDEIAIAVCABDggICAACACQcADaiAKQgAgBkIAEOCAgIAAIAJBgARqIAlCACAJQgAQ4ICAgAAgAkHQBGogDUI0iCACKQP4BCIGQgyGhCAGQjSIQpD6gICAAkIAEOCAgIAAIAJBkAVqIAVCACAFQgAQ4ICAgAAgAkGwA2ogDEIAIAdCABDggICAACACQZAEaiAKQgAgCEIGfkIAEOCAgIAAIAJB8AJqIAIpA7ADIg4gAikDkAR8IgYgAikDwAMiDyACKQOABHwiCCACKQOABXwiCyACKQPQBHwiDSACKQPABCIQIAIpA9ADfCIFIAIpA+AEfCIRQjSIIAIpA8gEIAIpA9gDfCAFIBBUrXwgAikD6AR8IBEgBVStfCIQQgyGhHwiBUI0iCACKQPIAyACKQOIBHwgCCAPVK18IAIpA4gFfCALIAhUrXwgAikD2AR8IA0gC1StfCAQQjSIfCAFIA1UrXwiDUIMhoR8IghCBIZC8P////////8AgyAFQjCIQg+DhEIAQtGHgIAQQgAQ4ICAgAAgAkHgAmogB0IAIARCABDggICAACACQfADaiAMQgAgCUIAEOCAgIAAIAJBsARqIApCACAKQgAQ4ICAgAAgAkGgA2ogAikD8AMiDyACKQOwBHwiCyAIQjSIIAIpA7gDIAIpA5gEfCAGIA5UrXwgDUI0iHwgCCAGVK18IghCDIaEfCIGQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAJB4ANqIAlCACAEQgAQ4ICAgAAgAkHQAmogB0IAIAdCABDggICAACACQaAEaiAMQgAgCkIAEOCAgIAAIAJBkANqIAZCNIggAikD+AMgAikDuAR8IAsgD1StfCAIQjSIfCAGIAtUrXwiCUIMhoQiByACKQOgBHwiCkL/////////B4NCAEKQ+oCAgAJCABDggICAACACQYADaiAKQjSIIAlCNIggAikDqAR8IAogB1StfCIKQgyGhCAKQjSIQpD6gICAAkIAEOCAgIAAIAJBoAVqIAMQioCAgAAgAiACKQOgBSIGQgGGIgw3A6AFIAIgAikDqAUiCEIBhiIHNwOoBSACIAIpA7AFIgtCAYYiCTcDsAUgAiACKQO4BUIBhiIKNwO4BSACIAIpA8AFIg1CAYYiBDcDwAUgAkHwAWogCkIAIAZCAoYiBkIAEOCAgIAAIAJBgAFqIAlCACAIQgKGIghCABDggICAACACQaACaiAEQgAgBEIAEOCAgIAAIAJBkAJqIAIpA6ACIg5C/P///////weDQgBCkPqAgIACQgAQ4ICAgAAgAkGwAmogDUIChiIEQgAgDEIAEOCAgIAAIAJB8ABqIApCACAIQgAQ4ICAgAAgAkGwAWogCUIAIAlCABDggICAACACQYACaiAOQjSIIAIpA6gCIghCDIaEIAhCNIhCkPqAgIACQgAQ4ICAgAAgAkHAAmogDEIAIAxCABDggICAACACQeAAaiAEQgAgB0IAEOCAgIAAIAJBwAFqIApCACALQgKGQgAQ4ICAgAAgAkEgaiACKQNgIhAgAikDwAF8IgggAikDcCISIAIpA7ABfCILIAIpA7ACfCINIAIpA4ACfCIOIAIpA/ABIhMgAikDgAF8IgwgAikDkAJ8Ig9CNIggAikD+AEgAikDiAF8IAwgE1StfCACKQOYAnwgDyAMVK18IhNCDIaEfCIMQjSIIAIpA3ggAikDuAF8IAsgElStfCACKQO4AnwgDSALVK18IAIpA4gCfCAOIA1UrXwgE0I0iHwgDCAOVK18Ig5CDIaEfCILQgSGQvD/////////AIMgDEIwiEIPg4RCAELRh4CAEEIAEOCAgIAAIAJBEGogB0IAIAZCABDggICAACACQaABaiAEQgAgCUIAEOCAgIAAIAJB4AFqIApCACAKQgAQ4ICAgAAgAkHQAGogAikDoAEiEiACKQPgAXwiDSALQjSIIAIpA2ggAikDyAF8IAggEFStfCAOQjSIfCALIAhUrXwiC0IMhoR8IghC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAkGQAWogCUIAIAZCABDggICAACACIAdCACAHQgAQ4ICAgAAgAkHQAWogBEIAIApCABDggICAACACQcAAaiAIQjSIIAIpA6gBIAIpA+gBfCANIBJUrXwgC0I0iHwgCCANVK18IglCDIaEIgcgAikD0AF8IgpC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAkEwaiAKQjSIIAlCNIggAikD2AF8IAogB1StfCIKQgyGhCAKQjSIQpD6gICAAkIAEOCAgIAAIAJBoAVqIAJBoAVqIAEQiICAgAAgACACKQPwAiIHIAIpA5AFfCIKQv////////8HgyIGIAIpA6AFIghCAoZ9Qtaz///f/v/PAHw3AwAgACACKQOgAyILIAIpA+ACfCIJIApCNIggAikD+AIgAikDmAV8IAogB1StfCINQgyGhHwiCkL/////////B4MiDiACKQOoBSIQQgKGfUL2////////zwB8NwMIIAAgAikD4AMiEiACKQPQAnwiByACKQOQA3wiBCAKQjSIIAIpA6gDIAIpA+gCfCAJIAtUrXwgDUI0iHwgCiAJVK18IgtCDIaEfCIKQv////////8HgyINIAIpA7AFIhNCAoZ9Qvb////////PAHw3AxAgACACKQOAAyIUIBFC/v///////weDfCIJIApCNIggAikD6AMgAikD2AJ8IAcgElStfCACKQOYA3wgBCAHVK18IAtCNIh8IAogBFStfCIHQgyGhHwiCkL/////////B4MiBCACKQO4BSILQgKGfUL2////////zwB8NwMYIAAgCkI0iCACKQOIAyAJIBRUrXwgB0I0iHwgCiAJVK18QgyGhCAFQv///////z+DfCIKIAIpA8AFIglCAoZ9Qvb///////8EfDcDICACIAhCBn4gBn1CvOH//7///x98NwOgBSACIBBCBn4gDn1C/P///////x98NwOoBSACIBNCBn4gDX1C/P///////x98NwOwBSACIAtCBn4gBH1C/P///////x98NwO4BSACIAlCBn4gCn1C/P///////wF8NwPABSAAQShqIAJByAVqIAJBoAVqEIiAgIAAIAAgACkDKCACKQMgIgcgAikDwAJ8IgpCAYZC/v///////w+DfUKa0v//n///L3w3AyggACAAKQMwIAIpA1AiBCACKQMQfCIJIApCNIggAikDKCACKQPIAnwgCiAHVK18IgZCDIaEfCIKQgGGQv7///////8Pg31C+v///////y98NwMwIAAgACkDOCACKQOQASIIIAIpAwB8IgcgAikDQHwiBSAKQjSIIAIpA1ggAikDGHwgCSAEVK18IAZCNIh8IAogCVStfCIEQgyGhHwiCkIBhkL+////////D4N9Qvr///////8vfDcDOCAAIAApA0AgAikDMCIGIA9C+P///////weDfCIJIApCNIggAikDmAEgAikDCHwgByAIVK18IAIpA0h8IAUgB1StfCAEQjSIfCAKIAVUrXwiB0IMhoR8IgpCAYZC/v///////w+DfUL6////////L3w3A0AgACAAKQNIIApCNIggAikDOCAJIAZUrXwgB0I0iHwgCiAJVK18QgyGhCAMQv///////z+DfEIBhn1C+v///////wJ8NwNIIAJB8AVqJICAgIAAC6ENAgF/GX4jgICAgABB8ANrIgMkgICAgAAgA0HAAGogAikDGCIEQgAgASkDACIFQgAQ4ICAgAAgA0HQAWogAikDECIGQgAgASkDCCIHQgAQ4ICAgAAgA0HAAmogAikDCCIIQgAgASkDECIJQgAQ4ICAgAAgA0GQA2ogAikDACIKQgAgASkDGCILQgAQ4ICAgAAgA0HgA2ogAikDICIMQgAgASkDICINQgAQ4ICAgAAgA0HQA2ogAykD4AMiDkL/////////B4NCAEKQ+oCAgAJCABDggICAACADQdAAaiAMQgAgBUIAEOCAgIAAIANBkAFqIARCACAHQgAQ4ICAgAAgA0GQAmogBkIAIAlCABDggICAACADQfACaiAIQgAgC0IAEOCAgIAAIANBsANqIApCACANQgAQ4ICAgAAgA0HAA2ogDkI0iCADKQPoAyIOQgyGhCAOQjSIQpD6gICAAkIAEOCAgIAAIANB4ABqIApCACAFQgAQ4ICAgAAgA0HgAWogDEIAIAdCABDggICAACADQaABaiAEQgAgCUIAEOCAgIAAIANBoAJqIAZCACALQgAQ4ICAgAAgA0GAA2ogCEIAIA1CABDggICAACADIAMpA6ACIg8gAykDoAF8IhAgAykDgAN8IhEgAykD4AF8IhIgAykDkAIiEyADKQOQAXwiFCADKQPwAnwiFSADKQOwA3wiFiADKQNQfCIXIAMpA8ADfCIYIAMpA9ABIhkgAykDQHwiDiADKQPAAnwiGiADKQOQA3wiGyADKQPQA3wiHEI0iCADKQPYASADKQNIfCAOIBlUrXwgAykDyAJ8IBogDlStfCADKQOYA3wgGyAaVK18IAMpA9gDfCAcIBtUrXwiGkIMhoR8Ig5CNIggAykDmAIgAykDmAF8IBQgE1StfCADKQP4AnwgFSAUVK18IAMpA7gDfCAWIBVUrXwgAykDWHwgFyAWVK18IAMpA8gDfCAYIBdUrXwgGkI0iHwgDiAYVK18IhhCDIaEfCIUQgSGQvD/////////AIMgDkIwiEIPg4RCAELRh4CAEEIAEOCAgIAAIAAgAykDACIaIAMpA2B8IhVC/////////weDNwMAIANB8ABqIAhCACAFQgAQ4ICAgAAgA0HwAWogCkIAIAdCABDggICAACADQdACaiAMQgAgCUIAEOCAgIAAIANBsAFqIARCACALQgAQ4ICAgAAgA0GwAmogBkIAIA1CABDggICAACADQTBqIAMpA7ACIhsgAykDsAF8IhYgAykD0AJ8IhcgFEI0iCADKQOoAiADKQOoAXwgECAPVK18IAMpA4gDfCARIBBUrXwgAykD6AF8IBIgEVStfCAYQjSIfCAUIBJUrXwiGEIMhoR8IhBC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgACADKQPwASIPIAMpA3B8IhEgAykDMHwiEiAVQjSIIAMpAwggAykDaHwgFSAaVK18IhVCDIaEfCIUQv////////8HgzcDCCADQYABaiAGQgAgBUIAEOCAgIAAIANBgAJqIAhCACAHQgAQ4ICAgAAgA0HgAmogCkIAIAlCABDggICAACADQaADaiAMQgAgC0IAEOCAgIAAIANBwAFqIARCACANQgAQ4ICAgAAgA0EgaiADKQOgAyIKIAMpA8ABfCIEIBBCNIggAykDuAIgAykDuAF8IBYgG1StfCADKQPYAnwgFyAWVK18IBhCNIh8IBAgF1StfCILQgyGhHwiBUL/////////B4NCAEKQ+oCAgAJCABDggICAACAAIAMpA4ACIgwgAykDgAF8IgYgAykD4AJ8IgcgAykDIHwiCCAUQjSIIAMpA/gBIAMpA3h8IBEgD1StfCADKQM4fCASIBFUrXwgFUI0iHwgFCASVK18Ig1CDIaEfCIJQv////////8HgzcDECADQRBqIAVCNIggAykDqAMgAykDyAF8IAQgClStfCALQjSIfCAFIARUrXwiBEIMhoQgBEI0iEKQ+oCAgAJCABDggICAACAAIAMpAxAiCiAcQv////////8Hg3wiBCAJQjSIIAMpA4gCIAMpA4gBfCAGIAxUrXwgAykD6AJ8IAcgBlStfCADKQMofCAIIAdUrXwgDUI0iHwgCSAIVK18IgZCDIaEfCIFQv////////8HgzcDGCAAIAVCNIggAykDGCAEIApUrXwgBkI0iHwgBSAEVK18QgyGhCAOQv///////z+DfDcDICADQfADaiSAgICAAAvNBAIBfwh+I4CAgIAAQTBrIgIkgICAgAAgASkDICIDQjCIQtGHgIAQfiABKQMAfCIEQjSIIAEpAwh8IgVC/////////weDIQYgBUI0iCABKQMQfCIHQjSIIAEpAxh8IghC/////////weDIQkCQCAIQjSIIANC////////P4N8IgNCMIggBEL/////////B4MiCkKu+P//7///B1YgB0L/////////B4MiBCAFgyAIg0L/////////B1EgA0L///////8/UXFxrYRQDQAgCkLRh4CAEHwiBUL/////////B4MhCiAGIAVCNIh8IgVC/////////weDIQYgBCAFQjSIfCIFQv////////8HgyEEIAkgBUI0iHwiBUL/////////B4MhCSAFQjSIIAN8Qv///////z+DIQMLIAIgA0IoiDcDKCACIANCFoZCgICA/v////8/gyAJQh6IhDcDICACIAlCIIZCgICAgPD///8/gyAEQhSIhDcDGCACIARCKoZCgICAgICA//8/gyAGQgqIhDcDECACIAogBkI0hkKAgICAgICA+D+DhDcDCCACQQhqQZCJwIIAEJ2AgIAAIAAgAikDCCIDQv////////8HgzcDACAAIAIpAyhCKIYgAikDICIGQhaIhDcDICAAIAZCHoZCgICAgPz//weDIAIpAxgiBkIgiIQ3AxggACAGQhSGQoCAwP////8HgyACKQMQIgZCKoiENwMQIAAgBkIKhkKA+P//////B4MgA0I0iIQ3AwggAkEwaiSAgICAAAvsCQIBfw9+I4CAgIAAQdACayICJICAgIAAIAJBwABqIAEpAxgiA0IAIAEpAwAiBEIBhiIFQgAQ4ICAgAAgAkGQAmogASkDCCIGQgGGIgdCACABKQMQIghCABDggICAACACQeABaiABKQMgIglCACAJQgAQ4ICAgAAgAkHQAWogAikD4AEiCkL/////////B4NCAEKQ+oCAgAJCABDggICAACACQbABaiAJQgGGIglCACAEQgAQ4ICAgAAgAkHQAGogA0IAIAdCABDggICAACACQYACaiAIQgAgCEIAEOCAgIAAIAJBwAFqIApCNIggAikD6AEiB0IMhoQgB0I0iEKQ+oCAgAJCABDggICAACACQcACaiAEQgAgBEIAEOCAgIAAIAJBoAFqIAlCACAGQgAQ4ICAgAAgAkHgAGogCEIBhkIAIANCABDggICAACACIAIpA6ABIgsgAikDYHwiByACKQNQIgwgAikDgAJ8IgogAikDsAF8Ig0gAikDwAF8Ig4gAikDQCIPIAIpA5ACfCIEIAIpA9ABfCIQQjSIIAIpA0ggAikDmAJ8IAQgD1StfCACKQPYAXwgECAEVK18Ig9CDIaEfCIEQjSIIAIpA1ggAikDiAJ8IAogDFStfCACKQO4AXwgDSAKVK18IAIpA8gBfCAOIA1UrXwgD0I0iHwgBCAOVK18IgxCDIaEfCIKQgSGQvD/////////AIMgBEIwiEIPg4RCAELRh4CAEEIAEOCAgIAAIAAgAikDACIPIAIpA8ACfCINQv////////8HgzcDACACQbACaiAFQgAgBkIAEOCAgIAAIAJBkAFqIAlCACAIQgAQ4ICAgAAgAkHwAGogA0IAIANCABDggICAACACQTBqIAIpA5ABIhEgAikDcHwiDiAKQjSIIAIpA6gBIAIpA2h8IAcgC1StfCAMQjSIfCAKIAdUrXwiC0IMhoR8IgdC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgACACKQMwIgwgAikDsAJ8IgogDUI0iCACKQMIIAIpA8gCfCANIA9UrXwiD0IMhoR8Ig1C/////////weDNwMIIAJB8AFqIAhCACAFQgAQ4ICAgAAgAkGgAmogBkIAIAZCABDggICAACACQYABaiAJQgAgA0IAEOCAgIAAIAJBIGogB0I0iCACKQOYASACKQN4fCAOIBFUrXwgC0I0iHwgByAOVK18IgVCDIaEIgcgAikDgAF8IgNC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgACACKQPwASIOIAIpA6ACfCIIIAIpAyB8IgYgDUI0iCACKQM4IAIpA7gCfCAKIAxUrXwgD0I0iHwgDSAKVK18IgpCDIaEfCIJQv////////8HgzcDECACQRBqIANCNIggBUI0iCACKQOIAXwgAyAHVK18IgNCDIaEIANCNIhCkPqAgIACQgAQ4ICAgAAgACACKQMQIgUgEEL+////////B4N8IgMgCUI0iCACKQP4ASACKQOoAnwgCCAOVK18IAIpAyh8IAYgCFStfCAKQjSIfCAJIAZUrXwiBkIMhoR8IghC/////////weDNwMYIAAgCEI0iCACKQMYIAMgBVStfCAGQjSIfCAIIANUrXxCDIaEIARC////////P4N8NwMgIAJB0AJqJICAgIAAC7kXBAF/BH4Bfwt+I4CAgIAAQdAFayICJICAgIAAQgAhAyACQgA3A4gDIAJCADcDgAMgAkIANwP4AiACQgA3A/ACIAJCADcD6AIgAkIANwPgAiACQgA3A9gCIAJCADcD0AICQAJAIAFFDQAgACkDCCEEIAApAxAhAyAAKQMYIQUgACkDICEGDAELIABCADcDgAFCASEEIABCATcDeCAAQgA3A4gBIABCADcDkAEgAEIANwOYASAAQQA2AqABIABC2bKjrNL47QE3A3AgAEK8gMGtorXuGTcDaCAAQsjQi7j13vsYNwNgIABCuMz51fqy3R03A1ggAEKEuLynwO2LHDcDUCAAQQApA9iIwIIANwNIIABBACkD0IjAggA3A0AgAEEAKQPIiMCCADcDOCAAQQApA8CIwIIANwMwIABBACkDuIjAggA3AyggAEIANwMgIABCATcDCCAAQgA3AxggAEIANwMQQgAhBUIAIQYLIAIgBTwA7wMgAiAFQgiIPADuAyACIAVCEIg8AO0DIAIgBUIYiDwA7AMgAiAFQiCIPADrAyACIAVCKIg8AOoDIAIgBUIwiDwA6QMgAiAFQjiIPADoAyACIAY8AOcDIAIgBkIIiDwA5gMgAiAGQhCIPADlAyACIAZCGIg8AOQDIAIgBkIgiDwA4wMgAiAGQiiIPADiAyACIAZCMIg8AOEDIAIgBkI4iDwA4AMgAiADPAD3AyACIANCCIg8APYDIAIgA0IQiDwA9QMgAiADQhiIPAD0AyACIANCIIg8APMDIAIgA0IoiDwA8gMgAiADQjCIPADxAyACIANCOIg8APADIAIgBDwA/wMgAiAEQgiIPAD+AyACIARCEIg8AP0DIAIgBEIYiDwA/AMgAiAEQiCIPAD7AyACIARCKIg8APoDIAIgBEIwiDwA+QMgAiAEQjiIPAD4AyACIAIpA/ADNwPgAiACIAIpA+ADNwPQAiACIAIpA+gDNwPYAiACIAIpA/gDNwPoAgJAAkAgAQ0AQSAhAQwBCyACIAEpABg3A4gDIAIgASkAEDcDgAMgAiABKQAINwP4AiACIAEpAAA3A/ACQcAAIQELIAJBnANqIAJB0AJqIAEQo4CAgAAgAkGcA2ogAkHgA2oQpICAgAAgAiACMQDkA0IIhiACMQDlA4QgAjEA4wNCEIaEIAIxAOIDQhiGhCACMQDhA0IghoQgAjEA4ANCKIaEIgNCACACMQD+A0IIhiACMQD/A4QgAjEA/QNCEIaEIAIxAPwDQhiGhCACMQD7A0IghoQgAjEA+gNCKIaEIAItAPkDIgFBD3GtQjCGhCIGQq/4///v//8HVCACMQDxA0IIhiACMQDyA4QgAjEA8ANCEIaEIAIxAO8DQhiGhCACMQDuA0IghoQgAjEA7QNCKIaEIAItAOwDIgdBD3GtQjCGhCIEIAIxAPgDQgSGIAFBBHathCACMQD3A0IMhoQgAjEA9gNCFIaEIAIxAPUDQhyGhCACMQD0A0IkhoQgAjEA8wNCLIaEIgWDIAIxAOsDQgSGIAdBBHathCACMQDqA0IMhoQgAjEA6QNCFIaEIAIxAOgDQhyGhCACMQDnA0IkhoQgAjEA5gNCLIaEIgiDQv////////8HUiADQv///////z9ScnIiARsiCTcDqAQgAiAIQgAgASAIIAUgBoQgBISEIAOEQgBScSIBGyIDNwOgBCACIARCACABGyIENwOYBCACIAVCACABGyIFNwOQBCACIAZCASABGyIGNwOIBCACQYABaiAGQgGGIghCACADQgAQ4ICAgAAgAkHAAWogBUIBhiIKQgAgBEIAEOCAgIAAIAJBwAJqIAlCACAJQgAQ4ICAgAAgAkGwAmogAikDwAIiC0L/////////B4NCAEKQ+oCAgAJCABDggICAACACQZACaiAJQgGGIglCACAGQgAQ4ICAgAAgAkHwAGogCkIAIANCABDggICAACACQbABaiAEQgAgBEIAEOCAgIAAIAJBoAJqIAtCNIggAikDyAIiCkIMhoQgCkI0iEKQ+oCAgAJCABDggICAACACQYACaiAGQgAgBkIAEOCAgIAAIAJB8AFqIAlCACAFQgAQ4ICAgAAgAkHgAGogBEIBhkIAIANCABDggICAACACQdAAaiACKQNgIgwgAikD8AF8IgogAikDkAIiDSACKQOwAXwiCyACKQNwfCIOIAIpA6ACfCIPIAIpA4ABIhAgAikDwAF8IgYgAikDsAJ8IhFCNIggAikDiAEgAikDyAF8IAYgEFStfCACKQO4AnwgESAGVK18IhBCDIaEfCIGQjSIIAIpA5gCIAIpA7gBfCALIA1UrXwgAikDeHwgDiALVK18IAIpA6gCfCAPIA5UrXwgEEI0iHwgBiAPVK18Ig1CDIaEfCILQgSGQvD/////////AIMgBkIwiEIPg4RCAELRh4CAEEIAEOCAgIAAIAIgAikDUCIQIAIpA4ACfCIOQv////////8HgzcDsAQgAkHgAWogCEIAIAVCABDggICAACACQaABaiAJQgAgBEIAEOCAgIAAIAJBwABqIANCACADQgAQ4ICAgAAgAkEwaiACKQOgASISIAIpA0B8Ig8gC0I0iCACKQNoIAIpA/gBfCAKIAxUrXwgDUI0iHwgCyAKVK18IgxCDIaEfCIKQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAIgAikDMCINIAIpA+ABfCILIA5CNIggAikDWCACKQOIAnwgDiAQVK18IhBCDIaEfCIOQv////////8HgzcDuAQgAkGQAWogCEIAIARCABDggICAACACQdABaiAFQgAgBUIAEOCAgIAAIAJBIGogCUIAIANCABDggICAACACQRBqIApCNIggAikDqAEgAikDSHwgDyASVK18IAxCNIh8IAogD1StfCIIQgyGhCIKIAIpAyB8IgNC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAiACKQOQASIPIAIpA9ABfCIEIAIpAxB8IgUgDkI0iCACKQM4IAIpA+gBfCALIA1UrXwgEEI0iHwgDiALVK18IgtCDIaEfCIJQv////////8HgzcDwAQgAiADQjSIIAhCNIggAikDKHwgAyAKVK18IgNCDIaEIANCNIhCkPqAgIACQgAQ4ICAgAAgAiACKQMAIgggEUL+////////B4N8IgMgCUI0iCACKQOYASACKQPYAXwgBCAPVK18IAIpAxh8IAUgBFStfCALQjSIfCAJIAVUrXwiBUIMhoR8IgRC/////////weDNwPIBCACIARCNIggAikDCCADIAhUrXwgBUI0iHwgBCADVK18QgyGhCAGQv///////z+DfDcD0AQgAEEoaiIHIAcgAkGwBGoQiICAgAAgAEHQAGoiASABIAJBsARqEIiAgIAAIAEgASACQYgEahCIgICAACAAQfgAaiIBIAEgAkGIBGoQiICAgAAgAkGcA2ogAkHgA2oQpICAgAAgAkGwBWogAkHgA2pBABCWgICAACACQgA3A+ADIAJCADcD6AMgAkIANwPwAyACQgA3A/gDIAJCASACKQOwBSIDIAMgAikDuAUiBYQgAikDwAUiBoQgAikDyAUiA4RQIgEbIgQ3A7AFIAJCACAFIAEbIgU3A7gFIAJCACAGIAEbIgY3A8AFIAAgAkGwBGogAkGwBWoQp4CAgAAgAEIAIARCf4UiCULCgtmBzdGX6b9/fCIIIAYgA4QgBYQgBIRQIgEbIgo3AwggAEIAIAVCf4UiBSAIIAlUrXwiBEK7wKL66py317p/fCIJIAEbIgg3AxAgAEIAIAZCf4UiBiAEIAVUrSAJIARUrXx8IgRCfnwiBSABGyIJNwMYIABCACADQn+FIAQgBlStIAUgBFStfHxCf3wgARsiAzcDICACIAo3A7AFIAIgCDcDuAUgAiAJNwPABSACIAM3A8gFIAcgAkGwBGpBgAH8CgAAIAJB0AVqJICAgIAAC5s4BgJ/BX4Bfwp+A38FfiOAgICAAEHAD2siAiSAgICAAAJAAkAgASgCeCIDRQ0AIAJBATYC6A4gAkHwDWpBAEH4APwLAEIAIQRCACEFQgAhBkIAIQdCACEIDAELIAJB8A1qIAEQh4CAgAAgAikD4A4hBCACKQPYDiEFIAIpA9AOIQYgAikDyA4hByACKQPADiEICyACIAIpA5AONwO4DSACIAIpA4gONwOwDSACIAIpA4AONwOoDSACIAIpA/gNNwOgDSACIAIpA/ANNwOYDSACIAIpA5gONwPADSACIAIpA6AONwPIDSACIAIpA6gONwPQDSACIAIpA7AONwPYDSACIAIpA7gONwPgDUEAIQkgAkEANgLoDSACQaAKaiAFQgAgCEIBhiIKQgAQ4ICAgAAgAkHQCWogB0IBhiILQgAgBkIAEOCAgIAAIAJBkAlqIARCACAEQgAQ4ICAgAAgAkHwCGogAikDkAkiDEL9////////B4NCAEKQ+oCAgAJCABDggICAACACQeAIaiAEQgGGIgRCACAIQgAQ4ICAgAAgAkGACmogBUIAIAtCABDggICAACACQcAJaiAGQgAgBkIAEOCAgIAAIAJBgAlqIAxCNIggAikDmAkiC0IMhoQgC0I0iEKQ+oCAgAJCABDggICAACACQbAKaiAIQgAgCEIAEOCAgIAAIAJB0AhqIARCACAHQgAQ4ICAgAAgAkGgCWogBkIBhkIAIAVCABDggICAACACQcAIaiACKQPQCCINIAIpA6AJfCILIAIpA4AKIg4gAikDwAl8IgwgAikD4Ah8Ig8gAikDgAl8IhAgAikDoAoiESACKQPQCXwiCCACKQPwCHwiEkI0iCACKQOoCiACKQPYCXwgCCARVK18IAIpA/gIfCASIAhUrXwiEUIMhoR8IghCNIggAikDiAogAikDyAl8IAwgDlStfCACKQPoCHwgDyAMVK18IAIpA4gJfCAQIA9UrXwgEUI0iHwgCCAQVK18Ig5CDIaEfCIMQgSGQvD/////////AIMgCEIwiEIPg4RCAELRh4CAEEIAEOCAgIAAIAIgAikDwAgiESACKQOwCnwiD0L/////////B4M3A5gPIAJB8AlqIApCACAHQgAQ4ICAgAAgAkGwCGogBEIAIAZCABDggICAACACQZAKaiAFQgAgBUIAEOCAgIAAIAJBoAhqIAIpA7AIIhMgAikDkAp8IhAgDEI0iCACKQPYCCACKQOoCXwgCyANVK18IA5CNIh8IAwgC1StfCINQgyGhHwiC0L/////////B4NCAEKQ+oCAgAJCABDggICAACACIAIpA6AIIg4gAikD8Al8IgwgD0I0iCACKQPICCACKQO4CnwgDyARVK18IhFCDIaEfCIPQv////////8HgzcDoA8gAkGwCWogBkIAIApCABDggICAACACQeAJaiAHQgAgB0IAEOCAgIAAIAJBkAhqIARCACAFQgAQ4ICAgAAgAkGACGogC0I0iCACKQO4CCACKQOYCnwgECATVK18IA1CNIh8IAsgEFStfCIKQgyGhCILIAIpA5AIfCIFQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAIgAikDsAkiECACKQPgCXwiBiACKQOACHwiByAPQjSIIAIpA6gIIAIpA/gJfCAMIA5UrXwgEUI0iHwgDyAMVK18IgxCDIaEfCIEQv////////8HgzcDqA8gAkHwB2ogBUI0iCAKQjSIIAIpA5gIfCAFIAtUrXwiBUIMhoQgBUI0iEKQ+oCAgAJCABDggICAACACIAIpA/AHIgogEkL+////////B4N8IgUgBEI0iCACKQO4CSACKQPoCXwgBiAQVK18IAIpA4gIfCAHIAZUrXwgDEI0iHwgBCAHVK18IgdCDIaEfCIGQv////////8HgzcDsA8gAiAGQjSIIAIpA/gHIAUgClStfCAHQjSIfCAGIAVUrXxCDIaEIAhC////////P4N8NwO4DyACQfAOaiACQZgPaiACQfANakHQAGoiFBCIgICAACACQcAMaiABIAJBmA9qEIiAgIAAIAJBwAxqQShqIhUgAUEoaiACQfAOahCIgICAACACIAM2ApANIAIgAikDwAw3A8ALIAIgAikDyAw3A8gLIAIgAikD0Aw3A9ALIAIgAikD2Aw3A9gLIAIgAikD4Aw3A+ALIAIgAikD6Aw3A+gLIAIgAikD8Aw3A/ALIAIgAikD+Aw3A/gLIAIgAikDgA03A4AMIAIgAikDiA03A4gMIAJBADYCuAwgAiABKQNwNwOwDCACIAEpA2g3A6gMIAIgASkDYDcDoAwgAiABKQNYNwOYDCACIAEpA1A3A5AMIAJBwAtqQdAAaiEDIAJBwAtqQShqIRYDQCACKQOIDCIHQjCIQtGHgIAQfiACKQPoC3wiCEI0iCACKQPwC3wiCkL/////////B4MhBSAKQjSIIAIpA/gLfCIMQjSIIAIpA4AMfCILQv////////8HgyEGAkAgC0I0iCAHQv///////z+DfCIHQjCIIAhC/////////weDIgRCrvj//+///wdWIAxC/////////weDIgggCoMgC4NC/////////wdRIAdC////////P1Fxca2EUA0AIARC0YeAgBB8IgpC/////////weDIQQgBSAKQjSIfCIKQv////////8HgyEFIAggCkI0iHwiCkL/////////B4MhCCAGIApCNIh8IgpC/////////weDIQYgCkI0iCAHfEL///////8/gyEHCyACIAY3A4AMIAIgBzcDiAwgACAJaiIBQThqIAdCEIYgBkIkiIQ3AwAgAiAINwP4CyABQTBqIAZCHIYgCEIYiIQ3AwAgAiAFNwPwCyABQShqIAhCKIYgBUIMiIQ3AwAgAiAENwPoCyABQSBqIAQgBUI0hoQ3AwAgAkHAC2ogAkHAC2ogAkGYDWogAkHwCmoQhYCAgAAgAikDkAsiB0IwiELRh4CAEH4gAikD8Ap8IghCNIggAikD+Ap8IgpC/////////weDIQUgCkI0iCACKQOAC3wiDEI0iCACKQOIC3wiC0L/////////B4MhBgJAIAtCNIggB0L///////8/g3wiB0IwiCAIQv////////8HgyIEQq74///v//8HViAMQv////////8HgyIIIAqDIAuDQv////////8HUSAHQv///////z9RcXGthFANACAEQtGHgIAQfCIKQv////////8HgyEEIAUgCkI0iHwiCkL/////////B4MhBSAIIApCNIh8IgpC/////////weDIQggBiAKQjSIfCIKQv////////8HgyEGIApCNIggB3xC////////P4MhBwsgAiAFNwP4CiACIAQ3A/AKIAEgBCAFQjSGhDcDACACIAY3A4gLIAIgBzcDkAsgAUEYaiAHQhCGIAZCJIiENwMAIAIgCDcDgAsgAUEQaiAGQhyGIAhCGIiENwMAIAFBCGogCEIohiAFQgyIhDcDACAJQcAAaiIJQcD/H0cNAAsgAkGYC2ogAyAUEIiAgIAAIAJBmAtqIAJBmAtqEImAgIAAIAJBgAZqIAIpA7ALIgVCACACKQOYCyIIQgGGIgpCABDggICAACACQcAGaiACKQOgCyIHQgGGIgtCACACKQOoCyIGQgAQ4ICAgAAgAkHAB2ogAikDuAsiBEIAIARCABDggICAACACQbAHaiACKQPAByIMQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAJBoAZqIARCAYYiBEIAIAhCABDggICAACACQbAGaiAFQgAgC0IAEOCAgIAAIAJBgAdqIAZCACAGQgAQ4ICAgAAgAkGgB2ogDEI0iCACKQPIByILQgyGhCALQjSIQpD6gICAAkIAEOCAgIAAIAJBkAZqIAhCACAIQgAQ4ICAgAAgAkHgBmogBEIAIAdCABDggICAACACQZAHaiAGQgGGQgAgBUIAEOCAgIAAIAJBwAVqIAIpA+AGIg0gAikDkAd8IgsgAikDsAYiDiACKQOAB3wiDCACKQOgBnwiDyACKQOgB3wiECACKQOABiIRIAIpA8AGfCIIIAIpA7AHfCISQjSIIAIpA4gGIAIpA8gGfCAIIBFUrXwgAikDuAd8IBIgCFStfCIRQgyGhHwiCEI0iCACKQO4BiACKQOIB3wgDCAOVK18IAIpA6gGfCAPIAxUrXwgAikDqAd8IBAgD1StfCARQjSIfCAIIBBUrXwiDkIMhoR8IgxCBIZC8P////////8AgyAIQjCIQg+DhEIAQtGHgIAQQgAQ4ICAgAAgAiACKQPABSIRIAIpA5AGfCIPQv////////8HgzcDmA8gAkGwBWogCkIAIAdCABDggICAACACQfAGaiAEQgAgBkIAEOCAgIAAIAJB4AdqIAVCACAFQgAQ4ICAgAAgAkHwBWogAikD8AYiEyACKQPgB3wiECAMQjSIIAIpA+gGIAIpA5gHfCALIA1UrXwgDkI0iHwgDCALVK18Ig1CDIaEfCILQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAIgAikD8AUiDiACKQOwBXwiDCAPQjSIIAIpA8gFIAIpA5gGfCAPIBFUrXwiEUIMhoR8Ig9C/////////weDNwOgDyACQaAFaiAGQgAgCkIAEOCAgIAAIAJB0AZqIAdCACAHQgAQ4ICAgAAgAkHQB2ogBEIAIAVCABDggICAACACQeAFaiALQjSIIAIpA/gGIAIpA+gHfCAQIBNUrXwgDUI0iHwgCyAQVK18IgpCDIaEIgsgAikD0Ad8IgVC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAiACKQOgBSIQIAIpA9AGfCIGIAIpA+AFfCIHIA9CNIggAikD+AUgAikDuAV8IAwgDlStfCARQjSIfCAPIAxUrXwiDEIMhoR8IgRC/////////weDNwOoDyACQdAFaiAFQjSIIApCNIggAikD2Ad8IAUgC1StfCIFQgyGhCAFQjSIQpD6gICAAkIAEOCAgIAAIAIgAikD0AUiCiASQv7///////8Hg3wiBSAEQjSIIAIpA6gFIAIpA9gGfCAGIBBUrXwgAikD6AV8IAcgBlStfCAMQjSIfCAEIAdUrXwiB0IMhoR8IgZC/////////weDNwOwDyACIAZCNIggAikD2AUgBSAKVK18IAdCNIh8IAYgBVStfEIMhoQgCEL///////8/g3w3A7gPIAJB8A5qIAJBmA9qIAJBmAtqEIiAgIAAIAJBwAxqIAJBwAtqIAJBmA9qEIiAgIAAIBUgFiACQfAOahCIgICAACACIAIoArgMNgKQDSAAQcD/H2ogAkHADGoQj4CAgAAgFCACQZgLaiADEIiAgIAAIAJBkANqIAIpA9gOIgVCACACKQPADiIIQgGGIgpCABDggICAACACQeAEaiACKQPIDiIHQgGGIgtCACACKQPQDiIGQgAQ4ICAgAAgAkGwBGogAikD4A4iBEIAIARCABDggICAACACQaAEaiACKQOwBCIMQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAJBgARqIARCAYYiBEIAIAhCABDggICAACACQaADaiAFQgAgC0IAEOCAgIAAIAJB0ARqIAZCACAGQgAQ4ICAgAAgAkGQBGogDEI0iCACKQO4BCILQgyGhCALQjSIQpD6gICAAkIAEOCAgIAAIAJBkAVqIAhCACAIQgAQ4ICAgAAgAkHwA2ogBEIAIAdCABDggICAACACQbADaiAGQgGGQgAgBUIAEOCAgIAAIAJB0AJqIAIpA/ADIg0gAikDsAN8IgsgAikDoAMiDiACKQPQBHwiDCACKQOABHwiDyACKQOQBHwiECACKQOQAyIRIAIpA+AEfCIIIAIpA6AEfCISQjSIIAIpA5gDIAIpA+gEfCAIIBFUrXwgAikDqAR8IBIgCFStfCIRQgyGhHwiCEI0iCACKQOoAyACKQPYBHwgDCAOVK18IAIpA4gEfCAPIAxUrXwgAikDmAR8IBAgD1StfCARQjSIfCAIIBBUrXwiDkIMhoR8IgxCBIZC8P////////8AgyAIQjCIQg+DhEIAQtGHgIAQQgAQ4ICAgAAgAiACKQPQAiIRIAIpA5AFfCIPQv////////8HgzcDmA8gAkGABWogCkIAIAdCABDggICAACACQeADaiAEQgAgBkIAEOCAgIAAIAJBwANqIAVCACAFQgAQ4ICAgAAgAkGAA2ogAikD4AMiEyACKQPAA3wiECAMQjSIIAIpA/gDIAIpA7gDfCALIA1UrXwgDkI0iHwgDCALVK18Ig1CDIaEfCILQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAIgAikDgAMiDiACKQOABXwiDCAPQjSIIAIpA9gCIAIpA5gFfCAPIBFUrXwiEUIMhoR8Ig9C/////////weDNwOgDyACQcAEaiAGQgAgCkIAEOCAgIAAIAJB8ARqIAdCACAHQgAQ4ICAgAAgAkHQA2ogBEIAIAVCABDggICAACACQfACaiALQjSIIAIpA+gDIAIpA8gDfCAQIBNUrXwgDUI0iHwgCyAQVK18IgpCDIaEIgsgAikD0AN8IgVC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAiACKQPABCIQIAIpA/AEfCIGIAIpA/ACfCIHIA9CNIggAikDiAMgAikDiAV8IAwgDlStfCARQjSIfCAPIAxUrXwiDEIMhoR8IgRC/////////weDNwOoDyACQeACaiAFQjSIIApCNIggAikD2AN8IAUgC1StfCIFQgyGhCAFQjSIQpD6gICAAkIAEOCAgIAAIAIgAikD4AIiCiASQv7///////8Hg3wiBSAEQjSIIAIpA8gEIAIpA/gEfCAGIBBUrXwgAikD+AJ8IAcgBlStfCAMQjSIfCAEIAdUrXwiB0IMhoR8IgZC/////////weDNwOwDyACIAZCNIggAikD6AIgBSAKVK18IAdCNIh8IAYgBVStfEIMhoQgCEL///////8/g3w3A7gPIAJBmA9qIAJBmA9qIAJB8A1qEIiAgIAAQYDAACEBIAIpA7gPIRcgAikDsA8hGCACKQOoDyEZIAIpA6APIRogAikDmA8hGwNAIAJBADYCkA0gAiAAQYD/H2oiCSkDACIFQv////////8HgzcDwAwgAiAAQZj/H2opAwAiBkIQiDcD4AwgAiAAQaD/H2opAwAiB0L/////////B4M3A+gMIAIgAEG4/x9qKQMAIghCEIg3A4gNIAIgAEGI/x9qKQMAIgRCDIZCgOD//////weDIAVCNIiENwPIDCACIABBkP8faikDACIFQhiGQoCAgPj///8HgyAEQiiIhDcD0AwgAiAGQiSGQoCAgICA/v8HgyAFQhyIhDcD2AwgAiAAQaj/H2opAwAiBUIMhkKA4P//////B4MgB0I0iIQ3A/AMIAIgAEGw/x9qKQMAIgZCGIZCgICA+P///weDIAVCKIiENwP4DCACIAhCJIZCgICAgID+/weDIAZCHIiENwOADSACQZgLaiACQZgLaiACQcAMahCIgICAACACQcAAaiACKQOwCyIFQgAgAikDmAsiCEIBhiIKQgAQ4ICAgAAgAkGQAmogAikDoAsiB0IBhiILQgAgAikDqAsiBkIAEOCAgIAAIAJB4AFqIAIpA7gLIgRCACAEQgAQ4ICAgAAgAkHQAWogAikD4AEiDEL/////////B4NCAEKQ+oCAgAJCABDggICAACACQbABaiAEQgGGIgRCACAIQgAQ4ICAgAAgAkHQAGogBUIAIAtCABDggICAACACQYACaiAGQgAgBkIAEOCAgIAAIAJBwAFqIAxCNIggAikD6AEiC0IMhoQgC0I0iEKQ+oCAgAJCABDggICAACACQcACaiAIQgAgCEIAEOCAgIAAIAJBoAFqIARCACAHQgAQ4ICAgAAgAkHgAGogBkIBhkIAIAVCABDggICAACACIAIpA6ABIg0gAikDYHwiCyACKQNQIg4gAikDgAJ8IgwgAikDsAF8Ig8gAikDwAF8IhAgAikDQCIRIAIpA5ACfCIIIAIpA9ABfCISQjSIIAIpA0ggAikDmAJ8IAggEVStfCACKQPYAXwgEiAIVK18IhFCDIaEfCIIQjSIIAIpA1ggAikDiAJ8IAwgDlStfCACKQO4AXwgDyAMVK18IAIpA8gBfCAQIA9UrXwgEUI0iHwgCCAQVK18Ig5CDIaEfCIMQgSGQvD/////////AIMgCEIwiEIPg4RCAELRh4CAEEIAEOCAgIAAIAIgAikDACIRIAIpA8ACfCIPQv////////8HgzcD8A4gAkGwAmogCkIAIAdCABDggICAACACQZABaiAEQgAgBkIAEOCAgIAAIAJB8ABqIAVCACAFQgAQ4ICAgAAgAkEwaiACKQOQASITIAIpA3B8IhAgDEI0iCACKQOoASACKQNofCALIA1UrXwgDkI0iHwgDCALVK18Ig1CDIaEfCILQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAIgAikDMCIOIAIpA7ACfCIMIA9CNIggAikDCCACKQPIAnwgDyARVK18IhFCDIaEfCIPQv////////8HgzcD+A4gAkHwAWogBkIAIApCABDggICAACACQaACaiAHQgAgB0IAEOCAgIAAIAJBgAFqIARCACAFQgAQ4ICAgAAgAkEgaiALQjSIIAIpA5gBIAIpA3h8IBAgE1StfCANQjSIfCALIBBUrXwiCkIMhoQiCyACKQOAAXwiBUL/////////B4NCAEKQ+oCAgAJCABDggICAACACIAIpA/ABIhAgAikDoAJ8IgYgAikDIHwiByAPQjSIIAIpAzggAikDuAJ8IAwgDlStfCARQjSIfCAPIAxUrXwiDEIMhoR8IgRC/////////weDNwOADyACQRBqIAVCNIggCkI0iCACKQOIAXwgBSALVK18IgVCDIaEIAVCNIhCkPqAgIACQgAQ4ICAgAAgAiACKQMQIgogEkL+////////B4N8IgUgBEI0iCACKQP4ASACKQOoAnwgBiAQVK18IAIpAyh8IAcgBlStfCAMQjSIfCAEIAdUrXwiB0IMhoR8IgZC/////////weDNwOIDyACIAZCNIggAikDGCAFIApUrXwgB0I0iHwgBiAFVK18QgyGhCAIQv///////z+DfDcDkA8gAkHICmogAkHwDmogAkGYC2oQiICAgAAgAkHADGogAkHADGogAkHwDmoQiICAgAAgAiAXIAIpA+AMfUL8////////AXw3A+AMIAIgGCACKQPYDH1C/P///////x98NwPYDCACIBkgAikD0Ax9Qvz///////8ffDcD0AwgAiAaIAIpA8gMfUL8////////H3w3A8gMIAIgGyACKQPADH1CvOH//7///x98NwPADCAVIBUgAkHICmoQiICAgAAgCSACQcAMahCPgICAACAAQUBqIQAgAUF/aiIBQQFLDQALIAJBwA9qJICAgIAAC38BAX8CQAJAIABB/wFxQQFGDQBBACEBQZqAwIIAQQAQ14CAgAAMAQtB0IEEQdABIABBgARxGyAAQQx0QYCAwABxciEBCwJAIAEQ24CAgAAiAQ0AQYiAwIIAQQAQ2ICAgAALAkAgASAAEIGAgIAADQAgARDegICAAEEAIQELIAELohsCAn8UfiOAgICAAEGQB2siBCSAgICAAAJAAkAgAQ0AQYSCwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEADAELIAFCADcAOCABQgA3ADAgAUIANwAoIAFCADcAICABQgA3ABggAUIANwAQIAFCADcACCABQgA3AAACQCACDQBBooLAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAEEAIQAMAQtBACEAAkACQCADQcEARg0AIANBIUcNAiACLQAAIgNB/gFxQQJHDQICQCAEQdAGaiACQQFqEIOAgIAADQBBACEDDAILIARBqAVqIARB0AZqIANBA0YQhICAgAAhAwwBCyACLQAAIgVBB0sNAUEBIAV0QdABcUUNAUEAIQMgBEGoBmogAkEBahCDgICAAEUNACAEQYAGaiACQSFqEIOAgIAARQ0AQQAhAiAEQQA2AvgFIAQgBCkDqAY3A6gFIAQgBCkDsAY3A7AFIAQgBCkDuAY3A7gFIAQgBCkDwAY3A8AFIAQgBCkDyAY3A8gFIAQgBCkDgAY3A9AFIAQgBCkDiAY3A9gFIAQgBCkDkAY3A+AFIAQgBCkDmAY3A+gFIAQgBCkDoAY3A/AFAkAgBUH+AXFBBkcNAEEAIQMgBUEHRyAEKAKABkEBcUYNAQsgBEHgAGogBCkD6AUiBkIAIAQpA9AFIgdCAYYiCEIAEOCAgIAAIARBoAFqIAQpA9gFIglCAYYiCkIAIAQpA+AFIgtCABDggICAACAEQaACaiAEKQPwBSIMQgAgDEIAEOCAgIAAIARBkAJqIAQpA6ACIg1C/////////weDQgBCkPqAgIACQgAQ4ICAgAAgBEGAAWogDEIBhiIMQgAgB0IAEOCAgIAAIARBkAFqIAZCACAKQgAQ4ICAgAAgBEHgAWogC0IAIAtCABDggICAACAEQYACaiANQjSIIAQpA6gCIgpCDIaEIApCNIhCkPqAgIACQgAQ4ICAgAAgBEHwAGogB0IAIAdCABDggICAACAEQcABaiAMQgAgCUIAEOCAgIAAIARB8AFqIAtCAYZCACAGQgAQ4ICAgAAgBEEgaiAEKQPAASIOIAQpA/ABfCIKIAQpA5ABIg8gBCkD4AF8Ig0gBCkDgAF8IhAgBCkDgAJ8IhEgBCkDYCISIAQpA6ABfCIHIAQpA5ACfCITQjSIIAQpA2ggBCkDqAF8IAcgElStfCAEKQOYAnwgEyAHVK18IhJCDIaEfCIHQjSIIAQpA5gBIAQpA+gBfCANIA9UrXwgBCkDiAF8IBAgDVStfCAEKQOIAnwgESAQVK18IBJCNIh8IAcgEVStfCIRQgyGhHwiDUIEhkLw/////////wCDIAdCMIhCD4OEQgBC0YeAgBBCABDggICAACAEQRBqIAhCACAJQgAQ4ICAgAAgBEHQAWogDEIAIAtCABDggICAACAEQcACaiAGQgAgBkIAEOCAgIAAIARB0ABqIAQpA9ABIg8gBCkDwAJ8IhAgDUI0iCAEKQPIASAEKQP4AXwgCiAOVK18IBFCNIh8IA0gClStfCINQgyGhHwiCkL/////////B4NCAEKQ+oCAgAJCABDggICAACAEIAtCACAIQgAQ4ICAgAAgBEGwAWogCUIAIAlCABDggICAACAEQbACaiAMQgAgBkIAEOCAgIAAIARBwABqIApCNIggBCkD2AEgBCkDyAJ8IBAgD1StfCANQjSIfCAKIBBUrXwiC0IMhoQiCSAEKQOwAnwiBkL/////////B4NCAEKQ+oCAgAJCABDggICAACAEQTBqIAZCNIggC0I0iCAEKQO4AnwgBiAJVK18IgZCDIaEIAZCNIhCkPqAgIACQgAQ4ICAgAAgBEGwA2ogBCkDwAUiBkIAIAQpA6gFIgxCAYYiCkIAEOCAgIAAIARB8ANqIAQpA7AFIglCAYYiDUIAIAQpA7gFIgtCABDggICAACAEQfAEaiAEKQPIBSIIQgAgCEIAEOCAgIAAIARB4ARqIAQpA/AEIhBC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgBEHQA2ogCEIBhiIIQgAgDEIAEOCAgIAAIARB4ANqIAZCACANQgAQ4ICAgAAgBEGwBGogC0IAIAtCABDggICAACAEQdAEaiAQQjSIIAQpA/gEIg1CDIaEIA1CNIhCkPqAgIACQgAQ4ICAgAAgBEHAA2ogDEIAIAxCABDggICAACAEQZAEaiAIQgAgCUIAEOCAgIAAIARBwARqIAtCAYZCACAGQgAQ4ICAgAAgBEHwAmogBCkDkAQiEiAEKQPABHwiDSAEKQPgAyIUIAQpA7AEfCIQIAQpA9ADfCIRIAQpA9AEfCIOIAQpA7ADIhUgBCkD8AN8IgwgBCkD4AR8Ig9CNIggBCkDuAMgBCkD+AN8IAwgFVStfCAEKQPoBHwgDyAMVK18IhVCDIaEfCIMQjSIIAQpA+gDIAQpA7gEfCAQIBRUrXwgBCkD2AN8IBEgEFStfCAEKQPYBHwgDiARVK18IBVCNIh8IAwgDlStfCIUQgyGhHwiEEIEhkLw/////////wCDIAxCMIhCD4OEQgBC0YeAgBBCABDggICAACAEIAQpA/ACIhUgBCkDwAN8IhFC/////////weDNwPQBiAEQeACaiAKQgAgCUIAEOCAgIAAIARBoARqIAhCACALQgAQ4ICAgAAgBEGQBWogBkIAIAZCABDggICAACAEQaADaiAEKQOgBCIWIAQpA5AFfCIOIBBCNIggBCkDmAQgBCkDyAR8IA0gElStfCAUQjSIfCAQIA1UrXwiEkIMhoR8Ig1C/////////weDQgBCkPqAgIACQgAQ4ICAgAAgBCAEKQOgAyIUIAQpA+ACfCIQIBFCNIggBCkD+AIgBCkDyAN8IBEgFVStfCIVQgyGhHwiEUL/////////B4M3A9gGIARB0AJqIAtCACAKQgAQ4ICAgAAgBEGABGogCUIAIAlCABDggICAACAEQYAFaiAIQgAgBkIAEOCAgIAAIARBkANqIA1CNIggBCkDqAQgBCkDmAV8IA4gFlStfCASQjSIfCANIA5UrXwiCkIMhoQiDSAEKQOABXwiBkL/////////B4NCAEKQ+oCAgAJCABDggICAACAEIAQpA9ACIg4gBCkDgAR8IgsgBCkDkAN8IgkgEUI0iCAEKQOoAyAEKQPoAnwgECAUVK18IBVCNIh8IBEgEFStfCIQQgyGhHwiCEL/////////B4M3A+AGIARBgANqIAZCNIggCkI0iCAEKQOIBXwgBiANVK18IgZCDIaEIAZCNIhCkPqAgIACQgAQ4ICAgAAgBCAEKQOAAyIKIA9C/v///////weDfCIGIAhCNIggBCkD2AIgBCkDiAR8IAsgDlStfCAEKQOYA3wgCSALVK18IBBCNIh8IAggCVStfCIJQgyGhHwiC0L/////////B4M3A+gGIAQgC0I0iCAEKQOIAyAGIApUrXwgCUI0iHwgCyAGVK18QgyGhCAMQv///////z+DfDcD8AYgBCkDeCEOIAQpAyghDyAEKQNwIQggBCkDICEGIAQpAxghEiAEKQNYIRQgBCkDECERIAQpA1AhCyAEKQO4ASEVIAQpAwghFiAEKQOwASENIAQpAwAhCSAEKQNIIRcgBCkDQCEQIAQpAzAhDCAEKQM4IRggBEHQBmogBEHQBmogBEGoBWoQiICAgAACQAJAIAQpA9AGIAQpA/AGIgpCMIhC0YeAgBB+fEIHfCIZQv////////8HgyAGIAh8IghC/////////weDfSAKQv///////z+DIAwgE0L+////////B4N8IgogECAJIA18Ig18IhAgCyARfCIRIAhCNIggDyAOfCAIIAZUrXwiCEIMhoR8IgZCNIggFCASfCARIAtUrXwgCEI0iHwgBiARVK18IghCDIaEfCILQjSIIBcgFiAVfCANIAlUrXx8IBAgDVStfCAIQjSIfCALIBBUrXwiCEIMhoR8IglCNIggGCAKIAxUrXwgCEI0iHwgCSAKVK18QgyGhCAHQv///////z+DfH0gGUI0iCAEKQPYBnwiDEI0iCAEKQPgBnwiCEI0iCAEKQPoBnwiCkI0iHxC/P///////wF8Ig1CMIhC0YeAgBB+fEK84f//v///H3wiB0L/////////B4MiEEKv+P//7///B1ENACAQQgBSDQELIAdC0IeAgBCEIApC/////////weDIAlC/////////weDfSAIQv////////8HgyALQv////////8Hg30gDEL/////////B4MgBkL/////////B4N9IAdCNIh8Qvz///////8ffCIGQjSIfEL8////////H3wiC0I0iHxC/P///////x98IglCNIggDUL///////8/g3xCgICAgICAwAeFgyAGgyALgyAJg0L/////////B1EhAgsgAiEDCyADRQ0AIARB0AZqIARBqAVqEI+AgIAAIAEgBCkDiAc3ADggASAEKQOABzcAMCABIAQpA/gGNwAoIAEgBCkD8AY3ACAgASAEKQPoBjcAGCABIAQpA+AGNwAQIAEgBCkD2AY3AAggASAEKQPQBjcAAEEBIQALIARBkAdqJICAgIAAIAAL6gQBCn4gASkDGCECIAEpAxAhAyABKQMIIQQgASkDACEFIAEpAyAhBiAAIAEpA0giB0IwiELRh4CAEH4gASkDKHwiCEI0iCABKQMwfCIJQjSIIAEpAzh8IgpCNIggASkDQHwiC0I0iCAHQv///////z+DfCIHQjCIIAhC/////////weDIghCrvj//+///wdWIApC/////////weDIgogCYMgC4NC/////////wdRIAdC////////P1Fxca2EQtGHgIAQfiAIfCIIQjSIIAlC/////////weDfCIJQjSGIAhC/////////weDhDcDICAAIAIgAyAEIAUgBkIwiELRh4CAEH58IgVCNIh8IgRCNIh8IgNCNIh8IgJCNIggBkL///////8/g3wiBkIwiCAFQv////////8HgyIFQq74///v//8HViADQv////////8HgyIIIASDIAKDQv////////8HUSAGQv///////z9RcXGthELRh4CAEH4gBXwiA0I0iCAEQv////////8Hg3wiBEI0hiADQv////////8Hg4Q3AwAgACAJQjSIIAp8IgNCKIYgCUIMiEL//////x+DhDcDKCAAIARCNIggCHwiCUIohiAEQgyIQv//////H4OENwMIIAAgA0I0iCALQv////////8Hg3wiC0IchiADQhiIQv////8Ag4Q3AzAgACAJQjSIIAJC/////////weDfCIEQhyGIAlCGIhC/////wCDhDcDECAAIAtCNIggB3xCEIYgC0IkiEL//wODhDcDOCAAIARCNIggBnxCEIYgBEIkiEL//wODhDcDGAuwBQIEfwZ+I4CAgIAAQeAAayIFJICAgIAAAkACQCACDQBBjIPAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAEEAIQYMAQsCQCACKAIAIgdBIUHBACAEQYACcSIIG08NAEGahsCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhBgwBC0EAIQYgAkEANgIAIAUgBzYCBAJAIAENAEGTgsCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAADAELAkAgB0UNACABQQAgB/wLAAsCQCADDQBBhILAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAEEAIQYMAQsCQCAEQf8BcUECRg0AQfmAwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEGDAELQQAhBiAFQQA2AlggBSADKQA4IglCEIg3A1AgBSADKQAgIgpC/////////weDNwMwIAUgCUIkhkKAgICAgP7/B4MgAykAMCIJQhyIhDcDSCAFIAlCGIZCgICA+P///weDIAMpACgiCUIoiIQ3A0AgBSAJQgyGQoDg//////8HgyAKQjSIhDcDOCAFIAMpAAgiCUIMhkKA4P//////B4MgAykAACIKQjSIhCILNwMQIAUgCkL/////////B4MiCjcDCCAFIAMpABgiDEIQiCINNwMoIAUgAykAECIOQhiGQoCAgPj///8HgyAJQiiIhCIJNwMYIAUgDEIkhkKAgICAgP7/B4MgDkIciIQiDDcDIAJAIAsgCoQgDYQgCYQgDIRCAFINAEH8hcCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAADAELIAVBCGogASAFQQRqIAgQkYCAgABFDQAgAiAFKAIENgIAQQEhBgsgBUHgAGokgICAgAAgBgv9BQMBfwd+AX9BACEEAkAgAEHQAGooAgANACAAKQMgIgVCMIhC0YeAgBB+IAApAwB8IgZCNIggACkDCHwiB0L/////////B4MhCCAHQjSIIAApAxB8IglCNIggACkDGHwiCkL/////////B4MhCwJAIApCNIggBUL///////8/g3wiBUIwiCAGQv////////8HgyIGQq74///v//8HViAJQv////////8HgyIJIAeDIAqDQv////////8HUSAFQv///////z9RcXGthFANACAGQtGHgIAQfCIHQv////////8HgyEGIAggB0I0iHwiB0L/////////B4MhCCAJIAdCNIh8IgdC/////////weDIQkgCyAHQjSIfCIHQv////////8HgyELIAdCNIggBXxC////////P4MhBQsgACAFNwMgIAAgCzcDGCAAIAk3AxAgACAINwMIIAAgBjcDACAAKQNIIgVCMIhC0YeAgBB+IAApAyh8IgZCNIggACkDMHwiB0L/////////B4MhCCAHQjSIIAApAzh8IglCNIggACkDQHwiCkL/////////B4MhCwJAIApCNIggBUL///////8/g3wiBUIwiCAGQv////////8HgyIGQq74///v//8HViAJQv////////8HgyIJIAeDIAqDQv////////8HUSAFQv///////z9RcXGthFANACAGQtGHgIAQfCIHQv////////8HgyEGIAggB0I0iHwiB0L/////////B4MhCCAJIAdCNIh8IgdC/////////weDIQkgCyAHQjSIfCIHQv////////8HgyELIAdCNIggBXxC////////P4MhBQsgAEEoaiEMIAAgBTcDSCAAIAs3A0AgACAJNwM4IAAgCDcDMCAAIAY3AyhBASEEIAFBAWogABCSgICAAAJAIANFDQAgAkEhNgIAIAFBAkEDIAwpAwBCAYNQGzoAAEEBDwsgAkHBADYCACABQQQ6AAAgAUEhaiAMEJKAgIAACyAEC6IDACAAIAEpAyBCKIg8AAAgACABNQIkPAABIAAgASkDIEIYiDwAAiAAIAEpAyBCEIg8AAMgACABKQMgQgiIPAAEIAAgASkDIDwABSAAIAEpAxhCLIg8AAYgACABKQMYQiSIPAAHIAAgASkDGEIciDwACCAAIAEpAxhCFIg8AAkgACABKQMYQgyIPAAKIAAgASkDGEIEiDwACyAAIAEzARZCD4MgASkDGEIEhoQ8AAwgACABKQMQQiiIPAANIAAgATUCFDwADiAAIAEpAxBCGIg8AA8gACABKQMQQhCIPAAQIAAgASkDEEIIiDwAESAAIAEpAxA8ABIgACABKQMIQiyIPAATIAAgASkDCEIkiDwAFCAAIAEpAwhCHIg8ABUgACABKQMIQhSIPAAWIAAgASkDCEIMiDwAFyAAIAEpAwhCBIg8ABggACABMwEGQg+DIAEpAwhCBIaEPAAZIAAgASkDAEIoiDwAGiAAIAE1AgQ8ABsgACABKQMAQhiIPAAcIAAgASkDAEIQiDwAHSAAIAEpAwBCCIg8AB4gACABKQMAPAAfC/oEAQV/I4CAgIAAQdAAayIEJICAgIAAAkACQAJAIAENAEGeg8CCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAADAELAkAgAg0AQaKCwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgAAMAQsCQCADRQ0AIANBAUYNACACLQAAQf8BcUEwRw0AIAQgAkECaiIANgJMIAIsAAEiBUH/AXEiBkH/AUYNAAJAAkAgBUEASA0AIANBfmohACAGIQUMAQsgBUGAf0YNASAGQf8AcSIHIANBfmpLDQEgAC0AAEUNASAHQXtqQXxJDQEgBkEDcSEIQQAhBQJAAkAgB0F/akEDSQ0AIAJBfmohACAGQfwAcSEFA0AgAEEEaiEAIAVBfGoiBQ0ACyAAKAAAIgVB/4H8B3FBCHggBUEYeEH/gfwHcXIhBSAIRQ0BIABBBGohAAsDQCAFQQh0IAAtAAByIQUgAEEBaiEAIAhBf2oiCA0ACwsgBCACIAdBAmoiAGo2AkwgBSADIABrIgBLDQEgBUGAAUkNAQsgBSAARw0AIARBKGogBEHMAGogAiADaiICEJSAgIAARQ0AIARBCGogBEHMAGogAhCUgICAAEUNACAEKAJMIAJHDQAgASAEKQNANwAYIAEgBCkDODcAECABIAQpAzA3AAggASAEKQMoNwAAIAEgBCkDCDcAICABIAQpAxA3ACggASAEKQMYNwAwIAEgBCkDIDcAOEEBIQEMAgsgAUIANwA4IAFCADcAMCABQgA3ACggAUIANwAgIAFCADcAGCABQgA3ABAgAUIANwAIIAFCADcAAAtBACEBCyAEQdAAaiSAgICAACABC9gFAQh/I4CAgIAAQTBrIgMkgICAgAAgA0EANgIsIANCADcDGCADQgA3AxAgA0IANwMIIANCADcDAAJAAkAgASgCACIEIAJHDQBBACEEDAELAkAgBC0AAEECRg0AQQAhBAwBCyABIARBAWoiBTYCAAJAIAUgAkkNAEEAIQQMAQsgASAEQQJqIgU2AgACQCAELQABIgZB/wFHDQBBACEEDAELAkACQCAGwCIEQX9KDQACQCAEQYB/Rw0AQQAhBAwDCwJAIAZB/wBxIgcgAiAFa00NAEEAIQQMAwsCQCAFLQAADQBBACEEDAMLAkAgB0F7akF8Tw0AQQAhBAwDCyAGQQNxIQQCQAJAAkAgB0F/akEDTw0AQQAhBgwBCyAGQfwAcSEGA0AgBS0AACEIIAEgBUEBaiIHNgIAIActAAAhCSABIAVBAmoiBzYCACAHLQAAIQogASAFQQNqIgc2AgAgBy0AACEHIAEgBUEEaiIFNgIAIAZBfGoiBg0ACyAIQRB0IAlBCHRyIApyQQh0IAdyIQYgBEUNAQsDQCAFIgUtAAAhByABIAVBAWoiBTYCACAHIAZBCHRyIQYgBEF/aiIEDQALC0EAIQQgBiACIAVrSw0CIAZBgAFJDQIMAQsgBA0AQQAhBAwBCwJAIAUgBmogAk0NAEEAIQQMAQsgBSwAACECAkACQAJAAkACQCAGQQFGIgQNACACDQBBACEEIAUsAAFBf0wNAQwFCwJAIAQNACACQX9HDQBBACEEIAUsAAFBf0oNAwwFCyACQQBIDQIgAg0BCyABIAVBAWoiBTYCACAGQX9qIQYLIAZBIEsNAAJAIAZFDQAgAyAGa0EgaiAFIAb8CgAACyAAIAMgA0EsahCWgICAACADKAIsRQ0BCyAAQgA3AxggAEIANwMQIABCADcDCCAAQgA3AwALIAEgASgCACAGajYCAEEBIQQLIANBMGokgICAgAAgBAvUAgECfyOAgICAAEHQAGsiAySAgICAAEEAIQQgA0EANgIMAkACQCABDQBBnoPAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAAwBCwJAAkAgAg0AQeyDwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgAAMAQsgA0EwaiACIANBDGoQloCAgAAgAygCDCEEIANBEGogAkEgaiADQQxqEJaAgIAAAkAgBCADKAIMcg0AIAEgAykDSDcAGCABIAMpA0A3ABAgASADKQM4NwAIIAEgAykDMDcAACABIAMpAxA3ACAgASADKQMYNwAoIAEgAykDIDcAMCABIAMpAyg3ADhBASEEDAILIAFCADcAOCABQgA3ADAgAUIANwAoIAFCADcAICABQgA3ABggAUIANwAQIAFCADcACCABQgA3AAALQQAhBAsgA0HQAGokgICAgAAgBAvDBAEHfiAAIAEpABgiA0I4hiADQoD+A4NCKIaEIANCgID8B4NCGIYgA0KAgID4D4NCCIaEhCADQgiIQoCAgPgPgyADQhiIQoCA/AeDhCADQiiIQoD+A4MgA0I4iISEhCIENwMAIAAgASkAECIDQjiGIANCgP4Dg0IohoQgA0KAgPwHg0IYhiADQoCAgPgPg0IIhoSEIANCCIhCgICA+A+DIANCGIhCgID8B4OEIANCKIhCgP4DgyADQjiIhISEIgU3AwggACABKQAIIgNCOIYgA0KA/gODQiiGhCADQoCA/AeDQhiGIANCgICA+A+DQgiGhIQgA0IIiEKAgID4D4MgA0IYiEKAgPwHg4QgA0IoiEKA/gODIANCOIiEhIQiBjcDECAAIAVCusCi+uqct9e6f1YgBkJ9VnEgASkAACIDQjiGIANCgP4Dg0IohoQgA0KAgPwHg0IYhiADQoCAgPgPg0IIhoSEIANCCIhCgICA+A+DIANCGIhCgID8B4OEIANCKIhCgP4DgyADQjiIhISEIgdCf1FxIgFBACAFQrvAovrqnLfXun9WGyAGIAeDQn9RciABQQAgBELAgtmBzdGX6b9/VhtyIgGtIgNCv/2m/rKu6JbAAH4iCCAEfCIENwMAIAAgA0LEv92FlePIqMUAfiIJIAV8IgUgBCAIVK18IgQ3AwggACADIAZ8IgYgBSAJVK0gBCAFVK18fCIFNwMQIAAgByAGIANUrSAFIAZUrXx8NwMYAkAgAkUNACACIAE2AgALC/AWBQF/DH4bfxx+AX8jgICAgABB4ABrIgQkgICAgAACQAJAIAENAEGTgsCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhAgwBCwJAIAINAEGMg8CCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhAgwBCwJAIAMNAEGeg8CCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhAgwBCyADKQA4IQUgAykAMCEGIAMpACghByADKQAgIQggAykAGCEJIAMpABAhCiADKQAIIQsgAykAACEMIARCADcDOCAEQgA3AzAgBCAMQjiIIg08AEkgBCALQjiIIg48AEEgBCAKQjiIIg88ADkgBCAJPAA4IAQgCUI4iCIQPAAxIARCADcDCCAEQgA3AwAgBCAJQjCIpyIROgAyIAQgCUIoiKciEjoAMyAEIAlCIIinIhM6ADQgBCAJQhiIpyIUOgA1IAQgCUIQiKciFToANiAEIAlCCIinIhY6ADcgBCAKQjCIpyIXOgA6IAQgCkIoiKciGDoAOyAEIApCIIinIhk6ADwgBCAKQhiIpyIaOgA9IAQgCkIQiKciGzoAPiAEIApCCIinIhw6AD8gBCALQjCIpyIdOgBCIAQgC0IoiKciHjoAQyAEIAtCIIinIh86AEQgBCALQhiIpyIgOgBFIAQgC0IQiKciIToARiAEIAtCCIinIiI6AEcgBCAMQjCIpyIjOgBKIAQgDEIoiKciJDoASyAEIAxCIIinIiU6AEwgBCAMQhiIpyImOgBNIAQgDEIQiKciJzoATiAEIAxCCIinIig6AE8gBCAKpyIpOgBAIAQgC6ciKjoASCAEIAynIis6AFAgBCAIPAAgIAQgCEI4iCIsPAAZIAQgBzwAGCAEIAdCOIgiLTwAESAEIAY8ABAgBCAGQjiIIi48AAkgBCAFPAAIIAQgBUI4iCIvPAABIAQgCEIIiCIwPAAfIAQgCEIQiCIxPAAeIAQgCEIYiCIyPAAdIAQgCEIgiCIzPAAcIAQgCEIoiCI0PAAbIAQgCEIwiCI1PAAaIAQgB0IIiCI2PAAXIAQgB0IQiCI3PAAWIAQgB0IYiCI4PAAVIAQgB0IgiCI5PAAUIAQgB0IoiCI6PAATIAQgB0IwiCI7PAASIAQgBkIIiCI8PAAPIAQgBkIQiCI9PAAOIAQgBkIYiCI+PAANIAQgBkIgiCI/PAAMIAQgBkIoiCJAPAALIAQgBkIwiCJBPAAKIAQgBUIIiCJCPAAHIAQgBUIQiCJDPAAGIAQgBUIYiCJEPAAFIAQgBUIgiCJFPAAEIAQgBUIoiCJGPAADIAQgBUIwiCJHPAACQSEhACAEQTBqIUgCQAJAIAQtADBFDQBBISEDDAELQSEhAyAJQgBTDQAgBEEwakEBciFIQSAhAyAQQgBSDQAgEcAiEUEASA0AIARBMGpBAnIhSEEfIQMgEQ0AIBLAIhFBAEgNACAEQTBqQQNyIUhBHiEDIBENACATwCIRQQBIDQAgBEEwakEEciFIQR0hAyARDQAgFMAiEUEASA0AIARBMGpBBXIhSEEcIQMgEQ0AIBXAIhFBAEgNACAEQTBqQQZyIUhBGyEDIBENACAWwCIRQQBIDQAgBEEwakEHciFIQRohAyARDQAgCafAIhFBAEgNACAEQTBqQQhyIUhBGSEDIBENACAKQgBTDQAgBEEwakEJciFIQRghAyAPQgBSDQAgF8AiEUEASA0AIARBMGpBCnIhSEEXIQMgEQ0AIBjAIhFBAEgNACAEQTBqQQtyIUhBFiEDIBENACAZwCIRQQBIDQAgBEEwakEMciFIQRUhAyARDQAgGsAiEUEASA0AIARBMGpBDXIhSEEUIQMgEQ0AIBvAIhFBAEgNACAEQTBqQQ5yIUhBEyEDIBENACAcwCIRQQBIDQAgBEEwakEPciFIQRIhAyARDQAgKcAiEUEASA0AIARBMGpBEGohSEERIQMgEQ0AIAtCAFMNACAEQTBqQRFqIUhBECEDIA5CAFINACAdwCIRQQBIDQAgBEEwakESaiFIQQ8hAyARDQAgHsAiEUEASA0AIARBMGpBE2ohSEEOIQMgEQ0AIB/AIhFBAEgNACAEQTBqQRRqIUhBDSEDIBENACAgwCIRQQBIDQAgBEEwakEVaiFIQQwhAyARDQAgIcAiEUEASA0AIARBMGpBFmohSEELIQMgEQ0AICLAIhFBAEgNACAEQTBqQRdqIUhBCiEDIBENACAqwCIRQQBIDQAgBEEwakEYaiFIQQkhAyARDQAgDEIAUw0AIARBMGpBGWohSEEIIQMgDUIAUg0AICPAIhFBAEgNACAEQTBqQRpqIUhBByEDIBENACAkwCIRQQBIDQAgBEEwakEbaiFIQQYhAyARDQAgJcAiEUEASA0AIARBMGpBHGohSEEFIQMgEQ0AICbAIhFBAEgNACAEQTBqQR1qIUhBBCEDIBENACAnwCIRQQBIDQAgBEEwakEeaiFIQQMhAyARDQAgKMAiEUEASA0AQQFBAiARRSArwMBBf0pxIkgbIQMgBEEwakEgaiAEQTBqQR9qIEgbIUgLIAQhEQJAIAQtAAANACAFQgBTDQAgBEEBciERQSAhACAvQgBSDQAgR6fAIhJBAEgNACAEQQJyIRFBHyEAIBINACBGp8AiEkEASA0AIARBA3IhEUEeIQAgEg0AIEWnwCISQQBIDQAgBEEEciERQR0hACASDQAgRKfAIhJBAEgNACAEQQVyIRFBHCEAIBINACBDp8AiEkEASA0AIARBBnIhEUEbIQAgEg0AIEKnwCISQQBIDQAgBEEHciERQRohACASDQAgBafAIhJBAEgNACAEQQhyIRFBGSEAIBINACAGQgBTDQAgBEEJciERQRghACAuQgBSDQAgQafAIhJBAEgNACAEQQpyIRFBFyEAIBINACBAp8AiEkEASA0AIARBC3IhEUEWIQAgEg0AID+nwCISQQBIDQAgBEEMciERQRUhACASDQAgPqfAIhJBAEgNACAEQQ1yIRFBFCEAIBINACA9p8AiEkEASA0AIARBDnIhEUETIQAgEg0AIDynwCISQQBIDQAgBEEPciERQRIhACASDQAgBqfAIhJBAEgNACAEQRBqIRFBESEAIBINACAHQgBTDQAgBEERaiERQRAhACAtQgBSDQAgO6fAIhJBAEgNACAEQRJqIRFBDyEAIBINACA6p8AiEkEASA0AIARBE2ohEUEOIQAgEg0AIDmnwCISQQBIDQAgBEEUaiERQQ0hACASDQAgOKfAIhJBAEgNACAEQRVqIRFBDCEAIBINACA3p8AiEkEASA0AIARBFmohEUELIQAgEg0AIDanwCISQQBIDQAgBEEXaiERQQohACASDQAgB6fAIhJBAEgNACAEQRhqIRFBCSEAIBINACAIQgBTDQAgBEEZaiERQQghACAsQgBSDQAgNafAIhJBAEgNACAEQRpqIRFBByEAIBINACA0p8AiEkEASA0AIARBG2ohEUEGIQAgEg0AIDOnwCISQQBIDQAgBEEcaiERQQUhACASDQAgMqfAIhJBAEgNACAEQR1qIRFBBCEAIBINACAxp8AiEkEASA0AIARBHmohEUEDIQAgEg0AIDCnwCISQQBIDQBBAUECIBJFIAinwMBBf0pxIhEbIQAgBEEgaiAEQR9qIBEbIRELIAIoAgAhEiACIAMgAGoiFEEGaiITNgIAQQAhAiASIBNJDQAgASADOgADIAFBAjoAAiABQTA6AAAgASAUQQRqOgABAkAgA0UNACABQQRqIEggA/wKAAALIAEgA2oiA0EFaiAAOgAAIANBBGpBAjoAAAJAIABFDQAgA0EGaiARIAD8CgAAC0EBIQILIARB4ABqJICAgIAAIAIL7wEBAX8jgICAgABBwABrIgMkgICAgAACQAJAIAENAEHbg8CCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhAgwBCwJAIAINAEGeg8CCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhAgwBCyADIAIpABg3AzggAyACKQAQNwMwIAMgAikACDcDKCADIAIpAAA3AyAgAyACKQAgNwMAIAMgAikAKDcDCCADIAIpADA3AxAgAyACKQA4NwMYIAEgA0EgahCZgICAACABQSBqIAMQmYCAgABBASECCyADQcAAaiSAgICAACACC/ICACAAIAExAB88AAAgACABMwEePAABIAAgASkDGEIoiDwAAiAAIAE1Ahw8AAMgACABKQMYQhiIPAAEIAAgASkDGEIQiDwABSAAIAEpAxhCCIg8AAYgACABKQMYPAAHIAAgATEAFzwACCAAIAEzARY8AAkgACABKQMQQiiIPAAKIAAgATUCFDwACyAAIAEpAxBCGIg8AAwgACABKQMQQhCIPAANIAAgASkDEEIIiDwADiAAIAEpAxA8AA8gACABMQAPPAAQIAAgATMBDjwAESAAIAEpAwhCKIg8ABIgACABNQIMPAATIAAgASkDCEIYiDwAFCAAIAEpAwhCEIg8ABUgACABKQMIQgiIPAAWIAAgASkDCDwAFyAAIAExAAc8ABggACABMwEGPAAZIAAgASkDAEIoiDwAGiAAIAE1AgQ8ABsgACABKQMAQhiIPAAcIAAgASkDAEIQiDwAHSAAIAEpAwBCCIg8AB4gACABKQMAPAAfC5gDAwF+AX8HfgJAIAINAEH+gsCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAPC0EAIAIpADgiA0I/iKciAEEBcyIEIAIpADAiBUJ/URsgA0L///////////8AVHIgBEEAIAIpACgiBkKdoJG9tc7bq90AVBtyQQFzIgQgBEEAIAIpACAiB0KgwezA5ujL9F9WGyAGQp2gkb21ztur3QBWGyAAciEAAkAgAUUNAAJAIABFDQBCACADQn+FIAVCf4UiCCAGQn+FIgkgB0J/hSIKQsKC2YHN0Zfpv398IgsgClStfCIKIAlUrSAKQrvAovrqnLfXun98IgkgClStfHwiCiAIVK0gCkJ+fCIIIApUrXx8Qn98IAYgB4QgBYQgA4RQIgQbIQNCACAIIAQbIQVCACALIAQbIQdCACAJIAQbIQYLIAIpAAAhCiACKQAIIQggAikAECEJIAEgAikAGDcAGCABIAk3ABAgASAINwAIIAEgCjcAACABIAM3ADggASAFNwAwIAEgBjcAKCABIAc3ACALIAALwwIBB34CQCABDQBBsILAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAEEADwsCQCACDQBB/oLAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAEEADwsgAikAOCEDIAIpADAhBCACKQAoIQUgAikAICEGIAIpAAAhByACKQAIIQggAikAECEJIAEgAikAGDcAGCABIAk3ABAgASAINwAIIAEgBzcAACABQgAgBkJ/hSIHQsKC2YHN0Zfpv398IgggAyAEIAUgBoSEhFAiAhs3ACAgAUIAIAVCf4UiBiAIIAdUrXwiBUK7wKL66py317p/fCIHIAIbNwAoIAFCACAEQn+FIgggBSAGVK0gByAFVK18fCIEQn58IgUgAhs3ADAgAUIAIANCf4UgBCAIVK0gBSAEVK18fEJ/fCACGzcAOEEBC5MLBAJ/AX4BfxB+I4CAgIAAQdADayIEJICAgIAAAkACQCAAKAIADQBBjIXAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAEEAIQUMAQsCQCACDQBBzITAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAEEAIQUMAQsCQCABDQBBnoPAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAEEAIQUMAQsCQCADDQBBhILAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAEEAIQUMAQtBACEFIARBCGogAkEAEJaAgIAAIAQgASkAGDcDQCAEIAEpABA3AzggBCABKQAINwMwIAQgASkAADcDKEEAIAEpADgiBkI/iKciAkEBcyIHIAEpADAiCEJ/URsgBkL///////////8AVHIgB0EAIAEpACgiCUKdoJG9tc7bq90AVBtyQQFzIgcgB0EAIAEpACAiCkKgwezA5ujL9F9WGyAJQp2gkb21ztur3QBWGyACcg0AAkAgAykACCILQgyGQoDg//////8HgyADKQAAIgxCNIiEIg0gDEL/////////B4MiDoQgAykAGCIMQhCIIg+EIAMpABAiEEIYhkKAgID4////B4MgC0IoiIQiC4QgDEIkhkKAgICAgP7/B4MgEEIciIQiDIRCAFINAEH8hcCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAADAELQQAhBSAEKQMwIhAgBCkDKCIRhCAEKQM4IhKEIAQpA0AiE4RQDQAgCSAKhCAIhCAGhFANACADKQAwIRQgAykAOCEVIAMpACghFiADKQAgIRcgBCAGQjiINwPoASAEIApC//////////8/gzcDyAEgBCAGQgaGIAhCOoiEQv//////////P4M3A+ABIAQgCEIEhiAJQjyIhEL//////////z+DNwPYASAEIAlCAoYgCkI+iIRC//////////8/gzcD0AEgBEHIAWpBwInAggAQnYCAgAAgBCAEKQPoAUI4hiAEKQPgASIGQgaIhDcDyAMgBCAGQjqGIAQpA9gBIgZCBIiENwPAAyAEIAZCPIYgBCkD0AEiBkICiIQ3A7gDIAQgBkI+hiAEKQPIAYQ3A7ADIARBkANqIARBsANqIARBCGoQnoCAgAAgBEHwAmogBEGwA2ogBEEoahCegICAACAEQgA3A6ACIARCATcDmAIgBCAVQhCINwOQAiAEIBVCJIZCgICAgID+/weDIBRCHIiENwOIAiAEIBRCGIZCgICA+P///weDIBZCKIiENwOAAiAEIBZCDIZCgOD//////weDIBdCNIiENwP4ASAEIBdC/////////weDNwPwASAEIA83A+gBIAQgDDcD4AEgBCALNwPYASAEIA03A9ABIAQgDjcDyAFBACEFIARBADYCwAIgBEIANwOoAiAEQgA3A7ACIARCADcDuAIgACAEQcgAaiAEQcgBaiAEQfACaiAEQZADahCfgICAACAEKALAAQ0AIAQgE0IQiCIGNwPoAiAEIBFC/////////weDIgk3A8gCIAQgE0IkhkKAgICAgP7/B4MgEkIciIQiCjcD4AIgBCASQhiGQoCAgPj///8HgyAQQiiIhCIINwPYAiAEIBBCDIZCgOD//////weDIBFCNIiEIgs3A9ACQQEhBSAEQcgCaiAEQcgAahCggICAAA0AQQAhBSAEQcgCahChgICAAEF/Sg0AIAQgBkL///////8/fDcD6AIgBCAKQv////////8HfDcD4AIgBCAIQtzd6vX///8HfDcD2AIgBCALQv33jtDI3poHfDcD0AIgBCAJQsGC2YHN0ZcBfDcDyAIgBEHIAmogBEHIAGoQoICAgAAhBQsgBEHQA2okgICAgAAgBQv9DgcDfwh+AX8CfgF/B34EfyOAgICAAEHAAmsiAiSAgICAACACQgA3A7gCIAJCADcDsAIgAkIANwOoAiACQgA3A6ACIAJCADcDmAIgAkIANwOQAiACQgA3A4gCIAJCADcDgAIgAkIANwP4ASACQgE3A/ABIAIgASkDIDcD6AEgAiABKQMYNwPgASACIAEpAxA3A9gBIAIgASkDCDcD0AEgAiABKQMANwPIASACIAApAyA3A8ABIAIgACkDGDcDuAEgAiAAKQMQNwOwASACIAApAwg3A6gBIAIgACkDADcDoAEgAkGgAWpBIGohA0EFIQRCfyEFA0AgBSACKQOgASIGQoCAgICAgICAQIR6Igd9IQVCgICAgICAgIDAACEIIAIpA8gBIQkCQAJAIAdCPlINAEIAIQdCASEKQgAhCwwBCyAGIAeIIQxCASEKQgEgB4YhCEE+IAenayENQgAhCyAJIQ5CACEHA0ACQAJAIAVCf1UNACAMQgAgDn0iD34gDCAMfkI+fH5Cf0HAAEIAIAV9IgWnQQFqIhAgDSAQIA1IG2utiINCP4MhEUIAIAt9IRJCACAIfSETIAohFCAMIQ4MAQtCf0HAACAFp0EBaiIQIA0gECANSBtrrYhCACAMIA5CAYZCAnxCCIMgDnx+fYNCD4MhESALIRQgByETIAohEiAMIQ8gCCEHCyAFIBEgDn4gD3wiDEJ/IA2thoR6Ig99IQUgFCAPhiELIAcgD4YhCCAMIA+IIQwgESAUfiASfCEKIAcgEX4gE3whByANIA+nayINDQALCyACIAo3A5gBIAIgBzcDkAEgAiALNwOIASACIAg3A4ABIAJBmAJqIAJB8AFqIAJBgAFqIAEQ1YCAgAAgAkHwAGogCCAIQj+HIhUgCSAJQj+HIg8Q4ICAgAAgAkHQAGogCyALQj+HIhYgBiAGQj+HIhEQ4ICAgAAgAkHgAGogByAHQj+HIhcgCSAPEOCAgIAAIAJBwABqIAogCkI/hyIJIAYgERDggICAACACKQNQIg8gAikDcHwiEUI+iCACKQNYIAIpA3h8IBEgD1StfCIUQgKGhCEMIAIpA0AiDyACKQNgfCIRQj6IIAIpA0ggAikDaHwgESAPVK18Ig9CAoaEIQ4CQCAEQQJIIhgNACAUQj6HIRQgD0I+hyESIARBf2ohGSACQaABaiENIAJByAFqIRADQCACQSBqIBBBCGoiGikDACIPIA9CP4ciEyAIIBUQ4ICAgAAgAiANQQhqIhspAwAiESARQj+HIgYgCyAWEOCAgIAAIAJBMGogDyATIAcgFxDggICAACACQRBqIBEgBiAKIAkQ4ICAgAAgECACKQMgIhMgDHwiDyACKQMAfCIRQv//////////P4M3AwAgDSACKQMwIgYgDnwiDCACKQMQfCIOQv//////////P4M3AwAgAikDKCAUfCAPIBNUrXwgAikDCHwgESAPVK18Ig9CPochFCACKQM4IBJ8IAwgBlStfCACKQMYfCAOIAxUrXwiE0I+hyESIBFCPoggD0IChoQhDCAOQj6IIBNCAoaEIQ4gGiEQIBshDSAZQX9qIhkNAAsLIAJBoAFqIARBf2oiG0EDdCINaiAONwMAIAJByAFqIA1qIAw3AwACQAJAIAIpA6ABQgBSDQAgGA0BIBtBA3EhEAJAAkACQCAEQX5qQQNPDQBCACEHQQEhDQwBCyAbQXxxIRpBACEZQgAhByADIQ0DQCANKQMAIA1BeGopAwAgDUFwaikDACANQWhqKQMAIAeEhISEIQcgDUEgaiENIBogGUEEaiIZRw0ACyAQRQ0BIBlBAWohDQsgAkGgAWogDUEDdGohDQNAIA0pAwAgB4QhByANQQhqIQ0gEEF/aiIQDQALCyAHUA0BCyAOQj+HIA6FIASsQn58Qj+HhCAMQj+HIAyFhEIAUg0BIAJByAFqIARBA3RBcGoiDWoiECAQKQMAIAxCPoaENwMAIAJBoAFqIA1qIg0gDSkDACAOQj6GhDcDACAbIQQMAQsLIAAgASkDCCIFIAIpA7gCIhFCP4ciD4MgAikDoAJ8IAxCP4ciB4UgB30gASkDACIMIA+DIAIpA5gCfCAHhSAHfSIIQj6HfCIKQj6HIAEpAxAiCyAPgyACKQOoAnwgB4UgB318Ig5CPocgASkDGCIUIA+DIAIpA7ACfCAHhSAHfXwiEkI+hyABKQMgIhMgD4MgEXwgB4UgB318Ig9CP4ciByAMgyAIQv//////////P4N8IhFC//////////8/gyIMNwMAIAAgByAFgyAKQv//////////P4N8IBFCPod8IgVC//////////8/gyIRNwMIIAAgByALgyAOQv//////////P4N8IAVCPod8IgVC//////////8/gyIINwMQIAAgByAUgyASQv//////////P4N8IAVCPod8IgVC//////////8/gyIKNwMYIAAgByATgyAPfCAFQj6HfDcDICACIAw3A5gCIAIgETcDoAIgAiAINwOoAiACIAo3A7ACIAJBwAJqJICAgIAAC7QJAgF/Cn4jgICAgABBoAJrIgMkgICAgAAgA0HgAWogASACEM6AgIAAIANB0AFqIAMpA4ACIgRCAEK//ab+sq7olsAAQgAQ4ICAgAAgA0GwAWogAykDiAIiBUIAQr/9pv6yruiWwABCABDggICAACADQcABaiAEQgBCxL/dhZXjyKjFAEIAEOCAgIAAIANBkAFqIAMpA5ACIgZCAEK//ab+sq7olsAAQgAQ4ICAgAAgA0GgAWogBUIAQsS/3YWV48ioxQBCABDggICAACADQfAAaiADKQOYAiIHQgBCv/2m/rKu6JbAAEIAEOCAgIAAIANBgAFqIAZCAELEv92FlePIqMUAQgAQ4ICAgAAgA0HgAGogB0IAQsS/3YWV48ioxQBCABDggICAACADQdAAaiAGIAMpA2AiCCADKQOIAXwgAykDeHwgAykDmAEgAykDqAF8IAMpA/gBIgl8IAMpA7gBIAMpA8gBfCADKQPwASIKfCADKQPoASILIAMpA9gBfCADKQPgASIMIAMpA9ABfCINIAxUrXwiDCALVK18IAwgAykDsAF8IgsgDFStfCALIAMpA8ABfCIMIAtUrXwiCyAKVK18IAsgAykDkAF8IgogC1StfCAKIAMpA6ABfCILIApUrXwgCyAEfCIKIAtUrXwiBCAJVK18IAQgAykDcHwiCyAEVK18IAsgAykDgAF8IgQgC1StfCAEIAV8IgsgBFStfCIFfCIEQgBCv/2m/rKu6JbAAEIAEOCAgIAAIANBMGogByADKQNofCAFIAhUrXwgBCAFVK18IgVCAEK//ab+sq7olsAAQgAQ4ICAgAAgA0HAAGogBEIAQsS/3YWV48ioxQBCABDggICAACADQSBqIAVCAELEv92FlePIqMUAQgAQ4ICAgAAgA0EQaiALIAMpAyh8IAogAykDSHwgAykDOHwgDCADKQNYfCANIAMpA1B8IgggDVStfCIGIAxUrXwgBiADKQMwfCINIAZUrXwgDSADKQNAfCIMIA1UrXwiBiAKVK18IAZCv/2m/rKu6JbAAEIAIAUgB1QiAht8IgcgBlStfCAHIAMpAyB8IgYgB1StfCAGIAR8Ig0gBlStfCIHIAtUIAJqIAdCxL/dhZXjyKjFAEIAIAIbfCIEIAdUaiAEIAV8IgsgBFRqrSIFQgBCv/2m/rKu6JbAAEIAEOCAgIAAIAMgBUIAQsS/3YWV48ioxQBCABDggICAACAAIAMpAwAiCiAMfCIEIAMpAxggAykDECIHIAh8IgYgB1StfHwiB0K6wKL66py317p/ViAFIA18Ig0gAykDCCAEIApUrXwgByAEVK18fCIEQn1WcSANIAVUrSAEIA1UrXwiDSALfCIFQn9RcSICQQAgB0K7wKL66py317p/VhsgBCAFg0J/UXIgAkEAIAZCwILZgc3Rl+m/f1YbciAFIA1Uaq0iDUK//ab+sq7olsAAfiIMIAZ8Igs3AwAgACAHIA1CxL/dhZXjyKjFAH58IgYgCyAMVK18Igw3AwggACAEIA18Ig0gBiAHVK0gDCAGVK18fCIHNwMQIAAgDSAEVK0gByANVK18IAV8NwMYIANBoAJqJICAgIAAC/khBwV/A34BfwF+AX8QfgJ/I4CAgIAAQfArayIFJICAgIAAAkACQAJAIAMpAwggAykDAIQgAykDEIQgAykDGIRQDQAgAkH4AGooAgBFDQELIAVCADcD+CogBUIBNwPwKiAFQgA3A4ArIAVCADcDiCsgBUIANwOQK0EAIQNBACEGDAELQQAhByAFQQA2AoASIAVBsAlqIAVBsAlqQSBqIgggAxC6gICAACAFIAVB8AlqIAVBsAlqQQUQ0ICAgAA2AvgRIAUgBUH0DWogCEEFENCAgIAAIgY2AvwRIAUoAvgRIQkgBUGQGmogBUHQF2ogAiAFKAKAEkEHdGoQvICAgABBCCAFQZASaiAFQfAqaiAFQZAaaiAFQdAXahC9gICAAANAIAVB8ANqIAdqIgMgBUGQEmogB2pB2AD8CgAAIAVBwABqIAMpAwAiCkIAQurzkbLuoBxCABDggICAACAFQZABaiADQQhqIgIpAwAiC0IAQsng88zOho0GQgAQ4ICAgAAgBUHgAWogA0EQaiIIKQMAIgxCAEKTuOXE9aXUA0IAEOCAgIAAIAVBsAJqIANBGGoiDSkDACIOQgBC7oPUjIeF2wRCABDggICAACAFQaADaiADQSBqIg8pAwAiEEIAQvzKrdGW3R5CABDggICAACAFQZADaiAFKQOgAyIRQvz///////8Hg0IAQpD6gICAAkIAEOCAgIAAIAVB0ABqIApCAEL8yq3Rlt0eQgAQ4ICAgAAgBUGgAWogC0IAQurzkbLuoBxCABDggICAACAFQfABaiAMQgBCyeDzzM6GjQZCABDggICAACAFQcACaiAOQgBCk7jlxPWl1ANCABDggICAACAFQbADaiAQQgBC7oPUjIeF2wRCABDggICAACAFQYADaiARQjSIIAUpA6gDIhFCDIaEIBFCNIhCkPqAgIACQgAQ4ICAgAAgBUHgAGogCkIAQu6D1IyHhdsEQgAQ4ICAgAAgBUGwAWogC0IAQvzKrdGW3R5CABDggICAACAFQYACaiAMQgBC6vORsu6gHEIAEOCAgIAAIAVB0AJqIA5CAELJ4PPMzoaNBkIAEOCAgIAAIAVBwANqIBBCAEKTuOXE9aXUA0IAEOCAgIAAIAUgBSkDgAIiEiAFKQOwAXwiEyAFKQPQAnwiFCAFKQPAA3wiFSAFKQOgASIWIAUpA1B8IhcgBSkD8AF8IhggBSkDwAJ8IhkgBSkDsAN8IhogBSkDgAN8IhsgBSkDkAEiHCAFKQNAfCIRIAUpA+ABfCIdIAUpA7ACfCIeIAUpA5ADfCIfQjSIIAUpA5gBIAUpA0h8IBEgHFStfCAFKQPoAXwgHSARVK18IAUpA7gCfCAeIB1UrXwgBSkDmAN8IB8gHlStfCIdQgyGhHwiEUI0iCAFKQOoASAFKQNYfCAXIBZUrXwgBSkD+AF8IBggF1StfCAFKQPIAnwgGSAYVK18IAUpA7gDfCAaIBlUrXwgBSkDiAN8IBsgGlStfCAdQjSIfCARIBtUrXwiG0IMhoR8IhdCBIZC8P////////8AgyARQjCIQg+DhEIAQtGHgIAQQgAQ4ICAgAAgAyAFKQMAIh0gBSkDYHwiGEL/////////B4M3AwAgBUHwAGogCkIAQpO45cT1pdQDQgAQ4ICAgAAgBUHAAWogC0IAQu6D1IyHhdsEQgAQ4ICAgAAgBUGQAmogDEIAQvzKrdGW3R5CABDggICAACAFQeACaiAOQgBC6vORsu6gHEIAEOCAgIAAIAVB0ANqIBBCAELJ4PPMzoaNBkIAEOCAgIAAIAVBMGogBSkD4AIiHiAFKQOQAnwiGSAFKQPQA3wiGiAXQjSIIAUpA4gCIAUpA7gBfCATIBJUrXwgBSkD2AJ8IBQgE1StfCAFKQPIA3wgFSAUVK18IBtCNIh8IBcgFVStfCIbQgyGhHwiE0L/////////B4NCAEKQ+oCAgAJCABDggICAACACIAUpA8ABIhIgBSkDcHwiFCAFKQMwfCIVIBhCNIggBSkDCCAFKQNofCAYIB1UrXwiGEIMhoR8IhdC/////////weDNwMAIAVBgAFqIApCAELJ4PPMzoaNBkIAEOCAgIAAIAVB0AFqIAtCAEKTuOXE9aXUA0IAEOCAgIAAIAVBoAJqIAxCAELug9SMh4XbBEIAEOCAgIAAIAVB8AJqIA5CAEL8yq3Rlt0eQgAQ4ICAgAAgBUHgA2ogEEIAQurzkbLuoBxCABDggICAACAFQSBqIAUpA+ADIh0gBSkD8AJ8IgogE0I0iCAFKQPoAiAFKQOYAnwgGSAeVK18IAUpA9gDfCAaIBlUrXwgG0I0iHwgEyAaVK18IhlCDIaEfCILQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAggBSkD0AEiGiAFKQOAAXwiDCAFKQOgAnwiDiAFKQMgfCIQIBdCNIggBSkDyAEgBSkDeHwgFCASVK18IAUpAzh8IBUgFFStfCAYQjSIfCAXIBVUrXwiFEIMhoR8IhNC/////////weDNwMAIAVBEGogC0I0iCAFKQPoAyAFKQP4AnwgCiAdVK18IBlCNIh8IAsgClStfCIKQgyGhCAKQjSIQpD6gICAAkIAEOCAgIAAIA0gBSkDECIVIB9C/////////weDfCIKIBNCNIggBSkD2AEgBSkDiAF8IAwgGlStfCAFKQOoAnwgDiAMVK18IAUpAyh8IBAgDlStfCAUQjSIfCATIBBUrXwiDEIMhoR8IgtC/////////weDNwMAIA8gC0I0iCAFKQMYIAogFVStfCAMQjSIfCALIApUrXxCDIaEIBFC////////P4N8NwMAIAdB2ABqIgdBwAVHDQALIAkgBiAJIAZKGyIDQQAgA0EAShshA0EBIQYLIAVCADcD4CogBUIANwPoKiAFQgA3A8AqIAVCADcDyCogBSAEKQMANwPQKiAFIAQpAwg3A9gqIAUgBCkDEDcDsCogBSAEKQMYNwO4KiAFQaAmaiAFQdAqakEPENCAgIAAIQ8gBUGQImogBUGwKmpBDxDQgICAACEEIAFBATYCeCABQQBB+AD8CwACQCAEIA8gAyAPIANKGyIDIAQgA0obIgNFDQAgA0ECdCICIAVBsAlqakHABGohByAFQaAmaiACQXxqIghqIQIgBUGQImogCGohCCAFKAL8ESEgIAUoAvgRISEDQAJAAkAgASgCeEUNACABQQE2AnggAUEAQfgA/AsADAELIAEgARCHgICAAAsCQCAGRQ0AAkAgAyAhSg0AIAdB/HtqKAIAIg1FDQACQAJAIA1BAUgNACAFQZgraiAFQZASaiANQX9qQQF2QdgAbGpB2AD8CgAADAELIAVBmCtqIAVBkBJqIA1Bf3NBAXZB2ABsakHYAPwKAAAgBUK84f//v///HyAFKQPAK303A8ArIAVC/P///////x8gBSkDyCt9NwPIKyAFQvz///////8fIAUpA9ArfTcD0CsgBUL8////////HyAFKQPYK303A9grIAVC/P///////wEgBSkD4Ct9NwPgKwsgASABIAVBmCtqQQAQhYCAgAALIAMgIEoNACAHKAIAIg1FDQACQAJAIA1BAUgNACAFQZgraiAFQfADaiANQX9qQQF2QdgAbGpB2AD8CgAADAELIAVBmCtqIAVB8ANqIA1Bf3NBAXZB2ABsakHYAPwKAAAgBUK84f//v///HyAFKQPAK303A8ArIAVC/P///////x8gBSkDyCt9NwPIKyAFQvz///////8fIAUpA9ArfTcD0CsgBUL8////////HyAFKQPYK303A9grIAVC/P///////wEgBSkD4Ct9NwPgKwsgASABIAVBmCtqQQAQhYCAgAALAkAgAyAPSg0AIAIoAgAiDUUNACAAKAIAIQkCQAJAIA1BAUgNACAFIAkgDUEFdEFgakFAcWoiDSkDACIKQv////////8HgzcDmCsgBSANKQMIIgtCDIZCgOD//////weDIApCNIiENwOgKyAFIA0pAxAiCkIYhkKAgID4////B4MgC0IoiIQ3A6grIAUgDSkDGCILQhCINwO4KyAFIAtCJIZCgICAgID+/weDIApCHIiENwOwKyAFIA0pAyAiCkL/////////B4M3A8ArIAUgDSkDKCILQgyGQoDg//////8HgyAKQjSIhDcDyCsgBSANKQMwIgpCGIZCgICA+P///weDIAtCKIiENwPQKyANKQM4IgtCJIZCgICAgID+/weDIApCHIiEIQogC0IQiCELDAELIAUgCSANQX9zQQV0QUBxaiINKQMAIgpC/////////weDNwOYKyAFIA0pAwgiC0IMhkKA4P//////B4MgCkI0iIQ3A6ArIAUgDSkDECIKQhiGQoCAgPj///8HgyALQiiIhDcDqCsgBSANKQMYIgtCEIg3A7grIAUgC0IkhkKAgICAgP7/B4MgCkIciIQ3A7ArIA0pAzghCyANKQMwIQogDSkDKCEMIAVCvOH//7///x8gDSkDICIOQv////////8Hg303A8ArIAVC/P///////x8gDEIoiCAKQhiGQoCAgPj///8Hg4R9NwPQKyAFQvz///////8fIA5CNIggDEIMhkKA4P//////B4OEfTcDyCtC/P///////x8gCkIciCALQiSGQoCAgICA/v8Hg4R9IQpC/P///////wEgC0IQiH0hCwsgBUEANgLoKyAFIAs3A+ArIAUgCjcD2CsgASABIAVBmCtqIAVB8CpqENGAgIAACwJAIAMgBEoNACAIKAIAIg1FDQAgACgCBCEJAkACQCANQQFIDQAgBSAJIA1BBXRBYGpBQHFqIg0pAwAiCkL/////////B4M3A5grIAUgDSkDCCILQgyGQoDg//////8HgyAKQjSIhDcDoCsgBSANKQMQIgpCGIZCgICA+P///weDIAtCKIiENwOoKyAFIA0pAxgiC0IQiDcDuCsgBSALQiSGQoCAgICA/v8HgyAKQhyIhDcDsCsgBSANKQMgIgpC/////////weDNwPAKyAFIA0pAygiC0IMhkKA4P//////B4MgCkI0iIQ3A8grIAUgDSkDMCIKQhiGQoCAgPj///8HgyALQiiIhDcD0CsgDSkDOCILQiSGQoCAgICA/v8HgyAKQhyIhCEKIAtCEIghCwwBCyAFIAkgDUF/c0EFdEFAcWoiDSkDACIKQv////////8HgzcDmCsgBSANKQMIIgtCDIZCgOD//////weDIApCNIiENwOgKyAFIA0pAxAiCkIYhkKAgID4////B4MgC0IoiIQ3A6grIAUgDSkDGCILQhCINwO4KyAFIAtCJIZCgICAgID+/weDIApCHIiENwOwKyANKQM4IQsgDSkDMCEKIA0pAyghDCAFQrzh//+///8fIA0pAyAiDkL/////////B4N9NwPAKyAFQvz///////8fIAxCKIggCkIYhkKAgID4////B4OEfTcD0CsgBUL8////////HyAOQjSIIAxCDIZCgOD//////weDhH03A8grQvz///////8fIApCHIggC0IkhkKAgICAgP7/B4OEfSEKQvz///////8BIAtCEIh9IQsLIAVBADYC6CsgBSALNwPgKyAFIAo3A9grIAEgASAFQZgraiAFQfAqahDRgICAAAsgAkF8aiECIAhBfGohCCAHQXxqIQcgA0F/aiIDQQFqQQFKDQALIAEoAngNACABQdAAaiIDIAMgBUHwKmoQiICAgAALIAVB8CtqJICAgIAAC7ADAgF/Bn4jgICAgABBMGsiAiSAgICAACACQQhqIAFB0ABqEIqAgIAAIAJBCGogAkEIaiAAEIiAgIAAAkACQCABKQMgIgNCMIhC0YeAgBB+IAEpAwB8IgRC/////////weDIAIpAwh9IANC////////P4MgAikDKH0gBEI0iCABKQMIfCIEQjSIIAEpAxB8IgVCNIggASkDGHwiBkI0iHxC/P///////wF8IgdCMIhC0YeAgBB+fEK84f//v///H3wiA0L/////////B4MiCEKv+P//7///B1ENAEEAIQEgCEIAUg0BCyAEQv////////8HgyADQjSIfCACKQMQfUL8////////H3wiBCADhCAFQv////////8HgyACKQMYfSAEQjSIfEL8////////H3wiBYQgBkL/////////B4MgAikDIH0gBUI0iHxC/P///////x98IgaEQv////////8HgyAGQjSIIAdC////////P4N8IgeEUCADQtCHgIAQhCAHQoCAgICAgMAHhYMgBIMgBYMgBoNC/////////wdRciEBCyACQTBqJICAgIAAIAELnwECAX4BfwJAIAApAyBCAFENAEEBDwsCQCAAKQMYQgBRDQBBAQ8LAkAgACkDECIBQqOilQpYDQBBAQ8LQX8hAgJAIAFCo6KVClINAAJAIAApAwgiAUKCiPGvt6HlAFgNAEEBDwsgAUKCiPGvt6HlAFINAEEBIQIgACkDACIBQu71pv6irugGVg0AQX9BACABQu71pv6irugGUhshAgsgAgueAgEBfyOAgICAAEHAAWsiBiSAgICAACAGIAIpAAA3A1AgBiACKQAINwNYIAYgAikAEDcDYCAGIAIpABg3A2ggBiABKQAANwNwIAYgASkACDcDeCAGIAEpABA3A4ABIAYgASkAGDcDiAFBwAAhASAGQdAAakHAAGohAgJAIARFDQAgAiAEKQAYNwAYIAIgBCkAEDcAECACIAQpAAg3AAggAiAEKQAANwAAQeAAIQEgBkHQAGpB4ABqIQILAkAgA0UNACACIAMpAAg3AAggAiADKQAANwAAIAFBEHIhAQsgBkEMaiAGQdAAaiABEKOAgIAAQQAhAgNAIAZBDGogABCkgICAACACQQFqIgIgBU0NAAsgBkHAAWokgICAgABBAQvcEAEGfyOAgICAAEGQAmsiAySAgICAACAAQoGChIiQoMCAATcCGCAAQoGChIiQoMCAATcCECAAQoGChIiQoMCAATcCCCAAQoGChIiQoMCAATcCACAAQgA3AiAgAEIANwIoIABCADcCMCAAQgA3AjggA0Krs4/8kaOz8NsANwKEASADQv+kuYjFkdqCm383AnwgA0Ly5rvjo6f9p6V/NwJ0IANC58yn0NbQ67O7fzcCbEEAIQQgA0EANgLMASADQgA3A4gCIANCADcDgAIgA0IANwP4ASADQgA3A/ABIANCADcD6AEgA0IANwPgASADQgA3A9gBIANCADcD0AEgAEEgaiEFIANB7ABqIQYDQCADQdABaiAEaiIHIActAABB3ABzOgAAIAdBAWoiCCAILQAAQdwAczoAACAHQQJqIgggCC0AAEHcAHM6AAAgB0EDaiIHIActAABB3ABzOgAAIARBBGoiBEHAAEcNAAsgBiADQdABakHAABCCgICAAEEAIQQgA0EANgJoIANCq7OP/JGjs/DbADcCICADQv+kuYjFkdqCm383AhggA0Ly5rvjo6f9p6V/NwIQIANC58yn0NbQ67O7fzcCCANAIANB0AFqIARqIgcgBy0AAEHqAHM6AAAgB0EBaiIIIAgtAABB6gBzOgAAIAdBAmoiCCAILQAAQeoAczoAACAHQQNqIgcgBy0AAEHqAHM6AAAgBEEEaiIEQcAARw0ACyADQQhqIANB0AFqQcAAEIKAgIAAIANBCGogAEEgEIKAgIAAIANBCGpB8InAggBBARCCgICAACADQQhqIAEgAhCCgICAACADQQhqIAUQ1oCAgABBACEEIANBADYCzAEgA0Krs4/8kaOz8NsANwKEASADQv+kuYjFkdqCm383AnwgA0Ly5rvjo6f9p6V/NwJ0IANC58yn0NbQ67O7fzcCbCADQgA3A/ABIANCADcD+AEgA0IANwOAAiADQgA3A4gCIAMgBSkAGDcD6AEgAyAFKQAQNwPgASADIAUpAAg3A9gBIAMgBSkAADcD0AEDQCADQdABaiAEaiIHIActAABB3ABzOgAAIAdBAWoiCCAILQAAQdwAczoAACAHQQJqIgggCC0AAEHcAHM6AAAgB0EDaiIHIActAABB3ABzOgAAIARBBGoiBEHAAEcNAAsgBiADQdABakHAABCCgICAAEEAIQQgA0EANgJoIANCq7OP/JGjs/DbADcCICADQv+kuYjFkdqCm383AhggA0Ly5rvjo6f9p6V/NwIQIANC58yn0NbQ67O7fzcCCANAIANB0AFqIARqIgcgBy0AAEHqAHM6AAAgB0EBaiIIIAgtAABB6gBzOgAAIAdBAmoiCCAILQAAQeoAczoAACAHQQNqIgcgBy0AAEHqAHM6AAAgBEEEaiIEQcAARw0ACyADQQhqIANB0AFqQcAAEIKAgIAAIANBCGogAEEgEIKAgIAAIANBCGogABDWgICAAEEAIQQgA0EANgLMASADQquzj/yRo7Pw2wA3AoQBIANC/6S5iMWR2oKbfzcCfCADQvLmu+Ojp/2npX83AnQgA0LnzKfQ1tDrs7t/NwJsIANCADcD8AEgA0IANwP4ASADQgA3A4ACIANCADcDiAIgAyAFKQAYNwPoASADIAUpABA3A+ABIAMgBSkACDcD2AEgAyAFKQAANwPQAQNAIANB0AFqIARqIgcgBy0AAEHcAHM6AAAgB0EBaiIIIAgtAABB3ABzOgAAIAdBAmoiCCAILQAAQdwAczoAACAHQQNqIgcgBy0AAEHcAHM6AAAgBEEEaiIEQcAARw0ACyAGIANB0AFqQcAAEIKAgIAAQQAhBCADQQA2AmggA0Krs4/8kaOz8NsANwIgIANC/6S5iMWR2oKbfzcCGCADQvLmu+Ojp/2npX83AhAgA0LnzKfQ1tDrs7t/NwIIA0AgA0HQAWogBGoiByAHLQAAQeoAczoAACAHQQFqIgggCC0AAEHqAHM6AAAgB0ECaiIIIAgtAABB6gBzOgAAIAdBA2oiByAHLQAAQeoAczoAACAEQQRqIgRBwABHDQALIANBCGogA0HQAWpBwAAQgoCAgAAgA0EIaiAAQSAQgoCAgAAgA0EIakHxicCCAEEBEIKAgIAAIANBCGogASACEIKAgIAAIANBCGogBRDWgICAAEEAIQQgA0EANgLMASADQquzj/yRo7Pw2wA3AoQBIANC/6S5iMWR2oKbfzcCfCADQvLmu+Ojp/2npX83AnQgA0LnzKfQ1tDrs7t/NwJsIANCADcD8AEgA0IANwP4ASADQgA3A4ACIANCADcDiAIgAyAFKQAYNwPoASADIAUpABA3A+ABIAMgBSkACDcD2AEgAyAFKQAANwPQAQNAIANB0AFqIARqIgcgBy0AAEHcAHM6AAAgB0EBaiIIIAgtAABB3ABzOgAAIAdBAmoiCCAILQAAQdwAczoAACAHQQNqIgcgBy0AAEHcAHM6AAAgBEEEaiIEQcAARw0ACyAGIANB0AFqQcAAEIKAgIAAQQAhBCADQQA2AmggA0Krs4/8kaOz8NsANwIgIANC/6S5iMWR2oKbfzcCGCADQvLmu+Ojp/2npX83AhAgA0LnzKfQ1tDrs7t/NwIIA0AgA0HQAWogBGoiByAHLQAAQeoAczoAACAHQQFqIgggCC0AAEHqAHM6AAAgB0ECaiIIIAgtAABB6gBzOgAAIAdBA2oiByAHLQAAQeoAczoAACAEQQRqIgRBwABHDQALIANBCGogA0HQAWpBwAAQgoCAgAAgA0EIaiAAQSAQgoCAgAAgA0EIaiAAENaAgIAAIABBADYCQCADQZACaiSAgICAAAu1DAEGfyOAgICAAEGQAmsiAiSAgICAAAJAIAAoAkBFDQBBACEDIAJBADYCzAEgAkKrs4/8kaOz8NsANwKEASACQv+kuYjFkdqCm383AnwgAkLy5rvjo6f9p6V/NwJ0IAJC58yn0NbQ67O7fzcCbCACQgA3A/ABIAJCADcD+AEgAkIANwOAAiACQgA3A4gCIAIgACkAODcD6AEgAiAAKQAwNwPgASACIAApACg3A9gBIAIgACkAIDcD0AEgAEEgaiEEIAJB7ABqIQUDQCACQdABaiADaiIGIAYtAABB3ABzOgAAIAZBAWoiByAHLQAAQdwAczoAACAGQQJqIgcgBy0AAEHcAHM6AAAgBkEDaiIGIAYtAABB3ABzOgAAIANBBGoiA0HAAEcNAAsgBSACQdABakHAABCCgICAAEEAIQMgAkEANgJoIAJCq7OP/JGjs/DbADcCICACQv+kuYjFkdqCm383AhggAkLy5rvjo6f9p6V/NwIQIAJC58yn0NbQ67O7fzcCCANAIAJB0AFqIANqIgYgBi0AAEHqAHM6AAAgBkEBaiIHIActAABB6gBzOgAAIAZBAmoiByAHLQAAQeoAczoAACAGQQNqIgYgBi0AAEHqAHM6AAAgA0EEaiIDQcAARw0ACyACQQhqIAJB0AFqQcAAEIKAgIAAIAJBCGogAEEgEIKAgIAAIAJBCGpB8onAggBBARCCgICAACACQQhqIAQQ1oCAgABBACEDIAJBADYCzAEgAkKrs4/8kaOz8NsANwKEASACQv+kuYjFkdqCm383AnwgAkLy5rvjo6f9p6V/NwJ0IAJC58yn0NbQ67O7fzcCbCACQgA3A/ABIAJCADcD+AEgAkIANwOAAiACQgA3A4gCIAIgBCkAGDcD6AEgAiAEKQAQNwPgASACIAQpAAg3A9gBIAIgBCkAADcD0AEDQCACQdABaiADaiIGIAYtAABB3ABzOgAAIAZBAWoiByAHLQAAQdwAczoAACAGQQJqIgcgBy0AAEHcAHM6AAAgBkEDaiIGIAYtAABB3ABzOgAAIANBBGoiA0HAAEcNAAsgBSACQdABakHAABCCgICAAEEAIQMgAkEANgJoIAJCq7OP/JGjs/DbADcCICACQv+kuYjFkdqCm383AhggAkLy5rvjo6f9p6V/NwIQIAJC58yn0NbQ67O7fzcCCANAIAJB0AFqIANqIgYgBi0AAEHqAHM6AAAgBkEBaiIHIActAABB6gBzOgAAIAZBAmoiByAHLQAAQeoAczoAACAGQQNqIgYgBi0AAEHqAHM6AAAgA0EEaiIDQcAARw0ACyACQQhqIAJB0AFqQcAAEIKAgIAAIAJBCGogAEEgEIKAgIAAIAJBCGogABDWgICAAAtBACEDIAJBADYCzAEgAkKrs4/8kaOz8NsANwKEASACQv+kuYjFkdqCm383AnwgAkLy5rvjo6f9p6V/NwJ0IAJC58yn0NbQ67O7fzcCbCACQgA3A/ABIAJCADcD+AEgAkIANwOAAiACQgA3A4gCIAIgACkAODcD6AEgAiAAKQAwNwPgASACIAApACg3A9gBIAIgACkAIDcD0AEgAkHsAGohBANAIAJB0AFqIANqIgYgBi0AAEHcAHM6AAAgBkEBaiIHIActAABB3ABzOgAAIAZBAmoiByAHLQAAQdwAczoAACAGQQNqIgYgBi0AAEHcAHM6AAAgA0EEaiIDQcAARw0ACyAEIAJB0AFqQcAAEIKAgIAAQQAhAyACQQA2AmggAkKrs4/8kaOz8NsANwIgIAJC/6S5iMWR2oKbfzcCGCACQvLmu+Ojp/2npX83AhAgAkLnzKfQ1tDrs7t/NwIIA0AgAkHQAWogA2oiBiAGLQAAQeoAczoAACAGQQFqIgcgBy0AAEHqAHM6AAAgBkECaiIHIActAABB6gBzOgAAIAZBA2oiBiAGLQAAQeoAczoAACADQQRqIgNBwABHDQALIAJBCGogAkHQAWpBwAAQgoCAgAAgAkEIaiAAQSAQgoCAgAAgAkEIaiAAENaAgIAAIAEgACkAGDcAGCABIAApABA3ABAgASAAKQAINwAIIAEgACkAADcAACAAQQE2AkAgAkGQAmokgICAgAALyQIBAX8jgICAgABBwABrIgYkgICAgAACQAJAIAAoAggNAEHAhcCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhAAwBCwJAIAINAEHMhMCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhAAwBCwJAIAENAEGqg8CCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhAAwBCwJAIAMNAEHBgcCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhAAwBCyAAIAZBIGogBkEAIAIgAyAEIAUQpoCAgAAhACABIAYpAzg3ABggASAGKQMwNwAQIAEgBikDKDcACCABIAYpAyA3AAAgASAGKQMANwAgIAEgBikDCDcAKCABIAYpAxA3ADAgASAGKQMYNwA4CyAGQcAAaiSAgICAACAAC+UYBgF/BH4BfwJ+A38FfiOAgICAAEHQA2siCCSAgICAACABQgA3AxggAUIANwMQIAFCADcDCCABQgA3AwAgAkIANwMYIAJCADcDECACQgA3AwggAkIANwMAAkAgA0UNACADQQA2AgALIAhB4ABqIAUgCEGAAmoQloCAgAAgCCAIKAKAAkUgCCkDaCIJIAgpA2AiCoQgCCkDcCILhCAIKQN4IgyEQgBScSINQQFzrSIOQn98Ig8gDIM3A3ggCCAPIAuDNwNwIAggDyAJgzcDaCAIIA8gCoMgDoQ3A2BBACEQIAhBIGogBEEAEJaAgIAAAkAgCCAEIAVBACAHQQAgBkGBgICAACAGGyIREYGAgIAAgICAgABFDQAgAEEIaiESQQEhBgJAA0AgBiEQIAhBwABqIAggCEGAAmoQloCAgAACQCAIKAKAAg0AIAgpA0giCiAIKQNAIguEIAgpA1AiDIQgCCkDWCIOhFANACAIQQA2AoQBIBIgCEGAAmogCEHAAGoQp4CAgAAgCEGoAWogCEGAAmoQqICAgAAgCCAIKQPIASIPQjCIQtGHgIAQfiAIKQOoAXwiE0I0iCAIKQOwAXwiCUI0iCAIKQO4AXwiFEI0iCAIKQPAAXwiFUI0iCAPQv///////z+DfCIWQjCIIBNC/////////weDIg9Crvj//+///wdWIBRC/////////weDIhMgCYMgFYNC/////////wdRIBZC////////P1Fxca2EQtGHgIAQfiAPfCIPPACfAyAIIA9CCIg8AJ4DIAggD0IQiDwAnQMgCCAPQhiIPACcAyAIIA9CIIg8AJsDIAggD0IoiDwAmgMgCCAPQjSIIAlC/////////weDfCIJQgSIPACYAyAIIAlCDIg8AJcDIAggCUIUiDwAlgMgCCAJQhyIPACVAyAIIAlCJIg8AJQDIAggCUIsiDwAkwMgCCAJQgSGIA9CMIhCD4OEPACZAyAIIAlCNIggE3wiDzwAkgMgCCAPQgiIPACRAyAIIA9CEIg8AJADIAggD0IYiDwAjwMgCCAPQiCIPACOAyAIIA9CKIg8AI0DIAggD0I0iCAVQv////////8Hg3wiCUIEiDwAiwMgCCAJQgyIPACKAyAIIAlCFIg8AIkDIAggCUIciDwAiAMgCCAJQiSIPACHAyAIIAlCLIg8AIYDIAggCUIEhiAPQjCIQg+DhDwAjAMgCCAJQjSIIBZ8Ig88AIUDIAggD0IIiDwAhAMgCCAPQhCIPACDAyAIIA9CGIg8AIIDIAggD0IgiDwAgQMgCCAPQiiIPACAAyAIKQPwASEPIAgpA+gBIRUgCCkD4AEhFiAIKQPYASETIAgpA9ABIQkgASAIQYADaiAIQYQBahCWgICAAAJAAkAgA0UNACADIAgoAoQBQQF0IA9CMIhC0YeAgBB+IAl8IglCNIggE3wiE0I0iCAWfCIWQjSIIBV8IhVCNIggD0L///////8/g3wiD0IwiCAJQv////////8Hg0Ku+P//7///B1YgEyAWgyAVg0L/////////B4NC/////////wdRIA9C////////P1Fxca2EIAl8p0EBcXI2AgAgCEGIAWogASAIQeAAahCegICAACAIIAgpAyAiDyAIKQOIAXwiFiAPVK0iEyAIKQOQAXwiCSAIKQMofCIPQrrAovrqnLfXun9WIAgpAzAiFCAIKQOYAXwiFSAJIBNUrSAPIAlUrXx8IglCfVZxIAgpAzgiFyAIKQOgAXwiEyAVIBRUrSAJIBVUrXx8IhVCf1FxIgZBACAPQrvAovrqnLfXun9WGyAJIBWDQn9RciAGQQAgFkLAgtmBzdGX6b9/VhtyIBMgF1StIBUgE1StfKdqrSITQr/9pv6yruiWwAB+IhQgFnwiFzcDiAEgCCAPIBNCxL/dhZXjyKjFAH58IhYgFyAUVK18IhQ3A5ABIAggCSATfCITIBYgD1StIBQgFlStfHwiDzcDmAEgCCATIAlUrSAPIBNUrXwgFXw3A6ABIAggDkI4iDcDyAMgCCAOQgaGIAxCOoiEQv//////////P4M3A8ADIAggDEIEhiAKQjyIhEL//////////z+DNwO4AyAIIApCAoYgC0I+iIRC//////////8/gzcDsAMgCCALQv//////////P4M3A6gDIAhBqANqQcCJwIIAEKmAgIAAIAIgCCkDyANCOIYgCCkDwAMiD0IGiIQ3AxggAiAPQjqGIAgpA7gDIg9CBIiENwMQIAIgD0I8hiAIKQOwAyIPQgKIhDcDCCACIA9CPoYgCCkDqAOENwMAIAIgAiAIQYgBahCegICAACADQQAgAikDGCIJQj+IpyIGQQFzIgAgAikDECIMQn9RGyAJQv///////////wBUciAAQQAgAikDCCIKQp2gkb21ztur3QBUG3JBAXMiACAAQQAgAikDACILQqDB7MDm6Mv0X1YbIApCnaCRvbXO26vdAFYbIAZyIgYgAygCAHM2AgAgAkIAIAtBACAGa6wiD4UiFSAPQsKC2YHN0Zfpv3+DfCIWIAsgCiAMIAmEhIRQIgYbIgs3AwAgAkIAIAogD4UiEyAPQrvAovrqnLfXun+DfCIOIBYgFVStfCIWIAYbIgo3AwggAkIAIAwgD4UiFCAPQn6DfCIVIA4gE1StIBYgDlStfHwiDiAGGyIMNwMQQgAgCSAPhSAPfCAVIBRUrSAOIBVUrXx8IAYbIQ8MAQsgCEGIAWogASAIQeAAahCegICAACAIIAgpAyAiDyAIKQOIAXwiFiAPVK0iEyAIKQOQAXwiCSAIKQMofCIPQrrAovrqnLfXun9WIAgpAzAiFCAIKQOYAXwiFSAJIBNUrSAPIAlUrXx8IglCfVZxIAgpAzgiFyAIKQOgAXwiEyAVIBRUrSAJIBVUrXx8IhVCf1FxIgZBACAPQrvAovrqnLfXun9WGyAJIBWDQn9RciAGQQAgFkLAgtmBzdGX6b9/VhtyIBMgF1StIBUgE1StfKdqrSITQr/9pv6yruiWwAB+IhQgFnwiFzcDiAEgCCAPIBNCxL/dhZXjyKjFAH58IhYgFyAUVK18IhQ3A5ABIAggCSATfCITIBYgD1StIBQgFlStfHwiDzcDmAEgCCATIAlUrSAPIBNUrXwgFXw3A6ABIAggDkI4iDcDyAMgCCAOQgaGIAxCOoiEQv//////////P4M3A8ADIAggDEIEhiAKQjyIhEL//////////z+DNwO4AyAIIApCAoYgC0I+iIRC//////////8/gzcDsAMgCCALQv//////////P4M3A6gDIAhBqANqQcCJwIIAEKmAgIAAIAIgCCkDyANCOIYgCCkDwAMiD0IGiIQ3AxggAiAPQjqGIAgpA7gDIg9CBIiENwMQIAIgD0I8hiAIKQOwAyIPQgKIhDcDCCACIA9CPoYgCCkDqAOENwMAIAIgAiAIQYgBahCegICAACACQgBCAEIAIAIpAxgiCUI/iCIPQgGFIgsgAikDECIMQn9RGyAJQv///////////wBUrYQgC0IAIAIpAwgiCkKdoJG9tc7bq90AVBuEQgGFIg4gDkIAIAIpAwAiC0KgwezA5ujL9F9WGyAKQp2gkb21ztur3QBWGyAPhEIghn1CIIciDyALhSIVIA9CwoLZgc3Rl+m/f4N8IhYgDCAJhCAKhCALhFAiBhsiCzcDACACQgAgDyAKhSITIA9Cu8Ci+uqct9e6f4N8Ig4gFiAVVK18IhYgBhsiCjcDCCACQgAgDyAMhSIUIA9CfoN8IhUgDiATVK0gFiAOVK18fCIOIAYbIgw3AxBCACAPIAmFIA98IBUgFFStIA4gFVStfHwgBhshDwsgAiAPNwMYIAwgD4QgCoQgC4RQDQAgASkDCCABKQMAhCABKQMQhCABKQMYhEIAUQ0AQQEhAAwCCyAQQQFqIQZBACEAIAggBCAFQQAgByAQIBERgYCAgACAgICAAA0ACwsgACANcSEQCyABIAEpAwAgEEEBcyIGrUJ/fCIPgzcDACABIAEpAwggD4M3AwggASABKQMQIA+DNwMQIAEgASkDGCAPgzcDGCACIAIpAwAgD4M3AwAgAiACKQMIIA+DNwMIIAIgAikDECAPgzcDECACIAIpAxggD4M3AxgCQCADRQ0AIAggBjYCgAIgAyAIKAKAAkF/aiADKAIAcTYCAAsgCEHQA2okgICAgAAgEAvGBgUBfwd+An8BfgR/I4CAgIAAQYABayIDJICAgIAAIAEgAEEoakGAAfwKAAAgAyAAKQMIIgQgAikDAHwiBSAEVK0iBiACKQMIfCIHIAApAxB8IgRCusCi+uqct9e6f1YgByAGVK0gBCAHVK18IgggAikDEHwiBiAAKQMYfCIHQn1WcSAAKQMgIgkgAikDGHwiCiAGIAhUrSAHIAZUrXx8IgZCf1FxIgJBACAEQrvAovrqnLfXun9WGyAHIAaDQn9RciACQQAgBULAgtmBzdGX6b9/VhtyIAogCVStIAYgClStfKdqrSIKQr/9pv6yruiWwAB+IgggBXwiCTcDCCADIAQgCkLEv92FlePIqMUAfnwiBSAJIAhUrXwiCDcDECADIAcgCnwiCiAFIARUrSAIIAVUrXx8IgQ3AxggAyAKIAdUrSAEIApUrXwgBnw3AyBCACEEQQAhC0EAIQxCACEHQgAhBkIAIQVCACEKQgAhCEIAIQlCACENA0AgA0EIaiAMQQF2Qfj///8HcWopAwAgDEECdK2Ip0EPcUEGdCEOIAAoAgAgC2ohD0EAIRADQCAPIBBqIgIpAwAgDSAOIBBGIhEbIQ0gAkE4aikDACAEIBEbIQQgAkEwaikDACAHIBEbIQcgAkEoaikDACAGIBEbIQYgAkEgaikDACAFIBEbIQUgAkEYaikDACAKIBEbIQogAkEQaikDACAIIBEbIQggAkEIaikDACAJIBEbIQkgEEHAAGoiEEGACEcNAAsgA0EANgJ4IAMgBEIQiDcDcCADIAVC/////////weDNwNQIAMgCkIQiDcDSCADIA1C/////////weDNwMoIAMgBEIkhkKAgICAgP7/B4MgB0IciIQ3A2ggAyAHQhiGQoCAgPj///8HgyAGQiiIhDcDYCADIAZCDIZCgOD//////weDIAVCNIiENwNYIAMgCkIkhkKAgICAgP7/B4MgCEIciIQ3A0AgAyAIQhiGQoCAgPj///8HgyAJQiiIhDcDOCADIAlCDIZCgOD//////weDIA1CNIiENwMwIAEgASADQShqELeAgIAAIAtBgAhqIQsgDEEBaiIMQcAARw0ACyADQYABaiSAgICAAAv4BQMBfwV+AX8jgICAgABB0ABrIgIkgICAgAAgACABKAJ4NgJQIAIgASkDcCIDQjCIQtGHgIAQfiABKQNQfCIEQjSIIAEpA1h8IgVCNIggASkDYHwiBkI0iCABKQNofCIHQjSIIANC////////P4N8IgNCMIggBEL/////////B4MiBEKu+P//7///B1YgBkL/////////B4MiBiAFgyAHg0L/////////B1EgA0L///////8/UXFxrYRC0YeAgBB+IAR8IgRCNIggBUL/////////B4N8IgVCNIZCgICAgICAgPg/gyAEQv////////8Hg4Q3AyggAiAFQjSIIAZ8IgRCKoZCgICAgICA//8/gyAFQgqIQv///////wCDhDcDMCACIARCNIggB0L/////////B4N8IgVCIIZCgICAgPD///8/gyAEQhSIQv////8Pg4Q3AzggAiAFQjSIIAN8IgdCKIhC/wGDNwNIIAIgB0IWhkKAgID+/////z+DIAVCHohC////AYOENwNAIAJBKGpBkInAggAQqYCAgAAgASACKQMoIgVC/////////weDNwNQIAEgAikDSEIohiACKQNAIgdCFoiENwNwIAEgB0IehkKAgICA/P//B4MgAikDOCIHQiCIhDcDaCABIAdCFIZCgIDA/////weDIAIpAzAiB0IqiIQ3A2AgASAHQgqGQoD4//////8HgyAFQjSIhDcDWCACQShqIAFB0ABqIggQioCAgAAgAiAIIAJBKGoQiICAgAAgASABIAJBKGoQiICAgAAgAUEoaiIIIAggAhCIgICAACABQgA3A3AgAUIANwNoIAFCADcDYCABQgA3A1ggAUIBNwNQIAAgASkDADcDACAAIAEpAwg3AwggACABKQMQNwMQIAAgASkDGDcDGCAAIAEpAyA3AyAgACABKQMoNwMoIAAgASkDMDcDMCAAIAEpAzg3AzggACABKQNANwNAIAAgASkDSDcDSCACQdAAaiSAgICAAAudDwYBfwV+AX8MfgF/CH4jgICAgABBsANrIgIkgICAgAAgAkIANwOoAyACQgA3A6ADIAJCADcDmAMgAkIANwOQAyACQgA3A4gDIAJCADcDgAMgAkIANwP4AiACQgA3A/ACIAJCADcD6AIgAkIBNwPgAiAAKQMgIQMgACkDGCEEIAApAxAhBSAAKQMIIQYgACkDACEHQQAhCEJ/IQkgASkDACIKIQsgASkDCCIMIQ0gASkDECIOIQ8gASkDGCIQIREgASkDICISIRMDQEIIIRRBOyEVQgAhFiAHIRcgCyEYQgAhGUIIIRoDQCAYIAlCP4ciG4UgG31CACAXQgGDfSIcgyAXfCIdIBsgHIMiF4MgGHwhGCAaIBYgG4UgG30gHIN8IhogF4MgFnxCAYYhFiAbIBSFIBt9IByDIBl8IhkgF4MgFHxCAYYhFCAXIAmFQn98IQkgHUIBiCEXIBVBf2oiFQ0ACyACIBo3A9gCIAIgGTcD0AIgAiAWNwPIAiACIBQ3A8ACIAJBiANqIAJB4AJqIAJBwAJqIAEQ1YCAgAAgAkGwAmogFCAUQj+HIhsgCyALQj+HIhgQ4ICAgAAgAkGQAmogFiAWQj+HIhwgByAHQj+HIh0Q4ICAgAAgAkGgAmogGSAZQj+HIhcgCyAYEOCAgIAAIAJBgAJqIBogGkI/hyIYIAcgHRDggICAACACQfABaiAUIBsgDSANQj+HIh0Q4ICAgAAgAkHQAWogFiAcIAYgBkI/hyIHEOCAgIAAIAJB4AFqIBkgFyANIB0Q4ICAgAAgAkHAAWogGiAYIAYgBxDggICAACACQbABaiAUIBsgDyAPQj+HIh0Q4ICAgAAgAkGQAWogFiAcIAUgBUI/hyIHEOCAgIAAIAJBoAFqIBkgFyAPIB0Q4ICAgAAgAkGAAWogGiAYIAUgBxDggICAACACQfAAaiAUIBsgESARQj+HIh0Q4ICAgAAgAkHQAGogFiAcIAQgBEI/hyIHEOCAgIAAIAJB4ABqIBkgFyARIB0Q4ICAgAAgAkHAAGogGiAYIAQgBxDggICAACACQTBqIBQgGyATIBNCP4ciHRDggICAACACQRBqIBYgHCADIANCP4ciGxDggICAACACQSBqIBkgFyATIB0Q4ICAgAAgAiAaIBggAyAbEOCAgIAAIAIpAwAiGCACKQMgfCIbIAIpA0AiGSACKQNgfCIcIAIpA4ABIhogAikDoAF8IhcgAikDwAEiHSACKQPgAXwiFCACKQOAAiIWIAIpA6ACfCIHQj6IIAIpA4gCIAIpA6gCfCAHIBZUrXwiB0IChoR8IhZCPoggAikDyAEgAikD6AF8IBQgHVStfCAHQj6HfCAWIBRUrXwiHUIChoR8IhRCPoggAikDiAEgAikDqAF8IBcgGlStfCAdQj6HfCAUIBdUrXwiGkIChoR8IhdCPoggAikDSCACKQNofCAcIBlUrXwgGkI+h3wgFyAcVK18IhlCAoaEfCIcQj6IIAIpAwggAikDKHwgGyAYVK18IBlCPod8IBwgG1StfEIChoQhAyACKQMQIgcgAikDMHwiGyACKQNQIgsgAikDcHwiGCACKQOQASITIAIpA7ABfCIZIAIpA9ABIgQgAikD8AF8IhogAikDkAIiHSACKQOwAnwiBUI+iCACKQOYAiACKQO4AnwgBSAdVK18IgVCAoaEfCIdQj6IIAIpA9gBIAIpA/gBfCAaIARUrXwgBUI+h3wgHSAaVK18IgRCAoaEfCIaQj6IIAIpA5gBIAIpA7gBfCAZIBNUrXwgBEI+h3wgGiAZVK18IhNCAoaEfCIZQj6IIAIpA1ggAikDeHwgGCALVK18IBNCPod8IBkgGFStfCILQgKGhHwiGEI+iCACKQMYIAIpAzh8IBsgB1StfCALQj6HfCAYIBtUrXxCAoaEIRMgHEL//////////z+DIQQgGEL//////////z+DIREgF0L//////////z+DIQUgGUL//////////z+DIQ8gFEL//////////z+DIQYgGkL//////////z+DIQ0gFkL//////////z+DIQcgHUL//////////z+DIQsgCEEBaiIIQQpHDQALIAAgAikDqAMiF0I/hyIcIAqDIAIpA4gDfCATQj+HIhuFIBt9IhRCPocgHCAMgyACKQOQA3wgG4UgG318IhZCPocgHCAOgyACKQOYA3wgG4UgG318IhhCPocgHCAQgyACKQOgA3wgG4UgG318IglCPocgHCASgyAXfCAbhSAbfXwiHEI/hyIbIAqDIBRC//////////8/g3wiF0L//////////z+DNwMAIAAgGyAMgyAWQv//////////P4N8IBdCPod8IhdC//////////8/gyIUNwMIIAAgGyAOgyAYQv//////////P4N8IBdCPod8IhdC//////////8/gyIWNwMQIAAgGyAQgyAJQv//////////P4N8IBdCPod8IhdC//////////8/gyIYNwMYIAAgGyASgyAcfCAXQj6HfCIbNwMgIAIgFDcDkAMgAiAWNwOYAyACIBg3A6ADIAIgGzcDqAMgAkGwA2okgICAgAALhwEBAX8jgICAgABBMGsiAiSAgICAAAJAAkAgAQ0AQcGBwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEBDAELIAJBCGogASACQSxqEJaAgIAAIAIoAixFIAIpAxAgAikDCIQgAikDGIQgAikDIIRCAFJxIQELIAJBMGokgICAgAAgAQvJCgQBfwR+AX8CfiOAgICAAEGAAmsiAySAgICAAAJAAkAgAQ0AQYSCwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACECDAELIAFCADcAOCABQgA3ADAgAUIANwAoIAFCADcAICABQgA3ABggAUIANwAQIAFCADcACCABQgA3AAACQCAAKAIIDQBBwIXAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAEEAIQIMAQsCQCACDQBBwYHAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAEEAIQIMAQsgA0EIaiACIANBgAFqEJaAgIAAIAMgAygCgAFFIAMpAxAiBCADKQMIIgWEIAMpAxgiBoQgAykDICIHhEIAUnEiAkEBcyIIrSIJQn98IgogB4M3AyAgAyAKIAaDNwMYIAMgCiAEgzcDECADIAogBYMgCYQ3AwggAEEIaiADQYABaiADQQhqEKeAgIAAIANBKGogA0GAAWoQqICAgAAgA0GAAWogA0EoahCPgICAACABIAMpA7gBNwA4IAEgAykDsAE3ADAgASADKQOoATcAKCABIAMpA6ABNwAgIAEgAykDmAE3ABggASADKQOQATcAECABIAMpA4gBNwAIIAEgAykDgAE3AAAgAyAINgKAASADKAKAASEAIAEgAS0AACAAQX9qIgBxOgAAIAEgAS0AASAAcToAASABIAEtAAIgAHE6AAIgASABLQADIABxOgADIAEgAS0ABCAAcToABCABIAEtAAUgAHE6AAUgASABLQAGIABxOgAGIAEgAS0AByAAcToAByABIAEtAAggAHE6AAggASABLQAJIABxOgAJIAEgAS0ACiAAcToACiABIAEtAAsgAHE6AAsgASABLQAMIABxOgAMIAEgAS0ADSAAcToADSABIAEtAA4gAHE6AA4gASABLQAPIABxOgAPIAEgAS0AECAAcToAECABIAEtABEgAHE6ABEgASABLQASIABxOgASIAEgAS0AEyAAcToAEyABIAEtABQgAHE6ABQgASABLQAVIABxOgAVIAEgAS0AFiAAcToAFiABIAEtABcgAHE6ABcgASABLQAYIABxOgAYIAEgAS0AGSAAcToAGSABIAEtABogAHE6ABogASABLQAbIABxOgAbIAEgAS0AHCAAcToAHCABIAEtAB0gAHE6AB0gASABLQAeIABxOgAeIAEgAS0AHyAAcToAHyABIAEtACAgAHE6ACAgASABLQAhIABxOgAhIAEgAS0AIiAAcToAIiABIAEtACMgAHE6ACMgASABLQAkIABxOgAkIAEgAS0AJSAAcToAJSABIAEtACYgAHE6ACYgASABLQAnIABxOgAnIAEgAS0AKCAAcToAKCABIAEtACkgAHE6ACkgASABLQAqIABxOgAqIAEgAS0AKyAAcToAKyABIAEtACwgAHE6ACwgASABLQAtIABxOgAtIAEgAS0ALiAAcToALiABIAEtAC8gAHE6AC8gASABLQAwIABxOgAwIAEgAS0AMSAAcToAMSABIAEtADIgAHE6ADIgASABLQAzIABxOgAzIAEgAS0ANCAAcToANCABIAEtADUgAHE6ADUgASABLQA2IABxOgA2IAEgAS0ANyAAcToANyABIAEtADggAHE6ADggASABLQA5IABxOgA5IAEgAS0AOiAAcToAOiABIAEtADsgAHE6ADsgASABLQA8IABxOgA8IAEgAS0APSAAcToAPSABIAEtAD4gAHE6AD4gASABLQA/IABxOgA/CyADQYACaiSAgICAACACC9ICAgJ/B34jgICAgABBMGsiAiSAgICAAAJAAkAgAQ0AQcGBwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEDDAELIAJBCGogASACQSxqEJaAgIAAIAJCACACKAIsRSACKQMQIgQgAikDCCIFhCACKQMYIgaEIAIpAyAiB4RCAFJxIgNBAXOtQn98IgggBYMiBUJ/hSIJQsKC2YHN0Zfpv398IgogCCAEgyIEIAggBoMiBoQgCCAHgyIHhCAFhFAiABs3AwggAkIAIARCf4UiBCAKIAlUrXwiCEK7wKL66py317p/fCIFIAAbNwMQIAJCACAGQn+FIgYgCCAEVK0gBSAIVK18fCIIQn58IgQgABs3AxggAkIAIAdCf4UgCCAGVK0gBCAIVK18fEJ/fCAAGzcDICABIAJBCGoQmYCAgAALIAJBMGokgICAgAAgAwsMACAAIAEQrICAgAAL9gQCAn8GfiOAgICAAEGgAWsiAiSAgICAAAJAAkAgAQ0AQYSCwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEDDAELQQAhAyACQQA2AlggAiABKQAIIgRCDIZCgOD//////weDIAEpAAAiBUI0iIQiBjcDECACIAVC/////////weDIgU3AwggAiABKQAYIgdCEIgiCDcDKCACIAEpABAiCUIYhkKAgID4////B4MgBEIoiIQiBDcDGCACIAdCJIZCgICAgID+/weDIAlCHIiEIgc3AyACQCAGIAWEIAiEIASEIAeEQgBSDQBB/IXAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAACABQgA3ADggAUIANwAwIAFCADcAKCABQgA3ACAgAUIANwAYIAFCADcAECABQgA3AAggAUIANwAADAELIAEpADAhBCABKQAoIQUgASkAICEGIAJC/P///////wEgASkAOCIHQhCIfTcDUCACQrzh//+///8fIAZC/////////weDfTcDMCACQvz///////8fIAdCJIZCgICAgID+/weDIARCHIiEfTcDSCACQvz///////8fIARCGIZCgICA+P///weDIAVCKIiEfTcDQCACQvz///////8fIAVCDIZCgOD//////weDIAZCNIiEfTcDOCACQeAAaiACQQhqEI+AgIAAIAEgAikDmAE3ADggASACKQOQATcAMCABIAIpA4gBNwAoIAEgAikDgAE3ACAgASACKQN4NwAYIAEgAikDcDcAECABIAIpA2g3AAggASACKQNgNwAAQQEhAwsgAkGgAWokgICAgAAgAwu0BAIBfwh+I4CAgIAAQdAAayIDJICAgIAAAkACQCABDQBBwYHAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAEEAIQIMAQsCQCACDQBBvITAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAEEAIQIMAQsgA0EIaiABIANBMGoQloCAgAAgAygCMCEAIAMpAyAhBCADKQMYIQUgAykDCCEGIAMpAxAhByADQQA2AiwgA0EwaiACIANBLGoQloCAgAAgAyAARSAEIAUgByAGhISEQgBScSADKAIsRSAHIAMpAzgiCHwiByAGIAMpAzAiCXwiCiAJVK18IgZCusCi+uqct9e6f1YgBSADKQNAIgt8IgkgByAIVK0gBiAHVK18fCIFQn1WcSAEIAMpA0giCHwiByAJIAtUrSAFIAlUrXx8IgRCf1FxIgJBACAGQrvAovrqnLfXun9WGyAFIASDQn9RciACQQAgCkLAgtmBzdGX6b9/VhtyIAcgCFStIAQgB1StfKdqrSIHQr/9pv6yruiWwAB+IgggCnwiCiAGIAdCxL/dhZXjyKjFAH58IgkgCiAIVK18IgiEIAUgB3wiByAJIAZUrSAIIAlUrXx8IgmEIAcgBVStIAkgB1StfCAEfCIFhEIAUnFxIgJBAXOtQn98IgYgBYM3AyAgAyAGIAmDNwMYIAMgBiAIgzcDECADIAYgCoM3AwggASADQQhqEJmAgIAACyADQdAAaiSAgICAACACCw4AIAAgASACEK+AgIAAC/0HAgJ/Bn4jgICAgABBoAJrIgMkgICAgAACQAJAIAAoAgANAEGMhcCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhBAwBCwJAIAENAEGEgsCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhBAwBCwJAIAINAEG8hMCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhBAwBC0EAIQQgA0EANgJQIAMgASkAOCIFQhCINwNIIAMgASkAICIGQv////////8HgzcDKCADIAVCJIZCgICAgID+/weDIAEpADAiBUIciIQ3A0AgAyAFQhiGQoCAgPj///8HgyABKQAoIgVCKIiENwM4IAMgBUIMhkKA4P//////B4MgBkI0iIQ3AzAgAyABKQAIIgVCDIZCgOD//////weDIAEpAAAiBkI0iIQiBzcDCCADIAZC/////////weDIgY3AwAgAyABKQAYIghCEIgiCTcDICADIAEpABAiCkIYhkKAgID4////B4MgBUIoiIQiBTcDECADIAhCJIZCgICAgID+/weDIApCHIiEIgg3AxgCQCAHIAaEIAmEIAWEIAiEQgBSDQBB/IXAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAACABQgA3ADggAUIANwAwIAFCADcAKCABQgA3ACAgAUIANwAYIAFCADcAECABQgA3AAggAUIANwAADAELIAFCADcAOCABQgA3ADAgAUIANwAoIAFCADcAICABQgA3ABggAUIANwAQIAFCADcACCABQgA3AAAgA0EANgJcIANB4ABqIAIgA0HcAGoQloCAgAACQCADKAJcRQ0AQQAhBAwBC0EAIQQgA0EANgKYAiADIAMpAwA3A6ABIAMgAykDCDcDqAEgAyADKQMQNwOwASADIAMpAxg3A7gBIAMgAykDIDcDwAEgAyADQShqIgIpAwA3A8gBIAMgAikDCDcD0AEgAyACKQMQNwPYASADIAIpAxg3A+ABIAMgAikDIDcD6AEgA0IANwP4ASADQgE3A/ABIANCADcDgAIgA0IANwOIAiADQgA3A5ACIANCADcDiAEgA0IBNwOAASADQgA3A5ABIANCADcDmAEgACADQaABaiADQaABaiADQYABaiADQeAAahCfgICAACADKAKYAg0AIAMgA0GgAWoQqICAgAAgA0GgAWogAxCPgICAACABIAMpA9gBNwA4IAEgAykD0AE3ADAgASADKQPIATcAKCABIAMpA8ABNwAgIAEgAykDuAE3ABggASADKQOwATcAECABIAMpA6gBNwAIIAEgAykDoAE3AABBASEECyADQaACaiSAgICAACAEC/kCAgJ/CH4jgICAgABB0ABrIgMkgICAgABBACEEIANBADYCBAJAAkAgAQ0AQcGBwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgAAMAQsCQCACDQBBvITAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAEEAIQQMAQsgA0EoaiACIANBBGoQloCAgAAgA0EIaiABIANBzABqEJaAgIAAIAMpAyghBSADKQMwIQYgAykDOCEHIAMpA0AhCCADKAIEIQQgAykDCCEJIAMpAxAhCiADKQMYIQsgAykDICEMIAMoAkwhAiADQQhqIANBCGogA0EoahCegICAACADIAJFIAwgCyAKIAmEhIRCAFJxIARFIAggByAGIAWEhIRCAFJxcSIEQQFzrUJ/fCIFIAMpAwiDNwMIIAMgBSADKQMQgzcDECADIAUgAykDGIM3AxggAyADKQMgIAWDNwMgIAEgA0EIahCZgICAAAsgA0HQAGokgICAgAAgBAsOACAAIAEgAhCygICAAAvSCAICfwZ+I4CAgIAAQaACayIDJICAgIAAQQAhBCADQQA2AgQCQAJAIAAoAgANAEGMhcCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAADAELAkAgAQ0AQYSCwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEEDAELAkAgAg0AQbyEwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEEDAELIANBCGogAiADQQRqEJaAgIAAAkAgAygCBEUNACABQgA3ADggAUIANwAwIAFCADcAKCABQgA3ACAgAUIANwAYIAFCADcAECABQgA3AAggAUIANwAAQQAhBAwBC0EAIQQgA0EANgJ4IAMgASkAOCIFQhCINwNwIAMgASkAICIGQv////////8HgzcDUCADIAVCJIZCgICAgID+/weDIAEpADAiBUIciIQ3A2ggAyAFQhiGQoCAgPj///8HgyABKQAoIgVCKIiENwNgIAMgBUIMhkKA4P//////B4MgBkI0iIQ3A1ggAyABKQAIIgVCDIZCgOD//////weDIAEpAAAiBkI0iIQiBzcDMCADIAZC/////////weDIgY3AyggAyABKQAYIghCEIgiCTcDSCADIAEpABAiCkIYhkKAgID4////B4MgBUIoiIQiBTcDOCADIAhCJIZCgICAgID+/weDIApCHIiEIgg3A0ACQCAHIAaEIAmEIAWEIAiEQgBSDQBB/IXAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAACABQgA3ADggAUIANwAwIAFCADcAKCABQgA3ACAgAUIANwAYIAFCADcAECABQgA3AAggAUIANwAADAELIAFCADcAOCABQgA3ADAgAUIANwAoIAFCADcAICABQgA3ABggAUIANwAQIAFCADcACCABQgA3AAACQCADKQMQIAMpAwiEIAMpAxiEIAMpAyCEQgBSDQBBACEEDAELIANCADcDmAIgA0IANwOQAiADQgA3A4gCIANCADcDgAIgA0EANgL4ASADIAMpAyg3A4ABIAMgAykDMDcDiAEgAyADKQM4NwOQASADIAMpA0A3A5gBIAMgAykDSDcDoAEgAyADQdAAaiIEKQMANwOoASADIAQpAwg3A7ABIAMgBCkDEDcDuAEgAyAEKQMYNwPAASADIAQpAyA3A8gBIANCADcD8AEgA0IBNwPQASADQgA3A+gBIANCADcD4AEgA0IANwPYASAAIANBgAFqIANBgAFqIANBCGogA0GAAmoQn4CAgAAgA0EoaiADQYABahCogICAACADQYABaiADQShqEI+AgIAAIAEgAykDuAE3ADggASADKQOwATcAMCABIAMpA6gBNwAoIAEgAykDoAE3ACAgASADKQOYATcAGCABIAMpA5ABNwAQIAEgAykDiAE3AAggASADKQOAATcAAEEBIQQLIANBoAJqJICAgIAAIAQLHAACQCAAKAIIRQ0AIABBCGogARCLgICAAAtBAQv8BQIDfwZ+I4CAgIAAQaACayIEJICAgIAAAkACQCABDQBBvIPAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAEEAIQUMAQsgAUIANwA4IAFCADcAMCABQgA3ACggAUIANwAgIAFCADcAGCABQgA3ABAgAUIANwAIIAFCADcAAAJAIAMNAEGFhcCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhBQwBCwJAIAINAEHNgsCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhBQwBCyAEQQE2AtgBIARB4ABqQQBB+AD8CwAgAEG0AWohBgNAIARBADYCWCAEIAIoAgAiBSkAOCIHQhCINwNQIAQgBSkAICIIQv////////8HgzcDMCAEIAdCJIZCgICAgID+/weDIAUpADAiB0IciIQ3A0ggBCAHQhiGQoCAgPj///8HgyAFKQAoIgdCKIiENwNAIAQgB0IMhkKA4P//////B4MgCEI0iIQ3AzggBCAFKQAIIgdCDIZCgOD//////weDIAUpAAAiCEI0iIQiCTcDECAEIAhC/////////weDIgg3AwggBCAFKQAYIgpCEIgiCzcDKCAEIAUpABAiDEIYhkKAgID4////B4MgB0IoiIQiBzcDGCAEIApCJIZCgICAgID+/weDIAxCHIiEIgo3AyACQCAJIAiEIAuEIAeEIAqEQgBSDQBB/IXAggAgBigCACAAKAKwARGAgICAAICAgIAACyACQQRqIQIgBEHgAGogBEHgAGogBEEIahC3gICAACADQX9qIgMNAAtBACEFIAQoAtgBDQAgBEEIaiAEQeAAahCogICAACAEQeABaiAEQQhqEI+AgIAAIAEgBCkDmAI3ADggASAEKQOQAjcAMCABIAQpA4gCNwAoIAEgBCkDgAI3ACAgASAEKQP4ATcAGCABIAQpA/ABNwAQIAEgBCkD6AE3AAggASAEKQPgATcAAEEBIQULIARBoAJqJICAgIAAIAULgTkDAn8ofgF/I4CAgIAAQdANayIDJICAgIAAIANBqA1qIAFB0ABqIgQQioCAgAAgAyABKQMgIgVCMIhC0YeAgBB+IAEpAwB8IgZCNIggASkDCHwiB0I0iCABKQMQfCIIQjSIIAEpAxh8IglCNIggBUL///////8/g3wiCjcDoA0gAyAGQv////////8HgyILNwOADSADIAdC/////////weDIgw3A4gNIAMgCEL/////////B4MiDTcDkA0gAyAJQv////////8HgyIONwOYDSADQdgMaiACIANBqA1qEIiAgIAAIAEpA0AhDyABKQM4IRAgASkDMCERIAEpAyghEiABKQNIIRMgA0GwDGogAkEoaiADQagNahCIgICAACADQbAMaiADQbAMaiAEEIiAgIAAIAMgAykDgA0gAykD2AwiFHwiCDcDiAwgAyADKQOIDSADKQPgDCIVfCIHNwOQDCADIAMpA5ANIAMpA+gMIhZ8IgU3A5gMIAMgAykDmA0gAykD8AwiF3wiBjcDoAwgAyADKQOgDSADKQP4DCIYfCIJNwOoDCADQdAJaiAGQgAgCEIBhiIZQgAQ4ICAgAAgA0GgCmogBUIAIAdCAYYiGkIAEOCAgIAAIANBkAlqIAlCACAJQgAQ4ICAgAAgA0GACWogAykDkAkiG0L/////////B4NCAEKQ+oCAgAJCABDggICAACADQeAIaiAJQgGGIglCACAIQgAQ4ICAgAAgA0HACWogBkIAIBpCABDggICAACADQbAKaiAFQgAgBUIAEOCAgIAAIANB8AhqIBtCNIggAykDmAkiGkIMhoQgGkI0iEKQ+oCAgAJCABDggICAACADQeAJaiAIQgAgCEIAEOCAgIAAIANB0AhqIAlCACAHQgAQ4ICAgAAgA0GwCWogBkIAIAVCAYZCABDggICAACADQcAIaiADKQPQCCIcIAMpA7AJfCIaIAMpA8AJIh0gAykDsAp8IhsgAykD4Ah8Ih4gAykD8Ah8Ih8gAykD0AkiICADKQOgCnwiCCADKQOACXwiIUI0iCADKQPYCSADKQOoCnwgCCAgVK18IAMpA4gJfCAhIAhUrXwiIEIMhoR8IghCNIggAykDyAkgAykDuAp8IBsgHVStfCADKQPoCHwgHiAbVK18IAMpA/gIfCAfIB5UrXwgIEI0iHwgCCAfVK18Ih9CDIaEfCIbQgSGQvD/////////AIMgCEIwiEIPg4RCAELRh4CAEEIAEOCAgIAAIANBgApqIAdCACAZQgAQ4ICAgAAgA0GwCGogCUIAIAVCABDggICAACADQaAJaiAGQgAgBkIAEOCAgIAAIANBoAhqIAMpA7AIIh0gAykDoAl8Ih4gG0I0iCADKQPYCCADKQO4CXwgGiAcVK18IB9CNIh8IBsgGlStfCIbQgyGhHwiGkL/////////B4NCAEKQ+oCAgAJCABDggICAACADQfAJaiAFQgAgGUIAEOCAgIAAIANBkApqIAdCACAHQgAQ4ICAgAAgA0GQCGogCUIAIAZCABDggICAACADQYAIaiAaQjSIIAMpA7gIIAMpA6gJfCAeIB1UrXwgG0I0iHwgGiAeVK18IgZCDIaEIgcgAykDkAh8IgVC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgA0HwB2ogBUI0iCAGQjSIIAMpA5gIfCAFIAdUrXwiBUIMhoQgBUI0iEKQ+oCAgAJCABDggICAACADKQPoCSEeIAMpA8gIIRwgAykD4AkhHyADKQPACCEFIAMpA4gKIR0gAykDqAghICADKQOACiEbIAMpA6AIIQYgAykDmAohIiADKQP4CSEjIAMpA5AKIRkgAykD8AkhByADKQOICCEkIAMpA4AIIRogAykD8AchCSADKQP4ByElIAMpA8gMISYgAykDwAwhJyADKQO4DCEoIAMpA7AMISkgAykD0AwhKiADQrzh//+///8fIBR9IhQ3A+gKIANC/P///////x8gFX0iFTcD8AogA0L8////////HyAWfSIWNwP4CiADQvz///////8fIBd9Ihc3A4ALIANC/P///////wEgGH0iGDcDiAsgA0HgC2ogA0GADWogA0HoCmoQiICAgAAgAyAPIBAgESASIBNCMIhC0YeAgBB+fCISQjSIfCIRQjSIfCIrQjSIfCIsQjSIIBNC////////P4N8Ig9CAYYgAykDgAwgCSAhQv7///////8Hg3wiEyAaIAcgGXwiGXwiGiAGIBt8IhsgBSAffCIfQjSIIBwgHnwgHyAFVK18Ih5CDIaEfCIFQjSIICAgHXwgGyAGVK18IB5CNIh8IAUgG1StfCIbQgyGhHwiBkI0iCAkICMgInwgGSAHVK18fCAaIBlUrXwgG0I0iHwgBiAaVK18IhlCDIaEfCIHQjSIICUgEyAJVK18IBlCNIh8IAcgE1StfEIMhoQgCEL///////8/g3x8IgggKiAPfCIeQjCIQtGHgIAQfiApIBJC/////////weDIht8Ig98IglCNIggKCARQv////////8HgyIhfCIQfCITIAmEIBNCNIggJyArQv////////8HgyIcfCIRfCIZhCAZQjSIICYgLEL/////////B4MiHXwiEnwiGoRC/////////weDIBpCNIggHkL///////8/g3wiIIRQIAlC0IeAgBCFICBCgICAgICAwAeFgyATgyAZgyAag0L/////////B1FyIAhCMIhC0YeAgBB+IB9C/////////weDIAMpA+ALfCITfCIJQjSIIAVC/////////weDIAMpA+gLfCIZfCIFIAmEIAVCNIggBkL/////////B4MgAykD8At8Ihp8IgaEIAZCNIggB0L/////////B4MgAykD+At8IiB8IgeEQv////////8HgyAHQjSIIAhC////////P4N8IgiEUCAJQtCHgIAQhSAIQoCAgICAgMAHhYMgBYMgBoMgB4NC/////////wdRcnEiLRsiHzcD4AogAyAdQgGGICAgLRsiBTcD2AogAyAcQgGGIBogLRsiBjcD0AogAyAhQgGGIBkgLRsiCTcDyAogAyAbQgGGIBMgLRsiGjcDwAogAyAYIAp8IB4gLRsiGzcDiAsgAyAXIA58IBIgLRsiBzcDgAsgAyAWIA18IBEgLRsiCDcD+AogAyAVIAx8IBAgLRsiEzcD8AogAyAUIAt8IA8gLRsiGTcD6AogA0GwBGogGUIBhiILQgAgB0IAEOCAgIAAIANB4ARqIBNCAYYiCkIAIAhCABDggICAACADQfADaiAbQgAgG0IAEOCAgIAAIANB4ANqIAMpA/ADIgxC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgA0HAA2ogG0IBhiIhQgAgGUIAEOCAgIAAIANBoARqIApCACAHQgAQ4ICAgAAgA0HQBGogCEIAIAhCABDggICAACADQdADaiAMQjSIIAMpA/gDIhtCDIaEIBtCNIhCkPqAgIACQgAQ4ICAgAAgA0GQBWogGUIAIBlCABDggICAACADQbADaiAhQgAgE0IAEOCAgIAAIANBkARqIAhCAYZCACAHQgAQ4ICAgAAgA0GgA2ogAykDsAMiFSADKQOQBHwiGSADKQOgBCIUIAMpA9AEfCIbIAMpA8ADfCIMIAMpA9ADfCINIAMpA7AEIhYgAykD4AR8IgogAykD4AN8Ig5CNIggAykDuAQgAykD6AR8IAogFlStfCADKQPoA3wgDiAKVK18IhZCDIaEfCIKQjSIIAMpA6gEIAMpA9gEfCAbIBRUrXwgAykDyAN8IAwgG1StfCADKQPYA3wgDSAMVK18IBZCNIh8IAogDVStfCIWQgyGhHwiDEIEhkLw/////////wCDIApCMIhCD4OEQgBC0YeAgBBCABDggICAACADIAMpA6ADIhcgAykDkAV8Ig1C/////////weDIhs3A7gLIANBgAVqIAtCACATQgAQ4ICAgAAgA0GAA2ogIUIAIAhCABDggICAACADQYAEaiAHQgAgB0IAEOCAgIAAIANB8AJqIAMpA4ADIhggAykDgAR8IhQgDEI0iCADKQO4AyADKQOYBHwgGSAVVK18IBZCNIh8IAwgGVStfCIWQgyGhHwiDEL/////////B4NCAEKQ+oCAgAJCABDggICAACADIAMpA/ACIhwgAykDgAV8IhUgDUI0iCADKQOoAyADKQOYBXwgDSAXVK18IhdCDIaEfCINQv////////8HgyIZNwPACyADQcAEaiALQgAgCEIAEOCAgIAAIANB8ARqIBNCACATQgAQ4ICAgAAgA0HAAmogIUIAIAdCABDggICAACADQbACaiAMQjSIIAMpA4gDIAMpA4gEfCAUIBhUrXwgFkI0iHwgDCAUVK18IgxCDIaEIhQgAykDwAJ8IghC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAyADKQPABCIWIAMpA/AEfCITIAMpA7ACfCIhIA1CNIggAykD+AIgAykDiAV8IBUgHFStfCAXQjSIfCANIBVUrXwiDUIMhoR8IgtC/////////weDIgc3A8gLIANB8AFqIAhCNIggDEI0iCADKQPIAnwgCCAUVK18IghCDIaEIAhCNIhCkPqAgIACQgAQ4ICAgAAgAyADKQPwASIUIA5C/v///////weDfCIMIAtCNIggAykDyAQgAykD+AR8IBMgFlStfCADKQO4AnwgISATVK18IA1CNIh8IAsgIVStfCIhQgyGhHwiE0L/////////B4MiCDcD0AsgAyATQjSIIAMpA/gBIAwgFFStfCAhQjSIfCATIAxUrXwiC0IMhoQiDCAKQv///////z+DfCITNwPYCyADQbABaiAIQgAgG0IBhiIhQgAQ4ICAgAAgA0GgAmogB0IAIBlCAYYiCkIAEOCAgIAAIANB4AFqIBMgC0I0iCATIAxUrXwiCyATIAsQ4ICAgAAgA0HQAWogAykD4AEiC0L/////////B4NCAEKQ+oCAgAJCABDggICAACADQfAAaiAbQgAgE0IBhiITQgAQ4ICAgAAgA0GgAWogCEIAIApCABDggICAACADQZACaiAHQgAgB0IAEOCAgIAAIANBwAFqIAtCNIggAykD6AEiCkIMhoQgCkI0iEKQ+oCAgAJCABDggICAACADQZADaiAbQgAgG0IAEOCAgIAAIANB4ABqIBlCACATQgAQ4ICAgAAgA0GAAWogCEIAIAdCAYZCABDggICAACADQdAAaiADKQNgIhQgAykDgAF8IgogAykDoAEiFSADKQOQAnwiCyADKQNwfCIMIAMpA8ABfCINIAMpA7ABIhYgAykDoAJ8IhsgAykD0AF8Ig5CNIggAykDuAEgAykDqAJ8IBsgFlStfCADKQPYAXwgDiAbVK18IhZCDIaEfCIbQjSIIAMpA6gBIAMpA5gCfCALIBVUrXwgAykDeHwgDCALVK18IAMpA8gBfCANIAxUrXwgFkI0iHwgGyANVK18Ig1CDIaEfCILQgSGQvD/////////AIMgG0IwiEIPg4RCAELRh4CAEEIAEOCAgIAAIANB4AJqIBlCACAhQgAQ4ICAgAAgA0HAAGogB0IAIBNCABDggICAACADQZABaiAIQgAgCEIAEOCAgIAAIANBMGogAykDQCIVIAMpA5ABfCIMIAtCNIggAykDaCADKQOIAXwgCiAUVK18IA1CNIh8IAsgClStfCILQgyGhHwiCkL/////////B4NCAEKQ+oCAgAJCABDggICAACADQYACaiAHQgAgIUIAEOCAgIAAIANB0AJqIBlCACAZQgAQ4ICAgAAgA0EgaiAIQgAgE0IAEOCAgIAAIANBEGogCkI0iCADKQNIIAMpA5gBfCAMIBVUrXwgC0I0iHwgCiAMVK18IghCDIaEIhMgAykDIHwiB0L/////////B4NCAEKQ+oCAgAJCABDggICAACADIAdCNIggCEI0iCADKQMofCAHIBNUrXwiB0IMhoQgB0I0iEKQ+oCAgAJCABDggICAACADQYAHaiAaQgGGIhNCACAFQgAQ4ICAgAAgA0GwB2ogCUIBhiIIQgAgBkIAEOCAgIAAIANBwAZqIB9CACAfQgAQ4ICAgAAgA0GwBmogAykDwAYiGUL/////////B4NCAEKQ+oCAgAJCABDggICAACADQZAGaiAfQgGGIgdCACAaQgAQ4ICAgAAgA0HwBmogCEIAIAVCABDggICAACADQaAHaiAGQgAgBkIAEOCAgIAAIANBoAZqIBlCNIggAykDyAYiCEIMhoQgCEI0iEKQ+oCAgAJCABDggICAACADQeAHaiAaQgAgGkIAEOCAgIAAIANBgAZqIAdCACAJQgAQ4ICAgAAgA0HgBmogBkIBhkIAIAVCABDggICAACADQfAFaiADKQOABiILIAMpA+AGfCIZIAMpA/AGIgwgAykDoAd8IhogAykDkAZ8Ih8gAykDoAZ8IiEgAykDgAciDSADKQOwB3wiCCADKQOwBnwiCkI0iCADKQOIByADKQO4B3wgCCANVK18IAMpA7gGfCAKIAhUrXwiDUIMhoR8IghCNIggAykD+AYgAykDqAd8IBogDFStfCADKQOYBnwgHyAaVK18IAMpA6gGfCAhIB9UrXwgDUI0iHwgCCAhVK18IiFCDIaEfCIaQgSGQvD/////////AIMgCEIwiEIPg4RCAELRh4CAEEIAEOCAgIAAIANB0AdqIBNCACAJQgAQ4ICAgAAgA0HgBWogB0IAIAZCABDggICAACADQdAGaiAFQgAgBUIAEOCAgIAAIANB0AVqIAMpA+AFIgwgAykD0AZ8Ih8gGkI0iCADKQOIBiADKQPoBnwgGSALVK18ICFCNIh8IBogGVStfCIaQgyGhHwiGUL/////////B4NCAEKQ+oCAgAJCABDggICAACADQZAHaiATQgAgBkIAEOCAgIAAIANBwAdqIAlCACAJQgAQ4ICAgAAgA0HABWogB0IAIAVCABDggICAACADQbAFaiAZQjSIIAMpA+gFIAMpA9gGfCAfIAxUrXwgGkI0iHwgGSAfVK18IgZCDIaEIgcgAykDwAV8IgVC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgA0GgBWogBUI0iCAGQjSIIAMpA8gFfCAFIAdUrXwiBUIMhoQgBUI0iEKQ+oCAgAJCABDggICAACADQZALaiADQbgLaiADQYgMahCIgICAACAAQdAAaiAEIANB6ApqEIiAgIAAIAAgACkDcCIHQgGGIh83A3AgACAAKQNoIiFCAYYiCzcDaCAAIAApA2AiDEIBhiINNwNgIAAgACkDWCIUQgGGIhU3A1ggACAAKQNQIhZCAYYiFzcDUCADQvz///////8BIAMpA7ALfSIYIAMpA6AFIhwgCkL+////////B4N8IgUgAykDkAciCiADKQPAB3wiBiADKQOwBXwiCSADKQPQBSIdIAMpA9AHfCITIAMpA/AFIhogAykD4Ad8IhlCNIggAykD+AUgAykD6Ad8IBkgGlStfCIgQgyGhHwiGkI0iCADKQPYBSADKQPYB3wgEyAdVK18ICBCNIh8IBogE1StfCIdQgyGhHwiE0I0iCADKQOYByADKQPIB3wgBiAKVK18IAMpA7gFfCAJIAZUrXwgHUI0iHwgEyAJVK18IglCDIaEfCIGQjSIIAMpA6gFIAUgHFStfCAJQjSIfCAGIAVUrXxCDIaEIAhC////////P4N8fCIKQjCIQtGHgIAQfkK84f//v///HyADKQOQC30iHCAZQv////////8Hg3x8IghC/////////weDIgU3A4gMIAMgCEI0iEL8////////HyADKQOYC30iGSAaQv////////8Hg3x8IglC/////////weDIgg3A5AMIAMgCUI0iEL8////////HyADKQOgC30iGiATQv////////8Hg3x8IhNC/////////weDIgk3A5gMIAEoAnghBCADIBNCNIhC/P///////x8gAykDqAt9Ih0gBkL/////////B4N8fCITQv////////8HgyIGNwOgDCADIBNCNIggCkL///////8/g3wiEzcDqAwgACATNwMgIAAgBjcDGCAAIAk3AxAgACAINwMIIAAgBTcDACADIAVCAYYgHHw3A4gMIAMgCEIBhiAZfDcDkAwgAyAJQgGGIBp8NwOYDCADIAZCAYYgHXw3A6AMIAMgE0IBhiAYfDcDqAwgA0GIDGogA0GIDGogA0HACmoQiICAgAAgACAAKQMAQgKGIho3AwAgACAAKQMIQgKGIgo3AwggACAAKQMQQgKGIhg3AxAgACAAKQMYQgKGIhw3AxggACAAKQMgQgKGIh03AyAgAEL4////////AyADKQOoDCAeIAMpAwAiICAOQv7///////8Hg3wiBSADKQOAAiIOIAMpA9ACfCIGIAMpAxB8IgggAykDMCIiIAMpA+ACfCIJIAMpA1AiGSADKQOQA3wiE0I0iCADKQNYIAMpA5gDfCATIBlUrXwiI0IMhoR8IhlCNIggAykDOCADKQPoAnwgCSAiVK18ICNCNIh8IBkgCVStfCIiQgyGhHwiCUI0iCADKQOIAiADKQPYAnwgBiAOVK18IAMpAxh8IAggBlStfCAiQjSIfCAJIAhUrXwiCEIMhoR8IgZCNIggAykDCCAFICBUrXwgCEI0iHwgBiAFVK18QgyGhCAbQv///////z+DfCAtG3x9IgVCMIhC0YeAgBB+IAMpA4gMIA8gE0L/////////B4MgLRt8fUL4wv////7/P3wiCEIChkL8////////H4MiEzcDKCAAIAhCNIggAykDkAwgECAZQv////////8HgyAtG3x9Qvj///////8/fCIIQgKGQvz///////8fgyIZNwMwIAAgCEI0iCADKQOYDCARIAlC/////////weDIC0bfH1C+P///////z98IghCAoZC/P///////x+DIgk3AzggACAIQjSIIAMpA6AMIBIgBkL/////////B4MgLRt8fUL4////////P3wiBkIChkL8////////H4MiCDcDQCAAIAZCNIggBUL///////8/g3xCAoYiGzcDSCAAIAE0AngiBkJ/fCIFIBqDIAIpAwBCACAGfSIGg4Q3AwAgACACKQMIIAaDIAUgCoOENwMIIAAgAikDECAGgyAFIBiDhDcDECAAIAIpAxggBoMgBSAcg4Q3AxggACACKQMgIAaDIAUgHYOENwMgIAAgAikDKCAGgyAFIBODhDcDKCAAIAIpAzAgBoMgBSAZg4Q3AzAgACACKQM4IAaDIAUgCYOENwM4IAAgAikDQCAGgyAFIAiDhDcDQCACKQNIIRogACAEQX9zIi1BAXEgFiAHQjCIQtGHgIAQfnwiCELQh4CAEIUgISAMIBQgCEI0iHwiCUI0iHwiE0I0iHwiGUI0iCAHQv///////z+DfCIHQoCAgICAgMAHhYMgCYMgE4MgGYNC/////////wdRIC1xIAkgCIQgE4QgGYRC/////////weDIAeEUBs2AnggACAFIB+DNwNwIAAgBSALgzcDaCAAIAUgDYM3A2AgACAFIBWDNwNYIAAgBSAXgyAGQgGDhDcDUCAAIBogBoMgBSAbg4Q3A0ggA0HQDWokgICAgAALhwQBAX8jgICAgABB8ABrIgQkgICAgAAgBCACLQAfQQFxQQJyOgBnIARBADYCYCAEQquzj/yRo7Pw2wA3AhggBEL/pLmIxZHagpt/NwIQIARC8ua746On/aelfzcCCCAEQufMp9DW0Ouzu383AgAgBCAEQecAakEBEIKAgIAAIAQgAUEgEIKAgIAAIAQgBCgCYCICQQV2IgFBgICAOHE2AmggBCACQQt0QYCA/AdxIAJBG3RyIAFBgP4DcXIgAkEVdkH/AXFyNgJsIARB0IfAggBBNyACa0E/cUEBahCCgICAACAEIARB6ABqQQgQgoCAgAAgACAEKAIcIgJB/4H8B3FBCHggAkEYeEH/gfwHcXI2ABwgACAEKAIYIgJB/4H8B3FBCHggAkEYeEH/gfwHcXI2ABggACAEKAIUIgJB/4H8B3FBCHggAkEYeEH/gfwHcXI2ABQgACAEKAIQIgJB/4H8B3FBCHggAkEYeEH/gfwHcXI2ABAgACAEKAIMIgJB/4H8B3FBCHggAkEYeEH/gfwHcXI2AAwgACAEKAIIIgJB/4H8B3FBCHggAkEYeEH/gfwHcXI2AAggACAEKAIEIgJB/4H8B3FBCHggAkEYeEH/gfwHcXI2AAQgACAEKAIAIgJB/4H8B3FBCHggAkEYeEH/gfwHcXI2AAAgBEHwAGokgICAgABBAQvPSwkCfwZ+BH8jfgF/J34Cf0Z+BX8jgICAgABBgBhrIgYkgICAgABBACEHIAZBADYChAICQAJAIAENAEGTgsCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAADAELAkAgAg0AQb+CwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEHDAELAkAgAw0AQe+CwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEHDAELIAZBADYCeCAGIAIpADgiCEIQiDcDcCAGIAIpACAiCUL/////////B4M3A1AgBiAIQiSGQoCAgICA/v8HgyACKQAwIghCHIiENwNoIAYgCEIYhkKAgID4////B4MgAikAKCIIQiiIhDcDYCAGIAhCDIZCgOD//////weDIAlCNIiENwNYIAYgAikACCIIQgyGQoDg//////8HgyACKQAAIglCNIiEIgo3AzAgBiAJQv////////8HgyIJNwMoIAYgAikAGCILQhCIIgw3A0ggBiACKQAQIg1CGIZCgICA+P///weDIAhCKIiEIgg3AzggBiALQiSGQoCAgICA/v8HgyANQhyIhCILNwNAIAZBKGpBKGohDgJAIAogCYQgDIQgCIQgC4RCAFINAEH8hcCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAACyAEQYKAgIAAIAQbIQ8gBkEIaiADIAZBhAJqEJaAgIAAIAYgBigChAIgBikDECIJIAYpAwgiCoQgBikDGCILhCAGKQMgIgyEUHIiAjYChAIgBiAMIAKsIg1Cf3wiCIM3AyAgBiAIIAuDNwMYIAYgCCAJgzcDECAGIAggCoMgDUIBg4Q3AwggBkHQBWogBkGwBWogBkEIahC6gICAACAGQaAEaiAGQdAFahC7gICAACEQIAZB8AVqIAZBsAVqELuAgIAAIREgBkEANgL4ASAGIAYpAyg3A4ABIAYgBikDMDcDiAEgBiAGKQM4NwOQASAGIAYpA0A3A5gBIAYgBikDSDcDoAEgBiAOKQMANwOoASAGIA4pAwg3A7ABIAYgDikDEDcDuAEgBiAOKQMYNwPAASAGIA4pAyA3A8gBIAZCADcD2AEgBkIBNwPQASAGQgA3A+ABIAZCADcD6AEgBkIANwPwASAGQYAQaiAGQcANaiAGQYABahC8gICAAEEIIAZBgAhqIAZBgAdqIAZBgBBqIAZBwA1qEL2AgIAAIAYgBikDyAgiCEIwiELRh4CAEH4gBikDqAh8IglC/////////weDNwOoCCAGIAYpA6AJIgpCMIhC0YeAgBB+IAYpA4AJfCILQv////////8HgyISNwOACSAGIAlCNIggBikDsAh8IglC/////////weDNwOwCCAGIAtCNIggBikDiAl8IgtC/////////weDIhM3A4gJIAYgCUI0iCAGKQO4CHwiCUL/////////B4M3A7gIIAYgC0I0iCAGKQOQCXwiC0L/////////B4MiFDcDkAkgBiAJQjSIIAYpA8AIfCIJQv////////8HgzcDwAggBiALQjSIIAYpA5gJfCILQv////////8HgyIVNwOYCSAGIAlCNIggCEL///////8/g3w3A8gIIAYgC0I0iCAKQv///////z+DfCIWNwOgCSAGKQPwCSEIIAYpA+gJIQkgBikD4AkhCiAGIAYpA/gJIgtCMIhC0YeAgBB+IAYpA9gJfCIMQv////////8HgyIXNwPYCSAGIAogDEI0iHwiCkL/////////B4MiGDcD4AkgBiAJIApCNIh8IglC/////////weDIhk3A+gJIAYgCCAJQjSIfCIIQv////////8HgyIaNwPwCSAGIAhCNIggC0L///////8/g3wiGzcD+AkgBikDyAohCCAGKQPACiEJIAYpA7gKIQogBiAGKQPQCiILQjCIQtGHgIAQfiAGKQOwCnwiDEL/////////B4MiHDcDsAogBiAKIAxCNIh8IgpC/////////weDIh03A7gKIAYgCSAKQjSIfCIJQv////////8HgyIeNwPACiAGIAggCUI0iHwiCEL/////////B4MiHzcDyAogBiAIQjSIIAtC////////P4N8IiA3A9AKIAYpA6ALIQggBikDmAshCSAGKQOQCyEKIAYgBikDqAsiC0IwiELRh4CAEH4gBikDiAt8IgxC/////////weDIiE3A4gLIAYgCiAMQjSIfCIKQv////////8HgyIiNwOQCyAGIAkgCkI0iHwiCUL/////////B4MiIzcDmAsgBiAIIAlCNIh8IghC/////////weDIiQ3A6ALIAYgCEI0iCALQv///////z+DfCIlNwOoCyAGKQP4CyEIIAYpA/ALIQkgBikD6AshCiAGIAYpA4AMIgtCMIhC0YeAgBB+IAYpA+ALfCIMQv////////8HgyImNwPgCyAGIAogDEI0iHwiCkL/////////B4MiJzcD6AsgBiAJIApCNIh8IglC/////////weDIig3A/ALIAYgCCAJQjSIfCIIQv////////8HgyIpNwP4CyAGIAhCNIggC0L///////8/g3wiKjcDgAwgBikD0AwhCCAGKQPIDCEJIAYpA8AMIQogBiAGKQPYDCILQjCIQtGHgIAQfiAGKQO4DHwiDEL/////////B4MiKzcDuAwgBiAKIAxCNIh8IgpC/////////weDIiw3A8AMIAYgCSAKQjSIfCIJQv////////8HgyItNwPIDCAGIAggCUI0iHwiCEL/////////B4MiLjcD0AwgBiAIQjSIIAtC////////P4N8Ii83A9gMIAYpA6gNIQggBikDoA0hCSAGKQOYDSEKIAYgBikDsA0iC0IwiELRh4CAEH4gBikDkA18IgxC/////////weDIjA3A5ANIAYgCiAMQjSIfCIKQv////////8HgyIxNwOYDSAGIAkgCkI0iHwiCUL/////////B4MiMjcDoA0gBiAIIAlCNIh8IghC/////////weDIjM3A6gNIAYgCEI0iCALQv///////z+DfCI0NwOwDSAGQYAQaiAGQYAIakHYAPwKAAAgBkGAEGogBkGAEGpBmIvAggAQiICAgAAgBkGAEGpB2ABqIgIgBkGACGpB2ABqQdgA/AoAACACIAJBmIvAggAQiICAgAAgBkGAEGpBsAFqIgIgBkGACGpBsAFqQdgA/AoAACACIAJBmIvAggAQiICAgAAgBkGAEGpBiAJqIgIgBkGACGpBiAJqQdgA/AoAACACIAJBmIvAggAQiICAgAAgBkGAEGpB4AJqIgIgBkGACGpB4AJqQdgA/AoAACACIAJBmIvAggAQiICAgAAgBkGAEGpBuANqIgIgBkGACGpBuANqQdgA/AoAACACIAJBmIvAggAQiICAgAAgBkGAEGpBkARqIgIgBkGACGpBkARqQdgA/AoAACACIAJBmIvAggAQiICAgAAgBkGAEGpB6ARqIgIgBkGACGpB6ARqQdgA/AoAACACIAJBmIvAggAQiICAgAAgBiAGKQOACDcDqAcgBiAGKQOICDcDsAcgBiAGKQOQCDcDuAcgBiAGKQOYCDcDwAcgBiAGKQOgCDcDyAcgBiAGKQOoCDcD0AcgBiAGKQOwCDcD2AcgBiAGKQO4CDcD4AcgBiAGKQPACDcD6AcgBiAGKQPICDcD8AcgBigCoAUhNSAGKQPQByEKIAYpA9gHIQsgBikD4AchDCAGKQPoByENIAYpA/AHIQggBikD6AwhNiAGKQOQDCE3IAYpA7gLITggBikD4AohOSAGKQOICiE6IAYpA7AJITsgBikD2AghPCAGKQOoByEJIAYpA/AMIT0gBikDmAwhPiAGKQPACyE/IAYpA+gKIUAgBikDkAohQSAGKQO4CSFCIAYpA+AIIUMgBikDsAchRCAGKQP4DCFFIAYpA6AMIUYgBikDyAshRyAGKQPwCiFIIAYpA5gKIUkgBikDwAkhSiAGKQPoCCFLIAYpA7gHIUwgBikDgA0hTSAGKQOoDCFOIAYpA9ALIU8gBikD+AohUCAGKQOgCiFRIAYpA8gJIVIgBikD8AghUyAGKQPAByFUIAYpA4gNIVUgBikDsAwhViAGKQPYCyFXIAYpA4ALIVggBikDqAohWSAGKQPQCSFaIAYpA/gIIVsgBikDyAchXCAGQQA2AvgBIAYgVSBWIFcgWCBZIFogWyBcIDUgNUEfdSICcyACa0EBdiJdQQFGIgIbIF1BAkYiBxsgXUEDRiIDGyBdQQRGIgQbIF1BBUYiABsgXUEGRiJeGyBdQQdGIl0bIlw3A8gHIAYgTSBOIE8gUCBRIFIgUyBUIAIbIAcbIAMbIAQbIAAbIF4bIF0bIlQ3A8AHIAYgRSBGIEcgSCBJIEogSyBMIAIbIAcbIAMbIAQbIAAbIF4bIF0bIkw3A7gHIAYgPSA+ID8gQCBBIEIgQyBEIAIbIAcbIAMbIAQbIAAbIF4bIF0bIkQ3A7AHIAYgNiA3IDggOSA6IDsgPCAJIAIbIAcbIAMbIAQbIAAbIF4bIF0bIgk3A6gHIAYgCTcDgAEgBiBENwOIASAGIEw3A5ABIAYgVDcDmAEgBiBcNwOgASAGQvz///////8BIDQgLyAqICUgICAbIBYgCCACGyAHGyADGyAEGyAAGyBeGyBdGyJEfUIAIDVBH3atIgl9IgiDIEQgCUJ/fCIJg4QiRDcD8AcgBkL8////////HyAzIC4gKSAkIB8gGiAVIA0gAhsgBxsgAxsgBBsgABsgXhsgXRsiDX0gCIMgDSAJg4QiDTcD6AcgBkL8////////HyAyIC0gKCAjIB4gGSAUIAwgAhsgBxsgAxsgBBsgABsgXhsgXRsiDH0gCIMgDCAJg4QiDDcD4AcgBkL8////////HyAxICwgJyAiIB0gGCATIAsgAhsgBxsgAxsgBBsgABsgXhsgXRsiC30gCIMgCyAJg4QiCzcD2AcgBkK84f//v///HyAwICsgJiAhIBwgFyASIAogAhsgBxsgAxsgBBsgABsgXhsgXRsiCn0gCIMgCiAJg4QiCDcD0AcgBiAINwOoASAGIAs3A7ABIAYgDDcDuAEgBiANNwPAASAGIEQ3A8gBIAZCADcD8AEgBkIANwPoASAGQgA3A+ABIAZCADcD2AEgBkIBNwPQASAGIAYpA6AQNwPIByAGIAYpA5gQNwPAByAGIAYpA5AQNwO4ByAGIAYpA4gQNwOwByAGIAYpA4AQNwOoByAGIAYpA8AQNwPoByAGIAYpA7gQNwPgByAGIAYpA7AQNwPYByAGIAYpA6gQNwPQByAGIAYpA8gQNwPwByAGKALwBiE1IAYpA5AVIUQgBikDuBQhTCAGKQPgEyFUIAYpA4gTIVwgBikDsBIhXyAGKQPYESFgIAYpA4ARIWEgBikD0AchCiAGKQOYFSFiIAYpA8AUIWMgBikD6BMhZCAGKQOQEyFlIAYpA7gSIWYgBikD4BEhZyAGKQOIESFoIAYpA9gHIQsgBikDoBUhaSAGKQPIFCFqIAYpA/ATIWsgBikDmBMhbCAGKQPAEiFtIAYpA+gRIW4gBikDkBEhbyAGKQPgByEMIAYpA6gVIXAgBikD0BQhcSAGKQP4EyFyIAYpA6ATIXMgBikDyBIhdCAGKQPwESF1IAYpA5gRIXYgBikD6AchDSAGKQOwFSF3IAYpA9gUIXggBikDgBQheSAGKQOoEyF6IAYpA9ASIXsgBikD+BEhfCAGKQOgESF9IAYpA/AHIQggBikD6BQhfiAGKQOQFCF/IAYpA7gTIYABIAYpA+ASIYEBIAYpA4gSIYIBIAYpA7ARIYMBIAYpA9gQIYQBIAYpA6gHIQkgBikD8BQhhQEgBikDmBQhhgEgBikDwBMhhwEgBikD6BIhiAEgBikDkBIhiQEgBikDuBEhigEgBikD4BAhiwEgBikDsAchjAEgBikD+BQhjQEgBikDoBQhjgEgBikDyBMhjwEgBikD8BIhkAEgBikDmBIhkQEgBikDwBEhkgEgBikD6BAhkwEgBikDuAchlAEgBikDgBUhlQEgBikDqBQhlgEgBikD0BMhlwEgBikD+BIhmAEgBikDoBIhmQEgBikDyBEhmgEgBikD8BAhmwEgBikDwAchnAEgBikDiBUhnQEgBikDsBQhngEgBikD2BMhnwEgBikDgBMhoAEgBikDqBIhoQEgBikD0BEhogEgBikD+BAhowEgBikDyAchpAEgBkEANgL4ByAGIJ0BIJ4BIJ8BIKABIKEBIKIBIKMBIKQBIDUgNUEfdSICcyACa0EBdiJdQQFGIgIbIF1BAkYiBxsgXUEDRiIDGyBdQQRGIgQbIF1BBUYiABsgXUEGRiJeGyBdQQdGIl0bNwPIByAGIJUBIJYBIJcBIJgBIJkBIJoBIJsBIJwBIAIbIAcbIAMbIAQbIAAbIF4bIF0bNwPAByAGII0BII4BII8BIJABIJEBIJIBIJMBIJQBIAIbIAcbIAMbIAQbIAAbIF4bIF0bNwO4ByAGIIUBIIYBIIcBIIgBIIkBIIoBIIsBIIwBIAIbIAcbIAMbIAQbIAAbIF4bIF0bNwOwByAGIH4gfyCAASCBASCCASCDASCEASAJIAIbIAcbIAMbIAQbIAAbIF4bIF0bNwOoByAGQvz///////8BIHcgeCB5IHogeyB8IH0gCCACGyAHGyADGyAEGyAAGyBeGyBdGyKMAX1CACA1QR92rSIJfSIIgyCMASAJQn98IgmDhDcD8AcgBkL8////////HyBwIHEgciBzIHQgdSB2IA0gAhsgBxsgAxsgBBsgABsgXhsgXRsiDX0gCIMgDSAJg4Q3A+gHIAZC/P///////x8gaSBqIGsgbCBtIG4gbyAMIAIbIAcbIAMbIAQbIAAbIF4bIF0bIgx9IAiDIAwgCYOENwPgByAGQvz///////8fIGIgYyBkIGUgZiBnIGggCyACGyAHGyADGyAEGyAAGyBeGyBdGyILfSAIgyALIAmDhDcD2AcgBkK84f//v///HyBEIEwgVCBcIF8gYCBhIAogAhsgBxsgAxsgBBsgABsgXhsgXRsiCn0gCIMgCiAJg4Q3A9AHIAZBgBBqQShqIaUBIAZBqAdqQShqIQIgBkGACGpBKGohpgEgBkHQAWohpwEgBkGAAWogBkGAAWogBkGoB2oQt4CAgABB/AAhqAEDQCAGQYABaiAGQYABahCHgICAACAGQYABaiAGQYABahCHgICAACAGQYABaiAGQYABahCHgICAACAGQYABaiAGQYABahCHgICAACACIKYBKQMgNwMgIAIgpgEpAxg3AxggAiCmASkDEDcDECACIKYBKQMINwMIIAIgpgEpAwA3AwAgBiAGKQOACDcDqAcgBiAGKQOICDcDsAcgBiAGKQOQCDcDuAcgBiAGKQOYCDcDwAcgBiAGKQOgCDcDyAcgBkGgBGogqAFqKAIAIakBIAZBADYC+AcgBiA2IDcgOCA5IDogOyA8IAYpA6gHIKkBIKkBQR91IgdzIAdrQQF2IjVBAUYiBxsgNUECRiIDGyA1QQNGIgQbIDVBBEYiABsgNUEFRiJeGyA1QQZGIl0bIDVBB0YiNRs3A6gHIAYgPSA+ID8gQCBBIEIgQyAGKQOwByAHGyADGyAEGyAAGyBeGyBdGyA1GzcDsAcgBiBFIEYgRyBIIEkgSiBLIAYpA7gHIAcbIAMbIAQbIAAbIF4bIF0bIDUbNwO4ByAGIE0gTiBPIFAgUSBSIFMgBikDwAcgBxsgAxsgBBsgABsgXhsgXRsgNRs3A8AHIAYgVSBWIFcgWCBZIFogWyAGKQPIByAHGyADGyAEGyAAGyBeGyBdGyA1GzcDyAcgBkK84f//v///HyAwICsgJiAhIBwgFyASIAYpA9AHIAcbIAMbIAQbIAAbIF4bIF0bIDUbIgp9QgAgqQFBH3atIgl9IgiDIAogCUJ/fCIJg4Q3A9AHIAYpA9gHIQogBikD4AchCyAGKQPoByEMIAZC/P///////wEgNCAvICogJSAgIBsgFiAGKQPwByAHGyADGyAEGyAAGyBeGyBdGyA1GyINfSAIgyANIAmDhDcD8AcgBkL8////////HyAzIC4gKSAkIB8gGiAVIAwgBxsgAxsgBBsgABsgXhsgXRsgNRsiDH0gCIMgDCAJg4Q3A+gHIAZC/P///////x8gMiAtICggIyAeIBkgFCALIAcbIAMbIAQbIAAbIF4bIF0bIDUbIgt9IAiDIAsgCYOENwPgByAGQvz///////8fIDEgLCAnICIgHSAYIBMgCiAHGyADGyAEGyAAGyBeGyBdGyA1GyIKfSAIgyAKIAmDhDcD2AcgBkGAAWogBkGAAWogBkGoB2oQt4CAgAAgAiClASkDIDcDICACIKUBKQMYNwMYIAIgpQEpAxA3AxAgAiClASkDCDcDCCACIKUBKQMANwMAIAYgBikDgBA3A6gHIAYgBikDiBA3A7AHIAYgBikDkBA3A7gHIAYgBikDmBA3A8AHIAYgBikDoBA3A8gHIAZB8AVqIKgBaigCACGpASAGQQA2AvgHIAYgfiB/IIABIIEBIIIBIIMBIIQBIAYpA6gHIKkBIKkBQR91IgdzIAdrQQF2IjVBAUYiBxsgNUECRiIDGyA1QQNGIgQbIDVBBEYiABsgNUEFRiJeGyA1QQZGIl0bIDVBB0YiNRs3A6gHIAYghQEghgEghwEgiAEgiQEgigEgiwEgBikDsAcgBxsgAxsgBBsgABsgXhsgXRsgNRs3A7AHIAYgjQEgjgEgjwEgkAEgkQEgkgEgkwEgBikDuAcgBxsgAxsgBBsgABsgXhsgXRsgNRs3A7gHIAYglQEglgEglwEgmAEgmQEgmgEgmwEgBikDwAcgBxsgAxsgBBsgABsgXhsgXRsgNRs3A8AHIAYgnQEgngEgnwEgoAEgoQEgogEgowEgBikDyAcgBxsgAxsgBBsgABsgXhsgXRsgNRs3A8gHIAZCvOH//7///x8gRCBMIFQgXCBfIGAgYSAGKQPQByAHGyADGyAEGyAAGyBeGyBdGyA1GyIKfUIAIKkBQR92rSIJfSIIgyAKIAlCf3wiCYOENwPQByAGKQPYByEKIAYpA+AHIQsgBikD6AchDCAGQvz///////8BIHcgeCB5IHogeyB8IH0gBikD8AcgBxsgAxsgBBsgABsgXhsgXRsgNRsiDX0gCIMgDSAJg4Q3A/AHIAZC/P///////x8gcCBxIHIgcyB0IHUgdiAMIAcbIAMbIAQbIAAbIF4bIF0bIDUbIgx9IAiDIAwgCYOENwPoByAGQvz///////8fIGkgaiBrIGwgbSBuIG8gCyAHGyADGyAEGyAAGyBeGyBdGyA1GyILfSAIgyALIAmDhDcD4AcgBkL8////////HyBiIGMgZCBlIGYgZyBoIAogBxsgAxsgBBsgABsgXhsgXRsgNRsiCn0gCIMgCiAJg4Q3A9gHIAZBgAFqIAZBgAFqIAZBqAdqELeAgIAAIKgBQXxqIqgBQXxHDQALIKcBIKcBIAZBgAdqEIiAgIAAIAZByANqIAZBKGpB2AD8CgAAIAYgBigCmAQiAjYCuA4gBiAGKQMoNwPADSAGIAYpAzA3A8gNIAYgBikDODcD0A0gBiAGKQNANwPYDSAGIAYpA0g3A+ANIAYgDikDADcD6A0gBiAOKQMINwPwDSAGIA4pAxA3A/gNIAYgDikDGDcDgA4gBiAOKQMgNwOIDiAGQgA3A5gOIAZCATcDkA4gBkIANwOgDiAGQgA3A6gOIAZCADcDsA4CQAJAIAJFDQAgBkEBNgK4DiAGQcANakEAQfgA/AsADAELIAZBwA1qIAZBwA1qEIeAgIAACyAGQcgDaiAGQcANahCogICAACAGQYgDaiAGQShqEI+AgIAAIAZByAJqIAZBKGoQj4CAgAAgBkGIAmogBkHIA2oQj4CAgAAgBikD6AIhFCAGKQPwAiEVIAYpA/gCIRYgBikDgAMhFyAGKQPIAiEYIAYpA9ACIRkgBikD2AIhGiAGKQPgAiEbIAYpA7ACIQggBikDsAMhHCAGKQO4AiEJIAYpA7gDIR0gBikDkAIhCiAGKQOQAyEeIAYpA5gCIQsgBikDmAMhHyAGKQOoAiEMIAYpA6gDISAgBikDwAIhDSAGKQPAAyEhIAYpA4gCIRIgBikDiAMhIiAGKQOgAiETIAYpA6ADISMgBkEANgKYBCAGIBMgIyAQQQJGIgIbIiNCEIg3A+gDIAYgEiAiIAIbIiJC/////////weDNwPIAyAGQvz///////8BIA0gISACGyIhQhCIfTcDkAQgBkK84f//v///HyAMICAgAhsiIEL/////////B4N9NwPwAyAGICNCJIZCgICAgID+/weDIAsgHyACGyIfQhyIhDcD4AMgBiAfQhiGQoCAgPj///8HgyAKIB4gAhsiHkIoiIQ3A9gDIAYgHkIMhkKA4P//////B4MgIkI0iIQ3A9ADIAZC/P///////x8gCSAdIAIbIh1CHIggIUIkhkKAgICAgP7/B4OEfTcDiAQgBkL8////////HyAIIBwgAhsiHEIoiCAdQhiGQoCAgPj///8Hg4R9NwOABCAGQvz///////8fICBCNIggHEIMhkKA4P//////B4OEfTcD+AMgBkGAAWogBkGAAWogBkHIA2oQt4CAgAAgBkEANgKYBCAGIBMgGyARQQJGIgIbIhNCEIg3A+gDIAYgE0IkhkKAgICAgP7/B4MgCyAaIAIbIgtCHIiENwPgAyAGIAtCGIZCgICA+P///weDIAogGSACGyIKQiiIhDcD2AMgBiAKQgyGQoDg//////8HgyASIBggAhsiCkI0iIQ3A9ADIAYgCkL/////////B4M3A8gDIAZC/P///////wEgDSAXIAIbIgpCEIh9NwOQBCAGQvz///////8fIAkgFiACGyIJQhyIIApCJIZCgICAgID+/weDhH03A4gEIAZC/P///////x8gCCAVIAIbIghCKIggCUIYhkKAgID4////B4OEfTcDgAQgBkL8////////HyAMIBQgAhsiCUI0iCAIQgyGQoDg//////8Hg4R9NwP4AyAGQrzh//+///8fIAlC/////////weDfTcD8AMgBkHIA2ogBkHIA2pBmIvAggAQiICAgAAgBkGAAWogBkGAAWogBkHIA2oQt4CAgAAgBkEoaiAGQYABahCogICAACAGIAYpA0giCEIwiELRh4CAEH4gBikDKHwiDEI0iCAGKQMwfCIJQjSIIAYpAzh8Ig1CNIggBikDQHwiCkI0iCAIQv///////z+DfCILQjCIIAxC/////////weDIghCrvj//+///wdWIA1C/////////weDIgwgCYMgCoNC/////////wdRIAtC////////P1Fxca2EQtGHgIAQfiAIfCIIPACfECAGIAhCCIg8AJ4QIAYgCEIQiDwAnRAgBiAIQhiIPACcECAGIAhCIIg8AJsQIAYgCEIoiDwAmhAgBiAIQjSIIAlC/////////weDfCIJQgSIPACYECAGIAlCDIg8AJcQIAYgCUIUiDwAlhAgBiAJQhyIPACVECAGIAlCJIg8AJQQIAYgCUIsiDwAkxAgBiAJQgSGIAhCMIhCD4OEPACZECAGIAlCNIggDHwiCDwAkhAgBiAIQgiIPACRECAGIAhCEIg8AJAQIAYgCEIYiDwAjxAgBiAIQiCIPACOECAGIAhCKIg8AI0QIAYgCEI0iCAKQv////////8Hg3wiCUIEiDwAixAgBiAJQgyIPACKECAGIAlCFIg8AIkQIAYgCUIciDwAiBAgBiAJQiSIPACHECAGIAlCLIg8AIYQIAYgCUIEhiAIQjCIQg+DhDwAjBAgBiAJQjSIIAt8Igg8AIUQIAYgCEIIiDwAhBAgBiAIQhCIPACDECAGIAhCGIg8AIIQIAYgCEIgiDwAgRAgBiAIQiiIPACAECAGIAYpA3AiCEIwiELRh4CAEH4gBikDUHwiDEI0iCAGKQNYfCIJQjSIIAYpA2B8Ig1CNIggBikDaHwiCkI0iCAIQv///////z+DfCILQjCIIAxC/////////weDIghCrvj//+///wdWIA1C/////////weDIgwgCYMgCoNC/////////wdRIAtC////////P1Fxca2EQtGHgIAQfiAIfCIIPACfCCAGIAhCCIg8AJ4IIAYgCEIQiDwAnQggBiAIQhiIPACcCCAGIAhCIIg8AJsIIAYgCEIoiDwAmgggBiAIQjSIIAlC/////////weDfCIJQgSIPACYCCAGIAlCDIg8AJcIIAYgCUIUiDwAlgggBiAJQhyIPACVCCAGIAlCJIg8AJQIIAYgCUIsiDwAkwggBiAJQgSGIAhCMIhCD4OEPACZCCAGIAlCNIggDHwiCDwAkgggBiAIQgiIPACRCCAGIAhCEIg8AJAIIAYgCEIYiDwAjwggBiAIQiCIPACOCCAGIAhCKIg8AI0IIAYgCEI0iCAKQv////////8Hg3wiCUIEiDwAiwggBiAJQgyIPACKCCAGIAlCFIg8AIkIIAYgCUIciDwAiAggBiAJQiSIPACHCCAGIAlCLIg8AIYIIAYgCUIEhiAIQjCIQg+DhDwAjAggBiAJQjSIIAt8Igg8AIUIIAYgCEIIiDwAhAggBiAIQhCIPACDCCAGIAhCGIg8AIIIIAYgCEIgiDwAgQggBiAIQiiIPACACCABIAZBgBBqIAZBgAhqIAUgDxGCgICAAICAgIAAQQBHIAYoAoQCRXEhBwsgBkGAGGokgICAgAAgBwuGCAQBfwd+AX8BfiOAgICAAEGAAWsiAySAgICAACADQcAAaiACQbiKwIIAEM6AgIAAIANCADcDOCADIAMpA2hCP4giBCADKQNwfCIFNwMgIAMgBSAEVK0iBCADKQN4fCIFNwMoIAMgBSAEVK03AzAgA0HAAGogAkHYisCCABDOgICAACADQgA3AxggAyADKQNoQj+IIgQgAykDcHwiBTcDACADIAUgBFStIgQgAykDeHwiBTcDCCADIAUgBFStNwMQIANBIGogA0EgakH4icCCABCegICAACADIANBmIrAggAQnoCAgAAgASADKQMAIgQgAykDIHwiBiAEVK0iByADKQMofCIFIAMpAwh8IgRCusCi+uqct9e6f1YgBSAHVK0gBCAFVK18IgggAykDMHwiByADKQMQfCIFQn1WcSADKQMYIgkgAykDOHwiCiAHIAhUrSAFIAdUrXx8IgdCf1FxIgtBACAEQrvAovrqnLfXun9WGyAFIAeDQn9RciALQQAgBkLAgtmBzdGX6b9/VhtyIAogCVStIAcgClStfKdqrSIKQr/9pv6yruiWwAB+IgggBnwiCTcDACABIAQgCkLEv92FlePIqMUAfnwiBiAJIAhUrXwiCDcDCCABIAUgCnwiCiAGIARUrSAIIAZUrXx8IgQ3AxAgASAKIAVUrSAEIApUrXwgB3w3AxggACABQfiKwIIAEJ6AgIAAIABCACAAKQMAIgRCf4UiBULCgtmBzdGX6b9/fCIHIAApAwgiBiAEhCAAKQMQIgqEIAApAxgiCIRQIgEbIgk3AwAgAEIAIAZCf4UiBiAHIAVUrXwiBEK7wKL66py317p/fCIFIAEbIgw3AwggAEIAIApCf4UiByAEIAZUrSAFIARUrXx8IgRCfnwiBSABGyIGNwMQIABCACAIQn+FIAQgB1StIAUgBFStfHxCf3wgARsiCjcDGCAAIAIpAwAiBCAJfCIHNwMAIAAgByAEVK0iCCAMfCIFIAIpAwh8IgQ3AwggACACKQMQIgkgBnwiBiAFIAhUrSAEIAVUrXx8IgU3AxAgACAEQrrAovrqnLfXun9WIAVCfVZxIAIpAxgiCCAKfCIKIAYgCVStIAUgBlStfHwiBkJ/UXEiAkEAIARCu8Ci+uqct9e6f1YbIAUgBoNCf1FyIAJBACAHQsCC2YHN0Zfpv39WG3IgCiAIVK0gBiAKVK18p2qtIgpCv/2m/rKu6JbAAH4iCCAHfCIJNwMAIAAgBCAKQsS/3YWV48ioxQB+fCIHIAkgCFStfCIINwMIIAAgBSAKfCIKIAcgBFStIAggB1StfHwiBDcDECAAIAogBVStIAQgClStfCAGfDcDGCADQYABaiSAgICAAAuGBQUBfwh+A38BfgF/QQAhAkIAIAEpAxgiAyADIAEpAxAiBIQgASkDCCIFhCABKQMAIgaEUCAGQn+FIgdCwoLZgc3Rl+m/f3wiCEIBhSAFQn+FIgkgCCAHVK18IgdCu8Ci+uqct9e6f3wiCIQgBEJ/hSIKIAcgCVStIAggB1StfHwiB0J+fCIIhCADQn+FIAcgClStIAggB1StfHxCf3yEQgBSciILrUEAIANCP4inIgFBAXMiDCAEQn9RGyADQv///////////wBUciAMQQAgBUKdoJG9tc7bq90AVBtyQQFzIgwgDEEAIAZCoMHswOboy/RfVhsgBUKdoJG9tc7bq90AVhsgAXIiDCAGp0EBcXMiDa2GIgMgBnwiBiADVK0iAyAFfCIFIANUrSIDIAR8IgQgA1StfCIJQQAgDGusIgOFIAN8IAQgA4UiCCADQn6DfCIHIAhUrSAHIAYgA4UiCCADQsKC2YHN0Zfpv3+DfCIKIAhUrSIOIANCu8Ci+uqct9e6f4N8IgggDlStIAggBSADhXwiDiAIVK18fCIDIAdUrXx8IAYgBYQgBIQgCYRQIgEbIgRCPIZCACADIAEbIgVCBIiEIQMgBUI8hkIAIA4gARsiBkIEiIQhBSAGQjyGQgAgCiABGyIHQgSIhCEGIAenQQ9xIQEgDEEBdEECcyIMQX9qQQEgDGsgCxshDwNAIAAgAmogASAGpyIMQX9zQQFxIgtBBHRrIA9sNgIAIANCPIYhByAFQjyGIAZCBIiEIQYgBEIEiCIEQjyGIANCBIiEIQMgCyAMQQ9xaiEBIAcgBUIEiIQhBSACQQRqIgJBgAFHDQALIAAgASAPbDYCgAFBASANdAvHDwMBfw9+An8jgICAgABB0AVrIgMkgICAgAACQAJAIAIoAnhFDQAgA0EBNgL4BCADQYAEakEAQfgA/AsAQgAhBEIAIQVCACEGQgAhB0IAIQgMAQsgA0GABGogAhCHgICAACADKQPwBCEEIAMpA+gEIQUgAykD4AQhBiADKQPYBCEHIAMpA9AEIQgLIAMgAykDoAQ3A/ACIAMgAykDmAQ3A+gCIAMgAykDkAQ3A+ACIAMgAykDiAQ3A9gCIAMgAykDgAQ3A9ACIAMgAykDqAQ3A/gCIAMgAykDsAQ3A4ADIAMgAykDuAQ3A4gDIAMgAykDwAQ3A5ADIAMgAykDyAQ3A5gDIANBADYCoAMgA0GwAmogBUIAIAhCAYYiCUIAEOCAgIAAIANB4AFqIAdCAYYiCkIAIAZCABDggICAACADQaABaiAEQgAgBEIAEOCAgIAAIANBgAFqIAMpA6ABIgtC/f///////weDQgBCkPqAgIACQgAQ4ICAgAAgA0HwAGogBEIBhiIEQgAgCEIAEOCAgIAAIANBkAJqIAVCACAKQgAQ4ICAgAAgA0HQAWogBkIAIAZCABDggICAACADQZABaiALQjSIIAMpA6gBIgpCDIaEIApCNIhCkPqAgIACQgAQ4ICAgAAgA0HAAmogCEIAIAhCABDggICAACADQeAAaiAEQgAgB0IAEOCAgIAAIANBsAFqIAZCAYZCACAFQgAQ4ICAgAAgA0HQAGogAykDYCIMIAMpA7ABfCIKIAMpA5ACIg0gAykD0AF8IgsgAykDcHwiDiADKQOQAXwiDyADKQOwAiIQIAMpA+ABfCIIIAMpA4ABfCIRQjSIIAMpA7gCIAMpA+gBfCAIIBBUrXwgAykDiAF8IBEgCFStfCIQQgyGhHwiCEI0iCADKQOYAiADKQPYAXwgCyANVK18IAMpA3h8IA4gC1StfCADKQOYAXwgDyAOVK18IBBCNIh8IAggD1StfCINQgyGhHwiC0IEhkLw/////////wCDIAhCMIhCD4OEQgBC0YeAgBBCABDggICAACADIAMpA1AiECADKQPAAnwiDkL/////////B4M3A6gFIANBgAJqIAlCACAHQgAQ4ICAgAAgA0HAAGogBEIAIAZCABDggICAACADQaACaiAFQgAgBUIAEOCAgIAAIANBMGogAykDQCISIAMpA6ACfCIPIAtCNIggAykDaCADKQO4AXwgCiAMVK18IA1CNIh8IAsgClStfCIMQgyGhHwiCkL/////////B4NCAEKQ+oCAgAJCABDggICAACADIAMpAzAiDSADKQOAAnwiCyAOQjSIIAMpA1ggAykDyAJ8IA4gEFStfCIQQgyGhHwiDkL/////////B4M3A7AFIANBwAFqIAZCACAJQgAQ4ICAgAAgA0HwAWogB0IAIAdCABDggICAACADQSBqIARCACAFQgAQ4ICAgAAgA0EQaiAKQjSIIAMpA0ggAykDqAJ8IA8gElStfCAMQjSIfCAKIA9UrXwiCUIMhoQiCiADKQMgfCIFQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAMgAykDwAEiDyADKQPwAXwiBiADKQMQfCIHIA5CNIggAykDOCADKQOIAnwgCyANVK18IBBCNIh8IA4gC1StfCILQgyGhHwiBEL/////////B4M3A7gFIAMgBUI0iCAJQjSIIAMpAyh8IAUgClStfCIFQgyGhCAFQjSIQpD6gICAAkIAEOCAgIAAIAMgAykDACIJIBFC/v///////weDfCIFIARCNIggAykDyAEgAykD+AF8IAYgD1StfCADKQMYfCAHIAZUrXwgC0I0iHwgBCAHVK18IgdCDIaEfCIGQv////////8HgzcDwAUgAyAGQjSIIAMpAwggBSAJVK18IAdCNIh8IAYgBVStfEIMhoQgCEL///////8/g3w3A8gFIANBgAVqIANBqAVqIANBgARqQdAAaiITEIiAgIAAIANBqANqIAIgA0GoBWoQiICAgAAgA0GoA2pBKGogAkEoaiADQYAFahCIgICAACAAIAMpA/ADNwNIIAAgAykD6AM3A0AgACADKQPgAzcDOCAAIAMpA9gDNwMwIAAgAykD0AM3AyggACADKQPIAzcDICAAIAMpA8ADNwMYIAAgAykDuAM3AxAgACADKQOwAzcDCCAAIAMpA6gDNwMAIAAgAikDcDcDcCAAIAIpA2g3A2ggACACKQNgNwNgIAAgAikDWDcDWCAAIAIpA1A3A1AgAEEANgJ4IAEgAykD8AQ3AyAgASADKQPoBDcDGCABIAMpA+AENwMQIAEgAykD2AQ3AwggASADKQPQBDcDACAAQYABaiICIAAgA0HQAmogAUEoahCFgICAACAAQYACaiIUIAIgA0HQAmogAUHQAGoQhYCAgAAgAEGAA2oiAiAUIANB0AJqIAFB+ABqEIWAgIAAIABBgARqIhQgAiADQdACaiABQaABahCFgICAACAAQYAFaiICIBQgA0HQAmogAUHIAWoQhYCAgAAgAEGABmoiFCACIANB0AJqIAFB8AFqEIWAgIAAIABBgAdqIBQgA0HQAmogAUGYAmoQhYCAgAAgAEHQB2oiACAAIBMQiICAgAAgA0HQBWokgICAgAALgRkCBH8PfiOAgICAAEGgBmsiBSSAgICAAAJAIABFDQAgASAAQX9qIgZB2ABsaiIHIAMgBkEHdGoiCCkDIDcDICAHIAgpAxg3AxggByAIKQMQNwMQIAcgCCkDCDcDCCAHIAgpAwA3AwAgByAIKQMoNwMoIAcgCCkDMDcDMCAHIAgpAzg3AzggByAIKQNANwNAIAcgCCkDSDcDSCAHIAcpA0giCUIwiELRh4CAEH4gBykDKHwiCkL/////////B4M3AyggByAKQjSIIAcpAzB8IgpC/////////weDNwMwIAcgCkI0iCAHKQM4fCIKQv////////8HgzcDOCAHIApCNIggBykDQHwiCkL/////////B4M3A0AgByAKQjSIIAlC////////P4N8NwNIIAIgCCkDcDcDICACIAgpA2g3AxggAiAIKQNgNwMQIAIgCCkDWDcDCCACIAgpA1A3AwAgB0EANgJQIAUgBCAGQShsaiIHKQMgNwPIBSAFIAcpAxg3A8AFIAUgBykDEDcDuAUgBSAHKQMINwOwBSAFIAcpAwA3A6gFIAZFDQAgBUGQA2ogBSkDwAUiCUIAIAUpA6gFIgtCAYYiDEIAEOCAgIAAIAVBwARqIAUpA7AFIg1CAYYiDkIAIAUpA7gFIgpCABDggICAACAFQZAFaiAFKQPIBSIPQgAgD0IAEOCAgIAAIAVBgAVqIAUpA5AFIhBC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgBUHwA2ogD0IBhiIPQgAgC0IAEOCAgIAAIAVBoANqIAlCACAOQgAQ4ICAgAAgBUHgBGogCkIAIApCABDggICAACAFQfAEaiAQQjSIIAUpA5gFIg5CDIaEIA5CNIhCkPqAgIACQgAQ4ICAgAAgBUHgA2ogC0IAIAtCABDggICAACAFQbAEaiAPQgAgDUIAEOCAgIAAIAVBsANqIApCAYZCACAJQgAQ4ICAgAAgBUHQAmogBSkDsAQiESAFKQOwA3wiDiAFKQOgAyISIAUpA+AEfCIQIAUpA/ADfCITIAUpA/AEfCIUIAUpA5ADIhUgBSkDwAR8IgsgBSkDgAV8IhZCNIggBSkDmAMgBSkDyAR8IAsgFVStfCAFKQOIBXwgFiALVK18IhVCDIaEfCILQjSIIAUpA6gDIAUpA+gEfCAQIBJUrXwgBSkD+AN8IBMgEFStfCAFKQP4BHwgFCATVK18IBVCNIh8IAsgFFStfCISQgyGhHwiEEIEhkLw/////////wCDIAtCMIhCD4OEQgBC0YeAgBBCABDggICAACAFIAUpA9ACIhUgBSkD4AN8IhNC/////////weDNwP4BSAFQZAEaiAMQgAgDUIAEOCAgIAAIAVB0ARqIA9CACAKQgAQ4ICAgAAgBUHAA2ogCUIAIAlCABDggICAACAFQYADaiAFKQPQBCIXIAUpA8ADfCIUIBBCNIggBSkDuAQgBSkDuAN8IA4gEVStfCASQjSIfCAQIA5UrXwiEUIMhoR8Ig5C/////////weDQgBCkPqAgIACQgAQ4ICAgAAgBSAFKQOAAyISIAUpA5AEfCIQIBNCNIggBSkD2AIgBSkD6AN8IBMgFVStfCIVQgyGhHwiE0L/////////B4M3A4AGIAVBgARqIApCACAMQgAQ4ICAgAAgBUGgBGogDUIAIA1CABDggICAACAFQdADaiAPQgAgCUIAEOCAgIAAIAVB8AJqIA5CNIggBSkD2AQgBSkDyAN8IBQgF1StfCARQjSIfCAOIBRUrXwiDEIMhoQiDiAFKQPQA3wiCUL/////////B4NCAEKQ+oCAgAJCABDggICAACAFIAUpA4AEIhQgBSkDoAR8IgogBSkD8AJ8Ig0gE0I0iCAFKQOIAyAFKQOYBHwgECASVK18IBVCNIh8IBMgEFStfCIQQgyGhHwiD0L/////////B4M3A4gGIAVB4AJqIAlCNIggDEI0iCAFKQPYA3wgCSAOVK18IglCDIaEIAlCNIhCkPqAgIACQgAQ4ICAgAAgBSAFKQPgAiIMIBZC/v///////weDfCIJIA9CNIggBSkDiAQgBSkDqAR8IAogFFStfCAFKQP4AnwgDSAKVK18IBBCNIh8IA8gDVStfCINQgyGhHwiCkL/////////B4M3A5AGIAUgCkI0iCAFKQPoAiAJIAxUrXwgDUI0iHwgCiAJVK18QgyGhCALQv///////z+DfDcDmAYgBUHQBWogBUH4BWogBxCIgICAACABIABBfmoiBkHYAGxqIgcgAyAGQQd0aiIIIAVB+AVqEIiAgIAAIAdBKGogCEEoaiAFQdAFahCIgICAACAHIAgoAng2AlAgBkUNACAAQShsIARqQbB/aiECIABB2ABsIAFqQfh9aiEHIABBB3QgA2pBgH1qIQgDQCAFQagFaiAFQagFaiACEIiAgIAAIAVB4ABqIAUpA8AFIglCACAFKQOoBSILQgGGIgxCABDggICAACAFQaABaiAFKQOwBSINQgGGIg5CACAFKQO4BSIKQgAQ4ICAgAAgBUGgAmogBSkDyAUiD0IAIA9CABDggICAACAFQZACaiAFKQOgAiIQQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAVBgAFqIA9CAYYiD0IAIAtCABDggICAACAFQZABaiAJQgAgDkIAEOCAgIAAIAVB4AFqIApCACAKQgAQ4ICAgAAgBUGAAmogEEI0iCAFKQOoAiIOQgyGhCAOQjSIQpD6gICAAkIAEOCAgIAAIAVB8ABqIAtCACALQgAQ4ICAgAAgBUHAAWogD0IAIA1CABDggICAACAFQfABaiAKQgGGQgAgCUIAEOCAgIAAIAVBIGogBSkDwAEiESAFKQPwAXwiDiAFKQOQASISIAUpA+ABfCIQIAUpA4ABfCITIAUpA4ACfCIUIAUpA2AiFSAFKQOgAXwiCyAFKQOQAnwiFkI0iCAFKQNoIAUpA6gBfCALIBVUrXwgBSkDmAJ8IBYgC1StfCIVQgyGhHwiC0I0iCAFKQOYASAFKQPoAXwgECASVK18IAUpA4gBfCATIBBUrXwgBSkDiAJ8IBQgE1StfCAVQjSIfCALIBRUrXwiEkIMhoR8IhBCBIZC8P////////8AgyALQjCIQg+DhEIAQtGHgIAQQgAQ4ICAgAAgBSAFKQMgIhUgBSkDcHwiE0L/////////B4M3A/gFIAVBEGogDEIAIA1CABDggICAACAFQdABaiAPQgAgCkIAEOCAgIAAIAVBwAJqIAlCACAJQgAQ4ICAgAAgBUHQAGogBSkD0AEiFyAFKQPAAnwiFCAQQjSIIAUpA8gBIAUpA/gBfCAOIBFUrXwgEkI0iHwgECAOVK18IhFCDIaEfCIOQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAUgBSkDUCISIAUpAxB8IhAgE0I0iCAFKQMoIAUpA3h8IBMgFVStfCIVQgyGhHwiE0L/////////B4M3A4AGIAUgCkIAIAxCABDggICAACAFQbABaiANQgAgDUIAEOCAgIAAIAVBsAJqIA9CACAJQgAQ4ICAgAAgBUHAAGogDkI0iCAFKQPYASAFKQPIAnwgFCAXVK18IBFCNIh8IA4gFFStfCIMQgyGhCIOIAUpA7ACfCIJQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAUgBSkDACIUIAUpA7ABfCIKIAUpA0B8Ig0gE0I0iCAFKQNYIAUpAxh8IBAgElStfCAVQjSIfCATIBBUrXwiEEIMhoR8Ig9C/////////weDNwOIBiAFQTBqIAlCNIggDEI0iCAFKQO4AnwgCSAOVK18IglCDIaEIAlCNIhCkPqAgIACQgAQ4ICAgAAgBSAFKQMwIgwgFkL+////////B4N8IgkgD0I0iCAFKQMIIAUpA7gBfCAKIBRUrXwgBSkDSHwgDSAKVK18IBBCNIh8IA8gDVStfCINQgyGhHwiCkL/////////B4M3A5AGIAUgCkI0iCAFKQM4IAkgDFStfCANQjSIfCAKIAlUrXxCDIaEIAtC////////P4N8NwOYBiAFQdAFaiAFQfgFaiAFQagFahCIgICAACAHIAggBUH4BWoQiICAgAAgB0EoaiAIQShqIAVB0AVqEIiAgIAAIAdB0ABqIAhB+ABqKAIANgIAIAdBqH9qIQcgCEGAf2ohCCACQVhqIQIgBkF/aiIGDQALCyAFQaAGaiSAgICAAAveAgECfyOAgICAAEHQAGsiBCSAgICAAEEAIQUgBEEANgIMAkACQCABDQBBnoPAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAAwBCwJAIAINAEHsg8CCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhBQwBCwJAIANBBEkNAEHshMCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhBQwBCyAEQTBqIAIgBEEMahCWgICAACAEKAIMIQUgBEEQaiACQSBqIARBDGoQloCAgAACQCAFIAQoAgxyDQAgASAEKQNINwAYIAEgBCkDQDcAECABIAQpAzg3AAggASAEKQMwNwAAIAEgBCkDEDcAICABIAQpAxg3ACggASAEKQMgNwAwIAEgBCkDKDcAOCABIAM6AEBBASEFDAELQQAhBSABQQBBwQD8CwALIARB0ABqJICAgIAAIAULyAICAX8IfiOAgICAAEHAAGsiBCSAgICAAAJAAkAgAQ0AQduDwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEDDAELAkAgAw0AQZ6DwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEDDAELAkAgAg0AQc2DwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEDDAELIAMpADghBSADKQAwIQYgAykAKCEHIAMpACAhCCADKQAAIQkgAykACCEKIAMpABAhCyADKQAYIQwgAiADLQBANgIAIAQgDDcDOCAEIAs3AzAgBCAKNwMoIAQgCTcDICAEIAg3AwAgBCAHNwMIIAQgBjcDECAEIAU3AxggASAEQSBqEJmAgIAAIAFBIGogBBCZgICAAEEBIQMLIARBwABqJICAgIAAIAML2QIBAX8jgICAgABB0ABrIgYkgICAgAACQAJAIAAoAggNAEHAhcCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhAAwBCwJAIAINAEHMhMCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhAAwBCwJAIAENAEGqg8CCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhAAwBCwJAIAMNAEHBgcCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhAAwBCyAAIAZBMGogBkEQaiAGQQxqIAIgAyAEIAUQpoCAgAAhACABIAYpAzA3AAAgASAGKQM4NwAIIAEgBikDQDcAECABIAYpA0g3ABggASAGKQMQNwAgIAEgBikDGDcAKCABIAYpAyA3ADAgASAGKQMoNwA4IAEgBigCDDoAQAsgBkHQAGokgICAgAAgAAugFwICfw9+I4CAgIAAQaAIayIEJICAgIAAAkACQAJAIAAoAgANAEGMhcCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAADAELAkAgAw0AQcyEwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgAAMAQsCQCACDQBBqoPAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAAwBCwJAIAENAEGEgsCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAADAELIAQgAikAIDcD+AIgBCACKQAoNwOAAyAEIAIpADA3A4gDIAQgAikAODcDkAMgAi0AQCEFIAIpABghBiACKQAQIQcgAikACCEIIAIpAAAhCSAEQdgCaiADQQAQloCAgAACQCAGIAcgCCAJhISEUA0AIAQpA4ADIAQpA/gChCAEKQOIA4QgBCkDkAOEUA0AIAQgCUL/////////B4MiCjcDqAcgBCAGQhCIQv//////H4MgBkI4iCILQiiGhCIMNwPIByAEIAZCJIZCgICAgID+/weDIAdCHIiEIg03A8AHIAQgB0IYhkKAgID4////B4MgCEIoiIQiDjcDuAcgBCAIQgyGQoDg//////8HgyAJQjSIhCIPNwOwBwJAIAVBAnFFDQAgDEIAUg0BIA1CAFINASAOQqOilQpWDQECQCAOQqOilQpSDQAgD0KCiPGvt6HlAFYNAiAPQoKI8a+3oeUAUg0AIApC7fWm/qKu6AZWDQILIARC////////PzcDyAcgBEL/////////BzcDwAcgBCAOQtzd6vX///8HfDcDuAcgBCAPQv33jtDI3poHfDcDsAcgBCAKQsGC2YHN0ZcBfDcDqAcLIARB0AZqIARBqAdqIAVBAXEQhICAgABFDQAgBCAEKAKgBzYCyAYgBCAEKQPQBjcD0AUgBCAEKQPYBjcD2AUgBCAEKQPgBjcD4AUgBCAEKQPoBjcD6AUgBCAEKQPwBjcD8AUgBCAEKQP4BjcD+AUgBCAEKQOABzcDgAYgBCAEKQOIBzcDiAYgBCAEKQOQBzcDkAYgBCAEKQOYBzcDmAYgBEIANwOoBiAEQgE3A6AGIARCADcDsAYgBEIANwO4BiAEQgA3A8AGIAQgCzcDuAMgBCAGQgaGIAdCOoiEQv//////////P4M3A7ADIAQgB0IEhiAIQjyIhEL//////////z+DNwOoAyAEIAhCAoYgCUI+iIRC//////////8/gzcDoAMgBCAJQv//////////P4M3A5gDIARBmANqQcCJwIIAEJ2AgIAAIAQgBCkDuANCOIYgBCkDsAMiBkIGiIQ3A8gFIAQgBkI6hiAEKQOoAyIGQgSIhDcDwAUgBCAGQjyGIAQpA6ADIgZCAoiENwO4BSAEIAZCPoYgBCkDmAOENwOwBSAEQZAFaiAEQbAFaiAEQdgCahCegICAACAEQgAgBCkDkAUiBkJ/hSIJQsKC2YHN0Zfpv398IgcgBCkDmAUiCCAGhCAEKQOgBSIOhCAEKQOoBSIMhFAiAhs3A5AFIARCACAIQn+FIgggByAJVK18IgZCu8Ci+uqct9e6f3wiCSACGzcDmAUgBEIAIA5Cf4UiByAGIAhUrSAJIAZUrXx8IgZCfnwiCSACGzcDoAUgBEIAIAxCf4UgBiAHVK0gCSAGVK18fEJ/fCACGzcDqAUgBEHwBGogBEGwBWogBEH4AmoQnoCAgAAgACAEQfADaiAEQdAFaiAEQfAEaiAEQZAFahCfgICAACAEKALoBA0AIARBwARqIgIgAhCJgICAACAEQcAAaiAEKQPYBCIGQgAgBCkDwAQiCEIBhiIMQgAQ4ICAgAAgBEGQAmogBCkDyAQiB0IBhiINQgAgBCkD0AQiCUIAEOCAgIAAIARB4AFqIAQpA+AEIg5CACAOQgAQ4ICAgAAgBEHQAWogBCkD4AEiC0L/////////B4NCAEKQ+oCAgAJCABDggICAACAEQbABaiAOQgGGIg5CACAIQgAQ4ICAgAAgBEHQAGogBkIAIA1CABDggICAACAEQYACaiAJQgAgCUIAEOCAgIAAIARBwAFqIAtCNIggBCkD6AEiDUIMhoQgDUI0iEKQ+oCAgAJCABDggICAACAEQcACaiAIQgAgCEIAEOCAgIAAIARBoAFqIA5CACAHQgAQ4ICAgAAgBEHgAGogCUIBhkIAIAZCABDggICAACAEIAQpA6ABIhAgBCkDYHwiDSAEKQNQIhEgBCkDgAJ8IgsgBCkDsAF8Ig8gBCkDwAF8IgogBCkDQCISIAQpA5ACfCIIIAQpA9ABfCITQjSIIAQpA0ggBCkDmAJ8IAggElStfCAEKQPYAXwgEyAIVK18IhJCDIaEfCIIQjSIIAQpA1ggBCkDiAJ8IAsgEVStfCAEKQO4AXwgDyALVK18IAQpA8gBfCAKIA9UrXwgEkI0iHwgCCAKVK18IhFCDIaEfCILQgSGQvD/////////AIMgCEIwiEIPg4RCAELRh4CAEEIAEOCAgIAAIAQgBCkDACISIAQpA8ACfCIPQv////////8HgzcD+AcgBEGwAmogDEIAIAdCABDggICAACAEQZABaiAOQgAgCUIAEOCAgIAAIARB8ABqIAZCACAGQgAQ4ICAgAAgBEEwaiAEKQOQASIUIAQpA3B8IgogC0I0iCAEKQOoASAEKQNofCANIBBUrXwgEUI0iHwgCyANVK18IhBCDIaEfCINQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAQgBCkDMCIRIAQpA7ACfCILIA9CNIggBCkDCCAEKQPIAnwgDyASVK18IhJCDIaEfCIPQv////////8HgzcDgAggBEHwAWogCUIAIAxCABDggICAACAEQaACaiAHQgAgB0IAEOCAgIAAIARBgAFqIA5CACAGQgAQ4ICAgAAgBEEgaiANQjSIIAQpA5gBIAQpA3h8IAogFFStfCAQQjSIfCANIApUrXwiDEIMhoQiDSAEKQOAAXwiBkL/////////B4NCAEKQ+oCAgAJCABDggICAACAEIAQpA/ABIgogBCkDoAJ8IgkgBCkDIHwiByAPQjSIIAQpAzggBCkDuAJ8IAsgEVStfCASQjSIfCAPIAtUrXwiC0IMhoR8Ig5C/////////weDNwOICCAEQRBqIAZCNIggDEI0iCAEKQOIAXwgBiANVK18IgZCDIaEIAZCNIhCkPqAgIACQgAQ4ICAgAAgBCAEKQMQIgwgE0L+////////B4N8IgYgDkI0iCAEKQP4ASAEKQOoAnwgCSAKVK18IAQpAyh8IAcgCVStfCALQjSIfCAOIAdUrXwiB0IMhoR8IglC/////////weDNwOQCCAEIAlCNIggBCkDGCAGIAxUrXwgB0I0iHwgCSAGVK18QgyGhCAIQv///////z+DfDcDmAggBEHQB2ogAiAEQfgHahCIgICAACAEQfADaiAEQfADaiAEQfgHahCIgICAACAEQZgEaiICIAIgBEHQB2oQiICAgAAgBCAEKQOQBDcDuAMgBCAEKQOIBDcDsAMgBCAEKQOABDcDqAMgBCAEKQP4AzcDoAMgBCAEKQPwAzcDmAMgBCAEKQOYBDcDwAMgBCAEKQOgBDcDyAMgBCAEKQOoBDcD0AMgBCAEKQOwBDcD2AMgBCAEKQO4BDcD4AMgBEEANgLoAyAEKALoBA0AIARB0AVqIARBmANqEI+AgIAAIAEgBCkDiAY3ADggASAEKQOABjcAMCABIAQpA/gFNwAoIAEgBCkD8AU3ACAgASAEKQPoBTcAGCABIAQpA+AFNwAQIAEgBCkD2AU3AAggASAEKQPQBTcAAEEBIQIMAgsgAUIANwA4IAFCADcAMCABQgA3ACggAUIANwAgIAFCADcAGCABQgA3ABAgAUIANwAIIAFCADcAAAtBACECCyAEQaAIaiSAgICAACACC9ECAQF/I4CAgIAAQcABayIDJICAgIAAAkACQCABDQBBhILAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAEEAIQIMAQsgAUIANwA4IAFCADcAMCABQgA3ACggAUIANwAgIAFCADcAGCABQgA3ABAgAUIANwAIIAFCADcAAAJAIAINAEGshMCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhAgwBCwJAIAMgAhCDgICAAA0AQQAhAgwBC0EAIQIgA0EoaiADQQAQhICAgABFDQAgA0GAAWogA0EoahCPgICAACABIAMpA7gBNwA4IAEgAykDsAE3ADAgASADKQOoATcAKCABIAMpA6ABNwAgIAEgAykDmAE3ABggASADKQOQATcAECABIAMpA4gBNwAIIAEgAykDgAE3AABBASECCyADQcABaiSAgICAACACC//LAQMBfw9+AX8jgICAgABB4DZrIgIkgICAgAAgAkG4NmogARCKgICAACACQbg2aiACQbg2aiABEIiAgIAAIAJBsDJqIAIpA9A2IgNCACACKQO4NiIEQgGGIgVCABDggICAACACQYA0aiACKQPANiIGQgGGIgdCACACKQPINiIIQgAQ4ICAgAAgAkHQM2ogAikD2DYiCUIAIAlCABDggICAACACQcAzaiACKQPQMyIKQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAJBoDNqIAlCAYYiCUIAIARCABDggICAACACQcAyaiADQgAgB0IAEOCAgIAAIAJB8DNqIAhCACAIQgAQ4ICAgAAgAkGwM2ogCkI0iCACKQPYMyIHQgyGhCAHQjSIQpD6gICAAkIAEOCAgIAAIAJBsDRqIARCACAEQgAQ4ICAgAAgAkGQM2ogCUIAIAZCABDggICAACACQdAyaiAIQgGGQgAgA0IAEOCAgIAAIAJB8DFqIAIpA5AzIgsgAikD0DJ8IgcgAikDwDIiDCACKQPwM3wiCiACKQOgM3wiDSACKQOwM3wiDiACKQOwMiIPIAIpA4A0fCIEIAIpA8AzfCIQQjSIIAIpA7gyIAIpA4g0fCAEIA9UrXwgAikDyDN8IBAgBFStfCIPQgyGhHwiBEI0iCACKQPIMiACKQP4M3wgCiAMVK18IAIpA6gzfCANIApUrXwgAikDuDN8IA4gDVStfCAPQjSIfCAEIA5UrXwiDEIMhoR8IgpCBIZC8P////////8AgyAEQjCIQg+DhEIAQtGHgIAQQgAQ4ICAgAAgAiACKQPwMSIPIAIpA7A0fCINQv////////8HgzcDkDYgAkGgNGogBUIAIAZCABDggICAACACQYAzaiAJQgAgCEIAEOCAgIAAIAJB4DJqIANCACADQgAQ4ICAgAAgAkGgMmogAikDgDMiESACKQPgMnwiDiAKQjSIIAIpA5gzIAIpA9gyfCAHIAtUrXwgDEI0iHwgCiAHVK18IgtCDIaEfCIHQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAIgAikDoDIiDCACKQOgNHwiCiANQjSIIAIpA/gxIAIpA7g0fCANIA9UrXwiD0IMhoR8Ig1C/////////weDNwOYNiACQeAzaiAIQgAgBUIAEOCAgIAAIAJBkDRqIAZCACAGQgAQ4ICAgAAgAkHwMmogCUIAIANCABDggICAACACQZAyaiAHQjSIIAIpA4gzIAIpA+gyfCAOIBFUrXwgC0I0iHwgByAOVK18IgVCDIaEIgcgAikD8DJ8IgNC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAiACKQPgMyIOIAIpA5A0fCIIIAIpA5AyfCIGIA1CNIggAikDqDIgAikDqDR8IAogDFStfCAPQjSIfCANIApUrXwiCkIMhoR8IglC/////////weDNwOgNiACQYAyaiADQjSIIAVCNIggAikD+DJ8IAMgB1StfCIDQgyGhCADQjSIQpD6gICAAkIAEOCAgIAAIAIgAikDgDIiBSAQQv7///////8Hg3wiAyAJQjSIIAIpA+gzIAIpA5g0fCAIIA5UrXwgAikDmDJ8IAYgCFStfCAKQjSIfCAJIAZUrXwiBkIMhoR8IghC/////////weDNwOoNiACIAhCNIggAikDiDIgAyAFVK18IAZCNIh8IAggA1StfEIMhoQgBEL///////8/g3w3A7A2IAJBkDZqIAJBkDZqIAEQiICAgAAgAkHQMGogAikDqDYiA0IAIAIpA5A2IgRCAYYiBUIAEOCAgIAAIAJBsDFqIAIpA5g2IgZCAYYiB0IAIAIpA6A2IghCABDggICAACACQcAwaiACKQOwNiIJQgAgCUIAEOCAgIAAIAJBsDBqIAIpA8AwIgpC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAkGQMGogCUIBhiIJQgAgBEIAEOCAgIAAIAJB4DBqIANCACAHQgAQ4ICAgAAgAkGgMWogCEIAIAhCABDggICAACACQaAwaiAKQjSIIAIpA8gwIgdCDIaEIAdCNIhCkPqAgIACQgAQ4ICAgAAgAkHgMWogBEIAIARCABDggICAACACQYAwaiAJQgAgBkIAEOCAgIAAIAJB8DBqIAhCAYZCACADQgAQ4ICAgAAgAkHwL2ogAikDgDAiCyACKQPwMHwiByACKQPgMCIMIAIpA6AxfCIKIAIpA5AwfCINIAIpA6AwfCIOIAIpA9AwIg8gAikDsDF8IgQgAikDsDB8IhBCNIggAikD2DAgAikDuDF8IAQgD1StfCACKQO4MHwgECAEVK18Ig9CDIaEfCIEQjSIIAIpA+gwIAIpA6gxfCAKIAxUrXwgAikDmDB8IA0gClStfCACKQOoMHwgDiANVK18IA9CNIh8IAQgDlStfCIOQgyGhHwiCkIEhkLw/////////wCDIARCMIhCD4OEQgBC0YeAgBBCABDggICAACACQdAxaiAFQgAgBkIAEOCAgIAAIAJB0C9qIAlCACAIQgAQ4ICAgAAgAkGAMWogA0IAIANCABDggICAACACQcAvaiACKQPQLyIMIAIpA4AxfCINIApCNIggAikDiDAgAikD+DB8IAcgC1StfCAOQjSIfCAKIAdUrXwiCkIMhoR8IgdC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAkGQMWogCEIAIAVCABDggICAACACQcAxaiAGQgAgBkIAEOCAgIAAIAJBkC9qIAlCACADQgAQ4ICAgAAgAkGAL2ogB0I0iCACKQPYLyACKQOIMXwgDSAMVK18IApCNIh8IAcgDVStfCIIQgyGhCIGIAIpA5AvfCIDQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAJBwC5qIANCNIggCEI0iCACKQOYL3wgAyAGVK18IgNCDIaEIANCNIhCkPqAgIACQgAQ4ICAgAAgAkGALmogAikDwC4iDiAQQv7///////8Hg3wiByACKQOQMSIKIAIpA8AxfCIDIAIpA4AvfCIIIAIpA8AvIg0gAikD0DF8IgUgAikD8C8iCSACKQPgMXwiBkI0iCACKQP4LyACKQPoMXwgBiAJVK18IhBCDIaEfCIJQjSIIAIpA8gvIAIpA9gxfCAFIA1UrXwgEEI0iHwgCSAFVK18Ig1CDIaEfCIFQjSIIAIpA5gxIAIpA8gxfCADIApUrXwgAikDiC98IAggA1StfCANQjSIfCAFIAhUrXwiEEIMhoR8IgpC/////////weDIgNCACAGQgGGQv7///////8PgyINQgAQ4ICAgAAgAkHwLmogBUL/////////B4MiCEIAIAlCAYZC/v///////w+DIgtCABDggICAACACQbAuaiAKQjSIIAIpA8guIAcgDlStfCAQQjSIfCAKIAdUrXwiB0IMhoQiCiAEQv///////z+DfCIEIAdCNIggBCAKVK18IgcgBCAHEOCAgIAAIAJBoC5qIAIpA7AuIgpC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAkHALWogBkL/////////B4MiB0IAIARCAYYiBkIAEOCAgIAAIAJB8C1qIANCACALQgAQ4ICAgAAgAkHgLmogCEIAIAhCABDggICAACACQZAuaiAKQjSIIAIpA7guIgRCDIaEIARCNIhCkPqAgIACQgAQ4ICAgAAgAkHgL2ogB0IAIAdCABDggICAACACQbAtaiAJQv////////8HgyIEQgAgBkIAEOCAgIAAIAJB0C1qIANCACAFQgGGQv7///////8Pg0IAEOCAgIAAIAJB0CxqIAIpA7AtIgsgAikD0C18IgUgAikD8C0iDCACKQPgLnwiByACKQPALXwiCiACKQOQLnwiDiACKQOALiIPIAIpA/AufCIJIAIpA6AufCIQQjSIIAIpA4guIAIpA/gufCAJIA9UrXwgAikDqC58IBAgCVStfCIPQgyGhHwiCUI0iCACKQP4LSACKQPoLnwgByAMVK18IAIpA8gtfCAKIAdUrXwgAikDmC58IA4gClStfCAPQjSIfCAJIA5UrXwiDkIMhoR8IgdCBIZC8P////////8AgyAJQjCIQg+DhEIAQtGHgIAQQgAQ4ICAgAAgAkGwL2ogBEIAIA1CABDggICAACACQaAtaiAIQgAgBkIAEOCAgIAAIAJB4C1qIANCACADQgAQ4ICAgAAgAkGQLWogAikDoC0iDCACKQPgLXwiCiAHQjSIIAIpA7gtIAIpA9gtfCAFIAtUrXwgDkI0iHwgByAFVK18IgdCDIaEfCIFQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAJB0C5qIAhCACANQgAQ4ICAgAAgAkGgL2ogBEIAIARCABDggICAACACQYAtaiADQgAgBkIAEOCAgIAAIAJB8CxqIAVCNIggAikDqC0gAikD6C18IAogDFStfCAHQjSIfCAFIApUrXwiCEIMhoQiBiACKQOALXwiA0L/////////B4NCAEKQ+oCAgAJCABDggICAACACQeAsaiADQjSIIAhCNIggAikDiC18IAMgBlStfCIDQgyGhCADQjSIQpD6gICAAkIAEOCAgIAAIAJB0CtqIAIpA+AsIg4gEEL+////////B4N8IgcgAikD0C4iCiACKQOgL3wiAyACKQPwLHwiCCACKQOQLSINIAIpA7AvfCIFIAIpA9AsIgQgAikD4C98IgZCNIggAikD2CwgAikD6C98IAYgBFStfCIQQgyGhHwiBEI0iCACKQOYLSACKQO4L3wgBSANVK18IBBCNIh8IAQgBVStfCINQgyGhHwiBUI0iCACKQPYLiACKQOoL3wgAyAKVK18IAIpA/gsfCAIIANUrXwgDUI0iHwgBSAIVK18IhBCDIaEfCIKQv////////8HgyIDQgAgBkIBhkL+////////D4MiDUIAEOCAgIAAIAJBoCtqIAVC/////////weDIghCACAEQgGGQv7///////8PgyILQgAQ4ICAgAAgAkHALGogCkI0iCACKQPoLCAHIA5UrXwgEEI0iHwgCiAHVK18IgdCDIaEIgogCUL///////8/g3wiCSAHQjSIIAkgClStfCIHIAkgBxDggICAACACQbAsaiACKQPALCIKQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAJB8CpqIAZC/////////weDIgdCACAJQgGGIgZCABDggICAACACQZAraiADQgAgC0IAEOCAgIAAIAJBgCxqIAhCACAIQgAQ4ICAgAAgAkGgLGogCkI0iCACKQPILCIJQgyGhCAJQjSIQpD6gICAAkIAEOCAgIAAIAJB4CtqIAdCACAHQgAQ4ICAgAAgAkHgKmogBEL/////////B4MiBEIAIAZCABDggICAACACQYAraiADQgAgBUIBhkL+////////D4NCABDggICAACACQYAqaiACKQPgKiILIAIpA4ArfCIFIAIpA5ArIgwgAikDgCx8IgcgAikD8Cp8IgogAikDoCx8Ig4gAikD0CsiDyACKQOgK3wiCSACKQOwLHwiEEI0iCACKQPYKyACKQOoK3wgCSAPVK18IAIpA7gsfCAQIAlUrXwiD0IMhoR8IglCNIggAikDmCsgAikDiCx8IAcgDFStfCACKQP4KnwgCiAHVK18IAIpA6gsfCAOIApUrXwgD0I0iHwgCSAOVK18Ig5CDIaEfCIHQgSGQvD/////////AIMgCUIwiEIPg4RCAELRh4CAEEIAEOCAgIAAIAJBwCtqIARCACANQgAQ4ICAgAAgAkHQKmogCEIAIAZCABDggICAACACQZAsaiADQgAgA0IAEOCAgIAAIAJBwCpqIAIpA9AqIgwgAikDkCx8IgogB0I0iCACKQPoKiACKQOIK3wgBSALVK18IA5CNIh8IAcgBVStfCIHQgyGhHwiBUL/////////B4NCAEKQ+oCAgAJCABDggICAACACQbAraiAIQgAgDUIAEOCAgIAAIAJB8CtqIARCACAEQgAQ4ICAgAAgAkGwKmogA0IAIAZCABDggICAACACQaAqaiAFQjSIIAIpA9gqIAIpA5gsfCAKIAxUrXwgB0I0iHwgBSAKVK18IghCDIaEIgYgAikDsCp8IgNC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAkGQKmogA0I0iCAIQjSIIAIpA7gqfCADIAZUrXwiA0IMhoQgA0I0iEKQ+oCAgAJCABDggICAACACIAIpA4AqIgYgAikD4Ct8IgNC/////////weDNwPoNSACIAIpA8AqIgUgAikDwCt8IgggA0I0iCACKQOIKiACKQPoK3wgAyAGVK18IgdCDIaEfCIDQv////////8HgzcD8DUgAiACKQOwKyIKIAIpA/ArfCIGIAIpA6AqfCIEIANCNIggAikDyCogAikDyCt8IAggBVStfCAHQjSIfCADIAhUrXwiBUIMhoR8IgNC/////////weDNwP4NSACIAIpA5AqIgcgEEL+////////B4N8IgggA0I0iCACKQO4KyACKQP4K3wgBiAKVK18IAIpA6gqfCAEIAZUrXwgBUI0iHwgAyAEVK18IgZCDIaEfCIDQv////////8HgzcDgDYgAiADQjSIIAIpA5gqIAggB1StfCAGQjSIfCADIAhUrXxCDIaEIAlC////////P4N8NwOINiACQeg1aiACQeg1aiACQZA2ahCIgICAACACQfAnaiACKQOANiIDQgAgAikD6DUiBEIBhiIFQgAQ4ICAgAAgAkHAKWogAikD8DUiBkIBhiIHQgAgAikD+DUiCEIAEOCAgIAAIAJBkClqIAIpA4g2IglCACAJQgAQ4ICAgAAgAkGAKWogAikDkCkiCkL/////////B4NCAEKQ+oCAgAJCABDggICAACACQeAoaiAJQgGGIglCACAEQgAQ4ICAgAAgAkGAKGogA0IAIAdCABDggICAACACQbApaiAIQgAgCEIAEOCAgIAAIAJB8ChqIApCNIggAikDmCkiB0IMhoQgB0I0iEKQ+oCAgAJCABDggICAACACQfApaiAEQgAgBEIAEOCAgIAAIAJB0ChqIAlCACAGQgAQ4ICAgAAgAkGQKGogCEIBhkIAIANCABDggICAACACQbAnaiACKQPQKCILIAIpA5AofCIHIAIpA4AoIgwgAikDsCl8IgogAikD4Ch8Ig0gAikD8Ch8Ig4gAikD8CciDyACKQPAKXwiBCACKQOAKXwiEEI0iCACKQP4JyACKQPIKXwgBCAPVK18IAIpA4gpfCAQIARUrXwiD0IMhoR8IgRCNIggAikDiCggAikDuCl8IAogDFStfCACKQPoKHwgDSAKVK18IAIpA/gofCAOIA1UrXwgD0I0iHwgBCAOVK18Ig5CDIaEfCIKQgSGQvD/////////AIMgBEIwiEIPg4RCAELRh4CAEEIAEOCAgIAAIAJB4ClqIAVCACAGQgAQ4ICAgAAgAkHAKGogCUIAIAhCABDggICAACACQaAoaiADQgAgA0IAEOCAgIAAIAJB4CdqIAIpA8AoIgwgAikDoCh8Ig0gCkI0iCACKQPYKCACKQOYKHwgByALVK18IA5CNIh8IAogB1StfCIKQgyGhHwiB0L/////////B4NCAEKQ+oCAgAJCABDggICAACACQaApaiAIQgAgBUIAEOCAgIAAIAJB0ClqIAZCACAGQgAQ4ICAgAAgAkGwKGogCUIAIANCABDggICAACACQdAnaiAHQjSIIAIpA8goIAIpA6gofCANIAxUrXwgCkI0iHwgByANVK18IghCDIaEIgYgAikDsCh8IgNC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAkHAJ2ogA0I0iCAIQjSIIAIpA7gofCADIAZUrXwiA0IMhoQgA0I0iEKQ+oCAgAJCABDggICAACACQbAmaiACKQPAJyIOIBBC/v///////weDfCIHIAIpA6ApIgogAikD0Cl8IgMgAikD0Cd8IgggAikD4CciDSACKQPgKXwiBSACKQOwJyIJIAIpA/ApfCIGQjSIIAIpA7gnIAIpA/gpfCAGIAlUrXwiEEIMhoR8IglCNIggAikD6CcgAikD6Cl8IAUgDVStfCAQQjSIfCAJIAVUrXwiDUIMhoR8IgVCNIggAikDqCkgAikD2Cl8IAMgClStfCACKQPYJ3wgCCADVK18IA1CNIh8IAUgCFStfCIQQgyGhHwiCkL/////////B4MiA0IAIAZCAYZC/v///////w+DIg1CABDggICAACACQYAmaiAFQv////////8HgyIIQgAgCUIBhkL+////////D4MiC0IAEOCAgIAAIAJBoCdqIApCNIggAikDyCcgByAOVK18IBBCNIh8IAogB1StfCIHQgyGhCIKIARC////////P4N8IgQgB0I0iCAEIApUrXwiByAEIAcQ4ICAgAAgAkGQJ2ogAikDoCciCkL/////////B4NCAEKQ+oCAgAJCABDggICAACACQdAlaiAGQv////////8HgyIHQgAgBEIBhiIGQgAQ4ICAgAAgAkHwJWogA0IAIAtCABDggICAACACQeAmaiAIQgAgCEIAEOCAgIAAIAJBgCdqIApCNIggAikDqCciBEIMhoQgBEI0iEKQ+oCAgAJCABDggICAACACQcAmaiAHQgAgB0IAEOCAgIAAIAJBwCVqIAlC/////////weDIgRCACAGQgAQ4ICAgAAgAkHgJWogA0IAIAVCAYZC/v///////w+DQgAQ4ICAgAAgAkHgJGogAikDwCUiCyACKQPgJXwiBSACKQPwJSIMIAIpA+AmfCIHIAIpA9AlfCIKIAIpA4AnfCIOIAIpA7AmIg8gAikDgCZ8IgkgAikDkCd8IhBCNIggAikDuCYgAikDiCZ8IAkgD1StfCACKQOYJ3wgECAJVK18Ig9CDIaEfCIJQjSIIAIpA/glIAIpA+gmfCAHIAxUrXwgAikD2CV8IAogB1StfCACKQOIJ3wgDiAKVK18IA9CNIh8IAkgDlStfCIOQgyGhHwiB0IEhkLw/////////wCDIAlCMIhCD4OEQgBC0YeAgBBCABDggICAACACQaAmaiAEQgAgDUIAEOCAgIAAIAJBsCVqIAhCACAGQgAQ4ICAgAAgAkHwJmogA0IAIANCABDggICAACACQaAlaiACKQOwJSIMIAIpA/AmfCIKIAdCNIggAikDyCUgAikD6CV8IAUgC1StfCAOQjSIfCAHIAVUrXwiB0IMhoR8IgVC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAkGQJmogCEIAIA1CABDggICAACACQdAmaiAEQgAgBEIAEOCAgIAAIAJBkCVqIANCACAGQgAQ4ICAgAAgAkGAJWogBUI0iCACKQO4JSACKQP4JnwgCiAMVK18IAdCNIh8IAUgClStfCIIQgyGhCIGIAIpA5AlfCIDQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAJB8CRqIANCNIggCEI0iCACKQOYJXwgAyAGVK18IgNCDIaEIANCNIhCkPqAgIACQgAQ4ICAgAAgAkHgI2ogAikD8CQiDiAQQv7///////8Hg3wiByACKQOQJiIKIAIpA9AmfCIDIAIpA4AlfCIIIAIpA6AlIg0gAikDoCZ8IgUgAikD4CQiBCACKQPAJnwiBkI0iCACKQPoJCACKQPIJnwgBiAEVK18IhBCDIaEfCIEQjSIIAIpA6glIAIpA6gmfCAFIA1UrXwgEEI0iHwgBCAFVK18Ig1CDIaEfCIFQjSIIAIpA5gmIAIpA9gmfCADIApUrXwgAikDiCV8IAggA1StfCANQjSIfCAFIAhUrXwiEEIMhoR8IgpC/////////weDIgNCACAGQgGGQv7///////8PgyINQgAQ4ICAgAAgAkGwI2ogBUL/////////B4MiCEIAIARCAYZC/v///////w+DIgtCABDggICAACACQdAkaiAKQjSIIAIpA/gkIAcgDlStfCAQQjSIfCAKIAdUrXwiB0IMhoQiCiAJQv///////z+DfCIJIAdCNIggCSAKVK18IgcgCSAHEOCAgIAAIAJBwCRqIAIpA9AkIgpC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAkGAI2ogBkL/////////B4MiB0IAIAlCAYYiBkIAEOCAgIAAIAJBoCNqIANCACALQgAQ4ICAgAAgAkGQJGogCEIAIAhCABDggICAACACQbAkaiAKQjSIIAIpA9gkIglCDIaEIAlCNIhCkPqAgIACQgAQ4ICAgAAgAkHwI2ogB0IAIAdCABDggICAACACQfAiaiAEQv////////8HgyIEQgAgBkIAEOCAgIAAIAJBkCNqIANCACAFQgGGQv7///////8Pg0IAEOCAgIAAIAJBkCJqIAIpA/AiIgsgAikDkCN8IgUgAikDoCMiDCACKQOQJHwiByACKQOAI3wiCiACKQOwJHwiDiACKQPgIyIPIAIpA7AjfCIJIAIpA8AkfCIQQjSIIAIpA+gjIAIpA7gjfCAJIA9UrXwgAikDyCR8IBAgCVStfCIPQgyGhHwiCUI0iCACKQOoIyACKQOYJHwgByAMVK18IAIpA4gjfCAKIAdUrXwgAikDuCR8IA4gClStfCAPQjSIfCAJIA5UrXwiDkIMhoR8IgdCBIZC8P////////8AgyAJQjCIQg+DhEIAQtGHgIAQQgAQ4ICAgAAgAkHQI2ogBEIAIA1CABDggICAACACQeAiaiAIQgAgBkIAEOCAgIAAIAJBoCRqIANCACADQgAQ4ICAgAAgAkHQImogAikD4CIiDCACKQOgJHwiCiAHQjSIIAIpA/giIAIpA5gjfCAFIAtUrXwgDkI0iHwgByAFVK18IgdCDIaEfCIFQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAJBwCNqIAhCACANQgAQ4ICAgAAgAkGAJGogBEIAIARCABDggICAACACQcAiaiADQgAgBkIAEOCAgIAAIAJBsCJqIAVCNIggAikD6CIgAikDqCR8IAogDFStfCAHQjSIfCAFIApUrXwiCEIMhoQiBiACKQPAInwiA0L/////////B4NCAEKQ+oCAgAJCABDggICAACACQaAiaiADQjSIIAhCNIggAikDyCJ8IAMgBlStfCIDQgyGhCADQjSIQpD6gICAAkIAEOCAgIAAIAIgAikDkCIiBiACKQPwI3wiA0L/////////B4M3A+g1IAIgAikD0CIiBSACKQPQI3wiCCADQjSIIAIpA5giIAIpA/gjfCADIAZUrXwiB0IMhoR8IgNC/////////weDNwPwNSACIAIpA8AjIgogAikDgCR8IgYgAikDsCJ8IgQgA0I0iCACKQPYIiACKQPYI3wgCCAFVK18IAdCNIh8IAMgCFStfCIFQgyGhHwiA0L/////////B4M3A/g1IAIgAikDoCIiByAQQv7///////8Hg3wiCCADQjSIIAIpA8gjIAIpA4gkfCAGIApUrXwgAikDuCJ8IAQgBlStfCAFQjSIfCADIARUrXwiBkIMhoR8IgNC/////////weDNwOANiACIANCNIggAikDqCIgCCAHVK18IAZCNIh8IAMgCFStfEIMhoQgCUL///////8/g3w3A4g2IAJB6DVqIAJB6DVqIAJBkDZqEIiAgIAAIAJBgCBqIAIpA4A2IgNCACACKQPoNSIEQgGGIgVCABDggICAACACQdAhaiACKQPwNSIGQgGGIgdCACACKQP4NSIIQgAQ4ICAgAAgAkGgIWogAikDiDYiCUIAIAlCABDggICAACACQZAhaiACKQOgISIKQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAJB8CBqIAlCAYYiCUIAIARCABDggICAACACQZAgaiADQgAgB0IAEOCAgIAAIAJBwCFqIAhCACAIQgAQ4ICAgAAgAkGAIWogCkI0iCACKQOoISIHQgyGhCAHQjSIQpD6gICAAkIAEOCAgIAAIAJBgCJqIARCACAEQgAQ4ICAgAAgAkHgIGogCUIAIAZCABDggICAACACQaAgaiAIQgGGQgAgA0IAEOCAgIAAIAJBwB9qIAIpA+AgIgsgAikDoCB8IgcgAikDkCAiDCACKQPAIXwiCiACKQPwIHwiDSACKQOAIXwiDiACKQOAICIPIAIpA9AhfCIEIAIpA5AhfCIQQjSIIAIpA4ggIAIpA9ghfCAEIA9UrXwgAikDmCF8IBAgBFStfCIPQgyGhHwiBEI0iCACKQOYICACKQPIIXwgCiAMVK18IAIpA/ggfCANIApUrXwgAikDiCF8IA4gDVStfCAPQjSIfCAEIA5UrXwiDkIMhoR8IgpCBIZC8P////////8AgyAEQjCIQg+DhEIAQtGHgIAQQgAQ4ICAgAAgAkHwIWogBUIAIAZCABDggICAACACQdAgaiAJQgAgCEIAEOCAgIAAIAJBsCBqIANCACADQgAQ4ICAgAAgAkHwH2ogAikD0CAiDCACKQOwIHwiDSAKQjSIIAIpA+ggIAIpA6ggfCAHIAtUrXwgDkI0iHwgCiAHVK18IgpCDIaEfCIHQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAJBsCFqIAhCACAFQgAQ4ICAgAAgAkHgIWogBkIAIAZCABDggICAACACQcAgaiAJQgAgA0IAEOCAgIAAIAJB4B9qIAdCNIggAikD2CAgAikDuCB8IA0gDFStfCAKQjSIfCAHIA1UrXwiCEIMhoQiBiACKQPAIHwiA0L/////////B4NCAEKQ+oCAgAJCABDggICAACACQdAfaiADQjSIIAhCNIggAikDyCB8IAMgBlStfCIDQgyGhCADQjSIQpD6gICAAkIAEOCAgIAAIAJBwB5qIAIpA9AfIg4gEEL+////////B4N8IgcgAikDsCEiCiACKQPgIXwiAyACKQPgH3wiCCACKQPwHyINIAIpA/AhfCIFIAIpA8AfIgkgAikDgCJ8IgZCNIggAikDyB8gAikDiCJ8IAYgCVStfCIQQgyGhHwiCUI0iCACKQP4HyACKQP4IXwgBSANVK18IBBCNIh8IAkgBVStfCINQgyGhHwiBUI0iCACKQO4ISACKQPoIXwgAyAKVK18IAIpA+gffCAIIANUrXwgDUI0iHwgBSAIVK18IhBCDIaEfCIKQv////////8HgyIDQgAgBkIBhkL+////////D4MiDUIAEOCAgIAAIAJBkB5qIAVC/////////weDIghCACAJQgGGQv7///////8PgyILQgAQ4ICAgAAgAkGwH2ogCkI0iCACKQPYHyAHIA5UrXwgEEI0iHwgCiAHVK18IgdCDIaEIgogBEL///////8/g3wiBCAHQjSIIAQgClStfCIHIAQgBxDggICAACACQaAfaiACKQOwHyIKQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAJB4B1qIAZC/////////weDIgdCACAEQgGGIgZCABDggICAACACQYAeaiADQgAgC0IAEOCAgIAAIAJB8B5qIAhCACAIQgAQ4ICAgAAgAkGQH2ogCkI0iCACKQO4HyIEQgyGhCAEQjSIQpD6gICAAkIAEOCAgIAAIAJB0B5qIAdCACAHQgAQ4ICAgAAgAkHQHWogCUL/////////B4MiBEIAIAZCABDggICAACACQfAdaiADQgAgBUIBhkL+////////D4NCABDggICAACACQfAcaiACKQPQHSILIAIpA/AdfCIFIAIpA4AeIgwgAikD8B58IgcgAikD4B18IgogAikDkB98Ig4gAikDwB4iDyACKQOQHnwiCSACKQOgH3wiEEI0iCACKQPIHiACKQOYHnwgCSAPVK18IAIpA6gffCAQIAlUrXwiD0IMhoR8IglCNIggAikDiB4gAikD+B58IAcgDFStfCACKQPoHXwgCiAHVK18IAIpA5gffCAOIApUrXwgD0I0iHwgCSAOVK18Ig5CDIaEfCIHQgSGQvD/////////AIMgCUIwiEIPg4RCAELRh4CAEEIAEOCAgIAAIAJBsB5qIARCACANQgAQ4ICAgAAgAkHAHWogCEIAIAZCABDggICAACACQYAfaiADQgAgA0IAEOCAgIAAIAJBsB1qIAIpA8AdIgwgAikDgB98IgogB0I0iCACKQPYHSACKQP4HXwgBSALVK18IA5CNIh8IAcgBVStfCIHQgyGhHwiBUL/////////B4NCAEKQ+oCAgAJCABDggICAACACQaAeaiAIQgAgDUIAEOCAgIAAIAJB4B5qIARCACAEQgAQ4ICAgAAgAkGgHWogA0IAIAZCABDggICAACACQZAdaiAFQjSIIAIpA8gdIAIpA4gffCAKIAxUrXwgB0I0iHwgBSAKVK18IghCDIaEIgYgAikDoB18IgNC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAkGAHWogA0I0iCAIQjSIIAIpA6gdfCADIAZUrXwiA0IMhoQgA0I0iEKQ+oCAgAJCABDggICAACACIAIpA/AcIgYgAikD0B58IgNC/////////weDNwPoNSACIAIpA7AdIgUgAikDsB58IgggA0I0iCACKQP4HCACKQPYHnwgAyAGVK18IgdCDIaEfCIDQv////////8HgzcD8DUgAiACKQOgHiIKIAIpA+AefCIGIAIpA5AdfCIEIANCNIggAikDuB0gAikDuB58IAggBVStfCAHQjSIfCADIAhUrXwiBUIMhoR8IgNC/////////weDNwP4NSACIAIpA4AdIgcgEEL+////////B4N8IgggA0I0iCACKQOoHiACKQPoHnwgBiAKVK18IAIpA5gdfCAEIAZUrXwgBUI0iHwgAyAEVK18IgZCDIaEfCIDQv////////8HgzcDgDYgAiADQjSIIAIpA4gdIAggB1StfCAGQjSIfCADIAhUrXxCDIaEIAlC////////P4N8NwOINiACQeg1aiACQeg1aiACQbg2ahCIgICAACACIAIpA4g2Igk3A+A1IAIgAikDgDYiAzcD2DUgAiACKQP4NSIINwPQNSACIAIpA/A1IgY3A8g1IAIgAikD6DUiBDcDwDVBCyESA0AgAkHQHGogA0IAIARCAYYiBUIAEOCAgIAAIAJBgBxqIAZCAYYiB0IAIAhCABDggICAACACQcAbaiAJQgAgCUIAEOCAgIAAIAJBoBtqIAIpA8AbIgpC/f///////weDQgBCkPqAgIACQgAQ4ICAgAAgAkGQG2ogCUIBhiIJQgAgBEIAEOCAgIAAIAJBsBxqIANCACAHQgAQ4ICAgAAgAkHwG2ogCEIAIAhCABDggICAACACQbAbaiAKQjSIIAIpA8gbIgdCDIaEIAdCNIhCkPqAgIACQgAQ4ICAgAAgAkHgHGogBEIAIARCABDggICAACACQYAbaiAJQgAgBkIAEOCAgIAAIAJB0BtqIAhCAYZCACADQgAQ4ICAgAAgAkHwGmogAikDgBsiCyACKQPQG3wiByACKQOwHCIMIAIpA/AbfCIKIAIpA5AbfCINIAIpA7AbfCIOIAIpA9AcIg8gAikDgBx8IgQgAikDoBt8IhBCNIggAikD2BwgAikDiBx8IAQgD1StfCACKQOoG3wgECAEVK18Ig9CDIaEfCIEQjSIIAIpA7gcIAIpA/gbfCAKIAxUrXwgAikDmBt8IA0gClStfCACKQO4G3wgDiANVK18IA9CNIh8IAQgDlStfCIOQgyGhHwiCkIEhkLw/////////wCDIARCMIhCD4OEQgBC0YeAgBBCABDggICAACACQaAcaiAFQgAgBkIAEOCAgIAAIAJB4BpqIAlCACAIQgAQ4ICAgAAgAkHAHGogA0IAIANCABDggICAACACQdAaaiACKQPgGiIMIAIpA8AcfCINIApCNIggAikDiBsgAikD2Bt8IAcgC1StfCAOQjSIfCAKIAdUrXwiCkIMhoR8IgdC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAkHgG2ogCEIAIAVCABDggICAACACQZAcaiAGQgAgBkIAEOCAgIAAIAJBwBpqIAlCACADQgAQ4ICAgAAgAkGwGmogB0I0iCACKQPoGiACKQPIHHwgDSAMVK18IApCNIh8IAcgDVStfCIIQgyGhCIGIAIpA8AafCIDQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAJBoBpqIANCNIggCEI0iCACKQPIGnwgAyAGVK18IgNCDIaEIANCNIhCkPqAgIACQgAQ4ICAgAAgAikDoBoiDSAQQv7///////8Hg3wiAyACKQPgGyIOIAIpA5AcfCIIIAIpA7AafCIGIAIpA9AaIgogAikDoBx8IgkgAikD8BoiByACKQPgHHwiBUI0iCACKQP4GiACKQPoHHwgBSAHVK18IhBCDIaEfCIHQjSIIAIpA9gaIAIpA6gcfCAJIApUrXwgEEI0iHwgByAJVK18IglCDIaEfCIKQjSIIAIpA+gbIAIpA5gcfCAIIA5UrXwgAikDuBp8IAYgCFStfCAJQjSIfCAKIAZUrXwiBkIMhoR8IghCNIggAikDqBogAyANVK18IAZCNIh8IAggA1StfEIMhoQgBEL///////8/g3whCSAIQv////////8HgyEDIApC/////////weDIQggB0L/////////B4MhBiAFQv////////8HgyEEIBJBf2oiEg0ACyACIAk3A+A1IAIgAzcD2DUgAiAINwPQNSACIAY3A8g1IAIgBDcDwDUgAkHANWogAkHANWogAkHoNWoQiICAgAAgAiACKQPgNSIJNwO4NSACIAIpA9g1IgM3A7A1IAIgAikD0DUiCDcDqDUgAiACKQPINSIGNwOgNSACIAIpA8A1IgQ3A5g1QRYhEgNAIAJBgBpqIANCACAEQgGGIgVCABDggICAACACQbAZaiAGQgGGIgdCACAIQgAQ4ICAgAAgAkHwGGogCUIAIAlCABDggICAACACQdAYaiACKQPwGCIKQv3///////8Hg0IAQpD6gICAAkIAEOCAgIAAIAJBwBhqIAlCAYYiCUIAIARCABDggICAACACQeAZaiADQgAgB0IAEOCAgIAAIAJBoBlqIAhCACAIQgAQ4ICAgAAgAkHgGGogCkI0iCACKQP4GCIHQgyGhCAHQjSIQpD6gICAAkIAEOCAgIAAIAJBkBpqIARCACAEQgAQ4ICAgAAgAkGwGGogCUIAIAZCABDggICAACACQYAZaiAIQgGGQgAgA0IAEOCAgIAAIAJBoBhqIAIpA7AYIgsgAikDgBl8IgcgAikD4BkiDCACKQOgGXwiCiACKQPAGHwiDSACKQPgGHwiDiACKQOAGiIPIAIpA7AZfCIEIAIpA9AYfCIQQjSIIAIpA4gaIAIpA7gZfCAEIA9UrXwgAikD2Bh8IBAgBFStfCIPQgyGhHwiBEI0iCACKQPoGSACKQOoGXwgCiAMVK18IAIpA8gYfCANIApUrXwgAikD6Bh8IA4gDVStfCAPQjSIfCAEIA5UrXwiDkIMhoR8IgpCBIZC8P////////8AgyAEQjCIQg+DhEIAQtGHgIAQQgAQ4ICAgAAgAkHQGWogBUIAIAZCABDggICAACACQZAYaiAJQgAgCEIAEOCAgIAAIAJB8BlqIANCACADQgAQ4ICAgAAgAkGAGGogAikDkBgiDCACKQPwGXwiDSAKQjSIIAIpA7gYIAIpA4gZfCAHIAtUrXwgDkI0iHwgCiAHVK18IgpCDIaEfCIHQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAJBkBlqIAhCACAFQgAQ4ICAgAAgAkHAGWogBkIAIAZCABDggICAACACQfAXaiAJQgAgA0IAEOCAgIAAIAJB4BdqIAdCNIggAikDmBggAikD+Bl8IA0gDFStfCAKQjSIfCAHIA1UrXwiCEIMhoQiBiACKQPwF3wiA0L/////////B4NCAEKQ+oCAgAJCABDggICAACACQdAXaiADQjSIIAhCNIggAikD+Bd8IAMgBlStfCIDQgyGhCADQjSIQpD6gICAAkIAEOCAgIAAIAIpA9AXIg0gEEL+////////B4N8IgMgAikDkBkiDiACKQPAGXwiCCACKQPgF3wiBiACKQOAGCIKIAIpA9AZfCIJIAIpA6AYIgcgAikDkBp8IgVCNIggAikDqBggAikDmBp8IAUgB1StfCIQQgyGhHwiB0I0iCACKQOIGCACKQPYGXwgCSAKVK18IBBCNIh8IAcgCVStfCIJQgyGhHwiCkI0iCACKQOYGSACKQPIGXwgCCAOVK18IAIpA+gXfCAGIAhUrXwgCUI0iHwgCiAGVK18IgZCDIaEfCIIQjSIIAIpA9gXIAMgDVStfCAGQjSIfCAIIANUrXxCDIaEIARC////////P4N8IQkgCEL/////////B4MhAyAKQv////////8HgyEIIAdC/////////weDIQYgBUL/////////B4MhBCASQX9qIhINAAsgAiAJNwO4NSACIAM3A7A1IAIgCDcDqDUgAiAGNwOgNSACIAQ3A5g1IAJBmDVqIAJBmDVqIAJBwDVqEIiAgIAAIAIgAikDuDUiCTcDkDUgAiACKQOwNSIDNwOINSACIAIpA6g1Igg3A4A1IAIgAikDoDUiBjcD+DQgAiACKQOYNSIENwPwNEEsIRIDQCACQbAXaiADQgAgBEIBhiIFQgAQ4ICAgAAgAkHgFmogBkIBhiIHQgAgCEIAEOCAgIAAIAJBoBZqIAlCACAJQgAQ4ICAgAAgAkGAFmogAikDoBYiCkL9////////B4NCAEKQ+oCAgAJCABDggICAACACQfAVaiAJQgGGIglCACAEQgAQ4ICAgAAgAkGQF2ogA0IAIAdCABDggICAACACQdAWaiAIQgAgCEIAEOCAgIAAIAJBkBZqIApCNIggAikDqBYiB0IMhoQgB0I0iEKQ+oCAgAJCABDggICAACACQcAXaiAEQgAgBEIAEOCAgIAAIAJB4BVqIAlCACAGQgAQ4ICAgAAgAkGwFmogCEIBhkIAIANCABDggICAACACQdAVaiACKQPgFSILIAIpA7AWfCIHIAIpA5AXIgwgAikD0BZ8IgogAikD8BV8Ig0gAikDkBZ8Ig4gAikDsBciDyACKQPgFnwiBCACKQOAFnwiEEI0iCACKQO4FyACKQPoFnwgBCAPVK18IAIpA4gWfCAQIARUrXwiD0IMhoR8IgRCNIggAikDmBcgAikD2BZ8IAogDFStfCACKQP4FXwgDSAKVK18IAIpA5gWfCAOIA1UrXwgD0I0iHwgBCAOVK18Ig5CDIaEfCIKQgSGQvD/////////AIMgBEIwiEIPg4RCAELRh4CAEEIAEOCAgIAAIAJBgBdqIAVCACAGQgAQ4ICAgAAgAkHAFWogCUIAIAhCABDggICAACACQaAXaiADQgAgA0IAEOCAgIAAIAJBsBVqIAIpA8AVIgwgAikDoBd8Ig0gCkI0iCACKQPoFSACKQO4FnwgByALVK18IA5CNIh8IAogB1StfCIKQgyGhHwiB0L/////////B4NCAEKQ+oCAgAJCABDggICAACACQcAWaiAIQgAgBUIAEOCAgIAAIAJB8BZqIAZCACAGQgAQ4ICAgAAgAkGgFWogCUIAIANCABDggICAACACQZAVaiAHQjSIIAIpA8gVIAIpA6gXfCANIAxUrXwgCkI0iHwgByANVK18IghCDIaEIgYgAikDoBV8IgNC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAkGAFWogA0I0iCAIQjSIIAIpA6gVfCADIAZUrXwiA0IMhoQgA0I0iEKQ+oCAgAJCABDggICAACACKQOAFSINIBBC/v///////weDfCIDIAIpA8AWIg4gAikD8BZ8IgggAikDkBV8IgYgAikDsBUiCiACKQOAF3wiCSACKQPQFSIHIAIpA8AXfCIFQjSIIAIpA9gVIAIpA8gXfCAFIAdUrXwiEEIMhoR8IgdCNIggAikDuBUgAikDiBd8IAkgClStfCAQQjSIfCAHIAlUrXwiCUIMhoR8IgpCNIggAikDyBYgAikD+BZ8IAggDlStfCACKQOYFXwgBiAIVK18IAlCNIh8IAogBlStfCIGQgyGhHwiCEI0iCACKQOIFSADIA1UrXwgBkI0iHwgCCADVK18QgyGhCAEQv///////z+DfCEJIAhC/////////weDIQMgCkL/////////B4MhCCAHQv////////8HgyEGIAVC/////////weDIQQgEkF/aiISDQALIAIgCTcDkDUgAiADNwOINSACIAg3A4A1IAIgBjcD+DQgAiAENwPwNCACQfA0aiACQfA0aiACQZg1ahCIgICAACACIAIpA5A1Igk3A+g0IAIgAikDiDUiAzcD4DQgAiACKQOANSIINwPYNCACIAIpA/g0IgY3A9A0IAIgAikD8DQiBDcDyDRB2AAhEgNAIAJB4BRqIANCACAEQgGGIgVCABDggICAACACQZAUaiAGQgGGIgdCACAIQgAQ4ICAgAAgAkHQE2ogCUIAIAlCABDggICAACACQbATaiACKQPQEyIKQv3///////8Hg0IAQpD6gICAAkIAEOCAgIAAIAJBoBNqIAlCAYYiCUIAIARCABDggICAACACQcAUaiADQgAgB0IAEOCAgIAAIAJBgBRqIAhCACAIQgAQ4ICAgAAgAkHAE2ogCkI0iCACKQPYEyIHQgyGhCAHQjSIQpD6gICAAkIAEOCAgIAAIAJB8BRqIARCACAEQgAQ4ICAgAAgAkGQE2ogCUIAIAZCABDggICAACACQeATaiAIQgGGQgAgA0IAEOCAgIAAIAJBgBNqIAIpA5ATIgsgAikD4BN8IgcgAikDwBQiDCACKQOAFHwiCiACKQOgE3wiDSACKQPAE3wiDiACKQPgFCIPIAIpA5AUfCIEIAIpA7ATfCIQQjSIIAIpA+gUIAIpA5gUfCAEIA9UrXwgAikDuBN8IBAgBFStfCIPQgyGhHwiBEI0iCACKQPIFCACKQOIFHwgCiAMVK18IAIpA6gTfCANIApUrXwgAikDyBN8IA4gDVStfCAPQjSIfCAEIA5UrXwiDkIMhoR8IgpCBIZC8P////////8AgyAEQjCIQg+DhEIAQtGHgIAQQgAQ4ICAgAAgAkGwFGogBUIAIAZCABDggICAACACQfASaiAJQgAgCEIAEOCAgIAAIAJB0BRqIANCACADQgAQ4ICAgAAgAkHgEmogAikD8BIiDCACKQPQFHwiDSAKQjSIIAIpA5gTIAIpA+gTfCAHIAtUrXwgDkI0iHwgCiAHVK18IgpCDIaEfCIHQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAJB8BNqIAhCACAFQgAQ4ICAgAAgAkGgFGogBkIAIAZCABDggICAACACQdASaiAJQgAgA0IAEOCAgIAAIAJBwBJqIAdCNIggAikD+BIgAikD2BR8IA0gDFStfCAKQjSIfCAHIA1UrXwiCEIMhoQiBiACKQPQEnwiA0L/////////B4NCAEKQ+oCAgAJCABDggICAACACQbASaiADQjSIIAhCNIggAikD2BJ8IAMgBlStfCIDQgyGhCADQjSIQpD6gICAAkIAEOCAgIAAIAIpA7ASIg0gEEL+////////B4N8IgMgAikD8BMiDiACKQOgFHwiCCACKQPAEnwiBiACKQPgEiIKIAIpA7AUfCIJIAIpA4ATIgcgAikD8BR8IgVCNIggAikDiBMgAikD+BR8IAUgB1StfCIQQgyGhHwiB0I0iCACKQPoEiACKQO4FHwgCSAKVK18IBBCNIh8IAcgCVStfCIJQgyGhHwiCkI0iCACKQP4EyACKQOoFHwgCCAOVK18IAIpA8gSfCAGIAhUrXwgCUI0iHwgCiAGVK18IgZCDIaEfCIIQjSIIAIpA7gSIAMgDVStfCAGQjSIfCAIIANUrXxCDIaEIARC////////P4N8IQkgCEL/////////B4MhAyAKQv////////8HgyEIIAdC/////////weDIQYgBUL/////////B4MhBCASQX9qIhINAAsgAiAJNwPoNCACIAM3A+A0IAIgCDcD2DQgAiAGNwPQNCACIAQ3A8g0IAJByDRqIAJByDRqIAJB8DRqEIiAgIAAQSwhEiACKQPoNCEJIAIpA+A0IQMgAikD2DQhCCACKQPQNCEGIAIpA8g0IQQDQCACQZASaiADQgAgBEIBhiIFQgAQ4ICAgAAgAkHAEWogBkIBhiIHQgAgCEIAEOCAgIAAIAJBgBFqIAlCACAJQgAQ4ICAgAAgAkHgEGogAikDgBEiCkL9////////B4NCAEKQ+oCAgAJCABDggICAACACQdAQaiAJQgGGIglCACAEQgAQ4ICAgAAgAkHwEWogA0IAIAdCABDggICAACACQbARaiAIQgAgCEIAEOCAgIAAIAJB8BBqIApCNIggAikDiBEiB0IMhoQgB0I0iEKQ+oCAgAJCABDggICAACACQaASaiAEQgAgBEIAEOCAgIAAIAJBwBBqIAlCACAGQgAQ4ICAgAAgAkGQEWogCEIBhkIAIANCABDggICAACACQbAQaiACKQPAECILIAIpA5ARfCIHIAIpA/ARIgwgAikDsBF8IgogAikD0BB8Ig0gAikD8BB8Ig4gAikDkBIiDyACKQPAEXwiBCACKQPgEHwiEEI0iCACKQOYEiACKQPIEXwgBCAPVK18IAIpA+gQfCAQIARUrXwiD0IMhoR8IgRCNIggAikD+BEgAikDuBF8IAogDFStfCACKQPYEHwgDSAKVK18IAIpA/gQfCAOIA1UrXwgD0I0iHwgBCAOVK18Ig5CDIaEfCIKQgSGQvD/////////AIMgBEIwiEIPg4RCAELRh4CAEEIAEOCAgIAAIAJB4BFqIAVCACAGQgAQ4ICAgAAgAkGgEGogCUIAIAhCABDggICAACACQYASaiADQgAgA0IAEOCAgIAAIAJBkBBqIAIpA6AQIgwgAikDgBJ8Ig0gCkI0iCACKQPIECACKQOYEXwgByALVK18IA5CNIh8IAogB1StfCIKQgyGhHwiB0L/////////B4NCAEKQ+oCAgAJCABDggICAACACQaARaiAIQgAgBUIAEOCAgIAAIAJB0BFqIAZCACAGQgAQ4ICAgAAgAkGAEGogCUIAIANCABDggICAACACQfAPaiAHQjSIIAIpA6gQIAIpA4gSfCANIAxUrXwgCkI0iHwgByANVK18IghCDIaEIgYgAikDgBB8IgNC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAkHgD2ogA0I0iCAIQjSIIAIpA4gQfCADIAZUrXwiA0IMhoQgA0I0iEKQ+oCAgAJCABDggICAACACKQPgDyINIBBC/v///////weDfCIDIAIpA6ARIg4gAikD0BF8IgggAikD8A98IgYgAikDkBAiCiACKQPgEXwiCSACKQOwECIHIAIpA6ASfCIFQjSIIAIpA7gQIAIpA6gSfCAFIAdUrXwiEEIMhoR8IgdCNIggAikDmBAgAikD6BF8IAkgClStfCAQQjSIfCAHIAlUrXwiCUIMhoR8IgpCNIggAikDqBEgAikD2BF8IAggDlStfCACKQP4D3wgBiAIVK18IAlCNIh8IAogBlStfCIGQgyGhHwiCEI0iCACKQPoDyADIA1UrXwgBkI0iHwgCCADVK18QgyGhCAEQv///////z+DfCEJIAhC/////////weDIQMgCkL/////////B4MhCCAHQv////////8HgyEGIAVC/////////weDIQQgEkF/aiISDQALIAIgCTcD6DQgAiADNwPgNCACIAg3A9g0IAIgBjcD0DQgAiAENwPINCACQcg0aiACQcg0aiACQZg1ahCIgICAACACQdANaiACKQPgNCIDQgAgAikDyDQiBEIBhiIFQgAQ4ICAgAAgAkGgD2ogAikD0DQiBkIBhiIHQgAgAikD2DQiCEIAEOCAgIAAIAJB8A5qIAIpA+g0IglCACAJQgAQ4ICAgAAgAkHgDmogAikD8A4iCkL/////////B4NCAEKQ+oCAgAJCABDggICAACACQcAOaiAJQgGGIglCACAEQgAQ4ICAgAAgAkHgDWogA0IAIAdCABDggICAACACQZAPaiAIQgAgCEIAEOCAgIAAIAJB0A5qIApCNIggAikD+A4iB0IMhoQgB0I0iEKQ+oCAgAJCABDggICAACACQdAPaiAEQgAgBEIAEOCAgIAAIAJBsA5qIAlCACAGQgAQ4ICAgAAgAkHwDWogCEIBhkIAIANCABDggICAACACQZANaiACKQOwDiILIAIpA/ANfCIHIAIpA+ANIgwgAikDkA98IgogAikDwA58Ig0gAikD0A58Ig4gAikD0A0iDyACKQOgD3wiBCACKQPgDnwiEEI0iCACKQPYDSACKQOoD3wgBCAPVK18IAIpA+gOfCAQIARUrXwiD0IMhoR8IgRCNIggAikD6A0gAikDmA98IAogDFStfCACKQPIDnwgDSAKVK18IAIpA9gOfCAOIA1UrXwgD0I0iHwgBCAOVK18Ig5CDIaEfCIKQgSGQvD/////////AIMgBEIwiEIPg4RCAELRh4CAEEIAEOCAgIAAIAJBwA9qIAVCACAGQgAQ4ICAgAAgAkGgDmogCUIAIAhCABDggICAACACQYAOaiADQgAgA0IAEOCAgIAAIAJBwA1qIAIpA6AOIgwgAikDgA58Ig0gCkI0iCACKQO4DiACKQP4DXwgByALVK18IA5CNIh8IAogB1StfCIKQgyGhHwiB0L/////////B4NCAEKQ+oCAgAJCABDggICAACACQYAPaiAIQgAgBUIAEOCAgIAAIAJBsA9qIAZCACAGQgAQ4ICAgAAgAkGQDmogCUIAIANCABDggICAACACQbANaiAHQjSIIAIpA6gOIAIpA4gOfCANIAxUrXwgCkI0iHwgByANVK18IghCDIaEIgYgAikDkA58IgNC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAkGgDWogA0I0iCAIQjSIIAIpA5gOfCADIAZUrXwiA0IMhoQgA0I0iEKQ+oCAgAJCABDggICAACACQZAMaiACKQOgDSIOIBBC/v///////weDfCIHIAIpA4APIgogAikDsA98IgMgAikDsA18IgggAikDwA0iDSACKQPAD3wiBSACKQOQDSIJIAIpA9APfCIGQjSIIAIpA5gNIAIpA9gPfCAGIAlUrXwiEEIMhoR8IglCNIggAikDyA0gAikDyA98IAUgDVStfCAQQjSIfCAJIAVUrXwiDUIMhoR8IgVCNIggAikDiA8gAikDuA98IAMgClStfCACKQO4DXwgCCADVK18IA1CNIh8IAUgCFStfCIQQgyGhHwiCkL/////////B4MiA0IAIAZCAYZC/v///////w+DIg1CABDggICAACACQeALaiAFQv////////8HgyIIQgAgCUIBhkL+////////D4MiC0IAEOCAgIAAIAJBgA1qIApCNIggAikDqA0gByAOVK18IBBCNIh8IAogB1StfCIHQgyGhCIKIARC////////P4N8IgQgB0I0iCAEIApUrXwiByAEIAcQ4ICAgAAgAkHwDGogAikDgA0iCkL/////////B4NCAEKQ+oCAgAJCABDggICAACACQbALaiAGQv////////8HgyIHQgAgBEIBhiIGQgAQ4ICAgAAgAkHQC2ogA0IAIAtCABDggICAACACQcAMaiAIQgAgCEIAEOCAgIAAIAJB4AxqIApCNIggAikDiA0iBEIMhoQgBEI0iEKQ+oCAgAJCABDggICAACACQaAMaiAHQgAgB0IAEOCAgIAAIAJBoAtqIAlC/////////weDIgRCACAGQgAQ4ICAgAAgAkHAC2ogA0IAIAVCAYZC/v///////w+DQgAQ4ICAgAAgAkHACmogAikDoAsiCyACKQPAC3wiBSACKQPQCyIMIAIpA8AMfCIHIAIpA7ALfCIKIAIpA+AMfCIOIAIpA5AMIg8gAikD4At8IgkgAikD8Ax8IhBCNIggAikDmAwgAikD6At8IAkgD1StfCACKQP4DHwgECAJVK18Ig9CDIaEfCIJQjSIIAIpA9gLIAIpA8gMfCAHIAxUrXwgAikDuAt8IAogB1StfCACKQPoDHwgDiAKVK18IA9CNIh8IAkgDlStfCIOQgyGhHwiB0IEhkLw/////////wCDIAlCMIhCD4OEQgBC0YeAgBBCABDggICAACACQYAMaiAEQgAgDUIAEOCAgIAAIAJBkAtqIAhCACAGQgAQ4ICAgAAgAkHQDGogA0IAIANCABDggICAACACQYALaiACKQOQCyIMIAIpA9AMfCIKIAdCNIggAikDqAsgAikDyAt8IAUgC1StfCAOQjSIfCAHIAVUrXwiB0IMhoR8IgVC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAkHwC2ogCEIAIA1CABDggICAACACQbAMaiAEQgAgBEIAEOCAgIAAIAJB8ApqIANCACAGQgAQ4ICAgAAgAkHgCmogBUI0iCACKQOYCyACKQPYDHwgCiAMVK18IAdCNIh8IAUgClStfCIIQgyGhCIGIAIpA/AKfCIDQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAJB0ApqIANCNIggCEI0iCACKQP4CnwgAyAGVK18IgNCDIaEIANCNIhCkPqAgIACQgAQ4ICAgAAgAkHACWogAikD0AoiDiAQQv7///////8Hg3wiByACKQPwCyIKIAIpA7AMfCIDIAIpA+AKfCIIIAIpA4ALIg0gAikDgAx8IgUgAikDwAoiBCACKQOgDHwiBkI0iCACKQPICiACKQOoDHwgBiAEVK18IhBCDIaEfCIEQjSIIAIpA4gLIAIpA4gMfCAFIA1UrXwgEEI0iHwgBCAFVK18Ig1CDIaEfCIFQjSIIAIpA/gLIAIpA7gMfCADIApUrXwgAikD6Ap8IAggA1StfCANQjSIfCAFIAhUrXwiEEIMhoR8IgpC/////////weDIgNCACAGQgGGQv7///////8PgyINQgAQ4ICAgAAgAkGQCWogBUL/////////B4MiCEIAIARCAYZC/v///////w+DIgtCABDggICAACACQbAKaiAKQjSIIAIpA9gKIAcgDlStfCAQQjSIfCAKIAdUrXwiB0IMhoQiCiAJQv///////z+DfCIJIAdCNIggCSAKVK18IgcgCSAHEOCAgIAAIAJBoApqIAIpA7AKIgpC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAkHgCGogBkL/////////B4MiB0IAIAlCAYYiBkIAEOCAgIAAIAJBgAlqIANCACALQgAQ4ICAgAAgAkHwCWogCEIAIAhCABDggICAACACQZAKaiAKQjSIIAIpA7gKIglCDIaEIAlCNIhCkPqAgIACQgAQ4ICAgAAgAkHQCWogB0IAIAdCABDggICAACACQdAIaiAEQv////////8HgyIEQgAgBkIAEOCAgIAAIAJB8AhqIANCACAFQgGGQv7///////8Pg0IAEOCAgIAAIAJB8AdqIAIpA9AIIgsgAikD8Ah8IgUgAikDgAkiDCACKQPwCXwiByACKQPgCHwiCiACKQOQCnwiDiACKQPACSIPIAIpA5AJfCIJIAIpA6AKfCIQQjSIIAIpA8gJIAIpA5gJfCAJIA9UrXwgAikDqAp8IBAgCVStfCIPQgyGhHwiCUI0iCACKQOICSACKQP4CXwgByAMVK18IAIpA+gIfCAKIAdUrXwgAikDmAp8IA4gClStfCAPQjSIfCAJIA5UrXwiDkIMhoR8IgdCBIZC8P////////8AgyAJQjCIQg+DhEIAQtGHgIAQQgAQ4ICAgAAgAkGwCWogBEIAIA1CABDggICAACACQcAIaiAIQgAgBkIAEOCAgIAAIAJBgApqIANCACADQgAQ4ICAgAAgAkGwCGogAikDwAgiDCACKQOACnwiCiAHQjSIIAIpA9gIIAIpA/gIfCAFIAtUrXwgDkI0iHwgByAFVK18IgdCDIaEfCIFQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAJBoAlqIAhCACANQgAQ4ICAgAAgAkHgCWogBEIAIARCABDggICAACACQaAIaiADQgAgBkIAEOCAgIAAIAJBkAhqIAVCNIggAikDyAggAikDiAp8IAogDFStfCAHQjSIfCAFIApUrXwiCEIMhoQiBiACKQOgCHwiA0L/////////B4NCAEKQ+oCAgAJCABDggICAACACQYAIaiADQjSIIAhCNIggAikDqAh8IAMgBlStfCIDQgyGhCADQjSIQpD6gICAAkIAEOCAgIAAIAIgAikD8AciBiACKQPQCXwiA0L/////////B4M3A8g0IAIgAikDsAgiBSACKQOwCXwiCCADQjSIIAIpA/gHIAIpA9gJfCADIAZUrXwiB0IMhoR8IgNC/////////weDNwPQNCACIAIpA6AJIgogAikD4Al8IgYgAikDkAh8IgQgA0I0iCACKQO4CCACKQO4CXwgCCAFVK18IAdCNIh8IAMgCFStfCIFQgyGhHwiA0L/////////B4M3A9g0IAIgAikDgAgiByAQQv7///////8Hg3wiCCADQjSIIAIpA6gJIAIpA+gJfCAGIApUrXwgAikDmAh8IAQgBlStfCAFQjSIfCADIARUrXwiBkIMhoR8IgNC/////////weDNwPgNCACIANCNIggAikDiAggCCAHVK18IAZCNIh8IAMgCFStfEIMhoQgCUL///////8/g3w3A+g0IAJByDRqIAJByDRqIAJBkDZqEIiAgIAAQRchEiACKQPoNCEJIAIpA+A0IQMgAikD2DQhCCACKQPQNCEGIAIpA8g0IQQDQCACQdAHaiADQgAgBEIBhiIFQgAQ4ICAgAAgAkGAB2ogBkIBhiIHQgAgCEIAEOCAgIAAIAJBwAZqIAlCACAJQgAQ4ICAgAAgAkGgBmogAikDwAYiCkL9////////B4NCAEKQ+oCAgAJCABDggICAACACQZAGaiAJQgGGIglCACAEQgAQ4ICAgAAgAkGwB2ogA0IAIAdCABDggICAACACQfAGaiAIQgAgCEIAEOCAgIAAIAJBsAZqIApCNIggAikDyAYiB0IMhoQgB0I0iEKQ+oCAgAJCABDggICAACACQeAHaiAEQgAgBEIAEOCAgIAAIAJBgAZqIAlCACAGQgAQ4ICAgAAgAkHQBmogCEIBhkIAIANCABDggICAACACQfAFaiACKQOABiILIAIpA9AGfCIHIAIpA7AHIgwgAikD8AZ8IgogAikDkAZ8Ig0gAikDsAZ8Ig4gAikD0AciDyACKQOAB3wiBCACKQOgBnwiEEI0iCACKQPYByACKQOIB3wgBCAPVK18IAIpA6gGfCAQIARUrXwiD0IMhoR8IgRCNIggAikDuAcgAikD+AZ8IAogDFStfCACKQOYBnwgDSAKVK18IAIpA7gGfCAOIA1UrXwgD0I0iHwgBCAOVK18Ig5CDIaEfCIKQgSGQvD/////////AIMgBEIwiEIPg4RCAELRh4CAEEIAEOCAgIAAIAJBoAdqIAVCACAGQgAQ4ICAgAAgAkHgBWogCUIAIAhCABDggICAACACQcAHaiADQgAgA0IAEOCAgIAAIAJB0AVqIAIpA+AFIgwgAikDwAd8Ig0gCkI0iCACKQOIBiACKQPYBnwgByALVK18IA5CNIh8IAogB1StfCIKQgyGhHwiB0L/////////B4NCAEKQ+oCAgAJCABDggICAACACQeAGaiAIQgAgBUIAEOCAgIAAIAJBkAdqIAZCACAGQgAQ4ICAgAAgAkHABWogCUIAIANCABDggICAACACQbAFaiAHQjSIIAIpA+gFIAIpA8gHfCANIAxUrXwgCkI0iHwgByANVK18IghCDIaEIgYgAikDwAV8IgNC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAkGgBWogA0I0iCAIQjSIIAIpA8gFfCADIAZUrXwiA0IMhoQgA0I0iEKQ+oCAgAJCABDggICAACACKQOgBSINIBBC/v///////weDfCIDIAIpA+AGIg4gAikDkAd8IgggAikDsAV8IgYgAikD0AUiCiACKQOgB3wiCSACKQPwBSIHIAIpA+AHfCIFQjSIIAIpA/gFIAIpA+gHfCAFIAdUrXwiEEIMhoR8IgdCNIggAikD2AUgAikDqAd8IAkgClStfCAQQjSIfCAHIAlUrXwiCUIMhoR8IgpCNIggAikD6AYgAikDmAd8IAggDlStfCACKQO4BXwgBiAIVK18IAlCNIh8IAogBlStfCIGQgyGhHwiCEI0iCACKQOoBSADIA1UrXwgBkI0iHwgCCADVK18QgyGhCAEQv///////z+DfCEJIAhC/////////weDIQMgCkL/////////B4MhCCAHQv////////8HgyEGIAVC/////////weDIQQgEkF/aiISDQALIAIgCTcD6DQgAiADNwPgNCACIAg3A9g0IAIgBjcD0DQgAiAENwPINCACQcg0aiACQcg0aiACQcA1ahCIgICAAEEGIRIgAikD6DQhCSACKQPgNCEDIAIpA9g0IQggAikD0DQhBiACKQPINCEEA0AgAkGABWogA0IAIARCAYYiBUIAEOCAgIAAIAJBsARqIAZCAYYiB0IAIAhCABDggICAACACQfADaiAJQgAgCUIAEOCAgIAAIAJB0ANqIAIpA/ADIgpC/f///////weDQgBCkPqAgIACQgAQ4ICAgAAgAkHAA2ogCUIBhiIJQgAgBEIAEOCAgIAAIAJB4ARqIANCACAHQgAQ4ICAgAAgAkGgBGogCEIAIAhCABDggICAACACQeADaiAKQjSIIAIpA/gDIgdCDIaEIAdCNIhCkPqAgIACQgAQ4ICAgAAgAkGQBWogBEIAIARCABDggICAACACQbADaiAJQgAgBkIAEOCAgIAAIAJBgARqIAhCAYZCACADQgAQ4ICAgAAgAkGgA2ogAikDsAMiCyACKQOABHwiByACKQPgBCIMIAIpA6AEfCIKIAIpA8ADfCINIAIpA+ADfCIOIAIpA4AFIg8gAikDsAR8IgQgAikD0AN8IhBCNIggAikDiAUgAikDuAR8IAQgD1StfCACKQPYA3wgECAEVK18Ig9CDIaEfCIEQjSIIAIpA+gEIAIpA6gEfCAKIAxUrXwgAikDyAN8IA0gClStfCACKQPoA3wgDiANVK18IA9CNIh8IAQgDlStfCIOQgyGhHwiCkIEhkLw/////////wCDIARCMIhCD4OEQgBC0YeAgBBCABDggICAACACQdAEaiAFQgAgBkIAEOCAgIAAIAJBkANqIAlCACAIQgAQ4ICAgAAgAkHwBGogA0IAIANCABDggICAACACQYADaiACKQOQAyIMIAIpA/AEfCINIApCNIggAikDuAMgAikDiAR8IAcgC1StfCAOQjSIfCAKIAdUrXwiCkIMhoR8IgdC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAkGQBGogCEIAIAVCABDggICAACACQcAEaiAGQgAgBkIAEOCAgIAAIAJB8AJqIAlCACADQgAQ4ICAgAAgAkHgAmogB0I0iCACKQOYAyACKQP4BHwgDSAMVK18IApCNIh8IAcgDVStfCIIQgyGhCIGIAIpA/ACfCIDQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAJB0AJqIANCNIggCEI0iCACKQP4AnwgAyAGVK18IgNCDIaEIANCNIhCkPqAgIACQgAQ4ICAgAAgAikD0AIiDSAQQv7///////8Hg3wiAyACKQOQBCIOIAIpA8AEfCIIIAIpA+ACfCIGIAIpA4ADIgogAikD0AR8IgkgAikDoAMiByACKQOQBXwiBUI0iCACKQOoAyACKQOYBXwgBSAHVK18IhBCDIaEfCIHQjSIIAIpA4gDIAIpA9gEfCAJIApUrXwgEEI0iHwgByAJVK18IglCDIaEfCIKQjSIIAIpA5gEIAIpA8gEfCAIIA5UrXwgAikD6AJ8IAYgCFStfCAJQjSIfCAKIAZUrXwiBkIMhoR8IghCNIggAikD2AIgAyANVK18IAZCNIh8IAggA1StfEIMhoQgBEL///////8/g3whCSAIQv////////8HgyEDIApC/////////weDIQggB0L/////////B4MhBiAFQv////////8HgyEEIBJBf2oiEg0ACyACIAk3A+g0IAIgAzcD4DQgAiAINwPYNCACIAY3A9A0IAIgBDcDyDQgAkHINGogAkHINGogAkG4NmoQiICAgAAgAkHAAGogAikD4DQiA0IAIAIpA8g0IgRCAYYiBUIAEOCAgIAAIAJBkAJqIAIpA9A0IgZCAYYiB0IAIAIpA9g0IghCABDggICAACACQeABaiACKQPoNCIJQgAgCUIAEOCAgIAAIAJB0AFqIAIpA+ABIgpC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAkGwAWogCUIBhiIJQgAgBEIAEOCAgIAAIAJB0ABqIANCACAHQgAQ4ICAgAAgAkGAAmogCEIAIAhCABDggICAACACQcABaiAKQjSIIAIpA+gBIgdCDIaEIAdCNIhCkPqAgIACQgAQ4ICAgAAgAkHAAmogBEIAIARCABDggICAACACQaABaiAJQgAgBkIAEOCAgIAAIAJB4ABqIAhCAYZCACADQgAQ4ICAgAAgAiACKQOgASILIAIpA2B8IgcgAikDUCIMIAIpA4ACfCIKIAIpA7ABfCINIAIpA8ABfCIOIAIpA0AiDyACKQOQAnwiBCACKQPQAXwiEEI0iCACKQNIIAIpA5gCfCAEIA9UrXwgAikD2AF8IBAgBFStfCIPQgyGhHwiBEI0iCACKQNYIAIpA4gCfCAKIAxUrXwgAikDuAF8IA0gClStfCACKQPIAXwgDiANVK18IA9CNIh8IAQgDlStfCIMQgyGhHwiCkIEhkLw/////////wCDIARCMIhCD4OEQgBC0YeAgBBCABDggICAACACIAIpAwAiDyACKQPAAnwiDUL/////////B4M3A8g0IAJBsAJqIAVCACAGQgAQ4ICAgAAgAkGQAWogCUIAIAhCABDggICAACACQfAAaiADQgAgA0IAEOCAgIAAIAJBMGogAikDkAEiESACKQNwfCIOIApCNIggAikDqAEgAikDaHwgByALVK18IAxCNIh8IAogB1StfCILQgyGhHwiB0L/////////B4NCAEKQ+oCAgAJCABDggICAACACIAIpAzAiDCACKQOwAnwiCiANQjSIIAIpAwggAikDyAJ8IA0gD1StfCIPQgyGhHwiDUL/////////B4M3A9A0IAJB8AFqIAhCACAFQgAQ4ICAgAAgAkGgAmogBkIAIAZCABDggICAACACQYABaiAJQgAgA0IAEOCAgIAAIAJBIGogB0I0iCACKQOYASACKQN4fCAOIBFUrXwgC0I0iHwgByAOVK18IgVCDIaEIgcgAikDgAF8IgNC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgAiACKQPwASIOIAIpA6ACfCIIIAIpAyB8IgYgDUI0iCACKQM4IAIpA7gCfCAKIAxUrXwgD0I0iHwgDSAKVK18IgpCDIaEfCIJQv////////8HgzcD2DQgAkEQaiADQjSIIAVCNIggAikDiAF8IAMgB1StfCIDQgyGhCADQjSIQpD6gICAAkIAEOCAgIAAIAIgAikDECIFIBBC/v///////weDfCIDIAlCNIggAikD+AEgAikDqAJ8IAggDlStfCACKQMofCAGIAhUrXwgCkI0iHwgCSAGVK18IgZCDIaEfCIIQv////////8HgzcD4DQgAiAIQjSIIAIpAxggAyAFVK18IAZCNIh8IAggA1StfEIMhoQgBEL///////8/g3w3A+g0IAAgAkHINGoQioCAgAAgAkHINGogABCKgICAACABKQMAIQMgAikDyDQhCCABKQMgIQYgAikD6DQhBCABKQMIIQkgAikD0DQhBSABKQMQIQcgAikD2DQhCiABKQMYIQ0gAikD4DQhDiACQeA2aiSAgICAACAJIAV9IAMgCH0gBiAEfUL8////////AXwiCUIwiELRh4CAEH58Qrzh//+///8ffCIDQjSIfEL8////////H3wiCCADhCAHIAp9IAhCNIh8Qvz///////8ffCIGhCANIA59IAZCNIh8Qvz///////8ffCIEhEL/////////B4MgBEI0iCAJQv///////z+DfCIJhFAgA0LQh4CAEIUgCUKAgICAgIDAB4WDIAiDIAaDIASDQv////////8HUXIL9wMCAn8GfiOAgICAAEHgAGsiAySAgICAAAJAAkAgAQ0AQZuEwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEEDAELIAFCADcAGCABQgA3ABAgAUIANwAIIAFCADcAAAJAIAINAEGEgsCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhBAwBC0EAIQQgA0EANgJYIAMgAikAOCIFQhCINwNQIAMgAikAICIGQv////////8HgzcDMCADIAVCJIZCgICAgID+/weDIAIpADAiBUIciIQ3A0ggAyAFQhiGQoCAgPj///8HgyACKQAoIgVCKIiENwNAIAMgBUIMhkKA4P//////B4MgBkI0iIQ3AzggAyACKQAIIgVCDIZCgOD//////weDIAIpAAAiBkI0iIQiBzcDECADIAZC/////////weDIgY3AwggAyACKQAYIghCEIgiCTcDKCADIAIpABAiCkIYhkKAgID4////B4MgBUIoiIQiBTcDGCADIAhCJIZCgICAgID+/weDIApCHIiEIgg3AyACQCAHIAaEIAmEIAWEIAiEQgBSDQBB/IXAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAAwBCyABIANBCGoQkoCAgABBASEECyADQeAAaiSAgICAACAEC7QFAgJ/DH4jgICAgABBoAFrIgQkgICAgAACQAJAIAENAEHQgcCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhAwwBCwJAIAMNAEGEgsCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhAwwBC0EAIQUgBEEANgJYIAQgAykAOCIGQhCIIgc3A1AgBCADKQAgIghC/////////weDIgk3AzAgBCAGQiSGQoCAgICA/v8HgyADKQAwIgZCHIiEIgo3A0ggBCAGQhiGQoCAgPj///8HgyADKQAoIgZCKIiEIgs3A0AgBCAGQgyGQoDg//////8HgyAIQjSIhCIMNwM4IAQgAykACCIGQgyGQoDg//////8HgyADKQAAIg1CNIiEIg43AxAgBCANQv////////8HgyINNwMIIAQgAykAGCIPQhCIIhA3AyggBCADKQAQIhFCGIZCgICA+P///weDIAZCKIiEIgY3AxggBCAPQiSGQoCAgICA/v8HgyARQhyIhCIPNwMgAkAgDiANhCAQhCAGhCAPhEIAUg0AQfyFwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEDDAELAkAgCEIBg1ANACAEQvz///////8BIAd9NwNQIARC/P///////x8gCn03A0ggBEL8////////HyALfTcDQCAEQvz///////8fIAx9NwM4IARCvOH//7///x8gCX03AzBBASEFCwJAIAJFDQAgAiAFNgIACyAEQeAAaiAEQQhqEI+AgIAAIAEgBCkDmAE3ADggASAEKQOQATcAMCABIAQpA4gBNwAoIAEgBCkDgAE3ACAgASAEKQN4NwAYIAEgBCkDcDcAECABIAQpA2g3AAggASAEKQNgNwAAQQEhAwsgBEGgAWokgICAgAAgAwvyBwICfwZ+I4CAgIAAQaACayIEJICAgIAAAkACQCABDQBB5YHAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAEEAIQUMAQsgAUIANwA4IAFCADcAMCABQgA3ACggAUIANwAgIAFCADcAGCABQgA3ABAgAUIANwAIIAFCADcAAAJAIAAoAgANAEGMhcCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhBQwBCwJAIAINAEH7gcCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhBQwBCwJAIAMNAEG8hMCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhBQwBC0EAIQUgBEEANgJQIAQgAikAOCIGQhCINwNIIAQgAikAICIHQv////////8HgzcDKCAEIAZCJIZCgICAgID+/weDIAIpADAiBkIciIQ3A0AgBCAGQhiGQoCAgPj///8HgyACKQAoIgZCKIiENwM4IAQgBkIMhkKA4P//////B4MgB0I0iIQ3AzAgBCACKQAIIgZCDIZCgOD//////weDIAIpAAAiB0I0iIQiCDcDCCAEIAdC/////////weDIgc3AwAgBCACKQAYIglCEIgiCjcDICAEIAIpABAiC0IYhkKAgID4////B4MgBkIoiIQiBjcDECAEIAlCJIZCgICAgID+/weDIAtCHIiEIgk3AxgCQCAIIAeEIAqEIAaEIAmEQgBSDQBB/IXAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAAwBCyAEQQA2AlwgBEHgAGogAyAEQdwAahCWgICAAAJAIAQoAlxFDQBBACEFDAELQQAhBSAEQQA2ApgCIAQgBCkDADcDoAEgBCAEKQMINwOoASAEIAQpAxA3A7ABIAQgBCkDGDcDuAEgBCAEKQMgNwPAASAEIARBKGoiAikDADcDyAEgBCACKQMINwPQASAEIAIpAxA3A9gBIAQgAikDGDcD4AEgBCACKQMgNwPoASAEQgA3A/gBIARCATcD8AEgBEIANwOAAiAEQgA3A4gCIARCADcDkAIgBEIANwOIASAEQgE3A4ABIARCADcDkAEgBEIANwOYASAAIARBoAFqIARBoAFqIARBgAFqIARB4ABqEJ+AgIAAIAQoApgCDQAgBCAEQaABahCogICAACAEQaABaiAEEI+AgIAAIAEgBCkD2AE3ADggASAEKQPQATcAMCABIAQpA8gBNwAoIAEgBCkDwAE3ACAgASAEKQO4ATcAGCABIAQpA7ABNwAQIAEgBCkDqAE3AAggASAEKQOgATcAAEEBIQULIARBoAJqJICAgIAAIAUL5wQDAn8GfgJ/I4CAgIAAQYACayIDJICAgIAAAkACQCABDQBB34LAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAEEAIQQMAQtBACEEIAFBAEHgAPwLAAJAIAAoAggNAEHAhcCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAADAELAkAgAg0AQYqEwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEEDAELIANB4ABqIAIgA0GAAWoQloCAgAAgAyADKAKAAUUgAykDaCIFIAMpA2AiBoQgAykDcCIHhCADKQN4IgiEQgBScSIEQQFzIgKtIglCf3wiCiAIgzcDeCADIAogB4M3A3AgAyAKIAWDNwNoIAMgCiAGgyAJhDcDYCAAQQhqIANBgAFqIANB4ABqEKeAgIAAIANBCGogA0GAAWoQqICAgAAgASADQeAAahCZgICAACADQYABaiADQQhqEI+AgIAAIAEgAykDuAE3AFggASADKQOwATcAUCABIAMpA6gBNwBIIAEgAykDoAE3AEAgASADKQOYATcAOCABIAMpA5ABNwAwIAEgAykDiAE3ACggASADKQOAATcAICADIAI2AoABIAMoAoABQX9qIQJBACELA0AgASALaiIAIAAtAAAgAnE6AAAgAEEBaiIMIAwtAAAgAnE6AAAgAEECaiIMIAwtAAAgAnE6AAAgAEEDaiIMIAwtAAAgAnE6AAAgAEEEaiIMIAwtAAAgAnE6AAAgAEEFaiIAIAAtAAAgAnE6AAAgC0EGaiILQeAARw0ACwsgA0GAAmokgICAgAAgBAucAQACQCABDQBBwYHAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAEEADwsgAUIANwAYIAFCADcAECABQgA3AAggAUIANwAAAkAgAg0AQd+CwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBAA8LIAEgAikAGDcAGCABIAIpABA3ABAgASACKQAINwAIIAEgAikAADcAAEEBC8EEBAF/CH4BfwJ+I4CAgIAAQRBrIgQkgICAgAAgAykAKCEFIAMpADAhBiADKQBIIQcgAykAUCEIIAMpACAhCSADKQA4IQogAykAQCELIAMpAFghDEEAIQ0gAkEANgJQIAIgDEIQiDcDSCACIAtC/////////weDNwMoIAIgCkIQiCIONwMgIAIgCUL/////////B4MiDzcDACACIAxCJIZCgICAgID+/weDIAhCHIiENwNAIAIgCEIYhkKAgID4////B4MgB0IoiIQ3AzggAiAHQgyGQoDg//////8HgyALQjSIhDcDMCACIApCJIZCgICAgID+/weDIAZCHIiEIgc3AxggAiAGQhiGQoCAgPj///8HgyAFQiiIhCIGNwMQIAIgBUIMhkKA4P//////B4MgCUI0iIQiBTcDCAJAAkACQCAFIA+EIA6EIAaEIAeEQgBSDQBB/IXAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAACACQbiIwIIAQdgA/AoAACABDQEMAgtBASENIAFFDQEgASADIARBDGoQloCAgAACQCAEKAIMDQAgASkDCCABKQMAhCABKQMQhCABKQMYhEIAUg0CC0GWgMCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAIAJBuIjAggBB2AD8CgAAC0EAIQ0gAUEAKQOAh8CCADcDGCABQQApA/iGwIIANwMQIAFBACkD8IbAggA3AwggAUEAKQPohsCCADcDAAsgBEEQaiSAgICAACANC/YJAwN/CX4BfyOAgICAAEHAAmsiAySAgICAAAJAAkAgACgCAA0AQYyFwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEEDAELAkAgAQ0AQd+CwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEEDAELAkAgAg0AQbyEwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEEDAELIAAgAyADQSBqIAEQyYCAgAAhBSABQQBB4AD8CwAgAykDACEGAkACQCADKQNIIgenQQFxDQAgAykDGCEIIAMpAxAhCSADKQMIIQcMAQsgA0K84f//v///HyAHfTcDSCADQvz///////8fIAMpA1B9NwNQIANC/P///////x8gAykDWH03A1ggA0L8////////HyADKQNgfTcDYCADQvz///////8BIAMpA2h9NwNoQgAgAykDGCIJQn+FIAMpAxAiCkJ/hSIIIAMpAwgiC0J/hSIMIAZCf4UiB0LCgtmBzdGX6b9/fCINIAdUrXwiByAMVK0gB0K7wKL66py317p/fCIMIAdUrXx8IgcgCFStIAdCfnwiDiAHVK18fEJ/fCALIAaEIAqEIAmEUCIEGyEIQgAgDiAEGyEJQgAgDSAEGyEGQgAgDCAEGyEHC0EAIQQgA0EANgKgASADQcABaiACIANBoAFqEJaAgIAAIAMgAykDwAEiCyAGfCIKIAtUrSILIAd8IgcgAykDyAF8IgZCusCi+uqct9e6f1YgAykD0AEiDCAJfCIJIAcgC1StIAYgB1StfHwiB0J9VnEgAykD2AEiCyAIfCIIIAkgDFStIAcgCVStfHwiCUJ/UXEiD0EAIAZCu8Ci+uqct9e6f1YbIAcgCYNCf1FyIA9BACAKQsCC2YHN0Zfpv39WG3IgCCALVK0gCSAIVK18p2qtIghCv/2m/rKu6JbAAH4iDCAKfCILNwMAIAMgBiAIQsS/3YWV48ioxQB+fCIKIAsgDFStfCIMNwMIIAMgByAIfCIIIAogBlStIAwgClStfHwiBjcDECADIAggB1StIAYgCFStfCAJfCIHNwMYIAMoAqABIQ8gA0EANgJ8IANBgAFqIAIgA0H8AGoQloCAgAAgAygCfA0AIAMgAygCcDYCuAIgAyADKQMgNwPAASADIAMpAyg3A8gBIAMgAykDMDcD0AEgAyADKQM4NwPYASADIAMpA0A3A+ABIAMgA0HIAGoiAikDADcD6AEgAyACKQMINwPwASADIAIpAxA3A/gBIAMgAikDGDcDgAIgAyACKQMgNwOIAiADQgA3A5gCIANCATcDkAIgA0IANwOgAiADQgA3A6gCIANCADcDsAIgA0IANwOoASADQgE3A6ABIANCADcDsAEgA0IANwO4ASAAIANBwAFqIANBwAFqIANBoAFqIANBgAFqEJ+AgIAAIAMoArgCDQAgA0EgaiADQcABahCogICAACAPQQBHIAsgDIQgBoQgB4RQciAFRXINACABIAMQmYCAgAAgA0HAAWogA0EgahCPgICAACABIAMpA/gBNwBYIAEgAykD8AE3AFAgASADKQPoATcASCABIAMpA+ABNwBAIAEgAykD2AE3ADggASADKQPQATcAMCABIAMpA8gBNwAoIAEgAykDwAE3ACBBASEECyADQcACaiSAgICAACAEC9MSAQl/I4CAgIAAQcABayIGJICAgIAAAkACQCAEDQBBACEEDAELAkAgBUUNACAGQcAANgKMASAGQrnOsNWkoaHPJDcCRCAGQrHJ79fz8reizAA3AjwgBkK5177Q3M3F0Q83AjQgBkKZ5PSmgs6f3c4ANwIsIAZBLGogBUEgEIKAgIAAIAYgBigCjAEiB0EFdiIIQYCAgDhxNgKQASAGIAdBC3RBgID8B3EgB0EbdHIgCEGA/gNxciAHQRV2Qf8BcXI2ApQBIAZBLGpB0IfAggBBNyAHa0E/cUEBahCCgICAACAGQSxqIAZBkAFqQQgQgoCAgAAgBigCMCEHIAYoAiwhCCAGQgA3AiwgBigCNCEJIAYoAjghCiAGQgA3AjQgBigCPCELIAYoAkAhDCAGQgA3AjwgBigCRCENIAYoAkghDiAGQgA3AkQgBiAOQf+B/AdxQQh4IA5BGHhB/4H8B3FyNgIcIAYgDUH/gfwHcUEIeCANQRh4Qf+B/AdxcjYCGCAGIAxB/4H8B3FBCHggDEEYeEH/gfwHcXI2AhQgBiALQf+B/AdxQQh4IAtBGHhB/4H8B3FyNgIQIAYgCkH/gfwHcUEIeCILIApBGHgiCkH/gfwHcXI2AgwgBiACLQAAIAhBGHgiDHM6AAAgBiACLQABIAhB/4H8B3FBCHgiCEEIdnM6AAEgBiACLQACIAxBEHZzOgACIAYgAi0AAyAIQRh2czoAAyAGIAItAAQgB0EYeCIIczoABCAGIAItAAUgB0H/gfwHcUEIeCIHQQh2czoABSAGIAItAAYgCEEQdnM6AAYgBiACLQAHIAdBGHZzOgAHIAYgAi0ACCAJQRh4IgdzOgAIIAYgAi0ACSAJQf+B/AdxQQh4IghBCHZzOgAJIAYgAi0ACiAHQRB2czoACiAGIAItAAsgCEEYdnM6AAsgBiACLQAMIApzOgAMIAYgAi0ADSALQQh2czoADSAGIAYtAA4gAi0ADnM6AA4gBiAGLQAPIAItAA9zOgAPIAYgBi0AECACLQAQczoAECAGIAYtABEgAi0AEXM6ABEgBiAGLQASIAItABJzOgASIAYgBi0AEyACLQATczoAEyAGIAYtABQgAi0AFHM6ABQgBiAGLQAVIAItABVzOgAVIAYgBi0AFiACLQAWczoAFiAGIAYtABcgAi0AF3M6ABcgBiAGLQAYIAItABhzOgAYIAYgBi0AGSACLQAZczoAGSAGIAYtABogAi0AGnM6ABogBiAGLQAbIAItABtzOgAbIAYgBi0AHCACLQAcczoAHCAGIAYtAB0gAi0AHXM6AB0gBiAGLQAeIAItAB5zOgAeIAYgBi0AHyACLQAfczoAHwsCQAJAIAQpAABCwpLBgrOGjZgvhSAEQQhqKQAAQu7euZvWDIWEUA0AQRAhBwJAIARBD2otAAANAEEPIQcgBEEOai0AAA0AQQ4hByAEQQ1qLQAADQBBDSEHIARBDGotAAANAEEMIQcgBEELai0AAA0AQQshByAEQQpqLQAADQBBCiEHIARBCWotAAANAEEJIQcgBEEIai0AAA0AQQghByAEQQdqLQAADQBBByEHIARBBmotAAANAEEGIQcgBEEFai0AAA0AQQUhByAEQQRqLQAADQBBBCEHIARBA2otAAANAEEDIQcgBEECai0AAA0AQQIhByAEQQFqLQAADQAgBC0AAEEARyEHCyAGQQA2AowBIAZCq7OP/JGjs/DbADcCRCAGQv+kuYjFkdqCm383AjwgBkLy5rvjo6f9p6V/NwI0IAZC58yn0NbQ67O7fzcCLCAGQSxqIAQgBxCCgICAACAGIAYoAowBIgRBBXYiB0GAgIA4cTYCuAEgBiAEQQt0QYCA/AdxIARBG3RyIAdBgP4DcXIgBEEVdkH/AXFyNgK8ASAGQSxqQdCHwIIAQTcgBGtBP3FBAWoQgoCAgAAgBkEsaiAGQbgBakEIEIKAgIAAIAYgBigCSCIEQf+B/AdxQQh4IARBGHhB/4H8B3FyNgKsASAGIAYoAkQiBEH/gfwHcUEIeCAEQRh4Qf+B/AdxcjYCqAEgBiAGKAJAIgRB/4H8B3FBCHggBEEYeEH/gfwHcXI2AqQBIAYgBigCPCIEQf+B/AdxQQh4IARBGHhB/4H8B3FyNgKgASAGIAYoAjgiBEH/gfwHcUEIeCAEQRh4Qf+B/AdxcjYCnAEgBiAGKAI0IgRB/4H8B3FBCHggBEEYeEH/gfwHcXI2ApgBIAYgBigCMCIEQf+B/AdxQQh4IARBGHhB/4H8B3FyNgKUASAGIAYoAiwiBEH/gfwHcUEIeCAEQRh4Qf+B/AdxcjYCkAEgBkEANgKMASAGQquzj/yRo7Pw2wA3AkQgBkL/pLmIxZHagpt/NwI8IAZC8ua746On/aelfzcCNCAGQufMp9DW0Ouzu383AiwgBkEsaiAGQZABakEgEIKAgIAAIAZBLGogBkGQAWpBIBCCgICAAAwBCyAGQcAANgKMASAGQtS8io3C6Z7Y6AA3AkQgBkKA44WBlszhmtcANwI8IAZC8Yy3/LnWnrGDfzcCNCAGQrW2hbP0/u/fdDcCLAsgBkEsaiAGIAIgBRtBIBCCgICAACAGQSxqIANBIBCCgICAACAGQSxqIAFBIBCCgICAACAGIAYoAowBIgJBBXYiBEGAgIA4cTYCkAEgBiACQQt0QYCA/AdxIAJBG3RyIARBgP4DcXIgAkEVdkH/AXFyNgKUAUEBIQQgBkEsakHQh8CCAEE3IAJrQT9xQQFqEIKAgIAAIAZBLGogBkGQAWpBCBCCgICAACAAIAYoAkgiAkH/gfwHcUEIeCACQRh4Qf+B/AdxcjYAHCAAIAYoAkQiAkH/gfwHcUEIeCACQRh4Qf+B/AdxcjYAGCAAIAYoAkAiAkH/gfwHcUEIeCACQRh4Qf+B/AdxcjYAFCAAIAYoAjwiAkH/gfwHcUEIeCACQRh4Qf+B/AdxcjYAECAAIAYoAjgiAkH/gfwHcUEIeCACQRh4Qf+B/AdxcjYADCAAIAYoAjQiAkH/gfwHcUEIeCACQRh4Qf+B/AdxcjYACCAAIAYoAjAiAkH/gfwHcUEIeCACQRh4Qf+B/AdxcjYABCAAIAYoAiwiAkH/gfwHcUEIeCACQRh4Qf+B/AdxcjYAAAsgBkHAAWokgICAgAAgBAuHGwICfwt+I4CAgIAAQYAEayIGJICAgIAAIAZCADcDWCAGQgA3A1AgBkIANwNIIAZCADcDQAJAAkAgACgCCA0AQcCFwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEDDAELAkAgAQ0AQfyDwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEDDAELAkAgAg0AQd6EwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEDDAELAkAgAw0AQd+CwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEDDAELIABBCGohByAEQYOAgIAAIAQbIQQgACAGQdgDaiAGQcABaiADEMmAgIAAIQACQAJAIAYtAOgBQQFxDQAgBikD2AMhCCAGKQPgAyEJIAYpA+gDIQogBikD8AMhCwwBCyAGQgAgBikD2AMiCEJ/hSIJQsKC2YHN0Zfpv398IgogBikD4AMiCyAIhCAGKQPoAyIMhCAGKQPwAyINhFAiAxsiCDcD2AMgBkIAIAtCf4UiCyAKIAlUrXwiCkK7wKL66py317p/fCIOIAMbIgk3A+ADIAZCACAMQn+FIgwgCiALVK0gDiAKVK18fCILQn58Ig4gAxsiCjcD6AMgBkIAIA1Cf4UgCyAMVK0gDiALVK18fEJ/fCADGyILNwPwAwsgBiAIPAAfIAYgCEIIiDwAHiAGIAhCEIg8AB0gBiAIQhiIPAAcIAYgCEIgiDwAGyAGIAhCKIg8ABogBiAIQjCIPAAZIAYgCEI4iDwAGCAGIAk8ABcgBiAJQgiIPAAWIAYgCUIQiDwAFSAGIAlCGIg8ABQgBiAJQiCIPAATIAYgCUIoiDwAEiAGIAlCMIg8ABEgBiAJQjiIPAAQIAYgCjwADyAGIApCCIg8AA4gBiAKQhCIPAANIAYgCkIYiDwADCAGIApCIIg8AAsgBiAKQiiIPAAKIAYgCkIwiDwACSAGIApCOIg8AAggBiALPAAHIAYgC0IIiDwABiAGIAtCEIg8AAUgBiALQhiIPAAEIAYgC0IgiDwAAyAGIAtCKIg8AAIgBiALQjCIPAABIAYgC0I4iDwAACAGIAYpA+ABIgk8ACUgBiAGKQPQASIIPAAyIAYgCUIIiDwAJCAGIAlCEIg8ACMgBiAJQhiIPAAiIAYgCUIgiDwAISAGIAlCKIg8ACAgBiAGKQPYASIJQgSIPAArIAYgCUIMiDwAKiAGIAlCFIg8ACkgBiAJQhyIPAAoIAYgCUIkiDwAJyAGIAlCLIg8ACYgBiAIQgiIPAAxIAYgCEIQiDwAMCAGIAhCGIg8AC8gBiAIQiCIPAAuIAYgCEIoiDwALSAGIAhCMIhCD4MgCUIEhoQ8ACwgBiAGKQPAASIIPAA/IAYgBikDyAEiCUIEiDwAOCAGIAlCDIg8ADcgBiAJQhSIPAA2IAYgCUIciDwANSAGIAlCJIg8ADQgBiAJQiyIPAAzIAYgCEIIiDwAPiAGIAhCEIg8AD0gBiAIQhiIPAA8IAYgCEIgiDwAOyAGIAhCKIg8ADogBiAIQjCIQg+DIAlCBIaEPAA5IAZBwABqIAIgBiAGQSBqQZCHwIIAIAUgBBGBgICAAICAgIAAIQMgBkGYA2ogBkHAAGpBABCWgICAACAGQQAgAEEAIAMbIAYpA6ADIgkgBikDmAMiC4QgBikDqAMiDIQgBikDsAMiCoRQGyIDQQFzIgCtIg5Cf3wiCCAKgyIKNwOwAyAGIAggDIMiDDcDqAMgBiAIIAmDIg03A6ADIAYgCCALgyAOhCIINwOYAyAHIAZBmAJqIAZBmANqEKeAgIAAIAZB6ABqIAZBmAJqEKiAgIAAIAYpA7ABIglCMIhC0YeAgBB+IAYpA5ABfCILQjSIIAYpA5gBfCIPQv////////8HgyEOIA9CNIggBikDoAF8IhBCNIggBikDqAF8IhFC/////////weDIRICQCARQjSIIAlC////////P4N8IglCMIggC0L/////////B4MiC0Ku+P//7///B1YgEEL/////////B4MiECAPgyARg0L/////////B1EgCUL///////8/UXFxrYRQDQAgC0LRh4CAEHwiD0L/////////B4MhCyAOIA9CNIh8Ig9C/////////weDIQ4gECAPQjSIfCIPQv////////8HgyEQIBIgD0I0iHwiD0L/////////B4MhEiAPQjSIIAl8Qv///////z+DIQkLIAYgCTcDsAEgBiASNwOoASAGIBA3A6ABIAYgDjcDmAEgBiALNwOQAQJAIAtCAYNQDQAgBkIAIAhCf4UiCULCgtmBzdGX6b9/fCILIA0gDIQgCoQgCIRQIgQbIgg3A5gDIAZCACANQn+FIg4gCyAJVK18IglCu8Ci+uqct9e6f3wiCyAEGyINNwOgAyAGQgAgDEJ/hSISIAkgDlStIAsgCVStfHwiCUJ+fCILIAQbIgw3A6gDIAZCACAKQn+FIAkgElStIAsgCVStfHxCf3wgBBsiCjcDsAMLIAYpA4gBIglCMIhC0YeAgBB+IAYpA2h8IhJCNIggBikDcHwiD0L/////////B4MhCyAPQjSIIAYpA3h8IhBCNIggBikDgAF8IhFC/////////weDIQ4CQCARQjSIIAlC////////P4N8IglCMIggEkL/////////B4MiEkKu+P//7///B1YgEEL/////////B4MiECAPgyARg0L/////////B1EgCUL///////8/UXFxrYRQDQAgEkLRh4CAEHwiD0L/////////B4MhEiALIA9CNIh8Ig9C/////////weDIQsgECAPQjSIfCIPQv////////8HgyEQIA4gD0I0iHwiD0L/////////B4MhDiAPQjSIIAl8Qv///////z+DIQkLIAYgCTcDiAEgBiAONwOAASAGIBA3A3ggBiALNwNwIAYgEjcDaCABIAZB6ABqEJKAgIAAIAZBuANqIAEgAiAGQSBqEM2AgIAAIAZBuANqIAZBuANqIAZB2ANqEJ6AgIAAIAYgCCAGKQO4A3wiDiAIVK0iCyAGKQPAA3wiCSANfCIIQrrAovrqnLfXun9WIAkgC1StIAggCVStfCINIAYpA8gDfCILIAx8IglCfVZxIAogBikD0AN8IgwgCyANVK0gCSALVK18fCILQn9RcSICQQAgCEK7wKL66py317p/VhsgCSALg0J/UXIgAkEAIA5CwILZgc3Rl+m/f1YbciAMIApUrSALIAxUrXynaq0iCkK//ab+sq7olsAAfiINIA58Ig43A7gDIAYgCCAKQsS/3YWV48ioxQB+fCIMIA4gDVStfCINNwPAAyAGIAkgCnwiCiAMIAhUrSANIAxUrXx8Igg3A8gDIAYgCiAJVK0gCCAKVK18IAt8NwPQAyABQSBqIAZBuANqEJmAgIAAIAYgADYC/AMgBigC/AMhACABIAEtAAAgAEF/aiIAcToAACABIAEtAAEgAHE6AAEgASABLQACIABxOgACIAEgAS0AAyAAcToAAyABIAEtAAQgAHE6AAQgASABLQAFIABxOgAFIAEgAS0ABiAAcToABiABIAEtAAcgAHE6AAcgASABLQAIIABxOgAIIAEgAS0ACSAAcToACSABIAEtAAogAHE6AAogASABLQALIABxOgALIAEgAS0ADCAAcToADCABIAEtAA0gAHE6AA0gASABLQAOIABxOgAOIAEgAS0ADyAAcToADyABIAEtABAgAHE6ABAgASABLQARIABxOgARIAEgAS0AEiAAcToAEiABIAEtABMgAHE6ABMgASABLQAUIABxOgAUIAEgAS0AFSAAcToAFSABIAEtABYgAHE6ABYgASABLQAXIABxOgAXIAEgAS0AGCAAcToAGCABIAEtABkgAHE6ABkgASABLQAaIABxOgAaIAEgAS0AGyAAcToAGyABIAEtABwgAHE6ABwgASABLQAdIABxOgAdIAEgAS0AHiAAcToAHiABIAEtAB8gAHE6AB8gASABLQAgIABxOgAgIAEgAS0AISAAcToAISABIAEtACIgAHE6ACIgASABLQAjIABxOgAjIAEgAS0AJCAAcToAJCABIAEtACUgAHE6ACUgASABLQAmIABxOgAmIAEgAS0AJyAAcToAJyABIAEtACggAHE6ACggASABLQApIABxOgApIAEgAS0AKiAAcToAKiABIAEtACsgAHE6ACsgASABLQAsIABxOgAsIAEgAS0ALSAAcToALSABIAEtAC4gAHE6AC4gASABLQAvIABxOgAvIAEgAS0AMCAAcToAMCABIAEtADEgAHE6ADEgASABLQAyIABxOgAyIAEgAS0AMyAAcToAMyABIAEtADQgAHE6ADQgASABLQA1IABxOgA1IAEgAS0ANiAAcToANiABIAEtADcgAHE6ADcgASABLQA4IABxOgA4IAEgAS0AOSAAcToAOSABIAEtADogAHE6ADogASABLQA7IABxOgA7IAEgAS0APCAAcToAPCABIAEtAD0gAHE6AD0gASABLQA+IABxOgA+IAEgAS0APyAAcToAPwsgBkGABGokgICAgAAgAwueBAEBfyOAgICAAEGgAWsiBCSAgICAACAEQcAANgJsIARC5KLYh6nN7fQzNwIkIARC0OqhvtnssR43AhwgBEKSop6L8cGfsVE3AhQgBEKR9LLnmfCUySM3AgwgBEEMaiABQSAQgoCAgAAgBEEMaiADQSAQgoCAgAAgBEEMaiACQSAQgoCAgAAgBCAEKAJsIgFBBXYiA0GAgIA4cTYCmAEgBCABQQt0QYCA/AdxIAFBG3RyIANBgP4DcXIgAUEVdkH/AXFyNgKcASAEQQxqQdCHwIIAQTcgAWtBP3FBAWoQgoCAgAAgBEEMaiAEQZgBakEIEIKAgIAAIAQgBCgCKCIBQf+B/AdxQQh4IAFBGHhB/4H8B3FyNgKMASAEIAQoAiQiAUH/gfwHcUEIeCABQRh4Qf+B/AdxcjYCiAEgBCAEKAIgIgFB/4H8B3FBCHggAUEYeEH/gfwHcXI2AoQBIAQgBCgCHCIBQf+B/AdxQQh4IAFBGHhB/4H8B3FyNgKAASAEIAQoAhgiAUH/gfwHcUEIeCABQRh4Qf+B/AdxcjYCfCAEIAQoAhQiAUH/gfwHcUEIeCABQRh4Qf+B/AdxcjYCeCAEIAQoAhAiAUH/gfwHcUEIeCABQRh4Qf+B/AdxcjYCdCAEIAQoAgwiAUH/gfwHcUEIeCABQRh4Qf+B/AdxcjYCcCAAIARB8ABqQQAQloCAgAAgBEGgAWokgICAgAALtwcCAX8JfiOAgICAAEGAAmsiAySAgICAACADQfABaiACKQMAQgAgASkDAEIAEOCAgIAAIAAgAykD8AE3AwAgA0HQAWogAikDCEIAIAEpAwBCABDggICAACADQeABaiACKQMAQgAgASkDCEIAEOCAgIAAIAAgAykD0AEiBCADKQP4AXwiBSADKQPgAXwiBjcDCCADQaABaiACKQMQQgAgASkDAEIAEOCAgIAAIANBsAFqIAIpAwhCACABKQMIQgAQ4ICAgAAgA0HAAWogAikDAEIAIAEpAxBCABDggICAACAAIAUgBFStIAMpA9gBfCIHIAYgBVStIAMpA+gBfHwiBSADKQOgAXwiBCADKQOwAXwiBiADKQPAAXwiCDcDECADQeAAaiACKQMYQgAgASkDAEIAEOCAgIAAIANB8ABqIAIpAxBCACABKQMIQgAQ4ICAgAAgA0GAAWogAikDCEIAIAEpAxBCABDggICAACADQZABaiACKQMAQgAgASkDGEIAEOCAgIAAIAAgBCAFVK0gAykDqAF8IgkgBSAHVK18IgUgBiAEVK0gAykDuAF8fCIEIAggBlStIAMpA8gBfHwiBiADKQNgfCIHIAMpA3B8IgggAykDgAF8IgogAykDkAF8Igs3AxggA0EwaiACKQMYQgAgASkDCEIAEOCAgIAAIANBwABqIAIpAxBCACABKQMQQgAQ4ICAgAAgA0HQAGogAikDCEIAIAEpAxhCABDggICAACAAIAsgClStIAMpA5gBfCILIAQgBVStIAUgCVStfCAGIARUrXwiCSAHIAZUrSADKQNofHwiBSAIIAdUrSADKQN4fHwiBCAKIAhUrSADKQOIAXx8Igp8IgYgAykDMHwiByADKQNAfCIIIAMpA1B8Igw3AyAgA0EQaiACKQMYQgAgASkDEEIAEOCAgIAAIANBIGogAikDEEIAIAEpAxhCABDggICAACAAIAQgBVStIAUgCVStfCAKIARUrXwgBiALVK18IgogByAGVK0gAykDOHx8IgUgCCAHVK0gAykDSHx8IgQgDCAIVK0gAykDWHx8IgYgAykDEHwiByADKQMgfCIINwMoIAMgAikDGEIAIAEpAxhCABDggICAACAAIAQgBVStIAUgClStfCAGIARUrXwiCiAHIAZUrSADKQMYfHwiBSAIIAdUrSADKQMofHwiBCADKQMAfCIGNwMwIAAgBSAKVK0gAykDCHwgBCAFVK18IAYgBFStfDcDOCADQYACaiSAgICAAAvJFwICfxB+I4CAgIAAQcAGayIEJICAgIAAAkACQCAAKAIADQBBjIXAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAEEAIQUMAQsCQCABDQBB/IPAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAEEAIQUMAQsCQCACDQBB3oTAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAEEAIQUMAQsCQCADDQBBhILAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAEEAIQUMAQtBACEFIARBiANqIAEQg4CAgABFDQAgBEHQBWogAUEgaiAEQdwCahCWgICAACAEKALcAg0AAkAgAykACCIGQgyGIgdCgOD//////weDIAMpAAAiCEI0iCIJhCIKIAhC/////////weDIguEIAMpABgiDEIQiCINhCADKQAQIg5CGIYiD0KAgID4////B4MiECAGQiiIIhGEIhKEIAxCJIYiE0KAgICAgP7/B4MgDkIciCIUhCIVhEIAUg0AQfyFwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgAAMAQsgBCARPADyAiAEIA08AOUCIAQgB0IUiDwA9gIgBCAHQhyIPAD1AiAEIAdCJIg8APQCIAQgB0IsiDwA8wIgBCAPQiCIPADuAiAEIA9CKIg8AO0CIAQgE0IsiDwA5gIgBCAIPAD/AiAEIAhCCIg8AP4CIAQgCEIQiDwA/QIgBCAIQhiIPAD8AiAEIAhCIIg8APsCIAQgCEIoiDwA+gIgBCALQjCIIAlCBIaEPAD5AiAEIAhCOIg8APgCIAQgBjwA9wIgBCAGQjCIPADxAiAEIAZCOIg8APACIAQgEEIwiCAUQgSGhDwA7AIgBCAOPADvAiAEIA5CIIg8AOsCIAQgDkIoiDwA6gIgBCAOQjCIPADpAiAEIA5COIg8AOgCIAQgDDwA5wIgBCAMQhiIPADkAiAEIAxCIIg8AOMCIAQgDEIoiDwA4gIgBCAMQjCIPADhAiAEIAxCOIg8AOACIAMpACAhCCADKQAoIQwgAykAMCEOIAMpADghBiAEQbAFaiABIAIgBEHgAmoQzYCAgABBACEFIARBADYCqAQgBEIBNwOABCAEIAZCEIg3A/gDIAQgBkIkhkKAgICAgP7/B4MgDkIciIQ3A/ADIAQgDkIYhkKAgID4////B4MgDEIoiIQ3A+gDIAQgDEIMhkKA4P//////B4MgCEI0iIQ3A+ADIAQgCEL/////////B4M3A9gDIAQgDTcD0AMgBCAVNwPIAyAEIBI3A8ADIAQgCjcDuAMgBCALNwOwAyAEQgAgBCkDsAUiCEJ/hSIMQsKC2YHN0Zfpv398Ig4gBCkDuAUiBiAIhCAEKQPABSIHhCAEKQPIBSILhFAiAxs3A7AFIARCACAGQn+FIgYgDiAMVK18IghCu8Ci+uqct9e6f3wiDCADGzcDuAUgBEIAIAdCf4UiDiAIIAZUrSAMIAhUrXx8IghCfnwiDCADGzcDwAUgBEIAIAtCf4UgCCAOVK0gDCAIVK18fEJ/fCADGzcDyAUgBEIANwOgBCAEQgA3A5gEIARCADcDkAQgBEIANwOIBCAAIARBsARqIARBsANqIARBsAVqIARB0AVqEJ+AgIAAIAQoAqgFDQAgBEGABWoiAyADEImAgIAAIARBwABqIAQpA5gFIghCACAEKQOABSIGQgGGIgtCABDggICAACAEQZACaiAEKQOIBSIOQgGGIg1CACAEKQOQBSIMQgAQ4ICAgAAgBEHgAWogBCkDoAUiB0IAIAdCABDggICAACAEQdABaiAEKQPgASIPQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIARBsAFqIAdCAYYiB0IAIAZCABDggICAACAEQdAAaiAIQgAgDUIAEOCAgIAAIARBgAJqIAxCACAMQgAQ4ICAgAAgBEHAAWogD0I0iCAEKQPoASINQgyGhCANQjSIQpD6gICAAkIAEOCAgIAAIARBwAJqIAZCACAGQgAQ4ICAgAAgBEGgAWogB0IAIA5CABDggICAACAEQeAAaiAMQgGGQgAgCEIAEOCAgIAAIAQgBCkDoAEiESAEKQNgfCINIAQpA1AiEiAEKQOAAnwiDyAEKQOwAXwiCSAEKQPAAXwiCiAEKQNAIhMgBCkDkAJ8IgYgBCkD0AF8IhBCNIggBCkDSCAEKQOYAnwgBiATVK18IAQpA9gBfCAQIAZUrXwiE0IMhoR8IgZCNIggBCkDWCAEKQOIAnwgDyASVK18IAQpA7gBfCAJIA9UrXwgBCkDyAF8IAogCVStfCATQjSIfCAGIApUrXwiEkIMhoR8Ig9CBIZC8P////////8AgyAGQjCIQg+DhEIAQtGHgIAQQgAQ4ICAgAAgBCAEKQMAIhMgBCkDwAJ8IglC/////////weDNwOYBiAEQbACaiALQgAgDkIAEOCAgIAAIARBkAFqIAdCACAMQgAQ4ICAgAAgBEHwAGogCEIAIAhCABDggICAACAEQTBqIAQpA5ABIhQgBCkDcHwiCiAPQjSIIAQpA6gBIAQpA2h8IA0gEVStfCASQjSIfCAPIA1UrXwiEUIMhoR8Ig1C/////////weDQgBCkPqAgIACQgAQ4ICAgAAgBCAEKQMwIhIgBCkDsAJ8Ig8gCUI0iCAEKQMIIAQpA8gCfCAJIBNUrXwiE0IMhoR8IglC/////////weDNwOgBiAEQfABaiAMQgAgC0IAEOCAgIAAIARBoAJqIA5CACAOQgAQ4ICAgAAgBEGAAWogB0IAIAhCABDggICAACAEQSBqIA1CNIggBCkDmAEgBCkDeHwgCiAUVK18IBFCNIh8IA0gClStfCILQgyGhCINIAQpA4ABfCIIQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAQgBCkD8AEiCiAEKQOgAnwiDCAEKQMgfCIOIAlCNIggBCkDOCAEKQO4AnwgDyASVK18IBNCNIh8IAkgD1StfCIPQgyGhHwiB0L/////////B4M3A6gGIARBEGogCEI0iCALQjSIIAQpA4gBfCAIIA1UrXwiCEIMhoQgCEI0iEKQ+oCAgAJCABDggICAACAEIAQpAxAiCyAQQv7///////8Hg3wiCCAHQjSIIAQpA/gBIAQpA6gCfCAMIApUrXwgBCkDKHwgDiAMVK18IA9CNIh8IAcgDlStfCIOQgyGhHwiDEL/////////B4M3A7AGIAQgDEI0iCAEKQMYIAggC1StfCAOQjSIfCAMIAhUrXxCDIaEIAZC////////P4N8NwO4BiAEQfAFaiADIARBmAZqEIiAgIAAIARBsARqIARBsARqIARBmAZqEIiAgIAAIARB2ARqIgMgAyAEQfAFahCIgICAACAEKQP4BCIMQjCIQtGHgIAQfiAEKQPYBHwiCEIBgyAIQjSIIAQpA+AEfCIOQjSIIAQpA+gEfCIGQjSIIAQpA/AEfCIHQjSIIAxC////////P4N8IgxCMIggCEL/////////B4NCrvj//+///wdWIA4gBoMgB4NC/////////weDQv////////8HUSAMQv///////z9RcXGthFINACAEKQPIBCEGIAQpA8AEIQ4gBCkDuAQhDAJAIAQpA7AEIAQpA4gDfSAEKQPQBCAEKQOoA31C/P///////wF8IgdCMIhC0YeAgBB+fEK84f//v///H3wiCEL/////////B4MiC0Kv+P//7///B1ENACALQgBSDQELIAwgCEI0iHwgBCkDkAN9Qvz///////8ffCIMIAiEIA4gBCkDmAN9IAxCNIh8Qvz///////8ffCIOhCAGIAQpA6ADfSAOQjSIfEL8////////H3wiBoRC/////////weDIAZCNIggB0L///////8/g3wiB4RQIAhC0IeAgBCEIAdCgICAgICAwAeFgyAMgyAOgyAGg0L/////////B1FyIQULIARBwAZqJICAgIAAIAULpAMFA38BfgF/BH4EfyOAgICAACEDQQAhBCAAQQBBhAT8CwAgA0EgayIFIAEpAxgiBjcDGCAFIAEpAxA3AxAgBSABKQMINwMIIAUgASkDADcDAEEBIQcCQCAGQn9VDQAgBSAFKQMAQn+FIghCwoLZgc3Rl+m/f3wiCTcDACAFIAUpAwhCf4UiCiAJIAhUrXwiCEK7wKL66py317p/fCIJNwMIIAUgBSkDEEJ/hSILIAggClStIAkgCFStfHwiCEJ+fCIJNwMQIAUgBkJ/hSAIIAtUrSAJIAhUrXx8Qn98NwMYQX8hBwsgAkF/aiEMQX8hDUEAIQMDQAJAAkAgBSAEQQZ2Ig5BA3RqIg8pAwAgBK2IIganQQFxIANHDQAgBEEBaiEBDAELAkAgBCACQYEBIARrIgEgAiABSBsiDWoiAUF/akEGdiAORg0AIA8pAwhBwAAgBEE/cWuthiAGhCEGCyAAIARBAnRqIAMgBkJ/IA2thkJ/hYOnaiIDIAMgDHZBAXEiAyACdGsgB2w2AgAgBCENCyABIQQgAUGBAUgNAAsgDUEBagvRKwICfxN+I4CAgIAAQbALayIEJICAgIAAAkACQCACKAJQRQ0AIAAgAUGAAfwKAAAMAQsCQCABKAJ4RQ0AIABBADYCeCAEQYgLaiADEIqAgIAAIARB4ApqIARBiAtqIAMQiICAgAAgACACIARBiAtqEIiAgIAAIABBKGogAkEoaiAEQeAKahCIgICAACAAQgA3A1ggAEIBNwNQIABCADcDYCAAQgA3A2ggAEIANwNwDAELIABBADYCeCAEQYgLaiABQdAAaiIFIAMQiICAgAAgBEHgBWogBCkDoAsiBkIAIAQpA4gLIgdCAYYiCEIAEOCAgIAAIARBsAdqIAQpA5ALIglCAYYiCkIAIAQpA5gLIgtCABDggICAACAEQYAHaiAEKQOoCyIMQgAgDEIAEOCAgIAAIARB8AZqIAQpA4AHIg1C/////////weDQgBCkPqAgIACQgAQ4ICAgAAgBEHQBmogDEIBhiIMQgAgB0IAEOCAgIAAIARB8AVqIAZCACAKQgAQ4ICAgAAgBEGgB2ogC0IAIAtCABDggICAACAEQeAGaiANQjSIIAQpA4gHIgpCDIaEIApCNIhCkPqAgIACQgAQ4ICAgAAgBEHgB2ogB0IAIAdCABDggICAACAEQcAGaiAMQgAgCUIAEOCAgIAAIARBgAZqIAtCAYZCACAGQgAQ4ICAgAAgBEGgBWogBCkDwAYiDiAEKQOABnwiCiAEKQPwBSIPIAQpA6AHfCINIAQpA9AGfCIQIAQpA+AGfCIRIAQpA+AFIhIgBCkDsAd8IgcgBCkD8AZ8IhNCNIggBCkD6AUgBCkDuAd8IAcgElStfCAEKQP4BnwgEyAHVK18IhJCDIaEfCIHQjSIIAQpA/gFIAQpA6gHfCANIA9UrXwgBCkD2AZ8IBAgDVStfCAEKQPoBnwgESAQVK18IBJCNIh8IAcgEVStfCIPQgyGhHwiDUIEhkLw/////////wCDIAdCMIhCD4OEQgBC0YeAgBBCABDggICAACAEIAEpAwA3A7gKIAQgASkDCDcDwAogBCABKQMQNwPICiAEIAEpAxg3A9AKIAQgASkDIDcD2AogBCAEKQOgBSISIAQpA+AHfCIQQv////////8HgzcD4AogBEHQB2ogCEIAIAlCABDggICAACAEQbAGaiAMQgAgC0IAEOCAgIAAIARBkAZqIAZCACAGQgAQ4ICAgAAgBEHQBWogBCkDsAYiFCAEKQOQBnwiESANQjSIIAQpA8gGIAQpA4gGfCAKIA5UrXwgD0I0iHwgDSAKVK18Ig5CDIaEfCIKQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAQgBCkD0AUiDyAEKQPQB3wiDSAQQjSIIAQpA6gFIAQpA+gHfCAQIBJUrXwiEkIMhoR8IhBC/////////weDNwPoCiAEQZAHaiALQgAgCEIAEOCAgIAAIARBwAdqIAlCACAJQgAQ4ICAgAAgBEGgBmogDEIAIAZCABDggICAACAEQcAFaiAKQjSIIAQpA7gGIAQpA5gGfCARIBRUrXwgDkI0iHwgCiARVK18IghCDIaEIgogBCkDoAZ8IgZC/////////weDQgBCkPqAgIACQgAQ4ICAgAAgBCAEKQOQByIRIAQpA8AHfCILIAQpA8AFfCIJIBBCNIggBCkD2AUgBCkD2Ad8IA0gD1StfCASQjSIfCAQIA1UrXwiDUIMhoR8IgxC/////////weDNwPwCiAEQbAFaiAGQjSIIAhCNIggBCkDqAZ8IAYgClStfCIGQgyGhCAGQjSIQpD6gICAAkIAEOCAgIAAIAQgBCkDsAUiCCATQv7///////8Hg3wiBiAMQjSIIAQpA5gHIAQpA8gHfCALIBFUrXwgBCkDyAV8IAkgC1StfCANQjSIfCAMIAlUrXwiCUIMhoR8IgtC/////////weDNwP4CiAEIAtCNIggBCkDuAUgBiAIVK18IAlCNIh8IAsgBlStfEIMhoQgB0L///////8/g3w3A4ALIAQgBCkD2AoiBkIwiELRh4CAEH4gBCkDuAp8IgtCNIggBCkDwAp8IglCNIggBCkDyAp8IgdCNIggBCkD0Ap8IgxCNIggBkL///////8/g3wiCjcD2AogBCAMQv////////8HgyINNwPQCiAEIAdC/////////weDIgY3A8gKIAQgCUL/////////B4MiCTcDwAogBCALQv////////8HgyILNwO4CiAEQZAKaiACIARB4ApqEIiAgIAAIAQgASkDSCIHQjCIQtGHgIAQfiABKQMofCIMQjSIIAEpAzB8IghCNIggASkDOHwiEEI0iCABKQNAfCIRQjSIIAdC////////P4N8IhM3A4gKIAQgEUL/////////B4MiBzcDgAogBCAQQv////////8HgyIRNwP4CSAEIAhC/////////weDIg43A/AJIAQgDEL/////////B4MiEDcD6AkgBEHACWogAkEoaiAEQeAKahCIgICAACAEQcAJaiAEQcAJaiAEQYgLahCIgICAACAEIAQpA5AKIAt9Qrzh//+///8ffCIINwOYCSAEIAQpA5gKIAl9Qvz///////8ffCIMNwOgCSAEIAQpA6AKIAZ9Qvz///////8ffCIGNwOoCSAEIAQpA6gKIA19Qvz///////8ffCILNwOwCSAEIAQpA7AKIAp9Qvz///////8BfCIKNwO4CSAEIAQpA8AJIBB9Qrzh//+///8ffCIQNwPwCCAEIAQpA8gJIA59Qvz///////8ffCINNwP4CCAEIAQpA9AJIBF9Qvz///////8ffCIJNwOACSAEIAQpA9gJIAd9Qvz///////8ffCIHNwOICSAEIAQpA+AJIBN9Qvz///////8BfCIRNwOQCQJAAkAgCkIwiELRh4CAEH4gCHwiE0L/////////B4MiDkKv+P//7///B1ENACAOQgBSDQELAkAgE0I0iCAMfCIOIBOEIA5CNIggBnwiD4QgD0I0iCALfCIShEL/////////B4MgEkI0iCAKQv///////z+DfCIUhFANACATQtCHgIAQhCAUQoCAgICAgMAHhYMgDoMgD4MgEoNC/////////wdSDQELAkACQCARQjCIQtGHgIAQfiAQfCIGQv////////8HgyILQq/4///v//8HUQ0AIAtCAFINAQsCQCAGQjSIIA18IgsgBoQgC0I0iCAJfCIJhCAJQjSIIAd8IgeEQv////////8HgyAHQjSIIBFC////////P4N8IgyEUA0AIAZC0IeAgBCEIAxCgICAgICAwAeFgyALgyAJgyAHg0L/////////B1INAQsCQCABKAJ4RQ0AIABBATYCeCAAQQBB+AD8CwAMAwsgACABEIeAgIAADAILIABBATYCeCAAQQBB+AD8CwAMAQsgBEGABWogB0IAIBBCAYYiE0IAEOCAgIAAIARBsARqIAlCACANQgGGIg5CABDggICAACAEQfADaiARQgAgEUIAEOCAgIAAIARB0ANqIAQpA/ADIg9C/f///////weDQgBCkPqAgIACQgAQ4ICAgAAgBEHAA2ogEUIBhiIRQgAgEEIAEOCAgIAAIARB4ARqIAdCACAOQgAQ4ICAgAAgBEGgBGogCUIAIAlCABDggICAACAEQeADaiAPQjSIIAQpA/gDIg5CDIaEIA5CNIhCkPqAgIACQgAQ4ICAgAAgBEGQBWogEEIAIBBCABDggICAACAEQbADaiARQgAgDUIAEOCAgIAAIARBgARqIAdCACAJQgGGQgAQ4ICAgAAgBEGgA2ogBCkDsAMiFSAEKQOABHwiDiAEKQPgBCIWIAQpA6AEfCIPIAQpA8ADfCISIAQpA+ADfCIUIAQpA4AFIhcgBCkDsAR8IhAgBCkD0AN8IhhCNIggBCkDiAUgBCkDuAR8IBAgF1StfCAEKQPYA3wgGCAQVK18IhdCDIaEfCIQQjSIIAQpA+gEIAQpA6gEfCAPIBZUrXwgBCkDyAN8IBIgD1StfCAEKQPoA3wgFCASVK18IBdCNIh8IBAgFFStfCIUQgyGhHwiD0IEhkLw/////////wCDIBBCMIhCD4OEQgBC0YeAgBBCABDggICAACAEQdAEaiANQgAgE0IAEOCAgIAAIARBkANqIBFCACAJQgAQ4ICAgAAgBEHwBGogB0IAIAdCABDggICAACAEQYADaiAEKQOQAyIWIAQpA/AEfCISIA9CNIggBCkDuAMgBCkDiAR8IA4gFVStfCAUQjSIfCAPIA5UrXwiD0IMhoR8Ig5C/////////weDQgBCkPqAgIACQgAQ4ICAgAAgBEGQBGogCUIAIBNCABDggICAACAEQcAEaiANQgAgDUIAEOCAgIAAIARB8AJqIBFCACAHQgAQ4ICAgAAgBEHgAmogDkI0iCAEKQOYAyAEKQP4BHwgEiAWVK18IA9CNIh8IA4gElStfCIHQgyGhCINIAQpA/ACfCIJQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIARB0AJqIAlCNIggB0I0iCAEKQP4AnwgCSANVK18IglCDIaEIAlCNIhCkPqAgIACQgAQ4ICAgAAgBEGwAmogC0IAIAhCAYYiDUIAEOCAgIAAIARB4AFqIAZCACAMQgGGIgdCABDggICAACAEQaABaiAKQgAgCkIAEOCAgIAAIARBgAFqIAQpA6ABIhFC/f///////weDQgBCkPqAgIACQgAQ4ICAgAAgBEHwAGogCkIBhiIJQgAgCEIAEOCAgIAAIARBkAJqIAtCACAHQgAQ4ICAgAAgBEHQAWogBkIAIAZCABDggICAACAEQZABaiARQjSIIAQpA6gBIgdCDIaEIAdCNIhCkPqAgIACQgAQ4ICAgAAgBEHAAmogCEIAIAhCABDggICAACAEQeAAaiAJQgAgDEIAEOCAgIAAIARBsAFqIAtCACAGQgGGQgAQ4ICAgAAgBEHQAGogBCkDYCIPIAQpA7ABfCIIIAQpA5ACIhIgBCkD0AF8IgogBCkDcHwiESAEKQOQAXwiEyAEKQOwAiIUIAQpA+ABfCIHIAQpA4ABfCIOQjSIIAQpA7gCIAQpA+gBfCAHIBRUrXwgBCkDiAF8IA4gB1StfCIUQgyGhHwiB0I0iCAEKQOYAiAEKQPYAXwgCiASVK18IAQpA3h8IBEgClStfCAEKQOYAXwgEyARVK18IBRCNIh8IAcgE1StfCISQgyGhHwiCkIEhkLw/////////wCDIAdCMIhCD4OEQgBC0YeAgBBCABDggICAACAEIAQpA1AiFCAEKQPAAnwiEUL/////////B4M3A8gIIARBgAJqIAxCACANQgAQ4ICAgAAgBEHAAGogCUIAIAZCABDggICAACAEQaACaiALQgAgC0IAEOCAgIAAIARBMGogBCkDQCIVIAQpA6ACfCITIApCNIggBCkDaCAEKQO4AXwgCCAPVK18IBJCNIh8IAogCFStfCIPQgyGhHwiCEL/////////B4NCAEKQ+oCAgAJCABDggICAACAEIAQpAzAiEiAEKQOAAnwiCiARQjSIIAQpA1ggBCkDyAJ8IBEgFFStfCIUQgyGhHwiEUL/////////B4M3A9AIIARBwAFqIAZCACANQgAQ4ICAgAAgBEHwAWogDEIAIAxCABDggICAACAEQSBqIAlCACALQgAQ4ICAgAAgBEEQaiAIQjSIIAQpA0ggBCkDqAJ8IBMgFVStfCAPQjSIfCAIIBNUrXwiCEIMhoQiDSAEKQMgfCIGQv////////8Hg0IAQpD6gICAAkIAEOCAgIAAIAQgBCkDwAEiEyAEKQPwAXwiCyAEKQMQfCIJIBFCNIggBCkDOCAEKQOIAnwgCiASVK18IBRCNIh8IBEgClStfCIKQgyGhHwiDEL/////////B4M3A9gIIAQgBkI0iCAIQjSIIAQpAyh8IAYgDVStfCIGQgyGhCAGQjSIQpD6gICAAkIAEOCAgIAAIAQgBCkDACIIIA5C/v///////weDfCIGIAxCNIggBCkDyAEgBCkD+AF8IAsgE1StfCAEKQMYfCAJIAtUrXwgCkI0iHwgDCAJVK18IglCDIaEfCILQv////////8HgzcD4AggBCALQjSIIAQpAwggBiAIVK18IAlCNIh8IAsgBlStfEIMhoQgB0L///////8/g3w3A+gIIARBoAhqIARBmAlqIARByAhqEIiAgIAAIAAgBSkDIDcDcCAAIAUpAxg3A2ggACAFKQMQNwNgIAAgBSkDCDcDWCAAIAUpAwA3A1AgAEHQAGoiASABIARBmAlqEIiAgIAAIAQpA5AFIQsgBCkDoAMhBiAEQfgHaiAEQbgKaiAEQcgIahCIgICAACAAIAYgC3wiC0L/////////B4MgBCkDoAggBCkD+AciDEIBhnx9IghC+ML////+/z98NwMAIAAgBCkDgAMiCiAEKQPQBHwiCSALQjSIIAQpA6gDIAQpA5gFfCALIAZUrXwiDUIMhoR8IgZC/////////weDIAQpA6gIIAQpA4AIIhFCAYZ8fSITQvj///////8/fDcDCCAAIAQpA5AEIg4gBCkDwAR8IgsgBCkD4AJ8IgcgBkI0iCAEKQOIAyAEKQPYBHwgCSAKVK18IA1CNIh8IAYgCVStfCIKQgyGhHwiBkL/////////B4MgBCkDsAggBCkDiAhCAYZ8fSINQvj///////8/fDcDECAAIAQpA9ACIg8gGEL+////////B4N8IgkgBkI0iCAEKQOYBCAEKQPIBHwgCyAOVK18IAQpA+gCfCAHIAtUrXwgCkI0iHwgBiAHVK18IgtCDIaEfCIGQjSIIAQpA9gCIAkgD1StfCALQjSIfCAGIAlUrXxCDIaEIBBC////////P4N8IAQpA8AIIAQpA5gIQgGGfH0iC0L4////////A3w3AyAgACAGQv////////8HgyAEKQO4CCAEKQOQCEIBhnx9IgZC+P///////z98NwMYIAAgDCAIfUK84f//v///H3w3AyggACARIBN9Qvz///////8ffDcDMCAAIAQpA4gIIA19Qvz///////8ffDcDOCAAIAQpA5AIIAZ9Qvz///////8ffDcDQCAAIAQpA5gIIAt9Qvz///////8BfDcDSCAAQShqIgEgASAEQfAIahCIgICAACAEQaAIaiAEQaAIaiAEQegJahCIgICAACAAIAApAyggBCkDoAh9Qrzh//+///8ffDcDKCAAIAApAzAgBCkDqAh9Qvz///////8ffDcDMCAAIAApAzggBCkDsAh9Qvz///////8ffDcDOCAAIAApA0AgBCkDuAh9Qvz///////8ffDcDQCAAIAApA0ggBCkDwAh9Qvz///////8BfDcDSAsgBEGwC2okgICAgAALwggCAn8GfiOAgICAAEGgBGsiBCSAgICAAAJAAkAgACgCAA0AQYyFwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEFDAELAkAgAQ0AQfyDwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEFDAELAkAgAg0AQcyEwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEFDAELAkAgAw0AQYSCwIIAIABBtAFqKAIAIAAoArABEYCAgIAAgICAgABBACEFDAELQQAhBSAEQegCaiABEIOAgIAARQ0AIARBsANqIAFBIGogBEEMahCWgICAACAEKAIMDQBBACEFIARBADYC4AIgBCADKQA4IgZCEIg3A9gCIAQgAykAICIHQv////////8HgzcDuAIgBCAGQiSGQoCAgICA/v8HgyADKQAwIgZCHIiENwPQAiAEIAZCGIZCgICA+P///weDIAMpACgiBkIoiIQ3A8gCIAQgBkIMhkKA4P//////B4MgB0I0iIQ3A8ACIAQgAykACCIGQgyGQoDg//////8HgyADKQAAIgdCNIiEIgg3A5gCIAQgB0L/////////B4MiBzcDkAIgBCADKQAYIglCEIgiCjcDsAIgBCADKQAQIgtCGIZCgICA+P///weDIAZCKIiEIgY3A6ACIAQgCUIkhkKAgICAgP7/B4MgC0IciIQiCTcDqAICQCAIIAeEIAqEIAaEIAmEQgBSDQBB/IXAggAgAEG0AWooAgAgACgCsAERgICAgACAgICAAAwBCyAEQZADaiABIARBkAJqIAIQ04CAgAAgBCAEKALgAjYCiAIgBCAEKQOQAjcDkAEgBCAEKQOYAjcDmAEgBCAEKQOgAjcDoAEgBCAEKQOoAjcDqAEgBCAEKQOwAjcDsAEgBEIAIAQpA5ADIgZCf4UiB0LCgtmBzdGX6b9/fCIIIAQpA5gDIgkgBoQgBCkDoAMiCoQgBCkDqAMiC4RQIgMbNwOQAyAEQgAgCUJ/hSIJIAggB1StfCIGQrvAovrqnLfXun98IgcgAxs3A5gDIARCACAKQn+FIgggBiAJVK0gByAGVK18fCIGQn58IgcgAxs3A6ADIARCACALQn+FIAYgCFStIAcgBlStfHxCf3wgAxs3A6gDIAQgBEG4AmoiAykDIDcD2AEgBCADKQMYNwPQASAEIAMpAxA3A8gBIAQgAykDCDcDwAEgBCADKQMANwO4ASAEQgE3A+ABIARCADcDgAIgBEIANwP4ASAEQgA3A/ABIARCADcD6AEgACAEQRBqIARBkAFqIARBkANqIARBsANqEJ+AgIAAIAQoAogBDQAgBEHoAmogBEEQahCggICAAEUNACAEQfgDaiAEQThqIARB4ABqEIiAgIAAIARB0ANqIARB+ANqEMOAgIAAIQULIARBoARqJICAgIAAIAULxwQBAX8jgICAgABBoAFrIgQkgICAgAAgBEEhNgJsIARBADYCaCAEQquzj/yRo7Pw2wA3AiAgBEL/pLmIxZHagpt/NwIYIARC8ua746On/aelfzcCECAEQufMp9DW0Ouzu383AgggBEEIaiABQSAQgoCAgAAgAiAEQfAAaiAEQewAakEBEJGAgIAAGiAEQQhqIARB8ABqIAQoAmwQgoCAgAAgBEEIaiADQSAQgoCAgAAgBCAEKAJoIgFBBXYiAkGAgIA4cTYCmAEgBCABQQt0QYCA/AdxIAFBG3RyIAJBgP4DcXIgAUEVdkH/AXFyNgKcASAEQQhqQdCHwIIAQTcgAWtBP3FBAWoQgoCAgAAgBEEIaiAEQZgBakEIEIKAgIAAIAQgBCgCJCIBQf+B/AdxQQh4IAFBGHhB/4H8B3FyNgKMASAEIAQoAiAiAUH/gfwHcUEIeCABQRh4Qf+B/AdxcjYCiAEgBCAEKAIcIgFB/4H8B3FBCHggAUEYeEH/gfwHcXI2AoQBIAQgBCgCGCIBQf+B/AdxQQh4IAFBGHhB/4H8B3FyNgKAASAEIAQoAhQiAUH/gfwHcUEIeCABQRh4Qf+B/AdxcjYCfCAEIAQoAhAiAUH/gfwHcUEIeCABQRh4Qf+B/AdxcjYCeCAEIAQoAgwiAUH/gfwHcUEIeCABQRh4Qf+B/AdxcjYCdCAEIAQoAggiAUH/gfwHcUEIeCABQRh4Qf+B/AdxcjYCcCAAIARB8ABqQQAQloCAgAAgBEGgAWokgICAgAALuxEEAn8GfgF/A34jgICAgABBgAVrIgYkgICAgAACQAJAIAAoAggNAEHAhcCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhBwwBCwJAIAENAEH8g8CCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhBwwBCwJAIAINAEHMhMCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhBwwBCwJAIAMNAEHBgcCCACAAQbQBaigCACAAKAKwARGAgICAAICAgIAAQQAhBwwBCyAGQdgEaiADIAZB+AJqEJaAgIAAIAYgBigC+AJFIAYpA+AEIgggBikD2AQiCYQgBikD6AQiCoQgBikD8AQiC4RCAFJxIgdBAXOtIgxCf3wiDSALgzcD8AQgBiANIAqDNwPoBCAGIA0gCIM3A+AEIAYgDSAJgyAMhDcD2AQgAEEIaiIOIAZB+AJqIAZB2ARqEKeAgIAAIARBgYCAgAAgBBshBCAGQaABaiAGQfgCahCogICAAEEAIQACQANAAkAgBiACIANBsIfAggAgBSAAIAQRgYCAgACAgICAAA0AQQAhBwwCCyAAQQFqIQAgBkG4BGogBiAGQfgBahCWgICAACAGKAL4AQ0AIAYpA8AEIg0gBikDuAQiCIQgBikDyAQiCYQgBikD0AQiCoRQDQALIA4gBkH4AWogBkG4BGoQp4CAgAAgBkHIAGogBkH4AWoQqICAgAAgBkEgaiAGQfAAahDDgICAACEAIAYgBikDaCIPQjCIQtGHgIAQfiAGKQNIfCIQQjSIIAYpA1B8IgtCNIggBikDWHwiEUI0iCAGKQNgfCIMQjSIIA9C////////P4N8Ig9CMIggEEL/////////B4MiEEKu+P//7///B1YgEUL/////////B4MiESALgyAMg0L/////////B1EgD0L///////8/UXFxrYRC0YeAgBB+IBB8IhBC/////////weDNwNIIAYgEEI0iCALQv////////8Hg3wiC0L/////////B4M3A1AgBiALQjSIIBF8IgtC/////////weDNwNYIAYgC0I0iCAMQv////////8Hg3wiC0L/////////B4M3A2AgBiALQjSIIA98Qv///////z+DNwNoIAYgCCAAQX9qrCILhSIIIAtCwoLZgc3Rl+m/f4N8Igw3A7gEIAYgDSALhSIQIAtCu8Ci+uqct9e6f4N8Ig0gDCAIVK18Igg3A8AEIAYgCSALhSIRIAtCfoN8Ig8gDSAQVK0gCCANVK18fCIJNwPIBCAGIAogC4UgC3wgDyARVK0gCSAPVK18fCIKNwPQBCABIAZByABqEJKAgIAAIAZBmARqIAEgBkGgAWogAhDTgICAACAGQfgDaiAGQZgEaiAGQdgEahCegICAACAGIAggBikDgAR8IgsgBikD+AMiDSAMfCIMIA1UrXwiDUK6wKL66py317p/ViAJIAYpA4gEfCIPIAsgCFStIA0gC1StfHwiCEJ9VnEgCiAGKQOQBHwiCyAPIAlUrSAIIA9UrXx8IglCf1FxIgBBACANQrvAovrqnLfXun9WGyAIIAmDQn9RciAAQQAgDELAgtmBzdGX6b9/VhtyIAsgClStIAkgC1StfKdqrSIKQr/9pv6yruiWwAB+Ig8gDHwiDDcD+AMgBiANIApCxL/dhZXjyKjFAH58IgsgDCAPVK18Igw3A4AEIAYgCCAKfCIKIAsgDVStIAwgC1StfHwiDTcDiAQgBiAKIAhUrSANIApUrXwgCXw3A5AEIAFBIGogBkH4A2oQmYCAgAALIAYgB0EBczYC/AQgBigC/AQhACABIAEtAAAgAEF/aiIAcToAACABIAEtAAEgAHE6AAEgASABLQACIABxOgACIAEgAS0AAyAAcToAAyABIAEtAAQgAHE6AAQgASABLQAFIABxOgAFIAEgAS0ABiAAcToABiABIAEtAAcgAHE6AAcgASABLQAIIABxOgAIIAEgAS0ACSAAcToACSABIAEtAAogAHE6AAogASABLQALIABxOgALIAEgAS0ADCAAcToADCABIAEtAA0gAHE6AA0gASABLQAOIABxOgAOIAEgAS0ADyAAcToADyABIAEtABAgAHE6ABAgASABLQARIABxOgARIAEgAS0AEiAAcToAEiABIAEtABMgAHE6ABMgASABLQAUIABxOgAUIAEgAS0AFSAAcToAFSABIAEtABYgAHE6ABYgASABLQAXIABxOgAXIAEgAS0AGCAAcToAGCABIAEtABkgAHE6ABkgASABLQAaIABxOgAaIAEgAS0AGyAAcToAGyABIAEtABwgAHE6ABwgASABLQAdIABxOgAdIAEgAS0AHiAAcToAHiABIAEtAB8gAHE6AB8gASABLQAgIABxOgAgIAEgAS0AISAAcToAISABIAEtACIgAHE6ACIgASABLQAjIABxOgAjIAEgAS0AJCAAcToAJCABIAEtACUgAHE6ACUgASABLQAmIABxOgAmIAEgAS0AJyAAcToAJyABIAEtACggAHE6ACggASABLQApIABxOgApIAEgAS0AKiAAcToAKiABIAEtACsgAHE6ACsgASABLQAsIABxOgAsIAEgAS0ALSAAcToALSABIAEtAC4gAHE6AC4gASABLQAvIABxOgAvIAEgAS0AMCAAcToAMCABIAEtADEgAHE6ADEgASABLQAyIABxOgAyIAEgAS0AMyAAcToAMyABIAEtADQgAHE6ADQgASABLQA1IABxOgA1IAEgAS0ANiAAcToANiABIAEtADcgAHE6ADcgASABLQA4IABxOgA4IAEgAS0AOSAAcToAOSABIAEtADogAHE6ADogASABLQA7IABxOgA7IAEgAS0APCAAcToAPCABIAEtAD0gAHE6AD0gASABLQA+IABxOgA+IAEgAS0APyAAcToAPwsgBkGABWokgICAgAAgBwvKDwIBfxh+I4CAgIAAQeADayIEJICAgIAAIARB4AJqIAIpAwAiBSAFQj+HIgYgACkDACIHIAdCP4ciCBDggICAACAEQYADaiACKQMIIgkgCUI/hyIKIAEpAwAiCyALQj+HIgwQ4ICAgAAgBEHwAmogAikDECINIA1CP4ciDiAHIAgQ4ICAgAAgBEGQA2ogAikDGCIHIAdCP4ciDyALIAwQ4ICAgAAgBEHAAmogCSABKQMgIhBCP4ciCIMgBSAAKQMgIhFCP4ciEoN8IgsgCyADKQMoIhMgBCkDgAMiFCAEKQPgAnwiFX58Qv//////////P4N9IgsgC0I/hyIWIAMpAwAiDCAMQj+HIhcQ4ICAgAAgBEHQAmogByAIgyANIBKDfCIIIAggEyAEKQOQAyIYIAQpA/ACfCISfnxC//////////8/g30iCCAIQj+HIhkgDCAXEOCAgIAAIARBoANqIAUgBiAAKQMIIgwgDEI/hyIXEOCAgIAAIARBwANqIAkgCiABKQMIIhMgE0I/hyIaEOCAgIAAIARBsANqIA0gDiAMIBcQ4ICAgAAgBEHQA2ogByAPIBMgGhDggICAACAEKQPYAyAEKQO4A3wgBCkD0AMiEyAEKQOwA3wiDCATVK18IAQpA9gCIAQpA5gDIAQpA/gCfCASIBhUrXx8IAQpA9ACIhMgEnwiEiATVK18IhNCPod8IAwgEkI+iCATQgKGhHwiGyAMVK18IQwgBCkDyAMgBCkDqAN8IAQpA8ADIhMgBCkDoAN8IhIgE1StfCAEKQPIAiAEKQOIAyAEKQPoAnwgFSAUVK18fCAEKQPAAiITIBV8IhUgE1StfCITQj6HfCASIBVCPoggE0IChoR8IhwgElStfCEVIAEpAxghFCABKQMQIRIgACkDGCEXIAApAxAhEwJAAkAgAykDCCIYUEUNACAcIRggGyEaDAELIARBsAJqIAsgFiAYIBhCP4ciGhDggICAACAEQaACaiAIIBkgGCAaEOCAgIAAIAwgBCkDqAJ8IBsgBCkDoAJ8IhogG1StfCEMIBUgBCkDuAJ8IBwgBCkDsAJ8IhggHFStfCEVCyAAIBhC//////////8/gzcDACABIBpC//////////8/gzcDACAEQZACaiAFIAYgEyATQj+HIhsQ4ICAgAAgBEHwAWogCSAKIBIgEkI/hyIGEOCAgIAAIARBgAJqIA0gDiATIBsQ4ICAgAAgBEHgAWogByAPIBIgBhDggICAACAEKQPoASAEKQOIAnwgBCkD4AEiEyAEKQOAAnwiEiATVK18IAxCPod8IBIgGkI+iCAMQgKGhHwiDCASVK18IRIgBCkD+AEgBCkDmAJ8IAQpA/ABIgYgBCkDkAJ8IhMgBlStfCAVQj6HfCATIBhCPoggFUIChoR8IhUgE1StfCETAkAgAykDECIGUA0AIARB0AFqIAYgBkI/hyIKIAsgC0I/hxDggICAACAEQcABaiAGIAogCCAIQj+HEOCAgIAAIAQpA8gBIBJ8IAQpA8ABIhIgDHwiDCASVK18IRIgBCkD2AEgE3wgBCkD0AEiEyAVfCIVIBNUrXwhEwsgACAVQv//////////P4M3AwggASAMQv//////////P4M3AwggBEGwAWogBSAFQj+HIgYgFyAXQj+HIgoQ4ICAgAAgBEGQAWogCSAJQj+HIg4gFCAUQj+HIg8Q4ICAgAAgBEGgAWogDSANQj+HIhggFyAKEOCAgIAAIARBgAFqIAcgB0I/hyIXIBQgDxDggICAACAEKQOIASAEKQOoAXwgBCkDgAEiCiAEKQOgAXwiFCAKVK18IBJCPod8IBQgDEI+iCASQgKGhHwiDCAUVK18IRIgBCkDmAEgBCkDuAF8IAQpA5ABIgogBCkDsAF8IhQgClStfCATQj6HfCAUIBVCPoggE0IChoR8IhUgFFStfCETAkAgAykDGCIUUA0AIARB8ABqIBQgFEI/hyIKIAsgC0I/hxDggICAACAEQeAAaiAUIAogCCAIQj+HEOCAgIAAIAQpA2ggEnwgBCkDYCISIAx8IgwgElStfCESIAQpA3ggE3wgBCkDcCITIBV8IhUgE1StfCETCyAAIBVC//////////8/gzcDECABIAxC//////////8/gzcDECAEQdAAaiAFIAYgESARQj+HIhQQ4ICAgAAgBEEwaiAJIA4gECAQQj+HIgUQ4ICAgAAgBEHAAGogDSAYIBEgFBDggICAACAEQSBqIAcgFyAQIAUQ4ICAgAAgBCADKQMgIgUgBUI/hyIJIAsgC0I/hxDggICAACAEQRBqIAUgCSAIIAhCP4cQ4ICAgAAgACAEKQMwIhAgBCkDUHwiBSAVQj6IIBNCAoaEfCIJIAQpAwB8Ig1C//////////8/gzcDGCABIAQpAyAiFSAEKQNAfCIHIAxCPoggEkIChoR8IgsgBCkDEHwiCEL//////////z+DNwMYIAAgDUI+iCAEKQM4IAQpA1h8IAUgEFStfCATQj6HfCAJIAVUrXwgBCkDCHwgDSAJVK18QgKGhDcDICABIAhCPoggBCkDKCAEKQNIfCAHIBVUrXwgEkI+h3wgCyAHVK18IAQpAxh8IAggC1StfEIChoQ3AyAgBEHgA2okgICAgAAL6gYBCX8jgICAgABBMGsiAiSAgICAACACIAAoAmAiA0EFdiIEQYCAgDhxNgIoIAIgA0ELdEGAgPwHcSADQRt0ciAEQYD+A3FyIANBFXZB/wFxcjYCLCAAQdCHwIIAQTcgA2tBP3FBAWoQgoCAgAAgACACQShqQQgQgoCAgAAgACgCACEDIAAoAgQhBCAAQgA3AgAgACgCCCEFIAAoAgwhBiAAQgA3AgggACgCECEHIAAoAhQhCCAAQgA3AhAgACgCGCEJIAAoAhwhCiAAQgA3AhggAiAKQf+B/AdxQQh4IApBGHhB/4H8B3FyNgIcIAIgCUH/gfwHcUEIeCAJQRh4Qf+B/AdxcjYCGCACIAhB/4H8B3FBCHggCEEYeEH/gfwHcXI2AhQgAiAHQf+B/AdxQQh4IAdBGHhB/4H8B3FyNgIQIAIgBkH/gfwHcUEIeCAGQRh4Qf+B/AdxcjYCDCACIAVB/4H8B3FBCHggBUEYeEH/gfwHcXI2AgggAiAEQf+B/AdxQQh4IARBGHhB/4H8B3FyNgIEIAIgA0H/gfwHcUEIeCADQRh4Qf+B/AdxcjYCACAAQeQAaiIEIAJBIBCCgICAACACIAAoAsQBIgNBBXYiBUGAgIA4cTYCKCACIANBC3RBgID8B3EgA0EbdHIgBUGA/gNxciADQRV2Qf8BcXI2AiwgBEHQh8CCAEE3IANrQT9xQQFqEIKAgIAAIAQgAkEoakEIEIKAgIAAIAAoAmQhAyAAKAJoIQQgAEIANwJkIAAoAmwhBSAAKAJwIQYgAEIANwJsIAAoAnQhByAAKAJ4IQggAEIANwJ0IAAoAnwhCSAAKAKAASEKIABCADcCfCABIApB/4H8B3FBCHggCkEYeEH/gfwHcXI2ABwgASAJQf+B/AdxQQh4IAlBGHhB/4H8B3FyNgAYIAEgCEH/gfwHcUEIeCAIQRh4Qf+B/AdxcjYAFCABIAdB/4H8B3FBCHggB0EYeEH/gfwHcXI2ABAgASAGQf+B/AdxQQh4IAZBGHhB/4H8B3FyNgAMIAEgBUH/gfwHcUEIeCAFQRh4Qf+B/AdxcjYACCABIARB/4H8B3FBCHggBEEYeEH/gfwHcXI2AAQgASADQf+B/AdxQQh4IANBGHhB/4H8B3FyNgAAIAJBMGokgICAgAALAwAACwMAAAsDAAALTgACQCAADQA/AEEQdA8LAkAgAEH//wNxDQAgAEF/TA0AAkAgAEEQdkAAIgBBf0cNAEEAQTA2AsCLwIIAQX8PCyAAQRB0DwsQ2YCAgAAACwoAIAAQ3ICAgAAL0zYBC38jgICAgABBEGsiASSAgICAAAJAAkACQAJAAkACQAJAAkACQAJAAkACQAJAQQAoAtyLwIIAIgINAAJAQQAoApyPwIIAIgMNAEEAQn83AqiPwIIAQQBCgICEgICAwAA3AqCPwIIAQQAgAUEIakFwcUHYqtWqBXMiAzYCnI/AggBBAEEANgKwj8CCAEEAQQA2AoCPwIIAC0GAgICIAEHAj8CCAEkNAUEAIQJBgICAiABBwI/AggBrQdkASQ0AQQBBwI/AggA2AoSPwIIAQQBBwI/AggA2AtSLwIIAQQAgAzYC6IvAggBBAEHsi8CCADYC+IvAggBBAEF/NgLki8CCAEEAQfSLwIIANgKAjMCCAEEAQeyLwIIANgL0i8CCAEEAQfyLwIIANgKIjMCCAEEAQfSLwIIANgL8i8CCAEEAQYSMwIIANgKQjMCCAEEAQfyLwIIANgKEjMCCAEEAQYyMwIIANgKYjMCCAEEAQYSMwIIANgKMjMCCAEEAQZSMwIIANgKgjMCCAEEAQYyMwIIANgKUjMCCAEEAQZyMwIIANgKojMCCAEEAQZSMwIIANgKcjMCCAEEAQYCAgIgAQcCPwIIAayIDNgKIj8CCAEEAIAM2AviOwIIAQQAgAzYC9I7AggBBAEGkjMCCADYCsIzAggBBAEGcjMCCADYCpIzAggBBAEGkjMCCADYCrIzAggBBAEGsjMCCADYCuIzAggBBAEGsjMCCADYCtIzAggBBAEG0jMCCADYCwIzAggBBAEG0jMCCADYCvIzAggBBAEG8jMCCADYCyIzAggBBAEG8jMCCADYCxIzAggBBAEHEjMCCADYC0IzAggBBAEHEjMCCADYCzIzAggBBAEHMjMCCADYC2IzAggBBAEHMjMCCADYC1IzAggBBAEHUjMCCADYC4IzAggBBAEHUjMCCADYC3IzAggBBAEHcjMCCADYC6IzAggBBAEHcjMCCADYC5IzAggBBAEHkjMCCADYC8IzAggBBAEHsjMCCADYC+IzAggBBAEHkjMCCADYC7IzAggBBAEH0jMCCADYCgI3AggBBAEHsjMCCADYC9IzAggBBAEH8jMCCADYCiI3AggBBAEH0jMCCADYC/IzAggBBAEGEjcCCADYCkI3AggBBAEH8jMCCADYChI3AggBBAEGMjcCCADYCmI3AggBBAEGEjcCCADYCjI3AggBBAEGUjcCCADYCoI3AggBBAEGMjcCCADYClI3AggBBAEGcjcCCADYCqI3AggBBAEGUjcCCADYCnI3AggBBAEGkjcCCADYCsI3AggBBAEGcjcCCADYCpI3AggBBAEGsjcCCADYCuI3AggBBAEGkjcCCADYCrI3AggBBAEG0jcCCADYCwI3AggBBAEGsjcCCADYCtI3AggBBAEG8jcCCADYCyI3AggBBAEG0jcCCADYCvI3AggBBAEHEjcCCADYC0I3AggBBAEG8jcCCADYCxI3AggBBAEHMjcCCADYC2I3AggBBAEHEjcCCADYCzI3AggBBAEHUjcCCADYC4I3AggBBAEHMjcCCADYC1I3AggBBAEHcjcCCADYC6I3AggBBAEHUjcCCADYC3I3AggBBAEHkjcCCADYC8I3AggBBAEHcjcCCADYC5I3AggBBAEHkjcCCADYC7I3AggBBAEHAj8CCAEF4QcCPwIIAa0EPcSIEaiICNgLci8CCAEEAIAMgBGtBSGoiAzYC0IvAggAgAiADQQFyNgIEQYCAgIgAQUxqQTg2AgBBAEEAKAKsj8CCADYC4IvAggALAkACQCAAQewBSw0AAkBBACgCxIvAggAiBUEQIABBE2pB8ANxIABBC0kbIgRBA3YiA3YiAEEDcUUNAAJAAkAgAEEBcSADckEBcyIEQQN0IgNB7IvAggBqIgAgAygC9IvAggAiAygCCCIGRw0AQQAgBUF+IAR3cTYCxIvAggAMAQsgACAGNgIIIAYgADYCDAsgA0EIaiEAIAMgBEEDdCIEQQNyNgIEIAMgBGoiAyADKAIEQQFyNgIEDA4LIARBACgCzIvAggAiB00NAQJAIABFDQACQAJAIAAgA3RBAiADdCIAQQAgAGtycWgiA0EDdCIAQeyLwIIAaiIGIAAoAvSLwIIAIgAoAggiCEcNAEEAIAVBfiADd3EiBTYCxIvAggAMAQsgBiAINgIIIAggBjYCDAsgACAEQQNyNgIEIAAgA0EDdCIDaiADIARrIgY2AgAgACAEaiIIIAZBAXI2AgQCQCAHRQ0AIAdBeHFB7IvAggBqIQRBACgC2IvAggAhAwJAAkAgBUEBIAdBA3Z0IglxDQBBACAFIAlyNgLEi8CCACAEIQkMAQsgBCgCCCEJCyAJIAM2AgwgBCADNgIIIAMgBDYCDCADIAk2AggLIABBCGohAEEAIAg2AtiLwIIAQQAgBjYCzIvAggAMDgtBACgCyIvAggAiCkUNASAKaEECdCgC9I3AggAiCCgCBEF4cSAEayEDIAghBgJAA0ACQCAGKAIQIgANACAGKAIUIgBFDQILIAAoAgRBeHEgBGsiBiADIAYgA0kiBhshAyAAIAggBhshCCAAIQYMAAsLIAgoAhghAgJAIAgoAgwiACAIRg0AIAgoAggiBiAANgIMIAAgBjYCCAwNCwJAAkAgCCgCFCIGRQ0AIAhBFGohCQwBCyAIKAIQIgZFDQQgCEEQaiEJCwNAIAkhCyAGIgBBFGohCSAAKAIUIgYNACAAQRBqIQkgACgCECIGDQALIAtBADYCAAwMC0F/IQQgAEG/f0sNACAAQRNqIgNBcHEhBEEAKALIi8CCACIKRQ0AQR8hBwJAIABB7P//B0sNACAEQSYgA0EIdmciAGt2QQFxIABBAXRrQT5qIQcLQQAgBGshAwJAAkACQAJAIAdBAnQoAvSNwIIAIgYNAEEAIQBBACEJDAELQQAhACAEQQBBGSAHQQF2ayAHQR9GG3QhCEEAIQkDQAJAIAYoAgRBeHEgBGsiBSADTw0AIAUhAyAGIQkgBQ0AQQAhAyAGIQkgBiEADAMLIAAgBigCFCIFIAUgBiAIQR12QQRxaigCECILRhsgACAFGyEAIAhBAXQhCCALIQYgCw0ACwsCQCAAIAlyDQBBACEJQQIgB3QiAEEAIABrciAKcSIARQ0DIABoQQJ0KAL0jcCCACEACyAARQ0BCwNAIAAoAgRBeHEgBGsiBSADSSEIAkAgACgCECIGDQAgACgCFCEGCyAFIAMgCBshAyAAIAkgCBshCSAGIQAgBg0ACwsgCUUNACADQQAoAsyLwIIAIARrTw0AIAkoAhghCwJAIAkoAgwiACAJRg0AIAkoAggiBiAANgIMIAAgBjYCCAwLCwJAAkAgCSgCFCIGRQ0AIAlBFGohCAwBCyAJKAIQIgZFDQQgCUEQaiEICwNAIAghBSAGIgBBFGohCCAAKAIUIgYNACAAQRBqIQggACgCECIGDQALIAVBADYCAAwKCwJAQQAoAsyLwIIAIgAgBEkNAEEAKALYi8CCACEDAkACQCAAIARrIgZBEEkNACADIARqIgggBkEBcjYCBCADIABqIAY2AgAgAyAEQQNyNgIEDAELIAMgAEEDcjYCBCADIABqIgAgACgCBEEBcjYCBEEAIQhBACEGC0EAIAY2AsyLwIIAQQAgCDYC2IvAggAgA0EIaiEADAwLAkBBACgC0IvAggAiBiAETQ0AIAIgBGoiACAGIARrIgNBAXI2AgRBACAANgLci8CCAEEAIAM2AtCLwIIAIAIgBEEDcjYCBCACQQhqIQAMDAsCQAJAQQAoApyPwIIARQ0AQQAoAqSPwIIAIQMMAQtBAEJ/NwKoj8CCAEEAQoCAhICAgMAANwKgj8CCAEEAIAFBDGpBcHFB2KrVqgVzNgKcj8CCAEEAQQA2ArCPwIIAQQBBADYCgI/AggBBgIAEIQMLQQAhAAJAIAMgBEHHAGoiC2oiCEEAIANrIgVxIgkgBEsNAEEAQTA2AsCLwIIADAwLAkBBACgC/I7AggAiAEUNAAJAQQAoAvSOwIIAIgMgCWoiByADTQ0AIAcgAE0NAQtBACEAQQBBMDYCwIvAggAMDAtBAC0AgI/AggBBBHENBQJAAkACQCACRQ0AQYSPwIIAIQADQAJAIAIgACgCACIDSQ0AIAIgAyAAKAIEakkNAwsgACgCCCIADQALC0EAENqAgIAAIghBf0YNBiAJIQUCQEEAKAKgj8CCACIAQX9qIgMgCHFFDQAgCSAIayADIAhqQQAgAGtxaiEFCyAFIARNDQYgBUH+////B0sNBgJAQQAoAvyOwIIAIgBFDQBBACgC9I7AggAiAyAFaiIGIANNDQcgBiAASw0HCyAFENqAgIAAIgAgCEcNAQwICyAIIAZrIAVxIgVB/v///wdLDQUgBRDagICAACIIIAAoAgAgACgCBGpGDQQgCCEACwJAIAUgBEHIAGpPDQAgAEF/Rg0AAkAgCyAFa0EAKAKkj8CCACIDakEAIANrcSIDQf7///8HTQ0AIAAhCAwICwJAIAMQ2oCAgABBf0YNACADIAVqIQUgACEIDAgLQQAgBWsQ2oCAgAAaDAULIAAhCCAAQX9HDQYMBAsAC0EAIQAMCAtBACEADAYLIAhBf0cNAgtBAEEAKAKAj8CCAEEEcjYCgI/AggALIAlB/v///wdLDQEgCRDagICAACEIQQAQ2oCAgAAhACAIQX9GDQEgAEF/Rg0BIAggAE8NASAAIAhrIgUgBEE4ak0NAQtBAEEAKAL0jsCCACAFaiIANgL0jsCCAAJAIABBACgC+I7AggBNDQBBACAANgL4jsCCAAsCQAJAAkACQEEAKALci8CCACIDRQ0AQYSPwIIAIQADQCAIIAAoAgAiBiAAKAIEIglqRg0CIAAoAggiAA0ADAMLCwJAAkBBACgC1IvAggAiAEUNACAIIABPDQELQQAgCDYC1IvAggALQQAgBTYCiI/AggBBACAINgKEj8CCAEEAQeyLwIIANgL4i8CCAEEAQX82AuSLwIIAQQBB9IvAggA2AoCMwIIAQQBB7IvAggA2AvSLwIIAQQBB/IvAggA2AoiMwIIAQQBB9IvAggA2AvyLwIIAQQBBhIzAggA2ApCMwIIAQQBB/IvAggA2AoSMwIIAQQBBjIzAggA2ApiMwIIAQQBBhIzAggA2AoyMwIIAQQBBlIzAggA2AqCMwIIAQQBBjIzAggA2ApSMwIIAQQBBnIzAggA2AqiMwIIAQQBBlIzAggA2ApyMwIIAQQBBACgCnI/AggA2AuiLwIIAQQBBADYCkI/AggBBAEGkjMCCADYCsIzAggBBAEGcjMCCADYCpIzAggBBAEGkjMCCADYCrIzAggBBAEGsjMCCADYCuIzAggBBAEGsjMCCADYCtIzAggBBAEG0jMCCADYCwIzAggBBAEG0jMCCADYCvIzAggBBAEG8jMCCADYCyIzAggBBAEG8jMCCADYCxIzAggBBAEHEjMCCADYC0IzAggBBAEHEjMCCADYCzIzAggBBAEHMjMCCADYC2IzAggBBAEHMjMCCADYC1IzAggBBAEHUjMCCADYC4IzAggBBAEHUjMCCADYC3IzAggBBAEHcjMCCADYC6IzAggBBAEHcjMCCADYC5IzAggBBAEHkjMCCADYC8IzAggBBAEHsjMCCADYC+IzAggBBAEHkjMCCADYC7IzAggBBAEH0jMCCADYCgI3AggBBAEHsjMCCADYC9IzAggBBAEH8jMCCADYCiI3AggBBAEH0jMCCADYC/IzAggBBAEGEjcCCADYCkI3AggBBAEH8jMCCADYChI3AggBBAEGMjcCCADYCmI3AggBBAEGEjcCCADYCjI3AggBBAEGUjcCCADYCoI3AggBBAEGMjcCCADYClI3AggBBAEGcjcCCADYCqI3AggBBAEGUjcCCADYCnI3AggBBAEGkjcCCADYCsI3AggBBAEGcjcCCADYCpI3AggBBAEGsjcCCADYCuI3AggBBAEGkjcCCADYCrI3AggBBAEG0jcCCADYCwI3AggBBAEGsjcCCADYCtI3AggBBAEG8jcCCADYCyI3AggBBAEG0jcCCADYCvI3AggBBAEHEjcCCADYC0I3AggBBAEG8jcCCADYCxI3AggBBAEHMjcCCADYC2I3AggBBAEHEjcCCADYCzI3AggBBAEHUjcCCADYC4I3AggBBAEHMjcCCADYC1I3AggBBAEHcjcCCADYC6I3AggBBAEHUjcCCADYC3I3AggBBAEHkjcCCADYC8I3AggBBAEHcjcCCADYC5I3AggBBAEHkjcCCADYC7I3AggBBACAIQXggCGtBD3EiAGoiAzYC3IvAggBBACAFQUhqIgYgAGsiADYC0IvAggAgAyAAQQFyNgIEIAggBmpBODYCBEEAQQAoAqyPwIIANgLgi8CCAAwCCyADIAhPDQAgAyAGSQ0AIAAoAgxBCHENACADQXggA2tBD3EiBmoiCEEAKALQi8CCACAFaiILIAZrIgZBAXI2AgQgACAJIAVqNgIEQQBBACgCrI/AggA2AuCLwIIAQQAgBjYC0IvAggBBACAINgLci8CCACADIAtqQTg2AgQMAQsCQCAIQQAoAtSLwIIATw0AQQAgCDYC1IvAggALIAggBWohBkGEj8CCACEAAkACQANAIAAoAgAiCSAGRg0BIAAoAggiAA0ADAILCyAALQAMQQhxRQ0DC0GEj8CCACEAAkADQAJAIAMgACgCACIGSQ0AIAMgBiAAKAIEaiIGSQ0CCyAAKAIIIQAMAAsLIAhBeCAIa0EPcSIAaiILIAVBSGoiCSAAayIAQQFyNgIEIAggCWpBODYCBCADIAZBNyAGa0EPcWpBQWoiCSAJIANBEGpJGyIJQSM2AgRBAEEAKAKsj8CCADYC4IvAggBBACAANgLQi8CCAEEAIAs2AtyLwIIAIAlBEGpBACkCjI/AggA3AgAgCUEAKQKEj8CCADcCCEEAIAlBCGo2AoyPwIIAQQAgBTYCiI/AggBBACAINgKEj8CCAEEAQQA2ApCPwIIAIAlBJGohAANAIABBBzYCACAAQQRqIgAgBkkNAAsgCSADRg0AIAkgCSgCBEF+cTYCBCAJIAkgA2siCDYCACADIAhBAXI2AgQCQAJAIAhB/wFLDQAgCEF4cUHsi8CCAGohAAJAAkBBACgCxIvAggAiBkEBIAhBA3Z0IghxDQBBACAGIAhyNgLEi8CCACAAIQYMAQsgACgCCCEGCyAGIAM2AgwgACADNgIIQQwhCEEIIQkMAQtBHyEAAkAgCEH///8HSw0AIAhBJiAIQQh2ZyIAa3ZBAXEgAEEBdGtBPmohAAsgAyAANgIcIANCADcCECAAQQJ0QfSNwIIAaiEGAkACQAJAQQAoAsiLwIIAIglBASAAdCIFcQ0AIAYgAzYCAEEAIAkgBXI2AsiLwIIAIAMgBjYCGAwBCyAIQQBBGSAAQQF2ayAAQR9GG3QhACAGKAIAIQkDQCAJIgYoAgRBeHEgCEYNAiAAQR12IQkgAEEBdCEAIAYgCUEEcWoiBSgCECIJDQALIAVBEGogAzYCACADIAY2AhgLQQghCEEMIQkgAyEGIAMhAAwBCyAGKAIIIQAgBiADNgIIIAAgAzYCDCADIAA2AghBACEAQRghCEEMIQkLIAMgCWogBjYCACADIAhqIAA2AgALQQAoAtCLwIIAIgAgBE0NAEEAKALci8CCACIDIARqIgYgACAEayIAQQFyNgIEQQAgADYC0IvAggBBACAGNgLci8CCACADIARBA3I2AgQgA0EIaiEADAQLQQAhAEEAQTA2AsCLwIIADAMLIAAgCDYCACAAIAAoAgQgBWo2AgQgCCAJIAQQ3YCAgAAhAAwCCwJAIAtFDQACQAJAIAkgCSgCHCIIQQJ0IgYoAvSNwIIARw0AIAZB9I3AggBqIAA2AgAgAA0BQQAgCkF+IAh3cSIKNgLIi8CCAAwCCwJAAkAgCygCECAJRw0AIAsgADYCEAwBCyALIAA2AhQLIABFDQELIAAgCzYCGAJAIAkoAhAiBkUNACAAIAY2AhAgBiAANgIYCyAJKAIUIgZFDQAgACAGNgIUIAYgADYCGAsCQAJAIANBD0sNACAJIAMgBHIiAEEDcjYCBCAJIABqIgAgACgCBEEBcjYCBAwBCyAJIARqIgggA0EBcjYCBCAJIARBA3I2AgQgCCADaiADNgIAAkAgA0H/AUsNACADQXhxQeyLwIIAaiEAAkACQEEAKALEi8CCACIEQQEgA0EDdnQiA3ENAEEAIAQgA3I2AsSLwIIAIAAhAwwBCyAAKAIIIQMLIAMgCDYCDCAAIAg2AgggCCAANgIMIAggAzYCCAwBC0EfIQACQCADQf///wdLDQAgA0EmIANBCHZnIgBrdkEBcSAAQQF0a0E+aiEACyAIIAA2AhwgCEIANwIQIABBAnRB9I3AggBqIQQCQCAKQQEgAHQiBnENACAEIAg2AgBBACAKIAZyNgLIi8CCACAIIAQ2AhggCCAINgIIIAggCDYCDAwBCyADQQBBGSAAQQF2ayAAQR9GG3QhACAEKAIAIQYCQANAIAYiBCgCBEF4cSADRg0BIABBHXYhBiAAQQF0IQAgBCAGQQRxaiIFKAIQIgYNAAsgBUEQaiAINgIAIAggBDYCGCAIIAg2AgwgCCAINgIIDAELIAQoAggiACAINgIMIAQgCDYCCCAIQQA2AhggCCAENgIMIAggADYCCAsgCUEIaiEADAELAkAgAkUNAAJAAkAgCCAIKAIcIglBAnQiBigC9I3AggBHDQAgBkH0jcCCAGogADYCACAADQFBACAKQX4gCXdxNgLIi8CCAAwCCwJAAkAgAigCECAIRw0AIAIgADYCEAwBCyACIAA2AhQLIABFDQELIAAgAjYCGAJAIAgoAhAiBkUNACAAIAY2AhAgBiAANgIYCyAIKAIUIgZFDQAgACAGNgIUIAYgADYCGAsCQAJAIANBD0sNACAIIAMgBHIiAEEDcjYCBCAIIABqIgAgACgCBEEBcjYCBAwBCyAIIARqIgYgA0EBcjYCBCAIIARBA3I2AgQgBiADaiADNgIAAkAgB0UNACAHQXhxQeyLwIIAaiEEQQAoAtiLwIIAIQACQAJAQQEgB0EDdnQiCSAFcQ0AQQAgCSAFcjYCxIvAggAgBCEJDAELIAQoAgghCQsgCSAANgIMIAQgADYCCCAAIAQ2AgwgACAJNgIIC0EAIAY2AtiLwIIAQQAgAzYCzIvAggALIAhBCGohAAsgAUEQaiSAgICAACAAC6sIAQd/IABBeCAAa0EPcWoiAyACQQNyNgIEIAFBeCABa0EPcWoiBCADIAJqIgVrIQACQAJAIARBACgC3IvAggBHDQBBACAFNgLci8CCAEEAQQAoAtCLwIIAIABqIgI2AtCLwIIAIAUgAkEBcjYCBAwBCwJAIARBACgC2IvAggBHDQBBACAFNgLYi8CCAEEAQQAoAsyLwIIAIABqIgI2AsyLwIIAIAUgAkEBcjYCBCAFIAJqIAI2AgAMAQsCQCAEKAIEIgFBA3FBAUcNACABQXhxIQYgBCgCDCECAkACQCABQf8BSw0AAkAgAiAEKAIIIgdHDQBBAEEAKALEi8CCAEF+IAFBA3Z3cTYCxIvAggAMAgsgAiAHNgIIIAcgAjYCDAwBCyAEKAIYIQgCQAJAIAIgBEYNACAEKAIIIgEgAjYCDCACIAE2AggMAQsCQAJAAkAgBCgCFCIBRQ0AIARBFGohBwwBCyAEKAIQIgFFDQEgBEEQaiEHCwNAIAchCSABIgJBFGohByACKAIUIgENACACQRBqIQcgAigCECIBDQALIAlBADYCAAwBC0EAIQILIAhFDQACQAJAIAQgBCgCHCIHQQJ0IgEoAvSNwIIARw0AIAFB9I3AggBqIAI2AgAgAg0BQQBBACgCyIvAggBBfiAHd3E2AsiLwIIADAILAkACQCAIKAIQIARHDQAgCCACNgIQDAELIAggAjYCFAsgAkUNAQsgAiAINgIYAkAgBCgCECIBRQ0AIAIgATYCECABIAI2AhgLIAQoAhQiAUUNACACIAE2AhQgASACNgIYCyAGIABqIQAgBCAGaiIEKAIEIQELIAQgAUF+cTYCBCAFIABqIAA2AgAgBSAAQQFyNgIEAkAgAEH/AUsNACAAQXhxQeyLwIIAaiECAkACQEEAKALEi8CCACIBQQEgAEEDdnQiAHENAEEAIAEgAHI2AsSLwIIAIAIhAAwBCyACKAIIIQALIAAgBTYCDCACIAU2AgggBSACNgIMIAUgADYCCAwBC0EfIQICQCAAQf///wdLDQAgAEEmIABBCHZnIgJrdkEBcSACQQF0a0E+aiECCyAFIAI2AhwgBUIANwIQIAJBAnRB9I3AggBqIQECQEEAKALIi8CCACIHQQEgAnQiBHENACABIAU2AgBBACAHIARyNgLIi8CCACAFIAE2AhggBSAFNgIIIAUgBTYCDAwBCyAAQQBBGSACQQF2ayACQR9GG3QhAiABKAIAIQcCQANAIAciASgCBEF4cSAARg0BIAJBHXYhByACQQF0IQIgASAHQQRxaiIEKAIQIgcNAAsgBEEQaiAFNgIAIAUgATYCGCAFIAU2AgwgBSAFNgIIDAELIAEoAggiAiAFNgIMIAEgBTYCCCAFQQA2AhggBSABNgIMIAUgAjYCCAsgA0EIagsKACAAEN+AgIAAC4kNAQh/AkAgAEUNACAAQXhqIgEgAEF8aigCACICQXhxIgBqIQMCQCACQQFxDQAgAkECcUUNASABIAEoAgAiBGsiAUEAKALUi8CCAEkNASAEIABqIQACQAJAAkACQCABQQAoAtiLwIIARg0AIAEoAgwhAgJAIARB/wFLDQAgAiABKAIIIgVHDQJBAEEAKALEi8CCAEF+IARBA3Z3cTYCxIvAggAMBQsgASgCGCEGAkAgAiABRg0AIAEoAggiBCACNgIMIAIgBDYCCAwECwJAAkAgASgCFCIERQ0AIAFBFGohBQwBCyABKAIQIgRFDQMgAUEQaiEFCwNAIAUhByAEIgJBFGohBSACKAIUIgQNACACQRBqIQUgAigCECIEDQALIAdBADYCAAwDCyADKAIEIgJBA3FBA0cNAyADIAJBfnE2AgRBACAANgLMi8CCACADIAA2AgAgASAAQQFyNgIEDwsgAiAFNgIIIAUgAjYCDAwCC0EAIQILIAZFDQACQAJAIAEgASgCHCIFQQJ0IgQoAvSNwIIARw0AIARB9I3AggBqIAI2AgAgAg0BQQBBACgCyIvAggBBfiAFd3E2AsiLwIIADAILAkACQCAGKAIQIAFHDQAgBiACNgIQDAELIAYgAjYCFAsgAkUNAQsgAiAGNgIYAkAgASgCECIERQ0AIAIgBDYCECAEIAI2AhgLIAEoAhQiBEUNACACIAQ2AhQgBCACNgIYCyABIANPDQAgAygCBCIEQQFxRQ0AAkACQAJAAkACQCAEQQJxDQACQCADQQAoAtyLwIIARw0AQQAgATYC3IvAggBBAEEAKALQi8CCACAAaiIANgLQi8CCACABIABBAXI2AgQgAUEAKALYi8CCAEcNBkEAQQA2AsyLwIIAQQBBADYC2IvAggAPCwJAIANBACgC2IvAggAiBkcNAEEAIAE2AtiLwIIAQQBBACgCzIvAggAgAGoiADYCzIvAggAgASAAQQFyNgIEIAEgAGogADYCAA8LIARBeHEgAGohACADKAIMIQICQCAEQf8BSw0AAkAgAiADKAIIIgVHDQBBAEEAKALEi8CCAEF+IARBA3Z3cTYCxIvAggAMBQsgAiAFNgIIIAUgAjYCDAwECyADKAIYIQgCQCACIANGDQAgAygCCCIEIAI2AgwgAiAENgIIDAMLAkACQCADKAIUIgRFDQAgA0EUaiEFDAELIAMoAhAiBEUNAiADQRBqIQULA0AgBSEHIAQiAkEUaiEFIAIoAhQiBA0AIAJBEGohBSACKAIQIgQNAAsgB0EANgIADAILIAMgBEF+cTYCBCABIABqIAA2AgAgASAAQQFyNgIEDAMLQQAhAgsgCEUNAAJAAkAgAyADKAIcIgVBAnQiBCgC9I3AggBHDQAgBEH0jcCCAGogAjYCACACDQFBAEEAKALIi8CCAEF+IAV3cTYCyIvAggAMAgsCQAJAIAgoAhAgA0cNACAIIAI2AhAMAQsgCCACNgIUCyACRQ0BCyACIAg2AhgCQCADKAIQIgRFDQAgAiAENgIQIAQgAjYCGAsgAygCFCIERQ0AIAIgBDYCFCAEIAI2AhgLIAEgAGogADYCACABIABBAXI2AgQgASAGRw0AQQAgADYCzIvAggAPCwJAIABB/wFLDQAgAEF4cUHsi8CCAGohAgJAAkBBACgCxIvAggAiBEEBIABBA3Z0IgBxDQBBACAEIAByNgLEi8CCACACIQAMAQsgAigCCCEACyAAIAE2AgwgAiABNgIIIAEgAjYCDCABIAA2AggPC0EfIQICQCAAQf///wdLDQAgAEEmIABBCHZnIgJrdkEBcSACQQF0a0E+aiECCyABIAI2AhwgAUIANwIQIAJBAnRB9I3AggBqIQUCQAJAAkACQEEAKALIi8CCACIEQQEgAnQiA3ENACAFIAE2AgBBACAEIANyNgLIi8CCAEEIIQBBGCECDAELIABBAEEZIAJBAXZrIAJBH0YbdCECIAUoAgAhBQNAIAUiBCgCBEF4cSAARg0CIAJBHXYhBSACQQF0IQIgBCAFQQRxaiIDKAIQIgUNAAsgA0EQaiABNgIAQQghAEEYIQIgBCEFCyABIQQgASEDDAELIAQoAggiBSABNgIMIAQgATYCCEEAIQNBGCEAQQghAgsgASACaiAFNgIAIAEgBDYCDCABIABqIAM2AgBBAEEAKALki8CCAEF/aiIBQX8gARs2AuSLwIIACwvXAQIBfwR+I4CAgIAAQeAAayEFIAUkgICAgAAgBSABNwNQIAUgAjcDWCAFIAQ3A0ggBSADNwNAIAUpA1AhBiAFIAUpA1g3AzggBSAGNwMwIAUpA0AhByAFIAUpA0g3AyggBSAHNwMgIAUgBSkDMCAFKQMgEOGAgIAAIAUpAwAhCCAFIAUpAwg3AxggBSAINwMQIAUgBSkDOCAFKQMgfiAFKQMwIAUpAyh+fCAFKQMYfDcDGCAFKQMQIQkgACAFKQMYNwMIIAAgCTcDACAFQeAAaiSAgICAAA8LjQICAX8DfiOAgICAAEHAAGshAyADIAE3AzggAyACNwMwIANBIDYCHCADQv////8PNwMQIAMgAzUCOCADNQIwfjcDICADIAM1AiQ3AwggAyADNQIgNwMgIAMgAzUCPCADNQIwfiADKQMIfDcDCCADKQMIIQRCICEFIAMgBCAFhiADKQMgfDcDICADIAM1Agw3AyggAyADNQIkNwMIIAMgAzUCIDcDICADIAM1AjQgAzUCOH4gAykDCHw3AwggAyADKQMIIAWGIAMpAyB8NwMgIAMgAzUCDCADKQMofDcDKCADIAM1AjwgAzUCNH4gAykDKHw3AyggAykDICEGIAAgAykDKDcDCCAAIAY3AwAPCwIACw4AEOKAgIAAEOKAgIAACwgAIAAQDRBjCwgAIAAQWxBjCwgAIAAQXhBjCw4AIAAgASACIAMQDhBjCxAAIAAgASACIAMgBBAQEGMLDgAgACABIAIgAxATEGMLDAAgACABIAIQFRBjCw4AIAAgASACIAMQFxBjCwwAIAAgASACEBgQYwsMACAAIAEgAhAaEGMLDAAgACABIAIQGxBjCw4AIAAgASACIAMQHBBjCxIAIAAgASACIAMgBCAFECUQYwsKACAAIAEQKhBjCwwAIAAgASACECsQYwsKACAAIAEQLRBjCwoAIAAgARAuEGMLDAAgACABIAIQMBBjCwwAIAAgASACEDEQYwsMACAAIAEgAhAzEGMLDAAgACABIAIQNBBjCwoAIAAgARA1EGMLDgAgACABIAIgAxA2EGMLEgAgACABIAIgAyAEIAUQORBjCw4AIAAgASACIAMQPhBjCw4AIAAgASACIAMQPxBjCxIAIAAgASACIAMgBCAFEEAQYwsOACAAIAEgAiADEEEQYwsMACAAIAEgAhBCEGMLDAAgACABIAIQRBBjCw4AIAAgASACIAMQRRBjCw4AIAAgASACIAMQRhBjCwwAIAAgASACEEcQYwsMACAAIAEgAhBIEGMLDAAgACABIAIQShBjCxIAIAAgASACIAMgBCAFEEwQYwsOACAAIAEgAiADEE8QYwsOACAAIAEgAiADEFIQYwsSACAAIAEgAiADIAQgBRBUEGMLC8oLAQBBgIDAAgvACwQAAAAAAAAAT3V0IG9mIG1lbW9yeQByZXQASW52YWxpZCBmbGFncwBzZWxmIHRlc3QgZmFpbGVkAEZvciB0aGlzIHNhbXBsZSwgdGhpcyA2My1ieXRlIHN0cmluZyB3aWxsIGJlIHVzZWQgYXMgaW5wdXQgZGF0YQAoZmxhZ3MgJiBTRUNQMjU2SzFfRkxBR1NfVFlQRV9NQVNLKSA9PSBTRUNQMjU2SzFfRkxBR1NfVFlQRV9DT01QUkVTU0lPTgBzZWNrZXkgIT0gTlVMTAB4b25seV9wdWJrZXkgIT0gTlVMTABvdXRwdXRfcHVia2V5ICE9IE5VTEwAaW50ZXJuYWxfcHVia2V5ICE9IE5VTEwAb3V0cHV0ICE9IE5VTEwAaW5wdXQgIT0gTlVMTABzaWdvdXQgIT0gTlVMTABwb2ludCAhPSBOVUxMAHB1Ym5vbmNlcyAhPSBOVUxMAGtleXBhaXIgIT0gTlVMTABzY2FsYXIgIT0gTlVMTABzaWdpbiAhPSBOVUxMAG91dHB1dGxlbiAhPSBOVUxMAHNpZyAhPSBOVUxMAHNpZ25hdHVyZSAhPSBOVUxMAHB1Ym5vbmNlICE9IE5VTEwAcmVjaWQgIT0gTlVMTABvdXRwdXQ2NCAhPSBOVUxMAGlucHV0NjQgIT0gTlVMTABzaWc2NCAhPSBOVUxMAHNlY2tleTMyICE9IE5VTEwAb3V0cHV0MzIgIT0gTlVMTABpbnB1dDMyICE9IE5VTEwAdHdlYWszMiAhPSBOVUxMAG1zZ2hhc2gzMiAhPSBOVUxMAG1zZzMyICE9IE5VTEwAcmVjaWQgPj0gMCAmJiByZWNpZCA8PSAzAG4gPj0gMQBzZWNwMjU2azFfZWNtdWx0X2NvbnRleHRfaXNfYnVpbHQoJmN0eC0+ZWNtdWx0X2N0eCkAc2VjcDI1NmsxX2VjbXVsdF9nZW5fY29udGV4dF9pc19idWlsdCgmY3R4LT5lY211bHRfZ2VuX2N0eCkAIXNlY3AyNTZrMV9mZV9pc196ZXJvKCZnZS0+eCkAKm91dHB1dGxlbiA+PSAoKGZsYWdzICYgU0VDUDI1NksxX0ZMQUdTX0JJVF9DT01QUkVTU0lPTikgPyAzM3UgOiA2NXUpAAUAAAAAAAAAAQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAEJJUDAzNDAvbm9uY2UAAAAAAAAAAAAAAAAAAAAAAAAAU2Nobm9ycitTSEEyNTYgIAAAAAAAAAAAAAAAAAAAAACAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAVGhlIHNjYWxhciBmb3IgdGhpcyB4IGlzIHVua25vd24AAAAAAAAAAJgX+BZbgQIAn5WN4tyyDQD8mwIHC4cOAFwpBlrFugsA3Pl+Zr55AAC41BD7j9AHAMSZQVVoigQAtBf9qAgRDgDAv0/aVUYMAKMmd9o6SAAAAAAAAAAAAAAv/P///v///wAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAABAAAAAAAAz8raLeL2xydBQTbQjF7SP+6AIr2ac7sq6/////////8AAAAAAAAAAAABAAAAAAAAwU53qpkA8jQAAQAAAAAAAMPkvwqpf1RvKIgOAdZ+Q+QAAAAAAAAAAAAAAAAAAAAALFaxPajNZddtNHQHxQooiv7///////////////////8xsNtFmiCT6H/K6HEUiqo9FeuEkuSQbOjNa9SnIdKGMHF/xIqutHEVxgb1nawIEiLE5L8KqX9UbyiIDgHWfkPkcr0jG3yWAt94ZoEg6iIuElpkEogCHCal4DBcwEytY1PuAZVxKGwJABNcmVgvUQcASfCc6TQ0DADqeUTmBnEAAHxlK2rpegAAALwjBG5hbWUADw5zZWNwMjU2azEud2FzbQGDI4sBABJfX3dhc21faW5pdF9tZW1vcnkBJXNlY3AyNTZrMV9jb250ZXh0X3ByZWFsbG9jYXRlZF9jcmVhdGUCFnNlY3AyNTZrMV9zaGEyNTZfd3JpdGUDFHNlY3AyNTZrMV9mZV9zZXRfYjMyBBdzZWNwMjU2azFfZ2Vfc2V0X3hvX3ZhcgUYc2VjcDI1NmsxX2dlal9hZGRfZ2VfdmFyBhVzZWNwMjU2azFfZ2VqX2FkZF92YXIHFHNlY3AyNTZrMV9nZWpfZG91YmxlCBBzZWNwMjU2azFfZmVfbXVsCRRzZWNwMjU2azFfZmVfaW52X3ZhcgoQc2VjcDI1NmsxX2ZlX3Nxcgsac2VjcDI1NmsxX2VjbXVsdF9nZW5fYmxpbmQMMHNlY3AyNTZrMV9lY211bHRfb2RkX211bHRpcGxlc190YWJsZV9zdG9yYWdlX3Zhcg0Yc2VjcDI1NmsxX2NvbnRleHRfY3JlYXRlDhlzZWNwMjU2azFfZWNfcHVia2V5X3BhcnNlDxdzZWNwMjU2azFfZ2VfdG9fc3RvcmFnZRAdc2VjcDI1NmsxX2VjX3B1YmtleV9zZXJpYWxpemURIHNlY3AyNTZrMV9lY2tleV9wdWJrZXlfc2VyaWFsaXplEhRzZWNwMjU2azFfZmVfZ2V0X2IzMhMjc2VjcDI1NmsxX2VjZHNhX3NpZ25hdHVyZV9wYXJzZV9kZXIUG3NlY3AyNTZrMV9kZXJfcGFyc2VfaW50ZWdlchUnc2VjcDI1NmsxX2VjZHNhX3NpZ25hdHVyZV9wYXJzZV9jb21wYWN0FhhzZWNwMjU2azFfc2NhbGFyX3NldF9iMzIXJ3NlY3AyNTZrMV9lY2RzYV9zaWduYXR1cmVfc2VyaWFsaXplX2Rlchgrc2VjcDI1NmsxX2VjZHNhX3NpZ25hdHVyZV9zZXJpYWxpemVfY29tcGFjdBkYc2VjcDI1NmsxX3NjYWxhcl9nZXRfYjMyGiNzZWNwMjU2azFfZWNkc2Ffc2lnbmF0dXJlX25vcm1hbGl6ZRsic2VjcDI1NmsxX2VjZHNhX3NpZ25hdHVyZV9tYWxsZWF0ZRwWc2VjcDI1NmsxX2VjZHNhX3ZlcmlmeR0Wc2VjcDI1NmsxX21vZGludjY0X3Zhch4Uc2VjcDI1NmsxX3NjYWxhcl9tdWwfEHNlY3AyNTZrMV9lY211bHQgFnNlY3AyNTZrMV9nZWpfZXFfeF92YXIhFHNlY3AyNTZrMV9mZV9jbXBfdmFyIhZub25jZV9mdW5jdGlvbl9yZmM2OTc5IyhzZWNwMjU2azFfcmZjNjk3OV9obWFjX3NoYTI1Nl9pbml0aWFsaXplJCZzZWNwMjU2azFfcmZjNjk3OV9obWFjX3NoYTI1Nl9nZW5lcmF0ZSUUc2VjcDI1NmsxX2VjZHNhX3NpZ24mGnNlY3AyNTZrMV9lY2RzYV9zaWduX2lubmVyJxRzZWNwMjU2azFfZWNtdWx0X2dlbigUc2VjcDI1NmsxX2dlX3NldF9nZWopEnNlY3AyNTZrMV9tb2RpbnY2NCoac2VjcDI1NmsxX2VjX3NlY2tleV92ZXJpZnkrGnNlY3AyNTZrMV9lY19wdWJrZXlfY3JlYXRlLBpzZWNwMjU2azFfZWNfc2Vja2V5X25lZ2F0ZS0bc2VjcDI1NmsxX2VjX3ByaXZrZXlfbmVnYXRlLhpzZWNwMjU2azFfZWNfcHVia2V5X25lZ2F0ZS8dc2VjcDI1NmsxX2VjX3NlY2tleV90d2Vha19hZGQwHnNlY3AyNTZrMV9lY19wcml2a2V5X3R3ZWFrX2FkZDEdc2VjcDI1NmsxX2VjX3B1YmtleV90d2Vha19hZGQyHXNlY3AyNTZrMV9lY19zZWNrZXlfdHdlYWtfbXVsMx5zZWNwMjU2azFfZWNfcHJpdmtleV90d2Vha19tdWw0HXNlY3AyNTZrMV9lY19wdWJrZXlfdHdlYWtfbXVsNRtzZWNwMjU2azFfY29udGV4dF9yYW5kb21pemU2G3NlY3AyNTZrMV9lY19wdWJrZXlfY29tYmluZTcUc2VjcDI1NmsxX2dlal9hZGRfZ2U4GWVjZGhfaGFzaF9mdW5jdGlvbl9zaGEyNTY5DnNlY3AyNTZrMV9lY2RoOh1zZWNwMjU2azFfc2NhbGFyX3NwbGl0X2xhbWJkYTsUc2VjcDI1NmsxX3duYWZfY29uc3Q8JHNlY3AyNTZrMV9lY211bHRfb2RkX211bHRpcGxlc190YWJsZT0ic2VjcDI1NmsxX2dlX2dsb2JhbHpfc2V0X3RhYmxlX2dlaj4zc2VjcDI1NmsxX2VjZHNhX3JlY292ZXJhYmxlX3NpZ25hdHVyZV9wYXJzZV9jb21wYWN0PzdzZWNwMjU2azFfZWNkc2FfcmVjb3ZlcmFibGVfc2lnbmF0dXJlX3NlcmlhbGl6ZV9jb21wYWN0QCBzZWNwMjU2azFfZWNkc2Ffc2lnbl9yZWNvdmVyYWJsZUEXc2VjcDI1NmsxX2VjZHNhX3JlY292ZXJCHHNlY3AyNTZrMV94b25seV9wdWJrZXlfcGFyc2VDEXNlY3AyNTZrMV9mZV9zcXJ0RCBzZWNwMjU2azFfeG9ubHlfcHVia2V5X3NlcmlhbGl6ZUUic2VjcDI1NmsxX3hvbmx5X3B1YmtleV9mcm9tX3B1YmtleUYgc2VjcDI1NmsxX3hvbmx5X3B1YmtleV90d2Vha19hZGRHGHNlY3AyNTZrMV9rZXlwYWlyX2NyZWF0ZUgVc2VjcDI1NmsxX2tleXBhaXJfc2VjSRZzZWNwMjU2azFfa2V5cGFpcl9sb2FkSiFzZWNwMjU2azFfa2V5cGFpcl94b25seV90d2Vha19hZGRLFW5vbmNlX2Z1bmN0aW9uX2JpcDM0MEwZc2VjcDI1NmsxX3NjaG5vcnJzaWdfc2lnbk0ec2VjcDI1NmsxX3NjaG5vcnJzaWdfY2hhbGxlbmdlThhzZWNwMjU2azFfc2NhbGFyX211bF81MTJPG3NlY3AyNTZrMV9zY2hub3Jyc2lnX3ZlcmlmeVAVc2VjcDI1NmsxX2VjbXVsdF93bmFmURpzZWNwMjU2azFfZ2VqX2FkZF96aW52X3ZhclIYc2VjcDI1NmsxX3NjaG5vcnJfdmVyaWZ5UxtzZWNwMjU2azFfc2Nobm9ycl9jb21wdXRlX2VUFnNlY3AyNTZrMV9zY2hub3JyX3NpZ25VH3NlY3AyNTZrMV9tb2RpbnY2NF91cGRhdGVfZGVfNjJWHnNlY3AyNTZrMV9obWFjX3NoYTI1Nl9maW5hbGl6ZVclc2VjcDI1NmsxX2RlZmF1bHRfaWxsZWdhbF9jYWxsYmFja19mblgjc2VjcDI1NmsxX2RlZmF1bHRfZXJyb3JfY2FsbGJhY2tfZm5ZBWFib3J0WgRzYnJrWwZtYWxsb2NcCGRsbWFsbG9jXQ1wcmVwZW5kX2FsbG9jXgRmcmVlXwZkbGZyZWVgCF9fbXVsdGkzYQlfX211bGRkaTNiBWR1bW15YxFfX3dhc21fY2FsbF9kdG9yc2Qnc2VjcDI1NmsxX2NvbnRleHRfY3JlYXRlLmNvbW1hbmRfZXhwb3J0ZRVtYWxsb2MuY29tbWFuZF9leHBvcnRmE2ZyZWUuY29tbWFuZF9leHBvcnRnKHNlY3AyNTZrMV9lY19wdWJrZXlfcGFyc2UuY29tbWFuZF9leHBvcnRoLHNlY3AyNTZrMV9lY19wdWJrZXlfc2VyaWFsaXplLmNvbW1hbmRfZXhwb3J0aTJzZWNwMjU2azFfZWNkc2Ffc2lnbmF0dXJlX3BhcnNlX2Rlci5jb21tYW5kX2V4cG9ydGo2c2VjcDI1NmsxX2VjZHNhX3NpZ25hdHVyZV9wYXJzZV9jb21wYWN0LmNvbW1hbmRfZXhwb3J0azZzZWNwMjU2azFfZWNkc2Ffc2lnbmF0dXJlX3NlcmlhbGl6ZV9kZXIuY29tbWFuZF9leHBvcnRsOnNlY3AyNTZrMV9lY2RzYV9zaWduYXR1cmVfc2VyaWFsaXplX2NvbXBhY3QuY29tbWFuZF9leHBvcnRtMnNlY3AyNTZrMV9lY2RzYV9zaWduYXR1cmVfbm9ybWFsaXplLmNvbW1hbmRfZXhwb3J0bjFzZWNwMjU2azFfZWNkc2Ffc2lnbmF0dXJlX21hbGxlYXRlLmNvbW1hbmRfZXhwb3J0byVzZWNwMjU2azFfZWNkc2FfdmVyaWZ5LmNvbW1hbmRfZXhwb3J0cCNzZWNwMjU2azFfZWNkc2Ffc2lnbi5jb21tYW5kX2V4cG9ydHEpc2VjcDI1NmsxX2VjX3NlY2tleV92ZXJpZnkuY29tbWFuZF9leHBvcnRyKXNlY3AyNTZrMV9lY19wdWJrZXlfY3JlYXRlLmNvbW1hbmRfZXhwb3J0cypzZWNwMjU2azFfZWNfcHJpdmtleV9uZWdhdGUuY29tbWFuZF9leHBvcnR0KXNlY3AyNTZrMV9lY19wdWJrZXlfbmVnYXRlLmNvbW1hbmRfZXhwb3J0dS1zZWNwMjU2azFfZWNfcHJpdmtleV90d2Vha19hZGQuY29tbWFuZF9leHBvcnR2LHNlY3AyNTZrMV9lY19wdWJrZXlfdHdlYWtfYWRkLmNvbW1hbmRfZXhwb3J0dy1zZWNwMjU2azFfZWNfcHJpdmtleV90d2Vha19tdWwuY29tbWFuZF9leHBvcnR4LHNlY3AyNTZrMV9lY19wdWJrZXlfdHdlYWtfbXVsLmNvbW1hbmRfZXhwb3J0eSpzZWNwMjU2azFfY29udGV4dF9yYW5kb21pemUuY29tbWFuZF9leHBvcnR6KnNlY3AyNTZrMV9lY19wdWJrZXlfY29tYmluZS5jb21tYW5kX2V4cG9ydHsdc2VjcDI1NmsxX2VjZGguY29tbWFuZF9leHBvcnR8QnNlY3AyNTZrMV9lY2RzYV9yZWNvdmVyYWJsZV9zaWduYXR1cmVfcGFyc2VfY29tcGFjdC5jb21tYW5kX2V4cG9ydH1Gc2VjcDI1NmsxX2VjZHNhX3JlY292ZXJhYmxlX3NpZ25hdHVyZV9zZXJpYWxpemVfY29tcGFjdC5jb21tYW5kX2V4cG9ydH4vc2VjcDI1NmsxX2VjZHNhX3NpZ25fcmVjb3ZlcmFibGUuY29tbWFuZF9leHBvcnR/JnNlY3AyNTZrMV9lY2RzYV9yZWNvdmVyLmNvbW1hbmRfZXhwb3J0gAErc2VjcDI1NmsxX3hvbmx5X3B1YmtleV9wYXJzZS5jb21tYW5kX2V4cG9ydIEBL3NlY3AyNTZrMV94b25seV9wdWJrZXlfc2VyaWFsaXplLmNvbW1hbmRfZXhwb3J0ggExc2VjcDI1NmsxX3hvbmx5X3B1YmtleV9mcm9tX3B1YmtleS5jb21tYW5kX2V4cG9ydIMBL3NlY3AyNTZrMV94b25seV9wdWJrZXlfdHdlYWtfYWRkLmNvbW1hbmRfZXhwb3J0hAEnc2VjcDI1NmsxX2tleXBhaXJfY3JlYXRlLmNvbW1hbmRfZXhwb3J0hQEkc2VjcDI1NmsxX2tleXBhaXJfc2VjLmNvbW1hbmRfZXhwb3J0hgEwc2VjcDI1NmsxX2tleXBhaXJfeG9ubHlfdHdlYWtfYWRkLmNvbW1hbmRfZXhwb3J0hwEoc2VjcDI1NmsxX3NjaG5vcnJzaWdfc2lnbi5jb21tYW5kX2V4cG9ydIgBKnNlY3AyNTZrMV9zY2hub3Jyc2lnX3ZlcmlmeS5jb21tYW5kX2V4cG9ydIkBJ3NlY3AyNTZrMV9zY2hub3JyX3ZlcmlmeS5jb21tYW5kX2V4cG9ydIoBJXNlY3AyNTZrMV9zY2hub3JyX3NpZ24uY29tbWFuZF9leHBvcnQHEgEAD19fc3RhY2tfcG9pbnRlcgkKAQAHLnJvZGF0YQB6CXByb2R1Y2VycwEMcHJvY2Vzc2VkLWJ5AQVjbGFuZ1oyMi4xLjAgKGh0dHBzOi8vY29kZWJlcmcub3JnL1lvV0FTUC9sbHZtLXByb2plY3QgOTU2MGFlMGYyY2M0NDBlNGZjODkxZmRkYmMxMTlkYTZmNTZkYWE1OSkApAEPdGFyZ2V0X2ZlYXR1cmVzCSsLYnVsay1tZW1vcnkrD2J1bGstbWVtb3J5LW9wdCsWY2FsbC1pbmRpcmVjdC1vdmVybG9uZysOZXh0ZW5kZWQtY29uc3QrCm11bHRpdmFsdWUrD211dGFibGUtZ2xvYmFscysTbm9udHJhcHBpbmctZnB0b2ludCsPcmVmZXJlbmNlLXR5cGVzKwhzaWduLWV4dA==';
@@ -1,5 +1,11 @@
 import { decodeBase64String } from '../bin';
 import { secp256k1Base64Bytes } from './secp256k1.base64';
+import {
+  Secp256k1WasmSchnorr,
+  wrapSecp256k1WasmSchnorr
+} from './secp256k1WasmSchnorr';
+
+export { Secp256k1WasmSchnorr } from './secp256k1WasmSchnorr';
 
 // bitflags used in secp256k1's public API (translated from secp256k1.h)
 
@@ -73,7 +79,7 @@ export enum CompressionFlag {
  * **It's very unlikely that consumers will need to use this interface directly.
  * See [[Secp256k1]] for a more purely-functional API.**
  */
-export interface Secp256k1Wasm {
+export interface Secp256k1Wasm extends Secp256k1WasmSchnorr {
   /**
    * Create a Secp256k1 context object.
    *
@@ -111,6 +117,33 @@ export interface Secp256k1Wasm {
    */
   readonly contextRandomize: (contextPtr: number, seedPtr: number) => 1 | 0;
 
+  /**
+   * Compute an EC Diffie-Hellman secret in constant time.
+   *
+   * The shared secret is the sha256 hash of the compressed serialization of
+   * the shared point (`scalar * point`).
+   *
+   * Returns 1 if the secret was computed, 0 if the scalar was invalid (zero or
+   * overflowing).
+   *
+   * Note, this WebAssembly Secp256k1 implementation does not currently support
+   * the final two arguments from the C library, `hashfp` and `data`. The
+   * default hash function is always used.
+   *
+   * @param contextPtr pointer to a context object
+   * @param outputPtr pointer to a 32-byte space where the shared secret will be
+   * written
+   * @param publicKeyPtr pointer to the parsed public key (internal format)
+   * @param secretKeyPtr pointer to a 32-byte scalar with which to multiply the
+   * point
+   */
+  readonly ecdh: (
+    contextPtr: number,
+    outputPtr: number,
+    publicKeyPtr: number,
+    secretKeyPtr: number
+  ) => 1 | 0;
+
   /**
    * Frees a pointer allocated by the `malloc` method.
    * @param pointer the pointer to be freed
@@ -143,6 +176,15 @@ export interface Secp256k1Wasm {
    */
   readonly mallocUint8Array: (array: Uint8Array) => number;
 
+  /**
+   * Negate a _privateKey_ in place.
+   * Returns 1 if the private key was valid, 0 otherwise.
+   *
+   * @param contextPtr pointer to a context object
+   * @param secretKeyPtr pointer to a 32 byte private key
+   */
+  readonly privkeyNegate: (contextPtr: number, secretKeyPtr: number) => 1 | 0;
+
   /**
    * Tweak a _privateKey_ by adding _tweak_ to it.
    * Returns 1 if adding succeeded, 0 otherwise.
@@ -171,6 +213,26 @@ export interface Secp256k1Wasm {
     tweakNum256Ptr: number
   ) => 1 | 0;
 
+  /**
+   * Add a number of public keys together.
+   *
+   * Returns 1 if the sum of the public keys is valid, 0 if the sum is the
+   * point at infinity.
+   *
+   * @param contextPtr pointer to a context object
+   * @param outputPubkeyPtr pointer to a 64 byte space where the sum of the
+   * public keys will be written (internal format)
+   * @param inputPubkeysPtr pointer to an array of pointers to the public keys
+   * to add (each in internal format)
+   * @param n the number of public keys to add together (must be at least 1)
+   */
+  readonly pubkeyCombine: (
+    contextPtr: number,
+    outputPubkeyPtr: number,
+    inputPubkeysPtr: number,
+    n: number
+  ) => 1 | 0;
+
   /**
    * Compute the public key for a secret key.
    *
@@ -187,6 +249,17 @@ export interface Secp256k1Wasm {
     secretKeyPtr: number
   ) => 1 | 0;
 
+  /**
+   * Negate a _publicKey_ in place.
+   *
+   * Always returns 1.
+   *
+   * @param contextPtr pointer to a context object
+   * @param publicKeyPtr pointer to a 64 byte space representing a public key
+   * (internal format)
+   */
+  readonly pubkeyNegate: (contextPtr: number, publicKeyPtr: number) => 1;
+
   /**
    * Parse a variable-length public key into the pubkey object.
    *
@@ -601,18 +674,28 @@ const wrapSecp256k1Wasm = (
   heapU8: Uint8Array,
   heapU32: Uint32Array
 ): Secp256k1Wasm => ({
-  contextCreate: context => instance.exports._secp256k1_context_create(context),
+  ...wrapSecp256k1WasmSchnorr(instance),
+  contextCreate: context => instance.exports.secp256k1_context_create(context),
   contextRandomize: (contextPtr, seedPtr) =>
-    instance.exports._secp256k1_context_randomize(contextPtr, seedPtr),
+    instance.exports.secp256k1_context_randomize(contextPtr, seedPtr),
 
-  free: pointer => instance.exports._free(pointer),
+  ecdh: (contextPtr, outputPtr, publicKeyPtr, secretKeyPtr) =>
+    instance.exports.secp256k1_ecdh(
+      contextPtr,
+      outputPtr,
+      publicKeyPtr,
+      secretKeyPtr,
+      0,
+      0
+    ),
+  free: pointer => instance.exports.free(pointer),
   heapU32,
   heapU8,
   instance,
-  malloc: bytes => instance.exports._malloc(bytes),
+  malloc: bytes => instance.exports.malloc(bytes),
   mallocSizeT: num => {
     // tslint:disable-next-line:no-magic-numbers
-    const pointer = instance.exports._malloc(4);
+    const pointer = instance.exports.malloc(4);
     // tslint:disable-next-line:no-bitwise no-magic-numbers
     const pointerView32 = pointer >> 2;
     // tslint:disable-next-line:no-expression-statement
@@ -620,36 +703,47 @@ const wrapSecp256k1Wasm = (
     return pointer;
   },
   mallocUint8Array: array => {
-    const pointer = instance.exports._malloc(array.length);
+    const pointer = instance.exports.malloc(array.length);
     // tslint:disable-next-line:no-expression-statement
     heapU8.set(array, pointer);
     return pointer;
   },
+  privkeyNegate: (contextPtr, secretKeyPtr) =>
+    instance.exports.secp256k1_ec_privkey_negate(contextPtr, secretKeyPtr),
   privkeyTweakAdd: (contextPtr, secretKeyPtr, tweakNum256Ptr) =>
-    instance.exports._secp256k1_ec_privkey_tweak_add(
+    instance.exports.secp256k1_ec_privkey_tweak_add(
       contextPtr,
       secretKeyPtr,
       tweakNum256Ptr
     ),
   privkeyTweakMul: (contextPtr, secretKeyPtr, tweakNum256Ptr) =>
-    instance.exports._secp256k1_ec_privkey_tweak_mul(
+    instance.exports.secp256k1_ec_privkey_tweak_mul(
       contextPtr,
       secretKeyPtr,
       tweakNum256Ptr
     ),
+  pubkeyCombine: (contextPtr, outputPubkeyPtr, inputPubkeysPtr, n) =>
+    instance.exports.secp256k1_ec_pubkey_combine(
+      contextPtr,
+      outputPubkeyPtr,
+      inputPubkeysPtr,
+      n
+    ),
   pubkeyCreate: (contextPtr, publicKeyPtr, secretKeyPtr) =>
-    instance.exports._secp256k1_ec_pubkey_create(
+    instance.exports.secp256k1_ec_pubkey_create(
       contextPtr,
       publicKeyPtr,
       secretKeyPtr
     ),
+  pubkeyNegate: (contextPtr, publicKeyPtr) =>
+    instance.exports.secp256k1_ec_pubkey_negate(contextPtr, publicKeyPtr),
   pubkeyParse: (
     contextPtr,
     publicKeyOutPtr,
     publicKeyInPtr,
     publicKeyInLength
   ) =>
-    instance.exports._secp256k1_ec_pubkey_parse(
+    instance.exports.secp256k1_ec_pubkey_parse(
       contextPtr,
       publicKeyOutPtr,
       publicKeyInPtr,
@@ -662,7 +756,7 @@ const wrapSecp256k1Wasm = (
     publicKeyPtr,
     compression
   ) =>
-    instance.exports._secp256k1_ec_pubkey_serialize(
+    instance.exports.secp256k1_ec_pubkey_serialize(
       contextPtr,
       outputPtr,
       outputLengthPtr,
@@ -670,13 +764,13 @@ const wrapSecp256k1Wasm = (
       compression
     ),
   pubkeyTweakAdd: (contextPtr, publicKeyPtr, tweakNum256Ptr) =>
-    instance.exports._secp256k1_ec_pubkey_tweak_add(
+    instance.exports.secp256k1_ec_pubkey_tweak_add(
       contextPtr,
       publicKeyPtr,
       tweakNum256Ptr
     ),
   pubkeyTweakMul: (contextPtr, publicKeyPtr, tweakNum256Ptr) =>
-    instance.exports._secp256k1_ec_pubkey_tweak_mul(
+    instance.exports.secp256k1_ec_pubkey_tweak_mul(
       contextPtr,
       publicKeyPtr,
       tweakNum256Ptr
@@ -688,14 +782,14 @@ const wrapSecp256k1Wasm = (
     return heapU32[pointerView32];
   },
   recover: (contextPtr, outputPubkeyPointer, rSigPtr, msg32Ptr) =>
-    instance.exports._secp256k1_ecdsa_recover(
+    instance.exports.secp256k1_ecdsa_recover(
       contextPtr,
       outputPubkeyPointer,
       rSigPtr,
       msg32Ptr
     ),
   recoverableSignatureParse: (contextPtr, outputRSigPtr, inputSigPtr, rid) =>
-    instance.exports._secp256k1_ecdsa_recoverable_signature_parse_compact(
+    instance.exports.secp256k1_ecdsa_recoverable_signature_parse_compact(
       contextPtr,
       outputRSigPtr,
       inputSigPtr,
@@ -707,55 +801,55 @@ const wrapSecp256k1Wasm = (
     recIDOutPtr,
     rSigPtr
   ) =>
-    instance.exports._secp256k1_ecdsa_recoverable_signature_serialize_compact(
+    instance.exports.secp256k1_ecdsa_recoverable_signature_serialize_compact(
       contextPtr,
       sigOutPtr,
       recIDOutPtr,
       rSigPtr
     ),
   seckeyVerify: (contextPtr, secretKeyPtr) =>
-    instance.exports._secp256k1_ec_seckey_verify(contextPtr, secretKeyPtr),
+    instance.exports.secp256k1_ec_seckey_verify(contextPtr, secretKeyPtr),
   sign: (contextPtr, outputSigPtr, msg32Ptr, secretKeyPtr) =>
-    instance.exports._secp256k1_ecdsa_sign(
+    instance.exports.secp256k1_ecdsa_sign(
       contextPtr,
       outputSigPtr,
       msg32Ptr,
       secretKeyPtr
     ),
   signRecoverable: (contextPtr, outputRSigPtr, msg32Ptr, secretKeyPtr) =>
-    instance.exports._secp256k1_ecdsa_sign_recoverable(
+    instance.exports.secp256k1_ecdsa_sign_recoverable(
       contextPtr,
       outputRSigPtr,
       msg32Ptr,
       secretKeyPtr
     ),
   signatureMalleate: (contextPtr, outputSigPtr, inputSigPtr) =>
-    instance.exports._secp256k1_ecdsa_signature_malleate(
+    instance.exports.secp256k1_ecdsa_signature_malleate(
       contextPtr,
       outputSigPtr,
       inputSigPtr
     ),
   signatureNormalize: (contextPtr, outputSigPtr, inputSigPtr) =>
-    instance.exports._secp256k1_ecdsa_signature_normalize(
+    instance.exports.secp256k1_ecdsa_signature_normalize(
       contextPtr,
       outputSigPtr,
       inputSigPtr
     ),
   signatureParseCompact: (contextPtr, sigOutPtr, compactSigInPtr) =>
-    instance.exports._secp256k1_ecdsa_signature_parse_compact(
+    instance.exports.secp256k1_ecdsa_signature_parse_compact(
       contextPtr,
       sigOutPtr,
       compactSigInPtr
     ),
   signatureParseDER: (contextPtr, sigOutPtr, sigDERInPtr, sigDERInLength) =>
-    instance.exports._secp256k1_ecdsa_signature_parse_der(
+    instance.exports.secp256k1_ecdsa_signature_parse_der(
       contextPtr,
       sigOutPtr,
       sigDERInPtr,
       sigDERInLength
     ),
   signatureSerializeCompact: (contextPtr, outputCompactSigPtr, inputSigPtr) =>
-    instance.exports._secp256k1_ecdsa_signature_serialize_compact(
+    instance.exports.secp256k1_ecdsa_signature_serialize_compact(
       contextPtr,
       outputCompactSigPtr,
       inputSigPtr
@@ -766,14 +860,14 @@ const wrapSecp256k1Wasm = (
     outputDERSigLengthPtr,
     inputSigPtr
   ) =>
-    instance.exports._secp256k1_ecdsa_signature_serialize_der(
+    instance.exports.secp256k1_ecdsa_signature_serialize_der(
       contextPtr,
       outputDERSigPtr,
       outputDERSigLengthPtr,
       inputSigPtr
     ),
   verify: (contextPtr, sigPtr, msg32Ptr, pubkeyPtr) =>
-    instance.exports._secp256k1_ecdsa_verify(
+    instance.exports.secp256k1_ecdsa_verify(
       contextPtr,
       sigPtr,
       msg32Ptr,
@@ -801,39 +895,36 @@ const isLittleEndian = (buffer: ArrayBuffer): boolean => {
     : littleEndian;
 };
 
-/**
- * Method derived from Emscripten's preamble.js
- */
-const alignMemory = (factor: number, size: number) =>
-  Math.ceil(size / factor) * factor;
-
 /**
  * The most performant way to instantiate secp256k1 functionality. To avoid
  * using Node.js or DOM-specific APIs, you can use `instantiateSecp256k1`.
  *
- * Note, most of this method is translated and boiled-down from Emscripten's
- * preamble.js. Significant changes to the WASM build or breaking updates to
- * Emscripten will likely require modifications to this method.
+ * The binary is a standalone WebAssembly module (see
+ * `wasm/docker/secp256k1.Dockerfile`) which imports only its memory. The
+ * memory size must match the `--initial-memory` and `--max-memory` used to
+ * link the binary.
+ *
+ * Note, the binary's illegal argument and internal error callbacks trap (see
+ * `wasm/docker/secp256k1.callbacks.c`), so misuse of a [[Secp256k1Wasm]]
+ * method throws a `WebAssembly.RuntimeError`. After a trap, the instance's
+ * stack pointer is not restored, and the instance must not be used again.
  *
  * @param webassemblyBytes A buffer containing the secp256k1 binary.
  */
 export const instantiateSecp256k1WasmBytes = async (
   webassemblyBytes: ArrayBuffer
 ): Promise<Secp256k1Wasm> => {
-  const STACK_ALIGN = 16;
-  const GLOBAL_BASE = 1024;
   const WASM_PAGE_SIZE = 65536;
-  const TOTAL_STACK = 5242880;
   const TOTAL_MEMORY = 16777216;
 
-  const wasmMemory = new WebAssembly.Memory({
+  const memory = new WebAssembly.Memory({
     initial: TOTAL_MEMORY / WASM_PAGE_SIZE,
     maximum: TOTAL_MEMORY / WASM_PAGE_SIZE
   });
 
   /* istanbul ignore if  */
   // tslint:disable-next-line:no-if-statement
-  if (!isLittleEndian(wasmMemory.buffer)) {
+  if (!isLittleEndian(memory.buffer)) {
     // note: this block is excluded from test coverage. It's A) hard to test
     // (must be either tested on big-endian hardware or a big-endian buffer
     // mock) and B) extracted from Emscripten's preamble.js, where it should
@@ -841,94 +932,12 @@ export const instantiateSecp256k1WasmBytes = async (
     throw new Error('Runtime error: expected the system to be little-endian.');
   }
 
-  // tslint:disable:no-magic-numbers
-  const STATIC_BASE = GLOBAL_BASE;
-  const STATICTOP_INITIAL = STATIC_BASE + 67696 + 16;
-  const DYNAMICTOP_PTR = STATICTOP_INITIAL;
-  const DYNAMICTOP_PTR_SIZE = 4;
-  // tslint:disable-next-line:no-bitwise
-  const STATICTOP = (STATICTOP_INITIAL + DYNAMICTOP_PTR_SIZE + 15) & -16;
-  const STACKTOP = alignMemory(STACK_ALIGN, STATICTOP);
-  const STACK_BASE = STACKTOP;
-  const STACK_MAX = STACK_BASE + TOTAL_STACK;
-  const DYNAMIC_BASE = alignMemory(STACK_ALIGN, STACK_MAX);
-
-  const heapU8 = new Uint8Array(wasmMemory.buffer);
-  const heap32 = new Int32Array(wasmMemory.buffer);
-  const heapU32 = new Uint32Array(wasmMemory.buffer);
-  // tslint:disable-next-line:no-expression-statement no-bitwise no-object-mutation
-  heap32[DYNAMICTOP_PTR >> 2] = DYNAMIC_BASE;
-
-  const TABLE_SIZE = 6;
-  const MAX_TABLE_SIZE = 6;
-
-  // tslint:enable:no-magic-numbers
-
-  // tslint:disable-next-line:no-let
-  let getErrNoLocation: (() => number) | undefined;
-
-  // note: A number of methods below are excluded from test coverage. They are
-  // a) not part of the regular usage of this library (should only be evaluated
-  // if the consumer mis-implements the library and exist only to make
-  // debugging easier) and B) already tested adequately in Emscripten, from
-  // which this section is extracted.
-  const env = {
-    DYNAMICTOP_PTR,
-    STACKTOP,
-    ___setErrNo: /* istanbul ignore next */ (value: number) => {
-      // tslint:disable-next-line:no-if-statement
-      if (getErrNoLocation !== undefined) {
-        // tslint:disable-next-line:no-bitwise no-expression-statement no-object-mutation no-magic-numbers
-        heap32[getErrNoLocation() >> 2] = value;
-      }
-      return value;
-    },
-    _abort: /* istanbul ignore next */ (err = 'Secp256k1 Error') => {
-      throw new Error(err);
-    },
-    _emscripten_memcpy_big: /* istanbul ignore next */ (
-      dest: number,
-      src: number,
-      num: number
-    ) => {
-      // tslint:disable-next-line:no-expression-statement
-      heapU8.set(heapU8.subarray(src, src + num), dest);
-      return dest;
-    },
-    abort: /* istanbul ignore next */ (err = 'Secp256k1 Error') => {
-      throw new Error(err);
-    },
-    abortOnCannotGrowMemory: /* istanbul ignore next */ () => {
-      throw new Error('Secp256k1 Error: abortOnCannotGrowMemory was called.');
-    },
-    enlargeMemory: /* istanbul ignore next */ () => {
-      throw new Error('Secp256k1 Error: enlargeMemory was called.');
-    },
-    getTotalMemory: () => TOTAL_MEMORY
-  };
-
-  const info = {
-    env: {
-      ...env,
-      memory: wasmMemory,
-      memoryBase: STATIC_BASE,
-      table: new WebAssembly.Table({
-        element: 'anyfunc',
-        initial: TABLE_SIZE,
-        maximum: MAX_TABLE_SIZE
-      }),
-      tableBase: 0
-    },
-    global: { NaN, Infinity }
-  };
-
-  return WebAssembly.instantiate(webassemblyBytes, info).then(result => {
-    //
-    // tslint:disable-next-line:no-expression-statement no-unsafe-any
-    getErrNoLocation = result.instance.exports.___errno_location;
-
-    return wrapSecp256k1Wasm(result.instance, heapU8, heapU32);
-  });
+  const heapU8 = new Uint8Array(memory.buffer);
+  const heapU32 = new Uint32Array(memory.buffer);
+
+  return WebAssembly.instantiate(webassemblyBytes, {
+    env: { memory }
+  }).then(result => wrapSecp256k1Wasm(result.instance, heapU8, heapU32));
 };
 
 export const getEmbeddedSecp256k1Binary = () =>
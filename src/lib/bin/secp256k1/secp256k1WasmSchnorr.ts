@@ -0,0 +1,317 @@
+/**
+ * The methods of [[Secp256k1Wasm]] which wrap the `extrakeys`, `schnorrsig`,
+ * and `schnorr` modules of `libsecp256k1`: keypairs, x-only public keys, and
+ * BIP340 and Bitcoin Cash Schnorr signatures.
+ */
+export interface Secp256k1WasmSchnorr {
+  /**
+   * Compute the keypair for a secret key.
+   *
+   * Returns 1 if the secret key was valid and the keypair is ready to use,
+   * otherwise 0.
+   *
+   * @param contextPtr pointer to a context object, initialized for signing
+   * @param keypairPtr pointer to a 96-byte space where the keypair will be
+   * written (internal format)
+   * @param secretKeyPtr pointer to a 32-byte private key
+   */
+  readonly keypairCreate: (
+    contextPtr: number,
+    keypairPtr: number,
+    secretKeyPtr: number
+  ) => 1 | 0;
+
+  /**
+   * Get the secret key from a keypair.
+   *
+   * Always returns 1.
+   *
+   * @param contextPtr pointer to a context object
+   * @param secretKeyPtr pointer to a 32-byte space where the secret key will
+   * be written
+   * @param keypairPtr pointer to a keypair (internal format)
+   */
+  readonly keypairSec: (
+    contextPtr: number,
+    secretKeyPtr: number,
+    keypairPtr: number
+  ) => 1;
+
+  /**
+   * Tweak a keypair by adding `tweak32` to its secret key (after negating the
+   * secret key if its public key has an odd Y coordinate). The public key of
+   * the result is equal to the result of `xOnlyPubkeyTweakAdd` with the same
+   * tweak applied to the keypair's x-only public key.
+   *
+   * Returns 1 if the tweak was successful, 0 if the tweak was out of range or
+   * the resulting keypair would be invalid.
+   *
+   * @param contextPtr pointer to a context object, initialized for
+   * verification
+   * @param keypairPtr pointer to a keypair to tweak in place (internal format)
+   * @param tweak32Ptr pointer to a 32-byte tweak
+   */
+  readonly keypairXOnlyTweakAdd: (
+    contextPtr: number,
+    keypairPtr: number,
+    tweak32Ptr: number
+  ) => 1 | 0;
+
+  /**
+   * Create a BIP340 Schnorr signature.
+   *
+   * Returns 1 if the signature was created, 0 otherwise.
+   *
+   * Note, this method requires a 32-byte message (`msg32Ptr`). If `auxRand32Ptr`
+   * is `0` (`NULL`), no auxiliary randomness is mixed into the nonce, which
+   * produces a different signature than providing 32 zero bytes.
+   *
+   * This WebAssembly Secp256k1 implementation does not currently support the
+   * `noncefp` argument from the C library. The BIP340 nonce generation
+   * function is always used.
+   *
+   * @param contextPtr pointer to a context object, initialized for signing
+   * @param outputSigPtr pointer to a 64-byte space where the signature will be
+   * written
+   * @param msg32Ptr pointer to the 32-byte message being signed
+   * @param keypairPtr pointer to the keypair with which to sign (internal
+   * format)
+   * @param auxRand32Ptr pointer to 32 bytes of fresh auxiliary randomness, or
+   * `0` to use none
+   */
+  readonly schnorrSign: (
+    contextPtr: number,
+    outputSigPtr: number,
+    msg32Ptr: number,
+    keypairPtr: number,
+    auxRand32Ptr: number
+  ) => 1 | 0;
+
+  /**
+   * Create a Bitcoin Cash Schnorr signature (as specified in the May 2019
+   * Bitcoin Cash upgrade). The nonce is generated using RFC6979 (with the
+   * algorithm identifier `Schnorr+SHA256  `).
+   *
+   * Returns 1 if the signature was created, 0 if the nonce generation function
+   * failed, or the private key was invalid.
+   *
+   * Note, this WebAssembly Secp256k1 implementation does not currently support
+   * the final two arguments from the C library, `noncefp` and `ndata`. The
+   * default nonce generation function is always used.
+   *
+   * @param contextPtr pointer to a context object, initialized for signing
+   * @param outputSigPtr pointer to a 64-byte space where the signature will be
+   * written
+   * @param msg32Ptr pointer to the 32-byte message hash being signed
+   * @param secretKeyPtr pointer to a 32-byte secret key
+   */
+  readonly schnorrSignBCH: (
+    contextPtr: number,
+    outputSigPtr: number,
+    msg32Ptr: number,
+    secretKeyPtr: number
+  ) => 1 | 0;
+
+  /**
+   * Verify a BIP340 Schnorr signature.
+   *
+   * Returns 1 if the signature is valid, 0 otherwise.
+   *
+   * @param contextPtr pointer to a context object, initialized for
+   * verification
+   * @param sigPtr pointer to the 64-byte signature being verified
+   * @param msg32Ptr pointer to the 32-byte message being verified
+   * @param xOnlyPubkeyPtr pointer to the parsed x-only public key with which
+   * to verify (internal format)
+   */
+  readonly schnorrVerify: (
+    contextPtr: number,
+    sigPtr: number,
+    msg32Ptr: number,
+    xOnlyPubkeyPtr: number
+  ) => 1 | 0;
+
+  /**
+   * Verify a Bitcoin Cash Schnorr signature.
+   *
+   * Returns 1 if the signature is valid, 0 otherwise.
+   *
+   * @param contextPtr pointer to a context object, initialized for
+   * verification
+   * @param sigPtr pointer to the 64-byte signature being verified
+   * @param msg32Ptr pointer to the 32-byte message hash being verified
+   * @param pubkeyPtr pointer to the parsed pubkey with which to verify
+   * (internal format)
+   */
+  readonly schnorrVerifyBCH: (
+    contextPtr: number,
+    sigPtr: number,
+    msg32Ptr: number,
+    pubkeyPtr: number
+  ) => 1 | 0;
+
+  /**
+   * Convert a public key into an x-only public key.
+   *
+   * Returns 1 if the public key was valid, otherwise 0.
+   *
+   * @param contextPtr pointer to a context object
+   * @param xOnlyPubkeyPtr pointer to a 64-byte space where the x-only public
+   * key will be written (internal format)
+   * @param parityPtr pointer to an int which will be set to `1` if the Y
+   * coordinate of `pubkeyPtr` is odd (it is negated in the x-only public key),
+   * otherwise `0`. May be `0` (`NULL`).
+   * @param pubkeyPtr pointer to a public key (parsed, internal format)
+   */
+  readonly xOnlyPubkeyFromPubkey: (
+    contextPtr: number,
+    xOnlyPubkeyPtr: number,
+    parityPtr: number,
+    pubkeyPtr: number
+  ) => 1 | 0;
+
+  /**
+   * Parse a 32-byte x-only public key.
+   *
+   * Returns 1 if the public key was fully valid, or 0 if the public key could
+   * not be parsed or is invalid.
+   *
+   * @param contextPtr pointer to a context object
+   * @param xOnlyPubkeyOutPtr a pointer to a 64-byte space where the parsed
+   * x-only public key will be written (internal format)
+   * @param input32Ptr pointer to a serialized 32-byte x-only public key
+   */
+  readonly xOnlyPubkeyParse: (
+    contextPtr: number,
+    xOnlyPubkeyOutPtr: number,
+    input32Ptr: number
+  ) => 1 | 0;
+
+  /**
+   * Serialize an x-only public key into 32 bytes.
+   *
+   * Always returns 1.
+   *
+   * @param contextPtr pointer to a context object
+   * @param output32Ptr pointer to a 32-byte space in which to place the
+   * serialized key
+   * @param xOnlyPubkeyPtr pointer to an x-only public key (parsed, internal
+   * format)
+   */
+  readonly xOnlyPubkeySerialize: (
+    contextPtr: number,
+    output32Ptr: number,
+    xOnlyPubkeyPtr: number
+  ) => 1;
+
+  /**
+   * Tweak an x-only public key by adding `tweak32` times the generator to it.
+   * The result is a full public key (which may have an odd Y coordinate), as
+   * is required to compute a Taproot output key.
+   *
+   * Returns 1 if the tweak was successful, 0 if the tweak was out of range or
+   * the resulting public key would be invalid.
+   *
+   * @param contextPtr pointer to a context object, initialized for
+   * verification
+   * @param outputPubkeyPtr pointer to a 64-byte space where the tweaked public
+   * key will be written (internal format)
+   * @param internalXOnlyPubkeyPtr pointer to the x-only public key to tweak
+   * (internal format)
+   * @param tweak32Ptr pointer to a 32-byte tweak
+   */
+  readonly xOnlyPubkeyTweakAdd: (
+    contextPtr: number,
+    outputPubkeyPtr: number,
+    internalXOnlyPubkeyPtr: number,
+    tweak32Ptr: number
+  ) => 1 | 0;
+}
+
+// tslint:disable:no-unsafe-any
+export const wrapSecp256k1WasmSchnorr = (
+  instance: WebAssembly.Instance
+): Secp256k1WasmSchnorr => ({
+  keypairCreate: (contextPtr, keypairPtr, secretKeyPtr) =>
+    instance.exports.secp256k1_keypair_create(
+      contextPtr,
+      keypairPtr,
+      secretKeyPtr
+    ),
+  keypairSec: (contextPtr, secretKeyPtr, keypairPtr) =>
+    instance.exports.secp256k1_keypair_sec(
+      contextPtr,
+      secretKeyPtr,
+      keypairPtr
+    ),
+  keypairXOnlyTweakAdd: (contextPtr, keypairPtr, tweak32Ptr) =>
+    instance.exports.secp256k1_keypair_xonly_tweak_add(
+      contextPtr,
+      keypairPtr,
+      tweak32Ptr
+    ),
+  schnorrSign: (contextPtr, outputSigPtr, msg32Ptr, keypairPtr, auxRand32Ptr) =>
+    instance.exports.secp256k1_schnorrsig_sign(
+      contextPtr,
+      outputSigPtr,
+      msg32Ptr,
+      keypairPtr,
+      0,
+      auxRand32Ptr
+    ),
+  schnorrSignBCH: (contextPtr, outputSigPtr, msg32Ptr, secretKeyPtr) =>
+    instance.exports.secp256k1_schnorr_sign(
+      contextPtr,
+      outputSigPtr,
+      msg32Ptr,
+      secretKeyPtr,
+      0,
+      0
+    ),
+  schnorrVerify: (contextPtr, sigPtr, msg32Ptr, xOnlyPubkeyPtr) =>
+    instance.exports.secp256k1_schnorrsig_verify(
+      contextPtr,
+      sigPtr,
+      msg32Ptr,
+      xOnlyPubkeyPtr
+    ),
+  schnorrVerifyBCH: (contextPtr, sigPtr, msg32Ptr, pubkeyPtr) =>
+    instance.exports.secp256k1_schnorr_verify(
+      contextPtr,
+      sigPtr,
+      msg32Ptr,
+      pubkeyPtr
+    ),
+  xOnlyPubkeyFromPubkey: (contextPtr, xOnlyPubkeyPtr, parityPtr, pubkeyPtr) =>
+    instance.exports.secp256k1_xonly_pubkey_from_pubkey(
+      contextPtr,
+      xOnlyPubkeyPtr,
+      parityPtr,
+      pubkeyPtr
+    ),
+  xOnlyPubkeyParse: (contextPtr, xOnlyPubkeyOutPtr, input32Ptr) =>
+    instance.exports.secp256k1_xonly_pubkey_parse(
+      contextPtr,
+      xOnlyPubkeyOutPtr,
+      input32Ptr
+    ),
+  xOnlyPubkeySerialize: (contextPtr, output32Ptr, xOnlyPubkeyPtr) =>
+    instance.exports.secp256k1_xonly_pubkey_serialize(
+      contextPtr,
+      output32Ptr,
+      xOnlyPubkeyPtr
+    ),
+  xOnlyPubkeyTweakAdd: (
+    contextPtr,
+    outputPubkeyPtr,
+    internalXOnlyPubkeyPtr,
+    tweak32Ptr
+  ) =>
+    instance.exports.secp256k1_xonly_pubkey_tweak_add(
+      contextPtr,
+      outputPubkeyPtr,
+      internalXOnlyPubkeyPtr,
+      tweak32Ptr
+    )
+});
+// tslint:enable:no-unsafe-any
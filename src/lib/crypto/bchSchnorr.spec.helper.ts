@@ -0,0 +1,86 @@
+/**
+ * Bitcoin Cash Schnorr test vectors. Vectors 0-3 test signing (using the
+ * default RFC6979 nonce generation, vector 3 is from the Bitcoin ABC
+ * `key_tests`), and the remaining vectors are adapted from the verification
+ * vectors in the Bitcoin Cash Schnorr specification:
+ * https://github.com/bitcoincashorg/bitcoincash.org/blob/master/spec/2019-05-15-schnorr.md
+ */
+// prettier-ignore
+const bchSchnorrVectorsCsv = `
+0,0000000000000000000000000000000000000000000000000000000000000001,0279BE667EF9DCBBAC55A06295CE870B07029BFCDB2DCE28D959F2815B16F81798,0000000000000000000000000000000000000000000000000000000000000000,31AB79A6591AE4AF37C4223BFA75B7396AC9C14950EA78D94AFC14BE3A6B61DC2A901F43C609DFB10DFE3F00015957F6461D48B61DF9F452143AC6F6F7DD4EDD,TRUE,
+1,B7E151628AED2A6ABF7158809CF4F3C762E7160F38B4DA56A784D9045190CFEF,02DFF1D77F2A671C5F36183726DB2341BE58FEAE1DA2DECED843240F7B502BA659,243F6A8885A308D313198A2E03707344A4093822299F31D0082EFA98EC4E6C89,E87CEC707424360691EBF78B40BE9BF5FBCFCF4CDA8A9E49FB1A550FE00DFB6037170B5C71423897409718C46F7CD8A9F4A398FA5D367A539A60E62AAA2FC11A,TRUE,
+2,C90FDAA22168C234C4C6628B80DC1CD129024E088A67CC74020BBEA63B14E5C7,03FAC2114C2FBB091527EB7C64ECB11F8021CB45E8E7809D3C0938E4B8C0E5F84B,5E2D58D8B3BCDF1ABADEC7829054F90DDA9805AAB56C77333024B9D0A508B75C,6CEA7734E50A434DC137B54EF25C89C40B694B5E47BDA283660F5CBA3B97BD166915C0F27164DC80226DC2245577C266B76EE9C682C4D2824BBAE2A56C728D1B,TRUE,
+3,12B004FFF7F4B69EF8650E767F18F11EDE158148B425660723B9F9A66E61F747,030B4C866585DD868A9D62348A9CD008D6A312937048FFF31670E7E920CFC7A744,5255683DA567900BFD3E786ED8836A4E7763C221BF1AC20ECE2A5171B9199E8A,2C56731AC2F7A7E7F11518FC7722A166B02438924CA9D8B4D111347B81D0717571846DE67AD3D913A8FDF9D8F3F73161A4C48AE81CB183B214765FEB86E255CE,TRUE,
+4,,0279BE667EF9DCBBAC55A06295CE870B07029BFCDB2DCE28D959F2815B16F81798,0000000000000000000000000000000000000000000000000000000000000000,787A848E71043D280C50470E8E1532B2DD5D20EE912A45DBDD2BD1DFBF187EF67031A98831859DC34DFFEEDDA86831842CCD0079E1F92AF177F7F22CC1DCED05,TRUE,
+5,,02DFF1D77F2A671C5F36183726DB2341BE58FEAE1DA2DECED843240F7B502BA659,243F6A8885A308D313198A2E03707344A4093822299F31D0082EFA98EC4E6C89,2A298DACAE57395A15D0795DDBFD1DCB564DA82B0F269BC70A74F8220429BA1D1E51A22CCEC35599B8F266912281F8365FFC2D035A230434A1A64DC59F7013FD,TRUE,
+6,,03FAC2114C2FBB091527EB7C64ECB11F8021CB45E8E7809D3C0938E4B8C0E5F84B,5E2D58D8B3BCDF1ABADEC7829054F90DDA9805AAB56C77333024B9D0A508B75C,00DA9B08172A9B6F0466A2DEFD817F2D7AB437E0D253CB5395A963866B3574BE00880371D01766935B92D2AB4CD5C8A2A5837EC57FED7660773A05F0DE142380,TRUE,
+7,,03DEFDEA4CDB677750A420FEE807EACF21EB9898AE79B9768766E4FAA04A2D4A34,4DF3C3F68FCC83B27E9D42C90431A72499F17875C81A599B566C9889B9696703,00000000000000000000003B78CE563F89A0ED9414F5AA28AD0D96D6795F9C6302A8DC32E64E86A333F20EF56EAC9BA30B7246D6D25E22ADB8C6BE1AEB08D49D,TRUE,
+8,,03EEFDEA4CDB677750A420FEE807EACF21EB9898AE79B9768766E4FAA04A2D4A34,4DF3C3F68FCC83B27E9D42C90431A72499F17875C81A599B566C9889B9696703,00000000000000000000003B78CE563F89A0ED9414F5AA28AD0D96D6795F9C6302A8DC32E64E86A333F20EF56EAC9BA30B7246D6D25E22ADB8C6BE1AEB08D49D,FALSE,public key not on the curve
+9,,02DFF1D77F2A671C5F36183726DB2341BE58FEAE1DA2DECED843240F7B502BA659,243F6A8885A308D313198A2E03707344A4093822299F31D0082EFA98EC4E6C89,2A298DACAE57395A15D0795DDBFD1DCB564DA82B0F269BC70A74F8220429BA1DFA16AEE06609280A19B67A24E1977E4697712B5FD2943914ECD5F730901B4AB7,FALSE,incorrect R residuosity
+10,,0279BE667EF9DCBBAC55A06295CE870B07029BFCDB2DCE28D959F2815B16F81798,0000000000000000000000000000000000000000000000000000000000000000,787A848E71043D280C50470E8E1532B2DD5D20EE912A45DBDD2BD1DFBF187EF68FCE5677CE7A623CB20011225797CE7A8DE1DC6CCD4F754A47DA6C600E59543C,FALSE,negated s value
+11,,03DFF1D77F2A671C5F36183726DB2341BE58FEAE1DA2DECED843240F7B502BA659,243F6A8885A308D313198A2E03707344A4093822299F31D0082EFA98EC4E6C89,2A298DACAE57395A15D0795DDBFD1DCB564DA82B0F269BC70A74F8220429BA1D1E51A22CCEC35599B8F266912281F8365FFC2D035A230434A1A64DC59F7013FD,FALSE,negated public key
+12,,02DFF1D77F2A671C5F36183726DB2341BE58FEAE1DA2DECED843240F7B502BA659,243F6A8885A308D313198A2E03707344A4093822299F31D0082EFA98EC4E6C89,00000000000000000000000000000000000000000000000000000000000000009E9D01AF988B5CEDCE47221BFA9B222721F3FA408915444A4B489021DB55775F,FALSE,sG - eP is infinite (x(inf) defined as 0)
+13,,02DFF1D77F2A671C5F36183726DB2341BE58FEAE1DA2DECED843240F7B502BA659,243F6A8885A308D313198A2E03707344A4093822299F31D0082EFA98EC4E6C89,0000000000000000000000000000000000000000000000000000000000000001D37DDF0254351836D84B1BD6A795FD5D523048F298C4214D187FE4892947F728,FALSE,sG - eP is infinite (x(inf) defined as 1)
+14,,02DFF1D77F2A671C5F36183726DB2341BE58FEAE1DA2DECED843240F7B502BA659,243F6A8885A308D313198A2E03707344A4093822299F31D0082EFA98EC4E6C89,4A298DACAE57395A15D0795DDBFD1DCB564DA82B0F269BC70A74F8220429BA1D1E51A22CCEC35599B8F266912281F8365FFC2D035A230434A1A64DC59F7013FD,FALSE,sig[0:32] is not an X coordinate on the curve
+15,,02DFF1D77F2A671C5F36183726DB2341BE58FEAE1DA2DECED843240F7B502BA659,243F6A8885A308D313198A2E03707344A4093822299F31D0082EFA98EC4E6C89,FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEFFFFFC2F1E51A22CCEC35599B8F266912281F8365FFC2D035A230434A1A64DC59F7013FD,FALSE,sig[0:32] is equal to field size
+16,,02DFF1D77F2A671C5F36183726DB2341BE58FEAE1DA2DECED843240F7B502BA659,243F6A8885A308D313198A2E03707344A4093822299F31D0082EFA98EC4E6C89,2A298DACAE57395A15D0795DDBFD1DCB564DA82B0F269BC70A74F8220429BA1DFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141,FALSE,sig[32:64] is equal to curve order
+`;
+
+/**
+ * A single Bitcoin Cash Schnorr test vector. The `privateKey` is empty for
+ * vectors which only test verification.
+ */
+export interface BchSchnorrVector {
+  /**
+   * A description of the vector's purpose (may be empty).
+   */
+  readonly comment: string;
+  /**
+   * The index of the vector.
+   */
+  readonly index: number;
+  /**
+   * The hex-encoded 32-byte message hash.
+   */
+  readonly messageHash: string;
+  /**
+   * The hex-encoded private key.
+   */
+  readonly privateKey: string;
+  /**
+   * The hex-encoded 33-byte compressed public key.
+   */
+  readonly publicKey: string;
+  /**
+   * The hex-encoded 64-byte signature.
+   */
+  readonly signature: string;
+  /**
+   * Whether or not the signature is valid.
+   */
+  readonly valid: boolean;
+}
+
+export const bchSchnorrVectors: ReadonlyArray<BchSchnorrVector> = bchSchnorrVectorsCsv
+  .trim()
+  .split('\n')
+  .map(line => {
+    const [
+      index,
+      privateKey,
+      publicKey,
+      messageHash,
+      signature,
+      valid,
+      comment
+    ] = line.split(',');
+    return {
+      comment,
+      index: Number(index),
+      messageHash: messageHash.toLowerCase(),
+      privateKey: privateKey.toLowerCase(),
+      publicKey: publicKey.toLowerCase(),
+      signature: signature.toLowerCase(),
+      valid: valid === 'TRUE'
+    };
+  });
@@ -0,0 +1,110 @@
+// tslint:disable:no-expression-statement no-magic-numbers no-unsafe-any
+import test from 'ava';
+import { createHash } from 'crypto';
+import * as fc from 'fast-check';
+import { binToHex, hexToBin, utf8ToBin } from '../utils';
+import {
+  createTaggedHash,
+  hash160,
+  hash256,
+  instantiateBitcoinHashes
+} from './bitcoinHashes';
+import { instantiateRipemd160 } from './ripemd160';
+import { instantiateSha256 } from './sha256';
+
+const bitcoinHashesPromise = instantiateBitcoinHashes();
+const ripemd160Promise = instantiateRipemd160();
+const sha256Promise = instantiateSha256();
+
+const nodeSha256 = (input: Uint8Array) =>
+  createHash('sha256')
+    .update(input)
+    .digest();
+
+const nodeTaggedHash = (tag: string, message: Uint8Array) => {
+  const tagHash = nodeSha256(Buffer.from(tag, 'utf8'));
+  return new Uint8Array(nodeSha256(Buffer.concat([tagHash, tagHash, message])));
+};
+
+const abc = utf8ToBin('abc');
+
+test('hash160', async t => {
+  const ripemd160 = await ripemd160Promise;
+  const sha256 = await sha256Promise;
+  t.deepEqual(
+    hash160({ ripemd160, sha256 }, abc),
+    hexToBin('bb1be98c142444d7a56aa3981c3942a978e4dc33')
+  );
+  t.deepEqual(
+    binToHex(hash160({ ripemd160, sha256 }, new Uint8Array())),
+    'b472a266d0bd89c13706a4132ccfb16f7c3b9fcb'
+  );
+});
+
+test('hash256', async t => {
+  const sha256 = await sha256Promise;
+  t.deepEqual(
+    hash256(sha256, abc),
+    hexToBin('4f8b42c22dd3729b519ba6f68d2da7cc5b2d606d05daed5ad5128cc03e6c6358')
+  );
+  t.deepEqual(
+    binToHex(hash256(sha256, new Uint8Array())),
+    '5df6e0e2761359d30a8275058e299fcc0381534545f55cf43e41983f5d4c9456'
+  );
+});
+
+test('createTaggedHash', async t => {
+  const sha256 = await sha256Promise;
+  const taggedHash = createTaggedHash(sha256);
+  t.deepEqual(
+    binToHex(taggedHash('BIP0340/challenge', new Uint8Array())),
+    'c216d352f5818b7b4beacd4ae0a26fe888080823d2a598856661bcd54f1b3713'
+  );
+  t.deepEqual(
+    binToHex(taggedHash('TapLeaf', Uint8Array.of(0))),
+    'ed1382037800c9dd938dd8854f1a8863bcdeb6705069b4b56a66ec22519d5829'
+  );
+  t.deepEqual(
+    binToHex(taggedHash('TapTweak', hexToBin('0123456789abcdef'))),
+    '65f370bf6414b9ffeae7c677844b471507e3169c81945f6161a8e504da6e1ec8'
+  );
+  // cached midstates must not be modified by previous uses
+  t.deepEqual(
+    binToHex(taggedHash('BIP0340/challenge', new Uint8Array())),
+    'c216d352f5818b7b4beacd4ae0a26fe888080823d2a598856661bcd54f1b3713'
+  );
+});
+
+test('createTaggedHash: matches node', async t => {
+  const taggedHash = createTaggedHash(await sha256Promise);
+  const tags: ReadonlyArray<string> = [
+    'BIP0340/aux',
+    'BIP0340/nonce',
+    'TapBranch',
+    'TapSighash'
+  ];
+  const equivalentToNode = fc.property(
+    fc.constantFrom(...tags),
+    fc.array(fc.integer(0, 255), 0, 200).map(a => Uint8Array.from(a)),
+    (tag, message) => {
+      t.deepEqual(taggedHash(tag, message), nodeTaggedHash(tag, message));
+    }
+  );
+  t.notThrows(() => {
+    fc.assert(equivalentToNode);
+  });
+});
+
+test('instantiateBitcoinHashes', async t => {
+  const {
+    hash160: h160,
+    hash256: h256,
+    taggedHash
+  } = await bitcoinHashesPromise;
+  t.deepEqual(binToHex(h160(abc)), 'bb1be98c142444d7a56aa3981c3942a978e4dc33');
+  t.deepEqual(
+    binToHex(h256(abc)),
+    '4f8b42c22dd3729b519ba6f68d2da7cc5b2d606d05daed5ad5128cc03e6c6358'
+  );
+  t.deepEqual(taggedHash('TapTweak', abc), nodeTaggedHash('TapTweak', abc));
+});
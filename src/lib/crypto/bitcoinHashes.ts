@@ -0,0 +1,130 @@
+import { utf8ToBin } from '../utils';
+import { instantiateRipemd160, Ripemd160 } from './ripemd160';
+import { instantiateSha256, Sha256 } from './sha256';
+
+/**
+ * The hash function implementations required by `hash160`.
+ */
+export interface Hash160Dependencies {
+  /**
+   * An implementation of ripemd160.
+   */
+  readonly ripemd160: Ripemd160;
+  /**
+   * An implementation of sha256.
+   */
+  readonly sha256: Sha256;
+}
+
+/**
+ * Compute the `ripemd160(sha256(input))` of `input`, as used in P2PKH and
+ * P2SH addresses, HD key fingerprints, and by `OP_HASH160`.
+ *
+ * @param dependencies implementations of ripemd160 and sha256
+ * @param input the bytes to hash
+ */
+export const hash160 = (
+  { ripemd160, sha256 }: Hash160Dependencies,
+  input: Uint8Array
+) => ripemd160.hash(sha256.hash(input));
+
+/**
+ * Compute the double-sha256 (`sha256(sha256(input))`) of `input`, as used in
+ * transaction and block hashes, Base58Check checksums, and by `OP_HASH256`.
+ *
+ * @param sha256 an implementation of sha256
+ * @param input the bytes to hash
+ */
+export const hash256 = (sha256: Sha256, input: Uint8Array) =>
+  sha256.hash(sha256.hash(input));
+
+/**
+ * Create a BIP340 tagged hash function:
+ * `sha256(sha256(tag) || sha256(tag) || message)`.
+ *
+ * The 64-byte tag prefix fills exactly one sha256 block, so the intermediate
+ * sha256 state (midstate) after hashing the prefix is computed once per tag
+ * and cached. Each subsequent call for the same tag only hashes `message`.
+ *
+ * @param sha256 an implementation of sha256
+ */
+export const createTaggedHash = (sha256: Sha256) => {
+  const midstates = new Map<string, Uint8Array>();
+  const getMidstate = (tag: string) => {
+    const cached = midstates.get(tag);
+    // tslint:disable-next-line:no-if-statement
+    if (cached !== undefined) {
+      return cached;
+    }
+    const tagHash = sha256.hash(utf8ToBin(tag));
+    const midstate = sha256.update(
+      sha256.update(sha256.init(), tagHash),
+      tagHash
+    );
+    // tslint:disable-next-line:no-expression-statement
+    midstates.set(tag, midstate);
+    return midstate;
+  };
+  /**
+   * Compute the tagged hash of `message` using `tag`.
+   *
+   * @param tag the UTF-8 tag (e.g. `BIP0340/challenge` or `TapLeaf`)
+   * @param message the message to hash
+   */
+  return (tag: string, message: Uint8Array) =>
+    // `update` may overwrite the state it is given, so the cache is copied
+    sha256.final(sha256.update(getMidstate(tag).slice(), message));
+};
+
+/**
+ * The hash compositions used throughout Bitcoin, sharing a single instance of
+ * each underlying hash function.
+ */
+export interface BitcoinHashes {
+  /**
+   * Compute the `ripemd160(sha256(input))` of `input`.
+   *
+   * @param input the bytes to hash
+   */
+  readonly hash160: (input: Uint8Array) => Uint8Array;
+  /**
+   * Compute the double-sha256 (`sha256(sha256(input))`) of `input`.
+   *
+   * @param input the bytes to hash
+   */
+  readonly hash256: (input: Uint8Array) => Uint8Array;
+  /**
+   * Compute the BIP340 tagged hash of `message`:
+   * `sha256(sha256(tag) || sha256(tag) || message)`. Tag prefixes are cached.
+   *
+   * @param tag the UTF-8 tag (e.g. `BIP0340/challenge` or `TapLeaf`)
+   * @param message the message to hash
+   */
+  readonly taggedHash: (tag: string, message: Uint8Array) => Uint8Array;
+}
+
+/**
+ * Create a `BitcoinHashes` object from existing instances of ripemd160 and
+ * sha256.
+ *
+ * @param dependencies implementations of ripemd160 and sha256
+ */
+export const createBitcoinHashes = (
+  dependencies: Hash160Dependencies
+): BitcoinHashes => ({
+  hash160: input => hash160(dependencies, input),
+  hash256: input => hash256(dependencies.sha256, input),
+  taggedHash: createTaggedHash(dependencies.sha256)
+});
+
+/**
+ * Instantiate the ripemd160 and sha256 WebAssembly modules once, returning
+ * a `BitcoinHashes` object which shares them.
+ */
+export const instantiateBitcoinHashes = async (): Promise<BitcoinHashes> => {
+  const [ripemd160, sha256] = await Promise.all([
+    instantiateRipemd160(),
+    instantiateSha256()
+  ]);
+  return createBitcoinHashes({ ripemd160, sha256 });
+};
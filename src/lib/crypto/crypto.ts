@@ -3,3 +3,6 @@ export * from './ripemd160';
 export * from './sha1';
 export * from './sha256';
 export * from './sha512';
+export * from './hmac';
+export * from './pbkdf2';
+export * from './bitcoinHashes';
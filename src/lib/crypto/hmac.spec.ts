@@ -0,0 +1,127 @@
+// tslint:disable:no-expression-statement no-magic-numbers no-unsafe-any
+import test from 'ava';
+import { createHmac } from 'crypto';
+import * as fc from 'fast-check';
+import { binToHex, hexToBin } from '../utils';
+import { hmacSha256, hmacSha512 } from './hmac';
+import { instantiateSha256 } from './sha256';
+import { instantiateSha512 } from './sha512';
+
+const sha256Promise = instantiateSha256();
+const sha512Promise = instantiateSha512();
+
+const utf8ToHex = (text: string) => Buffer.from(text, 'utf8').toString('hex');
+
+/**
+ * Test vectors from RFC 4231: [key, data, HMAC-SHA256, HMAC-SHA512]
+ */
+const rfc4231Vectors: ReadonlyArray<[string, string, string, string]> = [
+  [
+    '0b'.repeat(20),
+    utf8ToHex('Hi There'),
+    'b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7',
+    '87aa7cdea5ef619d4ff0b4241a1d6cb02379f4e2ce4ec2787ad0b30545e17cdedaa833b7d6b8a702038b274eaea3f4e4be9d914eeb61f1702e696c203a126854'
+  ],
+  [
+    utf8ToHex('Jefe'),
+    utf8ToHex('what do ya want for nothing?'),
+    '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843',
+    '164b7a7bfcf819e2e395fbe73b56e0a387bd64222e831fd610270cd7ea2505549758bf75c05a994a6d034f65f8f0e6fdcaeab1a34d4a6b4b636e070a38bce737'
+  ],
+  [
+    'aa'.repeat(20),
+    'dd'.repeat(50),
+    '773ea91e36800e46854db8ebd09181a72959098b3ef8c122d9635514ced565fe',
+    'fa73b0089d56a284efb0f0756c890be9b1b5dbdd8ee81a3655f83e33b2279d39bf3e848279a722c806b485a47e67c807b946a337bee8942674278859e13292fb'
+  ],
+  [
+    '0102030405060708090a0b0c0d0e0f10111213141516171819',
+    'cd'.repeat(50),
+    '82558a389a443c0ea4cc819899f2083a85f0faa3e578f8077a2e3ff46729665b',
+    'b0ba465637458c6990e5a8c5f61d4af7e576d97ff94b872de76f8050361ee3dba91ca5c11aa25eb4d679275cc5788063a5f19741120c4f2de2adebeb10a298dd'
+  ],
+  [
+    'aa'.repeat(131),
+    utf8ToHex('Test Using Larger Than Block-Size Key - Hash Key First'),
+    '60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54',
+    '80b24263c7c1a3ebb71493c1dd7be8b49b46d1f41b4aeec1121b013783f8f3526b56d037e05f2598bd0fd2215d6a1e5295e64f73f63f0aec8b915a985d786598'
+  ],
+  [
+    'aa'.repeat(131),
+    utf8ToHex(
+      'This is a test using a larger than block-size key and a larger than block-size data. The key needs to be hashed before being used by the HMAC algorithm.'
+    ),
+    '9b09ffa71b942fcb27635fbcd5b0e944bfdc63644f0713938a7f51535c3a35e2',
+    'e37b6a775dc87dbaa4dfa9f96e5e3ffddebd71f8867289865df5a32d20cdc944b6022cac3c4982b10d5eeb55c3e4de15134676fb6de0446065c97440fa8c6a58'
+  ]
+];
+
+test('hmacSha256: RFC 4231 test vectors', async t => {
+  const sha256 = await sha256Promise;
+  rfc4231Vectors.forEach(([key, data, expected]) => {
+    t.deepEqual(
+      binToHex(hmacSha256(sha256, hexToBin(key), hexToBin(data))),
+      expected
+    );
+  });
+});
+
+test('hmacSha512: RFC 4231 test vectors', async t => {
+  const sha512 = await sha512Promise;
+  rfc4231Vectors.forEach(([key, data, , expected]) => {
+    t.deepEqual(
+      binToHex(hmacSha512(sha512, hexToBin(key), hexToBin(data))),
+      expected
+    );
+  });
+});
+
+test('hmacSha256 and hmacSha512: RFC 4231 truncated output test vector', async t => {
+  const sha256 = await sha256Promise;
+  const sha512 = await sha512Promise;
+  const key = hexToBin('0c'.repeat(20));
+  const data = hexToBin(utf8ToHex('Test With Truncation'));
+  t.deepEqual(
+    binToHex(hmacSha256(sha256, key, data).slice(0, 16)),
+    'a3b6167473100ee06e0c796c2955552b'
+  );
+  t.deepEqual(
+    binToHex(hmacSha512(sha512, key, data).slice(0, 16)),
+    '415fad6271580a531d4179bc891d87a6'
+  );
+});
+
+const fcUint8Array = (minLength: number, maxLength: number) =>
+  fc
+    .array(fc.integer(0, 255), minLength, maxLength)
+    .map(a => Uint8Array.from(a));
+
+test('hmacSha256 and hmacSha512: equivalent to Node.js crypto', async t => {
+  const sha256 = await sha256Promise;
+  const sha512 = await sha512Promise;
+  const equivalentToNode = fc.property(
+    fcUint8Array(0, 200),
+    fcUint8Array(0, 200),
+    (key, message) => {
+      t.deepEqual(
+        hmacSha256(sha256, key, message),
+        new Uint8Array(
+          createHmac('sha256', Buffer.from(key))
+            .update(Buffer.from(message))
+            .digest()
+        )
+      );
+      t.deepEqual(
+        hmacSha512(sha512, key, message),
+        new Uint8Array(
+          createHmac('sha512', Buffer.from(key))
+            .update(Buffer.from(message))
+            .digest()
+        )
+      );
+    }
+  );
+  t.notThrows(() => {
+    fc.assert(equivalentToNode);
+  });
+});
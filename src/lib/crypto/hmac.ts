@@ -0,0 +1,76 @@
+import { HashFunction } from '../bin/bin';
+import { flattenBinArray } from '../utils';
+import { Sha256 } from './sha256';
+import { Sha512 } from './sha512';
+
+// tslint:disable:no-magic-numbers
+const innerPadding = 0x36;
+const outerPadding = 0x5c;
+const sha256BlockSize = 64;
+const sha512BlockSize = 128;
+// tslint:enable:no-magic-numbers
+
+/**
+ * Create a hash-based message authentication code (HMAC) function, as
+ * specified by RFC 2104, using an incremental hash function.
+ *
+ * The returned function accepts a `secret` (of any length) and a `message`,
+ * and returns the HMAC (the same length as the output of `hashFunction`).
+ *
+ * @param hashFunction the hash function on which to build the HMAC (e.g. an
+ * instance of `Sha256` or `Sha512`)
+ * @param blockSize the block size of `hashFunction` in bytes (e.g. `64` for
+ * sha256, `128` for sha512)
+ */
+export const hmac = (hashFunction: HashFunction, blockSize: number) => (
+  secret: Uint8Array,
+  message: Uint8Array
+) => {
+  const key = secret.length > blockSize ? hashFunction.hash(secret) : secret;
+  const paddedKey = flattenBinArray([
+    key,
+    new Uint8Array(blockSize - key.length)
+  ]);
+  // tslint:disable:no-bitwise
+  const innerKey = paddedKey.map(byte => byte ^ innerPadding);
+  const outerKey = paddedKey.map(byte => byte ^ outerPadding);
+  // tslint:enable:no-bitwise
+  const innerHash = hashFunction.final(
+    hashFunction.update(
+      hashFunction.update(hashFunction.init(), innerKey),
+      message
+    )
+  );
+  return hashFunction.final(
+    hashFunction.update(
+      hashFunction.update(hashFunction.init(), outerKey),
+      innerHash
+    )
+  );
+};
+
+/**
+ * Compute the HMAC-SHA256 of `message` using `secret`.
+ *
+ * @param sha256 an implementation of sha256
+ * @param secret the secret key (of any length)
+ * @param message the message to authenticate
+ */
+export const hmacSha256 = (
+  sha256: Sha256,
+  secret: Uint8Array,
+  message: Uint8Array
+) => hmac(sha256, sha256BlockSize)(secret, message);
+
+/**
+ * Compute the HMAC-SHA512 of `message` using `secret`.
+ *
+ * @param sha512 an implementation of sha512
+ * @param secret the secret key (of any length)
+ * @param message the message to authenticate
+ */
+export const hmacSha512 = (
+  sha512: Sha512,
+  secret: Uint8Array,
+  message: Uint8Array
+) => hmac(sha512, sha512BlockSize)(secret, message);
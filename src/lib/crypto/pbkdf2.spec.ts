@@ -0,0 +1,89 @@
+// tslint:disable:no-expression-statement no-magic-numbers no-unsafe-any
+import test from 'ava';
+import { pbkdf2Sync } from 'crypto';
+import * as fc from 'fast-check';
+import { binToHex, utf8ToBin } from '../utils';
+import { pbkdf2HmacSha512 } from './pbkdf2';
+import { instantiateSha512 } from './sha512';
+
+const sha512Promise = instantiateSha512();
+
+/**
+ * PBKDF2-HMAC-SHA512 test vectors: [password, salt, iterations, derived key]
+ */
+const vectors: ReadonlyArray<[string, string, number, string]> = [
+  [
+    'password',
+    'salt',
+    1,
+    '867f70cf1ade02cff3752599a3a53dc4af34c7a669815ae5d513554e1c8cf252c02d470a285a0501bad999bfe943c08f050235d7d68b1da55e63f73b60a57fce'
+  ],
+  [
+    'password',
+    'salt',
+    2,
+    'e1d9c16aa681708a45f5c7c4e215ceb66e011a2e9f0040713f18aefdb866d53cf76cab2868a39b9f7840edce4fef5a82be67335c77a6068e04112754f27ccf4e'
+  ],
+  [
+    'password',
+    'salt',
+    4096,
+    'd197b1b33db0143e018b12f3d1d1479e6cdebdcc97c5c0f87f6902e072f457b5143f30602641b3d55cd335988cb36b84376060ecd532e039b742a239434af2d5'
+  ],
+  [
+    'passwordPASSWORDpassword',
+    'saltSALTsaltSALTsaltSALTsaltSALTsalt',
+    4096,
+    '8c0511f4c6e597c6ac6315d8f0362e225f3c501495ba23b868c005174dc4ee71115b59f9e60cd9532fa33e0f75aefe30225c583a186cd82bd4daea9724a3d3b804f75bdd41494fa324cab24bcc680fb3b96a30cf5d21fac3c2875913919f3399b1d9ce7e'
+  ]
+];
+
+test('pbkdf2HmacSha512: test vectors', async t => {
+  const sha512 = await sha512Promise;
+  vectors.forEach(([password, salt, iterations, expected]) => {
+    t.deepEqual(
+      binToHex(
+        pbkdf2HmacSha512(
+          sha512,
+          utf8ToBin(password),
+          utf8ToBin(salt),
+          iterations,
+          expected.length / 2
+        )
+      ),
+      expected
+    );
+  });
+});
+
+const fcUint8Array = (minLength: number, maxLength: number) =>
+  fc
+    .array(fc.integer(0, 255), minLength, maxLength)
+    .map(a => Uint8Array.from(a));
+
+test('pbkdf2HmacSha512: equivalent to Node.js crypto', async t => {
+  const sha512 = await sha512Promise;
+  const equivalentToNode = fc.property(
+    fcUint8Array(0, 100),
+    fcUint8Array(0, 100),
+    fc.integer(1, 5),
+    fc.integer(1, 200),
+    (password, salt, iterations, derivedKeyLength) => {
+      t.deepEqual(
+        pbkdf2HmacSha512(sha512, password, salt, iterations, derivedKeyLength),
+        new Uint8Array(
+          pbkdf2Sync(
+            Buffer.from(password),
+            Buffer.from(salt),
+            iterations,
+            derivedKeyLength,
+            'sha512'
+          )
+        )
+      );
+    }
+  );
+  t.notThrows(() => {
+    fc.assert(equivalentToNode);
+  });
+});
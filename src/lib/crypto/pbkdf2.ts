@@ -0,0 +1,75 @@
+import { flattenBinArray, numberToBinUint32BE } from '../utils';
+import { hmacSha512 } from './hmac';
+import { Sha512 } from './sha512';
+
+const pbkdf2Block = (
+  hmacFunction: (secret: Uint8Array, message: Uint8Array) => Uint8Array,
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  blockIndex: number
+) => {
+  // tslint:disable:no-let no-expression-statement no-bitwise no-object-mutation
+  let previous = hmacFunction(
+    password,
+    flattenBinArray([salt, numberToBinUint32BE(blockIndex)])
+  );
+  const block = previous.slice();
+  for (let iteration = 1; iteration < iterations; iteration += 1) {
+    previous = hmacFunction(password, previous);
+    for (let index = 0; index < block.length; index += 1) {
+      block[index] ^= previous[index];
+    }
+  }
+  // tslint:enable:no-let no-expression-statement no-bitwise no-object-mutation
+  return block;
+};
+
+/**
+ * Create a PBKDF2 (Password-Based Key Derivation Function 2) function, as
+ * specified by RFC 8018, using an HMAC function as the pseudorandom function.
+ *
+ * The returned function accepts a `password`, a `salt`, the number of
+ * `iterations`, and the byte length of the key to derive (`derivedKeyLength`).
+ *
+ * @param hmacFunction the HMAC function to use (e.g. a function created by
+ * `hmac`)
+ * @param hmacLength the byte length of the output of `hmacFunction`
+ */
+export const pbkdf2 = (
+  hmacFunction: (secret: Uint8Array, message: Uint8Array) => Uint8Array,
+  hmacLength: number
+) => (
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  derivedKeyLength: number
+) =>
+  flattenBinArray(
+    Array.from({ length: Math.ceil(derivedKeyLength / hmacLength) }, (_, i) =>
+      pbkdf2Block(hmacFunction, password, salt, iterations, i + 1)
+    )
+  ).slice(0, derivedKeyLength);
+
+const sha512HashLength = 64;
+
+/**
+ * Derive a key from a password using PBKDF2 with HMAC-SHA512.
+ *
+ * @param sha512 an implementation of sha512
+ * @param password the password from which to derive the key
+ * @param salt the salt to use
+ * @param iterations the number of iterations to perform (at least `1`)
+ * @param derivedKeyLength the byte length of the key to derive
+ */
+export const pbkdf2HmacSha512 = (
+  sha512: Sha512,
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  derivedKeyLength: number
+) =>
+  pbkdf2(
+    (secret, message) => hmacSha512(sha512, secret, message),
+    sha512HashLength
+  )(password, salt, iterations, derivedKeyLength);
@@ -5,6 +5,9 @@ import * as elliptic from 'elliptic';
 import * as fc from 'fast-check';
 import * as secp256k1Node from 'secp256k1';
 import { getEmbeddedSecp256k1Binary } from '../bin/bin';
+import { binToHex, hexToBin } from '../utils';
+import { bchSchnorrVectors } from './bchSchnorr.spec.helper';
+import { bip340Vectors } from './bip340.spec.helper';
 import {
   instantiateSecp256k1,
   instantiateSecp256k1Bytes,
@@ -210,6 +213,77 @@ test('secp256k1.addTweakPublicKeyUncompressed', async t => {
   // perhaps future tests can do the math in JavaScript and compare with that.
 });
 
+test('secp256k1.combinePublicKeysCompressed', async t => {
+  const secp256k1 = await secp256k1Promise;
+  const one = hexToBin(
+    '0000000000000000000000000000000000000000000000000000000000000001'
+  );
+  const generator = secp256k1.derivePublicKeyCompressed(one);
+  t.deepEqual(
+    secp256k1.combinePublicKeysCompressed([pubkeyUncompressed]),
+    pubkeyCompressed
+  );
+  t.deepEqual(
+    secp256k1.combinePublicKeysCompressed([pubkeyCompressed, generator]),
+    secp256k1.addTweakPublicKeyCompressed(pubkeyCompressed, one)
+  );
+  t.throws(() => secp256k1.combinePublicKeysCompressed([]));
+  t.throws(() =>
+    secp256k1.combinePublicKeysCompressed([
+      pubkeyCompressed,
+      new Uint8Array(33)
+    ])
+  );
+  t.throws(() =>
+    secp256k1.combinePublicKeysCompressed([
+      pubkeyCompressed,
+      secp256k1.negatePublicKeyCompressed(pubkeyCompressed)
+    ])
+  );
+  const equivalentToSecp256k1Node = fc.property(
+    fc.array(fcValidPrivateKey(secp256k1), 1, 5),
+    privateKeys => {
+      const publicKeys = privateKeys.map(secp256k1.derivePublicKeyCompressed);
+      t.deepEqual(
+        secp256k1.combinePublicKeysCompressed(publicKeys),
+        new Uint8Array(
+          secp256k1Node.publicKeyCombine(
+            publicKeys.map(publicKey => Buffer.from(publicKey)),
+            true
+          )
+        )
+      );
+    }
+  );
+  t.notThrows(() => fc.assert(equivalentToSecp256k1Node));
+});
+
+test('secp256k1.combinePublicKeysUncompressed', async t => {
+  const secp256k1 = await secp256k1Promise;
+  t.deepEqual(
+    secp256k1.combinePublicKeysUncompressed([pubkeyCompressed]),
+    pubkeyUncompressed
+  );
+  t.throws(() => secp256k1.combinePublicKeysUncompressed([]));
+  t.throws(() => secp256k1.combinePublicKeysUncompressed([new Uint8Array(65)]));
+  const equivalentToPrivateKeyAddition = fc.property(
+    fcValidPrivateKey(secp256k1),
+    fcValidPrivateKey(secp256k1),
+    (privateKeyA, privateKeyB) => {
+      t.deepEqual(
+        secp256k1.combinePublicKeysUncompressed([
+          secp256k1.derivePublicKeyUncompressed(privateKeyA),
+          secp256k1.derivePublicKeyCompressed(privateKeyB)
+        ]),
+        secp256k1.derivePublicKeyUncompressed(
+          secp256k1.addTweakPrivateKey(privateKeyA, privateKeyB)
+        )
+      );
+    }
+  );
+  t.notThrows(() => fc.assert(equivalentToPrivateKeyAddition));
+});
+
 test('secp256k1.compressPublicKey', async t => {
   const secp256k1 = await secp256k1Promise;
   t.deepEqual(
@@ -504,6 +578,63 @@ test('secp256k1.mulTweakPublicKeyUncompressed', async t => {
   // perhaps future tests can do the math in JavaScript and compare with that.
 });
 
+test('secp256k1.negatePrivateKey', async t => {
+  const secp256k1 = await secp256k1Promise;
+  t.deepEqual(
+    binToHex(secp256k1.negatePrivateKey(privkey)),
+    '07a2b4275fc35ef936214b8486e7fc23f2bea9aea564ae5ebb00dbac248f5bee'
+  );
+  t.throws(() => secp256k1.negatePrivateKey(secp256k1OrderN));
+  const equivalentToSecp256k1Node = fc.property(
+    fcValidPrivateKey(secp256k1),
+    privateKey => {
+      const negated = secp256k1.negatePrivateKey(privateKey);
+      t.deepEqual(
+        negated,
+        new Uint8Array(secp256k1Node.privateKeyNegate(Buffer.from(privateKey)))
+      );
+      t.deepEqual(
+        secp256k1.derivePublicKeyCompressed(negated),
+        secp256k1.negatePublicKeyCompressed(
+          secp256k1.derivePublicKeyCompressed(privateKey)
+        )
+      );
+    }
+  );
+  t.notThrows(() => fc.assert(equivalentToSecp256k1Node));
+});
+
+test('secp256k1.negatePublicKeyCompressed', async t => {
+  const secp256k1 = await secp256k1Promise;
+  t.deepEqual(
+    binToHex(secp256k1.negatePublicKeyCompressed(pubkeyUncompressed)),
+    '0276ea9e36a75d2ecf9c93a0be76885e36f822529db22acfdc761c9b5b4544f5c5'
+  );
+  t.throws(() => secp256k1.negatePublicKeyCompressed(new Uint8Array(33)));
+});
+
+test('secp256k1.negatePublicKeyUncompressed', async t => {
+  const secp256k1 = await secp256k1Promise;
+  t.deepEqual(
+    secp256k1.negatePublicKeyUncompressed(
+      secp256k1.negatePublicKeyCompressed(pubkeyCompressed)
+    ),
+    pubkeyUncompressed
+  );
+  t.throws(() => secp256k1.negatePublicKeyUncompressed(new Uint8Array(65)));
+  const negatesYCoordinate = fc.property(
+    fcValidPrivateKey(secp256k1),
+    privateKey => {
+      const publicKey = secp256k1.derivePublicKeyUncompressed(privateKey);
+      const negated = secp256k1.negatePublicKeyUncompressed(publicKey);
+      t.deepEqual(negated.slice(0, 33), publicKey.slice(0, 33));
+      t.notDeepEqual(negated, publicKey);
+      t.deepEqual(secp256k1.negatePublicKeyUncompressed(negated), publicKey);
+    }
+  );
+  t.notThrows(() => fc.assert(negatesYCoordinate));
+});
+
 test('secp256k1.normalizeSignatureCompact', async t => {
   const secp256k1 = await secp256k1Promise;
   t.deepEqual(secp256k1.normalizeSignatureCompact(sigCompactHighS), sigCompact);
@@ -871,6 +1002,35 @@ test('secp256k1.validatePrivateKey', async t => {
   t.notThrows(() => fc.assert(equivalentToSecp256k1Node));
 });
 
+test('secp256k1.validatePublicKey', async t => {
+  const secp256k1 = await secp256k1Promise;
+  t.true(secp256k1.validatePublicKey(pubkeyCompressed));
+  t.true(secp256k1.validatePublicKey(pubkeyUncompressed));
+  // x = 7 is not on the curve
+  t.false(
+    secp256k1.validatePublicKey(
+      Uint8Array.from([0x02, ...Array(31).fill(0), 0x07])
+    )
+  );
+  t.false(secp256k1.validatePublicKey(new Uint8Array(33)));
+  t.false(secp256k1.validatePublicKey(pubkeyCompressed.slice(0, -1)));
+  t.false(
+    secp256k1.validatePublicKey(new Uint8Array([...pubkeyCompressed, 0]))
+  );
+  t.false(
+    secp256k1.validatePublicKey(new Uint8Array([...pubkeyUncompressed, 0]))
+  );
+  const equivalentToSecp256k1Node = fc.property(
+    fc
+      .array(fc.integer(0, 255), 32, 32)
+      .map(random => Uint8Array.from([0x02, ...random])),
+    publicKey =>
+      secp256k1.validatePublicKey(publicKey) ===
+      secp256k1Node.publicKeyVerify(Buffer.from(publicKey))
+  );
+  t.notThrows(() => fc.assert(equivalentToSecp256k1Node));
+});
+
 test('secp256k1.verifySignatureCompact', async t => {
   const secp256k1 = await secp256k1Promise;
   t.true(
@@ -1082,6 +1242,402 @@ test('secp256k1.verifySignatureDERLowS', async t => {
   t.notThrows(() => fc.assert(equivalentToElliptic));
 });
 
+test('secp256k1.derivePublicKeyXOnly', async t => {
+  const secp256k1 = await secp256k1Promise;
+  bip340Vectors
+    .filter(vector => vector.privateKey !== '')
+    .forEach(vector => {
+      t.deepEqual(
+        binToHex(secp256k1.derivePublicKeyXOnly(hexToBin(vector.privateKey))),
+        vector.publicKey
+      );
+    });
+  t.deepEqual(
+    secp256k1.derivePublicKeyXOnly(privkey),
+    pubkeyCompressed.slice(1)
+  );
+  t.throws(() => secp256k1.derivePublicKeyXOnly(secp256k1OrderN));
+  const equivalentToCompressed = fc.property(
+    fcValidPrivateKey(secp256k1),
+    privateKey => {
+      t.deepEqual(
+        secp256k1.derivePublicKeyXOnly(privateKey),
+        secp256k1.derivePublicKeyCompressed(privateKey).slice(1)
+      );
+    }
+  );
+  t.notThrows(() => fc.assert(equivalentToCompressed));
+});
+
+test('secp256k1.deriveSharedSecret', async t => {
+  const secp256k1 = await secp256k1Promise;
+  const sharedSecret = hexToBin(
+    'fc61d3cdbf3af90c600a67eaaa8bfa56018fa7d174489316c96c0ed129c7bfbc'
+  );
+  t.deepEqual(
+    secp256k1.deriveSharedSecret(keyTweakVal, pubkeyCompressed),
+    sharedSecret
+  );
+  t.deepEqual(
+    secp256k1.deriveSharedSecret(keyTweakVal, pubkeyUncompressed),
+    sharedSecret
+  );
+  t.deepEqual(
+    secp256k1.deriveSharedSecret(keyTweakVal, pubkeyCompressed, (x, y) =>
+      Uint8Array.from([...x, ...y])
+    ),
+    pubkeyTweakedMulUncompressed.slice(1)
+  );
+  t.throws(() =>
+    secp256k1.deriveSharedSecret(secp256k1OrderN, pubkeyCompressed)
+  );
+  t.throws(() =>
+    secp256k1.deriveSharedSecret(secp256k1OrderN, pubkeyCompressed, x => x)
+  );
+  t.throws(() => secp256k1.deriveSharedSecret(privkey, new Uint8Array(65)));
+  const equivalentToSecp256k1Node = fc.property(
+    fcValidPrivateKey(secp256k1),
+    fcValidPrivateKey(secp256k1),
+    (privateKeyA, privateKeyB) => {
+      const publicKeyB = secp256k1.derivePublicKeyCompressed(privateKeyB);
+      const secret = secp256k1.deriveSharedSecret(privateKeyA, publicKeyB);
+      t.deepEqual(
+        secret,
+        new Uint8Array(
+          secp256k1Node.ecdh(Buffer.from(publicKeyB), Buffer.from(privateKeyA))
+        )
+      );
+      t.deepEqual(
+        secret,
+        secp256k1.deriveSharedSecret(
+          privateKeyB,
+          secp256k1.derivePublicKeyUncompressed(privateKeyA)
+        )
+      );
+    }
+  );
+  t.notThrows(() => fc.assert(equivalentToSecp256k1Node));
+});
+
+test('secp256k1.signMessageHashSchnorr', async t => {
+  const secp256k1 = await secp256k1Promise;
+  bip340Vectors
+    .filter(vector => vector.privateKey !== '')
+    .forEach(vector => {
+      t.deepEqual(
+        binToHex(
+          secp256k1.signMessageHashSchnorr(
+            hexToBin(vector.privateKey),
+            hexToBin(vector.messageHash),
+            hexToBin(vector.auxiliaryRandomness)
+          )
+        ),
+        vector.signature,
+        `BIP340 vector ${vector.index}`
+      );
+    });
+  const [zeroAuxiliaryRandomness] = bip340Vectors;
+  t.deepEqual(
+    binToHex(
+      secp256k1.signMessageHashSchnorr(
+        hexToBin(zeroAuxiliaryRandomness.privateKey),
+        hexToBin(zeroAuxiliaryRandomness.messageHash)
+      )
+    ),
+    zeroAuxiliaryRandomness.signature
+  );
+  t.throws(() =>
+    secp256k1.signMessageHashSchnorr(secp256k1OrderN, messageHash)
+  );
+  [new Uint8Array(31), new Uint8Array(33)].forEach(auxiliaryRandomness => {
+    t.throws(
+      () =>
+        secp256k1.signMessageHashSchnorr(
+          hexToBin(zeroAuxiliaryRandomness.privateKey),
+          messageHash,
+          auxiliaryRandomness
+        ),
+      'Failed to sign message hash. The auxiliary randomness must be 32 bytes.'
+    );
+  });
+  [messageHash.slice(1), new Uint8Array([...messageHash, 0])].forEach(hash => {
+    t.throws(
+      () =>
+        secp256k1.signMessageHashSchnorr(
+          hexToBin(zeroAuxiliaryRandomness.privateKey),
+          hash
+        ),
+      'Failed to sign message hash. The message hash must be 32 bytes.'
+    );
+  });
+  const createsValidSignatures = fc.property(
+    fcValidPrivateKey(secp256k1),
+    fcUint8Array32(),
+    fcUint8Array32(),
+    (privateKey, hash, auxiliaryRandomness) => {
+      t.true(
+        secp256k1.verifySignatureSchnorr(
+          secp256k1.signMessageHashSchnorr(
+            privateKey,
+            hash,
+            auxiliaryRandomness
+          ),
+          secp256k1.derivePublicKeyXOnly(privateKey),
+          hash
+        )
+      );
+    }
+  );
+  t.notThrows(() => fc.assert(createsValidSignatures));
+});
+
+test('secp256k1.verifySignatureSchnorr', async t => {
+  const secp256k1 = await secp256k1Promise;
+  bip340Vectors.forEach(vector => {
+    t.is(
+      secp256k1.verifySignatureSchnorr(
+        hexToBin(vector.signature),
+        hexToBin(vector.publicKey),
+        hexToBin(vector.messageHash)
+      ),
+      vector.valid,
+      `BIP340 vector ${vector.index}: ${vector.comment}`
+    );
+  });
+  const [validVector] = bip340Vectors;
+  const signature = hexToBin(validVector.signature);
+  const publicKey = hexToBin(validVector.publicKey);
+  const hash = hexToBin(validVector.messageHash);
+  t.false(
+    secp256k1.verifySignatureSchnorr(signature.slice(0, -1), publicKey, hash)
+  );
+  // after a valid verification, the scratch space holds the valid inputs
+  t.true(secp256k1.verifySignatureSchnorr(signature, publicKey, hash));
+  t.false(
+    secp256k1.verifySignatureSchnorr(signature, publicKey.slice(0, -1), hash)
+  );
+  t.false(
+    secp256k1.verifySignatureSchnorr(
+      signature,
+      new Uint8Array([...publicKey, 0]),
+      hash
+    )
+  );
+  t.false(
+    secp256k1.verifySignatureSchnorr(signature, publicKey, hash.slice(0, -1))
+  );
+  t.false(
+    secp256k1.verifySignatureSchnorr(
+      signature,
+      publicKey,
+      new Uint8Array([...hash, 0])
+    )
+  );
+});
+
+test('secp256k1.signMessageHashSchnorrBCH', async t => {
+  const secp256k1 = await secp256k1Promise;
+  bchSchnorrVectors
+    .filter(vector => vector.privateKey !== '')
+    .forEach(vector => {
+      t.deepEqual(
+        binToHex(
+          secp256k1.signMessageHashSchnorrBCH(
+            hexToBin(vector.privateKey),
+            hexToBin(vector.messageHash)
+          )
+        ),
+        vector.signature,
+        `BCH Schnorr vector ${vector.index}`
+      );
+    });
+  t.throws(() =>
+    secp256k1.signMessageHashSchnorrBCH(secp256k1OrderN, messageHash)
+  );
+  [messageHash.slice(1), new Uint8Array([...messageHash, 0])].forEach(hash => {
+    t.throws(
+      () => secp256k1.signMessageHashSchnorrBCH(privkey, hash),
+      'Failed to sign message hash. The message hash must be 32 bytes.'
+    );
+  });
+  const createsValidSignatures = fc.property(
+    fcValidPrivateKey(secp256k1),
+    fcUint8Array32(),
+    (privateKey, hash) => {
+      const signature = secp256k1.signMessageHashSchnorrBCH(privateKey, hash);
+      t.is(signature.length, 64);
+      t.true(
+        secp256k1.verifySignatureSchnorrBCH(
+          signature,
+          secp256k1.derivePublicKeyCompressed(privateKey),
+          hash
+        )
+      );
+      t.true(
+        secp256k1.verifySignatureSchnorrBCH(
+          signature,
+          secp256k1.derivePublicKeyUncompressed(privateKey),
+          hash
+        )
+      );
+    }
+  );
+  t.notThrows(() => fc.assert(createsValidSignatures));
+});
+
+test('secp256k1.verifySignatureSchnorrBCH', async t => {
+  const secp256k1 = await secp256k1Promise;
+  bchSchnorrVectors.forEach(vector => {
+    t.is(
+      secp256k1.verifySignatureSchnorrBCH(
+        hexToBin(vector.signature),
+        hexToBin(vector.publicKey),
+        hexToBin(vector.messageHash)
+      ),
+      vector.valid,
+      `BCH Schnorr vector ${vector.index}: ${vector.comment}`
+    );
+  });
+  const [validVector] = bchSchnorrVectors;
+  const signature = hexToBin(validVector.signature);
+  const publicKey = hexToBin(validVector.publicKey);
+  const hash = hexToBin(validVector.messageHash);
+  t.false(
+    secp256k1.verifySignatureSchnorrBCH(signature.slice(0, -1), publicKey, hash)
+  );
+  // after a valid verification, the scratch space holds the valid inputs
+  t.true(secp256k1.verifySignatureSchnorrBCH(signature, publicKey, hash));
+  t.false(
+    secp256k1.verifySignatureSchnorrBCH(signature, publicKey.slice(0, -1), hash)
+  );
+  t.false(
+    secp256k1.verifySignatureSchnorrBCH(
+      signature,
+      new Uint8Array([...publicKey, 0]),
+      hash
+    )
+  );
+  t.false(
+    secp256k1.verifySignatureSchnorrBCH(signature, publicKey, hash.slice(0, -1))
+  );
+  t.false(
+    secp256k1.verifySignatureSchnorrBCH(
+      signature,
+      publicKey,
+      new Uint8Array([...hash, 0])
+    )
+  );
+  // signatures from BIP340 are not valid Bitcoin Cash Schnorr signatures
+  const [bip340Vector] = bip340Vectors;
+  t.false(
+    secp256k1.verifySignatureSchnorrBCH(
+      hexToBin(bip340Vector.signature),
+      secp256k1.derivePublicKeyCompressed(hexToBin(bip340Vector.privateKey)),
+      hexToBin(bip340Vector.messageHash)
+    )
+  );
+});
+
+test('secp256k1.addTweakPublicKeyXOnly', async t => {
+  const secp256k1 = await secp256k1Promise;
+  // a BIP341 key path output (no script tree)
+  t.deepEqual(
+    secp256k1.addTweakPublicKeyXOnly(
+      hexToBin(
+        'd6889cb081036e0faefa3a35157ad71086b123b2b144b649798b494c300a961d'
+      ),
+      hexToBin(
+        'b86e7be8f39bab32a6f2c0443abbc210f0edac0e2c53d501b36b64437d9c6c70'
+      )
+    ),
+    {
+      parity: 1,
+      publicKey: hexToBin(
+        '53a1f6e454df1aa2776a2814a721372d6258050de330b3c6d10ee8f4e0dda343'
+      )
+    }
+  );
+  t.throws(() =>
+    secp256k1.addTweakPublicKeyXOnly(
+      hexToBin(bip340Vectors[14].publicKey),
+      keyTweakVal
+    )
+  );
+  t.throws(() =>
+    secp256k1.addTweakPublicKeyXOnly(pubkeyCompressed.slice(1), secp256k1OrderN)
+  );
+  const xOnlyPublicKey = pubkeyCompressed.slice(1);
+  [xOnlyPublicKey.slice(0, -1), pubkeyCompressed].forEach(publicKey => {
+    t.throws(
+      () => secp256k1.addTweakPublicKeyXOnly(publicKey, keyTweakVal),
+      'Failed to parse public key.'
+    );
+  });
+  [keyTweakVal.slice(0, -1), new Uint8Array([...keyTweakVal, 0])].forEach(
+    tweakValue => {
+      t.throws(
+        () => secp256k1.addTweakPublicKeyXOnly(xOnlyPublicKey, tweakValue),
+        'Failed to add tweak. The tweak value must be 32 bytes.'
+      );
+    }
+  );
+});
+
+test('secp256k1.addTweakPrivateKeyXOnly', async t => {
+  const secp256k1 = await secp256k1Promise;
+  // the public key of this private key has an even Y coordinate
+  t.deepEqual(
+    binToHex(
+      secp256k1.addTweakPrivateKeyXOnly(
+        hexToBin(bip340Vectors[1].privateKey),
+        hexToBin(
+          '543455a6f0394c380698aaf13d8a0e3fcd42e8d01128ba3b52f262f1cff96801'
+        )
+      )
+    ),
+    '0c15a7097b2676a2c60a0371da7f0208757b21f89a94f4563aa4dd695153f6af'
+  );
+  // the public key of this private key has an odd Y coordinate
+  t.deepEqual(
+    binToHex(
+      secp256k1.addTweakPrivateKeyXOnly(
+        hexToBin(bip340Vectors[3].privateKey),
+        hexToBin(
+          '0dba42066948a3a96dff60f412cd658b290e12c6598d58e4bddd81d941ecbdc5'
+        )
+      )
+    ),
+    '027716dff1b53027bf0f0543e86678bb1696e2638a4db6901f988c4a6faca6b5'
+  );
+  t.throws(() =>
+    secp256k1.addTweakPrivateKeyXOnly(secp256k1OrderN, keyTweakVal)
+  );
+  t.throws(() => secp256k1.addTweakPrivateKeyXOnly(privkey, secp256k1OrderN));
+  [keyTweakVal.slice(0, -1), new Uint8Array([...keyTweakVal, 0])].forEach(
+    tweakValue => {
+      t.throws(
+        () => secp256k1.addTweakPrivateKeyXOnly(privkey, tweakValue),
+        'Failed to add tweak. The tweak value must be 32 bytes.'
+      );
+    }
+  );
+  const equivalentToPublicKeyTweak = fc.property(
+    fcValidPrivateKey(secp256k1),
+    privateKey => {
+      t.deepEqual(
+        secp256k1.derivePublicKeyXOnly(
+          secp256k1.addTweakPrivateKeyXOnly(privateKey, keyTweakVal)
+        ),
+        secp256k1.addTweakPublicKeyXOnly(
+          secp256k1.derivePublicKeyXOnly(privateKey),
+          keyTweakVal
+        ).publicKey
+      );
+    }
+  );
+  t.notThrows(() => fc.assert(equivalentToPublicKeyTweak));
+});
+
 test.todo(
   'Use fast-check to run random sets of library methods and confirm that results are as expected.'
   // tslint:disable-next-line:max-file-line-count
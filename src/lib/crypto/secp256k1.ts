@@ -5,6 +5,14 @@ import {
   instantiateSecp256k1WasmBytes,
   Secp256k1Wasm
 } from '../bin/bin';
+import {
+  Secp256k1Arithmetic,
+  wrapSecp256k1WasmArithmetic
+} from './secp256k1Arithmetic';
+import { Secp256k1Schnorr, wrapSecp256k1WasmSchnorr } from './secp256k1Schnorr';
+
+export { Secp256k1Arithmetic } from './secp256k1Arithmetic';
+export { Secp256k1Schnorr, XOnlyPublicKeyWithParity } from './secp256k1Schnorr';
 
 // tslint:disable-next-line:no-magic-numbers
 export type RecoveryId = 0 | 1 | 2 | 3;
@@ -40,7 +48,7 @@ export interface RecoverableSignature {
  * })();
  * ```
  */
-export interface Secp256k1 {
+export interface Secp256k1 extends Secp256k1Arithmetic, Secp256k1Schnorr {
   /**
    * Add `tweakValue` to the `privateKey`
    *
@@ -333,6 +341,16 @@ export interface Secp256k1 {
    */
   readonly validatePrivateKey: (privateKey: Uint8Array) => boolean;
 
+  /**
+   * Verify that a public key is a valid secp256k1 point in compressed (33
+   * bytes, header byte 0x02 or 0x03), uncompressed (65 bytes, header byte
+   * 0x04), or hybrid (65 bytes, header byte 0x06 or 0x07) format. Returns
+   * `false` for a public key of any other length.
+   *
+   * @param publicKey a public key to validate
+   */
+  readonly validatePublicKey: (publicKey: Uint8Array) => boolean;
+
   /**
    * Normalize a signature to lower-S form, then `verifySignatureCompactLowS`.
    *
@@ -455,16 +473,21 @@ const wrapSecp256k1Wasm = (
   // tslint:disable:no-expression-statement no-if-statement
 
   const parsePublicKey = (publicKey: Uint8Array) => {
+    if (
+      publicKey.length !== compressedPublicKeyLength &&
+      publicKey.length !== uncompressedPublicKeyLength
+    ) {
+      return false;
+    }
     secp256k1Wasm.heapU8.set(publicKey, publicKeyScratch);
-    return secp256k1Wasm.pubkeyParse(
-      contextPtr,
-      internalPublicKeyPtr,
-      publicKeyScratch,
-      // tslint:disable-next-line:no-magic-numbers
-      publicKey.length as 33 | 65
-    ) === 1
-      ? true
-      : false;
+    return (
+      secp256k1Wasm.pubkeyParse(
+        contextPtr,
+        internalPublicKeyPtr,
+        publicKeyScratch,
+        publicKey.length
+      ) === 1
+    );
   };
 
   const setLengthPtr = (value: number) => {
@@ -668,14 +691,13 @@ const wrapSecp256k1Wasm = (
           internalSigPtr
         );
         return secp256k1Wasm.readHeapU8(sigScratch, getLengthPtr()).slice();
-      } else {
-        secp256k1Wasm.signatureSerializeCompact(
-          contextPtr,
-          sigScratch,
-          internalSigPtr
-        );
-        return secp256k1Wasm.readHeapU8(sigScratch, compactSigLength).slice();
       }
+      secp256k1Wasm.signatureSerializeCompact(
+        contextPtr,
+        sigScratch,
+        internalSigPtr
+      );
+      return secp256k1Wasm.readHeapU8(sigScratch, compactSigLength).slice();
     });
   };
 
@@ -882,6 +904,8 @@ const wrapSecp256k1Wasm = (
   }
 
   return {
+    ...wrapSecp256k1WasmArithmetic(secp256k1Wasm, contextPtr),
+    ...wrapSecp256k1WasmSchnorr(secp256k1Wasm, contextPtr),
     addTweakPrivateKey,
     addTweakPublicKeyCompressed: addTweakPublicKey(true),
     addTweakPublicKeyUncompressed: addTweakPublicKey(false),
@@ -908,6 +932,7 @@ const wrapSecp256k1Wasm = (
         privateKey,
         () => secp256k1Wasm.seckeyVerify(contextPtr, privateKeyPtr) === 1
       ),
+    validatePublicKey: parsePublicKey,
     verifySignatureCompact: verifySignature(false, true),
     verifySignatureCompactLowS: verifySignature(false, false),
     verifySignatureDER: verifySignature(true, true),
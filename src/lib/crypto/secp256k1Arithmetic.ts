@@ -0,0 +1,330 @@
+import { CompressionFlag, Secp256k1Wasm } from '../bin/bin';
+
+/**
+ * The methods of [[Secp256k1]] which derive EC Diffie-Hellman shared secrets,
+ * combine public keys, or negate keys.
+ */
+export interface Secp256k1Arithmetic {
+  /**
+   * Add a number of `publicKeys` together (elliptic curve point addition),
+   * e.g. to aggregate keys or derive stealth addresses.
+   *
+   * Throws if no public keys are provided, if any of the provided public keys
+   * could not be parsed or are not valid, or if the sum is the point at
+   * infinity.
+   *
+   * The returned public key will be in compressed format.
+   *
+   * @param publicKeys an array of public keys to add together
+   */
+  readonly combinePublicKeysCompressed: (
+    publicKeys: ReadonlyArray<Uint8Array>
+  ) => Uint8Array;
+
+  /**
+   * Add a number of `publicKeys` together (elliptic curve point addition),
+   * e.g. to aggregate keys or derive stealth addresses.
+   *
+   * Throws if no public keys are provided, if any of the provided public keys
+   * could not be parsed or are not valid, or if the sum is the point at
+   * infinity.
+   *
+   * The returned public key will be in uncompressed format.
+   *
+   * @param publicKeys an array of public keys to add together
+   */
+  readonly combinePublicKeysUncompressed: (
+    publicKeys: ReadonlyArray<Uint8Array>
+  ) => Uint8Array;
+
+  /**
+   * Derive an EC Diffie-Hellman shared secret from a valid secp256k1 private
+   * key and another party's public key. Both parties derive the same secret
+   * from their own private key and the other party's public key.
+   *
+   * By default, the shared secret is the 32-byte sha256 hash of the compressed
+   * serialization of the shared point (as in libsecp256k1), and the shared
+   * point is never exposed to JavaScript.
+   *
+   * To derive a different secret, provide a `hashFunction`. Note, this exposes
+   * the shared point: `hashFunction` is a JavaScript function which receives
+   * the full, uncompressed shared point (its 32-byte X and Y coordinates), so
+   * the point is held in JavaScript memory until it is garbage collected.
+   *
+   * Throws if the provided private key is not valid (see `validatePrivateKey`)
+   * or if the public key could not be parsed.
+   *
+   * @param privateKey a valid secp256k1 private key
+   * @param publicKey the other party's public key, in either compressed
+   * (33-byte) or uncompressed (65-byte) format
+   * @param hashFunction an optional function with which to hash the X and Y
+   * coordinates of the shared point (which are exposed to this function)
+   */
+  readonly deriveSharedSecret: (
+    privateKey: Uint8Array,
+    publicKey: Uint8Array,
+    hashFunction?: (x: Uint8Array, y: Uint8Array) => Uint8Array
+  ) => Uint8Array;
+
+  /**
+   * Negate a `privateKey` modulo the order of the curve. The public key of the
+   * result is the negation of the public key of `privateKey`.
+   *
+   * Throws if the provided private key is not valid (see `validatePrivateKey`).
+   *
+   * @param privateKey a valid secp256k1 private key
+   */
+  readonly negatePrivateKey: (privateKey: Uint8Array) => Uint8Array;
+
+  /**
+   * Negate a `publicKey` (i.e. negate its Y coordinate).
+   *
+   * Throws if the provided public key could not be parsed or is not valid.
+   *
+   * The returned public key will be in compressed format.
+   *
+   * @param publicKey a public key
+   */
+  readonly negatePublicKeyCompressed: (publicKey: Uint8Array) => Uint8Array;
+
+  /**
+   * Negate a `publicKey` (i.e. negate its Y coordinate).
+   *
+   * Throws if the provided public key could not be parsed or is not valid.
+   *
+   * The returned public key will be in uncompressed format.
+   *
+   * @param publicKey a public key
+   */
+  readonly negatePublicKeyUncompressed: (publicKey: Uint8Array) => Uint8Array;
+}
+
+/**
+ * Wrap the EC Diffie-Hellman, key combination, and key negation methods of a
+ * [[Secp256k1Wasm]] instance. This wrapper allocates its own scratch space, so
+ * it can share a context with the wrapper in `secp256k1.ts`.
+ *
+ * @param secp256k1Wasm a Secp256k1Wasm object
+ * @param contextPtr pointer to a context object
+ */
+export const wrapSecp256k1WasmArithmetic = (
+  secp256k1Wasm: Secp256k1Wasm,
+  contextPtr: number
+): Secp256k1Arithmetic => {
+  const internalPublicKeyLength = 64;
+  const compressedPublicKeyLength = 33;
+  const uncompressedPublicKeyLength = 65;
+  const privateKeyLength = 32;
+  const sharedSecretLength = 32;
+  const coordinateLength = 32;
+  const pointerLength = 4;
+
+  const publicKeyScratch = secp256k1Wasm.malloc(uncompressedPublicKeyLength);
+  const internalPublicKeyPtr = secp256k1Wasm.malloc(internalPublicKeyLength);
+  const privateKeyPtr = secp256k1Wasm.malloc(privateKeyLength);
+  const sharedSecretPtr = secp256k1Wasm.malloc(sharedSecretLength);
+  // tslint:disable-next-line:no-magic-numbers
+  const lengthPtr = secp256k1Wasm.malloc(4);
+  // tslint:disable-next-line:no-bitwise no-magic-numbers
+  const lengthPtrView32 = lengthPtr >> 2;
+
+  // tslint:disable:no-expression-statement no-if-statement
+
+  const zeroOutPtr = (pointer: number, bytes: number) => {
+    secp256k1Wasm.heapU8.fill(0, pointer, pointer + bytes);
+  };
+
+  const withPrivateKey = <T>(
+    privateKey: Uint8Array,
+    instructions: () => T
+  ): T => {
+    secp256k1Wasm.heapU8.set(privateKey, privateKeyPtr);
+    const ret = instructions();
+    zeroOutPtr(privateKeyPtr, privateKeyLength);
+    return ret;
+  };
+
+  const parsePublicKey = (
+    publicKey: Uint8Array,
+    outputPtr = internalPublicKeyPtr
+  ) => {
+    if (
+      publicKey.length !== compressedPublicKeyLength &&
+      publicKey.length !== uncompressedPublicKeyLength
+    ) {
+      return false;
+    }
+    secp256k1Wasm.heapU8.set(publicKey, publicKeyScratch);
+    return (
+      secp256k1Wasm.pubkeyParse(
+        contextPtr,
+        outputPtr,
+        publicKeyScratch,
+        publicKey.length
+      ) === 1
+    );
+  };
+
+  const getSerializedPublicKey = (compressed: boolean) => {
+    const length = compressed
+      ? compressedPublicKeyLength
+      : uncompressedPublicKeyLength;
+    secp256k1Wasm.heapU32.set([length], lengthPtrView32);
+    secp256k1Wasm.pubkeySerialize(
+      contextPtr,
+      publicKeyScratch,
+      lengthPtr,
+      internalPublicKeyPtr,
+      compressed ? CompressionFlag.COMPRESSED : CompressionFlag.UNCOMPRESSED
+    );
+    return secp256k1Wasm
+      .readHeapU8(publicKeyScratch, secp256k1Wasm.heapU32[lengthPtrView32])
+      .slice();
+  };
+
+  const computeSharedSecret = () => {
+    if (
+      secp256k1Wasm.ecdh(
+        contextPtr,
+        sharedSecretPtr,
+        internalPublicKeyPtr,
+        privateKeyPtr
+      ) !== 1
+    ) {
+      throw new Error(
+        'Failed to derive shared secret. The private key is not valid.'
+      );
+    }
+    const sharedSecret = secp256k1Wasm
+      .readHeapU8(sharedSecretPtr, sharedSecretLength)
+      .slice();
+    zeroOutPtr(sharedSecretPtr, sharedSecretLength);
+    return sharedSecret;
+  };
+
+  /**
+   * JavaScript functions can't be used as libsecp256k1 `hashfp` callbacks, so
+   * the shared point is computed with `pubkeyTweakMul` and its coordinates are
+   * passed to the custom hash function in JavaScript. The point (and the
+   * private key) are zeroed out of WebAssembly memory first.
+   */
+  const computeSharedPoint = () => {
+    if (
+      secp256k1Wasm.pubkeyTweakMul(
+        contextPtr,
+        internalPublicKeyPtr,
+        privateKeyPtr
+      ) !== 1
+    ) {
+      throw new Error(
+        'Failed to derive shared secret. The private key is not valid.'
+      );
+    }
+    const sharedPoint = getSerializedPublicKey(false);
+    zeroOutPtr(internalPublicKeyPtr, internalPublicKeyLength);
+    zeroOutPtr(publicKeyScratch, uncompressedPublicKeyLength);
+    return sharedPoint;
+  };
+
+  const deriveSharedSecret = (
+    privateKey: Uint8Array,
+    publicKey: Uint8Array,
+    hashFunction?: (x: Uint8Array, y: Uint8Array) => Uint8Array
+  ) => {
+    if (!parsePublicKey(publicKey)) {
+      throw new Error('Failed to parse public key.');
+    }
+    if (hashFunction === undefined) {
+      return withPrivateKey<Uint8Array>(privateKey, computeSharedSecret);
+    }
+    const sharedPoint = withPrivateKey<Uint8Array>(
+      privateKey,
+      computeSharedPoint
+    );
+    const x = sharedPoint.slice(1, coordinateLength + 1);
+    const y = sharedPoint.slice(coordinateLength + 1);
+    sharedPoint.fill(0);
+    return hashFunction(x, y);
+  };
+
+  /**
+   * The number of public keys to combine is not fixed, so the space for them
+   * (and for the array of pointers to them) is allocated for each call and
+   * `free`d after the public keys are combined into `internalPublicKeyPtr`.
+   */
+  const combineInternalPublicKeys = (publicKeys: ReadonlyArray<Uint8Array>) => {
+    const internalPublicKeysPtr = secp256k1Wasm.malloc(
+      internalPublicKeyLength * publicKeys.length
+    );
+    const pointersPtr = secp256k1Wasm.malloc(pointerLength * publicKeys.length);
+    // tslint:disable-next-line:no-bitwise no-magic-numbers
+    const pointersPtrView32 = pointersPtr >> 2;
+    const parsed = publicKeys.every((publicKey, index) => {
+      const pointer = internalPublicKeysPtr + index * internalPublicKeyLength;
+      secp256k1Wasm.heapU32.set([pointer], pointersPtrView32 + index);
+      return parsePublicKey(publicKey, pointer);
+    });
+    const combined =
+      parsed &&
+      secp256k1Wasm.pubkeyCombine(
+        contextPtr,
+        internalPublicKeyPtr,
+        pointersPtr,
+        publicKeys.length
+      ) === 1;
+    secp256k1Wasm.free(pointersPtr);
+    secp256k1Wasm.free(internalPublicKeysPtr);
+    if (!parsed) {
+      return 'Failed to parse public key.';
+    }
+    if (!combined) {
+      return 'Failed to combine public keys. The sum is the point at infinity.';
+    }
+    return undefined;
+  };
+
+  const combinePublicKeys = (
+    compressed: boolean
+  ): ((publicKeys: ReadonlyArray<Uint8Array>) => Uint8Array) => publicKeys => {
+    if (publicKeys.length === 0) {
+      throw new Error(
+        'Failed to combine public keys. At least one public key is required.'
+      );
+    }
+    const error = combineInternalPublicKeys(publicKeys);
+    if (error !== undefined) {
+      throw new Error(error);
+    }
+    return getSerializedPublicKey(compressed);
+  };
+
+  const negatePublicKey = (
+    compressed: boolean
+  ): ((publicKey: Uint8Array) => Uint8Array) => publicKey => {
+    if (!parsePublicKey(publicKey)) {
+      throw new Error('Failed to parse public key.');
+    }
+    secp256k1Wasm.pubkeyNegate(contextPtr, internalPublicKeyPtr);
+    return getSerializedPublicKey(compressed);
+  };
+
+  const negatePrivateKey = (privateKey: Uint8Array) =>
+    withPrivateKey<Uint8Array>(privateKey, () => {
+      if (secp256k1Wasm.privkeyNegate(contextPtr, privateKeyPtr) !== 1) {
+        throw new Error(
+          'Failed to negate private key. The private key is not valid.'
+        );
+      }
+      return secp256k1Wasm.readHeapU8(privateKeyPtr, privateKeyLength).slice();
+    });
+
+  return {
+    combinePublicKeysCompressed: combinePublicKeys(true),
+    combinePublicKeysUncompressed: combinePublicKeys(false),
+    deriveSharedSecret,
+    negatePrivateKey,
+    negatePublicKeyCompressed: negatePublicKey(true),
+    negatePublicKeyUncompressed: negatePublicKey(false)
+  };
+  // tslint:enable:no-expression-statement no-if-statement
+};
@@ -0,0 +1,481 @@
+import { Secp256k1Wasm } from '../bin/bin';
+
+/**
+ * An x-only public key (as used by BIP340 and Taproot), along with the parity
+ * of the Y coordinate of the full public key it represents.
+ */
+export interface XOnlyPublicKeyWithParity {
+  /**
+   * `1` if the Y coordinate of the full public key is odd, otherwise `0`.
+   */
+  readonly parity: 0 | 1;
+  /**
+   * The 32-byte x-only public key.
+   */
+  readonly publicKey: Uint8Array;
+}
+
+/**
+ * The methods of [[Secp256k1]] which use x-only public keys or produce and
+ * verify Schnorr signatures (BIP340 or Bitcoin Cash).
+ */
+export interface Secp256k1Schnorr {
+  /**
+   * Tweak a `privateKey` for use with an x-only public key (e.g. a Taproot
+   * output key): `privateKey` is negated if its public key has an odd Y
+   * coordinate, then `tweakValue` is added to it.
+   *
+   * The x-only public key of the result is equal to the result of
+   * `addTweakPublicKeyXOnly` with the same `tweakValue` applied to the x-only
+   * public key of `privateKey`.
+   *
+   * Throws if the private key is invalid, if `tweakValue` is not 32 bytes, or
+   * if the addition failed.
+   *
+   * @param privateKey a valid secp256k1 private key
+   * @param tweakValue 256 bit value to tweak by (BE)
+   */
+  readonly addTweakPrivateKeyXOnly: (
+    privateKey: Uint8Array,
+    tweakValue: Uint8Array
+  ) => Uint8Array;
+
+  /**
+   * Tweak an x-only `publicKey` by adding `tweakValue` times the generator to
+   * it, e.g. to derive a Taproot output key from an internal key (BIP341).
+   *
+   * Returns the x-only tweaked public key along with the parity of its Y
+   * coordinate (required to spend a Taproot output using a script path).
+   *
+   * Throws if the provided public key could not be parsed, is not valid, if
+   * `tweakValue` is not 32 bytes, or if the addition failed.
+   *
+   * @param publicKey a 32-byte x-only public key
+   * @param tweakValue 256 bit value to tweak by (BE)
+   */
+  readonly addTweakPublicKeyXOnly: (
+    publicKey: Uint8Array,
+    tweakValue: Uint8Array
+  ) => XOnlyPublicKeyWithParity;
+
+  /**
+   * Derive a 32-byte x-only public key (as used by BIP340 and Taproot) from a
+   * valid secp256k1 private key.
+   *
+   * Throws if the provided private key is not valid (see `validatePrivateKey`).
+   *
+   * @param privateKey a valid secp256k1 private key
+   */
+  readonly derivePublicKeyXOnly: (privateKey: Uint8Array) => Uint8Array;
+
+  /**
+   * Create a 64-byte BIP340 Schnorr signature.
+   *
+   * Signing is deterministic for a given `auxiliaryRandomness`. BIP340
+   * recommends providing 32 bytes of fresh randomness for each signature to
+   * protect against side-channel attacks. If `auxiliaryRandomness` is not
+   * provided, 32 zero bytes are used.
+   *
+   * Throws if the provided private key is not valid (see `validatePrivateKey`),
+   * if `messageHash` is not 32 bytes, or if `auxiliaryRandomness` is provided
+   * but is not 32 bytes.
+   *
+   * @param privateKey a valid secp256k1 private key
+   * @param messageHash the 32-byte message hash to be signed
+   * @param auxiliaryRandomness 32 bytes of fresh randomness (optional)
+   */
+  readonly signMessageHashSchnorr: (
+    privateKey: Uint8Array,
+    messageHash: Uint8Array,
+    auxiliaryRandomness?: Uint8Array
+  ) => Uint8Array;
+
+  /**
+   * Create a 64-byte Bitcoin Cash Schnorr signature (as specified in the May
+   * 2019 Bitcoin Cash upgrade), e.g. for use with `OP_CHECKSIG` or
+   * `OP_CHECKDATASIG`. The nonce is generated deterministically using RFC6979
+   * (with the algorithm identifier `Schnorr+SHA256  `).
+   *
+   * Note, this scheme is not compatible with BIP340 (see
+   * `signMessageHashSchnorr`): the challenge commits to the full, compressed
+   * public key, and `R` is required to have a Y coordinate which is a
+   * quadratic residue (rather than an even Y coordinate).
+   *
+   * Throws if the provided private key is not valid (see `validatePrivateKey`),
+   * or if `messageHash` is not 32 bytes.
+   *
+   * @param privateKey a valid secp256k1 private key
+   * @param messageHash the 32-byte message hash to be signed
+   */
+  readonly signMessageHashSchnorrBCH: (
+    privateKey: Uint8Array,
+    messageHash: Uint8Array
+  ) => Uint8Array;
+
+  /**
+   * Verify a 64-byte BIP340 Schnorr `signature` using the provided x-only
+   * `publicKey` and `messageHash`.
+   *
+   * Returns `false` if the signature, public key, or message hash is not of the
+   * expected length.
+   *
+   * @param signature a 64-byte BIP340 Schnorr signature to verify
+   * @param publicKey a 32-byte x-only public key
+   * @param messageHash the 32-byte message hash signed by the signature
+   */
+  readonly verifySignatureSchnorr: (
+    signature: Uint8Array,
+    publicKey: Uint8Array,
+    messageHash: Uint8Array
+  ) => boolean;
+
+  /**
+   * Verify a 64-byte Bitcoin Cash Schnorr `signature` (see
+   * `signMessageHashSchnorrBCH`) using the provided `publicKey` and
+   * `messageHash`.
+   *
+   * Returns `false` if the signature, public key, or message hash is not of the
+   * expected length.
+   *
+   * @param signature a 64-byte Bitcoin Cash Schnorr signature to verify
+   * @param publicKey a public key, in either compressed (33-byte) or
+   * uncompressed (65-byte) format
+   * @param messageHash the 32-byte message hash signed by the signature
+   */
+  readonly verifySignatureSchnorrBCH: (
+    signature: Uint8Array,
+    publicKey: Uint8Array,
+    messageHash: Uint8Array
+  ) => boolean;
+}
+
+/**
+ * Wrap the Schnorr and x-only public key methods of a [[Secp256k1Wasm]]
+ * instance. This wrapper allocates its own scratch space, so it can share a
+ * context with the wrapper in `secp256k1.ts`.
+ *
+ * @param secp256k1Wasm a Secp256k1Wasm object
+ * @param contextPtr pointer to a context object, initialized for signing and
+ * verification
+ */
+export const wrapSecp256k1WasmSchnorr = (
+  secp256k1Wasm: Secp256k1Wasm,
+  contextPtr: number
+): Secp256k1Schnorr => {
+  const messageHashLength = 32;
+  const internalPublicKeyLength = 64;
+  const compressedPublicKeyLength = 33;
+  const uncompressedPublicKeyLength = 65;
+  const privateKeyLength = 32;
+  const keypairLength = 96;
+  const xOnlyPublicKeyLength = 32;
+  const internalXOnlyPublicKeyLength = 64;
+  const schnorrSigLength = 64;
+  const auxiliaryRandomnessLength = 32;
+  const tweakValueLength = 32;
+
+  const sigScratch = secp256k1Wasm.malloc(schnorrSigLength);
+  const publicKeyScratch = secp256k1Wasm.malloc(uncompressedPublicKeyLength);
+  const messageHashScratch = secp256k1Wasm.malloc(messageHashLength);
+  const internalPublicKeyPtr = secp256k1Wasm.malloc(internalPublicKeyLength);
+  const privateKeyPtr = secp256k1Wasm.malloc(privateKeyLength);
+  const keypairPtr = secp256k1Wasm.malloc(keypairLength);
+  const internalXOnlyPublicKeyPtr = secp256k1Wasm.malloc(
+    internalXOnlyPublicKeyLength
+  );
+  const auxiliaryRandomnessScratch = secp256k1Wasm.malloc(
+    auxiliaryRandomnessLength
+  );
+  // tslint:disable-next-line:no-magic-numbers
+  const parityPtr = secp256k1Wasm.malloc(4);
+  // tslint:disable-next-line:no-bitwise no-magic-numbers
+  const parityPtrView32 = parityPtr >> 2;
+
+  // tslint:disable:no-expression-statement no-if-statement
+
+  const zeroOutPtr = (pointer: number, bytes: number) => {
+    secp256k1Wasm.heapU8.fill(0, pointer, pointer + bytes);
+  };
+
+  const withPrivateKey = <T>(
+    privateKey: Uint8Array,
+    instructions: () => T
+  ): T => {
+    secp256k1Wasm.heapU8.set(privateKey, privateKeyPtr);
+    const ret = instructions();
+    zeroOutPtr(privateKeyPtr, privateKeyLength);
+    return ret;
+  };
+
+  const fillMessageHashScratch = (messageHash: Uint8Array) => {
+    secp256k1Wasm.heapU8.set(messageHash, messageHashScratch);
+  };
+
+  const parsePublicKey = (publicKey: Uint8Array) => {
+    if (
+      publicKey.length !== compressedPublicKeyLength &&
+      publicKey.length !== uncompressedPublicKeyLength
+    ) {
+      return false;
+    }
+    secp256k1Wasm.heapU8.set(publicKey, publicKeyScratch);
+    return (
+      secp256k1Wasm.pubkeyParse(
+        contextPtr,
+        internalPublicKeyPtr,
+        publicKeyScratch,
+        publicKey.length
+      ) === 1
+    );
+  };
+
+  const getSerializedXOnlyPublicKey = (): XOnlyPublicKeyWithParity => {
+    secp256k1Wasm.xOnlyPubkeyFromPubkey(
+      contextPtr,
+      internalXOnlyPublicKeyPtr,
+      parityPtr,
+      internalPublicKeyPtr
+    );
+    secp256k1Wasm.xOnlyPubkeySerialize(
+      contextPtr,
+      publicKeyScratch,
+      internalXOnlyPublicKeyPtr
+    );
+    return {
+      parity: secp256k1Wasm.heapU32[parityPtrView32] as 0 | 1,
+      publicKey: secp256k1Wasm
+        .readHeapU8(publicKeyScratch, xOnlyPublicKeyLength)
+        .slice()
+    };
+  };
+
+  const parseXOnlyPublicKey = (publicKey: Uint8Array) => {
+    if (publicKey.length !== xOnlyPublicKeyLength) {
+      return false;
+    }
+    secp256k1Wasm.heapU8.set(publicKey, publicKeyScratch);
+    return (
+      secp256k1Wasm.xOnlyPubkeyParse(
+        contextPtr,
+        internalXOnlyPublicKeyPtr,
+        publicKeyScratch
+      ) === 1
+    );
+  };
+
+  const derivePublicKeyXOnly = (privateKey: Uint8Array) => {
+    const invalid = withPrivateKey<boolean>(
+      privateKey,
+      () =>
+        secp256k1Wasm.pubkeyCreate(
+          contextPtr,
+          internalPublicKeyPtr,
+          privateKeyPtr
+        ) !== 1
+    );
+    if (invalid) {
+      throw new Error('Cannot derive public key from invalid private key.');
+    }
+    return getSerializedXOnlyPublicKey().publicKey;
+  };
+
+  const withKeypair = <T>(
+    privateKey: Uint8Array,
+    errorMessage: string,
+    instructions: () => T
+  ): T =>
+    withPrivateKey<T>(privateKey, () => {
+      if (
+        secp256k1Wasm.keypairCreate(contextPtr, keypairPtr, privateKeyPtr) !== 1
+      ) {
+        throw new Error(errorMessage);
+      }
+      const ret = instructions();
+      zeroOutPtr(keypairPtr, keypairLength);
+      return ret;
+    });
+
+  /**
+   * When no `auxiliaryRandomness` is provided, 32 zero bytes are passed to
+   * libsecp256k1 (rather than `NULL`, which would skip masking the private key
+   * and produce a signature which differs from BIP340).
+   */
+  const signMessageHashSchnorr = (
+    privateKey: Uint8Array,
+    messageHash: Uint8Array,
+    auxiliaryRandomness?: Uint8Array
+  ) => {
+    if (messageHash.length !== messageHashLength) {
+      throw new Error(
+        'Failed to sign message hash. The message hash must be 32 bytes.'
+      );
+    }
+    if (
+      auxiliaryRandomness !== undefined &&
+      auxiliaryRandomness.length !== auxiliaryRandomnessLength
+    ) {
+      throw new Error(
+        'Failed to sign message hash. The auxiliary randomness must be 32 bytes.'
+      );
+    }
+    fillMessageHashScratch(messageHash);
+    if (auxiliaryRandomness === undefined) {
+      zeroOutPtr(auxiliaryRandomnessScratch, auxiliaryRandomnessLength);
+    } else {
+      secp256k1Wasm.heapU8.set(auxiliaryRandomness, auxiliaryRandomnessScratch);
+    }
+    return withKeypair<Uint8Array>(
+      privateKey,
+      'Failed to sign message hash. The private key is not valid.',
+      () => {
+        secp256k1Wasm.schnorrSign(
+          contextPtr,
+          sigScratch,
+          messageHashScratch,
+          keypairPtr,
+          auxiliaryRandomnessScratch
+        );
+        return secp256k1Wasm.readHeapU8(sigScratch, schnorrSigLength).slice();
+      }
+    );
+  };
+
+  const verifySignatureSchnorr = (
+    signature: Uint8Array,
+    publicKey: Uint8Array,
+    messageHash: Uint8Array
+  ) => {
+    if (
+      signature.length !== schnorrSigLength ||
+      messageHash.length !== messageHashLength ||
+      !parseXOnlyPublicKey(publicKey)
+    ) {
+      return false;
+    }
+    secp256k1Wasm.heapU8.set(signature, sigScratch);
+    fillMessageHashScratch(messageHash);
+    return (
+      secp256k1Wasm.schnorrVerify(
+        contextPtr,
+        sigScratch,
+        messageHashScratch,
+        internalXOnlyPublicKeyPtr
+      ) === 1
+    );
+  };
+
+  const signMessageHashSchnorrBCH = (
+    privateKey: Uint8Array,
+    messageHash: Uint8Array
+  ) => {
+    if (messageHash.length !== messageHashLength) {
+      throw new Error(
+        'Failed to sign message hash. The message hash must be 32 bytes.'
+      );
+    }
+    fillMessageHashScratch(messageHash);
+    return withPrivateKey<Uint8Array>(privateKey, () => {
+      if (
+        secp256k1Wasm.schnorrSignBCH(
+          contextPtr,
+          sigScratch,
+          messageHashScratch,
+          privateKeyPtr
+        ) !== 1
+      ) {
+        throw new Error(
+          'Failed to sign message hash. The private key is not valid.'
+        );
+      }
+      return secp256k1Wasm.readHeapU8(sigScratch, schnorrSigLength).slice();
+    });
+  };
+
+  const verifySignatureSchnorrBCH = (
+    signature: Uint8Array,
+    publicKey: Uint8Array,
+    messageHash: Uint8Array
+  ) => {
+    if (
+      signature.length !== schnorrSigLength ||
+      messageHash.length !== messageHashLength ||
+      !parsePublicKey(publicKey)
+    ) {
+      return false;
+    }
+    secp256k1Wasm.heapU8.set(signature, sigScratch);
+    fillMessageHashScratch(messageHash);
+    return (
+      secp256k1Wasm.schnorrVerifyBCH(
+        contextPtr,
+        sigScratch,
+        messageHashScratch,
+        internalPublicKeyPtr
+      ) === 1
+    );
+  };
+
+  const addTweakPrivateKeyXOnly = (
+    privateKey: Uint8Array,
+    tweakValue: Uint8Array
+  ) => {
+    if (tweakValue.length !== tweakValueLength) {
+      throw new Error('Failed to add tweak. The tweak value must be 32 bytes.');
+    }
+    fillMessageHashScratch(tweakValue);
+    return withKeypair<Uint8Array>(
+      privateKey,
+      'Private key is invalid or adding failed.',
+      () => {
+        if (
+          secp256k1Wasm.keypairXOnlyTweakAdd(
+            contextPtr,
+            keypairPtr,
+            messageHashScratch
+          ) !== 1
+        ) {
+          throw new Error('Private key is invalid or adding failed.');
+        }
+        secp256k1Wasm.keypairSec(contextPtr, privateKeyPtr, keypairPtr);
+        return secp256k1Wasm
+          .readHeapU8(privateKeyPtr, privateKeyLength)
+          .slice();
+      }
+    );
+  };
+
+  const addTweakPublicKeyXOnly = (
+    publicKey: Uint8Array,
+    tweakValue: Uint8Array
+  ) => {
+    if (tweakValue.length !== tweakValueLength) {
+      throw new Error('Failed to add tweak. The tweak value must be 32 bytes.');
+    }
+    if (!parseXOnlyPublicKey(publicKey)) {
+      throw new Error('Failed to parse public key.');
+    }
+    fillMessageHashScratch(tweakValue);
+    if (
+      secp256k1Wasm.xOnlyPubkeyTweakAdd(
+        contextPtr,
+        internalPublicKeyPtr,
+        internalXOnlyPublicKeyPtr,
+        messageHashScratch
+      ) !== 1
+    ) {
+      throw new Error('Adding failed');
+    }
+    return getSerializedXOnlyPublicKey();
+  };
+
+  return {
+    addTweakPrivateKeyXOnly,
+    addTweakPublicKeyXOnly,
+    derivePublicKeyXOnly,
+    signMessageHashSchnorr,
+    signMessageHashSchnorrBCH,
+    verifySignatureSchnorr,
+    verifySignatureSchnorrBCH
+  };
+  // tslint:enable:no-expression-statement no-if-statement
+};
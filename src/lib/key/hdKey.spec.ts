@@ -0,0 +1,366 @@
+// tslint:disable:no-expression-statement no-magic-numbers no-unsafe-any
+import test from 'ava';
+import * as fc from 'fast-check';
+import { Base58DecodingError, binToBase58Check } from '../bin/bin';
+import {
+  instantiateRipemd160,
+  instantiateSecp256k1,
+  instantiateSha256,
+  instantiateSha512
+} from '../crypto/crypto';
+import { binToHex, hexToBin } from '../utils';
+import {
+  DecodedHdKey,
+  decodeHdPrivateKey,
+  decodeHdPublicKey,
+  deriveHdPath,
+  deriveHdPrivateNodeChild,
+  deriveHdPrivateNodeFromSeed,
+  deriveHdPublicNode,
+  deriveHdPublicNodeChild,
+  deriveHdPublicPath,
+  encodeHdPrivateKey,
+  encodeHdPublicKey,
+  HdKeyDecodingError,
+  HdKeyDependencies,
+  HdKeyDerivationError,
+  HdPrivateNode,
+  HdPublicNode,
+  parseHdPath
+} from './hdKey';
+
+const dependenciesPromise = (async (): Promise<HdKeyDependencies> => ({
+  ripemd160: await instantiateRipemd160(),
+  secp256k1: await instantiateSecp256k1(),
+  sha256: await instantiateSha256(),
+  sha512: await instantiateSha512()
+}))();
+
+const getMasterNode = async (seed: string) => {
+  const dependencies = await dependenciesPromise;
+  return deriveHdPrivateNodeFromSeed(
+    dependencies,
+    hexToBin(seed)
+  ) as HdPrivateNode;
+};
+
+/**
+ * BIP32 test vector 1
+ */
+const vector1Seed = '000102030405060708090a0b0c0d0e0f';
+const vector1: ReadonlyArray<[string, string, string]> = [
+  [
+    'm',
+    'xprv9s21ZrQH143K3QTDL4LXw2F7HEK3wJUD2nW2nRk4stbPy6cq3jPPqjiChkVvvNKmPGJxWUtg6LnF5kejMRNNU3TGtRBeJgk33yuGBxrMPHi',
+    'xpub661MyMwAqRbcFtXgS5sYJABqqG9YLmC4Q1Rdap9gSE8NqtwybGhePY2gZ29ESFjqJoCu1Rupje8YtGqsefD265TMg7usUDFdp6W1EGMcet8'
+  ],
+  [
+    "m/0'",
+    'xprv9uHRZZhk6KAJC1avXpDAp4MDc3sQKNxDiPvvkX8Br5ngLNv1TxvUxt4cV1rGL5hj6KCesnDYUhd7oWgT11eZG7XnxHrnYeSvkzY7d2bhkJ7',
+    'xpub68Gmy5EdvgibQVfPdqkBBCHxA5htiqg55crXYuXoQRKfDBFA1WEjWgP6LHhwBZeNK1VTsfTFUHCdrfp1bgwQ9xv5ski8PX9rL2dZXvgGDnw'
+  ],
+  [
+    "m/0'/1",
+    'xprv9wTYmMFdV23N2TdNG573QoEsfRrWKQgWeibmLntzniatZvR9BmLnvSxqu53Kw1UmYPxLgboyZQaXwTCg8MSY3H2EU4pWcQDnRnrVA1xe8fs',
+    'xpub6ASuArnXKPbfEwhqN6e3mwBcDTgzisQN1wXN9BJcM47sSikHjJf3UFHKkNAWbWMiGj7Wf5uMash7SyYq527Hqck2AxYysAA7xmALppuCkwQ'
+  ],
+  [
+    "m/0'/1/2'/2/1000000000",
+    'xprvA41z7zogVVwxVSgdKUHDy1SKmdb533PjDz7J6N6mV6uS3ze1ai8FHa8kmHScGpWmj4WggLyQjgPie1rFSruoUihUZREPSL39UNdE3BBDu76',
+    'xpub6H1LXWLaKsWFhvm6RVpEL9P4KfRZSW7abD2ttkWP3SSQvnyA8FSVqNTEcYFgJS2UaFcxupHiYkro49S8yGasTvXEYBVPamhGW6cFJodrTHy'
+  ]
+];
+
+/**
+ * BIP32 test vector 3 (retention of leading zeros)
+ */
+const vector3Seed =
+  '4b381541583be4423346c643850da4b320e46a87ae3d2a4e6da11eba819cd4acba45d239319ac14f863b8d5ab5a0d0c64d2e8a1e7d1457df2e5a3c51c73235be';
+const vector3: ReadonlyArray<[string, string, string]> = [
+  [
+    'm',
+    'xprv9s21ZrQH143K25QhxbucbDDuQ4naNntJRi4KUfWT7xo4EKsHt2QJDu7KXp1A3u7Bi1j8ph3EGsZ9Xvz9dGuVrtHHs7pXeTzjuxBrCmmhgC6',
+    'xpub661MyMwAqRbcEZVB4dScxMAdx6d4nFc9nvyvH3v4gJL378CSRZiYmhRoP7mBy6gSPSCYk6SzXPTf3ND1cZAceL7SfJ1Z3GC8vBgp2epUt13'
+  ],
+  [
+    "m/0'",
+    'xprv9uPDJpEQgRQfDcW7BkF7eTya6RPxXeJCqCJGHuCJ4GiRVLzkTXBAJMu2qaMWPrS7AANYqdq6vcBcBUdJCVVFceUvJFjaPdGZ2y9WACViL4L',
+    'xpub68NZiKmJWnxxS6aaHmn81bvJeTESw724CRDs6HbuccFQN9Ku14VQrADWgqbhhTHBaohPX4CjNLf9fq9MYo6oDaPPLPxSb7gwQN3ih19Zm4Y'
+  ]
+];
+
+test('deriveHdPrivateNodeFromSeed', async t => {
+  const node = await getMasterNode(vector1Seed);
+  t.deepEqual(
+    binToHex(node.privateKey),
+    'e8f32e723decf4051aefac8e2c93c9c5b214313817cdb01a1494b917c8436b35'
+  );
+  t.deepEqual(
+    binToHex(node.chainCode),
+    '873dff81c02f525623fd1fe5167eac3a55a049de3d314bb42ee227ffed37d508'
+  );
+  t.deepEqual(node.childIndex, 0);
+  t.deepEqual(node.depth, 0);
+  t.deepEqual(node.parentFingerprint, new Uint8Array(4));
+});
+
+const testVector = (
+  seed: string,
+  vector: ReadonlyArray<[string, string, string]>
+) => async (t: import('ava').ExecutionContext) => {
+  const dependencies = await dependenciesPromise;
+  const master = await getMasterNode(seed);
+  vector.forEach(([path, xprv, xpub]) => {
+    const node = deriveHdPath(dependencies, master, path) as HdPrivateNode;
+    t.deepEqual(
+      encodeHdPrivateKey(dependencies, { network: 'mainnet', node }),
+      xprv,
+      path
+    );
+    t.deepEqual(
+      encodeHdPublicKey(dependencies, {
+        network: 'mainnet',
+        node: deriveHdPublicNode(dependencies, node)
+      }),
+      xpub,
+      path
+    );
+    t.deepEqual(decodeHdPrivateKey(dependencies, xprv), {
+      network: 'mainnet',
+      node
+    });
+    t.deepEqual(decodeHdPublicKey(dependencies, xpub), {
+      network: 'mainnet',
+      node: deriveHdPublicNode(dependencies, node)
+    });
+  });
+};
+
+test('deriveHdPath: BIP32 test vector 1', testVector(vector1Seed, vector1));
+test('deriveHdPath: BIP32 test vector 3', testVector(vector3Seed, vector3));
+
+test('deriveHdPublicPath', async t => {
+  const dependencies = await dependenciesPromise;
+  const xpub = decodeHdPublicKey(dependencies, vector1[1][2]) as DecodedHdKey<
+    HdPublicNode
+  >;
+  const derived = deriveHdPublicPath(
+    dependencies,
+    xpub.node,
+    'M/1'
+  ) as HdPublicNode;
+  t.deepEqual(
+    encodeHdPublicKey(dependencies, { network: 'mainnet', node: derived }),
+    vector1[2][2]
+  );
+  t.deepEqual(
+    deriveHdPublicPath(dependencies, xpub.node, "M/1'"),
+    HdKeyDerivationError.hardenedDerivationRequiresPrivateNode
+  );
+  t.deepEqual(
+    deriveHdPublicPath(dependencies, xpub.node, 'm/1'),
+    HdKeyDerivationError.invalidPath
+  );
+});
+
+test('deriveHdPrivateNodeChild and deriveHdPublicNodeChild: errors', async t => {
+  const dependencies = await dependenciesPromise;
+  const master = await getMasterNode(vector1Seed);
+  const publicMaster = deriveHdPublicNode(dependencies, master);
+  t.deepEqual(
+    deriveHdPrivateNodeChild(dependencies, master, 0x100000000),
+    HdKeyDerivationError.invalidChildIndex
+  );
+  t.deepEqual(
+    deriveHdPrivateNodeChild(dependencies, master, -1),
+    HdKeyDerivationError.invalidChildIndex
+  );
+  t.deepEqual(
+    deriveHdPublicNodeChild(dependencies, publicMaster, 0.5),
+    HdKeyDerivationError.invalidChildIndex
+  );
+  t.deepEqual(
+    deriveHdPublicNodeChild(dependencies, publicMaster, 0x80000000),
+    HdKeyDerivationError.hardenedDerivationRequiresPrivateNode
+  );
+  t.deepEqual(
+    deriveHdPath(dependencies, master, "M/0'"),
+    HdKeyDerivationError.invalidPath
+  );
+});
+
+test('parseHdPath', t => {
+  t.deepEqual(parseHdPath('m'), []);
+  t.deepEqual(parseHdPath("m/44'/145'/0'/0/5"), [
+    0x8000002c,
+    0x80000091,
+    0x80000000,
+    0,
+    5
+  ]);
+  t.deepEqual(parseHdPath('M/0/2147483647', 'M'), [0, 0x7fffffff]);
+  t.deepEqual(parseHdPath('M/0'), undefined);
+  t.deepEqual(parseHdPath('m/'), undefined);
+  t.deepEqual(parseHdPath('m/2147483648'), undefined);
+  t.deepEqual(parseHdPath('m/-1'), undefined);
+  t.deepEqual(parseHdPath("m/1''"), undefined);
+  t.deepEqual(parseHdPath('m/0x1'), undefined);
+});
+
+test('decodeHdPrivateKey and decodeHdPublicKey: errors', async t => {
+  const dependencies = await dependenciesPromise;
+  t.deepEqual(
+    decodeHdPrivateKey(dependencies, vector1[0][2]),
+    HdKeyDecodingError.privateKeyExpected
+  );
+  t.deepEqual(
+    decodeHdPublicKey(dependencies, vector1[0][1]),
+    HdKeyDecodingError.publicKeyExpected
+  );
+  t.deepEqual(
+    decodeHdPrivateKey(dependencies, vector1[0][1].slice(0, -1)),
+    Base58DecodingError.invalidChecksum
+  );
+  t.deepEqual(
+    decodeHdPublicKey(
+      dependencies,
+      binToBase58Check(dependencies.sha256, new Uint8Array(77))
+    ),
+    HdKeyDecodingError.incorrectLength
+  );
+});
+
+test('decodeHdPrivateKey and decodeHdPublicKey: BIP32 test vector 5', async t => {
+  const dependencies = await dependenciesPromise;
+  const publicKeys: ReadonlyArray<[string, HdKeyDecodingError]> = [
+    [
+      // pubkey version / prvkey mismatch
+      'xpub661MyMwAqRbcEYS8w7XLSVeEsBXy79zSzH1J8vCdxAZningWLdN3zgtU6LBpB85b3D2yc8sfvZU521AAwdZafEz7mnzBBsz4wKY5fTtTQBm',
+      HdKeyDecodingError.invalidPublicKey
+    ],
+    [
+      // prvkey version / pubkey mismatch
+      'xprv9s21ZrQH143K24Mfq5zL5MhWK9hUhhGbd45hLXo2Pq2oqzMMo63oStZzFGTQQD3dC4H2D5GBj7vWvSQaaBv5cxi9gafk7NF3pnBju6dwKvH',
+      HdKeyDecodingError.publicKeyExpected
+    ],
+    [
+      // invalid pubkey prefix 04
+      'xpub661MyMwAqRbcEYS8w7XLSVeEsBXy79zSzH1J8vCdxAZningWLdN3zgtU6Txnt3siSujt9RCVYsx4qHZGc62TG4McvMGcAUjeuwZdduYEvFn',
+      HdKeyDecodingError.invalidPublicKey
+    ],
+    [
+      // invalid pubkey prefix 01
+      'xpub661MyMwAqRbcEYS8w7XLSVeEsBXy79zSzH1J8vCdxAZningWLdN3zgtU6N8ZMMXctdiCjxTNq964yKkwrkBJJwpzZS4HS2fxvyYUA4q2Xe4',
+      HdKeyDecodingError.invalidPublicKey
+    ],
+    [
+      // zero depth with non-zero parent fingerprint
+      'xpub661no6RGEX3uJkY4bNnPcw4URcQTrSibUZ4NqJEw5eBkv7ovTwgiT91XX27VbEXGENhYRCf7hyEbWrR3FewATdCEebj6znwMfQkhRYHRLpJ',
+      HdKeyDecodingError.invalidParentFingerprint
+    ],
+    [
+      // zero depth with non-zero index
+      'xpub661MyMwAuDcm6CRQ5N4qiHKrJ39Xe1R1NyfouMKTTWcguwVcfrZJaNvhpebzGerh7gucBvzEQWRugZDuDXjNDRmXzSZe4c7mnTK97pTvGS8',
+      HdKeyDecodingError.invalidChildIndex
+    ],
+    [
+      // invalid pubkey 020000000000000000000000000000000000000000000000000000000000000007
+      'xpub661MyMwAqRbcEYS8w7XLSVeEsBXy79zSzH1J8vCdxAZningWLdN3zgtU6Q5JXayek4PRsn35jii4veMimro1xefsM58PgBMrvdYre8QyULY',
+      HdKeyDecodingError.invalidPublicKey
+    ]
+  ];
+  const privateKeys: ReadonlyArray<[
+    string,
+    HdKeyDecodingError | Base58DecodingError
+  ]> = [
+    [
+      // pubkey version / prvkey mismatch
+      'xpub661MyMwAqRbcEYS8w7XLSVeEsBXy79zSzH1J8vCdxAZningWLdN3zgtU6LBpB85b3D2yc8sfvZU521AAwdZafEz7mnzBBsz4wKY5fTtTQBm',
+      HdKeyDecodingError.privateKeyExpected
+    ],
+    [
+      // prvkey version / pubkey mismatch
+      'xprv9s21ZrQH143K24Mfq5zL5MhWK9hUhhGbd45hLXo2Pq2oqzMMo63oStZzFGTQQD3dC4H2D5GBj7vWvSQaaBv5cxi9gafk7NF3pnBju6dwKvH',
+      HdKeyDecodingError.invalidPrivateKey
+    ],
+    [
+      // invalid prvkey prefix 04
+      'xprv9s21ZrQH143K24Mfq5zL5MhWK9hUhhGbd45hLXo2Pq2oqzMMo63oStZzFGpWnsj83BHtEy5Zt8CcDr1UiRXuWCmTQLxEK9vbz5gPstX92JQ',
+      HdKeyDecodingError.invalidPrivateKey
+    ],
+    [
+      // invalid prvkey prefix 01
+      'xprv9s21ZrQH143K24Mfq5zL5MhWK9hUhhGbd45hLXo2Pq2oqzMMo63oStZzFAzHGBP2UuGCqWLTAPLcMtD9y5gkZ6Eq3Rjuahrv17fEQ3Qen6J',
+      HdKeyDecodingError.invalidPrivateKey
+    ],
+    [
+      // zero depth with non-zero parent fingerprint
+      'xprv9s2SPatNQ9Vc6GTbVMFPFo7jsaZySyzk7L8n2uqKXJen3KUmvQNTuLh3fhZMBoG3G4ZW1N2kZuHEPY53qmbZzCHshoQnNf4GvELZfqTUrcv',
+      HdKeyDecodingError.invalidParentFingerprint
+    ],
+    [
+      // zero depth with non-zero index
+      'xprv9s21ZrQH4r4TsiLvyLXqM9P7k1K3EYhA1kkD6xuquB5i39AU8KF42acDyL3qsDbU9NmZn6MsGSUYZEsuoePmjzsB3eFKSUEh3Gu1N3cqVUN',
+      HdKeyDecodingError.invalidChildIndex
+    ],
+    [
+      // unknown extended key version
+      'DMwo58pR1QLEFihHiXPVykYB6fJmsTeHvyTp7hRThAtCX8CvYzgPcn8XnmdfHGMQzT7ayAmfo4z3gY5KfbrZWZ6St24UVf2Qgo6oujFktLHdHY4',
+      HdKeyDecodingError.unknownVersion
+    ],
+    [
+      // private key 0 not in 1..n-1
+      'xprv9s21ZrQH143K24Mfq5zL5MhWK9hUhhGbd45hLXo2Pq2oqzMMo63oStZzF93Y5wvzdUayhgkkFoicQZcP3y52uPPxFnfoLZB21Teqt1VvEHx',
+      HdKeyDecodingError.invalidPrivateKey
+    ],
+    [
+      // private key n not in 1..n-1
+      'xprv9s21ZrQH143K24Mfq5zL5MhWK9hUhhGbd45hLXo2Pq2oqzMMo63oStZzFAzHGBP2UuGCqWLTAPLcMtD5SDKr24z3aiUvKr9bJpdrcLg1y3G',
+      HdKeyDecodingError.invalidPrivateKey
+    ],
+    [
+      // invalid checksum
+      'xprv9s21ZrQH143K3QTDL4LXw2F7HEK3wJUD2nW2nRk4stbPy6cq3jPPqjiChkVvvNKmPGJxWUtg6LnF5kejMRNNU3TGtRBeJgk33yuGBxrMPHL',
+      Base58DecodingError.invalidChecksum
+    ]
+  ];
+  publicKeys.map(([key, error]) =>
+    t.deepEqual(decodeHdPublicKey(dependencies, key), error, key)
+  );
+  privateKeys.map(([key, error]) =>
+    t.deepEqual(decodeHdPrivateKey(dependencies, key), error, key)
+  );
+});
+
+const fcUint8Array = (minLength: number, maxLength: number) =>
+  fc
+    .array(fc.integer(0, 255), minLength, maxLength)
+    .map(a => Uint8Array.from(a));
+
+test('deriveHdPublicNodeChild is equivalent to deriving from the private node', async t => {
+  const dependencies = await dependenciesPromise;
+  const equivalentDerivation = fc.property(
+    fcUint8Array(16, 64),
+    fc.integer(0, 0x7fffffff),
+    (seed, index) => {
+      const master = deriveHdPrivateNodeFromSeed(
+        dependencies,
+        seed
+      ) as HdPrivateNode;
+      t.deepEqual(
+        deriveHdPublicNodeChild(
+          dependencies,
+          deriveHdPublicNode(dependencies, master),
+          index
+        ),
+        deriveHdPublicNode(
+          dependencies,
+          deriveHdPrivateNodeChild(dependencies, master, index) as HdPrivateNode
+        )
+      );
+    }
+  );
+  t.notThrows(() => {
+    fc.assert(equivalentDerivation, { numRuns: 50 });
+  });
+});
@@ -0,0 +1,636 @@
+import {
+  base58CheckToBin,
+  Base58DecodingError,
+  binToBase58Check
+} from '../bin/bin';
+import {
+  hash160,
+  hmacSha512,
+  Ripemd160,
+  Secp256k1,
+  Sha256,
+  Sha512
+} from '../crypto/crypto';
+import {
+  binToNumberUint32BE,
+  flattenBinArray,
+  numberToBinUint32BE
+} from '../utils';
+
+/**
+ * The cryptographic implementations required to derive and encode HD keys.
+ */
+export interface HdKeyDependencies {
+  /**
+   * An implementation of ripemd160.
+   */
+  readonly ripemd160: Ripemd160;
+  /**
+   * An implementation of secp256k1.
+   */
+  readonly secp256k1: Secp256k1;
+  /**
+   * An implementation of sha256.
+   */
+  readonly sha256: Sha256;
+  /**
+   * An implementation of sha512.
+   */
+  readonly sha512: Sha512;
+}
+
+/**
+ * The networks for which HD keys can be encoded.
+ */
+export type HdKeyNetwork = 'mainnet' | 'testnet';
+
+/**
+ * The version bytes used by encoded HD keys.
+ */
+export enum HdKeyVersion {
+  /**
+   * A mainnet HD private key (`xprv...`).
+   */
+  mainnetPrivateKey = 0x0488ade4,
+  /**
+   * A mainnet HD public key (`xpub...`).
+   */
+  mainnetPublicKey = 0x0488b21e,
+  /**
+   * A testnet HD private key (`tprv...`).
+   */
+  testnetPrivateKey = 0x04358394,
+  /**
+   * A testnet HD public key (`tpub...`).
+   */
+  testnetPublicKey = 0x043587cf
+}
+
+/**
+ * The properties shared by HD private and public nodes.
+ */
+export interface HdNode {
+  /**
+   * The 32-byte chain code of the node.
+   */
+  readonly chainCode: Uint8Array;
+  /**
+   * The index of this node within its parent's children (indexes of
+   * `0x80000000` and above are hardened). For the master node, `0`.
+   */
+  readonly childIndex: number;
+  /**
+   * The depth of this node (`0` for the master node).
+   */
+  readonly depth: number;
+  /**
+   * The first 4 bytes of the parent node's public key hash (for the master
+   * node, 4 zero bytes).
+   */
+  readonly parentFingerprint: Uint8Array;
+}
+
+/**
+ * A node in a BIP32 hierarchical deterministic (HD) wallet from which both
+ * private and public child nodes can be derived.
+ */
+export interface HdPrivateNode extends HdNode {
+  /**
+   * The 32-byte private key of the node.
+   */
+  readonly privateKey: Uint8Array;
+}
+
+/**
+ * A node in a BIP32 hierarchical deterministic (HD) wallet from which only
+ * non-hardened public child nodes can be derived.
+ */
+export interface HdPublicNode extends HdNode {
+  /**
+   * The 33-byte compressed public key of the node.
+   */
+  readonly publicKey: Uint8Array;
+}
+
+/**
+ * The reasons for which deriving an HD node may fail.
+ */
+export enum HdKeyDerivationError {
+  hardenedDerivationRequiresPrivateNode = 'Hardened child nodes can only be derived from private nodes.',
+  invalidChildIndex = 'HD child indexes must be integers from 0 to 4294967295 (0xffffffff).',
+  invalidDerivedKey = 'Derivation produced an invalid key (the probability of this is less than 1 in 2^127); use the next child index.',
+  invalidMasterKey = 'The seed produced an invalid master private key (the probability of this is less than 1 in 2^127); use a different seed.',
+  invalidPath = 'HD paths must begin with "m" (for private nodes) or "M" (for public nodes) followed by "/"-separated child indexes (hardened indexes end with "\'").'
+}
+
+/**
+ * The reasons for which decoding an HD key may fail.
+ */
+export enum HdKeyDecodingError {
+  incorrectLength = 'Encoded HD keys must be 78 bytes.',
+  invalidChildIndex = 'HD keys with a depth of 0 must have a child index of 0.',
+  invalidParentFingerprint = 'HD keys with a depth of 0 must have a parent fingerprint of 0.',
+  invalidPrivateKey = 'HD private key is not a valid secp256k1 private key.',
+  invalidPublicKey = 'HD public key is not a valid, compressed secp256k1 public key.',
+  privateKeyExpected = 'Expected an HD private key, but received an HD public key.',
+  publicKeyExpected = 'Expected an HD public key, but received an HD private key.',
+  unknownVersion = 'HD key uses an unknown version.'
+}
+
+/**
+ * The contents of a decoded HD key.
+ */
+export interface DecodedHdKey<NodeType extends HdPrivateNode | HdPublicNode> {
+  /**
+   * The network of the HD key.
+   */
+  readonly network: HdKeyNetwork;
+  /**
+   * The HD node encoded by the key.
+   */
+  readonly node: NodeType;
+}
+
+// tslint:disable:no-magic-numbers
+const hardenedIndexOffset = 0x80000000;
+const maximumChildIndex = 0xffffffff;
+const keyLength = 32;
+const fingerprintLength = 4;
+const versionLength = 4;
+const encodedHdKeyLength = 78;
+const depthIndex = 4;
+const parentFingerprintIndex = 5;
+const childIndexIndex = 9;
+const chainCodeIndex = 13;
+const keyDataIndex = 45;
+const privateKeyIndex = 46;
+const compressedPublicKeyPrefixes: ReadonlyArray<number> = [0x02, 0x03];
+// tslint:enable:no-magic-numbers
+const privateKeyPrefix = 0x00;
+
+/**
+ * The seed used to derive the master node of every BIP32 HD wallet.
+ */
+const bip32HmacSha512Key = Uint8Array.from(
+  [...'Bitcoin seed'].map(character => character.charCodeAt(0))
+);
+
+const isValidChildIndex = (index: number) =>
+  Number.isInteger(index) && index >= 0 && index <= maximumChildIndex;
+
+/**
+ * Derive the master node of a BIP32 hierarchical deterministic (HD) wallet from
+ * a seed (e.g. the seed of a BIP39 mnemonic phrase).
+ *
+ * @param dependencies implementations of secp256k1 and sha512
+ * @param seed the seed from which to derive the master node (BIP32
+ * recommends 32 bytes, and requires between 16 and 64 bytes)
+ */
+export const deriveHdPrivateNodeFromSeed = (
+  dependencies: Pick<HdKeyDependencies, 'secp256k1' | 'sha512'>,
+  seed: Uint8Array
+): HdPrivateNode | HdKeyDerivationError => {
+  const result = hmacSha512(dependencies.sha512, bip32HmacSha512Key, seed);
+  const privateKey = result.slice(0, keyLength);
+  return dependencies.secp256k1.validatePrivateKey(privateKey)
+    ? {
+        chainCode: result.slice(keyLength),
+        childIndex: 0,
+        depth: 0,
+        parentFingerprint: new Uint8Array(fingerprintLength),
+        privateKey
+      }
+    : HdKeyDerivationError.invalidMasterKey;
+};
+
+/**
+ * Derive the public node corresponding to an HD private node.
+ *
+ * @param dependencies an implementation of secp256k1
+ * @param node the HD private node
+ */
+export const deriveHdPublicNode = (
+  dependencies: Pick<HdKeyDependencies, 'secp256k1'>,
+  node: HdPrivateNode
+): HdPublicNode => ({
+  chainCode: node.chainCode,
+  childIndex: node.childIndex,
+  depth: node.depth,
+  parentFingerprint: node.parentFingerprint,
+  publicKey: dependencies.secp256k1.derivePublicKeyCompressed(node.privateKey)
+});
+
+/**
+ * Derive the fingerprint of an HD node's public key: the first 4 bytes of its
+ * public key hash (`ripemd160(sha256(publicKey))`).
+ *
+ * @param dependencies implementations of ripemd160 and sha256
+ * @param publicKey the compressed public key of the node
+ */
+export const deriveHdPublicKeyFingerprint = (
+  dependencies: Pick<HdKeyDependencies, 'ripemd160' | 'sha256'>,
+  publicKey: Uint8Array
+) => hash160(dependencies, publicKey).slice(0, fingerprintLength);
+
+const splitChildDerivationResult = (
+  sha512: Sha512,
+  chainCode: Uint8Array,
+  data: Uint8Array
+) => {
+  const result = hmacSha512(sha512, chainCode, data);
+  return {
+    chainCode: result.slice(keyLength),
+    tweak: result.slice(0, keyLength)
+  };
+};
+
+const deriveValidHdPrivateNodeChild = (
+  dependencies: HdKeyDependencies,
+  node: HdPrivateNode,
+  index: number
+): HdPrivateNode | HdKeyDerivationError => {
+  const publicKey = dependencies.secp256k1.derivePublicKeyCompressed(
+    node.privateKey
+  );
+  const { chainCode, tweak } = splitChildDerivationResult(
+    dependencies.sha512,
+    node.chainCode,
+    flattenBinArray([
+      index >= hardenedIndexOffset
+        ? Uint8Array.of(privateKeyPrefix, ...node.privateKey)
+        : publicKey,
+      numberToBinUint32BE(index)
+    ])
+  );
+  return dependencies.secp256k1.validatePrivateKey(tweak)
+    ? {
+        chainCode,
+        childIndex: index,
+        depth: node.depth + 1,
+        parentFingerprint: deriveHdPublicKeyFingerprint(
+          dependencies,
+          publicKey
+        ),
+        privateKey: dependencies.secp256k1.addTweakPrivateKey(
+          node.privateKey,
+          tweak
+        )
+      }
+    : HdKeyDerivationError.invalidDerivedKey;
+};
+
+/**
+ * Derive a child node of an HD private node. Indexes of `0x80000000` and above
+ * produce hardened children.
+ *
+ * @param dependencies implementations of ripemd160, secp256k1, sha256, and
+ * sha512
+ * @param node the parent HD private node
+ * @param index the index of the child to derive (from `0` to `0xffffffff`)
+ */
+export const deriveHdPrivateNodeChild = (
+  dependencies: HdKeyDependencies,
+  node: HdPrivateNode,
+  index: number
+) =>
+  isValidChildIndex(index)
+    ? deriveValidHdPrivateNodeChild(dependencies, node, index)
+    : HdKeyDerivationError.invalidChildIndex;
+
+const deriveValidHdPublicNodeChild = (
+  dependencies: HdKeyDependencies,
+  node: HdPublicNode,
+  index: number
+): HdPublicNode | HdKeyDerivationError => {
+  const { chainCode, tweak } = splitChildDerivationResult(
+    dependencies.sha512,
+    node.chainCode,
+    flattenBinArray([node.publicKey, numberToBinUint32BE(index)])
+  );
+  return dependencies.secp256k1.validatePrivateKey(tweak)
+    ? {
+        chainCode,
+        childIndex: index,
+        depth: node.depth + 1,
+        parentFingerprint: deriveHdPublicKeyFingerprint(
+          dependencies,
+          node.publicKey
+        ),
+        publicKey: dependencies.secp256k1.addTweakPublicKeyCompressed(
+          node.publicKey,
+          tweak
+        )
+      }
+    : HdKeyDerivationError.invalidDerivedKey;
+};
+
+/**
+ * Derive a non-hardened child node of an HD public node.
+ *
+ * @param dependencies implementations of ripemd160, secp256k1, sha256, and
+ * sha512
+ * @param node the parent HD public node
+ * @param index the index of the child to derive (from `0` to `0x7fffffff`)
+ */
+export const deriveHdPublicNodeChild = (
+  dependencies: HdKeyDependencies,
+  node: HdPublicNode,
+  index: number
+) =>
+  !isValidChildIndex(index)
+    ? HdKeyDerivationError.invalidChildIndex
+    : index >= hardenedIndexOffset
+    ? HdKeyDerivationError.hardenedDerivationRequiresPrivateNode
+    : deriveValidHdPublicNodeChild(dependencies, node, index);
+
+const hdPathSegment = /^\d+'?$/;
+const hardenedMarker = "'";
+
+const parseHdPathSegment = (segment: string) => {
+  const hardened = segment.endsWith(hardenedMarker);
+  const index = hdPathSegment.test(segment)
+    ? Number(hardened ? segment.slice(0, -1) : segment)
+    : hardenedIndexOffset;
+  return index >= hardenedIndexOffset
+    ? undefined
+    : hardened
+    ? index + hardenedIndexOffset
+    : index;
+};
+
+/**
+ * Parse an HD path (e.g. `m/44'/145'/0'/0/5`) into an array of child indexes.
+ * Hardened indexes (marked by `'`) are offset by `0x80000000`. Returns
+ * `undefined` if the path is invalid or doesn't begin with `root`.
+ *
+ * @param path the HD path to parse
+ * @param root the expected root of the path: `m` for private derivation or `M`
+ * for public derivation (default: `m`)
+ */
+export const parseHdPath = (path: string, root: 'm' | 'M' = 'm') => {
+  const [pathRoot, ...segments] = path.split('/');
+  const indexes = segments.map(parseHdPathSegment);
+  return pathRoot !== root || indexes.indexOf(undefined) !== -1
+    ? undefined
+    : (indexes as ReadonlyArray<number>);
+};
+
+const deriveHdPathIndexes = <NodeType extends HdPrivateNode | HdPublicNode>(
+  node: NodeType,
+  indexes: ReadonlyArray<number>,
+  deriveChild: (
+    parent: NodeType,
+    index: number
+  ) => NodeType | HdKeyDerivationError
+) =>
+  indexes.reduce<NodeType | HdKeyDerivationError>(
+    (parent, index) =>
+      typeof parent === 'string' ? parent : deriveChild(parent, index),
+    node
+  );
+
+/**
+ * Derive the descendant of an HD private node at an HD path, e.g.
+ * `m/44'/145'/0'/0/5`. The path must begin with `m` (which represents `node`).
+ *
+ * To derive the public node at a path, derive the private node and use
+ * `deriveHdPublicNode`.
+ *
+ * @param dependencies implementations of ripemd160, secp256k1, sha256, and
+ * sha512
+ * @param node the HD private node from which to begin derivation (usually the
+ * master node)
+ * @param path the HD path to derive
+ */
+export const deriveHdPath = (
+  dependencies: HdKeyDependencies,
+  node: HdPrivateNode,
+  path: string
+) => {
+  const indexes = parseHdPath(path, 'm');
+  return indexes === undefined
+    ? HdKeyDerivationError.invalidPath
+    : deriveHdPathIndexes(node, indexes, (parent, index) =>
+        deriveHdPrivateNodeChild(dependencies, parent, index)
+      );
+};
+
+/**
+ * Derive the descendant of an HD public node at an HD path, e.g. `M/0/5`. The
+ * path must begin with `M` (which represents `node`), and it may not contain
+ * hardened indexes.
+ *
+ * @param dependencies implementations of ripemd160, secp256k1, sha256, and
+ * sha512
+ * @param node the HD public node from which to begin derivation
+ * @param path the HD path to derive
+ */
+export const deriveHdPublicPath = (
+  dependencies: HdKeyDependencies,
+  node: HdPublicNode,
+  path: string
+) => {
+  const indexes = parseHdPath(path, 'M');
+  return indexes === undefined
+    ? HdKeyDerivationError.invalidPath
+    : deriveHdPathIndexes(node, indexes, (parent, index) =>
+        deriveHdPublicNodeChild(dependencies, parent, index)
+      );
+};
+
+const encodeHdKey = (
+  sha256: Sha256,
+  version: HdKeyVersion,
+  node: HdNode,
+  keyData: Uint8Array
+) =>
+  binToBase58Check(
+    sha256,
+    flattenBinArray([
+      numberToBinUint32BE(version),
+      Uint8Array.of(node.depth),
+      node.parentFingerprint,
+      numberToBinUint32BE(node.childIndex),
+      node.chainCode,
+      keyData
+    ])
+  );
+
+/**
+ * Encode an HD private node as an HD private key (`xprv...` or `tprv...`).
+ *
+ * @param dependencies an implementation of sha256
+ * @param hdPrivateKey the network and HD private node to encode
+ */
+export const encodeHdPrivateKey = (
+  dependencies: Pick<HdKeyDependencies, 'sha256'>,
+  { network, node }: DecodedHdKey<HdPrivateNode>
+) =>
+  encodeHdKey(
+    dependencies.sha256,
+    network === 'mainnet'
+      ? HdKeyVersion.mainnetPrivateKey
+      : HdKeyVersion.testnetPrivateKey,
+    node,
+    Uint8Array.of(privateKeyPrefix, ...node.privateKey)
+  );
+
+/**
+ * Encode an HD public node as an HD public key (`xpub...` or `tpub...`).
+ *
+ * @param dependencies an implementation of sha256
+ * @param hdPublicKey the network and HD public node to encode
+ */
+export const encodeHdPublicKey = (
+  dependencies: Pick<HdKeyDependencies, 'sha256'>,
+  { network, node }: DecodedHdKey<HdPublicNode>
+) =>
+  encodeHdKey(
+    dependencies.sha256,
+    network === 'mainnet'
+      ? HdKeyVersion.mainnetPublicKey
+      : HdKeyVersion.testnetPublicKey,
+    node,
+    node.publicKey
+  );
+
+const decodeHdNode = (bin: Uint8Array): HdNode => ({
+  chainCode: bin.slice(chainCodeIndex, keyDataIndex),
+  childIndex: binToNumberUint32BE(bin.slice(childIndexIndex, chainCodeIndex)),
+  depth: bin[depthIndex],
+  parentFingerprint: bin.slice(parentFingerprintIndex, childIndexIndex)
+});
+
+interface DecodedHdKeyBin {
+  /**
+   * The properties of the encoded node (excluding its key).
+   */
+  readonly node: HdNode;
+  /**
+   * The full, 78-byte payload of the encoded HD key.
+   */
+  readonly payload: Uint8Array;
+  /**
+   * The version of the encoded HD key (see `HdKeyVersion`).
+   */
+  readonly version: number;
+}
+
+const validateMasterNode = ({ childIndex, depth, parentFingerprint }: HdNode) =>
+  depth !== 0
+    ? undefined
+    : parentFingerprint.some(byte => byte !== 0)
+    ? HdKeyDecodingError.invalidParentFingerprint
+    : childIndex !== 0
+    ? HdKeyDecodingError.invalidChildIndex
+    : undefined;
+
+const interpretHdKeyBin = (bin: Uint8Array) => {
+  const node = decodeHdNode(bin);
+  const error = validateMasterNode(node);
+  return error === undefined
+    ? {
+        node,
+        payload: bin,
+        version: binToNumberUint32BE(bin.slice(0, versionLength))
+      }
+    : error;
+};
+
+const decodeHdKeyBin = (
+  sha256: Sha256,
+  hdKey: string
+): DecodedHdKeyBin | HdKeyDecodingError | Base58DecodingError => {
+  const bin = base58CheckToBin(sha256, hdKey);
+  return typeof bin === 'string'
+    ? bin
+    : bin.length === encodedHdKeyLength
+    ? interpretHdKeyBin(bin)
+    : HdKeyDecodingError.incorrectLength;
+};
+
+const decodeHdPrivateKeyVersion = (
+  version: number
+): HdKeyNetwork | HdKeyDecodingError =>
+  version === HdKeyVersion.mainnetPrivateKey
+    ? 'mainnet'
+    : version === HdKeyVersion.testnetPrivateKey
+    ? 'testnet'
+    : version === HdKeyVersion.mainnetPublicKey ||
+      version === HdKeyVersion.testnetPublicKey
+    ? HdKeyDecodingError.privateKeyExpected
+    : HdKeyDecodingError.unknownVersion;
+
+const decodeHdPublicKeyVersion = (
+  version: number
+): HdKeyNetwork | HdKeyDecodingError =>
+  version === HdKeyVersion.mainnetPublicKey
+    ? 'mainnet'
+    : version === HdKeyVersion.testnetPublicKey
+    ? 'testnet'
+    : version === HdKeyVersion.mainnetPrivateKey ||
+      version === HdKeyVersion.testnetPrivateKey
+    ? HdKeyDecodingError.publicKeyExpected
+    : HdKeyDecodingError.unknownVersion;
+
+const interpretHdPrivateKey = (
+  secp256k1: Secp256k1,
+  { node, payload, version }: DecodedHdKeyBin
+) => {
+  const network = decodeHdPrivateKeyVersion(version);
+  const privateKey = payload.slice(privateKeyIndex);
+  return network !== 'mainnet' && network !== 'testnet'
+    ? network
+    : payload[keyDataIndex] === privateKeyPrefix &&
+      secp256k1.validatePrivateKey(privateKey)
+    ? { network, node: { ...node, privateKey } }
+    : HdKeyDecodingError.invalidPrivateKey;
+};
+
+/**
+ * Decode an HD private key (`xprv...` or `tprv...`), verifying that it
+ * contains a valid secp256k1 private key.
+ *
+ * @param dependencies implementations of secp256k1 and sha256
+ * @param hdPrivateKey the encoded HD private key
+ */
+export const decodeHdPrivateKey = (
+  dependencies: Pick<HdKeyDependencies, 'secp256k1' | 'sha256'>,
+  hdPrivateKey: string
+): DecodedHdKey<HdPrivateNode> | HdKeyDecodingError | Base58DecodingError => {
+  const decoded = decodeHdKeyBin(dependencies.sha256, hdPrivateKey);
+  return typeof decoded === 'string'
+    ? decoded
+    : interpretHdPrivateKey(dependencies.secp256k1, decoded);
+};
+
+const interpretHdPublicKey = (
+  secp256k1: Secp256k1,
+  { node, payload, version }: DecodedHdKeyBin
+) => {
+  const network = decodeHdPublicKeyVersion(version);
+  const publicKey = payload.slice(keyDataIndex);
+  return network !== 'mainnet' && network !== 'testnet'
+    ? network
+    : compressedPublicKeyPrefixes.indexOf(publicKey[0]) !== -1 &&
+      secp256k1.validatePublicKey(publicKey)
+    ? { network, node: { ...node, publicKey } }
+    : HdKeyDecodingError.invalidPublicKey;
+};
+
+/**
+ * Decode an HD public key (`xpub...` or `tpub...`), verifying that it
+ * contains a valid, compressed secp256k1 public key.
+ *
+ * @param dependencies implementations of secp256k1 and sha256
+ * @param hdPublicKey the encoded HD public key
+ */
+export const decodeHdPublicKey = (
+  dependencies: Pick<HdKeyDependencies, 'secp256k1' | 'sha256'>,
+  hdPublicKey: string
+): DecodedHdKey<HdPublicNode> | HdKeyDecodingError | Base58DecodingError => {
+  const decoded = decodeHdKeyBin(dependencies.sha256, hdPublicKey);
+  return typeof decoded === 'string'
+    ? decoded
+    : interpretHdPublicKey(dependencies.secp256k1, decoded);
+};
@@ -0,0 +1,5 @@
+export * from './hdKey';
+export * from './message';
+export * from './mnemonic';
+export * from './wif';
+export * from './wordlists/english';
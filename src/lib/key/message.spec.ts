@@ -0,0 +1,160 @@
+// tslint:disable:no-expression-statement no-magic-numbers no-unsafe-any
+import test from 'ava';
+import * as fc from 'fast-check';
+import { derivePublicKeyHash } from '../address/address';
+import { Base64DecodingError } from '../bin/bin';
+import {
+  instantiateRipemd160,
+  instantiateSecp256k1,
+  instantiateSha256
+} from '../crypto/crypto';
+import { binToHex, hexToBin } from '../utils';
+import {
+  hashMessage,
+  MessageSignatureError,
+  MessageVerificationDependencies,
+  recoverMessagePublicKey,
+  signMessage,
+  verifyMessage
+} from './message';
+
+const dependenciesPromise = (async (): Promise<
+  MessageVerificationDependencies
+> => ({
+  ripemd160: await instantiateRipemd160(),
+  secp256k1: await instantiateSecp256k1(),
+  sha256: await instantiateSha256()
+}))();
+
+const privateKey = hexToBin(
+  '0c28fca386c7a227600b2fe50b7cae11ec86d3bf1fbe471be89827e19d72aa1d'
+);
+const message = 'Hello, world!';
+const signatureCompressed =
+  'H3pK8ZJF7SYM4AaOM8v0iXtqorUCgiE5CfWrTg3Obw6iemQQkxYh81Z2sYy5gw5AecB+pTOKYl/67uFwkAZt4t8=';
+const signatureUncompressed =
+  'G3pK8ZJF7SYM4AaOM8v0iXtqorUCgiE5CfWrTg3Obw6iemQQkxYh81Z2sYy5gw5AecB+pTOKYl/67uFwkAZt4t8=';
+
+test('hashMessage', async t => {
+  const { sha256 } = await dependenciesPromise;
+  t.deepEqual(
+    binToHex(hashMessage(sha256, '')),
+    binToHex(
+      sha256.hash(
+        sha256.hash(
+          hexToBin('18426974636f696e205369676e6564204d6573736167653a0a00')
+        )
+      )
+    )
+  );
+});
+
+test('signMessage', async t => {
+  const dependencies = await dependenciesPromise;
+  t.deepEqual(
+    signMessage(dependencies, privateKey, message),
+    signatureCompressed
+  );
+  t.deepEqual(
+    signMessage(dependencies, privateKey, message, false),
+    signatureUncompressed
+  );
+  t.deepEqual(
+    signMessage(dependencies, privateKey, ''),
+    'H2Ijf+Lv7QjnQEkV1h7mWrdyKRZ8yx2Cp0c2VSMP9R6RPtZQlL3qqtdj/eOYIuPIBKdmOAvIKRBqhttQDPU3n30='
+  );
+});
+
+test('recoverMessagePublicKey', async t => {
+  const dependencies = await dependenciesPromise;
+  t.deepEqual(
+    recoverMessagePublicKey(dependencies, signatureCompressed, message),
+    dependencies.secp256k1.derivePublicKeyCompressed(privateKey)
+  );
+  t.deepEqual(
+    recoverMessagePublicKey(dependencies, signatureUncompressed, message),
+    dependencies.secp256k1.derivePublicKeyUncompressed(privateKey)
+  );
+  t.deepEqual(
+    recoverMessagePublicKey(dependencies, 'H3pK8ZJF', message),
+    MessageSignatureError.invalidLength
+  );
+  t.deepEqual(
+    recoverMessagePublicKey(
+      dependencies,
+      `I${signatureCompressed.slice(1)}`,
+      message
+    ),
+    MessageSignatureError.invalidHeader
+  );
+  t.deepEqual(
+    recoverMessagePublicKey(dependencies, `H${'A'.repeat(86)}=`, message),
+    MessageSignatureError.invalidSignature
+  );
+  t.deepEqual(
+    recoverMessagePublicKey(
+      dependencies,
+      signatureCompressed.slice(0, -1),
+      message
+    ),
+    Base64DecodingError.invalidLength
+  );
+});
+
+test('verifyMessage', async t => {
+  const dependencies = await dependenciesPromise;
+  const compressedHash = derivePublicKeyHash(
+    dependencies,
+    dependencies.secp256k1.derivePublicKeyCompressed(privateKey)
+  );
+  const uncompressedHash = derivePublicKeyHash(
+    dependencies,
+    dependencies.secp256k1.derivePublicKeyUncompressed(privateKey)
+  );
+  t.true(
+    verifyMessage(dependencies, compressedHash, signatureCompressed, message)
+  );
+  t.true(
+    verifyMessage(
+      dependencies,
+      uncompressedHash,
+      signatureUncompressed,
+      message
+    )
+  );
+  t.false(
+    verifyMessage(dependencies, uncompressedHash, signatureCompressed, message)
+  );
+  t.false(
+    verifyMessage(dependencies, compressedHash, signatureCompressed, 'Hello!')
+  );
+  t.false(verifyMessage(dependencies, compressedHash, 'H3pK8ZJF', message));
+});
+
+test('signMessage -> verifyMessage', async t => {
+  const dependencies = await dependenciesPromise;
+  const signedMessagesVerify = fc.property(
+    fc
+      .array(fc.integer(0, 255), 32, 32)
+      .map(a => Uint8Array.from(a))
+      .filter(key => dependencies.secp256k1.validatePrivateKey(key)),
+    fc.fullUnicodeString(),
+    fc.boolean(),
+    (key, text, compressed) => {
+      const publicKey = compressed
+        ? dependencies.secp256k1.derivePublicKeyCompressed(key)
+        : dependencies.secp256k1.derivePublicKeyUncompressed(key);
+      t.true(
+        verifyMessage(
+          dependencies,
+          derivePublicKeyHash(dependencies, publicKey),
+          signMessage(dependencies, key, text, compressed),
+          text
+        )
+      );
+    }
+  );
+  t.notThrows(() => {
+    fc.assert(signedMessagesVerify, { numRuns: 50 });
+  });
+});
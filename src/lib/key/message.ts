@@ -0,0 +1,207 @@
+import { derivePublicKeyHash } from '../address/address';
+import { Base64DecodingError, base64ToBin, binToBase64 } from '../bin/bin';
+import {
+  hash256,
+  RecoveryId,
+  Ripemd160,
+  Secp256k1,
+  Sha256
+} from '../crypto/crypto';
+import {
+  binToHex,
+  flattenBinArray,
+  numberToBinCompactSize,
+  utf8ToBin
+} from '../utils';
+
+/**
+ * The reasons for which recovering the public key of a message signature may
+ * fail.
+ */
+export enum MessageSignatureError {
+  invalidHeader = 'Message signature has an invalid header byte (it must be between 27 and 34).',
+  invalidLength = 'Message signatures must be 65 bytes.',
+  invalidSignature = 'A public key could not be recovered from the message signature.'
+}
+
+/**
+ * The cryptographic implementations required to sign messages and recover
+ * their public keys.
+ */
+export interface MessageSigningDependencies {
+  /**
+   * An implementation of secp256k1.
+   */
+  readonly secp256k1: Secp256k1;
+  /**
+   * An implementation of sha256.
+   */
+  readonly sha256: Sha256;
+}
+
+/**
+ * The cryptographic implementations required to verify message signatures.
+ */
+export interface MessageVerificationDependencies
+  extends MessageSigningDependencies {
+  /**
+   * An implementation of ripemd160.
+   */
+  readonly ripemd160: Ripemd160;
+}
+
+const messageMagic = utf8ToBin('Bitcoin Signed Message:\n');
+
+// tslint:disable:no-magic-numbers
+const signatureLength = 65;
+const headerOffset = 27;
+const compressedHeaderOffset = 4;
+const maximumHeader = 34;
+// tslint:enable:no-magic-numbers
+const recoveryIdCount = compressedHeaderOffset;
+
+/**
+ * Compute the hash signed by a Bitcoin Signed Message: the double-sha256 of
+ * `"\x18Bitcoin Signed Message:\n"`, the CompactSize length of the message, and
+ * the UTF-8 encoded message.
+ *
+ * @param sha256 an implementation of sha256
+ * @param message the message
+ */
+export const hashMessage = (sha256: Sha256, message: string) => {
+  const messageBin = utf8ToBin(message);
+  return hash256(
+    sha256,
+    flattenBinArray([
+      numberToBinCompactSize(messageMagic.length),
+      messageMagic,
+      numberToBinCompactSize(messageBin.length),
+      messageBin
+    ])
+  );
+};
+
+/**
+ * Sign a message using the Bitcoin Signed Message format, returning the
+ * 65-byte, base64-encoded recoverable signature. The first byte of the
+ * signature encodes its recovery ID and whether the signing public key is
+ * compressed.
+ *
+ * @param dependencies implementations of secp256k1 and sha256
+ * @param privateKey a valid secp256k1 private key
+ * @param message the message to sign
+ * @param compressed whether the signature should identify the compressed
+ * public key (default: `true`), e.g. for use with P2PKH addresses derived from
+ * compressed public keys
+ */
+export const signMessage = (
+  dependencies: MessageSigningDependencies,
+  privateKey: Uint8Array,
+  message: string,
+  compressed = true
+) => {
+  const {
+    recoveryId,
+    signature
+  } = dependencies.secp256k1.signMessageHashRecoverableCompact(
+    privateKey,
+    hashMessage(dependencies.sha256, message)
+  );
+  return binToBase64(
+    flattenBinArray([
+      Uint8Array.of(
+        headerOffset + recoveryId + (compressed ? compressedHeaderOffset : 0)
+      ),
+      signature
+    ])
+  );
+};
+
+const recoverPublicKey = (
+  secp256k1: Secp256k1,
+  header: number,
+  signature: Uint8Array,
+  messageHash: Uint8Array
+) => {
+  const recoveryId = ((header - headerOffset) % recoveryIdCount) as RecoveryId;
+  // tslint:disable-next-line:no-try
+  try {
+    return header - headerOffset >= compressedHeaderOffset
+      ? secp256k1.recoverPublicKeyCompressed(signature, recoveryId, messageHash)
+      : secp256k1.recoverPublicKeyUncompressed(
+          signature,
+          recoveryId,
+          messageHash
+        );
+  } catch {
+    return MessageSignatureError.invalidSignature;
+  }
+};
+
+const recoverPublicKeyFromBin = (
+  dependencies: MessageSigningDependencies,
+  signatureBin: Uint8Array,
+  messageHash: Uint8Array
+) => {
+  const header = signatureBin[0];
+  return signatureBin.length !== signatureLength
+    ? MessageSignatureError.invalidLength
+    : header < headerOffset || header > maximumHeader
+    ? MessageSignatureError.invalidHeader
+    : recoverPublicKey(
+        dependencies.secp256k1,
+        header,
+        signatureBin.slice(1),
+        messageHash
+      );
+};
+
+/**
+ * Recover the public key which signed a message using the Bitcoin Signed
+ * Message format. The public key is compressed or uncompressed as indicated by
+ * the signature.
+ *
+ * @param dependencies implementations of secp256k1 and sha256
+ * @param signature the base64-encoded, 65-byte recoverable signature
+ * @param message the message which was signed
+ */
+export const recoverMessagePublicKey = (
+  dependencies: MessageSigningDependencies,
+  signature: string,
+  message: string
+): Uint8Array | MessageSignatureError | Base64DecodingError => {
+  const signatureBin = base64ToBin(signature);
+  return typeof signatureBin === 'string'
+    ? signatureBin
+    : recoverPublicKeyFromBin(
+        dependencies,
+        signatureBin,
+        hashMessage(dependencies.sha256, message)
+      );
+};
+
+/**
+ * Verify a message signature (in the Bitcoin Signed Message format) against
+ * the 20-byte public key hash of the expected signer.
+ *
+ * To verify a signature against a P2PKH address, provide the payload of the
+ * decoded address (e.g. using `decodeBase58Address` or `decodeCashAddress`).
+ *
+ * @param dependencies implementations of ripemd160, secp256k1, and sha256
+ * @param publicKeyHash the 20-byte public key hash of the expected signer
+ * @param signature the base64-encoded, 65-byte recoverable signature
+ * @param message the message which was signed
+ */
+export const verifyMessage = (
+  dependencies: MessageVerificationDependencies,
+  publicKeyHash: Uint8Array,
+  signature: string,
+  message: string
+) => {
+  const publicKey = recoverMessagePublicKey(dependencies, signature, message);
+  return (
+    typeof publicKey !== 'string' &&
+    binToHex(derivePublicKeyHash(dependencies, publicKey)) ===
+      binToHex(publicKeyHash)
+  );
+};
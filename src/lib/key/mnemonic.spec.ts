@@ -0,0 +1,187 @@
+// tslint:disable:no-expression-statement no-magic-numbers no-unsafe-any
+import test from 'ava';
+import * as fc from 'fast-check';
+import { instantiateSha256, instantiateSha512 } from '../crypto/crypto';
+import { binToHex, hexToBin } from '../utils';
+import {
+  Bip39MnemonicError,
+  decodeBip39Mnemonic,
+  deriveSeedFromBip39Mnemonic,
+  encodeBip39Mnemonic,
+  validateBip39Mnemonic
+} from './mnemonic';
+import { bip39WordListEnglish } from './wordlists/english';
+
+const sha256Promise = instantiateSha256();
+const sha512Promise = instantiateSha512();
+
+/**
+ * BIP39 test vectors (from the reference implementation, using the
+ * passphrase "TREZOR"): [entropy, mnemonic, seed]
+ */
+const vectors: ReadonlyArray<[string, string, string]> = [
+  [
+    '00000000000000000000000000000000',
+    'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+    'c55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e53495531f09a6987599d18264c1e1c92f2cf141630c7a3c4ab7c81b2f001698e7463b04'
+  ],
+  [
+    '7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f',
+    'legal winner thank year wave sausage worth useful legal winner thank yellow',
+    '2e8905819b8723fe2c1d161860e5ee1830318dbf49a83bd451cfb8440c28bd6fa457fe1296106559a3c80937a1c1069be3a3a5bd381ee6260e8d9739fce1f607'
+  ],
+  [
+    '80808080808080808080808080808080',
+    'letter advice cage absurd amount doctor acoustic avoid letter advice cage above',
+    'd71de856f81a8acc65e6fc851a38d4d7ec216fd0796d0a6827a3ad6ed5511a30fa280f12eb2e47ed2ac03b5c462a0358d18d69fe4f985ec81778c1b370b652a8'
+  ],
+  [
+    'ffffffffffffffffffffffffffffffff',
+    'zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo wrong',
+    'ac27495480225222079d7be181583751e86f571027b0497b5b5d11218e0a8a13332572917f0f8e5a589620c6f15b11c61dee327651a14c34e18231052e48c069'
+  ],
+  [
+    '0000000000000000000000000000000000000000000000000000000000000000',
+    'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon art',
+    'bda85446c68413707090a52022edd26a1c9462295029f2e60cd7c4f2bbd3097170af7a4d73245cafa9c3cca8d561a7c3de6f5d4a10be8ed2a5e608d68f92fcc8'
+  ],
+  [
+    'ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff',
+    'zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo vote',
+    'dd48c104698c30cfe2b6142103248622fb7bb0ff692eebb00089b32d22484e1613912f0a5b694407be899ffd31ed3992c456cdf60f5d4564b8ba3f05a69890ad'
+  ]
+];
+
+test('bip39WordListEnglish', t => {
+  t.deepEqual(bip39WordListEnglish.length, 2048);
+  t.deepEqual(bip39WordListEnglish[0], 'abandon');
+  t.deepEqual(bip39WordListEnglish[2047], 'zoo');
+  t.deepEqual(new Set(bip39WordListEnglish).size, 2048);
+});
+
+test('encodeBip39Mnemonic', async t => {
+  const sha256 = await sha256Promise;
+  vectors.forEach(([entropy, mnemonic]) => {
+    t.deepEqual(encodeBip39Mnemonic(sha256, hexToBin(entropy)), mnemonic);
+  });
+  t.deepEqual(
+    encodeBip39Mnemonic(sha256, new Uint8Array(15)),
+    Bip39MnemonicError.invalidEntropyLength
+  );
+  t.deepEqual(
+    encodeBip39Mnemonic(sha256, new Uint8Array(33)),
+    Bip39MnemonicError.invalidEntropyLength
+  );
+  t.deepEqual(
+    encodeBip39Mnemonic(sha256, new Uint8Array(18)),
+    Bip39MnemonicError.invalidEntropyLength
+  );
+});
+
+test('decodeBip39Mnemonic', async t => {
+  const sha256 = await sha256Promise;
+  vectors.forEach(([entropy, mnemonic]) => {
+    t.deepEqual(decodeBip39Mnemonic(sha256, mnemonic), hexToBin(entropy));
+  });
+  t.deepEqual(
+    decodeBip39Mnemonic(
+      sha256,
+      'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon'
+    ),
+    Bip39MnemonicError.invalidChecksum
+  );
+  t.deepEqual(
+    decodeBip39Mnemonic(
+      sha256,
+      'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+    ),
+    Bip39MnemonicError.invalidWordCount
+  );
+  t.deepEqual(
+    decodeBip39Mnemonic(
+      sha256,
+      'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon bitcoin'
+    ),
+    Bip39MnemonicError.unknownWord
+  );
+  t.deepEqual(
+    decodeBip39Mnemonic(
+      sha256,
+      'abandon  abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+    ),
+    Bip39MnemonicError.unknownWord
+  );
+});
+
+test('validateBip39Mnemonic', async t => {
+  const sha256 = await sha256Promise;
+  t.true(validateBip39Mnemonic(sha256, vectors[0][1]));
+  t.false(validateBip39Mnemonic(sha256, 'zoo zoo zoo'));
+  t.false(
+    validateBip39Mnemonic(
+      sha256,
+      'zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo'
+    )
+  );
+});
+
+test('encodeBip39Mnemonic and decodeBip39Mnemonic: custom word list', async t => {
+  const sha256 = await sha256Promise;
+  const wordList = bip39WordListEnglish.map(word => word.toUpperCase());
+  const mnemonic = encodeBip39Mnemonic(
+    sha256,
+    hexToBin(vectors[3][0]),
+    wordList
+  );
+  t.deepEqual(mnemonic, vectors[3][1].toUpperCase());
+  t.deepEqual(
+    decodeBip39Mnemonic(sha256, mnemonic, wordList),
+    hexToBin(vectors[3][0])
+  );
+  t.deepEqual(
+    decodeBip39Mnemonic(sha256, vectors[3][1], wordList),
+    Bip39MnemonicError.unknownWord
+  );
+});
+
+test('deriveSeedFromBip39Mnemonic', async t => {
+  const sha512 = await sha512Promise;
+  vectors.forEach(([, mnemonic, seed]) => {
+    t.deepEqual(
+      binToHex(deriveSeedFromBip39Mnemonic(sha512, mnemonic, 'TREZOR')),
+      seed
+    );
+  });
+});
+
+test('deriveSeedFromBip39Mnemonic: normalizes the mnemonic and passphrase', async t => {
+  const sha512 = await sha512Promise;
+  const mnemonic = vectors[0][1];
+  t.deepEqual(
+    deriveSeedFromBip39Mnemonic(sha512, mnemonic, 'café'),
+    deriveSeedFromBip39Mnemonic(sha512, mnemonic, 'café')
+  );
+  t.notDeepEqual(
+    deriveSeedFromBip39Mnemonic(sha512, mnemonic),
+    deriveSeedFromBip39Mnemonic(sha512, mnemonic, 'TREZOR')
+  );
+});
+
+const fcEntropy = () =>
+  fc
+    .integer(4, 8)
+    .chain(length => fc.array(fc.integer(0, 255), length * 4, length * 4))
+    .map(a => Uint8Array.from(a));
+
+test('encodeBip39Mnemonic <-> decodeBip39Mnemonic', async t => {
+  const sha256 = await sha256Promise;
+  const equivalentAfterRoundTrip = fc.property(fcEntropy(), entropy => {
+    t.deepEqual(
+      decodeBip39Mnemonic(sha256, encodeBip39Mnemonic(sha256, entropy)),
+      entropy
+    );
+  });
+  t.notThrows(() => {
+    fc.assert(equivalentAfterRoundTrip);
+  });
+});
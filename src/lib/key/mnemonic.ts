@@ -0,0 +1,161 @@
+import { pbkdf2HmacSha512, Sha256, Sha512 } from '../crypto/crypto';
+import { splitEvery, utf8ToBin } from '../utils';
+import { bip39WordListEnglish } from './wordlists/english';
+
+/**
+ * A BIP39 word list: 2048 unique words, sorted such that each word's index is
+ * the 11-bit value it encodes. Word lists for languages other than English can
+ * be provided to any method which accepts a `Bip39WordList`.
+ */
+export type Bip39WordList = ReadonlyArray<string>;
+
+/**
+ * The reasons for which encoding or decoding a BIP39 mnemonic phrase may fail.
+ */
+export enum Bip39MnemonicError {
+  invalidChecksum = 'BIP39 mnemonic phrase has an invalid checksum.',
+  invalidEntropyLength = 'BIP39 entropy must be 16, 20, 24, 28, or 32 bytes.',
+  invalidWordCount = 'BIP39 mnemonic phrases must contain 12, 15, 18, 21, or 24 words.',
+  unknownWord = 'BIP39 mnemonic phrase contains a word which is not in the word list.'
+}
+
+// tslint:disable:no-magic-numbers
+const minimumEntropyLength = 16;
+const maximumEntropyLength = 32;
+const entropyLengthMultiple = 4;
+const bitsPerWord = 11;
+const byteBits = 8;
+const entropyBitsPerChecksumBit = 32;
+const binary = 2;
+const seedIterations = 2048;
+const seedLength = 64;
+// tslint:enable:no-magic-numbers
+const wordSeparator = ' ';
+
+const binToBinaryString = (bin: Uint8Array) =>
+  Array.from(bin)
+    .map(byte => byte.toString(binary).padStart(byteBits, '0'))
+    .join('');
+
+const isValidEntropyLength = (length: number) =>
+  length >= minimumEntropyLength &&
+  length <= maximumEntropyLength &&
+  length % entropyLengthMultiple === 0;
+
+const deriveChecksumBits = (sha256: Sha256, entropy: Uint8Array) =>
+  binToBinaryString(sha256.hash(entropy)).slice(
+    0,
+    (entropy.length * byteBits) / entropyBitsPerChecksumBit
+  );
+
+/**
+ * The ratio of the bit length of a mnemonic phrase (entropy and checksum) to
+ * the bit length of its entropy.
+ */
+const totalBitsPerEntropyBit =
+  (entropyBitsPerChecksumBit + 1) / entropyBitsPerChecksumBit;
+
+/**
+ * Encode entropy as a BIP39 mnemonic phrase. The phrase includes a checksum of
+ * the entropy, so 16 bytes of entropy produce 12 words, and 32 bytes produce 24
+ * words.
+ *
+ * @param sha256 an implementation of sha256
+ * @param entropy the entropy to encode (16, 20, 24, 28, or 32 bytes)
+ * @param wordList the word list to use (default: `bip39WordListEnglish`)
+ */
+export const encodeBip39Mnemonic = (
+  sha256: Sha256,
+  entropy: Uint8Array,
+  wordList: Bip39WordList = bip39WordListEnglish
+) =>
+  isValidEntropyLength(entropy.length)
+    ? splitEvery(
+        `${binToBinaryString(entropy)}${deriveChecksumBits(sha256, entropy)}`,
+        bitsPerWord
+      )
+        .map(bits => wordList[parseInt(bits, binary)])
+        .join(wordSeparator)
+    : Bip39MnemonicError.invalidEntropyLength;
+
+const decodeBip39Bits = (sha256: Sha256, bits: string) => {
+  const entropyBitLength = bits.length / totalBitsPerEntropyBit;
+  const entropy = Uint8Array.from(
+    splitEvery(bits.slice(0, entropyBitLength), byteBits).map(byte =>
+      parseInt(byte, binary)
+    )
+  );
+  return deriveChecksumBits(sha256, entropy) === bits.slice(entropyBitLength)
+    ? entropy
+    : Bip39MnemonicError.invalidChecksum;
+};
+
+/**
+ * Decode a BIP39 mnemonic phrase into the entropy it encodes, verifying its
+ * checksum. Words must be separated by a single space.
+ *
+ * @param sha256 an implementation of sha256
+ * @param mnemonic the mnemonic phrase to decode
+ * @param wordList the word list to use (default: `bip39WordListEnglish`)
+ */
+export const decodeBip39Mnemonic = (
+  sha256: Sha256,
+  mnemonic: string,
+  wordList: Bip39WordList = bip39WordListEnglish
+) => {
+  const indexes = mnemonic
+    .normalize('NFKD')
+    .split(wordSeparator)
+    .map(word => wordList.indexOf(word));
+  return !isValidEntropyLength(
+    (indexes.length * bitsPerWord) / totalBitsPerEntropyBit / byteBits
+  )
+    ? Bip39MnemonicError.invalidWordCount
+    : indexes.indexOf(-1) !== -1
+    ? Bip39MnemonicError.unknownWord
+    : decodeBip39Bits(
+        sha256,
+        indexes
+          .map(index => index.toString(binary).padStart(bitsPerWord, '0'))
+          .join('')
+      );
+};
+
+/**
+ * Returns true if `mnemonic` is a valid BIP39 mnemonic phrase: it contains a
+ * valid number of words, every word is in the word list, and its checksum is
+ * valid.
+ *
+ * @param sha256 an implementation of sha256
+ * @param mnemonic the mnemonic phrase to validate
+ * @param wordList the word list to use (default: `bip39WordListEnglish`)
+ */
+export const validateBip39Mnemonic = (
+  sha256: Sha256,
+  mnemonic: string,
+  wordList: Bip39WordList = bip39WordListEnglish
+) => typeof decodeBip39Mnemonic(sha256, mnemonic, wordList) !== 'string';
+
+/**
+ * Derive the 64-byte seed of a BIP39 mnemonic phrase (e.g. for use with
+ * `deriveHdPrivateNodeFromSeed`) using PBKDF2-HMAC-SHA512.
+ *
+ * Note, this method does not validate the mnemonic phrase (see
+ * `validateBip39Mnemonic`).
+ *
+ * @param sha512 an implementation of sha512
+ * @param mnemonic the mnemonic phrase
+ * @param passphrase an optional passphrase (default: `''`)
+ */
+export const deriveSeedFromBip39Mnemonic = (
+  sha512: Sha512,
+  mnemonic: string,
+  passphrase = ''
+) =>
+  pbkdf2HmacSha512(
+    sha512,
+    utf8ToBin(mnemonic.normalize('NFKD')),
+    utf8ToBin(`mnemonic${passphrase}`.normalize('NFKD')),
+    seedIterations,
+    seedLength
+  );
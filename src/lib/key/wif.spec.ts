@@ -0,0 +1,123 @@
+// tslint:disable:no-expression-statement no-magic-numbers no-unsafe-any
+import test from 'ava';
+import * as fc from 'fast-check';
+import { Base58DecodingError, binToBase58Check } from '../bin/bin';
+import { instantiateSecp256k1, instantiateSha256 } from '../crypto/crypto';
+import { hexToBin } from '../utils';
+import {
+  decodePrivateKeyWif,
+  encodePrivateKeyWif,
+  WalletImportFormatError,
+  WalletImportFormatType
+} from './wif';
+
+const sha256Promise = instantiateSha256();
+const secp256k1Promise = instantiateSecp256k1();
+
+const privateKey = hexToBin(
+  '0c28fca386c7a227600b2fe50b7cae11ec86d3bf1fbe471be89827e19d72aa1d'
+);
+
+const vectors: ReadonlyArray<[WalletImportFormatType, string]> = [
+  ['mainnet', 'KwdMAjGmerYanjeui5SHS7JkmpZvVipYvB2LJGU1ZxJwYvP98617'],
+  [
+    'mainnetUncompressed',
+    '5HueCGU8rMjxEXxiPuD5BDku4MkFqeZyd4dZ1jvhTVqvbTLvyTJ'
+  ],
+  ['testnet', 'cMzLdeGd5vEqxB8B6VFQoRopQ3sLAAvEzDAoQgvX54xwofSWj1fx'],
+  ['testnetUncompressed', '91gGn1HgSap6CbU12F6z3pJri26xzp7Ay1VW6NHCoEayNXwRpu2']
+];
+
+test('encodePrivateKeyWif', async t => {
+  const sha256 = await sha256Promise;
+  vectors.forEach(([type, wif]) => {
+    t.deepEqual(encodePrivateKeyWif(sha256, privateKey, type), wif);
+  });
+  t.deepEqual(encodePrivateKeyWif(sha256, privateKey), vectors[0][1]);
+});
+
+test('decodePrivateKeyWif', async t => {
+  const sha256 = await sha256Promise;
+  const secp256k1 = await secp256k1Promise;
+  vectors.forEach(([type, wif]) => {
+    t.deepEqual(decodePrivateKeyWif(sha256, secp256k1, wif), {
+      privateKey,
+      type
+    });
+  });
+});
+
+test('decodePrivateKeyWif: errors', async t => {
+  const sha256 = await sha256Promise;
+  const secp256k1 = await secp256k1Promise;
+  t.deepEqual(
+    decodePrivateKeyWif(
+      sha256,
+      secp256k1,
+      'KwdMAjGmerYanjeui5SHS7JkmpZvVipYvB2LJGU1ZxJwYvP98618'
+    ),
+    Base58DecodingError.invalidChecksum
+  );
+  t.deepEqual(
+    decodePrivateKeyWif(
+      sha256,
+      secp256k1,
+      encodePrivateKeyWif(sha256, privateKey.slice(1), 'mainnetUncompressed')
+    ),
+    WalletImportFormatError.incorrectLength
+  );
+  t.deepEqual(
+    decodePrivateKeyWif(
+      sha256,
+      secp256k1,
+      encodePrivateKeyWif(sha256, Uint8Array.of(...privateKey, 0x02))
+    ),
+    WalletImportFormatError.incorrectLength
+  );
+  t.deepEqual(
+    decodePrivateKeyWif(
+      sha256,
+      secp256k1,
+      encodePrivateKeyWif(sha256, new Uint8Array(32))
+    ),
+    WalletImportFormatError.invalidPrivateKey
+  );
+  t.deepEqual(
+    decodePrivateKeyWif(
+      sha256,
+      secp256k1,
+      binToBase58Check(sha256, Uint8Array.of(0x00, ...privateKey, 0x01))
+    ),
+    WalletImportFormatError.unknownVersion
+  );
+});
+
+const fcUint8Array32 = () =>
+  fc.array(fc.integer(0, 255), 32, 32).map(a => Uint8Array.from(a));
+
+test('encodePrivateKeyWif <-> decodePrivateKeyWif', async t => {
+  const sha256 = await sha256Promise;
+  const secp256k1 = await secp256k1Promise;
+  const equivalentAfterRoundTrip = fc.property(
+    fcUint8Array32().filter(key => secp256k1.validatePrivateKey(key)),
+    fc.constantFrom<WalletImportFormatType>(
+      'mainnet',
+      'mainnetUncompressed',
+      'testnet',
+      'testnetUncompressed'
+    ),
+    (key, type) => {
+      t.deepEqual(
+        decodePrivateKeyWif(
+          sha256,
+          secp256k1,
+          encodePrivateKeyWif(sha256, key, type)
+        ),
+        { privateKey: key, type }
+      );
+    }
+  );
+  t.notThrows(() => {
+    fc.assert(equivalentAfterRoundTrip);
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  base58CheckToBin,
+  Base58DecodingError,
+  binToBase58Check
+} from '../bin/bin';
+import { Secp256k1, Sha256 } from '../crypto/crypto';
+import { flattenBinArray } from '../utils';
+
+/**
+ * The networks and compression formats supported by WIF-encoded private keys.
+ * Keys marked as compressed (the default) should be used with compressed
+ * public keys.
+ */
+export type WalletImportFormatType =
+  | 'mainnet'
+  | 'mainnetUncompressed'
+  | 'testnet'
+  | 'testnetUncompressed';
+
+/**
+ * The reasons for which decoding a WIF-encoded private key may fail.
+ */
+export enum WalletImportFormatError {
+  incorrectLength = 'WIF-encoded private keys must contain a 32-byte private key, optionally followed by a compression flag (0x01).',
+  invalidPrivateKey = 'WIF-encoded private key is not a valid secp256k1 private key.',
+  unknownVersion = 'WIF-encoded private key uses an unknown version byte (0x80 and 0xef are supported).'
+}
+
+/**
+ * A private key decoded from Wallet Import Format (WIF).
+ */
+export interface DecodedPrivateKeyWif {
+  /**
+   * The 32-byte private key.
+   */
+  readonly privateKey: Uint8Array;
+  /**
+   * The network and compression format of the key.
+   */
+  readonly type: WalletImportFormatType;
+}
+
+// tslint:disable:no-magic-numbers
+const mainnetVersion = 0x80;
+const testnetVersion = 0xef;
+const compressedFlag = 0x01;
+const privateKeyLength = 32;
+// tslint:enable:no-magic-numbers
+const versionLength = 1;
+const uncompressedLength = versionLength + privateKeyLength;
+const compressedLength = uncompressedLength + 1;
+
+const isTestnet = (type: WalletImportFormatType) =>
+  type === 'testnet' || type === 'testnetUncompressed';
+
+const isCompressed = (type: WalletImportFormatType) =>
+  type === 'mainnet' || type === 'testnet';
+
+/**
+ * Encode a private key using Wallet Import Format (WIF): a version byte, the
+ * 32-byte private key, and (for keys used with compressed public keys) a
+ * compression flag, encoded as a Base58Check string.
+ *
+ * @param sha256 an implementation of sha256
+ * @param privateKey a valid, 32-byte secp256k1 private key
+ * @param type the network and compression format of the key (default:
+ * `mainnet`)
+ */
+export const encodePrivateKeyWif = (
+  sha256: Sha256,
+  privateKey: Uint8Array,
+  type: WalletImportFormatType = 'mainnet'
+) =>
+  binToBase58Check(
+    sha256,
+    flattenBinArray([
+      Uint8Array.of(isTestnet(type) ? testnetVersion : mainnetVersion),
+      privateKey,
+      isCompressed(type) ? Uint8Array.of(compressedFlag) : new Uint8Array(0)
+    ])
+  );
+
+const decodeKeyType = (
+  version: number,
+  compressed: boolean
+): WalletImportFormatType | undefined =>
+  version === mainnetVersion
+    ? compressed
+      ? 'mainnet'
+      : 'mainnetUncompressed'
+    : version === testnetVersion
+    ? compressed
+      ? 'testnet'
+      : 'testnetUncompressed'
+    : undefined;
+
+const hasValidLength = (bin: Uint8Array) =>
+  bin.length === uncompressedLength ||
+  (bin.length === compressedLength &&
+    bin[uncompressedLength] === compressedFlag);
+
+const decodeWifPayload = (secp256k1: Secp256k1, bin: Uint8Array) => {
+  const type = decodeKeyType(bin[0], bin.length === compressedLength);
+  const privateKey = bin.slice(versionLength, uncompressedLength);
+  return type === undefined
+    ? WalletImportFormatError.unknownVersion
+    : !hasValidLength(bin)
+    ? WalletImportFormatError.incorrectLength
+    : secp256k1.validatePrivateKey(privateKey)
+    ? { privateKey, type }
+    : WalletImportFormatError.invalidPrivateKey;
+};
+
+/**
+ * Decode a private key encoded in Wallet Import Format (WIF), verifying that
+ * the result is a valid secp256k1 private key.
+ *
+ * @param sha256 an implementation of sha256
+ * @param secp256k1 an implementation of secp256k1
+ * @param wifKey the WIF-encoded private key to decode
+ */
+export const decodePrivateKeyWif = (
+  sha256: Sha256,
+  secp256k1: Secp256k1,
+  wifKey: string
+): DecodedPrivateKeyWif | WalletImportFormatError | Base58DecodingError => {
+  const bin = base58CheckToBin(sha256, wifKey);
+  return typeof bin === 'string' ? bin : decodeWifPayload(secp256k1, bin);
+};
@@ -1,3 +1,7 @@
+export * from './address/address';
 export * from './bin/bin';
 export * from './crypto/crypto';
+export * from './key/key';
+export * from './script/script';
+export * from './transaction/transaction';
 export * from './utils';
@@ -1 +0,0 @@
-export const noop = () => 1;
@@ -0,0 +1,127 @@
+// tslint:disable:no-expression-statement no-magic-numbers no-unsafe-any
+import test from 'ava';
+import * as fc from 'fast-check';
+import { binToHex, hexToBin } from '../utils';
+import {
+  assembleScript,
+  AssemblyErrorType,
+  AssemblySuccess,
+  disassembleBytecode
+} from './asm';
+
+const maxUint8Number = 255;
+const fcUint8Array = (minLength: number, maxLength: number) =>
+  fc
+    .array(fc.integer(0, maxUint8Number), minLength, maxLength)
+    .map(a => Uint8Array.from(a));
+
+const unlockingScript =
+  '483045022100ab4c6d9ba51da83072615c33a9887b756478e6f9de381085f5183c97603fc6ff022029722188bd937f54c861582ca6fc685b8da2b40d05f06b368374d35e4af2b76401210376ea9e36a75d2ecf9c93a0be76885e36f822529db22acfdc761c9b5b4544f5c5';
+const lockingScript = '76a91415d16c84669ab46059313bf0747e781f1d13936d88ac';
+
+test('disassembleBytecode: P2PKH', t => {
+  t.deepEqual(
+    disassembleBytecode(hexToBin(unlockingScript)),
+    '<0x3045022100ab4c6d9ba51da83072615c33a9887b756478e6f9de381085f5183c97603fc6ff022029722188bd937f54c861582ca6fc685b8da2b40d05f06b368374d35e4af2b76401> <0x0376ea9e36a75d2ecf9c93a0be76885e36f822529db22acfdc761c9b5b4544f5c5>'
+  );
+  t.deepEqual(
+    disassembleBytecode(hexToBin(lockingScript)),
+    'OP_DUP OP_HASH160 <0x15d16c84669ab46059313bf0747e781f1d13936d> OP_EQUALVERIFY OP_CHECKSIG'
+  );
+});
+
+test('disassembleBytecode: non-minimal and malformed pushes', t => {
+  t.deepEqual(
+    disassembleBytecode(hexToBin('004c02abcd4f')),
+    'OP_0 OP_PUSHDATA_1 0x02abcd OP_1NEGATE'
+  );
+  t.deepEqual(disassembleBytecode(hexToBin('4c4c')), 'OP_PUSHDATA_1 0x4c');
+  t.deepEqual(disassembleBytecode(hexToBin('02ab')), 'OP_PUSHBYTES_2 0xab');
+  t.deepEqual(disassembleBytecode(hexToBin('4d03')), 'OP_PUSHDATA_2 0x03');
+  t.deepEqual(disassembleBytecode(hexToBin('4e')), 'OP_PUSHDATA_4');
+  t.deepEqual(
+    disassembleBytecode(hexToBin('baff')),
+    'OP_CHECKDATASIG OP_UNKNOWN255'
+  );
+});
+
+test('assembleScript: P2PKH', t => {
+  t.deepEqual(
+    assembleScript(
+      'OP_DUP OP_HASH160 <0x15d16c84669ab46059313bf0747e781f1d13936d> OP_EQUALVERIFY OP_CHECKSIG'
+    ),
+    { bytecode: hexToBin(lockingScript), success: true }
+  );
+  t.deepEqual(
+    assembleScript(`
+      OP_DUP
+      OP_HASH160 <0x15d16c84669ab46059313bf0747e781f1d13936d>
+      OP_EQUALVERIFY OP_CHECKSIG
+    `),
+    { bytecode: hexToBin(lockingScript), success: true }
+  );
+  t.deepEqual(assembleScript(''), {
+    bytecode: new Uint8Array(0),
+    success: true
+  });
+});
+
+test('assembleScript: raw hex and minimal pushes', t => {
+  t.deepEqual(assembleScript('OP_PUSHDATA_1 0x02abcd <0x> 0x'), {
+    bytecode: hexToBin('4c02abcd00'),
+    success: true
+  });
+  t.deepEqual(
+    (assembleScript(`<0x${'ff'.repeat(76)}>`) as AssemblySuccess).bytecode,
+    hexToBin(`4c4c${'ff'.repeat(76)}`)
+  );
+});
+
+test('assembleScript: errors', t => {
+  t.deepEqual(
+    assembleScript(
+      'OP_DUP OP_HASH161 <0x15d1>\n  <15d1> OP_EQUAL 0xabc <0xzz>'
+    ),
+    {
+      errors: [
+        {
+          column: 8,
+          error: AssemblyErrorType.unknownOpcode,
+          line: 1,
+          token: 'OP_HASH161'
+        },
+        {
+          column: 3,
+          error: AssemblyErrorType.invalidPushLiteral,
+          line: 2,
+          token: '<15d1>'
+        },
+        {
+          column: 19,
+          error: AssemblyErrorType.invalidHexLiteral,
+          line: 2,
+          token: '0xabc'
+        },
+        {
+          column: 25,
+          error: AssemblyErrorType.invalidPushLiteral,
+          line: 2,
+          token: '<0xzz>'
+        }
+      ],
+      success: false
+    }
+  );
+});
+
+test('disassembleBytecode <-> assembleScript', t => {
+  const inverse = fc.property(
+    fcUint8Array(0, 100),
+    bytecode =>
+      binToHex(
+        (assembleScript(disassembleBytecode(bytecode)) as AssemblySuccess)
+          .bytecode
+      ) === binToHex(bytecode)
+  );
+  t.notThrows(() => fc.assert(inverse));
+});
@@ -0,0 +1,243 @@
+import { binToHex, flattenBinArray, hexToBin } from '../utils';
+import { Opcodes } from './opcodes';
+import {
+  createPushInstruction,
+  encodeDataPush,
+  isScriptInstructionPush,
+  ParsedScript,
+  ParsedScriptInstruction,
+  parseScript,
+  serializeScriptInstruction
+} from './parse';
+
+/**
+ * Disassemble a single instruction into its ASM representation.
+ *
+ * Pushes which use the smallest possible push opcode are disassembled as the
+ * pushed data, e.g. `<0x15d16c84>`. All other instructions begin with the name
+ * of their opcode, e.g. `OP_DUP`. If a push is non-minimal or malformed, the
+ * opcode name is followed by the remaining bytes of the instruction as a raw
+ * hex literal, e.g. `OP_PUSHDATA_1 0x02abcd`, so the disassembly can always be
+ * reassembled into identical bytecode.
+ *
+ * @param instruction the instruction to disassemble
+ */
+export const disassembleScriptInstruction = (
+  instruction: ParsedScriptInstruction
+) =>
+  isScriptInstructionPush(instruction) &&
+  instruction.opcode !== Opcodes.OP_0 &&
+  instruction.opcode === createPushInstruction(instruction.data).opcode
+    ? `<0x${binToHex(instruction.data)}>`
+    : [
+        Opcodes[instruction.opcode],
+        ...[serializeScriptInstruction(instruction).slice(1)]
+          .filter(remaining => remaining.length > 0)
+          .map(remaining => `0x${binToHex(remaining)}`)
+      ].join(' ');
+
+/**
+ * Disassemble a parsed script into its ASM representation. See
+ * `disassembleScriptInstruction` for details.
+ *
+ * @param script the parsed script to disassemble
+ */
+export const disassembleParsedScript = (script: ParsedScript) =>
+  script.map(disassembleScriptInstruction).join(' ');
+
+/**
+ * Disassemble a script into its ASM representation.
+ *
+ * E.g.: `disassembleBytecode(hexToBin('76a91415d16c84669ab46059313bf0747e781f1d13936d88ac'))`
+ * => `'OP_DUP OP_HASH160 <0x15d16c84669ab46059313bf0747e781f1d13936d> OP_EQUALVERIFY OP_CHECKSIG'`
+ *
+ * @param bytecode the script bytecode to disassemble
+ */
+export const disassembleBytecode = (bytecode: Uint8Array) =>
+  disassembleParsedScript(parseScript(bytecode));
+
+/**
+ * The reasons for which a token may fail to assemble.
+ */
+export enum AssemblyErrorType {
+  unknownOpcode = 'Unknown opcode.',
+  invalidPushLiteral = 'Invalid push literal: expected a hex-encoded push like "<0xabcd>".',
+  invalidHexLiteral = 'Invalid hex literal: expected an even number of hexadecimal characters prefixed by "0x".'
+}
+
+/**
+ * A single error encountered while assembling a script.
+ */
+export interface AssemblyError {
+  /**
+   * The 1-based column at which the failing token begins.
+   */
+  readonly column: number;
+  /**
+   * The reason this token failed to assemble.
+   */
+  readonly error: AssemblyErrorType;
+  /**
+   * The 1-based line on which the failing token is located.
+   */
+  readonly line: number;
+  /**
+   * The text of the failing token.
+   */
+  readonly token: string;
+}
+
+/**
+ * A successfully-assembled script.
+ */
+export interface AssemblySuccess {
+  /**
+   * The assembled bytecode.
+   */
+  readonly bytecode: Uint8Array;
+  /**
+   * Always `true` for successful assemblies.
+   */
+  readonly success: true;
+}
+
+/**
+ * A failed assembly, including the location of each invalid token.
+ */
+export interface AssemblyFailure {
+  /**
+   * Every error encountered while assembling the script, in order of
+   * appearance.
+   */
+  readonly errors: ReadonlyArray<AssemblyError>;
+  /**
+   * Always `false` for failed assemblies.
+   */
+  readonly success: false;
+}
+
+/**
+ * The result of `assembleScript`.
+ */
+export type AssemblyResult = AssemblySuccess | AssemblyFailure;
+
+interface AssemblyToken {
+  /**
+   * The 1-based column at which this token begins.
+   */
+  readonly column: number;
+  /**
+   * The 1-based line on which this token is located.
+   */
+  readonly line: number;
+  /**
+   * The text of this token.
+   */
+  readonly text: string;
+}
+
+interface LineTokenizationState {
+  /**
+   * The 1-based column at which the next segment begins.
+   */
+  readonly column: number;
+  /**
+   * The tokens found so far.
+   */
+  readonly tokens: ReadonlyArray<AssemblyToken>;
+}
+
+const whitespace = /^\s*$/;
+
+const tokenizeLine = (lineText: string, line: number) =>
+  lineText.split(/(\s+)/).reduce<LineTokenizationState>(
+    (state, segment) => ({
+      column: state.column + segment.length,
+      tokens: whitespace.test(segment)
+        ? state.tokens
+        : [...state.tokens, { column: state.column, line, text: segment }]
+    }),
+    { column: 1, tokens: [] }
+  ).tokens;
+
+const tokenize = (asm: string) =>
+  asm
+    .split('\n')
+    .reduce<ReadonlyArray<AssemblyToken>>(
+      (tokens, lineText, index) => [
+        ...tokens,
+        ...tokenizeLine(lineText, index + 1)
+      ],
+      []
+    );
+
+const hexLiteral = /^0x((?:[0-9a-f]{2})*)$/i;
+const pushLiteral = /^<(.*)>$/;
+
+const opcodeNames = Object.keys(Opcodes).filter(key => isNaN(Number(key)));
+const isOpcodeName = (name: string): name is keyof typeof Opcodes =>
+  opcodeNames.indexOf(name) !== -1;
+
+const assemblePushLiteral = (contents: string) => {
+  const pushedHex = hexLiteral.exec(contents);
+  return pushedHex === null
+    ? AssemblyErrorType.invalidPushLiteral
+    : encodeDataPush(hexToBin(pushedHex[1]));
+};
+
+const assembleOpcodeOrHexLiteral = (text: string) => {
+  const rawHex = hexLiteral.exec(text);
+  return rawHex !== null
+    ? hexToBin(rawHex[1])
+    : isOpcodeName(text)
+    ? Uint8Array.of(Opcodes[text])
+    : text.startsWith('0x')
+    ? AssemblyErrorType.invalidHexLiteral
+    : AssemblyErrorType.unknownOpcode;
+};
+
+const assembleToken = (text: string): Uint8Array | AssemblyErrorType => {
+  const push = pushLiteral.exec(text);
+  return push === null
+    ? assembleOpcodeOrHexLiteral(text)
+    : assemblePushLiteral(push[1]);
+};
+
+/**
+ * Assemble a script from its ASM representation (as produced by
+ * `disassembleBytecode`).
+ *
+ * Tokens are separated by whitespace, and may be:
+ * - an opcode name, e.g. `OP_CHECKSIG`,
+ * - a push literal, e.g. `<0xabcd>`, which is assembled into the smallest
+ * possible push of the provided data, or
+ * - a raw hex literal, e.g. `0xabcd`, which is copied into the bytecode
+ * without modification.
+ *
+ * If any tokens are invalid, the result includes the line and column of each
+ * invalid token.
+ *
+ * @param asm the ASM representation of the script
+ */
+export const assembleScript = (asm: string): AssemblyResult => {
+  const results = tokenize(asm).map(token => ({
+    result: assembleToken(token.text),
+    token
+  }));
+  const errors = results
+    .filter(({ result }) => typeof result === 'string')
+    .map(({ result, token }) => ({
+      column: token.column,
+      error: result as AssemblyErrorType,
+      line: token.line,
+      token: token.text
+    }));
+  return errors.length === 0
+    ? {
+        bytecode: flattenBinArray(
+          results.map(({ result }) => result as Uint8Array)
+        ),
+        success: true
+      }
+    : { errors, success: false };
+};
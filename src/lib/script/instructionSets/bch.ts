@@ -0,0 +1,85 @@
+import { Opcodes } from '../opcodes';
+import {
+  getCoveredBytecode,
+  opAnd,
+  opBin2Num,
+  opCat,
+  opCheckDataSig,
+  opCheckDataSigVerify,
+  opDiv,
+  OperationDependencies,
+  opMod,
+  opNum2Bin,
+  opOr,
+  opSplit,
+  opUnknown,
+  opXor,
+  TransactionSignatureRules,
+  validatePublicKeyEncoding
+} from '../operations/operations';
+import {
+  generateSignatureHashBIP143,
+  isDefinedSigningSerializationType,
+  SigningSerializationFlag
+} from '../signingSerialization';
+import { ScriptError } from '../state';
+import {
+  createCommonOperations,
+  disallowDisabledOpcodes,
+  evaluateProgramP2SH,
+  InstructionSet
+} from './common';
+
+/**
+ * The transaction signature rules of Bitcoin Cash: signatures must include
+ * `SigningSerializationFlag.forkId`, and sign the BIP143 signing
+ * serialization.
+ */
+export const transactionSignatureRulesBCH: TransactionSignatureRules = {
+  generateSignatureHash: (sha256, state, signingSerializationType) =>
+    generateSignatureHashBIP143(
+      sha256,
+      state.context,
+      getCoveredBytecode(state),
+      signingSerializationType
+    ),
+  validatePublicKeyEncoding,
+  validateSigningSerializationType: signingSerializationType =>
+    !isDefinedSigningSerializationType(signingSerializationType)
+      ? ScriptError.invalidSignatureHashType
+      : // tslint:disable-next-line:no-bitwise
+      (signingSerializationType & SigningSerializationFlag.forkId) === 0
+      ? ScriptError.requiresForkId
+      : undefined
+};
+
+/**
+ * Create the instruction set of Bitcoin Cash (as of the November 2018
+ * upgrade), with all standard validation flags (`P2SH`, `STRICTENC`,
+ * `DERSIG`, `LOW_S`, `NULLFAIL`, `NULLDUMMY`, `MINIMALDATA`, `SIGPUSHONLY`,
+ * `CLEANSTACK`, `CHECKLOCKTIMEVERIFY`, `CHECKSEQUENCEVERIFY`, and
+ * `SIGHASH_FORKID`).
+ *
+ * @param dependencies the cryptographic implementations to use
+ */
+export const createInstructionSetBCH = (
+  dependencies: OperationDependencies
+): InstructionSet => ({
+  evaluate: evaluateProgramP2SH,
+  operations: {
+    ...createCommonOperations(dependencies, transactionSignatureRulesBCH),
+    [Opcodes.OP_CAT]: opCat,
+    [Opcodes.OP_SPLIT]: opSplit,
+    [Opcodes.OP_NUM2BIN]: opNum2Bin,
+    [Opcodes.OP_BIN2NUM]: opBin2Num,
+    [Opcodes.OP_AND]: opAnd,
+    [Opcodes.OP_OR]: opOr,
+    [Opcodes.OP_XOR]: opXor,
+    [Opcodes.OP_DIV]: opDiv,
+    [Opcodes.OP_MOD]: opMod,
+    [Opcodes.OP_CHECKDATASIG]: opCheckDataSig(dependencies),
+    [Opcodes.OP_CHECKDATASIGVERIFY]: opCheckDataSigVerify(dependencies)
+  },
+  undefined: opUnknown,
+  validate: disallowDisabledOpcodes('bch')
+});
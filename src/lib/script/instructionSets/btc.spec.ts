@@ -0,0 +1,425 @@
+// tslint:disable:no-expression-statement no-magic-numbers no-unsafe-any
+import test from 'ava';
+import {
+  instantiateRipemd160,
+  instantiateSecp256k1,
+  instantiateSha256
+} from '../../crypto/crypto';
+import { binToHex, flattenBinArray, hexToBin } from '../../utils';
+import { assembleScript, AssemblySuccess } from '../asm';
+import { encodeDataPush } from '../parse';
+import {
+  generateSigningSerializationBIP143,
+  generateSigningSerializationLegacy
+} from '../signingSerialization';
+import { ScriptError, TransactionContext } from '../state';
+import { instantiateScriptVirtualMachine } from '../vm';
+import { createInstructionSetBTC } from './btc';
+
+const vmPromise = instantiateScriptVirtualMachine(createInstructionSetBTC);
+const secp256k1Promise = instantiateSecp256k1();
+const sha256Promise = instantiateSha256();
+const ripemd160Promise = instantiateRipemd160();
+
+const assemble = (asm: string) =>
+  (assembleScript(asm) as AssemblySuccess).bytecode;
+
+// prettier-ignore
+const privkey = new Uint8Array([0xf8, 0x5d, 0x4b, 0xd8, 0xa0, 0x3c, 0xa1, 0x06, 0xc9, 0xde, 0xb4, 0x7b, 0x79, 0x18, 0x03, 0xda, 0xc7, 0xf0, 0x33, 0x38, 0x09, 0xe3, 0xf1, 0xdd, 0x04, 0xd1, 0x82, 0xe0, 0xab, 0xa6, 0xe5, 0x53]);
+
+const pubkey = hexToBin(
+  '0376ea9e36a75d2ecf9c93a0be76885e36f822529db22acfdc761c9b5b4544f5c5'
+);
+const pubkeyHash = '15d16c84669ab46059313bf0747e781f1d13936d';
+const p2pkhLockingBytecode = assemble(
+  `OP_DUP OP_HASH160 <0x${pubkeyHash}> OP_EQUALVERIFY OP_CHECKSIG`
+);
+
+const context: TransactionContext = {
+  inputIndex: 0,
+  sourceSatoshis: BigInt(10000),
+  transaction: {
+    inputs: [
+      {
+        outpointIndex: 0,
+        outpointTransactionHash: hexToBin(
+          '0000000000000000000000000000000000000000000000000000000000000001'
+        ),
+        sequenceNumber: 0xfffffffe
+      }
+    ],
+    locktime: 500,
+    outputs: [
+      { lockingBytecode: p2pkhLockingBytecode, satoshis: BigInt(9000) }
+    ],
+    version: 2
+  }
+};
+
+const allOutputs = 0x01;
+
+const sign = async (
+  serialization: Uint8Array,
+  signingSerializationType = 1
+) => {
+  const [secp256k1, sha256] = await Promise.all([
+    secp256k1Promise,
+    sha256Promise
+  ]);
+  return flattenBinArray([
+    secp256k1.signMessageHashDER(
+      privkey,
+      sha256.hash(sha256.hash(serialization))
+    ),
+    Uint8Array.of(signingSerializationType)
+  ]);
+};
+
+const signWitness = async (coveredBytecode: Uint8Array) =>
+  sign(
+    generateSigningSerializationBIP143(
+      await sha256Promise,
+      context,
+      coveredBytecode,
+      allOutputs
+    )
+  );
+
+test('BTC: legacy P2PKH', async t => {
+  const vm = await vmPromise;
+  const signature = await sign(
+    generateSigningSerializationLegacy(
+      context,
+      p2pkhLockingBytecode,
+      allOutputs
+    ) as Uint8Array
+  );
+  const unlockingBytecode = flattenBinArray([
+    encodeDataPush(signature),
+    encodeDataPush(pubkey)
+  ]);
+  t.true(
+    vm.verify({
+      context,
+      lockingBytecode: p2pkhLockingBytecode,
+      unlockingBytecode
+    })
+  );
+  t.deepEqual(
+    vm.verify({
+      context,
+      lockingBytecode: p2pkhLockingBytecode,
+      unlockingBytecode,
+      witness: [hexToBin('01')]
+    }),
+    ScriptError.witnessUnexpected
+  );
+  const forkIdSignature = Uint8Array.from([...signature.slice(0, -1), 0x41]);
+  t.deepEqual(
+    vm.verify({
+      context,
+      lockingBytecode: p2pkhLockingBytecode,
+      unlockingBytecode: flattenBinArray([
+        encodeDataPush(forkIdSignature),
+        encodeDataPush(pubkey)
+      ])
+    }),
+    ScriptError.invalidSignatureHashType
+  );
+});
+
+test('BTC: P2WPKH', async t => {
+  const vm = await vmPromise;
+  const lockingBytecode = assemble(`OP_0 <0x${pubkeyHash}>`);
+  const signature = await signWitness(p2pkhLockingBytecode);
+  t.true(
+    vm.verify({
+      context,
+      lockingBytecode,
+      unlockingBytecode: new Uint8Array(0),
+      witness: [signature, pubkey]
+    })
+  );
+  t.deepEqual(
+    vm.verify({
+      context,
+      lockingBytecode,
+      unlockingBytecode: assemble('OP_1'),
+      witness: [signature, pubkey]
+    }),
+    ScriptError.witnessMalleated
+  );
+  t.deepEqual(
+    vm.verify({
+      context,
+      lockingBytecode,
+      unlockingBytecode: new Uint8Array(0),
+      witness: [pubkey]
+    }),
+    ScriptError.witnessProgramMismatch
+  );
+  t.deepEqual(
+    vm.verify({
+      context: { ...context, sourceSatoshis: BigInt(10001) },
+      lockingBytecode,
+      unlockingBytecode: new Uint8Array(0),
+      witness: [signature, pubkey]
+    }),
+    ScriptError.nonNullSignatureFailure
+  );
+  t.deepEqual(
+    vm.verify({
+      context,
+      lockingBytecode: assemble(`OP_0 <0x${pubkeyHash}00>`),
+      unlockingBytecode: new Uint8Array(0),
+      witness: [signature, pubkey]
+    }),
+    ScriptError.witnessProgramWrongLength
+  );
+});
+
+test('BTC: P2WSH', async t => {
+  const [vm, sha256] = await Promise.all([vmPromise, sha256Promise]);
+  const witnessScript = assemble(`<0x${binToHex(pubkey)}> OP_CHECKSIG`);
+  const toLockingBytecode = (script: Uint8Array) =>
+    assemble(`OP_0 <0x${binToHex(sha256.hash(script))}>`);
+  const lockingBytecode = toLockingBytecode(witnessScript);
+  const signature = await signWitness(witnessScript);
+  t.true(
+    vm.verify({
+      context,
+      lockingBytecode,
+      unlockingBytecode: new Uint8Array(0),
+      witness: [signature, witnessScript]
+    })
+  );
+  t.deepEqual(
+    vm.verify({
+      context,
+      lockingBytecode,
+      unlockingBytecode: encodeDataPush(signature),
+      witness: [signature, witnessScript]
+    }),
+    ScriptError.witnessMalleated
+  );
+  t.deepEqual(
+    vm.verify({
+      context,
+      lockingBytecode,
+      unlockingBytecode: new Uint8Array(0),
+      witness: [signature, pubkey]
+    }),
+    ScriptError.witnessProgramMismatch
+  );
+  t.deepEqual(
+    vm.verify({
+      context,
+      lockingBytecode,
+      unlockingBytecode: new Uint8Array(0),
+      witness: []
+    }),
+    ScriptError.witnessProgramWitnessEmpty
+  );
+  t.deepEqual(
+    vm.verify({
+      context,
+      lockingBytecode: assemble(
+        `OP_0 <0x${binToHex(sha256.hash(witnessScript)).slice(2)}>`
+      ),
+      unlockingBytecode: new Uint8Array(0),
+      witness: [signature, witnessScript]
+    }),
+    ScriptError.witnessProgramWrongLength
+  );
+  // witness scripts may be longer than the maximum stack item length
+  const push = `<0x${'ab'.repeat(75)}> OP_DROP `;
+  const longWitnessScript = assemble(`${push.repeat(8)}OP_1`);
+  t.true(longWitnessScript.length > 520);
+  t.true(
+    vm.verify({
+      context,
+      lockingBytecode: toLockingBytecode(longWitnessScript),
+      unlockingBytecode: new Uint8Array(0),
+      witness: [longWitnessScript]
+    })
+  );
+  t.deepEqual(
+    vm.verify({
+      context,
+      lockingBytecode: toLockingBytecode(longWitnessScript),
+      unlockingBytecode: new Uint8Array(0),
+      witness: [new Uint8Array(521), longWitnessScript]
+    }),
+    ScriptError.exceededMaximumStackItemLength
+  );
+  const oversizedWitnessScript = Uint8Array.from([
+    ...new Uint8Array(10000).fill(0x61),
+    0x51
+  ]);
+  t.deepEqual(
+    vm.verify({
+      context,
+      lockingBytecode: toLockingBytecode(oversizedWitnessScript),
+      unlockingBytecode: new Uint8Array(0),
+      witness: [oversizedWitnessScript]
+    }),
+    ScriptError.exceededMaximumScriptLength
+  );
+});
+
+test('BTC: MINIMALIF and WITNESS_PUBKEYTYPE', async t => {
+  const [vm, secp256k1, sha256] = await Promise.all([
+    vmPromise,
+    secp256k1Promise,
+    sha256Promise
+  ]);
+  const verifyWitness = (
+    witnessScript: Uint8Array,
+    items: ReadonlyArray<Uint8Array>
+  ) =>
+    vm.verify({
+      context,
+      lockingBytecode: assemble(
+        `OP_0 <0x${binToHex(sha256.hash(witnessScript))}>`
+      ),
+      unlockingBytecode: new Uint8Array(0),
+      witness: [...items, witnessScript]
+    });
+  const ifScript = assemble('OP_IF OP_1 OP_ENDIF');
+  const notIfScript = assemble('OP_NOTIF OP_1 OP_ENDIF');
+  t.true(verifyWitness(ifScript, [hexToBin('01')]));
+  t.true(verifyWitness(notIfScript, [new Uint8Array(0)]));
+  t.deepEqual(
+    verifyWitness(ifScript, [hexToBin('02')]),
+    ScriptError.nonMinimalConditional
+  );
+  t.deepEqual(
+    verifyWitness(ifScript, [hexToBin('0100')]),
+    ScriptError.nonMinimalConditional
+  );
+  t.deepEqual(
+    verifyWitness(notIfScript, [hexToBin('00')]),
+    ScriptError.nonMinimalConditional
+  );
+  // the MINIMALIF rule does not apply outside of witness scripts
+  t.true(
+    vm.verify({
+      context,
+      lockingBytecode: assemble('OP_2 OP_IF OP_1 OP_ENDIF'),
+      unlockingBytecode: new Uint8Array(0)
+    })
+  );
+  const uncompressedScript = assemble(
+    `<0x${binToHex(secp256k1.uncompressPublicKey(pubkey))}> OP_CHECKSIG`
+  );
+  t.deepEqual(
+    verifyWitness(uncompressedScript, [await signWitness(uncompressedScript)]),
+    ScriptError.witnessUncompressedPublicKey
+  );
+  t.deepEqual(
+    verifyWitness(uncompressedScript, [new Uint8Array(0)]),
+    ScriptError.witnessUncompressedPublicKey
+  );
+  const invalidKeyScript = assemble('<0x0202> OP_CHECKSIG');
+  t.deepEqual(
+    verifyWitness(invalidKeyScript, [new Uint8Array(0)]),
+    ScriptError.invalidPublicKeyEncoding
+  );
+});
+
+test('BTC: P2SH-P2WSH', async t => {
+  const [vm, sha256, ripemd160] = await Promise.all([
+    vmPromise,
+    sha256Promise,
+    ripemd160Promise
+  ]);
+  const witnessScript = assemble(`<0x${binToHex(pubkey)}> OP_CHECKSIG`);
+  const redeemBytecode = assemble(
+    `OP_0 <0x${binToHex(sha256.hash(witnessScript))}>`
+  );
+  const lockingBytecode = assemble(
+    `OP_HASH160 <0x${binToHex(
+      ripemd160.hash(sha256.hash(redeemBytecode))
+    )}> OP_EQUAL`
+  );
+  const signature = await signWitness(witnessScript);
+  const unlockingBytecode = encodeDataPush(redeemBytecode);
+  t.true(
+    vm.verify({
+      context,
+      lockingBytecode,
+      unlockingBytecode,
+      witness: [signature, witnessScript]
+    })
+  );
+  t.deepEqual(
+    vm.verify({
+      context,
+      lockingBytecode,
+      unlockingBytecode,
+      witness: [signature, assemble('OP_1')]
+    }),
+    ScriptError.witnessProgramMismatch
+  );
+  t.deepEqual(
+    vm.verify({
+      context,
+      lockingBytecode,
+      unlockingBytecode,
+      witness: []
+    }),
+    ScriptError.witnessProgramWitnessEmpty
+  );
+  t.deepEqual(
+    vm.verify({
+      context,
+      lockingBytecode,
+      unlockingBytecode: flattenBinArray([
+        assemble('OP_1 OP_DROP'),
+        unlockingBytecode
+      ]),
+      witness: [signature, witnessScript]
+    }),
+    ScriptError.requiresPushOnly
+  );
+  t.deepEqual(
+    vm.verify({
+      context,
+      lockingBytecode,
+      unlockingBytecode: flattenBinArray([assemble('OP_0'), unlockingBytecode]),
+      witness: [signature, witnessScript]
+    }),
+    ScriptError.witnessMalleatedP2SH
+  );
+  t.deepEqual(
+    vm.verify({
+      context,
+      lockingBytecode,
+      unlockingBytecode,
+      witness: [signature, signature, witnessScript]
+    }),
+    ScriptError.requiresCleanStack
+  );
+});
+
+test('BTC: opcodes', async t => {
+  const vm = await vmPromise;
+  const verifyLockingAsm = (asm: string) =>
+    vm.verify({
+      context,
+      lockingBytecode: assemble(asm),
+      unlockingBytecode: new Uint8Array(0)
+    });
+  t.true(verifyLockingAsm('OP_1 OP_1 OP_ADD OP_2 OP_EQUAL'));
+  t.true(verifyLockingAsm('OP_1 OP_NOP4'));
+  t.deepEqual(
+    verifyLockingAsm('OP_1 OP_0 OP_IF OP_CAT OP_ENDIF'),
+    ScriptError.disabledOpcode
+  );
+  t.deepEqual(verifyLockingAsm('OP_1 OP_2 OP_DIV'), ScriptError.disabledOpcode);
+  t.deepEqual(
+    verifyLockingAsm('OP_0 OP_0 OP_0 OP_CHECKDATASIG'),
+    ScriptError.unknownOpcode
+  );
+  t.true(verifyLockingAsm('OP_1 OP_0 OP_IF OP_CHECKDATASIG OP_ENDIF'));
+});
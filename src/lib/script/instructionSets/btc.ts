@@ -0,0 +1,439 @@
+import { Sha256 } from '../../crypto/crypto';
+import { binToHex, flattenBinArray } from '../../utils';
+import { Opcodes } from '../opcodes';
+import {
+  getCoveredBytecode,
+  isValidPublicKeyEncoding,
+  OperationDependencies,
+  opIfMinimal,
+  opNotIfMinimal,
+  opUnknown,
+  TransactionSignatureRules,
+  validatePublicKeyEncoding
+} from '../operations/operations';
+import {
+  encodeDataPush,
+  serializeScript,
+  serializeScriptInstruction
+} from '../parse';
+import {
+  generateSignatureHashBIP143,
+  generateSignatureHashLegacy,
+  SigningSerializationFlag
+} from '../signingSerialization';
+import {
+  maximumScriptLength,
+  maximumStackItemLength,
+  ProgramState,
+  ScriptError,
+  TransactionContext
+} from '../state';
+import {
+  applyErrorToResult,
+  createCommonOperations,
+  createScriptState,
+  disallowDisabledOpcodes,
+  evaluateLockingBytecode,
+  evaluateRedeemBytecode,
+  evaluateUnlockingBytecode,
+  InstructionSet,
+  isPayToScriptHash,
+  last,
+  requireCleanStack,
+  requireTruthyResult,
+  ScriptEvaluator,
+  ScriptProgram
+} from './common';
+
+const isDefinedSigningSerializationTypeBTC = (
+  signingSerializationType: number
+) => {
+  const baseType =
+    // tslint:disable-next-line:no-bitwise
+    signingSerializationType & ~SigningSerializationFlag.singleInput;
+  return (
+    baseType >= SigningSerializationFlag.allOutputs &&
+    baseType <= SigningSerializationFlag.correspondingOutput
+  );
+};
+
+const validateSigningSerializationTypeBTC = (
+  signingSerializationType: number
+) =>
+  isDefinedSigningSerializationTypeBTC(signingSerializationType)
+    ? undefined
+    : ScriptError.invalidSignatureHashType;
+
+/**
+ * Returns the bytecode covered by a legacy signature: the script following
+ * the most recently evaluated `OP_CODESEPARATOR`, with every push of a
+ * signature being checked removed (a.k.a. `FindAndDelete`).
+ */
+const getCoveredBytecodeLegacy = (
+  state: ProgramState,
+  signatures: ReadonlyArray<Uint8Array>
+) => {
+  const signaturePushes = signatures.map(signature =>
+    binToHex(encodeDataPush(signature))
+  );
+  return serializeScript(
+    state.instructions
+      .slice(state.lastCodeSeparator + 1)
+      .filter(
+        instruction =>
+          signaturePushes.indexOf(
+            binToHex(serializeScriptInstruction(instruction))
+          ) === -1
+      )
+  );
+};
+
+/**
+ * The transaction signature rules of BTC for non-segwit scripts: signatures
+ * sign the legacy signing serialization.
+ */
+export const transactionSignatureRulesBTC: TransactionSignatureRules = {
+  generateSignatureHash: (
+    sha256,
+    state,
+    signingSerializationType,
+    signatures
+  ) =>
+    generateSignatureHashLegacy(
+      sha256,
+      state.context,
+      getCoveredBytecodeLegacy(state, signatures),
+      signingSerializationType
+    ),
+  validatePublicKeyEncoding,
+  validateSigningSerializationType: validateSigningSerializationTypeBTC
+};
+
+// tslint:disable-next-line:no-magic-numbers
+const compressedPublicKeyLength = 33;
+
+/**
+ * The transaction signature rules of BTC for segwit (version 0) scripts:
+ * signatures sign the BIP143 signing serialization, and public keys must be
+ * compressed (the "WITNESS_PUBKEYTYPE" rule).
+ */
+export const transactionSignatureRulesBTCWitness: TransactionSignatureRules = {
+  generateSignatureHash: (sha256, state, signingSerializationType) =>
+    generateSignatureHashBIP143(
+      sha256,
+      state.context,
+      getCoveredBytecode(state),
+      signingSerializationType
+    ),
+  validatePublicKeyEncoding: publicKey =>
+    !isValidPublicKeyEncoding(publicKey)
+      ? ScriptError.invalidPublicKeyEncoding
+      : publicKey.length !== compressedPublicKeyLength
+      ? ScriptError.witnessUncompressedPublicKey
+      : undefined,
+  validateSigningSerializationType: validateSigningSerializationTypeBTC
+};
+
+/**
+ * A segwit program: the version and program of a witness locking script.
+ */
+export interface WitnessProgram {
+  /**
+   * The witness program (2 to 40 bytes).
+   */
+  readonly program: Uint8Array;
+  /**
+   * The witness version (0 to 16).
+   */
+  readonly version: number;
+}
+
+// tslint:disable:no-magic-numbers
+const witnessVersionLength = 1;
+const minimumWitnessProgramLength = 2;
+const maximumWitnessProgramLength = 40;
+const payToWitnessPublicKeyHashLength = 20;
+const payToWitnessScriptHashLength = 32;
+const payToWitnessPublicKeyHashWitnessLength = 2;
+// tslint:enable:no-magic-numbers
+
+const decodeWitnessVersion = (opcode: number) =>
+  opcode === Opcodes.OP_0
+    ? 0
+    : opcode >= Opcodes.OP_1 && opcode <= Opcodes.OP_16
+    ? opcode - Opcodes.OP_1 + 1
+    : undefined;
+
+const isValidWitnessProgramPush = (bytecode: Uint8Array) => {
+  const programLength = bytecode[witnessVersionLength];
+  return (
+    programLength >= minimumWitnessProgramLength &&
+    programLength <= maximumWitnessProgramLength &&
+    bytecode.length === witnessVersionLength + 1 + programLength
+  );
+};
+
+/**
+ * Parse a segwit locking script: a version push (`OP_0` through `OP_16`)
+ * followed by a single direct push of 2 to 40 bytes. Returns `undefined` if
+ * `bytecode` is not a witness program.
+ *
+ * @param bytecode the locking bytecode to parse
+ */
+export const parseWitnessProgram = (
+  bytecode: Uint8Array
+): WitnessProgram | undefined => {
+  const version = decodeWitnessVersion(bytecode[0]);
+  return version !== undefined && isValidWitnessProgramPush(bytecode)
+    ? { program: bytecode.slice(witnessVersionLength + 1), version }
+    : undefined;
+};
+
+const getWitness = (program: ScriptProgram) =>
+  program.witness === undefined ? [] : program.witness;
+
+/**
+ * The script evaluated for P2WPKH (Pay to Witness Public Key Hash) programs:
+ * `OP_DUP OP_HASH160 <20-byte hash> OP_EQUALVERIFY OP_CHECKSIG`.
+ */
+const createPayToPublicKeyHashBytecode = (publicKeyHash: Uint8Array) =>
+  flattenBinArray([
+    Uint8Array.of(Opcodes.OP_DUP, Opcodes.OP_HASH160),
+    encodeDataPush(publicKeyHash),
+    Uint8Array.of(Opcodes.OP_EQUALVERIFY, Opcodes.OP_CHECKSIG)
+  ]);
+
+const createPayToWitnessScriptHashState = (
+  sha256: Sha256,
+  context: TransactionContext,
+  scriptHash: Uint8Array,
+  witness: ReadonlyArray<Uint8Array>
+) =>
+  witness.length === 0
+    ? ScriptError.witnessProgramWitnessEmpty
+    : binToHex(sha256.hash(last(witness))) !== binToHex(scriptHash)
+    ? ScriptError.witnessProgramMismatch
+    : last(witness).length > maximumScriptLength
+    ? ScriptError.exceededMaximumScriptLength
+    : createScriptState(last(witness), context, witness.slice(0, -1));
+
+const createPayToWitnessPublicKeyHashState = (
+  context: TransactionContext,
+  publicKeyHash: Uint8Array,
+  witness: ReadonlyArray<Uint8Array>
+) =>
+  witness.length === payToWitnessPublicKeyHashWitnessLength
+    ? createScriptState(
+        createPayToPublicKeyHashBytecode(publicKeyHash),
+        context,
+        witness
+      )
+    : ScriptError.witnessProgramMismatch;
+
+/**
+ * Create the initial state for the evaluation of a version 0 witness
+ * program, or the `ScriptError` which prevents its evaluation.
+ */
+const createWitnessScriptState = (
+  sha256: Sha256,
+  context: TransactionContext,
+  program: Uint8Array,
+  witness: ReadonlyArray<Uint8Array>
+): ProgramState | ScriptError =>
+  program.length === payToWitnessScriptHashLength
+    ? createPayToWitnessScriptHashState(sha256, context, program, witness)
+    : program.length === payToWitnessPublicKeyHashLength
+    ? createPayToWitnessPublicKeyHashState(context, program, witness)
+    : ScriptError.witnessProgramWrongLength;
+
+/**
+ * The instruction set and hash implementation used to evaluate witness
+ * programs.
+ */
+interface WitnessEvaluation {
+  /**
+   * The instruction set with which to evaluate witness scripts.
+   */
+  readonly instructionSet: InstructionSet;
+  /**
+   * An implementation of sha256.
+   */
+  readonly sha256: Sha256;
+}
+
+/**
+ * Evaluate a witness program (following the successful evaluation of the
+ * locking bytecode or P2SH redeem bytecode which contains it). Witness
+ * programs of unknown versions succeed without evaluation.
+ */
+const evaluateWitnessProgram = (
+  { instructionSet, sha256 }: WitnessEvaluation,
+  states: ReadonlyArray<ProgramState>,
+  program: ScriptProgram,
+  run: ScriptEvaluator,
+  { program: witnessProgram, version }: WitnessProgram
+) => {
+  const state = createWitnessScriptState(
+    sha256,
+    program.context,
+    witnessProgram,
+    getWitness(program)
+  );
+  return version !== 0
+    ? states
+    : typeof state === 'string'
+    ? applyErrorToResult(states, state)
+    : state.stack.some(item => item.length > maximumStackItemLength)
+    ? applyErrorToResult(states, ScriptError.exceededMaximumStackItemLength)
+    : [
+        ...states,
+        ...requireTruthyResult(requireCleanStack(run(state, instructionSet)))
+      ];
+};
+
+const requireEmptyWitness = (
+  states: ReadonlyArray<ProgramState>,
+  program: ScriptProgram
+) =>
+  last(states).error === undefined && getWitness(program).length !== 0
+    ? applyErrorToResult(states, ScriptError.witnessUnexpected)
+    : states;
+
+/**
+ * Following the evaluation of P2SH redeem bytecode, evaluate the witness
+ * program it contains (if any).
+ */
+const evaluateNestedWitnessProgram = (
+  witnessEvaluation: WitnessEvaluation,
+  states: ReadonlyArray<ProgramState>,
+  program: ScriptProgram,
+  run: ScriptEvaluator,
+  redeemBytecode: Uint8Array
+) => {
+  const witnessProgram = parseWitnessProgram(redeemBytecode);
+  return last(states).error !== undefined
+    ? states
+    : witnessProgram === undefined
+    ? requireEmptyWitness(requireCleanStack(states), program)
+    : binToHex(program.unlockingBytecode) !==
+      binToHex(encodeDataPush(redeemBytecode))
+    ? applyErrorToResult(states, ScriptError.witnessMalleatedP2SH)
+    : evaluateWitnessProgram(
+        witnessEvaluation,
+        states,
+        program,
+        run,
+        witnessProgram
+      );
+};
+
+/**
+ * Following the evaluation of locking bytecode, evaluate the witness program
+ * (for witness outputs) or redeem bytecode (for P2SH outputs), if any.
+ */
+const evaluateAfterLockingBytecode = (
+  witnessEvaluation: WitnessEvaluation,
+  locking: ReadonlyArray<ProgramState>,
+  program: ScriptProgram,
+  run: ScriptEvaluator,
+  unlockingStack: ReadonlyArray<Uint8Array>
+) => {
+  const witnessProgram = parseWitnessProgram(program.lockingBytecode);
+  return witnessProgram !== undefined
+    ? program.unlockingBytecode.length === 0
+      ? evaluateWitnessProgram(
+          witnessEvaluation,
+          locking,
+          program,
+          run,
+          witnessProgram
+        )
+      : applyErrorToResult(locking, ScriptError.witnessMalleated)
+    : isPayToScriptHash(program.lockingBytecode)
+    ? evaluateNestedWitnessProgram(
+        witnessEvaluation,
+        [...locking, ...evaluateRedeemBytecode(program, run, unlockingStack)],
+        program,
+        run,
+        last(unlockingStack)
+      )
+    : requireEmptyWitness(requireCleanStack(locking), program);
+};
+
+/**
+ * Evaluate a BTC program: the unlocking bytecode, locking bytecode, and (for
+ * P2SH outputs) redeem bytecode, followed by the witness script if the
+ * locking bytecode (or redeem bytecode) is a witness program.
+ */
+const evaluateProgramBTC = (
+  witnessEvaluation: WitnessEvaluation,
+  program: ScriptProgram,
+  run: ScriptEvaluator
+): ReadonlyArray<ProgramState> => {
+  const unlocking = evaluateUnlockingBytecode(program, run);
+  const unlockingResult = last(unlocking);
+  // tslint:disable-next-line:no-if-statement
+  if (unlockingResult.error !== undefined) {
+    return unlocking;
+  }
+  const locking: ReadonlyArray<ProgramState> = [
+    ...unlocking,
+    ...evaluateLockingBytecode(program, run, unlockingResult.stack)
+  ];
+  return last(locking).error !== undefined
+    ? locking
+    : evaluateAfterLockingBytecode(
+        witnessEvaluation,
+        locking,
+        program,
+        run,
+        unlockingResult.stack
+      );
+};
+
+/**
+ * Create the instruction set of Bitcoin (BTC), including segregated witness
+ * (version 0) programs, with the standard validation flags (`P2SH`,
+ * `STRICTENC`, `DERSIG`, `LOW_S`, `NULLFAIL`, `NULLDUMMY`, `MINIMALDATA`,
+ * `SIGPUSHONLY`, `CLEANSTACK`, `CHECKLOCKTIMEVERIFY`, `CHECKSEQUENCEVERIFY`,
+ * `WITNESS`, `MINIMALIF`, and `WITNESS_PUBKEYTYPE`).
+ *
+ * Non-segwit scripts are evaluated with `transactionSignatureRulesBTC`, and
+ * witness scripts with `transactionSignatureRulesBTCWitness`. `MINIMALIF` and
+ * `WITNESS_PUBKEYTYPE` apply only to witness scripts.
+ *
+ * @param dependencies the cryptographic implementations to use
+ */
+export const createInstructionSetBTC = (
+  dependencies: OperationDependencies
+): InstructionSet => {
+  const base = {
+    undefined: opUnknown,
+    validate: disallowDisabledOpcodes('btc')
+  };
+  const witnessOperations = {
+    ...createCommonOperations(
+      dependencies,
+      transactionSignatureRulesBTCWitness
+    ),
+    [Opcodes.OP_IF]: opIfMinimal,
+    [Opcodes.OP_NOTIF]: opNotIfMinimal
+  };
+  const evaluate: InstructionSet['evaluate'] = (program, run) =>
+    evaluateProgramBTC(
+      {
+        instructionSet: { ...base, evaluate, operations: witnessOperations },
+        sha256: dependencies.sha256
+      },
+      program,
+      run
+    );
+  return {
+    ...base,
+    evaluate,
+    operations: createCommonOperations(
+      dependencies,
+      transactionSignatureRulesBTC
+    )
+  };
+};
@@ -0,0 +1,474 @@
+import { range } from '../../utils';
+import { stackItemIsTruthy } from '../number';
+import {
+  opcodeMetadata,
+  OpcodeNetwork,
+  Opcodes,
+  OpcodeStatus
+} from '../opcodes';
+import {
+  applyError,
+  op0NotEqual,
+  op1Add,
+  op1Sub,
+  op2Drop,
+  op2Dup,
+  op2Over,
+  op2Rot,
+  op2Swap,
+  op3Dup,
+  opAbs,
+  opAdd,
+  opBoolAnd,
+  opBoolOr,
+  opCheckLockTimeVerify,
+  opCheckMultiSig,
+  opCheckMultiSigVerify,
+  opCheckSequenceVerify,
+  opCheckSig,
+  opCheckSigVerify,
+  opCodeSeparator,
+  opDepth,
+  opDrop,
+  opDup,
+  opElse,
+  opEndIf,
+  opEqual,
+  opEqualVerify,
+  Operation,
+  OperationDependencies,
+  opFromAltStack,
+  opGreaterThan,
+  opGreaterThanOrEqual,
+  opHash160,
+  opHash256,
+  opIf,
+  opIfDup,
+  opLessThan,
+  opLessThanOrEqual,
+  opMax,
+  opMin,
+  opNegate,
+  opNip,
+  opNop,
+  opNot,
+  opNotIf,
+  opNumEqual,
+  opNumEqualVerify,
+  opNumNotEqual,
+  opOver,
+  opPick,
+  opPushData,
+  opReserved,
+  opReturn,
+  opRipemd160,
+  opRoll,
+  opRot,
+  opSha1,
+  opSha256,
+  opSize,
+  opSub,
+  opSwap,
+  opToAltStack,
+  opTuck,
+  opVerify,
+  opWithin,
+  pushNumberOperation,
+  TransactionSignatureRules
+} from '../operations/operations';
+import { ParsedScriptInstruction, parseScript } from '../parse';
+import {
+  createProgramState,
+  maximumScriptLength,
+  ProgramState,
+  ScriptError,
+  TransactionContext
+} from '../state';
+
+/**
+ * The operations of an instruction set, indexed by opcode.
+ */
+export interface OperationTable {
+  readonly [opcode: number]: Operation | undefined;
+}
+
+/**
+ * The unlocking bytecode, locking bytecode, and transaction context of an
+ * input to be validated.
+ */
+export interface ScriptProgram {
+  /**
+   * The transaction context in which the program is evaluated.
+   */
+  readonly context: TransactionContext;
+  /**
+   * The locking bytecode of the output being spent (a.k.a. "scriptPubKey").
+   */
+  readonly lockingBytecode: Uint8Array;
+  /**
+   * The unlocking bytecode of the input being validated (a.k.a.
+   * "scriptSig").
+   */
+  readonly unlockingBytecode: Uint8Array;
+  /**
+   * The witness of the input being validated, if any. (Only used by
+   * instruction sets which support segregated witness.)
+   */
+  readonly witness?: ReadonlyArray<Uint8Array>;
+}
+
+/**
+ * A function which evaluates a single script from `state` until it completes
+ * or fails, returning the resulting program states. The final state is the
+ * result of the script.
+ *
+ * @param state the initial program state
+ * @param instructionSet the instruction set with which to evaluate the script
+ * (defaults to the instruction set of the virtual machine)
+ */
+export type ScriptEvaluator = (
+  state: ProgramState,
+  instructionSet?: InstructionSet
+) => ReadonlyArray<ProgramState>;
+
+/**
+ * The rules of a script system: the operation performed by each opcode, and
+ * the network-specific rules which apply to instructions and programs.
+ *
+ * Instruction sets can be extended or modified by composition, e.g.
+ * `{ ...instructionSet, operations: { ...instructionSet.operations,
+ * [0xc0]: opCustom } }`.
+ */
+// tslint:disable:no-mixed-interface
+export interface InstructionSet {
+  /**
+   * Evaluate a program: the unlocking bytecode, locking bytecode, and any
+   * further scripts required by the network (e.g. P2SH redeem bytecode).
+   * Returns the concatenated results of each call to `run`, where the final
+   * state is the result of the program.
+   *
+   * @param program the program to evaluate
+   * @param run the function with which to evaluate each script
+   */
+  readonly evaluate: (
+    program: ScriptProgram,
+    run: ScriptEvaluator
+  ) => ReadonlyArray<ProgramState>;
+  /**
+   * The operation performed by each opcode.
+   */
+  readonly operations: OperationTable;
+  /**
+   * The operation performed by opcodes which are not in `operations`.
+   */
+  readonly undefined: Operation;
+  /**
+   * Validate each instruction before it is evaluated, returning the program
+   * state (with an `error` if the instruction is invalid). Unlike operations,
+   * `validate` is also applied to instructions within unexecuted conditional
+   * branches.
+   *
+   * @param state the program state
+   * @param instruction the instruction about to be evaluated
+   */
+  readonly validate: (
+    state: ProgramState,
+    instruction: ParsedScriptInstruction
+  ) => ProgramState;
+}
+// tslint:enable:no-mixed-interface
+
+const smallIntegerCount = 16;
+
+/**
+ * Create the operations which are shared by the Bitcoin Cash and Bitcoin
+ * (BTC) script systems, indexed by opcode.
+ *
+ * @param dependencies the cryptographic implementations to use
+ * @param rules the transaction signature rules of the network
+ */
+export const createCommonOperations = (
+  dependencies: OperationDependencies,
+  rules: TransactionSignatureRules
+): OperationTable => {
+  const { ripemd160, sha1, sha256 } = dependencies;
+  return {
+    ...range(Opcodes.OP_PUSHDATA_4 + 1).reduce<OperationTable>(
+      (all, opcode) => ({ ...all, [opcode]: opPushData }),
+      {}
+    ),
+    [Opcodes.OP_1NEGATE]: pushNumberOperation(-1),
+    [Opcodes.OP_RESERVED]: opReserved,
+    ...range(smallIntegerCount, 1).reduce<OperationTable>(
+      (all, value) => ({
+        ...all,
+        [Opcodes.OP_1 + value - 1]: pushNumberOperation(value)
+      }),
+      {}
+    ),
+    [Opcodes.OP_NOP]: opNop,
+    [Opcodes.OP_VER]: opReserved,
+    [Opcodes.OP_IF]: opIf,
+    [Opcodes.OP_NOTIF]: opNotIf,
+    [Opcodes.OP_ELSE]: opElse,
+    [Opcodes.OP_ENDIF]: opEndIf,
+    [Opcodes.OP_VERIFY]: opVerify,
+    [Opcodes.OP_RETURN]: opReturn,
+    [Opcodes.OP_TOALTSTACK]: opToAltStack,
+    [Opcodes.OP_FROMALTSTACK]: opFromAltStack,
+    [Opcodes.OP_2DROP]: op2Drop,
+    [Opcodes.OP_2DUP]: op2Dup,
+    [Opcodes.OP_3DUP]: op3Dup,
+    [Opcodes.OP_2OVER]: op2Over,
+    [Opcodes.OP_2ROT]: op2Rot,
+    [Opcodes.OP_2SWAP]: op2Swap,
+    [Opcodes.OP_IFDUP]: opIfDup,
+    [Opcodes.OP_DEPTH]: opDepth,
+    [Opcodes.OP_DROP]: opDrop,
+    [Opcodes.OP_DUP]: opDup,
+    [Opcodes.OP_NIP]: opNip,
+    [Opcodes.OP_OVER]: opOver,
+    [Opcodes.OP_PICK]: opPick,
+    [Opcodes.OP_ROLL]: opRoll,
+    [Opcodes.OP_ROT]: opRot,
+    [Opcodes.OP_SWAP]: opSwap,
+    [Opcodes.OP_TUCK]: opTuck,
+    [Opcodes.OP_SIZE]: opSize,
+    [Opcodes.OP_EQUAL]: opEqual,
+    [Opcodes.OP_EQUALVERIFY]: opEqualVerify,
+    [Opcodes.OP_RESERVED1]: opReserved,
+    [Opcodes.OP_RESERVED2]: opReserved,
+    [Opcodes.OP_1ADD]: op1Add,
+    [Opcodes.OP_1SUB]: op1Sub,
+    [Opcodes.OP_NEGATE]: opNegate,
+    [Opcodes.OP_ABS]: opAbs,
+    [Opcodes.OP_NOT]: opNot,
+    [Opcodes.OP_0NOTEQUAL]: op0NotEqual,
+    [Opcodes.OP_ADD]: opAdd,
+    [Opcodes.OP_SUB]: opSub,
+    [Opcodes.OP_BOOLAND]: opBoolAnd,
+    [Opcodes.OP_BOOLOR]: opBoolOr,
+    [Opcodes.OP_NUMEQUAL]: opNumEqual,
+    [Opcodes.OP_NUMEQUALVERIFY]: opNumEqualVerify,
+    [Opcodes.OP_NUMNOTEQUAL]: opNumNotEqual,
+    [Opcodes.OP_LESSTHAN]: opLessThan,
+    [Opcodes.OP_GREATERTHAN]: opGreaterThan,
+    [Opcodes.OP_LESSTHANOREQUAL]: opLessThanOrEqual,
+    [Opcodes.OP_GREATERTHANOREQUAL]: opGreaterThanOrEqual,
+    [Opcodes.OP_MIN]: opMin,
+    [Opcodes.OP_MAX]: opMax,
+    [Opcodes.OP_WITHIN]: opWithin,
+    [Opcodes.OP_RIPEMD160]: opRipemd160(ripemd160),
+    [Opcodes.OP_SHA1]: opSha1(sha1),
+    [Opcodes.OP_SHA256]: opSha256(sha256),
+    [Opcodes.OP_HASH160]: opHash160(sha256, ripemd160),
+    [Opcodes.OP_HASH256]: opHash256(sha256),
+    [Opcodes.OP_CODESEPARATOR]: opCodeSeparator,
+    [Opcodes.OP_CHECKSIG]: opCheckSig(dependencies, rules),
+    [Opcodes.OP_CHECKSIGVERIFY]: opCheckSigVerify(dependencies, rules),
+    [Opcodes.OP_CHECKMULTISIG]: opCheckMultiSig(dependencies, rules),
+    [Opcodes.OP_CHECKMULTISIGVERIFY]: opCheckMultiSigVerify(
+      dependencies,
+      rules
+    ),
+    [Opcodes.OP_NOP1]: opNop,
+    [Opcodes.OP_CHECKLOCKTIMEVERIFY]: opCheckLockTimeVerify,
+    [Opcodes.OP_CHECKSEQUENCEVERIFY]: opCheckSequenceVerify,
+    ...range(Opcodes.OP_NOP10 - Opcodes.OP_NOP4 + 1, Opcodes.OP_NOP4).reduce<
+      OperationTable
+    >((all, opcode) => ({ ...all, [opcode]: opNop }), {})
+  };
+};
+
+/**
+ * Create an instruction validation function (see `InstructionSet.validate`)
+ * which fails if the instruction's opcode is disabled on `network`.
+ *
+ * @param network the network for which to check opcode status
+ */
+export const disallowDisabledOpcodes = (network: OpcodeNetwork) => (
+  state: ProgramState,
+  instruction: ParsedScriptInstruction
+) =>
+  opcodeMetadata[instruction.opcode][network].status === OpcodeStatus.disabled
+    ? applyError(state, ScriptError.disabledOpcode)
+    : state;
+
+/**
+ * Returns true if `lockingBytecode` is a P2SH (Pay to Script Hash) locking
+ * script: `OP_HASH160 <20-byte hash> OP_EQUAL`.
+ *
+ * @param lockingBytecode the locking bytecode to check
+ */
+export const isPayToScriptHash = (lockingBytecode: Uint8Array) =>
+  // tslint:disable:no-magic-numbers
+  lockingBytecode.length === 23 &&
+  lockingBytecode[0] === Opcodes.OP_HASH160 &&
+  lockingBytecode[1] === Opcodes.OP_PUSHBYTES_20 &&
+  lockingBytecode[22] === Opcodes.OP_EQUAL;
+// tslint:enable:no-magic-numbers
+
+/**
+ * Create the initial state for the evaluation of `bytecode`, which fails
+ * immediately if `bytecode` exceeds `maximumScriptLength`.
+ *
+ * @param bytecode the bytecode of the script to evaluate
+ * @param context the transaction context in which to evaluate the script
+ * @param stack the initial stack
+ */
+export const createScriptState = (
+  bytecode: Uint8Array,
+  context: TransactionContext,
+  stack: ReadonlyArray<Uint8Array>
+) => {
+  const state = createProgramState(parseScript(bytecode), context, stack);
+  return bytecode.length > maximumScriptLength
+    ? applyError(state, ScriptError.exceededMaximumScriptLength)
+    : state;
+};
+
+/**
+ * Return the last element of `array`.
+ */
+export const last = <T>(array: ReadonlyArray<T>) => array[array.length - 1];
+
+/**
+ * Replace the final state of `states` with a copy which has failed with the
+ * provided `error`.
+ *
+ * @param states the program states
+ * @param error the reason for failure
+ */
+export const applyErrorToResult = (
+  states: ReadonlyArray<ProgramState>,
+  error: ScriptError
+) => [...states.slice(0, -1), applyError(last(states), error)];
+
+/**
+ * Fail if the script contains any instructions other than pushes.
+ *
+ * @param state the initial program state of the script
+ */
+export const requirePushOnly = (state: ProgramState) =>
+  state.instructions.every(instruction => instruction.opcode <= Opcodes.OP_16)
+    ? state
+    : applyError(state, ScriptError.requiresPushOnly);
+
+/**
+ * Fail if the final state of `states` completed without a truthy value on
+ * top of the stack.
+ *
+ * @param states the program states
+ */
+export const requireTruthyResult = (states: ReadonlyArray<ProgramState>) => {
+  const final = last(states);
+  return final.error === undefined &&
+    (final.stack.length === 0 || !stackItemIsTruthy(last(final.stack)))
+    ? applyErrorToResult(states, ScriptError.unsuccessfulEvaluation)
+    : states;
+};
+
+/**
+ * Fail if the final state of `states` completed with a stack containing other
+ * than exactly one item.
+ *
+ * @param states the program states
+ */
+export const requireCleanStack = (states: ReadonlyArray<ProgramState>) =>
+  last(states).error === undefined && last(states).stack.length !== 1
+    ? applyErrorToResult(states, ScriptError.requiresCleanStack)
+    : states;
+
+/**
+ * Evaluate the unlocking bytecode of `program` (which may contain only
+ * pushes).
+ *
+ * @param program the program to evaluate
+ * @param run the function with which to evaluate the script
+ */
+export const evaluateUnlockingBytecode = (
+  program: ScriptProgram,
+  run: ScriptEvaluator
+) =>
+  run(
+    requirePushOnly(
+      createScriptState(program.unlockingBytecode, program.context, [])
+    )
+  );
+
+/**
+ * Evaluate the locking bytecode of `program` beginning with the stack
+ * produced by its unlocking bytecode. Fails unless the result is truthy.
+ *
+ * @param program the program to evaluate
+ * @param run the function with which to evaluate the script
+ * @param unlockingStack the stack produced by the unlocking bytecode
+ */
+export const evaluateLockingBytecode = (
+  program: ScriptProgram,
+  run: ScriptEvaluator,
+  unlockingStack: ReadonlyArray<Uint8Array>
+) =>
+  requireTruthyResult(
+    run(
+      createScriptState(
+        program.lockingBytecode,
+        program.context,
+        unlockingStack
+      )
+    )
+  );
+
+/**
+ * Evaluate the redeem bytecode of a P2SH program: the top item of the stack
+ * produced by the unlocking bytecode, beginning with the remaining items.
+ * Fails unless the result is truthy.
+ *
+ * @param program the program to evaluate
+ * @param run the function with which to evaluate the script
+ * @param unlockingStack the stack produced by the unlocking bytecode
+ */
+export const evaluateRedeemBytecode = (
+  program: ScriptProgram,
+  run: ScriptEvaluator,
+  unlockingStack: ReadonlyArray<Uint8Array>
+) =>
+  requireTruthyResult(
+    run(
+      createScriptState(
+        last(unlockingStack),
+        program.context,
+        unlockingStack.slice(0, -1)
+      )
+    )
+  );
+
+/**
+ * Evaluate a program's unlocking bytecode, locking bytecode, and (for P2SH
+ * outputs) redeem bytecode, requiring a clean stack.
+ *
+ * @param program the program to evaluate
+ * @param run the function with which to evaluate each script
+ */
+export const evaluateProgramP2SH = (
+  program: ScriptProgram,
+  run: ScriptEvaluator
+): ReadonlyArray<ProgramState> => {
+  const unlocking = evaluateUnlockingBytecode(program, run);
+  const unlockingResult = last(unlocking);
+  // tslint:disable-next-line:no-if-statement
+  if (unlockingResult.error !== undefined) {
+    return unlocking;
+  }
+  const locking: ReadonlyArray<ProgramState> = [
+    ...unlocking,
+    ...evaluateLockingBytecode(program, run, unlockingResult.stack)
+  ];
+  return !isPayToScriptHash(program.lockingBytecode) ||
+    last(locking).error !== undefined
+    ? requireCleanStack(locking)
+    : requireCleanStack([
+        ...locking,
+        ...evaluateRedeemBytecode(program, run, unlockingResult.stack)
+      ]);
+};
@@ -0,0 +1,3 @@
+export * from './bch';
+export * from './btc';
+export * from './common';
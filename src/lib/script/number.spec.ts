@@ -0,0 +1,100 @@
+// tslint:disable:no-expression-statement no-magic-numbers no-unsafe-any
+import test from 'ava';
+import * as fc from 'fast-check';
+import { hexToBin } from '../utils';
+import {
+  booleanToStackItem,
+  encodeScriptNumber,
+  isMinimallyEncodedScriptNumber,
+  minimallyEncodeScriptNumber,
+  parseScriptNumber,
+  ScriptNumberError,
+  stackItemIsTruthy
+} from './number';
+
+test('parseScriptNumber', t => {
+  t.deepEqual(parseScriptNumber(new Uint8Array(0)), 0);
+  t.deepEqual(parseScriptNumber(hexToBin('01')), 1);
+  t.deepEqual(parseScriptNumber(hexToBin('81')), -1);
+  t.deepEqual(parseScriptNumber(hexToBin('7f')), 127);
+  t.deepEqual(parseScriptNumber(hexToBin('8000')), 128);
+  t.deepEqual(parseScriptNumber(hexToBin('8080')), -128);
+  t.deepEqual(parseScriptNumber(hexToBin('ffffff7f')), 2147483647);
+  t.deepEqual(parseScriptNumber(hexToBin('ffffffff')), -2147483647);
+  t.deepEqual(
+    parseScriptNumber(hexToBin('0000008000')),
+    ScriptNumberError.outOfRange
+  );
+  t.deepEqual(parseScriptNumber(hexToBin('0000008000'), 5), 2147483648);
+  t.deepEqual(
+    parseScriptNumber(hexToBin('00')),
+    ScriptNumberError.requiresMinimal
+  );
+  t.deepEqual(
+    parseScriptNumber(hexToBin('80')),
+    ScriptNumberError.requiresMinimal
+  );
+  t.deepEqual(
+    parseScriptNumber(hexToBin('0100')),
+    ScriptNumberError.requiresMinimal
+  );
+  t.deepEqual(parseScriptNumber(hexToBin('0100'), 4, false), 1);
+  t.deepEqual(parseScriptNumber(hexToBin('0180'), 4, false), -1);
+});
+
+test('encodeScriptNumber', t => {
+  t.deepEqual(encodeScriptNumber(0), new Uint8Array(0));
+  t.deepEqual(encodeScriptNumber(-0), new Uint8Array(0));
+  t.deepEqual(encodeScriptNumber(1), hexToBin('01'));
+  t.deepEqual(encodeScriptNumber(-1), hexToBin('81'));
+  t.deepEqual(encodeScriptNumber(128), hexToBin('8000'));
+  t.deepEqual(encodeScriptNumber(-128), hexToBin('8080'));
+  t.deepEqual(encodeScriptNumber(-2147483647), hexToBin('ffffffff'));
+  t.deepEqual(encodeScriptNumber(4294967294), hexToBin('feffffff00'));
+});
+
+test('encodeScriptNumber <-> parseScriptNumber', t => {
+  const inverse = fc.property(
+    fc.integer(-0x7fffffff, 0x7fffffff),
+    value => parseScriptNumber(encodeScriptNumber(value)) === value
+  );
+  t.notThrows(() => fc.assert(inverse));
+});
+
+test('isMinimallyEncodedScriptNumber', t => {
+  t.true(isMinimallyEncodedScriptNumber(new Uint8Array(0)));
+  t.true(isMinimallyEncodedScriptNumber(hexToBin('8000')));
+  t.false(isMinimallyEncodedScriptNumber(hexToBin('0000')));
+  t.false(isMinimallyEncodedScriptNumber(hexToBin('0180')));
+});
+
+test('minimallyEncodeScriptNumber', t => {
+  t.deepEqual(minimallyEncodeScriptNumber(hexToBin('010080')), hexToBin('81'));
+  t.deepEqual(
+    minimallyEncodeScriptNumber(hexToBin('000080')),
+    new Uint8Array(0)
+  );
+  t.deepEqual(
+    minimallyEncodeScriptNumber(hexToBin('800000')),
+    hexToBin('8000')
+  );
+  t.deepEqual(
+    minimallyEncodeScriptNumber(hexToBin('800080')),
+    hexToBin('8080')
+  );
+  t.deepEqual(minimallyEncodeScriptNumber(hexToBin('abcd')), hexToBin('abcd'));
+});
+
+test('stackItemIsTruthy', t => {
+  t.false(stackItemIsTruthy(new Uint8Array(0)));
+  t.false(stackItemIsTruthy(hexToBin('00')));
+  t.false(stackItemIsTruthy(hexToBin('000080')));
+  t.true(stackItemIsTruthy(hexToBin('01')));
+  t.true(stackItemIsTruthy(hexToBin('8000')));
+  t.true(stackItemIsTruthy(hexToBin('0001')));
+});
+
+test('booleanToStackItem', t => {
+  t.deepEqual(booleanToStackItem(true), hexToBin('01'));
+  t.deepEqual(booleanToStackItem(false), new Uint8Array(0));
+});
@@ -0,0 +1,166 @@
+/**
+ * The reasons for which a stack item may fail to parse as a Script Number.
+ */
+export enum ScriptNumberError {
+  outOfRange = 'Failed to parse Script Number: overflows Script Number range.',
+  requiresMinimal = 'Failed to parse Script Number: the number is not minimally-encoded.'
+}
+
+const byteBase = 256;
+// tslint:disable-next-line:no-magic-numbers
+const signBit = 0x80;
+// tslint:disable-next-line:no-magic-numbers
+const magnitudeBits = 0x7f;
+
+/**
+ * The default maximum length of a Script Number used as input to an operation.
+ * (Results of arithmetic operations may be longer.)
+ */
+export const defaultMaximumScriptNumberLength = 4;
+
+/**
+ * Returns true if the provided stack item is a minimally-encoded Script Number.
+ *
+ * A Script Number is minimally-encoded if its most significant byte contains
+ * a non-zero magnitude, or if that byte is needed to hold the sign bit (because
+ * the next byte uses its highest bit).
+ *
+ * @param bytes the stack item to check
+ */
+export const isMinimallyEncodedScriptNumber = (bytes: Uint8Array) => {
+  const mostSignificant = bytes.length - 1;
+  return (
+    bytes.length === 0 ||
+    // tslint:disable-next-line:no-bitwise
+    (bytes[mostSignificant] & magnitudeBits) !== 0 ||
+    // tslint:disable-next-line:no-bitwise
+    (bytes.length > 1 && (bytes[mostSignificant - 1] & signBit) !== 0)
+  );
+};
+
+const isNegativeScriptNumber = (bytes: Uint8Array) =>
+  // tslint:disable-next-line:no-bitwise
+  bytes.length > 0 && (bytes[bytes.length - 1] & signBit) !== 0;
+
+/**
+ * Decode a Script Number: a little-endian, variable-length, sign-magnitude
+ * integer, where the highest bit of the final byte is the sign bit.
+ *
+ * Returns a `ScriptNumberError` if the number is longer than `maximumBytes`
+ * or (if `requireMinimal` is `true`) if it is not minimally-encoded.
+ *
+ * E.g.: `parseScriptNumber(new Uint8Array([0x81]))` => `-1`
+ *
+ * @param bytes the stack item to decode
+ * @param maximumBytes the maximum length of the Script Number (default: `4`)
+ * @param requireMinimal if `true`, fail if the number is not
+ * minimally-encoded (default: `true`)
+ */
+export const parseScriptNumber = (
+  bytes: Uint8Array,
+  maximumBytes = defaultMaximumScriptNumberLength,
+  requireMinimal = true
+): number | ScriptNumberError => {
+  // tslint:disable-next-line:no-if-statement
+  if (bytes.length > maximumBytes) {
+    return ScriptNumberError.outOfRange;
+  }
+  // tslint:disable-next-line:no-if-statement
+  if (requireMinimal && !isMinimallyEncodedScriptNumber(bytes)) {
+    return ScriptNumberError.requiresMinimal;
+  }
+  const mostSignificant = bytes.length - 1;
+  const magnitude = bytes.reduceRight(
+    (total, byte, index) =>
+      total * byteBase +
+      // tslint:disable-next-line:no-bitwise
+      (index === mostSignificant ? byte & magnitudeBits : byte),
+    0
+  );
+  return isNegativeScriptNumber(bytes) ? -magnitude : magnitude;
+};
+
+const encodeMagnitude = (magnitude: number): ReadonlyArray<number> =>
+  magnitude === 0
+    ? []
+    : [
+        magnitude % byteBase,
+        ...encodeMagnitude(Math.floor(magnitude / byteBase))
+      ];
+
+/**
+ * Encode an integer as a minimally-encoded Script Number.
+ *
+ * E.g.: `encodeScriptNumber(-1)` => `new Uint8Array([0x81])`
+ *
+ * @param value the integer to encode (must be a safe integer)
+ */
+export const encodeScriptNumber = (value: number) => {
+  const negative = value < 0;
+  const bytes = encodeMagnitude(Math.abs(value));
+  const mostSignificant = bytes.length - 1;
+  return bytes.length === 0
+    ? new Uint8Array(0)
+    : // tslint:disable-next-line:no-bitwise
+    (bytes[mostSignificant] & signBit) !== 0
+    ? Uint8Array.from([...bytes, negative ? signBit : 0])
+    : Uint8Array.from([
+        ...bytes.slice(0, mostSignificant),
+        // tslint:disable-next-line:no-bitwise
+        negative ? bytes[mostSignificant] | signBit : bytes[mostSignificant]
+      ]);
+};
+
+/**
+ * Returns true if the provided stack item is "truthy" – any value other than
+ * zero or "negative zero" (a Script Number of any length in which every bit
+ * other than the sign bit is unset).
+ *
+ * @param item the stack item to check
+ */
+export const stackItemIsTruthy = (item: Uint8Array) =>
+  item.some((byte, index) =>
+    index === item.length - 1 ? byte !== 0 && byte !== signBit : byte !== 0
+  );
+
+/**
+ * Encode a boolean as a stack item: `true` is encoded as `0x01`, and `false`
+ * is encoded as an empty stack item.
+ *
+ * @param value the boolean to encode
+ */
+export const booleanToStackItem = (value: boolean) =>
+  value ? Uint8Array.of(1) : new Uint8Array(0);
+
+/**
+ * Remove any unnecessary padding from a Script Number, returning the
+ * minimally-encoded equivalent. The stack item may be of any length; this
+ * method does not parse the number (so it is not limited to the range of
+ * JavaScript numbers).
+ *
+ * E.g.: `minimallyEncodeScriptNumber(new Uint8Array([0x01, 0x00, 0x80]))` =>
+ * `new Uint8Array([0x81])`
+ *
+ * @param bytes the Script Number to minimally encode
+ */
+export const minimallyEncodeScriptNumber = (bytes: Uint8Array) => {
+  // tslint:disable-next-line:no-if-statement
+  if (isMinimallyEncodedScriptNumber(bytes)) {
+    return bytes;
+  }
+  // tslint:disable-next-line:no-bitwise
+  const sign = bytes[bytes.length - 1] & signBit;
+  const lastNonZero = bytes
+    .slice(0, -1)
+    .reduce((last, byte, index) => (byte === 0 ? last : index), -1);
+  return lastNonZero === -1
+    ? new Uint8Array(0)
+    : // tslint:disable-next-line:no-bitwise
+    (bytes[lastNonZero] & signBit) !== 0
+    ? Uint8Array.from([...bytes.slice(0, lastNonZero + 1), sign])
+    : Uint8Array.from([
+        ...bytes.slice(0, lastNonZero),
+        // tslint:disable-next-line:no-bitwise
+        bytes[lastNonZero] | sign
+      ]);
+};
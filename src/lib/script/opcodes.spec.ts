@@ -0,0 +1,81 @@
+// tslint:disable:no-expression-statement no-magic-numbers
+import test from 'ava';
+import {
+  maximumMultisigPublicKeys,
+  opcodeMetadata,
+  Opcodes,
+  OpcodeStatus
+} from './opcodes';
+
+test('Opcodes: includes every byte value', t => {
+  t.is(opcodeMetadata.length, 256);
+  t.true(opcodeMetadata.every((info, index) => info.opcode === index));
+  t.is(Opcodes.OP_0, 0x00);
+  t.is(Opcodes.OP_PUSHBYTES_75, 0x4b);
+  t.is(Opcodes.OP_16, 0x60);
+  t.is(Opcodes.OP_CAT, 0x7e);
+  t.is(Opcodes.OP_CHECKSIG, 0xac);
+  t.is(Opcodes.OP_NOP10, 0xb9);
+  t.is(Opcodes.OP_CHECKDATASIG, 0xba);
+  t.is(Opcodes[0xff], 'OP_UNKNOWN255');
+});
+
+test('opcodeMetadata: network differences', t => {
+  t.deepEqual(opcodeMetadata[Opcodes.OP_SPLIT], {
+    bch: { name: 'OP_SPLIT', sigops: 0, status: OpcodeStatus.enabled },
+    btc: { name: 'OP_SUBSTR', sigops: 0, status: OpcodeStatus.disabled },
+    opcode: Opcodes.OP_SPLIT,
+    pushDataBytes: 0,
+    pushLengthBytes: 0
+  });
+  t.deepEqual(opcodeMetadata[Opcodes.OP_CHECKDATASIG], {
+    bch: { name: 'OP_CHECKDATASIG', sigops: 1, status: OpcodeStatus.enabled },
+    btc: { name: 'OP_UNKNOWN186', sigops: 0, status: OpcodeStatus.unknown },
+    opcode: Opcodes.OP_CHECKDATASIG,
+    pushDataBytes: 0,
+    pushLengthBytes: 0
+  });
+  const differing = opcodeMetadata
+    .filter(info => info.bch.status !== info.btc.status)
+    .map(info => info.bch.name);
+  t.deepEqual(differing, [
+    'OP_CAT',
+    'OP_SPLIT',
+    'OP_NUM2BIN',
+    'OP_BIN2NUM',
+    'OP_AND',
+    'OP_OR',
+    'OP_XOR',
+    'OP_DIV',
+    'OP_MOD',
+    'OP_CHECKDATASIG',
+    'OP_CHECKDATASIGVERIFY'
+  ]);
+});
+
+test('opcodeMetadata: status', t => {
+  const status = (opcode: Opcodes) => opcodeMetadata[opcode].bch.status;
+  t.is(status(Opcodes.OP_DUP), OpcodeStatus.enabled);
+  t.is(status(Opcodes.OP_RETURN), OpcodeStatus.enabled);
+  t.is(status(Opcodes.OP_NOP10), OpcodeStatus.enabled);
+  t.is(status(Opcodes.OP_RESERVED), OpcodeStatus.reserved);
+  t.is(status(Opcodes.OP_VER), OpcodeStatus.reserved);
+  t.is(status(Opcodes.OP_VERIF), OpcodeStatus.disabled);
+  t.is(status(Opcodes.OP_MUL), OpcodeStatus.disabled);
+  t.is(status(Opcodes.OP_UNKNOWN188), OpcodeStatus.unknown);
+});
+
+test('opcodeMetadata: push sizes and sigops', t => {
+  t.is(opcodeMetadata[Opcodes.OP_0].pushDataBytes, 0);
+  t.is(opcodeMetadata[Opcodes.OP_PUSHBYTES_20].pushDataBytes, 20);
+  t.is(opcodeMetadata[Opcodes.OP_PUSHDATA_1].pushLengthBytes, 1);
+  t.is(opcodeMetadata[Opcodes.OP_PUSHDATA_2].pushLengthBytes, 2);
+  t.is(opcodeMetadata[Opcodes.OP_PUSHDATA_4].pushLengthBytes, 4);
+  t.is(opcodeMetadata[Opcodes.OP_1].pushDataBytes, 0);
+  t.is(opcodeMetadata[Opcodes.OP_CHECKSIGVERIFY].btc.sigops, 1);
+  t.is(
+    opcodeMetadata[Opcodes.OP_CHECKMULTISIG].btc.sigops,
+    maximumMultisigPublicKeys
+  );
+  t.is(opcodeMetadata[Opcodes.OP_CHECKDATASIGVERIFY].bch.sigops, 1);
+});
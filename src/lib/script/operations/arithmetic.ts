@@ -0,0 +1,161 @@
+import { ScriptError } from '../state';
+import {
+  applyError,
+  combineOperations,
+  Operation,
+  pushBooleanToStack,
+  pushNumberToStack,
+  useOneScriptNumber,
+  useScriptNumbers
+} from './common';
+import { opVerify } from './flow';
+
+const unaryOperation = (
+  compute: (value: number) => number
+): Operation => state =>
+  useOneScriptNumber(state, (nextState, value) =>
+    pushNumberToStack(nextState, compute(value))
+  );
+
+const binaryOperation = (
+  compute: (a: number, b: number) => number
+): Operation => state =>
+  // tslint:disable-next-line:no-magic-numbers
+  useScriptNumbers(state, 2, (nextState, [a, b]) =>
+    pushNumberToStack(nextState, compute(a, b))
+  );
+
+const binaryComparison = (
+  compare: (a: number, b: number) => boolean
+): Operation => state =>
+  // tslint:disable-next-line:no-magic-numbers
+  useScriptNumbers(state, 2, (nextState, [a, b]) =>
+    pushBooleanToStack(nextState, compare(a, b))
+  );
+
+/**
+ * `a` => `a+1`
+ */
+export const op1Add = unaryOperation(value => value + 1);
+
+/**
+ * `a` => `a-1`
+ */
+export const op1Sub = unaryOperation(value => value - 1);
+
+/**
+ * `a` => `-a`
+ */
+export const opNegate = unaryOperation(value => -value);
+
+/**
+ * `a` => `|a|`
+ */
+export const opAbs = unaryOperation(value => Math.abs(value));
+
+/**
+ * `a` => `1` if `a` is `0`, otherwise `0`
+ */
+export const opNot = unaryOperation(value => (value === 0 ? 1 : 0));
+
+/**
+ * `a` => `0` if `a` is `0`, otherwise `1`
+ */
+export const op0NotEqual = unaryOperation(value => (value === 0 ? 0 : 1));
+
+/**
+ * `a b` => `a+b`
+ */
+export const opAdd = binaryOperation((a, b) => a + b);
+
+/**
+ * `a b` => `a-b`
+ */
+export const opSub = binaryOperation((a, b) => a - b);
+
+const divisionOperation = (
+  compute: (a: number, b: number) => number
+): Operation => state =>
+  // tslint:disable-next-line:no-magic-numbers
+  useScriptNumbers(state, 2, (nextState, [a, b]) =>
+    b === 0
+      ? applyError(nextState, ScriptError.divisionByZero)
+      : pushNumberToStack(nextState, compute(a, b))
+  );
+
+/**
+ * `a b` => `a/b`, rounded toward zero. Fails if `b` is `0`.
+ */
+export const opDiv = divisionOperation((a, b) => Math.trunc(a / b));
+
+/**
+ * `a b` => `a%b` (the result has the sign of `a`). Fails if `b` is `0`.
+ */
+export const opMod = divisionOperation((a, b) => a % b);
+
+/**
+ * `a b` => `1` if both `a` and `b` are not `0`, otherwise `0`
+ */
+export const opBoolAnd = binaryComparison((a, b) => a !== 0 && b !== 0);
+
+/**
+ * `a b` => `1` if either `a` or `b` is not `0`, otherwise `0`
+ */
+export const opBoolOr = binaryComparison((a, b) => a !== 0 || b !== 0);
+
+/**
+ * `a b` => `1` if `a` and `b` are numerically equal, otherwise `0`
+ */
+export const opNumEqual = binaryComparison((a, b) => a === b);
+
+/**
+ * `OP_NUMEQUAL` followed by `OP_VERIFY`.
+ */
+export const opNumEqualVerify = combineOperations(opNumEqual, opVerify);
+
+/**
+ * `a b` => `1` if `a` and `b` are not numerically equal, otherwise `0`
+ */
+export const opNumNotEqual = binaryComparison((a, b) => a !== b);
+
+/**
+ * `a b` => `1` if `a` is less than `b`, otherwise `0`
+ */
+export const opLessThan = binaryComparison((a, b) => a < b);
+
+/**
+ * `a b` => `1` if `a` is greater than `b`, otherwise `0`
+ */
+export const opGreaterThan = binaryComparison((a, b) => a > b);
+
+/**
+ * `a b` => `1` if `a` is less than or equal to `b`, otherwise `0`
+ */
+export const opLessThanOrEqual = binaryComparison((a, b) => a <= b);
+
+/**
+ * `a b` => `1` if `a` is greater than or equal to `b`, otherwise `0`
+ */
+export const opGreaterThanOrEqual = binaryComparison((a, b) => a >= b);
+
+/**
+ * `a b` => the smaller of `a` and `b`
+ */
+export const opMin = binaryOperation((a, b) => Math.min(a, b));
+
+/**
+ * `a b` => the larger of `a` and `b`
+ */
+export const opMax = binaryOperation((a, b) => Math.max(a, b));
+
+/**
+ * `x min max` => `1` if `x` is greater than or equal to `min` and less than
+ * `max`, otherwise `0`.
+ *
+ * @param state the program state
+ */
+export const opWithin: Operation = state =>
+  // tslint:disable-next-line:no-magic-numbers
+  useScriptNumbers(state, 3, (nextState, [value, minimum, maximum]) =>
+    pushBooleanToStack(nextState, minimum <= value && value < maximum)
+  );
@@ -0,0 +1,215 @@
+import {
+  booleanToStackItem,
+  defaultMaximumScriptNumberLength,
+  encodeScriptNumber,
+  parseScriptNumber
+} from '../number';
+import { maximumStackItemLength, ProgramState, ScriptError } from '../state';
+
+/**
+ * A pure function which performs a single operation: it accepts the program
+ * state before the operation, and returns the program state after the
+ * operation. If the operation fails, the returned state includes an `error`.
+ */
+export type Operation = (state: ProgramState) => ProgramState;
+
+/**
+ * Return a copy of `state` which has failed with the provided `error`.
+ *
+ * @param state the program state
+ * @param error the reason for failure
+ */
+export const applyError = (
+  state: ProgramState,
+  error: ScriptError
+): ProgramState => ({ ...state, error });
+
+/**
+ * Return a copy of `state` with `items` pushed to the top of the stack (in
+ * order). Fails if any item exceeds `maximumStackItemLength`.
+ *
+ * @param state the program state
+ * @param items the items to push
+ */
+export const pushToStack = (
+  state: ProgramState,
+  ...items: Uint8Array[] // tslint:disable-line:readonly-array
+): ProgramState =>
+  items.some(item => item.length > maximumStackItemLength)
+    ? applyError(state, ScriptError.exceededMaximumStackItemLength)
+    : { ...state, stack: [...state.stack, ...items] };
+
+/**
+ * Push a boolean to the stack (as `0x01` or an empty stack item).
+ *
+ * @param state the program state
+ * @param value the boolean to push
+ */
+export const pushBooleanToStack = (state: ProgramState, value: boolean) =>
+  pushToStack(state, booleanToStackItem(value));
+
+/**
+ * Push a number to the stack (as a minimally-encoded Script Number).
+ *
+ * @param state the program state
+ * @param value the number to push
+ */
+export const pushNumberToStack = (state: ProgramState, value: number) =>
+  pushToStack(state, encodeScriptNumber(value));
+
+/**
+ * Pop `count` items from the stack and provide them to `operation`, deepest
+ * item first. Fails if the stack contains fewer than `count` items.
+ *
+ * E.g.: `useStackItems(state, 2, (nextState, [a, b]) => ...)`, where `b` was
+ * the top item on the stack.
+ *
+ * @param state the program state
+ * @param count the number of items to pop
+ * @param operation the function which receives the remaining state and the
+ * popped items
+ */
+export const useStackItems = (
+  state: ProgramState,
+  count: number,
+  operation: (
+    nextState: ProgramState,
+    items: ReadonlyArray<Uint8Array>
+  ) => ProgramState
+) =>
+  state.stack.length < count
+    ? applyError(state, ScriptError.emptyStack)
+    : operation(
+        { ...state, stack: state.stack.slice(0, state.stack.length - count) },
+        state.stack.slice(state.stack.length - count)
+      );
+
+/**
+ * Pop the top item from the stack and provide it to `operation`.
+ *
+ * @param state the program state
+ * @param operation the function which receives the remaining state and the
+ * popped item
+ */
+export const useOneStackItem = (
+  state: ProgramState,
+  operation: (nextState: ProgramState, item: Uint8Array) => ProgramState
+) => useStackItems(state, 1, (nextState, [item]) => operation(nextState, item));
+
+/**
+ * Pop the top two items from the stack and provide them to `operation`
+ * (`a` was deeper in the stack than `b`).
+ *
+ * @param state the program state
+ * @param operation the function which receives the remaining state and the
+ * popped items
+ */
+export const useTwoStackItems = (
+  state: ProgramState,
+  operation: (
+    nextState: ProgramState,
+    a: Uint8Array,
+    b: Uint8Array
+  ) => ProgramState
+) =>
+  // tslint:disable-next-line:no-magic-numbers
+  useStackItems(state, 2, (nextState, [a, b]) => operation(nextState, a, b));
+
+/**
+ * Pop the top three items from the stack and provide them to `operation`
+ * (`a` was the deepest, and `c` was the top item).
+ *
+ * @param state the program state
+ * @param operation the function which receives the remaining state and the
+ * popped items
+ */
+export const useThreeStackItems = (
+  state: ProgramState,
+  operation: (
+    nextState: ProgramState,
+    a: Uint8Array,
+    b: Uint8Array,
+    c: Uint8Array
+  ) => ProgramState
+) =>
+  // tslint:disable-next-line:no-magic-numbers
+  useStackItems(state, 3, (nextState, [a, b, c]) =>
+    operation(nextState, a, b, c)
+  );
+
+/**
+ * Pop `count` items from the stack, parse each as a Script Number, and
+ * provide them to `operation`, deepest item first. Fails if any item is not a
+ * minimally-encoded Script Number of at most `maximumBytes` bytes.
+ *
+ * @param state the program state
+ * @param count the number of Script Numbers to pop
+ * @param operation the function which receives the remaining state and the
+ * parsed numbers
+ * @param maximumBytes the maximum length of each Script Number (default: `4`)
+ */
+export const useScriptNumbers = (
+  state: ProgramState,
+  count: number,
+  operation: (
+    nextState: ProgramState,
+    values: ReadonlyArray<number>
+  ) => ProgramState,
+  maximumBytes = defaultMaximumScriptNumberLength
+) =>
+  useStackItems(state, count, (nextState, items) => {
+    const values = items
+      .map(item => parseScriptNumber(item, maximumBytes))
+      .filter((value): value is number => typeof value === 'number');
+    return values.length === items.length
+      ? operation(nextState, values)
+      : applyError(nextState, ScriptError.invalidScriptNumber);
+  });
+
+/**
+ * Pop the top item from the stack, parse it as a Script Number, and provide
+ * it to `operation`. See `useScriptNumbers` for details.
+ *
+ * @param state the program state
+ * @param operation the function which receives the remaining state and the
+ * parsed number
+ * @param maximumBytes the maximum length of the Script Number (default: `4`)
+ */
+export const useOneScriptNumber = (
+  state: ProgramState,
+  operation: (nextState: ProgramState, value: number) => ProgramState,
+  maximumBytes = defaultMaximumScriptNumberLength
+) =>
+  useScriptNumbers(
+    state,
+    1,
+    (nextState, [value]) => operation(nextState, value),
+    maximumBytes
+  );
+
+/**
+ * Returns true if every entry in the execution stack of `state` is `true`
+ * (i.e. the current instruction is not within an unexecuted branch of a
+ * conditional).
+ *
+ * @param state the program state
+ */
+export const isExecuting = (state: ProgramState) =>
+  state.executionStack.every(executing => executing);
+
+/**
+ * Combine two operations into a single operation which performs `first`, then
+ * (if `first` did not fail) `second`.
+ *
+ * E.g.: `combineOperations(opEqual, opVerify)` performs `OP_EQUALVERIFY`.
+ *
+ * @param first the first operation
+ * @param second the operation to perform on the result of the first
+ */
+export const combineOperations = (
+  first: Operation,
+  second: Operation
+): Operation => state => {
+  const nextState = first(state);
+  return nextState.error === undefined ? second(nextState) : nextState;
+};
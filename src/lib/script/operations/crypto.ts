@@ -0,0 +1,500 @@
+import {
+  hash160,
+  hash256,
+  Ripemd160,
+  Secp256k1,
+  Sha1,
+  Sha256
+} from '../../crypto/crypto';
+import { maximumMultisigPublicKeys } from '../opcodes';
+import { serializeScript } from '../parse';
+import { maximumOperationCount, ProgramState, ScriptError } from '../state';
+import {
+  applyError,
+  combineOperations,
+  Operation,
+  pushBooleanToStack,
+  pushToStack,
+  useOneScriptNumber,
+  useOneStackItem,
+  useStackItems,
+  useThreeStackItems,
+  useTwoStackItems
+} from './common';
+import { opVerify } from './flow';
+
+/**
+ * The implementations of cryptographic primitives required by the
+ * cryptographic operations.
+ */
+export interface OperationDependencies {
+  /**
+   * An implementation of ripemd160.
+   */
+  readonly ripemd160: Ripemd160;
+  /**
+   * An implementation of secp256k1.
+   */
+  readonly secp256k1: Secp256k1;
+  /**
+   * An implementation of sha1.
+   */
+  readonly sha1: Sha1;
+  /**
+   * An implementation of sha256.
+   */
+  readonly sha256: Sha256;
+}
+
+/**
+ * The network-specific rules by which the transaction signatures checked by
+ * `OP_CHECKSIG` and `OP_CHECKMULTISIG` (and their `VERIFY` variants) are
+ * validated.
+ */
+export interface TransactionSignatureRules {
+  /**
+   * Generate the signature hash (the message hash signed by a signature) for
+   * the input being validated.
+   *
+   * @param sha256 an implementation of sha256
+   * @param state the program state at the time of the signature check
+   * @param signingSerializationType the signing serialization type (the final
+   * byte of the signature)
+   * @param signatures every signature being checked by the current operation
+   * (removed from the covered bytecode by some algorithms)
+   */
+  readonly generateSignatureHash: (
+    sha256: Sha256,
+    state: ProgramState,
+    signingSerializationType: number,
+    signatures: ReadonlyArray<Uint8Array>
+  ) => Uint8Array;
+  /**
+   * Returns a `ScriptError` if `publicKey` may not be used on this network,
+   * otherwise `undefined`.
+   *
+   * @param publicKey the public key being checked
+   */
+  readonly validatePublicKeyEncoding: (
+    publicKey: Uint8Array
+  ) => ScriptError | undefined;
+  /**
+   * Returns a `ScriptError` if `signingSerializationType` may not be used on
+   * this network, otherwise `undefined`.
+   *
+   * @param signingSerializationType the signing serialization type (the final
+   * byte of the signature)
+   */
+  readonly validateSigningSerializationType: (
+    signingSerializationType: number
+  ) => ScriptError | undefined;
+}
+
+// tslint:disable:no-magic-numbers
+const sequenceTag = 0x30;
+const integerTag = 0x02;
+const negativeBit = 0x80;
+const minimumDERSignatureLength = 8;
+const maximumDERSignatureLength = 72;
+const compressedPublicKeyLength = 33;
+const uncompressedPublicKeyLength = 65;
+const compressedPublicKeyPrefixEven = 0x02;
+const compressedPublicKeyPrefixOdd = 0x03;
+const uncompressedPublicKeyPrefix = 0x04;
+
+/**
+ * Returns true if `signature` is a strictly-encoded DER signature (as defined
+ * by BIP66). Note, `signature` must not include a signing serialization type.
+ *
+ * @param signature the DER-encoded signature to check
+ */
+export const isValidSignatureEncodingDER = (signature: Uint8Array) => {
+  const rLength = signature[3];
+  const sLength = signature[rLength + 5];
+  const isValidInteger = (tagIndex: number, length: number) => {
+    const start = tagIndex + 2;
+    // tslint:disable:no-bitwise
+    const isNegative = (signature[start] & negativeBit) !== 0;
+    const hasUnnecessaryPadding =
+      length > 1 &&
+      signature[start] === 0 &&
+      (signature[start + 1] & negativeBit) === 0;
+    // tslint:enable:no-bitwise
+    return [
+      signature[tagIndex] === integerTag,
+      length !== 0,
+      !isNegative,
+      !hasUnnecessaryPadding
+    ].every(passed => passed);
+  };
+  return [
+    () => signature.length >= minimumDERSignatureLength,
+    () => signature.length <= maximumDERSignatureLength,
+    () => signature[0] === sequenceTag,
+    () => signature[1] === signature.length - 2,
+    () => rLength + 5 < signature.length,
+    () => rLength + sLength + 6 === signature.length,
+    () => isValidInteger(2, rLength),
+    () => isValidInteger(rLength + 4, sLength)
+  ].every(check => check());
+};
+// tslint:enable:no-magic-numbers
+
+/**
+ * Returns true if `publicKey` is a validly-encoded compressed (33-byte) or
+ * uncompressed (65-byte) public key.
+ *
+ * @param publicKey the public key to check
+ */
+export const isValidPublicKeyEncoding = (publicKey: Uint8Array) =>
+  publicKey.length === compressedPublicKeyLength
+    ? publicKey[0] === compressedPublicKeyPrefixEven ||
+      publicKey[0] === compressedPublicKeyPrefixOdd
+    : publicKey.length === uncompressedPublicKeyLength &&
+      publicKey[0] === uncompressedPublicKeyPrefix;
+
+/**
+ * A `TransactionSignatureRules.validatePublicKeyEncoding` which returns
+ * `ScriptError.invalidPublicKeyEncoding` unless `publicKey` is a
+ * validly-encoded compressed or uncompressed public key.
+ *
+ * @param publicKey the public key to check
+ */
+export const validatePublicKeyEncoding = (publicKey: Uint8Array) =>
+  isValidPublicKeyEncoding(publicKey)
+    ? undefined
+    : ScriptError.invalidPublicKeyEncoding;
+
+const hashOperation = (hash: (input: Uint8Array) => Uint8Array): Operation => (
+  state: ProgramState
+) =>
+  useOneStackItem(state, (nextState, item) =>
+    pushToStack(nextState, hash(item))
+  );
+
+/**
+ * Create an `OP_RIPEMD160` operation.
+ *
+ * @param ripemd160 an implementation of ripemd160
+ */
+export const opRipemd160 = (ripemd160: Ripemd160) =>
+  hashOperation(ripemd160.hash);
+
+/**
+ * Create an `OP_SHA1` operation.
+ *
+ * @param sha1 an implementation of sha1
+ */
+export const opSha1 = (sha1: Sha1) => hashOperation(sha1.hash);
+
+/**
+ * Create an `OP_SHA256` operation.
+ *
+ * @param sha256 an implementation of sha256
+ */
+export const opSha256 = (sha256: Sha256) => hashOperation(sha256.hash);
+
+/**
+ * Create an `OP_HASH160` operation (`ripemd160(sha256(item))`).
+ *
+ * @param sha256 an implementation of sha256
+ * @param ripemd160 an implementation of ripemd160
+ */
+export const opHash160 = (sha256: Sha256, ripemd160: Ripemd160) =>
+  hashOperation(item => hash160({ ripemd160, sha256 }, item));
+
+/**
+ * Create an `OP_HASH256` operation (`sha256(sha256(item))`).
+ *
+ * @param sha256 an implementation of sha256
+ */
+export const opHash256 = (sha256: Sha256) =>
+  hashOperation(item => hash256(sha256, item));
+
+/**
+ * Mark the current instruction as the most recently evaluated
+ * `OP_CODESEPARATOR`. Signatures checked later in the script only cover the
+ * bytecode following this instruction.
+ *
+ * @param state the program state
+ */
+export const opCodeSeparator: Operation = state => ({
+  ...state,
+  lastCodeSeparator: state.ip
+});
+
+/**
+ * Returns the bytecode covered by signatures checked at the current point of
+ * evaluation: the script following the most recently evaluated
+ * `OP_CODESEPARATOR`.
+ *
+ * @param state the program state
+ */
+export const getCoveredBytecode = (state: ProgramState) =>
+  serializeScript(state.instructions.slice(state.lastCodeSeparator + 1));
+
+const validateTransactionSignatureEncoding = (
+  rules: TransactionSignatureRules,
+  signature: Uint8Array
+): ScriptError | undefined =>
+  isValidSignatureEncodingDER(signature.slice(0, -1))
+    ? rules.validateSigningSerializationType(signature[signature.length - 1])
+    : ScriptError.invalidSignatureEncoding;
+
+const validateSignatureAndPublicKeyEncoding = (
+  rules: TransactionSignatureRules,
+  signature: Uint8Array,
+  publicKey: Uint8Array
+) => {
+  const signatureError =
+    signature.length === 0
+      ? undefined
+      : validateTransactionSignatureEncoding(rules, signature);
+  return signatureError !== undefined
+    ? signatureError
+    : rules.validatePublicKeyEncoding(publicKey);
+};
+
+/**
+ * Check a transaction signature (a DER-encoded signature followed by a
+ * signing serialization type) against a public key, returning the result of
+ * the verification or a `ScriptError` if either item is invalidly-encoded.
+ * Empty signatures are always invalid (but not invalidly-encoded).
+ */
+const checkTransactionSignature = (
+  { secp256k1, sha256 }: OperationDependencies,
+  rules: TransactionSignatureRules,
+  state: ProgramState,
+  signatures: ReadonlyArray<Uint8Array>,
+  signature: Uint8Array,
+  publicKey: Uint8Array
+): boolean | ScriptError => {
+  const error = validateSignatureAndPublicKeyEncoding(
+    rules,
+    signature,
+    publicKey
+  );
+  return error !== undefined
+    ? error
+    : signature.length !== 0 &&
+        secp256k1.verifySignatureDERLowS(
+          signature.slice(0, -1),
+          publicKey,
+          rules.generateSignatureHash(
+            sha256,
+            state,
+            signature[signature.length - 1],
+            signatures
+          )
+        );
+};
+
+/**
+ * Push the result of a signature check, enforcing the "NULLFAIL" rule: if
+ * any provided signature is not empty, a failed check fails the program.
+ */
+const pushSignatureCheckResult = (
+  state: ProgramState,
+  result: boolean | ScriptError,
+  signatures: ReadonlyArray<Uint8Array>
+) =>
+  typeof result === 'string'
+    ? applyError(state, result)
+    : !result && signatures.some(signature => signature.length !== 0)
+    ? applyError(state, ScriptError.nonNullSignatureFailure)
+    : pushBooleanToStack(state, result);
+
+/**
+ * Create an `OP_CHECKSIG` operation: `signature publicKey` => `valid`.
+ *
+ * @param dependencies the cryptographic implementations to use
+ * @param rules the transaction signature rules of the network
+ */
+export const opCheckSig = (
+  dependencies: OperationDependencies,
+  rules: TransactionSignatureRules
+): Operation => (state: ProgramState) =>
+  useTwoStackItems(state, (nextState, signature, publicKey) =>
+    pushSignatureCheckResult(
+      nextState,
+      checkTransactionSignature(
+        dependencies,
+        rules,
+        nextState,
+        [signature],
+        signature,
+        publicKey
+      ),
+      [signature]
+    )
+  );
+
+/**
+ * Create an `OP_CHECKSIGVERIFY` operation.
+ *
+ * @param dependencies the cryptographic implementations to use
+ * @param rules the transaction signature rules of the network
+ */
+export const opCheckSigVerify = (
+  dependencies: OperationDependencies,
+  rules: TransactionSignatureRules
+) => combineOperations(opCheckSig(dependencies, rules), opVerify);
+
+/**
+ * Match each signature (in order) against the remaining public keys (in
+ * order), returning `true` if every signature is valid.
+ */
+const checkMultisig = (
+  check: (
+    signature: Uint8Array,
+    publicKey: Uint8Array
+  ) => boolean | ScriptError,
+  signatures: ReadonlyArray<Uint8Array>,
+  publicKeys: ReadonlyArray<Uint8Array>
+): boolean | ScriptError => {
+  // tslint:disable-next-line:no-if-statement
+  if (signatures.length === 0 || signatures.length > publicKeys.length) {
+    return signatures.length === 0;
+  }
+  const result = check(signatures[0], publicKeys[0]);
+  return typeof result === 'string'
+    ? result
+    : checkMultisig(
+        check,
+        result ? signatures.slice(1) : signatures,
+        publicKeys.slice(1)
+      );
+};
+
+const useMultisigPublicKeys = (
+  state: ProgramState,
+  operation: (
+    nextState: ProgramState,
+    publicKeys: ReadonlyArray<Uint8Array>
+  ) => ProgramState
+) =>
+  useOneScriptNumber(state, (afterCount, keyCount) =>
+    keyCount < 0 || keyCount > maximumMultisigPublicKeys
+      ? applyError(afterCount, ScriptError.invalidMultisigKeyCount)
+      : afterCount.operationCount + keyCount > maximumOperationCount
+      ? applyError(afterCount, ScriptError.exceededMaximumOperationCount)
+      : useStackItems(
+          {
+            ...afterCount,
+            operationCount: afterCount.operationCount + keyCount
+          },
+          keyCount,
+          operation
+        )
+  );
+
+const useMultisigSignatures = (
+  state: ProgramState,
+  keyCount: number,
+  operation: (
+    nextState: ProgramState,
+    signatures: ReadonlyArray<Uint8Array>
+  ) => ProgramState
+) =>
+  useOneScriptNumber(state, (afterCount, signatureCount) =>
+    signatureCount < 0 || signatureCount > keyCount
+      ? applyError(afterCount, ScriptError.invalidMultisigSignatureCount)
+      : useStackItems(
+          afterCount,
+          signatureCount,
+          (afterSignatures, signatures) =>
+            useOneStackItem(afterSignatures, (nextState, protocolBugValue) =>
+              protocolBugValue.length === 0
+                ? operation(nextState, signatures)
+                : applyError(nextState, ScriptError.invalidProtocolBugValue)
+            )
+        )
+  );
+
+/**
+ * Create an `OP_CHECKMULTISIG` operation:
+ * `bugValue sig1...sigM M pubkey1...pubkeyN N` => `valid`.
+ *
+ * Signatures must be provided in the same order as their public keys. Each
+ * public key counts toward `maximumOperationCount`, and (to work around a
+ * bug in the original implementation) an additional, empty stack item is
+ * consumed.
+ *
+ * @param dependencies the cryptographic implementations to use
+ * @param rules the transaction signature rules of the network
+ */
+export const opCheckMultiSig = (
+  dependencies: OperationDependencies,
+  rules: TransactionSignatureRules
+): Operation => (state: ProgramState) =>
+  useMultisigPublicKeys(state, (afterKeys, publicKeys) =>
+    useMultisigSignatures(
+      afterKeys,
+      publicKeys.length,
+      (nextState, signatures) =>
+        pushSignatureCheckResult(
+          nextState,
+          checkMultisig(
+            (signature, publicKey) =>
+              checkTransactionSignature(
+                dependencies,
+                rules,
+                nextState,
+                signatures,
+                signature,
+                publicKey
+              ),
+            [...signatures].reverse(),
+            [...publicKeys].reverse()
+          ),
+          signatures
+        )
+    )
+  );
+
+/**
+ * Create an `OP_CHECKMULTISIGVERIFY` operation.
+ *
+ * @param dependencies the cryptographic implementations to use
+ * @param rules the transaction signature rules of the network
+ */
+export const opCheckMultiSigVerify = (
+  dependencies: OperationDependencies,
+  rules: TransactionSignatureRules
+) => combineOperations(opCheckMultiSig(dependencies, rules), opVerify);
+
+/**
+ * Create an `OP_CHECKDATASIG` operation: `signature message publicKey` =>
+ * `valid`, where `signature` is a DER-encoded signature (without a signing
+ * serialization type) of the sha256 hash of `message`.
+ *
+ * @param dependencies the cryptographic implementations to use
+ */
+export const opCheckDataSig = ({
+  secp256k1,
+  sha256
+}: OperationDependencies): Operation => (state: ProgramState) =>
+  useThreeStackItems(state, (nextState, signature, message, publicKey) =>
+    pushSignatureCheckResult(
+      nextState,
+      signature.length !== 0 && !isValidSignatureEncodingDER(signature)
+        ? ScriptError.invalidSignatureEncoding
+        : !isValidPublicKeyEncoding(publicKey)
+        ? ScriptError.invalidPublicKeyEncoding
+        : signature.length !== 0 &&
+          secp256k1.verifySignatureDERLowS(
+            signature,
+            publicKey,
+            sha256.hash(message)
+          ),
+      [signature]
+    )
+  );
+
+/**
+ * Create an `OP_CHECKDATASIGVERIFY` operation.
+ *
+ * @param dependencies the cryptographic implementations to use
+ */
+export const opCheckDataSigVerify = (dependencies: OperationDependencies) =>
+  combineOperations(opCheckDataSig(dependencies), opVerify);
@@ -0,0 +1,126 @@
+import { stackItemIsTruthy } from '../number';
+import { ScriptError } from '../state';
+import { applyError, isExecuting, Operation, useOneStackItem } from './common';
+
+/**
+ * A no-op (`OP_NOP`, `OP_NOP1`, and `OP_NOP4` through `OP_NOP10`).
+ *
+ * @param state the program state
+ */
+export const opNop: Operation = state => state;
+
+/**
+ * Fail because an unassigned, reserved opcode was executed.
+ *
+ * @param state the program state
+ */
+export const opReserved: Operation = state =>
+  applyError(state, ScriptError.calledReserved);
+
+/**
+ * Fail because an unknown opcode was executed.
+ *
+ * @param state the program state
+ */
+export const opUnknown: Operation = state =>
+  applyError(state, ScriptError.unknownOpcode);
+
+/**
+ * Fail because a disabled opcode was encountered.
+ *
+ * @param state the program state
+ */
+export const opDisabled: Operation = state =>
+  applyError(state, ScriptError.disabledOpcode);
+
+const isMinimalConditionalValue = (item: Uint8Array) =>
+  item.length === 0 || (item.length === 1 && item[0] === 1);
+
+const conditionalOperation = (
+  invert: boolean,
+  requireMinimal: boolean
+): Operation => state =>
+  isExecuting(state)
+    ? useOneStackItem(state, (nextState, item) =>
+        requireMinimal && !isMinimalConditionalValue(item)
+          ? applyError(nextState, ScriptError.nonMinimalConditional)
+          : {
+              ...nextState,
+              executionStack: [
+                ...nextState.executionStack,
+                stackItemIsTruthy(item) !== invert
+              ]
+            }
+      )
+    : { ...state, executionStack: [...state.executionStack, false] };
+
+/**
+ * Begin a conditional: if the top stack item is truthy, execute the following
+ * instructions (until `OP_ELSE` or `OP_ENDIF`). Within an unexecuted branch,
+ * no stack item is consumed.
+ */
+export const opIf = conditionalOperation(false, false);
+
+/**
+ * Like `OP_IF`, but executes the following instructions if the top stack item
+ * is not truthy.
+ */
+export const opNotIf = conditionalOperation(true, false);
+
+/**
+ * Like `OP_IF`, but fails unless the top stack item is empty or exactly
+ * `0x01` (the "MINIMALIF" rule).
+ */
+export const opIfMinimal = conditionalOperation(false, true);
+
+/**
+ * Like `OP_NOTIF`, but fails unless the top stack item is empty or exactly
+ * `0x01` (the "MINIMALIF" rule).
+ */
+export const opNotIfMinimal = conditionalOperation(true, true);
+
+/**
+ * Invert the execution condition of the current conditional.
+ *
+ * @param state the program state
+ */
+export const opElse: Operation = state =>
+  state.executionStack.length === 0
+    ? applyError(state, ScriptError.unbalancedConditional)
+    : {
+        ...state,
+        executionStack: [
+          ...state.executionStack.slice(0, -1),
+          !state.executionStack[state.executionStack.length - 1]
+        ]
+      };
+
+/**
+ * End the current conditional.
+ *
+ * @param state the program state
+ */
+export const opEndIf: Operation = state =>
+  state.executionStack.length === 0
+    ? applyError(state, ScriptError.unbalancedConditional)
+    : { ...state, executionStack: state.executionStack.slice(0, -1) };
+
+/**
+ * Pop the top stack item, failing if it is not truthy.
+ *
+ * @param state the program state
+ */
+export const opVerify: Operation = state =>
+  useOneStackItem(state, (nextState, item) =>
+    stackItemIsTruthy(item)
+      ? nextState
+      : applyError(nextState, ScriptError.failedVerify)
+  );
+
+/**
+ * Fail immediately.
+ *
+ * @param state the program state
+ */
+export const opReturn: Operation = state =>
+  applyError(state, ScriptError.calledReturn);
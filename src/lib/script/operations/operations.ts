@@ -0,0 +1,8 @@
+export * from './arithmetic';
+export * from './common';
+export * from './crypto';
+export * from './flow';
+export * from './push';
+export * from './splice';
+export * from './stack';
+export * from './time';
@@ -0,0 +1,55 @@
+import { Opcodes } from '../opcodes';
+import { createPushInstruction, ScriptInstructionPush } from '../parse';
+import { ScriptError } from '../state';
+import {
+  applyError,
+  Operation,
+  pushNumberToStack,
+  pushToStack
+} from './common';
+
+// tslint:disable-next-line:no-magic-numbers
+const negativeOne = 0x81;
+
+const minimalSingleBytePushOpcode = (byte: number) =>
+  byte >= 1 && byte <= Opcodes.OP_16 - Opcodes.OP_1 + 1
+    ? Opcodes.OP_1 + byte - 1
+    : byte === negativeOne
+    ? Opcodes.OP_1NEGATE
+    : Opcodes.OP_PUSHBYTES_1;
+
+/**
+ * Returns true if `data` is pushed using the smallest possible push
+ * instruction. (Single-byte pushes of the numbers `-1` and `1` through `16`
+ * must use `OP_1NEGATE` and `OP_1` through `OP_16`.)
+ *
+ * @param opcode the opcode used to push `data`
+ * @param data the pushed data
+ */
+export const isMinimalDataPush = (opcode: number, data: Uint8Array) =>
+  opcode ===
+  (data.length === 1
+    ? minimalSingleBytePushOpcode(data[0])
+    : createPushInstruction(data).opcode);
+
+/**
+ * Push the data of the current instruction (`OP_0` through `OP_PUSHDATA_4`)
+ * to the stack. Fails if the push is not minimally-encoded.
+ *
+ * @param state the program state
+ */
+export const opPushData: Operation = state => {
+  const instruction = state.instructions[state.ip] as ScriptInstructionPush;
+  return isMinimalDataPush(instruction.opcode, instruction.data)
+    ? pushToStack(state, instruction.data)
+    : applyError(state, ScriptError.nonMinimalPush);
+};
+
+/**
+ * Create an operation which pushes `value` to the stack as a Script Number
+ * (used for `OP_1NEGATE` and `OP_1` through `OP_16`).
+ *
+ * @param value the number to push
+ */
+export const pushNumberOperation = (value: number): Operation => state =>
+  pushNumberToStack(state, value);
@@ -0,0 +1,155 @@
+import { flattenBinArray } from '../../utils';
+import {
+  defaultMaximumScriptNumberLength,
+  isMinimallyEncodedScriptNumber,
+  minimallyEncodeScriptNumber
+} from '../number';
+import { maximumStackItemLength, ScriptError } from '../state';
+import {
+  applyError,
+  combineOperations,
+  Operation,
+  pushBooleanToStack,
+  pushNumberToStack,
+  pushToStack,
+  useOneScriptNumber,
+  useOneStackItem,
+  useTwoStackItems
+} from './common';
+import { opVerify } from './flow';
+
+// tslint:disable-next-line:no-magic-numbers
+const signBit = 0x80;
+
+/**
+ * `a b` => `ab`: concatenate the top two stack items.
+ *
+ * @param state the program state
+ */
+export const opCat: Operation = state =>
+  useTwoStackItems(state, (nextState, a, b) =>
+    pushToStack(nextState, flattenBinArray([a, b]))
+  );
+
+/**
+ * `x n` => `x[0..n] x[n..]`: split a stack item at index `n`.
+ *
+ * @param state the program state
+ */
+export const opSplit: Operation = state =>
+  useOneScriptNumber(state, (afterIndex, index) =>
+    useOneStackItem(afterIndex, (nextState, item) =>
+      index < 0 || index > item.length
+        ? applyError(nextState, ScriptError.invalidSplitIndex)
+        : pushToStack(nextState, item.slice(0, index), item.slice(index))
+    )
+  );
+
+const padScriptNumber = (minimal: Uint8Array, length: number) => {
+  const mostSignificant = minimal.length - 1;
+  // tslint:disable:no-bitwise
+  const sign = minimal.length === 0 ? 0 : minimal[mostSignificant] & signBit;
+  const magnitude = minimal.map((byte, index) =>
+    index === mostSignificant ? byte & ~signBit : byte
+  );
+  return Uint8Array.from(
+    [
+      ...magnitude,
+      ...new Uint8Array(length - minimal.length)
+    ].map((byte, index) => (index === length - 1 ? byte | sign : byte))
+  );
+  // tslint:enable:no-bitwise
+};
+
+/**
+ * `x n` => `x'`: convert a Script Number `x` into a Script Number of length
+ * `n` (padding it with zero bytes as necessary).
+ *
+ * @param state the program state
+ */
+export const opNum2Bin: Operation = state =>
+  useOneScriptNumber(state, (afterLength, length) =>
+    useOneStackItem(afterLength, (nextState, item) => {
+      const minimal = minimallyEncodeScriptNumber(item);
+      return length > maximumStackItemLength
+        ? applyError(nextState, ScriptError.exceededMaximumStackItemLength)
+        : length < minimal.length
+        ? applyError(nextState, ScriptError.impossibleEncoding)
+        : pushToStack(nextState, padScriptNumber(minimal, length));
+    })
+  );
+
+/**
+ * `x` => `x'`: convert a Script Number `x` of any length into its minimal
+ * encoding. Fails if the result is not a valid Script Number.
+ *
+ * @param state the program state
+ */
+export const opBin2Num: Operation = state =>
+  useOneStackItem(state, (nextState, item) => {
+    const minimal = minimallyEncodeScriptNumber(item);
+    return minimal.length > defaultMaximumScriptNumberLength ||
+      !isMinimallyEncodedScriptNumber(minimal)
+      ? applyError(nextState, ScriptError.invalidScriptNumber)
+      : pushToStack(nextState, minimal);
+  });
+
+/**
+ * `a` => `a n`: push the length of the top stack item (without removing it).
+ *
+ * @param state the program state
+ */
+export const opSize: Operation = state =>
+  useOneStackItem(state, (nextState, item) =>
+    pushNumberToStack(pushToStack(nextState, item), item.length)
+  );
+
+const bitwiseOperation = (
+  combine: (a: number, b: number) => number
+): Operation => state =>
+  useTwoStackItems(state, (nextState, a, b) =>
+    a.length === b.length
+      ? pushToStack(
+          nextState,
+          a.map((byte, index) => combine(byte, b[index]))
+        )
+      : applyError(nextState, ScriptError.mismatchedBitwiseOperandLength)
+  );
+
+// tslint:disable:no-bitwise
+/**
+ * `a b` => `a&b`: the bitwise AND of two equal-length stack items.
+ */
+export const opAnd = bitwiseOperation((a, b) => a & b);
+
+/**
+ * `a b` => `a|b`: the bitwise OR of two equal-length stack items.
+ */
+export const opOr = bitwiseOperation((a, b) => a | b);
+
+/**
+ * `a b` => `a^b`: the bitwise XOR of two equal-length stack items.
+ */
+export const opXor = bitwiseOperation((a, b) => a ^ b);
+// tslint:enable:no-bitwise
+
+const equalItems = (a: Uint8Array, b: Uint8Array) =>
+  a.length === b.length && a.every((byte, index) => byte === b[index]);
+
+/**
+ * `a b` => `a==b`: push `true` if the top two stack items are byte-for-byte
+ * equal, otherwise `false`.
+ *
+ * @param state the program state
+ */
+export const opEqual: Operation = state =>
+  useTwoStackItems(state, (nextState, a, b) =>
+    pushBooleanToStack(nextState, equalItems(a, b))
+  );
+
+/**
+ * `OP_EQUAL` followed by `OP_VERIFY`.
+ *
+ * @param state the program state
+ */
+export const opEqualVerify = combineOperations(opEqual, opVerify);
@@ -0,0 +1,188 @@
+import { stackItemIsTruthy } from '../number';
+import { ProgramState, ScriptError } from '../state';
+import {
+  applyError,
+  Operation,
+  pushNumberToStack,
+  pushToStack,
+  useOneScriptNumber,
+  useOneStackItem,
+  useStackItems
+} from './common';
+
+/**
+ * Create an operation which pops `count` items from the stack, then pushes
+ * the items returned by `rearrange` (e.g. `OP_SWAP`).
+ *
+ * @param count the number of items to pop
+ * @param rearrange a function which receives the popped items (deepest item
+ * first) and returns the items to push
+ */
+const rearrangeStackItems = (
+  count: number,
+  rearrange: (items: ReadonlyArray<Uint8Array>) => ReadonlyArray<Uint8Array>
+): Operation => state =>
+  useStackItems(state, count, (nextState, items) =>
+    pushToStack(nextState, ...rearrange(items))
+  );
+
+/**
+ * Move the top stack item to the alternate stack.
+ *
+ * @param state the program state
+ */
+export const opToAltStack: Operation = state =>
+  useOneStackItem(state, (nextState, item) => ({
+    ...nextState,
+    alternateStack: [...nextState.alternateStack, item]
+  }));
+
+/**
+ * Move the top alternate stack item to the stack.
+ *
+ * @param state the program state
+ */
+export const opFromAltStack: Operation = state =>
+  state.alternateStack.length === 0
+    ? applyError(state, ScriptError.emptyAlternateStack)
+    : pushToStack(
+        { ...state, alternateStack: state.alternateStack.slice(0, -1) },
+        state.alternateStack[state.alternateStack.length - 1]
+      );
+
+// tslint:disable:no-magic-numbers
+/**
+ * `a b` => ``
+ */
+export const op2Drop = rearrangeStackItems(2, () => []);
+
+/**
+ * `a b` => `a b a b`
+ */
+export const op2Dup = rearrangeStackItems(2, ([a, b]) => [a, b, a, b]);
+
+/**
+ * `a b c` => `a b c a b c`
+ */
+export const op3Dup = rearrangeStackItems(3, ([a, b, c]) => [a, b, c, a, b, c]);
+
+/**
+ * `a b c d` => `a b c d a b`
+ */
+export const op2Over = rearrangeStackItems(4, ([a, b, c, d]) => [
+  a,
+  b,
+  c,
+  d,
+  a,
+  b
+]);
+
+/**
+ * `a b c d e f` => `c d e f a b`
+ */
+export const op2Rot = rearrangeStackItems(6, ([a, b, c, d, e, f]) => [
+  c,
+  d,
+  e,
+  f,
+  a,
+  b
+]);
+
+/**
+ * `a b c d` => `c d a b`
+ */
+export const op2Swap = rearrangeStackItems(4, ([a, b, c, d]) => [c, d, a, b]);
+
+/**
+ * `a` => `a a` if `a` is truthy, otherwise `a` => `a`
+ */
+export const opIfDup = rearrangeStackItems(1, ([a]) =>
+  stackItemIsTruthy(a) ? [a, a] : [a]
+);
+
+/**
+ * Push the number of items on the stack.
+ *
+ * @param state the program state
+ */
+export const opDepth: Operation = state =>
+  pushNumberToStack(state, state.stack.length);
+
+/**
+ * `a` => ``
+ */
+export const opDrop = rearrangeStackItems(1, () => []);
+
+/**
+ * `a` => `a a`
+ */
+export const opDup = rearrangeStackItems(1, ([a]) => [a, a]);
+
+/**
+ * `a b` => `b`
+ */
+export const opNip = rearrangeStackItems(2, ([, b]) => [b]);
+
+/**
+ * `a b` => `a b a`
+ */
+export const opOver = rearrangeStackItems(2, ([a, b]) => [a, b, a]);
+
+/**
+ * `a b c` => `b c a`
+ */
+export const opRot = rearrangeStackItems(3, ([a, b, c]) => [b, c, a]);
+
+/**
+ * `a b` => `b a`
+ */
+export const opSwap = rearrangeStackItems(2, ([a, b]) => [b, a]);
+
+/**
+ * `a b` => `b a b`
+ */
+export const opTuck = rearrangeStackItems(2, ([a, b]) => [b, a, b]);
+// tslint:enable:no-magic-numbers
+
+const useStackIndex = (
+  state: ProgramState,
+  operation: (nextState: ProgramState, index: number) => ProgramState
+) =>
+  useOneScriptNumber(state, (nextState, depth) =>
+    depth < 0 || depth >= nextState.stack.length
+      ? applyError(nextState, ScriptError.invalidStackIndex)
+      : operation(nextState, nextState.stack.length - 1 - depth)
+  );
+
+/**
+ * Pop a number `n`, then copy the item `n` items back in the stack to the top
+ * of the stack.
+ *
+ * @param state the program state
+ */
+export const opPick: Operation = state =>
+  useStackIndex(state, (nextState, index) =>
+    pushToStack(nextState, nextState.stack[index])
+  );
+
+/**
+ * Pop a number `n`, then move the item `n` items back in the stack to the top
+ * of the stack.
+ *
+ * @param state the program state
+ */
+export const opRoll: Operation = state =>
+  useStackIndex(state, (nextState, index) =>
+    pushToStack(
+      {
+        ...nextState,
+        stack: [
+          ...nextState.stack.slice(0, index),
+          ...nextState.stack.slice(index + 1)
+        ]
+      },
+      nextState.stack[index]
+    )
+  );
@@ -0,0 +1,80 @@
+import { ProgramState, ScriptError } from '../state';
+import { applyError, Operation, useOneScriptNumber } from './common';
+
+// tslint:disable:no-magic-numbers
+const locktimeThreshold = 500000000;
+const finalSequenceNumber = 0xffffffff;
+const sequenceDisableFlag = 0x80000000;
+const sequenceTypeFlag = 0x400000;
+const sequenceMask = 0x40ffff;
+const minimumSequenceVerifyVersion = 2;
+const locktimeScriptNumberLength = 5;
+// tslint:enable:no-magic-numbers
+
+// tslint:disable:no-bitwise
+const isSequenceDisabled = (sequence: number) =>
+  (sequence & sequenceDisableFlag) !== 0;
+const isTimeBasedSequence = (sequence: number) =>
+  (sequence & sequenceTypeFlag) !== 0;
+const maskSequence = (sequence: number) => sequence & sequenceMask;
+// tslint:enable:no-bitwise
+
+/**
+ * Like `useOneScriptNumber`, but the stack item is not removed, up to 5-byte
+ * numbers are accepted, and negative numbers fail.
+ */
+const readLocktime = (
+  operation: (value: number) => Operation
+): Operation => state =>
+  useOneScriptNumber(
+    state,
+    (nextState, value) =>
+      value < 0
+        ? applyError(nextState, ScriptError.negativeLocktime)
+        : operation(value)(state),
+    locktimeScriptNumberLength
+  );
+
+/**
+ * Fail unless the transaction's locktime is of the same type (block height or
+ * block time) and at least as large as the top stack item, and the input's
+ * sequence number is not finalized (`0xffffffff`). The stack is not modified.
+ */
+export const opCheckLockTimeVerify = readLocktime(requiredLocktime => state => {
+  const { locktime, inputs } = state.context.transaction;
+  const sequence = inputs[state.context.inputIndex].sequenceNumber;
+  return requiredLocktime < locktimeThreshold !== locktime < locktimeThreshold
+    ? applyError(state, ScriptError.incompatibleLocktimeType)
+    : requiredLocktime > locktime
+    ? applyError(state, ScriptError.unsatisfiedLocktime)
+    : sequence === finalSequenceNumber
+    ? applyError(state, ScriptError.locktimeDisabled)
+    : state;
+});
+
+const compareSequenceNumbers = (
+  state: ProgramState,
+  requiredSequence: number,
+  sequence: number
+) =>
+  isTimeBasedSequence(requiredSequence) !== isTimeBasedSequence(sequence)
+    ? applyError(state, ScriptError.incompatibleSequenceType)
+    : maskSequence(requiredSequence) > maskSequence(sequence)
+    ? applyError(state, ScriptError.unsatisfiedSequenceNumber)
+    : state;
+
+/**
+ * Fail unless the input's sequence number (as a BIP68 relative locktime) is of
+ * the same type and at least as large as the top stack item. If the top stack
+ * item has its disable flag set, this operation behaves as a no-op. The stack
+ * is not modified.
+ */
+export const opCheckSequenceVerify = readLocktime(requiredSequence => state => {
+  const { inputs, version } = state.context.transaction;
+  const sequence = inputs[state.context.inputIndex].sequenceNumber;
+  return isSequenceDisabled(requiredSequence)
+    ? state
+    : version < minimumSequenceVerifyVersion || isSequenceDisabled(sequence)
+    ? applyError(state, ScriptError.checkSequenceUnavailable)
+    : compareSequenceNumbers(state, requiredSequence, sequence);
+});
@@ -0,0 +1,164 @@
+// tslint:disable:no-expression-statement no-magic-numbers no-unsafe-any
+import test from 'ava';
+import * as fc from 'fast-check';
+import { binToHex, hexToBin, range } from '../utils';
+import {
+  countSignatureOperations,
+  createPushInstruction,
+  encodeDataPush,
+  isWellFormedScript,
+  parseScript,
+  ScriptInstructionPush,
+  serializeScript
+} from './parse';
+
+const maxUint8Number = 255;
+const fcUint8Array = (minLength: number, maxLength: number) =>
+  fc
+    .array(fc.integer(0, maxUint8Number), minLength, maxLength)
+    .map(a => Uint8Array.from(a));
+
+test('P2PKH Bitcoin Cash script', t => {
+  const unlockingScript = hexToBin(
+    '483045022100ab4c6d9ba51da83072615c33a9887b756478e6f9de381085f5183c97603fc6ff022029722188bd937f54c861582ca6fc685b8da2b40d05f06b368374d35e4af2b76401210376ea9e36a75d2ecf9c93a0be76885e36f822529db22acfdc761c9b5b4544f5c5'
+  );
+  const lockingScript = hexToBin(
+    '76a91415d16c84669ab46059313bf0747e781f1d13936d88ac'
+  );
+  t.deepEqual(parseScript(unlockingScript), [
+    {
+      data: hexToBin(
+        '3045022100ab4c6d9ba51da83072615c33a9887b756478e6f9de381085f5183c97603fc6ff022029722188bd937f54c861582ca6fc685b8da2b40d05f06b368374d35e4af2b76401'
+      ),
+      opcode: 0x48
+    },
+    {
+      data: hexToBin(
+        '0376ea9e36a75d2ecf9c93a0be76885e36f822529db22acfdc761c9b5b4544f5c5'
+      ),
+      opcode: 0x21
+    }
+  ]);
+  t.deepEqual(parseScript(lockingScript), [
+    { opcode: 0x76 },
+    { opcode: 0xa9 },
+    {
+      data: hexToBin('15d16c84669ab46059313bf0747e781f1d13936d'),
+      opcode: 0x14
+    },
+    { opcode: 0x88 },
+    { opcode: 0xac }
+  ]);
+  t.deepEqual(serializeScript(parseScript(unlockingScript)), unlockingScript);
+  t.deepEqual(serializeScript(parseScript(lockingScript)), lockingScript);
+});
+
+test('parseScript: OP_0 and OP_PUSHDATA_*', t => {
+  t.deepEqual(parseScript(Uint8Array.of(0x00, 0x51)), [
+    { data: new Uint8Array(0), opcode: 0x00 },
+    { opcode: 0x51 }
+  ]);
+  t.deepEqual(parseScript(Uint8Array.of(0x4c, 0x02, 0xab, 0xcd)), [
+    { data: Uint8Array.of(0xab, 0xcd), opcode: 0x4c }
+  ]);
+  t.deepEqual(parseScript(Uint8Array.of(0x4d, 0x01, 0x00, 0xab)), [
+    { data: Uint8Array.of(0xab), opcode: 0x4d }
+  ]);
+  t.deepEqual(parseScript(Uint8Array.of(0x4e, 0x01, 0x00, 0x00, 0x00, 0xab)), [
+    { data: Uint8Array.of(0xab), opcode: 0x4e }
+  ]);
+  t.deepEqual(
+    parseScript(
+      Uint8Array.of(0x4d, 0x00, 0x01, ...range(256).map(() => 0xff), 0x87)
+    ),
+    [{ data: new Uint8Array(256).fill(0xff), opcode: 0x4d }, { opcode: 0x87 }]
+  );
+});
+
+test('parseScript: malformed pushes', t => {
+  t.deepEqual(parseScript(Uint8Array.of(0x51, 0x02, 0xab)), [
+    { opcode: 0x51 },
+    {
+      data: Uint8Array.of(0xab),
+      expectedDataBytes: 2,
+      malformed: true,
+      opcode: 0x02
+    }
+  ]);
+  t.deepEqual(parseScript(Uint8Array.of(0x4c)), [
+    {
+      expectedLengthBytes: 1,
+      length: new Uint8Array(0),
+      malformed: true,
+      opcode: 0x4c
+    }
+  ]);
+  t.deepEqual(parseScript(Uint8Array.of(0x4e, 0x01, 0x00)), [
+    {
+      expectedLengthBytes: 4,
+      length: Uint8Array.of(0x01, 0x00),
+      malformed: true,
+      opcode: 0x4e
+    }
+  ]);
+  t.deepEqual(parseScript(Uint8Array.of(0x4d, 0x03, 0x00, 0xab)), [
+    {
+      data: Uint8Array.of(0xab),
+      expectedDataBytes: 3,
+      malformed: true,
+      opcode: 0x4d
+    }
+  ]);
+  t.true(isWellFormedScript(parseScript(Uint8Array.of(0x01, 0xab))));
+  t.false(isWellFormedScript(parseScript(Uint8Array.of(0x01))));
+});
+
+test('parseScript <-> serializeScript', t => {
+  const inverse = fc.property(
+    fcUint8Array(0, 100),
+    bytecode =>
+      binToHex(serializeScript(parseScript(bytecode))) === binToHex(bytecode)
+  );
+  t.notThrows(() => fc.assert(inverse));
+});
+
+test('createPushInstruction', t => {
+  t.deepEqual(createPushInstruction(new Uint8Array(0)).opcode, 0x00);
+  t.deepEqual(createPushInstruction(new Uint8Array(75)).opcode, 75);
+  t.deepEqual(createPushInstruction(new Uint8Array(76)).opcode, 0x4c);
+  t.deepEqual(createPushInstruction(new Uint8Array(255)).opcode, 0x4c);
+  t.deepEqual(createPushInstruction(new Uint8Array(256)).opcode, 0x4d);
+  t.deepEqual(createPushInstruction(new Uint8Array(65535)).opcode, 0x4d);
+  t.deepEqual(createPushInstruction(new Uint8Array(65536)).opcode, 0x4e);
+});
+
+test('encodeDataPush', t => {
+  t.deepEqual(
+    encodeDataPush(Uint8Array.of(1, 2, 3)),
+    Uint8Array.of(3, 1, 2, 3)
+  );
+  t.deepEqual(
+    encodeDataPush(new Uint8Array(256)).slice(0, 3),
+    Uint8Array.of(0x4d, 0x00, 0x01)
+  );
+  const parsable = fc.property(
+    fcUint8Array(0, 600),
+    data =>
+      binToHex(
+        (parseScript(encodeDataPush(data))[0] as ScriptInstructionPush).data
+      ) === binToHex(data)
+  );
+  t.notThrows(() => fc.assert(parsable));
+});
+
+test('countSignatureOperations', t => {
+  // a 2-of-3 multisig followed by OP_CHECKSIG and OP_CHECKDATASIG
+  const script = parseScript(
+    hexToBin(`52${`21${'02'.repeat(33)}`.repeat(3)}53aeacba`)
+  );
+  t.is(countSignatureOperations(script, 'btc'), 21);
+  t.is(countSignatureOperations(script, 'bch'), 22);
+  t.is(countSignatureOperations(script, 'btc', true), 4);
+  t.is(countSignatureOperations(script, 'bch', true), 5);
+  t.is(countSignatureOperations(parseScript(hexToBin('af')), 'bch', true), 20);
+});
@@ -0,0 +1,356 @@
+import {
+  binToNumberUintLE,
+  flattenBinArray,
+  numberToBinUintLE
+} from '../utils';
+import { opcodeMetadata, OpcodeNetwork, Opcodes } from './opcodes';
+
+// tslint:disable:no-magic-numbers
+const maximumPushData1Length = 0xff;
+const maximumPushData2Length = 0xffff;
+// tslint:enable:no-magic-numbers
+
+/**
+ * A script instruction which does not push data (e.g. `OP_DUP`).
+ */
+export interface ScriptInstructionOperation {
+  /**
+   * The opcode of this instruction.
+   */
+  readonly opcode: number;
+}
+
+/**
+ * A script instruction which pushes data to the stack (`OP_0` through
+ * `OP_PUSHDATA_4`).
+ */
+export interface ScriptInstructionPush {
+  /**
+   * The data pushed by this instruction. For `OP_0`, this is an empty
+   * `Uint8Array`.
+   */
+  readonly data: Uint8Array;
+  /**
+   * The opcode of this instruction. For direct pushes (`0x01` through `0x4b`),
+   * the opcode is also the length of `data`.
+   */
+  readonly opcode: number;
+}
+
+/**
+ * A well-formed script instruction.
+ */
+export type ScriptInstruction =
+  | ScriptInstructionOperation
+  | ScriptInstructionPush;
+
+/**
+ * A push instruction which ended before all of its length bytes could be read.
+ * (Only possible for `OP_PUSHDATA_1`, `OP_PUSHDATA_2`, and `OP_PUSHDATA_4`.)
+ */
+export interface ScriptInstructionMalformedLength {
+  /**
+   * The number of bytes which were expected to encode the length of the push.
+   */
+  readonly expectedLengthBytes: number;
+  /**
+   * The length bytes which were available before the end of the script.
+   */
+  readonly length: Uint8Array;
+  /**
+   * Always `true` for malformed instructions.
+   */
+  readonly malformed: true;
+  /**
+   * The opcode of this instruction.
+   */
+  readonly opcode: number;
+}
+
+/**
+ * A push instruction which ended before all of its data could be read.
+ */
+export interface ScriptInstructionMalformedData {
+  /**
+   * The data which was available before the end of the script.
+   */
+  readonly data: Uint8Array;
+  /**
+   * The number of data bytes indicated by this push instruction.
+   */
+  readonly expectedDataBytes: number;
+  /**
+   * Always `true` for malformed instructions.
+   */
+  readonly malformed: true;
+  /**
+   * The opcode of this instruction.
+   */
+  readonly opcode: number;
+}
+
+/**
+ * A push instruction which was cut off by the end of the script. Because of
+ * how script parsing works, only the final instruction of a script can be
+ * malformed.
+ */
+export type ScriptInstructionMalformed =
+  | ScriptInstructionMalformedLength
+  | ScriptInstructionMalformedData;
+
+/**
+ * Any instruction which can be produced by `parseScript`.
+ */
+export type ParsedScriptInstruction =
+  | ScriptInstruction
+  | ScriptInstructionMalformed;
+
+/**
+ * A script which has been parsed into individual instructions.
+ */
+export type ParsedScript = ReadonlyArray<ParsedScriptInstruction>;
+
+/**
+ * Returns true if `opcode` is a push opcode (`OP_0` through `OP_PUSHDATA_4`).
+ *
+ * @param opcode the opcode to check
+ */
+export const isPushOpcode = (opcode: number) => opcode <= Opcodes.OP_PUSHDATA_4;
+
+/**
+ * A type guard which returns true if `instruction` is a well-formed push.
+ *
+ * @param instruction the instruction to check
+ */
+export const isScriptInstructionPush = (
+  instruction: ParsedScriptInstruction
+): instruction is ScriptInstructionPush =>
+  'data' in instruction && !('malformed' in instruction);
+
+/**
+ * A type guard which returns true if `instruction` is malformed.
+ *
+ * @param instruction the instruction to check
+ */
+export const isScriptInstructionMalformed = (
+  instruction: ParsedScriptInstruction
+): instruction is ScriptInstructionMalformed => 'malformed' in instruction;
+
+/**
+ * Returns true if none of the instructions in the provided `ParsedScript` are
+ * malformed.
+ *
+ * @param script a script produced by `parseScript`
+ */
+export const isWellFormedScript = (
+  script: ParsedScript
+): script is ReadonlyArray<ScriptInstruction> =>
+  !script.some(isScriptInstructionMalformed);
+
+const isMultisigOpcode = (opcode: number) =>
+  opcode === Opcodes.OP_CHECKMULTISIG ||
+  opcode === Opcodes.OP_CHECKMULTISIGVERIFY;
+
+const isSmallIntegerOpcode = (opcode: number) =>
+  opcode >= Opcodes.OP_1 && opcode <= Opcodes.OP_16;
+
+/**
+ * Count the signature operations in a script (for the purpose of sigop
+ * limits).
+ *
+ * By default, each `OP_CHECKMULTISIG` and `OP_CHECKMULTISIGVERIFY` is counted
+ * as `maximumMultisigPublicKeys`. If `accurate` is `true` and the multisig
+ * operation is immediately preceded by `OP_1` through `OP_16`, the number of
+ * public keys indicated by that opcode is counted instead. (Accurate counting
+ * is used for P2SH redeem scripts.)
+ *
+ * @param script the parsed script
+ * @param network the network for which to count signature operations (BCH
+ * counts `OP_CHECKDATASIG` and `OP_CHECKDATASIGVERIFY`)
+ * @param accurate if `true`, count multisig operations accurately
+ */
+export const countSignatureOperations = (
+  script: ParsedScript,
+  network: OpcodeNetwork,
+  accurate = false
+) =>
+  script.reduce(
+    (total, instruction, index) =>
+      total +
+      (accurate &&
+      isMultisigOpcode(instruction.opcode) &&
+      index > 0 &&
+      isSmallIntegerOpcode(script[index - 1].opcode)
+        ? script[index - 1].opcode - Opcodes.OP_1 + 1
+        : opcodeMetadata[instruction.opcode][network].sigops),
+    0
+  );
+
+const lengthBytesForPushOpcode = (opcode: number) =>
+  opcodeMetadata[opcode].pushLengthBytes;
+
+/**
+ * The result of `readScriptInstruction`.
+ */
+export interface ScriptInstructionReadResult {
+  /**
+   * The instruction which was read.
+   */
+  readonly instruction: ParsedScriptInstruction;
+  /**
+   * The index of the byte following this instruction (the index at which the
+   * next instruction begins).
+   */
+  readonly nextIndex: number;
+}
+
+const readPushInstruction = (
+  bytecode: Uint8Array,
+  index: number,
+  opcode: number
+): ScriptInstructionReadResult => {
+  const expectedLengthBytes = lengthBytesForPushOpcode(opcode);
+  const lengthStart = index + 1;
+  const dataStart = lengthStart + expectedLengthBytes;
+  const length = bytecode.slice(lengthStart, dataStart);
+  // tslint:disable-next-line:no-if-statement
+  if (length.length < expectedLengthBytes) {
+    return {
+      instruction: {
+        expectedLengthBytes,
+        length,
+        malformed: true,
+        opcode
+      },
+      nextIndex: bytecode.length
+    };
+  }
+  const expectedDataBytes =
+    expectedLengthBytes === 0 ? opcode : binToNumberUintLE(length);
+  const data = bytecode.slice(dataStart, dataStart + expectedDataBytes);
+  return data.length < expectedDataBytes
+    ? {
+        instruction: { data, expectedDataBytes, malformed: true, opcode },
+        nextIndex: bytecode.length
+      }
+    : {
+        instruction: { data, opcode },
+        nextIndex: dataStart + expectedDataBytes
+      };
+};
+
+/**
+ * Read the instruction beginning at `index` in the provided `bytecode`.
+ *
+ * @param bytecode the script bytecode
+ * @param index the index of the opcode to read
+ */
+export const readScriptInstruction = (
+  bytecode: Uint8Array,
+  index: number
+): ScriptInstructionReadResult => {
+  const opcode = bytecode[index];
+  return isPushOpcode(opcode)
+    ? readPushInstruction(bytecode, index, opcode)
+    : { instruction: { opcode }, nextIndex: index + 1 };
+};
+
+/**
+ * Parse a script into an array of instructions. Each instruction includes its
+ * opcode and, for push instructions, the data it pushes.
+ *
+ * Parsing never fails: if the script ends in the middle of a push
+ * instruction, the final instruction is returned as a
+ * `ScriptInstructionMalformed` (see `isScriptInstructionMalformed`), and the
+ * result can still be re-serialized with `serializeScript`.
+ *
+ * @param bytecode the script bytecode to parse
+ */
+export const parseScript = (bytecode: Uint8Array): ParsedScript => {
+  // tslint:disable-next-line:readonly-array
+  const instructions: ParsedScriptInstruction[] = [];
+  // tslint:disable:no-let no-expression-statement
+  let index = 0;
+  while (index < bytecode.length) {
+    const { instruction, nextIndex } = readScriptInstruction(bytecode, index);
+    instructions.push(instruction);
+    index = nextIndex;
+  }
+  // tslint:enable:no-let no-expression-statement
+  return instructions;
+};
+
+const serializePushLength = (opcode: number, length: number) =>
+  numberToBinUintLE(length, lengthBytesForPushOpcode(opcode));
+
+/**
+ * Serialize a single instruction into bytecode.
+ *
+ * @param instruction the instruction to serialize
+ */
+export const serializeScriptInstruction = (
+  instruction: ParsedScriptInstruction
+) =>
+  isScriptInstructionMalformed(instruction)
+    ? 'expectedLengthBytes' in instruction
+      ? flattenBinArray([Uint8Array.of(instruction.opcode), instruction.length])
+      : flattenBinArray([
+          Uint8Array.of(instruction.opcode),
+          serializePushLength(
+            instruction.opcode,
+            instruction.expectedDataBytes
+          ),
+          instruction.data
+        ])
+    : isScriptInstructionPush(instruction)
+    ? flattenBinArray([
+        Uint8Array.of(instruction.opcode),
+        serializePushLength(instruction.opcode, instruction.data.length),
+        instruction.data
+      ])
+    : Uint8Array.of(instruction.opcode);
+
+/**
+ * Serialize a parsed script back into bytecode. For any `bytecode`,
+ * `serializeScript(parseScript(bytecode))` returns an identical `Uint8Array`,
+ * including when the final instruction is malformed.
+ *
+ * @param script an array of instructions, e.g. as produced by `parseScript`
+ */
+export const serializeScript = (script: ParsedScript) =>
+  flattenBinArray(script.map(serializeScriptInstruction));
+
+/**
+ * Create the smallest possible push instruction which pushes `data`, using a
+ * direct push where possible, then `OP_PUSHDATA_1`, `OP_PUSHDATA_2`, and
+ * `OP_PUSHDATA_4`. (An empty `data` produces an `OP_0`.)
+ *
+ * Note, this method always uses a push instruction; it does not produce the
+ * number-pushing operations (`OP_1NEGATE` and `OP_1` through `OP_16`).
+ *
+ * @param data the data to push
+ */
+export const createPushInstruction = (
+  data: Uint8Array
+): ScriptInstructionPush => ({
+  data,
+  opcode:
+    data.length <= Opcodes.OP_PUSHBYTES_75
+      ? data.length
+      : data.length <= maximumPushData1Length
+      ? Opcodes.OP_PUSHDATA_1
+      : data.length <= maximumPushData2Length
+      ? Opcodes.OP_PUSHDATA_2
+      : Opcodes.OP_PUSHDATA_4
+});
+
+/**
+ * Encode `data` as the smallest possible push instruction.
+ *
+ * E.g.: `encodeDataPush(new Uint8Array([1, 2, 3]))` =>
+ * `new Uint8Array([3, 1, 2, 3])`
+ *
+ * @param data the data to push
+ */
+export const encodeDataPush = (data: Uint8Array) =>
+  serializeScriptInstruction(createPushInstruction(data));
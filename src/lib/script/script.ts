@@ -0,0 +1,9 @@
+export * from './asm';
+export * from './instructionSets/instructionSets';
+export * from './number';
+export * from './opcodes';
+export * from './operations/operations';
+export * from './parse';
+export * from './signingSerialization';
+export * from './state';
+export * from './vm';
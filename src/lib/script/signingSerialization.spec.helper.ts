@@ -0,0 +1,7051 @@
+// tslint:disable:max-file-line-count no-magic-numbers
+/**
+ * Signature hash test vectors: `[transaction, coveredBytecode, inputIndex,
+ * signingSerializationType, signatureHash, sourceSatoshis]` (all binary values
+ * are hex-encoded and the signature hash is in big-endian byte order). If
+ * `sourceSatoshis` is omitted, `0` is used.
+ */
+export type SignatureHashVector = [
+  string,
+  string,
+  number,
+  number,
+  string,
+  number?
+];
+
+/**
+ * Legacy signature hash test vectors from Bitcoin Core (`sighash.json`).
+ */
+export const signatureHashVectorsLegacy: ReadonlyArray<SignatureHashVector> = [
+  [
+    '907c2bc503ade11cc3b04eb2918b6f547b0630ab569273824748c87ea14b0696526c66ba740200000004ab65ababfd1f9bdd4ef073c7afc4ae00da8a66f429c917a0081ad1e1dabce28d373eab81d8628de802000000096aab5253ab52000052ad042b5f25efb33beec9f3364e8a9139e8439d9d7e26529c3c30b6c3fd89f8684cfd68ea0200000009ab53526500636a52ab599ac2fe02a526ed040000000008535300516352515164370e010000000003006300ab2ec229',
+    '',
+    2,
+    1864164639,
+    '31af167a6cf3f9d5f6875caa4d31704ceb0eba078d132b78dab52c3b8997317e'
+  ],
+  [
+    'a0aa3126041621a6dea5b800141aa696daf28408959dfb2df96095db9fa425ad3f427f2f6103000000015360290e9c6063fa26912c2e7fb6a0ad80f1c5fea1771d42f12976092e7a85a4229fdb6e890000000001abc109f6e47688ac0e4682988785744602b8c87228fcef0695085edf19088af1a9db126e93000000000665516aac536affffffff8fe53e0806e12dfd05d67ac68f4768fdbe23fc48ace22a5aa8ba04c96d58e2750300000009ac51abac63ab5153650524aa680455ce7b000000000000499e50030000000008636a00ac526563ac5051ee030000000003abacabd2b6fe000000000003516563910fb6b5',
+    '65',
+    0,
+    -1391424484,
+    '48d6a1bd2cd9eec54eb866fc71209418a950402b5d7e52363bfb75c98e141175'
+  ],
+  [
+    '6e7e9d4b04ce17afa1e8546b627bb8d89a6a7fefd9d892ec8a192d79c2ceafc01694a6a7e7030000000953ac6a51006353636a33bced1544f797f08ceed02f108da22cd24c9e7809a446c61eb3895914508ac91f07053a01000000055163ab516affffffff11dc54eee8f9e4ff0bcf6b1a1a35b1cd10d63389571375501af7444073bcec3c02000000046aab53514a821f0ce3956e235f71e4c69d91abe1e93fb703bd33039ac567249ed339bf0ba0883ef300000000090063ab65000065ac654bec3cc504bcf499020000000005ab6a52abac64eb060100000000076a6a5351650053bbbc130100000000056a6aab53abd6e1380100000000026a51c4e509b8',
+    'acab655151',
+    0,
+    479279909,
+    '2a3d95b09237b72034b23f2d2bb29fa32a58ab5c6aa72f6aafdfa178ab1dd01c'
+  ],
+  [
+    '73107cbd025c22ebc8c3e0a47b2a760739216a528de8d4dab5d45cbeb3051cebae73b01ca10200000007ab6353656a636affffffffe26816dffc670841e6a6c8c61c586da401df1261a330a6c6b3dd9f9a0789bc9e000000000800ac6552ac6aac51ffffffff0174a8f0010000000004ac52515100000000',
+    '5163ac63635151ac',
+    1,
+    1190874345,
+    '06e328de263a87b09beabe222a21627a6ea5c7f560030da31610c4611f4a46bc'
+  ],
+  [
+    'e93bbf6902be872933cb987fc26ba0f914fcfc2f6ce555258554dd9939d12032a8536c8802030000000453ac5353eabb6451e074e6fef9de211347d6a45900ea5aaf2636ef7967f565dce66fa451805c5cd10000000003525253ffffffff047dc3e6020000000007516565ac656aabec9eea010000000001633e46e600000000000015080a030000000001ab00000000',
+    '5300ac6a53ab6a',
+    1,
+    -886562767,
+    'f03aa4fc5f97e826323d0daa03343ebf8a34ed67a1ce18631f8b88e5c992e798'
+  ],
+  [
+    '50818f4c01b464538b1e7e7f5ae4ed96ad23c68c830e78da9a845bc19b5c3b0b20bb82e5e9030000000763526a63655352ffffffff023b3f9c040000000008630051516a6a5163a83caf01000000000553ab65510000000000',
+    '6aac',
+    0,
+    946795545,
+    '746306f322de2b4b58ffe7faae83f6a72433c22f88062cdde881d4dd8a5a4e2d'
+  ],
+  [
+    'a93e93440250f97012d466a6cc24839f572def241c814fe6ae94442cf58ea33eb0fdd9bcc1030000000600636a0065acffffffff5dee3a6e7e5ad6310dea3e5b3ddda1a56bf8de7d3b75889fc024b5e233ec10f80300000007ac53635253ab53ffffffff0160468b04000000000800526a5300ac526a00000000',
+    'ac00636a53',
+    1,
+    1773442520,
+    '5c9d3a2ce9365bb72cfabbaa4579c843bb8abf200944612cf8ae4b56a908bcbd'
+  ],
+  [
+    'ce7d371f0476dda8b811d4bf3b64d5f86204725deeaa3937861869d5b2766ea7d17c57e40b0100000003535265ffffffff7e7e9188f76c34a46d0bbe856bde5cb32f089a07a70ea96e15e92abb37e479a10100000006ab6552ab655225bcab06d1c2896709f364b1e372814d842c9c671356a1aa5ca4e060462c65ae55acc02d0000000006abac0063ac5281b33e332f96beebdbc6a379ebe6aea36af115c067461eb99d22ba1afbf59462b59ae0bd0200000004ab635365be15c23801724a1704000000000965006a65ac00000052ca555572',
+    '53ab530051ab',
+    1,
+    2030598449,
+    'c336b2f7d3702fbbdeffc014d106c69e3413c7c71e436ba7562d8a7a2871f181'
+  ],
+  [
+    'd3b7421e011f4de0f1cea9ba7458bf3486bee722519efab711a963fa8c100970cf7488b7bb0200000003525352dcd61b300148be5d05000000000000000000',
+    '535251536aac536a',
+    0,
+    -1960128125,
+    '29aa6d2d752d3310eba20442770ad345b7f6a35f96161ede5f07b33e92053e2a'
+  ],
+  [
+    '04bac8c5033460235919a9c63c42b2db884c7c8f2ed8fcd69ff683a0a2cccd9796346a04050200000003655351fcad3a2c5a7cbadeb4ec7acc9836c3f5c3e776e5c566220f7f965cf194f8ef98efb5e3530200000007526a006552526526a2f55ba5f69699ece76692552b399ba908301907c5763d28a15b08581b23179cb01eac03000000075363ab6a516351073942c2025aa98a05000000000765006aabac65abd7ffa6030000000004516a655200000000',
+    '53ac6365ac526a',
+    1,
+    764174870,
+    'bf5fdc314ded2372a0ad078568d76c5064bf2affbde0764c335009e56634481b'
+  ],
+  [
+    'c363a70c01ab174230bbe4afe0c3efa2d7f2feaf179431359adedccf30d1f69efe0c86ed390200000002ab51558648fe0231318b04000000000151662170000000000008ac5300006a63acac00000000',
+    '',
+    0,
+    2146479410,
+    '191ab180b0d753763671717d051f138d4866b7cb0d1d4811472e64de595d2c70'
+  ],
+  [
+    '8d437a7304d8772210a923fd81187c425fc28c17a5052571501db05c7e89b11448b36618cd02000000026a6340fec14ad2c9298fde1477f1e8325e5747b61b7e2ff2a549f3d132689560ab6c45dd43c3010000000963ac00ac000051516a447ed907a7efffebeb103988bf5f947fc688aab2c6a7914f48238cf92c337fad4a79348102000000085352ac526a5152517436edf2d80e3ef06725227c970a816b25d0b58d2cd3c187a7af2cea66d6b27ba69bf33a0300000007000063ab526553f3f0d6140386815d030000000003ab6300de138f00000000000900525153515265abac1f87040300000000036aac6500000000',
+    '51',
+    3,
+    -315779667,
+    'b6632ac53578a741ae8c36d8b69e79f39b89913a2c781cdf1bf47a8c29d997a5'
+  ],
+  [
+    'fd878840031e82fdbe1ad1d745d1185622b0060ac56638290ec4f66b1beef4450817114a2c0000000009516a63ab53650051abffffffff37b7a10322b5418bfd64fb09cd8a27ddf57731aeb1f1f920ffde7cb2dfb6cdb70300000008536a5365ac53515369ecc034f1594690dbe189094dc816d6d57ea75917de764cbf8eccce4632cbabe7e116cd0100000003515352ffffffff035777fc000000000003515200abe9140300000000050063005165bed6d10200000000076300536363ab65195e9110',
+    '635265',
+    0,
+    1729787658,
+    '6e3735d37a4b28c45919543aabcb732e7a3e1874db5315abb7cc6b143d62ff10'
+  ],
+  [
+    'f40a750702af06efff3ea68e5d56e42bc41cdb8b6065c98f1221fe04a325a898cb61f3d7ee030000000363acacffffffffb5788174aef79788716f96af779d7959147a0c2e0e5bfb6c2dba2df5b4b97894030000000965510065535163ac6affffffff0445e6fd0200000000096aac536365526a526aa6546b000000000008acab656a6552535141a0fd010000000000c897ea030000000008526500ab526a6a631b39dba3',
+    '00abab5163ac',
+    1,
+    -1778064747,
+    'd76d0fc0abfa72d646df888bce08db957e627f72962647016eeae5a8412354cf'
+  ],
+  [
+    'a63bc673049c75211aa2c09ecc38e360eaa571435fedd2af1116b5c1fa3d0629c269ecccbf0000000008ac65ab516352ac52ffffffffbf1a76fdda7f451a5f0baff0f9ccd0fe9136444c094bb8c544b1af0fa2774b06010000000463535253ffffffff13d6b7c3ddceef255d680d87181e100864eeb11a5bb6a3528cb0d70d7ee2bbbc02000000056a0052abab951241809623313b198bb520645c15ec96bfcc74a2b0f3db7ad61d455cc32db04afc5cc702000000016309c9ae25014d9473020000000004abab6aac3bb1e803',
+    '',
+    3,
+    -232881718,
+    '6e48f3da3a4ac07eb4043a232df9f84e110485d7c7669dd114f679c27d15b97e'
+  ],
+  [
+    '4c565efe04e7d32bac03ae358d63140c1cfe95de15e30c5b84f31bb0b65bb542d637f49e0f010000000551abab536348ae32b31c7d3132030a510a1b1aacf7b7c3f19ce8dc49944ef93e5fa5fe2d356b4a73a00100000009abac635163ac00ab514c8bc57b6b844e04555c0a4f4fb426df139475cd2396ae418bc7015820e852f711519bc202000000086a00510000abac52488ff4aec72cbcfcc98759c58e20a8d2d9725aa4a80f83964e69bc4e793a4ff25cd75dc701000000086a52ac6aac5351532ec6b10802463e0200000000000553005265523e08680100000000002f39a6b0',
+    '',
+    3,
+    70712784,
+    'c6076b6a45e6fcfba14d3df47a34f6aadbacfba107e95621d8d7c9c0e40518ed'
+  ],
+  [
+    '1233d5e703403b3b8b4dae84510ddfc126b4838dcb47d3b23df815c0b3a07b55bf3098110e010000000163c5c55528041f480f40cf68a8762d6ed3efe2bd402795d5233e5d94bf5ddee71665144898030000000965525165655151656affffffff6381667e78bb74d0880625993bec0ea3bd41396f2bcccc3cc097b240e5e92d6a01000000096363acac6a63536365ffffffff04610ad60200000000065251ab65ab52e90d680200000000046351516ae30e98010000000008abab52520063656a671856010000000004ac6aac514c84e383',
+    '6aabab636300',
+    1,
+    -114996813,
+    'aeb8c5a62e8a0b572c28f2029db32854c0b614dbecef0eaa726abebb42eebb8d'
+  ],
+  [
+    '0c69702103b25ceaed43122cc2672de84a3b9aa49872f2a5bb458e19a52f8cc75973abb9f102000000055365656aacffffffff3ffb1cf0f76d9e3397de0942038c856b0ebbea355dc9d8f2b06036e19044b0450100000000ffffffff4b7793f4169617c54b734f2cd905ed65f1ce3d396ecd15b6c426a677186ca0620200000008655263526551006a181a25b703240cce0100000000046352ab53dee22903000000000865526a6a516a51005e121602000000000852ab52ababac655200000000',
+    '6a516aab63',
+    1,
+    -2040012771,
+    'a6e6cb69f409ec14e10dd476f39167c29e586e99bfac93a37ed2c230fcc1dbbe'
+  ],
+  [
+    'fd22692802db8ae6ab095aeae3867305a954278f7c076c542f0344b2591789e7e33e4d29f4020000000151ffffffffb9409129cfed9d3226f3b6bab7a2c83f99f48d039100eeb5796f00903b0e5e5e0100000006656552ac63abd226abac0403e649000000000007abab51ac5100ac8035f10000000000095165006a63526a52510d42db030000000007635365ac6a63ab24ef5901000000000453ab6a0000000000',
+    '536a52516aac6a',
+    1,
+    309309168,
+    '7ca0f75e6530ec9f80d031fc3513ca4ecd67f20cb38b4dacc6a1d825c3cdbfdb'
+  ],
+  [
+    'a43f85f701ffa54a3cc57177510f3ea28ecb6db0d4431fc79171cad708a6054f6e5b4f89170000000008ac6a006a536551652bebeaa2013e779c05000000000665ac5363635100000000',
+    'ac',
+    0,
+    2028978692,
+    '58294f0d7f2e68fe1fd30c01764fe1619bcc7961d68968944a0e263af6550437'
+  ],
+  [
+    'c2b0b99001acfecf7da736de0ffaef8134a9676811602a6299ba5a2563a23bb09e8cbedf9300000000026300ffffffff042997c50300000000045252536a272437030000000007655353ab6363ac663752030000000002ab6a6d5c900000000000066a6a5265abab00000000',
+    '52ac525163515251',
+    0,
+    -894181723,
+    '8b300032a1915a4ac05cea2f7d44c26f2a08d109a71602636f15866563eaafdc'
+  ],
+  [
+    '82f9f10304c17a9d954cf3380db817814a8c738d2c811f0412284b2c791ec75515f38c4f8c020000000265ab5729ca7db1b79abee66c8a757221f29280d0681355cb522149525f36da760548dbd7080a0100000001510b477bd9ce9ad5bb81c0306273a3a7d051e053f04ecf3a1dbeda543e20601a5755c0cfae030000000451ac656affffffff71141a04134f6c292c2e0d415e6705dfd8dcee892b0d0807828d5aeb7d11f5ef0300000001520b6c6dc802a6f3dd0000000000056aab515163bfb6800300000000015300000000',
+    '',
+    3,
+    -635779440,
+    'd55ed1e6c53510f2608716c12132a11fb5e662ec67421a513c074537eeccc34b'
+  ],
+  [
+    '8edcf5a1014b604e53f0d12fe143cf4284f86dc79a634a9f17d7e9f8725f7beb95e8ffcd2403000000046aabac52ffffffff01c402b5040000000005ab6a63525100000000',
+    '6351525251acabab6a',
+    0,
+    1520147826,
+    '2765bbdcd3ebb8b1a316c04656b28d637f80bffbe9b040661481d3dc83eea6d6'
+  ],
+  [
+    '2074bad5011847f14df5ea7b4afd80cd56b02b99634893c6e3d5aaad41ca7c8ee8e5098df003000000026a6affffffff018ad59700000000000900ac656a526551635300000000',
+    '65635265',
+    0,
+    -1804671183,
+    '663c999a52288c9999bff36c9da2f8b78d5c61b8347538f76c164ccba9868d0a'
+  ],
+  [
+    '7100b11302e554d4ef249ee416e7510a485e43b2ba4b8812d8fe5529fe33ea75f36d392c4403000000020000ffffffff3d01a37e075e9a7715a657ae1bdf1e44b46e236ad16fd2f4c74eb9bf370368810000000007636553ac536365ffffffff01db696a0400000000065200ac656aac00000000',
+    '63005151',
+    0,
+    -1210499507,
+    'b9c3aee8515a4a3b439de1ffc9c156824bda12cb75bfe5bc863164e8fd31bd7a'
+  ],
+  [
+    '02c1017802091d1cb08fec512db7b012fe4220d57a5f15f9e7676358b012786e1209bcff950100000004acab6352ffffffff799bc282724a970a6fea1828984d0aeb0f16b67776fa213cbdc4838a2f1961a3010000000951516a536552ab6aabffffffff016c7b4b03000000000865abac5253ac5352b70195ad',
+    '65655200516a',
+    0,
+    -241626954,
+    'be567cb47170b34ff81c66c1142cb9d27f9b6898a384d6dfc4fce16b75b6cb14'
+  ],
+  [
+    'cb3178520136cd294568b83bb2520f78fecc507898f4a2db2674560d72fd69b9858f75b3b502000000066aac00515100ffffffff03ab005a01000000000563526363006e3836030000000001abfbda3200000000000665ab0065006500000000',
+    'ab516a0063006a5300',
+    0,
+    1182109299,
+    '2149e79c3f4513da4e4378608e497dcfdfc7f27c21a826868f728abd2b8a637a'
+  ],
+  [
+    '18a4b0c004702cf0e39686ac98aab78ad788308f1d484b1ddfe70dc1997148ba0e28515c310300000000ffffffff05275a52a23c59da91129093364e275da5616c4070d8a05b96df5a2080ef259500000000096aac51656a6aac53ab66e64966b3b36a07dd2bb40242dd4a3743d3026e7e1e0d9e9e18f11d068464b989661321030000000265ac383339c4fae63379cafb63b0bab2eca70e1f5fc7d857eb5c88ccd6c0465093924bba8b2a000000000300636ab5e0545402bc2c4c010000000000cd41c002000000000000000000',
+    'abac635253656a00',
+    3,
+    2052372230,
+    '32db877b6b1ca556c9e859442329406f0f8246706522369839979a9f7a235a32'
+  ],
+  [
+    '1d9c5df20139904c582285e1ea63dec934251c0f9cf5c47e86abfb2b394ebc57417a81f67c010000000353515222ba722504800d3402000000000353656a3c0b4a0200000000000fb8d20500000000076300ab005200516462f30400000000015200000000',
+    'ab65',
+    0,
+    -210854112,
+    'edf73e2396694e58f6b619f68595b0c1cdcb56a9b3147845b6d6afdb5a80b736'
+  ],
+  [
+    '4504cb1904c7a4acf375ddae431a74de72d5436efc73312cf8e9921f431267ea6852f9714a01000000066a656a656553a2fbd587c098b3a1c5bd1d6480f730a0d6d9b537966e20efc0e352d971576d0f87df0d6d01000000016321aeec3c4dcc819f1290edb463a737118f39ab5765800547522708c425306ebfca3f396603000000055300ac656a1d09281d05bfac57b5eb17eb3fa81ffcedfbcd3a917f1be0985c944d473d2c34d245eb350300000007656a51525152ac263078d9032f470f0500000000066aac00000052e12da60200000000003488410200000000076365006300ab539981e432',
+    '52536a52526a',
+    1,
+    -31909119,
+    'f0a2deee7fd8a3a9fad6927e763ded11c940ee47e9e6d410f94fda5001f82e0c'
+  ],
+  [
+    '14bc7c3e03322ec0f1311f4327e93059c996275302554473104f3f7b46ca179bfac9ef753503000000016affffffff9d405eaeffa1ca54d9a05441a296e5cc3a3e32bb8307afaf167f7b57190b07e00300000008abab51ab5263abab45533aa242c61bca90dd15d46079a0ab0841d85df67b29ba87f2393cd764a6997c372b55030000000452005263ffffffff0250f40e02000000000651516a0063630e95ab0000000000046a5151ac00000000',
+    '6a65005151',
+    0,
+    -1460947095,
+    'aa418d096929394c9147be8818d8c9dafe6d105945ab9cd7ec682df537b5dd79'
+  ],
+  [
+    '2b3bd0dd04a1832f893bf49a776cd567ec4b43945934f4786b615d6cb850dfc0349b33301a000000000565ac000051cf80c670f6ddafab63411adb4d91a69c11d9ac588898cbfb4cb16061821cc104325c895103000000025163ffffffffa9e2d7506d2d7d53b882bd377bbcc941f7a0f23fd15d2edbef3cd9df8a4c39d10200000009ac63006a52526a5265ffffffff44c099cdf10b10ce87d4b38658d002fd6ea17ae4a970053c05401d86d6e75f99000000000963ab53526a5252ab63ffffffff035af69c01000000000100ba9b8b0400000000004cead10500000000026a520b77d667',
+    'ab52abac526553',
+    3,
+    -1955078165,
+    'eb9ceecc3b401224cb79a44d23aa8f428e29f1405daf69b4e01910b848ef1523'
+  ],
+  [
+    '35df11f004a48ba439aba878fe9df20cc935b4a761c262b1b707e6f2b33e2bb7565cd68b130000000000ffffffffb2a2f99abf64163bb57ca900500b863f40c02632dfd9ea2590854c5fb4811da90200000006ac006363636affffffffaf9d89b2a8d2670ca37c8f7c140600b81259f2e037cb4590578ec6e37af8bf200000000005abac6a655270a4751eb551f058a93301ffeda2e252b6614a1fdd0e283e1d9fe53c96c5bbaafaac57b8030000000153ffffffff020d9f3b02000000000100ed7008030000000004abac000000000000',
+    'abac',
+    3,
+    593793071,
+    '88fdee1c2d4aeead71d62396e28dc4d00e5a23498eea66844b9f5d26d1f21042'
+  ],
+  [
+    'a08ff466049fb7619e25502ec22fedfb229eaa1fe275aa0b5a23154b318441bf547989d0510000000005ab5363636affffffff2b0e335cb5383886751cdbd993dc0720817745a6b1c9b8ab3d15547fc9aafd03000000000965656a536a52656a532b53d10584c290d3ac1ab74ab0a19201a4a039cb59dc58719821c024f6bf2eb26322b33f010000000965ac6aac0053ab6353ffffffff048decba6ebbd2db81e416e39dde1f821ba69329725e702bcdea20c5cc0ecc6402000000086363ab5351ac6551466e377b0468c0fa00000000000651ab53ac6a513461c6010000000008636a636365535100eeb3dc010000000006526a52ac516a43f362010000000005000063536500000000',
+    '0063516a',
+    1,
+    -1158911348,
+    'f6a1ecb50bd7c2594ebecea5a1aa23c905087553e40486dade793c2f127fdfae'
+  ],
+  [
+    '5ac2f17d03bc902e2bac2469907ec7d01a62b5729340bc58c343b7145b66e6b97d434b30fa000000000163ffffffff44028aa674192caa0d0b4ebfeb969c284cb16b80c312d096efd80c6c6b094cca000000000763acabac516a52ffffffff10c809106e04b10f9b43085855521270fb48ab579266e7474657c6c625062d2d030000000351636595a0a97004a1b69603000000000465ab005352ad68010000000008636a5263acac5100da7105010000000002acab90325200000000000000000000',
+    '6a6aab516a63526353',
+    2,
+    1518400956,
+    'f7efb74b1dcc49d316b49c632301bc46f98d333c427e55338be60c7ef0d953be'
+  ],
+  [
+    'aeb2e11902dc3770c218b97f0b1960d6ee70459ecb6a95eff3f05295dc1ef4a0884f10ba460300000005516352526393e9b1b3e6ae834102d699ddd3845a1e159aa7cf7635edb5c02003f7830fee3788b795f20100000009ab006a526553ac006ad8809c570469290e0400000000050000abab00b10fd5040000000008ab655263abac53ab630b180300000000009d9993040000000002516300000000',
+    '5351ababac6a65',
+    0,
+    1084852870,
+    'f2286001af0b0170cbdad92693d0a5ebaa8262a4a9d66e002f6d79a8c94026d1'
+  ],
+  [
+    '9860ca9a0294ff4812534def8c3a3e3db35b817e1a2ddb7f0bf673f70eab71bb79e90a2f3100000000086a636551acac5165ffffffffed4d6d3cd9ff9b2d490e0c089739121161a1445844c3e204296816ab06e0a83702000000035100ac88d0db5201c3b59a050000000005ac6a0051ab00000000',
+    '535263ab006a526aab',
+    1,
+    -962088116,
+    '30df2473e1403e2b8e637e576825f785528d998af127d501556e5f7f5ed89a2a'
+  ],
+  [
+    '4ddaa680026ec4d8060640304b86823f1ac760c260cef81d85bd847952863d629a3002b54b0200000008526365636a656aab65457861fc6c24bdc760c8b2e906b6656edaf9ed22b5f50e1fb29ec076ceadd9e8ebcb6b000000000152ffffffff033ff04f00000000000551526a00657a1d900300000000002153af040000000003006a6300000000',
+    'ab526a53acabab',
+    0,
+    1055317633,
+    '7f21b62267ed52462e371a917eb3542569a4049b9dfca2de3c75872b39510b26'
+  ],
+  [
+    '01e76dcd02ad54cbc8c71d68eaf3fa7c883b65d74217b30ba81f1f5144ef80b706c0dc82ca000000000352ab6a078ec18bcd0514825feced2e8b8ea1ccb34429fae41c70cc0b73a2799e85603613c6870002000000086363ab6365536a53ffffffff043acea90000000000016ad20e1803000000000100fa00830200000000056352515351e864ee00000000000865535253ab6a6551d0c46672',
+    '6a6365abacab',
+    0,
+    -1420559003,
+    '8af0b4cbdbc011be848edf4dbd2cde96f0578d662cfebc42252495387114224a'
+  ],
+  [
+    'fa00b26402670b97906203434aa967ce1559d9bd097d56dbe760469e6032e7ab61accb54160100000006635163630052fffffffffe0d3f4f0f808fd9cfb162e9f0c004601acf725cd7ea5683bbdc9a9a433ef15a0200000005ab52536563d09c7bef049040f305000000000153a7c7b9020000000004ac63ab52847a2503000000000553ab00655390ed80010000000005006553ab52860671d4',
+    '536565ab52',
+    0,
+    799022412,
+    '40ed8e7bbbd893e15f3cce210ae02c97669818de5946ca37eefc7541116e2c78'
+  ],
+  [
+    'cb5c06dc01b022ee6105ba410f0eb12b9ce5b5aa185b28532492d839a10cef33d06134b91b010000000153ffffffff02cec0530400000000005e1e4504000000000865656551acacac6a00000000',
+    'ab53',
+    0,
+    -1514251329,
+    '136beb95459fe6b126cd6cefd54eb5d971524b0e883e41a292a78f78015cb8d5'
+  ],
+  [
+    'f10a0356031cd569d652dbca8e7a4d36c8da33cdff428d003338602b7764fe2c96c505175b010000000465ac516affffffffbb54563c71136fa944ee20452d78dc87073ac2365ba07e638dce29a5d179da600000000003635152ffffffff9a411d8e2d421b1e6085540ee2809901e590940bbb41532fa38bd7a16b68cc350100000007535251635365636195df1603b61c45010000000002ab65bf6a310400000000026352fcbba10200000000016aa30b7ff0',
+    '5351',
+    0,
+    1552495929,
+    '9eb8adf2caecb4bf9ac59d7f46bd20e83258472db2f569ee91aba4cf5ee78e29'
+  ],
+  [
+    'c3325c9b012f659466626ca8f3c61dfd36f34670abc054476b7516a1839ec43cd0870aa0c0000000000753525265005351e7e3f04b0112650500000000000363ac6300000000',
+    'acac',
+    0,
+    -68961433,
+    '5ca70e727d91b1a42b78488af2ed551642c32d3de4712a51679f60f1456a8647'
+  ],
+  [
+    '2333e54c044370a8af16b9750ac949b151522ea6029bacc9a34261599549581c7b4e5ece470000000007510052006563abffffffff80630fc0155c750ce20d0ca4a3d0c8e8d83b014a5b40f0b0be0dd4c63ac28126020000000465000000ffffffff1b5f1433d38cdc494093bb1d62d84b10abbdae57e3d04e82e600857ab3b1dc990300000003515100b76564be13e4890a908ea7508afdad92ec1b200a9a67939fadce6eb7a29eb4550a0a28cb0300000001acffffffff02926c930300000000016373800201000000000153d27ee740',
+    'ab6365ab516a53',
+    3,
+    598653797,
+    '2be27a686eb7940dd32c44ff3a97c1b28feb7ab9c5c0b1593b2d762361cfc2db'
+  ],
+  [
+    'b500ca48011ec57c2e5252e5da6432089130603245ffbafb0e4c5ffe6090feb629207eeb0e010000000652ab6a636aab8302c9d2042b44f40500000000015278c05a050000000004ac5251524be080020000000007636aac63ac5252c93a9a04000000000965ab6553636aab5352d91f9ddb',
+    '52005100',
+    0,
+    -2024394677,
+    '49c8a6940a461cc7225637f1e512cdd174c99f96ec05935a59637ededc77124c'
+  ],
+  [
+    'f52ff64b02ee91adb01f3936cc42e41e1672778962b68cf013293d649536b519bc3271dd2c00000000020065afee11313784849a7c15f44a61cd5fd51ccfcdae707e5896d131b082dc9322a19e12858501000000036aac654e8ca882022deb7c020000000006006a515352abd3defc0000000000016300000000',
+    '63520063',
+    0,
+    1130989496,
+    '7f208df9a5507e98c62cebc5c1e2445eb632e95527594929b9577b53363e96f6'
+  ],
+  [
+    'ab7d6f36027a7adc36a5cf7528fe4fb5d94b2c96803a4b38a83a675d7806dda62b380df86a0000000003000000ffffffff5bc00131e29e22057c04be854794b4877dda42e416a7a24706b802ff9da521b20000000007ac6a0065ac52ac957cf45501b9f06501000000000500ac6363ab25f1110b',
+    '00526500536a635253',
+    0,
+    911316637,
+    '5fa09d43c8aef6f6fa01c383a69a5a61a609cd06e37dce35a39dc9eae3ddfe6c'
+  ],
+  [
+    'f940888f023dce6360263c850372eb145b864228fdbbb4c1186174fa83aab890ff38f8c9a90300000000ffffffff01e80ccdb081e7bbae1c776531adcbfb77f2e5a7d0e5d0d0e2e6c8758470e85f00000000020053ffffffff03b49088050000000004656a52ab428bd604000000000951630065ab63ac636a0cbacf0400000000070063ac5265ac53d6e16604',
+    'ac63',
+    0,
+    39900215,
+    '713ddeeefcfe04929e7b6593c792a4efbae88d2b5280d1f0835d2214eddcbad6'
+  ],
+  [
+    '530ecd0b01ec302d97ef6f1b5a6420b9a239714013e20d39aa3789d191ef623fc215aa8b940200000005ac5351ab6a3823ab8202572eaa04000000000752ab6a51526563fd8a270100000000036a006581a798f0',
+    '525153656a0063',
+    0,
+    1784562684,
+    'fe42f73a8742676e640698222b1bd6b9c338ff1ccd766d3d88d7d3c6c6ac987e'
+  ],
+  [
+    '5d781d9303acfcce964f50865ddfddab527ea971aee91234c88e184979985c00b4de15204b0100000003ab6352a009c8ab01f93c8ef2447386c434b4498538f061845862c3f9d5751ad0fce52af442b3a902000000045165ababb909c66b5a3e7c81b3c45396b944be13b8aacfc0204f3f3c105a66fa8fa6402f1b5efddb01000000096a65ac636aacab656ac3c677c402b79fa4050000000004006aab5133e35802000000000751ab635163ab0078c2e025',
+    '6aac51636a6a005265',
+    0,
+    -882306874,
+    '551ce975d58647f10adefb3e529d9bf9cda34751627ec45e690f135ef0034b95'
+  ],
+  [
+    '25ee54ef0187387564bb86e0af96baec54289ca8d15e81a507a2ed6668dc92683111dfb7a50100000004005263634cecf17d0429aa4d000000000007636a6aabab5263daa75601000000000251ab4df70a01000000000151980a890400000000065253ac6a006377fd24e3',
+    '65ab',
+    0,
+    797877378,
+    '069f38fd5d47abff46f04ee3ae27db03275e9aa4737fa0d2f5394779f9654845'
+  ],
+  [
+    'a9c57b1a018551bcbc781b256642532bbc09967f1cbe30a227d352a19365d219d3f11649a3030000000451655352b140942203182894030000000006ab00ac6aab654add350400000000003d379505000000000553abacac00e1739d36',
+    '5363',
+    0,
+    -1069721025,
+    '6da32416deb45a0d720a1dbe6d357886eabc44029dd5db74d50feaffbe763245'
+  ],
+  [
+    '05c4fb94040f5119dc0b10aa9df054871ed23c98c890f1e931a98ffb0683dac45e98619fdc0200000007acab6a525263513e7495651c9794c4d60da835d303eb4ee6e871f8292f6ad0b32e85ef08c9dc7aa4e03c9c010000000500ab52acacfffffffffee953259cf14ced323fe8d567e4c57ba331021a1ef5ac2fa90f7789340d7c550100000007ac6aacac6a6a53ffffffff08d9dc820d00f18998af247319f9de5c0bbd52a475ea587f16101af3afab7c210100000003535363569bca7c0468e34f00000000000863536353ac51ac6584e319010000000006650052ab6a533debea030000000003ac0053ee7070020000000006ac52005253ac00000000',
+    '6351005253',
+    2,
+    1386916157,
+    '76c4013c40bfa1481badd9d342b6d4b8118de5ab497995fafbf73144469e5ff0'
+  ],
+  [
+    'c95ab19104b63986d7303f4363ca8f5d2fa87c21e3c5d462b99f1ebcb7c402fc012f5034780000000009006aac63ac65655265ffffffffbe91afa68af40a8700fd579c86d4b706c24e47f7379dad6133de389f815ef7f501000000046aac00abffffffff1520db0d81be4c631878494668d258369f30b8f2b7a71e257764e9a27f24b48701000000076a515100535300b0a989e1164db9499845bac01d07a3a7d6d2c2a76e4c04abe68f808b6e2ef5068ce6540e0100000009ac53636a63ab65656affffffff0309aac6050000000005ab6563656a6067e8020000000003ac536aec91c8030000000009655251ab65ac6a53acc7a45bc5',
+    '63526a65abac',
+    1,
+    512079270,
+    'fb7eca81d816354b6aedec8cafc721d5b107336657acafd0d246049556f9e04b'
+  ],
+  [
+    'ca66ae10049533c2b39f1449791bd6d3f039efe0a121ab7339d39ef05d6dcb200ec3fb2b3b020000000465006a53ffffffff534b8f97f15cc7fb4f4cea9bf798472dc93135cd5b809e4ca7fe4617a61895980100000000ddd83c1dc96f640929dd5e6f1151dab1aa669128591f153310d3993e562cc7725b6ae3d903000000046a52536582f8ccddb8086d8550f09128029e1782c3f2624419abdeaf74ecb24889cc45ac1a64492a0100000002516a4867b41502ee6ccf03000000000752acacab52ab6a4b7ba80000000000075151ab0052536300000000',
+    '6553',
+    2,
+    -62969257,
+    '8085e904164ab9a8c20f58f0d387f6adb3df85532e11662c03b53c3df8c943cb'
+  ],
+  [
+    'ba646d0b0453999f0c70cb0430d4cab0e2120457bb9128ed002b6e9500e9c7f8d7baa20abe0200000001652a4e42935b21db02b56bf6f08ef4be5adb13c38bc6a0c3187ed7f6197607ba6a2c47bc8a03000000040052516affffffffa55c3cbfc19b1667594ac8681ba5d159514b623d08ed4697f56ce8fcd9ca5b0b00000000096a6a5263ac655263ab66728c2720fdeabdfdf8d9fb2bfe88b295d3b87590e26a1e456bad5991964165f888c03a0200000006630051ac00acffffffff0176fafe0100000000070063acac65515200000000',
+    '63',
+    1,
+    2002322280,
+    '9db4e320208185ee70edb4764ee195deca00ba46412d5527d9700c1cf1c3d057'
+  ],
+  [
+    '2ddb8f84039f983b45f64a7a79b74ff939e3b598b38f436def7edd57282d0803c7ef34968d02000000026a537eb00c4187de96e6e397c05f11915270bcc383959877868ba93bac417d9f6ed9f627a7930300000004516551abffffffffacc12f1bb67be3ae9f1d43e55fda8b885340a0df1175392a8bbd9f959ad3605003000000025163ffffffff02ff0f4700000000000070bd99040000000003ac53abf8440b42',
+    '',
+    2,
+    -393923011,
+    '0133f1a161363b71dfb3a90065c7128c56bd0028b558b610142df79e055ab5c7'
+  ],
+  [
+    'b21fc15403b4bdaa994204444b59323a7b8714dd471bd7f975a4e4b7b48787e720cbd1f5f00000000000ffffffff311533001cb85c98c1d58de0a5fbf27684a69af850d52e22197b0dc941bc6ca9030000000765ab6363ab5351a8ae2c2c7141ece9a4ff75c43b7ea9d94ec79b7e28f63e015ac584d984a526a73fe1e04e0100000007526352536a5365ffffffff02a0a9ea030000000002ab52cfc4f300000000000465525253e8e0f342',
+    '000000',
+    1,
+    1305253970,
+    'd1df1f4bba2484cff8a816012bb6ec91c693e8ca69fe85255e0031711081c46a'
+  ],
+  [
+    'd1704d6601acf710b19fa753e307cfcee2735eada0d982b5df768573df690f460281aad12d0000000007656300005100acffffffff0232205505000000000351ab632ca1bc0300000000016300000000',
+    'ac65ab65ab51',
+    0,
+    165179664,
+    '40b4f03c68288bdc996011b0f0ddb4b48dc3be6762db7388bdc826113266cd6c'
+  ],
+  [
+    'd2f6c096025cc909952c2400bd83ac3d532bfa8a1f8f3e73c69b1fd7b8913379793f3ce92202000000076a00ab6a53516ade5332d81d58b22ed47b2a249ab3a2cb3a6ce9a6b5a6810e18e3e1283c1a1b3bd73e3ab00300000002acabffffffff01a9b2d40500000000056352abab00dc4b7f69',
+    'ab0065',
+    0,
+    -78019184,
+    '2ef025e907f0fa454a2b48a4f3b81346ba2b252769b5c35d742d0c8985e0bf5e'
+  ],
+  [
+    '3e6db1a1019444dba461247224ad5933c997256d15c5d37ade3d700506a0ba0a57824930d7010000000852ab6500ab00ac00ffffffff03389242020000000001aba8465a0200000000086a6a636a5100ab52394e6003000000000953ac51526351000053d21d9800',
+    'abababacab53ab65',
+    0,
+    1643661850,
+    '1f8a3aca573a609f4aea0c69522a82fcb4e15835449da24a05886ddc601f4f6a'
+  ],
+  [
+    'f821a042036ad43634d29913b77c0fc87b4af593ac86e9a816a9d83fd18dfcfc84e1e1d57102000000076a63ac52006351ffffffffbcdaf490fc75086109e2f832c8985716b3a624a422cf9412fe6227c10585d21203000000095252abab5352ac526affffffff2efed01a4b73ad46c7f7bc7fa3bc480f8e32d741252f389eaca889a2e9d2007e000000000353ac53ffffffff032ac8b3020000000009636300000063516300d3d9f2040000000006510065ac656aafa5de0000000000066352ab5300ac9042b57d',
+    '525365',
+    1,
+    667065611,
+    '0d17a92c8d5041ba09b506ddf9fd48993be389d000aad54f9cc2a44fcc70426b'
+  ],
+  [
+    '58e3f0f704a186ef55d3919061459910df5406a9121f375e7502f3be872a449c3f2bb058380100000000f0e858da3ac57b6c973f889ad879ffb2bd645e91b774006dfa366c74e2794aafc8bbc871010000000751ac65516a515131a68f120fd88ca08687ceb4800e1e3fbfea7533d34c84fef70cc5a96b648d580369526d000000000600ac00515363f6191d5b3e460fa541a30a6e83345dedfa3ed31ad8574d46d7bbecd3c9074e6ba5287c24020000000151e3e19d6604162602010000000004005100ac71e17101000000000065b5e90300000000040053ab53f6b7d101000000000200ac00000000',
+    '6563ab',
+    1,
+    -669018604,
+    '8221d5dfb75fc301a80e919e158e0b1d1e86ffb08870a326c89408d9bc17346b'
+  ],
+  [
+    'efec1cce044a676c1a3d973f810edb5a9706eb4cf888a240f2b5fb08636bd2db482327cf500000000005ab51656a52ffffffff46ef019d7c03d9456e5134eb0a7b5408d274bd8e33e83df44fab94101f7c5b650200000009ac5100006353630051407aadf6f5aaffbd318fdbbc9cae4bd883e67d524df06bb006ce2f7c7e2725744afb76960100000005536aab53acec0d64eae09e2fa1a7c4960354230d51146cf6dc45ee8a51f489e20508a785cbe6ca86fc000000000651536a516300ffffffff014ef598020000000006636aac655265a6ae1b75',
+    '53516a5363526563ab',
+    2,
+    -1823982010,
+    '13e8b5ab4e5b2ceeff0045c625e19898bda2d39fd7af682e2d1521303cfe1154'
+  ],
+  [
+    '3c436c2501442a5b700cbc0622ee5143b34b1b8021ea7bbc29e4154ab1f5bdfb3dff9d640501000000086aab5251ac5252acffffffff0170b9a20300000000066aab6351525114b13791',
+    '63acabab52ab51ac65',
+    0,
+    -2140612788,
+    '87ddf1f9acb6640448e955bd1968f738b4b3e073983af7b83394ab7557f5cd61'
+  ],
+  [
+    'd62f183e037e0d52dcf73f9b31f70554bce4f693d36d17552d0e217041e01f15ad3840c838000000000963acac6a6a6a63ab63ffffffffabdfb395b6b4e63e02a763830f536fc09a35ff8a0cf604021c3c751fe4c88f4d0300000006ab63ab65ac53aa4d30de95a2327bccf9039fb1ad976f84e0b4a0936d82e67eafebc108993f1e57d8ae39000000000165ffffffff04364ad30500000000036a005179fd84010000000007ab636aac6363519b9023030000000008510065006563ac6acd2a4a02000000000000000000',
+    '52',
+    1,
+    595020383,
+    'da8405db28726dc4e0f82b61b2bfd82b1baa436b4e59300305cc3b090b157504'
+  ],
+  [
+    '44c200a5021238de8de7d80e7cce905606001524e21c8d8627e279335554ca886454d692e6000000000500acac52abbb8d1dc876abb1f514e96b21c6e83f429c66accd961860dc3aed5071e153e556e6cf076d02000000056553526a51870a928d0360a580040000000004516a535290e1e302000000000851ab6a00510065acdd7fc5040000000007515363ab65636abb1ec182',
+    '6363',
+    0,
+    -785766894,
+    'ed53cc766cf7cb8071cec9752460763b504b2183442328c5a9761eb005c69501'
+  ],
+  [
+    'd682d52d034e9b062544e5f8c60f860c18f029df8b47716cabb6c1b4a4b310a0705e754556020000000400656a0016eeb88eef6924fed207fba7ddd321ff3d84f09902ff958c815a2bf2bb692eb52032c4d803000000076365ac516a520099788831f8c8eb2552389839cfb81a9dc55ecd25367acad4e03cfbb06530f8cccf82802701000000085253655300656a53ffffffff02d543200500000000056a510052ac03978b05000000000700ac51525363acfdc4f784',
+    '',
+    2,
+    -696035135,
+    'e1a256854099907050cfee7778f2018082e735a1f1a3d91437584850a74c87bb'
+  ],
+  [
+    'e8c0dec5026575ddf31343c20aeeca8770afb33d4e562aa8ee52eeda6b88806fdfd4fe0a97030000000953acabab65ab516552ffffffffdde122c2c3e9708874286465f8105f43019e837746686f442666629088a970e0010000000153ffffffff01f98eee0100000000025251fe87379a',
+    '63',
+    1,
+    633826334,
+    'abe441209165d25bc6d8368f2e7e7dc21019056719fef1ace45542aa2ef282e2'
+  ],
+  [
+    'b288c331011c17569293c1e6448e33a64205fc9dc6e35bc756a1ac8b97d18e912ea88dc0770200000007635300ac6aacabfc3c890903a3ccf8040000000004656500ac9c65c9040000000009ab6a6aabab65abac63ac5f7702000000000365005200000000',
+    '526a63',
+    0,
+    1574937329,
+    '0dd1bd5c25533bf5f268aa316ce40f97452cca2061f0b126a59094ca5b65f7a0'
+  ],
+  [
+    'fc0a092003cb275fa9a25a72cf85d69c19e4590bfde36c2b91cd2c9c56385f51cc545530210000000004ab530063ffffffff729b006eb6d14d6e5e32b1c376acf1c62830a5d9246da38dbdb4db9f51fd1c74020000000463636500ffffffff0ae695c6d12ab7dcb8d3d4b547b03f178c7268765d1de9af8523d244e3836b12030000000151ffffffff0115c1e20100000000066a6aabac6a6a1ff59aec',
+    'ab0053ac',
+    0,
+    931831026,
+    '73fe22099c826c34a74edf45591f5d7b3a888c8178cd08facdfd96a9a681261c'
+  ],
+  [
+    '0fcae7e004a71a4a7c8f66e9450c0c1785268679f5f1a2ee0fb3e72413d70a9049ecff75de020000000452005251ffffffff99c8363c4b95e7ec13b8c017d7bb6e80f7c04b1187d6072961e1c2479b1dc0320200000000ffffffff7cf03b3d66ab53ed740a70c5c392b84f780fff5472aee82971ac3bfeeb09b2df0200000006ab5265636a0058e4fe9257d7c7c7e82ff187757c6eadc14cceb6664dba2de03a018095fd3006682a5b9600000000056353536a636de26b2303ff76de010000000001acdc0a2e020000000001ab0a53ed020000000007530063ab51510088417307',
+    'ac6aacab5165535253',
+    2,
+    -902160694,
+    'eea96a48ee572aea33d75d0587ce954fcfb425531a7da39df26ef9a6635201be'
+  ],
+  [
+    '612701500414271138e30a46b7a5d95c70c78cc45bf8e40491dac23a6a1b65a51af04e6b94020000000451655153ffffffffeb72dc0e49b2fad3075c19e1e6e4b387f1365dca43d510f6a02136318ddecb7f0200000003536352e115ffc4f9bae25ef5baf534a890d18106fb07055c4d7ec9553ba89ed1ac2101724e507303000000080063006563acabac2ff07f69a080cf61a9d19f868239e6a4817c0eeb6a4f33fe254045d8af2bca289a8695de0300000000430736c404d317840500000000086a00abac5351ab65306e0503000000000963ab0051536aabab6a6c8aca01000000000565516351ab5dcf960100000000016a00000000',
+    'ab',
+    2,
+    -604581431,
+    '5ec805e74ee934aa815ca5f763425785ae390282d46b5f6ea076b6ad6255a842'
+  ],
+  [
+    '6b68ba00023bb4f446365ea04d68d48539aae66f5b04e31e6b38b594d2723ab82d44512460000000000200acffffffff5dfc6febb484fff69c9eeb7c7eb972e91b6d949295571b8235b1da8955f3137b020000000851ac6352516a535325828c8a03365da801000000000800636aabac6551ab0f594d03000000000963ac536365ac63636a45329e010000000005abac53526a00000000',
+    '005151',
+    0,
+    1317038910,
+    '42f5ba6f5fe1e00e652a08c46715871dc4b40d89d9799fd7c0ea758f86eab6a7'
+  ],
+  [
+    'aff5850c0168a67296cc790c1b04a9ed9ad1ba0469263a9432fcb53676d1bb4e0eea8ea1410100000005ac65526a537d5fcb1d01d9c26d0200000000065265ab5153acc0617ca1',
+    '51ab650063',
+    0,
+    1712981774,
+    '8449d5247071325e5f8edcc93cb9666c0fecabb130ce0e5bef050575488477eb'
+  ],
+  [
+    'e6d6b9d8042c27aec99af8c12b6c1f7a80453e2252c02515e1f391da185df0874e133696b50300000006ac5165650065ffffffff6a4b60a5bfe7af72b198eaa3cde2e02aa5fa36bdf5f24ebce79f6ecb51f3b554000000000652656aababac2ec4c5a6cebf86866b1fcc4c5bd5f4b19785a8eea2cdfe58851febf87feacf6f355324a80100000001537100145149ac1e287cef62f6f5343579189fad849dd33f25c25bfca841cb696f10c5a34503000000046a636a63df9d7c4c018d96e20100000000015100000000',
+    '53ab',
+    1,
+    -1924777542,
+    'f98f95d0c5ec3ac3e699d81f6c440d2e7843eab15393eb023bc5a62835d6dcea'
+  ],
+  [
+    '046ac25e030a344116489cc48025659a363da60bc36b3a8784df137a93b9afeab91a04c1ed020000000951ab0000526a65ac51ffffffff6c094a03869fde55b9a8c4942a9906683f0a96e2d3e5a03c73614ea3223b2c29020000000500ab636a6affffffff3da7aa5ecef9071600866267674b54af1740c5aeb88a290c459caa257a2683cb0000000004ab6565ab7e2a1b900301b916030000000005abac63656308f4ed03000000000852ab53ac63ac51ac73d620020000000003ab00008deb1285',
+    '6a',
+    2,
+    1299505108,
+    'f79e6b776e2592bad45ca328c54abf14050c241d8f822d982c36ea890fd45757'
+  ],
+  [
+    'bd515acd0130b0ac47c2d87f8d65953ec7d657af8d96af584fc13323d0c182a2e5f9a96573000000000652ac51acac65ffffffff0467aade000000000003655363dc577d050000000006515252ab5300137f60030000000007535163530065004cdc860500000000036a5265241bf53e',
+    'acab',
+    0,
+    621090621,
+    '771d4d87f1591a13d77e51858c16d78f1956712fe09a46ff1abcabbc1e7af711'
+  ],
+  [
+    'ff1ae37103397245ac0fa1c115b079fa20930757f5b6623db3579cb7663313c2dc4a3ffdb300000000076353656a000053ffffffff83c59e38e5ad91216ee1a312d15b4267bae2dd2e57d1a3fd5c2f0f809eeb5d46010000000800abab6a6a53ab51ffffffff9d5e706c032c1e0ca75915f8c6686f64ec995ebcd2539508b7dd8abc3e4d7d2a01000000006b2bdcda02a8fe070500000000045253000019e31d04000000000700ab63acab526a00000000',
+    '53656aab6a525251',
+    0,
+    881938872,
+    '726bb88cdf3af2f7603a31f33d2612562306d08972a4412a55dbbc0e3363721c'
+  ],
+  [
+    'ff5400dd02fec5beb9a396e1cbedc82bedae09ed44bae60ba9bef2ff375a6858212478844b03000000025253ffffffff01e46c203577a79d1172db715e9cc6316b9cfc59b5e5e4d9199fef201c6f9f0f000000000900ab6552656a5165acffffffff02e8ce62040000000002515312ce3e00000000000251513f119316',
+    '',
+    0,
+    1541581667,
+    '1e0da47eedbbb381b0e0debbb76e128d042e02e65b11125e17fd127305fc65cd'
+  ],
+  [
+    '28e3daa603c03626ad91ffd0ff927a126e28d29db5012588b829a06a652ea4a8a5732407030200000004ab6552acffffffff8e643146d3d0568fc2ad854fd7864d43f6f16b84e395db82b739f6f5c84d97b40000000004515165526b01c2dc1469db0198bd884e95d8f29056c48d7e74ff9fd37a9dec53e44b8769a6c99c030200000009ab006a516a53630065eea8738901002398000000000007ac5363516a51abeaef12f5',
+    '52ab52515253ab',
+    2,
+    1687390463,
+    '55591346aec652980885a558cc5fc2e3f8d21cbd09f314a798e5a7ead5113ea6'
+  ],
+  [
+    'b54bf5ac043b62e97817abb892892269231b9b220ba08bc8dbc570937cd1ea7cdc13d9676c010000000451ab5365a10adb7b35189e1e8c00b86250f769319668189b7993d6bdac012800f1749150415b2deb0200000003655300ffffffff60b9f4fb9a7e17069fd00416d421f804e2ef2f2c67de4ca04e0241b9f9c1cc5d0200000003ab6aacfffffffff048168461cce1d40601b42fbc5c4f904ace0d35654b7cc1937ccf53fe78505a0100000008526563525265abacffffffff01dbf4e6040000000007acac656553636500000000',
+    '63',
+    2,
+    882302077,
+    'f5b38b0f06e246e47ce622e5ee27d5512c509f8ac0e39651b3389815eff2ab93'
+  ],
+  [
+    'ebf628b30360bab3fa4f47ce9e0dcbe9ceaf6675350e638baff0c2c197b2419f8e4fb17e16000000000452516365ac4d909a79be207c6e5fb44fbe348acc42fc7fe7ef1d0baa0e4771a3c4a6efdd7e2c118b0100000003acacacffffffffa6166e9101f03975721a3067f1636cc390d72617be72e5c3c4f73057004ee0ee010000000863636a6a516a5252c1b1e82102d8d54500000000000153324c900400000000015308384913',
+    '0063516a51',
+    1,
+    -1658428367,
+    'eb2d8dea38e9175d4d33df41f4087c6fea038a71572e3bad1ea166353bf22184'
+  ],
+  [
+    'd6a8500303f1507b1221a91adb6462fb62d741b3052e5e7684ea7cd061a5fc0b0e93549fa50100000004acab65acfffffffffdec79bf7e139c428c7cfd4b35435ae94336367c7b5e1f8e9826fcb0ebaaaea30300000000ffffffffd115fdc00713d52c35ea92805414bd57d1e59d0e6d3b79a77ee18a3228278ada020000000453005151ffffffff040231510300000000085100ac6a6a000063c6041c0400000000080000536a6563acac138a0b04000000000263abd25fbe03000000000900656a00656aac510000000000',
+    'ac526aac6a00',
+    1,
+    -2007972591,
+    '13d12a51598b34851e7066cd93ab8c5212d60c6ed2dae09d91672c10ccd7f87c'
+  ],
+  [
+    '658cb1c1049564e728291a56fa79987a4ed3146775fce078bd2e875d1a5ca83baf6166a82302000000056a656351ab2170e7d0826cbdb45fda0457ca7689745fd70541e2137bb4f52e7b432dcfe2112807bd720300000007006a0052536351ffffffff8715ca2977696abf86d433d5c920ef26974f50e9f4a20c584fecbb68e530af5101000000009e49d864155bf1d3c757186d29f3388fd89c7f55cc4d9158b4cf74ca27a35a1dd93f945502000000096a535353ac656351510d29fa870230b809040000000006ab6a6a526a633b41da050000000004ab6a6a65ed63bf62',
+    '52acabac',
+    2,
+    -1774073281,
+    '53ab197fa7e27b8a3f99ff48305e67081eb90e95d89d7e92d80cee25a03a6689'
+  ],
+  [
+    'e92492cc01aec4e62df67ea3bc645e2e3f603645b3c5b353e4ae967b562d23d6e043badecd0100000003acab65ffffffff02c7e5ea040000000002ab52e1e584010000000005536365515195d16047',
+    '6551',
+    0,
+    -424930556,
+    '93c34627f526d73f4bea044392d1a99776b4409f7d3d835f23b03c358f5a61c2'
+  ],
+  [
+    '02e242db04be2d8ced9179957e98cee395d4767966f71448dd084426844cbc6d15f2182e85030000000200650c8ffce3db9de9c3f9cdb9104c7cb26647a7531ad1ebf7591c259a9c9985503be50f8de30000000007ac6a51636a6353ffffffffa2e33e7ff06fd6469987ddf8a626853dbf30c01719efb259ae768f051f803cd30300000000fffffffffd69d8aead941683ca0b1ee235d09eade960e0b1df3cd99f850afc0af1b73e070300000001ab60bb602a011659670100000000076363526300acac00000000',
+    '6353ab515251',
+    3,
+    1451100552,
+    'bbc9069b8615f3a52ac8a77359098dcc6c1ba88c8372d5d5fe080b99eb781e55'
+  ],
+  [
+    'b28d5f5e015a7f24d5f9e7b04a83cd07277d452e898f78b50aae45393dfb87f94a26ef57720200000008ababac630053ac52ffffffff046475ed040000000008ab5100526363ac65c9834a04000000000251abae26b30100000000040000ac65ceefb900000000000000000000',
+    'ac6551ac6a536553',
+    0,
+    -1756558188,
+    '5848d93491044d7f21884eef7a244fe7d38886f8ae60df49ce0dfb2a342cd51a'
+  ],
+  [
+    'efb8b09801f647553b91922a5874f8e4bb2ed8ddb3536ed2d2ed0698fac5e0e3a298012391030000000952ac005263ac52006affffffff04cdfa0f050000000007ac53ab51abac65b68d1b02000000000553ab65ac00d057d50000000000016a9e1fda010000000007ac63ac536552ac00000000',
+    '6aac',
+    0,
+    1947322973,
+    '603a9b61cd30fcea43ef0a5c18b88ca372690b971b379ee9e01909c336280511'
+  ],
+  [
+    '68a59fb901c21946797e7d07a4a3ea86978ce43df0479860d7116ac514ba955460bae78fff0000000001abffffffff03979be80100000000036553639300bc040000000008006552006a656565cfa78d0000000000076552acab63ab5100000000',
+    'ab65ab',
+    0,
+    995583673,
+    '3b320dd47f2702452a49a1288bdc74a19a4b849b132b6cad9a1d945d87dfbb23'
+  ],
+  [
+    '67761f2a014a16f3940dcb14a22ba5dc057fcffdcd2cf6150b01d516be00ef55ef7eb07a830100000004636a6a51ffffffff01af67bd050000000008526553526300510000000000',
+    '6a00',
+    0,
+    1570943676,
+    '079fa62e9d9d7654da8b74b065da3154f3e63c315f25751b4d896733a1d67807'
+  ],
+  [
+    'e20fe96302496eb436eee98cd5a32e1c49f2a379ceb71ada8a48c5382df7c8cd88bdc47ced03000000016556aa0e180660925a841b457aed0aae47fca2a92fa1d7afeda647abf67198a3902a7c80dd00000000085152ac636a535265bd18335e01803c810100000000046500ac52f371025e',
+    '6363ab',
+    1,
+    -651254218,
+    '2921a0e5e3ba83c57ba57c25569380c17986bf34c366ec216d4188d5ba8b0b47'
+  ],
+  [
+    '4e1bd9fa011fe7aa14eee8e78f27c9fde5127f99f53d86bc67bdab23ca8901054ee8a8b6eb0300000009ac535153006a6a0063ffffffff044233670500000000000a667205000000000652ab636a51abe5bf35030000000003535351d579e505000000000700630065ab51ac3419ac30',
+    '52abac52',
+    0,
+    -1807563680,
+    '4aae6648f856994bed252d319932d78db55da50d32b9008216d5366b44bfdf8a'
+  ],
+  [
+    'ec02fbee03120d02fde12574649660c441b40d330439183430c6feb404064d4f507e704f3c0100000000ffffffffe108d99c7a4e5f75cc35c05debb615d52fac6e3240a6964a29c1704d98017fb60200000002ab63fffffffff726ec890038977adfc9dadbeaf5e486d5fcb65dc23acff0dd90b61b8e2773410000000002ac65e9dace55010f881b010000000005ac00ab650000000000',
+    '51ac525152ac6552',
+    2,
+    -1564046020,
+    '3f988922d8cd11c7adff1a83ce9499019e5ab5f424752d8d361cf1762e04269b'
+  ],
+  [
+    '23dbdcc1039c99bf11938d8e3ccec53b60c6c1d10c8eb6c31197d62c6c4e2af17f52115c3a0300000008636352000063ababffffffff17823880e1df93e63ad98c29bfac12e36efd60254346cac9d3f8ada020afc0620300000003ab63631c26f002ac66e86cd22a25e3ed3cb39d982f47c5118f03253054842daadc88a6c41a2e1500000000096a00ab636a53635163195314de015570fd0100000000096a5263acab5200005300000000',
+    'ababac6a6553',
+    1,
+    11586329,
+    'bd36a50e0e0a4ecbf2709e68daef41eddc1c0c9769efaee57910e99c0a1d1343'
+  ],
+  [
+    '33b03bf00222c7ca35c2f8870bbdef2a543b70677e413ce50494ac9b22ea673287b6aa55c50000000005ab00006a52ee4d97b527eb0b427e4514ea4a76c81e68c34900a23838d3e57d0edb5410e62eeb8c92b6000000000553ac6aacac42e59e170326245c000000000009656553536aab516aabb1a10603000000000852ab52ab6a516500cc89c802000000000763ac6a63ac516300000000',
+    '',
+    0,
+    557416556,
+    '41bead1b073e1e9fee065dd612a617ca0689e8f9d3fed9d0acfa97398ebb404c'
+  ],
+  [
+    '813eda1103ac8159850b4524ef65e4644e0fc30efe57a5db0c0365a30446d518d9b9aa8fdd0000000003656565c2f1e89448b374b8f12055557927d5b33339c52228f7108228149920e0b77ef0bcd69da60000000006abac00ab63ab82cdb7978d28630c5e1dc630f332c4245581f787936f0b1e84d38d33892141974c75b4750300000004ac53ab65ffffffff0137edfb02000000000000000000',
+    '0063',
+    1,
+    -1948560575,
+    '71dfcd2eb7f2e6473aed47b16a6d5fcbd0af22813d892e9765023151e07771ec'
+  ],
+  [
+    '9e45d9aa0248c16dbd7f435e8c54ae1ad086de50c7b25795a704f3d8e45e1886386c653fbf01000000025352fb4a1acefdd27747b60d1fb79b96d14fb88770c75e0da941b7803a513e6d4c908c6445c7010000000163ffffffff014069a8010000000001520a794fb3',
+    '51ac005363',
+    1,
+    -719113284,
+    '0d31a221c69bd322ef7193dd7359ddfefec9e0a1521d4a8740326d46e44a5d6a'
+  ],
+  [
+    '36e42018044652286b19a90e5dd4f8d9f361d0760d080c5c5add1970296ff0f1de630233c8010000000200ac39260c7606017d2246ee14ddb7611586178067e6a4be38e788e33f39a3a95a55a13a6775010000000352ac638bea784f7c2354ed02ea0b93f0240cdfb91796fa77649beee6f7027caa70778b091deee700000000066a65ac656363ffffffff4d9d77ab676d711267ef65363f2d192e1bd55d3cd37f2280a34c72e8b4c559d700000000056a006aab00001764e1020d30220100000000085252516aacab0053472097040000000009635353ab6a636a5100a56407a1',
+    '006a536551ab53ab',
+    0,
+    827296034,
+    'daec2af5622bbe220c762da77bab14dc75e7d28aa1ade9b7f100798f7f0fd97a'
+  ],
+  [
+    '5e06159a02762b5f3a5edcdfc91fd88c3bff08b202e69eb5ba74743e9f4291c4059ab008200000000001ac348f5446bb069ef977f89dbe925795d59fb5d98562679bafd61f5f5f3150c3559582992d0000000008ab5165515353abac762fc67703847ec6010000000000e200cf040000000002abaca64b86010000000008520000515363acabb82b491b',
+    'ab53525352ab6a',
+    0,
+    -61819505,
+    '75a7db0df41485a28bf6a77a37ca15fa8eccc95b5d6014a731fd8adb9ada0f12'
+  ],
+  [
+    'a1948872013b543d6d902ccdeead231c585195214ccf5d39f136023855958436a43266911501000000086aac006a6a6a51514951c9b2038a538a04000000000452526563c0f345050000000007526a5252ac526af9be8e03000000000752acac51ab006306198db2',
+    'ab6353',
+    0,
+    -326384076,
+    'ced7ef84aad4097e1eb96310e0d1c8e512cfcb392a01d9010713459b23bc0cf4'
+  ],
+  [
+    'c3efabba03cb656f154d1e159aa4a1a4bf9423a50454ebcef07bc3c42a35fb8ad84014864d0000000000d1cc73d260980775650caa272e9103dc6408bdacaddada6b9c67c88ceba6abaa9caa2f7d020000000553536a5265ffffffff9f946e8176d9b11ff854b76efcca0a4c236d29b69fb645ba29d406480427438e01000000066a0065005300ffffffff040419c0010000000003ab6a63cdb5b6010000000009006300ab5352656a63f9fe5e050000000004acac5352611b980100000000086a00acac00006a512d7f0c40',
+    '0053',
+    0,
+    -59089911,
+    'c503001c16fbff82a99a18d88fe18720af63656fccd8511bca1c3d0d69bd7fc0'
+  ],
+  [
+    'efb55c2e04b21a0c25e0e29f6586be9ef09f2008389e5257ebf2f5251051cdc6a79fce2dac020000000351006affffffffaba73e5b6e6c62048ba5676d18c33ccbcb59866470bb7911ccafb2238cfd493802000000026563ffffffffe62d7cb8658a6eca8a8babeb0f1f4fa535b62f5fc0ec70eb0111174e72bbec5e0300000009abababac516365526affffffffbf568789e681032d3e3be761642f25e46c20322fa80346c1146cb47ac999cf1b0300000000b3dbd55902528828010000000001ab0aac7b0100000000015300000000',
+    'acac52',
+    3,
+    1638140535,
+    'e84444d91580da41c8a7dcf6d32229bb106f1be0c811b2292967ead5a96ce9d4'
+  ],
+  [
+    '91d3b21903629209b877b3e1aef09cd59aca6a5a0db9b83e6b3472aceec3bc2109e64ab85a0200000003530065ffffffffca5f92de2f1b7d8478b8261eaf32e5656b9eabbc58dcb2345912e9079a33c4cd010000000700ab65ab00536ad530611da41bbd51a389788c46678a265fe85737b8d317a83a8ff7a839debd18892ae5c80300000007ab6aac65ab51008b86c501038b8a9a05000000000263525b3f7a040000000007ab535353ab00abd4e3ff04000000000665ac51ab65630b7b656f',
+    '6551525151516a00',
+    2,
+    499657927,
+    'ef4bd7622eb7b2bbbbdc48663c1bc90e01d5bde90ff4cb946596f781eb420a0c'
+  ],
+  [
+    '5d5c41ad0317aa7e40a513f5141ad5fc6e17d3916eebee4ddb400ddab596175b41a111ead20100000005536a5265acffffffff900ecb5e355c5c9f278c2c6ea15ac1558b041738e4bffe5ae06a9346d66d5b2b00000000080000ab636a65ab6affffffff99f4e08305fa5bd8e38fb9ca18b73f7a33c61ff7b3c68e696b30a04fea87f3ca000000000163d3d1760d019fc13a00000000000000000000',
+    'ab53acabab6aac6a52',
+    2,
+    1007461922,
+    '4012f5ff2f1238a0eb84854074670b4703238ebc15bfcdcd47ffa8498105fcd9'
+  ],
+  [
+    'ceecfa6c02b7e3345445b82226b15b7a097563fa7d15f3b0c979232b138124b62c0be007890200000009abac51536a63525253ffffffffbae481ccb4f15d94db5ec0d8854c24c1cc8642bd0c6300ede98a91ca13a4539a0200000001ac50b0813d023110f5020000000006acabac526563e2b0d0040000000009656aac0063516a536300000000',
+    '0063526500',
+    0,
+    -1862053821,
+    'e1600e6df8a6160a79ac32aa40bb4644daa88b5f76c0d7d13bf003327223f70c'
+  ],
+  [
+    'ae62d5fd0380c4083a26642159f51af24bf55dc69008e6b7769442b6a69a603edd980a33000000000005ab5100ab53ffffffff49d048324d899d4b8ed5e739d604f5806a1104fede4cb9f92cc825a7fa7b4bfe0200000005536a000053ffffffff42e5cea5673c650881d0b4005fa4550fd86de5f21509c4564a379a0b7252ac0e0000000007530000526a53525f26a68a03bfacc3010000000000e2496f000000000009ab5253acac52636563b11cc600000000000700510065526a6a00000000',
+    'abab',
+    1,
+    -1600104856,
+    '05cf0ec9c61f1a15f651a0b3c5c221aa543553ce6c804593f43bb5c50bb91ffb'
+  ],
+  [
+    'f06f64af04fdcb830464b5efdb3d5ee25869b0744005375481d7b9d7136a0eb8828ad1f0240200000003516563fffffffffd3ba192dabe9c4eb634a1e3079fca4f072ee5ceb4b57deb6ade5527053a92c5000000000165ffffffff39f43401a36ba13a5c6dd7f1190e793933ae32ee3bf3e7bfb967be51e681af760300000009650000536552636a528e34f50b21183952cad945a83d4d56294b55258183e1627d6e8fb3beb8457ec36cadb0630000000005abab530052334a7128014bbfd10100000000085352ab006a63656afc424a7c',
+    '53650051635253ac00',
+    2,
+    313255000,
+    'd309da5afd91b7afa257cfd62df3ca9df036b6a9f4b38f5697d1daa1f587312b'
+  ],
+  [
+    '6dfd2f98046b08e7e2ef5fff153e00545faf7076699012993c7a30cb1a50ec528281a9022f030000000152ffffffff1f535e4851920b968e6c437d84d6ecf586984ebddb7d5db6ae035bd02ba222a8010000000651006a53ab51605072acb3e17939fa0737bc3ee43bc393b4acd58451fc4ffeeedc06df9fc649828822d5010000000253525a4955221715f27788d302382112cf60719be9ae159c51f394519bd5f7e70a4f9816c7020200000009526a6a51636aab656a36d3a5ff0445548e0100000000086a6a00516a52655167030b050000000004ac6a63525cfda8030000000000e158200000000000010000000000',
+    '535263ac6a65515153',
+    3,
+    585774166,
+    '72b7da10704c3ca7d1deb60c31b718ee12c70dc9dfb9ae3461edce50789fe2ba'
+  ],
+  [
+    '187eafed01389a45e75e9dda526d3acbbd41e6414936b3356473d1f9793d161603efdb45670100000002ab00ffffffff04371c8202000000000563630063523b3bde02000000000753516563006300e9e765010000000005516aac656a373f9805000000000665525352acab08d46763',
+    'ab',
+    0,
+    122457992,
+    '393aa6c758e0eed15fa4af6d9e2d7c63f49057246dbb92b4268ec24fc87301ca'
+  ],
+  [
+    '7d50b977035d50411d814d296da9f7965ddc56f3250961ca5ba805cadd0454e7c521e31b0300000000003d0416c2cf115a397bacf615339f0e54f6c35ffec95aa009284d38390bdde1595cc7aa7c0100000005ab52ac5365ffffffff4232c6e796544d5ac848c9dc8d25cfa74e32e847a5fc74c74d8f38ca51188562030000000653ac51006a51ffffffff016bd8bb00000000000465ab5253163526f3',
+    '51ab526a00005353',
+    1,
+    -1311316785,
+    '60b7544319b42e4159976c35c32c2644f0adf42eff13be1dc2f726fc0b6bb492'
+  ],
+  [
+    '2a45cd1001bf642a2315d4a427eddcc1e2b0209b1c6abd2db81a800c5f1af32812de42032702000000050051525200ffffffff032177db050000000005530051abac49186f000000000004ab6aab00645c0000000000000765655263acabac00000000',
+    '6a65',
+    0,
+    -1774715722,
+    '6a9ac3f7da4c7735fbc91f728b52ecbd602233208f96ac5592656074a5db118a'
+  ],
+  [
+    '479358c202427f3c8d19e2ea3def6d6d3ef2281b4a93cd76214f0c7d8f040aa042fe19f71f0300000001abffffffffa2709be556cf6ecaa5ef530df9e4d056d0ed57ce96de55a5b1f369fa40d4e74a020000000700006a51635365c426be3f02af578505000000000363ab63fd8f590500000000065153abac53632dfb14b3',
+    '520063ab51',
+    1,
+    -763226778,
+    'cfe147982afacde044ce66008cbc5b1e9f0fd9b8ed52b59fc7c0fecf95a39b0e'
+  ],
+  [
+    '76179a8e03bec40747ad65ab0f8a21bc0d125b5c3c17ad5565556d5cb03ade7c83b4f32d98030000000151ffffffff99b900504e0c02b97a65e24f3ad8435dfa54e3c368f4e654803b756d011d24150200000003ac5353617a04ac61bb6cf697cfa4726657ba35ed0031432da8c0ffb252a190278830f9bd54f0320100000006656551005153c8e8fc8803677c77020000000007ac6553535253ac70f442030000000001535be0f20200000000026300bf46cb3a',
+    '6aab52',
+    1,
+    -58495673,
+    '35e94b3776a6729d20aa2f3ddeeb06d3aad1c14cc4cde52fd21a4efc212ea16c'
+  ],
+  [
+    '75ae53c2042f7546223ce5d5f9e00a968ddc68d52e8932ef2013fa40ce4e8c6ed0b6195cde01000000056563ac630079da0452c20697382e3dba6f4fc300da5f52e95a9dca379bb792907db872ba751b8024ee0300000009655151536500005163ffffffffe091b6d43f51ff00eff0ccfbc99b72d3aff208e0f44b44dfa5e1c7322cfc0c5f01000000075200005363ab63ffffffff7e96c3b83443260ac5cfd18258574fbc4225c630d3950df812bf51dceaeb0f9103000000065365655165639a6bf70b01b3e14305000000000563530063ac00000000',
+    '6300ab00ac',
+    2,
+    982422189,
+    'ee4ea49d2aae0dbba05f0b9785172da54408eb1ec67d36759ff7ed25bfc28766'
+  ],
+  [
+    '1cdfa01e01e1b8078e9c2b0ca5082249bd18fdb8b629ead659adedf9a0dd5a04031871ba120200000008525351536565ab6affffffff011e28430200000000076a5363636aac52b2febd4a',
+    'abacac63656300',
+    0,
+    387396350,
+    '299dcaac2bdaa627eba0dfd74767ee6c6f27c9200b49da8ff6270b1041669e7e'
+  ],
+  [
+    'cc28c1810113dfa6f0fcd9c7d9c9a30fb6f1d774356abeb527a8651f24f4e6b25cf763c4e00300000003ab636affffffff02dfc6050000000000080053636351ab0052afd56903000000000453ab5265f6c90d99',
+    '006551abacacac',
+    0,
+    1299280838,
+    'a4c0773204ab418a939e23f493bd4b3e817375d133d307609e9782f2cc38dbcf'
+  ],
+  [
+    'ca816e7802cd43d66b9374cd9bf99a8da09402d69c688d8dcc5283ace8f147e1672b757e020200000005516aabab5240fb06c95c922342279fcd88ba6cd915933e320d7becac03192e0941e0345b79223e89570300000004005151ac353ecb5d0264dfbd010000000005ac6aacababd5d70001000000000752ac53ac6a5151ec257f71',
+    '63ac',
+    1,
+    774695685,
+    'cc180c4f797c16a639962e7aec58ec4b209853d842010e4d090895b22e7a7863'
+  ],
+  [
+    'b42b955303942fedd7dc77bbd9040aa0de858afa100f399d63c7f167b7986d6c2377f66a7403000000066aac00525100ffffffff0577d04b64880425a3174055f94191031ad6b4ca6f34f6da9be7c3411d8b51fc000000000300526a6391e1cf0f22e45ef1c44298523b516b3e1249df153590f592fcb5c5fc432dc66f3b57cb03000000046a6aac65ffffffff0393a6c9000000000004516a65aca674ac0400000000046a525352c82c370000000000030053538e577f89',
+    '',
+    1,
+    -1237094944,
+    '566953eb806d40a9fb684d46c1bf8c69dea86273424d562bd407b9461c8509af'
+  ],
+  [
+    '92c9fe210201e781b72554a0ed5e22507fb02434ddbaa69aff6e74ea8bad656071f1923f3f02000000056a63ac6a514470cef985ba83dcb8eee2044807bedbf0d983ae21286421506ae276142359c8c6a34d68020000000863ac63525265006aa796dd0102ca3f9d05000000000800abab52ab535353cd5c83010000000007ac00525252005322ac75ee',
+    '5165',
+    0,
+    97879971,
+    '6e6307cef4f3a9b386f751a6f40acebab12a0e7e17171d2989293cbec7fd45c2'
+  ],
+  [
+    'ccca1d5b01e40fe2c6b3ee24c660252134601dab785b8f55bd6201ffaf2fddc7b3e2192325030000000365535100496d4703b4b66603000000000665535253ac633013240000000000015212d2a502000000000951abac636353636a5337b82426',
+    '0052',
+    0,
+    -1691630172,
+    '577bf2b3520b40aef44899a20d37833f1cded6b167e4d648fc5abe203e43b649'
+  ],
+  [
+    'bc1a7a3c01691e2d0c4266136f12e391422f93655c71831d90935fbda7e840e50770c61da20000000008635253abac516353ffffffff031f32aa020000000003636563786dbc0200000000003e950f00000000000563516a655184b8a1de',
+    '51536a',
+    0,
+    -1627072905,
+    '730bc25699b46703d7718fd5f5c34c4b5f00f594a9968ddc247fa7d5175124ed'
+  ],
+  [
+    '076d209e02d904a6c40713c7225d23e7c25d4133c3c3477828f98c7d6dbd68744023dbb66b030000000753ab00536565acffffffff10975f1b8db8861ca94c8cc7c7cff086ddcd83e10b5fffd4fc8f2bdb03f9463c0100000000ffffffff029dff76010000000006526365530051a3be6004000000000000000000',
+    '515253ac65acacac',
+    1,
+    -1207502445,
+    '66c488603b2bc53f0d22994a1f0f66fb2958203102eba30fe1d37b27a55de7a5'
+  ],
+  [
+    '690fd1f80476db1f9eebe91317f2f130a60cbc1f4feadd9d6474d438e9cb7f91e4994600af0300000004ab536a63a15ce9fa6622d0c4171d895b42bff884dc6e8a7452f827fdc68a29c3c88e6fdee364eaf50000000002ab52ffffffff022dc39d3c0956b24d7f410b1e387859e7a72955f45d6ffb1e884d77888d18fe0300000005ac6a63656afffffffff10b06bce1800f5c49153d24748fdefb0bf514c12863247d1042d56018c3e25c03000000086a63ac6365536a52ffffffff031f162f0500000000060000655265abffbcd40500000000045151ac001a9c8c05000000000652ac53656a6300000000',
+    'ac51ab63acac',
+    0,
+    -67986012,
+    '051c0df7ac688c2c930808dabde1f50300aea115f2bb3334f4753d5169b51e46'
+  ],
+  [
+    '49ac2af00216c0307a29e83aa5de19770e6b20845de329290bd69cf0e0db7aed61ae41b39002000000035163ac8b2558ef84635bfc59635150e90b61fc753d34acfd10d97531043053e229cd720133cd95000000000463516a51ffffffff02458471040000000008abab636a51ac0065545aa80000000000096a6553516a5263ac6a00000000',
+    '51526300ab5363',
+    1,
+    1449668540,
+    'ddfd902bba312a06197810da96a0ddccb595f96670b28ded7dba88d8cd0469b8'
+  ],
+  [
+    'fa4d868b024b010bd5dce46576c2fb489aa60bb797dac3c72a4836f49812c5c564c258414f03000000007a9b3a585e05027bdd89edbadf3c85ac61f8c3a04c773fa746517ae600ff1a9d6b6c02fb0200000004515163abffffffff01b17d020500000000046a65520000000000',
+    '536565ab65635363',
+    0,
+    -1718953372,
+    '96c2b32f0a00a5925db7ba72d0b5d39922f30ea0f7443b22bc1b734808513c47'
+  ],
+  [
+    'cac6382d0462375e83b67c7a86c922b569a7473bfced67f17afd96c3cd2d896cf113febf9e0300000003006a53ffffffffaa4913b7eae6821487dd3ca43a514e94dcbbf350f8cc4cafff9c1a88720711b800000000096a6a525300acac6353ffffffff184fc4109c34ea27014cc2c1536ef7ed1821951797a7141ddacdd6e429fae6ff01000000055251655200ffffffff9e7b79b4e6836e290d7b489ead931cba65d1030ccc06f20bd4ca46a40195b33c030000000008f6bc8304a09a2704000000000563655353511dbc73050000000000cf34c500000000000091f76e0000000000085200ab00005100abd07208cb',
+    '0063656a',
+    2,
+    -1488731031,
+    'bf078519fa87b79f40abc38f1831731422722c59f88d86775535f209cb41b9b1'
+  ],
+  [
+    '1711146502c1a0b82eaa7893976fefe0fb758c3f0e560447cef6e1bde11e42de91a125f71c030000000015bd8c04703b4030496c7461482481f290c623be3e76ad23d57a955807c9e851aaaa20270300000000d04abaf20326dcb7030000000001632225350400000000075263ac00520063dddad9020000000000af23d148',
+    '52520053510063',
+    0,
+    1852122830,
+    'e33d5ee08c0f3c130a44d7ce29606450271b676f4a80c52ab9ffab00cecf67f8'
+  ],
+  [
+    '8d5b124d0231fbfc640c706ddb1d57bb49a18ba8ca0e1101e32c7e6e65a0d4c7971d93ea360100000008acabac0000abac65ffffffff8fe0fd7696597b845c079c3e7b87d4a44110c445a330d70342a5501955e17dd70100000004ab525363ef22e8a90346629f030000000009516a00ac63acac51657bd57b05000000000200acfd4288050000000009acab5352ab00ab636300000000',
+    '53ac526553ab65',
+    0,
+    1253152975,
+    '8b57a7c3170c6c02dd14ae1d392ce3d828197b20e9145c89c1cfd5de050e1562'
+  ],
+  [
+    '38146dc502c7430e92b6708e9e107b61cd38e5e773d9395e5c8ad8986e7e4c03ee1c1e1e760100000000c8962ce2ac1bb3b1285c0b9ba07f4d2e5ce87c738c42ac0548cd8cec1100e6928cd6b0b6010000000763ab636aab52527cccefbd04e5f6f8020000000006006aabacac65ab2c4a00000000000351635209a6f40100000000026aacce57dc040000000008ab5353ab516a516a00000000',
+    'ab',
+    0,
+    -1205978252,
+    '3cb5b030e7da0b60ccce5b4a7f3793e6ca56f03e3799fe2d6c3cc22d6d841dcb'
+  ],
+  [
+    '22d81c740469695a6a83a9a4824f77ecff8804d020df23713990afce2b72591ed7de98500502000000065352526a6a6affffffff90dc85e118379b1005d7bbc7d2b8b0bab104dad7eaa49ff5bead892f17d8c3ba010000000665656300ab51ffffffff965193879e1d5628b52005d8560a35a2ba57a7f19201a4045b7cbab85133311d0200000003ac005348af21a13f9b4e0ad90ed20bf84e4740c8a9d7129632590349afc03799414b76fd6e826200000000025353ffffffff04a0d40d04000000000060702700000000000652655151516ad31f1502000000000365ac0069a1ac0500000000095100655300ab53525100000000',
+    '51636a52ac',
+    0,
+    -1644680765,
+    'add7f5da27262f13da6a1e2cc2feafdc809bd66a67fb8ae2a6f5e6be95373b6f'
+  ],
+  [
+    'a27dcbc801e3475174a183586082e0914c314bc9d79d1570f29b54591e5e0dff07fbb45a7f0000000004ac53ab51ffffffff027347f5020000000005535351ab63d0e5c9030000000009ac65ab6a63515200ab7cd632ed',
+    'ac63636553',
+    0,
+    -686435306,
+    '883a6ea3b2cc53fe8a803c229106366ca14d25ffbab9fef8367340f65b201da6'
+  ],
+  [
+    'b123ed2204410d4e8aaaa8cdb95234ca86dad9ff77fb4ae0fd4c06ebed36794f0215ede0040100000002ac63ffffffff3b58b81b19b90d8f402701389b238c3a84ff9ba9aeea298bbf15b41a6766d27a01000000056a6553ab00151824d401786153b819831fb15926ff1944ea7b03d884935a8bde01ed069d5fd80220310200000000ffffffffa9c9d246f1eb8b7b382a9032b55567e9a93f86c77f4e32c092aa1738f7f756c30100000002ab65ffffffff011a2b48000000000000ed44d1fb',
+    '630051ab63',
+    2,
+    -1118263883,
+    'b5dab912bcabedff5f63f6dd395fc2cf030d83eb4dd28214baba68a45b4bfff0'
+  ],
+  [
+    '1339051503e196f730955c5a39acd6ed28dec89b4dadc3f7c79b203b344511270e5747fa9900000000045151636affffffff378c6090e08a3895cedf1d25453bbe955a274657172491fd2887ed5c9aceca7b0100000000ffffffffcf7cc3c36ddf9d4749edfa9cefed496d2f86e870deb814bfcd3b5637a5496461030000000451006300ffffffff04dcf3fa010000000008526a63005263acabb41d84040000000004abac5153800eff020000000005656a535365106c5e00000000000000000000',
+    'abac5300',
+    2,
+    2013719928,
+    '7fc74de39ce6ca46ca25d760d3cec7bb21fd14f7efe1c443b5aa294f2cb5f546'
+  ],
+  [
+    '0728c606014c1fd6005ccf878196ba71a54e86cc8c53d6db500c3cc0ac369a26fac6fcbc210000000005ab53ac5365ba9668290182d7870100000000066a000053655100000000',
+    '65',
+    0,
+    1789961588,
+    'ab6baa6da3b2bc853868d166f8996ad31d63ef981179f9104f49968fd61c8427'
+  ],
+  [
+    'a1134397034bf4067b6c81c581e2b73fb63835a08819ba24e4e92df73074bf773c94577df7000000000465525251ffffffff8b6608feaa3c1f35f49c6330a769716fa01c5c6f6e0cdc2eb10dfc99bbc21e77010000000952656aac005352655180a0bda4bc72002c2ea8262e26e03391536ec36867258cab968a6fd6ec7523b64fa1d8c001000000056a53ac6353ffffffff04dbeeed05000000000553650052abcd5d0e01000000000463abab51104b2e0500000000066aac53ac5165283ca7010000000004535252ab00000000',
+    'ab515151516552ab',
+    1,
+    -324598676,
+    '91178482112f94d1c8e929de443e4b9c893e18682998d393ca9ca77950412586'
+  ],
+  [
+    'bcdafbae04aa18eb75855aeb1f5124f30044741351b33794254a80070940cb10552fa4fa8e0300000001acd0423fe6e3f3f88ae606f2e8cfab7a5ef87caa2a8f0401765ff9a47d718afcfb40c0099b0000000008ac6565ab53ac6aac645308009d680202d600e492b31ee0ab77c7c5883ebad5065f1ce87e4dfe6453e54023a0010000000151ffffffffb9d818b14245899e1d440152827c95268a676f14c3389fc47f5a11a7b38b1bde03000000026300ffffffff03cda22102000000000751ac535263005100a4d20400000000045200536ac8bef405000000000700ab51ab6563ac00000000',
+    '6553516a526aab',
+    1,
+    -2111409753,
+    '5e1849e7368cf4f042718586d9bd831d61479b775bab97aba9f450042bd9876a'
+  ],
+  [
+    'ed3bb93802ddbd08cb030ef60a2247f715a0226de390c9c1a81d52e83f8674879065b5f87d0300000003ab6552ffffffff04d2c5e60a21fb6da8de20bf206db43b720e2a24ce26779bca25584c3f765d1e0200000008ab656a6aacab00ab6e946ded025a811d04000000000951abac6352ac00ab5143cfa3030000000005635200636a00000000',
+    '5352ac650065535300',
+    1,
+    -668727133,
+    'e9995065e1fddef72a796eef5274de62012249660dc9d233a4f24e02a2979c87'
+  ],
+  [
+    '59f4629d030fa5d115c33e8d55a79ea3cba8c209821f979ed0e285299a9c72a73c5bba00150200000002636affffffffd8aca2176df3f7a96d0dc4ee3d24e6cecde1582323eec2ebef9a11f8162f17ac0000000007ab6565acab6553ffffffffeebc10af4f99c7a21cbc1d1074bd9f0ee032482a71800f44f26ee67491208e0403000000065352ac656351ffffffff0434e955040000000004ab515152caf2b305000000000365ac007b1473030000000003ab530033da970500000000060051536a5253bb08ab51',
+    '',
+    2,
+    396340944,
+    '0e9c47973ef2c292b2252c623f465bbb92046fe0b893eebf4e1c9e02cb01c397'
+  ],
+  [
+    '286e3eb7043902bae5173ac3b39b44c5950bc363f474386a50b98c7bdab26f98dc83449c4a020000000752ac6a00510051ffffffff4339cd6a07f5a5a2cb5815e5845da70300f5c7833788363bf7fe67595d3225520100000000fffffffff9c2dd8b06ad910365ffdee1a966f124378a2b8021065c8764f6138bb1e951380200000005ab5153ac6affffffff0370202aba7a68df85436ea7c945139513384ef391fa33d16020420b8ad40e9a000000000900ab5165526353abacffffffff020c1907000000000004abac526a1b490b040000000000df1528f7',
+    '5353ab',
+    3,
+    -1407529517,
+    '32154c09174a9906183abf26538c39e78468344ca0848bbd0785e24a3565d932'
+  ],
+  [
+    '2e245cf80179e2e95cd1b34995c2aff49fe4519cd7cee93ad7587f7f7e8105fc2dff206cd30200000009006a63516a6553ab52350435a201d5ed2d02000000000352ab6558552c89',
+    '00ab53',
+    0,
+    -233917810,
+    '4605ae5fd3d50f9c45d37db7118a81a9ef6eb475d2333f59df5d3e216f150d49'
+  ],
+  [
+    '33a98004029d262f951881b20a8d746c8c707ea802cd2c8b02a33b7e907c58699f97e42be80100000007ac53536552abacdee04cc01d205fd8a3687fdf265b064d42ab38046d76c736aad8865ca210824b7c622ecf02000000070065006a536a6affffffff01431c5d010000000000270d48ee',
+    '',
+    1,
+    921554116,
+    'ff9d7394002f3f196ea25472ea6c46f753bd879a7244795157bb7235c9322902'
+  ],
+  [
+    'aac18f2b02b144ed481557c53f2146ae523f24fcde40f3445ab0193b6b276c315dc2894d2300000000075165650000636a233526947dbffc76aec7db1e1baa6868ad4799c76e14794dcbaaec9e713a83967f6a65170200000005abac6551ab27d518be01b652a30000000000015300000000',
+    '52ac5353',
+    1,
+    1559377136,
+    '59fc2959bb7bb24576cc8a237961ed95bbb900679d94da6567734c4390cb6ef5'
+  ],
+  [
+    '5ab79881033555b65fe58c928883f70ce7057426fbdd5c67d7260da0fe8b1b9e6a2674cb850300000009ac516aac6aac006a6affffffffa5be9223b43c2b1a4d120b5c5b6ec0484f637952a3252181d0f8e813e76e11580200000000e4b5ceb8118cb77215bbeedc9a076a4d087bb9cd1473ea32368b71daeeeacc451ec209010000000005acac5153aced7dc34e02bc5d11030000000005ac5363006a54185803000000000552ab00636a00000000',
+    '5100',
+    1,
+    1927062711,
+    'e9f53d531c12cce1c50abed4ac521a372b4449b6a12f9327c80020df6bff66c0'
+  ],
+  [
+    '6c2c8fac0124b0b7d4b610c3c5b91dee32b7c927ac71abdf2d008990ca1ac40de0dfd530660300000006ababac5253656bd7eada01d847ec000000000004ac52006af4232ec8',
+    '6a6a6a0051',
+    0,
+    -340809707,
+    'fb51eb9d7e47d32ff2086205214f90c7c139e08c257a64829ae4d2b301071c6a'
+  ],
+  [
+    '6e3880af031735a0059c0bb5180574a7dcc88e522c8b56746d130f8d45a52184045f96793e0100000008acabac6a526a6553fffffffffe05f14cdef7d12a9169ec0fd37524b5fcd3295f73f48ca35a36e671da4a2f560000000008006a526a6351ab63ffffffffdfbd869ac9e472640a84caf28bdd82e8c6797f42d03b99817a705a24fde2736600000000010090a090a503db956b04000000000952ac53ab6a536a63ab358390010000000009656a5200525153ac65353ee204000000000763530052526aaba6ad83fb',
+    '535151ab6300',
+    2,
+    222014018,
+    '57a34ddeb1bf36d28c7294dda0432e9228a9c9e5cc5c692db98b6ed2e218d825'
+  ],
+  [
+    '8df1cd19027db4240718dcaf70cdee33b26ea3dece49ae6917331a028c85c5a1fb7ee3e475020000000865ab6a00510063636157988bc84d8d55a8ba93cdea001b9bf9d0fa65b5db42be6084b5b1e1556f3602f65d4d0100000005ac00ab0052206c852902b2fb54030000000008ac5252536aacac5378c4a5050000000007acabac535163532784439e',
+    'acab6a',
+    0,
+    1105620132,
+    'edb7c74223d1f10f9b3b9c1db8064bc487321ff7bb346f287c6bc2fad83682de'
+  ],
+  [
+    '0e803682024f79337b25c98f276d412bc27e56a300aa422c42994004790cee213008ff1b8303000000080051ac65ac655165f421a331892b19a44c9f88413d057fea03c3c4a6c7de4911fe6fe79cf2e9b3b10184b1910200000005525163630096cb1c670398277204000000000253acf7d5d502000000000963536a6a636a5363ab381092020000000002ac6a911ccf32',
+    '6565',
+    1,
+    -1492094009,
+    'f0672638a0e568a919e9d8a9cbd7c0189a3e132940beeb52f111a89dcc2daa2c'
+  ],
+  [
+    '7d71669d03022f9dd90edac323cde9e56354c6804c6b8e687e9ae699f46805aafb8bcaa636000000000253abffffffff698a5fdd3d7f2b8b000c68333e4dd58fa8045b3e2f689b889beeb3156cecdb490300000009525353abab0051acabc53f0aa821cdd69b473ec6e6cf45cf9b38996e1c8f52c27878a01ec8bb02e8cb31ad24e500000000055353ab0052ffffffff0447a23401000000000565ab53ab5133aaa0030000000006515163656563057d110300000000056a6aacac52cf13b5000000000003526a5100000000',
+    '6a6a51',
+    1,
+    -1349253507,
+    '722efdd69a7d51d3d77bed0ac5544502da67e475ea5857cd5af6bdf640a69945'
+  ],
+  [
+    '9ff618e60136f8e6bb7eabaaac7d6e2535f5fba95854be6d2726f986eaa9537cb283c701ff02000000026a65ffffffff012d1c0905000000000865ab00ac6a516a652f9ad240',
+    '51515253635351ac',
+    0,
+    1571304387,
+    '659cd3203095d4a8672646add7d77831a1926fc5b66128801979939383695a79'
+  ],
+  [
+    '9fbd43ac025e1462ecd10b1a9182a8e0c542f6d1089322a41822ab94361e214ed7e1dfdd8a020000000263519d0437581538e8e0b6aea765beff5b4f3a4a202fca6e5d19b34c141078c6688f71ba5b8e0100000003ac6552ffffffff02077774050000000009655153655263acab6a0ae4e10100000000035152524c97136b',
+    '635152ab',
+    0,
+    1969622955,
+    'd82d4ccd9b67810f26a378ad9592eb7a30935cbbd27e859b00981aefd0a72e08'
+  ],
+  [
+    '0117c92004314b84ed228fc11e2999e657f953b6de3b233331b5f0d0cf40d5cc149b93c7b30300000005515263516a083e8af1bd540e54bf5b309d36ba80ed361d77bbf4a1805c7aa73667ad9df4f97e2da410020000000600ab6351ab524d04f2179455e794b2fcb3d214670001c885f0802e4b5e015ed13a917514a7618f5f332203000000086a536aab51000063ecf029e65a4a009a5d67796c9f1eb358b0d4bd2620c8ad7330fb98f5a802ab92d0038b1002000000036a6551a184a88804b04490000000000009ab6a5152535165526a33d1ab020000000001518e92320000000000002913df04000000000952abac6353525353ac8b19bfdf',
+    '000051ab0000',
+    0,
+    489433059,
+    '8eebac87e60da524bbccaf285a44043e2c9232868dda6c6271a53c153e7f3a55'
+  ],
+  [
+    'e7f5482903f98f0299e0984b361efb2fddcd9979869102281e705d3001a9d283fe9f3f3a1e02000000025365ffffffffcc5c7fe82feebad32a22715fc30bc584efc9cd9cadd57e5bc4b6a265547e676e0000000001ab579d21235bc2281e08bf5e7f8f64d3afb552839b9aa5c77cf762ba2366fffd7ebb74e49400000000055263ab63633df82cf40100982e05000000000453ac535300000000',
+    'acacab',
+    2,
+    -1362931214,
+    '046de666545330e50d53083eb78c9336416902f9b96c77cc8d8e543da6dfc7e4'
+  ],
+  [
+    '09adb2e90175ca0e816326ae2dce7750c1b27941b16f6278023dbc294632ab97977852a09d030000000465ab006affffffff027739cf0100000000075151ab63ac65ab8a5bb601000000000653ac5151520011313cdc',
+    'ac',
+    0,
+    -76831756,
+    '478ee06501b4965b40bdba6cbaad9b779b38555a970912bb791b86b7191c54bc'
+  ],
+  [
+    'f973867602e30f857855cd0364b5bbb894c049f44abbfd661d7ae5dbfeaafca89fac8959c20100000005ab52536a51ffffffffbeceb68a4715f99ba50e131884d8d20f4a179313691150adf0ebf29d05f8770303000000066352ab00ac63ffffffff021fddb90000000000036a656322a177000000000008526500ac5100acac84839083',
+    '52acab53ac',
+    0,
+    1407879325,
+    'db0329439490efc64b7104d6d009b03fbc6fac597cf54fd786fbbb5fd73b92b4'
+  ],
+  [
+    'fd22ebaa03bd588ad16795bea7d4aa7f7d48df163d75ea3afebe7017ce2f350f6a0c1cb0bb00000000086aabac5153526363ffffffff488e0bb22e26a565d77ba07178d17d8f85702630ee665ec35d152fa05af3bda10200000004515163abffffffffeb21035849e85ad84b2805e1069a91bb36c425dc9c212d9bae50a95b6bfde1200300000001ab5df262fd02b69848040000000008ab6363636a6363ace23bf2010000000007655263635253534348c1da',
+    '006353526563516a00',
+    0,
+    -1491036196,
+    '92364ba3c7a85d4e88885b8cb9b520dd81fc29e9d2b750d0790690e9c1246673'
+  ],
+  [
+    '130b462d01dd49fac019dc4442d0fb54eaa6b1c2d1ad0197590b7df26969a67abd7f3fbb4f0100000008ac65abac53ab6563ffffffff0345f825000000000004ac53acac9d5816020000000002ababeff8e90500000000086aab006552ac6a53a892dc55',
+    'ab0065ac530052',
+    0,
+    944483412,
+    '1f4209fd4ce7f13d175fdd522474ae9b34776fe11a5f17a27d0796c77a2a7a9d'
+  ],
+  [
+    'f8e50c2604609be2a95f6d0f31553081f4e1a49a0a30777fe51eb1c596c1a9a92c053cf28c0300000009656a51ac5252630052fffffffff792ed0132ae2bd2f11d4a2aab9d0c4fbdf9a66d9ae2dc4108afccdc14d2b1700100000007ab6a6563ac636a7bfb2fa116122b539dd6a2ab089f88f3bc5923e5050c8262c112ff9ce0a3cd51c6e3e84f02000000066551ac5352650d5e687ddf4cc9a497087cabecf74d236aa4fc3081c3f67b6d323cba795e10e7a171b725000000000852635351ab635100ffffffff02df5409020000000008ac6a53acab5151004156990200000000045163655200000000',
+    'ac53abac65005300',
+    0,
+    -173065000,
+    'b596f206d7eba22b7e2d1b7a4f4cf69c7c541b6c84dcc943f84e19a99a923310'
+  ],
+  [
+    '18020dd1017f149eec65b2ec23300d8df0a7dd64fc8558b36907723c03cd1ba672bbb0f51d0300000005ab65ab6a63ffffffff037cd7ae000000000009ab516a65005352ac65f1e4360400000000056353530053f118f0040000000009536363ab006500abac00000000',
+    '63ab51acab52ac',
+    0,
+    -550412404,
+    'e19b796c14a0373674968e342f2741d8b51092a5f8409e9bff7dcd52e56fcbcb'
+  ],
+  [
+    'b04154610363fdade55ceb6942d5e5a723323863b48a0cb04fdcf56210717955763f56b08d0300000009ac526a525151635151ffffffff93a176e76151a9eabdd7af00ef2af72f9e7af5ecb0aa4d45d00618f394cdd03c030000000074d818b332ebe05dc24c44d776cf9d275c61f471cc01efce12fd5a16464157f1842c65cb00000000066a0000ac6352d3c4134f01d8a1c0030000000005520000005200000000',
+    '5200656a656351',
+    2,
+    -9757957,
+    '6e3e5ba77f760b6b5b5557b13043f1262418f3dd2ce7f0298b012811fc8ad5bc'
+  ],
+  [
+    '9794b3ce033df7b1e32db62d2f0906b589eacdacf5743963dc2255b6b9a6cba211fadd0d41020000000600ab00650065ffffffffaae00687a6a4131152bbcaafedfaed461c86754b0bde39e2bef720e6d1860a0302000000070065516aac6552ffffffff50e4ef784d6230df7486e972e8918d919f005025bc2d9aacba130f58bed7056703000000075265ab52656a52ffffffff02c6f1a9000000000006005251006363cf450c040000000008abab63510053abac00000000',
+    'ac0063ababab515353',
+    1,
+    2063905082,
+    'fad092fc98f17c2c20e10ba9a8eb44cc2bcc964b006f4da45cb9ceb249c69698'
+  ],
+  [
+    '94533db7015e70e8df715066efa69dbb9c3a42ff733367c18c22ff070392f988f3b93920820000000006535363636300ce4dac3e03169af80300000000080065ac6a53ac65ac39c050020000000006abacab6aacac708a02050000000005ac5251520000000000',
+    '6553',
+    0,
+    -360458507,
+    '5418cf059b5f15774836edd93571e0eed3855ba67b2b08c99dccab69dc87d3e9'
+  ],
+  [
+    'c8597ada04f59836f06c224a2640b79f3a8a7b41ef3efa2602592ddda38e7597da6c639fee0300000009005251635351acabacffffffff4c518f347ee694884b9d4072c9e916b1a1f0a7fc74a1c90c63fdf8e5a185b6ae02000000007113af55afb41af7518ea6146786c7c726641c68c8829a52925e8d4afd07d8945f68e7230300000008ab00ab65ab650063ffffffffc28e46d7598312c420e11dfaae12add68b4d85adb182ae5b28f8340185394b63000000000165ffffffff04dbabb7010000000000ee2f6000000000000852ab6500ab6a51acb62a27000000000009ac53515300ac006a6345fb7505000000000752516a0051636a00000000',
+    '',
+    3,
+    15199787,
+    '0d66003aff5bf78cf492ecbc8fd40c92891acd58d0a271be9062e035897f317e'
+  ],
+  [
+    '1a28c4f702c8efaad96d879b38ec65c5283b5c084b819ad7db1c086e85e32446c7818dc7a90300000008656351536a525165fa78cef86c982f1aac9c5eb8b707aee8366f74574c8f42ef240599c955ef4401cf578be30200000002ab518893292204c430eb0100000000016503138a0300000000040053abac60e0eb010000000005525200ab63567c2d030000000004abab52006cf81e85',
+    'ab51525152',
+    1,
+    2118315905,
+    '4e4c9a781f626b59b1d3ad8f2c488eb6dee8bb19b9bc138bf0dc33e7799210d4'
+  ],
+  [
+    'c6c7a87003f772bcae9f3a0ac5e499000b68703e1804b9ddc3e73099663564d53ddc4e1c6e01000000076a536a6aac63636e3102122f4c30056ef8711a6bf11f641ddfa6984c25ac38c3b3e286e74e839198a80a34010000000165867195cd425821dfa2f279cb1390029834c06f018b1e6af73823c867bf3a0524d1d6923b0300000005acab53ab65ffffffff02fa4c49010000000008ab656a0052650053e001100400000000008836d972',
+    'ac526351acab',
+    1,
+    978122815,
+    'a869c18a0edf563d6e5eddd5d5ae8686f41d07f394f95c9feb8b7e52761531ca'
+  ],
+  [
+    '0ea580ac04c9495ab6af3b8d59108bb4194fcb9af90b3511c83f7bb046d87aedbf8423218e02000000085152acac006363ab9063d7dc25704e0caa5edde1c6f2dd137ded379ff597e055b2977b9c559b07a7134fcef2000000000200aca89e50181f86e9854ae3b453f239e2847cf67300fff802707c8e3867ae421df69274449402000000056365abababffffffff47a4760c881a4d7e51c69b69977707bd2fb3bcdc300f0efc61f5840e1ac72cee0000000000ffffffff0460179a020000000004ab53ab52a5250c0500000000096565acac6365ab52ab6c281e02000000000952635100ac006563654e55070400000000046552526500000000',
+    'ab526563acac53ab',
+    2,
+    1426964167,
+    'b1c50d58b753e8f6c7513752158e9802cf0a729ebe432b99acc0fe5d9b4e9980'
+  ],
+  [
+    'c33028b301d5093e1e8397270d75a0b009b2a6509a01861061ab022ca122a6ba935b8513320200000000ffffffff013bcf5a0500000000015200000000',
+    '',
+    0,
+    -513413204,
+    '6b1459536f51482f5dbf42d7e561896557461e1e3b6bf67871e2b51faae2832c'
+  ],
+  [
+    '43b2727901a7dd06dd2abf690a1ccedc0b0739cb551200796669d9a25f24f71d8d101379f50300000000ffffffff0418e031040000000000863d770000000000085352ac526563ac5174929e040000000004ac65ac00ec31ac0100000000066a51ababab5300000000',
+    '65',
+    0,
+    -492874289,
+    '154ff7a9f0875edcfb9f8657a0b98dd9600fabee3c43eb88af37cf99286d516c'
+  ],
+  [
+    '4763ed4401c3e6ab204bed280528e84d5288f9cac5fb8a2e7bd699c7b98d4df4ac0c40e55303000000066a6aacab5165ffffffff015b57f80400000000046a63535100000000',
+    'ac51abab53',
+    0,
+    -592611747,
+    '849033a2321b5755e56ef4527ae6f51e30e3bca50149d5707368479723d744f8'
+  ],
+  [
+    'd24f647b02f71708a880e6819a1dc929c1a50b16447e158f8ff62f9ccd644e0ca3c592593702000000050053536a00ffffffff67868cd5414b6ca792030b18d649de5450a456407242b296d936bcf3db79e07b02000000005af6319c016022f50100000000036a516300000000',
+    '6aab526353516a6a',
+    0,
+    1350782301,
+    '8556fe52d1d0782361dc28baaf8774b13f3ce5ed486ae0f124b665111e08e3e3'
+  ],
+  [
+    'fe6ddf3a02657e42a7496ef170b4a8caf245b925b91c7840fd28e4a22c03cb459cb498b8d603000000065263656a650071ce6bf8d905106f9f1faf6488164f3decac65bf3c5afe1dcee20e6bc3cb6d052561985a030000000163295b117601343dbb0000000000026563dba521df',
+    '',
+    1,
+    -1696179931,
+    'd9684685c99ce48f398fb467a91a1a59629a850c429046fb3071f1fa9a5fe816'
+  ],
+  [
+    'c61523ef0129bb3952533cbf22ed797fa2088f307837dd0be1849f20decf709cf98c6f032f03000000026563c0f1d378044338310400000000066363516a5165a14fcb0400000000095163536a6a00ab53657271d60200000000001d953f0500000000010000000000',
+    '53516353005153',
+    0,
+    1141615707,
+    '7e975a72db5adaa3c48d525d9c28ac11cf116d0f8b16ce08f735ad75a80aec66'
+  ],
+  [
+    'ba3dac6c0182562b0a26d475fe1e36315f0913b6869bdad0ecf21f1339a5fcbccd32056c840200000000ffffffff04300351050000000000220ed405000000000851abac636565ac53dbbd19020000000007636363ac6a52acbb005a0500000000016abd0c78a8',
+    '63006a635151005352',
+    0,
+    1359658828,
+    '47bc8ab070273e1f4a0789c37b45569a6e16f3f3092d1ce94dddc3c34a28f9f4'
+  ],
+  [
+    'ac27e7f5025fc877d1d99f7fc18dd4cadbafa50e34e1676748cc89c202f93abf36ed46362101000000036300abffffffff958cd5381962b765e14d87fc9524d751e4752dd66471f973ed38b9d562e525620100000003006500ffffffff02b67120050000000004ac51516adc330c0300000000015200000000',
+    '656352',
+    1,
+    15049991,
+    'f3374253d64ac264055bdbcc32e27426416bd595b7c7915936c70f839e504010'
+  ],
+  [
+    'edb30140029182b80c8c3255b888f7c7f061c4174d1db45879dca98c9aab8c8fed647a6ffc03000000086a53510052ab6300ffffffff82f65f261db62d517362c886c429c8fbbea250bcaad93356be6f86ba573e9d930100000000ffffffff04daaf150400000000016a86d1300100000000096a6353535252ac5165d4ddaf000000000002abab5f1c6201000000000000000000',
+    'ab6a6a00ac',
+    0,
+    -2058017816,
+    '8d7794703dad18e2e40d83f3e65269834bb293e2d2b8525932d6921884b8f368'
+  ],
+  [
+    '7e50207303146d1f7ad62843ae8017737a698498d4b9118c7a89bb02e8370307fa4fada41d000000000753006300005152b7afefc85674b1104ba33ef2bf37c6ed26316badbc0b4aa6cb8b00722da4f82ff3555a6c020000000900ac656363ac51ac52ffffffff93fab89973bd322c5d7ad7e2b929315453e5f7ada3072a36d8e33ca8bebee6e0020000000300acab930da52b04384b04000000000004650052ac435e380200000000076a6a515263ab6aa9494705000000000600ab6a525252af8ba90100000000096565acab526353536a279b17ad',
+    'acac005263536aac63',
+    1,
+    -34754133,
+    '4e6357da0057fb7ff79da2cc0f20c5df27ff8b2f8af4c1709e6530459f7972b0'
+  ],
+  [
+    'c05764f40244fb4ebe4c54f2c5298c7c798aa90e62c29709acca0b4c2c6ec08430b26167440100000008acab6a6565005253ffffffffc02c2418f398318e7f34a3cf669d034eef2111ea95b9f0978b01493293293a870100000000e563e2e00238ee8d040000000002acab03fb060200000000076500ac656a516aa37f5534',
+    '52ab6a0065',
+    1,
+    -2033176648,
+    '83deef4a698b62a79d4877dd9afebc3011a5275dbe06e89567e9ef84e8a4ee19'
+  ],
+  [
+    '5a59e0b9040654a3596d6dab8146462363cd6549898c26e2476b1f6ae42915f73fd9aedfda00000000036363abffffffff9ac9e9ca90be0187be2214251ff08ba118e6bf5e2fd1ba55229d24e50a510d53010000000165ffffffff41d42d799ac4104644969937522873c0834cc2fcdab7cdbecd84d213c0e96fd60000000000ffffffffd838db2c1a4f30e2eaa7876ef778470f8729fcf258ad228b388df2488709f8410300000000fdf2ace002ceb6d903000000000265654c1310040000000003ac00657e91c0ec',
+    '536a63ac',
+    0,
+    82144555,
+    '98ccde2dc14d14f5d8b1eeea5364bd18fc84560fec2fcea8de4d88b49c00695e'
+  ],
+  [
+    '156ebc8202065d0b114984ee98c097600c75c859bfee13af75dc93f57c313a877efb09f230010000000463536a51ffffffff81114e8a697be3ead948b43b5005770dd87ffb1d5ccd4089fa6c8b33d3029e9c03000000066a5251656351ffffffff01a87f140000000000050000ac51ac00000000',
+    '00',
+    0,
+    -362221092,
+    'a903c84d8c5e71134d1ab6dc1e21ac307c4c1a32c90c90f556f257b8a0ec1bf5'
+  ],
+  [
+    '15e37793023c7cbf46e073428908fce0331e49550f2a42b92468827852693f0532a01c29f70200000007005353636351acffffffff38426d9cec036f00eb56ec1dcd193647e56a7577278417b8a86a78ac53199bc403000000056353006a53ffffffff04a25ce103000000000900ab5365656a526a63c8eff7030000000004526353537ab6db0200000000016a11a3fa02000000000651acacab526500000000',
+    '53ac6aab6a6551',
+    0,
+    1117532791,
+    '83c68b3c5a89260ce16ce8b4dbf02e1f573c532d9a72f5ea57ab419fa2630214'
+  ],
+  [
+    'f7a09f10027250fc1b70398fb5c6bffd2be9718d3da727e841a73596fdd63810c9e4520a6a010000000963ac516a636a65acac1d2e2c57ab28d311edc4f858c1663972eebc3bbc93ed774801227fda65020a7ec1965f780200000005ac5252516a8299fddc01dcbf7200000000000463ac6551960fda03',
+    '65acab51',
+    1,
+    2017321737,
+    '9c5fa02abfd34d0f9dec32bf3edb1089fca70016debdb41f4f54affcb13a2a2a'
+  ],
+  [
+    '6d97a9a5029220e04f4ccc342d8394c751282c328bf1c132167fc05551d4ca4da4795f6d4e02000000076a0052ab525165ffffffff9516a205e555fa2a16b73e6db6c223a9e759a7e09c9a149a8f376c0a7233fa1b0100000007acab51ab63ac6affffffff04868aed04000000000652ac65ac536a396edf01000000000044386c0000000000076aab5363655200894d48010000000001ab8ebefc23',
+    '6351526aac51',
+    1,
+    1943666485,
+    'f0bd4ca8e97203b9b4e86bc24bdc8a1a726db5e99b91000a14519dc83fc55c29'
+  ],
+  [
+    '8e3fddfb028d9e566dfdda251cd874cd3ce72e9dde837f95343e90bd2a93fe21c5daeb5eed01000000045151525140517dc818181f1e7564b8b1013fd68a2f9a56bd89469686367a0e72c06be435cf99db750000000003635251ffffffff01c051780300000000096552ababac6a65acab099766eb',
+    '5163ab6a52ababab51',
+    1,
+    1296295812,
+    '5509eba029cc11d7dd2808b8c9eb47a19022b8d8b7778893459bbc19ab7ea820'
+  ],
+  [
+    'a603f37b02a35e5f25aae73d0adc0b4b479e68a734cf722723fd4e0267a26644c36faefdab0200000000ffffffff43374ad26838bf733f8302585b0f9c22e5b8179888030de9bdda180160d770650200000001004c7309ce01379099040000000005526552536500000000',
+    'abababab005153',
+    0,
+    1409936559,
+    '4ca73da4fcd5f1b10da07998706ffe16408aa5dff7cec40b52081a6514e3827e'
+  ],
+  [
+    '9eeedaa8034471a3a0e3165620d1743237986f060c4434f095c226114dcb4b4ec78274729f03000000086a5365510052ac6afb505af3736e347e3f299a58b1b968fce0d78f7457f4eab69240cbc40872fd61b5bf8b120200000002ac52df8247cf979b95a4c97ecb8edf26b3833f967020cd2fb25146a70e60f82c9ee4b14e88b103000000008459e2fa0125cbcd05000000000000000000',
+    '52ab5352006353516a',
+    0,
+    -1832576682,
+    'fb018ae54206fdd20c83ae5873ec82b8e320a27ed0d0662db09cda8a071f9852'
+  ],
+  [
+    '05921d7c048cf26f76c1219d0237c226454c2a713c18bf152acc83c8b0647a94b13477c07f0300000003ac526afffffffff2f494453afa0cabffd1ba0a626c56f90681087a5c1bd81d6adeb89184b27b7402000000036a6352ffffffff0ad10e2d3ce355481d1b215030820da411d3f571c3f15e8daf22fe15342fed04000000000095f29f7b93ff814a9836f54dc6852ec414e9c4e16a506636715f569151559100ccfec1d100000000055263656a53ffffffff04f4ffef010000000008ac6a6aabacabab6a0e6689040000000006ab536a5352abe364d005000000000965536363655251ab53807e00010000000004526aab63f18003e3',
+    '6363ac51',
+    3,
+    -375891099,
+    '001b0b176f0451dfe2d9787b42097ceb62c70d324e925ead4c58b09eebdf7f67'
+  ],
+  [
+    'b9b44d9f04b9f15e787d7704e6797d51bc46382190c36d8845ec68dfd63ee64cf7a467b21e00000000096aac00530052ab636aba1bcb110a80c5cbe073f12c739e3b20836aa217a4507648d133a8eedd3f02cb55c132b203000000076a000063526352b1c288e3a9ff1f2da603f230b32ef7c0d402bdcf652545e2322ac01d725d75f5024048ad0100000000ffffffffffd882d963be559569c94febc0ef241801d09dc69527c9490210f098ed8203c700000000056a006300ab9109298d01719d9a0300000000066a52ab006365d7894c5b',
+    'ac6351650063636a',
+    3,
+    -622355349,
+    'ac87b1b93a6baab6b2c6624f10e8ebf6849b0378ef9660a3329073e8f5553c8d'
+  ],
+  [
+    'ff60473b02574f46d3e49814c484081d1adb9b15367ba8487291fc6714fd6e3383d5b335f001000000026a6ae0b82da3dc77e5030db23d77b58c3c20fa0b70aa7d341a0f95f3f72912165d751afd57230300000008ac536563516a6363ffffffff04f86c0200000000000553acab636ab13111000000000003510065f0d3f305000000000951ab516a65516aabab730a3a010000000002515200000000',
+    'ac6a',
+    1,
+    1895032314,
+    '0767e09bba8cd66d55915677a1c781acd5054f530d5cf6de2d34320d6c467d80'
+  ],
+  [
+    'f218026204f4f4fc3d3bd0eada07c57b88570d544a0436ae9f8b753792c0c239810bb30fbc0200000002536affffffff8a468928d6ec4cc10aa0f73047697970e99fa64ae8a3b4dca7551deb0b639149010000000851ab520052650051ffffffffa98dc5df357289c9f6873d0f5afcb5b030d629e8f23aa082cf06ec9a95f3b0cf0000000000ffffffffea2c2850c5107705fd380d6f29b03f533482fd036db88739122aac9eff04e0aa010000000365536a03bd37db034ac4c4020000000007515152655200ac33b27705000000000151efb71e0000000000007b65425b',
+    '515151',
+    3,
+    -1772252043,
+    'de35c84a58f2458c33f564b9e58bc57c3e028d629f961ad1b3c10ee020166e5a'
+  ],
+  [
+    '48e7d42103b260b27577b70530d1ac2fed2551e9dd607cbcf66dca34bb8c03862cf8f5fd5401000000075151526aacab00ffffffff1e3d3b841552f7c6a83ee379d9d66636836673ce0b0eda95af8f2d2523c91813030000000665acac006365ffffffff388b3c386cd8c9ef67c83f3eaddc79f1ff910342602c9152ffe8003bce51b28b0100000008636363006a636a52ffffffff04b8f67703000000000852005353ac6552520cef720200000000085151ab6352ab00ab5096d6030000000005516a005100662582020000000001ac6c137280',
+    '6a65',
+    1,
+    1513618429,
+    'e2fa3e1976aed82c0987ab30d4542da2cb1cffc2f73be13480132da8c8558d5c'
+  ],
+  [
+    '91ebc4cf01bc1e068d958d72ee6e954b196f1d85b3faf75a521b88a78021c543a06e056279000000000265ab7c12df0503832121030000000000cc41a6010000000005ab5263516540a951050000000006ab63ab65acac00000000',
+    '526a0065636a6a6aac',
+    0,
+    -614046478,
+    '7de4ba875b2e584a7b658818c112e51ee5e86226f5a80e5f6b15528c86400573'
+  ],
+  [
+    '3cd4474201be7a6c25403bf00ca62e2aa8f8f4f700154e1bb4d18c66f7bb7f9b975649f0dc0100000006535151535153ffffffff01febbeb000000000006005151006aac00000000',
+    '',
+    0,
+    -1674687131,
+    '6b77ca70cc452cc89acb83b69857cda98efbfc221688fe816ef4cb4faf152f86'
+  ],
+  [
+    '92fc95f00307a6b3e2572e228011b9c9ed41e58ddbaefe3b139343dbfb3b34182e9fcdc3f50200000002acab847bf1935fde8bcfe41c7dd99683289292770e7f163ad09deff0e0665ed473cd2b56b0f40300000006516551ab6351294dab312dd87b9327ce2e95eb44b712cfae0e50fda15b07816c8282e8365b643390eaab01000000026aacffffffff016e0b6b040000000001ac00000000',
+    '650065acac005300',
+    2,
+    -1885164012,
+    'bd7d26bb3a98fc8c90c972500618bf894cb1b4fe37bf5481ff60eef439d3b970'
+  ],
+  [
+    '4db591ab018adcef5f4f3f2060e41f7829ce3a07ea41d681e8cb70a0e37685561e4767ac3b0000000005000052acabd280e63601ae6ef20000000000036a636326c908f7',
+    'ac6a51526300630052',
+    0,
+    862877446,
+    '355ccaf30697c9c5b966e619a554d3323d7494c3ea280a9b0dfb73f953f5c1cb'
+  ],
+  [
+    '503fd5ef029e1beb7b242d10032ac2768f9a1aca0b0faffe51cec24770664ec707ef7ede4f01000000045253ac53375e350cc77741b8e96eb1ce2d3ca91858c052e5f5830a0193200ae2a45b413dda31541f0000000003516553ffffffff0175a5ba0500000000015200000000',
+    '6aab65510053ab65',
+    1,
+    1603081205,
+    '353ca9619ccb0210ae18b24d0e57efa7abf8e58fa6f7102738e51e8e72c9f0c4'
+  ],
+  [
+    'c80abebd042cfec3f5c1958ee6970d2b4586e0abec8305e1d99eb9ee69ecc6c2cbd76374380000000007ac53006300ac510acee933b44817db79320df8094af039fd82111c7726da3b33269d3820123694d849ee5001000000056a65ab526562699bea8530dc916f5d61f0babea709dac578774e8a4dcd9c640ec3aceb6cb2443f24f302000000020063ea780e9e57d1e4245c1e5df19b4582f1bf704049c5654f426d783069bcc039f2d8fa659f030000000851ab53635200006a8d00de0b03654e8500000000000463ab635178ebbb0400000000055100636aab239f1d030000000006ab006300536500000000',
+    '6565ac515100',
+    3,
+    1460851377,
+    'b35bb1b72d02fab866ed6bbbea9726ab32d968d33a776686df3ac16aa445871e'
+  ],
+  [
+    '0337b2d5043eb6949a76d6632b8bb393efc7fe26130d7409ef248576708e2d7f9d0ced9d3102000000075352636a5163007034384dfa200f52160690fea6ce6c82a475c0ef1caf5c9e5a39f8f9ddc1c8297a5aa0eb02000000026a51ffffffff38e536298799631550f793357795d432fb2d4231f4effa183c4e2f61a816bcf0030000000463ac5300706f1cd3454344e521fde05b59b96e875c8295294da5d81d6cc7efcfe8128f150aa54d6503000000008f4a98c704c1561600000000000072cfa6000000000000e43def01000000000100cf31cc0500000000066365526a6500cbaa8e2e',
+    '',
+    3,
+    2029506437,
+    '7615b4a7b3be865633a31e346bc3db0bcc410502c8358a65b8127089d81b01f8'
+  ],
+  [
+    '59f6cffd034733f4616a20fe19ea6aaf6abddb30b408a3a6bd86cd343ab6fe90dc58300cc90200000000ffffffffc835430a04c3882066abe7deeb0fa1fdaef035d3233460c67d9eabdb05e95e5a02000000080065ac535353ab00ffffffff4b9a043e89ad1b4a129c8777b0e8d87a014a0ab6a3d03e131c27337bbdcb43b402000000066a5100abac6ad9e9bf62014bb118010000000001526cbe484f',
+    'ab526352ab65',
+    0,
+    2103515652,
+    '4f2ccf981598639bec57f885b4c3d8ea8db445ea6e61cfd45789c69374862e5e'
+  ],
+  [
+    'cbc79b10020b15d605680a24ee11d8098ad94ae5203cb6b0589e432832e20c27b72a926af20300000006ab65516a53acbb854f3146e55c508ece25fa3d99dbfde641a58ed88c051a8a51f3dacdffb1afb827814b02000000026352c43e6ef30302410a020000000000ff4bd90100000000065100ab63000008aa8e0400000000095265526565ac5365abc52c8a77',
+    '53526aac0051',
+    0,
+    202662340,
+    '984efe0d8d12e43827b9e4b27e97b3777ece930fd1f589d616c6f9b71dab710e'
+  ],
+  [
+    '7c07419202fa756d29288c57b5c2b83f3c847a807f4a9a651a3f6cd6c46034ae0aa3a7446b0200000004ab6a6365ffffffff9da83cf4219bb96c76f2d77d5df31c1411a421171d9b59ec02e5c1218f29935403000000008c13879002f8b1ac0400000000086a63536a636553653c584f02000000000000000000',
+    'abac53ab656363',
+    1,
+    -1038419525,
+    '4a74f365a161bc6c9bddd249cbd70f5dadbe3de70ef4bd745dcb6ee1cd299fbd'
+  ],
+  [
+    '351cbb57021346e076d2a2889d491e9bfa28c54388c91b46ee8695874ad9aa576f1241874d0200000008ab6563525300516affffffffe13e61b8880b8cd52be4a59e00f9723a4722ea58013ec579f5b3693b9e115b1100000000096363abac5252635351ffffffff027fee02040000000008ab6a5200ab006a65b85f130200000000086a52630053ab52ab00000000',
+    'ab6aab65',
+    1,
+    586415826,
+    '08bbb746a596991ab7f53a76e19acad087f19cf3e1db54054aab403c43682d09'
+  ],
+  [
+    'a8252ea903f1e8ff953adb16c1d1455a5036222c6ea98207fc21818f0ece2e1fac310f9a0100000000095163ac635363ac0000be6619e9fffcde50a0413078821283ce3340b3993ad00b59950bae7a9f931a9b0a3a035f010000000463005300b8b0583fbd6049a1715e7adacf770162811989f2be20af33f5f60f26eba653dc26b024a00000000006525351636552ffffffff046d2acc030000000002636a9a2d430500000000080065005165ab53abecf63204000000000052b9ed050000000008acacac53ab65656500000000',
+    '65ab53635253636a51',
+    2,
+    1442639059,
+    '8ca11838775822f9a5beee57bdb352f4ee548f122de4a5ca61c21b01a1d50325'
+  ],
+  [
+    '2f1a425c0471a5239068c4f38f9df135b1d24bf52d730d4461144b97ea637504495aec360801000000055300515365c71801dd1f49f376dd134a9f523e0b4ae611a4bb122d8b26de66d95203f181d09037974300000000025152ffffffff9bdcea7bc72b6e5262e242c94851e3a5bf8f314b3e5de0e389fc9e5b3eadac030000000009525265655151005153ffffffffdbb53ce99b5a2320a4e6e2d13b01e88ed885a0957d222e508e9ec8e4f83496cb0200000007635200abac63ac04c96237020cc5490100000000080000516a51ac6553074a360200000000025152225520ca',
+    '6551ab65ac65516a',
+    1,
+    -489869549,
+    '9bc5bb772c553831fb40abe466074e59a469154679c7dee042b8ea3001c20393'
+  ],
+  [
+    'ef3acfd4024defb48def411b8f8ba2dc408dc9ee97a4e8bde4d6cb8e10280f29c98a6e8e9103000000035100513d5389e3d67e075469dfd9f204a7d16175653a149bd7851619610d7ca6eece85a516b2df0300000005516aac6552ca678bdf02f477f003000000000057e45b0300000000055252525252af35c20a',
+    '5165ac53ab',
+    1,
+    -1900839569,
+    '78eb6b24365ac1edc386aa4ffd15772f601059581c8776c34f92f8a7763c9ccf'
+  ],
+  [
+    'ff4468dc0108475fc8d4959a9562879ce4ab4867a419664bf6e065f17ae25043e6016c70480100000000ffffffff02133c6f0400000000000bd0a8020000000004006a520035afa4f6',
+    '51ac65ab',
+    0,
+    -537664660,
+    'f6da59b9deac63e83728850ac791de61f5dfcaeed384ebcbb20e44afcd8c8910'
+  ],
+  [
+    '4e8594d803b1d0a26911a2bcdd46d7cbc987b7095a763885b1a97ca9cbb747d32c5ab9aa91030000000353ac53a0cc4b215e07f1d648b6eeb5cdbe9fa32b07400aa773b9696f582cebfd9930ade067b2b200000000060065abab6500fc99833216b8e27a02defd9be47fafae4e4a97f52a9d2a210d08148d2a4e5d02730bcd460100000004516351ac37ce3ae1033baa55040000000006006a636a63acc63c990400000000025265eb1919030000000005656a6a516a00000000',
+    '',
+    1,
+    -75217178,
+    '04c5ee48514cd033b82a28e336c4d051074f477ef2675ce0ce4bafe565ee9049'
+  ],
+  [
+    'a88830a7023f13ed19ab14fd757358eb6af10d6520f9a54923a6d613ac4f2c11e249cda8aa030000000851630065abababacffffffff8f5fe0bc04a33504c4b47e3991d25118947a0261a9fa520356731eeabd561dd3020000000363ababffffffff038404bd010000000008ab5153516aab6a63d33a5601000000000263004642dc020000000009655152acac636352004be6f3af',
+    '5253536565006aab6a',
+    0,
+    1174417836,
+    '2e42ead953c9f4f81b72c27557e6dc7d48c37ff2f5c46c1dbe9778fb0d79f5b2'
+  ],
+  [
+    '44e1a2b4010762af23d2027864c784e34ef322b6e24c70308a28c8f2157d90d17b99cd94a401000000085163656565006300ffffffff0198233d020000000002000000000000',
+    '52525153656365',
+    0,
+    1119696980,
+    'd9096de94d70c6337da6202e6e588166f31bff5d51bb5adc9468594559d65695'
+  ],
+  [
+    '44ca65b901259245abd50a745037b17eb51d9ce1f41aa7056b4888285f48c6f26cb97b7a25020000000552636363abffffffff047820350400000000040053acab14f3e603000000000652635100ab630ce66c03000000000001bdc704000000000765650065ac51ac3e886381',
+    '51',
+    0,
+    -263340864,
+    'ed5622ac642d11f90e68c0feea6a2fe36d880ecae6b8c0d89c4ea4b3d162bd90'
+  ],
+  [
+    'cfa147d2017fe84122122b4dda2f0d6318e59e60a7207a2d00737b5d89694d480a2c26324b0000000006006351526552ffffffff0456b5b804000000000800516aab525363ab166633000000000004655363ab254c0e02000000000952ab6a6a00ab525151097c1b020000000009656a52ac6300530065ad0d6e50',
+    '6a535165ac6a536500',
+    0,
+    -574683184,
+    'f926d4036eac7f019a2b0b65356c4ee2fe50e089dd7a70f1843a9f7bc6997b35'
+  ],
+  [
+    '91c5d5f6022fea6f230cc4ae446ce040d8313071c5ac1749c82982cc1988c94cb1738aa48503000000016a19e204f30cb45dd29e68ff4ae160da037e5fc93538e21a11b92d9dd51cf0b5efacba4dd70000000005656a6aac51ffffffff03db126905000000000953006a53ab6563636a36a273030000000006656a52656552b03ede00000000000352516500000000',
+    '530052526a00',
+    1,
+    1437328441,
+    '255c125b60ee85f4718b2972174c83588ee214958c3627f51f13b5fb56c8c317'
+  ],
+  [
+    '03f20dc202c886907b607e278731ebc5d7373c348c8c66cac167560f19b341b782dfb634cb03000000076a51ac6aab63abea3e8de7adb9f599c9caba95aa3fa852e947fc88ed97ee50e0a0ec0d14d164f44c0115c10100000004ab5153516fdd679e0414edbd000000000005ac636a53512021f2040000000007006a0051536a52c73db2050000000005525265ac5369046e000000000003ab006a1ef7bd1e',
+    '52656a',
+    0,
+    1360223035,
+    '5a0a05e32ce4cd0558aabd5d79cd5fcbffa95c07137506e875a9afcba4bef5a2'
+  ],
+  [
+    'd9611140036881b61e01627078512bc3378386e1d4761f959d480fdb9d9710bebddba2079d020000000763536aab5153ab819271b41e228f5b04daa1d4e72c8e1955230accd790640b81783cfc165116a9f535a74c000000000163ffffffffa2e7bb9a28e810624c251ff5ba6b0f07a356ac082048cf9f39ec036bba3d431a02000000076a000000ac65acffffffff01678a820000000000085363515153ac635100000000',
+    '535353',
+    2,
+    -82213851,
+    '52b9e0778206af68998cbc4ebdaad5a9469e04d0a0a6cef251abfdbb74e2f031'
+  ],
+  [
+    '98b3a0bf034233afdcf0df9d46ac65be84ef839e58ee9fa59f32daaa7d684b6bdac30081c60200000007636351acabababffffffffc71cf82ded4d1593e5825618dc1d5752ae30560ecfaa07f192731d68ea768d0f0100000006650052636563f3a2888deb5ddd161430177ce298242c1a86844619bc60ca2590d98243b5385bc52a5b8f00000000095365acacab520052ac50d4722801c3b8a60300000000035165517e563b65',
+    '51',
+    1,
+    -168940690,
+    'b6b684e2d2ecec8a8dce4ed3fc1147f8b2e45732444222aa8f52d860c2a27a9d'
+  ],
+  [
+    '97be4f7702dc20b087a1fdd533c7de762a3f2867a8f439bddf0dcec9a374dfd0276f9c55cc0300000000cdfb1dbe6582499569127bda6ca4aaff02c132dc73e15dcd91d73da77e92a32a13d1a0ba0200000002ab51ffffffff048cfbe202000000000900516351515363ac535128ce0100000000076aac5365ab6aabc84e8302000000000863536a53ab6a6552f051230500000000066aac535153510848d813',
+    'ac51',
+    0,
+    229541474,
+    'e5da9a416ea883be1f8b8b2d178463633f19de3fa82ae25d44ffb531e35bdbc8'
+  ],
+  [
+    '085b6e04040b5bff81e29b646f0ed4a45e05890a8d32780c49d09643e69cdccb5bd81357670100000001abffffffffa5c981fe758307648e783217e3b4349e31a557602225e237f62b636ec26df1a80300000004650052ab4792e1da2930cc90822a8d2a0a91ea343317bce5356b6aa8aae6c3956076aa33a5351a9c0300000004abac5265e27ddbcd472a2f13325cc6be40049d53f3e266ac082172f17f6df817db1936d9ff48c02b000000000152ffffffff021aa7670500000000085353635163ab51ac14d584000000000001aca4d136cc',
+    '6a525300536352536a',
+    0,
+    -1398925877,
+    '41ecca1e8152ec55074f4c39f8f2a7204dda48e9ec1e7f99d5e7e4044d159d43'
+  ],
+  [
+    'eec32fff03c6a18b12cd7b60b7bdc2dd74a08977e53fdd756000af221228fe736bd9c42d870100000007005353ac515265ffffffff037929791a188e9980e8b9cc154ad1b0d05fb322932501698195ab5b219488fc02000000070063510065ab6a0bfc176aa7e84f771ea3d45a6b9c24887ceea715a0ff10ede63db8f089e97d927075b4f1000000000551abab63abffffffff02eb933c000000000000262c420000000000036563632549c2b6',
+    '6352',
+    2,
+    1480445874,
+    'ff8a4016dfdd918f53a45d3a1f62b12c407cd147d68ca5c92b7520e12c353ff5'
+  ],
+  [
+    '98ea7eac0313d9fb03573fb2b8e718180c70ce647bebcf49b97a8403837a2556cb8c9377f30000000004ac53ac65ffffffff8caac77a5e52f0d8213ef6ce998bedbb50cfdf108954771031c0e0cd2a78423900000000010066e99a44937ebb37015be3693761078ad5c73aa73ec623ac7300b45375cc8eef36087eb80000000007515352acac5100ffffffff0114a51b02000000000000000000',
+    '6aacab',
+    0,
+    243527074,
+    'bad77967f98941af4dd52a8517d5ad1e32307c0d511e15461e86465e1b8b5273'
+  ],
+  [
+    '3ab70f4604e8fc7f9de395ec3e4c3de0d560212e84a63f8d75333b604237aa52a10da17196000000000763526a6553ac63a25de6fd66563d71471716fe59087be0dde98e969e2b359282cf11f82f14b00f1c0ac70f02000000050052516aacdffed6bb6889a13e46956f4b8af20752f10185838fd4654e3191bf49579c961f5597c36c0100000005ac636363abc3a1785bae5b8a1b4be5d0cbfadc240b4f7acaa7dfed6a66e852835df5eb9ac3c553766801000000036a65630733b7530218569602000000000952006a6a6a51acab52777f06030000000007ac0063530052abc08267c9',
+    '000000536aac0000',
+    1,
+    1919096509,
+    'df1c87cf3ba70e754d19618a39fdbd2970def0c1bfc4576260cba5f025b87532'
+  ],
+  [
+    'bdb6b4d704af0b7234ced671c04ba57421aba7ead0a117d925d7ebd6ca078ec6e7b93eea6600000000026565ffffffff3270f5ad8f46495d69b9d71d4ab0238cbf86cc4908927fbb70a71fa3043108e6010000000700516a65655152ffffffff6085a0fdc03ae8567d0562c584e8bfe13a1bd1094c518690ebcb2b7c6ce5f04502000000095251530052536a53aba576a37f2c516aad9911f687fe83d0ae7983686b6269b4dd54701cb5ce9ec91f0e6828390300000000ffffffff04cc76cc020000000002656a01ffb702000000000253ab534610040000000009acab006565516a00521f55f5040000000000389dfee9',
+    '6a525165',
+    0,
+    1336204763,
+    '71c294523c48fd7747eebefbf3ca06e25db7b36bff6d95b41c522fecb264a919'
+  ],
+  [
+    '54258edd017d22b274fbf0317555aaf11318affef5a5f0ae45a43d9ca4aa652c6e85f8a040010000000953ac65ab5251656500ffffffff03321d450000000000085265526a51526a529ede8b030000000003635151ce6065020000000001534c56ec1b',
+    'acac',
+    0,
+    2094130012,
+    '110d90fea9470dfe6c5048f45c3af5e8cc0cb77dd58fd13d338268e1c24b1ccc'
+  ],
+  [
+    'ce0d322e04f0ffc7774218b251530a7b64ebefca55c90db3d0624c0ff4b3f03f918e8cf6f60300000003656500ffffffff9cce943872da8d8af29022d0b6321af5fefc004a281d07b598b95f6dcc07b1830200000007abab515351acab8d926410e69d76b7e584aad1470a97b14b9c879c8b43f9a9238e52a2c2fefc2001c56af8010000000400ab5253cd2cd1fe192ce3a93b5478af82fa250c27064df82ba416dfb0debf4f0eb307a746b6928901000000096500abacac6a0063514214524502947efc0200000000035251652c40340100000000096a6aab52000052656a5231c54c',
+    '51',
+    2,
+    -2090320538,
+    '0322ca570446869ec7ec6ad66d9838cff95405002d474c0d3c17708c7ee039c6'
+  ],
+  [
+    '47ac54940313430712ebb32004679d3a512242c2b33d549bf5bbc8420ec1fd0850ed50eb6d0300000009536aac6a65acacab51ffffffffb843e44266ce2462f92e6bff54316661048c8c17ecb092cb493b39bfca9117850000000001519ab348c05e74ebc3f67423724a3371dd99e3bceb4f098f8860148f48ad70000313c4c223000000000653006565656512c2d8dc033f3c97010000000002636aa993aa010000000006526365ab526ab7cf560300000000076a0065ac6a526500000000',
+    '005352535300ab6a',
+    2,
+    59531991,
+    '8b5b3d00d9c658f062fe6c5298e54b1fe4ed3a3eab2a87af4f3119edc47b1691'
+  ],
+  [
+    '233cd90b043916fc41eb870c64543f0111fb31f3c486dc72457689dea58f75c16ae59e9eb2000000000500536a6a6affffffff9ae30de76be7cd57fb81220fce78d74a13b2dbcad4d023f3cadb3c9a0e45a3ce000000000965ac6353ac5165515130834512dfb293f87cb1879d8d1b20ebad9d7d3d5c3e399a291ce86a3b4d30e4e32368a9020000000453005165ffffffff26d84ae93eb58c81158c9b3c3cbc24a84614d731094f38d0eea8686dec02824d0300000005636a65abacf02c784001a0bd5d03000000000900655351ab65ac516a416ef503',
+    '',
+    1,
+    -295106477,
+    'b79f31c289e95d9dadec48ebf88e27c1d920661e50d090e422957f90ff94cb6e'
+  ],
+  [
+    '9200e26b03ff36bc4bf908143de5f97d4d02358db642bd5a8541e6ff709c420d1482d471b70000000008abab65536a636553ffffffff61ba6d15f5453b5079fb494af4c48de713a0c3e7f6454d7450074a2a80cb6d880300000007ac6a00ab5165515dfb7574fbce822892c2acb5d978188b1d65f969e4fe874b08db4c791d176113272a5cc10100000000ffffffff0420958d000000000009ac63516a0063516353dd885505000000000465ac00007b79e901000000000066d8bf010000000005525252006a00000000',
+    'ac5152',
+    0,
+    2089531339,
+    '89ec7fab7cfe7d8d7d96956613c49dc48bf295269cfb4ea44f7333d88c170e62'
+  ],
+  [
+    '45f335ba01ce2073a8b0273884eb5b48f56df474fc3dff310d9706a8ac7202cf5ac188272103000000025363ffffffff049d859502000000000365ab6a8e98b1030000000002ac51f3a80603000000000752535151ac00000306e30300000000020051b58b2b3a',
+    '',
+    0,
+    1899564574,
+    '78e01310a228f645c23a2ad0acbb8d91cedff4ecdf7ca997662c6031eb702b11'
+  ],
+  [
+    'd8f652a6043b4faeada05e14b81756cd6920cfcf332e97f4086961d49232ad6ffb6bc6c097000000000453526563ffffffff1ea4d60e5e91193fbbc1a476c8785a79a4c11ec5e5d6c9950c668ceacfe07a15020000000352ab51fffffffffe029a374595c4edd382875a8dd3f20b9820abb3e93f877b622598d11d0b09e503000000095351000052ac515152ffffffff9d65fea491b979699ceb13caf2479cd42a354bd674ded3925e760758e85a756803000000046365acabffffffff0169001d00000000000651636a65656300000000',
+    'ab0063630000ac',
+    3,
+    1050965951,
+    '4cc85cbc2863ee7dbce15490d8ca2c5ded61998257b9eeaff968fe38e9f009ae'
+  ],
+  [
+    '718662be026e1dcf672869ac658fd0c87d6835cfbb34bd854c44e577d5708a7faecda96e260300000004526a636a489493073353b678549adc7640281b9cbcb225037f84007c57e55b874366bb7b0fa03bdc00000000095165ababac65ac00008ab7f2a802eaa53d000000000007acac516aac526ae92f380100000000056aac00536500000000',
+    'ab00',
+    1,
+    43296088,
+    '2d642ceee910abff0af2116af75b2e117ffb7469b2f19ad8fef08f558416d8f7'
+  ],
+  [
+    '94083c840288d40a6983faca876d452f7c52a07de9268ad892e70a81e150d602a773c175ad03000000007ec3637d7e1103e2e7e0c61896cbbf8d7e205b2ecc93dd0d6d7527d39cdbf6d335789f660300000000ffffffff019e1f7b03000000000800ac0051acac0053539cb363',
+    '',
+    1,
+    -183614058,
+    'a17b66d6bb427f42653d08207a22b02353dd19ccf2c7de6a9a3a2bdb7c49c9e7'
+  ],
+  [
+    '30e0d4d20493d0cd0e640b757c9c47a823120e012b3b64c9c1890f9a087ae4f2001ca22a61010000000152f8f05468303b8fcfaad1fb60534a08fe90daa79bff51675472528ebe1438b6f60e7f60c10100000009526aab6551ac510053ffffffffaaab73957ea2133e32329795221ed44548a0d3a54d1cf9c96827e7cffd1706df0200000009ab00526a005265526affffffffd19a6fe54352015bf170119742821696f64083b5f14fb5c7d1b5a721a3d7786801000000085265abababac53abffffffff020f39bd030000000004ab6aac52049f6c050000000004ab52516aba5b4c60',
+    '6a6365516a6a655253',
+    0,
+    -624256405,
+    '8e221a6c4bf81ca0d8a0464562674dcd14a76a32a4b7baf99450dd9195d411e6'
+  ],
+  [
+    'f9c69d940276ec00f65f9fe08120fc89385d7350388508fd80f4a6ba2b5d4597a9e21c884f010000000663ab63ababab15473ae6d82c744c07fc876ecd53bd0f3018b2dbedad77d757d5bdf3811b23d294e8c0170000000001abafababe00157ede2050000000006ac6a5263635300000000',
+    'ab53',
+    1,
+    606547088,
+    '714d8b14699835b26b2f94c58b6ea4c53da3f7adf0c62ea9966b1e1758272c47'
+  ],
+  [
+    '5c0ac112032d6885b7a9071d3c5f493aa16c610a4a57228b2491258c38de8302014276e8be030000000300ab6a17468315215262ad5c7393bb5e0c5a6429fd1911f78f6f72dafbbbb78f3149a5073e24740300000003ac5100ffffffff33c7a14a062bdea1be3c9c8e973f54ade53fe4a69dcb5ab019df5f3345050be00100000008ac63655163526aab428defc0033ec36203000000000765516365536a00ae55b2000000000002ab53f4c0080400000000095265516a536563536a00000000',
+    '6a005151006a',
+    2,
+    272749594,
+    '91082410630337a5d89ff19145097090f25d4a20bdd657b4b953927b2f62c73b'
+  ],
+  [
+    'e3683329026720010b08d4bec0faa244f159ae10aa582252dd0f3f80046a4e145207d54d31000000000852acac52656aacac3aaf2a5017438ad6adfa3f9d05f53ebed9ceb1b10d809d507bcf75e0604254a8259fc29c020000000653526552ab51f926e52c04b44918030000000000f7679c0100000000090000525152005365539e3f48050000000009516500ab635363ab008396c905000000000253650591024f',
+    '6a6365',
+    0,
+    908746924,
+    '458aec3b5089a585b6bad9f99fd37a2b443dc5a2eefac2b7e8c5b06705efc9db'
+  ],
+  [
+    '48c4afb204204209e1df6805f0697edaa42c0450bbbd767941fe125b9bc40614d63d757e2203000000066a5363005152dc8b6a605a6d1088e631af3c94b8164e36e61445e2c60130292d81dabd30d15f54b355a802000000036a6353ffffffff1d05dcec4f3dedcfd02c042ce5d230587ee92cb22b52b1e59863f3717df2362f0300000005536552ac52ffffffffd4d71c4f0a7d53ba47bb0289ca79b1e33d4c569c1e951dd611fc9c9c1ca8bc6c030000000865536a65ab51abacffffffff042f9aa905000000000753655153656351ab93d8010000000002655337440e0300000000005d4c690000000000015278587acb',
+    'ab006565526a51',
+    0,
+    1502064227,
+    'bbed77ff0f808aa8abd946ba9e7ec1ddb003a969fa223dee0af779643cb841a9'
+  ],
+  [
+    '00b20fd104dd59705b84d67441019fa26c4c3dec5fd3b50eca1aa549e750ef9ddb774dcabe000000000651ac656aac65ffffffff52d4246f2db568fc9eea143e4d260c698a319f0d0670f84c9c83341204fde48b0200000000ffffffffb8aeabb85d3bcbc67b132f1fd815b451ea12dcf7fc169c1bc2e2cf433eb6777a03000000086a51ac6aab6563acd510d209f413da2cf036a31b0def1e4dcd8115abf2e511afbcccb5ddf41d9702f28c52900100000006ac52ab6a0065ffffffff039c8276000000000008ab53655200656a52401561010000000003acab0082b7160100000000035100ab00000000',
+    '535265',
+    1,
+    -947367579,
+    '3212c6d6dd8d9d3b2ac959dec11f4638ccde9be6ed5d36955769294e23343da0'
+  ],
+  [
+    '455131860220abbaa72015519090a666faf137a0febce7edd49da1eada41feab1505a0028b02000000036365ab453ead4225724eb69beb590f2ec56a7693a608871e0ab0c34f5e96157f90e0a96148f3c502000000085251ab51535163acffffffff022d1249040000000009abac00acac6565630088b310040000000000e3920e59',
+    '5152ab6a52ac5152',
+    0,
+    294375737,
+    'c40fd7dfa72321ac79516502500478d09a35cc22cc264d652c7d18b14400b739'
+  ],
+  [
+    '624d28cb02c8747915e9af2b13c79b417eb34d2fa2a73547897770ace08c6dd9de528848d3030000000651ab63abab533c69d3f9b75b6ef8ed2df50c2210fd0bf4e889c42477d58682f711cbaece1a626194bb85030000000765acab53ac5353ffffffff018cc280040000000009abacabac52636352ac6859409e',
+    'ac51ac',
+    1,
+    1005144875,
+    '919144aada50db8675b7f9a6849c9d263b86450570293a03c245bd1e3095e292'
+  ],
+  [
+    '8f28471d02f7d41b2e70e9b4c804f2d90d23fb24d53426fa746bcdcfffea864925bdeabe3e0200000001acffffffff76d1d35d04db0e64d65810c808fe40168f8d1f2143902a1cc551034fd193be0e0000000001acffffffff048a5565000000000005005151516afafb610400000000045263ac53648bb30500000000086363516a6a5165513245de01000000000000000000',
+    '6a0053510053',
+    1,
+    -1525137460,
+    '305fc8ff5dc04ebd9b6448b03c9a3d945a11567206c8d5214666b30ec6d0d6cc'
+  ],
+  [
+    '10ec50d7046b8b40e4222a3c6449490ebe41513aad2eca7848284a08f3069f3352c2a9954f0000000009526aac656352acac53ffffffff0d979f236155aa972472d43ee6f8ce22a2d052c740f10b59211454ff22cb7fd00200000007acacacab63ab53ffffffffbbf97ebde8969b35725b2e240092a986a2cbfd58de48c4475fe077bdd493a20c010000000663ab5365ababffffffff4600722d33b8dba300d3ad037bcfc6038b1db8abfe8008a15a1de2da2264007302000000035351ac6dbdafaf020d0ccf04000000000663ab6a51ab6ae06e5e0200000000036aabab00000000',
+    '',
+    0,
+    -1658960232,
+    '2420dd722e229eccafae8508e7b8d75c6920bfdb3b5bac7cb8e23419480637c2'
+  ],
+  [
+    'fef98b7101bf99277b08a6eff17d08f3fcb862e20e13138a77d66fba55d54f26304143e5360100000006515365abab00ffffffff04265965030000000004655252ace2c775010000000001002b23b4040000000007516a5153ab53ac456a7a00000000000753ab525251acacba521291',
+    '526aacacab00abab53',
+    0,
+    -1614097109,
+    '4370d05c07e231d6515c7e454a4e401000b99329d22ed7def323976fa1d2eeb5'
+  ],
+  [
+    '34a2b8830253661b373b519546552a2c3bff7414ea0060df183b1052683d78d8f54e842442000000000152ffffffffd961a8e34cf374151058dfcddc86509b33832bc57267c63489f69ff01199697c0300000002abacba856cfb01b17c2f050000000008515365ac53ab000000000000',
+    '5263ab656a',
+    1,
+    -2104480987,
+    '2f9993e0a84a6ca560d6d1cc2b63ffe7fd71236d9cfe7d809491cef62bbfad84'
+  ],
+  [
+    '43559290038f32fda86580dd8a4bc4422db88dd22a626b8bd4f10f1c9dd325c8dc49bf479f01000000026351ffffffff401339530e1ed3ffe996578a17c3ec9d6fccb0723dd63e7b3f39e2c44b976b7b0300000006ab6a65656a51ffffffff6fb9ba041c96b886482009f56c09c22e7b0d33091f2ac5418d05708951816ce7000000000551ac525100ffffffff020921e40500000000035365533986f40500000000016a00000000',
+    '52ac51',
+    0,
+    1769771809,
+    '02040283ef2291d8e1f79bb71bdabe7c1546c40d7ed615c375643000a8b9600d'
+  ],
+  [
+    '6878a6bd02e7e1c8082d5e3ee1b746cfebfac9e8b97e61caa9e0759d8a8ecb3743e36a30de0100000002ab532a911b0f12b73e0071f5d50b6bdaf783f4b9a6ce90ec0cad9eecca27d5abae188241ddec0200000001651c7758d803f7457b0500000000036551515f4e90000000000001007022080200000000035365acc86b6946',
+    '6351ab',
+    0,
+    -1929374995,
+    'f24be499c58295f3a07f5f1c6e5084496ae160450bd61fdb2934e615289448f1'
+  ],
+  [
+    '35b6fc06047ebad04783a5167ab5fc9878a00c4eb5e7d70ef297c33d5abd5137a2dea9912402000000036aacacffffffff21dc291763419a584bdb3ed4f6f8c60b218aaa5b99784e4ba8acfec04993e50c03000000046a00ac6affffffff69e04d77e4b662a82db71a68dd72ef0af48ca5bebdcb40f5edf0caf591bb41020200000000b5db78a16d93f5f24d7d932f93a29bb4b784febd0cbb1943f90216dc80bba15a0567684b000000000853ab52ab5100006a1be2208a02f6bdc103000000000265ab8550ea04000000000365636a00000000',
+    '',
+    0,
+    -1114114836,
+    '1c8655969b241e717b841526f87e6bd68b2329905ba3fc9e9f72526c0b3ea20c'
+  ],
+  [
+    'bebb90c302bf91fd4501d33555a5fc5f2e1be281d9b7743680979b65c3c919108cc2f517510100000003abab00ffffffff969c30053f1276550532d0aa33cfe80ca63758cd215b740448a9c08a84826f3303000000056565ab5153ffffffff04bf6f2a04000000000565ab5265ab903e760100000000026a6a7103fa020000000006526553525365b05b2c000000000006ab000000535300000000',
+    '51510053ab63635153',
+    1,
+    1081291172,
+    '94338cd47a4639be30a71e21a7103cee4c99ef7297e0edd56aaf57a068b004de'
+  ],
+  [
+    'af48319f031b4eeb4319714a285f44244f283cbff30dcb9275b06f2348ccd0d7f015b54f8500000000066363ac65ac6affffffff2560a9817ebbc738ad01d0c9b9cf657b8f9179b1a7f073eb0b67517409d108180200000005ac6365ab52ffffffff0bdd67cd4ecae96249a2e2a96db1490ee645f042fd9d5579de945e22b799f4d003000000086552ab515153ab00cf187c8202e51abf0300000000066552006a00abadf37d000000000004ac6a535100000000',
+    '63ab65',
+    1,
+    -1855554446,
+    '60caf46a7625f303c04706cec515a44b68ec319ee92273acb566cca4f66861c1'
+  ],
+  [
+    'f35befbc03faf8c25cc4bc0b92f6239f477e663b44b83065c9cb7cf231243032cf367ce3130000000005ab65526a517c4c334149a9c9edc39e29276a4b3ffbbab337de7908ea6f88af331228bd90086a6900ba020000000151279d19950d2fe81979b72ce3a33c6d82ebb92f9a2e164b6471ac857f3bbd3c0ea213b542010000000953ab51635363520065052657c20300a9ba04000000000452636a6a0516ea020000000008535253656365ababcfdd3f01000000000865ac516aac00530000000000',
+    '',
+    2,
+    -99793521,
+    'c834a5485e68dc13edb6c79948784712122440d7fa5bbaa5cd2fc3d4dac8185d'
+  ],
+  [
+    'd3da18520216601acf885414538ce2fb4d910997eeb91582cac42eb6982c9381589587794f0300000000fffffffff1b1c9880356852e10cf41c02e928748dd8fae2e988be4e1c4cb32d0bfaea6f7000000000465ab6aabffffffff02fb0d69050000000002ababeda8580500000000085163526565ac52522b913c95',
+    'ac',
+    1,
+    -1247973017,
+    '99b32b5679d91e0f9cdd6737afeb07459806e5acd7630c6a3b9ab5d550d0c003'
+  ],
+  [
+    '8218eb740229c695c252e3630fc6257c42624f974bc856b7af8208df643a6c520ef681bfd00000000002510066f30f270a09b2b420e274c14d07430008e7886ec621ba45665057120afce58befca96010300000004525153ab84c380a9015d96100000000000076a5300acac526500000000',
+    'ac005263',
+    0,
+    -1855679695,
+    '5071f8acf96aea41c7518bd1b5b6bbe16258b529df0c03f9e374b83c66b742c6'
+  ],
+  [
+    '1123e7010240310013c74e5def60d8e14dd67aedff5a57d07a24abc84d933483431b8cf8ea0300000003530051fc6775ff1a23c627a2e605dd2560e84e27f4208300071e90f4589e762ad9c9fe8d0da95e020000000465655200ffffffff04251598030000000004ab65ab639d28d90400000000096563636aacac525153474df801000000000851525165ac51006a75e23b040000000000e5bd3a4a',
+    '6363636565',
+    0,
+    -467124448,
+    '9cb0dd04e9fe287b112e94a1647590d27e8b164ca13c4fe70c610fd13f82c2fd'
+  ],
+  [
+    'fd92fe1003083c5179f97e77bf7d71975788138147adbdb283306802e261c0aee080fa22630200000000860c643ba9a1816b9badf36077b4554d11720e284e395a1121bc45279e148b2064c65e49020000000651ab6a53636a2c713088d20f4bc4001264d972cce05b9fe004dc33376ad24d0d013e417b91a5f1b6734e000000000100ffffffff02e3064c0500000000066552006a5165b86e8705000000000665ab65ab53522052eadb',
+    '00ab53525265',
+    0,
+    776203277,
+    '47207b48777727532f62e09afcd4104ea6687e723c7657c30504fa2081331cc8'
+  ],
+  [
+    'd1b6a703038f14d41fcc5cc45455faa135a5322be4bf0f5cbcd526578fc270a236cacb853f0200000001abffffffff135aeff902fa38f202ccf5bd34437ff89c9dc57a028b62447a0a38579383e8ef0000000000ffffffffadf398d2c818d0b90bc474f540c3618a4a643482eeab73d36101987e2ec0335900000000004bd3323504e69fc10000000000055151535251790ada02000000000563ab6aab521337a704000000000963ac63abacac52656a1e9862010000000007656500ac51ab6a8f4ee672',
+    'ab5251656565ac63',
+    2,
+    82008394,
+    'b8f3d255549909c07588ecba10a02e55a2d6f2206d831af9da1a7dae64cfbc8b'
+  ],
+  [
+    '81dadaa7011556683db3fe95262f4fdb20391b7e75b7ffcee51b176af64d83c06f85545d620200000005ab5151ab52ffffffff044805ef0300000000065353516352639702c802000000000900516351515252ab5270db08040000000009ac516aab526553abac4aabc90500000000096365ab0052636a525100000000',
+    '6565ab6a5152',
+    0,
+    -2126294159,
+    'ad01ec9d6dbae325ec3a8e1fd98e2d03b1188378210efef093dd8b0b0ef3f19d'
+  ],
+  [
+    '3b937e05032b8895d2f4945cb7e3679be2fbd15311e2414f4184706dbfc0558cf7de7b4d000000000001638b91a12668a3c3ce349788c961c26aa893c862f1e630f18d80e7843686b6e1e6fc396310000000000852635353ab65ac51eeb09dd1c9605391258ee6f74b9ae17b5e8c2ef010dc721c5433dcdc6e93a1593e3b6d1700000000085365ac6553526351ffffffff0308b18e04000000000253acb6dd00040000000008536aac5153ac516ab0a88201000000000500ac006500804e3ff2',
+    '',
+    0,
+    416167343,
+    '595a3c02254564634e8085283ec4ea7c23808da97ce9c5da7aecd7b553e7fd7f'
+  ],
+  [
+    'a48f27ca047997470da74c8ee086ddad82f36d9c22e790bd6f8603ee6e27ad4d3174ea875403000000095153ac636aab6aacabffffffffefc936294e468d2c9a99e09909ba599978a8c0891ad47dc00ba424761627cef202000000056a51630053ffffffff304cae7ed2d3dbb4f2fbd679da442aed06221ffda9aee460a28ceec5a9399f4e0200000000f5bddf82c9c25fc29c5729274c1ff0b43934303e5f595ce86316fc66ad263b96ca46ab8d0100000003536500d7cf226b0146b00c04000000000200ac5c2014ce',
+    '515100636563',
+    0,
+    1991799059,
+    '9c051a7092fe17fa62b1720bc2c4cb2ffc1527d9fb0b006d2e142bb8fe07bf3c'
+  ],
+  [
+    '180cd53101c5074cf0b7f089d139e837fe49932791f73fa2342bd823c6df6a2f72fe6dba1303000000076a6a63ac53acabffffffff03853bc1020000000007ac526a6a6a6a003c4a8903000000000453515163a0fbbd030000000005ab656a5253253d64cf',
+    'ac65',
+    0,
+    -1548453970,
+    '4d8efb3b99b9064d2f6be33b194a903ffabb9d0e7baa97a48fcec038072aac06'
+  ],
+  [
+    'c21ec8b60376c47e057f2c71caa90269888d0ffd5c46a471649144a920d0b409e56f190b700000000008acac6a526a536365ffffffff5d315d9da8bf643a9ba11299450b1f87272e6030fdb0c8adc04e6c1bfc87de9a0000000000ea43a9a142e5830c96b0ce827663af36b23b0277244658f8f606e95384574b91750b8e940000000007516a63ac0063acffffffff023c61be0400000000055165ab5263313cc8020000000006006a53526551ed8c3d56',
+    '6a',
+    1,
+    1160627414,
+    'a638cc17fd91f4b1e77877e8d82448c84b2a4e100df1373f779de7ad32695112'
+  ],
+  [
+    '128cd90f04b66a4cbc78bf48748f6eec0f08d5193ee8d0a6f2e8d3e5f138ed12c2c87d01a301000000085200ab6aac00ab00ffffffff09fc88bb1851e3dfb3d30179c38e15aeb1b39929c7c74f6acd071994ed4806490300000000e7fc5ea12ec56f56c0d758ecf4bb88aa95f3b08176b336db3b9bec2f6e27336dce28adbe030000000400530051fffffffffd6ff1adcf1fbe0d883451ee46904f1b7e8820243d395559b2d4ee8190a6e891000000000080fb1ae702f85b400000000000035200ab8d9651010000000006ab6a52536aab00000000',
+    'ab',
+    1,
+    1667598199,
+    'c10ccc9db8a92d7d4b133a2980782dab9d9d1d633d0dde9f9612ada57771fd89'
+  ],
+  [
+    'da9695a403493d3511c10e1fe1286f954db0366b7667c91ef18ae4578056c1bf752114ac5901000000035351519788d91dd1f9c62dc005d80ea54eb13f7131ca5aace3d5d29f9b58ccc5fbc9a27e779950010000000453ac6a00ffffffffe2556ff29ebe83eb42a32c7a8d93bc598043578f491b5935805a33608538845a030000000252ab65d21b3b018f26c4030000000006acab51535352e1cbcb10',
+    '006565ab52',
+    2,
+    -1550927794,
+    '0ca673a1ee66f9625ceb9ab278ebef772c113c188112b02824570c17fdf48194'
+  ],
+  [
+    'b240517501334021240427adb0b413433641555424f6d24647211e3e6bfbb22a8045cbda2f000000000071bac8630112717802000000000000000000',
+    '6a5165abac52656551',
+    0,
+    1790414254,
+    '2c8be597620d95abd88f9c1cf4967c1ae3ca2309f3afec8928058c9598660e9e'
+  ],
+  [
+    '96bac43903044a199b4b3efeeec5d196ee23fb05495541fa2cd6fb6405a9432d1723363660010000000151ffffffffe6ce2b66ce1488918a3e880bebb0e750123f007c7bcbac8fcd67ce75cb6fbae80300000000ffffffff9c0955aa07f506455834895c0c56be5a095398f47c62a3d431fe125b161d666a0200000005520000abac7ffdbc540216f2f004000000000165a26dce010000000001ab00000000',
+    '5151ab656a656a6a63',
+    0,
+    -707123065,
+    '26b22e18d5d9081fde9631594a4f7c49069ed2e429f3d08caf9d834f685ccab2'
+  ],
+  [
+    'b8fd394001ed255f49ad491fecc990b7f38688e9c837ccbc7714ddbbf5404f42524e68c18f0000000007ab6353535363ab081e15ee02706f7d050000000008515200535351526364c7ec040000000005636a53acac9206cbe1',
+    '655352ac',
+    0,
+    -1251578838,
+    '8e0697d8cd8a9ccea837fd798cc6c5ed29f6fbd1892ee9bcb6c944772778af19'
+  ],
+  [
+    'e42a76740264677829e30ed610864160c7f97232c16528fe5610fc08814b21c34eefcea69d010000000653006a6a0052ffffffff647046cf44f217d040e6a8ff3f295312ab4dd5a0df231c66968ad1c6d8f4428000000000025352ffffffff0199a7f900000000000000000000',
+    '655263006a005163',
+    1,
+    1122505713,
+    '7cda43f1ff9191c646c56a4e29b1a8c6cb3f7b331da6883ef2f0480a515d0861'
+  ],
+  [
+    '0f034f32027a8e094119443aa9cfe11737c6d7dda9a52b839bc073dcc0235b847b28e0fab60200000006ac53ac536a63eee63447dfdad80476994b68706e916df1bd9d7cb4f3a4f6b14369de84564bea2e8688bd030000000565636a65acf8434663020b35fe01000000000800abab655163acabb3d6a103000000000353acab345eeda0',
+    '526a51ac63ab51',
+    1,
+    66020215,
+    '4435e62ff6531ac73529aac9cf878a7219e0b6e6cac79af8487c5355d1ad6d43'
+  ],
+  [
+    'a2dfa4690214c1ab25331815a5128f143219de51a47abdc7ce2d367e683eeb93960a31af9f010000000363636affffffff8be0628abb1861b078fcc19c236bc4cc726fa49068b88ad170adb2a97862e7460200000004ac655363ffffffff0441f11103000000000153dbab0c000000000009ab53ac5365526aab63abbb95050000000004ab52516a29a029040000000003ac526a00000000',
+    '6a52ac63',
+    1,
+    -1302210567,
+    '913060c7454e6c80f5ba3835454b54db2188e37dc4ce72a16b37d11a430b3d23'
+  ],
+  [
+    '9dbc591f04521670af83fb3bb591c5d4da99206f5d38e020289f7db95414390dddbbeb56680100000004ac5100acffffffffb6a40b5e29d5e459f8e72d39f800089529f0889006cad3d734011991da8ef09d0100000009526a5100acab536a515fc427436df97cc51dc8497642ffc868857ee245314d28b356bd70adba671bd6071301fc0000000000ffffffff487efde2f620566a9b017b2e6e6d42525e4070f73a602f85c6dfd58304518db30000000005516353006a8d8090180244904a0200000000046a65656ab1e9c203000000000451ab63aba06a5449',
+    '',
+    0,
+    -1414953913,
+    'bae189eb3d64aedbc28a6c28f6c0ccbd58472caaf0cf45a5aabae3e031dd1fea'
+  ],
+  [
+    '1345fb2c04bb21a35ae33a3f9f295bece34650308a9d8984a989dfe4c977790b0c21ff9a7f0000000006ac52ac6a0053ffffffff7baee9e8717d81d375a43b691e91579be53875350dfe23ba0058ea950029fcb7020000000753ab53ab63ab52ffffffff684b6b3828dfb4c8a92043b49b8cb15dd3a7c98b978da1d314dce5b9570dadd202000000086353ab6a5200ac63d1a8647bf667ceb2eae7ec75569ca249fbfd5d1b582acfbd7e1fcf5886121fca699c011d0100000003ac006affffffff049b1eb00300000000001e46dc0100000000080065ab6a6a630065ca95b40300000000030051520c8499010000000006ab6aac526a6500000000',
+    '53526aac636300',
+    2,
+    1809978100,
+    'cfeaa36790bc398783d4ca45e6354e1ea52ee74e005df7f9ebd10a680e9607bf'
+  ],
+  [
+    '7d75dc8f011e5f9f7313ba6aedef8dbe10d0a471aca88bbfc0c4a448ce424a2c5580cda1560300000003ab5152ffffffff01997f8e0200000000096552ac6a65656563530d93bbcc',
+    '00656a6563',
+    0,
+    1414485913,
+    'ec91eda1149f75bffb97612569a78855498c5d5386d473752a2c81454f297fa7'
+  ],
+  [
+    '1459179504b69f01c066e8ade5e124c748ae5652566b34ed673eea38568c483a5a4c4836ca0100000008ac5352006563656affffffff5d4e037880ab1975ce95ea378d2874dcd49d5e01e1cdbfae3343a01f383fa35800000000095251ac52ac6aac6500ffffffff7de3ae7d97373b7f2aeb4c55137b5e947b2d5fb325e892530cb589bc4f92abd503000000086563ac53ab520052ffffffffb4db36a32d6e543ef49f4bafde46053cb85b2a6c4f0e19fa0860d9083901a1190300000003ab51531bbcfe5504a6dbda040000000008536a5365abac6500d660c80300000000096565abab6a53536a6a54e84e010000000003acac52df2ccf0500000000025351220c857e',
+    '',
+    2,
+    1879181631,
+    '3aad18a209fab8db44954eb55fd3cc7689b5ec9c77373a4d5f4dae8f7ae58d14'
+  ],
+  [
+    'd98b777f04b1b3f4de16b07a05c31d79965579d0edda05600c118908d7cf642c9cd670093f020000000953005351ac65ab5363a268caad6733b7d1718008997f249e1375eb3ab9fe68ab0fe170d8e745ea24f54ce67f9b00000000066500516a5151ffffffff7ef8040dfcc86a0651f5907e8bfd1017c940f51cf8d57e3d3fe78d57e40b1e610200000003535263ffffffff39846cfed4babc098ff465256ba3820c30d710581316afcb67cd31c623b703360300000001acffffffff03d405120100000000056300006a5201a73d050000000004ab636a6a294c8c000000000006ac65536553ac00000000',
+    '63525351abac',
+    1,
+    2018694761,
+    '86970af23c89b72a4f9d6281e46b9ef5220816bed71ebf1ae20df53f38fe16ff'
+  ],
+  [
+    'cabb1b06045a895e6dcfc0c1e971e94130c46feace286759f69a16d298c8b0f6fd0afef8f20300000004ac006352ffffffffa299f5edac903072bfb7d29b663c1dd1345c2a33546a508ba5cf17aab911234602000000056a65515365ffffffff89a20dc2ee0524b361231092a070ace03343b162e7162479c96b757739c8394a0300000002abab92ec524daf73fabee63f95c1b79fa8b84e92d0e8bac57295e1d0adc55dc7af5534ebea410200000001534d70e79b04674f6f00000000000600abacab53517d60cc0200000000035265ab96c51d040000000004ac6300ac62a787050000000008006a516563ab63639e2e7ff7',
+    '6551ac6351ac',
+    3,
+    1942663262,
+    'd0c4a780e4e0bc22e2f231e23f01c9d536b09f6e5be51c123d218e906ec518be'
+  ],
+  [
+    '8b96d7a30132f6005b5bd33ea82aa325e2bcb441f46f63b5fca159ac7094499f380f6b7e2e00000000076aacabac6300acffffffff0158056700000000000465005100c319e6d0',
+    '52006a',
+    0,
+    -1100733473,
+    'fb4bd26a91b5cf225dd3f170eb09bad0eac314bc1e74503cc2a3f376833f183e'
+  ],
+  [
+    '112191b7013cfbe18a175eaf09af7a43cbac2c396f3695bbe050e1e5f4250603056d60910e02000000001c8a5bba03738a22010000000005525352656a77a149010000000002510003b52302000000000351ac52722be8e6',
+    '65ac6565',
+    0,
+    -1847972737,
+    '8e795aeef18f510d117dfa2b9f4a2bd2e2847a343205276cedd2ba14548fd63f'
+  ],
+  [
+    'ce6e1a9e04b4c746318424705ea69517e5e0343357d131ad55d071562d0b6ebfedafd6cb840100000003656553ffffffff67bd2fa78e2f52d9f8900c58b84c27ef9d7679f67a0a6f78645ce61b883fb8de000000000100d699a56b9861d99be2838e8504884af4d30b909b1911639dd0c5ad47c557a0773155d4d303000000046a5151abffffffff9fdb84b77c326921a8266854f7bbd5a71305b54385e747fe41af8a397e78b7fa010000000863acac6a51ab00ac0d2e9b9d049b8173010000000007ac53526a650063ba9b7e010000000008526a00525263acac0ab3fd030000000000ea8a0303000000000200aca61a97b9',
+    '',
+    1,
+    -1276952681,
+    'b6ed4a3721be3c3c7305a5128c9d418efa58e419580cec0d83f133a93e3a22c5'
+  ],
+  [
+    'a7721d94021652d90c79aaf5022d98219337d50f836382403ed313adb1116ba507ac28b0b0010000000551ac6300ab89e6d64a7aa81fb9595368f04d1b36d7020e7adf5807535c80d015f994cce29554fe869b01000000065353ab636500ffffffff024944c90100000000046300635369df9f01000000000000000000',
+    '656a536551ab',
+    0,
+    -1740151687,
+    '935892c6f02948f3b08bcd463b6acb769b02c1912be4450126768b055e8f183a'
+  ],
+  [
+    '2f7353dd02e395b0a4d16da0f7472db618857cd3de5b9e2789232952a9b154d249102245fd030000000151617fd88f103280b85b0a198198e438e7cab1a4c92ba58409709997cc7a65a619eb9eec3c0200000003636aabffffffff0397481c0200000000045300636a0dc97803000000000009d389030000000003ac6a53134007bb',
+    '0000536552526a',
+    0,
+    -1912746174,
+    '30c4cd4bd6b291f7e9489cc4b4440a083f93a7664ea1f93e77a9597dab8ded9c'
+  ],
+  [
+    '7d95473604fd5267d0e1bb8c9b8be06d7e83ff18ad597e7a568a0aa033fa5b4e1e2b6f1007020000000465006a6affffffffaee008503bfc5708bd557c7e78d2eab4878216a9f19daa87555f175490c40aaf000000000263abffffffffabd74f0cff6e7ceb9acc2ee25e65af1abcebb50c08306e6c78fa8171c37613dd010000000552acacababffffffff54a3069393f7930fa1b331cdff0cb945ec21c11d4605d8eedba1d3e094c6ae1f01000000026300ffffffff0182edeb050000000009526353ab5153530065a247e8cd',
+    '51516aab00',
+    2,
+    -426210430,
+    '2707ca714af09494bb4cf0794abe33c6cba5f29891d619e76070269d1fa8e690'
+  ],
+  [
+    '221d4718023d9ca9fe1af178dbfce02b2b369bf823ea3f43f00891b7fef98e215c06b94fdd000000000951005153ab000051acffffffffb1c7ad1c64b7441bf5e70cd0f6eb4ec96821d67fc4997d9e6dfdceadecd36dde01000000070051536a635153ffffffff04e883cd00000000000851ab536553ab0052bbb2f70400000000002f1b2e03000000000165259fcb00000000000010dbde99',
+    'ab',
+    1,
+    665721280,
+    '4abce77432a86dfe608e7c1646c18b5253a373392ff962e288e3ab96bba1ba1d'
+  ],
+  [
+    '6f66c0b3013e6ae6aabae9382a4326df31c981eac169b6bc4f746edaa7fc1f8c796ef4e374000000000665ab6aabac6affffffff0191c8d6030000000002525300000000',
+    '6a5352516a635352ab',
+    0,
+    -1299629906,
+    '48411efeb133c6b7fec4e7bdbe613f827093cb06ea0dbcc2ffcfde3a9ac4356c'
+  ],
+  [
+    '89e7928c04363cb520eff4465251fd8e41550cbd0d2cdf18c456a0be3d634382abcfd4a2130200000006ac516a6a656355042a796061ed72db52ae47d1607b1ceef6ca6aea3b7eea48e7e02429f382b378c4e51901000000085351ab6352ab5252ffffffff53631cbda79b40183000d6ede011c778f70147dc6fa1aed3395d4ce9f7a8e69701000000096a6553ab52516a52abad0de418d80afe059aab5da73237e0beb60af4ac490c3394c12d66665d1bac13bdf29aa8000000000153f2b59ab6027a33eb040000000007005351ac5100ac88b941030000000003ab0052e1e8a143',
+    '63656a',
+    0,
+    1258533326,
+    'b575a04b0bb56e38bbf26e1a396a76b99fb09db01527651673a073a75f0a7a34'
+  ],
+  [
+    'ca356e2004bea08ec2dd2df203dc275765dc3f6073f55c46513a588a7abcc4cbde2ff011c7020000000553525100003aefec4860ef5d6c1c6be93e13bd2d2a40c6fb7361694136a7620b020ecbaca9413bcd2a030000000965ac00536352535100ace4289e00e97caaea741f2b89c1143060011a1f93090dc230bee3f05e34fbd8d8b6c399010000000365526affffffff48fc444238bda7a757cb6a98cb89fb44338829d3e24e46a60a36d4e24ba05d9002000000026a53ffffffff03d70b440200000000056a6a526aac853c97010000000002515335552202000000000351635300000000',
+    '0052',
+    3,
+    -528192467,
+    'fc93cc056c70d5e033933d730965f36ad81ef64f1762e57f0bc5506c5b507e24'
+  ],
+  [
+    '82d4fa65017958d53e562fac073df233ab154bd0cf6e5a18f57f4badea8200b217975e31030200000004636aab51ac0891a204227cc9050000000006635200655365bfef8802000000000865650051635252acfc2d09050000000006ab65ac51516380195e030000000007ac52525352510063d50572',
+    '53',
+    0,
+    -713567171,
+    'e095003ca82af89738c1863f0f5488ec56a96fb81ea7df334f9344fcb1d0cf40'
+  ],
+  [
+    '75f6949503e0e47dd70426ef32002d6cdb564a45abedc1575425a18a8828bf385fa8e808e600000000036aabab82f9fd14e9647d7a1b5284e6c55169c8bd228a7ea335987cef0195841e83da45ec28aa2e0300000002516350dc6fe239d150efdb1b51aa288fe85f9b9f741c72956c11d9dcd176889963d699abd63f0000000001ab429a63f502777d20010000000007abac52ac516a53d081d9020000000003acac630c3cc3a8',
+    '535152516551510000',
+    1,
+    973814968,
+    'c6ec1b7cb5c16a1bfd8a3790db227d2acc836300534564252b57bd66acf95092'
+  ],
+  [
+    '24f24cd90132b2162f938f1c22d3ca5e7daa83515883f31a61a5177aebf99d7db6bdfc398c010000000163ffffffff01d5562d0100000000016300000000',
+    '5265ac5165ac5252ab',
+    0,
+    1055129103,
+    '5eeb03e03806cd7bfd44bbba69c30f84c2c5120df9e68cd8facc605fcfbc9693'
+  ],
+  [
+    '5ff2cac201423064a4d87a96b88f1669b33adddc6fa9acdc840c0d8a243671e0e6de49a5b00300000005ac6353655353b91db50180db5a03000000000663535151006a047a3aff',
+    '52ab51ab5365005163',
+    0,
+    -1336626596,
+    'b8db8d57fe40ab3a99cf2f8ed57da7a65050fcc1d34d4280e25faf10108d3110'
+  ],
+  [
+    '10011f150220ad76a50ccc7bb1a015eda0ff987e64cd447f84b0afb8dc3060bdae5b36a6900200000000ffffffff1e92dd814dfafa830187bc8e5b9258de2445ec07b02c420ee5181d0b203bb334000000000565ab536a65ffffffff0124e65401000000000800ab636553ab53ac00000000',
+    '53abab0051',
+    0,
+    440222748,
+    'c6675bf229737e005b5c8ffa6f81d9e2c4396840921b6151316f67c4315a4270'
+  ],
+  [
+    '8b95ec900456648d820a9b8df1d8f816db647df8a8dc9f6e7151ebf6079d90ee3f6861352a02000000085200ab00ac535151ffffffff039b10b845f961225ac0bcaac4f5fe1991029a051aa3d06a3811b5762977a67403000000035252abffffffff8559d65f40d5e261f45aec8aad3d2c56c6114b22b26f7ee54a06f0881be3a7f5010000000765635252536363ffffffff38f8b003b50f6412feb2322b06b270197f81ad69c36af02ca5008b94eee5f650020000000165ffffffff01ae2b00010000000001638eb153a2',
+    '0053ab5300ac53',
+    2,
+    1266056769,
+    '205f3653f0142b35ce3ef39625442efebae98cde8cbf0516b97b51073bb0479f'
+  ],
+  [
+    'babbb7ea01ab5d584727cb44393b17cf66521606dc81e25d85273be0d57bad43e8f6b6d43501000000036a656aba83a68803fb0f4a000000000005536353ab633fcfe4020000000009ac00acab6351006a65182a0c03000000000453ac5363bee74f44',
+    '536a6a6a6365ac51ab',
+    0,
+    -799187625,
+    '3275e98dca37243b977525a07b5d8e369d6c3bdc08cb948029a635547d0d1a4e'
+  ],
+  [
+    'e86a24bc03e4fae784cdf81b24d120348cb5e52d937cd9055402fdba7e43281e482e77a1c100000000046363006affffffffa5447e9bdcdab22bd20d88b19795d4c8fb263fbbf7ce8f4f9a85f865953a6325020000000663ac53535253ffffffff9f8b693bc84e0101fc73748e0513a8cecdc264270d8a4ee1a1b6717607ee1eaa00000000026a513417bf980158d82c020000000009005253005351acac5200000000',
+    '6353516365536a6a',
+    2,
+    -563792735,
+    '508129278ef07b43112ac32faf00170ad38a500eed97615a860fd58baaad174b'
+  ],
+  [
+    '53bd749603798ed78798ef0f1861b498fc61dcee2ee0f2b37cddb115b118e73bc6a5a47a0201000000096a63656a6aab6a000007ff674a0d74f8b4be9d2e8e654840e99d533263adbdd0cf083fa1d5dd38e44d2d163d900100000007abab5251ac6a51c8b6b63f744a9b9273ccfdd47ceb05d3be6400c1ed0f7283d32b34a7f4f0889cccf06be30000000009516a52636551ab516a9ac1fe63030c677e05000000000027bc610000000000086565636a635100526e2dc60200000000015300000000',
+    '6552536a515351ab',
+    1,
+    -1617066878,
+    'fe516df92299e995b8e6489be824c6839543071ec5e9286060b2600935bf1f20'
+  ],
+  [
+    '691bf9fc028ca3099020b79184e70039cf53b3c7b3fe695d661fd62d7b433e65feda2150610000000003ac63abffffffff2c814c15b142bc944192bddccb90a392cd05b968b599c1d8cd99a55a28a243fd0100000009ab5300526a5200abac98516a5803dfd3540500000000046552ac522838120100000000040053ab6a4409a903000000000665636a5300658759621b',
+    '65ac5165ab',
+    0,
+    -359941441,
+    'd582c442e0ecc400c7ba33a56c93ad9c8cfd45af820350a13623594b793486f0'
+  ],
+  [
+    '536bc5e60232eb60954587667d6bcdd19a49048d67a027383cc0c2a29a48b960dc38c5a0370300000005ac636300abffffffff8f1cfc102f39b1c9348a2195d496e602c77d9f57e0769dabde7eaaedf9c69e250100000006acabab6a6351ffffffff0432f56f0400000000046a5365517fd54b0400000000035265539484e4050000000003536a5376dc25020000000008ac536aab6aab536ab978e686',
+    'ac0051006a006a006a',
+    0,
+    -273074082,
+    'f151f1ec305f698d9fdce18ea292b145a58d931f1518cf2a4c83484d9a429638'
+  ],
+  [
+    '74606eba01c2f98b86c29ba5a32dc7a7807c2abe6ed8d89435b3da875d87c12ae05329e6070200000003510052ffffffff02a1e2c4020000000006516563526a63c68bae04000000000952ab6363ab00006363fe19ae4f',
+    '63ababacac5365',
+    0,
+    112323400,
+    'd1b1d79001b4a0324962607b739972d6f39c1493c4500ce814fd3bd72d32a5a0'
+  ],
+  [
+    '2ed805e20399e52b5bcc9dc075dad5cf19049ff5d7f3de1a77aee9288e59c5f4986751483f020000000165ffffffff967531a5726e7a653a9db75bd3d5208fa3e2c5e6cd5970c4d3aba84eb644c72c0300000000ffffffffd79030d20c65e5f8d3c55b5692e5bdaa2ae78cfa1935a0282efb97515feac43f030000000400006365261ab88c02bdf66a000000000003ab6351d6ad8b000000000005525152abac00000000',
+    '630053ab5265',
+    0,
+    2072814938,
+    '1d25d16d84d5793be1ad5cda2de9c9cf70e04a66c3dae618f1a7ca4026198e7f'
+  ],
+  [
+    'fab796ee03f737f07669160d1f1c8bf0800041157e3ac7961fea33a293f976d79ce49c02ab0200000003ac5252eb097ea1a6d1a7ae9dace338505ba559e579a1ee98a2e9ad96f30696d6337adcda5a85f403000000096500abab656a6a656396d5d41a9b11f571d91e4242ddc0cf2420eca796ad4882ef1251e84e42b930398ec69dd80100000005526551ac6a8e5d0de804f763bb0400000000015288271a010000000001acf2bf2905000000000300ab51c9641500000000000952655363636365ac5100000000',
+    '00ac536552',
+    0,
+    -1854521113,
+    'f3bbab70b759fe6cfae1bf349ce10716dbc64f6e9b32916904be4386eb461f1f'
+  ],
+  [
+    'f2b539a401e4e8402869d5e1502dbc3156dbce93583f516a4947b333260d5af1a34810c6a00200000003525363ffffffff01d305e2000000000005acab535200a265fe77',
+    '',
+    0,
+    -1435650456,
+    '41617b27321a830c712638dbb156dae23d4ef181c7a06728ccbf3153ec53d7dd'
+  ],
+  [
+    '9f10b1d8033aee81ac04d84ceee0c03416a784d1017a2af8f8a34d2f56b767aea28ff88c8f02000000025352ffffffff748cb29843bea8e9c44ed5ff258df1faf55fbb9146870b8d76454786c4549de100000000016a5ba089417305424d05112c0ca445bc7107339083e7da15e430050d578f034ec0c589223b0200000007abac53ac6565abffffffff025a4ecd010000000006636563ab65ab40d2700000000000056a6553526333fa296c',
+    '',
+    0,
+    -395044364,
+    '20fd0eee5b5716d6cbc0ddf852614b686e7a1534693570809f6719b6fcb0a626'
+  ],
+  [
+    'ab81755f02b325cbd2377acd416374806aa51482f9cc5c3b72991e64f459a25d0ddb52e66703000000036a00ab8727056d48c00cc6e6222be6608c721bc2b1e69d0ffbadd51d131f05ec54bcd83003aac5000000000003f2cdb60454630e020000000007526aac63000000e9e25c040000000003516a0088c97e0000000000076a535265655263771b5805000000000851ab00ac6565515100000000',
+    '5151ab00ac',
+    0,
+    -230931127,
+    'ba0a2c987fcdd74b6915f6462f62c3f126a0750aa70048f7aa20f70726e6a20b'
+  ],
+  [
+    '7a17e0ef0378dab4c601240639139335da3b7d684600fa682f59b7346ef39386fe9abd69350000000004ac5252ab807f26fb3249326813e18260a603b9ad66f41f05eaa8146f66bcca452162a502aac4aa8b02000000026a534ea460faa7e3d7854ec6c70d7e797025697b547ec500b2c09c873b4d5517767d3f3720660300000000ffffffff01b12e7a02000000000900ab006aab65656a63991c03e2',
+    '6aab6a',
+    1,
+    -1577994103,
+    '62cd3413d9d819fb7355336365cf8a2a997f7436cc050a7143972044343b3281'
+  ],
+  [
+    'ff2ecc09041b4cf5abb7b760e910b775268abee2792c7f21cc5301dd3fecc1b4233ee70a2c0200000009acac5300006a51526affffffffeb39c195a5426afff38379fc85369771e4933587218ef4968f3f05c51d6b7c92000000000165453a5f039b8dbef7c1ffdc70ac383b481f72f99f52b0b3a5903c825c45cfa5d2c0642cd50200000001654b5038e6c49daea8c0a9ac8611cfe904fc206dad03a41fb4e5b1d6d85b1ecad73ecd4c0102000000096a51000053ab656565bdb5548302cc719200000000000452655265214a3603000000000300ab6a00000000',
+    '52516a006a63',
+    1,
+    -2113289251,
+    '37ed6fae36fcb3360c69cac8b359daa62230fc1419b2cf992a32d8f3e079dcff'
+  ],
+  [
+    '70a8577804e553e462a859375957db68cfdf724d68caeacf08995e80d7fa93db7ebc04519d02000000045352ab53619f4f2a428109c5fcf9fee634a2ab92f4a09dc01a5015e8ecb3fc0d9279c4a77fb27e900000000006ab6a51006a6affffffff3ed1a0a0d03f25c5e8d279bb5d931b7eb7e99c8203306a6c310db113419a69ad010000000565516300abffffffff6bf668d4ff5005ef73a1b0c51f32e8235e67ab31fe019bf131e1382050b39a630000000004536a6563ffffffff02faf0bb00000000000163cf2b4b05000000000752ac635363acac15ab369f',
+    'ac',
+    0,
+    -1175809030,
+    '1c9d6816c20865849078f9777544b5ddf37c8620fe7bd1618e4b72fb72dddca1'
+  ],
+  [
+    'a3604e5304caa5a6ba3c257c20b45dcd468f2c732a8ca59016e77b6476ac741ce8b16ca8360200000004acac6553ffffffff695e7006495517e0b79bd4770f955040610e74d35f01e41c9932ab8ccfa3b55d0300000007ac5253515365acffffffff6153120efc5d73cd959d72566fc829a4eb00b3ef1a5bd3559677fb5aae116e38000000000400abab52c29e7abd06ff98372a3a06227386609adc7665a602e511cadcb06377cc6ac0b8f63d4fdb03000000055100acabacffffffff04209073050000000009ab5163ac525253ab6514462e05000000000952abacab636300656a20672c0400000000025153b276990000000000056565ab6a5300000000',
+    '5351',
+    0,
+    1460890590,
+    '249c4513a49076c6618aabf736dfd5ae2172be4311844a62cf313950b4ba94be'
+  ],
+  [
+    'c6a72ed403313b7d027f6864e705ec6b5fa52eb99169f8ea7cd884f5cdb830a150cebade870100000009ac63ab516565ab6a51ffffffff398d5838735ff43c390ca418593dbe43f3445ba69394a6d665b5dc3b4769b5d700000000075265acab515365ffffffff7ee5616a1ee105fd18189806a477300e2a9cf836bf8035464e8192a0d785eea3030000000700ac6a51516a52ffffffff018075fd0000000000015100000000',
+    '005251acac5252',
+    2,
+    -656067295,
+    '2cc1c7514fdc512fd45ca7ba4f7be8a9fe6d3318328bc1a61ae6e7675047e654'
+  ],
+  [
+    '93c12cc30270fc4370c960665b8f774e07942a627c83e58e860e38bd6b0aa2cb7a2c1e060901000000036300abffffffff4d9b618035f9175f564837f733a2b108c0f462f28818093372eec070d9f0a5440300000001acffffffff039c2137020000000001525500990100000000055265ab636a07980e0300000000005ba0e9d1',
+    '656a5100',
+    1,
+    18954182,
+    '6beca0e0388f824ca33bf3589087a3c8ad0857f9fe7b7609ae3704bef0eb83e2'
+  ],
+  [
+    '97bddc63015f1767619d56598ad0eb5c7e9f880b24a928fea1e040e95429c930c1dc653bdb0100000008ac53acac00005152aaa94eb90235ed10040000000000287bdd0400000000016a8077673a',
+    'acac6a536352655252',
+    0,
+    -813649781,
+    '5990b139451847343c9bb89cdba0e6daee6850b60e5b7ea505b04efba15f5d92'
+  ],
+  [
+    'cc3c9dd303637839fb727270261d8e9ddb8a21b7f6cbdcf07015ba1e5cf01dc3c3a327745d0300000000d2d7804fe20a9fca9659a0e49f258800304580499e8753046276062f69dbbde85d17cd2201000000096352536a520000acabffffffffbc75dfa9b5f81f3552e4143e08f485dfb97ae6187330e6cd6752de6c21bdfd21030000000600ab53650063ffffffff0313d0140400000000096565515253526aacac167f0a040000000008acab00535263536a9a52f8030000000006abab5151ab63f75b66f2',
+    '6a635353636a65ac65',
+    1,
+    377286607,
+    'dbc7935d718328d23d73f8a6dc4f53a267b8d4d9816d0091f33823bd1f0233e9'
+  ],
+  [
+    '236f91b702b8ffea3b890700b6f91af713480769dda5a085ae219c8737ebae90ff25915a3203000000056300ac6300811a6a10230f12c9faa28dae5be2ebe93f37c06a79e76214feba49bb017fb25305ff84eb020000000100ffffffff041e351703000000000351ac004ff53e050000000003ab53636c1460010000000000cb55f701000000000651520051ab0000000000',
+    'acac636a6aac5300',
+    0,
+    406448919,
+    '793a3d3c37f6494fab79ff10c16702de002f63e34be25dd8561f424b0ea938c4'
+  ],
+  [
+    '22e10d2003ab4ea9849a2801921113583b7c35c3710ff49a6003489395789a7cfb1e6051900100000006526a65535151ffffffff82f21e249ec60db33831d33b9ead0d56f6496db64337dcb7f1c3327c47729c4a020000000253abffffffff138f098f0e6a4cf51dc3e7a3b749f487d1ebde71b73b731d1d02ad1180ac7b8c02000000036563acda215011027a9484020000000007635165530000ac4bf6cb0400000000066aacabab65ab3ce3f32c',
+    'ab0052ab',
+    2,
+    1136359457,
+    'b5bd080bbcb8cd652f440484311d7a3cb6a973cd48f03c5c00fd6beb52dfc061'
+  ],
+  [
+    'c47d5ad60485cb2f7a825587b95ea665a593769191382852f3514a486d7a7a11d220b62c54000000000663655253acab8c3cf32b0285b040e50dcf6987ddf7c385b3665048ad2f9317b9e0c5ba0405d8fde4129b00000000095251ab00ac65635300ffffffff549fe963ee410d6435bb2ed3042a7c294d0c7382a83edefba8582a2064af3265000000000152fffffffff7737a85e0e94c2d19cd1cde47328ece04b3e33cd60f24a8a345da7f2a96a6d0000000000865ab6a0051656aab28ff30d5049613ea020000000005ac51000063f06df1050000000008ac63516aabac5153afef5901000000000700656500655253688bc00000000000086aab5352526a53521ff1d5ff',
+    '51ac52',
+    2,
+    -1296011911,
+    '0c1fd44476ff28bf603ad4f306e8b6c7f0135a441dc3194a6f227cb54598642a'
+  ],
+  [
+    '0b43f122032f182366541e7ee18562eb5f39bc7a8e5e0d3c398f7e306e551cdef773941918030000000863006351ac51acabffffffffae586660c8ff43355b685dfa8676a370799865fbc4b641c5a962f0849a13d8250100000005abab63acabffffffff0b2b6b800d8e77807cf130de6286b237717957658443674df047a2ab18e413860100000008ab6aac655200ab63ffffffff04f1dbca03000000000800635253ab656a52a6eefd0300000000036365655d8ca90200000000005a0d530400000000015300000000',
+    '65ac65acac',
+    0,
+    351448685,
+    '86f26e23822afd1bdfc9fff92840fc1e60089f12f54439e3ab9e5167d0361dcf'
+  ],
+  [
+    '4b0ecc0c03ba35700d2a30a71f28e432ff6ac7e357533b49f4e97cf28f1071119ad6b97f3e0300000008acab516363ac63acffffffffcd6a2019d99b5c2d639ddca0b1aa5ea7c1326a071255ea226960bd88f45ca57d00000000085253655363005353ffffffffba257635191c9f216de3277be548cb5a2313114cb1a4c563b03b4ef6c0f4f7040300000001abda542edf0495cdc40100000000026353c049e903000000000752516a53ab65512b0f9304000000000963ab516aac65516552fa9ece050000000009acab6500005152530000000000',
+    '65ab51525352510052',
+    1,
+    -1355414590,
+    '3cd85f84aae6d702436f3f9b8980adcc1f8f202e957759540a27da0a32fc6c87'
+  ],
+  [
+    'adaac0a803f66811346271c733036d6e0d45e15a9b602092e2e04ad93564f196e7f020b088000000000600526a636a00700ec3f9db07a3a6ce910bf318c7ec87a876e1f2a3366cc69f20cde09203b99c1cb9d15800000000050000ac636a4d0de554ebe95c6cc14faf5ff6361d1deba9474b8b0fd3b93c011cd96aec783abb3f36830200000005ab65005251ffffffff0464eb10050000000007520000ab6a65ab1beaa80300000000005a2f31050000000006526aab65ac52ba7db10000000000045251ab6a0cfb46e7',
+    'ab0051ac52636a',
+    1,
+    -184733716,
+    '961ff413850336d3987c550404fc1d923266ca36cc9ffee7113edb3a9fea7f30'
+  ],
+  [
+    'af1c4ab301ec462f76ee69ba419b1b2557b7ded639f3442a3522d4f9170b2d6859765c3df402000000016affffffff01a5ca6c000000000008ab52536aab00005300000000',
+    '6a6351',
+    0,
+    110304602,
+    'e88ed2eea9143f2517b15c03db00767eb01a5ce12193b99b964a35700607e5f4'
+  ],
+  [
+    '0bfd34210451c92cdfa02125a62ba365448e11ff1db3fb8bc84f1c7e5615da40233a8cd368010000000252ac9a070cd88dec5cf9aed1eab10d19529720e12c52d3a21b92c6fdb589d056908e43ea910e0200000009ac516a52656a6a5165ffffffffc3edcca8d2f61f34a5296c405c5f6bc58276416c720c956ff277f1fb81541ddd00000000030063abffffffff811247905cdfc973d179c03014c01e37d44e78f087233444dfdce1d1389d97c302000000065163000063ab1724a26e02ca37c902000000000851ab53525352ac529012a90100000000085200525253535353fa32575b',
+    '5352ac6351',
+    1,
+    -1087700448,
+    'b8f1e1f35e3e1368bd17008c756e59cced216b3c699bcd7bebdb5b6c8eec4697'
+  ],
+  [
+    '2c84c0640487a4a695751d3e4be48019dbaea85a6e854f796881697383ea455347d2b2769001000000055265526500ffffffff6aac176d8aa00778d496a7231eeb7d3334f20c512d3db1683276402100d98de5030000000700536a5263526ac1ee9ceb171c0c984ebaf12c234fd1487fbf3b3d73aa0756907f26837efba78d1bed33200300000001ab4d9e8ec0bed837cb929bbed76ee848959cec59de44bd7667b7631a744f880d5c71a20cfd0100000007005363515300abffffffff023753fb0000000000036565532d3873050000000009005152ab6a63acab5200000000',
+    'ab650053ab',
+    0,
+    -877941183,
+    'c49af297dffe2d80deddf10ceea84b99f8554bd2d55bbdc34e449728c31f0835'
+  ],
+  [
+    '1f7e4b1b045d3efa6cd7a11d7873a8bab886c19bd11fcb6712f0948f2db3a7be76ff76c8f100000000095265ab6a0065ac5363ffffffffdaafcfa6029336c997680a541725190f09a6f6da21e54560eca4b5b8ae987da1000000000952ac52acac52515165ffffffff825a38d3b1e5bb4d10f33653ab3ab6882c7abdaec74460257d1528ce7be3f98e0100000007526a006a656a63c14adc8f04953a5d3d3f89237f38b857dd357713896d36215f7e8b77b11d98ea3cdc93df02000000015212484f6104bfafae0300000000025263a2b0120000000000056563ab00516c4d2605000000000653ac6500655301cc93030000000002acab14643b1f',
+    '63acac53ab',
+    0,
+    333824258,
+    '18da6ceb011cd36f15ad7dd6c55ef07e6f6ed48881ce3bb31416d3c290d9a0e9'
+  ],
+  [
+    '467a3e7602e6d1a7a531106791845ec3908a29b833598e41f610ef83d02a7da3a1900bf2960000000005ab6a636353ffffffff031db6dac6f0bafafe723b9199420217ad2c94221b6880654f2b35114f44b1df010000000965ab52636a63ac6352ffffffff02b3b95c0100000000026300703216030000000001ab3261c0aa',
+    '6a',
+    0,
+    2110869267,
+    '3078b1d1a7713c6d101c64afe35adfae0977a5ab4c7e07a0b170b041258adbf2'
+  ],
+  [
+    '8713bc4f01b411149d575ebae575f5dd7e456198d61d238695df459dd9b86c4e3b2734b62e0300000004abac6363ffffffff03b58049050000000002ac653c714c04000000000953656a005151526a527b5a9e03000000000652ac5100525300000000',
+    '52',
+    0,
+    -647281251,
+    '0e0bed1bf2ff255aef6e5c587f879ae0be6222ab33bd75ee365ec6fbb8acbe38'
+  ],
+  [
+    'f2ba8a8701b9c401efe3dd0695d655e20532b90ac0142768cee4a3bb0a89646758f544aa8102000000036a52527899f4e4040c6f0b030000000008636565ab530051ab52b60c000000000009515200ab630053ac53a49c5f040000000008ab53ab516300ab63fa27340300000000015100000000',
+    'ac63abab5251',
+    0,
+    -1328936437,
+    'ab61497afd39e61fe06bc5677326919716f9b20083c9f3417dcea905090e0411'
+  ],
+  [
+    'b5a7df6102107beded33ae7f1dec0531d4829dff7477260925aa2cba54119b7a07d92d5a1d02000000046a516a52803b625c334c1d2107a326538a3db92c6c6ae3f7c3516cd90a09b619ec6f58d10e77bd6703000000056563006a63ffffffff0117484b03000000000853acab52526a65abc1b548a1',
+    'ac006a525100',
+    0,
+    2074359913,
+    '680336db57347d8183b8898cd27a83f1ba5884155aeae5ce20b4840b75e12871'
+  ],
+  [
+    '278cb16204b9dadf400266106392c4aa9df01ba03af988c8139dae4c1818ac009f13fc5f1a00000000065200ac656a52ffffffffd006bbebd8cbd7bdead24cddc9badfcc6bc0c2e63c037e5c29aa858f5d0f3e7d01000000046a0051acffffffffbc62a5f57e58da0b67956003ae81ac97cb4cbd1d694c914fc41515c008c4d8fd020000000165e329c844bcc16164be64b64a81cbf4ffd41ed2934e0daa0040ccb8365bab0b2a9e401c180300000003ab52abffffffff02588460030000000000a25a12030000000005535100005300000000',
+    '6553ab6a5300acab51',
+    3,
+    989407546,
+    '1c29f110576f4a3b257f67454d99dfc0dee62ef5517ca702848ce4bd2ea1a1d7'
+  ],
+  [
+    '49eb2178020a04fca08612c34959fd41447319c190fb7ffed9f71c235aa77bec28703aa1820200000003ac6353abaff326071f07ec6b77fb651af06e8e8bd171068ec96b52ed584de1d71437fed186aecf0300000001acffffffff03da3dbe02000000000652ac63ac6aab8f3b680400000000096a536a65636a53516a5175470100000000016500000000',
+    '6a536365',
+    0,
+    1283691249,
+    'c670219a93234929f662ecb9aa148a85a2d281e83f4e53d10509461cdea47979'
+  ],
+  [
+    '0f96cea9019b4b3233c0485d5b1bad770c246fe8d4a58fb24c3b7dfdb3b0fd90ea4e8e947f0300000006006a5163515303571e1e01906956030000000005ab635353abadc0fbbe',
+    'acac',
+    0,
+    -1491469027,
+    '716a8180e417228f769dcb49e0491e3fda63badf3d5ea0ceeac7970d483dd7e2'
+  ],
+  [
+    '9a7d858604577171f5fe3f3fd3e5e039c4b0a06717a5381e9977d80e9f53e025e0f16d2877020000000752636565536353ffffffff5862bd028e8276e63f044be1dddcbb8d0c3fa097678308abf2b0f45104a93dbd0100000001531200667ba8fdd3b28e98a35da73d3ddfe51e210303d8eb580f923de988ee632d77793892030000000752526363526563ffffffffe9744eb44db2658f120847c77f47786d268c302120d269e6004455aa3ea5f5e20200000009ab6300636aab656551ffffffff03c61a3c020000000009ab516a6aab6aab53ab737f1a05000000000853acabab655365ab92a4a00400000000016367edf6c8',
+    '535352ab',
+    3,
+    659348595,
+    'd36ee79fc80db2e63e05cdc50357d186181b40ae20e3720878284228a13ee8b3'
+  ],
+  [
+    '148e68480196eb52529af8e83e14127cbfdbd4a174e60a86ac2d86eac9665f46f4447cf7aa01000000045200ac538f8f871401cf240c0300000000065252ab52656a5266cf61',
+    '',
+    0,
+    -344314825,
+    'eacc47c5a53734d6ae3aedbc6a7c0a75a1565310851b29ef0342dc4745ceb607'
+  ],
+  [
+    'e2bc29d4013660631ba14ecf75c60ec5e9bed7237524d8c10f66d0675daa66d1492cb834530200000004ac510065e42d0c9e04f2b26c01000000000951525152acac65ababa35b7504000000000953ac6aac00650053ab94688c0400000000056365526553a1bced0300000000016a00000000',
+    '65ab0063655353',
+    0,
+    -888431789,
+    '59a34b3ed3a1cce0b104de8f7d733f2d386ffc7445efae67680cd90bc915f7e0'
+  ],
+  [
+    '0c8a70d70494dca6ab05b2bc941b5b431c43a292bd8f2f02eab5e240a408ca73a676044a4103000000056a51ab006affffffff84496004e54836c035821f14439149f22e1db834f315b24588ba2f031511926c0100000000ffffffffbbc5e70ed1c3060ba1bfe99c1656a3158a7307c3ce8eb362ec32c668596d2bd30000000009636563635351abab00b039344c6fc4f9bec24322e45407af271b2d3dfec5f259ee2fc7227bc5285e22b3be85b40100000009ac00ab53abac6a5352e5ddfcff02d50231020000000005006a51536ab086d9020000000006ababac51ac6a00000000',
+    'abab636565acac6a',
+    3,
+    241546088,
+    '643a7b4c8d832e14d5c10762e74ec84f2c3f7ed96c03053157f1bed226614911'
+  ],
+  [
+    'f98f79cf0274b745e1d6f36da7cbe205a79132a7ad462bdc434cfb1dcd62a6977c3d2a5dbc010000000553516a5365ffffffff4f89f485b53cdad7fb80cc1b7e314b9735b9383bc92c1248bb0e5c6173a55c0d010000000353655293f9b014045ad96d02000000000963ac526a53ac636365f4c27904000000000952536563635152526a2788f0030000000002516aff5add01000000000863530051655351abd04716ba',
+    'ab6552536a53',
+    1,
+    -2128899945,
+    '56d29f5e300ddfed2cd8dcce5d79826e193981d0b70dc7487772c8a0b3b8d7b1'
+  ],
+  [
+    '6c7913f902aa3f5f939dd1615114ce961beda7c1e0dd195be36a2f0d9d047c28ac62738c3a020000000453abac00ffffffff477bf2c5b5c6733881447ac1ecaff3a6f80d7016eee3513f382ad7f554015b970100000007ab6563acab5152ffffffff04e58fe1040000000009ab00526aabab526553e59790010000000002ab525a834b03000000000035fdaf0200000000086551ac65515200ab00000000',
+    '63ac53',
+    1,
+    1285478169,
+    '1536da582a0b6de017862445e91ba14181bd6bf953f4de2f46b040d351a747c9'
+  ],
+  [
+    '4624aa9204584f06a8a325c84e3b108cafb97a387af62dc9eab9afd85ae5e2c71e593a3b690200000003636a005eb2b44eabbaeca6257c442fea00107c80e32e8715a1293cc164a42e62ce14fea146220c020000000090b9ee38106e3310037bfc519fd209bdbd21c588522a0e96df5fba4e979392bc993bfe9f01000000086363636a635353ab6f1907d218ef6f3c729d9200e23c1dbff2df58b8b1282c6717b26cf760ee4c880d23f4d100000000086a516a536a525163ffffffff01d6f162050000000000ebbab208',
+    '525365ab0053',
+    1,
+    -1515409325,
+    '6cf9cd409b7185b1f118171f0a34217af5b612ea54195ea186505b667c19337f'
+  ],
+  [
+    '16562fc503f1cf9113987040c408bfd4523f1512da699a2ca6ba122dc65677a4c9bf7763830000000003636552ffffffff1ec1fab5ff099d1c8e6b068156f4e39b5543286bab53c6d61e2582d1e07c96cf02000000045163656affffffffd0ef40003524d54c08cb4d13a5ee61c84fbb28cde9eca7a6d11ba3a9335d8c620100000007635153536a6300fbb84fc2012003a601000000000363ab6a00000000',
+    '63636a006a6aab',
+    0,
+    -1310262675,
+    '1efbf3d37a92bc03d9eb950b792f307e95504f7c4998f668aa250707ebb752ac'
+  ],
+  [
+    '531665d701f86bacbdb881c317ef60d9cd1baeffb2475e57d3b282cd9225e2a3bf9cbe0ded01000000086300ac515263acabffffffff0453a8500100000000086353acab516a6565e5e9200500000000026a52a44caa00000000000453ac000065e41b0500000000076500ac0065526ab4476f4d',
+    '006563006aab00636a',
+    0,
+    1770013777,
+    '0898b26dd3ca08632a5131fa48eb55b44386d0c5070c24d6e329673d5e3693b8'
+  ],
+  [
+    '0f1227a20140655a3da36e413b9b5d108a866f6f147eb4940f032f5a89854eae6d7c3a91600100000009525363515153515253e37a79480161ab61020000000001ab00000000',
+    'ab65005200',
+    0,
+    -1996383599,
+    '979782dc3f36d908d37d7e4046a38d306b4b08ddc60a5eba355fe3d6da1b29a9'
+  ],
+  [
+    '063ff6eb01aff98d0d2a6db224475010edb634c2f3b46257084676adeb84165a4ff8558d7601000000066353006a5165deb3262c042d109c0000000000076363ab52ac005200b9c4050000000007516300ac510063cfffc800000000000200639e815501000000000700526a52ac6365ac7b07b8',
+    '656552abac6500',
+    0,
+    -1559847112,
+    '674a4bcb04247f8dc98780f1792cac86b8aee41a800fc1e6f5032f6e1dccde65'
+  ],
+  [
+    '3320f6730132f830c4681d0cae542188e4177cad5d526fae84565c60ceb5c0118e844f90bd030000000163ffffffff0257ec5a040000000005525251ac6538344d000000000002515200000000',
+    '5352656a53ac516a65',
+    0,
+    788050308,
+    '3afacaca0ef6be9d39e71d7b1b118994f99e4ea5973c9107ca687d28d8eba485'
+  ],
+  [
+    'c13aa4b702eedd7cde09d0416e649a890d40e675aa9b5b6d6912686e20e9b9e10dbd40abb1000000000863ab6353515351ac11d24dc4cc22ded7cdbc13edd3f87bd4b226eda3e4408853a57bcd1becf2df2a1671fd1600000000045165516affffffff01baea300100000000076aab52ab53005300000000',
+    '0065',
+    0,
+    -1195908377,
+    '241a23e7b1982d5f78917ed97a8678087acbbffe7f624b81df78a5fe5e41e754'
+  ],
+  [
+    'd9a6f20e019dd1b5fae897fb472843903f9c3c2293a0ffb59cff2b413bae6eceab574aaf9d030000000663ab006a515102f54939032df5100100000000056a51ab65530ec28f010000000004ac5100007e874905000000000651005265ac6a00000000',
+    'abacab63acacabab',
+    0,
+    271463254,
+    '1326a46f4c21e7619f30a992719a905aa1632aaf481a57e1cbd7d7c22139b41e'
+  ],
+  [
+    '157c81bf0490432b3fcb3f9a5b79e5f91f67f05efb89fa1c8740a3fe7e9bdc18d7cb6acd2203000000026351ffffffff912e48e72bbcf8a540b693cf8b028e532a950e6e63a28801f6eaad1afcc52ad00000000000b1a4b170a2b9e60e0cad88a0085137309f6807d25d5afb5c1e1d32aa10ba1cdf7df596dd0000000009525165656a51ab65ab3674fba32a76fe09b273618d5f14124465933f4190ba4e0fd09d838daafc6223b31642ac00000000086a53536551ac6565ffffffff01fe9fb6030000000008ab51656a5165636a00000000',
+    'ab00ab6a6551',
+    3,
+    -64357617,
+    '1ddaab7f973551d71f16bd70c4c4edbf7225e64e784a6da0ee7f7a9fe4f12a0b'
+  ],
+  [
+    'a2692fff03b2387f5bacd5640c86ba7df574a0ee9ed7f66f22c73cccaef3907eae791cbd230200000004536363abffffffff4d9fe7e5b375de88ba48925d9b2005447a69ea2e00495a96eafb2f144ad475b40000000008000053000052636537259bee3cedd3dcc07c8f423739690c590dc195274a7d398fa196af37f3e9b4a1413f810000000006ac63acac52abffffffff04c65fe60200000000075151536365ab657236fc020000000009005263ab00656a6a5195b8b6030000000007ac5165636aac6a7d7b66010000000002acab00000000',
+    '51',
+    2,
+    -826546582,
+    '925037c7dc7625f3f12dc83904755a37016560de8e1cdd153c88270a7201cf15'
+  ],
+  [
+    '2c5b003201b88654ac2d02ff6762446cb5a4af77586f05e65ee5d54680cea13291efcf930d0100000005ab536a006a37423d2504100367000000000004536a515335149800000000000152166aeb03000000000452510063226c8e03000000000000000000',
+    '635251',
+    0,
+    1060344799,
+    '7e058ca5dd07640e4aae7dea731cfb7d7fef1bfd0d6d7b6ce109d041f4ca2a31'
+  ],
+  [
+    'f981b9e104acb93b9a7e2375080f3ea0e7a94ce54cd8fb25c57992fa8042bdf4378572859f0100000002630008604febba7e4837da77084d5d1b81965e0ea0deb6d61278b6be8627b0d9a2ecd7aeb06a0300000005ac5353536a42af3ef15ce7a2cd60482fc0d191c4236e66b4b48c9018d7dbe4db820f5925aad0e8b52a0300000008ab0063510052516301863715efc8608bf69c0343f18fb81a8b0c720898a3563eca8fe630736c0440a179129d03000000086aac6a52ac6a63ac44fec4c00408320a03000000000062c21c030000000007ac6a655263006553835f0100000000015303cd60000000000005535263536558b596e0',
+    '00',
+    0,
+    -2140385880,
+    '49870a961263354c9baf108c6979b28261f99b374e97605baa532d9fa3848797'
+  ],
+  [
+    'e7416df901269b7af14a13d9d0507709b3cd751f586ce9d5da8d16a121e1bd481f5a086e1103000000056aab005200ffffffff01aa269c040000000006acac6a6a5263ee718de6',
+    'ab525363',
+    0,
+    1309186551,
+    'eea7d2212bda2d408fff146f9ae5e85e6b640a93b9362622bb9d5e6e36798389'
+  ],
+  [
+    '402a815902193073625ab13d876190d1bbb72aecb0ea733c3330f2a4c2fe6146f322d8843a0300000008656aab0000535363fffffffff9dccdec5d8509d9297d26dfcb1e789cf02236c77dc4b90ebccbf94d1b5821150300000001510bf1f96a03c5c145000000000002ac6ae11b1c0100000000055163516a5239c8a600000000000365636300000000',
+    '63536aacab',
+    0,
+    -1811424955,
+    '0090803a20102a778ab967a74532faee13e03b702083b090b1497bc2267ee2fe'
+  ],
+  [
+    'c4b702e502f1a54f235224f0e6de961d2e53b506ab45b9a40805d1dacd35148f0acf24ca5e00000000085200ac65ac53acabf34ba6099135658460de9d9b433b84a8562032723635baf21ca1db561dce1c13a06f4407000000000851ac006a63516aabffffffff02a853a603000000000163d17a67030000000005ab63006a5200000000',
+    'ac5363515153',
+    1,
+    480734903,
+    '5c46f7ac3d6460af0da28468fcc5b3c87f2b9093d0f837954b7c8174b4d7b6e7'
+  ],
+  [
+    '9b83f78704f492b9b353a3faad8d93f688e885030c274856e4037818848b99e490afef27770200000000ffffffff36b60675a5888c0ef4d9e11744ecd90d9fe9e6d8abb4cff5666c898fdce98d9e00000000056aab656352596370fca7a7c139752971e169a1af3e67d7656fc4fc7fd3b98408e607c2f2c836c9f27c030000000653ac51ab6300a0761de7e158947f401b3595b7dc0fe7b75fa9c833d13f1af57b9206e4012de0c41b8124030000000953656a53ab53510052242e5f5601bf83b301000000000465516a6300000000',
+    '63515200ac656365',
+    3,
+    -150879312,
+    '9cf05990421ea853782e4a2c67118e03434629e7d52ab3f1d55c37cf7d72cdc4'
+  ],
+  [
+    'f492a9da04f80b679708c01224f68203d5ea2668b1f442ebba16b1aa4301d2fe5b4e2568f3010000000953005351525263ab65ffffffff93b34c3f37d4a66df255b514419105b56d7d60c24bf395415eda3d3d8aa5cd0101000000020065ffffffff9dba34dabdc4f1643b372b6b77fdf2b482b33ed425914bb4b1a61e4fad33cf390000000002ab52ffffffffbbf3dc82f397ef3ee902c5146c8a80d9a1344fa6e38b7abce0f157be7adaefae0000000009515351005365006a51ffffffff021359ba010000000000403fea0200000000095200ac6353abac635300000000',
+    '00ac51acacac',
+    0,
+    -2115078404,
+    'fd44fc98639ca32c927929196fc3f3594578f4c4bd248156a25c04a65bf3a9f3'
+  ],
+  [
+    '2f73e0b304f154d3a00fde2fdd40e791295e28d6cb76af9c0fd8547acf3771a02e3a92ba37030000000852ac6351ab6565639aa95467b065cec61b6e7dc4d6192b5536a7c569315fb43f470078b31ed22a55dab8265f02000000080065636a6aab6a53ffffffff9e3addbff52b2aaf9fe49c67017395198a9b71f0aa668c5cb354d06c295a691a0100000000ffffffff45c2b4019abaf05c5e484df982a4a07459204d1343a6ee5badade358141f8f990300000007ac516a6aacac6308655cd601f3bc2f0000000000015200000000',
+    '',
+    0,
+    -2082053939,
+    '9a95e692e1f78efd3e46bb98f178a1e3a0ef60bd0301d9f064c0e5703dc879c2'
+  ],
+  [
+    '5a60b9b503553f3c099f775db56af3456330f1e44e67355c4ab290d22764b9144a7b5f959003000000030052acbd63e0564decc8659aa53868be48c1bfcda0a8c9857b0db32a217bc8b46d9e7323fe9649020000000553ac6551abd0ecf806211db989bead96c09c7f3ec5f73c1411d3329d47d12f9e46678f09bac0dc383e0200000000ffffffff01494bb202000000000500516551ac00000000',
+    'ac',
+    0,
+    1169947809,
+    '62a36c6e8da037202fa8aeae03e533665376d5a4e0a854fc4624a75ec52e4eb1'
+  ],
+  [
+    '7e98d353045569c52347ca0ff2fdba608829e744f61eb779ffdb5830aae0e6d6857ab2690e03000000075365acab656352ffffffffa890dd37818776d12da8dca53d02d243ef23b4535c67016f4c58103eed85360f030000000093dbacdc25ca65d2951e047d6102c4a7da5e37f3d5e3c8b87c29b489360725dcd117ee2003000000056a6300ac53c7e99fa1dc2b8b51733034e6555f6d6de47dbbf1026effac7db80cb2080678687380dc1e02000000075352005263516affffffff04423272040000000008ab6353ab65510051e0f53b0500000000086300516552635152f74a5f04000000000853acab0053ab52ab0e8e5f00000000000951ac5363516a6aabab00000000',
+    '6a5163ab52',
+    3,
+    890006103,
+    '476868cecd1763c91dade98f17defa42d31049547df45acffa1cc5ae5c3d75d6'
+  ],
+  [
+    'e3649aa40405e6ffe377dbb1bbbb672a40d8424c430fa6512c6165273a2b9b6afa9949ec430200000007630052ab655153a365f62f2792fa90c784efe3f0981134d72aac0b1e1578097132c7f0406671457c332b84020000000353ab6ad780f40cf51be22bb4ff755434779c7f1def4999e4f289d2bd23d142f36b66fbe5cfbb4b01000000076a5252abac52ab1430ffdc67127c9c0fc97dcd4b578dab64f4fb9550d2b59d599773962077a563e8b6732c02000000016affffffff04cb2687000000000002ab636e320904000000000252acf70e9401000000000100dc3393050000000006ab0063536aacbc231765',
+    '65520053',
+    3,
+    -2016196547,
+    'f64f805f0ff7f237359fa6b0e58085f3c766d1859003332223444fd29144112a'
+  ],
+  [
+    '1d033569040700441686672832b531ab55db89b50dc1f9fc00fb72218b652da9dcfbc83be901000000066551ac526a632b390f9ad068e5fdee6563e88e2a8e4e09763c861072713dc069893dc6bbc9db3f00e26502000000096a5363526565525252ffffffff8a36bdd0aaf38f6707592d203e14476ca9f259021e487135c7e8324244057ed90300000000ed3fb2a3dfd4d46b5f3603fe0148653911988457bd0ed7f742b07c452f5476c228ff9f600200000007526aac00525152ffffffff04b88e48030000000000c753d602000000000853510000006553518fda2603000000000853ac52acac5263534839f1030000000006ac006aacac5300000000',
+    '516553635300ab0052',
+    1,
+    2075958316,
+    'c2cefaec2293134acbcf6d2a8bf2b3eb42e4ec04ee8f8bf30ff23e65680677c1'
+  ],
+  [
+    '4c4be7540344050e3044f0f1d628039a334a7c1f7b4573469cfea46101d6888bb6161fe9710200000000ffffffffac85a4fdad641d8e28523f78cf5b0f4dc74e6c5d903c10b358dd13a5a1fd8a06000000000163e0ae75d05616b72467b691dc207fe2e65ea35e2eadb7e06ea442b2adb9715f212c0924f10200000000ffffffff0194ddfe02000000000265ac00000000',
+    '00006500',
+    1,
+    -479922562,
+    'd66924d49f03a6960d3ca479f3415d638c45889ce9ab05e25b65ac260b51d634'
+  ],
+  [
+    '202c18eb012bc0a987e69e205aea63f0f0c089f96dd8f0e9fcde199f2f37892b1d4e6da90302000000055352ac6565ffffffff0257e5450100000000025300ad257203000000000000000000',
+    '520052ac6a005265',
+    0,
+    168054797,
+    '502967a6f999f7ee25610a443caf8653dda288e6d644a77537bcc115a8a29894'
+  ],
+  [
+    '32fa0b0804e6ea101e137665a041cc2350b794e59bf42d9b09088b01cde806ec1bbea077df0200000008515153650000006506a11c55904258fa418e57b88b12724b81153260d3f4c9f080439789a391ab147aabb0fa0000000007000052ac51ab510986f2a15c0d5e05d20dc876dd2dafa435276d53da7b47c393f20900e55f163b97ce0b800000000008ab526a520065636a8087df7d4d9c985fb42308fb09dce704650719140aa6050e8955fa5d2ea46b464a333f870000000009636300636a6565006affffffff01994a0d040000000002536500000000',
+    '516563530065',
+    2,
+    -163068286,
+    'f58637277d2bc42e18358dc55f7e87e7043f5e33f4ce1fc974e715ef0d3d1c2a'
+  ],
+  [
+    'ae23424d040cd884ebfb9a815d8f17176980ab8015285e03fdde899449f4ae71e04275e9a80100000007ab006553530053ffffffff018e06db6af519dadc5280c07791c0fd33251500955e43fe4ac747a4df5c54df020000000251ac330e977c0fec6149a1768e0d312fdb53ed9953a3737d7b5d06aad4d86e9970346a4feeb5030000000951ab51ac6563ab526a67cabc431ee3d8111224d5ecdbb7d717aa8fe82ce4a63842c9bd1aa848f111910e5ae1eb0100000004ac515300bfb7e0d7048acddc030000000009636a5253636a655363a3428e040000000001525b99c6050000000004655265ab717e6e020000000000d99011eb',
+    'ac6a6a516565',
+    1,
+    -716251549,
+    'b098eb9aff1bbd375c70a0cbb9497882ab51f3abfebbf4e1f8d74c0739dc7717'
+  ],
+  [
+    '030f44fc01b4a9267335a95677bd190c1c12655e64df74addc53b753641259af1a54146baa020000000152e004b56c04ba11780300000000026a53f125f001000000000251acd2cc7c03000000000763536563655363c9b9e50500000000015200000000',
+    'ac',
+    0,
+    -1351818298,
+    '19dd32190ed2a37be22f0224a9b55b91e37290577c6c346d36d32774db0219a3'
+  ],
+  [
+    'c05f448f02817740b30652c5681a3b128322f9dc97d166bd4402d39c37c0b14506d8adb5890300000003536353ffffffffa188b430357055ba291c648f951cd2f9b28a2e76353bef391b71a889ba68d5fc02000000056565526a6affffffff02745f73010000000001ab3ec34c0400000000036aac5200000000',
+    '516551510053',
+    0,
+    -267877178,
+    '3a1c6742d4c374f061b1ebe330b1e169a113a19792a1fdde979b53e094cc4a3c'
+  ],
+  [
+    '163ba45703dd8c2c5a1c1f8b806afdc710a2a8fc40c0138e2d83e329e0e02a9b6c837ff6b8000000000700655151ab6a522b48b8f134eb1a7e6f5a6fa319ce9d11b36327ba427b7d65ead3b4a6a69f85cda8bbcd22030000000563656552acffffffffdbcf4955232bd11eef0cc6954f3f6279675b2956b9bcc24f08c360894027a60201000000066500006500abffffffff04d0ce9d0200000000008380650000000000015233f360040000000003006aabedcf0801000000000000000000',
+    '000065006500ac',
+    0,
+    216965323,
+    '9afe3f4978df6a86e9a8ebd62ef6a9d48a2203f02629349f1864ef2b8b92fd55'
+  ],
+  [
+    '07f7f5530453a12ad0c7eb8fbc3f140c7ab6818144d67d2d8752600ca5d9a9358e2dff87d4000000000663526aab526a9e599c379d455e2da36d0cde88d931a863a3e97e01e93b9edb65856f3d958dc08b92b720000000000165bbc8d66dae3b1b170a6e2457f5b161465cb8706e0e6ffc6af55deb918365f14c5f40d4890100000000a7bd77c069ee4b48638e2363fcf2a86b02bea022047bd9fcb16d2b94ad068308d19b31cb00000000066aab5300ab529672aa8f01dbd8a205000000000663536353006a02e99901',
+    'ac006351006a63ab63',
+    1,
+    119789359,
+    '6629a1e75c6ae8f4f9d5f734246b6a71682a5ea57246040ef0584f6b97916175'
+  ],
+  [
+    'fe647f950311bf8f3a4d90afd7517df306e04a344d2b2a2fea368935faf11fa6882505890d0000000005ab5100516affffffff43c140947d9778718919c49c0535667fc6cc727f5876851cb8f7b6460710c7f60100000000ffffffffce4aa5d90d7ab93cbec2e9626a435afcf2a68dd693c15b0e1ece81a9fcbe025e0300000000ffffffff02f34806020000000002515262e54403000000000965635151ac655363636de5ce24',
+    '6a005100ac516351',
+    2,
+    989643518,
+    '818a7ceaf963f52b5c48a7f01681ac6653c26b63a9f491856f090d9d60f2ffe3'
+  ],
+  [
+    'a1050f8604d0f9d2feefcdb5051ae0052f38e21bf39daf583fd0c3900faa3eab5d431c0bbe030000000653536a005151683d27e5c6e0da8f22125823f32d5d98477d8098ef36263b9694d61d4d85d3f2ac02b7570200000007000052005165abffffffff0cad981542bcb54a87d9400aa63e514c7c6fab7158c2b1fb37821ea755eb162a0200000000b94feb5100e5ef3bf8ed8d43356c8a8d5ac6c7e80d7ff6040f4f0aa19abbe783f4f461240200000007636500000052655686fd70042be3ad02000000000465ab636a15680b000000000004acac53511277c705000000000452635252d27a0102000000000000000000',
+    '6a6aacab65655251',
+    1,
+    -982144648,
+    'dfcf484111801989eb6df8dc2bafb944d7365ffeb36a575a08f3270d3ef24c9f'
+  ],
+  [
+    'cef7316804c3e77fe67fc6207a1ea6ae6eb06b3bf1b3a4010a45ae5c7ad677bb8a4ebd16d90200000009ac536a5152ac5263005301ab8a0da2b3e0654d31a30264f9356ba1851c820a403be2948d35cafc7f9fe67a06960300000006526a63636a53ffffffffbada0d85465199fa4232c6e4222df790470c5b7afd54704595a48eedd7a4916b030000000865ab63ac006a006ab28dba4ad55e58b5375053f78b8cdf4879f723ea4068aed3dd4138766cb4d80aab0aff3d0300000003ac6a00ffffffff010f5dd6010000000006ab006aab51ab00000000',
+    '',
+    1,
+    889284257,
+    'd0f32a6db43378af84b063a6706d614e2d647031cf066997c48c04de3b493a94'
+  ],
+  [
+    '7b3ff28004ba3c7590ed6e36f45453ebb3f16636fe716acb2418bb2963df596a50ed954d2e03000000065251515265abffffffff706ee16e32e22179400c9841013971645dabf63a3a6d2d5feb42f83aa468983e030000000653ac51ac5152ffffffffa03a16e5e5de65dfa848b9a64ee8bf8656cc1f96b06a15d35bd5f3d32629876e020000000043c1a3965448b3b46f0f0689f1368f3b2981208a368ec5c30defb35595ef9cf95ffd10e902000000036aac65253a5bbe042e907204000000000800006565656352634203b4020000000002656336b3b7010000000001ab7a063f0100000000026500a233cb76',
+    '006551636a53ac5251',
+    1,
+    -1144216171,
+    '68c7bd717b399b1ee33a6562a916825a2fed3019cdf4920418bb72ffd7403c8c'
+  ],
+  [
+    'd5c1b16f0248c60a3ddccf7ebd1b3f260360bbdf2230577d1c236891a1993725e262e1b6cb000000000363636affffffff0a32362cfe68d25b243a015fc9aa172ea9c6b087c9e231474bb01824fd6bd8bc0300000005ab52ab516affffffff0420d9a70200000000045152656a45765d0000000000055252536a5277bad100000000000252ab3f3f3803000000000463acac5200000000',
+    '52636a52ab65',
+    1,
+    1305123906,
+    '978dc178ecd03d403b048213d904653979d11c51730381c96c4208e3ea24243a'
+  ],
+  [
+    '1be8ee5604a9937ebecffc832155d9ba7860d0ca451eaced58ca3688945a31d93420c27c460100000006abac5300535288b65458af2f17cbbf7c5fbcdcfb334ffd84c1510d5500dc7d25a43c36679b702e850f7c0200000003005300ffffffff7c237281cb859653eb5bb0a66dbb7aeb2ac11d99ba9ed0f12c766a8ae2a2157203000000086aabac526365acabfffffffff09d3d6639849f442a6a52ad10a5d0e4cb1f4a6b22a98a8f442f60280c9e5be80200000007ab00ab6565ab52ffffffff0398fe83030000000005526aababacbdd6ec010000000005535252ab6a82c1e6040000000001652b71c40c',
+    '6563526353656351',
+    2,
+    -853634888,
+    '0d936cceda2f56c7bb87d90a7b508f6208577014ff280910a710580357df25f3'
+  ],
+  [
+    '9e0f99c504fbca858c209c6d9371ddd78985be1ab52845db0720af9ae5e2664d352f5037d4010000000552ac53636affffffff0e0ce866bc3f5b0a49748f597c18fa47a2483b8a94cef1d7295d9a5d36d31ae7030000000663515263ac635bb5d1698325164cdd3f7f3f7831635a3588f26d47cc30bf0fefd56cd87dc4e84f162ab702000000036a6365ffffffff85c2b1a61de4bcbd1d5332d5f59f338dd5e8accbc466fd860f96eef1f54c28ec030000000165ffffffff04f5cabd010000000007000052ac526563c18f1502000000000465510051dc9157050000000008655363ac525253ac506bb600000000000865656a53ab63006a00000000',
+    '006a6a0052',
+    0,
+    1186324483,
+    '2f9b7348600336512686e7271c53015d1cb096ab1a5e0bce49acd35bceb42bc8'
+  ],
+  [
+    '11ce51f90164b4b54b9278f0337d95c50d16f6828fcb641df9c7a041a2b274aa70b1250f2b0000000008ab6a6a65006551524c9fe7f604af44be050000000005525365006521f79a0300000000015306bb4e04000000000265ac99611a05000000000765acab656500006dc866d0',
+    '',
+    0,
+    -1710478768,
+    'cfa4b7573559b3b199478880c8013fa713ca81ca8754a3fd68a6d7ee6147dc5a'
+  ],
+  [
+    '86bc233e02ba3c647e356558e7252481a7769491fb46e883dd547a4ce9898fc9a1ca1b77790000000006ab5351abab51f0c1d09c37696d5c7c257788f5dff5583f4700687bcb7d4acfb48521dc953659e325fa390300000003acac5280f29523027225af03000000000963abac0065ab65acab7e59d90400000000016549dac846',
+    '53006aac52acac',
+    0,
+    711159875,
+    '880330ccde00991503ea598a6dfd81135c6cda9d317820352781417f89134d85'
+  ],
+  [
+    'beac155d03a853bf18cd5c490bb2a245b3b2a501a3ce5967945b0bf388fec2ba9f04c03d68030000000012fe96283aec4d3aafed8f888b0f1534bd903f9cd1af86a7e64006a2fa0d2d30711af770010000000163ffffffffd963a19d19a292104b9021c535d3e302925543fb3b5ed39fb2124ee23a9db00302000000056500ac63acffffffff01ad67f503000000000300ac5189f78db2',
+    '53536a636500',
+    2,
+    748992863,
+    'bde3dd0575164d7ece3b5783ce0783ffddb7df98f178fe6468683230314f285a'
+  ],
+  [
+    '81dab34a039c9e225ba8ef421ec8e0e9d46b5172e892058a9ade579fe0eb239f7d9c97d45b0300000009ac65655351ab526363ffffffff10c0faaf7f597fc8b00bbc67c3fd4c6b70ca6b22718d15946bf6b032e62dae570000000005536a00ab6a02cddec3acf985bbe62c96fccf17012a87026ed63fc6756fa39e286eb4c2dd79b59d37400300000002516affffffff04f18b8d03000000000753abab5152636564411c02000000000400ab6300e965750300000000001bd2cf02000000000565ab526aab00000000',
+    '006551ab',
+    0,
+    -1488174485,
+    'a3d65a8cd0c1eea8558d01396b929520a2221c29d9f25f29035b8abae874447f'
+  ],
+  [
+    '489ebbf10478e260ba88c0168bd7509a651b36aaee983e400c7063da39c93bf28100011f280100000004abab63ab2fc856f05f59b257a4445253e0d91b6dffe32302d520ac8e7f6f2467f7f6b4b65f2f59e903000000096353abacab6351656affffffff0122d9480db6c45a2c6fd68b7bc57246edffbf6330c39ccd36aa3aa45ec108fc030000000265ab9a7e78a69aadd6b030b12602dff0739bbc346b466c7c0129b34f50ae1f61e634e11e9f3d0000000006516a53525100ffffffff011271070000000000086563ab6353536352c4dd0e2c',
+    '',
+    0,
+    -293358504,
+    '4eba3055bc2b58765593ec6e11775cea4b6493d8f785e28d01e2d5470ea71575'
+  ],
+  [
+    '6911195d04f449e8eade3bc49fd09b6fb4b7b7ec86529918b8593a9f6c34c2f2d301ec378b000000000263ab49162266af054643505b572c24ff6f8e4c920e601b23b3c42095881857d00caf56b28acd030000000565525200ac3ac4d24cb59ee8cfec0950312dcdcc14d1b360ab343e834004a5628d629642422f3c5acc02000000035100accf99b663e3c74787aba1272129a34130668a877cc6516bfb7574af9fa6d07f9b4197303400000000085351ab5152635252ffffffff042b3c95000000000000ff92330200000000046a5252ab884a2402000000000853530065520063000d78be03000000000953abab52ab53ac65aba72cb34b',
+    '6a',
+    2,
+    -637739405,
+    '6b80d74eb0e7ee59d14f06f30ba7d72a48d3a8ff2d68d3b99e770dec23e9284f'
+  ],
+  [
+    '746347cf03faa548f4c0b9d2bd96504d2e780292730f690bf0475b188493fb67ca58dcca4f0000000002005336e3521bfb94c254058e852a32fc4cf50d99f9cc7215f7c632b251922104f638aa0b9d080100000008656aac5351635251ffffffff4da22a678bb5bb3ad1a29f97f6f7e5b5de11bb80bcf2f7bb96b67b9f1ac44d09030000000365ababffffffff036f02b30000000000076353ab6aac63ac50b72a050000000002acaba8abf804000000000663006a6a6353797eb999',
+    'acac5100',
+    1,
+    -1484493812,
+    '164c32a263f357e385bd744619b91c3f9e3ce6c256d6a827d6defcbdff38fa75'
+  ],
+  [
+    'e17149010239dd33f847bf1f57896db60e955117d8cf013e7553fae6baa9acd3d0f1412ad90200000006516500516500cb7b32a8a67d58dddfb6ceb5897e75ef1c1ff812d8cd73875856487826dec4a4e2d2422a0100000004ac525365196dbb69039229270400000000070000535351636a8b7596020000000006ab51ac52655131e99d040000000003516551ee437f5c',
+    'ac656a53',
+    1,
+    1102662601,
+    '8858bb47a042243f369f27d9ab4a9cd6216adeac1c1ac413ed0890e46f23d3f3'
+  ],
+  [
+    '144971940223597a2d1dec49c7d4ec557e4f4bd207428618bafa3c96c411752d494249e1fb0100000004526a5151ffffffff340a545b1080d4f7e2225ff1c9831f283a7d4ca4d3d0a29d12e07d86d6826f7f0200000003006553ffffffff03c36965000000000000dfa9af00000000000451636aac7f7d140300000000016300000000',
+    '',
+    1,
+    -108117779,
+    'c84fcaf9d779df736a26cc3cabd04d0e61150d4d5472dd5358d6626e610be57f'
+  ],
+  [
+    'b11b6752044e650b9c4744fb9c930819227d2ac4040d8c91a133080e090b042a142e93906e0000000003650053ffffffff6b9ce7e29550d3c1676b702e5e1537567354b002c8b7bb3d3535e63ad03b50ea01000000055100516300fffffffffcf7b252fea3ad5a108af3640a9bc2cd724a7a3ce22a760fba95496e88e2f2e801000000036a00ac7c58df5efba193d33d9549547f6ca839f93e14fa0e111f780c28c60cc938f785b363941b000000000863ab51516552ac5265e51fcd0308e9830400000000036a00abab72190300000000016a63d0710000000000050051ab6a6300000000',
+    '53005165ac51ab65',
+    0,
+    229563932,
+    'e562579d1a2b10d1c5e45c06513456002a6bec157d7eb42511d30b118103c052'
+  ],
+  [
+    '2aee6b9a02172a8288e02fac654520c9dd9ab93cf514d73163701f4788b4caeeb9297d2e250300000004ab6363008fb36695528d7482710ea2926412f877a3b20acae31e9d3091406bfa6b62ebf9d9d2a6470100000009535165536a63520065ffffffff03f7b560050000000003acab6a9a8338050000000000206ce90000000000056552516a5100000000',
+    '5252',
+    1,
+    -1102319963,
+    'fa4676c374ae3a417124b4c970d1ed3319dc3ac91fb36efca1aa9ed981a8aa1b'
+  ],
+  [
+    '9554595203ad5d687f34474685425c1919e3d2cd05cf2dac89d5f33cd3963e5bb43f8706480100000000ffffffff9de2539c2fe3000d59afbd376cb46cefa8bd01dbc43938ff6089b63d68acdc2b02000000096553655251536a6500fffffffff9695e4016cd4dfeb5f7dadf00968e6a409ef048f81922cec231efed4ac78f5d010000000763abab6a5365006caaf0070162cc640200000000045163ab5100000000',
+    '',
+    0,
+    -1105256289,
+    'e8e10ed162b1a43bfd23bd06b74a6c2f138b8dc1ab094ffb2fa11d5b22869bee'
+  ],
+  [
+    '04f51f2a0484cba53d63de1cb0efdcb222999cdf2dd9d19b3542a896ca96e23a643dfc45f00200000007acac53510063002b091fd0bfc0cfb386edf7b9e694f1927d7a3cf4e1d2ce937c1e01610313729ef6419ae7030000000165a3372a913c59b8b3da458335dc1714805c0db98992fd0d93f16a7f28c55dc747fe66a5b503000000095351ab65ab52536351ffffffff5650b318b3e236802a4e41ed9bc0a19c32b7aa3f9b2cda1178f84499963a0cde000000000165ffffffff0383954f04000000000553ac536363a8fc90030000000000a2e315000000000005acab00ab5100000000',
+    '0053',
+    2,
+    -1424653648,
+    'a5bc0356f56b2b41a2314ec05bee7b91ef57f1074bcd2efc4da442222269d1a3'
+  ],
+  [
+    '5e4fab42024a27f0544fe11abc781f46596f75086730be9d16ce948b04cc36f86db7ad50fd01000000026a00613330f4916285b5305cc2d3de6f0293946aa6362fc087727e5203e558c676b314ef8dd401000000001af590d202ba496f040000000001009e3c9604000000000351ac51943d64d3',
+    '51acabab5100ab52',
+    1,
+    -129301207,
+    '556c3f90aa81f9b4df5b92a23399fe6432cf8fecf7bba66fd8fdb0246440036c'
+  ],
+  [
+    'a115284704b88b45a5f060af429a3a8eab10b26b7c15ed421258f5320fa22f4882817d6c2b0300000003005300ffffffff4162f4d738e973e5d26991452769b2e1be4b2b5b7e8cbeab79b9cf9df2882c040000000006636aac63ac5194abc8aa22f8ddc8a7ab102a58e39671683d1891799d19bd1308d24ea6d365e571172f1e030000000700515352515153ffffffff4da7ad75ce6d8541acbb0226e9818a1784e9c97c54b7d1ff82f791df1c6578f60000000000ffffffff01b1f265040000000009ab0051ac656a516a5300000000',
+    '51abab6352535265',
+    0,
+    -1269106800,
+    '0ef7b6e87c782fa33fe109aab157a2d9cddc4472864f629510a1c92fa1fe7fc1'
+  ],
+  [
+    'f3f771ae02939752bfe309d6c652c0d271b7cab14107e98032f269d92b2a8c8853ab057da8010000000563ab6a6365670c305c38f458e30a7c0ab45ee9abd9a8dc03bae1860f965ffced879cb2e5d0bb156821020000000153ffffffff025dc619050000000002ac51ec0d250100000000076a5200636a6363333aecd8',
+    '650053ac515100ab',
+    1,
+    1812404608,
+    'a7aa34bf8a5644f03c6dd8801f9b15ba2e07e07256dbf1e02dad59f0d3e17ea9'
+  ],
+  [
+    'fd3e267203ae7d6d3975e738ca84f12540229bb237dd228d5f688e9d5ba53fce4302b0334d01000000026353ffffffff602a3ab75af7aa951d93093e345ef0037a2863f3f580a9b1a575fffe68e677450300000000239e476d1e8f81e8b6313880d8a49b27c1b00af467f29756e76f675f084a5676539636ab030000000765ab6351acac52d9217747044d773204000000000752ac51526353acc33e45050000000005516500005115d889040000000004ab5163510cbbbd0200000000016500000000',
+    '65ac526aac6a53ab52',
+    2,
+    -886179388,
+    'bc46f3f83058ddf5bebd9e1f2c117a673847c4dc5e31cfb24bac91adf30877cf'
+  ],
+  [
+    'f380ae23033646af5dfc186f6599098015139e961919aea28502ea2d69474413d94a555ea2000000000853635265abacac5314da394b99b07733341ddba9e86022637be3b76492992fb0f58f23c915098979250a96620300000003ab6300ffffffff4bb6d1c0a0d84eac7f770d3ad0fdc5369ae42a21bbe4c06e0b5060d5990776220300000000ffffffff0486fd70020000000007ac6500635252acf3fd72010000000005656a6a6551212de90500000000096365006a63635153000fa33100000000000600535151656300000000',
+    'ab52',
+    2,
+    -740890152,
+    'f804fc4d81f039009ed1f2cccb5c91da797543f235ac71b214c20e763a6d86d7'
+  ],
+  [
+    '5c45d09801bb4d8e7679d857b86b97697472d514f8b76d862460e7421e8617b15a2df217c6010000000863acacab6565006affffffff01156dbc03000000000952ac63516551ac6aac00000000',
+    '6aabac',
+    0,
+    1310125891,
+    '270445ab77258ced2e5e22a6d0d8c36ac7c30fff9beefa4b3e981867b03fa0ad'
+  ],
+  [
+    '4ecc6bde030ca0f83c0ed3d4b777f94c0c88708c6c933fe1df6874f296d425cac95355c23d0000000006ac6a51536a52f286a0969d6170e20f2a8000193807f5bc556770e9d82341ef8e17b0035eace89c76edd50200000007ac65525100656affffffff5bade6e462fac1927f078d69d3a981f5b4c1e59311a38efcb9a910aa436afaa80000000007ac6a006352ab52ffffffff0331e58902000000000763ac53636352abb8b3ca000000000001637a1d26040000000009535263ac6a5352ab655ae34a39',
+    '6a65ab',
+    2,
+    2142728517,
+    '4a3415eb1677ae4e0c939644a4cfd5dc6299780b55cd0dc735967057b6b1526a'
+  ],
+  [
+    'a59484b501eb50114be0fc79e72ab9bc9f4a5f7acdf274a56d6b68684eb68cf8b07ec5d1c2000000000765abab00ab00639e09aa940141e3530200000000046500ac6500000000',
+    '00516565ab',
+    0,
+    -1561622405,
+    'd60bbadd2cc0674100baa08d0e0493ee4248f0304b3eb778da942041f503a896'
+  ],
+  [
+    '53dc1a88046531c7b57a35f4d9adf101d068bf8d63fbbedaf4741dba8bc5e92c8725def571030000000453655251fcdf116a226b3ec240739c4c7493800e4edfe67275234e371a227721eac43d3d9ecaf1b50300000003ac0052ffffffff2c9279ffeea4718d167e9499bd067600715c14484e373ef93ae4a31d2f5671ab0000000009516553ac636a6a65001977752eeba95a8f16b88c571a459c2f2a204e23d48cc7090e4f4cc35846ca7fc0a455ce00000000055165ac0063188143f80205972902000000000765ac63ac516353c7b6a50000000000036a510000000000',
+    '655351536a',
+    0,
+    103806788,
+    'b276584d3514e5b4e058167c41dc02915b9d97f6795936a51f40e894ed8508bc'
+  ],
+  [
+    '53f8959f01ddb36afdcd20167edcbb75a63d18654fdcf10bc0004c761ab450fe236d79cb2702000000065151650063653435003a033a5e34050000000009ac52516a630000516ab86db3030000000002006344ac090500000000046363ab00f3644537',
+    '5263abab63ac656353',
+    0,
+    -218513553,
+    'f1f2a489682e42a6fc20025dfc89584d17f150b2d7ae3ddedd2bf43d5e24f37f'
+  ],
+  [
+    '5a06cb4602dcfc85f49b8d14513f33c48f67146f2ee44959bbca092788e6823b2719f3160b0200000001ab3c013f2518035b9ea635f9a1c74ec1a3fb7496a160f46aae2e09bfc5cd5111a0f20969e003000000015158c89ab7049f20d6010000000008ac6a52abac53515349765e00000000000300ab638292630100000000045351ab0086da09010000000006656a6365525300000000',
+    '526a63',
+    1,
+    1502936586,
+    'bdfaff8a4e775379c5dc26e024968efa805f923de53fa8272dd53ec582afa0c5'
+  ],
+  [
+    'ca9d84fa0129011e1bf27d7cb71819650b59fb292b053d625c6f02b0339249b498ff7fd4b601000000025352ffffffff032173a0040000000008525253abab5152639473bb030000000009005153526a53535151d085bd0000000000086a5365ab5165655300000000',
+    '005152ac51',
+    0,
+    580353445,
+    'c629d93b02037f40aa110e46d903edb34107f64806aa0c418d435926feef68b8'
+  ],
+  [
+    'e3cdbfb4014d90ae6a4401e85f7ac717adc2c035858bf6ff48979dd399d155bce1f150daea0300000002ac51a67a0d39017f6c71040000000005535200535200000000',
+    '',
+    0,
+    -1899950911,
+    'c1c7df8206e661d593f6455db1d61a364a249407f88e99ecad05346e495b38d7'
+  ],
+  [
+    'b2b6b9ab0283d9d73eeae3d847f41439cd88279c166aa805e44f8243adeb3b09e584efb1df00000000026300ffffffff7dfe653bd67ca094f8dab51007c6adaced09de2af745e175b9714ca1f5c68d050000000003ac6500aa8e596903fd3f3204000000000553ac6a6a533a2e210500000000075253acabab526392d0ee020000000008520065635200ab5200000000',
+    '65acacac65005365',
+    0,
+    28298553,
+    '39c2aaa2496212b3ab120ab7d7f37c5e852bfe38d20f5226413a2268663eeae8'
+  ],
+  [
+    'f30c5c3d01a6edb9e10fafaf7e85db14e7fec558b9dca4a80b05d7c3a2944d282c5018f4680200000003005263ffffffff04aac3530300000000026551bc2419010000000009005163acab6a5100658e7085050000000000c5e4ec050000000007656a6a635365ab2d8e8882',
+    'abac53ab005251ac52',
+    0,
+    -490287546,
+    '877e347ec7487497769e2581142276d1a8d813b652e4483cf9cc993d16354417'
+  ],
+  [
+    '4314339e01de40faabcb1b970245a7f19eedbc17c507dac86cf986c2973715035cf95736ae0200000007abababababab65bde67b900151510b04000000000853ac00655200535300000000',
+    '52',
+    0,
+    399070095,
+    '47585dc25469d04ff3a60939d0a03779e3e81a411bf0ca18b91bb925ebd30718'
+  ],
+  [
+    '2d4cf4e9031b3e175b2ff18cd933151379d9cfac4713d8bd0e63b70bd4a92277aa7af901ab000000000565515353abffffffff557666c7f3be9cdecdad44c3df206eb63a2da4ed1f159d21193882a9f0340081020000000963ab53ab5252ac63abffffffff8a8c897bdb87e93886aad5ded9d82a13101d5476554386373646ca5e23612e450300000009006a526552abab6a635ac03fc00198bb02040000000009525100526a6563636a1d052834',
+    'ab52ac00acac6a',
+    0,
+    -1469882480,
+    '09ed6563a454814ab7e3b4c28d56d8751162b77df1825b37ba66c6147750b2a3'
+  ],
+  [
+    'f063171b03e1830fdc1d685a30a377537363ccafdc68b42bf2e3acb908dac61ee24b37595c020000000765ac5100ab6aacf447bc8e037b89d6cadd62d960cc442d5ced901d188867b5122b42a862929ce45e7b628d010000000253aba009a1ba42b00f1490b0b857052820976c675f335491cda838fb7934d5eea0257684a2a202000000001e83cf2401a7f777030000000008ab6553526a53526a00000000',
+    '',
+    2,
+    1984790332,
+    'c19caada8e71535e29a86fa29cfd9b74a0c7412003fc722a121005e461e01636'
+  ],
+  [
+    'cf7bdc250249e22cbe23baf6b648328d31773ea0e771b3b76a48b4748d7fbd390e88a004d30000000003ac536a4ab8cce0e097136c90b2037f231b7fde2063017facd40ed4e5896da7ad00e9c71dd70ae600000000096a0063516352525365ffffffff01b71e3e00000000000300536a00000000',
+    '',
+    1,
+    546970113,
+    '6a815ba155270af102322c882f26d22da11c5330a751f520807936b320b9af5d'
+  ],
+  [
+    'ac7a125a0269d35f5dbdab9948c48674616e7507413cd10e1acebeaf85b369cd8c88301b7c030000000963656aac6a530053abffffffffed94c39a582e1a46ce4c6bffda2ccdb16cda485f3a0d94b06206066da12aecfe010000000752abab63536363ef71dcfb02ee07fa0400000000016a6908c802000000000751656a6551abac688c2c2d',
+    '6a6351526551',
+    0,
+    858400684,
+    '552ff97d7924f51cda6d1b94be53483153ef725cc0a3a107adbef220c753f9a6'
+  ],
+  [
+    '3a1f454a03a4591e46cf1f7605a3a130b631bf4dfd81bd2443dc4fac1e0a224e74112884fe0000000005516aac6a53a87e78b55548601ffc941f91d75eab263aa79cd498c88c37fdf275a64feff89fc1710efe03000000016a39d7ef6f2a52c00378b4f8f8301853b61c54792c0f1c4e2cd18a08cb97a7668caa008d970200000002656affffffff017642b20100000000096a63535253abac6a6528271998',
+    '51',
+    2,
+    1459585400,
+    'e9a7f21fc2d38be7be47095fbc8f1bf8923660aa4d71df6d797ae0ba5ca4d5b0'
+  ],
+  [
+    'f59366cc0114c2a18e6bd1347ed9470f2522284e9e835dd5c5f7ef243639ebea95d9b232b6020000000153474b62eb045c00170500000000096352ab516352ab5200038a520400000000086aab5253656a63005b968904000000000963536353ac0053635387106002000000000000000000',
+    'ab52526300ab51',
+    0,
+    1834116153,
+    'cdf51f6e3a9dc2be5a59ea4c00f5aac1e1426a5202c325e6cf2567d07d8d8de4'
+  ],
+  [
+    '6269e0fa0173e76e89657ca495913f1b86af5b8f1c1586bcd6c960aede9bc759718dfd5044000000000352ac530e2c7bd90219849b000000000007ab00ab6a53006319f281000000000007ab00515165ac5200000000',
+    '6a',
+    0,
+    -2039568300,
+    '62094f98234a05bf1b9c7078c5275ed085656856fb5bdfd1b48090e86b53dd85'
+  ],
+  [
+    'eb2bc00604815b9ced1c604960d54beea4a3a74b5c0035d4a8b6bfec5d0c9108f143c0e99a0000000000ffffffff22645b6e8da5f11d90e5130fd0a0df8cf79829b2647957471d881c2372c527d8010000000263acffffffff1179dbaf17404109f706ae27ad7ba61e860346f63f0c81cb235d2b05d14f2c1003000000025300264cb23aaffdc4d6fa8ec0bb94eff3a2e50a83418a8e9473a16aaa4ef8b855625ed77ef40100000003ac51acf8414ad404dd328901000000000652526500006ab6261c000000000002526a72a4c9020000000006ac526500656586d2e7000000000006656aac00ac5279cd8908',
+    '51',
+    1,
+    -399279379,
+    'd37532e7b2b8e7db5c7c534197600397ebcc15a750e3af07a3e2d2e4f84b024f'
+  ],
+  [
+    'dc9fe6a8038b84209bbdae5d848e8c040433237f415437592907aa798bf30d9dbbddf0ff85010000000153ffffffff23269a7ea29fcf788db483b8d4c4b35669e582608644259e950ce152b0fa6e050000000003acababffffffff65de94857897ae9ea3aa0b938ba6e5adf374d48469922d2b36dbb83d3b8c8261010000000452ac5200ffffffff02856e9b0300000000026a51980c8e02000000000365ab63d2648db4',
+    '00ab0051ac526565',
+    2,
+    1562581941,
+    '5cef9d8e18a2d5a70448f17b465d411a19dab78f0ddf1672ffd518b188f52433'
+  ],
+  [
+    'eba8b0de04ac276293c272d0d3636e81400b1aaa60db5f11561480592f99e6f6fa13ad387002000000070053acab536563bebb23d66fd17d98271b182019864a90e60a54f5a615e40b643a54f8408fa8512cfac927030000000963ac6a6aabac65ababffffffff890a72192bc01255058314f376bab1dc72b5fea104c154a15d6faee75dfa5dba020000000100592b3559b0085387ac7575c05b29b1f35d9a2c26a0c27903cc0f43e7e6e37d5a60d8305a030000000252abffffffff0126518f05000000000000000000',
+    '005300635252635351',
+    1,
+    664344756,
+    '26dc2cba4bd5334e5c0b3a520b44cc1640c6b923d10e576062f1197171724097'
+  ],
+  [
+    '91bd040802c92f6fe97411b159df2cd60fb9571764b001f31657f2d616964637605875c2a901000000055263006a65ffffffff3651df372645f50cf4e32fdf6e61c766e912e16335db2b40c5d52fe89eefe7cd00000000040065ab65ffffffff03ca8625030000000009ab51ac63530052ab52c6bf14020000000006ab00ab52005167d270000000000007ab53525351636a00000000',
+    '5151ab63005252ac',
+    1,
+    1983087664,
+    '3e5aa0200248d8d86ede3b315ca1b857018b89184a4bd023bd88ab12e499f6e1'
+  ],
+  [
+    '185cda1a01ecf7a8a8c28466725b60431545fc7a3367ab68e34d486e8ea85ee3128e0d8384000000000465ac63abec88b7bb031c56eb04000000000965636a51005252006a7c78d5040000000007acac63abac51ac3024a40500000000086300526a51abac51464c0e8c',
+    '0065535265515352',
+    0,
+    1594558917,
+    'b5280b9610c0625a65b36a8c2402a95019a7bbb9dd3de77f7c3cb1d82c3263ba'
+  ],
+  [
+    'a9531f07034091668b65fea8b1a79700d586ac9e2f42ca0455a26abe41f9e1805d009a0f5702000000096365516365ac5263ab3619bac643a9e28ee47855118cf80c3a74531cdf198835d206d0fe41804e325a4f9f105e03000000016a58e3ab0d46375d98994daf0fa7c600d2bb4669e726fca0e3a3f21ea0d9e777396740328f0100000008636a5363ab526a538d3ea7700304cb66030000000007515163ab52ab510184030500000000085353636565ac0051d9cff402000000000751ab52ab5352abf0e36254',
+    'ab5353ac5365acab',
+    2,
+    1633101834,
+    '04c9ef72f33668ca449c0415becf62cc0b8e0c75f9c8813852d42a58acf107c8'
+  ],
+  [
+    '6b5ecc7903fe0ba37ea551df92a59e12bad0a3065846ba69179a8f4a741a2b4fcf679aac810200000004535263529a3d343293b99ab425e7ef8529549d84f480bcd92472bab972ea380a302128ae14dfcd0200000000025163ffffffff24636e4545cab9bf87009119b7fc3ec4d5ee9e206b90f35d1df8a563b6cd097a010000000852abac53005153abc64467860406e832020000000009526300006a53ac6352ac1395010000000002ac53b117f300000000000863655351acab00651edf02030000000008ab51ac6353535252628ef71d',
+    'ab63ab6a52ac526563',
+    2,
+    -1559697626,
+    '8f07ece7d65e509f1e0780584ef8d271c1c61a13b10335d5faafc7afc8b5b8ec'
+  ],
+  [
+    '92c9fb780138abc472e589d5b59489303f234acc838ca66ffcdf0164517a8679bb622a4267020000000153468e373d04de03fa020000000009ac006a5265ab5163006af649050000000007515153006a00658ceb59030000000001ac36afa0020000000009ab53006351ab51000000000000',
+    '6a',
+    0,
+    2059357502,
+    'e2358dfb51831ee81d7b0bc602a65287d6cd2dbfacf55106e2bf597e22a4b573'
+  ],
+  [
+    '6f62138301436f33a00b84a26a0457ccbfc0f82403288b9cbae39986b34357cb2ff9b889b302000000045253655335a7ff6701bac9960400000000086552ab656352635200000000',
+    '6aac51',
+    0,
+    1444414211,
+    '502a2435fd02898d2ff3ab08a3c19078414b32ec9b73d64a944834efc9dae10c'
+  ],
+  [
+    '9981143a040a88c2484ac3abe053849e72d04862120f424f373753161997dd40505dcb4783030000000700536365536565a2e10da3f4b1c1ad049d97b33f0ae0ea48c5d7c30cc8810e144ad93be97789706a5ead180100000003636a00ffffffffbdcbac84c4bcc87f03d0ad83fbe13b369d7e42ddb3aecf40870a37e814ad8bb5010000000963536a5100636a53abffffffff883609905a80e34202101544f69b58a0b4576fb7391e12a769f890eef90ffb72020000000651656352526affffffff04243660000000000004ab5352534a9ce001000000000863656363ab6a53652df19d030000000003ac65acedc51700000000000000000000',
+    'ac6300acac',
+    2,
+    293672388,
+    '7ba99b289c04718a7283f150d831175ed6303081e191a0608ea81f78926c5bdf'
+  ],
+  [
+    'a2bb630b01989bc5d643f2da4fb9b55c0cdf846ba06d1dbe372893024dbbe5b9b8a1900af802000000055265ac63aca7a68d2f04916c74010000000003abac007077f0040000000001007d4127010000000005ac516aac000f31e8030000000000571079c9',
+    '65ab0051ac',
+    0,
+    -1103627693,
+    '92d53b4390262e6b288e8a32e0cfc36cd5adfdfabfe96c7bfd4a19d65e233761'
+  ],
+  [
+    '49f7d0b6037bba276e910ad3cd74966c7b3bc197ffbcfefd6108d6587006947e97789835ea0300000008526a52006a650053ffffffff8d7b6c07cd10f4c4010eac7946f61aff7fb5f3920bdf3467e939e58a1d4100ab03000000076aac63ac535351ffffffff8f48c3ba2d52ad67fbcdc90d8778f3c8a3894e3c35b9730562d7176b81af23c80100000003ab5265ffffffff0301e3ef0300000000046a525353e899ac0500000000075153ab6a65abac259bea0400000000007b739972',
+    '53516aacac6aac',
+    1,
+    955403557,
+    '5d366a7f4346ae18aeb7c9fc4dab5af71173184aa20ed22fcb4ea8511ad25449'
+  ],
+  [
+    '58a4fed801fbd8d92db9dfcb2e26b6ff10b120204243fee954d7dcb3b4b9b53380e7bb8fb60100000003006351ffffffff02a0795b050000000006536351ac6aac2718d00200000000075151acabac515354d21ba1',
+    '005363515351',
+    0,
+    -1322430665,
+    'bbee941bbad950424bf40e3623457db47f60ed29deaa43c99dec702317cb3326'
+  ],
+  [
+    '32765a0b02e455793d9ce530e9f6a44bcbc612e893a875b5da61d822dc56d8245166c398b403000000085353abac6300006a6bdee2a78d0d0b6a5ea666eed70b9bfea99d1d612ba3878f615c4da10d4a521cba27155002000000035363abffffffff043cd42401000000000551656a53653685320100000000030000511881bc0500000000065165abab636a20169f010000000007acab656aac63acdb0706a8',
+    '65ac53ab53',
+    0,
+    1936499176,
+    '5c5a9c3a5de7dc7a82bc171c9d3505913b8bcc450bc8b2d11772c1a1d781210b'
+  ],
+  [
+    '17fad0d303da0d764fedf9f2887a91ea625331b28704940f41e39adf3903d8e75683ef6d46020000000151ffffffffff376eea4e880bcf0f03d33999104aafed2b3daf4907950bb06496af6b51720a020000000900636a63525253525196521684f3b08497bad2c660b00b43a6a517edc58217876eb5e478aa3b5fda0f29ee1bea00000000046aacab6affffffff03dde8e2050000000007ac5365ac51516a14772e000000000005630000abacbbb360010000000006ab5251ab656a50f180f0',
+    '0053',
+    0,
+    -1043701251,
+    'a3bdf8771c8990971bff9b4e7d59b7829b067ed0b8d3ac1ec203429811384668'
+  ],
+  [
+    '236c32850300045e292c84ede2b9ab5733ba08315a2bb09ab234c4b4e8894808edbdac0d3b020000000653635363abacffffffffd3f696bb31fdd18a72f3fc2bb9ae54b416a253fc37c1a0f0180b52d35bad49440100000004650053abffffffffa85c75a2406d82a93b12e555b66641c1896a4e83ae41ef1038218311e38ace060200000006abab006a51ac104b5e6701e2842c04000000000800630051ac0000ab00000000',
+    'ab63ac6a516a',
+    1,
+    -1709887524,
+    '8c29ea8ef60c5a927fccdba8ea385db6b6b84d98e891db45f5d4ee3148d3f5a7'
+  ],
+  [
+    'b78d5fd601345f3100af494cdf447e7d4076179f940035b0ebe8962587d4d0c9c6c9fc34ee0300000003516a6affffffff03dc5c890100000000085353ac53ac6a52534ac941040000000007ac63656a51ab51d4266b0100000000036aacac70731f2d',
+    '005351ab0053',
+    0,
+    -1789071265,
+    'd5f1c1cb35956a5711d67bfb4cedbc67e77c089b912d688ad440ff735adb390d'
+  ],
+  [
+    '5a2257df03554550b774e677f348939b37f8e765a212e566ce6b60b4ea8fed4c9504b7f7d1000000000653655265ab5258b67bb931df15b041177cf9599b0604160b79e30f3d7a594e7826bae2c29700f6d8f8f40300000005515300ac6a159cf8808a41f504eb5c2e0e8a9279f3801a5b5d7bc6a70515fbf1c5edc875bb4c9ffac500000000050063510052ffffffff0422a90105000000000965006a650000516a006417d2020000000006526363ab00524d969d0100000000035153acc4f077040000000005ac5200636500000000',
+    '6a52',
+    1,
+    -1482463464,
+    '37b794b05d0687c9b93d5917ab068f6b2f0e38406ff04e7154d104fc1fb14cdc'
+  ],
+  [
+    'e0032ad601269154b3fa72d3888a3151da0aed32fb2e1a15b3ae7bee57c3ddcffff76a1321010000000100110d93ae03f5bd080100000000075263516a6551002871e60100000000046a005252eaa753040000000004ab6aab526e325c71',
+    '630052',
+    0,
+    -1857873018,
+    'ea117348e94de86381bb8ad1c7f93b8c623f0272104341701bb54e6cb433596c'
+  ],
+  [
+    '014b2a5304d46764817aca180dca50f5ab25f2e0d5749f21bb74a2f8bf6b8b7b3fa8189cb7030000000965ac5165ab6a51ac6360ecd91e8abc7e700a4c36c1a708a494c94bb20cbe695c408543146566ab22be43beae9103000000045163ab00ffffffffffa48066012829629a9ec06ccd4905a05df0e2b745b966f6a269c9c8e13451fc00000000026565ffffffffc40ccadc21e65fe8a4b1e072f4994738ccaf4881ae6fede2a2844d7da4d199ab02000000065152ab536aabffffffff01b6e054030000000004515352ab3e063432',
+    '',
+    0,
+    1056459916,
+    'a7aff48f3b8aeb7a4bfe2e6017c80a84168487a69b69e46681e0d0d8e63a84b6'
+  ],
+  [
+    'c4ef04c103c5dde65410fced19bf6a569549ecf01ceb0db4867db11f2a3a3eef0320c9e8e001000000085100536a53516aabffffffff2a0354fa5bd96f1e28835ffe30f52e19bd7d5150c687d255021a6bec03cf4cfd03000000056a006300514900c5b01d3d4ae1b97370ff1155b9dd0510e198d266c356d6168109c54c11b4c283dca00300000002ababffffffff02e19e3003000000000451655351fa5c0003000000000163ef1fc64b',
+    '51636a51ab630065',
+    1,
+    -1754709177,
+    '0a281172d306b6a32e166e6fb2a2cc52c505c5d60ea448e9ba7029aa0a2211e1'
+  ],
+  [
+    '29083fe00398bd2bb76ceb178f22c51b49b5c029336a51357442ed1bac35b67e1ae6fdf13100000000066a6500acab51ffffffffe4ca45c9dc84fd2c9c47c7281575c2ba4bf33b0b45c7eca8a2a483f9e3ebe4b3010000000200abffffffffdf47ad2b8c263fafb1e3908158b18146357c3a6e0832f718cd464518a219d18303000000096352ac656351ac0052daddfb3b0231c36f00000000000400526a5275c7e0020000000001ab00000000',
+    'acab536aac52',
+    2,
+    300802386,
+    '82ebc07b16cff0077e9c1a279373185b3494e39d08fd3194aae6a4a019377509'
+  ],
+  [
+    '1201ab5d04f89f07c0077abd009762e59db4bb0d86048383ba9e1dad2c9c2ad96ef660e6d00200000007ab6a65ac5200652466fa5143ab13d55886b6cdc3d0f226f47ec1c3020c1c6e32602cd3428aceab544ef43e00000000086a6a6a526a6a5263ffffffffd5be0b0be13ab75001243749c839d779716f46687e2e9978bd6c9e2fe457ee48020000000365abab1e1bac0f72005cf638f71a3df2e3bbc0fa35bf00f32d9c7dc9c39a5e8909f7d53170c8ae0200000008ab6a51516363516affffffff02f0a6210500000000036300ac867356010000000009acab65ac6353536a659356d367',
+    'ac53535252',
+    0,
+    917543338,
+    '418acc156c2bc76a5d7baa58db29f1b4cf6c266c9222ed167ef5b4d47f0e0f41'
+  ],
+  [
+    '344fa11e01c19c4dd232c77742f0dd0aeb3695f18f76da627628741d0ee362b0ea1fb3a2180200000007635151005100529bab25af01937c1f0500000000055153ab53656e7630af',
+    '6351005163ac51',
+    0,
+    -629732125,
+    '228ca52a0a376fe0527a61cfa8da6d7baf87486bba92d49dfd3899cac8a1034f'
+  ],
+  [
+    'b2fda1950191358a2b855f5626a0ebc830ab625bea7480f09f9cd3b388102e35c0f303124c030000000565ac65ab53ffffffff03f9c5ec04000000000765ab51516551650e2b9f0500000000045365525284e8f6040000000001ac00000000',
+    'ac51655253',
+    0,
+    1433027632,
+    'd2fa7e13c34cecda5105156bd2424c9b84ee0a07162642b0706f83243ff811a8'
+  ],
+  [
+    'a4a6bbd201aa5d882957ac94f2c74d4747ae32d69fdc765add4acc2b68abd1bdb8ee333d6e0300000008516a6552515152abffffffff02c353cb040000000007ac6351ab51536588bd320500000000066552525253ac00000000',
+    '',
+    0,
+    1702060459,
+    '499da7d74032388f820645191ac3c8d20f9dba8e8ded7fa3a5401ea2942392a1'
+  ],
+  [
+    '584e8d6c035a6b2f9dac2791b980a485994bf38e876d9dda9b77ad156eee02fa39e19224a60300000003ab636529db326cc8686a339b79ab6b6e82794a18e0aabc19d9ad13f31dee9d7aad8eff38288588020000000452530052ffffffff09a41f07755c16cea1c7e193c765807d18cadddca6ec1c2ed7f5dcdca99e90e80000000001acffffffff01cba62305000000000451ac63acccdf1f67',
+    'ab536a6363',
+    2,
+    -27393461,
+    '1125645b49202dca2df2d76dae51877387903a096a9d3f66b5ac80e042c95788'
+  ],
+  [
+    '83a583d204d926f2ee587a83dd526cf1e25a44bb668e45370798f91a2907d184f7cddcbbc7030000000700ab6565536a539f71d3776300dffdfa0cdd1c3784c9a1f773e34041ca400193612341a9c42df64e3f550e01000000050052515251ffffffff52dab2034ab0648553a1bb8fc4e924b2c89ed97c18dfc8a63e248b454035564b01000000015139ab54708c7d4d2c2886290f08a5221cf69592a810fd1979d7b63d35c271961e710424fd0300000005ac65ac5251ffffffff01168f7c030000000000a85e5fb0',
+    '6a536353656a00',
+    0,
+    179595345,
+    '5350a31ac954a0b49931239d0ecafbf34d035a537fd0c545816b8fdc355e9961'
+  ],
+  [
+    'ffd35d51042f290108fcb6ea49a560ba0a6560f9181da7453a55dfdbdfe672dc800b39e7320200000006630065516a65f2166db2e3827f44457e86dddfd27a8af3a19074e216348daa0204717d61825f198ec0030100000006ab51abab00abffffffffdf41807adb7dff7db9f14d95fd6dc4e65f8402c002d009a3f1ddedf6f4895fc8030000000500ab006a65a5a848345052f860620abd5fcd074195548ce3bd0839fa9ad8642ed80627bf43a0d47dbd010000000765ab006a656a53b38cdd6502a186da05000000000765ab00ab006a53527c0e0100000000085365ab51acacac52534bd1b1',
+    '6a635253ac0000',
+    0,
+    1095082149,
+    '3c05473a816621a3613f0e903faa1a1e44891dd40862b029e41fc520776350fa'
+  ],
+  [
+    '6c9a4b98013c8f1cae1b1df9f0f2de518d0c50206a0ab871603ac682155504c0e0ce946f460100000000ffffffff04e9266305000000000753535100ac6aacded39e04000000000365ac6ab93ccd010000000002515397bf3d050000000003ab636300000000',
+    '63520052ac656353',
+    0,
+    -352633155,
+    '936eff8cdfd771be24124da87c7b24feb48da7cbc2c25fb5ba13d1a23255d902'
+  ],
+  [
+    'e01dc7f0021dc07928906b2946ca3e9ac95f14ad4026887101e2d722c26982c27dc2b59fdb0000000005ac5200516ab5a31ffadcbe74957a5a3f97d7f1475cc6423fc6dbc4f96471bd44c70cc736e7dec0d1ea020000000951636a526a52abac53ffffffff04bc2edd05000000000252ab528c7b02000000000952ac51526500525353324820040000000002005380c713000000000009630065ab00ac525252451bbb48',
+    '53ab65ac',
+    0,
+    -552384418,
+    '69c0b30f4c630a6c878fde6ea6b74dae94f4eb3bcfbde2dc3649e1a9ada00757'
+  ],
+  [
+    '009046a1023f266d0113556d604931374d7932b4d6a7952d08fbd9c9b87cbd83f4f4c178b4030000000452ac526346e73b438c4516c60edd5488023131f07acb5f9ea1540b3e84de92f4e3c432289781ea4900000000046500655357dfd6da02baef910100000000026a007d101703000000000800516500abacac5100000000',
+    '6aab6553ac',
+    0,
+    -802456605,
+    'f8757fbb4448ca34e0cd41b997685b37238d331e70316659a9cc9087d116169d'
+  ],
+  [
+    'df76ec0801a3fcf3d18862c5f686b878266dd5083f16cf655facab888b4cb3123b3ce5db7e01000000010010e7ac6a0233c83803000000000365ac51faf14a040000000004ac51655100000000',
+    '6353acab',
+    0,
+    15705861,
+    'e7d873aa079a19ec712b269a37d2670f60d8cb334c4f97e2e3fd10eeb8ee5f5e'
+  ],
+  [
+    '828fd3e0031084051ccef9cfdd97fae4d9cc50c0dae36bd22a3ff332881f17e9756c3e288e0200000004ab535363961a2ccccaf0218ec6a16ba0c1d8b5e93cfd025c95b6e72bc629ec0a3f47da7a4c396dad01000000025353ffffffff19ad28747fb32b4caf7b5dbd9b2da5a264bedb6c86d3a4805cd294ae53a86ac40200000009ab53535351ab6551abffffffff04a41650030000000005656aab6aab8331a304000000000700516365ac516a0d2a47010000000007abac516353abacdebc19040000000006ab5300636a6300000000',
+    '51ab52ab53ac52',
+    0,
+    1866105980,
+    '311094b4d73e31aefc77e97859ef07ca2f07a7b7e4d7def80c69d3f5d58527e5'
+  ],
+  [
+    'c4b80f850323022205b3e1582f1ed097911a81be593471a8dce93d5c3a7bded92ef6c7c1260100000002006affffffff70294d62f37c3da7c5eae5d67dce6e1b28fedd7316d03f4f48e1829f78a88ae801000000096a5200530000516351f6b7b544f7c39189d3a2106ca58ce4130605328ce7795204be592a90acd81bef517d6f170200000000ffffffff012ab8080000000000075100006365006335454c1e',
+    '53ac6a536aacac',
+    0,
+    -1124103895,
+    '06277201504e6bf8b8c94136fad81b6e3dadacb9d4a2c21a8e10017bfa929e0e'
+  ],
+  [
+    '8ab69ed50351b47b6e04ac05e12320984a63801716739ed7a940b3429c9c9fed44d3398ad40300000006536a516a52638171ef3a46a2adb8025a4884b453889bc457d63499971307a7e834b0e76eec69c943038a0300000000ffffffff566bb96f94904ed8d43d9d44a4a6301073cef2c011bf5a12a89bedbaa03e4724030000000265acb606affd01edea38050000000008515252516aacac6300000000',
+    '65000000006365ac53',
+    0,
+    -1338942849,
+    '7912573937824058103cb921a59a7f910a854bf2682f4116a393a2045045a8c3'
+  ],
+  [
+    '2484991e047f1cf3cfe38eab071f915fe86ebd45d111463b315217bf9481daf0e0d10902a402000000006e71a424eb1347ffa638363604c0d5eccbc90447ff371e000bf52fc743ec832851bb564a0100000001abffffffffef7d014fad3ae7927948edbbb3afe247c1bcbe7c4c8f5d6cf97c799696412612020000000851536a5353006a001dfee0d7a0dd46ada63b925709e141863f7338f34f7aebde85d39268ae21b77c3068c01d0000000008535151ab00636563ffffffff018478070200000000095200635365ac52ab5341b08cd3',
+    '',
+    3,
+    265623923,
+    '24cb420a53b4f8bb477f7cbb293caabfd2fc47cc400ce37dbbab07f92d3a9575'
+  ],
+  [
+    '54839ef9026f65db30fc9cfcb71f5f84d7bb3c48731ab9d63351a1b3c7bc1e7da22bbd508e0300000000442ad138f170e446d427d1f64040016032f36d8325c3b2f7a4078766bdd8fb106e52e8d20000000003656500ffffffff02219aa101000000000851ababac52ab00659646bd02000000000552acacabac24c394a5',
+    'ac',
+    0,
+    906807497,
+    '69264faadcd1a581f7000570a239a0a26b82f2ad40374c5b9c1f58730514de96'
+  ],
+  [
+    '5036d7080434eb4eef93efda86b9131b0b4c6a0c421e1e5feb099a28ff9dd8477728639f77030000000951516aab535152ab5391429be9cce85d9f3d358c5605cf8c3666f034af42740e94d495e28b9aaa1001ba0c87580300000008006552ab00ab006affffffffd838978e10c0c78f1cd0a0830d6815f38cdcc631408649c32a25170099669daa0000000002acab8984227e804ad268b5b367285edcdf102d382d027789250a2c0641892b480c21bf84e3fb0100000000b518041e023d8653010000000001004040fb0100000000080051ac5200636a6300000000',
+    '52ac',
+    0,
+    366357656,
+    'bd0e88829afa6bdc1e192bb8b2d9d14db69298a4d81d464cbd34df0302c634c6'
+  ],
+  [
+    '9ad5ccf503fa4facf6a27b538bc910cce83c118d6dfd82f3fb1b8ae364a1aff4dcefabd38f03000000096365655263ac655300807c48130c5937190a996105a69a8eba585e0bd32fadfc57d24029cbed6446d30ebc1f100100000004000053650f0ccfca1356768df7f9210cbf078a53c72e0712736d9a7a238e0115faac0ca383f219d0010000000600ab536552002799982b0221b8280000000000000c41320000000000086552ac6365636a6595f233a3',
+    '6a5152',
+    2,
+    553208588,
+    'f99c29a79f1d73d2a69c59abbb5798e987639e36d4c44125d8dc78a94ddcfb13'
+  ],
+  [
+    '669538a204047214ce058aed6a07ca5ad4866c821c41ac1642c7d63ed0054f84677077a84f030000000853abacab6a655353ffffffff70c2a071c115282924e3cb678b13800c1d29b6a028b3c989a598c491bc7c76c5030000000752ac52ac5163ac80420e8a6e43d39af0163271580df6b936237f15de998e9589ec39fe717553d415ac02a4030000000463635153184ad8a5a4e69a8969f71288c331aff3c2b7d1b677d2ebafad47234840454b624bf7ac1d03000000056a63abab63df38c24a02fbc63a040000000002ab535ec3dc050000000002536500000000',
+    '635153',
+    3,
+    -190399351,
+    '9615541884dfb1feeb08073a6a6aa73ef694bc5076e52187fdf4138a369f94d9'
+  ],
+  [
+    'a7f139e502af5894be88158853b7cbea49ba08417fbbca876ca6614b5a41432be34499987b000000000765635165abac63ffffffff8b8d70e96c7f54eb70da0229b548ced438e1ca2ba5ddd648a027f72277ee1efc0100000001abffffffff044f2c4204000000000165e93f550100000000050000526a6a94550304000000000365536aadc21c0300000000016300000000',
+    '6aacac6363ab5265ac',
+    1,
+    2143189425,
+    '6e3f97955490d93d6a107c18d7fe402f1cada79993bb0ff0d096357261b3a724'
+  ],
+  [
+    '3b94438f0366f9f53579a9989b86a95d134256ce271da63ca7cd16f7dd5e4bffa17d35133f010000000100ffffffff1aaad0c721e06ec00d07e61a84fb6dc840b9a968002ce7e142f943f06fd143a10100000008535151ac51ab0053b68b8e9c672daf66041332163e04db3f6048534bd718e1940b3fc3811c4eef5b7a56888b01000000001d58e38c012e38e700000000000852ab53ac6365536a00000000',
+    'ab655352',
+    1,
+    -935223304,
+    'b3b336de141d4f071313a2207b2a0c7cf54a070dd8d234a511b7f1d13e23b0c4'
+  ],
+  [
+    'e5dca8a20456de0a67e185fa6ea94085ceae478d2c15c73cb931a500db3a1b6735dd1649ec0200000005ab536aabab32d11bbdcb81361202681df06a6b824b12b5cb40bb1a672cf9af8f2a836e4d95b7839327030000000951005365ab65abacabb345085932939eef0c724adef8a57f9e1bf5813852d957c039b6a12d9c2f201ea520fb030000000009ac5352005165acac6a5efc6072f1a421dc7dc714fc6368f6d763a5d76d0278b95fc0503b9268ccfadb48213a2500000000026a53ffffffff039ee1c4020000000009ac5353ab6353535163184018000000000005655265526a9a4a8a050000000001ac00000000',
+    '65ab53ab6a00ab6553',
+    2,
+    1902561212,
+    '7928ae8e86c0b0cad1b2c120ea313087437974382ee6d46443ca5ac3f5878b88'
+  ],
+  [
+    '972128b904e7b673517e96e98d80c0c8ceceae76e2f5c126d63da77ffd7893fb53308bb2da0300000006ac6552ab52acffffffff4cac767c797d297c079a93d06dc8569f016b4bf7a7d79b605c526e1d36a40e2202000000095365ab636aac6a6a6a69928d2eddc836133a690cfb72ec2d3115bf50fb3b0d10708fa5d2ebb09b4810c426a1db01000000060052526300001e8e89585da7e77b2dd2e30625887f0660accdf29e53a614d23cf698e6fc8ab03310e87700000000076a520051acac6555231ddb0330ec2d03000000000200abfaf457040000000004ab6a6352bdc42400000000000153d6dd2f04',
+    '',
+    0,
+    209234698,
+    '4a92fec1eb03f5bd754ee9bfd70707dc4420cc13737374f4675f48529be518e4'
+  ],
+  [
+    '1fb4085b022c6cfb848f8af7ba3ba8d21bd23ffa9f0bfd181cb68bcaaf2074e66d4974a31602000000090000006a6a6500acab6c12c07d9f3dbd2d93295c3a49e3757119767097e7fd5371f7d1ba9ba32f1a67a5a426f00000000000ffffffff018fd2fc04000000000363ac5100000000',
+    '65ab006a6aab526a',
+    0,
+    1431502299,
+    '8b7dd0ff12ca0d8f4dbf9abf0abba00e897c2f6fd3b92c79f5f6a534e0b33b32'
+  ],
+  [
+    '5374f0c603d727f63006078bd6c3dce48bd5d0a4b6ea00a47e5832292d86af258ea0825c260000000009655353636352526a6af2221067297d42a9f8933dfe07f61a574048ff9d3a44a3535cd8eb7de79fb7c45b6f47320200000003ac006affffffff153d917c447d367e75693c5591e0abf4c94bbdd88a98ab8ad7f75bfe69a08c470200000005ac65516365ffffffff037b5b7b000000000001515dc4d904000000000004bb26010000000004536a6aac00000000',
+    '516552516352ac',
+    2,
+    328538756,
+    '8bb7a0129eaf4b8fc23e911c531b9b7637a21ab11a246352c6c053ff6e93fcb6'
+  ],
+  [
+    'c441132102cc82101b6f31c1025066ab089f28108c95f18fa67db179610247086350c163bd010000000651525263ab00ffffffff9b8d56b1f16746f075249b215bdb3516cbbe190fef6292c75b1ad8a8988897c3000000000751ab6553abab00ffffffff02f9078b000000000009ab0053ac51ac00ab51c0422105000000000651006563525200000000',
+    'ac51',
+    0,
+    -197051790,
+    '55acd8293ed0be6792150a3d7ced6c5ccd153ca7daf09cee035c1b0dac92bb96'
+  ],
+  [
+    'ab82ad3b04545bd86b3bb937eb1af304d3ef1a6d1343ed809b4346cafb79b7297c09e1648202000000086351ac5200535353ffffffff95d32795bbaaf5977a81c2128a9ec0b3c7551b9b1c3d952876fcb423b2dfb9e80000000005515363acac47a7d050ec1a603627ce6cd606b3af314fa7964abcc579d92e19c7aba00cf6c3090d6d4601000000056a516551633e794768bfe39277ebc0db18b5afb5f0c8117dde9b4dfd5697e9027210eca76a9be20d63000000000700520063ab6aacffffffff01ec2ddc050000000008ac52ac65ac65ac5100000000',
+    '536300abab',
+    1,
+    -2070209841,
+    'b362da5634f20be7267de78b545d81773d711b82fe9310f23cd0414a8280801d'
+  ],
+  [
+    '8bff9d170419fa6d556c65fa227a185fe066efc1decf8a1c490bc5cbb9f742d68da2ab7f320100000007ab000053525365a7a43a80ab9593b9e8b6130a7849603b14b5c9397a190008d89d362250c3a2257504eb810200000007acabacac00ab51ee141be418f003e75b127fd3883dbf4e8c3f6cd05ca4afcaac52edd25dd3027ae70a62a00000000008ac52526a5200536affffffffb8058f4e1d7f220a1d1fa17e96d81dfb9a304a2de4e004250c9a576963a586ae0300000005abacac5363b9bc856c039c01d804000000000951656aac53005365acb0724e00000000000565abab63acea7c7a0000000000036a00ac00000000',
+    '6565',
+    1,
+    -1349282084,
+    '2b822737c2affeefae13451d7c9db22ff98e06490005aba57013f6b9bbc97250'
+  ],
+  [
+    '0e1633b4041c50f656e882a53fde964e7f0c853b0ada0964fc89ae124a2b7ffc5bc97ea6230100000006ac6aacacabacffffffff2e35f4dfcad2d53ea1c8ada8041d13ea6c65880860d96a14835b025f76b1fbd9000000000351515121270867ef6bf63a91adbaf790a43465c61a096acc5a776b8e5215d4e5cd1492e611f761000000000600ac6aab5265ffffffff63b5fc39bcac83ca80ac36124abafc5caee608f9f63a12479b68473bd4bae769000000000965ac52acac5263acabffffffff0163153e020000000008ab005165ab65515300000000',
+    '6a6aac00',
+    0,
+    -968477862,
+    '20732d5073805419f275c53784e78db45e53332ee618a9fcf60a3417a6e2ca69'
+  ],
+  [
+    '2b052c24022369e956a8d318e38780ef73b487ba6a8f674a56bdb80a9a63634c6110fb5154010000000251acffffffff48fe138fb7fdaa014d67044bc05940f4127e70c113c6744fbd13f8d51d45143e01000000005710db3804e01aa9030000000008acac6a516a5152abfd55aa01000000000751ab510000ac636d6026010000000000b97da9000000000000fddf3b53',
+    '006552',
+    0,
+    595461670,
+    '685d67d84755906d67a007a7d4fa311519467b9bdc6a351913246a41e082a29f'
+  ],
+  [
+    '073bc856015245f03b2ea2da62ccedc44ecb99e4250c7042f596bcb23b294c9dc92cfceb6b02000000095163abab52abab636afe292fb303b7c3f001000000000352636af3c49502000000000400ac6a535851850100000000066aac6553ab6500000000',
+    'ab6aab53006aab52',
+    0,
+    247114317,
+    '123916c6485cf23bfea95654a8815fbf04ce4d21a3b7f862805c241472906658'
+  ],
+  [
+    '7888b71403f6d522e414d4ca2e12786247acf3e78f1918f6d727d081a79813d129ee8befce0100000009ab516a6353ab6365abffffffff4a882791bf6400fda7a8209fb2c83c6eef51831bdf0f5dacde648859090797ec030000000153ffffffffbb08957d59fa15303b681bad19ccf670d7d913697a2f4f51584bf85fcf91f1f30200000008526565ac52ac63acffffffff0227c0e8050000000001ac361dc801000000000800515165ab00ab0000000000',
+    '656a',
+    2,
+    1869281295,
+    'f43378a0b7822ad672773944884e866d7a46579ee34f9afc17b20afc1f6cf197'
+  ],
+  [
+    'cc4dda57047bd0ca6806243a6a4b108f7ced43d8042a1acaa28083c9160911cf47eab910c40200000007526a0000ab6a63e4154e581fcf52567836c9a455e8b41b162a78c85906ccc1c2b2b300b4c69caaaa2ba0230300000008ab5152ac5100ab65ffffffff69696b523ed4bd41ecd4d65b4af73c9cf77edf0e066138712a8e60a04614ea1c0300000004ab6a000016c9045c7df7836e05ac4b2e397e2dd72a5708f4a8bf6d2bc36adc5af3cacefcf074b8b403000000065352ac5252acffffffff01d7e380050000000000cf4e699a',
+    '525163656351',
+    1,
+    -776533694,
+    'ff18c5bffd086e00917c2234f880034d24e7ea2d1e1933a28973d134ca9e35d2'
+  ],
+  [
+    'b7877f82019c832707a60cf14fba44cfa254d787501fdd676bd58c744f6e951dbba0b3b77f0200000009ac515263ac53525300a5a36e500148f89c0500000000085265ac6a6a65acab00000000',
+    '6563',
+    0,
+    -1785108415,
+    'cb6e4322955af12eb29613c70e1a00ddbb559c887ba844df0bcdebed736dffbd'
+  ],
+  [
+    'aeb14046045a28cc59f244c2347134d3434faaf980961019a084f7547218785a2bd03916f3000000000165f852e6104304955bda5fa0b75826ee176211acc4a78209816bbb4419feff984377b2352200000000003a94a5032df1e0d60390715b4b188c330e4bb7b995f07cdef11ced9d17ee0f60bb7ffc8e0100000002516513e343a5c1dc1c80cd4561e9dddad22391a2dbf9c8d2b6048e519343ca1925a9c6f0800a020000000665516365ac513180144a0290db27000000000006ab655151ab5138b187010000000007ab5363abac516a9e5cd98a',
+    '53ac',
+    0,
+    478591320,
+    'e8d89a302ae626898d4775d103867a8d9e81f4fd387af07212adab99946311ef'
+  ],
+  [
+    'c9270fe004c7911b791a00999d108ce42f9f1b19ec59143f7b7b04a67400888808487bd59103000000066a0052ac6565b905e76687be2dd7723b22c5e8269bc0f2000a332a289cfc40bc0d617cfe3214a61a85a30300000007ac63ac00635251560871209f21eb0268f175b8b4a06edd0b04162a974cf8b5dada43e499a1f22380d35ede0300000000792213fc58b6342cc8100079f9f5f046fb89f2d92cf0a2cb6d07304d32d9da858757037c0000000008abab51636565516affffffff02c72a8b03000000000452acac530dfb9f05000000000096f94307',
+    '5253ab536351',
+    3,
+    543688436,
+    '0278adbcc476d135493ae9bdcd7b3c2002df17f2d81c17d631c50c73e546c264'
+  ],
+  [
+    '57a5a04c0278c8c8e243d2df4bb716f81d41ac41e2df153e7096f5682380c4f441888d9d260300000004ab63ab6afdbe4203525dff42a7b1e628fe22bccaa5edbb34d8ab02faff198e085580ea5fcdb0c61b0000000002ac6affffffff03375e6c05000000000663ab516a6a513cb6260400000000007ca328020000000006516a636a52ab94701cc7',
+    '0053ac5152',
+    0,
+    -550925626,
+    'b7ca991ab2e20d0158168df2d3dd842a57ab4a3b67cca8f45b07c4b7d1d11126'
+  ],
+  [
+    '072b75a504ad2550c2e9a02614bc9b2a2f50b5b553af7b87c0ef07c64ddc8d8934c96d216401000000036aabaca1387242a5bcd21099b016ad6045bed7dce603472757d9822cc5f602caa4ae20414d378b02000000026a63e4ac816734acdc969538d6f70b8ab43a2589f55e0177a4dc471bdd0eb61d59f0f46f6bb801000000065351526aab52d9f2977be76a492c3a7617b7a16dc29a3b0a7618f328c2f7d4fd9bafe760dc427a5066ef000000000465635165ffffffff02c5793600000000000165296820050000000002ac6300000000',
+    '53006a6aac0052ab',
+    2,
+    66084636,
+    '437e89bb6f70fd2ed2feef33350b6f6483b891305e574da03e580b3efd81ae13'
+  ],
+  [
+    '7e27c42d0279c1a05eeb9b9faedcc9be0cab6303bde351a19e5cbb26dd0d594b9d74f40d2b020000000200518c8689a08a01e862d5c4dcb294a2331912ff11c13785be7dce3092f154a005624970f84e0200000000500cf5a601e74c1f0000000000076aab52636a6a5200000000',
+    '6500006a5351',
+    0,
+    449533391,
+    '535ba819d74770d4d613ee19369001576f98837e18e1777b8246238ff2381dd0'
+  ],
+  [
+    '11414de403d7f6c0135a9df01cb108c1359b8d4e105be50a3dcba5e6be595c8817217490b20000000003005263ffffffff0c6becb9c3ad301c8dcd92f5cbc07c8bed7973573806d1489316fc77a829da03030000000700005253535352ffffffff2346d74ff9e12e5111aa8779a2025981850d4bf788a48de72baa2e321e4bc9ca00000000056352acab63cc585b64045e0385050000000009ab5253ab516aacac00efa9cf0300000000065200635151acbe80330400000000070063635100ab000be159050000000007525300655300ac00000000',
+    '51656a0051ab',
+    0,
+    683137826,
+    'd4737f3b58f3e5081b35f36f91acde89dda00a6a09d447e516b523e7a99264d5'
+  ],
+  [
+    '1c6b5f29033fc139338658237a42456123727c8430019ca25bd71c6168a9e35a2bf54538d80100000008536aac52ac6a6a52ffffffff3fb36be74036ff0c940a0247c451d923c65f826793d0ac2bb3f01ecbec8033290100000007ab000051ab6363ffffffff5d9eca0cf711685105bd060bf7a67321eaef95367acffab36ce8dedddd632ee2000000000652ac6a63ac517167319e032d26de040000000003516363dc38fb010000000000b37b00000000000006ab520051ac534baba51f',
+    '636300ababac6563',
+    0,
+    -2049129935,
+    '3282a2ec6b8c87c9303e6060c17b421687db1bd35fbfa0345b48f2490e15b6cc'
+  ],
+  [
+    '978b9dad0214cfc7ce392d74d9dcc507350dc34007d72e4125861c63071ebf2cc0a6fd4856020000000651ac6a6aab52ffffffff47f20734e3370e733f87a6edab95a7a268ae44db7a8974e255614836b22938720200000008635265ac51516553ffffffff0137b2560100000000035252ac2f3363e9',
+    '006aab6352',
+    1,
+    2014249801,
+    '55611a5fb1483bce4c14c33ed15198130e788b72cd8929b2ceef4dd68b1806bf'
+  ],
+  [
+    '442f1c8703ab39876153c241ab3d69f432ba6db4732bea5002be45c8ca10c3a2356fe0e9590300000001accb2b679cab7c58a660cb6d4b3452c21cd7251a1b77a52c300f655f5baeb6fa27ff5b79880300000003005252e5ccf55712bc8ed6179f6726f8a78f3018a7a0391594b7e286ef5ee99efdcde302a102cc0200000009006352526351536a63ffffffff04443f63030000000006536a63ab63651405fb020000000009ac535351525300ab6a9f172b000000000004ab535263ad5c50050000000008656a65ab630000ac00000000',
+    '65636aab006552',
+    2,
+    2125838294,
+    'b3ff10f21e71ebc8b25fe058c4074c42f08617e0dcc03f9e75d20539d3242644'
+  ],
+  [
+    '2b3470dd028083910117f86614cdcfb459ee56d876572510be4df24c72e8f58c70d5f5948b03000000066aab65635265da2c3aac9d42c9baafd4b655c2f3efc181784d8cba5418e053482132ee798408ba43ccf90300000000ffffffff047dda4703000000000765516a52ac53009384a603000000000651636a63ab6a8cf57a03000000000352ab6a8cf6a405000000000952636a6a6565525100661e09cb',
+    'ac520063ac6a6a52',
+    1,
+    1405647183,
+    '9b360c3310d55c845ef537125662b9fe56840c72136891274e9fedfef56f9bb5'
+  ],
+  [
+    'd74282b501be95d3c19a5d9da3d49c8a88a7049c573f3788f2c42fc6fa594f59715560b9b00000000009655353525265ac52ac9772121f028f8303030000000003510065af5f47040000000007ac516a6551630000000000',
+    'acab53006363ac',
+    0,
+    -1113209770,
+    '2f482b97178f17286f693796a756f4d7bd2dfcdbecd4142528eec1c7a3e5101a'
+  ],
+  [
+    '3a5644a9010f199f253f858d65782d3caec0ac64c3262b56893022b9796086275c9d4d097b02000000009d168f7603a67b30050000000007ac51536a0053acd9d88a050000000007655363535263ab3cf1f403000000000352ac6a00000000',
+    '005363536565acac6a',
+    0,
+    -1383947195,
+    '6390ab0963cf611e0cea35a71dc958b494b084e6fd71d22217fdc5524787ade6'
+  ],
+  [
+    '67b3cc43049d13007485a8133b90d94648bcf30e83ba174f5486ab42c9107c69c5530c5e1f0000000003005100ffffffff9870ebb65c14263282ea8d41e4f4f40df16b565c2cf86f1d22a9494cad03a67f01000000016a5a121bee5e359da548e808ae1ad6dfccae7c67cbb8898d811638a1f455a671e822f228ef030000000151c1fcc9f9825f27c0dde27ea709da62a80a2ff9f6b1b86a5874c50d6c37d39ae31fb6c8a0030000000163553b8786020ca74a00000000000665635153ab5275c0760000000000020052e659b05d',
+    '636aab6a6a',
+    0,
+    -342795451,
+    'f77c3322c97b1681c17b1eba461fa27b07e04c1534e8aaf735a49cab72c7c2e2'
+  ],
+  [
+    'bda1ff6804a3c228b7a12799a4c20917301dd501c67847d35da497533a606701ad31bf9d5e0300000001ac16a6c5d03cf516cd7364e4cbbf5aeccd62f8fd03cb6675883a0636a7daeb650423cb1291010000000500656553ac4a63c30b6a835606909c9efbae1b2597e9db020c5ecfc0642da6dc583fba4e84167539a8020000000865525353515200acffffffff990807720a5803c305b7da08a9f24b92abe343c42ac9e917a84e1f335aad785d00000000026a52ffffffff04981f20030000000001ab8c762200000000000253ab690b9605000000000151ce88b301000000000753526a6a51006500000000',
+    '000052ac52530000',
+    1,
+    -1809193140,
+    '5299b0fb7fc16f40a5d6b337e71fcd1eb04d2600aefd22c06fe9c71fe0b0ba54'
+  ],
+  [
+    '2ead28ff0243b3ab285e5d1067f0ec8724224402b21b9cef9be962a8b0d153d401be99bbee0000000004ac635153ffffffff6985987b7c1360c9fa8406dd6e0a61141709f0d5195f946da55ed83be4e3895301000000020053ffffffff016503d20500000000085251ac6a65656a6a00000000',
+    '51abab',
+    1,
+    1723793403,
+    '67483ee62516be17a2431a163e96fd88a08ff2ce8634a52e42c1bc04e30f3f8a'
+  ],
+  [
+    'db4904e6026b6dd8d898f278c6428a176410d1ffbde75a4fa37cda12263108ccd4ca6137440100000007656a0000515263ffffffff1db7d5005c1c40da0ed17b74cf6b2a6ee2c33c9e0bacda76c0da2017dcac2fc70200000004abab6a53ffffffff0454cf2103000000000153463aef000000000009ab6a630065ab52636387e0ed050000000000e8d16f05000000000352ac63e4521b22',
+    '',
+    1,
+    1027042424,
+    '48315a95e49277ab6a2d561ee4626820b7bab919eea372b6bf4e9931ab221d04'
+  ],
+  [
+    'dca31ad10461ead74751e83d9a81dcee08db778d3d79ad9a6d079cfdb93919ac1b0b61871102000000086500525365ab51ac7f7e9aed78e1ef8d213d40a1c50145403d196019985c837ffe83836222fe3e5955e177e70100000006525152525300ffffffff5e98482883cc08a6fe946f674cca479822f0576a43bf4113de9cbf414ca628060100000006ac53516a5253ffffffff07490b0b898198ec16c23b75d606e14fa16aa3107ef9818594f72d5776805ec502000000036a0052ffffffff01932a2803000000000865ab6551ac6a516a2687aa06',
+    '635300ac',
+    2,
+    -1880362326,
+    '74d6a2fa7866fd8b74b2e34693e2d6fd690410384b7afdcd6461b1ae71d265ce'
+  ],
+  [
+    'e14e1a9f0442ab44dfc5f6d945ad1ff8a376bc966aad5515421e96ddbe49e529614995cafc03000000055165515165fffffffff97582b8290e5a5cfeb2b0f018882dbe1b43f60b7f45e4dd21dbd3a8b0cfca3b0200000000daa267726fe075db282d694b9fee7d6216d17a8c1f00b2229085495c5dc5b260c8f8cd5d000000000363ac6affffffffaab083d22d0465471c896a438c6ac3abf4d383ae79420617a8e0ba8b9baa872b010000000963526563ac5363ababd948b5ce022113440200000000076a636552006a53229017040000000000e6f62ac8',
+    '526353636a65',
+    3,
+    -485265025,
+    '1bc8ad76f9b7c366c5d052dc479d6a8a2015566d3a42e93ab12f727692c89d65'
+  ],
+  [
+    '720d4693025ca3d347360e219e9bc746ef8f7bc88e8795162e5e2f0b0fc99dc17116fc937100000000046353520045cb1fd79824a100d30b6946eab9b219daea2b0cdca6c86367c0c36af98f19ac64f3575002000000008a1c881003ed16f3050000000008536a63630000abac45e0e704000000000151f6551a05000000000963536565515363abab00000000',
+    '6553ab6a6a510000ab',
+    1,
+    1249091393,
+    'a575fa4f59a8e90cd07de012c78fe8f981183bb170b9c50fcc292b8c164cbc3b'
+  ],
+  [
+    '69df842a04c1410bfca10896467ce664cfa31c681a5dac10106b34d4b9d4d6d0dc1eac01c1000000000551536a5165269835ca4ad7268667b16d0a2df154ec81e304290d5ed69e0069b43f8c89e673328005e200000000076a5153006aacabffffffffc9314bd80b176488f3d634360fcba90c3a659e74a52e100ac91d3897072e3509010000000765abac51636363ffffffff0e0768b13f10f0fbd2fa3f68e4b4841809b3b5ba0e53987c3aaffcf09eee12bf0300000008ac535263526a53ac514f4c2402da8fab0400000000001ef15201000000000451526a52d0ec9aca',
+    '525365ac52',
+    1,
+    313967049,
+    'a72a760b361af41832d2c667c7488dc9702091918d11e344afc234a4aea3ec44'
+  ],
+  [
+    'adf2340d03af5c589cb5d28c06635ac07dd0757b884d4777ba85a6a7c410408ad5efa8b19001000000045100ab00ffffffff808dc0231c96e6667c04786865727013922bcb7db20739b686f0c17f5ba70e8f0300000000fd2332a654b580881a5e2bfec8313f5aa878ae94312f37441bf2d226e7fc953dcf0c77ab000000000163aa73dc580412f8c2050000000005636aacac63da02d502000000000153e74b52020000000001536b293d030000000009636552ababacab526500000000',
+    '000052ab52ababab',
+    0,
+    -568651175,
+    '2c45d021db545df7167ac03c9ee56473f2398d9b2b739cf3ff3e074501d324f8'
+  ],
+  [
+    'e4fec9f10378a95199c1dd23c6228732c9de0d7997bf1c83918a5cfd36012476c0c3cba24002000000085165536500ac0000ad08ab93fb49d77d12a7ccdbb596bc5110876451b53a79fdce43104ff1c316ad63501de801000000046a6352ab76af9908463444aeecd32516a04dd5803e02680ed7f16307242a794024d93287595250f4000000000089807279041a82e603000000000200521429100200000000055253636a63f20b940400000000004049ed04000000000500ab5265ab43dfaf7d',
+    '6563526aac',
+    2,
+    -1923470368,
+    '32f3c012eca9a823bebb9b282240aec40ca65df9f38da43b1dcfa0cac0c0df7e'
+  ],
+  [
+    '4000d3600100b7a3ff5b41ec8d6ccdc8b2775ad034765bad505192f05d1f55d2bc39d0cbe10100000007ab5165ac6a5163ffffffff034949150100000000026a6a92c9f6000000000008ab6553ab6aab635200e697040000000007636a5353525365237ae7d2',
+    '52000063',
+    0,
+    -880046683,
+    'c76146f68f43037289aaeb2bacf47408cddc0fb326b350eb4f5ef6f0f8564793'
+  ],
+  [
+    'eabc0aa701fe489c0e4e6222d72b52f083166b49d63ad1410fb98caed027b6a71c02ab830c03000000075253ab63530065ffffffff01a5dc0b05000000000253533e820177',
+    '',
+    0,
+    954499283,
+    '1d849b92eedb9bf26bd4ced52ce9cb0595164295b0526842ab1096001fcd31b1'
+  ],
+  [
+    'd48d55d304aad0139783b44789a771539d052db565379f668def5084daba0dfd348f7dcf6b00000000006826f59e5ffba0dd0ccbac89c1e2d69a346531d7f995dea2ca6d7e6d9225d81aec257c6003000000096a655200ac656552acffffffffa188ffbd5365cae844c8e0dea6213c4d1b2407274ae287b769ab0bf293e049eb0300000005ac6a6aab51ad1c407c5b116ca8f65ed496b476183f85f072c5f8a0193a4273e2015b1cc288bf03e9e2030000000252abffffffff04076f44040000000006655353abab53be6500050000000003ac65ac3c15040500000000095100ab536353516a52ed3aba04000000000900ac53ab53636aabac00000000',
+    '5253526563acac',
+    2,
+    -1506108646,
+    'bbee17c8582514744bab5df50012c94b0db4aff5984d2e13a8d09421674404e2'
+  ],
+  [
+    '9746f45b039bfe723258fdb6be77eb85917af808211eb9d43b15475ee0b01253d33fc3bfc502000000065163006a655312b12562dc9c54e11299210266428632a7d0ee31d04dfc7375dcad2da6e9c11947ced0e000000000009074095a5ac4df057554566dd04740c61490e1d3826000ad9d8f777a93373c8dddc4918a00000000025351ffffffff01287564030000000004636a00ab00000000',
+    '52',
+    2,
+    -1380411075,
+    '84af1623366c4db68d81f452b86346832344734492b9c23fbb89015e516c60b2'
+  ],
+  [
+    '8731b64903d735ba16da64af537eaf487b57d73977f390baac57c7b567cb2770dfa2ef65870100000001635aedd990c42645482340eacb0bfa4a0a9e888057389c728b5b6a8691cdeb1a6a67b45e140200000008ac53526a52516551ffffffff45c4f567c47b8d999916fd49642cbc5d10d43c304b99e32d044d35091679cb860100000003006a51ffffffff0176d6c200000000000000000000',
+    'ab6a65ab53',
+    2,
+    -1221546710,
+    'ccfdba36d9445f4451fb7cbf0752cc89c23d4fc6fff0f3930d20e116f9db0b95'
+  ],
+  [
+    'f5cfc52f016209ab1385e890c2865a74e93076595d1ca77cbe8fbf2022a2f2061a90fb0f3e010000000253acffffffff027de73f0200000000085252ac510052acac49cd6a020000000000e6c2cb56',
+    '516552535300ab63',
+    0,
+    -1195302704,
+    '5532717402a2da01a1da912d824964024185ca7e8d4ad1748659dc393a14182b'
+  ],
+  [
+    'df0a32ae01c4672fd1abd0b2623aae0a1a8256028df57e532f9a472d1a9ceb194267b6ee190200000009536a6a51516a525251b545f9e803469a2302000000000465526500810631040000000000441f5b050000000006530051006aaceb183c76',
+    '536a635252ac6a',
+    0,
+    1601138113,
+    '9a0435996cc58bdba09643927fe48c1fc908d491a050abbef8daec87f323c58f'
+  ],
+  [
+    'd102d10c028b9c721abb259fe70bc68962f6cae384dabd77477c59cbeb1fb26266e091ba3e0100000002516affffffffe8d7305a74f43e30c772109849f4cd6fb867c7216e6d92e27605e69a0818899700000000026a65ecf82d58027db4620500000000026552c28ed3010000000001ab00000000',
+    '0051ab515365',
+    1,
+    -131815460,
+    '1d1757a782cb5860302128bcbe9398243124a2f82d671a113f74f8e582c7a182'
+  ],
+  [
+    'cef930ed01c36fcb1d62ceef931bef57098f27a77a4299904cc0cbb44504802d535fb11557010000000153ffffffff02c8657403000000000863ac655253520063d593380400000000046aab536a00000000',
+    '656a0051ab6365ab53',
+    0,
+    -351313308,
+    'e69dba3efb5c02af2ab1087d0a990678784671f4744d01ca097d71aec14dd8e9'
+  ],
+  [
+    'b1c0b71804dff30812b92eefb533ac77c4b9fdb9ab2f77120a76128d7da43ad70c20bbfb990200000002536392693e6001bc59411aebf15a3dc62a6566ec71a302141b0c730a3ecc8de5d76538b30f55010000000665535252ac514b740c6271fb9fe69fdf82bf98b459a7faa8a3b62f3af34943ad55df4881e0d93d3ce0ac0200000000c4158866eb9fb73da252102d1e64a3ce611b52e873533be43e6883137d0aaa0f63966f060000000001abffffffff04a605b604000000000851006a656a630052f49a0300000000000252515a94e1050000000009abac65ab0052abab00fd8dd002000000000651535163526a2566852d',
+    'ac5363',
+    0,
+    -1718831517,
+    'b0dc030661783dd9939e4bf1a6dfcba809da2017e1b315a6312e5942d714cf05'
+  ],
+  [
+    '6a270ee404ebc8d137cfd4bb6b92aa3702213a3139a579c1fc6f56fbc7edd9574ef17b13f30100000009ab00ab656565ababacffffffffaa65b1ab6c6d87260d9e27a472edceb7dd212483e72d90f08857abf1dbfd46d10100000000fffffffff93c4c9c84c4dbbe8a912b99a2830cfe3401aebc919041de063d660e585fc9f002000000096aabacab52ac6a53acfa6dcef3f28355a8d98eee53839455445eeee83eecd2c854e784efa53cee699dbfecaebd0100000003ab6a51ffffffff04f7d71b050000000009ac6a536aac6a6365513c37650500000000065265abab6a53fa742002000000000039ed82030000000009516aac635165ab51ab2fdabd17',
+    'ab535252526563',
+    1,
+    -1326210506,
+    '1dec0d5eb921bf5b2df39c8576e19c38d0c17254a4a0b78ac4b5422bcc426258'
+  ],
+  [
+    '3657e4260304ccdc19936e47bdf058d36167ee3d4eb145c52b224eff04c9eb5d1b4e434dfc0000000001ab58aefe57707c66328d3cceef2e6f56ab6b7465e587410c5f73555a513ace2b232793a74400000000036a006522e69d3a785b61ad41a635d59b3a06b2780a92173f85f8ed428491d0aaa436619baa9c4501000000046351abab2609629902eb7793050000000000a1b967040000000003525353a34d6192',
+    '516a',
+    0,
+    -1761874713,
+    '0a2ff41f6d155d8d0e37cd9438f3b270df9f9214cda8e95c76d5a239ca189df2'
+  ],
+  [
+    'a0eb6dc402994e493c787b45d1f946d267b09c596c5edde043e620ce3d59e95b2b5b93d43002000000096a5252526aac63ab6555694287a279e29ee491c177a801cd685b8744a2eab83824255a3bcd08fc0e3ea13fb8820000000009abab6365ab52ab0063ffffffff029e424a040000000008acab53ab516a636a23830f0400000000016adf49c1f9',
+    'ac0065ac6500005252',
+    1,
+    669294500,
+    'e05e3d383631a7ed1b78210c13c2eb26564e5577db7ddfcea2583c7c014091d4'
+  ],
+  [
+    '6e67c0d3027701ef71082204c85ed63c700ef1400c65efb62ce3580d187fb348376a23e9710200000001655b91369d3155ba916a0bc6fe4f5d94cad461d899bb8aaac3699a755838bfc229d6828920010000000765536353526a52ffffffff04c0c792000000000005650052535372f79e000000000001527fc0ee010000000005ac5300ab65d1b3e902000000000251aba942b278',
+    '6a5151',
+    0,
+    1741407676,
+    'e657e2c8ec4ebc769ddd3198a83267b47d4f2a419fc737e813812acefad92ff7'
+  ],
+  [
+    '8f53639901f1d643e01fc631f632b7a16e831d846a0184cdcda289b8fa7767f0c292eb221a00000000046a53abacffffffff037a2daa01000000000553ac6a6a51eac349020000000005ac526552638421b3040000000007006a005100ac63048a1492',
+    'ac65',
+    0,
+    1033685559,
+    'da86c260d42a692358f46893d6f91563985d86eeb9ea9e21cd38c2d8ffcfcc4d'
+  ],
+  [
+    '491f99cb01bdfba1aa235e5538dac081fae9ce55f9622de483afe7e65105c2b0db75d360d200000000045251636340b60f0f041421330300000000096351ac000051636553ce2822040000000005516a00ac5180c8e40300000000025100caa8570400000000020000cfdc8da6',
+    '6a5100516aab655365',
+    0,
+    -953727341,
+    '397c68803b7ce953666830b0221a5e2bcf897aa2ded8e36a6b76c497dcb1a2e1'
+  ],
+  [
+    'b3cad3a7041c2c17d90a2cd994f6c37307753fa3635e9ef05ab8b1ff121ca11239a0902e700300000009ab635300006aac5163ffffffffcec91722c7468156dce4664f3c783afef147f0e6f80739c83b5f09d5a09a57040200000004516a6552ffffffff969d1c6daf8ef53a70b7cdf1b4102fb3240055a8eaeaed2489617cd84cfd56cf020000000352ab53ffffffff46598b6579494a77b593681c33422a99559b9993d77ca2fa97833508b0c169f80200000009655300655365516351ffffffff04d7ddf800000000000853536a65ac6351ab09f3420300000000056aab65abac33589d04000000000952656a65655151acac944d6f0400000000006a8004ba',
+    '005165',
+    1,
+    1035865506,
+    'fe1dc9e8554deecf8f50c417c670b839cc9d650722ebaaf36572418756075d58'
+  ],
+  [
+    'e1cfd73b0125add9e9d699f5a45dca458355af175a7bd4486ebef28f1928d87864384d02df02000000036a0051ffffffff0357df030100000000036a5365777e2d04000000000763ab6a00005265f434a601000000000351655100000000',
+    'ab53ab',
+    0,
+    -1936500914,
+    '950f4b4f72ccdf8a6a0f381265d6c8842fdb7e8b3df3e9742905f643b2432b69'
+  ],
+  [
+    'cf781855040a755f5ba85eef93837236b34a5d3daeb2dbbdcf58bb811828d806ed05754ab8010000000351ac53ffffffffda1e264727cf55c67f06ebcc56dfe7fa12ac2a994fecd0180ce09ee15c480f7d00000000096351516a51acac00ab53dd49ff9f334befd6d6f87f1a832cddfd826a90b78fd8cf19a52cb8287788af94e939d6020000000700525251ac526310d54a7e8900ed633f0f6f0841145aae7ee0cbbb1e2a0cae724ee4558dbabfdc58ba6855010000000552536a53abfd1b101102c51f910500000000096300656a525252656a300bee010000000009ac52005263635151abe19235c9',
+    '53005365',
+    2,
+    1422854188,
+    'd5981bd4467817c1330da72ddb8760d6c2556cd809264b2d85e6d274609fc3a3'
+  ],
+  [
+    'fea256ce01272d125e577c0a09570a71366898280dda279b021000db1325f27edda41a53460100000002ab53c752c21c013c2b3a01000000000000000000',
+    '65',
+    0,
+    1145543262,
+    '076b9f844f6ae429de228a2c337c704df1652c292b6c6494882190638dad9efd'
+  ]
+];
+
+/**
+ * `SIGHASH_FORKID` signature hash test vectors from Bitcoin ABC
+ * (`sighash.json`).
+ */
+export const signatureHashVectorsBCH: ReadonlyArray<SignatureHashVector> = [
+  [
+    '3eb87070042d16f9469b0080a3c1fe8de0feae345200beef8b1e0d7c62501ae0df899dca1e03000000066a0065525365ffffffffd14a9a335e8babddd89b5d0b6a0f41dd6b18848050a0fc48ce32d892e11817fd030000000863acac00535200527ff62cf3ad30d9064e180eaed5e6303950121a8086b5266b55156e4f7612f2c7ebf223e0020000000100ffffffff6273ca3aceb55931160fa7a3064682b4790ee016b4a5c0c0d101fd449dff88ba01000000055351ac526aa3b8223d0421f25b0400000000026552f92db70500000000075253516a656a53c4a908010000000000b5192901000000000652525251516aa148ca38',
+    'acab53',
+    3,
+    -1325231124,
+    'fbbc83ed610e416d94dcee2bb3bc35dfea8060b8052c59eabd7e998e3e978328'
+  ],
+  [
+    '1d23429f02b26456f634a9427bd18367dc477d496dbe9c0ec4adea5e89faa23df518b42e2e0100000006536aac6a6352b0856707c61a7ac41db9327e549fcaa7056b7a59bfac2a515c3e3a59dc8393e9b53f85fd0300000004ac6351ab6397678c0481ab6c01000000000100d9eee5040000000005ac53acac004eee220100000000030065637aaf0205000000000752536a00636aac00000000',
+    '51006552',
+    1,
+    1523876458,
+    '7519711b432e8d30bd5e51f660b8731b2f1f4939833fe8f9ab1daed4ae4e8449'
+  ],
+  [
+    '617da8a40352a0572afdf7accebea4ce89d6afd689536c546eb70cca51897d7fc17098b55702000000066a526a5252654b6c10bc05c1abba811c86d3d558d88ff241b63975a5044bd24853bd63cb5ae44825916800000000085265acac6a00abac821b96454846291365d28a321ec1ff8fcea810c0c4fcd2eb29a23211561444957945fc4301000000076565ac6551ac6affffffff040a88c70100000000045152526aa19165030000000007525265ac53ac525fe7cd0500000000065351536565abc5af1c02000000000351000000000000',
+    '536a',
+    2,
+    918590178,
+    'e5c4e0b08780a0d40845972262beff78bdd7708ccfdeb5a05b7554b4b22b584e'
+  ],
+  [
+    '1c4f1dba01cbcc506ca3e93f13cb2963e5f9bc6e861b23b2f7b3cbb3f9145a4dd52fa4b146000000000153a91eae9b01a445da01000000000000000000',
+    '536a52636553635351',
+    0,
+    -372992040,
+    '07bc239bb251e99790ae8d4187c5351a51f85205bba84545b2bf99981846e956'
+  ],
+  [
+    '74bb6dcd04a2ef7c3f91520c70871b59f024d3e5e6b3f56b0a946e36d4a880776aec39b4d4010000000100ffffffff32ba25f9665289c81d97131a56ca45e7ab11569e6dd39c3a098e8ffe85cee19702000000076a6a51ab52acac3888587425716c12954331979777d3d3063027fa4e1a471baa089983c5c7ddb71c26b6290200000007ac6a6a5200ab6a0bf02381927133b6ed072c507ec03e12660887ba09c5f9748598c97033f7ff87c68b55cc0200000001acffffffff03a5bcc802000000000153c66e45000000000009636a6a536a63ab5352f9b4d8050000000000ed8227b8',
+    '536a6363',
+    1,
+    -165802784,
+    '58f4c0f2dc2692e224550d7e9a2bd2161655bc1b3fcebf95f33742cbd7cdfd89'
+  ],
+  [
+    'daf41ebc02afd05cc3e396f29965f45e8dc12615d4b37b5fb926da0683758b1cead144214c0300000004ac65ac6a77b96b596eaedf4b3598336f3d70791cfce039642a1d510c1b8abd21d73130b4f67c02530000000009ac536a6a5163655251f3604d2402312eef000000000003ab656a6e66b6030000000002515100000000',
+    '51',
+    1,
+    -1236976392,
+    'd69c94c9e73174e4af2c3000e6da3781a48373f646a9b14eba1aa2478f11a845'
+  ],
+  [
+    '31bc3505038ea5bf4e5730dc02514274f47d2e41054f51618e8fac4f255b13f2c6b2395de70000000000ffffffff7dc3145851294956d9a6de0986e7c8bf4eb34c69fa9ac1c94444f06e283231ef0100000006535352636a6a26c4857b1bbb619e85ad34db898628043d7ec18db4239b8a78087acdae971ba9a524a8d100000000086352630052ac63006f196b43021527e303000000000751535351abac6a4b38cb0100000000015200000000',
+    '5200',
+    1,
+    1206849647,
+    '014157f3ebc2f7be4eb3e531e1c8b287e0e2c9fc116523275f1516f652c6387a'
+  ],
+  [
+    'ceb24c4704199998db2d11a85634588234b4780749bd26dbda704d267d315ce1055703d56402000000090052000052abab5153ffffffff0fa970991c63fb965c562defae44ae01ab480d05ba9cf997658a079c2cdd06f90000000002ac51ffffffff3b2f25380b43883162d9e131f0eb9ee0f47be1a5163784e35dc542a4d4cc929c0100000002acacf71089028955ee234e8556e5a881d79c9935893047a81873566a2e002a58e058e5a7c62900000000026a51ffffffff03a9dc840100000000045353ac65f1433802000000000453526aabf7edb5020000000005ac00acab5200000000',
+    '006a6365',
+    0,
+    1647230717,
+    '36ccacc78a0e469987089b8b3638ba71ec9ceaa69bfa8daa3e64cd17ac46da49'
+  ],
+  [
+    '62c6299c034f0987c316c266b36d418703d1b22b5c90e98c429ef0bc010f0832063075a34b02000000085152650051abab634c44d36a887db972976cc781c1ee9f8bf0eae362cac3dbb5c02122e5e22f519e8ce79bb80300000002516a77243339deb65b443a6a52f7dd13f6cb7fc740434e683e4a413692ac6bdc01067a0885dc020000000853ab63ac00ab00513acf7ae10438ddf30400000000076352526a6a51ab4e3983000000000009535365ab5351abacac114d1d020000000008acac635152535163b99f2f040000000006acab635352ac3b56b816',
+    '6a635153ab00',
+    0,
+    1171897848,
+    'c3f6ce039981aed4cd37f652f896d67e1ce4ffbfd90d419fdf00e6c1a2543b8a'
+  ],
+  [
+    'c7469d9404631c3ee9da01d735b58a09799e785d0a53e15446cf23391cc9f2d838e76cc9870000000000ffffffff48b3d15b82ab337a9066087957f319090dab25bd302ef250b1267a875484b59b010000000060fae4496ec2a48d6382367df13c273f9bf74b28a3a5d1f75c729d46f94059e4cbd836ac02000000025363ffffffff4c3dc2d12006abb2024337b8482d6bfbc7dc98664aea4e307d91ede50b46760302000000056352525265ffffffff0243d296030000000004ab65526aedb72701000000000553ab6a53abb4948357',
+    '0063',
+    2,
+    -339095221,
+    '6d3c0bdc3b9d2ab2023e624377cc1dd01f298e2729bd58dc717a5ad6b237b996'
+  ],
+  [
+    'f1ca663a01b32494095bb9e1395470ba11f01ad3c87458450132f55604677ccc1a7e7b77ac00000000066a0052656aabffffffff03c0981901000000000451656552fa606803000000000251ab58a6ff0200000000007c7fc452',
+    '00ab6a63650063acab',
+    0,
+    -1336646841,
+    '5e8c36b1db2d31f8289ccb1ad1219e135788cca5948c02aabc5823a4b9282831'
+  ],
+  [
+    'fd67336804afcdae6676a7917a9c3b95592f049f7e79b96a91912432c55f57c2780e37418802000000086553ab53005253abcf5399a7e4c44a78ecdde8aef39fdbb220ab857c64126340de1f102992f0423efc1283150200000000d2c26563e4610de0dc5983035c64710074f006927515fa360c1e31aacc6bd48e5702f9000000000000c48f2619aff4af53f7d02b51f42c4695b7a2e7bb8f81972c264f4a42ba3c9a9eaeb5a8a702000000076a5363526aab51ffffffff030be72a0100000000035165ab25cfa00000000000066aac5351abab019eda01000000000353636300000000',
+    '6a5363ac65',
+    2,
+    -256132103,
+    '59951330f87a87322d841976c2b319ec892c5b719f56184349ec621be8788fa4'
+  ],
+  [
+    '1d4129e404976a69c60eb9aebc7fee2f8780c25b2e50318923328bfe1c5a6c48d528426ab8030000000153ffffffff3c90468cec2ac304f7b280f0e2ac32cd1722419e198120866e6ad3d3f1c6f25a0100000002006a27e4beeeeb64992a142befa5a673651bd4c0701b3560c555171c25186f253983fbc5b6300200000003006a655fe79a5cfd0e4d1ff8d170d6137b13ba2df9afc00ba943a4aa5b35e404ff19922ec3a88701000000096a516a53ab52ab00acffffffff035bbcbd0300000000036a6500d4adfa010000000003ac006340f03903000000000000000000',
+    '656a52ab53',
+    1,
+    447084901,
+    '298a7a49d6da8339b4cae6e8ef6037fe48c8529697f743261d0b81a9ab36e945'
+  ],
+  [
+    '3468ffb704292bcf48f6e19c42756e6aad4d267afacab219fddbf9bbd5ee5ade787fcb5d4f0000000009526300536352ab516a032f52385f4638edbb94d681b2994be21107377b07b893ec9dfd3bb24f49d51ccd1e1477020000000500525300abffffffffd631fba66163c67933c5275283a15901a4e577ddbd195f8c2545d62b462a241402000000085151655165abab529821168136d0de01317575015cb83b27d87f9080d4980a2e492d08b9e2bdc7134f52a9120100000000a32908b004599e6c0100000000009b97dd040000000008acac5352656353002e893f040000000005516a536352fb041b05000000000965655165ac65ab6351d7caf5ea',
+    '5200acabac52656a',
+    0,
+    -557179571,
+    'adce5921966d32e2c9c959c2b5c039fa976ab8b8aa63be402b0c691cae1cf47d'
+  ],
+  [
+    '71608107046808d8f5cbcb05bf128aaf336a11699eaa4df9f9004f36ab6a4d25da72b830fe0200000003650063f859dca6456f2f89a43bee38dfd8d6345cfeddf53461257368c91252f79b6db4e820048e0000000000ffffffff8f0ca8922e2f98fdfa68e83f23c97b8f7bcdf9a1359de5c12fc033fcf535f4d50200000000c7688a3aded1b520ba248b3e0542dd6cc055a8dbf73c26417a690be9f26fbd819cbb61410200000003ac6a002177ce85037c8c2c03000000000553ac51ab534c7267020000000009abacab65ab00ab515394dab7000000000007006aac6565ac6300000000',
+    '5151656551656a',
+    1,
+    -1642157580,
+    'e5459c3045a78be43d5ebe1edd4934508bc9c38d3f1548d7fe3a5cb24e6729a1'
+  ],
+  [
+    '13c6416d030030c455e8f292110bfd7a28494c61967d9dd0e3cc59e379f9f1b391a2087f2a0200000006526353ac63abffffffffded09cf87c7126240fb02fa1bc51695aca543b320c54a16a2a6fdf4ee0db25ab02000000026a63ffffffff4aa8e72f607609b80b796eba0316acb76bba744227f6368861c08585bcea49c80000000006ac00ac000052b8061d7603697e2f030000000003ac6aab3c6f56040000000008abab6aacab006353c424840100000000036353ab719d4c9b',
+    'ac6353',
+    0,
+    -1837289219,
+    '3bfeeb55ef26656f3fe989773ccc033b67a25d48f31a80ba27afcda0c13dd355'
+  ],
+  [
+    '00872330026769cc664a2ee6873a3ec66c40ab56820f54d5b65694cfc368208bd20812c9e9030000000563005200abffffffffc84bede66d2bb625188524337bd449edfce99f973fc049b541dee7b985b672c00100000001ab0010b93201ac057504000000000000000000',
+    '6363ac',
+    1,
+    -136503833,
+    'bf4aecbd6c9c81b0e358a520ab71c368c99d8940a43d8d2b11b8dd2539ca47eb'
+  ],
+  [
+    '3d90ca32025d713554729df44ff55f3e867e3f6e15008dd4587ee502469602b2a111d1a7480300000009005165535153ac0000c1e3511c577d10cf08b1fc58ec28b66a819da9b8c1824f5d5a2edc48ccbe5f640ffdc6d9020000000263519e2ee67e03e46d5100000000000851536a6552ababace65358000000000004655153514342db030000000001ab00000000',
+    '536a6552515165ab51',
+    1,
+    237589208,
+    '090719766dae5afc6c0043e592f69ae04d373bcb1fddced875a03a2ad73c055e'
+  ],
+  [
+    '303f2a14041d47ed2fe49d8502e493f8a573c2b8119f8754ef16203b0256cfac2e8773a1c7000000000653ab5200acabffffffff0dddd12b3f15e42a7999d5ee76b46555dfd5047808bdb2656711ec107357743700000000095165abac53ac6a6aacf08d1363dfb8dcc64e9f078387795e5469658e6f3aa868911cd4dd8546bf1eecc0fd96a9000000000752ab6a65516352ffffffff9e4cffbd25d7144baa264ee0a9b995b4303d99a61d7e134469b64d027f160fa20300000008526aab53ab006a53ffffffff013e08ab010000000001535a844dc9',
+    '52abac635353',
+    1,
+    1747033941,
+    '096f6a4a99609a40a6b5eac169489d2c12c1be6bccf9c953224a6b81c8097691'
+  ],
+  [
+    '82d943b20437953f9b6d9079ea9e764fd1b203cef98bbb546a51be57a494f48c9ddad936110000000009536a63650063536aac5e9ba77430d281ba2fba6b04b42c84d6dfd4bc9bddf2bb57bbd0ee39eb04cec3f51ac2350000000003ab5352fffffffffadac459938b189d52ce8cb721c04eadf8b230d11df93b366e2dda8d5df427ab000000000653ac6a655353ffffffffca91b8d899153d47a79dd151c725b8485f6f721661c45156f24291cfc41864e70100000009ab6500005153515163ffffffff04e521d8000000000007ac6363636500519aaf52030000000001ab44c4630200000000096a65516553acac516a4e3c7601000000000263ac7975cf12',
+    '6551',
+    3,
+    971690063,
+    '271ab5ec6c0c3958a5694bfcc6d076e1bf291797a93097dcf34771b4d6b74d8f'
+  ],
+  [
+    'd5840da50417eb46180b7a3f9f33cacf06701ca65e74ca49b0221158fdc5a8bee0a4dc8ba2030000000253005b9462d5139ecf34b39bb51adc5e67532db4aaa90df1fb82d91aac518eec524393984a890200000000ffffffffeb288a87e63a54f208f7ae913f9d117161f537dfd0337fd0d0d89b4fcda07acc010000000751516551656a00ffffffffd3666ce80a286ab1feb1eeeaf4a4440ff4028159963857d54c4d182985fa1a980100000008656a536565ab656af8821309034ede39000000000001008edd93020000000005ab63535163d3a1c6040000000006636a0052acac5705ebbb',
+    '5100006353006a6a65',
+    3,
+    -610563223,
+    'cd5369ccdd3ef238d359ad2684838e67fe21e5f1777221a8ad42ca9f36e4dd71'
+  ],
+  [
+    '63f9e52c04dd406efc89a5a83a307df04c07c124c50121f64f49aa35ba5ea2168ebad41649000000000253ab3b9d91c6dc35d7f8871356f14521b07e6e947b6486b062c8939b82f898bfa048d942d9480000000006ab6aac6a5365e83d2f25708788ddc0bf576c46caf87049875fca72dc5b5c2750461433fa8d1f2dda3cfd02000000025353a6bbd5991947774e72e49ac8bb4429a393dec50a041dfc01f1383c90b99b438a5033f4d100000000000e0fab9902362baa00000000000252ac87d59705000000000663ab6352abace9f2f0f0',
+    'ab',
+    1,
+    -1913533225,
+    '5762f941c2cc4dedbf4bc64cbf9b7942954156a28fab771f1dc009098d45b0af'
+  ],
+  [
+    'ea19d3400185cef98ac952121ff4dacf73c802b94de7b66db8929c630c75fe5994dbfd14aa000000000800ac636553ab656affffffff025f270f03000000000002268605000000000765ac6352526a6500000000',
+    '6a6353636a6aacac',
+    0,
+    -1777736877,
+    '015b56ed410ac7a24eb497a31969b6fa5911c7a42273e4f176b9c2d7a6d0ff4f'
+  ],
+  [
+    'ac3ebfda0303c8abbfcf755bec9996f6c3bf8d78f29c9842780484cfa59d614fd7797e1573020000000452ab5265ffffffff00c94640d1d8c4c2dac4d2b2c513c86e82a28ae1f95ba4fb2b6079c640bd7e680100000000d9d5b5dfaba3ac588b2704a01dd74a0fade08c0aa47e6459028267db786bed2d24850b6e03000000050051656aacffffffff03e441dd050000000001656f4578010000000006ab51ac6565537825c100000000000000000000',
+    '65ab53',
+    2,
+    1992078156,
+    'ea974c4ef0ad9ae108fca8768ac3bf22673289fb985e15b19f6f5e00f18f3f8c'
+  ],
+  [
+    '7e5976e90219a6e4ea066a5727c3666fc43efe3bc56e9700c92eb62bd7afb817c7b2fde59c00000000086a63ac6a5200526aa79bd5bed822a59f4651a400ca66743253cfad3b4e42640abc5d74a0d7039f4331da0264010000000453ac5353dfcef3880230eddb02000000000252abf6424e040000000001ab00000000',
+    'acab',
+    1,
+    -1389614906,
+    '6944a55e540af7f042af9f1410a2fa237ea0ffc238a2e4454b677d302cd9d5ee'
+  ],
+  [
+    'b03d938a03a27719b28cd58272a6216b9ce0f733c76e5f9cdc1823894e35b48cba4a5566cf0100000006abab635251acffffffff12a49b666237cdf6ff450866de3c0ef8681263e72daf805a0d18d262ec0a16840300000004ac51ab63ffffffff4ad0a86fab7011658d5c1b4fcc3d0a22f722697aefad38ec2393bf1ab1d00073010000000953abac51ab5253ab65ffffffff02141c91010000000006ac6a51abab009f9c6403000000000852ab53630065005100000000',
+    '636aac006500',
+    1,
+    213055446,
+    'd26b4fa69667b2ebd0dcf074e45b8f9efa7f0b4590eba1b7080d1cf51c5b4822'
+  ],
+  [
+    '1aba890e03255dad6605f4f04a55a92c3dcf47e0a34c9c603bc70eb7e76ef6189c5e46fba8020000000300635399c61f72736e83172df93461c8e538d6aba873b6a9b6e5800b327b0c4455eb730cff0c23000000000565ab52656affffffff9a5c2521edf49bfb855099b88da05841caf11d93c98a39dae9c2bc34810f886200000000065365525265518cb3e233042b63cd01000000000900ac656a656a53acab6d821e0400000000056352abac51d6a08e020000000000137a3e040000000003ac5263879dacf7',
+    '',
+    1,
+    472387961,
+    'bfe491dabd95c4b1b712625003a7c092cab382319de28f07ed26990eedd3c6f4'
+  ],
+  [
+    'f46692b701a8f5af9dc86be0350d7ced732fb41a951bb14d15cd48ec373a61ba114a6c8d71020000000652635251655383f447ec01b41f4a000000000002abac34debfe2',
+    '536a6a6a65',
+    0,
+    -499520554,
+    '6c56d1a07446eb46a29b6ebcebe9fd2825a2656dbaed96d7d55d61c732018a83'
+  ],
+  [
+    '45d6e78c0481a2e51a86c98a077f18d36e1a3416666533eaae513551979b99a5061b7469760000000008abab526a65ab52abffffffff657c4816cd9e7f72b8db9e7416b6fccde38a5e1cd4bf0a81fb8e2c35c07ed9f2030000000365636a4c00f98a7e61dc0027ebe87714c49b1cb7f8be5524634fa06ebf479149419d52b98ebaa9010000000900ac65ac00ac5151abffffffff04681778a12124766788382e7764b74e44278ad8c01d9516810ff3b3e79f1fbd02000000066a00ab525263ffffffff0398df67050000000003006a6ad1fa060500000000065263536a63639cc43c040000000002acab5bea26d5',
+    '006a526552ab',
+    1,
+    -1766128004,
+    '13a371133bb676c4c8ae32949afe6881599c782697ef4dbecc2d2d6693f76fa5'
+  ],
+  [
+    'bc976547025cda958eee7397baffddf4b5aac58cc923a81b6979c99ee10f7fceb7438ea4b001000000050051530052ffffffff870675d9675579289e8254621224d036cb536749dff88dd21dd7098ad7ff3c3a0200000002006a68af206603876a6c02000000000151a81da400000000000753abac5353ac6a63208d020000000008536a6a52655100ac5d45ff8b',
+    'ab00',
+    1,
+    -1925128863,
+    'ac8bd77f8de0b900d511f8e4a489c2982f42bcae7f7145daf8d694f6063d5baa'
+  ],
+  [
+    '126eb544023e4cc2bda49c0ef8acb0702bfd396e8a8392f5cddfe9ce94d47190ce23d90cf103000000016af348f66c8f5cdba8459a0c3f2d621c392b7be6a6a22e4b402a34d89ef0b12e128a669f960200000008ab515151ac5353acffffffff04307fee0500000000086363ac526aab635393c89c020000000006ac5152ac63519a2b3a020000000003656363925d28040000000009ac00abac656553535300000000',
+    '',
+    1,
+    -748153636,
+    'cd90c7d5ce5c6ed15aa43455a7b5f0c69f1c7dae129c680d90e1d50b5163d7e4'
+  ],
+  [
+    'a1bdc1b103b3009dae5844398b1b4c7d78a9cb8e71d8c002ec6a732c8c6ab477153b75ca33020000000700526a520053526ee5e246416ad3b38ad2094632568ebaa51b0387146e616909e0609d202f166c94fa04ee0100000003006500ffffffffa9d57ff682253dc5ee5f7690dbbca43d7d07d28f6ae6a72a05fc0caa5cf6a05100000000056a516aac53b11782890331bd9204000000000853ac63655151ab00fb7357010000000008535263005200656aa47f69010000000009656500535163535363231ea514',
+    '63ab6500ab',
+    2,
+    638821850,
+    'd112e9924908dfeec370bc6fd8ef18758a08501bfb07d80be57bae8e2df06cbb'
+  ],
+  [
+    'aedc6922013b44d658cda59e6e5402d0c4e60c0dca9de4962a1f249ae3ccf0f2802e110e310300000001acffffffff0421f271020000000001ab160a0f0400000000045100520095add1000000000008ab6a525265636a00b86a830200000000056552636a6a00000000',
+    '53656a5251',
+    0,
+    1344539233,
+    '2dfebad20592712ba162bbecda3bc0623821fedc1a049206949200e1c0687d69'
+  ],
+  [
+    '3e0d6d7503c5aa3e12a82223e0c155e694857084adbdc526d207b04df63b331ba63972890f0200000005ab65ab6a52ffffffff3130d0e3f9e0218c852283a1c6fd415c0c3e723cae2d582a47841f2ce9e8f7970300000008ac6a6a005165ababffffffffb6a704e9d4b6bdcd059442f795c245e9ff711f2c8e32ef62e0e400a1f5a0f35b0000000000ffffffff0162615d010000000008000053530063abac00000000',
+    '6365ab63',
+    1,
+    -314288178,
+    'cd0d60f70261309b87280eb0b9f1e36abb57d4ef8d0a897744729ae260ac7ece'
+  ],
+  [
+    '17ecc18a0256a5917348d3152b5a7e8fd879201b7ee859839f7a5ec5681a94b0ad36f7f9fd0100000007acac5263536365f402f8319ab475bb499519233304a019a4191adad8380abf73a32db49fab4e49214e2a4b02000000001326d59c027d49bd030000000007ab6300ac6a6353a4757102000000000000000000',
+    'ab6a515100515200',
+    0,
+    -966571152,
+    'b0683e2161c69fcfb33ff7ce982fb907d705fc3eaad3e993b233518acd1fa581'
+  ],
+  [
+    '205d2fbf01b850ec96ada220ea51e85c0b060b27e3e89a52645c32e15681de93d5b96e57060300000007ab535353ac536aa8b7f1de03d54d2c050000000005ab5153006a9fec350300000000085352ab52000000524e4eef04000000000900536a65ac51655165591e6624',
+    '630051',
+    0,
+    1449481058,
+    '82146aac5e3f3ec6a9f1d08f9a74f7d2a04d0c31782f8674771f2471268e9f01'
+  ],
+  [
+    'c4b628aa042cfdd5214a1295c98dde088816f5d096b8b7a31d4a9e9bacb16e4f0c38e2b58e0200000005acab005300ffffffff1b6e3cad9bf91d868be29c2701afe04b37c7b183f7e886e7bee7764115351187000000000552acac5163ffffffff6eeac42f8cb982eece72649135f2861c76775066d1726d4770421d956a1cf52b00000000026552c3479817a4f70d6e988310126f4265b22374507a47d7a08c313bef70b7633144daa0818b0000000007526a53ab635363312985370183b7b20200000000036a6a5100000000',
+    '63636aab006a',
+    3,
+    1887264852,
+    '4dca7fabc229bef09522b219cce4520f04bf02d070bd53f903dc77fa3cb4eb04'
+  ],
+  [
+    '70f2c34d026dbf9c6ae8ced8cb194b3e9d571cc9a7fd720dea6f7b09d7140ccfd8a4ce38ee03000000095353636352ab526563f66576a0559b421f943795d315b28905b8c3c8c773a10186e348bff48c3d413cc46645300200000006ab0063005353ffffffff0362b0f601000000000500ac0063007fd0470300000000066565536aab005afbea00000000000663ac5153ac51f15aa5e1',
+    '5352',
+    1,
+    -684460418,
+    'a3a782b80c595b2441469f0df262cebc6d5da82e0aad7f1891f349bd429ddbc9'
+  ],
+  [
+    '1e3f776904745063ac5579b280a52196aad56ddefb1c793158734db500dc2aaaf5b2228216020000000300ac53f6c213eb95dd8ca2ba11651a38870b7d0c7f3b0455fbad45876184c798255d51ef7eb3f80000000000ffffffff8a6462fa041746d7b325709896ea1b90a20a3af98c2ff022b935551e26ff86c8020000000400636553ffffffff25eebb7195577c7f5d621f2901f69e12ae886fb892719ec197946089086c12970000000000c0e4ed0b01cca77b05000000000551ab65535100000000',
+    '5351',
+    3,
+    405663304,
+    '78e2b9b916ee2f34c59234d7822061daf021e057ddc70fb31db5601b842f4514'
+  ],
+  [
+    '7fa212b90358a4ef704fd858245b897f0ae8b571c8b9d6f955d0ef8c7af40c173a2a77a08f0300000008ab6a6aab5165520069749fb68acbd925804b5dc8b3f864b91c217b90a9076e0c4db71cf41c10f899f893caf30200000007525251ababac00ffffffff6ab6e135253414b9041f4b1eef3ac2b1e0f94c4b5093b5c74ed2a01981b95e4a010000000152b930538d0137c4e803000000000353520000000000',
+    '6565abab0053536a',
+    2,
+    -1952180622,
+    '9769fce4456bc70211d4c6eca9336e012f9143d43ed663cadd1fbc6c494d8f52'
+  ],
+  [
+    '0f4eb8ed01fc4a4d924b7bb3eec0b7422f0d2fc860a26dee5ad8bcc4a3f00c194c60c68a9a01000000046551636affffffff0298216004000000000763656aac65656a172127030000000005515352656300000000',
+    '6a5265',
+    0,
+    -1417614251,
+    'e9fd9c90382490911711a8676815a50e252821daf1c8f987c2fdc3e1ef7b476b'
+  ],
+  [
+    '72bb9b7f045bde36600fa576c47f4096d96d1d17043a3c29674657b91a897c760a55d075c40300000001acffffffffad4cd5a76167f0e51b7f8fb4e4ffed99719855ad7bd2888fcf612b687862f30801000000056352abab6affffffff2b47c4640cd9e18119144b4729484d42e7aa796a4c2b421d7103d741b56ffd5a020000000453526500e9ca359a1744aa9758996d68cad5e815862dfd3cf6d643de1fbae603af4fe735ff4cd7820000000008ac5351536a510063ffffffff041adad20100000000090053ab6553ab526a518538c0050000000005630051ac514016db0100000000046a656553654c4a03000000000000000000',
+    '5252ab',
+    0,
+    1897369539,
+    '62eb1b2cd2e92ba6a05315f9f7d23fb9a4aa0427f87f7b6e3ca862d4c55bbf18'
+  ],
+  [
+    '365b016e01b12d5f5412bc50c741184fd507b330960129545ba377e0a389b2f7b44c8df4360100000003ac6352d4c238d302ea73fc04000000000965655253006365536a5281e6030000000009526a6a516a63ac636556b14cf0',
+    '52ab5300ac',
+    0,
+    1756041327,
+    'd6e7256a7e3c6b7ac27907ea7515f1495bb35de20e386c7811d5b03ca77a0882'
+  ],
+  [
+    '315c6540041a6fc276c73f94320e1cdc72ae7d54bcb917e4bf28abc3fe57bb5bb39ceabea00200000006acac526365ac6be7e2dc48f34a7147d644e8a0e889934abfecd52af844e956b297a998755ef8b693adda0200000005acac655253ffffffffbeb54cec55f1451d4a7f8e358c1e81072aff445964d28f64af34f0a09c204d4f01000000016affffffff671778fe53dbe1e1dd72ee78f5f0075fb3853e090bb52dd5c9f31299794f1d360000000005ab00ab6a53ffffffff0240edee0200000000015357ea23030000000008ab5253ab6a5352ac465fc222',
+    '00516a6353',
+    3,
+    1550454496,
+    '3670953ae28f67e0abe03893be715ba2d734cb81198a3d3f61d4f5581447ad31'
+  ],
+  [
+    '4bee3fad02f98aec4d50dafe1142f157ccc9cc7ba76d791df4d5be33c7b06978f0d7645261030000000163ffffffff82b9a0eba0b0878e8cf8acbcdecb48a0ca5f1a1282cfa7d963a3f93222d41e050300000006ab6500ababacffffffff046a56f0050000000006636a63000065c08f630200000000025163c349180100000000066a52516a0063b275f6040000000006ac005151515100000000',
+    '516551516a51ac65',
+    1,
+    1533747403,
+    '1e541c496cb037c66d6bec8b60c7ecacc927b5f515fdcc75079b2f7175e69938'
+  ],
+  [
+    'a3b8e01a04f62b919e5bd6c94ab82c8e0c409c9e6811e216528d90d7018e507eea4a0f80170100000006635152ac5165ffffffff104996729d1e679e06c7b224b0686e7f3e1e96eb72ff18279033be083ec31bbb0100000001630bda2dbb00594191e8d78b59100850c826bf1eabfea19e11f605b6e2bea92c6c393ce84401000000056a635100517e6905e2dd6e98312eeeca980330fbbca8473db888783c1943f35e7066bf607b09f0321a030000000100ffffffff034d8f350200000000095252006363acab51ac27b96c030000000003ab515105d8c405000000000552006351ac00000000',
+    '6a',
+    3,
+    -142253211,
+    'e0f25adbadf00a2207b951155b22b709f9a0f26c6bba62d317be14482367c598'
+  ],
+  [
+    'b0f6a31a036e896623f0afc839b16b1d6de9e6b12876961dd2fb47a7aa9e156ca1a393ba2f010000000151ffffffffa03d55e34ccfeb66e8c273f4bfd01b6fb1c55732a17c4c124e16bdef1e79e6d502000000046552acacc72d8574fe64565f8c710c87726508c8c110c718fbdb815964a1e5a63de67a40d22184c30300000000ea9ae76d02c7f4d70100000000045263ab63b5b77901000000000665ac51abab5200000000',
+    '6aac00000065ab',
+    1,
+    1292068694,
+    'd275ef9597a0aa0ea2d9117016c9d1d154b00dc1d6709696afe8eab8dbeb6304'
+  ],
+  [
+    '9384bad40214ab1a4870fab4b33e307389dbdeafe5d03ab7a485ce8204c75fb73b1e71c2f40200000003ab0063c2e0a3c3d1399908079525fb6af8ba51782a4a8ba6a4f7164065c0e6ed0a00c168c1c35c0000000005ac52abac53dc17fc37039abfda0400000000056aac000000c8c0a10100000000075263ac65ab65acf4fcbd0100000000040000656300000000',
+    'abab',
+    0,
+    -1763928874,
+    '5ba4a75acb1d892809319a0509be3ffdb594380477b12e8e67c43ab8203bcc24'
+  ],
+  [
+    '24f7042b040b49bafabe7bf286e15e7280fb587f320d9f70d665d72eed283d2d9bbe512567010000000151ffffffffb79a2cc3d863a552ebb329966a862072b23b9e22821867df1c0b3b2deaa235280000000007ab00656565abab483b5ab52b5ebb44eded8d0d0002d4f01a9c48ce9c5ab2a65dfa29cb55dc38189ef3fa4c0000000003ab53652155835373952d7e7f62506ef389b8bc0115b6f00995fe6f9837284f55fc4bb9d9e15e000300000004ab636551ffffffff029b2d4d010000000000180ec00200000000036a53ab00000000',
+    'ac00536aac52ab5253',
+    2,
+    1784168817,
+    '6d1b4938b38d7b1a4e07b9af2f19f9c0ef971cd8ef456c247ff278ea580ea598'
+  ],
+  [
+    'd789c1180466be0f01474b8bbe03b0490aabd5cc478c582d01239eba1fa1a367d6a74459050000000008ab536a52acab00ac4e5d1579d7ef43850ae48686a77ac5ef87229b0a9c677cc7af56e4e9b387fb617b040686000000000029c75b675f60e8e0342e8850ed6e6c778f6779af94c22f87b54ef1055f1ce02af9146525020000000652ac6a63ac510912a4b564bb45ea923b01894fa9701e5720a90ddc33a14d3e1f740ea795f86ce9cf65d30000000000ffffffff027eb0d201000000000653ac51006563edd5b205000000000151b49c4593',
+    '',
+    0,
+    -132062515,
+    'b71cbc3b47fae4f54137a50a699c94ad0b85f222770019f13cff383cd7251a82'
+  ],
+  [
+    'da03dd5303b7e5f4df596ee61f4b5d1155373d20572a6c2b17ee3bb8244edcd916e5594524030000000300526329ffb8db561536e2a7d9bc431d45e7f2f10c0d3696f840c612ef635a1a7ba3ca29d48b450100000007006a516a63ac6a399bd11b147e3baaf78dc685aef949e650618305ef83690c635d891990bab607aab752e80000000006636365ab6352ffffffff01c5b402000000000000838a3e3a',
+    '525300006a',
+    1,
+    -1298920583,
+    '7092de3956d913537eb92c4c3b7d9a9269c09e0a1e3b8609eb0c71b805139498'
+  ],
+  [
+    'c4a1a47403f5d11ae5880bb5f8941fc1a62f583120d4756e3b4ca3e6fab370d1f0da76fc1401000000046aacab52ffffffffb72c938d0f6bbed792707e4ea085aac40d2068e6444e9950f54b261e054caca9000000000552acab636affffffff4ad30374372d99e12cb2099a251793ee3f621cf72bcb97eb411b3dcacf3c8d420000000002ac6a43022673044fb21b020000000007ac006352ab65acb567e0000000000009636552ab5251635153adf85202000000000153aeb056050000000003ab655300000000',
+    '6aab00',
+    2,
+    -307813384,
+    'e9f5726f1f5b284006843e74667846af38d5d393e1b4ebaf087232adbcfde884'
+  ],
+  [
+    '6d49df1e03d70a9d0c531d1e4488d51a2be1b940c72fbf46936205b386afcc5e7d41f88e48030000000865655165acab0065ffffffff5690aff289a0355193368c32ac513d8ac522a996e0529279cc4297a08235f59a0100000003ac65abffffffff0bd57ccd8d99f5a9f5cf84421fba7a1e20706245f76d4b103e7cedf4e7fe0c04010000000153a33aa98b03e263b6050000000006ab6a5151525368a4f505000000000751ac51636a6a651446c001000000000251ac240b30bf',
+    '',
+    0,
+    1241535427,
+    'bc8a2efd796d081c4568dfca91d817677cf4882b1cd5bb0800980eff4101e706'
+  ],
+  [
+    'a6ccf85f04aa4117f0813b214ec511698d3d01ffea7c0aff480dbed3bd7e1cf1d4a184de850200000004006353ac2c49dba62a5b26814f5ec8c2f59a76ceccc274d02c83b3db446469908025b50b46306d050100000009ab6a6a536a51516553a1e01f53b90a46f4703a8047ba3839380d45e36f6cc3357100b9d6b99850e95752540dbb0300000009ab00005151656aababffffffff4012092680a77b9e31b78eda58f8155105331e02a04908812f0b9f1cf585699c01000000065152abac65ab8d24a862015936c60000000000056a6a52516300000000',
+    '5352ac65',
+    0,
+    1426666310,
+    '9fc01cbaeb367c84f306db36e2bf29a05b5773bc139dcfd2ef9dc4454eac5172'
+  ],
+  [
+    '85ede8ea014b2aa1e839e259010dd84be915cd075a2f84ca086d4417b20fff0286d9a0e08a0000000006ab006aacac521c729dcd01caebd304000000000663ac53006a5100000000',
+    '51ab',
+    0,
+    -473546416,
+    '91acb50ca04888c1c5408fb2aad310d2558573e1e0e9e843e7a64edcf1a5a0f0'
+  ],
+  [
+    '374ad16904915bb9e536c1a0b8215f5c825c8b28eae490b659120256dec4913d52d5cc1c1b01000000076a6aac6a63ababffffffff5126f87a97f814ef389c0058609e285148c9e4f4fe444013c19304bced6979330200000000ffffffffc91d1d2048590284454d0ffd7dc8b622d26c705d593a2d8eaa5ca4826e615b5f0100000007ab00ab5100ac638f807f11ccab7cfd3b0c291ba08a38479c9d6abbc96e688d7761344bcae8c8269db03cf80100000000ffffffff0358681c05000000000963acabab63abab656509d4c40500000000025152670fa20400000000045352535100000000',
+    'ab6a63536a',
+    3,
+    736517463,
+    '1cab32b4276f5b4de44d5dfe57babf9303e11604015f0e0338bc677af1985482'
+  ],
+  [
+    '2d898f78044b3e9346fac149ba7026fa43fb4f87593d28fc32204be7968cbbc2c7704e749002000000096a53ac6500ac515363fffffffff037a8c57e6bb40ca052f9315d6b93f7df16e083e6468f51d06b298b7652152a00000000025165ffffffff8700a1a3362d775bcb964713468acfba3d9d29fb3c9186fea9f4dcc25e5cfa180300000002005240124f1f1f0a5d825469570bfda784a180e8cc56a1a9a02727e9f526250c31b475c63e3a020000000665536551656affffffff03185de7030000000008630052ab52ab6553fa824b05000000000061bc700000000000056351ab6a0000000000',
+    'ac536365ac',
+    3,
+    848364529,
+    '897bc09a6e29b5ea4b42e2959bc1df15a7b09f52fcb42105c3ad18c4b3d1eb80'
+  ],
+  [
+    'c1fd30a30311af0d628dd3aec050332a14b779ee5c83e76b3eb640d10abe4355c3a5f45b110000000004ab005152ffffffff77b0f905399c95ff7b497192640c649873aebc09783920563df05419888537200200000007635251ac5252acffffffff7803e30c8b9382cb71b701a9138d47c7faa6925a6e6d6a7db293f27b65bc12ed010000000163ffffffff0488c50105000000000651ac5251636a06954103000000000553ab006a53707ba005000000000165c5935a00000000000253ac085ac0fa',
+    '',
+    2,
+    302042195,
+    '1bc90ef557a45f9c77756b4d5c44221bdb3b50629a3aa909393273bca7c7cb52'
+  ],
+  [
+    'ec1d78f202276029e2cee46b7781e62784b6961a81ad67401f2fbe3b264a3f1c74d41390a10100000004516a52acffffffff9ebfffcb9b2accf2045bce667fcdc55f837f3399f875d5b6f854d427cd7a039d0100000007ab5163526a51531ce104b2033cf7d802000000000251650d489f04000000000700520052526a515442de020000000001ac00000000',
+    '6552',
+    1,
+    -1622174594,
+    '4e80b8013e418b36a8e0fba73b53726d2307703f2c6cdcc533c2b28c4479fa3c'
+  ],
+  [
+    '5c7710dc01f2be3d3b6551a4b98362086cfb4e01e67c417183c696217b4cfd9816dbea9ad103000000086aabab65636a6a6affffffff03aee7be03000000000078bf6100000000000551536a6565f546430000000000045352515316abffa1',
+    '53006a',
+    0,
+    1383914842,
+    '6ad64fb8d5ff57901852c380b23b172df88ed9e6a41112733e1a5593ddf7def7'
+  ],
+  [
+    '413b24e10150b52d3f59c044b267f4768c53f6082b989a5b0684dcf8fa1f13bf612319879900000000035163515bf32e8302cd81d00400000000000254860400000000045151ab63aa209171',
+    '00ab',
+    0,
+    -4689462,
+    '14ad7a1f09befd820e8697f94329d6ddd5dd9024999915e535d91db96df2a5cf'
+  ],
+  [
+    '3006d94c044d7eaf7f88b0e6527bb4758a6c1261b7473c1abd348ab51b976132c44d8f4a920000000004ab6a6a533fd14394d9d82c921a5244222621651e9c904f730c559bed0fcb927a66c2d14489df7fdc0300000006ac006352ab00ffffffffc6c67b3244d9e6dba03dd43f82056a2c0fc1b4f00a1cf0152ce517bf41f920ac00000000086351536aabab656affffffffa42b224fda5160fea169405c7a3a2105f5acc5cc04274b1b4e204c02f805262002000000065253ab6a65abffffffff0247ddbb03000000000763ab5152ac52008ab934030000000009ac6352636365ac635200000000',
+    '6500ac63ab5300ab',
+    2,
+    -1956570158,
+    '8ec92d3c1d987d1d6c09e4c00306070c57e534c822b8d0deb787159a3dd0d64a'
+  ],
+  [
+    '11d7780a049f8a04e5b333956dabc29f943e95e4e332593a7ddd0a469aa57f49d5f7e6b562020000000565acac6aabffffffff8d08dd2e8c8d70e8837eaa7bd346a50b172e0744d3bbc8097e0e0af77eaf27bd0200000004ab6a5153fffffffff78524c39f2ef725ea41cdd438df8e118457fec13a615aa6140f7cd9b44db01901000000076351516a536a53ffffffff1860f60d7fd8841071c9260d29443bf4fc0b37a0873ae719fbf63150bc38f090000000000900000065526a630053ffffffff02d8007a040000000003ab53635544ee0100000000095363abab5365ac536300000000',
+    'ab5263',
+    0,
+    2113876971,
+    '9395cf230521d903c98d4b4cda0de92f941bb77d0e127b1a4fdd627382d79fab'
+  ],
+  [
+    '4f19c5e0043d1d018a298eeecb20e0fc5aec769362cab0fa11d602b58090bfbbbe81a6a2d70200000005516300516564145c3db42c676adacdf081de4e16f4c16c42eabc18e80f414e4cd2229db84bf7a7152401000000096551ab51536a6a5253ffffffff02c71305c8a38a0941a7a8fbc747e74f4ac79e7b58fcd8bd7f94bed3441e296e0100000005516a526aac048f6b4f02f3c549027fe6793b52072aae7f8fa2e62c02b68363891fda4174735a7df0a50300000009655351abab5365ac51ffffffff02638130050000000001ab9cda1504000000000000000000',
+    '516a52',
+    0,
+    863756878,
+    '427cb2013dd45dfc6fca6eb2d0e2961cd0e894cd66d7a35cffe005ba8fa6526b'
+  ],
+  [
+    'c14e9b1c025d1d68d58e7aaf6c1ec39ed4c3518014f959db6a57b4902e60b1da7c3a8978830200000005ab63526a6a417768ba5d4e416e3d4736d0b99ef932473127899b31110c69c2c3e3ec045cdebeab439503000000025100edc373f10208d3a502000000000563ac635253b3dd9e030000000001ab00000000',
+    '52526353ac',
+    1,
+    -2061206669,
+    'b728e63f635b4edaa116a8b2e67e8a8c9b30b16e02e8544f163797f1394a0c6c'
+  ],
+  [
+    'fd7c80ed01c8832320166d47a40d5f73882c38e73fda1fc0c910c8de6da184ac3833bea909030000000453abab53936fb03403a1042205000000000963ac51515151510052774e850200000000095152ac006aab525100aec517010000000003ab5200638e0f83',
+    '6551ab6a5353',
+    0,
+    1781978731,
+    'f85017c90b4f47615fc488eafb6c2a4fe23e0f6a5b7f2c133b894bf3254fe621'
+  ],
+  [
+    'a64de65e033e5ca06c5265d2740e15a14fcea1d47f37fb1ac8c0bc968b049e586607713ef602000000085153ac655363ab63ffffffffeb78540859727fb8d7d239715d704e47f07d2c6ffd8d9e06e0ef706f646f32d70300000001acffffffffeaa5fe9b64ec2db8fd43c97c47efc8168d3ce25ecd951a20c3ab8a7a7a909f870000000008abab63ac53530052ffffffff04a9639705000000000353ab63a3535d010000000003ab52ac18aa340100000000086a636a65535152ac9a5361000000000008535365ab655253ab70aaaee0',
+    '656552',
+    2,
+    -142812169,
+    '2e64c22acf145ef186e1a1f01cdb441e126c80d3186a9ce5425da7c23c73bb48'
+  ],
+  [
+    '81d055b403d0efd626abecd436f529ffd4b4e91bccbc809bc5aacff1446d10ec4bda5bfb8a0100000008ac5365ab65656aabffffffffdd017e72185919b5195b9be2cb0d3a306f365525420bcc885e9f52b5d16bf7160100000006ac52636a52ac772727ce53e0073dab5aed4a4d8512191196fc039f214fd6f84e4d7c9cf0ac21456e8c31030000000852acabab65536300ffffffff035510b2020000000000309f160400000000075152530053525392f1b803000000000852ab0053636300ac00000000',
+    '656552ab51',
+    2,
+    28401615,
+    '7b5dd17799c5c1c586b6dd641ca12652fd358fac997d83267294fd94dfc7f912'
+  ],
+  [
+    '034d05c302013b2b671eb7146a546d70e5442f98f773d000eb0b880a74877d1264ad87dea4010000000453acac528f0a9a676f712e5b251da51ca7967cd73c2008a874456be3be2318b73366226b27b98aeb0000000000ffffffff0314bdd3040000000001536c5ba203000000000951ab635363526551534f8c2c0400000000026a6500000000',
+    '6553655100636a',
+    0,
+    -119278094,
+    '642e458ed722ae400a4c0638b9bb6b2daadd8a897d57be6200bda1a88ffdd0b5'
+  ],
+  [
+    'd4e0c999035a81f8faaddc9e4c1c40bd4483c12d70c5855ef85115e9df8779189a1f20040b020000000652ac63ab5351ffffffff7389b4dc8382ffbd090c84c819a3ac78ba13e4e06e14038f1fc987d6305bd5bd000000000351ab53ffffffffc569ea340c029dadd9d51a32016941b39c41c66af99883deb25a7f2f0f6cb1120300000003abababffffffff02c8d6ce03000000000752ac635253656af441e503000000000463655265fce25580',
+    '536365ab51635165',
+    1,
+    -301040188,
+    'eba2d9f2218fe86d3fbc34b7c4354b86d0c25f0c06731c4487c9782c20cca10d'
+  ],
+  [
+    '8170f7a70398e6f89d7a43efdbe602bc3f5e3ae6a884e4204f9f97e101b41667ab54d810350300000007526352656552ac9f3471fdbe082cae146d2a853586e5e3c05527b4786920075a734db6d81587d43f5bf57e0100000008ac6300ac6a516aacffffffff4f3d3b2229a61aea91df87c8788dd0db6d075d0e9ff00cef7b7c53ed262f7b900100000007636aabab006565ffffffff0299281801000000000665535100ab001af20c02000000000400536aabe03e9a3a',
+    '0053535353',
+    1,
+    -2051559963,
+    '376d883f7e34da596a769e6b8c7b3535db6c879e2fb7e83c4f69a9f648461d25'
+  ],
+  [
+    'b17fd621028b83d930bea6fcbdcc821b1dbb84b7e3ec5b50c1d29f5b79fc16b8f63ad7e5980100000008636353635265ac528aa129464f59c85a9352eb819f3f0475175d85535a07af610eebc78746b1742364c65bec02000000026365b02c6a84046b89d000000000000063d230040000000002abab83cc40000000000007006363abac6a63ec60340100000000016a35bbe7c6',
+    '5263526a',
+    0,
+    1866394361,
+    '1f38d8e2c48ce1e288cabdacb9f72c124bd5ce7fb68364b5fe536ef51a54a1b9'
+  ],
+  [
+    '57b14f6804556e7bec2d19fa230e5a03fac3e58950909d89f6d1a8f7ae24dc9bd48233d3c20100000002ac00a446edb9237996cc746e493bbbfdae4cfbf05f051900daa1b9d8f5a5578320321d677b150200000007535365ac536552ffffffff1e684f4e2fd3312bcbbb801db44755629d1c1dc0445fff74cb9e99c09d5866ef0100000009acac65006a535365000052195fd38894a087ed0676b5da99133f1c5fbb68b96979af31119bd4b7603f28e702c20300000000cb20e621026b1064010000000007ac63ac52536365d78c8f030000000005ab63006500f656519a',
+    '65acab65',
+    1,
+    140087288,
+    '8665e5e603d679c4d74131e37a2d677d13632a2973978978931696c6889b3187'
+  ],
+  [
+    'b859174903d72b8ceeb657ddbcaecb2887dba1fde40b7d4d1cea65ef2ddcea790d4dde05940300000008655163ac6a635100ffffffff0f090bc58d14314c8b3b5197a3c479f9ba5ffdacf49ddabec9abbdd1f0f974a3020000000951516a63006aab53acffffffffa4520cb69fe8449816700da1c1f0e584b70bcb588fc6521d0fae68caf75ae91d0000000006636a6a53ab53633175f7032ed77302000000000853ab6a656352536a2eae8c03000000000563ab6363658a31e8050000000005515352525100000000',
+    '52ab53ac53ab655100',
+    0,
+    -1162810883,
+    '2629bff26f0bd38f2601a38a49405fdaff0eb1484b25cde3d23c1605e06044b0'
+  ],
+  [
+    '3ed04aaf01572ffb8a49ffb168dd5bc1aee7539c4021499ca72c80a8f9a6a4ad8ae9647d290300000008656351ab00630063ffffffff03f40114030000000003516300234ba5040000000001abfd749604000000000089c51483',
+    'ac51',
+    0,
+    1800071672,
+    '18bddf866773d08703d58de001c7c7fa68bed8efd76f529d173ed6a6cd68bbb7'
+  ],
+  [
+    '9b47e443035f5d36be51ac41627fe8667c35de62e8c596e3cce94695fc3ea0f2fabde23085010000000351006540db32318bb57d26a784651564d7e8d279afc9f5d597121342a765677c86c129db490ad000000000076353ac6a53006a7d47c5f3555df9da56bf4cf9e6acbd3c8d7948d49b0918ae80b1e2cc522c98dc72ce19990200000005acac526552a0944799014a14b9010000000005515252ac5300000000',
+    'ac',
+    1,
+    497314034,
+    '076737e38d4806215df63e733c095d8e5e6969de462ed815f5348e4e060a0738'
+  ],
+  [
+    '2c8a166f0156d4cd4cfb9ac971256ceecb4d3e61ed89a2613426a4fe5d125a42cf8a49e3bb030000000465536aabffffffff01378df7010000000007635252516a0000b6b34174',
+    'abab6553',
+    0,
+    -422960684,
+    '98b161268c2c59f3ceb31087d5dfc16aceab0eff7f2a9351e452c58d6542cda0'
+  ],
+  [
+    'e0bba42504d7accd5491b979a2b66a7cad7ab80c3f923ceeddaa2fe3d3d021169c592e8a0401000000045153abab46900b4071d3cb63570b7a90b8c3b1b29a0c2e589eb04f15339d63ca2329e0d7d10e6af9030000000751636aac516365ffffffff5f85e2198ca30bd42fbbe548a1e8bbbd49b331fbc5eeb96d1ccd5f55579f620c0100000009abab00536a6551ab6a2ddea1091ca84500d8adb140f186c81c7e6afb65f0bc8d2425a3dbcf0cf47a723764656f020000000453acab65ffffffff0258352000000000000963000052ab52ac5253b0c313040000000007526352006aab63d454a783',
+    '63ab5365abac',
+    3,
+    -708359469,
+    'b9e752b6e681fea9567801ea99febeb26e5d1f441205ee77d081035f3d1f596c'
+  ],
+  [
+    'c2bf7dc60243003f267cd8c217594deeab45d3113c9bc80f38d99614f255b4c1a7d7af92aa0000000005ac00636365ffffffff0577a69924e56778ac8c561d4b28601bcd395ad40712935022f3530f95a675d90100000002ac65ffffffff03437f810100000000046563655228a3f40100000000096a5152ab00635252ac90fcd4020000000000a1fb803b',
+    '6553ac53',
+    1,
+    -198268937,
+    'bd75bf2d63f54eb46bf73e2678382cf9e9af7cedaa85cb21b7efe793ff384151'
+  ],
+  [
+    '8429cf9a04bb38a26c50f993c2e2ab4ccd7310579e75e900dc6730fb33a0ce2a11c282baf10300000003656551ffffffffd613d25a2f28590569912691413cb688edec019103f1da3de9a58301f360ee5f0200000005ab6563abac9a95fd585496c1df65b7b21f8b875a2bf7a0f8a5133050e4a21336a07dfeeff9b8a2b2ea0000000000ffffffff42d94fb62a002ec9e97e2fca1fe968e2fdb58dd96e3248d14ff8842539661b2f0000000008ac5251ac5200ac63fee36a0901e46dbe0400000000046563ab5238356541',
+    '5252',
+    2,
+    -512077079,
+    '11445d7ff960b6065c536c9f1f50c7a0c03b8cf028681528e035eba015051cfe'
+  ],
+  [
+    'c980fa2804c01407feb4b39b9f5012373e157e7fe34be3f4002fd39a0b54f6989bf6bec97e0300000001535e162132bd388669e0c63b50255095f65a922c4a305a5fc39d4d9a31862859c8107694090000000000bc9a76a285152166c4ac89683f4684e86df293701f732d05ad9916a117ef88ba9eff0ccb010000000086ccb827ad89d552a049c44807a003a5d1bc8d30b165793f7ff7d7d7d2a7f8f25e5c031c0100000008526551515253656aa07f233a0122a8af0000000000086563535263abac52f31f890c',
+    '0051ab63535351',
+    3,
+    1442549578,
+    '0dbd5b777beb864c5cb911ca72dbd6f0b23b51af20147c22593855f443a44bc3'
+  ],
+  [
+    '1f7df56903c817b47204fac0797364391224260c2f6b83d742a684e33515fa8ab8f56e811e0200000007006353006a63ac13df6a64e1a9057ffc480f0345352e3af9c2995c52082dc33a907e6e69c4f4617a48546c0000000006abab52ab6363ffffffff13c8fb14e124cd02312f07df835fd36bced7059a270579ae05fb36d0a642b6880200000006000053516300ffffffff03848393050000000006ac5265abab53157aad02000000000900ac536553ab6a530043feca0300000000095253636a526aacab6a00000000',
+    '00ac65006353ab5100',
+    0,
+    906188643,
+    'fe3c2d93eea065e6545ce93c8b665794b9a6defd68fb22cb3f2debc989676700'
+  ],
+  [
+    'd843a6810226c15b6100363a1b0d58bb52744626d2519486d4adb2ef8ca09abfdf41d209cb000000000465ab51abffffffffd1490240167b3eeb688b5450b8a8be7d158f55ce0873f2922329712837a53b610000000001ab0ff528f201c1e891040000000008abab00ab636500ac660f6329',
+    '6563',
+    0,
+    -1578678315,
+    'ef033a099d9902a24a21c1d6518e476573218f730a9a754cd40dcbeaba12df45'
+  ],
+  [
+    'f561fed701c66bd07da229e3684cd29d22a368ae91a150a884a2a971468e9c79c3082c0abe0000000007ac00515352ab65ffffffff013fdb54050000000009635352006a00ab65ac3d229d62',
+    '630053ac006aacac6a',
+    0,
+    -1899601802,
+    '39baec1eb6a08078364e65c3277a012cacb7a4630cf5129bac7a5ec4ff86986e'
+  ],
+  [
+    '200e562d02e6491276c71f0b4313d923c07c758a7c3b19524892ea0ad932cd50172c0a00a50000000007006365535300635e8197e3cd216a3b71a7a7b8c6accbceec3720672bd22ddfb18da29ecdf20f4d1fae716b0000000000ffffffff02620f0101000000000965ac655200635151ac762339030000000003536a6a00000000',
+    '536a53516a51',
+    0,
+    1080771658,
+    '13a04e189b22c86ba347a0fbbe85f09fd351074b009abcf851e38616848bb882'
+  ],
+  [
+    'e5872c7d01b7c2d9831c04385b1990e2101d45068645f9a901c417258486613ce6dc5eac20030000000751005165ab6a65ffffffff01bff73605000000000763526aab51ac5200000000',
+    '6a6351ac65ac5352',
+    0,
+    2020328318,
+    'a6df26497b9f488c6b0b5123347df4945ee78eb9d1cef6c91ba9e30329798c4b'
+  ],
+  [
+    'f4d26c800377ac1979c8b731af475b96b2263f11c75a09bc17055524684cc475979d871f6b010000000453536a510cd72f004cf7924cd5d0c616fbb5355d73f4732377f4f3a862d3652acf8b47665c54333f0000000001acd6f160d688f3455826a8725d1f17c123d46afe05879470d8c53a3b2f67847727c6be2ee40300000000a4531aa403c8fe43010000000004525251634f5b2c0500000000056552630063dea98b0100000000036352522acdd97c',
+    '65ab52',
+    0,
+    1597648123,
+    'c919b6478eda9a4fa099eea0cf4dc7f4209b53f268a11c79d3ccb183b0545d3d'
+  ],
+  [
+    'b74c308b0383b6f04f7aa4d019ed6ec3f868b6690ca988a93b6a9767130b72973c3b35e12b02000000008a20a195cd34340a56ffe9819004595cbd1290f375eb480ad53464d955911134e0da1d780100000006abac52ab63acffffffff628bfa9df7ce8113cd67d231b36afe06facff1a0360410bd5fc7b7c8983f9fa20300000002abac33b8901002358e2d0100000000030053ac9bc1ef01000000000000000000',
+    '',
+    0,
+    1085631610,
+    'f35624b305ccc55f97de8264c3811ae3cac7aff42a55a39661b5d22639654374'
+  ],
+  [
+    'd33c21e004ee81add749fda6a4a724e79f0dd2032025274e1baf3cdee272993295e89b01dd03000000016329f015cca8b668b101c07c868c600005658a44dafa2507fbf8478f65d6d833b1f0c5cbe30300000004ab6aab6afffffffff8ef1de4f7426c62544d8b01e584e257dccb781c5eac39aab881981be4cf491e030000000800acacab5251acabffffffffaa942df89fb397bcf581f0a677306de2a11db64f4a799f79f5ce28ea1231061d0200000006526a5251ac65ffffffff044eb8b501000000000151518035010000000008510063536500ab5143bc0c030000000004525253513bdbff030000000003ab6a5300000000',
+    '6aab525365',
+    2,
+    -1553918251,
+    'b7ff235b26c09d280ca1469182573efddf0972a21ce203853d552b70d270f023'
+  ],
+  [
+    'c754697b02cfb435d4d7e28d212eb2b68daffeda0b87acbefbbdf7dc5b1738b224f0676d85000000000952656aababacacac6a82d4a79e1b1ceab0de60ce23d17f2cf236641c8629fddcae771530f540937f4ed2b0ce990300000001ab468fc1ab0214219f0100000000009ba0770400000000016a661baf44',
+    'ac526a',
+    1,
+    -233982256,
+    '62409852a7e8c3dc5444505dda690df84bfa9a48436799b0b34c2e1a26bb4ed1'
+  ],
+  [
+    '5115c3cc02d1a72c91568bd575f2e5546e2a53fb22ad078b8cc3157da04102db0bc880684d0300000006536353525300b38101616f4d7c4505000a1001de2e3336c04f9adcf5a99d68e9e8790af139246ba6fc7d030000000863526353ab526aabffffffff02c0daef0200000000080051530051535363f3b424020000000009005351ac6a52636a6ac5645b7d',
+    '6552ababac635300ab',
+    0,
+    2141409140,
+    '11a02ec28f3e5c084bdf5681c0f10271470c060030760454427cc9b8ddfb5395'
+  ],
+  [
+    'fc40e11803129d656cbd459495246048f3a4fde20f772949806ec35e6b3cecb28351481120000000000851656a0053636352fffffffffd4863fe1021cbdf9799d733931bab05eafcd6a607bb1c08f0ddfb294d27d2a70000000008ab5265ac536a5263a050c88edebe63570ac5ecec9e3d38083739f10e227f417ffd92d07184a6fbc2c13cb4c3000000000151ffffffff0177713f050000000001ab8db5f904',
+    'ab0052',
+    1,
+    1962536284,
+    'd6ddb67e4a1d1ca7be6510e75117134a8961e0af57cff2891f95207ef3411f54'
+  ],
+  [
+    '9eae60bf02458e731dc4d58f24547d01bdb3436be3546cfda7cf24da3110ae798217b3361601000000025363acd6b7671f7485545d00612343a039d9df6f3e0ed4a22cf3bf785fc6e355d0064fbe91d70100000007ac525165acab65ffffffff01408edf040000000009516a63ab5251005165bb0fecaf',
+    '650052acab5265',
+    1,
+    -1744030777,
+    '075a9a59afaa21d39c0abd4d6b0c63cf79101ba8df5949cad6dd22065ccbdbe9'
+  ],
+  [
+    'e255018d012c72c74e3c4400e6698123e3c154c911459bb326573dbf7eb7fb2f1655c248900100000007536553ac515152eb540d5902d25d63010000000007656a6300006551a1bd6903000000000852ab5365006aab6a00000000',
+    '52acab5263006a00',
+    0,
+    1779434869,
+    'd686cdbe4893a5a8bcf79576fda7adf7b29f0d5049ddc86cde0a7d3e2a50bb3c'
+  ],
+  [
+    '696b6576046becbec03c913e63e22af522ab539d3e20f44560288df1f8bac64d10c69f6dc700000000056aab65536a9f581cd1fa803a6324ce9e66caade46d80638ad5615757ee2d6cbc18c3d4672308b550ba000000000863000052635300001a8ea1cbb85109b9275b7d3938cc3bfa6fa6f40b8ccea710d827903b47a7be929370901e01000000086500525151636aac0fbcb94faaa34d7983750a712ed9abb5fe7324d3f2895391b0a47ce9e5527c91998fccd40200000000ffffffff03d3257a040000000004516a5165806e84030000000001ab876f3e0500000000040065630000000000',
+    '00ac656a',
+    2,
+    -407923771,
+    '443786dd8f65fe3b133fff64050b8d32e3c3a151494251b4409829a924fdc601'
+  ],
+  [
+    '5c381732042a77b03199c71016ba2208980423ecef84a868ebab2fad6bd6d3996610096cc003000000016a6f6428e8bc464e0b0141d7dab7a13eee0a60946461c7fc09932e84f49dcd8e95c66a794c02000000016a42109c3e48796f50ae6b209d0830b5419b8694a9c54c42621b1391142d1a6e6a6d79cf7c0000000001abbf1d982cdfdc546f36ff5754dddc7d6dee6b2b2416ccc958e0135142944192ab8122fe5c03000000030065518ff6e0770479af210100000000065352536563527822010000000000036352ac5c324403000000000565635252acda780f000000000006ac516552520016e96c7f',
+    '535265',
+    3,
+    1542247537,
+    '9dc2ab6793a6b0df4052c85de15db9f9d658412c2561e8cc95eb554ccd8766e0'
+  ],
+  [
+    '07fafcb4016b7de05bea883310f4d685f6a4df87d7b02b08f5742b41b03b4cbfd18cbbe71a0200000001abffffffff03b0009c050000000001accb03980300000000070051ac656a65637aaea401000000000900006363acacac525100000000',
+    '00535365',
+    0,
+    -1088982718,
+    'f55896573fccebb5252a5e485b5d6f9adc46d29915b844153f730bd135f7d8c9'
+  ],
+  [
+    '78e35f410226d974e92b3ff804f5ac915a21b40d920d8b747069e431abb14ab4cfc43209020300000003006352ffffffff7a422d116bcd66dbafad2e83555b1f509d5358ca26d09d516e0f1b0c83dfc19901000000055253ac5251fcb2958d039c80690000000000076553656aab526555f5be000000000001ace6385502000000000753ab6552acabab00000000',
+    '52ab6a6a53ab51',
+    1,
+    1743111409,
+    'b5ad3a02d6c85dfe17a6d84124136801e609c427af86294e73879fc5e158e62e'
+  ],
+  [
+    'ff060989039c72afd53ef83da24dcc2f0b95b3c07df61e3b734af4958ac5642f57638442f60200000006516a6a53ab52f6f8b46de523cf1aa51e73db2e27db1164b9b43f09796121215a7a6c4ed70edf8f58222a03000000046a6a5353ffffffffefd94c2cdf9abefbff325f8f9ce6add54cc326d91189e04203a3b3bcd0ff662f0100000003ab6a6affffffff01d302a103000000000000000000',
+    '51655365ac52ac5265',
+    1,
+    1245609701,
+    '45691d15a02f8ba65e404e6ce3f45215ed5e5bfa1424a5780056bb9e0064dba5'
+  ],
+  [
+    '8f28f8b404f0c3e25b1ac7103c81f6fbdf84b6ba43552f3b5ce92e85e71cb8327a6cdf361d000000000453ab63009011c86f11ca2cfc861ede1fc5ca28e50e39260bd2e0d68588db330d166bb91e5cb057170000000006006a65ab65ac5b8a04a8586c79cb6579bc757ff87d0a841fef228480df8b62ceb271d4d6ef8545612be60000000006ac5265acab63ffffffffc2b98607ae6ccfe526a647cb09cb9d4d041d3a45557980120dc2e9d546fdd255000000000751ab6a65acac51390740040420c5ae0500000000030053acdc4f50040000000006510051526300b603c10000000000095263ac5265ab6a51530261b003000000000351525200000000',
+    '',
+    0,
+    1619298771,
+    '0d9be3cf0a3f68cd623229c945f232df3e70a712817bd424ff218f8710a4f8dc'
+  ],
+  [
+    '0bfdeee802a4e88f724e4825eac4db7ea10d2e9c9b6a9c973d7b90f1ed5b6e2128c098964d0000000009abac51ac6a525151533f0690e15798fb1d1601a5989256b35b59ea13739dcdd61308b4f82676a76a3d71b1571a010000000365516a986cd6b9021f515b030000000007536aac5353516a573ea6000000000003635300f3c2a559',
+    'ab630052ab6a6a',
+    1,
+    2070552806,
+    '91a69a82f1bc0b6d2a76f0ed0f5a734e4836d1e8a386259637cf4c17943bead4'
+  ],
+  [
+    'b7dd7c4d04ce0b27306a7a25e8d7584e444bd8f97b137dd1fca4c8ebbbae5e9d79db72083e020000000953ac52ac006552ac6afffffffff60934fc5ca3e37391e2036f8523a5c232f2036b598e7727f433701b2d54b4520000000007ab65ac00530000ffffffffbf51bb1b151353b8abf5feb0c57b74b5dca941af4e141831f9466e3510f90e6100000000005ef2e4d8406e1a50051a8722c76655b7f52264495630f477294418382ea5c4b0baf365700200000002655345ecb7f302818eb305000000000852ab5251ac6a51ac1e487b050000000005acacab6a65a7d6d4e3',
+    '63ac6a',
+    3,
+    1246484725,
+    'f6262510f43163f1d09e76ca8e28c418f6010402262b92fa55bf8192cb2428a0'
+  ],
+  [
+    'a66985fd03479c618d7eadf2310e236cd5678057cefb9240815896ce1cbc416768043bf45500000000026500ffffffff52c39b05a56c3221bfa21388ebb1d3d765cb3ec045b1b51d47edbe4b64b1ab060100000005ab005200ac65ee952b146aa987a58d574a6b5e9e52510dc27b3f80adb018475e1ee7b334ce83f5617a0100000000ffffffff0347e6cd0100000000055351ac53006d8864050000000001ac45d2430300000000036a6551c8f224ab',
+    'ac0051ac00',
+    0,
+    -1993691311,
+    '5bb72c5c2a9e8ed2e23dafc4e2c54ecd9d205cabe28f4dd694356ea6c1b50587'
+  ],
+  [
+    '25be916d01a74e82c2780f7deb77769c306aedeeb232a9ce738f8bf78fd0af8640a5dc91bd0200000003ab6365ffffffff03a71040020000000007516a525351ab530bd69f0100000000004014c00000000000076a00526aab6352ecc66f68',
+    '53ac6a6a655365',
+    0,
+    -922850623,
+    '169c142ef634046c01143987f99c8309cdc6ea7e05412a42a6c100a7a7c6331c'
+  ],
+  [
+    '8cc435fc02a53e27db388313321c776d46fc077f36881bf5ea0160777607b8607d53a8ff90000000000452516a51ffffffff4b218751042e90c3cc3a39b74ddd05c43e69fd6287a783456659966b8723cecb0300000003ac5253ffffffff03815f7e010000000006526365ab6a636646fa0400000000096aac51655352516500a924d5000000000002ac5300000000',
+    '63',
+    1,
+    1306103495,
+    '6882a1539b0cb2d6c2eddcf0aaac809bcf13929418162f7d629be149b978c44c'
+  ],
+  [
+    '2f33e3cb032da996f637e2f7594353d93287ad459e11a22bb7d4464eef7d1d730a61ce3e84010000000251ac3c6b299673b2d2c3ce6369c9fd125a90d5888aa82176db2e3c9e1fd2d8dbc0fd56bc83fb0200000000ffffffff4a6a1f555c0bfc270302b07e4524e0619808dc5e16276bb3262f2f58a6e41eac0000000009536300ac65526a63abffffffff031eaf4001000000000465ab65655ba6a20300000000005a242b0000000000086a53636553ac5265460a978f',
+    '5253abab536363ac',
+    2,
+    -1258703131,
+    '90a701bd4095273f0216764eaa40a10831cb0c813a02fe20a31571585022138b'
+  ],
+  [
+    '0c7bdee104e83872d733611d7cb2d82e3074617955a26de20fa35ad5b297e0d08e6c71dad40000000000d476c57f4cb14d15dab89ae012910804e58ce82fa0415897def35cbf5691d2bd2f640eec00000000026565ffffffff2f4746284705b7e78fb355ec897209842809e8e594570c92fd06327bc81316f90200000001003a5c275e18a9394cc886a7fc4626fc5d316fefb18977684259f64540903b6db99739ad3b030000000363636af54a83ec0169203004000000000363525200000000',
+    '655353656563ac53',
+    0,
+    714378206,
+    '82c6e13eb93fe0057ffefe34f35fbbb5363dbc40aad2be8b2b985e25dc4e70c2'
+  ],
+  [
+    '3f78c1c00268ec033e1fc90df402d7d26ff618eff530612106c85bbf14e890b822f6c4e75003000000016acdcf5b38e5c63e93d65a3058cfac5df83778a8dc212507a1f11eaa29a96ddebe188f0deb010000000353006a739ecf330188d8a8020000000005526a6300ac00000000',
+    '6a',
+    1,
+    -187006471,
+    'be42832ad9d6234cde2c19eceae1165924e7b2a92de3a9766e62e8da8936459c'
+  ],
+  [
+    'bb9aee3502ba9ea44ca12669fad4f4592e71a5b786884f08a293b17a47a412d0bdc92efa1f030000000565ac65005197bc53332488898e356aad96001d9b062e5a71b73c9dc55c98d2a7b903beec2853e4b760030000000900ab0052ac65ab6a00163661fe0170a2f10300000000015300000000',
+    '525100635165',
+    0,
+    1172041981,
+    '1e2b28b27180b3bd818a27bd95fa1c12807fe26bf6a68d5ac057d4d479bdb645'
+  ],
+  [
+    '273a2ff903addfbe6a5b4ae74151d27fe532252bcbe44ee447c7c2b364c044c31f517d3b08010000000751ab5351636aacccddeb521e87324eae471a9b314c4458d279efd1b7c10f7ac2283a7ccc9c7db0ec1bb671010000000091a02da324d6d80935319e67fcbd3227c7d47f5b0fd104890570597bd7cd08e79c1bba660300000004ab6aab53ffffffff040fedfe01000000000079054601000000000165c15e71050000000008acab63526a51ac53e851a100000000000765ac005300530000000000',
+    '005165ab6a',
+    1,
+    -525375363,
+    '0e97709f93bfd47bdbf93c6746915e53a594e76b2c889a62dbdc3561e972f261'
+  ],
+  [
+    'c11277f60440ffe697cef5055102961f9fbef644153066ea567df4ef4b7b857accabcbd5cb030000000152ffffffff8dbcf7a1a19a408403478e92175b3132a6b98005c060b73873c6462fa6e77feb0000000005ab63006a53ffffffffcc191fed8fc68a060e2ba90cdbee97ad9e84366fcaf7c02d47f94b9145b08f160000000002536affffffffdff07613dde298cf5748a44251591ba96486049c79a66aed330f71a1854fb03902000000055353ab526affffffff0359b65900000000000165d5363a010000000007635351525352006c0774000000000008acac51ac5265005127b27f31',
+    'ab5263ab515151',
+    1,
+    1356161610,
+    '704f6a511813094852c32b42ab531b5217edf0fb4ca34a9030881d807ab8fdbc'
+  ],
+  [
+    '8e337e7f01ed2fee8a714949d4515bb0a3ff265306ec1595ff571fd08cd8d74206c788e19c0100000005ac6365ab53ffffffff029e5a1f03000000000952530051ac65ac52ac64712904000000000263511a693ec8',
+    '6565acab530053ab00',
+    0,
+    -2005224240,
+    '36afac8be31b4dc535a3e7010c373c1c581a585d03a149336bd50fe574843f3d'
+  ],
+  [
+    '76aa4f5c0375b5c49635cacb528a4cebe8d7c5a296c2e85fb22bc907d9046184958f4a8dc90300000005526a6aab65281e4e58b9ae031142ef73bac63b3e4639b38686ed69dbe2f477d7def5a8a547a5c981fd020000000563636a526a5889b104857e8cdf1f8ac80a629032c59c509cb7fc9cfbcfe45958d138a692c7e26c65c503000000050063656a6a76874c0e046477f904000000000600ac63655252f2d4040000000000056a6553526aaa002e02000000000400abacac1d5da402000000000253ac6bb25541',
+    '53510063ab53650052',
+    0,
+    1719488634,
+    '95b75adf31c58ad01a95cb180e22d5740e1654ab44a614854aa246f13d76983d'
+  ],
+  [
+    '0ce107af02bc08cd83fe5f7e22f5810be2546e4646cfb1e073318d09b0cd6226da621c1846000000000765ac00ac53515100f3ea5264fb7f2b70f8437c146c51526ac7367f76bb68a7fc194a1614a8e87efee9e0780300000009ac65ab6351636353007fd707b3020fa2b00000000000045352ab5314e1cc04000000000363515300000000',
+    '6aab53ab',
+    1,
+    -266289336,
+    '037cff07837cf1b2be5fb169231ab37aa80b515a229c17d25e7647cd79b768e8'
+  ],
+  [
+    '68c843cd034386376f412de3ca33c4ed1e1642c46e6973769c94b2cb00192a72c41c850fed020000000151ffffffff79bec591db676ac3e963cff543028c7e4f1adc9cd7f5e1a4da1ac49a9bbdd3ed01000000046a6aab53ffffffff0c27a4814e57071106239d7012d2e276768baad909b2b4be268e04e63153bc39020000000253ac1c6aa3c8030d0ff30500000000046365ac5181a34c030000000005516aac53ac6cc48d010000000008ac63005263535100e26365eb',
+    '636a5163ac656353',
+    2,
+    -373388323,
+    'af5669d590b5d948807de7e97cdb4a7c382c2a55f68ee5ce34a1fbe6f5dddb30'
+  ],
+  [
+    'bfa3c47c04f1584606084922abcaf5db51c85c7db7a7f5aeefca4eb5af5e28b5a7f1a0adbc02000000076a6552acab6351890ca0820a784cf7e15829f3391f0236599e72f6070a312ff41e9c9cdac63cd5c936ab5503000000056aab63ac63995240163f0fc4cbdb8cdeae3886272cdf7c30f954a6e92b30628d8ae9c991ee0dfa613d00000000095200acac63630052ac0ffdbf2a49b38655cbadbadd15a6f254cc9928b452536ec9d86e88c0dee0f1006be68eb50100000003ab5151ffffffff02b3931f03000000000013b39905000000000353530052893a93',
+    'ac0052',
+    2,
+    -663028904,
+    '50450af2c6ba5978ae8cfb2927c8768e39fe0115b5898a7b45c96d81fcc68bb2'
+  ],
+  [
+    '2e85b0c503c7028a793345641dd40ffa8679ea3e94c2e3bf8f63f5a1551824d2ace15735080000000000ffffffff4576ca28449358b38cd847bb326c345d33288ec5fca548682fae624652dc7430020000000900ab5200ab000052acffffffff096ba2e2a7cbd037d6ca001f3f39e239a8d07ad487ead78effce7305f5c6649a000000000952516552516a630053a742252b03bac5d4000000000001658c8684000000000007ab5263636563acb9edb5030000000003516a5293cf26e7',
+    '6a5253ab5165',
+    1,
+    -1987669388,
+    '545249fab2bf95d1201d7d7bad0181c273b2d20f4dd68c84a43422eb5803c6f4'
+  ],
+  [
+    'bc42410f030181b27dd80fb7501ba8058aa8328c21d5b7151180b654ddba18e5e0cdada5430000000008535251acacac6500ffffffff865483beebefdf5defca02e706fbd1f4dc5bd34c41b167791fe3f127e0ae3834010000000565ab6a516ac93b0da2e6d1dbfa3f258f88dd0065cd82949d1a842d8abb441109abfa9cd267396814d80200000004ab0053acffffffff04629af3020000000004acac63002e5b7e050000000009536a52ab5353ab5365c4192905000000000965006a6a5153ab63ac8ff4dc0200000000066a536a5353538cbfb7ef',
+    '53635200',
+    0,
+    -1994865539,
+    '59c9c635cf6775c19028672550b7dbc621f58149bb3b32bcb21c54f2d1ab530e'
+  ],
+  [
+    '531a59030296cc91115024c2692449b9148fe7be167dd631f16f5d46c26e8ab2b16c610c4b0100000005ac65526353ffffffffcf82de5a46d7b147578914a5e06461516713a353b81b8d12d213c5a03a7bee2803000000086553ac525152006affffffff0306f81c0300000000076aabac536a526311d54a03000000000563ab52515207c67d00000000000551ab5165abf41d2486',
+    '5252',
+    0,
+    -1488166535,
+    'bf8ca8d1c8c7a88290024c5168bbcb6793f502e519c5388a1e50564101b9904b'
+  ],
+  [
+    'f840ce670192f188a4e3a0287e68925f459c049d9f8c38c418f337c813e594d2adf732c65702000000016386b142df019280d6020000000004ac63656a00000000',
+    '52ac6a52526a6352',
+    0,
+    -1983977630,
+    '53dfd0b074d9a982ddc36ebd495e543ffbe43c8a28632ca100ba0d3bad9d9554'
+  ],
+  [
+    '7ee727ea03cf5d7e14c33ccbcca946ba8cb8f67b0a8d779b932ddc67a0437317f107b05d3c000000000753525265535365ffffffff370c840c81e83377338f5a4976f7f2971de44f9dacdd277b17a3826d0e0c96d60000000008656a516a00525163ffffffff4737df8805f7fefdc44e728027383039122baa0659827f692a6383b08d909416030000000365ac00edb24b820166731e040000000004635363ab00000000',
+    'ab52636a535365',
+    2,
+    1853460068,
+    'd169892fc4c60f1effc3d1322f0c32c07ca4054f3b912c877133a30ff24fbc75'
+  ],
+  [
+    '5beb021804a15ded0fdda1ce0a77a61344fd39141352ab3776e8244abe16636a808ef86615030000000700636aab0052ab13211cf6565cb3e9666fae7d780894face49d27e598212a0a84eaa7d95bdb5c23e2bcd7d0200000000ffffffff7a01dd026ae460317246bfec8da949939a1bbeb219642d7947f5033a167f4b4f02000000076a5253536a52acffffffff3fb1071b79ccbf45d93f3f6db80024f927851817e4b746823011f77e6ecb99a80000000005ac52acac6affffffff031b100a0500000000066351526a52ac98d0560500000000075351006a6553657e38ad0400000000016af3abedf6',
+    'ab6a6a51',
+    0,
+    1471778039,
+    'fceb10e6c87d01015f6a53d11b8c33bdeb74a8c87e80f231e210c098089792dc'
+  ],
+  [
+    '83f9b8de04d820bdc458c113ad047f2c09d5b41dd39c0bb01586a31dd3b6ed52f83e1ea081000000000200abffffffffcb0797e33f3ef597943e429b6c2774eafff828fab44bd62e8964855052d6157903000000026352ffffffff796257704675f4c0dc7da1232a88c127ca8b30cf3dc3db3f666be0ac01bf1fad030000000665ac52ac63acb6e7cd1b1f871a387cc3cdc4ce7bab443e552999d1ffc15d5a9c43736167de85fd9796b6020000000365ab53172fe52f01478ab00100000000076563ab655300ac513ae205',
+    '6a63526a53ab',
+    2,
+    176419178,
+    'f1f5f1bfd8c4369e952e7c2e5013a8e95c508f1b8401a3f45cfe8e639403f84a'
+  ],
+  [
+    'f6a3dfae044b5e6714d3a32864dbe5367419677243428c46d09c5fca7e343de780d1cb0785000000000163ffffffff2eae45193466237a167b0a27801f01728b51e89a139f91b3cd0d09cff244cd9f020000000763ab6553ab6552177b4987520056299f4857084be29880b5e92e1e97945bb9e9b26ed5052784a85b8446d200000000016affffffff7886195a7f81c6a5e3e56d8d807f4a5d3bab65bb75fbf924192492f03075c574000000000552ab636353289b99a5049ca94c020000000006abab00525152bfcf6a03000000000451655100acc23e03000000000252ac78a7f002000000000353acac2cfcb4c1',
+    '65635353',
+    1,
+    344921679,
+    '44c88b6b33213f24364660340f3f2d3adb9c03f9bd913f7d973d994930e4f249'
+  ],
+  [
+    'be2f6b1702fff580456629b73ffa011c92be519358b90eb009cc3e0a2b789d24d57ddfc13d0300000009ac6351ac005263ac52ffffffff94a1e654b7460658fe0a9cae36b72364aca68d3b2b4ab86ca705e51557c2c0bd010000000863ac5252006a005150ceff2f042626a8040000000009526553515253ab53abca55160300000000066565ab0051ab0d1de4000000000003ac5163285eea0400000000003122e5d3',
+    '00',
+    1,
+    186173005,
+    'ab6fe7f9f881f0515bb65bfebdaa9200916a56bc6ba400e6c8a09411bb3a5cb7'
+  ],
+  [
+    'b313d65f02287b86218ebb9df1953e24aed8695994a4b96e24faa369a622c9d8834123b33a0000000003abab516ec6b14e326795f21a2e1edcfecadd1db5086db858f3ba589d3cdc25986434da2162f16201000000086553ac63005153511958d4cc0180bdda010000000000797b1218',
+    '65acab',
+    0,
+    -1111018396,
+    '09a7f740435bf58a12750ee669b068d164cbdfd3db5d4488bc88202eea487541'
+  ],
+  [
+    '0ec4176403bedd046692f1b94f74a4d62720a2a754ea725cbc964d5e88b130cc095163e2f90000000003516a52ffffffff890466034ce0f75bf41879dac5e19b077f13062f9a96e763c9473292ae085fc00300000007526a6a635263abffffffff30e51c27930a39f77b6eb73405e99496212a1ec3d62db117b2bf56163fcc440d0300000007525152ac6a6351ffffffff0155418104000000000753000051ab51ab00000000',
+    '5352ab6a63',
+    0,
+    -182949431,
+    '6740c2d38b7702017ac5339d94423a6cd828643bc05a2527687f0f5ac2489f67'
+  ],
+  [
+    'c8fb813e04ef439f358546500b4170a2ebfe3f2bb363e6ddb02de611797a1db488d70ab27200000000096553ac6553005100abffffffff2fd604f4eba5e33e65f05ac1b5283475398ee604d87fd58154f51ebcffeb54b702000000036a636574708dd4766a789d6bac2d05056609d68d980c5f9addff439265ad2026b1f9ae324dbe5b0100000002ab52b124d8b81e79312a584069b9a4a50052f3d1bac5827eb15cb5d4fd768e5ab3bbdcd4c62d02000000046563ab51ffffffff035f3cff0100000000056553ab5363a16107020000000009516a63ab535365abacb05ce100000000000553526565651b32cbd8',
+    '',
+    0,
+    771648192,
+    '30fd5c877da47e64910c4e0b1997506887b7e8bcf77e3e80e6f7c912215ef911'
+  ],
+  [
+    'a247d6eb0237afc03efca46d8e33435e921db9c570e983cb1ce57c6404c41f28a2722432b80000000008ac00526363630053ffffffff484af8ece10be172c55b1385b07f03a0a6715d38a734812e936891744faadc2b010000000752ab0052ac63630619703201851d280400000000055365ac53ac3323bb12',
+    '535100',
+    0,
+    2024178374,
+    '388162e22810b10f3ffbd2116c8366cf4a9bbcfd1d3b2de74e90795ae5e71f66'
+  ],
+  [
+    '347bc61c01bad9eabfe460710aed74c924d3eee58aaf2ee2f3bc778caafcc29b67a671266d0200000000aef2a23b0414dbaf020000000007535251636a00acdbc7ee050000000004510065acb351dc010000000006000065636a538c683b0200000000076353ab510053ac00000000',
+    '00abab63ab52',
+    0,
+    1361240930,
+    '01a03ee122fef051214d5fb61634eb7b9b55b6dcc5b6ff3dcfd3888e727ba4b0'
+  ],
+  [
+    '6f02080802f6bc1c2c043fb3c9073abfcf690ec34fd3880116405212feca398054fe0a5e3d020000000651ab65acab51ffffffffe781c09dcb6fe84a5e57ba599d61541da74db8060d94bf9203e604557d1049cd0200000003526563b9851036022fc1dc02000000000452006a652fc0820200000000065265525165ab00000000',
+    '',
+    0,
+    1490392160,
+    '220487169f51dc3731956b5dd27b71e560c8f3fd85b28095753a79418443f7e3'
+  ],
+  [
+    'd33691d9012cf0bd6a77a5a9ef63bd68260265773da338ed9699a6aec65aa6aef26aa41a0101000000026a53ffffffff02f1fbf203000000000200ab09e722010000000004ac6352abe66ace48',
+    '63',
+    0,
+    -1769901470,
+    '54b419a119277742c8cb79198cde3015c574a6f720b2d1f961c77cd8981457d6'
+  ],
+  [
+    '3d1c7bc102d8c979615684e36cf7cadc5fc1000a10e9d286f95af7622f958dac941f308f83000000000251abffffffffaa21d05388612f0d097dfce97b6816d4fc8616f102d0721e58ddfa195d1fd84900000000025265ed93632c018a4d4300000000000000000000',
+    '65525153006500ac',
+    0,
+    1589645022,
+    'd64d2d0b33f80156bee4b3da959e6456707280c504368cfa1f54791229a0a084'
+  ],
+  [
+    '2a33358601eeedc77200b78554cb22024fcfb6f58253c972340faac619fe82aadbc7a5fb800100000005ac656a6565ffffffff025cda540000000000065165ab0000539a7e5403000000000000000000',
+    'ac52',
+    0,
+    -118456729,
+    '66f78cd5e2b0a482e761db48e91203a70ebf21a7417ef4476bcc98e80572f60c'
+  ],
+  [
+    'd3602b60019c43c71cf1c1a218d75fef8b6a2ca217c10500cb246a775a2de2a5de3a6b17cf0200000008636351ab52630051ffffffff045ec6c00300000000066353635365632300e6010000000001653ba0a4020000000009525200525253ac6aac9be12d04000000000752ac51536563ab00000000',
+    '',
+    0,
+    -63062320,
+    '2f1a3e7a1a4b55e8926d129612c7359ea235418b31ccb4c79903783668afe5df'
+  ],
+  [
+    '934f43160244f02b1a422f119ffa9b9f9c243b848863b4ef063693df694a1fb81276e42996000000000452ac6a5115a6f43366f0ac2e37730e5a5d057761097a57543f8342fcb3c8db976c6d8231bcad17330000000000612d9cfe047975bf030000000000915f4401000000000763ab00acab5352ba9571000000000008526553ac6aac00654d3520010000000008630053526500ab536664bc98',
+    '656a525252ac',
+    0,
+    -698326316,
+    '1181f5251440417fc2701cffbc48eaa770dc43dcb76ed5ff32abd7dbd4408b90'
+  ],
+  [
+    'a6a0776f0486dbee55548f6736c0260d4c91b1f4c50e07139b35788b8429a62f88b7f69bb4020000000552ab51ab000b66e26a7e45aa089e0483e0ba691a5074d13b166ee989e0d4e6401ab3f7cee00d0ca47c0200000004635365636d0ade465fbd9a0179a71aceee427e920530307a169009bfb8a296ec2c0c86dba3b0b36402000000005d3b51c78ed8b5beb199a0d3204b9fc00867289b4228439ff03b461f5ab33af61fef181b0000000005ac52acab520fccef860181729604000000000963635253ac0065536300000000',
+    '',
+    0,
+    -969328804,
+    'b3b4e1cdafa29c54b5d3ea299c40c27f8a1b99fd1b5d6436a9cf79ff22929d73'
+  ],
+  [
+    'c4a3056803195d47c63df04b2583c62e70e54dede7a971db0839e06704b40a50b6bfcf49b10200000003516a51ddb10df24aea1c9ebb7d7bf5d9bcc4a98c883a2db3099de343358eef200902c12c58ab19020000000700656351ab53515db1df8080a774cc774312e2645d04b41d34e44cf18667c7c058f809749c3390aee13db10300000000566f8ec004464b10020000000000a18b8504000000000563ac536363e9c63301000000000351655266a990040000000008ab6aac00635251abec5780bd',
+    '63ac63',
+    2,
+    871790021,
+    'e462d0e648057cf561da59d39a1ccd858a610109737fd7d695ad62b77f2ac5df'
+  ],
+  [
+    'df9404ea03fdd736dce413c12cb65e419524334717e3fc41f3ecedad99841392da24a7cbf4000000000900536553006551515190d1a990430ec6ca086e1ae5783ccbbe0677a7427f5a50fdecdac3edb5bc5ef90cb79e6e000000000953ac52636a65636a53bf3283b78a8f2ae82afaa103b4761687d4a929426ef2c0a4c38981cc5f84e42cbc78884a00000000065251ac635253207940a203465bcd050000000007ac52526a53acac7daa450400000000015163a4c20200000000055363acac6300000000',
+    '52006353526a52ab',
+    2,
+    -1535894553,
+    '76defa779cfb58fdb8004a384139cadfa800db581a1704e3eec2d8f441efa750'
+  ],
+  [
+    '9be3d0e1040e34dddd94928a420ac7f96641cf7e3e6e62e749173c4ecb25a6ea50970685b60300000000ffffffffc5c3fec1de15a161c8ecb7a4f2d5cf6dd5f51e17de91441ba6f62f6d6c3dfd730100000001abffffffff49fb52571cc4e2793f94d46d9e20269779b6c461158442a796fc8d432e59d62b03000000066a6352655251ffffffff40144ad77bc01c1ffa48622724c1df3f8fe9d6d932ac9855da176ffcd1cd37ac0200000000ffffffff0418f17d010000000004655300538a69c40400000000008a20250200000000016a6b3f1e03000000000165f1b06e50',
+    'ab5152656a51',
+    2,
+    -144958395,
+    '8d51bac9f1f280934f1012a906e9717f4f1998f50480f68dcf21a5f7e5ff540b'
+  ],
+  [
+    'cbe9f5e0036f769748c0eb750fa8e0b27c8ed8504f15b82780ac608d7851662131a66cab2201000000056365535351f17f3f21fbe955d17115606f879ac7fed75bb727bd00a56a8eea57beae753d66a40b84ad0200000004ac5351659e6744ec6b18d014f0d0a338dac100854e9bd7bde098c494a6ee2db6d16c011f735dfda20300000004ac636a52ffffffff01e70c5402000000000300530000000000',
+    '00ab51',
+    2,
+    401083464,
+    '5f7c5dcabde2539959cb2648438d4adf734c052e91c862477dd37683ca0a46ea'
+  ],
+  [
+    '799610f704869b3a08b2346b5559080de09490751a6a301dce9d9da5d4790b72ade85b74a90300000001acffffffff86529d4274f84fddd781e3583c0de5b9a1aba20e8bdce125ac8986e5740f679b0000000001abffffffff41438b3473bd5abfe65f5b3d7046dd984e4c6a96eecdd92198b59981855861f000000000086a5365abab655365ffffffff42d7b514ce0163d8b888f6295f7d1ea5796e1f1ff3d143a4a5e7cbcd6b89b8c20300000009acacac006352510053ffffffff020ead76010000000007ac51650051ababda51c603000000000465abab5300000000',
+    '',
+    1,
+    -1960505623,
+    '6f848d848d9750b488ffed75136c05b3796f8eec0a158ba66b57363f7309cb6a'
+  ],
+  [
+    '6230bba1022bffa0ac9c674c5737a7cbf5735e0f8b8237d6b49cfba1f876d9f1bca745f3bd03000000046351ac5321c4e77c48c1eb7b3eaf349918e04fa80decef788c5da46706b8225972f5940bbfc480d4010000000663636a6aac52ffffffff029403d50200000000096a6353525163ab6a6a751d160300000000015300000000',
+    '',
+    0,
+    -136674322,
+    '18c287c5617da0a0db9a37db6a3d6958f1d3eaea45c75499acae0ea9b5f620b9'
+  ],
+  [
+    '247ecb4a03b64c2edf8b4610664ba3b82a0ce008f02153095a7d05309fdd649b71a285f000020000000300acac66fe115a46bea2da99af5856d8bd383d60f963dec9b37a1eb3eebca0e3810a4aee1d1d540000000000dbf3c6ac190e3cb1567eecbd387c5a698380e6efbd651cb08f9c2ee2af53c17cb7ea32480100000002ac00ffffffff01207b4402000000000900ab65516aacac6a6a00000000',
+    '6552655351',
+    2,
+    -1832356916,
+    '8b22f46b32332d792985827a81c764746b380d0d3e26132cdeb9fa0675504858'
+  ],
+  [
+    'd1fb9ee8024a203e5b39a0e9330cb621c20590a9e22f2b4d879a29287b9c7048372914889701000000005a8345c4da032252c2559758a8f14671963348ac7ebf4069f83d8fd0fc5a810dcaa37e16030000000351ac530c51026101289f4b030000000002525345feada3',
+    '5265655300',
+    1,
+    1917786592,
+    '94cfab45118b01ad78e19ab4b20b73af825c9b66bfb17966fd1fdc7ca316ebf9'
+  ],
+  [
+    '2a3384b0022696f250f3fc7c2c65d665605dd372597322238b01dc49150a7f334090e9b3290100000008535151006a6a5153ffffffffe0eb4c16f2c6859d590f90ba4d26916af449c253d71f5e56295d78328a7ba7fc00000000046a526553311c91290297ca420400000000066a510053656ac2d9c60200000000010000000000',
+    '516565',
+    1,
+    -38224263,
+    '1fb6981e13af45b9169f20300558873f44733e3e4ed710be76e2766c14d48a23'
+  ],
+  [
+    '1936e79e038a94eea234915096d9b97fd1007a266e2e88831a4ce28f46db4099d390a71d7101000000045165516a17662f447b47707ee730356665138308226efbfeff7baec8773a7d0f243a4f9ecea9e11e0000000003655263ffffffff9273c6c4a2ad5c42178535ce50eb5eb44994b500163c99e487bb7d0264e446c4020000000951635365526563ab52ffffffff01e0157204000000000952006351516a0053ac00000000',
+    '',
+    1,
+    254904045,
+    '7ffd14e30997f25bf28a7e4a71a2b336e5babc62fdf8de7af9f6c146bdaea15d'
+  ],
+  [
+    '89b416ac04d1f7bdb965f1f8e6c596cefe57c1bee8010c13e6e3e6a132a76ac2c531f8a5ec030000000265537ff81cbf39c11ff5c58ae3d008e4ab4d29979e4da1e8abc0903f4be657638c6f81eb44540300000002ababffffffffc88a240681746e9371e10ced9fb529785045c3e93a7112f864e429f84323d1e0010000000352536affffffff0c6298e417afa3a02cb33c02b107a555e91220ab46be9f75064fe24694118c050100000004ab516aacffffffff019dd4d502000000000852526551516365abaedee879',
+    '51ac63ab65636a0051',
+    2,
+    -231220635,
+    '92aa464ad1f9b717be96248ecd102e7b33168f4e7e3454bc5fadf340960e6fb2'
+  ],
+  [
+    'f0615cbc0251f98a5aaf4d9524bde9afc41ccd4dae55305740e0b5fdb20fa6d3f03e904a5d01000000085365acab535363657d3fabff5de34ed8982f4ed04c4667c5d73e29999948deecf3ee616b7723f064c295d96a010000000365516affffffff01d53cb80200000000045253530000000000',
+    '6aab65ac5153',
+    0,
+    416125557,
+    'c28572759cd266fbdeaa426c769cbb947522752480e69d8d5de8779e47d76910'
+  ],
+  [
+    'a0403eab01bce03f0a539d7244f601d96cc460786d7630036ead47f426b9065fb2a1f394eb030000000152ad7d7a70049c90bf050000000007ac51ab005165ab1aaaac04000000000951536a5151005265ab9eb43903000000000800ab5151ab006a52ef5ebe01000000000351ac53074ddedb',
+    '63',
+    0,
+    -741831223,
+    'a01c93921de42f7d4e7778dbd552aa3712ed8ddc6ec4ab8359b3c80c03fb1689'
+  ],
+  [
+    '7b12a84a0382a7b9196100591067506b311aceb9aae07220792132c8ca3684bcc98698d42f020000000653006a52ac53ffffffff355774920d365fbec700d884b4c7f19fa02e87941e455fade7a804f4af0b612203000000026552ffffffff0fe491f59a495f27142e9afd0f656f8127bb67f11d814a72e90d1688cef2654e01000000045352ac52f04e8c380378019f050000000009636563ab526aab65657f70fb0400000000000cc4250200000000075365516363636500000000',
+    '5252530000acab',
+    2,
+    152646765,
+    'd276f71402d38550a3ea1d4b1b02592eda753919042e0889a32c215f696ce4b8'
+  ],
+  [
+    'a1e2871704d2c5b661b66f9c81968c1dd7799068192c9c9cca22b5f568e966c16e67fcdc6701000000096a6a000000005153006dfcfdbce5d08466513ba667e7e5b55a6ca291c63381c404daf1e0fc3d3d9151e0665c69020000000300636affffffff669e6a88b5406ec636e8dd29448a28b0e68a3c9af169c13391dcae388d2f338a02000000096a6352515363516351ffffffff7365575ca28cc2eebf11ff5cf43bb206f0b90cb9d2a27e373b323a30c93b8cba0100000006ac0000656352ffffffff03a63a3d0100000000000d6a45040000000001531aad20040000000009006a65636563ab515100000000',
+    '6a536aac53636a',
+    2,
+    527486548,
+    'd7e18bc808121542e96dc3eb20a8996b727fff7e3680386e48ee2d579a24dc75'
+  ],
+  [
+    'a396c2e30224c73e19a98db3c79358763cf7595236215a90733dc5ac4354ef82c0ec619fff0000000009ac00ababab63abac52f724a8db0a786993b672ae7557dd50936daff6341e63ca7623bbf6314233e7875f71b52d000000000451ab5200ffffffff0154cef70300000000085353ac63abababab00000000',
+    '6a6552',
+    0,
+    -1687352731,
+    '9a1dfa4ed2b5b7fe9c06d872c868198c08043f6859062a7bf362c156e9347c4f'
+  ],
+  [
+    '5e0939e202d9180b0d6b55af93e42c5dc10dadf7b500d840d61cad7033af7a8113ec71625c0100000008635153ac65acab65ffffffffb183948e3541c2f7019102269661184f28af2c828c3bba0cb02856018765b5ca0100000009006a63526a525300acffffffff017aaa730000000000036a6aabcd26010f',
+    '6a51',
+    0,
+    1091981401,
+    '685687a1c6e22636de7adbc4d0b7caab3225aa018014e122ab7761a60367cb63'
+  ],
+  [
+    '1571863e04010e3ef19f997f07c4c8e8e77f7a80e6bc32220d40af2d49a58202057c93544c02000000095251ababac6a63ab63ffffffff202a9b19265ea9abf2cffda6be32fddc18e851a7ab965f8a4bdece8190c1acea0000000000ffffffff39c1d67b8e06c72da9223ce6a3b563238f6da893d631f744735556dff65b8ab5010000000900ac53abab6a516363243537f211a96f015c6767494bcf8de225f111017103b85c344979c0af08a76a30d7f36d010000000163ffffffff047d9db0030000000008acac53ab52636565a05d0f0500000000026a6acb4d4c0500000000065163516352650b375d020000000005ab535153531f4b938e',
+    '6a65ac5151525151',
+    0,
+    113910907,
+    'd1728f57cd92e79b3d817a70ec6063b26fb89adb03ab0c87242c5ed885ed5eec'
+  ],
+  [
+    '28e2309b03c4f22129d2c71e2086fa832dcd103882632b853a5a6d2bff0fec428e5523ddb903000000075153abab635251ffffffff7c50a3f8e99af518316962ae42be8887350f01d39ac820eca09c02cad907e6e80100000006515165006552ffffffffbc19bd44d700913dbae075c89c3e069f68462ba1bdb8d35f264a5bf3dc8c1f79000000000965ab5152ab52525151ee8cf6b3049c236f010000000007655251636a6365dd577a0000000000086a53ababab636353d527280500000000075251acab63ab518570b60100000000045165ac5212a44897',
+    'ab6565',
+    2,
+    908546556,
+    '16b4f4d1c5118269ce0a42a197f44e229cce7d8688b67062c9d1da14bb7e0eac'
+  ],
+  [
+    'b193e5e20476d7cb81f48b17b42f18b59052eced611b4614417068b0bd04a4a47831054db7020000000300acabfffffffff36a7fe1822c51c6dfc8e7e4c9ecb6fb790bf84b7b5ee7286accbe366d5df3280100000006516351abacacffffffff4a6c1b3f05aad41cdc57a04c847d4c6a2517fad43b72e04f43f9064d40a727db010000000551acab6351ffffffff1b11a90b0a9b9fd74e56da8b380351b686d66a32983e1e3eeffe2b12bd2ca03d03000000055365abac539750ddc304e5ea550000000000035351651e6e1f00000000000800ab630052536a6aaa9a56010000000003ab51acfd96d90300000000056500ac5251b7792e26',
+    '6563516a6a526300',
+    0,
+    1008207055,
+    '21b72668a9ccd4fb9f9a1d0f67e47d1009d36e0ae6018c2ba82658feeb682ccb'
+  ],
+  [
+    '14f29c0501040f8fee52e0be4bbc521b5bd3d172bedeef38c7ce2799d524272716789a8dac00000000050052ab6aac1f65e87e0350ae3e000000000008ab63635265ab00ac204e2d0200000000056a00535253033a0f0300000000045265ab63113b4338',
+    '6363ac',
+    0,
+    -1105168316,
+    'f7fd133c82f68f8a6031524b6aead2622367521ed2b632d70d5e9750cdff87a2'
+  ],
+  [
+    'cf8d7046016c93fcedb341d664ac9ca80fda07ccf5e6834b0727bbea58a95e641707bd4abf030000000663536aabab51a98ef6cc02445784020000000003656aaceb7cd90100000000076500536a65526a2f0fb198',
+    '6a',
+    0,
+    -953713807,
+    'fc351fa67b3aa151c6fc93ef0874fa1aa2a24362548b646943cc411da4de2f70'
+  ],
+  [
+    'f659d47d02603091402ccfbbfe717d483c42e9404c2656c174a037d766b55f85d470d9d9f50100000003abac65ffffffff4ec8da0d6d9f12beb26836e002384de823651962694e223eb281f18877d5fc1702000000056a6a0053acffffffff04cf43660000000000010041abac0300000000060000ac006a51d43a4a01000000000753656a5200536513389f050000000001ac00000000',
+    '520065ac6a00ac',
+    0,
+    -621928847,
+    '3406b6fd562537a1adab32c80689a695652d4771f928ae3849cc94cacca4bbcd'
+  ],
+  [
+    'bfc1fade04c2783353f94d7d3e504276b1edde63f777c3551bf09aec1f1bae9ffaee8d9abc0100000008ab536aacab516a00ffffffff692abe8d2a1c7f96d61b0c8c5d8807af257adb4aa058c99ba7edbae8d49118ae0200000006656a6a6a0065a34e62a4fdf0313840bf6cb9ac8b5da817ef4bc1c7e79da9b858a0ba22156b025d6e83d303000000016a1a746a6681741b7384b3a083bc67b3b7c12bb734e891e84a0293ce9801ed62247c972e240300000001ac400bbb2301570c0002000000000038dbc0c3',
+    '656365',
+    0,
+    1879809730,
+    '4dd9607e5d25ac3515d2ddcd73e8fa99e113879a4254dc64bcdb7bb6d1390364'
+  ],
+  [
+    '6995e1c904fe7a728ae00209d4e2c79ffb7d390617752789dd558ccd5c6dcd67d9e61622fc010000000352ab532c2f93ce92fd778712c327f0892e0e8e8c04e3cac3fc508fdf611e7fa7ccd11898d9d3c00100000007ac53636a53516572a5e5d95b1e65176b9164d3d8a3b391a879f6da0d1c61618596a9d48d17245717d02ac200000000066551515365abffffffff1fcad743c4bf5186231280fd4e5cf7c14e73fae087c4760f5b98188a499ff6d80200000000f9b4894c03fff8f8040000000005ac5252515255e6df0200000000065300525353ab5c1874000000000004650051ab9faa8e21',
+    '65',
+    2,
+    -1731271586,
+    '4615a1a7059f49b5138f66e6baccd502d87b5138cf724225fa04b915cc759234'
+  ],
+  [
+    'e7552bc3036d489b8f5f6ce4c45bed939e9787eefa239bf525ed56f25a4dd61930c618511a0300000005636a51ab65ffffffffa2eda051be8129c2d46304adc6f2609fa43468fa34b8929ec68d43d7316b9c5b00000000055300ac006353bde7f568b78bab1df0a97268f7cdf3f88fa5e6979c2af4204def1aa59fc89c4a086d9e0000000008acab63000063ac65ffffffff04f7e15103000000000763ab0000515265b89feb02000000000563536aab659e53df050000000000ecbfc5010000000008536300515265536af895f8ff',
+    '53536500635363ab52',
+    2,
+    1186243940,
+    '27b3e7a7924a6cabb9bd977a01cd1950251167b8d63e3082bf61785d87a982ec'
+  ],
+  [
+    '2a61b52f02be89426c08eed4b8e38cf72938727066728a508c96d898e7097fee2c03e0bfbf0000000008abab526a005365ac092bc7b844cea859aeef37c0b651866c382a7d0b28987310009dafce41237f014d42db0a0100000009530053650063ab656550bc5e53014669ff0100000000066a63ab65516500000000',
+    '65ac63',
+    1,
+    -1692627743,
+    'e1fe9691378cdf7339ef34ba0c28effe0a423dbcc94172614d20dfdfab25afa4'
+  ],
+  [
+    'bc1c5c2904cd54b80ab2380ed0c903d6d9c13711ed5c9cadef30f7c14d10a758546dd55e8d0000000005ac6352ab516ee5a8b89e21593d066b76486a16c0a11cab869cf882cb8039eda48ca7159672d2f0584c0300000005acacacac654d409dcfb0384188bca6088ec77129cf5b4af25ae72f3e02b8c8bb9892149aaea9bb4d5a0100000009ab6a636a63acac53ac305e4f3c323dbe9cff9f6d0f3597bb1822c363138b7947dda0cea1d2e15b0e6ecc6e3c820200000002ac533be8356c023bbccd0500000000056353655352d4e6c603000000000551ac650051a8121794',
+    '00ac6a530052',
+    3,
+    -1567938194,
+    '0b551b38421cb359f7aae2c9085a7094c5532922d6e2974ef8aeff701aeb48b2'
+  ],
+  [
+    '2b2278fe034ef7999c4cd5f1310d220178d9c36f9959612a56eb5c09df8291519812f7eb6802000000066a635265516534149c77d7e91e11fc971a69545cea9599001d19c586b31ad719f3fc06381491a7beea1b020000000551006565632f7e51ae14c2a2bec867f139bea001ccc6aceb863b6f28da92698cb99c68135b18e281fa010000000900ab53ac51ac65636affffffff02237abd020000000007ac65526351526a40e8a9030000000008655300635365ab5300000000',
+    '526352',
+    1,
+    41332929,
+    'c05c62661dd2a912580ef3c37ff94b5df20138e9fe6bc97d68478fe4593a75df'
+  ],
+  [
+    '94b30c8102cd3b6992c7d62c132bfcf4a7f8d50a28c6dd57bc818f9996c640390a6603b55700000000056363516553942c8d55e87e1b76a592c6d94a0e54478a286571d5f5e6a6b59533a7d296071c5b7929d001000000026565ffffffff02ede431020000000006ab65ac63525275197e030000000008630000ac53656a63821ce8de',
+    '6a0065abab6a52acac',
+    1,
+    1923372023,
+    '692997cae1b81347c3b136a482718ced50fe16e6a45a58ea7083073fb970002c'
+  ],
+  [
+    'd7e8af1f03b8de97ce717a276add6472183a67d07e490a8e810d64225b2620b6d735aec85a010000000852526a6563ab00511afd4f1e521c531da3ebccac04bae024a33ac640328f5774c0d8431e2e6d7a9459067673020000000852526500536363ab149e0ad994e928514b1c0b2ae43668ed829175881de67410e3399778344d2b15d513ecfc01000000070053abac526aacffffffff04df7bc0020000000007005153ab52525168678a0000000000036553ac341d4805000000000263650a4d1b050000000004ac53ab5100000000',
+    '53ac516552516551',
+    0,
+    1349136583,
+    'eeee8d4c81535100ee258237d11238f0752e7e2e39447d90ae940ddc0b869b59'
+  ],
+  [
+    '6539aa330304f96c5a7dda59868cab08a6b9a31b649d7a6304fea605aa6a58611f02369f0c020000000265acffffffff9fd1b29581c88a9ca3e29b72874137275876690315e74f1b9025f961e0b951e00300000000f6ce3a58149ee883517451beea2822cca72d5b0c8a2415ad457fb8a1c3d7bfc9ecb674b6030000000663536aac6551c3dd133c0224110a020000000004ac516352ecc8a8040000000009ab6500516a65516363db0920bf',
+    '6aab52516a',
+    1,
+    1706238826,
+    'af9c311795b758143b6e7ef9ba0e1043d9bbb14040e180350f39c28beaee3a03'
+  ],
+  [
+    '540b5bc9015ab47e5e690e59ed2d1764ad355414eecbe92a9d386303cbd467ff1e90167b2e020000000253acffffffff03024d8e02000000000265532ca163000000000000bf71a3050000000006ab6500ac006a53ea9008',
+    '5151ac',
+    0,
+    -2025477006,
+    '69af304d31a68ad18107b12f96e6f077c5796db3ec1aa63689d44000f4d5f124'
+  ],
+  [
+    '7ad2480d026587dcf0c5266fba2f22ef11b5bf82887984692a58bcb4002d74ec60af0b1bed01000000026aaca69764ce9353db5d03cbc94a4e8c2639be7a39d501ff597ae0109afcf57d6c36f7d45447000000000153ffffffff0204d4d404000000000900535251006363ab63b7de38050000000005ac5363005200000000',
+    'ab6a516563',
+    0,
+    -1164586520,
+    'a6ce382f0b558aa9482410c8700750e4f7bbfd64483c8893bb9e997ee7575f6a'
+  ],
+  [
+    'baa8606b040fc7a729b6ce836f42b117a154761560258aff11b21445c07235eebe600da2bd0300000006ab00526a63005ae3687bcc105118af0ebcf7f6931f90d3b764f161edcda3da1e2203deacdbe25c42482c0100000007ab0000abac6a51ffffffff01c015d9be32599e4a375ed40d163c252618ef4e802544fc8a44cc2655a2ae11010000000020e6b1e5fe0e9258db1df434f5c26a148c9a896a17dd62786ba2597cffb3dd1bacc00c4300000000086a6a63656a65ab6a06d2cb0d0132015604000000000951ac5365525251535100000000',
+    '536551',
+    0,
+    204224734,
+    '4d6171946bf80b12bd7847b80537f7b7b76f57d5692e90869b377b7f1ea76b6c'
+  ],
+  [
+    'cd512976048481bfb784090c2318f79df6f4c6aa00d03c43832b4b4af886ee383da82319d40100000004abacab65be4c1adcb890c3715a5845aa0cd038b365c15ef8abd1bb1c4c169f57608dedcf535790b9020000000252abffffffff2e195758cf857f56ed513d18aadb65c6dc3be762703ac7d169d50ac097ebf796020000000465006a65ffffffff4f8251dbc24c7f8a04b2525367fdb5041d3ec7ad08acc5640125f4345fc8823003000000075163ac51516565cfe235340278f13000000000000953636a656500ac6563ebf2a1050000000002636500000000',
+    'ac63ab65536551',
+    3,
+    2125510482,
+    '7030d1fba2daececcbd5de1a8cbe1333b48f62425d93a477ef34dfc09a131151'
+  ],
+  [
+    '5d7d32b503c9a30a37e63d279fc40ea5f6f2cec3fce91fc48f9a9014a69552c5c6d59f705703000000026351b124f238e8aa096e1c92af56dc728a60506d07f9fae735307c634bce6cf2a7e362c24b480100000007ab655365ab526590b07b3300f6e1f8a0b5b8acf6b35407693b872eaa102c6a03a024b96885053850b2da4d02000000096a53ac0065ab5200abffffffff04b433c9020000000003520051b128740200000000046a52ab6a9d93b603000000000165f7c19d0200000000076553655165ac5365a7f3ea',
+    'ab536551ac52',
+    0,
+    2040198598,
+    '90082cdc304b4defbd7631da05131e8ba62a19f08a32996cd6ecb5dd58fa4ed2'
+  ],
+  [
+    '6a9028ce021c34890ad28948469b0c9442c7cc5c049c8f5105ab0f1105fc02c8e619d4ee4b030000000265006336a744dbadfb0628517fd31c3ea7ee62e48ea767483f26c16a5a35a0cf7d4c268aef6600000000066a516a65006affffffff01124cd304000000000863526aab6a0000ac86f3a910',
+    '65',
+    0,
+    1878773328,
+    'bb61a827dba9e908f302749796855c18d972191fcb8069ae6a1732352ecd3088'
+  ],
+  [
+    '1fa849b8010d3cbfdd3ddc9d8eb73aad43922a65ae8ff2bbf48d840cf73c98ecf80e0f7a370300000007ac6553526a51abffffffff02a47497040000000001ac71c727050000000009656352ab6aacacac526d607d14',
+    '5200636aac52ac52',
+    0,
+    775791965,
+    '8a922ee50e9ed0c7fb9b8de51fdc70d5358042d42e02d9a073a9b37e4c1ec8bc'
+  ],
+  [
+    '79288a1304f78641d7d385483f958436ad64fcda99d4bd94cc0f4f845f92bbb9c34bae546d0200000003515351f14d63ff354b927d6e12147744c25e9aa58de29dafc88f39629f6681182b9983b81c8265030000000853635265ac536a65d6b31748fd7cea5d471cebcefcc513f17579ec2234822af08fc2fd1db29b7167411f0ceb00000000026a00c8593d27614c969d1c7eeb72db4a481ca6aec09024b02ddb829de912fbc6d8dc94f7561303000000026553ffffffff0406d69b02000000000152cca7f80400000000008a4a2803000000000963ac6a636a6a6a656387638d02000000000352006abde39dbd',
+    '',
+    1,
+    839857915,
+    '9f09c6c9c7a9da8f15efb19311dfd939ce8d69fc1a6df4997c200a7375d333e4'
+  ],
+  [
+    '208b7bb503c3e3ad3679235e6975cccce666481b34ddd1bb9e8589f71da5fe0e663b84cc4803000000055353ac6565ffffffff56072b38debd9621201c669e95f1f99b40817ac4a69b1d118445c940ed3274bb010000000853ac656565656a63ffffffff713e73337aa32e1099be44f48217d1da45c68dd998f240e8ddf0592db16ebb2d000000000452636351ffffffff02368522020000000003ab5251a917c005000000000263535aa73fe6',
+    '536a536552',
+    0,
+    -503008026,
+    '303340db5c16f9cc1f66a0681fcb488a319e552132c45335e2e8c84aeed77ab1'
+  ],
+  [
+    '3e9749400474966803febe2d9315e2f3dd4a9725cda15e9805168e0d2f83eadf1ecea61310020000000752ab6a6363ac6a768c392748c77dadcc36d09e16f59ca43799ac7fb4490599b1efa13e5e104f1f8272f0ae0000000000ffffffffbf017c939e722aa217278a2235f4868fb879369b00ba5eca99b75003d05179da030000000100607593ab9e7e09d3c2c558b8ca8129db4e785a9c4089870f61905bffb411b01c718021460000000000ffffffff0311875205000000000463535252a47c6b000000000000ff869705000000000963ab51ab635200516ac8deec22',
+    '6a53ab51536500ac65',
+    1,
+    -477215642,
+    '52e4b88cf8b70be52236902a242c4e9bae449ebe658aac0a38bc8a9f757ceb2a'
+  ],
+  [
+    '5b2bdb5a040b5f1a2db645d86d44ce3f18ab1a143208cc023ac121081db13d245d141ced5303000000026aacffffffffa700527860e10f8a5010af7e97cd60fb32495e0ecc9a05dc4b684eb6b789a02c000000000553ac6a6565ba026c7faecefd002b4e8f46c2bf467689e486a0564cb64ca644ce4408c266f03d7396b403000000026353d67b3fa2ff4567d32a475d71039bb22c50440d434b137b32c6c73416c977f293f18a60b00200000009ac5200650000526552ffffffff043e9fbf04000000000953ab00ab51ac526a52d3d4cf040000000003ac53ac92b8d003000000000852ac6a53536565ac25db80050000000009515363006a636aab6a00000000',
+    '6a6a',
+    1,
+    276215140,
+    '13964d749e5c7f8c8ddfa59a18f42715ec0c510824bff8d4cad4717ea5981b73'
+  ],
+  [
+    '9809187c01b850bbea4e36f8f95202259d1fd5263d0759788213500419f512fc2cd6c7a3160100000008006552536a6aab63ffffffff0111caf7040000000006536a53acab63be507636',
+    '005253656a',
+    0,
+    984164416,
+    '4a2523b2c7c8828c7fb7f81430c9008af0fff006f0b44651961d60a84691cb38'
+  ],
+  [
+    '3d7fe5e7027d3e4fa8749f41cce733ac15f5835bf9ddbc505ab418e27ee01f134491455e11000000000153ffffffff43ad657f30bf9fe0e3ad459edbf0bf6915123836460f03219b1f28b0255bffa30000000007ac655265ac65002d7c8b680232a71204000000000451515265fdda50050000000002abac7777474d',
+    'ab636551ac',
+    0,
+    -1290573211,
+    'b7c0cd07a2a5156fdf43f70f7e3c9ea53a2f5bdbec571c2def9bac29d981ee72'
+  ],
+  [
+    'f885ad6c030107c64b86bc48d84d6c4acd38e821e1fa4f85ed526bb22ba44d6cb116cdf7c8010000000752ab5151516363ffffffff921e29e88ab04d8151ce94b5c61bf887cf62ae3c2ffc65f9bd9282b9258441f202000000060063520063636012b9cdeabdc6eacb72a9ac392bd52b4759106ede71723590f6bfb9651f5e2392f458d4000000000153595c224b02d59f9f050000000003515151765cb7020000000006656a6a51525200000000',
+    '535365ac6aacab00',
+    1,
+    -674909570,
+    '4c3606fc55f70cd655a10d60df591b29dcb063d47f097edadb10b51fb1a404d2'
+  ],
+  [
+    'f1a2a351018a997db9bb2035b89e41b631757375f15f676e626c678d04561311be453532ac0200000001006023c28804a16ee405000000000565516552ab9a934c0100000000095365ac52536a00005356bf840200000000090052ac6563acab53ace5dc4a03000000000353650000000000',
+    '00',
+    0,
+    -1986332942,
+    '617dc81d4a9059a568e89cd2dcd79f60baf394eed58d7f9a91e443e404754502'
+  ],
+  [
+    'e99d6ad103ad4e3753a3e8c070f79e00293160201fe7a5334d690a399b961b0bbc8a9459860200000004655163529de4fdb090472d91db8776e81ceffebe698419c5ee30207c962b847817c0045d53fc7f940200000008005251ab525263527a4d6de7c7771be105666aa578cbf9165af07f44c3bdecc67de82febeeb103bb3f29a6b60300000009abac535353006a65ab8cdc710201d3f5a1000000000008526300656552ac65f22b9ebe',
+    '0052abab',
+    1,
+    -380169134,
+    '50605a31c75b70829610391146045ee6b6f24cee26f672bbd54ab7d758f4f173'
+  ],
+  [
+    '5c48f083042cb30d28cf8fc46af40d04629e1162f58f984a5042381405a5696aec39ff049a0300000000ffffffff7786567b8ff8c3f2de57b4b75932a5481f72076773b2999a84e428a3a0134a400000000007510000ac00acacd28f2220424b42ac1a8bb902fc58ed05ee83dfe0a682edee5f4d6deac6d1b0ea6830bd460100000000ffffffff4c0b935326e7a9f94579107d04ad5a5ec65f448ad1914380ead5abb5a8e8c7fa0000000003ab0053ffffffff048ff907010000000007526553635151635a456c05000000000300ababa7db7f050000000001ac4992d602000000000753acac6aab53526cad98d3',
+    '525200acac6a6553',
+    1,
+    -523524149,
+    'a6f50ba4f92c483ef69c8ec7b2d29fd63b3454a4306e4866afe1576eb76ddc92'
+  ],
+  [
+    'cf40dac5015c236ab2996223aa69d414c72a2230d0aa8acb372a7356ae9cdfc53100e958ba0300000007510000516a6a522784fdd2048db303020000000007acab006352636596fbad010000000001657bd81300000000000015ceab040000000002ac65cad9821d',
+    '5200ac52',
+    0,
+    622176474,
+    'fc337ef03bdc89607894ca00ffea4f24e3cedf456718430cf808e1d994b1eb45'
+  ],
+  [
+    'eb52f530032c82031e64968cee204d8d05f8cd5ecbaed42332bf38ae0491351f4a669bdb4b000000000553656a65002e794d5dc173f313e413a51240a0f1bd87712f176b30dc5e873209254149b29e36df6f070000000009acac00636a6a525353ffffffffdf066546d44867a293bc48f6cb0a400174572068afb40c8d71b3e534751086ae0000000003acacac82af464801b7ce4905000000000037b73458',
+    '51',
+    2,
+    -157415476,
+    '62338ad6b9bfba626902b0ba4eedf1472ba94149fc938b3b37a69f8a6771470d'
+  ],
+  [
+    '51c4407602551cbe69f70f8f0c3a2da5fc3dbb7e6f62dc6a75aadf95c72673af15347da984030000000763ababab525352ffffffff53f0da3836fa045ace8938601068fc45174e9ff7d1c9ffb4b82505acd14a8df9010000000163ffffffff03f6cb9104000000000800ac65005353ab0080038400000000000663536553656ac01d2c01000000000252ab31790c30',
+    '65635265650052ab52',
+    1,
+    -2055629863,
+    '16d7b58d70901575c94e8d883ca60b7430737dcbbaa761a00e2c6622a3a57fb2'
+  ],
+  [
+    '28293a5404470f3f03ede35f65bf95341e5c9a132346d715dfdc0a3f286fe534803fc1e56102000000076a535265abab63c85f8e41705bee4a8eb211137ad565eaf8ca4e8850cc6ce9bfcb9083d756e98a747002f60000000009acab656565ac0063abffffffff4edc86c0d12b4754348cf9bac4569419dbf50c1d29bb0e047512a4b63597410b0200000000fffffffffbaa68b2abb3a350854f5c3827605a622e08f7f0c6854a71bd848de38888d8ce0200000000ffffffff04afab61020000000003ac5251213b6c02000000000852656a53ac516a00101d4a050000000006ab6a6353526a19befb03000000000965acab51ab6300516a00000000',
+    '51ab5165ac5153',
+    2,
+    470205652,
+    'd3c945a46a393c35af1901c7a499a8c524d3eab018dcfa1af01f69fa74652cf7'
+  ],
+  [
+    'ece343e90139801bb843a3114a5cfc9b2a91b26c3cfcb9518817255b1fdb4fd2ff6b7c7cf500000000025251ac1407c304b015820400000000076a53516352636a1cf6a6030000000005510052acabd0e84e030000000009ac6563ac5163ab6551e06d8e030000000001ac00000000',
+    '52ab6aab51',
+    0,
+    -1689869724,
+    '681e8373340cfb397991bb2fb9b537bb06fb100883b43e8b78c859fc7608ad19'
+  ],
+  [
+    '798aa55d03eedb20ace384c768648ee1c811c715fb95f9e8325a9a6f362b167780c453b17c000000000452ab52abffffffff2e978ed56bfeca15246eb120f3c1a583abc97fccbe6010a7a515632a5a746ce301000000075251ab636a6aac8b6787bc7aa195078675829c91384897dd8e4152c06841e0c05bf661069de199747d33af02000000060000ac515200ffffffff02e2a3c7010000000004ab00656aa37810020000000009ab516a6aacac0052652e3f2ca8',
+    '65536363',
+    1,
+    111197516,
+    'fefe976b6ac5e3a76b0112ae64016ea756c54f5be74877d42b166fe147b6e985'
+  ],
+  [
+    'a1fd49ff031c950f52ad72ee8cc9dcb35459c57b61ddfda9db5d7d235653145c3247cb639600000000095252ac636a6a6a006affffffff6ea43642d96c9e7d1ac9e269e5f4f3e46ff8c4060fccc0de3cc46eb03d4d2185000000000053c0d1111fd9d89cacfff55aebeaf383e6a95f997c5711deb421949b0dcb5716d87b8d1f02000000075200ab53ac005166da9b4e01db36920000000000085251ab006aab6a656533c26a',
+    '6aac00acacab5363',
+    0,
+    -344085823,
+    '438ac63e95b831516bd4022740ae046391b38aa590d5be160b6b0cf46a77319e'
+  ],
+  [
+    'b6fc1d5c0468a1f0c108850e84de4b0208743a5f466eda3b35c5d6fd6dfd3819f60f20fe1e0100000009acacab63ab5263515336ac81b6555db0d93ef9e4cdb4c128f955a6b01aed9f2c07f346343a440e249a0dfe29180200000003ac6a638dfc2846a1c40e5146c6a41a0236e746c36476752bbc4e404b78cb971c43ffd032dd00140100000004ac6553650b88b03d149060946b1feba743b6476280a89f4df6fd37930c444cda6f6be914bafc4424020000000452ab63abffffffff01e381ec0500000000036a006aab80d01e',
+    'ab6aac65ac516aab65',
+    3,
+    -1862194967,
+    '6536663396e43f66824ccfe206de84f8ee503723f5217d8f65172687a2bf4883'
+  ],
+  [
+    '7e1c48e901c6842e04acbebf25ff611fc6d88ae30cd7ed0f921c9b53fb2d50f10c71988d6d0200000000ffffffff0486c9b0050000000003526a6a417f5f03000000000153c42492040000000006515251ac0051db6dd402000000000000000000',
+    '',
+    0,
+    1702864107,
+    '41e1cfeee697e6d2b762a1bf62ac79208adf1a91b05afe929b532d29819b387d'
+  ],
+  [
+    '0146bbde02e4c42e99fd7cb8cb9f68c1e37643403c64b11f5cf7dbccb246a83146aea705eb0000000009536a51ab53526a636ae8772f7b9ea9f3f1b28f3cb3c315141426d0f53ebf4461d979c1e0470940bcfa3b154f8e01000000086a65ac53ab530052ffffffff0214e655040000000005ab51516563136fe9050000000006ac6a00acab6300000000',
+    'ac53ac526a',
+    0,
+    -769350529,
+    '91ce08561b4fa366fc50018be2f69102dadf98ccad340534ef7e71cd178674c8'
+  ],
+  [
+    '1327f8c40216dfc5e314d0511d91f9930914b0d32707b3b2ff15a3f1555a0d442d0942acdf0300000005536aac526ab46b7f4d734cf91aa12d75be862dba97cb1e77397698f6946d75a948cd9c3be96672397902000000076a656aac526351502789f504ed52ca0000000000020063e84bfa040000000002ab510b387f010000000006516a00ab5163488555000000000000c5858f5e',
+    '6aabab0052ac',
+    0,
+    1175943244,
+    '1b4abd1881579bf42625565f8daddd2287008a9ca44412b3564bedd0b7e29231'
+  ],
+  [
+    '356b125b03765caecea418ad11b6e26b4c801381fb71001d63cd62ab01331b5d70b54c150f01000000076563ac536a6365b005d06519a4ef2a32e10c3e4f07582f81e0a8ad8f12eb08767ebed561ee92eb013cb9b1010000000652ab536a5265ffffffff2e34ce72cd03f74581a383d30b87ad6873ad51f18142bd58044f39317e7471a60300000008536a0063ac00ac52ffffffff01ad700204000000000163ce0f5a1a',
+    '51ac',
+    0,
+    682690923,
+    'e9bc99382b3d718a95ecd11deaa6d95ab9263618fb8a4e0bba851722317ea36b'
+  ],
+  [
+    '437240bb01d5bd8d4f3427bfd57050b7371a73b1d7da8518f30a04c2868c70c9930932f0b40000000003525353ffffffff015d1882040000000009536a526a6a52635165009c5af7',
+    'ab00ac6552',
+    0,
+    433644485,
+    'e8feb49ce7a2bef651c4a74bd778c9182340f8c0494792794bb96602cb312970'
+  ],
+  [
+    '0084c2a6041cabc95b97c34df20598777cdc6743b8b180cb1d6286588e91e5887c02adefe50000000000ffffffff95099d89b9fe635147825d7d912c33d83b1e1e1f90418002bd8a0d18ef401258030000000200ac3d24d18542dacaf83c86fa0ed27bc66d9b069f1c3e8ae56d2d8878876b36c9e173e57bf0020000000752ac5251536a6affffffff56506d1faf8bce4593ed2da5d2a019ab1f66790c69642dafd473c8a6bd99b64c030000000800ab635163535253ffffffff02be63dc010000000006005165006563b78bca040000000006656aab516a63952ce561',
+    '535151ac',
+    2,
+    1450556129,
+    '0ccdc1205fce33ed5a9862328464b00b2aded5a6f927d861b950fa2d169e5ee4'
+  ],
+  [
+    'a0bd2e5e03037b3d5f39011e6b779ab914fbfacdd6f3c89a3942655cce4f09c72e64f71510010000000965ab536500515152acffffffffa98eebbefeca22eb5763e2c6ffda40376effcf1495ccc296bcc7fcd601d592f603000000046a51acacffffffff918601e81040401706d7e75f517f0bc7fcbb9fd8a6fa3ee8436a70e8cb3f4932000000000963ac65ab65ac525351368f9aab040ce4ac02000000000165fa279b050000000002655313bc1b01000000000851abac6351630000f4a99c000000000005ac51ab63006657f9c4',
+    '6a5251516500536551',
+    2,
+    -470065854,
+    'f08321c9020bc85e763bf679a6b0be21152aafd11cb6295cb1e92f261fd14a43'
+  ],
+  [
+    '8cead3b601ec1ef759600908ce5e1c618e348786dcdcd414907a7d131d9f4f6213f9466da8000000000400635263dacf299b0301da34020000000003525151eb4ece05000000000965ab006aab6365ab65246235000000000002655340fa0823',
+    '6a',
+    0,
+    794961149,
+    '038be12a529813e970901cd6273a81709720397744802c37ce85442e539a42ae'
+  ],
+  [
+    '5075bb180293bd46aea174957a72f413b2ce1bb77b1c21d76631f7f23e4a93270c3bc4162e030000000900ab006a5263ab6565526ab9043377c0948b0dff935c4da751ab61f1c1ba03a5cbc1d9e7142bbd423e186c9a7d030000000565636500acffffffff02d7479a05000000000400ab6551a4773402000000000600006552535200000000',
+    '6a51ab00',
+    0,
+    -28056125,
+    '0ed28ecb98e229e02dd14c28e0f25f88704916bc4f28b66ad71791c6000fd3e5'
+  ],
+  [
+    '341972af0196d81df5672495d0cd9dc3bf9527715e0399265ff435c93a88798d143ab53a4403000000020000ffffffff028fc6c10200000000055165ab6a00c0eaf1040000000009ab6565536a656a65acac7ee8a6',
+    '',
+    0,
+    840466269,
+    '43224bbfdba3b66d24e7446e6cc90b5568cc62e5b0e58cbb95971c5678ef3467'
+  ],
+  [
+    'de41a59e0214cd40ebfd6da150d4776ad9ab95eeab7ad7171665468508786a8169efc79946010000000152ffffffffd29f622123ed919e7f421d667e3c154db1c4296b4526a781bdf6c474fde0fea5010000000853536a6a525300653392b8db02782a24010000000005acac52516a06489105000000000865516365526a00acb1ceebed',
+    '52005365',
+    0,
+    -1948942395,
+    '82063b773ee00370119bd7441daa711881c9b44f6cfa7bcecdaac37cf8c110d1'
+  ],
+  [
+    '27ced0d201b9218ff20911466fe762d561fc413410f7f4a2ec4e0700fcdeff003ea7f93c9f0000000003536565ffffffff0236c65d050000000001003a03d20300000000045200636a00000000',
+    '6a',
+    0,
+    1176070124,
+    '454e62a05ddee4f1b586c13e394894a9a3e41eb6155052d025069fec99c6b44c'
+  ],
+  [
+    'c56d76fd0209d755452cd3a80ff61d46438674433a9244677bfbac2bd017f3ac574e4325b902000000086a510051636a65ac5fd269a5f1e7e5aff088494d040592487cf8772f9b276041ca3b4b3d065cdd08fae5a64c020000000452ab5363ffffffff04b785c70000000000060063ab5200538881520100000000066a630051acab647907040000000003005251f90c3a02000000000752636a51ababab00000000',
+    '636a516565ab',
+    1,
+    1805726933,
+    'fa4c607cf62d223e8b87955e1f252713697291bd7f7c27ae1c28c00cf118cece'
+  ],
+  [
+    '7e41db6f03e966fdda416faf34ab4480f35d36fb11a0b5f8212eb683f0cd9075973a4a69d70000000003abab52ffffffff136e9e0e73802a02c39ba220102b0e08f88550e277f0e46ea671ad0ca4bb195d01000000020052b37f49afab570235a1df1990da27b7ea7e24e5e4e3f70890d3aa686b453b80900cb8a7fd0100000008005263ab526563acffffffff04c1d42d05000000000153624b6f030000000007655200526a6365240c3f000000000000ed7b58020000000003ac536a1eb07186',
+    '',
+    2,
+    1709251434,
+    '97331f1eacbda19e7b22e2dc26b73469565018cb47c295fcd1c7cfc15fa0ada2'
+  ],
+  [
+    'db663174037ac5fffcc3ea1203df51b3bac5e7390a982e0e44600bc141151258f26ec457b30100000008ac6300ac516a0063fffffffffba2c8528f0df429c9e8ebedfe01630aef87424155d0b30c801eade209d4cac600000000066aac5152ababffffffffc05490ec0fd9f66432540fae067bb56943468cde511c19b5611bfc55570af5aa0200000008ab5265ac63ac6aab3fa9ae720466cf5d010000000000fc0b6e0000000000096363ab005251ababab46795102000000000300ac6385a69b0300000000030000635e28cd4f',
+    '530053655165',
+    2,
+    244944618,
+    'eb13336ec4bad68d4fba0c890af00327adef5155f63572ed159174d85ec5b7a7'
+  ],
+  [
+    '440d48de0145de53ba03a07509c0b6cb1ed4ef04ae89c2567f6b6fb1999a3fcafd33acbc47030000000153bddafeab04c587460200000000096a00525351536aab53b24fd600000000000152154f9e0200000000026a53a0ff94000000000006acab6363630000000000',
+    '',
+    0,
+    -1880184486,
+    '1fcea898123000b4c523ac0688af93b84740e52285f6dfdd1be58f79438e6348'
+  ],
+  [
+    'fdb63e01038965e82c4cab5e01868bf30906bfe2c5fdc3ab14c8c568b01eed03cf6b40878702000000016ae6d1764a113abf95161a7abf95b681afd5781b879802632e5d4776bd4e5afad774ab188903000000086a635152abab5252ffffffff8e52d89e5fbffc7b2c27012ef12d3304e3c5adf0a677cc6290e271d8209cdb970000000000fc382dc504224dad0000000000056a636a51515fb43a050000000002510071d83f03000000000565ac00520056ee86010000000000ae0689ae',
+    '65ab',
+    0,
+    130259699,
+    '367e21dbed7eab50cc00f30dc38e21354ca4deeacc32c35f281d2f1157ab8852'
+  ],
+  [
+    'a3c776bb02fe6c41f5d651edb57864bf6dcbe68ba42a7ad6d4c68e911aca61d1994ee760d401000000016555fcbfdd0e81adbadb7d9123e28a83ba55b9ea4cb6af8cd1c669be487be2266775554acd0000000001ac7d59bb38010fa0aa0200000000066353656a005100000000',
+    '006a63656a',
+    1,
+    -1934574010,
+    'fe5ee58c623fa03ab71afc8a0de68441106c1c89dbf5c867d5902583a824668d'
+  ],
+  [
+    'f2ae7f0e01532603d18fafec305be22d349bee202db7fd18edca2360e9b24ac7add9688b0b02000000045200526affffffff02018f7e0300000000020052c1d9280000000000016a00000000',
+    '65ac5365',
+    0,
+    1889845099,
+    '79c41acca813eaa5dd66898395bc5edaf1545fec3ba902d4c53bea7a46d27e33'
+  ],
+  [
+    'c74f200a0377ee544a65302d70f94e9cbf0f72520d56d0d44fed9bb5ad29635143ba8766fa0000000000a2ae0dc7a5df6422df9a0f9f3016de686a66b024ba82227dd96d427fdb0af6df43a69ae1030000000965006aab6a00005353e47a03597fc0256655dccd2f03d942a3cbf481c07975c32043c469b52a591c9cc2ce79350000000008ac6551ac63655300ffffffff0113ffc605000000000263ac00000000',
+    '',
+    0,
+    1484619391,
+    '6caf3b57db491d9e27a09bb6ce984a2fc33e79a8d8f4e86c242a422e6295f7c9'
+  ],
+  [
+    '2948919203222cd14f135a3032e76dd35817d8b060ca74a0863c7f41dfacac89bc33a2aace0300000006630065ac51654d24c7149013cc29d9384846b4ec279bb3c8adfef69bf3057d4af9c64fd913947fe557030200000006abab6a515100ffffffffaec9bc7dd90a11078d7fd2cdbe928cbb29afb4bfcefe7477642de5c0914b27510200000009006552005352536363b328131402da0aa404000000000953ab65acac52006a51985e3d03000000000900acacac635351516300000000',
+    'ab6552ab526a00',
+    2,
+    -1760535206,
+    'e630dabca77bfb0dbc59dfe5927f82f931b489db2a5d809a10ae45cdd77efcde'
+  ],
+  [
+    '2bff1a7203a609b02affe84080b215064bb1b91da69fd8470a6805c2603e6966752fb5d10600000000086a6a00ab655200acffffffff97a67252d069978a77f20c04dcbcda7cc247b895f80b9a30bd7d661399c42819010000000963526353ac51535252c74b8a67afdede9987627f6affba5bfbf4b0171892b8fd96abee88e08095cc10a53313ba000000000700acac006552acffffffff011816d20100000000046a6a5265b1d1090c',
+    '536552ab6a53630063',
+    0,
+    -565363205,
+    '1e5e4be3a31b5614f4d85aeb0a649ca04cea4a00f0ee6d1d44d69c30940fc4ac'
+  ],
+  [
+    '2a590ea8033f1b7ecb6f398ec6676cb6502de811af0777579956d773bb0dbd7157fed949e9010000000765525165ab000025ce4f06768a0106f09f2adbb9a35ba12dd731193afc754976ef31b87ffa6f004da49c6c01000000008aa9207a9d8775036b38cdd2b382e35caa77c947e7f0f6c951b6328a381102dace38107702000000076353636a6565ab2b295ad704b0b5900500000000076a536a5151516552fd60050000000004ac63516aa9841c05000000000763ac5365006553a35d990100000000086500acab6500525200000000',
+    'acab00acab6500',
+    2,
+    869635149,
+    'cea3bf8dde18299be5734a5a46eb3e8b5ed014bc25fd9e82de5ec9a21194422e'
+  ],
+  [
+    'e6b0b4f80233f7cad63e5fcd843a3a6d42c80b5b7e7bc4c43a0d9d20c478263b7e9fbbd005030000000653006a51ab53ffffffff5e0a89f4d645826345cdbaae3e5b96d3dec27c279a90b5ae1c0949df1c691b53000000000451635151be789565023f704e01000000000963abac52ac63ac6a53e28ba50400000000086a5300636a6a6a6aa5209ee0',
+    '63536a0052abac63',
+    1,
+    -1850898621,
+    '3aa9c3a3f472d2e07f0c71daaf37d9959d6566f3c4e07ac761350d219bf413d3'
+  ],
+  [
+    'f07465a602a1eca6e0b642d14a79349d376a8eaa19ec428a162206703f4b313706d8256c650000000002ab53ffffffff064e7d55b508087684de74f906c8a427c8f4df601596119de6f0744d723e2557020000000152ffffffff02094bf402000000000153ca3904030000000003ac630000000000',
+    'ab51535265ac51',
+    1,
+    -431086777,
+    '920b8e9d47360fabd7ea439b5d26e0d9e00abce92074cfa264a7db869472bbad'
+  ],
+  [
+    'f7e3c469036cf3ab52121575d3ab29f81666c879de95a65c857651e4e6f96667bb6a218b15020000000027c3cad68f4c313f0356da2865a2cf48405412041e0b3b2a7b490d41d0abac1cbd13fe6c0200000000ffffffff49cf65d8e1d46c5f90aeed076d3a1b8c473fc49a610a3898bb70dbb89312e21800000000065363ab6351ac5f36feb101dd8e470200000000055351ab656300000000',
+    '6353',
+    2,
+    651564244,
+    'dc8bf61791587ed150b969e892d147c5c2021c3e0add5e272a443ca93039a43f'
+  ],
+  [
+    'b2b6ebcf02039e414e34d2c609c2df19f61cb6f82cae1ba00824c96264f4f88e90580b0094030000000600006500ac53ffffffffe725be5e60bcfad1ac515b9ff93a9fc9da14995d6d67c1b8556cde1df5be87a60000000004515152526d68c05c04876b5b0000000000036351536d9a170100000000036351654026f7010000000009ac6a52ab005351ac5107818604000000000000000000',
+    'ab65',
+    0,
+    1980335853,
+    'aacc35ef405f2f54e0d9d94799fb2579fec74c2f065bce039bd93fadf38461a1'
+  ],
+  [
+    'f08379fe028e324fc5b17901fd695d1526bc8896b4183b20ee493ac1572e40f3bc03cea4a8010000000551516a6553a538976fe341bde37b4f8ce8ad2c4e2087767e1e0ccf0c65d4ad7e6c553c9d50ca38eb3b0000000000e4dc41720431a39b0200000000026552fcc42d0300000000086a6351655252abace53f38010000000003ab5165d552780000000000035200ac00000000',
+    '52516a51ab',
+    0,
+    -1344771859,
+    '596475093118375dfcdb127c3b0df1333a0fc6fdb3f54134bc2c0fb186800390'
+  ],
+  [
+    '16ffe45a0122403f00e019df6eeffdc1cb51c468bf7fd4506928c8d31a115e5357ccb30fb90300000004650051acffffffff0266839a010000000007ab5252655100636d89e0050000000007abac63536aab51f8b3d6b3',
+    '53ac52ac6a655352',
+    0,
+    -2048531243,
+    'f59b02357fd36dc5e46cb7dae2d84c8fad3b0a05bcd9afb213d0b1822e6a9dd7'
+  ],
+  [
+    '665fb19c03aa46c8fe66b1db6124c1529994ddda3acd9af6f947095d7dadc77a865feb4b9300000000026a538d40f75f252bbead84dd7bc3227d86feb492f03f529d47c95125596665a942ab926361010000000003536a53ffffffff70fd2722421e1910aafe7bab3f04957ce9ad5d2b62ee60e501cbd971da27b18202000000009f728e9e02cfd3830000000000096a51656353006a65abe6e4140200000000036a636500000000',
+    '6a00636aab6aac5153',
+    1,
+    -874372618,
+    'f84d7616d74ed64a825b1ce082fc934f7332846378e31511b55fba84d75fbedb'
+  ],
+  [
+    '0bef59ec041cc412b0be32762c660769ff9750dd843325a50148d31b9a60f2702ba65ddd4402000000007f6303fab006b8c2e84f430f545f068cc36ea7cd5da30c8f0c79f495de93a737401b374c0000000000ffffffff5c345401d719f4181c9782ad1a08aecc4f4dee9f0ab2ae32c4157576600d62c50200000005526a65ab00fe5961c0613f6bd5fbd3240ff29d01eac901d88cb97f9da059dcb58b8b0ec9c24a12069c03000000025351ffffffff0362d8060500000000065252650063ac88c1c905000000000900ab00abab6aab6a522223e2050000000004ac6a52002d35bbaa',
+    '',
+    0,
+    505306858,
+    '57c70ed0c2707f27a8288002c8b67e07194e107334aaca35f41eb095a3645072'
+  ],
+  [
+    '04ba147f0104e5d46eb322b4bbc36c7f6cc4ff252a3d9a1b80c4e00f70eb4dc151d22ee87d02000000040065ab6a8b95fae40121025c0400000000026a5300000000',
+    '52',
+    0,
+    -453751958,
+    'c59b2b5fd5b3312dfadd4a2c74f123fecc6b04e951951175e776c33900b2346f'
+  ],
+  [
+    '71c43bce01fc698ece88210b27c80e8d281f4e72f9bda0abd7e3864c24b48db6aaf2301e370000000006535363ac636316692ea2039347c1000000000002525374942c020000000004650000abeac9cf05000000000851650063ab526352418d4e00',
+    '5263635165',
+    0,
+    1256941529,
+    'b946693f1b77580465081f01f849d04df7a5b1f603fe744e29d55449259808c6'
+  ],
+  [
+    'cf5c38d001b983ef9a4d2733ef7bdde2a62c2efd7e94c732b000a3b0a8577e190434d11e9001000000036aab53301db67c029bbb21020000000006ab5163ab51abe9c07704000000000852656a516551ab63f1ee7340',
+    'ab536565',
+    0,
+    223879251,
+    'ff83ebbd562a38a8b00e90ca2b88e95e8cbebd9c728cccb3766442a882d595a6'
+  ],
+  [
+    'ed0f4305042c2e1dbc963f2fb870edefef9c849f0b300a993769ac0b695c18959a25ea28d001000000066500526500acfffffffff8bc178eb1631f80c2534d7fe837c8c1e753cb4c84e3677ec4e513ffa69052e603000000006f3909fce3cb1d0079881faeff6c286c2a29b50495344dc8f93bd90fc7d7f05a9a633ff90000000008535253005253ab00175f9843c075069afa67490ceb123fad67b9724509a1d48914e94878d6a4551d0966b0f7010000000553abac5300bc6e2ba603634cb7050000000002ab65da5c210200000000096aab5165656351636300a78400000000000000000000',
+    'ab00ac656a52',
+    2,
+    1055998818,
+    '3355a0bcb6e635ac8cf5dd08e0450a20caab6ecf4467105850d2d96b0cbd93bc'
+  ],
+  [
+    'bc1f06f90449039a5e6b4734cd8643af36eb51e2686f2aea6dc0671ba82394c781231da3e9010000000152ffffffffb07e9da6c7ca3dfc325c9ef8ee1853a9588b0e0d9973fa8cd8392fd62429f7f70100000001acffffffff5bc88dcbb614b2e610511c494c0864b45a7d6f25060f0ca54fb1a1817c1f82cd01000000016ab7c363e63d64fe0dd56be6fab52a33ce2e42db6362f7a55cd3961667156996bbb8b5a2480200000003636500ffffffff030b5c84020000000008ab63516563005151f54819050000000007536a6365525351c1abe800000000000000000000',
+    'ac6551',
+    1,
+    -1776636323,
+    '9c4fbbbe54297d93a26ac0d604d2ec8cf2235385b68bdc12bf67c97a31b0de71'
+  ],
+  [
+    '5e5eee9a047284d91b4342ebed024cbe3be938ceb3a3d3273129ce169b714d989c0a84a7a40000000003515365ffffffffde8e187ebaeb087929f5a329b8693666265f2a9231e8df3d05d3129f24e8f83a000000000200ab9a89205c768a77d08ef92a01649770084f1eb0b8a48f98e28cc3d1e9d0268e3601b034900200000007ac6a5265ac65515429d5ae61f87288c9340be37e8d364a0f690442324dd22470496f7e58abe9e1509163290100000001521987a05f0137e46c02000000000852520052ab52006aaeac03d3',
+    '63ab6a',
+    2,
+    -1726847766,
+    '3a0fd0d2cb40af18df3ee469599211acb6ad02549b8d6029b2045dfde0ba0822'
+  ],
+  [
+    '1ce6894601304b450daf7b43acb80947907dd2fc94cd5bcb1a385f7d4548119fd00a98097a0300000004526a53acc660282a04d58206050000000002ab63799979010000000006acac6aac6351688cf20200000000085163656a6552525179c688040000000007ac63acac65ab6a00000000',
+    'ac6a6365ac',
+    0,
+    -1497066422,
+    '593457d064e069c82fc6437fd5e5e22a6e6c80740bf9ae8e1a10c3174744aa5f'
+  ],
+  [
+    '1587593902454908fb1bd49592b292db938a33074b7810aa7b9aab2bc72486281c9109cc3102000000095265ac51ac53acab6af220ceb7c817032a67d45a42c06d43b42c3fe38faa18e6d7fc52899c2cb0267b49cd1e670200000002535283bf4bb40118f50a05000000000663636351655100000000',
+    '6aabac',
+    1,
+    653042791,
+    'f48895d18b132ebdcdbfb93f2b71842d60b52991fe8bc61f497628f9f3d8bc86'
+  ],
+  [
+    '24c8472d028ad1586904ec63d15829a7f60354a4eb07e22a383483a5528f99c6e75eeb71ec020000000652515265ab52ab17ed80ac5d80f92dc9740d2f230a84fd468b7cc895e57421b200112f86a20f0c6e8f5702000000090000ac520053005353ffffffff04b065c60400000000076aab525252ac0071a34c0200000000030063532ae398000000000004ac00006a6d782404000000000100db363170',
+    '51',
+    0,
+    255452359,
+    '934f422059585681d4f44a86832fb0735c223a2a5531476eb6329030200134dc'
+  ],
+  [
+    'db45648e035627eccaf947c28f67fdae1a6397a6d6098c0233204dbf1b1bc67219a513c7fe0000000006ab65acac5252ffffffff5c85fa70d3938dfb3e18fd42e67f6597da0bf6c242c79a666457d3aba15981bf00000000075163ab52635352ffffffffa306d3fbe656e5b9d0c90df153840fce10866ed67a52889163aa821be79bce8b030000000765ac535200ab638376226504ab77ec050000000007516aabac53005171bfb5020000000000deb1eb040000000009ab6a526a53ac53ac6ad8acd3050000000008ab0065ab63ab00537f2c6155',
+    '0063ab52536aac5200',
+    0,
+    -1826443541,
+    '66df833c2710335c139e21400fa5f70498304e851b3d6514537596f5b67acaf6'
+  ],
+  [
+    '727d923901ec99fe1d0635de9af7e57aa4d885a8353833196ab56aa773075f31c9705adf2803000000026a51ffffffff035e31aa030000000007ab53005300516a9d4aab01000000000353ac63d8f04f020000000008acab5300ac65526318ecec94',
+    '',
+    0,
+    -1243714846,
+    'e2f71d605e4a322bde55fc2a850a9e2b39963b2b2bef44efcdf2d4bc4504ae26'
+  ],
+  [
+    '37f3103603192ae12f8efe17dc0fdc80a3ac96fe3c868cc6568d22f6c22907f66a630b3f1a030000000865acabac63516553ffffffff9e59c6078a94ce22f6e5572dde50299e976cd0802ae4cbc94786bf8aa17fb0ed02000000046351ac537299233dc4ceb64d977b628128e4d456dfb6e06eb0123eeed5486df82d531b4cde6e52230000000005636aab0052ffffffff04b8fc450300000000056a6a6551654f2aef0200000000095165005365006a63654e7e580400000000076a650051516552b089bb010000000007ac53ac655165ab00000000',
+    'abac6a5352526aac52',
+    0,
+    -1099146020,
+    'cb6db313df0206156e99720cd6f0170071eecc65be1b830aa126a281748c0789'
+  ],
+  [
+    '095eea3604c928d15f99ebb9a52e3640db5ef95fcccb3cb8f44830143018e6b903409be36b0100000001abc218b44f7060a64d9ff5c65f6027165c4ccbdca2b61c18d85d3fec253a20fbb03f30346f0300000002ac00ffffffffca6edce330ed59b127a3afdc84c3af7c9c7fa54ddd0f06ab8ace6bdce1c10901010000000363ab63fffffffff110e48d6b2d368b70d990d2ca059852bccfb7e1a79ad4079fc4ac95a878cd050000000000ffffffff0442f80d000000000009ab656351ac6a516500fb45640100000000096a6552ac52ab6a6a517398f5010000000001515c709c0100000000030053513244ad4f',
+    '6aacab63536a52',
+    0,
+    -260367490,
+    '40ed3cda1e44fb1bbba1422f2d0c89420838e12059e48a646612a98c9c0aa5be'
+  ],
+  [
+    '3c175f7e039837c3a1a4a6a6bfda31bf3e155ac5b3a431c847d6cb087357d0114a880c9204020000000351526affffffff6fcc3d91551f9bbe1dcf7f162337681532b7de78df59f17f28766b176db26ca20200000002ab52ffffffff7799ddf42ea9ce83e1ca5332c129c6ce6820cdb4d9b46560098ed3d6e6e32d5c0000000001ab12dd851c03312d7e0200000000016aa1f66700000000000553510065acec6021030000000001ab7cbf337c',
+    '52',
+    1,
+    316012415,
+    '531d027855f2c4ce44c8379307a512bf680dd0e73b3cabf3a7b37263c3e5b0c6'
+  ],
+  [
+    '2aafadd4041204e0805d47376961284074612e37b58e6dfc51a35fb0143a24629c4cff6a2901000000096aac6a6552525353ac2f17136d9f66f5e3388f0f89ff4665760974a558c80d6635b652b3b4c32d64abc287aa2102000000020063ffffffff83282d11beb2e74d82f5b801b30b946149817b80147854d0645bf7aa5f1cb2ea000000000563ac6352ab5a5bb65f06a0fb27ddd70609cb92287a4d6e97487f85c7d8ec3cd906e46ae84b53f6136700000000025152ffffffff01d9dceb030000000006acabacac65001ea61521',
+    'ab',
+    3,
+    -1186890393,
+    '1ffd4dc64d0973c9f0d084d7939359561239be07336e686971c5a23eb159f623'
+  ],
+  [
+    'e2e77e120397b8995cdeba10ad51049077d665c8daeff591e2fc870b86b37c87935daeb6c000000000001df1fb693e92c5e8b2309108b5bca02d5128ca0c60aae402ed40f9e7c748cdc5c8d513d60000000007ab636a526aab65ffffffff274aafa4c973d931bb746172d1812a5b6cd9d5b5a1746938749f02a5b0fa9ec60200000004ab006a65b7ef45b204096cb900000000000465acab531bdabc050000000004536552522ddfcc0200000000085363636a6a5352ac62218f0500000000066a0065ab00007977bcdb',
+    '6a00',
+    2,
+    -1843142703,
+    '40a32a8f100e8074c3d002d06329b7b245b52a88ddd49708559bb2a11bd787eb'
+  ],
+  [
+    '8bbd1477015eb3a0facc784a41e4f6055bc4572d99392ba998a87f4d4b801ca15df64e90b902000000095300ab5263ac650063ffffffff0374cbef030000000009510052635300acac6345303d040000000002ab51905da0030000000009536aac51abac63ac6a00000000',
+    '6a6a6500',
+    0,
+    -1839960476,
+    'bdd22ace0484c3a7f8dae254ed60d0994c983f030499822ae610e05f4109c3b1'
+  ],
+  [
+    '72f3ef9001a474715807827f0086766061735a5136e690948fc9164ef526b9da52e0d318540200000000e61362800385031f000000000004005165536e92b60300000000086352ab6552515200d4019b0000000000076a53ab656a006300000000',
+    '525363ab53',
+    0,
+    -868418448,
+    '0038a301877986e319f1386b6efcd0c3c1630a68caeefb4c64423e3bcc0916e0'
+  ],
+  [
+    '139a05ee01b4314c82b88a9a79ceecb2447b71833c358a9d55e06464f1f7d9c6b3c46731e102000000007d4680f103a7f7b5040000000002ac52f667e20200000000086353656a526353002307ac01000000000000000000',
+    '630065',
+    0,
+    298103109,
+    '03f4faf13e41988f417194205cf9ba8a4350b22b31eab5fa810c9dfb9af18bfd'
+  ],
+  [
+    'a9d399b10155b994c8745e6dc4207deca9b41858a8b53696da9a19f66ba99059f94ba4eb7a00000000095165abac53ac006363ec7d94e502f241c8050000000000106997020000000009536aabab5165abac6300000000',
+    '6a6a53',
+    0,
+    -1716484001,
+    'a13b855492f37408c6b94d2bffe56586d35e72141cab188a3ca88c03ae6145a2'
+  ],
+  [
+    'bbe955e4034dfb7edd27416623f1fb85a7e49a613dd3754474baf3af40f4c58b241f07a696010000000600ac5252536affffffff4acfb7ea0e52a0bfb973d2538300435cfa2bad621363d72f8a4671ab3404bc4f00000000055165535163eba485062067ae100e658ff28be246c4fbffbbccf152ce533ac93dd71c994cb81d60276b0200000005516a6a5352325d7e6d034610ee0000000000003255db000000000009abab6a5263656a6a530ec7300200000000046aac65535675b881',
+    'ab52636a6a0053ab00',
+    0,
+    -585414817,
+    '809ea38874dc08040e12b4a76656de808fc1f145ad1ad2902a2b3e6091b1c7aa'
+  ],
+  [
+    'fe05d44004703d4e7465d11578a7a0b6265549b3e1c1196342f0069bd8bd05cfdd38ed7a4603000000004b56b84004829e135b716e900ec57a408feb1ae288c3346f036125c6bb5bfba6217881fd000000000452526a538835eee70a7e3a65dcf8f5b638607fc1ebd27d43d348f3940b93d233a463da83ee525c210200000004ac635263a5bac24424ebbca62b29f04f00525b1623ff59f5e8e3c61b7a6b15a57a5b5f949c1081940000000009656aac6a6551636500a9d7d36502f6761301000000000300ac008ba44b050000000009ab6a63655265ac51659ee347b1',
+    '006a6300535151ac6a',
+    2,
+    234612189,
+    '7ec0814fcf117f8e8d4ae6983e9fc19afbc76c6c81614e5f990e8bfe7ffba9b0'
+  ],
+  [
+    '86111c7801328fccef252efc48e47d41cfa6435a4201c30bf09b5aa5289212bebf5b4d217f02000000085363ab6a6a6a5200ffffffff03d52b7f05000000000563ac006563a6a880040000000007ab525353526a63c9187e030000000006abacac52ac6500000000',
+    '',
+    0,
+    -2042950318,
+    '9fe39b1da7c3bc3940b90d3b6634e28f869487c5ddf963f4eabadaca5d00b1a6'
+  ],
+  [
+    '0c2ec8e1028df54d8495c8a780d7b1e25576a9dcc6c7c2f60d26747c52207147654fa3b52d0100000002656387c10f4d0f9b17716432b1c2d373fb924cc7c8c9ce132a3d90932fcaa3db078d5aff0139000000000552ac6a6aacffffffff030d0a42050000000008abab6363ab520051d464ff020000000008ac655353000063ac6f24270100000000000ab8f5c6',
+    '0065005151630063ab',
+    1,
+    1133871296,
+    '0fb1261ac4ae64b4a64f229b60d00555bc3bb5ce29c281bbc2c79a17e7f11bb9'
+  ],
+  [
+    'da78b9f803e263d9473aabab2212e0fa2cb1c1e3f3b36095fe5cee026e1f765ca4561fbc0902000000036a516531edbbf97bc7b898aa4b69b520fc06949c4bd92207eb7e9940f025dd952b7aab229e24020300000006ac516a52ac6affffffff3de285be714adae125e7ad8fc79d6cfe80e2d062afa59d0321a1cd79ebcbc2200000000009636a6aab53516a6aacffffffff01ad56470400000000075351655252525200000000',
+    '6353',
+    1,
+    -1843178131,
+    'fd24ced522cee4025e8cec680b9f4bd2fe6e556fd48a314c6bc32088ab8ea45d'
+  ],
+  [
+    '421a343b01c1e08ec6bb4546d2b8d970a4e6097cd1263464124b4c4d49093c6d5be3fd62b7000000000365ab6590943ede02e79b7c01000000000352ac53ff952103000000000963005352ab655300ab00000000',
+    '',
+    0,
+    -1233634082,
+    'c7ae2cf2cf0cc3785f9c4f1268e3a6e70b7b7027d425b00ca40809b5b1f27623'
+  ],
+  [
+    '4ad0b41404fc04afa38eaabc736cf34a2f6c896b6ea9b6a8496600767b0285b3f7ca196c490100000005abac635363ffffffff15a0d372427999a2ec10c07871c16aad33f9a08bde8cf8f66dfe335c074b70460000000000ffffffff4343f956dcbba327268500f55e0818a596f8a9d3406ada9b7db4638c064e1ded03000000056aabac526affffffffcc9cf315ff22266e02f2588d94db5774cd596726e35c3f49ab740f8b8db73a610200000004006551515748bbec01563cda020000000006525200ac516a00000000',
+    '516a6353650053ac',
+    0,
+    -1970257281,
+    '259486996552417f287d1c9879d3db90e6480d85f1cdcf91263fd0edf88159e1'
+  ],
+  [
+    '07fee4f704eac679ec1231093580be1a873775a981fe71e2c0954afd6ba2695ae3bdc5b0f20300000000ffffffff577d667d1341836cde32c01d4c7b612361d970b61529be2a88f6670a6c911b6303000000020052fffffffffeb1af1ab5770704c4a8b288483ec8d06ff77f864c0fc8773569f794d90e2ee402000000066a63006aac00016ef10fd7fb1402d30415c399cb174087a04b1ad301c6b6c790b0f4223d72085a985d4e0200000009abac516aac51535163ffffffff0215df390200000000046352ab651a98f001000000000152bf9874c9',
+    '515251006300',
+    1,
+    -2088516522,
+    '77ccca0e1c52196b158ce3173e9673b60157eea5bb7a5fa0963c122f077e07cb'
+  ],
+  [
+    '3ad66060010332df6dd6752da2a1beb730b08e55f2bc01daa0cbfac60a6f2f3b433c009a3202000000026553ffffffff011244f90300000000010000000000',
+    '65',
+    0,
+    416837328,
+    'a4248c171282dfb2ec3377e8d8b823941c100d2d0e5bd88a73215ced51ceeaeb'
+  ],
+  [
+    'b17c73c1024a1f035a0766fd13f3bcbcad5899aeba9a8921fb6d039367f22b5305e92c3e5902000000076353ab5363ab51ffffffffa0fb1e7de163c65fcac8520c203830ac801a5bf918f6bb157b7c77eb55f0d9b9000000000552ac516553ffffffff022e3244040000000008abac006a65515265fba34304000000000100d119f317',
+    '',
+    1,
+    -1700846884,
+    'aa2bb6befdd9125deda681fda37b2d6a96de234d6445e5ad14bbd4e81aee3086'
+  ],
+  [
+    'af19faa2043f04b309bfba276be0def391201e7f50d2125a9dad2b07a68acfaf431a96eab900000000085351ac5263ab0051ffffffffb9c9069f7659fdcb859407c1f1b736d06b9f87d2891c302e40c3db05747233ef03000000086353516a53abab51e6cb8e1e7adb99b164ea6e12f53a2ae88c6535774c16be7592f0ff569b8f3f1513deec4a01000000025152ffffffffa4772cbafccb89643d64ff41ab00b7b0b365a3026e921626fdf19a3d447e4353030000000652ab51636a6aae78eceb03e241b6000000000003516a516efe470300000000045163ac52b29aa1020000000008abab6551ac526353a670fe75',
+    '5152ab6351',
+    2,
+    -24567324,
+    '8dac3650448ca45a205d5525f8f27dcb803781ff8d56cb3dbfe9be97ca781fee'
+  ],
+  [
+    'bc63714c01707a2b67bf19abbeffd87e5a5351fd8bb3ed2b6524f881e829a8f4a25568d2e80000000005ac5100abacffffffff038829cb010000000001ac50b6b9020000000005ab53636aacf24bcd05000000000465ab535100000000',
+    '6a656363ac63536a',
+    0,
+    1802527845,
+    '47baf350d78135ed42dcb858a005509f703818c446d93d26f5985277b39afd70'
+  ],
+  [
+    '9ed32d290383a3ecfce908d9e977bccde06fa6f6486e1ac976f012df0dd25c5611e73972b200000000080051536500535365e4c824b95d30a997067a80bb49b72557ab199b6de8684e5b84ffd3246c51eebc79391b8402000000046a636353ffffffff2a9c8a47e95870edea12509817ae74b8e0eb6fc57d48c7519a1c12f5dda98eb50300000009ac51abab51536a5253a9c1a0a504de1866020000000009635253ab6aabac53530af40d010000000006006552515351486417040000000001ab80c3f50400000000036a655200000000',
+    '51ac5253',
+    0,
+    -1245784490,
+    '1467ab789b34ffb7c1c6f3c6a60ef7b6d5eca83849c5f0765d7b6940d57807c2'
+  ],
+  [
+    '70f6059902736f56a4296591bb3f3d4a52976aa3fc9827dedc32699d29978ac7348f1f12fa010000000163e97169622a8454824c41bc68fc30183027b3a4791a7b6562f664489a5523dbe3594ba94601000000056a00536aacffffffff04ea500105000000000151c5fb690300000000076352636a51005182bee600000000000552525351acd3b83e0200000000066a65ab63ac6ac3d6b14d',
+    '00ac52ac5363',
+    0,
+    595504619,
+    '4e55ca8169ffb904dccbcb6486edbff2d2714f1cd8ae74f246caa8fff1feecca'
+  ],
+  [
+    'c0d7757e03970b116a4d0f906f1db9fa56b78d65965b30b79246af646885c9d9c3f026617703000000004522529cbdad30e50bb18b9f942e7c5de9c1ca30b1b1a01f8152300101b7c7511bccd93e0200000003005353ffffffff8c26b8289b7935bc9d3b0d690935e84873997956f17d09378ecccefe2e02c8d50300000004006a536affffffff0330b44903000000000152757d400000000000066a536a6a6a6394598a00000000000453ac00ac00000000',
+    '6563',
+    2,
+    147961443,
+    'a1850586c12c368071b9ccd117b154be8fb0330a08412e7edf6be1fb5383c371'
+  ],
+  [
+    'ccc9d68c03adf249da52c948c670896f685736f633e7266576a3b33cdae227bb54d07e5299010000000300ab0096964f7ab0b68eeb4b955bb53005cc339532c550d5728f338566af1eda991b51d9f2b19c01000000075153536552536affffffff7b548e248f5d34fb384fbb0af40e9345baac27cdb10d632eca75686a9b83d44000000000066552656a0063ffffffff02efc111010000000004ab006a65a3191401000000000000000000',
+    '0051655252',
+    2,
+    1598095345,
+    '9bb7b9fb92f560ddc2c1f47e78d89c76414e637288e1410bf7041cc16b05301a'
+  ],
+  [
+    'f2b7348d02e0616ad9e2904867e990faee270376b38714fbf57154175bb448a1acb45caf4f0300000000ec2c130c05b50ed369658ceffad3623b2684581f634f5714f55703a9bb31b7a616f58482010000000265abffffffff04ce2c6a0300000000035253abb869c0000000000004536a6a6aa2fe5e000000000004635353637cdb15050000000009abac6aacac6a65635100000000',
+    '53ac63',
+    1,
+    -126802225,
+    'e32bf875ccc0f9458645b98cb0ee6b0d3b79aa95247c5e6746a8bddcd7c4c330'
+  ],
+  [
+    'd4877d5a0117de1bd26885199917c681d48d46e5763cd1f55eb43afa5e4ab33f6517b1cac00300000009ab5200ab65ac6552ab78597e0201c376bf04000000000965ab516a656a53ac51c2e734af',
+    '53',
+    0,
+    -234047524,
+    '9078eeda097422f6a3b60f9f01a41654bc1162c6bd65c6bcd78dbe49a8d92e4b'
+  ],
+  [
+    '311ef42c03cc6958d797647abffcb895bb712e44ae7f714687a070928dfcb513949a60aa3a0300000005655300ac00cd4c36c885c22d5b2f5aa691d5aa7b3c218b74660a05fa2929de9be838b20fb08579a4030000000005ac5200656ab040e9f51d679dc03ce0e29f99d9c4148419898b4070b2deed2055e9ef5f37a44e87e4f100000000016345adc45803ecacbc040000000004636a00ac1fd50402000000000952636363655265acacabd5d2000000000007526a00516a005200000000',
+    'ac655100525100',
+    2,
+    1843147335,
+    '0feeb79992a4073b556bd4e628ff6039b510cadaeee278bc174f57aefa11e194'
+  ],
+  [
+    '55ab00e60382a663b654c316fee688c767d5d0270715a228e3006516c65284f33b80ec514c02000000086a53ab53520052acffffffff3ef1ee116194cb3004ba5e3980f782f4e931b52a9fd1e42728f8196c930d04dc01000000036a0063ffffffffe036bf3188019ad6b7133d000fa3b013d13be4ca67e07745caf2b3f4d6ba544b020000000452636a51ffffffff02ade8120500000000016a34230e000000000009006a6300ac5251636500000000',
+    '6363',
+    2,
+    993052767,
+    '8cd4e36445d1ffb427b1cad73986432a9f2cf99b88835edd3378663e76701f8f'
+  ],
+  [
+    '01f75d7b0450589a7d6f631fa0ec3d659d867ec390755d4de8fdabd7d84bab17af770987320000000008636a6a006a5251aba02e9108b3dbfde5fde8bfe50e641b8fdff62cd727404747e2bf79addd37bbfff24edbc502000000015223ad81f33900546d30df034d8acace2a8e26aba07cefc1e9a1001d03d967877c7b20269503000000056aab536351ffffffff22af3acd676cac77913f9f295399a98bf195064a5e22d60470487457d3bcb3400200000000e75a85530193e6050000000000045365abab00000000',
+    '65',
+    2,
+    752818779,
+    '6b747dd7ea91fde867d491e4c5776d855138e3f63ff800ed417e3e0ed120a13e'
+  ],
+  [
+    'e55731c002d5d49d0bcc62cc926b4001dd7853b8a35ba989f8e883bed8a7017f54b3264d0c010000000665ab51ab5352ffffffff3464a2c1157451123d0fd4bfa0019aa2b707d374fae4e3e9f24eb277e054f0060300000005ac65535363ffffffff042e2f47010000000005ac6352ababa91d50050000000006655151ab53ac7d215903000000000700acac00ac6aabc1c17b020000000002536500000000',
+    '656a',
+    0,
+    -44655291,
+    '93a8b8a7e960e8038fd3d2f17998d6cfb7c1f8cc8250821ec25156278600d18d'
+  ],
+  [
+    '06139cf902e1b480a510bc6057e5f0cac0eecc8e51a5f8d99a3b1e847ec6b9e752e8de53ab0300000007516a516351ac6affffffff8db8ab104d5076d71e7e9f728df31dbb8a9b123fb2e651ed7fe3b1bbaf0b9f33010000000753ab6aabac656592582f8903196fb102000000000700516363630052d909860400000000040052ababfdeb28020000000004ab6553636a5ba7c8',
+    '0053ab53',
+    1,
+    -1705316128,
+    'a2228b5cfe093de6c204e4c6b268cd8d9fff8998cf3fedb8df2a724a26d98c39'
+  ],
+  [
+    '197f01b40186ca6bbaf0c99c61ae51f94009bac4b436d145b59f8def8da6b933db067fc5fb03000000016affffffff04438798030000000002ac525cd6f0000000000002525230d36e0200000000056aab6a6a65983ee1040000000006635152ab52ab5ff7c4d8',
+    '',
+    0,
+    1670452338,
+    '57daa5887e15ec4c99af7ad00b3f7bb5562c4ad885f9d7e2c8c919bcac6c4bbb'
+  ],
+  [
+    '8c94ab0904331b879c115e11461e3812b3583857015c381904f772169745005ff1d890e4cd0300000009526aabab6a5263acac35c63239c1657f9f67f37611f710768cb410af977e8e4f70a982bea377775dfb45868b8f0000000001acffffffffa4636ccef2c416b1cc1168e6dd6c99b26fcf0851955858de795e30dc89ef673b02000000085265516351515165ffffffff3a58bc53297edae5e27cd3b8213dfe5fbcc39e71b4ced65b5d4ab0af54bdcd7a020000000151ffffffff034f6c4c020000000000442a0705000000000552ac5251ab2e7209020000000001ac00000000',
+    '6a63ab51ab',
+    3,
+    -1861391027,
+    '717ae3170f87a6109213aed04f63a626a2c14add95156dcbb641c3ac8a134c29'
+  ],
+  [
+    '48f9017d01b77e945683b3ff3e409d00b60418b553ad7a72fe7802bd6f1037738d4ce114f4000000000265538f95d43702fbf50f03000000000551006aab63b5f5590100000000060053006a536300000000',
+    '6353ab52',
+    0,
+    496318719,
+    'f54351b55d163bce830d5c0332f2d974c17b588c6fc286e9d39814750a2023ed'
+  ],
+  [
+    '74af1f950127649dfbf6d3a5cc91bd733a93a56b27ee93e577f9dce548691e5c05cf4af0260300000007ab65ab0063ac00ffffffff0150c06e0000000000004c0349f4',
+    '5200ac6353',
+    0,
+    -417094535,
+    'a7ea6ebced753d3a9de32efe8caa52dc260243c20db52916840fce45a8629969'
+  ],
+  [
+    '93c329c10454418384b9e13859f93b2fed77b8d527b977d77aacc860c33b8e95d56d0f6ceb03000000096a52655200ab525351ffffffff39ce91ca91d51fae82df87e637659f0e6ed20a8f53c2077b4c3ea9d7731272f10100000009006365515252ac5252d4e8aad34a224b407e3c4992825da976a27ab86ea4fbec9c0ed206e12103850ef46d40e00300000004acacac52258cec22f17bed90058018fd14b0f83fbcd654df56470723d17a8a9d62a91bb4074551960300000009655200ac6a5253ac63ffffffff0206665b0000000000096a63abac6aab0051652aa975030000000009ab6aab52abab63526a05684427',
+    'ab006aab63006a65',
+    1,
+    1966414297,
+    '00ca1408d123efe277562c587c526b30ef665410b6a8d6b85ecc4f1af04f581b'
+  ],
+  [
+    'd4a184d70203d359db387142aee710f0547c049200a041d5dca0e9eac15eb1f5191313cfd90300000009abac63ac63525300abebfd548125cd8ca29803bc724f2cf439f4fa4f21c05f1e5156042e1ca9a1db5e3e145b64010000000963ab00650051abab51ffffffff04eb14d8010000000001accdf7f90100000000066aacab5200653dfc2a050000000008630063515151acac7c829800000000000300526500000000',
+    '005353ab',
+    0,
+    -1514044206,
+    'f0c3e27105ec46c865592f412aa0491edb0e5684fc09d2507b9ea9ded911e09f'
+  ],
+  [
+    'a852a9d6018212510b6b6f7c9a5a6962f51f3272ec9b7535d5713bc82e3ee4535bf0af9d6602000000055152ab53635b8de87801757f7a050000000002ac5100000000',
+    '63ac',
+    0,
+    -1071811980,
+    '96939aabf0c41aeeffcfc6e860cf8ebce038733c9a1e7d58d0003e3e26f5ad9e'
+  ],
+  [
+    '9cba41b501b67ab718b7970c4c2efe859f35d227d150554a7c48d34434977b268fc18d47910200000004ac6500abe5b438b802dbe2030100000000025100c570560400000000015300000000',
+    'ac',
+    0,
+    1681877711,
+    '37268c0dbb6efe63228c77f8d8afdba06937b58884337f3cab2e54b0e534c9df'
+  ],
+  [
+    '68dafe3401cb29bdcf7c9a0d06b00bb6371a0fa5e0754e4b4f08962db202373923ef78192f030000000852515251635152acffffffff035e505b00000000000451635365713c7e010000000008abac51ac6a536352e272b40200000000036a6a6500000000',
+    '51530052',
+    0,
+    1562875078,
+    '68ed22b877cd2c878e3b6985f2f6460f92bb0d8c72c0cd38a41aaa4646b603d1'
+  ],
+  [
+    '54f1c9300393e361f65d9556aa1e3efd646443a5de7f0a88208d2dd42246aed9fb877779860000000000ffffffff8d01b50fbce9c4818ddf5dbfc68c110933a4c202ae1cb443561d2700434e5eda01000000095300526363ac6a6a65ffffffff0af80917b0e1fd01f8ef97d66be04c1e89911a2b015caf2c3c8c0248f7de70b102000000066565ab65acacf725f92304f6693100000000000800ac00ab635300ab0e73b60100000000056300656a51de51f0050000000005536a635265d5842602000000000600ab6352520000000000',
+    '6565ac005265ac5100',
+    2,
+    -176418614,
+    'd8920771bf5ddd85b08f475aec1a5e933c2eda35e4c0075c589affdbaf0cc1cc'
+  ],
+  [
+    '69b83315041ec6b52ad5c74afc90dcdbc68d750c9999f233464c8db24710261c4821894325000000000553ab52ac63e84ae81f64c418090cf792766e16458b440db76365614cb5611da22924e317dd4cb987e10200000007acac5151635163ffffffff63f1ab0917e58b683acf9c8f5ab0114c2fafb9b227c7368637252b86ec999be80200000009ab536a5165536363abffffffff4ca85d4c171597aac7f29140476b9dfd98f5eae7860880116c24ef6c036ede5600000000046565acabffffffff031bc6710100000000016507e2fe01000000000363526a52a2a204000000000000000000',
+    '6a6551005153',
+    0,
+    663469004,
+    'd16f226c485df997438d0213ea9b929bd60e4433aba36933c6068dc1a143d447'
+  ],
+  [
+    '6756fed302a019d6b20db827e88f50c8e9a3efce5862b82ac9193326641b4e80420ed8c90502000000026365ffffffff85cc605bdd1e68fa63d21505e3c0752b797b965b0af95ca7d5ae9bf373fc13550000000000ffffffff041cfaef040000000007ab6a005352ac51e8723b02000000000465006563034ef503000000000653ac005100521e927003000000000300005200000000',
+    '51635351536553',
+    1,
+    1496606554,
+    '2ad853b92b82d1b4820814e7daedc09550b83045dab45b0858161c609d0dd98d'
+  ],
+  [
+    '04a4ec2203655e264d9f033e67ffcf8522cc77ab7cce9d0fee0c87ce2aa3b1441e1980062f01000000046363656326c37f3a077e350a9616e31cdde7bc19093af48848f410bb8a7a35e24ca80d630413a1f00100000004ab51ac63ffffffff257b851fcd7d058926d9ef829b25a709bb37a9e220da5b180248095e3cc1b95f00000000066500ac6aac53ffffffff03188055040000000005535153ac52f9c3b302000000000057c62d04000000000063b1caa7',
+    '6563535100ac63ab6a',
+    1,
+    460650857,
+    '681eaa7c94ed3e57c5c545091499d3e91786797ecc9b2e0e9ae35319d294d771'
+  ],
+  [
+    'b8785d83040860c2b369e377f2371b8311275fdfe0ed8a4ffd06ca5bac67c06c90710a54a200000000075251ab525365acffffffff8617040d622b26639868c9f729ae38a57014649c9507de2c655771c0b57a5e180100000003acabacffffffff19fb6f935a6bc1cf805a109aa851aca45cf66f2fec0288429083dfbd413b1a9e030000000700536565655252ea66888e70402eee45649afe82d6703c5bb883aa3a5458cc45f019a8b13927630d9051c803000000055200ac0063ab4d96dc014c0b0100000000000000000000',
+    '53abab650000abac',
+    0,
+    -155037963,
+    'fb601212694e7a8539b70d8ae09e856e9e352d729e558cc0c1175f4803b05cc2'
+  ],
+  [
+    '17c6ff3103037a9b5bb7102d4c1c7882729a1f7ad0c9f4ab03ca51b09d1b9afa6a70728a860200000007635252005265acffffffffe2c134a314b3af126d56b5f7604631085a71d10797edff30114af0365d7513410000000000ffffffff6990267c5cf5a2477c374c289eef220ac2e4f02a6d8f39a68783d882c59fb187000000000763536a0052ac6af0f4eac803d0138a0300000000036a6300de53fd030000000009006365006365656300a8a8ae0200000000035200ab4518b904',
+    'ac',
+    2,
+    1928413138,
+    'f39799a7fd5021171105dd23938678d985b6d2964b1bea5089f3e3d42eba1112'
+  ],
+  [
+    'f1e6089901617b196469ed7bdac32bca9c2468bbbe0169c3d53278b78fe10bef89f8d334920300000004636351525050554c04106b040500000000025265384e4303000000000651ac535151651748ee010000000000013c85050000000002655100000000',
+    '656a51636a',
+    0,
+    1025105391,
+    '1557b140c82a8a008a02940c432fcd308f6890fcddb83d8a7989799ef7856d8a'
+  ],
+  [
+    'cad4df1b04e093a2ea7f870f393a5668a3471e83a547afb87110db7b013319ddf8ceba5d000200000003ab5365e6a448f2d87ff752992eeb0ba4498a2cf51c779a2571e26bdc02d7eb026a0977f365ed1a0200000007526a656a656aacf26824730e9b10bfda8a411c8084d3bb4aa9095811ceb4eb77d036c7a7e72755a137e9700000000005526a6a53514898570d98372f3b951539e6f21cfee81131922a16ad3978f51512e7d3c142de6cf4788001000000066a52ac005165ffffffff0355aa1f010000000008ab0051ac6353ac51e74426030000000007ab656aabac525217c2ff02000000000152be89d838',
+    'ab',
+    3,
+    -714885673,
+    'a4522fd934aff87ee45959a88ab2063b2c5109788dc3bb6c2b108f96bc730e7e'
+  ],
+  [
+    '14c95b3701ed87c3faa01d56d4221f80df4d87a4aab21e6fcc105fa333b02c960563ce2054030000000752ababac6a53513b9068a701374d3a0100000000076365520000655300000000',
+    '6a65',
+    0,
+    -167338770,
+    'f391201f82115c4dad0af53acb2beb41714e2ad1b16ac8e4486777b1fa7be402'
+  ],
+  [
+    '669821df0247eabaf38989a13dce47d95209ca18025eeda5c43ae2f2b1d61ada8c8eda85300000000008006a5163655365acffffffff44507e129bab925c3c1282beb3ba76ca30715caf807ac5b0502d16bdb1fc9329020000000752516aacab5153ffffffff032304310200000000086552ab63656aacac823e76050000000005006a535100eec24a0500000000075353abacab6a6500000000',
+    'ab5263',
+    0,
+    1459488997,
+    '1ea3e206a44babe3c73240122c77766cc307f274eb3e6e4ca3e7b6d77bff640a'
+  ],
+  [
+    'a506805f041c101a77658451ad1d0ce5ecaba337d4a9a0ef94605bea2480276e37f842976000000000035152002418f83d29a82967d51b253f6dc7e0383494fa54d0e562c6922c2f7f5611cf8b2e7234290300000009526a536a6aab0000ab04f525bf50834482c6e16b24e7c692254c90af0a32fc16f4ffb7c431bfb584d0a9220d240100000005ab6aacac51f4d590f596075e82467e603ff4d39e7dd45c6da4237b71f1f87bc12782fe5136e225f08e030000000851ab0000abababac0ddb59db010a8030000000000007656500510052ab00000000',
+    '52536500',
+    0,
+    -374594361,
+    '18b1ad1acd03da82e27d3768367ec7fe78ff10bcb83846952fd01c66c1278dce'
+  ],
+  [
+    'f6de3a1303c42928614b2054423fa2623a7f6c2b4b54a44bca453d627e89e8206175426a3203000000036a6a6397b99ed36e35d1142f5634f804d2fcceb39ad922637664a618c986e87f0d18fccac06cd00000000005006563ab51ffffffff9ab9cd351d40bb3c4af1e47743332ae08ccb554595a2950a9e613bddac1437b70100000009516a636a5353636a5166f088690331e6c70500000000050000516a65d8afb5000000000001009ee3370300000000096a00636363acab656300000000',
+    '635165',
+    2,
+    -2012388278,
+    '63284c9e3658067bf9e35eb4a7333099873d3286b5c704ddef67dbd78e979ec6'
+  ],
+  [
+    '1248987203a12818a74c2b50258d732bb798de6e3e74f3f4ea2d0014fa351192e57df1400b0200000007ac5351ab6363ab4bc545af38303851db8dd1fa76b4da0078d193ba043bb85a49262428df333334ac2cb0fc030000000451acac65ffffffffebb8bff29ea0ee367068c6651a093433a9ac88886489c6b29fa8ff8fc52652b400000000066a6a516a65acbb1037a603fa924102000000000086c863030000000002635182e38c0200000000090053526a6a6a516a6a00000000',
+    '5300636aacac',
+    0,
+    858977273,
+    '00a6991ff378addc1dd150867d731ee217750f85200793d2616a6e3e7ea43c6b'
+  ],
+  [
+    '6397a0f20248d7fed9442a160ce7294c8d78147d61fe4bec505dbfcc6b2c92dad4fa8834ae0100000000035a009f04a4f65df7631c21464675959e2f05224bc629a5add227f57dc12974748dc6b001000000076a536a53530065ffffffff043bd7ba000000000000d3d6d3050000000006ac00ab63acab28d7fa020000000001ab2dedba050000000008006365ab5300526a7b6d018f',
+    '51',
+    0,
+    541981262,
+    '65fe57157adb2be545a308860b1ca0941f2c8b8c233ceeb7117e183938a5f5b2'
+  ],
+  [
+    '5ea5211d04ef103baf7795ff4c5438792354528b9b1c9b453d8e9f890cefd9226f19aa11c10200000003005251ffffffff8a6d30d11a7c338f10de75443b7ff48de83311b83ddf3367f3ad2963574898870000000005635251ac631ef1a786a1feaa023c340a0482e0862f78bf93834e7ba38d986cc9c976a355aa47b90bb90100000001acffffffffcb30766432462faaac0caaf1c88aaa39a056dfa074e3e55999935cbe428f3e37020000000042a1f8f502dac5ca03000000000552ac63ac539d99a1000000000001ab00000000',
+    '00636a51',
+    3,
+    -615594795,
+    'f61a3f8f9d43a182509d5607ea5682498e8d72f5b716551c2dc4ddd00578f686'
+  ],
+  [
+    '3995a4bc04f2d99438cae74d331141423a064f0bf94e27c0a554001e49d4a68e39501fa57203000000025153ffffffff8f10648ce8ea252fbf46f442cb9c332181c197ab5e335a36908c7d150bcb40e602000000055365ab510057bdc171d7d79cae09ee71892265c024d078fa3c8b91a2ba85ddecb11ead14d6eb18a2b5000000000651ab5352acacf91df44f96b300e33011d77628c73de5961d8b8f7d7822441406c327a3f960e9b8a891e90100000003636a6a7edae9ce02da663c0300000000046a6aab52d8c611030000000007536aab526a52ac00000000',
+    '',
+    3,
+    952048473,
+    'd831bb23f635fce6b61c80634f4d7e3f11a0b932d36564a3b46ca52986a8cc75'
+  ],
+  [
+    '59acb4bc0123b01f124d32a05d03174a9601a4245644e87066da8a8e0c8ef1b6f0dc4843ef01000000086563006a6553ac637821f18a03e750e40500000000026363da9f2000000000000565000053ac46d3c6000000000006536aac656a00a839f1e8',
+    'ac65',
+    0,
+    -1054507678,
+    'e9d9d6afc05eab391ed16d5b6657fd75026091b9fd150b820ce184f8c9f6a50c'
+  ],
+  [
+    '82215bdc03d0abfa3cf8785257c5e13f0c588a0c9d4992a11335db72162d71b23c0e8c80b602000000076aac6551ab5251ffffffff0b44ec1180cfe4591455173b6d8b6d9d9d2fb5882e955ad1c4227e0a1e9dc223030000000563abab6a65ffffffffa32276e2334473755170812e00efdf6e7e0932d52762f6f62a4d0e414bcf313403000000095351ac005263acac631d46a9340104f1070100000000055200abab5200000000',
+    '6aac',
+    1,
+    -1586094121,
+    '7acb204cfa6f6e3dacff0ca1a4af3142f20f08cc614ecd87ecbded7744dcda5b'
+  ],
+  [
+    '02d86a8501d8e3db0deb4c33565c2328f5765fcb7741c31e164b990754779d0e5a82007b07020000000751636a51656a52dcdce29204e1531601000000000965ac6a6500ac515363e193ea040000000002acabb3c04b0300000000076565ac00ac5365bd3e9702000000000400ac0065b2dcd423',
+    '52abac6565ac53',
+    0,
+    -967548034,
+    'b762b06aac11b6b0937657ce6346c2952957317496e105781d064560ad5f6fb6'
+  ],
+  [
+    '35e994ee010d32cd7533eb2319c9a150647b26bf05bc3098afa155f2c09a09a146b0dc47820200000003acac63fba58619045046a104000000000100d9e771020000000004ab6a536560e958050000000002acabf2d3c90500000000076a006352535152288ab5da',
+    '51ab',
+    0,
+    1200550009,
+    '49911786bf46666ab763db2ad1ed834e2cb09f355e28c645a82344da15e4c5d4'
+  ],
+  [
+    'afdab54c016c2dbc5cfb2532597ad16254744fb6ba9f0ed66187df4288fc138df72a4bcd760100000000ffffffff037e389a000000000006ac655200510092ce4e0000000000045152650001949503000000000000000000',
+    '51ab5365516a',
+    0,
+    571955401,
+    '8492fcc0e6375dbeea359c03cdba936656a6a97381353b3439292f37d6f42b54'
+  ],
+  [
+    '978b93cc0192d822eddd31f62cf188faf36c0838f2ac63fcb282688424f11fa4c8c66962a303000000066a00536a5351ffffffff0457352700000000000263ac7ce7c20200000000046a650053433de8040000000004005363ab4f91d80000000000095300526a6a6353abac0be3eea6',
+    '52ac0065ab',
+    0,
+    -164208039,
+    '920b6be0783b97a0a185bac3adb137b1c1c2df54def1d3f03d04dec4e909b032'
+  ],
+  [
+    '5989bd9001fea3d6083b3e679703e1ac35c2725604aa8626f78ab98333f929b474b67e063c000000000152cae3985a02cefe3a020000000001009e856905000000000500005100ab00000000',
+    'ac52',
+    0,
+    -1162574502,
+    '82e423d6655243b5983d0f0d45b3909d2f808799975d02c0fd54c376478bb41c'
+  ],
+  [
+    '3fd6f65903a56d01da719cd353b2aa2ca2d52f2d75dd78caff88dfc458beb31d04cac746430000000006005152ab5300fffffffff4812401e9f00165c1873da2219a70ce9986eb1d4af2280e4382cd9756fdf894000000000553656300526b6227f15f24503506cdc7b4efa6879b4a19697f5e37ce174bbcfce4cc9150e720e111fc010000000965ab00655300000000ffffffff0158d81a010000000006ab5165656a51e45b26a0',
+    '00',
+    0,
+    -1134678535,
+    'f389cb249cc0300d6bad5300974a7b609ae6f16f36237831d9bc74580b5fcb85'
+  ],
+  [
+    '3793027204ddefa1628188f8374214a8c196e9bbeccc25818549aa9cfe3f60f9f2c767f6440200000006516a000065acbc912a2638ddf7ebb547387ff2ba648806d3955d19c22bf0176dd8dc4e14116c9c26e237010000000465656a51ffffffff9d53191bfc1cde20deca33001992953bc0269b5621d95f2e34de24fb3de1a042010000000352ab00ba092106bb73b325ec793e968a1bd20d21605a78d46d4b1bdce4e9b98d4673213e6c5cb60000000006ab00005252ac56e274b604bd68fb020000000004acac5100f1c96b0100000000036a5265a6ef420000000000096a00526aac5365ab0055b37a0400000000016a00000000',
+    '6a',
+    2,
+    1802669439,
+    '6259f7c353b8548ccc39b1fd0f015486188d181d49fa224f5f1fe46b4d5250c3'
+  ],
+  [
+    'c7d7bbe0019f7c10a22f5aa5815374fff16703696b55d27037096d1fab43abc4541c978be80000000000d0b4c22102abf7790000000000004534040000000000086551515353526365eb89660d',
+    '526565516353',
+    0,
+    46606811,
+    '4591327fea57d32ee19b72119f2f73a34290b41f6207588c74792c0569f16836'
+  ],
+  [
+    'b5c9009a02df15e49f591fed652dbbccce498a594988c7d9b4045bdfe0b0180950582d59c20300000004ac6a0053ffffffffe565912df3f3655e1321cefa14b341c1dbbf7b0f066a2e5a1cf20436d90f08e700000000076a6563535365abc1c2560403378930030000000009ab5151535353536a6ac5957b050000000001abd8ff90030000000009636a6351006a52ac53bfa0ba15',
+    '',
+    0,
+    338266365,
+    '73fc300c8294aec76e463cba658a29935abf8d511b60a3d7e360fa85a50ca0e5'
+  ],
+  [
+    'b2254c74035ac6ca8842af30bbade26ffdd78aa868e08e11d18aa53dfea40ba377cba8ec2702000000050053515251fffffffff6aa8141f8edcadc7943d0960b9e5eb8942c188a487007f238dbcbc8633379820200000009655265006351ac5200fe70ecc91d4ef8f1754dac3058cb600dfb79cb4191ce24c59daed6de90148e2b9d3b473001000000026a00c9b809ad01aeea19010000000005636351ab6a18935952',
+    'ab6352ab516a',
+    0,
+    -1799524641,
+    '344530efa102e0f24392cb684dcb7910514cd89f264a408bb60bf523bae879c2'
+  ],
+  [
+    '98388dd4044342386904b76650e06e019eef90c466f218f659bdf3d5bf95387e830f17d99b020000000363ac6a6a48545d2d971cb1b8a5706c5062fc0aef85be4da37f927000fdf05febb5a5c618dc9aa70300000000ffffffff265833906a78be6518ff59e42035f5629a3460de2af7d3de7c8eebed9b3922c9010000000165ffffffffe450edd4f30582ff745274b64175e5483df7f2f210c7a57874889bb4e4e5c54501000000056a6553656affffffff02a2445103000000000700536a52656a51d24ded000000000003630053e6cfa983',
+    '0051',
+    1,
+    679860686,
+    '6f8dfd0aab5f71b1af67c48232a43e1159f31ce4fc92b3aeb69e3d07ece39d84'
+  ],
+  [
+    '7ce9b6f203db504d0cf94acd9ee37e441acee2be1f44912922bac234cbc02f69eed9f7040002000000016affffffff24aba01ea18595d97839a10e918e30a71efbf259b30453fee4c566b168cac4660300000008526a53536300ac63ffffffff24490dab28741cf07d62dd807b925700b50fd569874dfecf09834fd93d3b4e3c03000000056351526a52ffffffff04c8b7b0000000000009655263ac6353ac6a65f3a120030000000005000052ac65832918020000000006ac6a6a00635130c8c30300000000056a51535265449832fc',
+    '6500',
+    2,
+    -604397458,
+    '35bc84e4a9077b3501a2312f5a9f65cae6e5c5d009823503ab44f2a26f8dbc38'
+  ],
+  [
+    '9b679877031876dfb3bfa0f6d8010336fdb488dd423d42405cea3d8cd9eb16b4c0badd785403000000055252655100ffffffff7b1c88b7490ddab1d2351dddb6742a4f6349293e3f39ddadca0495dd388ddf99020000000153ffffffff8c4bbdd8efa4fb59aa82cecc3962641f402d25ed7cd637870195a6a3bf5d59c0030000000800abac6a53516500ffffffff03877ddd0400000000076a5251516aab65438a2204000000000093780d0200000000056aab6aacac1a0e4b0d',
+    'ac65',
+    0,
+    1255088477,
+    '4759071bfd5cd408c4530673db8be5a925db581f121f6176161b35dd2aa0b0d7'
+  ],
+  [
+    'ec22bab8048f90148be55b0e0529aa03d482f967ad0cbf80a09eabc5261ad5509d4a3aaaa702000000003100da2d44f358ea2b8eb0a965129718367cb4838f2bf92a3ace737efb845724df30b947020000000963ab535353636a536affffffff0712debe56ca423e639f37fc3b3d0a5c0d7bdbfba6e0558f952ad3dc3d730a84000000000865abababab536a00ffffffffe34d79de259a697ddeebea3a1337990155c89c57ef7255bb3bbe74fe9a5da6b40100000000f11c174303403ab7010000000005ac526aabac85aeb204000000000048b46900000000000351536300000000',
+    '51ac5163510051',
+    0,
+    -1140095650,
+    '87440f1d3457d5d3ed0e37b618ec2ec49d605716840da292f27eaea4ada0899e'
+  ],
+  [
+    '408d997501a3771c1538ba8fc75637f3fc0c4a9d7698265c266ccc743e0aa472480d6926fa01000000046a53510064086fda027f055f0300000000003508620400000000046a53515300000000',
+    '63635251abab51',
+    0,
+    -443012890,
+    '5431a8bcb9be8ae63d7e0872d644639ca69a9cbb6240e83ce09e9159111721fa'
+  ],
+  [
+    '71cd681b02136e8ddcae73fecd1b7e8c195296c150cd243e56eb1b9497f8da495d380ff58b0100000006636565ac6a6af438981250fcf25f653800e4dfe5f69aca33f5796329e6997630fb4235ade809e503a9be0000000000ffffffff04bacfb604000000000653ab52ac656527abb3020000000008526a65536a53ab00ebd1d204000000000552656363acf6a1e005000000000251636f0a425f',
+    '6552',
+    0,
+    1735093500,
+    '0ed6f80e3b8f20b6bdd09fda22c7ad0d161e181b4e1c9af165bb703a87780cfc'
+  ],
+  [
+    'f88a5f87039c5e5944d6d210e64be51ef31e2cf6d54e31e106df4426468a587c4b3d40079b02000000025353ffffffff3a17edb73171baa66e606faa7fb502a803d4153e6dc9baf6dfe6de7940f523d102000000085163006aabab5152eb9a4ead5a768e870469f9b6f8185f98b2c0fb455247b13a001c70cf7f90aa6e0441095f0100000006ab6565acab6affffffff02e54f39010000000003636353cdc63403000000000000000000',
+    'ab52630065',
+    0,
+    2107469775,
+    '1d99adbdc8631c0d3aeb26e5f28fcdec34c6a4acb9fc277456b5f19dc15e6e3c'
+  ],
+  [
+    '34d6820204d2d1d322eb6eca8df53729963109bfcf66ce518f5e9482f10555370a0e57a3c3010000000165ffffffff1c5f9f10bd575c8814a51700989097be89d77c105bedbe2c64e115d254c4c7b4010000000851acab5251ac0063ffffffff67cd134ad49712b3ecadd75b8faf46b9b87e7b711ec7f2b0e7b8e0e10e4e42bc0000000004abab65acffffffff88eeb974befe6c441eaaf3f28ab90a912c5ef91e7380d3d3b537b39925ad9ef3000000000751ac516a65ac6affffffff0365091b0300000000035351ac629d87000000000003516a632d38e803000000000353650062394d23',
+    '005251',
+    3,
+    876150232,
+    '2232c9cfa50fdae41964c2d5d2cfbb89829e229bb4a0a97353def6e1b1119b97'
+  ],
+  [
+    'd94d73f801a075cbf5b3abc8fead3930806d58c9d7c979141b0e8b47157de887e95c5ab2a6020000000751515253006a53ffffffff01f9ea5002000000000500ac6500526b0ae138',
+    '655165656a53ac',
+    0,
+    1899049599,
+    'fc553935144c843207617530229bf84390ec8a0c17df73d8dac65060ae202f75'
+  ],
+  [
+    '44507aed038d4268f96590dc8c43064d278f72f2ba96d9ed7f11efebf98f05d12abd5232c701000000036553ace76292c831056dbfd874c83ae39eef357552fba37e5d2a434326969dca9e65e2f2851f720000000000a7912bbb619b25a24c9565a1bdbfa3b71d230cc30eb80c9e4589fbb0c2511a03d32b1468030000000453006a65ffffffff03b562c400000000000163dd7ef404000000000165ff8dca03000000000865ac5200ac51536374aeddb2',
+    'ac636351',
+    1,
+    -970112048,
+    '8f5d014b62fa904b829440787e9be99c0db7c70f87e652fd7d9ba540c76a6b7c'
+  ],
+  [
+    '1ed44b5903c96b5bb696322e88bf00b0551129bc436fbd19f489a2ce18517bdc49d47f498a0000000001636514d2ec5536ab8286f04df77c3441645b89316f128fea75272be9b3bffa52663f4a6c990000000005000065635106071dad096b973a62ca4b0451ee5a4af6af0a534ae3181bb86fe31870360da67efc99fd0200000004ac000053a1232be8027df04a010000000006535300ab6aac010ea6030000000009636352ab536551515300000000',
+    '65',
+    2,
+    -558055059,
+    'c7f10083358ef2c7e500c68e39cdef74117ed68648d3a65605394c3fdbfcadd1'
+  ],
+  [
+    'c42094cb03739a8b5174549f4bd92bb44c9483037fe4d1a1bdd7e64413b1fbe90b42fb698802000000070053536300abaccf1b687876e2e9ce04f3b19364d023926d7cee4ac2aa2d17d3a19c76f7e10096f6fdb4390200000001003a91f13ad53d40d3406ca8fd89e51d287953c018a1794487da929ad02d30b6be9fe1b7210100000003636363ffffffff0188ed130400000000016300000000',
+    '65ab53515163650052',
+    1,
+    -104936068,
+    'b1efb6397b8e93c61da144cff03206f52f825ff6e552c6c0370fd25c6a160b88'
+  ],
+  [
+    '651b76e7038401b3840f04151c3dff1a499f152cfe31a6874c2c5fa379f54d5c8d3332da8e00000000026500ffffffff268a090be3efef809f72b5fea98725da6b76e76f4376d35700dedb267877cb9c030000000553ac526a00ffffffff99a09b6944f97d3902cfca696d77de29f1bbb77887ad7df4e3e09743eab364660100000002ac651ccc3e6d0499ff11020000000004ab635200b9cc96040000000007ab0052516a0051d361520400000000096a6a636a5352ac636301dd0c0000000000086552526352ac006500000000',
+    '536a',
+    1,
+    -1916306350,
+    'fafe236f359e00b9447e157b0aeb7e356158a0944d02e837b90a36c0f783d019'
+  ],
+  [
+    'd809c36004a9eb11747bf1a17877f0c00e3ec21eb5a5b0419aa0fa2bbb601d185461dc9ff50100000005510063526affffffffefd1866b4d0c56c1dab50e183a09e5c49d43083492265ae5c7c53ee4b6eb60f40300000009005365516300ab52532d6d8a1f85e4fab45b4e9cf851e8bea213981d5f188ff326abb8a5d4b2214e9b8c4098c500000000046a0065ab41ec73cc9633dd1646d49a47295e97cd1a297074c5af6a0b0b2eba05563009127e86821503000000025351ffffffff0171a5d5050000000002ab537f2c6e2c',
+    '65656a6aac53ab6351',
+    0,
+    1887760587,
+    '2c198a34e44216a8851cbc3f119e713d4929c16f1313b270d2856a1e75412bb8'
+  ],
+  [
+    '6656c4a604173f4aa20cfca6e78eb12d0c6ea49a14613a2d4212077dd954fb4b2f716a8a9b01000000016affffffff6e55e9b39481e40796f00e6af8f6938ddfa9be4c166133551be6e5ac632163ab0200000007006aabac51656597fffa2ca735cf901d12b13c0df04eef459a66365185181a2ef17e0eb0ad5c7b74d8166401000000076a636aab6363acbb594c7affc0bc236234eae66cc6f8ad98d5619236d67572f7974d68c42882dc420e407e00000000066a6353635263ffffffff03327f1e04000000000565ac6a6553eca52f010000000005536363525145e01c010000000008ab52abab53abac5100000000',
+    '00',
+    0,
+    -1110443063,
+    'e963e7d43ec25eb76e1e6bb5dfe41fe8967a4442189bb58fef65b3a9d20f6dc6'
+  ],
+  [
+    'a367df9f031b42209900c8b8d0457df17c1b00c2c024887f77b93e706b5418c08035ff99d0020000000153ffffffff3c68ea232c3ac5c480b80317afa47a1743c042d1edd72d57c8e7edee8e7bee9803000000086aac656a51ac516affffffff4209abf29ffefe898bc349e16386ed4d5b90ba43e8813a26ee8b91c413dacbcf0200000002530097c8986e03fd67be02000000000200ab61fa5b030000000009525352ac515165ab51a0a5ea05000000000952ac520000ac526353a78df8fe',
+    '65006a6a53516aab51',
+    1,
+    -1070973963,
+    '175774c5fd28b46df53eb73744aafd5e7bb97b5dfdf5d31f65b7052751c8fb7e'
+  ],
+  [
+    '45cbdbe701eb963091e9a54e19d9db4c9c5d40532d19fcfe4484c27de7fe80d9f7c14ad0420100000007ac6553ab525351ffffffff045accd20400000000045352515145a4e9010000000005516a0053aca6dda20300000000046a00635369624b04000000000353006a00000000',
+    'ab0063ab63',
+    0,
+    928333305,
+    '28395c063389a393b7937705512c57504d6ffb26fe5551f1d0fc059356d92f4a'
+  ],
+  [
+    'c6ca9ab201634938649d0f5586973db47848803cec532aa621173765003584169b42ea82690200000001acffffffff01f16bf2020000000004526aac5200000000',
+    '52ab65acac5165536a',
+    0,
+    1916832993,
+    'b8f0e859481b20ee0ff8fb3342abff4217b3116336c9642b00c316970fc12e4c'
+  ],
+  [
+    '21a489ba01c391469494794aa0edf996d05795ec28aaef81c8bb92abf769a1c2b06a4cc98c0300000000521ca4d801a4318c000000000005636351ac5129e462db',
+    '5100',
+    0,
+    1732957013,
+    '7ecfb47cda71c4bfdc1b9cb5a7b5d8080aa97e361262069f846d3696688d4754'
+  ],
+  [
+    '1f7a57fb04abf5b01134371676437ac5ffc9e56733fa86eff618162e19ce1f87d6c272fbd302000000085263ab6a6a00ab527df21ddf680de4df4d991511df204b69f985a2bfbb0527806473c4447a8688015f240b33000000000800ac51635252ac65ffffffffe9c11d5391c8be7f1b82a27f022758a3080a9a559f7c2af32bf7fc2792f97e2702000000036500acffffffffca67ebd6c72bf7f9db168f321ac68ae7ca241c176ca1d00e24481a1e8d795830010000000600ac6a525200d097b73902a83eae010000000001ac0a58190500000000040053650000000000',
+    '00',
+    0,
+    1156518382,
+    '329b2a52f863ae3addc1fa92423b45c688407365543c952527e6d9a4fc4dfbd0'
+  ],
+  [
+    '910c6ba4046deb6eafd18b79fbe95e833a53e0f7bbcfef2912895af6ab4119c11face8004e0000000000ffffffff67a872ed2231855572a074338d8cee8cb63affc05e7cdb238c053182414363e90200000006656300635353506243247176f3b667205e5bd480e4cf6582928a2de80b69bf3e064a32322a5156d3964b01000000046551516521f76e8b212e0ffabed7e93aac09a0d6d3eb65ca5ead8ea7af0ba7bbd8c30c35ac6b29240300000001657d4ed94601f1b7d3000000000001ab00000000',
+    '6563005251536a6a53',
+    1,
+    1232916929,
+    '05234d0dfdbde6edebb9c793a6d1a8d4a91671dcc66aeea26b1804ac98cde507'
+  ],
+  [
+    '5cd6019802ed11b14ac57941ebd620622807019e7da97643e4c576e6263fe9dd63a1f29de2000000000753536a53655263ffffffffe4d9a37f00360ace660b70e00857b50c1fc6b6b384766951f47b383dbdb3d47a000000000651ab5351ac00ffffffff03290b3c0000000000004663ab020000000007ac63abac5151ac39a1ef0100000000076a51ab6a63ac53969474f7',
+    '00',
+    0,
+    -674352181,
+    '6f8b1e664bfcd3f1eb277687d9888938737a7b4b1d24216c89570f29002c7db9'
+  ],
+  [
+    'a25c176f049c3005297672372c7c3be1ce2179661b61a03aac92f11e716ea3f4de738f276902000000066552ab63ac53d4260355cf119ca1258a656551108c245bf27b745edda82302e67a08a8ecc5b1d8e38bbd0300000000bcdf52d7c7a1f574428eeedf608ad1e1c6951292d1f3aad763a0f133a0a4fc0fbac2c59f030000000865acac00ab0065637d74454a1c7592d6c977b3501a9a813f0c76f01205955524a291f5084c09e5197c28bff30100000001abffffffff0410c9b0010000000004636aab6a98a60d000000000007ac52ab51510051c59dea030000000005655165abab018ce0000000000008ab5100526353006500000000',
+    '6aac6a',
+    3,
+    -817496512,
+    'a0a35ca2ed5d94d90e38bf3cd1db266d1f1c49bb3e68279d51c25ed364368f72'
+  ],
+  [
+    '0dd38fc903d8569288d4ca9c30c65e512f1f9ed5ddf46d0798bcde22ec0408360823696a22010000000965ac6a52516a00536affffffff79397e5ed84a96b8f6e2be229de116f714fa1941dafb192160e201db546d74890300000004ab6aac6a70d2c88e22d0db334e1b0fb121eff6ab3392c6a0cc3837c696b8af3d5962568777f3545e020000000763655300acab63ffffffff035f5abf04000000000451ab6a6a2daa100400000000026551ebeb3604000000000652635100acacb748f491',
+    'acac6551ac63536a',
+    2,
+    -734375057,
+    '9139a7fe59352100b8379d26ca8f658f5eb84323fecd92695fe9b2e967627164'
+  ],
+  [
+    'fa594856044c50e84e3092867b126f7d8c4a3b1eb3bdfd50cb6ebadf12929ffe445bea496e0000000003abab6affffffffbc00367975045f74fed80e6fc15b3ed917acb7fcb5d01a27b311e227617e3e680200000005ab6a52ab637ead0ffbb95b535e9b3b60ffaeaa90ef69f6c1c9c04b37fdeae35a742d0e29b0989956c8020000000865ac655252ab52acffffffff9bd439eb4ae9341964085e149c99b0b5df8ce9f05160506e0f233a62c2c22672020000000100876d75d9015c25fa04000000000765ac5300abacacb2c5f292',
+    '535265656aab65acab',
+    2,
+    1653221069,
+    'ee6afcfaf900aa1700930d90c0eb05c55a2b93dce0648e48bb7cb2e385800c57'
+  ],
+  [
+    '92c6dc9004859dd0890589c266d899538a416e2bc2269efacf3857440bd906a78652d5490c00000000002f6b3ea1143a376c4ab4ac3aaeb8b8d8da791cb06481848a75914877a859ef02b38aa39401000000096365acac5153526a63e573738d4a104581688f198489dece0f188ba299d563559b0a04c967f28a14bbb5b7676c0100000001acb2d575b8f81338e1b6fbed6d7790c2eb76841a8ca5d84afba1727350de40d1ac3e2dbc51020000000663ab51ab65005f6c5990043542bb0500000000025152f74a210500000000056a5200abac1cb0d0050000000005abac53ac0034e5100000000000045153ac00264b5d38',
+    '6a65',
+    3,
+    -215018267,
+    '9483193c6ffa72285aa667327e859568a370a9979d64d7f7e9a322776a537add'
+  ],
+  [
+    'ce37604703d56c37d0c5830958afe5469afd664668bcc02a36d6a1cd7eaacce5a6dce8b1fa0200000000ffffffff403fae4c3613c98288c53e3b3ad1a7296594a289f3fa548dd4bf4ef3aa0058870200000001511c335e39de46999f55d2b77b0f4e888c02d6c97767d2fa91da8eb4460eb83e86b80d4a8e0200000002ac533cb739a9044abb9c030000000005acac526365ba52be050000000006ab536300ac6340e04b02000000000265538efc0901000000000965ab6552ab516a6a00c7d85489',
+    '',
+    1,
+    1766785894,
+    '5dbc9277c371676be63c41c906267b269e2d2b772ad28c13368aa330e650f9dd'
+  ],
+  [
+    'e8533f920105bea297ea302932897b3b07cc8f23a2d9351bd538d98bd546268ce6f68f7345000000000363526ab9df2aeb039ffd410400000000036363ab3cdc5a0500000000086363ac00006363ab8d1efd01000000000058d9cfc7',
+    '656a52ac',
+    0,
+    -1169664959,
+    'f7352d5720f924ef4d1bd99368661de7154feec300cce3f902a95c9a7f3e2c41'
+  ],
+  [
+    '261c643204058c8eed8c3c60baa1742f25f6b6e4d3dd623bd406bc5b2f5b8e8bfbc7b5901e0300000007520051ab636a534b9a93e6bf86845c44896ba1b010540e7c953b79316881c399084c5be9abfb126a3c03bc030000000663ab6a6a6352edc5f65df0a8ba96c243933c8e829538aeb932cef2914ed90cd07a1076e5a78cc27adf850100000003abab52ffffffffa94bab100e962b924a173a2ed143a64188979b1e0b930fcf4c2708903c0e7a870000000004acab5365ffffffff0215fee1010000000002515136fae3030000000006ab536a00ac65be5727f8',
+    '6a63ab53',
+    1,
+    -189908014,
+    '555e4cf15b0853db061266a29a557fbaccc16d8237a3c674f918e7f5ec0ce351'
+  ],
+  [
+    '7c6b09fc0285c6479f44fd3c11601562e8e69de9e66a6718deb7d62ae8e544aeb33881f34403000000086553006552655352ffffffff4fd92dee6b854d1e0c2c727a2592dd667019b8c5187a10dbd036de3e7fb702b701000000086a00536a0063ac539a1daf9404e570b7000000000002acac803c2c030000000008ac516353ac526a52b1a126030000000006ab5363ab00537cf61a0200000000065165536a63632a71fef5',
+    '00ac5352656a',
+    1,
+    1044269417,
+    '8f40c5a90d8c3ba0344a64a5cc4ca67a2003d25bf229d39de2b121f3726dcbb3'
+  ],
+  [
+    '7ee484390169e994fe170881544736138f45132f7e551a0d19f6377c5f191f25aa88e91dd301000000026a65ffffffff01deae61000000000006536a006a656500000000',
+    '52006aabacac65ac00',
+    0,
+    -909356216,
+    '586827534d361ecf96de4d2d7fbe554ee7227433cb83bdff56c9ccc7da30231a'
+  ],
+  [
+    'f5444268039e92d23dd6c1ce8c8bf94ef51f91155f8005520513622765054bc568a93181ac0300000004655200519a2239acde3a32b3377c647e06b8ffa128746ffc481b59c3d5d2c6352ede4f50afd8c5a402000000036352acd3ee33eb4ec3e5d9159e4879d3febee2d99420750f64813eb00d2e122af1200b83ca67620200000007abacab6a53ac51efe08fb604d38185010000000009abac51525153ab6aab5db07005000000000200512db912030000000009abab5252655163006a6474f7020000000006516aab52516a00000000',
+    'ab525151ac5151',
+    0,
+    125082566,
+    'c5fbaf40dfae16f1cbb12fae0f7bf6b193aac85a14cf55d68b5aa44df3a89be6'
+  ],
+  [
+    'e1a3b8d8043b06d638465e973f39a7cadc306a447b106330b1db1842152ba6ad24fa04ad9b01000000016a104216a5e52adbcf17412c09a02b43e460de742947f1ee4b37504076ed73e0d24d9ef4630000000008ac6a006a63006553ffffffff342c32c0a2159e28dd2894bbfddcd65ca91f07eaba661e1ce3ad48098d52342e000000000665636a63ac52e73a7f8d92b2941da62ee3ad1717dc0aac7d918e4c6e86f1b1c69b091ee01a13663e93130000000000965b744002dc3952000000000005acab656a00bc7eba01000000000365ac00c6d2780d',
+    '52',
+    0,
+    81352825,
+    '9ddcf9e945d40fbc220218ac89f004523f26f7ffe40ebaf6585481009cfe8144'
+  ],
+  [
+    '11198b4103a38a4bfdac83bb642d122af0bd22e0cdf04ee6ed2b2cc4e9494c66363ae4ae820300000000ffffffff7ab7b3dd58bb8666b672ae4e2a6146ec6141fd5796f55124af988dae24a609e70000000008ac65ac63005363acffffffff7f221191e2ee5013d45e7659f2e179b1bb89b9943eb256a7330f77f87dc52ec00200000009ac51ab635252536a6affffffff02e2b9fa0300000000036353520a918b010000000009ac535200530063abac00000000',
+    '',
+    1,
+    -1699648695,
+    'fb6eeef648a0194c2c9a05b209f23e9a1717d29cc00e301e94c0003082c3dde9'
+  ],
+  [
+    '476a5f3902f79f815feb30635f6fcc38f7811df2fb378d61e20bdc5a32550a0a1a15ec5fdf0300000000c212027e41f4cff6616d56d2f8ae82ec72d671f9edbb3892e9047ea3e9f6806cf6bd43e90200000000ffffffff013b8b21020000000003abababa68bf7aa',
+    '63',
+    1,
+    839489022,
+    '8724c688f3ab426ee51965fd00a983b08fb2c75de3ae74c79a8ec14a43670fc6'
+  ],
+  [
+    'd729ae610155d1f942c9a59e59c415ea543f6be22e45c02877252ffd7bbd5bb8f24042430502000000096352656a5265656aacffffffff02f7aadb0500000000000c2c33030000000005526aab525300000000',
+    'ac006552ac635165',
+    0,
+    -372383150,
+    '213074c12db12d79018e15ac01cead96599f8bc2bac43aa78dbead0dcc4cabc4'
+  ],
+  [
+    'cc50fb7e0345d249ceba5ce1babd50fef7bf4f9ad0a148f71a137bc99ad57cba6ccf2043310200000008006a516a6aab6352ffffffff141555a8e186f0d6e4a2645c18b1758f0438015aa623516a9af55df26f89a837030000000451006a53ffffffff5aebb5145bd0ad1cd26a2f4e71546c3a0d27a82a9f5456e4e810e1f2406c4029010000000163ffffffff04df6c280000000000056553516351146cf3030000000006635100516563992945040000000003acabac9ddb66030000000009ab53ab000051ac0065ed2687b5',
+    '526353',
+    2,
+    1086142546,
+    '23c0a05bd3638464336637da8efbe044e70fd37377396f058381c19262a95530'
+  ],
+  [
+    'cc0f1adb028e24de3844a3cff62037e18c39fda08b9cb6bd197433caaa1ff1e0dd65f3e65001000000026551ffffffffafb1939775b27fa98312fb7b89e2ea1133d19f1842b39e32539df78c0646b012010000000852ac52ac6552526375e6a92301e40ac8010000000008abab53516300ac6300000000',
+    '656a530000',
+    0,
+    1609866864,
+    'baf250f3fa4c2871104ca52014a3178a3b88b6469c24e5533c35ce3bf3e93c39'
+  ],
+  [
+    'fe03082301aa4ced049b59283b93df6422e201ad5f6e16b9e4ad3829d53213a82c19033701020000000200ac233604cf02e253d00200000000045253516a3793e6050000000007635365ab53635100000000',
+    '6a53ab006500ab63',
+    0,
+    2051985629,
+    'ee88d3b94fdde91acab80b356792e54c4fc359cafe48e42b11816959587ff754'
+  ],
+  [
+    'af08154e0438e96bd856fdf406498bb58f1f5de21aaccffafe033d41bbd00ea0a63608388f000000000152f13e2b6140dff29d808f6e5b61e5c546472089ce77048e89c2451dab8a6a7d22aa64217501000000046a530052c8aeefdb1b41962bde2d01031c6348b8b7d79d5b749931b84072e9175b47022a2390cd760000000002516ae3def005ca167d8c54669851eace89637d00958027973086d6699bbf424e25117cad29280200000009535265636a52acab63a1d4bc4d03d5f12a01000000000552ac53636532ca32030000000005ab5363635112083f01000000000753acacab0052511bfd7049',
+    '656a',
+    1,
+    756176218,
+    'c9765b9b16fde530010c8a0df2692803c8b9eab0a16179e8535b67471422a0f6'
+  ],
+  [
+    '036d8ac201d216ba4596166024fbdfd5a24361b0d54ac64d81886e5b9ad1524d2cccbaf97a03000000096552abab6a63510052ffffffff02fbecfb0000000000026565c889780300000000026a5100000000',
+    '6a52006552ac',
+    0,
+    1518402014,
+    'fb08426def19493c8da4c4067ce0991bff96af0f03f975cdc30f50e1d370152d'
+  ],
+  [
+    'ee5fcb67028033931a6e11e91b9f4b4a5a508950539e140ee37d8dc77d8731ed027e0f4fea03000000026352ffffffff0d60bced428660cd6ae668c9f32e4d5e4aacc8c2e180f151fefa87ce7b5db2f1030000000753ab6565525352a8ab84c902babc4a04000000000453525152c3d7a400000000000463536a5100000000',
+    '005353acab00526500',
+    0,
+    -1394714940,
+    'b1c8abbcb97e4be6e33a96f79f27ed5d38063bd68b72f905cd2840c2909b9a6a'
+  ],
+  [
+    '32ce4ea80410fa2ab350ad584a890aa88ecca7baf333276dbc6357f6b0daaf53938d08399600000000046a6a65acffffffffe2b526babe44b853bc77b1c7c9d2b6329b82a5985944084ec74005bc1d53ba9300000000025352ffffffff75c42ac67ef2244d459b21e797e06b2bb9ddefec38966c45284177e20c02ceac030000000047a7b2e671f260190afc94e4706b16019843d5d9cce38210821948de408d5a1d33a46a3700000000036a6a00ffffffff04ad67e804000000000153ba4007050000000004655300abc78bc50300000000016a7c75ed010000000001abbe52a39e',
+    '51ac',
+    2,
+    1961803132,
+    'edcf886d5b2458cfea55eef1dace5a4055d6a12affd9f52d06bbdb5106750fd2'
+  ],
+  [
+    '4a087f840228b173e8548a1f0aa8e011d3d3af2fdff8889935b487214342fd55f2b0848456010000000900536a526a655265acefa8ecb6aa679f8a0e91bf267d72a25c289c52aca8277b38e0c77959a7c3a425a6be0dfc0300000008ac6a006aab005200ffffffff01a4851c040000000005abacac5351cec1141f',
+    'ac0065ab',
+    0,
+    -1644738104,
+    '762a6f4837db2c134eb772b8c4bf2669f6e7ef6f05ef4d9bf7d968e88f4ef1ab'
+  ],
+  [
+    'af74574903e8c6d3dba56232702b5d9797c160128358b2927106a697344c2327676b5cbf1d03000000045300526a8551dac69a0bf5efecae4044b6212f1f2bdd97842faf81f3c1cc2fc1cfd1e6c177e322dd020000000003b2f23c45d234bf1065ec5c72b9e16e074d5c6f82c8d0026ca98a5a928f4d0bf5c730df02000000036a51655480e42e03ce902a0100000000016327843803000000000753ababab6a51009d267f050000000004ab65520073fb890b',
+    '536a6a5253516a53',
+    2,
+    -1419329296,
+    '44d75df5d21345526ed6a6e520f383ef32febac23a43467d0633b5c941cefce6'
+  ],
+  [
+    'f7810be4039b35c2a5e5b2914470d7ac60330c9a956e42fb45053f721052545d6064da583c010000000865535251acac52acffffffff28f8c4c5a0033ab462ac72aaec30be49406095339166c1364d5f002e92f8f830020000000400006563b177cfa00e3fe7466158e9fd97abbe710d83ad6ea2b6ef1675912213434c1913b0a15032000000000453005265ffffffff0312c044000000000001652887c2020000000005520063ac6a2362a105000000000351005300000000',
+    '00abab63',
+    1,
+    1947040372,
+    'acd7a34b9e68bf5cce203f4715b14643adfb1bd32b230ea170253013ba5d9761'
+  ],
+  [
+    '85123f2203d9737e9bbaa0c82bf74423448d581a7f62803cab42fe539d95661d15a39915aa0200000006ab6a656352acffffffff5cc3ee1d708f84d276217de7e89b51149e41fa41404ba1082e243638e332781f010000000253acffffffffdf62384ccbf5bc6dc652922a2ce7480252eb95dfaef943cc62e3069ede2981d90300000002ac52dac46b410162042a000000000007acac52ab65000000000000',
+    '',
+    1,
+    1020733685,
+    '2a878c872817d16f422c4fb5a92ade2c3e0642a01e390124d61bd9c8f562e155'
+  ],
+  [
+    '703b78e202e18e060b9b9deae328b32aadfe27f5b2fbf72aa4951cba38b6498d90d4e575c10300000000ffffffffd7646c08f8e07ec291e34da24edd7e46b4eac1e90f5396b725f6c90d8142c2f7010000000253abffffffff01a52f3900000000000000000000',
+    'abacacab6a',
+    0,
+    1723666133,
+    '02fb2300545b29c2acb144e88e8fe4a010938e83dfa660ae37cf3e7bd447e99b'
+  ],
+  [
+    '20efcf3503a4370120e618a53c7db8af8a4621a2b2453b1b27357a27999b12361682327bd5020000000953536352ab6a51ab6affffffff38f43e9e317a236e948ebf8ddff6bd7823579d4c4012086810d5a96a200bee64000000000100a26ed6a54bd12e3bec2f1a29f27e70686d01546879e5a931973cfc37aada89ef2ab9b4bf0200000008acac5300ab63ab63ffffffff03c095420300000000056a00006365e50d380300000000046a6353001252930300000000050051ac630000000000',
+    '65ac6a',
+    1,
+    -580765583,
+    '23ec08111cd92e36503c5e10a38bfe2d95bc9ee0ffce57a2dc969f1b5cbffaef'
+  ],
+  [
+    '9c1c25130277b8669ad27762ca48852bbeb873e7ae0e2a0b2537b0127cf5cc3294846194270000000000ffffffff735d367098f5a59607011d908cf95af2cc179804267b52a6e55088c7d6f735b8030000000800ab006a536a535152e4dac303893b5b0000000000086a53656aab526551f67894050000000002ab52e1f228030000000005ab0000abac7c87deb9',
+    '525251abab6a',
+    1,
+    1745196926,
+    '72fc92cb93e2482b206904d6a338c0d55def099296849cf69b3982df323c216b'
+  ],
+  [
+    'a553a4970479037f789762c2c5d0721566d46e5bd11bf92e260edfcfcef32078089564c7830200000006ab53525253aca5982a4886f76ac659957b24002c79122b0dc4ea6b10550167791094c4d804e63ca37f1d0000000005ab53abab65ffffffffecb75886d7b88997baca8a670d3d0ef680f95a05b96b79ad45313a816322d26b01000000026363ffffffffa9f077ca7f80959152477dc00222e550d65ea570542da2897e4ef772cf2ce3450200000006636aabac536337bb9ce301d125160000000000096a6a635351ab65006300000000',
+    '53526a',
+    0,
+    -455161783,
+    '0336aab78f6fff3506dfb72fb0388a6046a3f1d304d80a94e8a5780682c3da74'
+  ],
+  [
+    '84bcd89d036aa4c730fb811d9a66a23932ffb4cd5bf54ce0cfd37cb32e189a07fd3819b27b020000000036b05d03caed265d48e8b8997d38fa7e875fa2ed2c178d05ad033aada356b17804333d660100000000ffffffff3d289ed9bdf02fe59e43d0fb69356d584df3b4c5027a46916dd4046e15d0f81f0000000003ac63ac22748f40049b984c0200000000060063ac5165650405960200000000090053ab51ac6aab51abf2673404000000000753006aab5153ab8421490300000000055351636500dea647b8',
+    'ab635163',
+    1,
+    695688826,
+    'e93fdfae31599a2dc452508daf31b22d65eb5b94da5bba72a9b6754c1f99d6ea'
+  ],
+  [
+    '1003804d0287ce85374cf8fb0db61f5e3417cfc93219d9a7fe09482c905f2a5194c8fbe48d020000000952ac5363510053ac63ffffffff6bdc9a2920222628403f57093b803d58f6f2b639d1765e81d3bf758dd426441e01000000076363525100ab00ea56376203595da10300000000007d5a8c000000000007ac5365005363005b0342010000000009abac516552ac6563ab9f4dde58',
+    '006a65',
+    0,
+    1562923717,
+    'fe9dae2d5519db49ddb5cc4048bce934d5c3e1b2ce94faff3efc791d08a40d5e'
+  ],
+  [
+    '2ac3e90001b3fb63cd5b2c2d191661cc874ebfb4295310c6d643a89e9ec0c0afedd9678510020000000653ac65ac5263ffffffff03a4abfb040000000004516aac6a14fa79040000000009515153ac53655365519cbdb00300000000010000000000',
+    '',
+    0,
+    -1357522189,
+    'f6c82c55826c2d980a2e9237ef0323d93399b46b01f679c31351f5a9ef590b7d'
+  ],
+  [
+    'dec63a2d0161fed55b5977cefafc1522a914641bd4afcaa8f66cee5abe53664d99ade4eec2010000000863536563536500abffffffff0188139403000000000900536a5363636a526a00000000',
+    'ab006a515300ab53',
+    0,
+    1191821556,
+    '52ebdfbf55791227669a38a974109a307e96cc36784c6d41dc8d2c473fd7b232'
+  ],
+  [
+    '93614c800165d6d8c3247cac8191914f50e8d99930e7214dbdfe9a274e8c52d896b51e58c302000000055252635353ed13858803ba15d805000000000165555f3e010000000004526551ac09c60b0400000000085351516a5165510000000000',
+    '6552ac51ac630052',
+    0,
+    -548703935,
+    'f8da1521ffcec6edc24d32865f58374ec6f48951e69a7a19767188d55f843c0b'
+  ],
+  [
+    '7f2fab7d037434f91372dc161d136af1dabff445c02b9112df45fd6054d0194deb798a4fe80300000000bcdabf9dd5025b9584eebaab96bd2f4a941bda28dd415b0f757a53b553cd5456fd8b2bcf0300000008516a6351635200513a6014ed9dbee712df4561021f34ae58e700022e48ea802780d949bdcf42b577ca30478b01000000030000512695394603af7419040000000005516365ac63861b7a010000000007655351ac5100654e851f01000000000953ac5152ac6aab5165d0687cbe',
+    'abacabab005352',
+    0,
+    1137989862,
+    '59fcc885f8facc1f5d2a8ceedb3de10ebbebab24a8cfd2d71cd8538f563d7c66'
+  ],
+  [
+    '0c3bc27d04cd54e99a550fc26013242c099ea0ad5aa26ec0aa82d3ba35288658943dced7ea0100000001ab08aeac299b844d40280c5c6ddda582a8c530268aecb51e4b7a78542cc849f4881ea2a36b0200000009ab520065656a6aac51849d6501f44c784588311d7e805d558a980a3eba0bc8e3b9ec9749b64d1d82792f45189b01000000046a636563ffffffff440fd264d7a1247375cf1a410c030aacd2a6b661d1e2657a4367f9e5af662bf30300000000adb68e45011946ae0500000000096553abab6a656365ac00000000',
+    '',
+    2,
+    -1375386659,
+    'ae77a8dc6899b68d3071ff53f951d36bf0c57ac8b3e6f83f53fc21d2f075a22d'
+  ],
+  [
+    'cac347fd021289ff2ba4147a0ff1acf2e32beef731830dea3eb9cfc34a0cbc63d7f37b38ac010000000852656a655253ab6affffffff9c9a5c34408b91f5a8871f5326434518474dde273ba80c0623c3caa6582ad1ef02000000080053ab5352acab633ad90637032b0a8d050000000007ac536551655100f42dec05000000000563ab0053acf64598050000000003536a5396d7656f',
+    '6351abac',
+    1,
+    1949898741,
+    'fc2943860e4693ded1781cbe788c50e8f426ddc6420e820cbedeb8d1befce8c3'
+  ],
+  [
+    'dd37241c041dcc6f7ae5d73a888bf51985529339dd5b5d532844e4f2a85d475640340d5a9f0000000007acab5253656a51ffffffff2c25090a9f51e22222d798a4a3370395b4e1cc7101b4349111d306d8f23526380200000006ac65ac656a5211b734d8e6540c37c88ceaf61fec3d84dd1ac2c2a59b1fe77162f0e27877a71c1eca9d180300000005abab52526affffffff0abd4dea13f387d49cc95cad9f4867a8be539ad2c4ad794fcd35651ef86e3ab5010000000652acac00acacffffffff02af3833010000000008526553636a515100b0ab9602000000000900515263ab63650000e0572142',
+    '53',
+    3,
+    496588140,
+    'bf67fb921b9e7ca862a60bf27f21b2b62b74c975847ac40477c1f13ec379a302'
+  ],
+  [
+    'e437e82f04a133bf8308ae822de296828c28d8b7f3a2429410ae637de2f8b45fcc2da1de9f03000000086aab5253ac52ab65998ab461f7cc85e2f16bbf141c1e85937ba0acdd6d39ff0dab1531599e14d9830c87b8960300000000ffffffff200980ef9409636aa1a3b924f671e37ec5e3454497fb8a8b15c06334f19bdca40200000004630065ab97d6ef643d09e59dd1494129bcfea7ec8dfa333eb6c2f43f18d8de1c910dfc849828c3aa03000000026a52ffffffff0417d266030000000002ac63575148020000000006ac00ab52536a34d8960500000000055263655165bc326d030000000002ab6a00000000',
+    '',
+    1,
+    1578693994,
+    'cd8de503c095dc07bdb62fb2bd4fdb0616cecfbd845a2adbd7a7c5a01572e9b9'
+  ],
+  [
+    '203485c1014a577c15ec85420b2eac2e95a01099b941a51c547634dca9429ead632afe69c7000000000452526a00ffffffff0261ac4a0300000000066a6a655100630f3dca03000000000600536563005120420098',
+    'ab6363',
+    0,
+    -354481187,
+    '908d424ee4141a8a31eeed39c25595462842499f88e80f5bbb42238992b9d0a5'
+  ],
+  [
+    '296c754902cfe6cc615a4a62a443bc459fd5c3b89251ef97aace27d8fba1fb777bdfa905f2000000000552ac6a52acffffffffde8dee72776ac328ae43596e2f1a459553e442f475f14afedea2ae578ff8f2dd020000000663526a656aab1a6b3f67017d381b040000000009ac5251535251ac6a65c6c1f408',
+    'ac5200acab5363',
+    1,
+    283942622,
+    'c324be5a8bad826c5cdc44d088f284133d6905f677489275eacc0b161454ce82'
+  ],
+  [
+    '8e2a6f45040be0d6e55193144a779986fc620af58393268394a9e6bf009b6860e1df5a8e4602000000086a6a630065005151ffffffffbf834c4aee66e77485c75f3e18db5b51e6f2005a7405d3cc7bd4417fceee861e0000000009ac5165635252000053c4aeff9a7600ab18bb7483cac4fed1a2079e03d1e5f000c9d1016b3817e469fa0d70232e0000000004525353acffffffff960fdf97a590edca5954e3a6a8655ca93c232d76782df91090c1cb5e3664ee130000000001530002744b0240849c0300000000036aac51d2b2680000000000096a51515265acab51ac00000000',
+    '65ac516a63',
+    1,
+    -303020850,
+    '8ace6223cfcf7eb46a8ba8a5352597501acc172b786385a4b69301d309f9343a'
+  ],
+  [
+    'dff2240c0426a3c8f7050f3642212f6c9848352e414132e4b6640f35e5110f3910e4b4c3610100000007635153006a53acffffffff3ec0c6bba785e57ac3b7c2f55ebf87bac33ec6fc810b485cdf3796e7df5e0e18000000000951006a5251ac6a6aace9d195e284d6ef591f0f2b11aca5bee26614799835daf423ad850303eec906cd613a8bf0030000000252ab386a345018b42e6e754abb0635f0f45d19ff3ea3c1e15be8a1f66ffa9b153cd40a6fd4460300000004656565abffffffff044d645a040000000006ac536aac5251e224900000000000076a515165635252864c260500000000096552636aab6352636547cc19010000000007516a6aab51ac00a8c1363d',
+    'ac5252',
+    0,
+    -828272701,
+    '5a81cf560f778fe49917e41526cf4c79b983c98ed48ccb374f24b29cd8fa12fd'
+  ],
+  [
+    '008297b702696db564afc65e5aaed1ffbb9aa96541dce28c1c8a64fd80502b743657bbc5500000000000ffffffff9a4dd4d3f3a447781c4ff1c79035be467d14ca13ba11f16159af09f9b3cd2624010000000453ac6352ffffffff042cf2a60000000000085152acab655100638645e202000000000953635251ac6a52ab6349d9070200000000015346b7c50000000000076aac536a656aaba874e2ab',
+    '65655152535163',
+    1,
+    -1009703850,
+    '17742ad759a7371807e3788cd4867054fcf12a39beadb59c50189392624ef370'
+  ],
+  [
+    '1616fc7302b4be48c6f378aabee6929ce0a39572c4eeec99ae97420f700ca73e46c60695bf0300000000ffffffff9689768bec9fdc3482efbda9dda5cd4c60a36e13f843edbbd6e364a136eaa71d02000000040065acab7a906e7604f75435040000000007ab635165536365b55b320400000000010002abdc0000000000046a5263538b8381040000000009ab515153006aab635100000000',
+    '00656a0063655353',
+    0,
+    -1062029060,
+    'f3380efc58b817c02996f282f00babea3a6b2159399912630954d7c1c18cd0b6'
+  ],
+  [
+    'fd9dd724021c26477d7d27661b7bc08a0c4438695558b589167f854c277ab9e84233f5dc1d0300000008525200abab655253ffffffffc2df54747242ac7414150b4e43e3ce1b79abf1a1cb5151a5b97f7d665713816e030000000700006a6a6a53acffffffff0202fb04000000000007525352ab006a6a950dc90300000000045165005300000000',
+    '',
+    1,
+    -2054636061,
+    'c23ddd5a9f9ecca858ebdc9afd3388727ab5b07b9437494a59c9f449a46d3a0e'
+  ],
+  [
+    '2333402901a66a9d538032460d96f64e498d8e26b9f56d49e41742c239ee972e87bda818f00200000000ffffffff0247d9e30100000000009430a400000000000553ab6a6aac00000000',
+    '00656a53ab',
+    0,
+    466640381,
+    '0cdb160f0ccfa002426cfaff0eaf0a21857105e2f021713b147ef9dfa2c24295'
+  ],
+  [
+    '191879d3048855fe182872ba3ff79a5965e72441a13dd48697ff3cbd61c49ce1185e5083bb00000000075200ac6351ab516d6f690b8e9e77254e5406a663ab02f0a643714d5ca4de01c60bd480016ccd42299ce4f70300000008536a535153536363ffffffff8623e705585253c87c5333bc0aec35a64863ed849b1d84ef7fc205173d21bed40100000004ac515153ffffffff8ccb9aa3d489adb234ca0249f072baaafb47ca0d7218ff9c0a86f164aa0c9dde0200000009ac516a52ab516aab632de6d66a013d8277030000000000a382c89e',
+    '00',
+    3,
+    1086809451,
+    '2d837372037960615e0c7061d6ae9f5e529245c912e7dc981246a8e9f4d2f5a6'
+  ],
+  [
+    '282927e104e9201a65ad1c07bd03d4116533ba0ba5cdab109dbaa10d5cd9c9773c75bcff09000000000800ab005252516a65ffffffffce0c035495fee8abcc9d181a8ac0a0652c68a613caab1b58bd67e191997d052502000000090053656aac6300006affffffff4f323a17d603cb4496709149762fbd90855037fc30cb61403c0088df3a271e35000000000253652b1481df9c90d5188d4a6df25dc403669241a045b2f3d45e88b3b1eb3c4a4554d0f6bbe60200000004ac006aac4bd1225204b626ff000000000004656a6565a26a03000000000003656a65d737ae03000000000952abac516a5252636374891d03000000000451ac6aab2a0b476c',
+    '53535253',
+    3,
+    -1942303001,
+    '17b75bee3f46abaec12b9605fa3db813b7469b97cc7f193d267bff47d0424531'
+  ],
+  [
+    '330fd883041fc4d838a220843cb0b9fd8b789f993684711159073a015141393c4f14a801a5020000000151fffffffff1fc24d2ac2aa576289fe2e58239e5594234c806405d70a308d95ebc381ddefc01000000066552ac525152ffffffff4ad63770328c83681bc3acbe5cc9372518fefc25e57be7742f9c14d3489de82c0200000006536a52516353dc995f53c4601b679e3033c146bd07c930c974c4843c7ba4d24083d3fa5c21703ab6d49b0100000009535265636a5200ab52ffffffff0283c40b0300000000086352656300526553fe4ae002000000000353636a00000000',
+    '5253ab00ab',
+    3,
+    1804157812,
+    'e5dd1c349bc2131393be98b58677d3a95c19f60cfd615aa46cc90627199532cd'
+  ],
+  [
+    '4c06ef2002200e6ff17bf1e5d6287d43455b5f02572eae36e9afd5ea4c26d24c19545293fe01000000000df61371d32aaf1dcfb74097ce74e9213505d4d70918354e45c0745821c1cb8707fc7c560300000009ac630000636aab006569d6d3e70273a3500100000000046aabac63d36cd0030000000006acac00006a6a00000000',
+    '53',
+    0,
+    398769497,
+    'de9d8f2bd03ecf8235eb61d948c54355aee801126300b9bf30e8c5724d806334'
+  ],
+  [
+    'ca03c111045a6d54cc95e2a7937f0246d3b18ad653d90129ccebed8cc3a83664ff22a0dcbf0100000008656a516a5165006a476ce7dca10bfe333d317f61bd0de45b6cc70fd4826dd8af0014653f5df223062339a9ab01000000016affffffffedc657d883e9aaf9ca716996ed3ca9a8c7d65de5d2f311a310df0bf0f7eaa8ae03000000085263ab63516a51abffffffff1d7a98d0cb2ed29594d827c7681d69219e8cc2e43013dc8d724345296fe383ad01000000096aac6365abab535251ffffffff04311a87040000000000f16338000000000000b523c3020000000003ab0065e9530a020000000005636353ab5200000000',
+    '',
+    1,
+    -261976591,
+    '47b8e837e1ad63830c437c3e4e6fa3410189910826c99db9464cdeea6bd40f50'
+  ],
+  [
+    '437f8f7e0344f9be49dd1db70310de4badefdc728440ffc54fc8f56244a28b35d564f9efa00300000009ac51006a63abab006aa131e799c3cefd30c75d907b1dee518578915560e430859bb0e8096a482ab6eb2dab8b5c0300000000b30c867e9821a2ae492daabb958d0ad92e291d071beff05467670482b2fef1d0ad68fd29010000000763536a53525251ffffffff04a55a1c040000000003526a5140a7450100000000001f75770000000000066352acacac6ada8c710300000000036551ac00000000',
+    '536a5363ab00',
+    0,
+    1189054318,
+    'eee78c773bff97815e501e530c92624159c9f08b72bf9240cfa2f3968f7f23fe'
+  ],
+  [
+    'db73f2ea018cbd2d3387a11dd1dec983ee22f121513afcb65040ff1a3a6a7336c9657a687d0300000000ffffffff013d69d603000000000600ac65ab636a0d777605',
+    '6a53',
+    0,
+    -1669713026,
+    '8d02be82fb6fcfa6a173c9291b05cf5cb3abcc412820adf543a0002cc8b931ad'
+  ],
+  [
+    '4c99f09e01cbcfd74cd3603855ea0ac5bcede247b86c9f7fb8e2b680bcdc12ad613c846de5000000000465510051ffffffff019cfe4a02000000000800abac516a525365b8e2a663',
+    '0063',
+    0,
+    -966786059,
+    '39b00f8b41466479d509ee42f167b86e5c84ea8d7f3325eefe78c5a474fd0ef4'
+  ],
+  [
+    '33f5072802516325104f665e1ff9763288dcf637f4c3d28927085d664fe2d2784f5c646b4f0300000000eb8da8fe457974153a0c5da13be0420c550370552f2c5a923ff6bf2fe43590ce2cebc562020000000251abffffffff03633ae3040000000005ac6553636a8b3e560400000000016a3eb46e050000000007abab00656a530000000000',
+    'ac6a00',
+    0,
+    -1028263044,
+    '8880e3fd1abc0accdfae4e3287f9ee325de0ba2563ec3b84559c81bb718da59f'
+  ],
+  [
+    'ee468cd601141cea4f0ba345080766206d750721a826f1bc2ca59ec8a122d281e0e575803f03000000016a42b07d8f024b65b5010000000004656aac6a5c5a3e04000000000000000000',
+    '5265ac51',
+    0,
+    -1618410541,
+    'cf2be69def5e465ada46c13698787c6551e140d9693878a733195160ac073586'
+  ],
+  [
+    'e134fbd701dfc518c92cba484a85e24e199fbe5e50588e7246bd6888d1237205050494362e020000000152ffffffff03e2a0140100000000030051524a1fc705000000000152a5f2e201000000000000000000',
+    '51525353',
+    0,
+    -824539953,
+    '6155d2c976c17cb2b6acc7c375b1b86720bf48e3443a8494cc64f1d782704bbd'
+  ],
+  [
+    '662afbbe017832658fc2245125c8ed48618c8e54d9f13a1c7654d2b3a50ebbbd98aeec29e900000000085363ab65ac6aac6affffffff023aca640100000000076565ac6a0065652c5821020000000006535165abac631e7f6b8b',
+    '',
+    0,
+    1833232621,
+    '867249c6b5d64b78357e5adfa9c72abba49e5b05ce182da26262d12ef8d850d7'
+  ],
+  [
+    'f2006c92016f81342a63e166ca1810d713b8ce8c660f4e7c78927b8be4ce836550f8f4652900000000086a63ac006a525251ffffffff0116287405000000000553ac00655200000000',
+    '53526353635200ac',
+    0,
+    1392208218,
+    '37ccf5362dbf51c2e81a55633c545f0c49fd9b7a3f47ba54ed064e1b4a29943a'
+  ],
+  [
+    '6cdc86020278df051ea9992c9f383cf0048c060fc3c751429f2def808a520c5728b771e53802000000066a516a006a635be941d48406c7a7ed795b43edae8dcb36ff027777c9eb8c4b82f4b172a4e6fbbf5c80a101000000025251a5e3505a03b16035050000000003ab536acad11c03000000000563656365636322680100000000015100000000',
+    '63ac',
+    0,
+    746012736,
+    '952e9956e197aee8e52f415eca92c2be0e7d50a293abd649494ccb9fe519f0bf'
+  ],
+  [
+    '7658c10b04f60db6f0bc2b89b2943997b3c7f60150df01517ac9440e4510bec20cfbd530340300000004ac635363ffffffff32515d563254d3ac95960de19881f32aef4f69d3d8d256e8e9a74de36fc2bfff0300000001ac5efcb354ffe040d94c3980357ec7f4e9c12f031f5ebc339e3523b1ad27de57ad5463598b0300000005ab63005151764ec602aa8cc85159d24d7e600f1fd89cab4b822aff1ee681d13faa0ac89ddf0f9659800300000007acac51ab525100a388019202df567d02000000000865acab516500ab6a5c03f601000000000952515265abac0065ac00000000',
+    '6300',
+    3,
+    1835579858,
+    '0ccf891c0ca29d578cbbb65711d7aa7c0a7b7109138e670a4c89ca461bd9b2e4'
+  ],
+  [
+    '3a90b6c60377181a3157a5c3235d9367083ffba7c978a76b617c57c7a75d28bfce8766c92900000000035200ab8bdb10b9c9fc48e9f100c18ae84d455bcc1a35380d68eeb623b55d3e4019197342c33fbc02000000001f826adf006569d0f2b72dc390b751d0b3fb0a36c0d514b50d2dda84f0f04abc7ec146f60300000000dacc3c49039a531e020000000002ab51a730350000000000026552f7e30701000000000551ac63515300000000',
+    '6363ac6a53ab5153',
+    0,
+    637849705,
+    'd82cbf23a496d9c7ab92f890ca3ce64ccaf52e9485d5940e31a780f452101208'
+  ],
+  [
+    '09727df204963addfd3e40dd6aa20fc556521dfabccd19f0505770a3c402d83da875ec7d18010000000863acac6a655363ab584e4ffa09c96d372810b35bb6df7b7f884eaa8979c7e14dcd83f38702741c0d50c8033e0100000008acab535351ab65abffffffff353380e574aa17d41e67b1ab39f3612109c7c44be1d7925263e55db75a0cf8ab0100000006ac525252526a40faacf5b0f29503a821326b4859d4871e8057b24a2cd7e1fe894bba10bc20edec842e23000000000751516aabab51ac04e256c401c43563010000000009526a6aac6a5265530071f77cfa',
+    'ab6a',
+    2,
+    1302297184,
+    'af7b5d4bdd063a73045a52e784727d86f3d8710563ab0904403309265c6ede90'
+  ],
+  [
+    '6e4bfb5a041c4090f09aa618cf0d554c3efc49e67375fcce56b880ab51fd58ba0d1721065f03000000076a6352636365634e6f20b7ee5df6778b08bce76ff7bff76de31ee2bd28312f54eeded5cab9ccb35c99f0d50000000005ac655163516b080adacdb57fdfd387a84354e1b1e3fa715ec6814768f2b12da41adbe5becd0cd187fc0100000000ffffffff32d0ffbd0b8e7246e32cba7a0fc05693647bf48735f5c346a4898d2ca1c022790000000001538a3895000469660f020000000001ab167f13000000000003acab521bdc45040000000005ab52ac006a72ea6f020000000001ab00000000',
+    '',
+    2,
+    1511369816,
+    '5db3098a266da1ff3500f71ae0618fccee1ee17d63e49b7160df06db1d9b71bf'
+  ],
+  [
+    '11694e110457425d794f39b997c02eb69ae3b59d4e044decf3c164bbafee947024feb73e39000000000751ac51520052acffffffffe2a2f91eba0c9629960b240072b0c4568a1ae67de61c009b05c1113bdb26f59902000000026551fffffffff2389e457d2f7314de5c47957806f0ace2ce7cccafba4d5aaf221a8b9803b9040200000006ac655352656affffffff028c68f084cc35906a912da135e8f870fef629c785476c1a4daae990cdd3b4d102000000000af4f7e501a55b18040000000008636a6551535363ac250152db',
+    '6a5251',
+    0,
+    392976888,
+    'a943c1704e39effec5e7191ef9f40bd7850f3b51a9bbe4ff99908869b225703f'
+  ],
+  [
+    'dd5f928202f750863dcb711a8a6cd8b733d6830ef454bb960b8a7302d083156676690737120100000005acacac52ab28d2f50ea26ca7cbc2efc3fe34c42e67b2b43656ae9d124e499d879e79c78339a81983e9030000000863ac6a52abacab530bfaadbf048c693d04000000000551ab51ab51287361040000000009acab526565ab530065a0c4990300000000076a6a52656aab53f317f00200000000095252ab6aab63ac63638829602e',
+    '65ababab',
+    1,
+    -1198424370,
+    '21c21bd741ec94be9279f0a22ba45d9c7fc0d859debe6fbd0db93e5ea5c02ba1'
+  ],
+  [
+    'feff23400390e799aa93f64dd0b4512235d8580150a753568608869ffe694832d3d46cfb270000000005ab536aac522314fba594fe54a5bdf1aae6f16ea2d7386619587895cd95631300e53bab463a20995d0e03000000035163acdc0bd71c5dc75b4d138d5740670eaae244475aa95448891306302b6b65d5d3b3eb8ebab700000000006332ff0b03aad7a50100000000086a65650051ab516a30709402000000000100dee7cc030000000006526500656aab00000000',
+    '00ab655200acab',
+    0,
+    1930467949,
+    '0ea3b96fd77ff39012686acdc7f57758c0886df833051a2b159a9b24161da5f1'
+  ],
+  [
+    '9d44cfb001972d5ef29bce9dbe1808281d56ef079d852d24743d3871711aeb30fa03f0e3900200000000ffffffff012a8da40300000000095163516363ab00526500000000',
+    '',
+    0,
+    1541309285,
+    '13571dccc7929a516b5939090a9958fea36d93543936ca2503b409fb927a4520'
+  ],
+  [
+    '672f09f803af19308ae16c5a29850fc60ecb2634124aaee4e308b6715c57d6c4b1691bf91e0300000008536aac525200acabec78dd4f864ebdf58649a45c993121581f4f42336679498770a52c81c0ad3d3befae3c190200000008005263006a6a53524133f51d63ff55f63b8e3ffb0d3e901856b1c0860370fa35befa47d968fc7045c49b754101000000040065006ac4d77f7004ceb5ac0200000000086a650052ab6aac6a199f04020000000000c1d2c804000000000863535351636aac006a036a050000000008510051ab005200ac6416b908',
+    '',
+    1,
+    203456625,
+    '610d291d4d15b0a61e2dc126a1c40686551998bad66695940df0548dc80c97be'
+  ],
+  [
+    'a4125b8b03f55cdc61a17f019434fb4f2785962caf1b615794f726d02e8a5f8154bf5fbdf802000000096aac6a535163636300ffffffffd0436069c269f98a6ed047801f22804cc3484fefff0b406e8c4582978ff7ba92020000000453650051ffffffffca482ad8b8857abc872b1d7ce03b036deddb802bd8777ed2afd01d482a3f12530300000003acac518f23917b032c5c22050000000005006a516552ee1bd70200000000005fa3e80100000000036553ab00000000',
+    'ab52ab53515353',
+    0,
+    -1848863012,
+    '1573616119cc8290af7779979c732f8cef90c83857ba13739dcf7430e3791dc5'
+  ],
+  [
+    '58640d41027892d5a2d2aee44ea31b72406fdcf102a0466d4389ef0c45acd2121995d8baaa020000000863ac6363ab635265ef3a4058042455df67a5994129b11eb832346cad6857f1c8300e178a0e840a998605099901000000036352acffffffff04a55ca10200000000086a5152635153abab877096010000000009ab52635300ab51ac6a7a777e01000000000251651661f5030000000002636500000000',
+    '635265ab',
+    1,
+    1382401247,
+    'fdb7fbe7c09cdbade6f65471f98c2eb5ab0ebbebc953dc4d55fd8567b7f40a9d'
+  ],
+  [
+    '9ea85a25032d1172afdd7bb7e356d0db21fd948e3197b6830f0f8ff17cfe683a2d6b21f5850100000000ffffffffe9da22a144ad08e86f8e28840b96a14f7fba45b165d83782d6b81e6704540fe2020000000165ffffffff26baef73d3fc8d04686fce436da2727455ac14c89ec8adb8e70b96f5b6470bfc0100000008516a51ab51525152ffffffff016588ba05000000000352655100000000',
+    '51',
+    1,
+    1437165164,
+    'c398d55fb75040131ef833b405b3d05a727df651a6985336716ae32289fec061'
+  ],
+  [
+    '66ed3265043275d0323aeb5871bc0b5b57dc76ce7380363a310329164bbe8d9bd5173943ca03000000055252516565fffffffff4fdc1a35647dea442db448a56f4caff8586a29ccdd3bfed802ef2ddf3c4dd8e020000000251008b878468cd77681f2ec6278848f21e70c68285f3e1a773771c2ba7b68a6044499a3cf92a000000000152ffffffffc60a5d5e35b057c860f76635ef3e5203957e71862991c0f8d8d061a128161d1c03000000095352ac516552ac5200ffffffff03779d0a040000000006516a63ab6a00f51712000000000005630000516a3467ee030000000002ab6a00000000',
+    '52',
+    3,
+    -552425221,
+    '3105d806c74005def990501815fe9d2988f940cbc20877ea6750ac2036146fb5'
+  ],
+  [
+    '4c98bf5604cfd794eb23faf3b8a27865e93bb65eb983b0bd688bee47e921eca646d48559c70100000007ab51ab6a515100ffffffffcf815101ff838a1c6fc53943230b2d28f45b28ceed111c70fc2410b88823a464020000000765636a00ac52ac056a0af772b14b7ab9ed5dd545d181f08bb1ca67c65f9de1779e37f984444c4ff8f7e88400000000000186830fb42a9f453167b906367cca210676524b443d24c591c098ee9ba756ea82eedf650000000005516351ababffffffff044ad078050000000004536a526a7f36440100000000085351005265ac63009f23530300000000086563ab63520065acafeba60200000000026aab00000000',
+    '51',
+    1,
+    -205319483,
+    '96b06aab614c8a2c702afb88a5264ee0b7ad2f70ad5ba39078721412022b45e6'
+  ],
+  [
+    '482e6b1e01c87a9710900fa50c5a373afdf085cecbfb664ac12c9353eecf03a14f5fefc0b80000000009535300630052530000ffffffff03649d6e0300000000002fcbd9020000000007ac6551655353527de91e05000000000453516551faff008f',
+    '656a6a530052',
+    0,
+    1620632132,
+    '0da1addab6f44eddb3aee13a456118c1ba5801f218a64090a849400b367f23a4'
+  ],
+  [
+    '57c49c50022a355a27cabd9e34eb5ef56f6eef69cd0aba0743dec3815e0e0d44a28dead3c2000000000651acab5253ab50adb02df5020f00bc538a811f6095749f727aff77702e9809b78985c1a57f299273715401000000076aac0052ab6a6adc3e81d803e8dc4703000000000965acac52526aac65526fcc87050000000001520acfd80200000000026a6500000000',
+    'ac52ab52abac656a',
+    1,
+    -163100218,
+    'f8b372a43a9cd19a25dc61a7fcd17444505875c21c337dba956e6a04b21bab10'
+  ],
+  [
+    'a554ff2104617a8a0a26cdacdba7c2d60bbd4ae069e234fc3a4b117a12313024f441872c8d010000000600ab53630063ffffffffab7241cfd5005bb28a63ca1a5082090bb35728eca3c0439d41b72f1065682c60020000000151c6f927487c4ad26c78dba7cddc820c65ed075786ab0cfede1ffbf8a40c8cc4e557338132010000000752ac005151536a84bccc87eb7f5ee1642972eeae9c0f333b0b9359d34426e4c5f4f93ba02f2225e493309c0200000003635265ffffffff02e70494000000000004ac00526a2590a404000000000951ab535352ab526a5300000000',
+    '5365',
+    2,
+    66744173,
+    'f9548a73b4bb103e1352d2406531a0b7b1bffb665789f588b8e3387d4ccccfd7'
+  ],
+  [
+    '19a642bd0249fa35a7f2bf2df9a9d055ad1317449ee0574fefc7a8b15e557bedad7adf70f80100000002536a243af1b1e48fe79d07e41220ad6142999b394900c6404460797c3ac6d8d322d9c1addeba0300000005526a52ab52ffffffff024ea4570300000000026351b5896a010000000002516a8d3137b1',
+    '635363abab00',
+    0,
+    -673319988,
+    '73767fc010ed110baf73e951c1eb32b437a3cd4d9325dd435ac4ede97f764d21'
+  ],
+  [
+    '0dae047604b9cda1c69c3fa37a4efc07fc095d5a52f463b565993be01aa84fc8b8da40c400020000000400ac526affffffff0e1bdc13470ff4194ed7d96e186f1ae4e64798994e66ecc636a6589910e51f6a00000000035353acffffffffbf365a9e9539fc146f4f9467e98b60fbf1092fa80a46153b7648d786e7ca37b802000000076500ab51abab52ffffffff6fa605f94fbd55e50085c57ad2a64803afe311a964ed09f7f5568508c923aed30200000008516aac0052006563ffffffff03d22b7d000000000008ac00ac6aacacab516a44cc000000000000dd7ba9020000000003ac6a00cf1a3ad0',
+    '5152656563',
+    2,
+    42290753,
+    '5160e17c7a90095123dd00daf226487ecbc9d577fbc4b0370d031db521da84af'
+  ],
+  [
+    'c4f0d66f0203f96f0dd2e4b70b390ca298bc964892ce7a0a080205fc5680f64db62f76e2e7000000000952636551005251006aaa124d0c28884503299010ff74911cf7edc60a11cc30054451e1498bfc260561fb1831fa0000000005656a5165acef0ea91103ae5f02030000000006525165abac63d447c305000000000452515165c982f60300000000016300000000',
+    '',
+    1,
+    810173519,
+    '0435fc23cbcb578b1bd5106f86c5e0a1dae97a3119c8c536331667500293ff46'
+  ],
+  [
+    'eb779ca80280eb490c9e545fde1619b42fc23dc605e677c22fef34ceecd0d6cda33879dcdc02000000056a52526351f9b99dc66aaf9ee68f9b51640e581991aa3ec87aa8e777721a4b800bacf2d15977436f31030000000551005163510015fec402551b8105000000000451526aacbcd285010000000006536353510051f2448c7d',
+    'ac6a636353acab63',
+    0,
+    -657800501,
+    'e1a4e1ed0ce064ad9587e928b7b93d5d30c62697a6f6bd130402650ce857f11f'
+  ],
+  [
+    'f20f5d4a02696bfbb830258af7f15f24e41bb784de852337f31a861e19dd03f55f005cf6ba0000000005656552ab51ffffffffa5ee7929fd229f2e805fed5682dd5c6012ada3693b79e7ba6558f5795f4b2040010000000151ffffffff0463b373050000000005515163526adb15fe03000000000852510065636a636a14a47f0200000000076551ab51ab5353e4eda403000000000953006a516aabab006300000000',
+    '52655351ac52',
+    0,
+    1418848839,
+    'd8d50e1259d5d62d9df644d677be773dedd0a1175076dab939aa97f789df675e'
+  ],
+  [
+    'ee26e9c6017a9c9fcc6d1e03da41c25c01ec6777a8837a26a8b5bc050fc7b2ced1f76832d503000000095251636a00516552acffffffff03e1a896050000000005ac636a65ab068462010000000009510063ac51526a5151df2ad3010000000007ab5365636a515100000000',
+    'ab6a63ab6aab6a',
+    0,
+    1092996550,
+    '7d3231bec35b86e761c78adfb9f078967271bbee4b232cce22d940e06a6520d8'
+  ],
+  [
+    'dd1ad58a022efdab11378648255678b44eac2765c430bbdaec9ea9b9b1841f9c7b24d168a80000000006ab00ab006552ffffffff34be07dd2d2e2bff66768e76bbe7218fb129ea83905e6763033aac1851f1d9910100000004ab516aabffffffff04c91a8a040000000002006a69a939010000000009536500656352ac516a94cfb50300000000086a636563ab00655294097b000000000005006a52525264a0815c',
+    '516a63',
+    0,
+    230618821,
+    '34f873e9d6b2b27dbf26bf6cf282a6588137c50ab61a423c5f8c1f5038455544'
+  ],
+  [
+    '39239ea30316157e8bad50385b1ba3079343d45d6ec0417f9bb71f0ad28ba55052fc009244020000000853536a6351656551d665a342ef0ddda30807fe52f9bd3a85fc382fb9292443aa5eed50060c07ab3d05beb1630200000004530053004f2735bfc59c52cb8c2e5a22be0337cbeca97630b0b51879a97948852682805111b3e5d602000000050053ac5200ffffffff0156936e010000000008ac655365abab526300000000',
+    'ab51ab51515265',
+    1,
+    71307513,
+    '46c31fb389bbc08beccb02aa988948ecba31a56dcfdeea9b2442ac8da42fbfa7'
+  ],
+  [
+    '6e97ecdc019e4076ca6761b844cdb7d12ce1c6e90c09023719ad1a958210314f22e6de3fde0000000000ffffffff030dfe690200000000046a0063ac48f8290500000000066a6a636a52ab3bb4aa0000000000095100acab51ac65ac6a51597f99',
+    '',
+    0,
+    -1304903821,
+    '3b6516d442d0855e1a4b8cb71a10b9b9ed3f04087c9cae52ce3d5c0c3a16399c'
+  ],
+  [
+    'e421755f04a2fd0bde9106df237d8197c7368e24f02e86a2c97356c64de0c5ff4b80c4db1b02000000095351ac655351005151e1de8146f0e085d440e7853da683c559b93c1a2f02b4f72d83ae847292dff2e55908e3f2010000000153aa9f2d98b4d38ae1237f5e04ccc06b1b43a035821b41a484400f41092ae5c497035ec0f40100000008635152abac535365ffffffffd3ac3c0d571b1cf75470ef3c1a4696e1aa423251a2056ae2c5c651309aa0d8550000000000ffffffff01ca4e0c02000000000963abab656a5163ac65a787c11f',
+    '00ab52515300abab00',
+    0,
+    -110875678,
+    '88f54c4dedd5d6bc39f88ee8c14b58ed309b94d34f2dbcb5249787a6fb938e32'
+  ],
+  [
+    '75eda60502232e1a4703625fae901bc53af7a7b26717547d351a24e0bdf801c45413cef2cf000000000151ffffffffd2ed3999d2e43fbff29ca9fd6e77d70cfbd473688ac4bf93fa178879e9b4316900000000016af10dda9e040dfe3a050000000006525253ab6aac2a642804000000000963ab006552536a6365ed47a100000000000165d1f5650200000000086a00630063536a5300000000',
+    '63636a655300ab6a6a',
+    1,
+    -1457903252,
+    '1afe9febded5d4097c47c8fae969700dcc50b824643efec71879173530d717c2'
+  ],
+  [
+    '9670f43c0172cfb8d78314c45de4006320ecf2f88f6836956b5348e89f09affde6023575230100000002ab512a0edf720290455b03000000000951ac53ab65acac6565e265720300000000080065535252ab6a5200000000',
+    '526a526a5352',
+    0,
+    556931062,
+    'dea384cddb8f87d0cc40993e10b905ba5492077a7d2d30c9e14dc183f2df906e'
+  ],
+  [
+    'e3f2a72f026b3b5fedaf41dbfc4060a7c48e454367bf89c6c1384b175958df55e7696a9ecc020000000651ac515153531fff244f3a39ebe46ec7521aa8516c0bbafb27fb4368fe50f41b23c9e3f963ebccb81cd90200000000ffffffff040a058f000000000003526353bf2f7e01000000000852516351ac515353c28819020000000003536aab9f9df70300000000030063ac00000000',
+    '0063ac655153525252',
+    0,
+    1462989399,
+    '39bd5d15290981c7c7a5fa45a6ae0eb71965a8b812db91be1aef3b1dfb477af8'
+  ],
+  [
+    '141637da017e171e1e662c364fe88d6098fd4e7d40fdbb5ec751e8d1b259a6b235d78d20ad03000000026a6affffffff04c0635503000000000047f450000000000006526aacab53008d42c5020000000005ababac6351793eb30300000000015300000000',
+    '51',
+    0,
+    452342349,
+    '7a5449187c8928aec43981070fca0e130540464fe5d9902adee000d8406772d8'
+  ],
+  [
+    '8e18ca740287ac1dbd3fc4fe28df0e01801a94d130a8f8ae403c7266c589dec9148938008c0300000007ab51635100ab51210bce2558fb27eda9a427bb94c7848ccf20ac8421a0b7931c0718b16149785f274044990200000001656b32a7c40359f054040000000006ac63ab5365ac1687000500000000015150980c0200000000009582cd64',
+    '0053ab6353ab',
+    0,
+    1213364939,
+    'e93c00381a2f1a20b2f3c84fe731542317b7b5487033454b61ee9d6e010b7b08'
+  ],
+  [
+    'f49f0a5c049ba8aa7ee4242ad3b5309af98287b87da781b9187fbc366b5482863c2e80e04c0000000009515151ab525153ab51ffffffff5dccac0bf60bd082457dd5ccf7eb074fac440a695bfbaa2d7ece4d931c9d8d81000000000653516a5265acffffffff5eb41ce50d8669caee9601f2c5b4738508ca2c4675dd8da3a393f0654f4e5e400300000000ffffffff1e4554991df8e78dd16fe63d06f9cda10ecad607588ee6988158e3f696654ee0010000000163ffffffff03344b8c00000000000900ab6aab6a52536553b05edb03000000000074e576020000000005ac0052536adb60d18c',
+    '63',
+    0,
+    1249393913,
+    '32d55b199433fa339038a68b94d33f59e4a3e85784613ad648d378f059f97587'
+  ],
+  [
+    'c59489be03046131e0d5a364ae4e8b07a240923930f76a053cdc8477576473c9c792be3ba60000000008516a51005351ac539d561498a168beef313efac17885a48d51fdb186a4f81b6589d097b1ab45c6c761655aff0000000004ab6a656a14b4854d3b0feec8e039115afc536ec07b5f58311ebdce21113a991fac048285d5762f5b020000000352ac513fdeb0e404bbace10400000000076a6a516553acab2862cf030000000001658fc443010000000005acacac6a6391d3bc020000000000af237044',
+    '53526a6a6563ac52ac',
+    1,
+    1240918752,
+    '0eb1e03b89f0b3605409362e3acbcb31faa263cfeaa7875665300f832d925866'
+  ],
+  [
+    '9a969cab013dd912bb4db7a1de6364eb2bd888dd675a0b0ca4ab6150234112e4c1aa0900e601000000085365ac6300656a634c63149801eb7d940200000000065152acac53ac00000000',
+    '6a6a526a',
+    0,
+    1374262005,
+    '521d2292b5e5d0640db82ee02f390b49a100b4ecb8981e9494b0f55e357f8f9e'
+  ],
+  [
+    '16486b8f04a499b98f0a3ff58ecc1271f330642d0878deb457456afa4e82a78de51ce98ef902000000076352ab63ac5200ffffffff03d41c0a1690612a5d37cb07e14eb5b226fee65794b602d9ecf891c6d2674b3c0100000005636353ac51690bcd935a766aaceda24b4f684ad3f103e119e5c7e57c778d2a1af879893b7a0a2a98450000000006526563ac0063df1feab6fd7f710b855a3690123a97a6e8b56f3f216bbfb4d4446cea2e3da1ab0e2db36303000000036a0051ffffffff0477cabf040000000001ab7c03cf020000000009516353ac6563530063a26892000000000005ab52650051fe43af03000000000351ac51474f6b2e',
+    '0065',
+    1,
+    -1641197600,
+    '52e2c0bdab251d655e2cee5fec8a4615b7429793bc111ee46d6fe4c266b22109'
+  ],
+  [
+    'd7ec8c26026c84d86bea63e746367faafe3ab1e921c37e7040c4c1479310ff930faf76a0650200000009655352515151ab51abbbe290e594018910655db3b3864be92627da6f3aded1e783976ed740e8e6c3b323339127010000000951ab63535352635251f579a228030132270400000000007cc5d70300000000035353532e148a0300000000056a52ab51ac67b77ef4',
+    'ab5251',
+    0,
+    -1172531206,
+    'd4c61d6293bdb5bd8b1886505e36928c8d99a6bc43cfd0a762d5dfea57ae3bd4'
+  ],
+  [
+    '17b6ae790249734ad073cd17badaa8f70b3a24b4e4e6cb21c172527e6a0e004cff30ef6fc8020000000665526a52536a8c185ffc3f516a475563584a811d1df1541791355cc792baefbe6d7ba3ed2ca4ab78eed90100000001acffffffff018f283202000000000663636553ac6a00000000',
+    '',
+    1,
+    567764476,
+    '6439f1f65214018c3d3b2657f7e7fdffe5d54b6d56778624533bd1c125ed3c86'
+  ],
+  [
+    'c7a640a601754c2c36db1c2c5f83fc6755ba721530fdb5e99911837d1d12660467baa8eea901000000056351ab6563c6486a1c04ac7c770000000000030063527201c1040000000009ac51510052516551008c7d970300000000036a5365667b91020000000009ab6a00ac63ab6363ac00000000',
+    '51ac00655365',
+    0,
+    -1030243356,
+    'd0b5fc6917bcdbd60643fd4380375a9331a8bd17ab9805b57fa30f20b9f6ef90'
+  ],
+  [
+    '82eed282034fc8a62ebfb9a8b905e3979b787850f445ff158d236ff7909d537bf9e27eea800100000001abffffffff5d328272b837284bd34387ddd9c207d3d308a083402a7424d3abd50bab648c2b02000000096353ab6563516365ac85d03fecf945212f8b4ae740e3d716a8d654f068bbbab021a8ddaef9dcc2769dc739522e00000000025252d11707f2019b8b5b0100000000066a006352536a53d53d16',
+    'ab52',
+    0,
+    -1575742110,
+    '74aca7d600d477748bcaddc8b41aaf3bb386d910af0f57d976d76ffaca50fe00'
+  ],
+  [
+    'eb32010702b40292e9e1d30c84368fa3caf65be6593d19aa0bdb7fbbf816dc6ab9033db14a0000000007ab5353ab006aabf0e5ab78047821fa53b194a80b36bfa39e7cfc9fab50eab6c76a229e21a56cf11d04cc5802000000076aab5252636352ffffffff0327be910100000000026aac7dc615010000000003ab00006480b103000000000651516a516a659a06748d',
+    'ab656a52ab655253',
+    0,
+    943097683,
+    'b318e990481b5dfbd6018272a5b0759c18eeaaef328e70b2b1bdb343b04c8bd5'
+  ],
+  [
+    '3f65190a012a84a3d8fe19080d05d3dad001759e5607c4764eee6849573873d00d552eb4800000000009ab51006a53abac0052ed91b8ba02169baf050000000007ab00ab636a6a52af6aa501000000000853ac51515253ac525ad4c8ce',
+    '00ac6a63ab51ab',
+    0,
+    2007740228,
+    'eee427293dbb867c95e8b90aee12cec14c4b987cd88db416a68f63d2c2998db1'
+  ],
+  [
+    'e4aea1e1030a6555076d58b29342f247d6a8871717d1b32653f2d8a509fed514233d43c8240000000001ab1990a2ada8ed5734d65b8243fd3e9a1980f33e59467fd9905e0cd30fcbbc93047ad2f5fd010000000400ac5363deecceb1ed2927bfb8a45b9ea45062dc2e0e2c4aebfc10055c774c5293595023674686a80100000005ab65536551ffffffff01e24b820300000000015100000000',
+    '5363abab63656353',
+    1,
+    720282091,
+    '539f72032f85686d0f368867c89485796059d0f294762d9be36cc789a4e7af23'
+  ],
+  [
+    '6d921c740439f5c9bda4d955fcf9d50e45005bf644a19538db2dba3e6cfe73a58d350b97bd01000000075263ac516a6a53ffffffff9035b64711b0897fa50807cebb1a029848b45e8285330820b765bb30c05492180100000006ac005253516affffffffa9b722d608673e3d661b6c81787d22daf2365ed06575c0dea7caf768edac32eb0000000008ab515251635300abffffffff1c92ab0a47b5db380f5a5e6bb902e3c8daedb6b64c2758381d458e20b0bb6ce801000000086a5352515263ab51440ed4be04b1fe110500000000036a65ac9d429e0400000000096a6a656a65ab00acacf23ae803000000000165f4611f020000000000ccbc00d6',
+    'abac6aac',
+    0,
+    -2019439413,
+    '6ede91a98c82fbfe9e01017fa94d780e3400ff124bf341ab1aac478d72e1631b'
+  ],
+  [
+    '2a71012a01137e762ef2ab8338a49e6c7d5e39a82d7a93cd9825084fc9e74ff57bdb2874da01000000085200ab63ab6a51ab92f51fad0390e43e01000000000351656380297e030000000000a9747a000000000002530000000000',
+    '006365516a51',
+    0,
+    -1928204193,
+    '1c5c777e3f4f6ece9ac36bb82f9cd722ea8aa2fe59cb8e75ec40cf07a60f0aa4'
+  ],
+  [
+    'd679dc53010adb8d4149f8890454389b2b1f7c0aa292a4bd307682d608f0ac954a7bb04a3a010000000152ffffffff03bf246c000000000007ac0000656a6aac4d7e1f010000000007536a52ac656552655bee030000000006ab65ac52005100000000',
+    '00',
+    0,
+    -1157831087,
+    'b6542dbccf6fe1063f3a9195372a49a1afb6eb680eb8a0ea48567aa6562297fa'
+  ],
+  [
+    '515f727c032df0281be10ef35583a5b177e68ca93fe6cc12d092bda362d0736c2426a2ab0b030000000853ac6a6a6aac0053350567917d8b0b283efb3188c2a923be1f0e33b029044d69b9943cf3eb6c14bd997ff3a400000000046aac000080e8617a36b813b0fcc4c33288c9c71e511284f9bff93e39fad29114ad58e851a7d9bf980300000002acacdfa494a9047884b40100000000056300526a65b812170300000000086565516a5263acab1502c2040000000006656a526a51acbfb9000200000000016500000000',
+    '51',
+    2,
+    -1356060564,
+    '36c28d7c55e79a8de80bad02a94e838c101f8bd4abba7bf132e5283117fefb67'
+  ],
+  [
+    '78903a2e0490cc1922e5ec6f0c23479f74fd47a8b2098298560a24af60e594b543345a8aee00000000025153ffffffff20e38a5e51356d9231c1f79e288e23b6c16771300f18d3d17193fae76de617080300000005525251006affffffff7f1a49c9fd11949bcb445cd002d402511338b847863ff470f56cbcfde22f8e5c0200000001abffffffff7892ab6dbc632fe9aaabe689dae2f7fe9b11d04274c97975818d2af6cfe2eccc0000000002acaba25da32601293e500300000000080065656a5152ac6a1f734cd3',
+    '00526500',
+    0,
+    1824143208,
+    '4a38cf480659c8e3e0a0c6f7ac099185838da325623ef5e777a85cb3ff1d0a08'
+  ],
+  [
+    '088bf0bf02549d7f84d3d600c537bcf7f9bfbc1fa5957a3cf1d8e8b82b42a3bcbc6c7054c50200000000c3a13a84ad3a185b0e4cfe268904df529f83cdf4b93b2f09156a6737f9a1201e963eeab000000000025252e9be38ad0379afb20400000000046a51525172f53e030000000001ab56bba3030000000004abac516a06ed2de0',
+    '51536aab',
+    1,
+    1279495884,
+    'f0a97fc1e2bd3b8cf81ee918315c9756e43c9c322d72305b830d425c762411ee'
+  ],
+  [
+    'cda93c7201c99fb23632f4c4104762b2507d78b9e3018c55d08f2b4c55e2532c0f16139db2020000000463ac6a6affffffff0373114300000000000352ab65461fe20000000000005fd0cc0100000000008a93c102',
+    'ab51530052656553',
+    0,
+    1259030483,
+    'fe1dac1323873c216cb42669a8401feb6fbd34546cecaaf4f5390eee24ec3fd0'
+  ],
+  [
+    'dc0fb38f012956ec53f47f21ca36d3bf7c4f2febd39664e4c458bf766c36dcfad8a8d6b7c70200000003525265ffffffff03d9c9ef020000000005ac516300523d0fd0040000000003656aaccc989a05000000000751ab65acac000000000000',
+    'ac65ab63',
+    0,
+    -869480229,
+    '4fe0b4835f5576e4527da58c572999082bab8b26817dd6e1c5c9278442f6f702'
+  ],
+  [
+    '295703f9025444b0a51587c1c2f08096c8e2fe14638d37afd3d5e7271222d04f8d796928380100000000354ba48cbd0180c16c7a8d283c38196aff410e77e718f368aff8b079a5b127123093097b010000000653006351ac52dea2089f0441ce0201000000000865ac65ac516a53521ab79e0300000000096a65656a00635253653d82fc0300000000066aab636a63abca993a05000000000365516ab0ade547',
+    '5300636a65516a',
+    0,
+    631858018,
+    '6b69c004d271a4086f2a1f400a0bfa87b5f0c2e8fe79cdaf2a19d3957fd5e6a6'
+  ],
+  [
+    '4fb96140023002203cd867e27c87fbdc9a838246d764d6a6c01df8be4567cbe5c4d6f31895020000000452ab6a53ffffffff6a4eadd1bfaadce931a51760fc63eea20e66ac4a1935d63d214a2df8fdaf9f37010000000900526a636a635151acffffffff04341529020000000000e96e610500000000076aabab51006a511cb074000000000001528bb2e202000000000097631c5c',
+    '63636aac00',
+    1,
+    -1987015462,
+    '14910c3c47277c656af6288df9c358892a1f0ce304df598347e761ebbddc566f'
+  ],
+  [
+    '3cc2f215046068d5b87e5b8bfd419513a3b1f4dde717536522c02cd4966be545ce4a391dcb010000000751005151536a531e3e991493df648ca51d8707956408357756999554252f0064463d1f6832569595f08bf502000000026565ffffffff66445b03708aff26726ed0ffbefab4bf7cac36c35b3114ca7d7bc0f0366158cc0100000008ab52526351525252d91e5ab7ec052a55457c979747f2a472ffac7f96c55a4a66cbcf5593ac0fc910e5d36c2a0000000002656ab8f5555a0236bcac030000000004516551ab8a3d850300000000086551655300ab65ab00000000',
+    '',
+    0,
+    -1994996534,
+    'f030f4da83d306eb37e4e2d078aee9ea1a53eca41d4c90d6f25a91db2848bc85'
+  ],
+  [
+    '67074d13027ec6307d8df5a0649ac9f45370c427ba6e9887a72d84676e56d642d6614c2c740300000001511677f7518fbcbd7f2794cd44fc8592ea8150ef8404c7c80541d7d4796b3957c223a86f9b02000000016affffffff04b7b0190400000000066a5153526a004fe62d04000000000853ac656a530063633d6dd7000000000003abacab9682bc0200000000016500000000',
+    '',
+    1,
+    1233863639,
+    '07991ef7cfe6afed4daa2f1fd28bb156370acb96ac622388f99f5db1f58a71ca'
+  ],
+  [
+    '781b73f9048b9daf5c19169e907bc2c1bd30d0026850ad420efb366468b62634074e48c3270300000006520000005352765e22b56332000126107b5d9d7b8bc9c9a3135701b82da26269ff9e5414d34aea6aaca5010000000044aa0e48e046d5a1cafa471fff59394c70698d39ef725312bd0574005bc8c22a0f904f710200000000ffffffffc6e07dc1b68944451b98eb306b5750abe5d1d5cd77f654f2e4d28f96be6765bf03000000025351ffffffff037c01c100000000000152fc418b040000000001ab418cfb0000000000090053abab525152516ae863e3f4',
+    '65ab6551',
+    3,
+    -1249924659,
+    '548cdae7106de5f26ff1d73d4d7d477d8ab45eadf2990f2d169e569ec6f4cc77'
+  ],
+  [
+    '3c85cbd10163c4cd22208f994205608a85d2dbe95e073c165c92e689c9ecc42d6622731023010000000851ab636a636a6a51781cd6d1037229c2010000000003ac6aaba82fbb0400000000066500636551ac5b2e14030000000007ab526a5363656500000000',
+    '51ab635352ab0053',
+    0,
+    118242006,
+    '6ab8a4b0fc285a9b90a5405361438e28e5ced084290d0933db1cc03a8aa8c046'
+  ],
+  [
+    '13e9f00e02cda89badc9d47ed6a9862a12889dfdd0ff372f9e494ad429cc8d145c1c65e92300000000095152636aab6a52abac8a6218404a21a6ab1a828734527034bf12c4d04c5678931f151975d1b5a1a23c9f4988b2010000000352ac63ffffffff03414af4010000000002ac6a34d8ac0400000000086a6a656a6363ab5276676d03000000000353510059c0b09e',
+    '6a6500635200',
+    0,
+    1246873853,
+    'c20fca49dc4041f90530184537d9c3a5b17a97677e50edf3bd5e5c4f007ccfc8'
+  ],
+  [
+    'cb480a97042157cf627f32ccabde9b3aeb9567d365bcecb6ab6369cbc3b1d7e287dbf3387d0200000003006a6affffffffd62f1d4c71dd6a4fe3a37a0b0bdcd0da5a6cc9184472d159df361af92f136cc8010000000100ffffffffb77fa9cc4bee88acf1032cfe7d48f5c7b2462de1e9643c853925660eaf268c5903000000050063516353a3e191cef389e0ebe4ec26110dbe5d0b6f5ede95474c810e45df2e0c48a4b01ecd3dd6b902000000026300c418c016010f6ade0400000000075263516aab00002fb654e6',
+    '53ac6553',
+    2,
+    1886048112,
+    '987365c291085dfff57e33d0e9b117194d1454c05a633f902edf07f18b23fa76'
+  ],
+  [
+    '50d71bd8040636efc5ddcd449e9e8ce08cd31a7ef2bd2175f9d520c86393510c8c8834a15003000000095165005352536363006686f9ed5d92beed5519f65e52e5cc5d4d6efc809dca21f483a241b35e5820c8d33078be0100000000ffffffff5d86d4c020bc3999ed2186a9568fb92b4d33552bd1a6f4472e6080790cc2bb0c0200000005ac53ac656a8c6b43f9f8ac22efbef6c4922185297ce94c4ff0737dc3398e97f0f723a3b2fc1617d6960200000004656552652f7d0a0004819e590300000000046aac6a53d04dc903000000000061279703000000000400636353abb147030000000002650000000000',
+    '510065acab',
+    2,
+    590108137,
+    'a47f8b941da584bc131400c59b9896568aecf5c9b269f988ce5033df5650a096'
+  ],
+  [
+    'd6ba052f02ce15014dc9f9f044f85ee77849f1165ca3284f95d9c4aece00d57eeab694f06c000000000300ab52c8767f46e629502c88fdb7d4d800c114661ecefdbb69eeb4d7617d0fbf95d35f2e2d44bc00000000056aacab0063758d771b02e9cb6a01000000000852656aab51ab6aab909a4304000000000463ac635100000000',
+    'ac0051',
+    0,
+    -1983268539,
+    'f9a609cadcef503e0969c58acd7076c81a621e20c822805fa54365f7e6028c7b'
+  ],
+  [
+    'b0d6c80f03fd27e224e6f21ef6ae0586582f1a9eab961791486a6b619166cf3ecb09d872e201000000035153acffffffff27f11680ac591ed4fb8764ff58253425a1182c8d55117cdaecbb4d98ed18b8da000000000453acac513cc6294e7c4537e2c107e371b029675b51379268db03c7755a582b12fc806bfad1011dac000000000551526552634f10498d036645e2010000000005005100ab6a0da4890300000000015371cbd8030000000005636352530034438b98',
+    '52ab63',
+    0,
+    1428768491,
+    'abef0e80590e31d592a45f2b7218a45bf920c7c10b92cbd22fbb33f83931bc36'
+  ],
+  [
+    '21592b0102be17dbd38f018b8eed360aae1d82d3b6c911a252e8dbe868f8cc7c77e4697e770300000008ac635363536a65acffffffffc6520a3f295e286a998ac9de646ada29e3eea9fe1d77123c2d79e2330a13c61103000000060051acac52abffffffff01dadad7010000000005536a520063b091768b',
+    '00abab636352635151',
+    1,
+    -21717803,
+    'ed38370e29946f910783bbcc653a31cc33261a9de842aad946bfc68a9e146e5b'
+  ],
+  [
+    '65eb7caa04e9c1b659c0a84d735936501c761fc70c3aff16bdc40402753d13d8bc5ec352d000000000026500ffffffff0105a7d2e445acd85312cb9493033cdaacbd3e4e128966647f52c29e5abda4d703000000096a00005152ababab632dad0c71a30064971e27fe9135eca26d3ddea2b97f16c32d3c204391e02c50b5a07040e7010000000765ac5165ab526a2964c729a9e846cf9733cbe3e6ea44eb470627ae8e6c693fc301de85a28f0cd772b8bd7a00000000004efe0d39045f5a94040000000007535165000000ac7922b3020000000008ac63ac65abab510065911c000000000007636351ac6a53ab62474a04000000000000000000',
+    'ac52ac6552',
+    1,
+    2105988321,
+    '6be92881ec88e3cd2aef64c878f4ce47cd779df9f38bd4a7873bb2b1c9e35ae7'
+  ],
+  [
+    '9428d44d0356e8eff8cf85d4845533143bf6900f9901b53c22cc02d78cde4343167d4f624a0200000006536551515251d4b88b15b92e23bb2c4f55123f27d7f1cf52e5ac3a8f0797a177ba2a2695a21fa47963330000000005ac6565635244c0b864fabc6ee5a330f0fe88fde7552c4b646094ff6f419819ff16826a1a89edd8bb4a0200000009acac510053535252ac8f9421cc037abf45000000000001525a20070500000000035253ac4a676300000000000952535163ac6aac6a636dfc1a60',
+    '',
+    0,
+    1108098765,
+    '5eabfa4ba2af418221083d8fa0f837dfe04d94bf3275e373cdc4c26412f32e36'
+  ],
+  [
+    'c9d3c8de03f65eb4a0c3ea7332cf917991c77af567fbfbbe9b32519a30d4ca160f1eeec8440300000007ab5100ac656a0005e6beedcf43c40eef19792bbc9698d6783f837de9be6ab2df19cbe0c53f3fa541748ab00300000004650065524cf5b6585b5f5754e52543bda37f636a9a3297b5b8d49007e1a09ab0c1797ccf9d02172f00000000055263abab651657f340015428fc030000000006acabab51516300000000',
+    '636a65ab655152',
+    1,
+    1726532583,
+    'e824851ce0226ee850d417db1006417d6c62b71625425bc60376d0fe6f62df06'
+  ],
+  [
+    '0e7f90a401a6f4bcd3ac039b4528647745996c249ce35eb1c0b522b078aad5954a29944c800200000007ac65ac63515363ffffffff0317fe4d010000000005abacab6352f5665e010000000005656a000063e983230200000000036a656a00000000',
+    '5263',
+    0,
+    2103220685,
+    '855f953a66d9370747c0a7df58a73d7447ed39e085bbdd5ac5a88c6229e9b303'
+  ],
+  [
+    '373bee5102714bfada878bac73752cc924f907732b726998d81ea56a98d97742bbdb9867e601000000095300630052abac6300425863dfd5cde71cf9198461ac03a95d5926ae62d3e3fe49d0338973679d29ad679a9f61010000000453526500ffffffff018f4a43040000000003ac525100000000',
+    '52',
+    1,
+    934602099,
+    '60b2b48f0639d3c60c5caeb743ebfed68b0df14eb9a78ac815e137969c79fe2e'
+  ],
+  [
+    '913cac6d04145069943cfa7ae6ed527c552af80769f6c417f3e44c3ff9aa8a23bc7854873f00000000085165ab65ab515351ffffffffdd4f4a41d45d9f7d69a8b39d503a509c5d9606c8c3ebd73a6308adce13dcc12c03000000050065ab5352ffffffff003796b98f6ebc10ef5524d29571b2f3868c71a86669d2d96e463725371586e60000000007510065ac535265ffffffff99e4eb3a624d903aec85cbb37e11b7cd1721dec9b800ea360f064dfbfdc5324a00000000065363526363abffffffff04b45d1a010000000003ac655276e19b02000000000853516300536a52ace95aca04000000000265ac6996a1010000000007ac6a535252526505ee9ab4',
+    '6aac00acab',
+    1,
+    1157362925,
+    '4c9d6a9b875a38f39cd9db4bcf6320dccc9f5c280c67a5fe47831ce5bea947a6'
+  ],
+  [
+    '539d640e0416e7696be0d16f1e58fe12dbb452667ebeeb5f26417e13e077022910860d62db02000000036353ab59c537ba61e9f7fbd3b362afd1e3cbc3a29480134a0bcf459ae8e566efddad4d9613058f030000000263ab215c0c96baa1fef54e798148024051bf92e439047af6b4d3a28cf542aa26b17c52a01f5500000000085351525353656552ffffffff63a38a5d077d925d1ed113a039b6b9839d463dcdd927c47a20a4c4385fa2251e0100000001ab5313734e029f084c03000000000351acacd5ea6c0000000000075351ac65536a6300000000',
+    '63535353ab5165',
+    1,
+    -423892244,
+    '52c6ba51a49740c85d5320c2d6b217734cd024eaf46206001a82aa7be0119400'
+  ],
+  [
+    'cb0a35b704685b0ccfe5f7bbcb1af141c0501324ebe024c66d77e2f2c532cd7bf5d206906b0200000006516a6552ab533bae7043e123ddbbfbb0d7b120fd6584ebf1b923eaece73e8023cf66cee2c829f4cfa324000000000853656aab526a6551d969de4aeaa0b9ceb412aed8aa1b23f200dfc251563bc36bfcf4a5bc477cf2e0b2ebd36c0200000007005265abac53520a478ac8c16978a028383e7981566b5fd74d27416dc36556dca040a33a63d05bc30a461d02000000066300516aab5397ca07a3045dfc04010000000009ac635352ab6a53526ac9c9160300000000056565ac51520a41e304000000000952ab536a63ac00ac6a9d9c4e0300000000085351006a00636365959d68e4',
+    'acab535300ab515251',
+    3,
+    -2001499401,
+    '375c69cbfab134cd62a709152f8a73399e3b1ac678b446ab4beb68f1a70cb33c'
+  ],
+  [
+    '274ea72e049cfa8ffe67263962866b22c45abc044ab8177ed3d8a4829cf586f8f9667a75320200000004ac516353ffffffffb0b199b11da36ade37b9c72ac57fe65f50eae0f3f22e3377aef23173da92e3380200000000ffffffff7646bd5f06435bcef311e0054702564435a9863cbd8381233505df3d72e7402a010000000953ac5365ac6352abacffffffffe2196944c87bd9d9de044ce8cfdd64caa184fb66072bbb4caa9c661b7a9952ba00000000055365ab5100c37da9c303627d4f010000000007636a6353ab636abf5f530300000000036a63aceb186b04000000000563abab63518f85b2ac',
+    '535165abab63',
+    1,
+    1081584497,
+    'aee3e4de289d506e54fb3dfb83591ad0ded41ea361a7bb285f4765af1477e5cf'
+  ],
+  [
+    '0f1849cf03adeb47182859495ee42833a14bf2e67f76a4340d6d970073d306f5ab67c04710020000000700525151536553f075bc2c81828abbf9ec524b913215e6fb4fef542c4ae916b0eaeb71699c3e00be2750b501000000025353ffffffff8981402734fa8ee50aef3e5531a2124bc1ac706b1a37b9d257d43e4ab88062770200000000ffffffff03074b5b0500000000020065840d68050000000000fb7b4d03000000000400ab6a5100000000',
+    '5163ac00ac',
+    2,
+    -1592031925,
+    'd45cec6708463aaacf868faa0abbc98eb29c332952a9500e19861a4250e4cac6'
+  ],
+  [
+    'c135ccc5026e138563b23c2577900d9c2a9d5eb3122f2ab794ae0843c0fa1b8b0783c0d5a002000000036a00abffffffff6821421cc450d5566e39b6a9c3c9aa4f617b364a84850b5a66c6c6a8242cdbba020000000963535253ac656a6353cfcc5d520347afab02000000000951ab005353525251517ebc2c020000000000d85f8605000000000653655100655100000000',
+    '5300ab6a53',
+    1,
+    -8720018,
+    '23b8fe8ccd89d7f79e4738bbfeb01c3edd169db9e5d095fc4c7c3c67dbb75096'
+  ],
+  [
+    'f5ea4b4d01e602ab71cbe8fef5e07829cef8b2fbe5ecaba7fe282820d967920d99d25e4b3a0300000002ac51ffffffff0100606f040000000005ab655100514f6193ff',
+    '6300515251525251',
+    0,
+    -1792715658,
+    '83558039163e9cc52aea9cf69eaaaa92f910100a7b3dbcf4a41ba914df63e3b9'
+  ],
+  [
+    '017b4e580286772464f163b250ccc77ae8fb4077df7e87085464c32af40d1099c283d3ff8c000000000465525152ffffffffb93a3b618d05d257b967e54b58562c6bcbeee7093b90b497038fe4daa83dcdd60300000008ab6a6a6500510052ffffffff046840b2050000000006526565636aab96f7a2000000000001ac1ed9e703000000000565ab6a000025bbda04000000000251515c71dff6',
+    '6551',
+    1,
+    -1054965037,
+    '51c90ed06486c5d54e1aca8d25954dfaf1d4ee8c16f9908d730c22f1bd7efb2b'
+  ],
+  [
+    'ae659a0504aaadc6517b40d466ac262ffcf8451335c4cbe94a71a6a458e431b6dbf964452602000000026352ffffffff70ba87d3e1f0b327e3be107f334f005cf14805bfde8d6073be866f9456b037710100000000ffffffffd8c0e31950a3e52a1bda3adae7b6365cd10c24ba41a6ffa238728938c9dee8c903000000086552526aac6a6a6a06370e293d0f80da6b854cad0a8f6b79803e3d64fd52d09891f265d51f94e0c9204719b30300000009ab636a525351005163829c44ff035fa82b040000000000c4aae900000000000463ab525283aab401000000000652ab5363abac00000000',
+    '6a53',
+    3,
+    1321030904,
+    '4c6c2bb07e9d10b60cfddcd140f0656a0237a4cb1a1ec120b03f471e9e631a48'
+  ],
+  [
+    'fcb68c6c0334ebcdc3e18f4e37b8e2759cb9901fd944f28b1dc41df9aed080207795b79052010000000151e652a2e23a810b144aa94cc653a6dad385df344c3ee87d6858ac579089625df808903663030000000400516563ffffffff27f7f3aa6af6eabb3ef33080b721421f11c4e127b856ef1fa1032aba2f1516140100000005ab63515165bb7a04da018efe2a030000000005656351005200000000',
+    '5153ac51',
+    0,
+    1831473613,
+    '37acc656f877f0a190b35b795e39175b15290811f88ff8df319659018fb31fa4'
+  ],
+  [
+    '4367ff3e0161547a4d213a471019074f5ab1539c4d1bbd1311af164d16f5fd3531f95b3baf0100000004636a6a00ffffffff030132be0400000000036363513b7c7e0000000000026a5340ea86020000000005ab53ab6a00093d266d',
+    '0053',
+    0,
+    1371271919,
+    '47aacc8d17ca60728bf623ae7b72c7ca76199c5da40246d8e5207996fe9bd58e'
+  ],
+  [
+    '46fc864e020e117783646102f12456e4306b9b616ac40053e53a6eef11d6c06603bf94270e03000000085263ababac636a63ffffffffd75dc9f5c0408dc9fd0fcbf32ea2339b930a19f8eeae9b517b4717f07666a8a002000000046a650065ffffffff01de39c9000000000006656aab51acac276eb420',
+    '5363530000ab',
+    0,
+    -669247627,
+    'accd1e2e361ac5f59a5d7fe40f6043b96a862ee1956f38bf0e7179886baf3c22'
+  ],
+  [
+    '2f1cae2601ec7747c366aecaee0ed7f09c778a2c0375cf2c428dc6bef9c861121e13edf266010000000163ffffffff020ac38b02000000000013c1a70100000000045265ab63ff6e85a5',
+    'ab5100ab',
+    0,
+    -626791975,
+    '9fa40e83b435ee66ac225b8bfbc8ec9d5418844a845ba63104d8f644a09c0117'
+  ],
+  [
+    '601213c304ec40af6db4c271ab9ac707f7e9d7cf91bb0ee56ef1efc498f9db7b8e593926e0030000000965656a5200656351528118b95b142247f51f68b6a58ce89344b99e4f04638cfd027782c308520fefbb83d213f503000000025352647319242b28e29ed7342aeb9e63dbd79f86f7fe0abf2b9d076687b7ba1569370c45cf480200000005ac6351acac7bd40e18c341ae91f4c1eca22f85e7f8ec2291cf55024c18d3851e0d0bc9b6a729711aab02000000020000ffffffff014e34570500000000046a52ab6a00000000',
+    'ac6553',
+    0,
+    -607886271,
+    '31c8715de916bf007c5efa77793d5614b1ca36b184bdb6df49b92fc0ac7296d0'
+  ],
+  [
+    '6f83126f02f6a12d221819bb9ffecfc2a32a11d8f42e1789093e5ae8c46cb0e8e67ce89d6b030000000351ab53ffffffff230dc4406d6fed9a99c17c4557fbaed4bed263cd1d3c1c7799dab0b825fc108a000000000752630063acac53ffffffff042359240500000000016566068a0100000000026352a961b10400000000036a6a52cd49d6030000000004655365004fe533a7',
+    '53',
+    1,
+    -1950349580,
+    'f0c5101e0c0986e0395fd75bf8c3c0574ac52a0004f69706e172f2d5e2a77ab6'
+  ],
+  [
+    '09138ee8011ba2f64a6a770ceefe912addfa1d5037f9277701a2317f0ee16c930a56fe51e001000000085100526563536aaba826a9c302bdcb3d030000000001632fe819040000000001657f817581',
+    '6a',
+    0,
+    262738245,
+    'ec93951a2d089cdd24a64ea0c2ba08d4a182b9230c15e30249fe597961629e4d'
+  ],
+  [
+    '2fe513a301a6d2cd80c95cbed7c58f016fcfdd712a92b382e008b86b7aaa1ea0f50a4754f801000000050000526a6a22c338ce02e228b3010000000009ab52ab00ab656a636ac5bb480400000000045365516500000000',
+    '51acac636aac5200',
+    0,
+    -1981214367,
+    '7fa81037d95fe1b7744029e242cdc4753095e67ea71821e7729a32f3ebaea7d9'
+  ],
+  [
+    '6d2f6943045081d01f116c587b6c37a5c1e40b832ea14a01c8297c057527edec64dbf397d10200000009ac656a525100515365ffffffffe72aeaf1cfd3ffa9123e52fce433792b5615e2da30f582622a7d9c1b27ca4a770300000005abac005352acc2a3f654ab9f28e279e8d3f7814e4847386735db69ae7785e875d83c8e9d4b7921d4af000000000652ac51ac535102806d37b691612ea7560fd07470017dc397f41a36e46f61af61b01f8a9febbd7b2dbedb010000000252003c6b5c1e04862a9b00000000000353abac3e6df5040000000001514eea3b0500000000006c8c780100000000056a516300ab00000000',
+    '5165ab515100656551',
+    1,
+    332136022,
+    'ee5c8991664f8608cbec1278741b02cfe99a3065a7baea9a4960dd1b9624fb6b'
+  ],
+  [
+    'e18151ea018a65efcc500ecf43811b17bc2d9daa782ab9a93e2037f07847570c4ed58a41c10300000007006a515352516affffffff037d9afc03000000000865515100ac5200abfeeeab030000000000eb94af05000000000252654b7580e5',
+    '65525151ac636a',
+    0,
+    -23932721,
+    '528d01848ae1fc06d6ef30df7a392261108f72f0befb5cf4ecc880846f7d436b'
+  ],
+  [
+    '4d0356ab041c8d12fd4f1826680f9c4b94325dcabfcce6b5224bc70da4478cf14c96c3f2560300000000ffffffffb36b77d95290d42dbb5bc10fd75e78bd0f66cb7181ac03bf066e2293232b9d58030000000465525365ffffffff410e69d1327f40e4384f05ec5c8792afb54b4a43ce0375b2c6448af721c2da8b000000000853acab006a636352ffffffffbd1436f84b2f6496341d4742f99704a4a71c26864ce5bb6be6962b57fb8da0a800000000096a0051ab536a51ac52a4ff18cb0234949e020000000009acab63ac51636a0063a354130100000000046552520000000000',
+    '5163ab526353',
+    3,
+    207271499,
+    '140fa2f889f07b19bb0aa09324341dbef00f1ee29557be0ae82978de80164cfd'
+  ],
+  [
+    'a879873c03e2b3866ad77109fae496f50a8ea6bf7547c12f7c66aef3a8bf9efef2e990af1f01000000056a006a5163ffffffffc8c56a2fe378cfe4fa9c26982e93b930d59c6eb92b60eb473186b393f64a397800000000056563ac51004cc8c6cf47a66d039d8963964b81d1f755b414bb7a1636c86c94c53cc7495634078ca7fb010000000263630339d61601b9f6a201000000000665acab6aabab00000000',
+    '65006363',
+    2,
+    1251788744,
+    'a1030f2466a12612c7bfe684d03aaa49a599655e3073ece8d6c8e653c9200457'
+  ],
+  [
+    'bbcca75f03edad9eb341116d44b02388f043883911bede0b754c766cb3cf2d998ac7154f6c0000000008006553ab52655251bc20695a0cac516d1de0947cf601b71d2f664f4abb9907a289388d7b11ad9610f2fdd086010000000263007c227ebe08357254d5a0a2a59031b06de7f6e160eed15fa23c17992d375418bf1b71dc0103000000070065ab53635263587aee330389fdfa0400000000006d0082050000000004526aab531193d30500000000095100636a52ababac6380be9d72',
+    '530051acac',
+    0,
+    -830030877,
+    '727c45d5a0d6c7af1806995533e70ab1d2845c507797aa90765d4fadcd243f01'
+  ],
+  [
+    '80965ba304d8bb710cfb31cf6b7944c618205c1722f627f7418ee40f01ae4d63924edb7ebe0100000003ab52657bd5eea0c2839723133d8ca4a08d6e10eabceafb9d8e494ece4c1a3d3227a4c2eb170647020000000400acab520066a40ac8b2a800e3ad0a9021c1d2a46c36b2f50c6e94f096dea22bfac1f478706e5b62010000000600656300acacffffffff7054e2c8d7232b19f1a8ef0d7b88584d7da6095713fac01ea2acd8ddeb5180ba000000000553516a656affffffff01a13314010000000001ab4c060054',
+    '63515353ac',
+    0,
+    -886608040,
+    'adaf9cf52391c9179da1d404698d80e9c7a7520f18c8fe2b1db5a6e0e7f6022b'
+  ],
+  [
+    '21deed1802cf38884c9a41b2228a85e8ec7dccaabd11ae2ab3bc2e3c9eb62ac55b697b96c500000000000da657406542c4df16aae4569379ec8b04dec8a4b6f6a446c0042d1913261f760aded158000000000700656aac006500ffffffff0347f49c00000000000363000016da250300000000036500655701ca02000000000200ab027ec3fc',
+    '516352536aacac',
+    0,
+    -1107794725,
+    'e8159807b6efae4c7c8badd99d7b8fa02b72048d83021bb18f7c3fbc6b7c68e9'
+  ],
+  [
+    '2ad0190d023037fe32237db60039d200c43f33b18359b1ef40ca92e4cffcf8ce69f59c96360200000006006553535251ffffffff38cce6ba7d3cd35bed4f5cc7130853cb8bd16cb83f898539d77f6076fd488b0801000000046a65ac65ffffffff01373d400000000000045200535100000000',
+    '51530065ab6551',
+    0,
+    -1699952696,
+    '42297812e9f96a45cd2631d3bf211a68482d8d0c9c02a373d76e33dd6fe2107d'
+  ],
+  [
+    '3aae4cef03a4faff31ee0439f94bc8f35760104094110d0e1412293c8302e8b35ad59dd229030000000863515251acacac632d95e2f2d6fd1912a37bc7025a49a5c8839bc39327aafee2c1c329ced2fc7dccbf0e56b902000000040065acacffffffff5d293f98157a0d9b558396530656fdd81ec5993b3d64735a8ae9bc77eedd211102000000016affffffff038f56f800000000000000d7c2040000000007acac5252ab5252e7f7fd02000000000000000000',
+    '00ab6aab5252',
+    1,
+    -710638099,
+    'ba7a7c983dbef0ad0d759c183f7e5c592efdf006206bb47e501cdd2e32095a83'
+  ],
+  [
+    'e6d5aa5204acf45d76da687108cabbc9e1f6655b9e345eb007e41115c276a266f72030945f0300000009ab5163ac6aabac52511bc48c7532b89b3497200a45bd971853ecff1d82cd251b1e62efda61a85fef82f13d1c990200000001532ebd30a802c29352d58234c7af1b2485ae4096a277cae033e4f6bbb949c7bf9a1604830e030000000663006aacac631920a1869273b72b95d998e94e608f86123476d89ae35cd9f0a8345181d26ad1b7a5e0da01000000026352ffffffff029edeb20400000000096a0000526353ab00636e9069030000000001523689fcd2',
+    'ab6365ac',
+    1,
+    382904573,
+    '015b322421e9ac1c92e565647b8a4d94df19421f372c42d9d5ca43c8f8263594'
+  ],
+  [
+    '0fd830a60402435a4e606751bba939c5f873e9539f6e6dcfd0e2610f7277e891b89157f036020000000453ababacec4dbcb4bb485d2a2e77989f23bc5b0a5d56930c78f50264d922f7e1bc68973b6eae686502000000026a00ffffffff6ad076d9bf26d9cdfabe283d49092c1b5fe36e4034cbb2924ec837d43efc1a8a00000000026a63ffffffffed9ebde767511cbed4c24311a1a6319773a3798497a69496f3580aa381db547b0200000004ab630063ffffffff03dc40680200000000020000eb1429010000000002516ad69c520400000000085252ab656aac5353f87e0c5f',
+    '5352',
+    0,
+    753290455,
+    '3be258efd2bad7502e3cd20d56eaa56d2ad7f78a4036f7e16430894dbae215d9'
+  ],
+  [
+    '841b0c55044dc39770e2cc27bbbba820588b52d8506ede8f0747f3653f313786adba809c9f0000000002516affffffff2546a098e242703bb3c0ef8771c2650a2685697761440304895acb2bc2f40c69020000000465ac51ac45b17036b9e8052caa4cd7bf6f10ecb19394284c5a05eee49884adabe1d8fa54aef59b870300000000ffffffff25fa4a2ad034b465f9a6d7f9f26f78e52f335fc01bcc3b12db4c2b6600c9e8310000000000b336501202e161ac0400000000066aab63516351ca99da020000000007635100ac52525200000000',
+    '51636365ac53',
+    1,
+    1430473336,
+    '02d89b70e3498a0cc66f21e456845ac5f380906ab0d41ca87ee7ab8f02726740'
+  ],
+  [
+    '832d8abb01c01c960b7f245c881ff1c7fba3e333f4be825938a7ebc06a1406511b2c0526f70100000004ab6a51006548bb5003e03684010000000006636a53515353409b7e0300000000086a6565abab52ac529be5700400000000015100000000',
+    '656553',
+    0,
+    442282446,
+    'd059258ffbc27351a298516bbdc69f16d71762a155c70263a00f16e0bcf3e0e6'
+  ],
+  [
+    '9f55385e033dac2243ec8adab367f40a0cafc222f26c2a84a9d62ae65f3141d0e7eaea352d03000000046563ac6affffffff19608a5e38af7eb99521baf227a097069a4d23224ce804570a93899ac5bb795000000000085300516553abab52ffffffff722cdfebb4b7797add063dbf8f8185ffc5f56ef63e80c708d31a5a9dc7f32dde00000000015217cea20a03ee25dd040000000001530ce711040000000004536a5253a07f0c040000000005515363ab5100000000',
+    '',
+    0,
+    -507882013,
+    'e00897df53288472054e6410472b932ce3e525b7c1d5734f372ee3e85ac05d25'
+  ],
+  [
+    '7980273c040bd904fee13d5c4384d3c82b875126f187693fe028ffd1673766dd11423ae79e020000000153b1c0cb99f1ac878277a9414dec5b02d0b9fbf855cc915e3a20f497768a4796c4da8a788e010000000300abacffffffff1f42d400bf325ecc618dd71a81ca039e9c9ca575b413a405f0ffbcd6e27008ae020000000651ab6a63ab51ffffffffbde0ccf3a86b81056083dbd0e1e77c408a769e02e537167a04440e63280e182c02000000046a006a63ffffffff01cd5f90040000000007ac63536551515300000000',
+    '536aab636a515253',
+    2,
+    -98265898,
+    '02120c4fe543ff011fd454a2c01bae052a94174551e9d688c6dbfdde30bd7eb6'
+  ],
+  [
+    'ea30825701ab8742e301d649dd739ac4916e8de381afca17982f8f24b950487e42f91cc3ae0100000000e4fbd0a804e0cd460200000000056a535300acd630e804000000000765ab6365516a52d518a403000000000352acaba3e4b80200000000085353650063635263b6ce90fe',
+    '6a',
+    0,
+    1322978155,
+    '4b725e82ec699c4c8f91a0decfc7ec25aee94353e7faee658e968ad748f347ee'
+  ],
+  [
+    'd91ee3f602840eaafaa29e1ae97b87b7c23cfc2595a1c31478433b106e4771d6d44bdb4578020000000853636a6351ab51518f47e12f730a8e84d619a5321cfab7226acbfeeee653e3c955ffff61c521bbd94a041734000000000451ac5352ffffffff02befb870500000000015303ea00040000000002650000000000',
+    '',
+    1,
+    1116586867,
+    '9b506b51d4d2685b22aa40529a227abdf63c246ebbffac3b3aa854f30c45f5c0'
+  ],
+  [
+    '8581f07c04111b3e21195490842a206cde4f3474d3fe437ab6f48d178ddac3254a744cd9240300000008ab656aacababac539a0c32b2a7d46a20975c527a7f880ca0c0e347287ad96a715c22820e375b7278a061d7880200000000ffffffffc8a7899054df65e8939c5feb43497086c1c86ad7020512e7cc8590f10d6d718e0000000006ab635151536390bc96d56073a039fc9a78ece69336316f5fd74886f9b8f7fabe9559c8299594b751200400000000025200ffffffff044be0cb020000000002006a4bb23b0400000000065263ab6563526fe5b20400000000030000004d52e10000000000035165ab5463affb',
+    '515251656300535153',
+    0,
+    -1620894655,
+    '94448e897d6feec29d0ebff8630273fe42aa188befff37dd776108b03bcf28e2'
+  ],
+  [
+    '16df8be4044fec2f5503292300a2d5ea4944c51b4003f58f90d010426c54b925babbb352f00100000001abffffffff3febe6711b3a29ba1a274db6cb75b494b9de200492f16e4765f672a5a323ca4c0100000001aba5c5931867cca78f8421e3900b1ac26fe63b127ae3323c8436ac6a18910a4bee069d67b8020000000100ffffffffae460b8a935a8a66410f290acfb7a318d93d63cd8759726f30dfc2cbb155ce7700000000025165aaae539704d264d5010000000009ac0063536500ac6a510d9f8902000000000865525353006aac6adc13d3010000000000775cf80400000000076a6aac526a63635d624e57',
+    '5353526aac0053',
+    2,
+    1263832401,
+    '90b2dfc8e9635f08febe2bdeb8bc5bed76f8637561910b4ebf9be0048bfd6bdf'
+  ],
+  [
+    'a97515da0217b7dcbdc6a465904ccb048163a4f1605a38efddb92e1945c0f05c8c579ba80c0200000002656abf34db26b3ec0f6e088c1a5c4d399daee0ef8805f70fecc64a0207914712e6fd0762f54c0300000000ffffffff03af17450500000000070051acababac6aeb6055030000000008ab52ab6a00526aaba1d294020000000004acabab658ca1d8d5',
+    '525263',
+    0,
+    -493530754,
+    '80396ab5b902a629ad897e8934a3141188f4117e6e271c6fee43c33f8ed9c667'
+  ],
+  [
+    '727df1bc02732098cf479bb0ea55eceb3ee74f14f2005b030a3dbccc6893a3e901f345c32e02000000056aac5351511e30dba85e1bbbb9b79e12764ac5c07f0f26e23b134088fc1a7f0dec841d1e32d094caa00200000000ffffffff01e4661405000000000963516563ab00ab525100000000',
+    '52ac6563abacac00',
+    0,
+    -1413124794,
+    '9168096d1509a7e11290920b90a44a318de78f2ee660f4387ae2a7f6b21d7881'
+  ],
+  [
+    '5887d5a004f7486e82fe449c1e43bc680d49d0a81a0b6d196ea19af8d82eb0042c3ea6bfea000000000200ac7893c4acd9d2bb22ab7b67be225612db84499e569abb4bf702c76a634dcfbe93b3de08cc0300000007abab6a655352539c24fa4a453f435bdbfc91192c3ec31445e5d2a3dbdd6b16e03783ea9444a5366ff1201901000000026a53ffffffffd5bbeb6c3f02236250533ed70c3bacecf90499dde7e69d5488fd6f49d73a949a0200000000a6b264330316e6d70200000000020063d75f650400000000035151650b314a04000000000565ac53ab5300000000',
+    '52536a6a0000',
+    2,
+    884599520,
+    '6df2fcba35fd968382140a63cbd34adaa04b8a9e51cee3db3cbccb59f4333380'
+  ],
+  [
+    '063ab70c0468abd68e99dcb0ee7dfbffa2d7edb5d5de06d0516df3728b97add2da0fb0c92d0200000009ab0065ab5252ab6a63a7bf00f58d843d6bdc0ee2bfa1665c136accf912c2144e0fd8afd23a857cb785d3c69ae30200000008ab516aac000053abfffffffffb02e2ab3937feb72b400664096037d2a91027ef4151a0e85af7e872fe9d70610100000004ab005251c0684e14d2c095584bb3d34284437c9cbc85300f972425976115002ee85f09056884987302000000085151636a00ac53532088c61e033b463d0200000000075300006a5151acdbb6ce0400000000016a9eed39030000000001ab7009c9d5',
+    'ac6500ab0051',
+    3,
+    -358045089,
+    '7b5d79028b487a15b28745f488f2fce77fbe4c9874ec669dc4226dad6adddb01'
+  ],
+  [
+    'a429576a02d39a01bbbcec2121eed27912165990b159405b1b0284a662cf464f8c7d0239cb0100000005536a526a63ffffffff86a4c286fdddefa3f45f75530d8a3cbef8d07ea5aecc54a6445b5ae12f2fe88602000000056a63516a65ffffffff04d5a3530300000000046553acab2f8952030000000005acac63ac52483d0b0400000000096a6a6353ac6a6aacac73cee202000000000565ac52006a00000000',
+    '0053',
+    1,
+    662152413,
+    'fe502a3c169f960f4e0f8496e562fc9e0fb4e0603110be61db8d4857c077f8dc'
+  ],
+  [
+    'a54f96d3034153323bc6ce5ba97793b0d1032018be7ac6816155661ab1112990d0789741ec01000000020053adcb23283024723d4a904a886e842bd6df530a98e83465e965cfea3077ce69c81c5ecea10300000006ac6500655365fa890589f18427b0493ab412fc4e68c862f672b42740cc046bae47bb41bfaa03629753ed00000000030052abffffffff038af457030000000001657e0e360200000000056565abab65a6b5a7010000000002ac00c0fb9b98',
+    '53',
+    0,
+    -784333341,
+    '9dafc80679621e60b3026d42876f824c693b83f78e83438c3a00acec5de62ac7'
+  ],
+  [
+    '3e4b3b51033c063f6959a651b10099a3ac4ee154bcfa7e69df53b26d910bcf3b671b344aad0000000009526a6352526352635114aefc0461ba28a4ac0e44a7dcfdc05caaac5d205f927293e60cc084cd0f32bddc5e3b660300000001657eb2300167f2336482567d88ae829de00bf1146c7bac563d99c2fb74662226d408fe104000000000085352ab00ac5265528ecdc28303d01d580100000000002b073405000000000763536563abab52557be5010000000008006aab6a5163abab00000000',
+    '5253',
+    2,
+    -397094790,
+    '5864832f0c3d7c422abef5c287ff4d84b25b773c346a9cfdf125c0fb6105871a'
+  ],
+  [
+    'e80d62fe038e6398bebf2ebb6fc527abdfd8be541ad05f5dc3cb25eb87a937eea21f136bfd010000000863ac516552abab6affffffffa7d0b2d930800fa6126efab87cb339ea79de3b755d2d46626af48e229f4dc3650100000007ac65ab52630063b4f49a445bf63006d2bc0eeb814b4ce7774a7181e73f1eb735a932ef9f03196a383e68cd010000000152813f784403970e2204000000000056b04c020000000004006aac51ccfe520300000000046a52ac5200000000',
+    '65536a63',
+    1,
+    -1835164180,
+    '69f0044c089789b274e5d50b240b763aaf98916a311d4fec166b3751fc1b7ca9'
+  ]
+];
+
+/**
+ * The segwit signature hash examples from BIP143 (native P2WPKH and
+ * P2SH-P2WPKH), which commit to nonzero input values.
+ */
+export const signatureHashVectorsBIP143: ReadonlyArray<SignatureHashVector> = [
+  [
+    '0100000002fff7f7881a8099afa6940d42d1e7f6362bec38171ea3edf433541db4e4ad969f0000000000eeffffffef51e1b804cc89d182d279655c3aa89e815b1b309fe287d9b2b55d57b90ec68a0100000000ffffffff02202cb206000000001976a9148280b37df378db99f66f85c95a783a76ac7a6d5988ac9093510d000000001976a9143bde42dbee7e4dbe6a21b2d50ce2f0167faa815988ac11000000',
+    '76a9141d0f172a0ecb48aee1be1f2687d2963ae33f71a188ac',
+    1,
+    1,
+    '70b68c4749ebd05776915b4d01297947f182ace3e9aa68af7cb2d11611f37ac3',
+    600000000
+  ],
+  [
+    '0100000001db6b1b20aa0fd7b23880be2ecbd4a98130974cf4748fb66092ac4d3ceb1a54770100000000feffffff02b8b4eb0b000000001976a914a457b684d7f0d539a46a45bbc043f35b59d0d96388ac0008af2f000000001976a914fd270b1ee6abcaea97fea7ad0402e8bd8ad6d77c88ac92040000',
+    '76a91479091972186c449eb1ded22b78e40d009bdf008988ac',
+    0,
+    1,
+    'b69fe5925c739dd881cc90847df99dda4dc70c226d56e81caab32bddf4b0f364',
+    1000000000
+  ]
+];
@@ -0,0 +1,100 @@
+// tslint:disable:no-expression-statement no-magic-numbers no-unsafe-any
+import test from 'ava';
+import { instantiateSha256 } from '../crypto/crypto';
+import { decodeTransaction, Transaction } from '../transaction/transaction';
+import { binToHex, hexToBin } from '../utils';
+import {
+  generateSignatureHashBCH,
+  generateSignatureHashBIP143,
+  generateSignatureHashLegacy,
+  isDefinedSigningSerializationType,
+  SigningSerializationFlag
+} from './signingSerialization';
+import {
+  SignatureHashVector,
+  signatureHashVectorsBCH,
+  signatureHashVectorsBIP143,
+  signatureHashVectorsLegacy
+} from './signingSerialization.spec.helper';
+
+const sha256Promise = instantiateSha256();
+
+const testVectors = (
+  vectors: ReadonlyArray<SignatureHashVector>,
+  generateSignatureHash: typeof generateSignatureHashLegacy
+) =>
+  sha256Promise.then(sha256 =>
+    vectors.map(
+      ([transaction, bytecode, inputIndex, type, expected, sourceSatoshis]) => {
+        const signatureHash = generateSignatureHash(
+          sha256,
+          {
+            inputIndex,
+            sourceSatoshis: BigInt(
+              sourceSatoshis === undefined ? 0 : sourceSatoshis
+            ),
+            transaction: decodeTransaction(hexToBin(transaction)) as Transaction
+          },
+          hexToBin(bytecode),
+          // tslint:disable-next-line:no-bitwise
+          type >>> 0
+        );
+        return [binToHex(signatureHash.reverse()), expected];
+      }
+    )
+  );
+
+test('isDefinedSigningSerializationType', t => {
+  t.true(
+    isDefinedSigningSerializationType(SigningSerializationFlag.allOutputs)
+  );
+  t.true(
+    isDefinedSigningSerializationType(
+      // tslint:disable-next-line:no-bitwise
+      SigningSerializationFlag.correspondingOutput |
+        SigningSerializationFlag.forkId |
+        SigningSerializationFlag.singleInput
+    )
+  );
+  t.false(isDefinedSigningSerializationType(0));
+  t.false(isDefinedSigningSerializationType(SigningSerializationFlag.forkId));
+});
+
+test('generateSignatureHashLegacy: sighash.json vectors', async t => {
+  const results = await testVectors(
+    signatureHashVectorsLegacy,
+    generateSignatureHashLegacy
+  );
+  results.map(([actual, expected]) => t.deepEqual(actual, expected));
+});
+
+test('generateSignatureHashBIP143: SIGHASH_FORKID vectors', async t => {
+  const results = await testVectors(
+    signatureHashVectorsBCH,
+    generateSignatureHashBIP143
+  );
+  results.map(([actual, expected]) => t.deepEqual(actual, expected));
+});
+
+test('generateSignatureHashBIP143: BIP143 examples', async t => {
+  const results = await testVectors(
+    signatureHashVectorsBIP143,
+    generateSignatureHashBIP143
+  );
+  results.map(([actual, expected]) => t.deepEqual(actual, expected));
+});
+
+test('generateSignatureHashBCH: selects the algorithm by forkId', async t => {
+  const results = await testVectors(
+    [
+      ...signatureHashVectorsLegacy.filter(
+        vector =>
+          // tslint:disable-next-line:no-bitwise
+          (vector[3] & SigningSerializationFlag.forkId) === 0
+      ),
+      ...signatureHashVectorsBCH
+    ],
+    generateSignatureHashBCH
+  );
+  results.map(([actual, expected]) => t.deepEqual(actual, expected));
+});
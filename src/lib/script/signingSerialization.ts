@@ -0,0 +1,396 @@
+import { hash256, Sha256 } from '../crypto/crypto';
+import { encodeOutput } from '../transaction/transaction';
+import {
+  bigIntToBinUint64LE,
+  flattenBinArray,
+  numberToBinCompactSize,
+  numberToBinUint32LE
+} from '../utils';
+import { Opcodes } from './opcodes';
+import { parseScript, serializeScript } from './parse';
+import { ContextInput, TransactionContext } from './state';
+
+/**
+ * The flags which make up a signing serialization type (a.k.a. "SIGHASH"
+ * type), the final byte of each signature used in a transaction.
+ *
+ * The lowest bits select which outputs are signed (`allOutputs`, `noOutputs`,
+ * or `correspondingOutput`), and may be combined with `singleInput` (a.k.a.
+ * `SIGHASH_ANYONECANPAY`) and, on Bitcoin Cash, `forkId`.
+ */
+export enum SigningSerializationFlag {
+  /**
+   * Sign all outputs (a.k.a. `SIGHASH_ALL`).
+   */
+  allOutputs = 0x01,
+  /**
+   * Sign no outputs (a.k.a. `SIGHASH_NONE`).
+   */
+  noOutputs = 0x02,
+  /**
+   * Sign only the output at the same index as the input being signed (a.k.a.
+   * `SIGHASH_SINGLE`).
+   */
+  correspondingOutput = 0x03,
+  /**
+   * The Bitcoin Cash replay-protection flag (a.k.a. `SIGHASH_FORKID`).
+   */
+  forkId = 0x40,
+  /**
+   * Sign only the input being signed, allowing other inputs to be added or
+   * removed (a.k.a. `SIGHASH_ANYONECANPAY`).
+   */
+  singleInput = 0x80
+}
+
+// tslint:disable-next-line:no-magic-numbers
+const baseTypeBits = 0x1f;
+const hashLength = 32;
+
+/**
+ * Returns the base type of a signing serialization type: one of `allOutputs`,
+ * `noOutputs`, or `correspondingOutput` (or an undefined value, if the type
+ * is invalid).
+ *
+ * @param signingSerializationType the signing serialization type
+ */
+export const getSigningSerializationBaseType = (
+  signingSerializationType: number
+  // tslint:disable-next-line:no-bitwise
+) => signingSerializationType & baseTypeBits;
+
+/**
+ * Returns true if the provided signing serialization type has a valid base
+ * type (`allOutputs`, `noOutputs`, or `correspondingOutput`).
+ *
+ * @param signingSerializationType the signing serialization type
+ */
+export const isDefinedSigningSerializationType = (
+  signingSerializationType: number
+) => {
+  const baseType = getSigningSerializationBaseType(signingSerializationType);
+  return (
+    baseType >= SigningSerializationFlag.allOutputs &&
+    baseType <= SigningSerializationFlag.correspondingOutput
+  );
+};
+
+const hasFlag = (signingSerializationType: number, flag: number) =>
+  // tslint:disable-next-line:no-bitwise
+  (signingSerializationType & flag) !== 0;
+
+const emptyHash = () => new Uint8Array(hashLength);
+
+/**
+ * Both algorithms treat any base type other than `noOutputs` and
+ * `correspondingOutput` as `allOutputs`.
+ */
+const signsAllOutputs = (signingSerializationType: number) => {
+  const baseType = getSigningSerializationBaseType(signingSerializationType);
+  return (
+    baseType !== SigningSerializationFlag.noOutputs &&
+    baseType !== SigningSerializationFlag.correspondingOutput
+  );
+};
+
+const hashTransactionOutpoints = (
+  sha256: Sha256,
+  context: TransactionContext,
+  signingSerializationType: number
+) =>
+  hasFlag(signingSerializationType, SigningSerializationFlag.singleInput)
+    ? emptyHash()
+    : hash256(
+        sha256,
+        flattenBinArray(
+          context.transaction.inputs.map(input =>
+            flattenBinArray([
+              input.outpointTransactionHash,
+              numberToBinUint32LE(input.outpointIndex)
+            ])
+          )
+        )
+      );
+
+const hashTransactionSequenceNumbers = (
+  sha256: Sha256,
+  context: TransactionContext,
+  signingSerializationType: number
+) =>
+  hasFlag(signingSerializationType, SigningSerializationFlag.singleInput) ||
+  !signsAllOutputs(signingSerializationType)
+    ? emptyHash()
+    : hash256(
+        sha256,
+        flattenBinArray(
+          context.transaction.inputs.map(input =>
+            numberToBinUint32LE(input.sequenceNumber)
+          )
+        )
+      );
+
+const hashTransactionOutputs = (
+  sha256: Sha256,
+  context: TransactionContext,
+  signingSerializationType: number
+) => {
+  const baseType = getSigningSerializationBaseType(signingSerializationType);
+  const { outputs } = context.transaction;
+  return signsAllOutputs(signingSerializationType)
+    ? hash256(sha256, flattenBinArray(outputs.map(encodeOutput)))
+    : baseType === SigningSerializationFlag.correspondingOutput &&
+      context.inputIndex < outputs.length
+    ? hash256(sha256, encodeOutput(outputs[context.inputIndex]))
+    : emptyHash();
+};
+
+/**
+ * Generate the signing serialization of a transaction input using the
+ * algorithm defined in BIP143. This algorithm is used by segwit v0 inputs on
+ * BTC and by all inputs on BCH (where the signing serialization type must
+ * include `SigningSerializationFlag.forkId`).
+ *
+ * The signature hash (the message hash signed by each signature) is the
+ * double-sha256 hash of this serialization.
+ *
+ * @param sha256 an implementation of sha256
+ * @param context the transaction context of the input being signed
+ * @param coveredBytecode the bytecode covered by the signature (for most
+ * scripts, the locking bytecode following the last `OP_CODESEPARATOR`)
+ * @param signingSerializationType the signing serialization type (see
+ * `SigningSerializationFlag`)
+ */
+export const generateSigningSerializationBIP143 = (
+  sha256: Sha256,
+  context: TransactionContext,
+  coveredBytecode: Uint8Array,
+  signingSerializationType: number
+) => {
+  const { transaction } = context;
+  const input = transaction.inputs[context.inputIndex];
+  return flattenBinArray([
+    numberToBinUint32LE(transaction.version),
+    hashTransactionOutpoints(sha256, context, signingSerializationType),
+    hashTransactionSequenceNumbers(sha256, context, signingSerializationType),
+    input.outpointTransactionHash,
+    numberToBinUint32LE(input.outpointIndex),
+    numberToBinCompactSize(coveredBytecode.length),
+    coveredBytecode,
+    bigIntToBinUint64LE(context.sourceSatoshis),
+    numberToBinUint32LE(input.sequenceNumber),
+    hashTransactionOutputs(sha256, context, signingSerializationType),
+    numberToBinUint32LE(transaction.locktime),
+    numberToBinUint32LE(signingSerializationType)
+  ]);
+};
+
+const serializeLegacyInput = (
+  input: ContextInput,
+  bytecode: Uint8Array,
+  sequenceNumber: number
+) =>
+  flattenBinArray([
+    input.outpointTransactionHash,
+    numberToBinUint32LE(input.outpointIndex),
+    numberToBinCompactSize(bytecode.length),
+    bytecode,
+    numberToBinUint32LE(sequenceNumber)
+  ]);
+
+const serializeLegacyInputs = (
+  context: TransactionContext,
+  coveredBytecode: Uint8Array,
+  signingSerializationType: number
+) => {
+  const { inputIndex, transaction } = context;
+  const signsSequenceNumbers = signsAllOutputs(signingSerializationType);
+  const inputs = hasFlag(
+    signingSerializationType,
+    SigningSerializationFlag.singleInput
+  )
+    ? [
+        serializeLegacyInput(
+          transaction.inputs[inputIndex],
+          coveredBytecode,
+          transaction.inputs[inputIndex].sequenceNumber
+        )
+      ]
+    : transaction.inputs.map((input, index) =>
+        index === inputIndex
+          ? serializeLegacyInput(input, coveredBytecode, input.sequenceNumber)
+          : serializeLegacyInput(
+              input,
+              new Uint8Array(0),
+              signsSequenceNumbers ? input.sequenceNumber : 0
+            )
+      );
+  return flattenBinArray([numberToBinCompactSize(inputs.length), ...inputs]);
+};
+
+/**
+ * The serialization of an output with a value of `-1` and empty locking
+ * bytecode, used in place of each output preceding the corresponding output
+ * of a `correspondingOutput` signature.
+ */
+const serializedNullOutput = () =>
+  flattenBinArray([
+    // tslint:disable-next-line:no-magic-numbers
+    new Uint8Array(8).fill(0xff),
+    numberToBinCompactSize(0)
+  ]);
+
+const serializeLegacyOutputs = (
+  context: TransactionContext,
+  signingSerializationType: number
+) => {
+  const baseType = getSigningSerializationBaseType(signingSerializationType);
+  const { outputs } = context.transaction;
+  const serialized = signsAllOutputs(signingSerializationType)
+    ? outputs.map(encodeOutput)
+    : baseType === SigningSerializationFlag.correspondingOutput
+    ? [
+        ...outputs.slice(0, context.inputIndex).map(serializedNullOutput),
+        encodeOutput(outputs[context.inputIndex])
+      ]
+    : [];
+  return flattenBinArray([
+    numberToBinCompactSize(serialized.length),
+    ...serialized
+  ]);
+};
+
+/**
+ * Generate the signing serialization of a transaction input using the
+ * original ("legacy") algorithm, used by all non-segwit inputs on BTC. Any
+ * `OP_CODESEPARATOR`s are removed from `coveredBytecode`.
+ *
+ * The original implementation contains a bug: if the signing serialization
+ * type is `correspondingOutput` and the input has no corresponding output, the
+ * signature hash is the number `1` (rather than the hash of a serialization).
+ * In this case, `undefined` is returned.
+ *
+ * @param context the transaction context of the input being signed
+ * @param coveredBytecode the bytecode covered by the signature (the script
+ * following the last `OP_CODESEPARATOR`, with any signatures being checked
+ * removed)
+ * @param signingSerializationType the signing serialization type (see
+ * `SigningSerializationFlag`)
+ */
+export const generateSigningSerializationLegacy = (
+  context: TransactionContext,
+  coveredBytecode: Uint8Array,
+  signingSerializationType: number
+) =>
+  getSigningSerializationBaseType(signingSerializationType) ===
+    SigningSerializationFlag.correspondingOutput &&
+  context.inputIndex >= context.transaction.outputs.length
+    ? undefined
+    : flattenBinArray([
+        numberToBinUint32LE(context.transaction.version),
+        serializeLegacyInputs(
+          context,
+          serializeScript(
+            parseScript(coveredBytecode).filter(
+              instruction => instruction.opcode !== Opcodes.OP_CODESEPARATOR
+            )
+          ),
+          signingSerializationType
+        ),
+        serializeLegacyOutputs(context, signingSerializationType),
+        numberToBinUint32LE(context.transaction.locktime),
+        numberToBinUint32LE(signingSerializationType)
+      ]);
+
+/**
+ * The signature hash used by the legacy algorithm when a
+ * `correspondingOutput` signature has no corresponding output: the number
+ * `1` (as a little-endian, 256-bit integer).
+ */
+const legacyMissingOutputSignatureHash = () =>
+  new Uint8Array(hashLength).fill(1, 0, 1);
+
+/**
+ * Generate the signature hash (the message hash signed by a signature) of a
+ * transaction input using the legacy algorithm. See
+ * `generateSigningSerializationLegacy` for details.
+ *
+ * @param sha256 an implementation of sha256
+ * @param context the transaction context of the input being signed
+ * @param coveredBytecode the bytecode covered by the signature
+ * @param signingSerializationType the signing serialization type
+ */
+export const generateSignatureHashLegacy = (
+  sha256: Sha256,
+  context: TransactionContext,
+  coveredBytecode: Uint8Array,
+  signingSerializationType: number
+) => {
+  const serialization = generateSigningSerializationLegacy(
+    context,
+    coveredBytecode,
+    signingSerializationType
+  );
+  return serialization === undefined
+    ? legacyMissingOutputSignatureHash()
+    : hash256(sha256, serialization);
+};
+
+/**
+ * Generate the signature hash (the message hash signed by a signature) of a
+ * transaction input using the BIP143 algorithm. See
+ * `generateSigningSerializationBIP143` for details.
+ *
+ * @param sha256 an implementation of sha256
+ * @param context the transaction context of the input being signed
+ * @param coveredBytecode the bytecode covered by the signature
+ * @param signingSerializationType the signing serialization type
+ */
+export const generateSignatureHashBIP143 = (
+  sha256: Sha256,
+  context: TransactionContext,
+  coveredBytecode: Uint8Array,
+  signingSerializationType: number
+) =>
+  hash256(
+    sha256,
+    generateSigningSerializationBIP143(
+      sha256,
+      context,
+      coveredBytecode,
+      signingSerializationType
+    )
+  );
+
+/**
+ * Generate the signature hash (the message hash signed by a signature) of a
+ * transaction input on Bitcoin Cash: if the signing serialization type
+ * includes `SigningSerializationFlag.forkId`, the BIP143 algorithm is used,
+ * otherwise, the legacy algorithm is used.
+ *
+ * (Signatures without `forkId` are invalid in Bitcoin Cash transactions, but
+ * this matches the behavior of the reference implementation.)
+ *
+ * @param sha256 an implementation of sha256
+ * @param context the transaction context of the input being signed
+ * @param coveredBytecode the bytecode covered by the signature
+ * @param signingSerializationType the signing serialization type
+ */
+export const generateSignatureHashBCH = (
+  sha256: Sha256,
+  context: TransactionContext,
+  coveredBytecode: Uint8Array,
+  signingSerializationType: number
+) =>
+  hasFlag(signingSerializationType, SigningSerializationFlag.forkId)
+    ? generateSignatureHashBIP143(
+        sha256,
+        context,
+        coveredBytecode,
+        signingSerializationType
+      )
+    : generateSignatureHashLegacy(
+        sha256,
+        context,
+        coveredBytecode,
+        signingSerializationType
+      );
@@ -0,0 +1,223 @@
+import { ParsedScript } from './parse';
+
+/**
+ * The reasons for which evaluation of a script may fail.
+ */
+export enum ScriptError {
+  calledReserved = 'Program called an unassigned, reserved opcode.',
+  calledReturn = 'Program called an OP_RETURN operation.',
+  checkSequenceUnavailable = 'Program called an OP_CHECKSEQUENCEVERIFY operation in a transaction with a version below 2 or in an input with a disabled sequence number.',
+  disabledOpcode = 'Program contains a disabled opcode.',
+  divisionByZero = 'Program attempted to divide a number by zero.',
+  emptyAlternateStack = 'Tried to read from an empty alternate stack.',
+  emptyStack = 'Tried to read from an empty stack.',
+  exceededMaximumOperationCount = 'Program exceeded the maximum operation count (201 operations).',
+  exceededMaximumScriptLength = 'Program exceeded the maximum script length (10,000 bytes).',
+  exceededMaximumStackDepth = 'Program exceeded the maximum stack depth (1,000 items).',
+  exceededMaximumStackItemLength = 'Program attempted to push a stack item which exceeded the maximum stack item length (520 bytes).',
+  failedVerify = 'Program failed an OP_VERIFY operation.',
+  impossibleEncoding = 'Program attempted an OP_NUM2BIN operation which requires a smaller length than the minimal encoding of the number.',
+  incompatibleLocktimeType = 'Program attempted to compare a block-height locktime with a block-time locktime (or vice versa).',
+  incompatibleSequenceType = 'Program attempted to compare a block-height sequence number with a block-time sequence number (or vice versa).',
+  invalidMultisigKeyCount = 'Program called an OP_CHECKMULTISIG operation with an invalid number of public keys (must be between 0 and 20).',
+  invalidMultisigSignatureCount = 'Program called an OP_CHECKMULTISIG operation with an invalid number of signatures (must be between 0 and the number of public keys).',
+  invalidNaturalNumber = 'Program required a non-negative Script Number, but a negative number was provided.',
+  invalidProtocolBugValue = 'The OP_CHECKMULTISIG protocol bug value (the "dummy" item) must be empty.',
+  invalidPublicKeyEncoding = 'Program attempted to use a public key which is not a valid compressed or uncompressed encoding.',
+  invalidScriptNumber = 'Program attempted to use a stack item which is not a valid Script Number.',
+  invalidSignatureEncoding = 'Program attempted to use a signature which is not a valid strict DER encoding.',
+  invalidSignatureHashType = 'Program attempted to use a signature with an invalid or unsupported signing serialization type.',
+  invalidSplitIndex = 'Program attempted to split a stack item at an index outside of its range.',
+  invalidStackIndex = 'Program attempted to access a stack item beyond the depth of the stack.',
+  locktimeDisabled = 'Program called an OP_CHECKLOCKTIMEVERIFY operation in an input with a finalized sequence number (0xffffffff).',
+  malformedPush = 'Program must be long enough to push the requested number of bytes.',
+  mismatchedBitwiseOperandLength = 'Program attempted a bitwise operation on stack items of differing lengths.',
+  negativeLocktime = 'Program attempted to verify a negative locktime or sequence number.',
+  nonMinimalConditional = 'Program called an OP_IF or OP_NOTIF operation with a value which is neither empty nor exactly 0x01 (violating the "MINIMALIF" rule).',
+  nonMinimalPush = 'Push operations must use the smallest possible encoding.',
+  nonNullSignatureFailure = 'Program failed a signature verification with a non-null signature (violating the "NULLFAIL" rule).',
+  requiresCleanStack = 'Program completed with more than one item on the stack (violating the "CLEANSTACK" rule).',
+  requiresForkId = 'Program attempted to use a signature which does not include the SIGHASH_FORKID flag.',
+  requiresPushOnly = 'Unlocking bytecode may contain only push operations.',
+  unbalancedConditional = 'Program contains an unbalanced conditional (OP_ELSE or OP_ENDIF without OP_IF, or OP_IF without OP_ENDIF).',
+  unknownOpcode = 'Program called an unknown opcode.',
+  unsatisfiedLocktime = 'Program attempted an OP_CHECKLOCKTIMEVERIFY operation which requires a locktime greater than that of the transaction.',
+  unsatisfiedSequenceNumber = 'Program attempted an OP_CHECKSEQUENCEVERIFY operation which requires a sequence number greater than that of the input.',
+  unsuccessfulEvaluation = 'Program completed with an empty stack or a non-truthy value on top of the stack.',
+  witnessMalleated = 'Program spends a witness program, but the unlocking bytecode is not empty.',
+  witnessMalleatedP2SH = 'Program spends a P2SH-wrapped witness program, but the unlocking bytecode contains more than a single push of the redeem bytecode.',
+  witnessProgramMismatch = 'Program provided a witness which does not match the witness program.',
+  witnessProgramWitnessEmpty = 'Program spends a P2WSH witness program, but the witness is empty.',
+  witnessProgramWrongLength = 'Program spends a version 0 witness program which is neither 20 nor 32 bytes long.',
+  witnessUncompressedPublicKey = 'Program attempted to use an uncompressed public key in a witness script (violating the "WITNESS_PUBKEYTYPE" rule).',
+  witnessUnexpected = 'Program provided a witness, but does not spend a witness program.'
+}
+
+/**
+ * The maximum length of a stack item (or push).
+ */
+export const maximumStackItemLength = 520;
+
+/**
+ * The maximum length of a script.
+ */
+export const maximumScriptLength = 10000;
+
+/**
+ * The maximum number of operations (non-push opcodes, and each public key
+ * checked by multisig operations) per script.
+ */
+export const maximumOperationCount = 201;
+
+/**
+ * The maximum combined depth of the stack and alternate stack.
+ */
+export const maximumStackDepth = 1000;
+
+/**
+ * An input of the transaction being validated, as used during script
+ * evaluation.
+ */
+export interface ContextInput {
+  /**
+   * The index of the output being spent within the previous transaction.
+   */
+  readonly outpointIndex: number;
+  /**
+   * The hash of the transaction containing the output being spent, in the
+   * byte order used by the transaction serialization (the reverse of the
+   * order typically displayed by block explorers).
+   */
+  readonly outpointTransactionHash: Uint8Array;
+  /**
+   * The sequence number of this input.
+   */
+  readonly sequenceNumber: number;
+}
+
+/**
+ * An output of the transaction being validated, as used during script
+ * evaluation.
+ */
+export interface ContextOutput {
+  /**
+   * The locking bytecode of this output.
+   */
+  readonly lockingBytecode: Uint8Array;
+  /**
+   * The value of this output in satoshis.
+   */
+  readonly satoshis: bigint;
+}
+
+/**
+ * The transaction being validated, as used during script evaluation.
+ */
+export interface ContextTransaction {
+  /**
+   * The inputs of the transaction.
+   */
+  readonly inputs: ReadonlyArray<ContextInput>;
+  /**
+   * The locktime of the transaction.
+   */
+  readonly locktime: number;
+  /**
+   * The outputs of the transaction.
+   */
+  readonly outputs: ReadonlyArray<ContextOutput>;
+  /**
+   * The version of the transaction.
+   */
+  readonly version: number;
+}
+
+/**
+ * The information about the transaction being validated which is available
+ * to a script during evaluation.
+ */
+export interface TransactionContext {
+  /**
+   * The index of the input being validated.
+   */
+  readonly inputIndex: number;
+  /**
+   * The value (in satoshis) of the output being spent by the input being
+   * validated.
+   */
+  readonly sourceSatoshis: bigint;
+  /**
+   * The transaction being validated.
+   */
+  readonly transaction: ContextTransaction;
+}
+
+/**
+ * A snapshot of a script's evaluation, including the script itself, the
+ * position of evaluation within the script, and all state produced so far.
+ */
+export interface ProgramState {
+  /**
+   * The alternate stack (used by `OP_TOALTSTACK` and `OP_FROMALTSTACK`).
+   */
+  readonly alternateStack: ReadonlyArray<Uint8Array>;
+  /**
+   * The transaction context in which the script is being evaluated.
+   */
+  readonly context: TransactionContext;
+  /**
+   * If present, the reason for which evaluation has failed. Once an error has
+   * occurred, no further evaluation is performed.
+   */
+  readonly error?: ScriptError;
+  /**
+   * The execution condition stack: an entry is added by each `OP_IF` or
+   * `OP_NOTIF`, flipped by each `OP_ELSE`, and removed by each `OP_ENDIF`.
+   * Operations are only executed if every entry is `true`.
+   */
+  readonly executionStack: ReadonlyArray<boolean>;
+  /**
+   * The instructions of the script being evaluated.
+   */
+  readonly instructions: ParsedScript;
+  /**
+   * The instruction pointer: the index (in `instructions`) of the next
+   * instruction to be evaluated.
+   */
+  readonly ip: number;
+  /**
+   * The index (in `instructions`) of the most recently evaluated
+   * `OP_CODESEPARATOR`, or `-1` if none have been evaluated.
+   */
+  readonly lastCodeSeparator: number;
+  /**
+   * The number of operations counted toward `maximumOperationCount`.
+   */
+  readonly operationCount: number;
+  /**
+   * The stack.
+   */
+  readonly stack: ReadonlyArray<Uint8Array>;
+}
+
+/**
+ * Create the initial state for the evaluation of a script.
+ *
+ * @param instructions the instructions of the script to evaluate
+ * @param context the transaction context in which to evaluate the script
+ * @param stack the initial stack (default: `[]`)
+ */
+export const createProgramState = (
+  instructions: ParsedScript,
+  context: TransactionContext,
+  stack: ReadonlyArray<Uint8Array> = []
+): ProgramState => ({
+  alternateStack: [],
+  context,
+  executionStack: [],
+  instructions,
+  ip: 0,
+  lastCodeSeparator: -1,
+  operationCount: 0,
+  stack
+});
@@ -0,0 +1,394 @@
+// tslint:disable:no-expression-statement no-magic-numbers no-unsafe-any
+import test from 'ava';
+import {
+  instantiateRipemd160,
+  instantiateSecp256k1,
+  instantiateSha256
+} from '../crypto/crypto';
+import { binToHex, flattenBinArray, hexToBin } from '../utils';
+import { assembleScript, AssemblySuccess } from './asm';
+import { createInstructionSetBCH } from './instructionSets/instructionSets';
+import { pushNumberOperation } from './operations/operations';
+import { encodeDataPush } from './parse';
+import {
+  generateSigningSerializationBIP143,
+  SigningSerializationFlag
+} from './signingSerialization';
+import { createProgramState, ScriptError, TransactionContext } from './state';
+import { instantiateScriptVirtualMachine } from './vm';
+
+const vmPromise = instantiateScriptVirtualMachine();
+const secp256k1Promise = instantiateSecp256k1();
+const sha256Promise = instantiateSha256();
+const ripemd160Promise = instantiateRipemd160();
+
+const assemble = (asm: string) =>
+  (assembleScript(asm) as AssemblySuccess).bytecode;
+
+// prettier-ignore
+const privkey = new Uint8Array([0xf8, 0x5d, 0x4b, 0xd8, 0xa0, 0x3c, 0xa1, 0x06, 0xc9, 0xde, 0xb4, 0x7b, 0x79, 0x18, 0x03, 0xda, 0xc7, 0xf0, 0x33, 0x38, 0x09, 0xe3, 0xf1, 0xdd, 0x04, 0xd1, 0x82, 0xe0, 0xab, 0xa6, 0xe5, 0x53]);
+
+const pubkeyCompressed = hexToBin(
+  '0376ea9e36a75d2ecf9c93a0be76885e36f822529db22acfdc761c9b5b4544f5c5'
+);
+
+const p2pkhUnlockingBytecode = hexToBin(
+  '483045022100ab4c6d9ba51da83072615c33a9887b756478e6f9de381085f5183c97603fc6ff022029722188bd937f54c861582ca6fc685b8da2b40d05f06b368374d35e4af2b76401210376ea9e36a75d2ecf9c93a0be76885e36f822529db22acfdc761c9b5b4544f5c5'
+);
+const p2pkhLockingBytecode = hexToBin(
+  '76a91415d16c84669ab46059313bf0747e781f1d13936d88ac'
+);
+
+const context: TransactionContext = {
+  inputIndex: 0,
+  sourceSatoshis: BigInt(10000),
+  transaction: {
+    inputs: [
+      {
+        outpointIndex: 0,
+        outpointTransactionHash: hexToBin(
+          '0000000000000000000000000000000000000000000000000000000000000001'
+        ),
+        sequenceNumber: 0xfffffffe
+      }
+    ],
+    locktime: 500,
+    outputs: [
+      {
+        lockingBytecode: p2pkhLockingBytecode,
+        satoshis: BigInt(9000)
+      }
+    ],
+    version: 2
+  }
+};
+
+const signForContext = async (
+  coveredBytecode: Uint8Array,
+  transactionContext = context,
+  // tslint:disable-next-line:no-bitwise
+  signingSerializationType = SigningSerializationFlag.allOutputs |
+    SigningSerializationFlag.forkId
+) => {
+  const [secp256k1, sha256] = await Promise.all([
+    secp256k1Promise,
+    sha256Promise
+  ]);
+  const digest = sha256.hash(
+    sha256.hash(
+      generateSigningSerializationBIP143(
+        sha256,
+        transactionContext,
+        coveredBytecode,
+        signingSerializationType
+      )
+    )
+  );
+  return flattenBinArray([
+    secp256k1.signMessageHashDER(privkey, digest),
+    Uint8Array.of(signingSerializationType)
+  ]);
+};
+
+test('debug: step through the P2PKH example', async t => {
+  const vm = await vmPromise;
+  const states = vm.debug({
+    context,
+    lockingBytecode: p2pkhLockingBytecode,
+    unlockingBytecode: p2pkhUnlockingBytecode
+  });
+  t.deepEqual(
+    states.map(state => [state.ip, state.stack.length]),
+    [
+      [0, 0],
+      [1, 1],
+      [2, 2],
+      [0, 2],
+      [1, 3],
+      [2, 3],
+      [3, 4],
+      [4, 2],
+      [4, 0]
+    ]
+  );
+  const afterHash160 = states[5];
+  t.deepEqual(
+    binToHex(afterHash160.stack[2]),
+    '15d16c84669ab46059313bf0747e781f1d13936d'
+  );
+  t.deepEqual(afterHash160.operationCount, 2);
+  t.deepEqual(afterHash160.alternateStack, []);
+  t.deepEqual(afterHash160.executionStack, []);
+  t.deepEqual(
+    states[states.length - 1].error,
+    ScriptError.requiresForkId,
+    'the example signature does not use SIGHASH_FORKID'
+  );
+});
+
+test('verify: P2PKH', async t => {
+  const vm = await vmPromise;
+  const signature = await signForContext(p2pkhLockingBytecode);
+  const unlockingBytecode = flattenBinArray([
+    encodeDataPush(signature),
+    encodeDataPush(pubkeyCompressed)
+  ]);
+  t.true(
+    vm.verify({
+      context,
+      lockingBytecode: p2pkhLockingBytecode,
+      unlockingBytecode
+    })
+  );
+  t.deepEqual(
+    vm.verify({
+      context: { ...context, sourceSatoshis: BigInt(10001) },
+      lockingBytecode: p2pkhLockingBytecode,
+      unlockingBytecode
+    }),
+    ScriptError.nonNullSignatureFailure
+  );
+  t.deepEqual(
+    vm.verify({
+      context,
+      lockingBytecode: p2pkhLockingBytecode,
+      unlockingBytecode: flattenBinArray([
+        unlockingBytecode,
+        Uint8Array.of(0x76)
+      ])
+    }),
+    ScriptError.requiresPushOnly
+  );
+  t.deepEqual(
+    vm.verify({
+      context,
+      lockingBytecode: p2pkhLockingBytecode,
+      unlockingBytecode: flattenBinArray([
+        Uint8Array.of(0x51),
+        unlockingBytecode
+      ])
+    }),
+    ScriptError.requiresCleanStack
+  );
+});
+
+test('verify: P2SH multisig', async t => {
+  const [vm, sha256, ripemd160] = await Promise.all([
+    vmPromise,
+    sha256Promise,
+    ripemd160Promise
+  ]);
+  const redeemBytecode = assemble(
+    `OP_1 <0x${binToHex(pubkeyCompressed)}> <0x${binToHex(
+      pubkeyCompressed
+    )}> OP_2 OP_CHECKMULTISIG`
+  );
+  const lockingBytecode = assemble(
+    `OP_HASH160 <0x${binToHex(
+      ripemd160.hash(sha256.hash(redeemBytecode))
+    )}> OP_EQUAL`
+  );
+  const signature = await signForContext(redeemBytecode);
+  t.true(
+    vm.verify({
+      context,
+      lockingBytecode,
+      unlockingBytecode: assemble(
+        `OP_0 <0x${binToHex(signature)}> <0x${binToHex(redeemBytecode)}>`
+      )
+    })
+  );
+  t.deepEqual(
+    vm.verify({
+      context,
+      lockingBytecode,
+      unlockingBytecode: assemble(
+        `OP_1 <0x${binToHex(signature)}> <0x${binToHex(redeemBytecode)}>`
+      )
+    }),
+    ScriptError.invalidProtocolBugValue
+  );
+  t.deepEqual(
+    vm.verify({
+      context,
+      lockingBytecode,
+      unlockingBytecode: assemble(`OP_0 OP_0 <0x${binToHex(redeemBytecode)}>`)
+    }),
+    ScriptError.unsuccessfulEvaluation
+  );
+});
+
+const verifyLockingAsm = async (asm: string) =>
+  (await vmPromise).verify({
+    context,
+    lockingBytecode: assemble(asm),
+    unlockingBytecode: new Uint8Array(0)
+  });
+
+test('verify: operations', async t => {
+  const valid: ReadonlyArray<string> = [
+    'OP_1 OP_2 OP_ADD OP_3 OP_NUMEQUAL',
+    'OP_5 OP_2 OP_DIV OP_2 OP_EQUAL',
+    '<0x85> OP_2 OP_MOD OP_1NEGATE OP_EQUAL',
+    'OP_1 OP_2 OP_3 OP_WITHIN OP_NOT',
+    'OP_0 OP_IF OP_RETURN OP_ELSE OP_1 OP_ENDIF',
+    'OP_1 OP_NOTIF OP_RESERVED OP_UNKNOWN255 OP_ENDIF OP_1',
+    'OP_1 OP_2 OP_3 OP_ROT OP_DROP OP_DROP OP_2 OP_EQUAL',
+    'OP_1 OP_2 OP_3 OP_2 OP_PICK OP_TOALTSTACK OP_2DROP OP_DROP OP_FROMALTSTACK',
+    '<0xabcd> <0xef> OP_CAT OP_1 OP_SPLIT OP_SIZE OP_2 OP_EQUALVERIFY <0xcdef> OP_EQUALVERIFY <0xab> OP_EQUAL',
+    'OP_2 OP_4 OP_NUM2BIN <0x02000000> OP_EQUALVERIFY <0x0100000080> OP_BIN2NUM OP_1NEGATE OP_EQUAL',
+    '<0x1f> <0xf1> OP_XOR <0xee> OP_EQUAL',
+    '<0x> OP_SHA256 <0xe3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855> OP_EQUAL',
+    'OP_0 OP_0 OP_0 OP_CHECKMULTISIG OP_NOT OP_NOT',
+    '<0xf401> OP_CHECKLOCKTIMEVERIFY'
+  ];
+  const results = await Promise.all(valid.map(verifyLockingAsm));
+  results.forEach((result, index) => t.true(result, valid[index]));
+});
+
+test('verify: errors', async t => {
+  const invalid: ReadonlyArray<[string, ScriptError]> = [
+    ['OP_0', ScriptError.unsuccessfulEvaluation],
+    ['OP_1 OP_1', ScriptError.requiresCleanStack],
+    ['OP_ADD', ScriptError.emptyStack],
+    ['OP_1 OP_0 OP_DIV', ScriptError.divisionByZero],
+    ['OP_1 OP_RETURN', ScriptError.calledReturn],
+    ['OP_1 OP_0 OP_IF OP_MUL OP_ENDIF', ScriptError.disabledOpcode],
+    ['OP_1 OP_IF OP_RESERVED OP_ENDIF', ScriptError.calledReserved],
+    ['OP_1 OP_UNKNOWN200', ScriptError.unknownOpcode],
+    ['OP_1 OP_IF OP_1', ScriptError.unbalancedConditional],
+    ['OP_1 OP_ENDIF', ScriptError.unbalancedConditional],
+    ['OP_1 OP_VERIFY OP_0 OP_VERIFY', ScriptError.failedVerify],
+    ['OP_FROMALTSTACK', ScriptError.emptyAlternateStack],
+    ['<0x0000> OP_1ADD', ScriptError.invalidScriptNumber],
+    ['<0x0100000000> OP_1ADD', ScriptError.invalidScriptNumber],
+    ['OP_1 OP_PUSHBYTES_1 0x01', ScriptError.nonMinimalPush],
+    ['OP_1 OP_PUSHBYTES_2 0x01', ScriptError.malformedPush],
+    ['OP_1 OP_1 OP_PICK', ScriptError.invalidStackIndex],
+    ['<0xab> OP_2 OP_SPLIT', ScriptError.invalidSplitIndex],
+    ['<0x0102> OP_1 OP_NUM2BIN', ScriptError.impossibleEncoding],
+    ['<0xab> <0xabcd> OP_AND', ScriptError.mismatchedBitwiseOperandLength],
+    [`<0x${'00'.repeat(521)}>`, ScriptError.exceededMaximumStackItemLength],
+    [
+      `<0x${'00'.repeat(300)}> OP_DUP OP_CAT`,
+      ScriptError.exceededMaximumStackItemLength
+    ],
+    [
+      `OP_1 ${'OP_NOP '.repeat(202)}`,
+      ScriptError.exceededMaximumOperationCount
+    ],
+    ['OP_1 '.repeat(1001), ScriptError.exceededMaximumStackDepth],
+    [
+      `<0x${'00'.repeat(520)}> ${'OP_DUP OP_DROP '.repeat(4900)}`,
+      ScriptError.exceededMaximumScriptLength
+    ],
+    ['OP_0 <0x0202> OP_CHECKSIG', ScriptError.invalidPublicKeyEncoding],
+    [
+      `<0x3006020101020101> <0x${binToHex(pubkeyCompressed)}> OP_CHECKSIG`,
+      ScriptError.invalidSignatureEncoding
+    ],
+    [
+      `<0x300602010102010141> <0x${binToHex(pubkeyCompressed)}> OP_CHECKSIG`,
+      ScriptError.nonNullSignatureFailure
+    ],
+    [
+      `<0x300602010102010101> <0x${binToHex(pubkeyCompressed)}> OP_CHECKSIG`,
+      ScriptError.requiresForkId
+    ],
+    [
+      `<0x300602010102010144> <0x${binToHex(pubkeyCompressed)}> OP_CHECKSIG`,
+      ScriptError.invalidSignatureHashType
+    ],
+    [
+      'OP_0 OP_2 OP_0 OP_1 OP_CHECKMULTISIG',
+      ScriptError.invalidMultisigSignatureCount
+    ],
+    ['<0xf501> OP_CHECKLOCKTIMEVERIFY', ScriptError.unsatisfiedLocktime],
+    [
+      '<0x0065cd1d> OP_CHECKLOCKTIMEVERIFY',
+      ScriptError.incompatibleLocktimeType
+    ],
+    ['OP_1NEGATE OP_CHECKLOCKTIMEVERIFY', ScriptError.negativeLocktime],
+    ['OP_1 OP_CHECKSEQUENCEVERIFY', ScriptError.checkSequenceUnavailable]
+  ];
+  const results = await Promise.all(
+    invalid.map(([asm]) => verifyLockingAsm(asm))
+  );
+  results.forEach((result, index) =>
+    t.deepEqual(result, invalid[index][1], invalid[index][0])
+  );
+});
+
+test('verify: OP_CHECKDATASIG', async t => {
+  const [secp256k1, sha256] = await Promise.all([
+    secp256k1Promise,
+    sha256Promise
+  ]);
+  const message = hexToBin('abcdef');
+  const signature = secp256k1.signMessageHashDER(privkey, sha256.hash(message));
+  const lockingAsm = `<0x${binToHex(message)}> <0x${binToHex(
+    pubkeyCompressed
+  )}> OP_CHECKDATASIG`;
+  t.true(await verifyLockingAsm(`<0x${binToHex(signature)}> ${lockingAsm}`));
+  t.true(await verifyLockingAsm(`OP_0 ${lockingAsm} OP_NOT`));
+  t.deepEqual(
+    await verifyLockingAsm(
+      `<0x${binToHex(signature)}> <0x> <0x${binToHex(
+        pubkeyCompressed
+      )}> OP_CHECKDATASIG`
+    ),
+    ScriptError.nonNullSignatureFailure
+  );
+});
+
+test('step and evaluateScript', async t => {
+  const vm = await vmPromise;
+  const initial = createProgramState(
+    [{ opcode: 0x51 }, { opcode: 0x76 }, { opcode: 0x93 }],
+    context
+  );
+  const afterStep = vm.step(initial);
+  t.deepEqual(afterStep.ip, 1);
+  t.deepEqual(afterStep.stack, [hexToBin('01')]);
+  const final = vm.evaluateScript(initial);
+  t.deepEqual(final.ip, 3);
+  t.deepEqual(final.stack, [hexToBin('02')]);
+  t.deepEqual(final.operationCount, 2);
+  t.deepEqual(vm.debugScript(initial)[3], final);
+  t.deepEqual(
+    vm.evaluate({
+      context,
+      lockingBytecode: assemble('OP_2 OP_EQUAL'),
+      unlockingBytecode: assemble('OP_2')
+    }).stack,
+    [hexToBin('01')]
+  );
+});
+
+test('custom instruction set', async t => {
+  const vm = await instantiateScriptVirtualMachine(dependencies => {
+    const instructionSet = createInstructionSetBCH(dependencies);
+    return {
+      ...instructionSet,
+      operations: {
+        ...instructionSet.operations,
+        [0xc0]: pushNumberOperation(42)
+      }
+    };
+  });
+  t.true(
+    vm.verify({
+      context,
+      lockingBytecode: assemble('OP_UNKNOWN192 <0x2a> OP_EQUAL'),
+      unlockingBytecode: new Uint8Array(0)
+    })
+  );
+  t.deepEqual(
+    vm.verify({
+      context,
+      lockingBytecode: assemble('OP_UNKNOWN193'),
+      unlockingBytecode: new Uint8Array(0)
+    }),
+    ScriptError.unknownOpcode
+  );
+});
@@ -0,0 +1,231 @@
+import {
+  instantiateRipemd160,
+  instantiateSecp256k1,
+  instantiateSha1,
+  instantiateSha256
+} from '../crypto/crypto';
+import {
+  createInstructionSetBCH,
+  InstructionSet,
+  last,
+  ScriptEvaluator,
+  ScriptProgram
+} from './instructionSets/instructionSets';
+import { Opcodes } from './opcodes';
+import {
+  applyError,
+  isExecuting,
+  OperationDependencies
+} from './operations/operations';
+import { isScriptInstructionMalformed, ParsedScriptInstruction } from './parse';
+import {
+  maximumOperationCount,
+  maximumStackDepth,
+  maximumStackItemLength,
+  ProgramState,
+  ScriptError
+} from './state';
+
+const isConditionalOpcode = (opcode: number) =>
+  opcode >= Opcodes.OP_IF && opcode <= Opcodes.OP_ENDIF;
+
+const exceedsMaximumPushLength = (instruction: ParsedScriptInstruction) =>
+  'data' in instruction && instruction.data.length > maximumStackItemLength;
+
+const validateInstruction = (
+  instructionSet: InstructionSet,
+  state: ProgramState,
+  instruction: ParsedScriptInstruction
+) =>
+  isScriptInstructionMalformed(instruction)
+    ? applyError(state, ScriptError.malformedPush)
+    : exceedsMaximumPushLength(instruction)
+    ? applyError(state, ScriptError.exceededMaximumStackItemLength)
+    : state.operationCount > maximumOperationCount
+    ? applyError(state, ScriptError.exceededMaximumOperationCount)
+    : instructionSet.validate(state, instruction);
+
+const countOperation = (state: ProgramState, opcode: number) =>
+  opcode > Opcodes.OP_16
+    ? { ...state, operationCount: state.operationCount + 1 }
+    : state;
+
+const advance = (state: ProgramState): ProgramState =>
+  state.error !== undefined
+    ? state
+    : state.stack.length + state.alternateStack.length > maximumStackDepth
+    ? applyError(state, ScriptError.exceededMaximumStackDepth)
+    : { ...state, ip: state.ip + 1 };
+
+const getOperation = (instructionSet: InstructionSet, opcode: number) => {
+  const operation = instructionSet.operations[opcode];
+  return operation === undefined ? instructionSet.undefined : operation;
+};
+
+const createStep = (instructionSet: InstructionSet) => (
+  state: ProgramState
+) => {
+  const instruction = state.instructions[state.ip];
+  const validated = validateInstruction(
+    instructionSet,
+    countOperation(state, instruction.opcode),
+    instruction
+  );
+  return advance(
+    validated.error === undefined &&
+      (isExecuting(validated) || isConditionalOpcode(instruction.opcode))
+      ? getOperation(instructionSet, instruction.opcode)(validated)
+      : validated
+  );
+};
+
+const isScriptComplete = (state: ProgramState) =>
+  state.error !== undefined || state.ip >= state.instructions.length;
+
+const completeScript = (state: ProgramState) =>
+  state.error === undefined && state.executionStack.length !== 0
+    ? applyError(state, ScriptError.unbalancedConditional)
+    : state;
+
+const createDebugScript = (step: (state: ProgramState) => ProgramState) => (
+  state: ProgramState
+): ReadonlyArray<ProgramState> => {
+  // tslint:disable-next-line:readonly-array
+  const states = [state];
+  // tslint:disable:no-let no-expression-statement
+  let current = state;
+  while (!isScriptComplete(current)) {
+    current = step(current);
+    states.push(current);
+  }
+  // tslint:enable:no-let no-expression-statement
+  return [...states.slice(0, -1), completeScript(current)];
+};
+
+const createEvaluateScript = (step: (state: ProgramState) => ProgramState) => (
+  state: ProgramState
+) => {
+  // tslint:disable:no-let no-expression-statement
+  let current = state;
+  while (!isScriptComplete(current)) {
+    current = step(current);
+  }
+  // tslint:enable:no-let no-expression-statement
+  return completeScript(current);
+};
+
+/**
+ * A script virtual machine, providing methods to evaluate scripts and inspect
+ * each intermediate state of their evaluation.
+ */
+export interface ScriptVirtualMachine {
+  /**
+   * Evaluate a program, returning every intermediate program state: the
+   * initial state and the result of each step of the unlocking bytecode,
+   * locking bytecode, and (for P2SH outputs) redeem bytecode. The final state
+   * is the result of the program (see `verify`).
+   *
+   * @param program the program to debug
+   */
+  readonly debug: (program: ScriptProgram) => ReadonlyArray<ProgramState>;
+
+  /**
+   * Evaluate a single script from `state` until it completes or fails,
+   * returning every intermediate program state (beginning with `state`).
+   *
+   * @param state the initial program state, e.g. from `createProgramState`
+   */
+  readonly debugScript: (state: ProgramState) => ReadonlyArray<ProgramState>;
+
+  /**
+   * Evaluate a program, returning its final program state. If the program
+   * failed, the state includes an `error`.
+   *
+   * @param program the program to evaluate
+   */
+  readonly evaluate: (program: ScriptProgram) => ProgramState;
+
+  /**
+   * Evaluate a single script from `state` until it completes or fails,
+   * returning the final program state.
+   *
+   * @param state the initial program state, e.g. from `createProgramState`
+   */
+  readonly evaluateScript: (state: ProgramState) => ProgramState;
+
+  /**
+   * Evaluate the instruction at `state.ip`, returning the next program state.
+   * If the instruction fails, the returned state includes an `error` and the
+   * instruction pointer is not advanced.
+   *
+   * @param state the program state (which must not be complete)
+   */
+  readonly step: (state: ProgramState) => ProgramState;
+
+  /**
+   * Verify a program, returning `true` if it is valid, or the `ScriptError`
+   * which caused it to fail.
+   *
+   * @param program the program to verify
+   */
+  readonly verify: (program: ScriptProgram) => true | ScriptError;
+}
+
+/**
+ * Create a script virtual machine which evaluates scripts using the rules of
+ * `instructionSet` (e.g. `createInstructionSetBCH` or
+ * `createInstructionSetBTC`).
+ *
+ * @param instructionSet the instruction set of the virtual machine
+ */
+export const createScriptVirtualMachine = (
+  instructionSet: InstructionSet
+): ScriptVirtualMachine => {
+  const step = createStep(instructionSet);
+  const debugScript = createDebugScript(step);
+  const evaluateScript = createEvaluateScript(step);
+  const debugWith: ScriptEvaluator = (state, set = instructionSet) =>
+    createDebugScript(createStep(set))(state);
+  const evaluateWith: ScriptEvaluator = (state, set = instructionSet) => [
+    createEvaluateScript(createStep(set))(state)
+  ];
+  const debug = (program: ScriptProgram) =>
+    instructionSet.evaluate(program, debugWith);
+  const evaluate = (program: ScriptProgram) =>
+    last(instructionSet.evaluate(program, evaluateWith));
+  return {
+    debug,
+    debugScript,
+    evaluate,
+    evaluateScript,
+    step,
+    verify: program => {
+      const { error } = evaluate(program);
+      return error === undefined ? true : error;
+    }
+  };
+};
+
+/**
+ * Create a script virtual machine using the WebAssembly implementations of
+ * ripemd160, secp256k1, sha1, and sha256. See `createScriptVirtualMachine`
+ * for details.
+ *
+ * @param createInstructionSet the function with which to create the
+ * instruction set (default: `createInstructionSetBCH`)
+ */
+export const instantiateScriptVirtualMachine = async (
+  createInstructionSet: (
+    dependencies: OperationDependencies
+  ) => InstructionSet = createInstructionSetBCH
+) => {
+  const [ripemd160, secp256k1, sha1, sha256] = await Promise.all([
+    instantiateRipemd160(),
+    instantiateSecp256k1(),
+    instantiateSha1(),
+    instantiateSha256()
+  ]);
+  return createScriptVirtualMachine(
+    createInstructionSet({ ripemd160, secp256k1, sha1, sha256 })
+  );
+};
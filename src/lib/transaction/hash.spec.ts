@@ -0,0 +1,65 @@
+// tslint:disable:no-expression-statement no-magic-numbers no-unsafe-any
+import test from 'ava';
+import { instantiateSha256 } from '../crypto/crypto';
+import { binToHex, hexToBin } from '../utils';
+import {
+  getTransactionHash,
+  getTransactionId,
+  getWitnessTransactionHash,
+  getWitnessTransactionId
+} from './hash';
+import { decodeTransaction, Transaction } from './serialization';
+
+const sha256Promise = instantiateSha256();
+
+const genesisCoinbase = decodeTransaction(
+  hexToBin(
+    '01000000010000000000000000000000000000000000000000000000000000000000000000ffffffff4d04ffff001d0104455468652054696d65732030332f4a616e2f32303039204368616e63656c6c6f72206f6e206272696e6b206f66207365636f6e64206261696c6f757420666f722062616e6b73ffffffff0100f2052a01000000434104678afdb0fe5548271967f1a67130b7105cd6a828e03909a67962e0ea1f61deb649f6bc3f4cef38c4f35504e51ec112de5c384df7ba0b8d578a4c702b6bf11d5fac00000000'
+  )
+) as Transaction;
+
+const segwitTransaction = decodeTransaction(
+  hexToBin(
+    '01000000000101b14bdcbc3e01bdaad36cc08e81e69c82e1060bc14e518db2b49aa43ad90ba2600000000000ffffffff0140420f00000000001976a914660d4ef3a743e3e696ad990364e555c271ad504b88ac0201ab02cdef00000000'
+  )
+) as Transaction;
+
+test('getTransactionHash', async t => {
+  const sha256 = await sha256Promise;
+  t.deepEqual(
+    binToHex(getTransactionHash(sha256, genesisCoinbase)),
+    '3ba3edfd7a7b12b27ac72c3e67768f617fc81bc3888a51323a9fb8aa4b1e5e4a'
+  );
+});
+
+test('getTransactionId', async t => {
+  const sha256 = await sha256Promise;
+  t.deepEqual(
+    getTransactionId(sha256, genesisCoinbase),
+    '4a5e1e4baab89f3a32518a88c31bc87f618f76673e2cc77ab2127b7afdeda33b'
+  );
+  t.deepEqual(
+    getTransactionId(sha256, segwitTransaction),
+    '0decd454b1a75e258981df46cc5ce11731a2212f3e3cdf2832d3224c226896cc'
+  );
+});
+
+test('getWitnessTransactionHash', async t => {
+  const sha256 = await sha256Promise;
+  t.deepEqual(
+    getWitnessTransactionHash(sha256, genesisCoinbase),
+    getTransactionHash(sha256, genesisCoinbase)
+  );
+  t.deepEqual(
+    binToHex(getWitnessTransactionHash(sha256, segwitTransaction)),
+    '38beaac0a668a6a9c03c74706423b16c04042b7b05458c121cb43227e0458338'
+  );
+});
+
+test('getWitnessTransactionId', async t => {
+  const sha256 = await sha256Promise;
+  t.deepEqual(
+    getWitnessTransactionId(sha256, segwitTransaction),
+    '388345e02732b41c128c45057b2b04046cb1236470743cc0a9a668a6c0aabe38'
+  );
+});
@@ -0,0 +1,58 @@
+import { hash256, Sha256 } from '../crypto/crypto';
+import { binToHex } from '../utils';
+import {
+  encodeTransaction,
+  encodeTransactionWithoutWitness,
+  Transaction
+} from './serialization';
+
+const toDisplayOrder = (hash: Uint8Array) => binToHex(hash.slice().reverse());
+
+/**
+ * Compute the hash of a transaction: the double-sha256 hash of its encoding
+ * without witness data. The result is in the byte order used by transaction
+ * serialization (e.g. in `Input.outpointTransactionHash`), the reverse of the
+ * order displayed by block explorers (see `getTransactionId`).
+ *
+ * @param sha256 an implementation of sha256
+ * @param transaction the transaction to hash
+ */
+export const getTransactionHash = (sha256: Sha256, transaction: Transaction) =>
+  hash256(sha256, encodeTransactionWithoutWitness(transaction));
+
+/**
+ * Compute the ID of a transaction (a.k.a. "TXID"): the transaction hash as a
+ * hex string in the byte order displayed by block explorers and used in
+ * RPC/REST APIs.
+ *
+ * @param sha256 an implementation of sha256
+ * @param transaction the transaction to identify
+ */
+export const getTransactionId = (sha256: Sha256, transaction: Transaction) =>
+  toDisplayOrder(getTransactionHash(sha256, transaction));
+
+/**
+ * Compute the witness hash of a transaction: the double-sha256 hash of its
+ * full encoding, including witness data (as defined by BIP141). For
+ * transactions without witness data, this is equal to the transaction hash.
+ *
+ * @param sha256 an implementation of sha256
+ * @param transaction the transaction to hash
+ */
+export const getWitnessTransactionHash = (
+  sha256: Sha256,
+  transaction: Transaction
+) => hash256(sha256, encodeTransaction(transaction));
+
+/**
+ * Compute the witness ID of a transaction (a.k.a. "WTXID"): the witness
+ * transaction hash as a hex string in the byte order displayed by block
+ * explorers.
+ *
+ * @param sha256 an implementation of sha256
+ * @param transaction the transaction to identify
+ */
+export const getWitnessTransactionId = (
+  sha256: Sha256,
+  transaction: Transaction
+) => toDisplayOrder(getWitnessTransactionHash(sha256, transaction));
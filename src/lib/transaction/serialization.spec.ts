@@ -0,0 +1,200 @@
+// tslint:disable:no-expression-statement no-magic-numbers no-unsafe-any
+import test from 'ava';
+import * as fc from 'fast-check';
+import { binToHex, hexToBin } from '../utils';
+import {
+  decodeTransaction,
+  encodeInput,
+  encodeOutput,
+  encodeTransaction,
+  encodeTransactionWithoutWitness,
+  encodeWitness,
+  hasWitness,
+  Transaction,
+  TransactionDecodingError
+} from './serialization';
+
+// from Bitcoin Core's tx_valid.json
+const encoded =
+  '0100000001b14bdcbc3e01bdaad36cc08e81e69c82e1060bc14e518db2b49aa43ad90ba26000000000490047304402203f16c6f40162ab686621ef3000b04e75418a0c0cb2d8aebeac894ae360ac1e780220ddc15ecdfc3507ac48e1681a33eb60996631bf6bf5bc0a0682c4db743ce7ca2b01ffffffff0140420f00000000001976a914660d4ef3a743e3e696ad990364e555c271ad504b88ac00000000';
+
+const decoded: Transaction = {
+  inputs: [
+    {
+      outpointIndex: 0,
+      outpointTransactionHash: hexToBin(
+        'b14bdcbc3e01bdaad36cc08e81e69c82e1060bc14e518db2b49aa43ad90ba260'
+      ),
+      sequenceNumber: 0xffffffff,
+      unlockingBytecode: hexToBin(
+        '0047304402203f16c6f40162ab686621ef3000b04e75418a0c0cb2d8aebeac894ae360ac1e780220ddc15ecdfc3507ac48e1681a33eb60996631bf6bf5bc0a0682c4db743ce7ca2b01'
+      )
+    }
+  ],
+  locktime: 0,
+  outputs: [
+    {
+      lockingBytecode: hexToBin(
+        '76a914660d4ef3a743e3e696ad990364e555c271ad504b88ac'
+      ),
+      satoshis: BigInt(1000000)
+    }
+  ],
+  version: 1
+};
+
+const encodedSegwit =
+  '01000000000101b14bdcbc3e01bdaad36cc08e81e69c82e1060bc14e518db2b49aa43ad90ba2600000000000ffffffff0140420f00000000001976a914660d4ef3a743e3e696ad990364e555c271ad504b88ac0201ab02cdef00000000';
+
+const decodedSegwit: Transaction = {
+  ...decoded,
+  inputs: [
+    {
+      ...decoded.inputs[0],
+      unlockingBytecode: new Uint8Array(0),
+      witness: [hexToBin('ab'), hexToBin('cdef')]
+    }
+  ]
+};
+
+test('decodeTransaction', t => {
+  t.deepEqual(decodeTransaction(hexToBin(encoded)), decoded);
+});
+
+test('encodeTransaction', t => {
+  t.deepEqual(binToHex(encodeTransaction(decoded)), encoded);
+});
+
+test('decodeTransaction: segwit', t => {
+  t.deepEqual(decodeTransaction(hexToBin(encodedSegwit)), decodedSegwit);
+});
+
+test('encodeTransaction: segwit', t => {
+  t.deepEqual(binToHex(encodeTransaction(decodedSegwit)), encodedSegwit);
+  t.deepEqual(
+    binToHex(encodeTransactionWithoutWitness(decodedSegwit)),
+    '0100000001b14bdcbc3e01bdaad36cc08e81e69c82e1060bc14e518db2b49aa43ad90ba2600000000000ffffffff0140420f00000000001976a914660d4ef3a743e3e696ad990364e555c271ad504b88ac00000000'
+  );
+  t.deepEqual(
+    encodeTransaction({
+      ...decoded,
+      inputs: [{ ...decoded.inputs[0], witness: [] }]
+    }),
+    hexToBin(encoded)
+  );
+});
+
+test('encodeWitness', t => {
+  t.deepEqual(
+    binToHex(encodeWitness([hexToBin('ab'), new Uint8Array(0)])),
+    '0201ab00'
+  );
+});
+
+test('hasWitness', t => {
+  t.false(hasWitness(decoded));
+  t.true(hasWitness(decodedSegwit));
+});
+
+test('encodeInput', t => {
+  t.deepEqual(binToHex(encodeInput(decoded.inputs[0])), encoded.slice(10, 238));
+});
+
+test('encodeOutput', t => {
+  t.deepEqual(
+    binToHex(encodeOutput(decoded.outputs[0])),
+    '40420f00000000001976a914660d4ef3a743e3e696ad990364e555c271ad504b88ac'
+  );
+});
+
+test('decodeTransaction: errors', t => {
+  t.deepEqual(
+    decodeTransaction(new Uint8Array(0)),
+    TransactionDecodingError.truncated
+  );
+  t.deepEqual(
+    decodeTransaction(hexToBin(encoded.slice(0, -2))),
+    TransactionDecodingError.truncated
+  );
+  t.deepEqual(
+    decodeTransaction(hexToBin(encoded.slice(0, 100))),
+    TransactionDecodingError.truncated
+  );
+  t.deepEqual(
+    decodeTransaction(hexToBin(`${encoded}00`)),
+    TransactionDecodingError.unexpectedData
+  );
+  t.deepEqual(
+    decodeTransaction(hexToBin('01000000fd0100')),
+    TransactionDecodingError.nonMinimalCompactSize
+  );
+  t.deepEqual(
+    decodeTransaction(hexToBin('01000000fe01000002')),
+    TransactionDecodingError.oversizedCompactSize
+  );
+  t.deepEqual(
+    decodeTransaction(hexToBin('01000000fffdffffffffffffff')),
+    TransactionDecodingError.oversizedCompactSize
+  );
+  t.deepEqual(
+    decodeTransaction(hexToBin('01000000fd')),
+    TransactionDecodingError.truncated
+  );
+  t.deepEqual(
+    decodeTransaction(
+      hexToBin(encodedSegwit.replace('0000000101', '0000000201'))
+    ),
+    TransactionDecodingError.unknownSegwitFlag
+  );
+  t.deepEqual(
+    decodeTransaction(hexToBin(encodedSegwit.replace('0201ab02cdef', '00'))),
+    TransactionDecodingError.superfluousWitness
+  );
+  t.deepEqual(
+    decodeTransaction(
+      hexToBin(encodedSegwit.replace('0201ab02cdef', '0201ab'))
+    ),
+    TransactionDecodingError.truncated
+  );
+});
+
+const maxUint32 = 0xffffffff;
+
+const arbitraryBin = (maximumLength: number) =>
+  fc
+    .array(fc.integer(0, 255), 0, maximumLength)
+    .map(bytes => Uint8Array.from(bytes));
+
+const arbitraryTransaction = fc
+  .record({
+    inputs: fc.array(
+      fc.record({
+        outpointIndex: fc.integer(0, maxUint32),
+        outpointTransactionHash: fc
+          .array(fc.integer(0, 255), 32, 32)
+          .map(bytes => Uint8Array.from(bytes)),
+        sequenceNumber: fc.integer(0, maxUint32),
+        unlockingBytecode: arbitraryBin(300)
+      }),
+      1,
+      5
+    ),
+    locktime: fc.integer(0, maxUint32),
+    outputs: fc.array(
+      fc.record({
+        lockingBytecode: arbitraryBin(300),
+        satoshis: fc.bigUintN(64)
+      }),
+      0,
+      5
+    ),
+    version: fc.integer(0, maxUint32)
+  })
+  .map(transaction => transaction as Transaction);
+
+test('encodeTransaction <-> decodeTransaction', t => {
+  const inverse = fc.property(arbitraryTransaction, transaction =>
+    t.deepEqual(decodeTransaction(encodeTransaction(transaction)), transaction)
+  );
+  t.notThrows(() => fc.assert(inverse));
+});
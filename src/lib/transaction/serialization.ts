@@ -0,0 +1,417 @@
+import {
+  bigIntToBinUint64LE,
+  binToBigIntUint64LE,
+  binToNumberUintLE,
+  CompactSizeDecodingError,
+  flattenBinArray,
+  numberToBinCompactSize,
+  numberToBinUint32LE,
+  readCompactSize
+} from '../utils';
+
+/**
+ * An input of a transaction: a reference to the output being spent (the
+ * "outpoint"), the unlocking bytecode which satisfies its locking bytecode,
+ * and a sequence number.
+ */
+export interface Input {
+  /**
+   * The index of the output being spent within the previous transaction.
+   */
+  readonly outpointIndex: number;
+  /**
+   * The hash of the transaction containing the output being spent, in the
+   * byte order used by the transaction serialization (the reverse of the
+   * order typically displayed by block explorers).
+   */
+  readonly outpointTransactionHash: Uint8Array;
+  /**
+   * The sequence number of this input.
+   */
+  readonly sequenceNumber: number;
+  /**
+   * The unlocking bytecode of this input (a.k.a. "scriptSig").
+   */
+  readonly unlockingBytecode: Uint8Array;
+  /**
+   * The witness of this input: the stack items provided to a segwit program.
+   * If no input of a transaction has a non-empty witness, the transaction is
+   * encoded without witness data.
+   */
+  readonly witness?: ReadonlyArray<Uint8Array>;
+}
+
+/**
+ * An output of a transaction: a value and the locking bytecode which must be
+ * satisfied to spend it.
+ */
+export interface Output {
+  /**
+   * The locking bytecode of this output (a.k.a. "scriptPubKey").
+   */
+  readonly lockingBytecode: Uint8Array;
+  /**
+   * The value of this output in satoshis. (A `bigint`, since values can
+   * exceed `Number.MAX_SAFE_INTEGER`.)
+   */
+  readonly satoshis: bigint;
+}
+
+/**
+ * A transaction.
+ */
+export interface Transaction {
+  /**
+   * The inputs of this transaction.
+   */
+  readonly inputs: ReadonlyArray<Input>;
+  /**
+   * The locktime of this transaction: the block height or (if at least
+   * `500000000`) the UNIX timestamp before which this transaction is invalid.
+   */
+  readonly locktime: number;
+  /**
+   * The outputs of this transaction.
+   */
+  readonly outputs: ReadonlyArray<Output>;
+  /**
+   * The version of this transaction.
+   */
+  readonly version: number;
+}
+
+/**
+ * The reasons for which decoding a transaction may fail.
+ */
+export enum TransactionDecodingError {
+  nonMinimalCompactSize = 'Transaction encoding contains a CompactSize which is not minimally encoded.',
+  oversizedCompactSize = 'Transaction encoding contains a CompactSize which exceeds the maximum allowed value (0x02000000).',
+  superfluousWitness = 'Transaction encoding uses the segwit format, but no input has a witness.',
+  truncated = 'Transaction encoding ended before all fields could be read.',
+  unexpectedData = 'Transaction encoding contains unexpected data after the locktime.',
+  unknownSegwitFlag = 'Transaction encoding uses the segwit format with an unknown flag (only 0x01 is defined).'
+}
+
+/**
+ * The largest CompactSize allowed when decoding a transaction (the
+ * `MAX_SIZE` of the original implementation).
+ */
+export const maximumCompactSize = 0x02000000;
+
+const transactionHashLength = 32;
+
+/**
+ * Encode a single transaction input.
+ *
+ * @param input the input to encode
+ */
+export const encodeInput = (input: Input) =>
+  flattenBinArray([
+    input.outpointTransactionHash,
+    numberToBinUint32LE(input.outpointIndex),
+    numberToBinCompactSize(input.unlockingBytecode.length),
+    input.unlockingBytecode,
+    numberToBinUint32LE(input.sequenceNumber)
+  ]);
+
+/**
+ * Encode a single transaction output.
+ *
+ * @param output the output to encode
+ */
+export const encodeOutput = (output: Output) =>
+  flattenBinArray([
+    bigIntToBinUint64LE(output.satoshis),
+    numberToBinCompactSize(output.lockingBytecode.length),
+    output.lockingBytecode
+  ]);
+
+const encodeInputsAndOutputs = (transaction: Transaction) =>
+  flattenBinArray([
+    numberToBinCompactSize(transaction.inputs.length),
+    ...transaction.inputs.map(encodeInput),
+    numberToBinCompactSize(transaction.outputs.length),
+    ...transaction.outputs.map(encodeOutput)
+  ]);
+
+/**
+ * Encode a single witness: the number of stack items, followed by each
+ * length-prefixed item.
+ *
+ * @param witness the witness to encode
+ */
+export const encodeWitness = (witness: ReadonlyArray<Uint8Array>) =>
+  flattenBinArray([
+    numberToBinCompactSize(witness.length),
+    ...witness.map(item =>
+      flattenBinArray([numberToBinCompactSize(item.length), item])
+    )
+  ]);
+
+const getWitness = (input: Input) =>
+  input.witness === undefined ? [] : input.witness;
+
+/**
+ * Returns true if any input of `transaction` has a non-empty witness.
+ *
+ * @param transaction the transaction to check
+ */
+export const hasWitness = (transaction: Pick<Transaction, 'inputs'>) =>
+  transaction.inputs.some(input => getWitness(input).length !== 0);
+
+/**
+ * Encode a transaction using the standard P2P network serialization, but
+ * without any witness data. This is the encoding from which the transaction
+ * hash (and transaction ID) is computed.
+ *
+ * @param transaction the transaction to encode
+ */
+export const encodeTransactionWithoutWitness = (transaction: Transaction) =>
+  flattenBinArray([
+    numberToBinUint32LE(transaction.version),
+    encodeInputsAndOutputs(transaction),
+    numberToBinUint32LE(transaction.locktime)
+  ]);
+
+const segwitMarker = 0x00;
+const segwitFlag = 0x01;
+
+/**
+ * Encode a transaction using the standard P2P network serialization. If any
+ * input has a non-empty witness, the segwit serialization (defined by BIP144)
+ * is used.
+ *
+ * @param transaction the transaction to encode
+ */
+export const encodeTransaction = (transaction: Transaction) =>
+  hasWitness(transaction)
+    ? flattenBinArray([
+        numberToBinUint32LE(transaction.version),
+        Uint8Array.of(segwitMarker, segwitFlag),
+        encodeInputsAndOutputs(transaction),
+        ...transaction.inputs.map(input => encodeWitness(getWitness(input))),
+        numberToBinUint32LE(transaction.locktime)
+      ])
+    : encodeTransactionWithoutWitness(transaction);
+
+/**
+ * The result of successfully reading a value from a transaction encoding.
+ */
+interface ReadResult<T> {
+  /**
+   * The index of the byte following the value which was read.
+   */
+  readonly nextIndex: number;
+  /**
+   * The value which was read.
+   */
+  readonly value: T;
+}
+
+type Reader<T> = (
+  bin: Uint8Array,
+  index: number
+) => ReadResult<T> | TransactionDecodingError;
+
+const isError = <T>(
+  result: ReadResult<T> | TransactionDecodingError
+): result is TransactionDecodingError => typeof result === 'string';
+
+/**
+ * If `result` is successful, continue reading with `next`.
+ */
+const andThen = <T, U>(
+  result: ReadResult<T> | TransactionDecodingError,
+  next: (result: ReadResult<T>) => ReadResult<U> | TransactionDecodingError
+) => (isError(result) ? result : next(result));
+
+const readBytes = (length: number): Reader<Uint8Array> => (bin, index) =>
+  index + length > bin.length
+    ? TransactionDecodingError.truncated
+    : { nextIndex: index + length, value: bin.slice(index, index + length) };
+
+const readUintLE = (bytes: number): Reader<number> => (bin, index) =>
+  andThen(readBytes(bytes)(bin, index), ({ nextIndex, value }) => ({
+    nextIndex,
+    value: binToNumberUintLE(value)
+  }));
+
+// tslint:disable:no-magic-numbers
+const readUint32LE = readUintLE(4);
+
+const readUint64LE: Reader<bigint> = (bin, index) =>
+  andThen(readBytes(8)(bin, index), ({ nextIndex, value }) => ({
+    nextIndex,
+    value: binToBigIntUint64LE(value)
+  }));
+// tslint:enable:no-magic-numbers
+
+const readTransactionCompactSize: Reader<number> = (bin, index) => {
+  const result = readCompactSize(bin, index);
+  return result === CompactSizeDecodingError.insufficientBytes
+    ? TransactionDecodingError.truncated
+    : result === CompactSizeDecodingError.nonMinimal
+    ? TransactionDecodingError.nonMinimalCompactSize
+    : result.value > maximumCompactSize
+    ? TransactionDecodingError.oversizedCompactSize
+    : result;
+};
+
+const readVariableLengthBytes: Reader<Uint8Array> = (bin, index) =>
+  andThen(readTransactionCompactSize(bin, index), length =>
+    readBytes(length.value)(bin, length.nextIndex)
+  );
+
+const readItems = <T>(
+  read: Reader<T>,
+  count: number
+): Reader<ReadonlyArray<T>> => (bin, index) => {
+  // tslint:disable-next-line:readonly-array
+  const items: T[] = [];
+  // tslint:disable:no-let no-expression-statement no-if-statement
+  let nextIndex = index;
+  while (items.length < count) {
+    const result = read(bin, nextIndex);
+    if (isError(result)) {
+      return result;
+    }
+    items.push(result.value);
+    nextIndex = result.nextIndex;
+  }
+  // tslint:enable:no-let no-expression-statement no-if-statement
+  return { nextIndex, value: items };
+};
+
+const readList = <T>(read: Reader<T>): Reader<ReadonlyArray<T>> => (
+  bin,
+  index
+) =>
+  andThen(readTransactionCompactSize(bin, index), count =>
+    readItems(read, count.value)(bin, count.nextIndex)
+  );
+
+const readWitness = readList(readVariableLengthBytes);
+
+const readInput: Reader<Input> = (bin, index) =>
+  andThen(readBytes(transactionHashLength)(bin, index), hash =>
+    andThen(readUint32LE(bin, hash.nextIndex), outpointIndex =>
+      andThen(
+        readVariableLengthBytes(bin, outpointIndex.nextIndex),
+        unlockingBytecode =>
+          andThen(
+            readUint32LE(bin, unlockingBytecode.nextIndex),
+            sequenceNumber => ({
+              nextIndex: sequenceNumber.nextIndex,
+              value: {
+                outpointIndex: outpointIndex.value,
+                outpointTransactionHash: hash.value,
+                sequenceNumber: sequenceNumber.value,
+                unlockingBytecode: unlockingBytecode.value
+              }
+            })
+          )
+      )
+    )
+  );
+
+const readOutput: Reader<Output> = (bin, index) =>
+  andThen(readUint64LE(bin, index), satoshis =>
+    andThen(
+      readVariableLengthBytes(bin, satoshis.nextIndex),
+      lockingBytecode => ({
+        nextIndex: lockingBytecode.nextIndex,
+        value: {
+          lockingBytecode: lockingBytecode.value,
+          satoshis: satoshis.value
+        }
+      })
+    )
+  );
+
+type TransactionBody = Pick<Transaction, 'inputs' | 'outputs'>;
+
+const readInputsAndOutputs: Reader<TransactionBody> = (bin, index) =>
+  andThen(readList(readInput)(bin, index), inputs =>
+    andThen(readList(readOutput)(bin, inputs.nextIndex), outputs => ({
+      nextIndex: outputs.nextIndex,
+      value: { inputs: inputs.value, outputs: outputs.value }
+    }))
+  );
+
+const readWitnesses = (
+  transaction: ReadResult<TransactionBody>
+): Reader<TransactionBody> => (bin, index) =>
+  andThen(
+    readItems(readWitness, transaction.value.inputs.length)(bin, index),
+    witnesses => {
+      const withWitnesses = {
+        ...transaction.value,
+        inputs: transaction.value.inputs.map((input, inputIndex) => ({
+          ...input,
+          witness: witnesses.value[inputIndex]
+        }))
+      };
+      return hasWitness(withWitnesses)
+        ? { nextIndex: witnesses.nextIndex, value: withWitnesses }
+        : TransactionDecodingError.superfluousWitness;
+    }
+  );
+
+/**
+ * Read the inputs, outputs, and witnesses of a segwit transaction, beginning
+ * at the segwit marker.
+ */
+const readSegwitInputsAndOutputs: Reader<TransactionBody> = (bin, index) => {
+  const flagIndex = index + 1;
+  return bin[flagIndex] !== segwitFlag
+    ? TransactionDecodingError.unknownSegwitFlag
+    : andThen(readInputsAndOutputs(bin, flagIndex + 1), transaction =>
+        readWitnesses(transaction)(bin, transaction.nextIndex)
+      );
+};
+
+/**
+ * Returns true if the transaction body beginning at `index` uses the segwit
+ * serialization: the marker (an input count of `0`), followed by a non-zero
+ * flag.
+ */
+const isSegwitSerialization = (bin: Uint8Array, index: number) =>
+  index + 1 < bin.length && bin[index] === segwitMarker && bin[index + 1] !== 0;
+
+const readTransaction: Reader<Transaction> = (bin, index) =>
+  andThen(readUint32LE(bin, index), version =>
+    andThen(
+      isSegwitSerialization(bin, version.nextIndex)
+        ? readSegwitInputsAndOutputs(bin, version.nextIndex)
+        : readInputsAndOutputs(bin, version.nextIndex),
+      body =>
+        andThen(readUint32LE(bin, body.nextIndex), locktime => ({
+          nextIndex: locktime.nextIndex,
+          value: {
+            ...body.value,
+            locktime: locktime.value,
+            version: version.value
+          }
+        }))
+    )
+  );
+
+/**
+ * Decode a transaction from its standard P2P network serialization (with or
+ * without segwit data). If the encoding is invalid, a
+ * `TransactionDecodingError` is returned.
+ *
+ * For segwit transactions, each input includes a `witness`.
+ *
+ * @param bin the encoded transaction
+ */
+export const decodeTransaction = (
+  bin: Uint8Array
+): Transaction | TransactionDecodingError => {
+  const result = readTransaction(bin, 0);
+  return isError(result)
+    ? result
+    : result.nextIndex !== bin.length
+    ? TransactionDecodingError.unexpectedData
+    : result.value;
+};
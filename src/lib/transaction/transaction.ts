@@ -0,0 +1,2 @@
+export * from './hash';
+export * from './serialization';
@@ -1,7 +1,33 @@
 // tslint:disable:no-expression-statement no-magic-numbers no-unsafe-any
 import test from 'ava';
 import * as fc from 'fast-check';
-import { binToHex, hexToBin, range, splitEvery } from './utils';
+import {
+  bigIntToBinUint64LE,
+  binToBigIntUint64LE,
+  binToHex,
+  binToHexReversed,
+  binToNumberUint16LE,
+  binToNumberUint32BE,
+  binToNumberUint32LE,
+  binToNumberUintLE,
+  CompactSizeDecodingError,
+  flattenBinArray,
+  HexDecodingErrorType,
+  hexToBin,
+  hexToBinStrict,
+  isHex,
+  numberToBinCompactSize,
+  numberToBinUint16LE,
+  numberToBinUint32BE,
+  numberToBinUint32LE,
+  numberToBinUint64LE,
+  numberToBinUintLE,
+  range,
+  readCompactSize,
+  splitEvery,
+  swapEndianness,
+  utf8ToBin
+} from './utils';
 
 const maxUint8Number = 255;
 const fcUint8Array = (minLength: number, maxLength: number) =>
@@ -19,6 +45,14 @@ test('splitEvery', t => {
   t.deepEqual(splitEvery('abcde', 2), ['ab', 'cd', 'e']);
 });
 
+test('flattenBinArray', t => {
+  t.deepEqual(
+    flattenBinArray([Uint8Array.of(1), new Uint8Array(0), Uint8Array.of(2, 3)]),
+    Uint8Array.of(1, 2, 3)
+  );
+  t.deepEqual(flattenBinArray([]), new Uint8Array(0));
+});
+
 test('hexToBin', t => {
   t.deepEqual(
     hexToBin('0001022a646566ff'),
@@ -33,6 +67,71 @@ test('binToHex', t => {
   );
 });
 
+test('isHex', t => {
+  t.true(isHex(''));
+  t.true(isHex('0001022a646566ff'));
+  t.true(isHex('ABCDEF'));
+  t.false(isHex('0'));
+  t.false(isHex('zz'));
+  t.false(isHex('0x00'));
+  t.false(isHex('00 '));
+});
+
+test('hexToBinStrict', t => {
+  t.deepEqual(
+    hexToBinStrict('0001022A646566ff'),
+    new Uint8Array([0, 1, 2, 42, 100, 101, 102, 255])
+  );
+  t.deepEqual(hexToBinStrict(''), new Uint8Array([]));
+  t.deepEqual(hexToBinStrict('2a6z'), {
+    error: HexDecodingErrorType.invalidCharacter,
+    index: 3
+  });
+  t.deepEqual(hexToBinStrict('zz'), {
+    error: HexDecodingErrorType.invalidCharacter,
+    index: 0
+  });
+  t.deepEqual(hexToBinStrict('2a6'), {
+    error: HexDecodingErrorType.oddLength,
+    index: 2
+  });
+});
+
+test('swapEndianness', t => {
+  t.deepEqual(swapEndianness(''), '');
+  t.deepEqual(swapEndianness('2a64ff'), 'ff642a');
+  t.deepEqual(
+    swapEndianness(
+      '3ba3edfd7a7b12b27ac72c3e67768f617fc81bc3888a51323a9fb8aa4b1e5e4a'
+    ),
+    '4a5e1e4baab89f3a32518a88c31bc87f618f76673e2cc77ab2127b7afdeda33b'
+  );
+});
+
+test('binToHexReversed', t => {
+  const bytes = new Uint8Array([42, 100, 255]);
+  t.deepEqual(binToHexReversed(bytes), 'ff642a');
+  t.deepEqual(bytes, new Uint8Array([42, 100, 255]));
+});
+
+test('binToHex: equivalent to Node.js Buffer', t => {
+  const equivalentToNode = fc.property(fcUint8Array(0, 100), input => {
+    t.deepEqual(binToHex(input), Buffer.from(input).toString('hex'));
+  });
+  t.notThrows(() => {
+    fc.assert(equivalentToNode);
+  });
+});
+
+test('hexToBinStrict <-> binToHex', t => {
+  const inverse = fc.property(fcUint8Array(0, 100), input => {
+    t.deepEqual(hexToBinStrict(binToHex(input)), input);
+  });
+  t.notThrows(() => {
+    fc.assert(inverse);
+  });
+});
+
 test('hexToBin <-> binToHex', t => {
   const inverse = fc.property(
     fcUint8Array(0, 100),
@@ -40,3 +139,207 @@ test('hexToBin <-> binToHex', t => {
   );
   t.notThrows(() => fc.assert(inverse));
 });
+
+test('binToNumberUintLE', t => {
+  t.deepEqual(binToNumberUintLE(new Uint8Array(0)), 0);
+  t.deepEqual(binToNumberUintLE(new Uint8Array([0x34, 0x12])), 0x1234);
+  t.deepEqual(
+    binToNumberUintLE(
+      new Uint8Array([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x1f])
+    ),
+    Number.MAX_SAFE_INTEGER
+  );
+});
+
+test('numberToBinUintLE <-> binToNumberUintLE', t => {
+  const inverse = fc.property(
+    fc.integer(0, 0xffffffff),
+    value => binToNumberUintLE(numberToBinUintLE(value, 4)) === value
+  );
+  t.notThrows(() => fc.assert(inverse));
+});
+
+test('numberToBinUintLE', t => {
+  t.deepEqual(numberToBinUintLE(0, 2), new Uint8Array([0, 0]));
+  t.deepEqual(numberToBinUintLE(0x1234, 2), new Uint8Array([0x34, 0x12]));
+  t.deepEqual(numberToBinUintLE(0x1234, 3), new Uint8Array([0x34, 0x12, 0]));
+});
+
+test('numberToBinUint32LE', t => {
+  t.deepEqual(numberToBinUint32LE(1), new Uint8Array([1, 0, 0, 0]));
+  t.deepEqual(
+    numberToBinUint32LE(0xffffffff),
+    new Uint8Array([0xff, 0xff, 0xff, 0xff])
+  );
+});
+
+test('numberToBinUint16LE <-> binToNumberUint16LE', t => {
+  t.deepEqual(numberToBinUint16LE(0x1234), new Uint8Array([0x34, 0x12]));
+  t.deepEqual(binToNumberUint16LE(new Uint8Array([0x34, 0x12, 0xff])), 0x1234);
+  const inverse = fc.property(fc.integer(0, 0xffff), value => {
+    t.deepEqual(binToNumberUint16LE(numberToBinUint16LE(value)), value);
+  });
+  t.notThrows(() => {
+    fc.assert(inverse);
+  });
+});
+
+test('binToNumberUint32LE', t => {
+  t.deepEqual(
+    binToNumberUint32LE(new Uint8Array([0x78, 0x56, 0x34, 0x12, 0xff])),
+    0x12345678
+  );
+  const inverse = fc.property(fc.integer(0, 0xffffffff), value => {
+    t.deepEqual(binToNumberUint32LE(numberToBinUint32LE(value)), value);
+  });
+  t.notThrows(() => {
+    fc.assert(inverse);
+  });
+});
+
+test('bigIntToBinUint64LE <-> binToBigIntUint64LE', t => {
+  t.deepEqual(
+    bigIntToBinUint64LE(BigInt(1)),
+    new Uint8Array([1, 0, 0, 0, 0, 0, 0, 0])
+  );
+  t.deepEqual(
+    bigIntToBinUint64LE(BigInt('0xffffffffffffffff')),
+    new Uint8Array([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff])
+  );
+  t.deepEqual(
+    bigIntToBinUint64LE(BigInt('2100000000000000')),
+    hexToBin('0040075af0750700')
+  );
+  t.deepEqual(
+    binToBigIntUint64LE(hexToBin('000102030405060708090a')),
+    BigInt('0x0706050403020100')
+  );
+  t.deepEqual(
+    binToBigIntUint64LE(hexToBin('ff000102030405060708').subarray(1)),
+    BigInt('0x0706050403020100')
+  );
+  t.throws(() => binToBigIntUint64LE(new Uint8Array(7)));
+  t.throws(() => bigIntToBinUint64LE(BigInt(-1)));
+  t.throws(() => bigIntToBinUint64LE(BigInt('0x10000000000000000')));
+  const inverse = fc.property(fcUint8Array(8, 8), bin => {
+    t.deepEqual(bigIntToBinUint64LE(binToBigIntUint64LE(bin)), bin);
+  });
+  t.notThrows(() => {
+    fc.assert(inverse);
+  });
+});
+
+test('numberToBinUint32BE', t => {
+  t.deepEqual(numberToBinUint32BE(1), new Uint8Array([0, 0, 0, 1]));
+  t.deepEqual(numberToBinUint32BE(0x80000000), new Uint8Array([0x80, 0, 0, 0]));
+});
+
+test('numberToBinUint32BE <-> binToNumberUint32BE', t => {
+  const inverse = fc.property(fc.integer(0, 0xffffffff), value => {
+    t.deepEqual(binToNumberUint32BE(numberToBinUint32BE(value)), value);
+  });
+  t.notThrows(() => {
+    fc.assert(inverse);
+  });
+});
+
+test('numberToBinUint64LE', t => {
+  t.deepEqual(
+    numberToBinUint64LE(0x12345678),
+    new Uint8Array([0x78, 0x56, 0x34, 0x12, 0, 0, 0, 0])
+  );
+  t.deepEqual(
+    numberToBinUint64LE(Number.MAX_SAFE_INTEGER),
+    new Uint8Array([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x1f, 0])
+  );
+});
+
+test('numberToBinCompactSize', t => {
+  t.deepEqual(numberToBinCompactSize(0), new Uint8Array([0]));
+  t.deepEqual(numberToBinCompactSize(0xfc), new Uint8Array([0xfc]));
+  t.deepEqual(numberToBinCompactSize(0xfd), new Uint8Array([0xfd, 0xfd, 0]));
+  t.deepEqual(
+    numberToBinCompactSize(0x10000),
+    new Uint8Array([0xfe, 0, 0, 1, 0])
+  );
+  t.deepEqual(
+    numberToBinCompactSize(0x100000000),
+    new Uint8Array([0xff, 0, 0, 0, 0, 1, 0, 0, 0])
+  );
+  t.deepEqual(
+    numberToBinCompactSize(Number.MAX_SAFE_INTEGER),
+    new Uint8Array([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x1f, 0])
+  );
+  [Number.MAX_SAFE_INTEGER + 1, -1, 1.5].forEach(value => {
+    t.throws(
+      () => numberToBinCompactSize(value),
+      'Value is out of range for a CompactSize (must be an integer from 0 to Number.MAX_SAFE_INTEGER).'
+    );
+  });
+});
+
+test('readCompactSize', t => {
+  t.deepEqual(readCompactSize(new Uint8Array([0xfc])), {
+    nextIndex: 1,
+    value: 0xfc
+  });
+  t.deepEqual(readCompactSize(new Uint8Array([0, 0xfd, 0xfd, 0]), 1), {
+    nextIndex: 4,
+    value: 0xfd
+  });
+  t.deepEqual(readCompactSize(hexToBin('fe00000100')), {
+    nextIndex: 5,
+    value: 0x10000
+  });
+  t.deepEqual(readCompactSize(hexToBin('ff0000000001000000')), {
+    nextIndex: 9,
+    value: 0x100000000
+  });
+  t.deepEqual(
+    readCompactSize(new Uint8Array([])),
+    CompactSizeDecodingError.insufficientBytes
+  );
+  t.deepEqual(
+    readCompactSize(new Uint8Array([0xfd, 0xfd])),
+    CompactSizeDecodingError.insufficientBytes
+  );
+  t.deepEqual(
+    readCompactSize(new Uint8Array([0xfd, 0xfc, 0])),
+    CompactSizeDecodingError.nonMinimal
+  );
+  t.deepEqual(
+    readCompactSize(hexToBin('ff0000000000000000')),
+    CompactSizeDecodingError.nonMinimal
+  );
+  t.deepEqual(readCompactSize(hexToBin('ffffffffffffffffff')), {
+    nextIndex: 9,
+    value: 0xffffffffffffffff
+  });
+});
+
+test('numberToBinCompactSize <-> readCompactSize', t => {
+  const inverse = fc.property(fc.integer(0, Number.MAX_SAFE_INTEGER), value => {
+    const bin = numberToBinCompactSize(value);
+    t.deepEqual(readCompactSize(bin), { nextIndex: bin.length, value });
+  });
+  t.notThrows(() => {
+    fc.assert(inverse);
+  });
+});
+
+test('utf8ToBin', t => {
+  t.deepEqual(utf8ToBin(''), new Uint8Array([]));
+  t.deepEqual(utf8ToBin('abc'), new Uint8Array([0x61, 0x62, 0x63]));
+  t.deepEqual(utf8ToBin('é€'), new Uint8Array([0xc3, 0xa9, 0xe2, 0x82, 0xac]));
+  t.deepEqual(utf8ToBin('😀'), new Uint8Array([0xf0, 0x9f, 0x98, 0x80]));
+  t.deepEqual(utf8ToBin('\ud800'), new Uint8Array([0xef, 0xbf, 0xbd]));
+});
+
+test('utf8ToBin: equivalent to Node.js Buffer', t => {
+  const equivalentToNode = fc.property(fc.fullUnicodeString(), text => {
+    t.deepEqual(utf8ToBin(text), new Uint8Array(Buffer.from(text, 'utf8')));
+  });
+  t.notThrows(() => {
+    fc.assert(equivalentToNode);
+  });
+});
@@ -34,6 +34,66 @@ export const hexToBin = (hex: string) =>
     splitEvery(hex, hexByteWidth).map(byte => parseInt(byte, hexadecimal))
   );
 
+/**
+ * The reasons for which strictly decoding a hexadecimal-encoded string may
+ * fail.
+ */
+export enum HexDecodingErrorType {
+  invalidCharacter = 'Hex string contains a non-hexadecimal character.',
+  oddLength = 'Hex string must have an even length.'
+}
+
+/**
+ * An error encountered while strictly decoding a hexadecimal-encoded string.
+ */
+export interface HexDecodingError {
+  /**
+   * The reason decoding failed.
+   */
+  readonly error: HexDecodingErrorType;
+  /**
+   * The 0-based index of the offending character (for `oddLength`, the final,
+   * unpaired character).
+   */
+  readonly index: number;
+}
+
+const nonHexCharacter = /[^0-9a-f]/i;
+
+/**
+ * Returns true if `text` is a valid hexadecimal-encoded string: an even number
+ * of characters, each of which is `0-9`, `a-f`, or `A-F`. (The empty string is
+ * valid.)
+ *
+ * @param text the string to check
+ */
+export const isHex = (text: string) =>
+  text.length % hexByteWidth === 0 && !nonHexCharacter.test(text);
+
+/**
+ * Decode a hexadecimal-encoded string into a Uint8Array, verifying that it is
+ * valid (see `isHex`). If it is not valid, returns a `HexDecodingError`
+ * indicating the index of the offending character.
+ *
+ * E.g.: `hexToBinStrict('2a6z')` =>
+ * `{ error: HexDecodingErrorType.invalidCharacter, index: 3 }`
+ *
+ * @param hex a string of hexadecimal-encoded data
+ */
+export const hexToBinStrict = (hex: string): Uint8Array | HexDecodingError => {
+  const invalidIndex = hex.search(nonHexCharacter);
+  return invalidIndex !== -1
+    ? { error: HexDecodingErrorType.invalidCharacter, index: invalidIndex }
+    : hex.length % hexByteWidth === 0
+    ? hexToBin(hex)
+    : { error: HexDecodingErrorType.oddLength, index: hex.length - 1 };
+};
+
+// tslint:disable-next-line:no-magic-numbers
+const hexByteLookup = range(256).map(byte =>
+  byte.toString(hexadecimal).padStart(hexByteWidth, '0')
+);
+
 /**
  * Encode a Uint8Array into a hexadecimal-encoded string.
  *
@@ -41,8 +101,350 @@ export const hexToBin = (hex: string) =>
  *
  * @param bytes a Uint8Array to encode
  */
-export const binToHex = (bytes: Uint8Array) =>
-  bytes.reduce(
-    (str, byte) => str + byte.toString(hexadecimal).padStart(hexByteWidth, '0'),
-    ''
+export const binToHex = (bytes: Uint8Array) => {
+  // tslint:disable:no-let no-expression-statement
+  let hex = '';
+  for (const byte of bytes) {
+    hex += hexByteLookup[byte];
+  }
+  // tslint:enable:no-let no-expression-statement
+  return hex;
+};
+
+/**
+ * Reverse the byte order of a hexadecimal-encoded string, e.g. to convert
+ * between the internal (little-endian) byte order of a hash and the byte order
+ * in which transaction and block hashes are displayed.
+ *
+ * E.g.: `swapEndianness('2a64ff')` => `'ff642a'`
+ *
+ * @param hex a string of hexadecimal-encoded data
+ */
+export const swapEndianness = (hex: string) =>
+  splitEvery(hex, hexByteWidth)
+    .reverse()
+    .join('');
+
+/**
+ * Encode a Uint8Array into a hexadecimal-encoded string in reverse byte order,
+ * e.g. to display a transaction hash (`sha256(sha256(transaction))`) as a
+ * transaction ID.
+ *
+ * E.g.: `binToHexReversed(new Uint8Array([42, 100, 255]))` => `'ff642a'`
+ *
+ * @param bytes a Uint8Array to encode
+ */
+export const binToHexReversed = (bytes: Uint8Array) =>
+  binToHex(bytes.slice().reverse());
+
+/**
+ * Reduce an array of `Uint8Array`s into a single `Uint8Array`.
+ *
+ * E.g.: `flattenBinArray([new Uint8Array([1]), new Uint8Array([2, 3])])` =>
+ * `new Uint8Array([1, 2, 3])`
+ *
+ * @param array the array of `Uint8Array`s to flatten
+ */
+export const flattenBinArray = (array: ReadonlyArray<Uint8Array>) => {
+  const totalLength = array.reduce((total, bin) => total + bin.length, 0);
+  const flattened = new Uint8Array(totalLength);
+  // tslint:disable-next-line:no-expression-statement
+  array.reduce((index, bin) => {
+    // tslint:disable-next-line:no-expression-statement
+    flattened.set(bin, index);
+    return index + bin.length;
+  }, 0);
+  return flattened;
+};
+
+const byteBase = 256;
+
+/**
+ * Encode a positive integer as a little-endian Uint8Array of `bytes` length.
+ * Bytes beyond the range of `value` are filled with zeros.
+ *
+ * @param value the integer to encode (must be a safe integer)
+ * @param bytes the length of the resulting Uint8Array
+ */
+export const numberToBinUintLE = (value: number, bytes: number) =>
+  new Uint8Array(
+    range(bytes).map(index =>
+      Math.floor((value / Math.pow(byteBase, index)) % byteBase)
+    )
+  );
+
+/**
+ * Decode a little-endian Uint8Array of any length into a number. For numbers
+ * larger than `Number.MAX_SAFE_INTEGER`, precision is lost.
+ *
+ * E.g.: `binToNumberUintLE(new Uint8Array([0x34, 0x12]))` => `0x1234`
+ *
+ * @param bin the little-endian Uint8Array to decode
+ */
+export const binToNumberUintLE = (bin: Uint8Array) =>
+  bin.reduceRight((value, byte) => value * byteBase + byte, 0);
+
+// tslint:disable:no-magic-numbers
+/**
+ * Encode a positive integer as a 2-byte, little-endian Uint8Array (a
+ * `uint16_t` in C).
+ *
+ * E.g.: `numberToBinUint16LE(0x1234)` => `new Uint8Array([0x34, 0x12])`
+ *
+ * @param value the integer to encode (maximum: `0xffff`)
+ */
+export const numberToBinUint16LE = (value: number) =>
+  numberToBinUintLE(value, 2);
+
+/**
+ * Decode a 2-byte, little-endian Uint8Array into a number. Bytes beyond the
+ * first 2 are ignored.
+ *
+ * @param bin the little-endian Uint8Array to decode
+ */
+export const binToNumberUint16LE = (bin: Uint8Array) =>
+  binToNumberUintLE(bin.slice(0, 2));
+
+/**
+ * Decode a 4-byte, little-endian Uint8Array into a number. Bytes beyond the
+ * first 4 are ignored.
+ *
+ * @param bin the little-endian Uint8Array to decode
+ */
+export const binToNumberUint32LE = (bin: Uint8Array) =>
+  binToNumberUintLE(bin.slice(0, 4));
+
+/**
+ * Encode a positive integer as a 4-byte, little-endian Uint8Array (a
+ * `uint32_t` in C).
+ *
+ * E.g.: `numberToBinUint32LE(1)` => `new Uint8Array([1, 0, 0, 0])`
+ *
+ * @param value the integer to encode (maximum: `0xffffffff`)
+ */
+export const numberToBinUint32LE = (value: number) =>
+  numberToBinUintLE(value, 4);
+
+/**
+ * Encode a positive integer as an 8-byte, little-endian Uint8Array (a
+ * `uint64_t` in C).
+ *
+ * @param value the integer to encode (must be a safe integer)
+ */
+export const numberToBinUint64LE = (value: number) =>
+  numberToBinUintLE(value, 8);
+
+const uint64Bytes = 8;
+
+/**
+ * Encode a positive `bigint` as an 8-byte, little-endian Uint8Array (a
+ * `uint64_t` in C), e.g. to encode a satoshi value without loss of precision.
+ *
+ * Throws if `value` is negative or greater than `0xffffffffffffffff`.
+ *
+ * E.g.: `bigIntToBinUint64LE(BigInt(1))` =>
+ * `new Uint8Array([1, 0, 0, 0, 0, 0, 0, 0])`
+ *
+ * @param value the integer to encode (maximum: `0xffffffffffffffff`)
+ */
+export const bigIntToBinUint64LE = (value: bigint) => {
+  // tslint:disable-next-line:no-if-statement no-magic-numbers strict-comparisons
+  if (BigInt.asUintN(64, value) !== value) {
+    // tslint:disable-next-line:no-throw
+    throw new Error(
+      'Value is out of range for a uint64 (must be from 0 to 0xffffffffffffffff).'
+    );
+  }
+  const bin = new Uint8Array(uint64Bytes);
+  // tslint:disable-next-line:no-expression-statement
+  new DataView(bin.buffer).setBigUint64(0, value, true);
+  return bin;
+};
+
+/**
+ * Decode an 8-byte, little-endian Uint8Array (a `uint64_t` in C) into a
+ * `bigint`. Bytes beyond the first 8 are ignored.
+ *
+ * Throws if `bin` is shorter than 8 bytes.
+ *
+ * @param bin the little-endian Uint8Array to decode
+ */
+export const binToBigIntUint64LE = (bin: Uint8Array) =>
+  new DataView(bin.buffer, bin.byteOffset, uint64Bytes).getBigUint64(0, true);
+
+/**
+ * Encode a positive integer as a 4-byte, big-endian Uint8Array.
+ *
+ * E.g.: `numberToBinUint32BE(1)` => `new Uint8Array([0, 0, 0, 1])`
+ *
+ * @param value the integer to encode (maximum: `0xffffffff`)
+ */
+export const numberToBinUint32BE = (value: number) =>
+  numberToBinUint32LE(value).reverse();
+
+/**
+ * Decode a 4-byte, big-endian Uint8Array into a number.
+ *
+ * E.g.: `binToNumberUint32BE(new Uint8Array([0, 0, 0x12, 0x34]))` => `0x1234`
+ *
+ * @param bin the big-endian Uint8Array to decode
+ */
+export const binToNumberUint32BE = (bin: Uint8Array) =>
+  binToNumberUintLE(bin.slice(0, 4).reverse());
+
+const compactSizeUint8Maximum = 0xfc;
+const compactSizeUint16Prefix = 0xfd;
+const compactSizeUint16Maximum = 0xffff;
+const compactSizeUint32Prefix = 0xfe;
+const compactSizeUint32Maximum = 0xffffffff;
+const compactSizeUint64Prefix = 0xff;
+
+const encodeCompactSize = (value: number) =>
+  value <= compactSizeUint8Maximum
+    ? Uint8Array.of(value)
+    : value <= compactSizeUint16Maximum
+    ? Uint8Array.from([compactSizeUint16Prefix, ...numberToBinUintLE(value, 2)])
+    : value <= compactSizeUint32Maximum
+    ? Uint8Array.from([compactSizeUint32Prefix, ...numberToBinUint32LE(value)])
+    : Uint8Array.from([compactSizeUint64Prefix, ...numberToBinUint64LE(value)]);
+
+/**
+ * Encode a positive integer as a Bitcoin CompactSize (a.k.a. "VarInt"): values
+ * up to `0xfc` are encoded in a single byte, larger values are encoded as a
+ * prefix byte (`0xfd`, `0xfe`, or `0xff`) followed by a 2, 4, or 8-byte
+ * little-endian integer.
+ *
+ * Throws if `value` is negative or is not a safe integer. (Values larger than
+ * `Number.MAX_SAFE_INTEGER` cannot be represented without loss of precision.)
+ *
+ * E.g.: `numberToBinCompactSize(253)` => `new Uint8Array([0xfd, 0xfd, 0x00])`
+ *
+ * @param value the integer to encode (maximum: `Number.MAX_SAFE_INTEGER`)
+ */
+export const numberToBinCompactSize = (value: number) => {
+  // tslint:disable-next-line:no-if-statement
+  if (!Number.isSafeInteger(value) || value < 0) {
+    // tslint:disable-next-line:no-throw
+    throw new Error(
+      'Value is out of range for a CompactSize (must be an integer from 0 to Number.MAX_SAFE_INTEGER).'
+    );
+  }
+  return encodeCompactSize(value);
+};
+
+const compactSizePrefixLengths: {
+  readonly [prefix: number]: number | undefined;
+} = {
+  [compactSizeUint16Prefix]: 2,
+  [compactSizeUint32Prefix]: 4,
+  [compactSizeUint64Prefix]: 8
+};
+// tslint:enable:no-magic-numbers
+
+/**
+ * The reasons for which reading a CompactSize may fail.
+ */
+export enum CompactSizeDecodingError {
+  insufficientBytes = 'CompactSize requires more bytes than remain in the provided Uint8Array.',
+  nonMinimal = 'CompactSize is not minimally encoded.'
+}
+
+/**
+ * The result of successfully reading a CompactSize.
+ */
+export interface CompactSizeReadResult {
+  /**
+   * The index of the byte following the CompactSize.
+   */
+  readonly nextIndex: number;
+  /**
+   * The decoded value.
+   */
+  readonly value: number;
+}
+
+const decodeCompactSizeValue = (
+  bin: Uint8Array,
+  index: number,
+  valueLength: number
+) => {
+  const nextIndex = index + 1 + valueLength;
+  const value = binToNumberUintLE(bin.slice(index + 1, nextIndex));
+  return nextIndex > bin.length
+    ? CompactSizeDecodingError.insufficientBytes
+    : encodeCompactSize(value).length === valueLength + 1
+    ? { nextIndex, value }
+    : CompactSizeDecodingError.nonMinimal;
+};
+
+/**
+ * Read a Bitcoin CompactSize (a.k.a. "VarInt") beginning at `index` of `bin`,
+ * verifying that it is minimally encoded. (This is the inverse of
+ * `numberToBinCompactSize`.) For values larger than `Number.MAX_SAFE_INTEGER`,
+ * precision is lost.
+ *
+ * E.g.: `readCompactSize(new Uint8Array([0xfd, 0xfd, 0x00]))` =>
+ * `{ nextIndex: 3, value: 253 }`
+ *
+ * @param bin the Uint8Array from which to read
+ * @param index the index at which the CompactSize begins (default: `0`)
+ */
+export const readCompactSize = (
+  bin: Uint8Array,
+  index = 0
+): CompactSizeReadResult | CompactSizeDecodingError => {
+  const valueLength = compactSizePrefixLengths[bin[index]];
+  return index >= bin.length
+    ? CompactSizeDecodingError.insufficientBytes
+    : valueLength === undefined
+    ? { nextIndex: index + 1, value: bin[index] }
+    : decodeCompactSizeValue(bin, index, valueLength);
+};
+
+// tslint:disable:no-bitwise no-magic-numbers
+const continuationByte = (codePoint: number, shift: number) =>
+  ((codePoint >> shift) & 0x3f) | 0x80;
+
+const replacementCharacter = 0xfffd;
+
+const encodeCodePointUtf8 = (codePoint: number) =>
+  codePoint < 0x80
+    ? [codePoint]
+    : codePoint < 0x800
+    ? [(codePoint >> 6) | 0xc0, continuationByte(codePoint, 0)]
+    : codePoint < 0x10000
+    ? [
+        (codePoint >> 12) | 0xe0,
+        continuationByte(codePoint, 6),
+        continuationByte(codePoint, 0)
+      ]
+    : [
+        (codePoint >> 18) | 0xf0,
+        continuationByte(codePoint, 12),
+        continuationByte(codePoint, 6),
+        continuationByte(codePoint, 0)
+      ];
+
+const isSurrogate = (codePoint: number) =>
+  codePoint >= 0xd800 && codePoint <= 0xdfff;
+// tslint:enable:no-bitwise no-magic-numbers
+
+/**
+ * Encode a string as a UTF-8 Uint8Array. Unpaired surrogates are replaced by
+ * the replacement character (`U+FFFD`).
+ *
+ * E.g.: `utf8ToBin('€')` => `new Uint8Array([0xe2, 0x82, 0xac])`
+ *
+ * @param utf8 the string to encode
+ */
+export const utf8ToBin = (utf8: string) =>
+  flattenBinArray(
+    [...utf8].map(character => {
+      const codePoint = character.codePointAt(0) as number;
+      return Uint8Array.from(
+        encodeCodePointUtf8(
+          isSurrogate(codePoint) ? replacementCharacter : codePoint
+        )
+      );
+    })
   );
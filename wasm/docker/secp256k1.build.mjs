@@ -0,0 +1,125 @@
+// Compiles wasm/secp256k1 to a standalone WebAssembly module using the
+// @yowasp/clang toolchain (Clang, LLD, and wasi-libc compiled to WebAssembly).
+//
+// wasm/secp256k1 is a copy of the `include` and `src` directories of
+// libsecp256k1 v0.1 (without tests or benchmarks) with the addition of
+// `secp256k1_ecdsa_signature_malleate` (used to test signature normalization)
+// and a port of the Bitcoin Cash Schnorr signature module from Bitcoin ABC.
+//
+// Usage: node secp256k1.build.mjs <path to wasm/secp256k1> <output .wasm path>
+import { commands } from '@yowasp/clang';
+import { readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const [sourceDirectory, outputPath] = process.argv.slice(2);
+
+const modules = [
+  'ENABLE_MODULE_ECDH',
+  'ENABLE_MODULE_RECOVERY',
+  'ENABLE_MODULE_EXTRAKEYS',
+  'ENABLE_MODULE_SCHNORRSIG',
+  'ENABLE_MODULE_SCHNORR'
+];
+
+const exportedFunctions = [
+  'malloc',
+  'free',
+  'secp256k1_context_create',
+  'secp256k1_context_randomize',
+  'secp256k1_ec_seckey_verify',
+  'secp256k1_ec_privkey_negate',
+  'secp256k1_ec_privkey_tweak_add',
+  'secp256k1_ec_privkey_tweak_mul',
+  'secp256k1_ec_pubkey_combine',
+  'secp256k1_ec_pubkey_create',
+  'secp256k1_ec_pubkey_negate',
+  'secp256k1_ec_pubkey_parse',
+  'secp256k1_ec_pubkey_serialize',
+  'secp256k1_ec_pubkey_tweak_add',
+  'secp256k1_ec_pubkey_tweak_mul',
+  'secp256k1_ecdh',
+  'secp256k1_ecdsa_sign',
+  'secp256k1_ecdsa_signature_malleate',
+  'secp256k1_ecdsa_signature_normalize',
+  'secp256k1_ecdsa_signature_parse_der',
+  'secp256k1_ecdsa_signature_parse_compact',
+  'secp256k1_ecdsa_signature_serialize_der',
+  'secp256k1_ecdsa_signature_serialize_compact',
+  'secp256k1_ecdsa_verify',
+  'secp256k1_ecdsa_sign_recoverable',
+  'secp256k1_ecdsa_recover',
+  'secp256k1_ecdsa_recoverable_signature_serialize_compact',
+  'secp256k1_ecdsa_recoverable_signature_parse_compact',
+  'secp256k1_keypair_create',
+  'secp256k1_keypair_sec',
+  'secp256k1_keypair_xonly_tweak_add',
+  'secp256k1_xonly_pubkey_from_pubkey',
+  'secp256k1_xonly_pubkey_parse',
+  'secp256k1_xonly_pubkey_serialize',
+  'secp256k1_xonly_pubkey_tweak_add',
+  'secp256k1_schnorrsig_sign',
+  'secp256k1_schnorrsig_verify',
+  'secp256k1_schnorr_sign',
+  'secp256k1_schnorr_verify'
+];
+
+// must match `instantiateSecp256k1WasmBytes` in src/lib/bin/secp256k1/secp256k1Wasm.ts
+const totalMemory = 16777216;
+const totalStack = 5242880;
+
+// The toolchain's virtual filesystem cannot resolve `..` path segments, so
+// relative includes (e.g. `#include "../include/secp256k1.h"`) are rewritten
+// to be resolved from the `-I` directories below.
+const flattenIncludes = source =>
+  source.replace(/#include "(\.\.\/)+(include\/)?/g, '#include "');
+
+const readTree = directory =>
+  readdirSync(directory).reduce((tree, name) => {
+    const path = join(directory, name);
+    return {
+      ...tree,
+      [name]: statSync(path).isDirectory()
+        ? readTree(path)
+        : /\.[ch]$/.test(name)
+        ? flattenIncludes(readFileSync(path, 'utf8'))
+        : readFileSync(path)
+    };
+  }, {});
+
+const files = {
+  secp256k1: {
+    include: readTree(join(sourceDirectory, 'include')),
+    src: readTree(join(sourceDirectory, 'src'))
+  },
+  'callbacks.c': readFileSync(
+    join(dirname(fileURLToPath(import.meta.url)), 'secp256k1.callbacks.c')
+  )
+};
+
+const output = await commands.clang(
+  [
+    '--target=wasm32-wasip1',
+    '-O3',
+    '-nostartfiles',
+    '-DECMULT_WINDOW_SIZE=15',
+    '-DECMULT_GEN_PREC_BITS=4',
+    '-DUSE_EXTERNAL_DEFAULT_CALLBACKS',
+    '-Isecp256k1/include',
+    '-Isecp256k1/src',
+    ...modules.map(module => `-D${module}`),
+    'secp256k1/src/secp256k1.c',
+    'callbacks.c',
+    '-Wl,--no-entry',
+    '-Wl,--import-memory',
+    `-Wl,--initial-memory=${totalMemory}`,
+    `-Wl,--max-memory=${totalMemory}`,
+    `-Wl,-z,stack-size=${totalStack}`,
+    ...exportedFunctions.map(name => `-Wl,--export=${name}`),
+    '-o',
+    'secp256k1.wasm'
+  ],
+  files
+);
+
+writeFileSync(outputPath, output['secp256k1.wasm']);
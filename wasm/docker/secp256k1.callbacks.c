@@ -0,0 +1,24 @@
+/**
+ * The default illegal argument and internal error callbacks of libsecp256k1
+ * print to stderr before aborting, which would require the WebAssembly module
+ * to import WASI functions. (See `USE_EXTERNAL_DEFAULT_CALLBACKS` in
+ * `src/secp256k1.c`.) Instead, these callbacks trap, causing the calling
+ * JavaScript to throw a `WebAssembly.RuntimeError`.
+ *
+ * A trap unwinds the WebAssembly call stack without restoring the module's
+ * stack pointer (and may leave heap allocations or a context in an
+ * inconsistent state), so the instance must not be used after a trap: it
+ * should be discarded and a new instance created.
+ */
+
+void secp256k1_default_illegal_callback_fn(const char *message, void *data) {
+  (void)message;
+  (void)data;
+  __builtin_trap();
+}
+
+void secp256k1_default_error_callback_fn(const char *message, void *data) {
+  (void)message;
+  (void)data;
+  __builtin_trap();
+}
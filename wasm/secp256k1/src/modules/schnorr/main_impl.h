@@ -0,0 +1,144 @@
+/***********************************************************************
+ * Ported from the schnorr module of Bitcoin ABC's libsecp256k1.       *
+ * Distributed under the MIT software license, see the accompanying    *
+ * file COPYING or https://www.opensource.org/licenses/mit-license.php.*
+ ***********************************************************************/
+
+#ifndef SECP256K1_MODULE_SCHNORR_MAIN_H
+#define SECP256K1_MODULE_SCHNORR_MAIN_H
+
+#include "../../../include/secp256k1.h"
+#include "../../../include/secp256k1_schnorr.h"
+#include "../../hash.h"
+
+/* The algorithm identifier passed to the nonce function, so RFC6979 nonces
+ * differ from those used for ECDSA signatures with the same key and message. */
+static const unsigned char secp256k1_schnorr_algo16[17] = "Schnorr+SHA256  ";
+
+/* e = sha256(r32 || compressed(pubkey) || msg32) */
+static void secp256k1_schnorr_compute_e(secp256k1_scalar *e, const unsigned char *r32, secp256k1_ge *pubkey, const unsigned char *msg32) {
+    unsigned char buf[33];
+    size_t buflen = sizeof(buf);
+    secp256k1_sha256 sha;
+
+    secp256k1_sha256_initialize(&sha);
+    secp256k1_sha256_write(&sha, r32, 32);
+    secp256k1_eckey_pubkey_serialize(pubkey, buf, &buflen, 1);
+    secp256k1_sha256_write(&sha, buf, buflen);
+    secp256k1_sha256_write(&sha, msg32, 32);
+    secp256k1_sha256_finalize(&sha, buf);
+    secp256k1_scalar_set_b32(e, buf, NULL);
+}
+
+/* The affine Y coordinate of a jacobian point is y/z^3, which is a quadratic
+ * residue if and only if y*z is. */
+static int secp256k1_schnorr_gej_has_quad_y_var(const secp256k1_gej *a) {
+    secp256k1_fe yz, root;
+
+    secp256k1_fe_mul(&yz, &a->y, &a->z);
+    return secp256k1_fe_sqrt(&root, &yz);
+}
+
+int secp256k1_schnorr_verify(const secp256k1_context* ctx, const unsigned char *sig64, const unsigned char *msghash32, const secp256k1_pubkey *pubkey) {
+    secp256k1_scalar s, e;
+    secp256k1_fe rx;
+    secp256k1_ge pk;
+    secp256k1_gej pkj, rj;
+    int overflow;
+
+    VERIFY_CHECK(ctx != NULL);
+    ARG_CHECK(secp256k1_ecmult_context_is_built(&ctx->ecmult_ctx));
+    ARG_CHECK(sig64 != NULL);
+    ARG_CHECK(msghash32 != NULL);
+    ARG_CHECK(pubkey != NULL);
+
+    if (!secp256k1_fe_set_b32(&rx, &sig64[0])) {
+        return 0;
+    }
+    secp256k1_scalar_set_b32(&s, &sig64[32], &overflow);
+    if (overflow) {
+        return 0;
+    }
+    if (!secp256k1_pubkey_load(ctx, &pk, pubkey)) {
+        return 0;
+    }
+
+    /* R = s*G - e*P */
+    secp256k1_schnorr_compute_e(&e, &sig64[0], &pk, msghash32);
+    secp256k1_scalar_negate(&e, &e);
+    secp256k1_gej_set_ge(&pkj, &pk);
+    secp256k1_ecmult(&ctx->ecmult_ctx, &rj, &pkj, &e, &s);
+
+    return !secp256k1_gej_is_infinity(&rj)
+        && secp256k1_gej_eq_x_var(&rx, &rj)
+        && secp256k1_schnorr_gej_has_quad_y_var(&rj);
+}
+
+int secp256k1_schnorr_sign(const secp256k1_context* ctx, unsigned char *sig64, const unsigned char *msghash32, const unsigned char *seckey, secp256k1_nonce_function noncefp, const void *ndata) {
+    secp256k1_scalar sec, k, e, s;
+    secp256k1_gej pkj, rj;
+    secp256k1_ge pk, r;
+    secp256k1_fe root;
+    unsigned char nonce32[32];
+    unsigned int count = 0;
+    int is_sec_valid;
+    int ret = 0;
+
+    VERIFY_CHECK(ctx != NULL);
+    ARG_CHECK(secp256k1_ecmult_gen_context_is_built(&ctx->ecmult_gen_ctx));
+    ARG_CHECK(sig64 != NULL);
+    ARG_CHECK(msghash32 != NULL);
+    ARG_CHECK(seckey != NULL);
+
+    if (noncefp == NULL) {
+        noncefp = secp256k1_nonce_function_default;
+    }
+
+    /* Fail if the secret key is invalid. */
+    is_sec_valid = secp256k1_scalar_set_b32_seckey(&sec, seckey);
+    secp256k1_scalar_cmov(&sec, &secp256k1_scalar_one, !is_sec_valid);
+    secp256k1_ecmult_gen(&ctx->ecmult_gen_ctx, &pkj, &sec);
+    secp256k1_ge_set_gej(&pk, &pkj);
+
+    while (1) {
+        int is_nonce_valid;
+        ret = !!noncefp(nonce32, msghash32, seckey, secp256k1_schnorr_algo16, (void*)ndata, count);
+        if (!ret) {
+            break;
+        }
+        is_nonce_valid = secp256k1_scalar_set_b32_seckey(&k, nonce32);
+        /* The nonce is still secret here, but it being invalid is is less likely than 1:2^255. */
+        secp256k1_declassify(ctx, &is_nonce_valid, sizeof(is_nonce_valid));
+        if (is_nonce_valid) {
+            break;
+        }
+        count++;
+    }
+
+    if (ret) {
+        secp256k1_ecmult_gen(&ctx->ecmult_gen_ctx, &rj, &k);
+        secp256k1_ge_set_gej(&r, &rj);
+        /* Negate the nonce if the Y coordinate of R is not a quadratic residue. */
+        secp256k1_scalar_cond_negate(&k, !secp256k1_fe_sqrt(&root, &r.y));
+        secp256k1_fe_normalize(&r.x);
+        secp256k1_fe_get_b32(&sig64[0], &r.x);
+
+        /* s = k + e*x */
+        secp256k1_schnorr_compute_e(&e, &sig64[0], &pk, msghash32);
+        secp256k1_scalar_mul(&s, &e, &sec);
+        secp256k1_scalar_add(&s, &s, &k);
+        secp256k1_scalar_get_b32(&sig64[32], &s);
+    }
+
+    /* We don't want to declassify is_sec_valid and therefore the range of
+     * seckey. As a result is_sec_valid is included in ret only after ret was
+     * used as a branching variable. */
+    ret &= is_sec_valid;
+    secp256k1_memczero(sig64, 64, !ret);
+    memset(nonce32, 0, sizeof(nonce32));
+    secp256k1_scalar_clear(&k);
+    secp256k1_scalar_clear(&sec);
+    return ret;
+}
+
+#endif /* SECP256K1_MODULE_SCHNORR_MAIN_H */